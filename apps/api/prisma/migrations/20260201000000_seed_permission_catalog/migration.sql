@@ -0,0 +1,76 @@
+-- Seed the permission catalog
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES
+    (gen_random_uuid()::text, 'projects.view', 'View Projects', 'View all projects', 'Projects'),
+    (gen_random_uuid()::text, 'projects.create', 'Create Projects', 'Create new projects', 'Projects'),
+    (gen_random_uuid()::text, 'projects.edit', 'Edit Projects', 'Edit existing projects, stages and tasks', 'Projects'),
+    (gen_random_uuid()::text, 'projects.delete', 'Delete Projects', 'Delete projects', 'Projects'),
+    (gen_random_uuid()::text, 'expenses.view', 'View Expenses', 'View all expenses', 'Expenses'),
+    (gen_random_uuid()::text, 'expenses.create', 'Create Expenses', 'Create new expenses', 'Expenses'),
+    (gen_random_uuid()::text, 'expenses.edit', 'Edit Expenses', 'Edit existing expenses', 'Expenses'),
+    (gen_random_uuid()::text, 'expenses.delete', 'Delete Expenses', 'Delete expenses', 'Expenses'),
+    (gen_random_uuid()::text, 'expenses.approve', 'Approve Expenses', 'Approve pending expenses', 'Expenses'),
+    (gen_random_uuid()::text, 'payments.view', 'View Payments', 'View all payments', 'Payments'),
+    (gen_random_uuid()::text, 'payments.create', 'Create Payments', 'Create new payments', 'Payments'),
+    (gen_random_uuid()::text, 'payments.edit', 'Edit Payments', 'Edit existing payments', 'Payments'),
+    (gen_random_uuid()::text, 'payments.delete', 'Delete Payments', 'Delete payments', 'Payments'),
+    (gen_random_uuid()::text, 'team.view', 'View Team', 'View team members', 'Team'),
+    (gen_random_uuid()::text, 'team.manage', 'Manage Team', 'Add, edit, or remove team members', 'Team'),
+    (gen_random_uuid()::text, 'roles.view', 'View Roles', 'View roles and permissions', 'Roles'),
+    (gen_random_uuid()::text, 'roles.manage', 'Manage Roles', 'Create, edit, or delete roles', 'Roles'),
+    (gen_random_uuid()::text, 'parties.view', 'View Parties', 'View vendors, labours, and subcontractors', 'Parties'),
+    (gen_random_uuid()::text, 'parties.manage', 'Manage Parties', 'Add, edit, or remove parties', 'Parties'),
+    (gen_random_uuid()::text, 'boq.view', 'View BOQ', 'View bill of quantities', 'BOQ'),
+    (gen_random_uuid()::text, 'boq.manage', 'Manage BOQ', 'Create, edit, or delete BOQ items', 'BOQ'),
+    (gen_random_uuid()::text, 'advances.view', 'View Advances', 'View member advances', 'Advances'),
+    (gen_random_uuid()::text, 'advances.manage', 'Manage Advances', 'Create or settle advances', 'Advances'),
+    (gen_random_uuid()::text, 'documents.view', 'View Documents', 'View and download project documents', 'Documents'),
+    (gen_random_uuid()::text, 'documents.manage', 'Manage Documents', 'Upload or delete project documents', 'Documents'),
+    (gen_random_uuid()::text, 'categories.manage', 'Manage Categories', 'Create, edit, or delete category types and items', 'Settings')
+ON CONFLICT ("key") DO NOTHING;
+
+-- Grant defaults to system roles that have no permissions yet.
+-- ADMIN is resolved to every permission at runtime, but keep its rows complete for the roles UI.
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" = 'ADMIN'
+  AND NOT EXISTS (SELECT 1 FROM "role_permissions" rp WHERE rp."roleId" = r."id");
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" = 'MANAGER'
+  AND p."key" IN ('projects.view', 'projects.create', 'projects.edit', 'projects.delete', 'expenses.view', 'expenses.create', 'expenses.edit', 'expenses.delete', 'expenses.approve', 'payments.view', 'payments.create', 'payments.edit', 'payments.delete', 'team.view', 'parties.view', 'parties.manage', 'boq.view', 'boq.manage', 'advances.view', 'advances.manage', 'documents.view', 'documents.manage', 'categories.manage')
+  AND NOT EXISTS (SELECT 1 FROM "role_permissions" rp WHERE rp."roleId" = r."id");
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" = 'ACCOUNTANT'
+  AND p."key" IN ('projects.view', 'expenses.view', 'expenses.create', 'expenses.edit', 'expenses.delete', 'expenses.approve', 'payments.view', 'payments.create', 'payments.edit', 'payments.delete', 'team.view', 'parties.view', 'boq.view', 'advances.view', 'advances.manage', 'documents.view')
+  AND NOT EXISTS (SELECT 1 FROM "role_permissions" rp WHERE rp."roleId" = r."id");
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" = 'SUPERVISOR'
+  AND p."key" IN ('projects.view', 'expenses.view', 'expenses.create', 'payments.view', 'parties.view', 'boq.view', 'documents.view', 'documents.manage')
+  AND NOT EXISTS (SELECT 1 FROM "role_permissions" rp WHERE rp."roleId" = r."id");
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" = 'CLIENT'
+  AND p."key" IN ('projects.view', 'documents.view')
+  AND NOT EXISTS (SELECT 1 FROM "role_permissions" rp WHERE rp."roleId" = r."id");
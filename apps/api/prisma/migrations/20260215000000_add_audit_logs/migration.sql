@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateEnum
+CREATE TYPE "AuditEntityType" AS ENUM ('PROJECT', 'STAGE', 'TASK', 'EXPENSE', 'PAYMENT', 'MEMBER_ADVANCE', 'BOQ_ITEM', 'PARTY', 'ROLE');
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "actorMemberId" TEXT,
+    "entityType" "AuditEntityType" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_organizationId_createdAt_idx" ON "audit_logs"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_organizationId_entityType_entityId_idx" ON "audit_logs"("organizationId", "entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actorMemberId_idx" ON "audit_logs"("actorMemberId");
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_actorMemberId_fkey" FOREIGN KEY ("actorMemberId") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Audit rows are append-only: block edits to recorded changes.
+-- Removing the actor (SET NULL) is the one update allowed, so history survives member removal.
+CREATE FUNCTION "audit_logs_prevent_update"() RETURNS trigger AS $$
+BEGIN
+    IF NEW."actorMemberId" IS NULL AND OLD."actorMemberId" IS NOT NULL
+        AND NEW."entityType" = OLD."entityType" AND NEW."entityId" = OLD."entityId"
+        AND NEW."action" = OLD."action" AND NEW."before" IS NOT DISTINCT FROM OLD."before"
+        AND NEW."after" IS NOT DISTINCT FROM OLD."after" AND NEW."createdAt" = OLD."createdAt" THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_logs_append_only"
+    BEFORE UPDATE ON "audit_logs"
+    FOR EACH ROW EXECUTE FUNCTION "audit_logs_prevent_update"();
+
+-- Permission to read the audit trail, granted to system roles that handle money
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES (gen_random_uuid()::text, 'audit.view', 'View Audit Log', 'View the change history of records', 'Settings')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" IN ('ADMIN', 'MANAGER', 'ACCOUNTANT')
+  AND p."key" = 'audit.view'
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
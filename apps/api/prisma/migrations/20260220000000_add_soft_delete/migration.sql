@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'RESTORE';
+ALTER TYPE "AuditAction" ADD VALUE 'PURGE';
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "parties" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "projects_organizationId_deletedAt_idx" ON "projects"("organizationId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "parties_organizationId_deletedAt_idx" ON "parties"("organizationId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "expenses_organizationId_deletedAt_idx" ON "expenses"("organizationId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "payments_organizationId_deletedAt_idx" ON "payments"("organizationId", "deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "parties" ADD CONSTRAINT "parties_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Permission to browse the Trash and restore deleted records.
+-- Purging is not a permission: it is limited to the ADMIN role.
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES (gen_random_uuid()::text, 'trash.manage', 'Manage Trash', 'View and restore deleted records', 'Settings')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" IN ('ADMIN', 'MANAGER')
+  AND p."key" = 'trash.manage'
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "organization_members" ADD COLUMN "partyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "invitations" ADD COLUMN "partyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN "sharedWithClient" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "organization_members_partyId_idx" ON "organization_members"("partyId");
+
+-- CreateIndex
+CREATE INDEX "invitations_partyId_idx" ON "invitations"("partyId");
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_partyId_fkey" FOREIGN KEY ("partyId") REFERENCES "parties"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invitations" ADD CONSTRAINT "invitations_partyId_fkey" FOREIGN KEY ("partyId") REFERENCES "parties"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Clients only use the client portal, which is scoped by their linked party
+-- rather than by role permissions. Drop the staff permissions the system
+-- CLIENT role was seeded with.
+DELETE FROM "role_permissions" rp
+USING "roles" r
+WHERE rp."roleId" = r."id"
+  AND r."isSystemRole" = true
+  AND r."name" = 'CLIENT';
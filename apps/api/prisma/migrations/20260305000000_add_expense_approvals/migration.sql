@@ -0,0 +1,81 @@
+-- AlterEnum
+ALTER TYPE "ExpenseStatus" ADD VALUE 'REJECTED';
+
+-- CreateEnum
+CREATE TYPE "ExpenseApprovalAction" AS ENUM ('SUBMITTED', 'APPROVED', 'REJECTED', 'REOPENED');
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "approvalLevel" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "rejectionReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "expense_approval_rules" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "minAmount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "level" INTEGER NOT NULL DEFAULT 1,
+    "approverRoleId" TEXT,
+    "approverMemberId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expense_approval_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_approvals" (
+    "id" TEXT NOT NULL,
+    "expenseId" TEXT NOT NULL,
+    "memberId" TEXT,
+    "action" "ExpenseApprovalAction" NOT NULL,
+    "level" INTEGER,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "expense_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_organizationId_status_idx" ON "expenses"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "expense_approval_rules_organizationId_idx" ON "expense_approval_rules"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "expense_approval_rules_projectId_idx" ON "expense_approval_rules"("projectId");
+
+-- CreateIndex
+CREATE INDEX "expense_approvals_expenseId_idx" ON "expense_approvals"("expenseId");
+
+-- AddForeignKey
+ALTER TABLE "expense_approval_rules" ADD CONSTRAINT "expense_approval_rules_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_approval_rules" ADD CONSTRAINT "expense_approval_rules_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_approval_rules" ADD CONSTRAINT "expense_approval_rules_approverRoleId_fkey" FOREIGN KEY ("approverRoleId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_approval_rules" ADD CONSTRAINT "expense_approval_rules_approverMemberId_fkey" FOREIGN KEY ("approverMemberId") REFERENCES "organization_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_approvals" ADD CONSTRAINT "expense_approvals_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_approvals" ADD CONSTRAINT "expense_approvals_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Permission to configure who approves expenses
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES (gen_random_uuid()::text, 'approvals.manage', 'Manage Approval Rules', 'Configure who approves expenses, per project and amount', 'Settings')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" IN ('ADMIN', 'MANAGER')
+  AND p."key" = 'approvals.manage'
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
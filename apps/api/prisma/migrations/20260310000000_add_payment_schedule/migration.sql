@@ -0,0 +1,65 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'INSTALLMENT';
+
+-- CreateEnum
+CREATE TYPE "InstallmentAmountType" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateTable
+CREATE TABLE "payment_installments" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "stageId" TEXT,
+    "name" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "amountType" "InstallmentAmountType" NOT NULL,
+    "percentage" DECIMAL(5,2),
+    "amount" DECIMAL(15,2),
+    "dueDate" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_installments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "installment_allocations" (
+    "id" TEXT NOT NULL,
+    "installmentId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "installment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_installments_organizationId_idx" ON "payment_installments"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "payment_installments_projectId_idx" ON "payment_installments"("projectId");
+
+-- CreateIndex
+CREATE INDEX "payment_installments_stageId_idx" ON "payment_installments"("stageId");
+
+-- CreateIndex
+CREATE INDEX "installment_allocations_paymentId_idx" ON "installment_allocations"("paymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installment_allocations_installmentId_paymentId_key" ON "installment_allocations"("installmentId", "paymentId");
+
+-- AddForeignKey
+ALTER TABLE "payment_installments" ADD CONSTRAINT "payment_installments_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_installments" ADD CONSTRAINT "payment_installments_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_installments" ADD CONSTRAINT "payment_installments_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "stages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installment_allocations" ADD CONSTRAINT "installment_allocations_installmentId_fkey" FOREIGN KEY ("installmentId") REFERENCES "payment_installments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installment_allocations" ADD CONSTRAINT "installment_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
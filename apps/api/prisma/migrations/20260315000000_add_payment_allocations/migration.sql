@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "payment_allocations" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "expenseId" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_expenseId_idx" ON "payment_allocations"("expenseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_allocations_paymentId_expenseId_key" ON "payment_allocations"("paymentId", "expenseId");
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: payments already linked to an expense cover it, oldest payment first,
+-- up to the expense amount. Anything over stays unallocated on account.
+INSERT INTO "payment_allocations" ("id", "paymentId", "expenseId", "amount")
+SELECT gen_random_uuid()::text, linked."id", linked."expenseId", linked."allocated"
+FROM (
+    SELECT
+        p."id",
+        p."expenseId",
+        LEAST(
+            p."amount",
+            GREATEST(
+                0,
+                ROUND(e."rate" * e."quantity", 2) - COALESCE(
+                    SUM(p."amount") OVER (
+                        PARTITION BY p."expenseId"
+                        ORDER BY p."paymentDate", p."createdAt"
+                        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+                    ),
+                    0
+                )
+            )
+        ) AS "allocated"
+    FROM "payments" p
+    JOIN "expenses" e ON e."id" = p."expenseId"
+    WHERE p."type" = 'OUT'
+      AND p."deletedAt" IS NULL
+      AND e."deletedAt" IS NULL
+) linked
+WHERE linked."allocated" > 0;
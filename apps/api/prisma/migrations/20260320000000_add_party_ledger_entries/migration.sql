@@ -0,0 +1,51 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'PARTY_LEDGER_ENTRY';
+
+-- AlterEnum
+ALTER TYPE "EntityType" ADD VALUE 'PARTY_LEDGER_ENTRY';
+
+-- CreateEnum
+CREATE TYPE "PartyLedgerEntryType" AS ENUM ('ADVANCE', 'CREDIT_NOTE', 'REFUND', 'WRITE_OFF');
+
+-- CreateTable
+CREATE TABLE "party_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "partyId" TEXT NOT NULL,
+    "recordedById" TEXT,
+    "type" "PartyLedgerEntryType" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "entryDate" TIMESTAMP(3) NOT NULL,
+    "paymentMode" "PaymentMode",
+    "referenceNumber" TEXT,
+    "narration" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "party_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "party_ledger_entries_organizationId_idx" ON "party_ledger_entries"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "party_ledger_entries_projectId_idx" ON "party_ledger_entries"("projectId");
+
+-- CreateIndex
+CREATE INDEX "party_ledger_entries_partyId_idx" ON "party_ledger_entries"("partyId");
+
+-- CreateIndex
+CREATE INDEX "party_ledger_entries_entryDate_idx" ON "party_ledger_entries"("entryDate");
+
+-- AddForeignKey
+ALTER TABLE "party_ledger_entries" ADD CONSTRAINT "party_ledger_entries_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "party_ledger_entries" ADD CONSTRAINT "party_ledger_entries_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "party_ledger_entries" ADD CONSTRAINT "party_ledger_entries_partyId_fkey" FOREIGN KEY ("partyId") REFERENCES "parties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "party_ledger_entries" ADD CONSTRAINT "party_ledger_entries_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
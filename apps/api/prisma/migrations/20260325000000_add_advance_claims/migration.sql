@@ -0,0 +1,107 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'ADVANCE_CLAIM';
+
+-- AlterEnum
+ALTER TYPE "EntityType" ADD VALUE 'ADVANCE_CLAIM';
+
+-- CreateEnum
+CREATE TYPE "AdvanceClaimStatus" AS ENUM ('PENDING', 'SETTLED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "AdvanceSettlementType" AS ENUM ('CARRIED_FORWARD', 'RETURNED', 'REIMBURSED');
+
+-- CreateTable
+CREATE TABLE "advance_claims" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "memberId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "expenseDate" TIMESTAMP(3) NOT NULL,
+    "status" "AdvanceClaimStatus" NOT NULL DEFAULT 'PENDING',
+    "rejectionReason" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "advance_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "advance_settlements" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "memberId" TEXT NOT NULL,
+    "claimId" TEXT NOT NULL,
+    "settledById" TEXT,
+    "type" "AdvanceSettlementType" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "paymentMode" "PaymentMode",
+    "balanceAfter" DECIMAL(15,2) NOT NULL,
+    "settledAt" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "advance_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "advance_claims_organizationId_idx" ON "advance_claims"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "advance_claims_projectId_memberId_idx" ON "advance_claims"("projectId", "memberId");
+
+-- CreateIndex
+CREATE INDEX "advance_claims_status_idx" ON "advance_claims"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "advance_settlements_claimId_key" ON "advance_settlements"("claimId");
+
+-- CreateIndex
+CREATE INDEX "advance_settlements_organizationId_idx" ON "advance_settlements"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "advance_settlements_projectId_memberId_idx" ON "advance_settlements"("projectId", "memberId");
+
+-- CreateIndex
+CREATE INDEX "advance_settlements_settledAt_idx" ON "advance_settlements"("settledAt");
+
+-- AddForeignKey
+ALTER TABLE "advance_claims" ADD CONSTRAINT "advance_claims_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "advance_claims" ADD CONSTRAINT "advance_claims_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "advance_claims" ADD CONSTRAINT "advance_claims_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "organization_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "advance_settlements" ADD CONSTRAINT "advance_settlements_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "advance_settlements" ADD CONSTRAINT "advance_settlements_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "advance_settlements" ADD CONSTRAINT "advance_settlements_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "organization_members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "advance_settlements" ADD CONSTRAINT "advance_settlements_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "advance_claims"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "advance_settlements" ADD CONSTRAINT "advance_settlements_settledById_fkey" FOREIGN KEY ("settledById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Permission for members to log expenses paid from their advance
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES (gen_random_uuid()::text, 'advances.claim', 'Claim Advance Expenses', 'Log expenses paid from your own advance', 'Advances')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" IN ('ADMIN', 'MANAGER', 'ACCOUNTANT', 'SUPERVISOR')
+  AND p."key" = 'advances.claim'
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
@@ -0,0 +1,13 @@
+-- Permission for organization-wide financial reports
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES (gen_random_uuid()::text, 'reports.view', 'View Reports', 'View payable and receivable aging across projects', 'Reports')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" IN ('ADMIN', 'MANAGER', 'ACCOUNTANT')
+  AND p."key" = 'reports.view'
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
@@ -0,0 +1,172 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'TAX_INVOICE';
+
+-- CreateEnum
+CREATE TYPE "TaxInvoiceStatus" AS ENUM ('ISSUED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "TaxInvoiceLineSource" AS ENUM ('BOQ_ITEM', 'STAGE', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "billingAddress" TEXT,
+ADD COLUMN     "gstin" TEXT,
+ADD COLUMN     "invoicePrefix" TEXT NOT NULL DEFAULT 'INV',
+ADD COLUMN     "stateCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "parties" ADD COLUMN     "gstin" TEXT,
+ADD COLUMN     "stateCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "tax_invoice_series" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "tax_invoice_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tax_invoices" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "invoiceNumber" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "invoiceDate" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3),
+    "supplierGstin" TEXT,
+    "supplierStateCode" TEXT NOT NULL,
+    "recipientGstin" TEXT,
+    "placeOfSupply" TEXT NOT NULL,
+    "isInterState" BOOLEAN NOT NULL,
+    "taxableAmount" DECIMAL(15,2) NOT NULL,
+    "cgstAmount" DECIMAL(15,2) NOT NULL,
+    "sgstAmount" DECIMAL(15,2) NOT NULL,
+    "igstAmount" DECIMAL(15,2) NOT NULL,
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+    "status" "TaxInvoiceStatus" NOT NULL DEFAULT 'ISSUED',
+    "cancellationReason" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tax_invoice_lines" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "source" "TaxInvoiceLineSource" NOT NULL,
+    "boqItemId" TEXT,
+    "stageId" TEXT,
+    "description" TEXT NOT NULL,
+    "hsnSac" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+    "taxableAmount" DECIMAL(15,2) NOT NULL,
+    "gstRate" DECIMAL(5,2) NOT NULL,
+    "cgstAmount" DECIMAL(15,2) NOT NULL,
+    "sgstAmount" DECIMAL(15,2) NOT NULL,
+    "igstAmount" DECIMAL(15,2) NOT NULL,
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "tax_invoice_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_allocations" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_invoice_series_organizationId_financialYear_key" ON "tax_invoice_series"("organizationId", "financialYear");
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_organizationId_idx" ON "tax_invoices"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_projectId_idx" ON "tax_invoices"("projectId");
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_clientId_idx" ON "tax_invoices"("clientId");
+
+-- CreateIndex
+CREATE INDEX "tax_invoices_invoiceDate_idx" ON "tax_invoices"("invoiceDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_invoices_organizationId_invoiceNumber_key" ON "tax_invoices"("organizationId", "invoiceNumber");
+
+-- CreateIndex
+CREATE INDEX "tax_invoice_lines_invoiceId_idx" ON "tax_invoice_lines"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "tax_invoice_lines_boqItemId_idx" ON "tax_invoice_lines"("boqItemId");
+
+-- CreateIndex
+CREATE INDEX "tax_invoice_lines_stageId_idx" ON "tax_invoice_lines"("stageId");
+
+-- CreateIndex
+CREATE INDEX "invoice_allocations_paymentId_idx" ON "invoice_allocations"("paymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_allocations_invoiceId_paymentId_key" ON "invoice_allocations"("invoiceId", "paymentId");
+
+-- AddForeignKey
+ALTER TABLE "tax_invoice_series" ADD CONSTRAINT "tax_invoice_series_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "parties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoice_lines" ADD CONSTRAINT "tax_invoice_lines_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "tax_invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoice_lines" ADD CONSTRAINT "tax_invoice_lines_boqItemId_fkey" FOREIGN KEY ("boqItemId") REFERENCES "boq_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_invoice_lines" ADD CONSTRAINT "tax_invoice_lines_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "stages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_allocations" ADD CONSTRAINT "invoice_allocations_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "tax_invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_allocations" ADD CONSTRAINT "invoice_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Permissions for tax invoices
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES
+  (gen_random_uuid()::text, 'invoices.view', 'View Invoices', 'View and download tax invoices', 'Invoices'),
+  (gen_random_uuid()::text, 'invoices.manage', 'Manage Invoices', 'Raise or cancel tax invoices and edit GST details', 'Invoices')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND r."name" IN ('ADMIN', 'MANAGER', 'ACCOUNTANT')
+  AND p."key" IN ('invoices.view', 'invoices.manage')
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
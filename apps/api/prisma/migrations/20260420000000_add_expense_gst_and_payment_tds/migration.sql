@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "gstAmount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "gstRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "itcEligible" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "tdsAmount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "tdsRate" DECIMAL(5,2),
+ADD COLUMN     "tdsSection" TEXT;
+
+-- Reports now include GST input credit and TDS summaries
+UPDATE "permissions"
+SET "description" = 'View aging, GST input credit and TDS reports across projects'
+WHERE "key" = 'reports.view';
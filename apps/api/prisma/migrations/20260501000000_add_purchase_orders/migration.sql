@@ -0,0 +1,170 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'PURCHASE_ORDER';
+
+-- CreateEnum
+CREATE TYPE "PurchaseOrderStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "lastPurchaseOrderNumber" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "purchaseOrderLineId" TEXT;
+
+-- CreateTable
+CREATE TABLE "purchase_orders" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "approvedById" TEXT,
+    "orderNumber" TEXT NOT NULL,
+    "orderDate" TIMESTAMP(3) NOT NULL,
+    "status" "PurchaseOrderStatus" NOT NULL DEFAULT 'PENDING',
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+    "approvedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "cancellationReason" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "purchase_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "purchase_order_lines" (
+    "id" TEXT NOT NULL,
+    "purchaseOrderId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "boqItemId" TEXT,
+    "description" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "deliveryDate" TIMESTAMP(3),
+
+    CONSTRAINT "purchase_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "goods_receipts" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "purchaseOrderId" TEXT NOT NULL,
+    "receivedById" TEXT,
+    "receivedDate" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goods_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "goods_receipt_lines" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "purchaseOrderLineId" TEXT NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+
+    CONSTRAINT "goods_receipt_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_purchaseOrderLineId_idx" ON "expenses"("purchaseOrderLineId");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_organizationId_idx" ON "purchase_orders"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_projectId_idx" ON "purchase_orders"("projectId");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_vendorId_idx" ON "purchase_orders"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_organizationId_status_idx" ON "purchase_orders"("organizationId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_orders_organizationId_orderNumber_key" ON "purchase_orders"("organizationId", "orderNumber");
+
+-- CreateIndex
+CREATE INDEX "purchase_order_lines_purchaseOrderId_idx" ON "purchase_order_lines"("purchaseOrderId");
+
+-- CreateIndex
+CREATE INDEX "purchase_order_lines_boqItemId_idx" ON "purchase_order_lines"("boqItemId");
+
+-- CreateIndex
+CREATE INDEX "goods_receipts_organizationId_idx" ON "goods_receipts"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "goods_receipts_purchaseOrderId_idx" ON "goods_receipts"("purchaseOrderId");
+
+-- CreateIndex
+CREATE INDEX "goods_receipt_lines_receiptId_idx" ON "goods_receipt_lines"("receiptId");
+
+-- CreateIndex
+CREATE INDEX "goods_receipt_lines_purchaseOrderLineId_idx" ON "goods_receipt_lines"("purchaseOrderLineId");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_purchaseOrderLineId_fkey" FOREIGN KEY ("purchaseOrderLineId") REFERENCES "purchase_order_lines"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "parties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "purchase_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_boqItemId_fkey" FOREIGN KEY ("boqItemId") REFERENCES "boq_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "purchase_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_receivedById_fkey" FOREIGN KEY ("receivedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipt_lines" ADD CONSTRAINT "goods_receipt_lines_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "goods_receipts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipt_lines" ADD CONSTRAINT "goods_receipt_lines_purchaseOrderLineId_fkey" FOREIGN KEY ("purchaseOrderLineId") REFERENCES "purchase_order_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Permissions for purchase orders
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES
+  (gen_random_uuid()::text, 'purchases.view', 'View Purchase Orders', 'View purchase orders, goods received and bill matching', 'Purchases'),
+  (gen_random_uuid()::text, 'purchases.manage', 'Manage Purchase Orders', 'Raise, edit or cancel purchase orders to vendors', 'Purchases'),
+  (gen_random_uuid()::text, 'purchases.approve', 'Approve Purchase Orders', 'Approve or reject purchase orders before they are placed', 'Purchases'),
+  (gen_random_uuid()::text, 'purchases.receive', 'Receive Goods', 'Record goods delivered at site against purchase orders', 'Purchases')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND (
+    (r."name" IN ('ADMIN', 'MANAGER')
+      AND p."key" IN ('purchases.view', 'purchases.manage', 'purchases.approve', 'purchases.receive'))
+    OR (r."name" = 'ACCOUNTANT'
+      AND p."key" IN ('purchases.view', 'purchases.manage', 'purchases.receive'))
+    OR (r."name" = 'SUPERVISOR' AND p."key" IN ('purchases.view', 'purchases.receive'))
+  )
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
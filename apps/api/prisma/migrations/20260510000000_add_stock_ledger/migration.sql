@@ -0,0 +1,100 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'STOCK_MOVEMENT';
+
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('RECEIPT', 'ISSUE', 'TRANSFER_IN', 'TRANSFER_OUT', 'ADJUSTMENT');
+
+-- AlterTable
+ALTER TABLE "boq_items" ADD COLUMN     "materialTypeItemId" TEXT;
+
+-- CreateTable
+CREATE TABLE "stock_movements" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "materialTypeItemId" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "movementDate" TIMESTAMP(3) NOT NULL,
+    "expenseId" TEXT,
+    "goodsReceiptLineId" TEXT,
+    "stageId" TEXT,
+    "taskId" TEXT,
+    "transferId" TEXT,
+    "transferProjectId" TEXT,
+    "createdById" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "boq_items_materialTypeItemId_idx" ON "boq_items"("materialTypeItemId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_organizationId_idx" ON "stock_movements"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_projectId_materialTypeItemId_idx" ON "stock_movements"("projectId", "materialTypeItemId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_expenseId_idx" ON "stock_movements"("expenseId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_goodsReceiptLineId_idx" ON "stock_movements"("goodsReceiptLineId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_stageId_idx" ON "stock_movements"("stageId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_transferId_idx" ON "stock_movements"("transferId");
+
+-- AddForeignKey
+ALTER TABLE "boq_items" ADD CONSTRAINT "boq_items_materialTypeItemId_fkey" FOREIGN KEY ("materialTypeItemId") REFERENCES "category_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_materialTypeItemId_fkey" FOREIGN KEY ("materialTypeItemId") REFERENCES "category_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "expenses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_goodsReceiptLineId_fkey" FOREIGN KEY ("goodsReceiptLineId") REFERENCES "goods_receipt_lines"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "stages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_transferProjectId_fkey" FOREIGN KEY ("transferProjectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Permissions for the material stock ledger
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES
+  (gen_random_uuid()::text, 'stock.view', 'View Stock', 'View site material stock, its ledger and usage against the BOQ', 'Inventory'),
+  (gen_random_uuid()::text, 'stock.manage', 'Manage Stock', 'Take material into stock, issue it to work, transfer it between sites and adjust counts', 'Inventory')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND (
+    (r."name" IN ('ADMIN', 'MANAGER', 'SUPERVISOR') AND p."key" IN ('stock.view', 'stock.manage'))
+    OR (r."name" = 'ACCOUNTANT' AND p."key" = 'stock.view')
+  )
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
@@ -0,0 +1,187 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'LABOUR_WORKER';
+ALTER TYPE "AuditEntityType" ADD VALUE 'ATTENDANCE';
+ALTER TYPE "AuditEntityType" ADD VALUE 'WAGE_BILL';
+
+-- CreateEnum
+CREATE TYPE "AttendanceStatus" AS ENUM ('PRESENT', 'HALF_DAY', 'ABSENT');
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "wageBillId" TEXT;
+
+-- CreateTable
+CREATE TABLE "labour_workers" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "partyId" TEXT NOT NULL,
+    "labourTypeItemId" TEXT,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "dailyRate" DECIMAL(15,2) NOT NULL,
+    "shiftHours" DECIMAL(4,2) NOT NULL DEFAULT 8,
+    "overtimeMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 1.5,
+    "nightMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 2,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "labour_workers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "attendance_entries" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "stageId" TEXT,
+    "workerId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "status" "AttendanceStatus" NOT NULL,
+    "overtimeHours" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "isNightShift" BOOLEAN NOT NULL DEFAULT false,
+    "wageBillId" TEXT,
+    "markedById" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wage_bills" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "partyId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "manDays" DECIMAL(10,2) NOT NULL,
+    "overtimeHours" DECIMAL(10,2) NOT NULL,
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wage_bills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wage_bill_lines" (
+    "id" TEXT NOT NULL,
+    "wageBillId" TEXT NOT NULL,
+    "workerId" TEXT NOT NULL,
+    "manDays" DECIMAL(10,2) NOT NULL,
+    "overtimeHours" DECIMAL(10,2) NOT NULL,
+    "nightShifts" INTEGER NOT NULL,
+    "dailyRate" DECIMAL(15,2) NOT NULL,
+    "shiftHours" DECIMAL(4,2) NOT NULL,
+    "overtimeMultiplier" DECIMAL(4,2) NOT NULL,
+    "nightMultiplier" DECIMAL(4,2) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "wage_bill_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_wageBillId_idx" ON "expenses"("wageBillId");
+
+-- CreateIndex
+CREATE INDEX "labour_workers_organizationId_idx" ON "labour_workers"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "labour_workers_partyId_idx" ON "labour_workers"("partyId");
+
+-- CreateIndex
+CREATE INDEX "attendance_entries_organizationId_idx" ON "attendance_entries"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "attendance_entries_projectId_date_idx" ON "attendance_entries"("projectId", "date");
+
+-- CreateIndex
+CREATE INDEX "attendance_entries_stageId_idx" ON "attendance_entries"("stageId");
+
+-- CreateIndex
+CREATE INDEX "attendance_entries_wageBillId_idx" ON "attendance_entries"("wageBillId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_entries_workerId_date_key" ON "attendance_entries"("workerId", "date");
+
+-- CreateIndex
+CREATE INDEX "wage_bills_organizationId_idx" ON "wage_bills"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "wage_bills_projectId_partyId_idx" ON "wage_bills"("projectId", "partyId");
+
+-- CreateIndex
+CREATE INDEX "wage_bill_lines_wageBillId_idx" ON "wage_bill_lines"("wageBillId");
+
+-- CreateIndex
+CREATE INDEX "wage_bill_lines_workerId_idx" ON "wage_bill_lines"("workerId");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_wageBillId_fkey" FOREIGN KEY ("wageBillId") REFERENCES "wage_bills"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labour_workers" ADD CONSTRAINT "labour_workers_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labour_workers" ADD CONSTRAINT "labour_workers_partyId_fkey" FOREIGN KEY ("partyId") REFERENCES "parties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labour_workers" ADD CONSTRAINT "labour_workers_labourTypeItemId_fkey" FOREIGN KEY ("labourTypeItemId") REFERENCES "category_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_entries" ADD CONSTRAINT "attendance_entries_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_entries" ADD CONSTRAINT "attendance_entries_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_entries" ADD CONSTRAINT "attendance_entries_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "stages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_entries" ADD CONSTRAINT "attendance_entries_workerId_fkey" FOREIGN KEY ("workerId") REFERENCES "labour_workers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_entries" ADD CONSTRAINT "attendance_entries_wageBillId_fkey" FOREIGN KEY ("wageBillId") REFERENCES "wage_bills"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_entries" ADD CONSTRAINT "attendance_entries_markedById_fkey" FOREIGN KEY ("markedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_bills" ADD CONSTRAINT "wage_bills_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_bills" ADD CONSTRAINT "wage_bills_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_bills" ADD CONSTRAINT "wage_bills_partyId_fkey" FOREIGN KEY ("partyId") REFERENCES "parties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_bills" ADD CONSTRAINT "wage_bills_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_bill_lines" ADD CONSTRAINT "wage_bill_lines_wageBillId_fkey" FOREIGN KEY ("wageBillId") REFERENCES "wage_bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_bill_lines" ADD CONSTRAINT "wage_bill_lines_workerId_fkey" FOREIGN KEY ("workerId") REFERENCES "labour_workers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Permissions for labour attendance and wages
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES
+  (gen_random_uuid()::text, 'labour.view', 'View Labour', 'View workers, the muster roll, wage bills and man-days against the BOQ', 'Labour'),
+  (gen_random_uuid()::text, 'labour.attendance', 'Mark Attendance', 'Mark the daily attendance and overtime of workers at site', 'Labour'),
+  (gen_random_uuid()::text, 'labour.manage', 'Manage Labour', 'Add workers, set their rate cards and generate wage bills', 'Labour')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND (
+    (r."name" IN ('ADMIN', 'MANAGER') AND p."key" IN ('labour.view', 'labour.attendance', 'labour.manage'))
+    OR (r."name" = 'ACCOUNTANT' AND p."key" IN ('labour.view', 'labour.manage'))
+    OR (r."name" = 'SUPERVISOR' AND p."key" IN ('labour.view', 'labour.attendance'))
+  )
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
@@ -0,0 +1,206 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'WORK_ORDER';
+ALTER TYPE "AuditEntityType" ADD VALUE 'RA_BILL';
+
+-- CreateEnum
+CREATE TYPE "RABillStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN     "lastWorkOrderNumber" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "raBillId" TEXT,
+ADD COLUMN     "retentionWorkOrderId" TEXT;
+
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN     "workOrderId" TEXT,
+ADD COLUMN     "recoveryRate" DECIMAL(15,2),
+ADD COLUMN     "raBillId" TEXT;
+
+-- CreateTable
+CREATE TABLE "work_orders" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "subcontractorId" TEXT NOT NULL,
+    "subWorkTypeItemId" TEXT,
+    "createdById" TEXT,
+    "orderNumber" TEXT NOT NULL,
+    "orderDate" TIMESTAMP(3) NOT NULL,
+    "retentionPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "advanceRecoveryPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+    "notes" TEXT,
+    "retentionReleasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "work_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "work_order_lines" (
+    "id" TEXT NOT NULL,
+    "workOrderId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "boqItemId" TEXT NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "work_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ra_bills" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "workOrderId" TEXT NOT NULL,
+    "billNumber" INTEGER NOT NULL,
+    "billDate" TIMESTAMP(3) NOT NULL,
+    "status" "RABillStatus" NOT NULL DEFAULT 'PENDING',
+    "grossAmount" DECIMAL(15,2) NOT NULL,
+    "retentionAmount" DECIMAL(15,2) NOT NULL,
+    "advanceRecovery" DECIMAL(15,2) NOT NULL,
+    "materialDeduction" DECIMAL(15,2) NOT NULL,
+    "netAmount" DECIMAL(15,2) NOT NULL,
+    "createdById" TEXT,
+    "approvedById" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ra_bills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ra_bill_lines" (
+    "id" TEXT NOT NULL,
+    "raBillId" TEXT NOT NULL,
+    "workOrderLineId" TEXT NOT NULL,
+    "cumulativeQuantity" DECIMAL(15,4) NOT NULL,
+    "previousQuantity" DECIMAL(15,4) NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "ra_bill_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_raBillId_idx" ON "expenses"("raBillId");
+
+-- CreateIndex
+CREATE INDEX "expenses_retentionWorkOrderId_idx" ON "expenses"("retentionWorkOrderId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_workOrderId_idx" ON "stock_movements"("workOrderId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_raBillId_idx" ON "stock_movements"("raBillId");
+
+-- CreateIndex
+CREATE INDEX "work_orders_organizationId_idx" ON "work_orders"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "work_orders_projectId_idx" ON "work_orders"("projectId");
+
+-- CreateIndex
+CREATE INDEX "work_orders_subcontractorId_idx" ON "work_orders"("subcontractorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "work_orders_organizationId_orderNumber_key" ON "work_orders"("organizationId", "orderNumber");
+
+-- CreateIndex
+CREATE INDEX "work_order_lines_workOrderId_idx" ON "work_order_lines"("workOrderId");
+
+-- CreateIndex
+CREATE INDEX "work_order_lines_boqItemId_idx" ON "work_order_lines"("boqItemId");
+
+-- CreateIndex
+CREATE INDEX "ra_bills_organizationId_idx" ON "ra_bills"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "ra_bills_workOrderId_status_idx" ON "ra_bills"("workOrderId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ra_bills_workOrderId_billNumber_key" ON "ra_bills"("workOrderId", "billNumber");
+
+-- CreateIndex
+CREATE INDEX "ra_bill_lines_raBillId_idx" ON "ra_bill_lines"("raBillId");
+
+-- CreateIndex
+CREATE INDEX "ra_bill_lines_workOrderLineId_idx" ON "ra_bill_lines"("workOrderLineId");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_raBillId_fkey" FOREIGN KEY ("raBillId") REFERENCES "ra_bills"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_retentionWorkOrderId_fkey" FOREIGN KEY ("retentionWorkOrderId") REFERENCES "work_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_workOrderId_fkey" FOREIGN KEY ("workOrderId") REFERENCES "work_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_raBillId_fkey" FOREIGN KEY ("raBillId") REFERENCES "ra_bills"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_subcontractorId_fkey" FOREIGN KEY ("subcontractorId") REFERENCES "parties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_subWorkTypeItemId_fkey" FOREIGN KEY ("subWorkTypeItemId") REFERENCES "category_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_order_lines" ADD CONSTRAINT "work_order_lines_workOrderId_fkey" FOREIGN KEY ("workOrderId") REFERENCES "work_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_order_lines" ADD CONSTRAINT "work_order_lines_boqItemId_fkey" FOREIGN KEY ("boqItemId") REFERENCES "boq_items"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ra_bills" ADD CONSTRAINT "ra_bills_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ra_bills" ADD CONSTRAINT "ra_bills_workOrderId_fkey" FOREIGN KEY ("workOrderId") REFERENCES "work_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ra_bills" ADD CONSTRAINT "ra_bills_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ra_bills" ADD CONSTRAINT "ra_bills_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ra_bill_lines" ADD CONSTRAINT "ra_bill_lines_raBillId_fkey" FOREIGN KEY ("raBillId") REFERENCES "ra_bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ra_bill_lines" ADD CONSTRAINT "ra_bill_lines_workOrderLineId_fkey" FOREIGN KEY ("workOrderLineId") REFERENCES "work_order_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Permissions for subcontractor work orders and RA bills
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES
+  (gen_random_uuid()::text, 'subcontracts.view', 'View Subcontracts', 'View work orders, RA bills and retention held from subcontractors', 'Subcontracts'),
+  (gen_random_uuid()::text, 'subcontracts.manage', 'Manage Subcontracts', 'Raise work orders and RA bills from measured work', 'Subcontracts'),
+  (gen_random_uuid()::text, 'subcontracts.approve', 'Approve RA Bills', 'Approve or reject RA bills and release retention at project close', 'Subcontracts')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND (
+    (r."name" IN ('ADMIN', 'MANAGER') AND p."key" IN ('subcontracts.view', 'subcontracts.manage', 'subcontracts.approve'))
+    OR (r."name" = 'ACCOUNTANT' AND p."key" IN ('subcontracts.view', 'subcontracts.manage'))
+    OR (r."name" = 'SUPERVISOR' AND p."key" IN ('subcontracts.view'))
+  )
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
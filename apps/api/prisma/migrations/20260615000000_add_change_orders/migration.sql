@@ -0,0 +1,118 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'CHANGE_ORDER';
+
+-- CreateEnum
+CREATE TYPE "ChangeOrderStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "ChangeOrderLineAction" AS ENUM ('ADD', 'MODIFY', 'REMOVE');
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "variationAmount" DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "boq_items" ADD COLUMN     "originalQuantity" DECIMAL(15,4),
+ADD COLUMN     "originalRate" DECIMAL(15,2),
+ADD COLUMN     "changeOrderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "change_orders" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "raisedDate" TIMESTAMP(3) NOT NULL,
+    "status" "ChangeOrderStatus" NOT NULL DEFAULT 'DRAFT',
+    "priceImpact" DECIMAL(15,2) NOT NULL,
+    "costImpact" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "clientReference" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "decidedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "change_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "change_order_lines" (
+    "id" TEXT NOT NULL,
+    "changeOrderId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "action" "ChangeOrderLineAction" NOT NULL,
+    "boqItemId" TEXT,
+    "sectionId" TEXT,
+    "stageId" TEXT,
+    "category" "BOQCategory" NOT NULL,
+    "description" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "previousQuantity" DECIMAL(15,4) NOT NULL DEFAULT 0,
+    "previousRate" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "change_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "change_orders_organizationId_idx" ON "change_orders"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "change_orders_projectId_status_idx" ON "change_orders"("projectId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "change_orders_projectId_number_key" ON "change_orders"("projectId", "number");
+
+-- CreateIndex
+CREATE INDEX "change_order_lines_changeOrderId_idx" ON "change_order_lines"("changeOrderId");
+
+-- CreateIndex
+CREATE INDEX "change_order_lines_boqItemId_idx" ON "change_order_lines"("boqItemId");
+
+-- AddForeignKey
+ALTER TABLE "boq_items" ADD CONSTRAINT "boq_items_changeOrderId_fkey" FOREIGN KEY ("changeOrderId") REFERENCES "change_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "change_orders" ADD CONSTRAINT "change_orders_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "change_orders" ADD CONSTRAINT "change_orders_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "change_orders" ADD CONSTRAINT "change_orders_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "change_order_lines" ADD CONSTRAINT "change_order_lines_changeOrderId_fkey" FOREIGN KEY ("changeOrderId") REFERENCES "change_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "change_order_lines" ADD CONSTRAINT "change_order_lines_boqItemId_fkey" FOREIGN KEY ("boqItemId") REFERENCES "boq_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "change_order_lines" ADD CONSTRAINT "change_order_lines_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "boq_sections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "change_order_lines" ADD CONSTRAINT "change_order_lines_stageId_fkey" FOREIGN KEY ("stageId") REFERENCES "stages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Permissions for change orders
+INSERT INTO "permissions" ("id", "key", "name", "description", "category")
+VALUES
+  (gen_random_uuid()::text, 'variations.view', 'View Change Orders', 'View change orders and how they revise the BOQ and contract value', 'Change Orders'),
+  (gen_random_uuid()::text, 'variations.manage', 'Manage Change Orders', 'Price change orders and send them to the client', 'Change Orders'),
+  (gen_random_uuid()::text, 'variations.approve', 'Record Client Approval', 'Record the client approving or rejecting a change order', 'Change Orders')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "role_permissions" ("id", "roleId", "permissionId")
+SELECT gen_random_uuid()::text, r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."isSystemRole" = true
+  AND (
+    (r."name" IN ('ADMIN', 'MANAGER') AND p."key" IN ('variations.view', 'variations.manage', 'variations.approve'))
+    OR (r."name" IN ('ACCOUNTANT', 'SUPERVISOR') AND p."key" IN ('variations.view'))
+  )
+ON CONFLICT ("roleId", "permissionId") DO NOTHING;
@@ -0,0 +1,61 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'BOQ_VERSION';
+
+-- CreateTable
+CREATE TABLE "boq_versions" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "notes" TEXT,
+    "isBaseline" BOOLEAN NOT NULL DEFAULT false,
+    "itemCount" INTEGER NOT NULL,
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "boq_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "boq_version_items" (
+    "id" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "boqItemId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "sectionName" TEXT,
+    "stageName" TEXT,
+    "code" TEXT,
+    "category" "BOQCategory" NOT NULL,
+    "description" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "boq_version_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "boq_versions_organizationId_idx" ON "boq_versions"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "boq_versions_projectId_idx" ON "boq_versions"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "boq_versions_projectId_name_key" ON "boq_versions"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "boq_version_items_versionId_idx" ON "boq_version_items"("versionId");
+
+-- AddForeignKey
+ALTER TABLE "boq_versions" ADD CONSTRAINT "boq_versions_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "boq_versions" ADD CONSTRAINT "boq_versions_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "boq_versions" ADD CONSTRAINT "boq_versions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "boq_version_items" ADD CONSTRAINT "boq_version_items_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "boq_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "RateComponentKind" AS ENUM ('MATERIAL', 'LABOUR', 'EQUIPMENT', 'OTHER');
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'RATE_ANALYSIS';
+ALTER TYPE "AuditEntityType" ADD VALUE 'RATE_TEMPLATE';
+
+-- CreateTable
+CREATE TABLE "rate_analysis_templates" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "unit" TEXT NOT NULL,
+    "overheadPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "profitPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_analysis_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rate_template_components" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "kind" "RateComponentKind" NOT NULL,
+    "categoryItemId" TEXT,
+    "description" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "rate_template_components_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rate_analyses" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "boqItemId" TEXT NOT NULL,
+    "templateId" TEXT,
+    "overheadPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "profitPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "unitRate" DECIMAL(15,2) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_analyses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rate_analysis_components" (
+    "id" TEXT NOT NULL,
+    "analysisId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "kind" "RateComponentKind" NOT NULL,
+    "categoryItemId" TEXT,
+    "description" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantity" DECIMAL(15,4) NOT NULL,
+    "rate" DECIMAL(15,2) NOT NULL,
+
+    CONSTRAINT "rate_analysis_components_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_analysis_templates_organizationId_idx" ON "rate_analysis_templates"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rate_analysis_templates_organizationId_name_key" ON "rate_analysis_templates"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "rate_template_components_templateId_idx" ON "rate_template_components"("templateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rate_analyses_boqItemId_key" ON "rate_analyses"("boqItemId");
+
+-- CreateIndex
+CREATE INDEX "rate_analyses_organizationId_idx" ON "rate_analyses"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "rate_analysis_components_analysisId_idx" ON "rate_analysis_components"("analysisId");
+
+-- AddForeignKey
+ALTER TABLE "rate_analysis_templates" ADD CONSTRAINT "rate_analysis_templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_analysis_templates" ADD CONSTRAINT "rate_analysis_templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "organization_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_template_components" ADD CONSTRAINT "rate_template_components_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "rate_analysis_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_template_components" ADD CONSTRAINT "rate_template_components_categoryItemId_fkey" FOREIGN KEY ("categoryItemId") REFERENCES "category_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_analyses" ADD CONSTRAINT "rate_analyses_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_analyses" ADD CONSTRAINT "rate_analyses_boqItemId_fkey" FOREIGN KEY ("boqItemId") REFERENCES "boq_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_analyses" ADD CONSTRAINT "rate_analyses_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "rate_analysis_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_analysis_components" ADD CONSTRAINT "rate_analysis_components_analysisId_fkey" FOREIGN KEY ("analysisId") REFERENCES "rate_analyses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_analysis_components" ADD CONSTRAINT "rate_analysis_components_categoryItemId_fkey" FOREIGN KEY ("categoryItemId") REFERENCES "category_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "unit" TEXT;
+
+-- Bills matched to a purchase order line are per the line's unit
+UPDATE "expenses" e
+SET "unit" = l."unit"
+FROM "purchase_order_lines" l
+WHERE e."purchaseOrderLineId" = l."id";
+
+-- Bills taken into stock are per the stock ledger's unit
+UPDATE "expenses" e
+SET "unit" = m."unit"
+FROM "stock_movements" m
+WHERE m."expenseId" = e."id" AND e."unit" IS NULL;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "roles" ADD COLUMN "fullAccess" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "projectScoped" BOOLEAN NOT NULL DEFAULT false;
+
+-- Access the system roles had by name
+UPDATE "roles" SET "fullAccess" = true WHERE "isSystemRole" AND "name" = 'ADMIN';
+UPDATE "roles" SET "projectScoped" = true WHERE "isSystemRole" AND "name" IN ('SUPERVISOR', 'CLIENT');
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "allocatedByHand" BOOLEAN NOT NULL DEFAULT false;
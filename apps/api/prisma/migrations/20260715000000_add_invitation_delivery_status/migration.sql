@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "invitations" ADD COLUMN "deliveryStatus" "DeliveryStatus" NOT NULL DEFAULT 'SENT',
+ADD COLUMN "deliveryError" TEXT;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'BOQ_SECTION';
+ALTER TYPE "AuditEntityType" ADD VALUE 'BOQ_EXPENSE_LINK';
@@ -122,13 +122,17 @@ const DEFAULT_CATEGORY_ITEMS = [
 const GLOBAL_PERMISSIONS = [
   { key: 'projects.view', name: 'View Projects', category: 'Projects', description: 'View all projects' },
   { key: 'projects.create', name: 'Create Projects', category: 'Projects', description: 'Create new projects' },
-  { key: 'projects.edit', name: 'Edit Projects', category: 'Projects', description: 'Edit existing projects' },
+  { key: 'projects.edit', name: 'Edit Projects', category: 'Projects', description: 'Edit existing projects, stages and tasks' },
   { key: 'projects.delete', name: 'Delete Projects', category: 'Projects', description: 'Delete projects' },
   { key: 'expenses.view', name: 'View Expenses', category: 'Expenses', description: 'View all expenses' },
   { key: 'expenses.create', name: 'Create Expenses', category: 'Expenses', description: 'Create new expenses' },
+  { key: 'expenses.edit', name: 'Edit Expenses', category: 'Expenses', description: 'Edit existing expenses' },
+  { key: 'expenses.delete', name: 'Delete Expenses', category: 'Expenses', description: 'Delete expenses' },
   { key: 'expenses.approve', name: 'Approve Expenses', category: 'Expenses', description: 'Approve pending expenses' },
   { key: 'payments.view', name: 'View Payments', category: 'Payments', description: 'View all payments' },
   { key: 'payments.create', name: 'Create Payments', category: 'Payments', description: 'Create new payments' },
+  { key: 'payments.edit', name: 'Edit Payments', category: 'Payments', description: 'Edit existing payments' },
+  { key: 'payments.delete', name: 'Delete Payments', category: 'Payments', description: 'Delete payments' },
   { key: 'team.view', name: 'View Team', category: 'Team', description: 'View team members' },
   { key: 'team.manage', name: 'Manage Team', category: 'Team', description: 'Add, edit, or remove team members' },
   { key: 'roles.view', name: 'View Roles', category: 'Roles', description: 'View roles and permissions' },
@@ -139,6 +143,11 @@ const GLOBAL_PERMISSIONS = [
   { key: 'boq.manage', name: 'Manage BOQ', category: 'BOQ', description: 'Create, edit, or delete BOQ items' },
   { key: 'advances.view', name: 'View Advances', category: 'Advances', description: 'View member advances' },
   { key: 'advances.manage', name: 'Manage Advances', category: 'Advances', description: 'Create or settle advances' },
+  { key: 'documents.view', name: 'View Documents', category: 'Documents', description: 'View and download project documents' },
+  { key: 'documents.manage', name: 'Manage Documents', category: 'Documents', description: 'Upload or delete project documents' },
+  { key: 'categories.manage', name: 'Manage Categories', category: 'Settings', description: 'Create, edit, or delete category types and items' },
+  { key: 'audit.view', name: 'View Audit Log', category: 'Settings', description: 'View the change history of records' },
+  { key: 'trash.manage', name: 'Manage Trash', category: 'Settings', description: 'View and restore deleted records' },
 ];
 
 // ============================================
@@ -150,6 +159,7 @@ const DEFAULT_ROLES = [
     name: 'Admin',
     description: 'Full access to all features and settings',
     isSystemRole: true,
+    fullAccess: true,
     permissions: ['*'],
   },
   {
@@ -158,9 +168,11 @@ const DEFAULT_ROLES = [
     isSystemRole: false,
     permissions: [
       'projects.view', 'projects.create', 'projects.edit', 'projects.delete',
-      'expenses.view', 'expenses.create', 'expenses.approve', 'payments.view', 'payments.create',
+      'expenses.view', 'expenses.create', 'expenses.edit', 'expenses.delete', 'expenses.approve',
+      'payments.view', 'payments.create', 'payments.edit', 'payments.delete',
       'team.view', 'parties.view', 'parties.manage', 'boq.view', 'boq.manage',
-      'advances.view', 'advances.manage',
+      'advances.view', 'advances.manage', 'documents.view', 'documents.manage', 'categories.manage',
+      'audit.view', 'trash.manage',
     ],
   },
   {
@@ -168,26 +180,30 @@ const DEFAULT_ROLES = [
     description: 'Manage expenses, payments, and financial records',
     isSystemRole: false,
     permissions: [
-      'projects.view', 'expenses.view', 'expenses.create', 'expenses.approve',
-      'payments.view', 'payments.create', 'parties.view', 'advances.view', 'advances.manage',
+      'projects.view', 'expenses.view', 'expenses.create', 'expenses.edit', 'expenses.approve',
+      'payments.view', 'payments.create', 'payments.edit', 'parties.view', 'advances.view',
+      'advances.manage', 'documents.view', 'audit.view',
     ],
   },
   {
     name: 'Supervisor',
     description: 'Supervise site work and create expenses',
     isSystemRole: false,
-    permissions: ['projects.view', 'expenses.view', 'expenses.create', 'payments.view', 'boq.view'],
+    projectScoped: true,
+    permissions: ['projects.view', 'expenses.view', 'expenses.create', 'payments.view', 'boq.view', 'documents.view'],
   },
   {
     name: 'Site Engineer',
     description: 'Technical oversight and quality control',
     isSystemRole: false,
-    permissions: ['projects.view', 'expenses.view', 'expenses.create', 'boq.view', 'boq.manage'],
+    projectScoped: true,
+    permissions: ['projects.view', 'expenses.view', 'expenses.create', 'boq.view', 'boq.manage', 'documents.view'],
   },
   {
     name: 'Store Keeper',
     description: 'Manage inventory and material receipts',
     isSystemRole: false,
+    projectScoped: true,
     permissions: ['projects.view', 'expenses.view', 'expenses.create', 'parties.view'],
   },
 ];
@@ -773,6 +789,8 @@ async function createDefaultRoles(organizationId: string): Promise<Map<string, R
         name: roleDef.name,
         description: roleDef.description,
         isSystemRole: roleDef.isSystemRole,
+        fullAccess: roleDef.fullAccess ?? false,
+        projectScoped: roleDef.projectScoped ?? false,
       },
     });
 
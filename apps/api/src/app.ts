@@ -20,7 +20,25 @@ import authRoutes from './routes/auth/index';
 import permissionRoutes from './routes/permissions/index';
 import roleRoutes from './routes/roles/index';
 import teamRoutes from './routes/team/index';
+import invitationRoutes from './routes/invitations/index';
 import boqRoutes from './routes/boq/index';
+import boqVersionRoutes from './routes/boq-versions/index';
+import rateAnalysisRoutes from './routes/rate-analysis/index';
+import rateLibraryRoutes from './routes/rate-library/index';
+import auditRoutes from './routes/audit/index';
+import trashRoutes from './routes/trash/index';
+import portalRoutes from './routes/portal/index';
+import approvalRoutes from './routes/approvals/index';
+import installmentRoutes from './routes/installments/index';
+import partyLedgerRoutes from './routes/party-ledger/index';
+import advanceClaimRoutes from './routes/advance-claims/index';
+import reportRoutes from './routes/reports/index';
+import taxInvoiceRoutes from './routes/tax-invoices/index';
+import purchaseOrderRoutes from './routes/purchase-orders/index';
+import stockRoutes from './routes/stock/index';
+import labourRoutes from './routes/labour/index';
+import subcontractRoutes from './routes/subcontracts/index';
+import changeOrderRoutes from './routes/change-orders/index';
 
 // Middleware
 import { registerAuthMiddleware } from './middleware/auth.middleware';
@@ -28,6 +46,9 @@ import { registerAuthMiddleware } from './middleware/auth.middleware';
 // Prisma
 import { disconnectPrisma } from './lib/prisma';
 
+// Config
+import { env } from './config/env';
+
 export interface AppOptions {
   logger?: boolean;
 }
@@ -35,6 +56,9 @@ export interface AppOptions {
 export async function buildApp(options: AppOptions = {}) {
   const app = Fastify({
     logger: options.logger ?? true,
+    // Behind a load balancer request.ip would otherwise be the proxy's address,
+    // which OTP rate limits and session records rely on
+    trustProxy: env.TRUST_PROXY,
   });
 
   // Configure Zod type provider BEFORE anything else
@@ -90,6 +114,8 @@ export async function buildApp(options: AppOptions = {}) {
       '/api/roles',
       '/api/team',
       '/api/boq',
+      '/api/audit',
+      '/api/trash',
     ],
   }));
 
@@ -109,7 +135,25 @@ export async function buildApp(options: AppOptions = {}) {
   await fastify.register(permissionRoutes, { prefix: '/api/permissions' });
   await fastify.register(roleRoutes, { prefix: '/api/roles' });
   await fastify.register(teamRoutes, { prefix: '/api/team' });
+  await fastify.register(invitationRoutes, { prefix: '/api/team/invitations' });
   await fastify.register(boqRoutes, { prefix: '/api' });
+  await fastify.register(boqVersionRoutes, { prefix: '/api' });
+  await fastify.register(rateAnalysisRoutes, { prefix: '/api' });
+  await fastify.register(rateLibraryRoutes, { prefix: '/api' });
+  await fastify.register(auditRoutes, { prefix: '/api/audit' });
+  await fastify.register(trashRoutes, { prefix: '/api/trash' });
+  await fastify.register(portalRoutes, { prefix: '/api/portal' });
+  await fastify.register(approvalRoutes, { prefix: '/api/approvals' });
+  await fastify.register(installmentRoutes, { prefix: '/api/installments' });
+  await fastify.register(partyLedgerRoutes, { prefix: '/api/party-ledger' });
+  await fastify.register(advanceClaimRoutes, { prefix: '/api/advance-claims' });
+  await fastify.register(reportRoutes, { prefix: '/api/reports' });
+  await fastify.register(taxInvoiceRoutes, { prefix: '/api/tax-invoices' });
+  await fastify.register(purchaseOrderRoutes, { prefix: '/api/purchase-orders' });
+  await fastify.register(stockRoutes, { prefix: '/api/stock' });
+  await fastify.register(labourRoutes, { prefix: '/api/labour' });
+  await fastify.register(subcontractRoutes, { prefix: '/api/subcontracts' });
+  await fastify.register(changeOrderRoutes, { prefix: '/api/change-orders' });
 
   // Global error handler
   fastify.setErrorHandler((error: FastifyError, request, reply) => {
@@ -37,10 +37,32 @@ function getRequiredSecret(name: string, fallback?: string): string {
   );
 }
 
+/**
+ * Fastify `trustProxy` from TRUST_PROXY: true/false, the number of proxy hops,
+ * or a comma-separated list of proxy addresses and CIDR ranges
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string[] {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number.parseInt(value, 10);
+  }
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
 export const env = {
   // Server
   PORT: parseInt(process.env.PORT || '3000', 10),
   HOST: process.env.HOST || '0.0.0.0',
+  // Proxies whose X-Forwarded-For is believed, so request.ip is the client's address
+  TRUST_PROXY: parseTrustProxy(process.env.TRUST_PROXY),
 
   // Database
   DATABASE_URL: process.env.DATABASE_URL,
@@ -58,6 +80,9 @@ export const env = {
   // CORS
   CORS_ORIGIN: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:5173'],
 
+  // Web app address used in links sent by SMS (e.g. team invitations)
+  APP_URL: process.env.APP_URL || 'http://localhost:5173',
+
   // OpenAI (for PDF parsing)
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
 
@@ -4,7 +4,8 @@ export class DatabaseError extends Error {
   constructor(
     message: string,
     public code: string,
-    public statusCode: number = 500
+    public statusCode: number = 500,
+    public details?: unknown
   ) {
     super(message);
     this.name = 'DatabaseError';
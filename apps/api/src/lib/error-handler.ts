@@ -17,7 +17,7 @@ export function handleRouteError(
 
   // Handle known database errors
   if (isDatabaseError(error)) {
-    return sendError(reply, error.statusCode, error.message, error.code);
+    return sendError(reply, error.statusCode, error.message, error.code, error.details);
   }
 
   // Handle Zod validation errors (from fastify-type-provider-zod)
@@ -0,0 +1,205 @@
+/**
+ * GST helpers for tax invoices and vendor bills
+ *
+ * State codes, GSTIN checks, the Indian financial year an invoice is numbered in,
+ * and how tax on a taxable value splits into CGST and SGST (supply within a
+ * state) or IGST (supply across states).
+ */
+
+/** GST state and union territory codes, as used in GSTINs and place of supply */
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+/** GST slabs a line may be charged at, in percent */
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28] as const;
+
+// 2-digit state code, PAN, entity number, 'Z', checksum character
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// HSN codes for goods and SAC codes for services run 4 to 8 digits
+export const HSN_SAC_PATTERN = /^\d{4,8}$/;
+
+export function isStateCode(code: string): boolean {
+  return code in GST_STATE_CODES;
+}
+
+export function stateName(code: string): string {
+  return GST_STATE_CODES[code] ?? code;
+}
+
+/**
+ * The state a GSTIN is registered in
+ */
+export function gstinStateCode(gstin: string): string {
+  return gstin.slice(0, 2);
+}
+
+// Indian Standard Time is UTC+5:30 all year round
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Financial year a date falls in, e.g. "2026-27" for any date from April 2026
+ * to March 2027. The date is read in Indian time, whatever the server's time zone.
+ */
+export function financialYearOf(date: Date): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+export interface GstSplit {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Tax on a taxable value. Within a state it is shared equally between CGST and
+ * SGST; across states it is all IGST.
+ */
+export function splitGst(taxableAmount: number, gstRate: number, isInterState: boolean): GstSplit {
+  if (isInterState) {
+    const igstAmount = roundMoney((taxableAmount * gstRate) / 100);
+    return {
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount,
+      totalAmount: roundMoney(taxableAmount + igstAmount),
+    };
+  }
+
+  const half = roundMoney((taxableAmount * gstRate) / 200);
+  return {
+    cgstAmount: half,
+    sgstAmount: half,
+    igstAmount: 0,
+    totalAmount: roundMoney(taxableAmount + half * 2),
+  };
+}
+
+/**
+ * Tax contained in an amount that includes GST at the given rate, e.g. 18 of 118
+ * at 18%
+ */
+export function gstIncluded(amount: number, gstRate: number): number {
+  return roundMoney((amount * gstRate) / (100 + gstRate));
+}
+
+/**
+ * Split tax already charged into CGST and SGST, or IGST across states. Odd paise
+ * go to SGST so the parts add up to the tax.
+ */
+export function splitTaxAmount(taxAmount: number, isInterState: boolean) {
+  if (isInterState) {
+    return { cgstAmount: 0, sgstAmount: 0, igstAmount: taxAmount };
+  }
+  const cgstAmount = roundMoney(taxAmount / 2);
+  return { cgstAmount, sgstAmount: roundMoney(taxAmount - cgstAmount), igstAmount: 0 };
+}
+
+/**
+ * PAN of the holder of a GSTIN, which carries it after the state code
+ */
+export function gstinPan(gstin: string): string {
+  return gstin.slice(2, 12);
+}
+
+const ONES = [
+  '',
+  'One',
+  'Two',
+  'Three',
+  'Four',
+  'Five',
+  'Six',
+  'Seven',
+  'Eight',
+  'Nine',
+  'Ten',
+  'Eleven',
+  'Twelve',
+  'Thirteen',
+  'Fourteen',
+  'Fifteen',
+  'Sixteen',
+  'Seventeen',
+  'Eighteen',
+  'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function belowHundred(value: number): string {
+  if (value < 20) return ONES[value];
+  return [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ');
+}
+
+function belowThousand(value: number): string {
+  const hundreds = Math.floor(value / 100);
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', belowHundred(value % 100)]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * An amount in words the Indian way (lakh and crore), as printed on invoices,
+ * e.g. "Rupees One Lakh Eighteen Thousand Only"
+ */
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+
+  const parts: string[] = [];
+  const crores = Math.floor(rupees / 10000000);
+  const lakhs = Math.floor((rupees % 10000000) / 100000);
+  const thousands = Math.floor((rupees % 100000) / 1000);
+  const rest = rupees % 1000;
+
+  if (crores) parts.push(`${crores >= 1000 ? String(crores) : belowThousand(crores)} Crore`);
+  if (lakhs) parts.push(`${belowHundred(lakhs)} Lakh`);
+  if (thousands) parts.push(`${belowHundred(thousands)} Thousand`);
+  if (rest) parts.push(belowThousand(rest));
+
+  const words = `Rupees ${parts.length ? parts.join(' ') : 'Zero'}`;
+  return paise ? `${words} and ${belowHundred(paise)} Paise Only` : `${words} Only`;
+}
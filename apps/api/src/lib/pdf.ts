@@ -0,0 +1,22 @@
+import type { PDFFont } from 'pdf-lib';
+
+/**
+ * Standard PDF fonts only cover Latin-1; anything else would fail to encode
+ */
+export function pdfSafe(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+/**
+ * Shorten text with an ellipsis until it fits the given width
+ */
+export function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  const safe = pdfSafe(text);
+  if (font.widthOfTextAtSize(safe, size) <= width) return safe;
+
+  let end = safe.length;
+  while (end > 0 && font.widthOfTextAtSize(`${safe.slice(0, end)}...`, size) > width) {
+    end--;
+  }
+  return `${safe.slice(0, end)}...`;
+}
@@ -8,179 +8,465 @@
  */
 export type RoleName = 'ADMIN' | 'MANAGER' | 'ACCOUNTANT' | 'SUPERVISOR' | 'CLIENT';
 
-export type Resource =
-  | 'projects'
-  | 'stages'
-  | 'expenses'
-  | 'payments'
-  | 'parties'
-  | 'documents'
-  | 'categories'
-  | 'organizations'
-  | 'members';
-
-export type Action = 'create' | 'read' | 'update' | 'delete' | 'manage';
-
-export interface Permission {
-  resource: Resource;
-  actions: Action[];
-  scope: 'all' | 'assigned' | 'own';
+export interface PermissionDefinition {
+  key: string;
+  name: string;
+  category: string;
+  description: string;
 }
 
 // ============================================
-// Role Definitions
+// Permission Catalog
 // ============================================
 
 /**
- * Permission matrix by role
+ * Global permission catalog.
  *
- * | Role       | Projects | Expenses | Payments | Parties | Documents | Scope            |
- * |------------|----------|----------|----------|---------|-----------|------------------|
- * | ADMIN      | CRUD     | CRUD     | CRUD     | CRUD    | CRUD      | All              |
- * | MANAGER    | CRUD     | CRUD     | CRUD     | CRUD    | CRUD      | All              |
- * | ACCOUNTANT | Read     | CRUD     | CRUD     | Read    | Read      | All              |
- * | SUPERVISOR | Read     | Create   | Read     | Read    | CRUD      | Assigned projects|
- * | CLIENT     | Read     | Read     | Read     | -       | Read      | Their projects   |
+ * Keys are stored in the Permission table and granted to roles through RolePermission.
+ * Route guards reference these keys, so adding a key here requires a migration that
+ * inserts it (see prisma/migrations) and, usually, a default grant below.
  */
+export const PERMISSION_CATALOG = [
+  {
+    key: 'projects.view',
+    name: 'View Projects',
+    category: 'Projects',
+    description: 'View all projects',
+  },
+  {
+    key: 'projects.create',
+    name: 'Create Projects',
+    category: 'Projects',
+    description: 'Create new projects',
+  },
+  {
+    key: 'projects.edit',
+    name: 'Edit Projects',
+    category: 'Projects',
+    description: 'Edit existing projects, stages and tasks',
+  },
+  {
+    key: 'projects.delete',
+    name: 'Delete Projects',
+    category: 'Projects',
+    description: 'Delete projects',
+  },
+  {
+    key: 'expenses.view',
+    name: 'View Expenses',
+    category: 'Expenses',
+    description: 'View all expenses',
+  },
+  {
+    key: 'expenses.create',
+    name: 'Create Expenses',
+    category: 'Expenses',
+    description: 'Create new expenses',
+  },
+  {
+    key: 'expenses.edit',
+    name: 'Edit Expenses',
+    category: 'Expenses',
+    description: 'Edit existing expenses',
+  },
+  {
+    key: 'expenses.delete',
+    name: 'Delete Expenses',
+    category: 'Expenses',
+    description: 'Delete expenses',
+  },
+  {
+    key: 'expenses.approve',
+    name: 'Approve Expenses',
+    category: 'Expenses',
+    description: 'Approve pending expenses',
+  },
+  {
+    key: 'payments.view',
+    name: 'View Payments',
+    category: 'Payments',
+    description: 'View all payments',
+  },
+  {
+    key: 'payments.create',
+    name: 'Create Payments',
+    category: 'Payments',
+    description: 'Create new payments',
+  },
+  {
+    key: 'payments.edit',
+    name: 'Edit Payments',
+    category: 'Payments',
+    description: 'Edit existing payments',
+  },
+  {
+    key: 'payments.delete',
+    name: 'Delete Payments',
+    category: 'Payments',
+    description: 'Delete payments',
+  },
+  { key: 'team.view', name: 'View Team', category: 'Team', description: 'View team members' },
+  {
+    key: 'team.manage',
+    name: 'Manage Team',
+    category: 'Team',
+    description: 'Add, edit, or remove team members',
+  },
+  {
+    key: 'roles.view',
+    name: 'View Roles',
+    category: 'Roles',
+    description: 'View roles and permissions',
+  },
+  {
+    key: 'roles.manage',
+    name: 'Manage Roles',
+    category: 'Roles',
+    description: 'Create, edit, or delete roles',
+  },
+  {
+    key: 'parties.view',
+    name: 'View Parties',
+    category: 'Parties',
+    description: 'View vendors, labours, and subcontractors',
+  },
+  {
+    key: 'parties.manage',
+    name: 'Manage Parties',
+    category: 'Parties',
+    description: 'Add, edit, or remove parties',
+  },
+  { key: 'boq.view', name: 'View BOQ', category: 'BOQ', description: 'View bill of quantities' },
+  {
+    key: 'boq.manage',
+    name: 'Manage BOQ',
+    category: 'BOQ',
+    description: 'Create, edit, or delete BOQ items',
+  },
+  {
+    key: 'advances.view',
+    name: 'View Advances',
+    category: 'Advances',
+    description: 'View member advances',
+  },
+  {
+    key: 'advances.manage',
+    name: 'Manage Advances',
+    category: 'Advances',
+    description: 'Create or settle advances',
+  },
+  {
+    key: 'advances.claim',
+    name: 'Claim Advance Expenses',
+    category: 'Advances',
+    description: 'Log expenses paid from your own advance',
+  },
+  {
+    key: 'invoices.view',
+    name: 'View Invoices',
+    category: 'Invoices',
+    description: 'View and download tax invoices',
+  },
+  {
+    key: 'invoices.manage',
+    name: 'Manage Invoices',
+    category: 'Invoices',
+    description: 'Raise or cancel tax invoices and edit GST details',
+  },
+  {
+    key: 'purchases.view',
+    name: 'View Purchase Orders',
+    category: 'Purchases',
+    description: 'View purchase orders, goods received and bill matching',
+  },
+  {
+    key: 'purchases.manage',
+    name: 'Manage Purchase Orders',
+    category: 'Purchases',
+    description: 'Raise, edit or cancel purchase orders to vendors',
+  },
+  {
+    key: 'purchases.approve',
+    name: 'Approve Purchase Orders',
+    category: 'Purchases',
+    description: 'Approve or reject purchase orders before they are placed',
+  },
+  {
+    key: 'purchases.receive',
+    name: 'Receive Goods',
+    category: 'Purchases',
+    description: 'Record goods delivered at site against purchase orders',
+  },
+  {
+    key: 'stock.view',
+    name: 'View Stock',
+    category: 'Inventory',
+    description: 'View site material stock, its ledger and usage against the BOQ',
+  },
+  {
+    key: 'stock.manage',
+    name: 'Manage Stock',
+    category: 'Inventory',
+    description:
+      'Take material into stock, issue it to work, transfer it between sites and adjust counts',
+  },
+  {
+    key: 'labour.view',
+    name: 'View Labour',
+    category: 'Labour',
+    description: 'View workers, the muster roll, wage bills and man-days against the BOQ',
+  },
+  {
+    key: 'labour.attendance',
+    name: 'Mark Attendance',
+    category: 'Labour',
+    description: 'Mark the daily attendance and overtime of workers at site',
+  },
+  {
+    key: 'labour.manage',
+    name: 'Manage Labour',
+    category: 'Labour',
+    description: 'Add workers, set their rate cards and generate wage bills',
+  },
+  {
+    key: 'subcontracts.view',
+    name: 'View Subcontracts',
+    category: 'Subcontracts',
+    description: 'View work orders, RA bills and retention held from subcontractors',
+  },
+  {
+    key: 'subcontracts.manage',
+    name: 'Manage Subcontracts',
+    category: 'Subcontracts',
+    description: 'Raise work orders and RA bills from measured work',
+  },
+  {
+    key: 'subcontracts.approve',
+    name: 'Approve RA Bills',
+    category: 'Subcontracts',
+    description: 'Approve or reject RA bills and release retention at project close',
+  },
+  {
+    key: 'variations.view',
+    name: 'View Change Orders',
+    category: 'Change Orders',
+    description: 'View change orders and how they revise the BOQ and contract value',
+  },
+  {
+    key: 'variations.manage',
+    name: 'Manage Change Orders',
+    category: 'Change Orders',
+    description: 'Price change orders and send them to the client',
+  },
+  {
+    key: 'variations.approve',
+    name: 'Record Client Approval',
+    category: 'Change Orders',
+    description: 'Record the client approving or rejecting a change order',
+  },
+  {
+    key: 'reports.view',
+    name: 'View Reports',
+    category: 'Reports',
+    description: 'View aging, GST input credit and TDS reports across projects',
+  },
+  {
+    key: 'documents.view',
+    name: 'View Documents',
+    category: 'Documents',
+    description: 'View and download project documents',
+  },
+  {
+    key: 'documents.manage',
+    name: 'Manage Documents',
+    category: 'Documents',
+    description: 'Upload or delete project documents',
+  },
+  {
+    key: 'categories.manage',
+    name: 'Manage Categories',
+    category: 'Settings',
+    description: 'Create, edit, or delete category types and items',
+  },
+  {
+    key: 'audit.view',
+    name: 'View Audit Log',
+    category: 'Settings',
+    description: 'View the change history of records',
+  },
+  {
+    key: 'trash.manage',
+    name: 'Manage Trash',
+    category: 'Settings',
+    description: 'View and restore deleted records',
+  },
+  {
+    key: 'approvals.manage',
+    name: 'Manage Approval Rules',
+    category: 'Settings',
+    description: 'Configure who approves expenses, per project and amount',
+  },
+] as const satisfies readonly PermissionDefinition[];
 
-const ROLE_PERMISSIONS: Record<RoleName, Permission[]> = {
-  ADMIN: [
-    {
-      resource: 'projects',
-      actions: ['create', 'read', 'update', 'delete', 'manage'],
-      scope: 'all',
-    },
-    { resource: 'stages', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'expenses', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'payments', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    {
-      resource: 'parties',
-      actions: ['create', 'read', 'update', 'delete', 'manage'],
-      scope: 'all',
-    },
-    { resource: 'documents', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'categories', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'organizations', actions: ['read', 'update', 'manage'], scope: 'all' },
-    { resource: 'members', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-  ],
+export type PermissionKey = (typeof PERMISSION_CATALOG)[number]['key'];
+
+export const ALL_PERMISSION_KEYS: PermissionKey[] = PERMISSION_CATALOG.map((p) => p.key);
+
+// ============================================
+// Default Grants for System Roles
+// ============================================
+
+/**
+ * Permissions granted to system roles when an organization is created.
+ * After creation they live in RolePermission and can be edited like any custom role,
+ * except ADMIN which always holds every permission.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<RoleName, PermissionKey[]> = {
+  ADMIN: ALL_PERMISSION_KEYS,
 
   MANAGER: [
-    { resource: 'projects', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'stages', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'expenses', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'payments', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'parties', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'documents', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'categories', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'organizations', actions: ['read'], scope: 'all' },
-    { resource: 'members', actions: ['read'], scope: 'all' },
+    'projects.view',
+    'projects.create',
+    'projects.edit',
+    'projects.delete',
+    'expenses.view',
+    'expenses.create',
+    'expenses.edit',
+    'expenses.delete',
+    'expenses.approve',
+    'payments.view',
+    'payments.create',
+    'payments.edit',
+    'payments.delete',
+    'team.view',
+    'parties.view',
+    'parties.manage',
+    'boq.view',
+    'boq.manage',
+    'advances.view',
+    'advances.manage',
+    'advances.claim',
+    'invoices.view',
+    'invoices.manage',
+    'purchases.view',
+    'purchases.manage',
+    'purchases.approve',
+    'purchases.receive',
+    'stock.view',
+    'stock.manage',
+    'labour.view',
+    'labour.attendance',
+    'labour.manage',
+    'subcontracts.view',
+    'subcontracts.manage',
+    'subcontracts.approve',
+    'variations.view',
+    'variations.manage',
+    'variations.approve',
+    'reports.view',
+    'documents.view',
+    'documents.manage',
+    'categories.manage',
+    'audit.view',
+    'trash.manage',
+    'approvals.manage',
   ],
 
   ACCOUNTANT: [
-    { resource: 'projects', actions: ['read'], scope: 'all' },
-    { resource: 'stages', actions: ['read'], scope: 'all' },
-    { resource: 'expenses', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'payments', actions: ['create', 'read', 'update', 'delete'], scope: 'all' },
-    { resource: 'parties', actions: ['read'], scope: 'all' },
-    { resource: 'documents', actions: ['read'], scope: 'all' },
-    { resource: 'categories', actions: ['read'], scope: 'all' },
-    { resource: 'organizations', actions: ['read'], scope: 'all' },
-    { resource: 'members', actions: ['read'], scope: 'all' },
+    'projects.view',
+    'expenses.view',
+    'expenses.create',
+    'expenses.edit',
+    'expenses.delete',
+    'expenses.approve',
+    'payments.view',
+    'payments.create',
+    'payments.edit',
+    'payments.delete',
+    'team.view',
+    'parties.view',
+    'boq.view',
+    'advances.view',
+    'advances.manage',
+    'advances.claim',
+    'invoices.view',
+    'invoices.manage',
+    'purchases.view',
+    'purchases.manage',
+    'purchases.receive',
+    'stock.view',
+    'labour.view',
+    'labour.manage',
+    'subcontracts.view',
+    'subcontracts.manage',
+    'variations.view',
+    'reports.view',
+    'documents.view',
+    'audit.view',
   ],
 
   SUPERVISOR: [
-    { resource: 'projects', actions: ['read'], scope: 'assigned' },
-    { resource: 'stages', actions: ['read'], scope: 'assigned' },
-    { resource: 'expenses', actions: ['create', 'read'], scope: 'assigned' },
-    { resource: 'payments', actions: ['read'], scope: 'assigned' },
-    { resource: 'parties', actions: ['read'], scope: 'all' },
-    { resource: 'documents', actions: ['create', 'read', 'update', 'delete'], scope: 'assigned' },
-    { resource: 'categories', actions: ['read'], scope: 'all' },
-    { resource: 'organizations', actions: ['read'], scope: 'all' },
-    { resource: 'members', actions: [], scope: 'all' },
+    'projects.view',
+    'expenses.view',
+    'expenses.create',
+    'payments.view',
+    'parties.view',
+    'boq.view',
+    'advances.claim',
+    'purchases.view',
+    'purchases.receive',
+    'stock.view',
+    'stock.manage',
+    'labour.view',
+    'labour.attendance',
+    'subcontracts.view',
+    'variations.view',
+    'documents.view',
+    'documents.manage',
   ],
 
-  CLIENT: [
-    { resource: 'projects', actions: ['read'], scope: 'own' },
-    { resource: 'stages', actions: ['read'], scope: 'own' },
-    { resource: 'expenses', actions: ['read'], scope: 'own' },
-    { resource: 'payments', actions: ['read'], scope: 'own' },
-    { resource: 'parties', actions: [], scope: 'all' },
-    { resource: 'documents', actions: ['read'], scope: 'own' },
-    { resource: 'categories', actions: ['read'], scope: 'all' },
-    { resource: 'organizations', actions: ['read'], scope: 'all' },
-    { resource: 'members', actions: [], scope: 'all' },
-  ],
+  // Clients only use the client portal, which is scoped by their linked party
+  CLIENT: [],
 };
 
 // ============================================
-// Permission Check Functions
+// Role Helpers
 // ============================================
 
 /**
- * Check if a role has permission to perform an action on a resource
+ * How far a role reaches, stored on the Role row so custom roles can be
+ * project-scoped too
  */
-export function hasPermission(
-  roleName: RoleName | string,
-  resource: Resource,
-  action: Action
-): boolean {
-  const permissions = ROLE_PERMISSIONS[roleName as RoleName];
-  if (!permissions) return false;
-
-  const resourcePermission = permissions.find((p) => p.resource === resource);
-  if (!resourcePermission) return false;
-
-  return resourcePermission.actions.includes(action);
+export interface RoleAccess {
+  // Holds every permission whatever its RolePermission rows
+  fullAccess: boolean;
+  // Limited to the projects the member is given access to
+  projectScoped: boolean;
 }
 
 /**
- * Get the permission scope for a role and resource
+ * Access given to system roles when an organization is created
  */
-export function getPermissionScope(
-  roleName: RoleName | string,
-  resource: Resource
-): 'all' | 'assigned' | 'own' | null {
-  const permissions = ROLE_PERMISSIONS[roleName as RoleName];
-  if (!permissions) return null;
-
-  const resourcePermission = permissions.find((p) => p.resource === resource);
-  return resourcePermission?.scope ?? null;
-}
-
-/**
- * Check if a role requires project-level access check
- */
-export function requiresProjectAccess(roleName: RoleName | string): boolean {
-  return roleName === 'SUPERVISOR' || roleName === 'CLIENT';
-}
-
-/**
- * Get all permissions for a role
- */
-export function getRolePermissions(roleName: RoleName | string): Permission[] {
-  return ROLE_PERMISSIONS[roleName as RoleName] || [];
-}
-
-/**
- * Check if role is admin-level (full access)
- */
-export function isAdminRole(roleName: RoleName | string): boolean {
-  return roleName === 'ADMIN';
-}
+export const DEFAULT_ROLE_ACCESS: Record<RoleName, RoleAccess> = {
+  ADMIN: { fullAccess: true, projectScoped: false },
+  MANAGER: { fullAccess: false, projectScoped: false },
+  ACCOUNTANT: { fullAccess: false, projectScoped: false },
+  SUPERVISOR: { fullAccess: false, projectScoped: true },
+  CLIENT: { fullAccess: false, projectScoped: true },
+};
 
 /**
- * Check if role has management capabilities
+ * Check if role is the client role, limited to the read-only client portal
  */
-export function isManagerRole(roleName: RoleName | string): boolean {
-  return roleName === 'ADMIN' || roleName === 'MANAGER';
+export function isClientRole(roleName: RoleName | string): boolean {
+  return roleName === 'CLIENT';
 }
 
 /**
- * Check if role has financial access
+ * Check if a resolved permission set grants a key
  */
-export function hasFinancialAccess(roleName: RoleName | string): boolean {
-  return roleName === 'ADMIN' || roleName === 'MANAGER' || roleName === 'ACCOUNTANT';
+export function hasPermission(permissions: ReadonlySet<string>, key: PermissionKey): boolean {
+  return permissions.has(key);
 }
 
 // ============================================
@@ -190,6 +476,9 @@ export function hasFinancialAccess(roleName: RoleName | string): boolean {
 export const PERMISSION_ERRORS = {
   FORBIDDEN: 'You do not have permission to perform this action',
   NO_PROJECT_ACCESS: 'You do not have access to this project',
+  NOT_ORGANIZATION_MEMBER: 'You are not a member of this organization',
   RESOURCE_NOT_ALLOWED: 'You are not allowed to access this resource',
   ACTION_NOT_ALLOWED: 'You are not allowed to perform this action',
+  CLIENT_PORTAL_ONLY: 'Client accounts can only use the client portal',
+  CLIENT_NOT_LINKED: 'Your account is not linked to a client yet. Please contact the builder.',
 } as const;
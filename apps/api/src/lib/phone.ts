@@ -0,0 +1,12 @@
+/**
+ * Normalize phone number to E.164 format
+ *
+ * Users sign in with the normalized number, so anything matched against their
+ * phone later (e.g. invitations) must be stored the same way.
+ */
+export function normalizePhone(phone: string, countryCode: string): string {
+  // Remove all non-digit characters except leading +
+  const cleaned = phone.replace(/[^\d]/g, '');
+  const code = countryCode.startsWith('+') ? countryCode : `+${countryCode}`;
+  return `${code}${cleaned}`;
+}
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Prisma } from '@prisma/client';
 
 // Singleton pattern for Prisma Client
 const prismaClientSingleton = () => {
@@ -17,6 +17,16 @@ if (process.env.NODE_ENV !== 'production') {
   globalThis.prisma = prisma;
 }
 
+/**
+ * Run in the caller's transaction, or in a new one when there is none
+ */
+export function inTransaction<T>(
+  tx: Prisma.TransactionClient | undefined,
+  run: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return tx ? run(tx) : prisma.$transaction(run);
+}
+
 // Graceful shutdown
 export async function disconnectPrisma() {
   await prisma.$disconnect();
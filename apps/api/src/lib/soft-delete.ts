@@ -0,0 +1,43 @@
+// ============================================
+// Soft Delete
+// ============================================
+
+/**
+ * Projects, parties, expenses and payments are soft-deleted: deleting one stamps
+ * deletedAt/deletedById and moves it to the Trash, where it can be restored until
+ * an admin purges it after the retention window.
+ *
+ * Repositories spread these filters into their where clauses so deleted rows stay hidden.
+ */
+
+/**
+ * Hides soft-deleted projects and parties
+ */
+export const notDeleted = { deletedAt: null } as const;
+
+/**
+ * Hides soft-deleted expenses and payments, and those whose project is in the Trash
+ */
+export const notDeletedInProject = { deletedAt: null, project: { deletedAt: null } } as const;
+
+/**
+ * Data that moves a record to the Trash
+ */
+export function softDeleteData(deletedById: string | null) {
+  return { deletedAt: new Date(), deletedById };
+}
+
+/**
+ * Days a deleted record stays restorable before it can be purged
+ */
+export const TRASH_RETENTION_DAYS = (() => {
+  const value = Number.parseInt(process.env.TRASH_RETENTION_DAYS ?? '', 10);
+  return Number.isNaN(value) ? 30 : value;
+})();
+
+/**
+ * When a deleted record becomes eligible for purging
+ */
+export function purgeableAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
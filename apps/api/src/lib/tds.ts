@@ -0,0 +1,108 @@
+/**
+ * TDS helpers for payments to parties
+ *
+ * Income Tax Act sections tax is deducted at source under when paying
+ * contractors, professionals and landlords, with the usual rate for each. The
+ * rate on a payment can differ from the default, e.g. 2% under 194C for a
+ * company instead of 1% for an individual.
+ */
+
+import { DatabaseError } from './database-errors';
+
+export interface TdsSection {
+  name: string;
+  defaultRate: number;
+}
+
+export const TDS_SECTIONS: Record<string, TdsSection> = {
+  '194C': { name: 'Payments to contractors', defaultRate: 1 },
+  '194H': { name: 'Commission or brokerage', defaultRate: 2 },
+  '194I': { name: 'Rent', defaultRate: 10 },
+  '194J': { name: 'Professional or technical fees', defaultRate: 10 },
+  '194Q': { name: 'Purchase of goods', defaultRate: 0.1 },
+};
+
+export const TDS_SECTION_CODES = Object.keys(TDS_SECTIONS) as [string, ...string[]];
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Tax to withhold from a payment. Without a rate, the section's usual rate
+ * applies; an amount given by hand (e.g. as rounded on the challan) wins.
+ */
+export function computeTds(
+  amount: number,
+  section: string,
+  rate?: number,
+  override?: number
+): { tdsSection: string; tdsRate: number; tdsAmount: number } {
+  const tdsRate = rate ?? TDS_SECTIONS[section].defaultRate;
+  return {
+    tdsSection: section,
+    tdsRate,
+    tdsAmount: override ?? roundMoney((amount * tdsRate) / 100),
+  };
+}
+
+/**
+ * When TDS deducted in a month (1 to 12) has to be paid to the government: the
+ * 7th of the following month, or 30 April for March
+ */
+export function tdsDueDate(year: number, month: number): Date {
+  return month === 3 ? new Date(year, 3, 30) : new Date(year, month, 7);
+}
+
+export interface TdsInput {
+  tdsSection?: string | null;
+  tdsRate?: number;
+  tdsAmount?: number;
+}
+
+export interface TdsFields {
+  tdsSection: string | null;
+  tdsRate: number | null;
+  tdsAmount: number;
+}
+
+const NO_TDS: TdsFields = { tdsSection: null, tdsRate: null, tdsAmount: 0 };
+
+/**
+ * TDS to save on a new or changed payment, or undefined when it stays as it is.
+ * Only payments out to a party carry TDS. A changed amount, section or rate
+ * works the tax out again; a new section starts from its usual rate.
+ */
+export function resolveTds(
+  payment: { type: string; partyId?: string | null; amount: number },
+  input: TdsInput,
+  current?: TdsFields & { amount: number }
+): TdsFields | undefined {
+  const section = input.tdsSection !== undefined ? input.tdsSection : (current?.tdsSection ?? null);
+  if (!section) {
+    return !current || current.tdsSection ? NO_TDS : undefined;
+  }
+
+  if (payment.type !== 'OUT' || !payment.partyId) {
+    throw new DatabaseError(
+      'Only payments to a party can have TDS deducted',
+      'TDS_NOT_ALLOWED',
+      400
+    );
+  }
+
+  const sameSection = !!current && section === current.tdsSection;
+  const changed =
+    !sameSection ||
+    input.tdsRate !== undefined ||
+    input.tdsAmount !== undefined ||
+    payment.amount !== current?.amount;
+  if (!changed) return undefined;
+
+  const rate = input.tdsRate ?? (sameSection ? current?.tdsRate : null) ?? undefined;
+  const tds = computeTds(payment.amount, section, rate, input.tdsAmount);
+  if (tds.tdsAmount > payment.amount) {
+    throw new DatabaseError('TDS is more than the payment amount', 'TDS_EXCEEDS_AMOUNT', 400);
+  }
+  return tds;
+}
@@ -1,13 +1,11 @@
 // Auth Middleware - JWT verification for protected routes
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { jwtService } from '../services/jwt.service';
+import { jwtService, type JwtPayload } from '../services/jwt.service';
+import { sessionRepository } from '../repositories/session.repository';
 
-// Define the JWT user payload type
-export interface JWTUser {
-  userId: string;
-  phone: string;
-}
+// The JWT user payload type (same shape the JWT service signs)
+export type JWTUser = JwtPayload;
 
 // Extend @fastify/jwt's FastifyJWT interface to type the user property
 declare module '@fastify/jwt' {
@@ -57,10 +55,21 @@ export async function registerAuthMiddleware(fastify: FastifyInstance) {
       const token = authHeader.substring(7); // Remove 'Bearer '
 
       // Verify and decode token
-      const payload = await fastify.jwt.verify(token);
+      const payload = (await fastify.jwt.verify(token)) as JWTUser;
+
+      // Tokens from a revoked session (remote logout, reuse detection) stop working immediately
+      if (payload.sessionId && !(await sessionRepository.isActive(payload.sessionId))) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            message: 'Session has been revoked. Please log in again.',
+            code: 'SESSION_REVOKED',
+          },
+        });
+      }
 
       // Attach user to request
-      request.user = payload as JWTUser;
+      request.user = payload;
     } catch (err) {
       return reply.code(401).send({
         success: false,
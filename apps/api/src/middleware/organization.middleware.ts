@@ -1,14 +1,14 @@
-import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { FastifyRequest, FastifyReply, RouteGenericInterface } from 'fastify';
 import {
   hasPermission,
-  requiresProjectAccess,
-  getPermissionScope,
+  isClientRole,
   PERMISSION_ERRORS,
-  type Resource,
-  type Action,
+  type PermissionKey,
   type RoleName,
 } from '../lib/permissions';
 import { prisma } from '../lib/prisma';
+import { notDeleted } from '../lib/soft-delete';
+import { permissionService, type RoleGrantor } from '../services/permission.service';
 
 // ============================================
 // Type Extensions
@@ -20,58 +20,173 @@ declare module 'fastify' {
     organizationId: string;
     userId: string;
     userRole: RoleName;
-    memberId?: string;
+    roleId: string;
+    memberId: string;
+    // From the member's role: every permission / only their assigned projects
+    fullAccess: boolean;
+    projectScoped: boolean;
     accessibleProjectIds?: string[];
+    // Client party of a CLIENT-role member, set by clientPortalMiddleware
+    clientPartyId?: string;
+    // Resolved RolePermission keys, loaded lazily once per request
+    permissions?: ReadonlySet<string>;
   }
 }
 
+/**
+ * Route-level guard. Generic over the route so it can sit in `preHandler`
+ * next to handlers typed with their own Params/Body/Querystring.
+ */
+type RouteGuard = <T extends RouteGenericInterface>(
+  request: FastifyRequest<T>,
+  reply: FastifyReply
+) => Promise<FastifyReply | undefined>;
+
 // ============================================
 // Organization Context Middleware
 // ============================================
 
+/**
+ * Resolve organization context from the verified JWT.
+ *
+ * Identity always comes from the access token. The active organization is the one
+ * stored in the token (set at login or via /auth/switch-organization); clients may
+ * name another one with `x-organization-id`, but it is only honoured when the caller
+ * is a member of it. Role and project access are loaded from OrganizationMember/Role.
+ *
+ * CLIENT-role members are turned away here: they only use the client portal.
+ */
 export async function organizationMiddleware(request: FastifyRequest, reply: FastifyReply) {
-  // TODO: Extract from JWT token in production
-  // For now, expect it in headers
-  const organizationId = request.headers['x-organization-id'] as string;
-  const userId = request.headers['x-user-id'] as string;
-  const userRole = request.headers['x-user-role'] as string;
-
-  // 403 Forbidden (not 401) - user IS authenticated but missing org context
-  if (!organizationId || !userId) {
+  const member = await resolveMember(request, reply);
+  if (!member) {
+    return reply;
+  }
+
+  if (isClientRole(member.role.name)) {
     return reply.code(403).send({
       success: false,
       error: {
-        message: 'Organization context required. Please join or create an organization.',
-        code: 'MISSING_ORG_CONTEXT',
+        message: PERMISSION_ERRORS.CLIENT_PORTAL_ONLY,
+        code: 'CLIENT_PORTAL_ONLY',
       },
     });
   }
 
-  request.organizationId = organizationId;
-  request.userId = userId;
-  request.userRole = (userRole as RoleName) || 'CLIENT';
-
-  // For roles that require project-level access, fetch accessible projects
-  if (requiresProjectAccess(request.userRole)) {
-    const member = await prisma.organizationMember.findUnique({
-      where: {
-        organizationId_userId: {
-          organizationId,
-          userId,
-        },
+  setMemberContext(request, member);
+
+  // For roles that require project-level access, expose accessible projects
+  if (request.projectScoped) {
+    request.accessibleProjectIds = member.projectAccess.map((pa) => pa.projectId);
+  }
+}
+
+/**
+ * Resolve client portal context from the verified JWT.
+ *
+ * Only CLIENT-role members linked to a client party get through. Their projects are
+ * the ones that party is the client of, so requireProjectAccess() works unchanged.
+ */
+export async function clientPortalMiddleware(request: FastifyRequest, reply: FastifyReply) {
+  const member = await resolveMember(request, reply);
+  if (!member) {
+    return reply;
+  }
+
+  if (!isClientRole(member.role.name)) {
+    return reply.code(403).send({
+      success: false,
+      error: {
+        message: PERMISSION_ERRORS.FORBIDDEN,
+        code: 'FORBIDDEN',
       },
-      include: {
-        projectAccess: {
-          select: { projectId: true },
-        },
+    });
+  }
+
+  if (!member.partyId) {
+    return reply.code(403).send({
+      success: false,
+      error: {
+        message: PERMISSION_ERRORS.CLIENT_NOT_LINKED,
+        code: 'CLIENT_NOT_LINKED',
       },
     });
+  }
 
-    if (member) {
-      request.memberId = member.id;
-      request.accessibleProjectIds = member.projectAccess.map((pa) => pa.projectId);
-    }
+  setMemberContext(request, member);
+  request.clientPartyId = member.partyId;
+
+  const projects = await prisma.project.findMany({
+    where: { organizationId: member.organizationId, clientId: member.partyId, ...notDeleted },
+    select: { id: true },
+  });
+  request.accessibleProjectIds = projects.map((p) => p.id);
+}
+
+type ResolvedMember = NonNullable<Awaited<ReturnType<typeof findMember>>>;
+
+function findMember(userId: string, organizationId: string | undefined) {
+  // Without an explicit organization, fall back to the user's oldest membership
+  return prisma.organizationMember.findFirst({
+    where: {
+      userId,
+      ...(organizationId && { organizationId }),
+    },
+    include: {
+      role: { select: { name: true, fullAccess: true, projectScoped: true } },
+      projectAccess: { select: { projectId: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Authenticate the request and load the caller's membership in the active
+ * organization. Replies (and returns null) when there is none.
+ */
+async function resolveMember(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<ResolvedMember | null> {
+  // Verify the access token first - the authenticate decorator replies 401 on failure
+  await request.server.authenticate(request, reply);
+  if (reply.sent) {
+    return null;
   }
+
+  const { organizationId: tokenOrganizationId } = request.user;
+  const requestedOrganizationId = request.headers['x-organization-id'] as string | undefined;
+  const organizationId = requestedOrganizationId || tokenOrganizationId;
+
+  const member = await findMember(request.user.userId, organizationId);
+
+  if (!member) {
+    // 403 Forbidden (not 401) - user IS authenticated but has no usable org context
+    reply.code(403).send({
+      success: false,
+      error: organizationId
+        ? {
+            message: PERMISSION_ERRORS.NOT_ORGANIZATION_MEMBER,
+            code: 'NOT_ORGANIZATION_MEMBER',
+          }
+        : {
+            message: 'Organization context required. Please join or create an organization.',
+            code: 'MISSING_ORG_CONTEXT',
+          },
+    });
+    return null;
+  }
+
+  return member;
+}
+
+function setMemberContext(request: FastifyRequest, member: ResolvedMember): void {
+  request.organizationId = member.organizationId;
+  request.userId = member.userId;
+  request.userRole = member.role.name as RoleName;
+  request.roleId = member.roleId;
+  request.memberId = member.id;
+  request.fullAccess = member.role.fullAccess;
+  request.projectScoped = member.role.projectScoped;
 }
 
 // ============================================
@@ -79,11 +194,12 @@ export async function organizationMiddleware(request: FastifyRequest, reply: Fas
 // ============================================
 
 /**
- * Require specific roles to access a route
+ * Require a full-access role (such as ADMIN) for actions no permission key grants,
+ * like deleting the organization. Custom roles never hold full access.
  */
-export function requireRole(...allowedRoles: RoleName[]) {
-  return async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!allowedRoles.includes(request.userRole)) {
+export function requireFullAccess(): RouteGuard {
+  return async (request, reply) => {
+    if (!request.fullAccess) {
       return reply.code(403).send({
         success: false,
         error: {
@@ -95,16 +211,82 @@ export function requireRole(...allowedRoles: RoleName[]) {
   };
 }
 
+/**
+ * Require a route param to name the caller's active organization, so
+ * organization-level routes cannot reach into another tenant
+ */
+export function requireActiveOrganization(idParam: string = 'id'): RouteGuard {
+  return async (request, reply) => {
+    const params = request.params as Record<string, string> | undefined;
+    if (params?.[idParam] !== request.organizationId) {
+      return reply.code(403).send({
+        success: false,
+        error: {
+          message: PERMISSION_ERRORS.NOT_ORGANIZATION_MEMBER,
+          code: 'NOT_ORGANIZATION_MEMBER',
+        },
+      });
+    }
+  };
+}
+
+/**
+ * Require a route param to name the caller's own user account
+ */
+export function requireSelf(idParam: string = 'id'): RouteGuard {
+  return async (request, reply) => {
+    const params = request.params as Record<string, string> | undefined;
+    if (params?.[idParam] !== request.userId) {
+      return reply.code(403).send({
+        success: false,
+        error: {
+          message: PERMISSION_ERRORS.RESOURCE_NOT_ALLOWED,
+          code: 'FORBIDDEN',
+        },
+      });
+    }
+  };
+}
+
 // ============================================
 // Permission-Based Access Control
 // ============================================
 
 /**
- * Check if user has permission for a resource and action
+ * Get the permission keys granted to the caller's role.
+ * Loaded from RolePermission on first use and cached on the request.
  */
-export function requirePermission(resource: Resource, action: Action) {
-  return async (request: FastifyRequest, reply: FastifyReply) => {
-    const allowed = hasPermission(request.userRole, resource, action);
+export async function getRequestPermissions(request: FastifyRequest): Promise<ReadonlySet<string>> {
+  if (!request.permissions) {
+    request.permissions = await permissionService.getRolePermissions(
+      request.roleId,
+      request.fullAccess
+    );
+  }
+  return request.permissions;
+}
+
+/**
+ * The caller's reach, checked against roles they give to other people
+ */
+export async function getRequestGrantor(request: FastifyRequest): Promise<RoleGrantor> {
+  return {
+    fullAccess: request.fullAccess,
+    projectScoped: request.projectScoped,
+    permissions: await getRequestPermissions(request),
+  };
+}
+
+/**
+ * Require every listed permission key to access a route
+ *
+ * @example
+ * app.post('/', { preHandler: [requirePermission('expenses.create')], ... })
+ */
+export function requirePermission(...keys: PermissionKey[]): RouteGuard {
+  return async (request, reply) => {
+    const permissions = await getRequestPermissions(request);
+    const allowed = keys.every((key) => hasPermission(permissions, key));
 
     if (!allowed) {
       return reply.code(403).send({
@@ -119,27 +301,17 @@ export function requirePermission(resource: Resource, action: Action) {
 }
 
 /**
- * Check project access for scoped roles (SUPERVISOR, CLIENT)
- * Use this on routes that access project-specific data
+ * Check project access for project-scoped roles (SUPERVISOR, CLIENT and custom ones)
+ * Use this on routes that access project-specific data, including the client portal
  */
-export function requireProjectAccess(projectIdParam: string = 'projectId') {
-  return async (request: FastifyRequest, reply: FastifyReply) => {
-    // Admin and Manager have access to all projects
-    if (request.userRole === 'ADMIN' || request.userRole === 'MANAGER') {
-      return;
-    }
-
-    // Accountant has read access to all projects
-    if (request.userRole === 'ACCOUNTANT') {
+export function requireProjectAccess(projectIdParam: string = 'projectId'): RouteGuard {
+  return async (request, reply) => {
+    // Only scoped roles are limited to their assigned projects
+    if (!request.projectScoped) {
       return;
     }
 
-    // Get project ID from params, query, or body
-    const params = request.params as Record<string, string>;
-    const query = request.query as Record<string, string>;
-    const body = request.body as Record<string, string> | null;
-
-    const projectId = params[projectIdParam] || query[projectIdParam] || body?.[projectIdParam];
+    const projectId = getRequestProjectId(request, projectIdParam);
 
     if (!projectId) {
       return reply.code(400).send({
@@ -169,17 +341,18 @@ export function requireProjectAccess(projectIdParam: string = 'projectId') {
 // ============================================
 
 /**
- * Check both permission and project access in one middleware
+ * Check both permission and project access in one middleware.
+ * Unlike requireProjectAccess, a missing project ID is allowed so list routes
+ * can apply getProjectFilter() themselves.
  */
 export function requireResourceAccess(
-  resource: Resource,
-  action: Action,
+  key: PermissionKey,
   projectIdParam: string = 'projectId'
-) {
-  return async (request: FastifyRequest, reply: FastifyReply) => {
+): RouteGuard {
+  return async (request, reply) => {
     // First check permission
-    const allowed = hasPermission(request.userRole, resource, action);
-    if (!allowed) {
+    const permissions = await getRequestPermissions(request);
+    if (!hasPermission(permissions, key)) {
       return reply.code(403).send({
         success: false,
         error: {
@@ -189,36 +362,36 @@ export function requireResourceAccess(
       });
     }
 
-    // Get permission scope
-    const scope = getPermissionScope(request.userRole, resource);
-
-    // If scope is 'all', no further checks needed
-    if (scope === 'all') {
+    if (!request.projectScoped) {
       return;
     }
 
-    // For 'assigned' or 'own' scope, check project access
-    if (scope === 'assigned' || scope === 'own') {
-      const params = request.params as Record<string, string>;
-      const query = request.query as Record<string, string>;
-      const body = request.body as Record<string, string> | null;
-
-      const projectId = params[projectIdParam] || query[projectIdParam] || body?.[projectIdParam];
-
-      // If no project ID in request, let the route handler deal with filtering
-      if (projectId && !request.accessibleProjectIds?.includes(projectId)) {
-        return reply.code(403).send({
-          success: false,
-          error: {
-            message: PERMISSION_ERRORS.NO_PROJECT_ACCESS,
-            code: 'FORBIDDEN',
-          },
-        });
-      }
+    const projectId = getRequestProjectId(request, projectIdParam);
+
+    // If no project ID in request, let the route handler deal with filtering
+    if (projectId && !request.accessibleProjectIds?.includes(projectId)) {
+      return reply.code(403).send({
+        success: false,
+        error: {
+          message: PERMISSION_ERRORS.NO_PROJECT_ACCESS,
+          code: 'FORBIDDEN',
+        },
+      });
     }
   };
 }
 
+/**
+ * Get project ID from params, query, or body
+ */
+function getRequestProjectId(request: FastifyRequest, projectIdParam: string): string | undefined {
+  const params = request.params as Record<string, string> | undefined;
+  const query = request.query as Record<string, string> | undefined;
+  const body = request.body as Record<string, string> | null | undefined;
+
+  return params?.[projectIdParam] || query?.[projectIdParam] || body?.[projectIdParam];
+}
+
 // ============================================
 // Helper: Filter data by accessible projects
 // ============================================
@@ -230,11 +403,7 @@ export function requireResourceAccess(
 export function getProjectFilter(
   request: FastifyRequest
 ): { projectId: { in: string[] } } | undefined {
-  if (
-    request.userRole === 'ADMIN' ||
-    request.userRole === 'MANAGER' ||
-    request.userRole === 'ACCOUNTANT'
-  ) {
+  if (!request.projectScoped) {
     return undefined; // No filter needed
   }
 
@@ -0,0 +1,369 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import type {
+  AdvanceClaimStatus,
+  AdvanceSettlementType,
+  Attachment,
+  PaymentMode,
+  Prisma,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface CreateAdvanceClaimData {
+  projectId: string;
+  memberId: string;
+  description: string;
+  amount: number;
+  expenseDate: Date;
+  notes?: string;
+}
+
+export interface UpdateAdvanceClaimData {
+  description?: string;
+  amount?: number;
+  expenseDate?: Date;
+  notes?: string | null;
+}
+
+export interface AdvanceClaimListOptions {
+  skip?: number;
+  take?: number;
+  projectId?: string;
+  memberId?: string;
+  status?: AdvanceClaimStatus;
+}
+
+export interface CreateSettlementData {
+  settledById?: string;
+  type: AdvanceSettlementType;
+  amount: number;
+  paymentMode?: PaymentMode;
+  balanceAfter: number;
+  settledAt: Date;
+  notes?: string;
+}
+
+export interface CreateClaimAttachmentData {
+  fileName: string;
+  fileUrl: string;
+  storagePath: string;
+  mimeType: string;
+}
+
+// Include object for claim queries
+const claimInclude = {
+  project: { select: { id: true, name: true } },
+  member: {
+    include: {
+      user: true,
+      role: true,
+    },
+  },
+  settlement: {
+    include: {
+      settledBy: { include: { user: true } },
+    },
+  },
+} as const;
+
+export type AdvanceClaimWithAttachments = Prisma.AdvanceClaimGetPayload<{
+  include: typeof claimInclude;
+}> & { attachments: Attachment[] };
+
+export class AdvanceClaimRepository {
+  async create(
+    organizationId: string,
+    data: CreateAdvanceClaimData
+  ): Promise<AdvanceClaimWithAttachments> {
+    try {
+      const claim = await prisma.advanceClaim.create({
+        data: {
+          organizationId,
+          projectId: data.projectId,
+          memberId: data.memberId,
+          description: data.description,
+          amount: new Decimal(data.amount),
+          expenseDate: data.expenseDate,
+          notes: data.notes,
+        },
+        include: claimInclude,
+      });
+
+      return { ...claim, attachments: [] };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, id: string): Promise<AdvanceClaimWithAttachments | null> {
+    try {
+      const claim = await prisma.advanceClaim.findFirst({
+        where: { id, organizationId },
+        include: claimInclude,
+      });
+      if (!claim) return null;
+
+      const [withAttachments] = await this.withAttachments([claim]);
+      return withAttachments;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findAll(
+    organizationId: string,
+    options?: AdvanceClaimListOptions
+  ): Promise<{ claims: AdvanceClaimWithAttachments[]; total: number }> {
+    try {
+      const where: Prisma.AdvanceClaimWhereInput = {
+        organizationId,
+        ...(options?.projectId && { projectId: options.projectId }),
+        ...(options?.memberId && { memberId: options.memberId }),
+        ...(options?.status && { status: options.status }),
+      };
+
+      const [claims, total] = await Promise.all([
+        prisma.advanceClaim.findMany({
+          where,
+          skip: options?.skip,
+          take: options?.take,
+          include: claimInclude,
+          orderBy: [{ expenseDate: 'desc' }, { createdAt: 'desc' }],
+        }),
+        prisma.advanceClaim.count({ where }),
+      ]);
+
+      return { claims: await this.withAttachments(claims), total };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Update a claim that is still pending
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdateAdvanceClaimData
+  ): Promise<AdvanceClaimWithAttachments> {
+    try {
+      const result = await prisma.advanceClaim.updateMany({
+        where: { id, organizationId, status: 'PENDING' },
+        data: {
+          description: data.description,
+          amount: data.amount !== undefined ? new Decimal(data.amount) : undefined,
+          expenseDate: data.expenseDate,
+          notes: data.notes,
+        },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      return await this.findByIdOrThrow(id);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Delete a claim along with its attachments. Returns the attachments so their
+   * files can be removed from storage.
+   */
+  async delete(organizationId: string, id: string): Promise<Attachment[]> {
+    try {
+      const attachments = (await this.findAttachmentLinks([id])).map((link) => link.attachment);
+
+      await prisma.$transaction([
+        prisma.attachment.deleteMany({
+          where: { id: { in: attachments.map((a) => a.id) }, organizationId },
+        }),
+        prisma.advanceClaim.deleteMany({ where: { id, organizationId } }),
+      ]);
+
+      return attachments;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async memberExists(organizationId: string, memberId: string): Promise<boolean> {
+    try {
+      const count = await prisma.organizationMember.count({
+        where: { id: memberId, organizationId },
+      });
+      return count > 0;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Settlement
+  // ============================================
+
+  /**
+   * Mark a pending claim settled and record what happened to the member's cash
+   */
+  async settle(
+    organizationId: string,
+    claim: AdvanceClaimWithAttachments,
+    data: CreateSettlementData
+  ): Promise<AdvanceClaimWithAttachments> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const result = await tx.advanceClaim.updateMany({
+          where: { id: claim.id, organizationId, status: 'PENDING' },
+          data: { status: 'SETTLED', rejectionReason: null },
+        });
+
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+
+        await tx.advanceSettlement.create({
+          data: {
+            organizationId,
+            projectId: claim.projectId,
+            memberId: claim.memberId,
+            claimId: claim.id,
+            settledById: data.settledById,
+            type: data.type,
+            amount: new Decimal(data.amount),
+            paymentMode: data.paymentMode,
+            balanceAfter: new Decimal(data.balanceAfter),
+            settledAt: data.settledAt,
+            notes: data.notes,
+          },
+        });
+      });
+
+      return await this.findByIdOrThrow(claim.id);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async reject(
+    organizationId: string,
+    id: string,
+    reason: string
+  ): Promise<AdvanceClaimWithAttachments> {
+    try {
+      const result = await prisma.advanceClaim.updateMany({
+        where: { id, organizationId, status: 'PENDING' },
+        data: { status: 'REJECTED', rejectionReason: reason },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      return await this.findByIdOrThrow(id);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Settlements for a member in a project, most recent first
+   */
+  async findSettlements(organizationId: string, projectId: string, memberId: string) {
+    try {
+      return await prisma.advanceSettlement.findMany({
+        where: { organizationId, projectId, memberId },
+        include: {
+          claim: { select: { id: true, description: true, amount: true, expenseDate: true } },
+          settledBy: { include: { user: true } },
+        },
+        orderBy: [{ settledAt: 'desc' }, { createdAt: 'desc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Attachments
+  // ============================================
+
+  async addAttachment(
+    organizationId: string,
+    claimId: string,
+    data: CreateClaimAttachmentData
+  ): Promise<Attachment> {
+    try {
+      return await prisma.attachment.create({
+        data: {
+          organizationId,
+          ...data,
+          entities: { create: { entityType: 'ADVANCE_CLAIM', entityId: claimId } },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findAttachment(
+    organizationId: string,
+    claimId: string,
+    attachmentId: string
+  ): Promise<Attachment | null> {
+    try {
+      return await prisma.attachment.findFirst({
+        where: {
+          id: attachmentId,
+          organizationId,
+          entities: { some: { entityType: 'ADVANCE_CLAIM', entityId: claimId } },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async deleteAttachment(organizationId: string, attachmentId: string): Promise<void> {
+    try {
+      await prisma.attachment.deleteMany({ where: { id: attachmentId, organizationId } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  private async findByIdOrThrow(id: string): Promise<AdvanceClaimWithAttachments> {
+    const claim = await prisma.advanceClaim.findUniqueOrThrow({
+      where: { id },
+      include: claimInclude,
+    });
+    const [withAttachments] = await this.withAttachments([claim]);
+    return withAttachments;
+  }
+
+  private async findAttachmentLinks(claimIds: string[]) {
+    return prisma.entityAttachment.findMany({
+      where: { entityType: 'ADVANCE_CLAIM', entityId: { in: claimIds } },
+      include: { attachment: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Bills link to claims through the shared entity_attachments table
+  private async withAttachments<T extends { id: string }>(
+    claims: T[]
+  ): Promise<Array<T & { attachments: Attachment[] }>> {
+    if (claims.length === 0) return [];
+
+    const links = await this.findAttachmentLinks(claims.map((claim) => claim.id));
+    return claims.map((claim) => ({
+      ...claim,
+      attachments: links
+        .filter((link) => link.entityId === claim.id)
+        .map((link) => link.attachment),
+    }));
+  }
+}
+
+export const advanceClaimRepository = new AdvanceClaimRepository();
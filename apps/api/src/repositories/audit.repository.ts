@@ -0,0 +1,110 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import type { AuditAction, AuditEntityType, AuditLog, Prisma } from '@prisma/client';
+
+export interface CreateAuditLogData {
+  actorMemberId?: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+}
+
+export interface AuditLogListOptions {
+  skip?: number;
+  take?: number;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  actorMemberId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Writes the audit entries for a change inside the transaction that makes it, so
+ * the change and its audit trail are committed (or rolled back) together
+ */
+export type AuditHook<T> = (tx: Prisma.TransactionClient, record: T) => Promise<void>;
+
+// Include the acting member's name for display
+const auditLogInclude = {
+  actor: { select: { id: true, user: { select: { id: true, name: true } } } },
+} as const;
+
+/**
+ * Audit Log Repository - append-only, so there is no update or delete.
+ */
+export class AuditRepository {
+  async create(
+    organizationId: string,
+    data: CreateAuditLogData,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<AuditLog> {
+    try {
+      return await client.auditLog.create({
+        data: { organizationId, ...data },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async createMany(
+    organizationId: string,
+    data: CreateAuditLogData[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    try {
+      await client.auditLog.createMany({
+        data: data.map((entry) => ({ organizationId, ...entry })),
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * List audit entries, newest first
+   */
+  async findAll(
+    organizationId: string,
+    options?: AuditLogListOptions
+  ): Promise<{ entries: AuditLog[]; total: number }> {
+    try {
+      const where: Prisma.AuditLogWhereInput = {
+        organizationId,
+        ...(options?.entityType && { entityType: options.entityType }),
+        ...(options?.entityId && { entityId: options.entityId }),
+        ...(options?.action && { action: options.action }),
+        ...(options?.actorMemberId && { actorMemberId: options.actorMemberId }),
+        ...(options?.startDate || options?.endDate
+          ? {
+              createdAt: {
+                ...(options?.startDate && { gte: options.startDate }),
+                ...(options?.endDate && { lte: options.endDate }),
+              },
+            }
+          : {}),
+      };
+
+      const [entries, total] = await Promise.all([
+        prisma.auditLog.findMany({
+          where,
+          skip: options?.skip,
+          take: options?.take,
+          include: auditLogInclude,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+        prisma.auditLog.count({ where }),
+      ]);
+
+      return { entries, total };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const auditRepository = new AuditRepository();
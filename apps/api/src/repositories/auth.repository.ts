@@ -12,6 +12,9 @@ export type UserWithMembership = User & {
   })[];
 };
 
+// Name given to accounts created at sign-up, until the user picks one
+export const DEFAULT_USER_NAME = 'User';
+
 export class AuthRepository {
   /**
    * Find user by phone number with organization memberships
@@ -58,7 +61,7 @@ export class AuthRepository {
   /**
    * Create a new user (called after OTP verification for new users)
    */
-  async createUser(phone: string, name: string = 'User'): Promise<UserWithMembership> {
+  async createUser(phone: string, name: string = DEFAULT_USER_NAME): Promise<UserWithMembership> {
     try {
       return await prisma.user.create({
         data: {
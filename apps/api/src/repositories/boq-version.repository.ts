@@ -0,0 +1,234 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { BOQCategory, BOQVersion, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import type { AuditHook } from './audit.repository';
+
+export interface BOQVersionItemData {
+  boqItemId: string;
+  sectionName: string | null;
+  stageName: string | null;
+  code: string | null;
+  category: BOQCategory;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface CreateBOQVersionData {
+  projectId: string;
+  name: string;
+  notes?: string | null;
+  isBaseline: boolean;
+  totalAmount: number;
+  createdById?: string | null;
+  items: BOQVersionItemData[];
+}
+
+const memberName = { select: { id: true, user: { select: { name: true } } } } as const;
+
+const versionInclude = {
+  createdBy: memberName,
+} as const;
+
+const versionWithItemsInclude = {
+  ...versionInclude,
+  items: { orderBy: { sortOrder: 'asc' } },
+} as const;
+
+export type BOQVersionWithCreator = Prisma.BOQVersionGetPayload<{
+  include: typeof versionInclude;
+}>;
+
+export type BOQVersionWithItems = Prisma.BOQVersionGetPayload<{
+  include: typeof versionWithItemsInclude;
+}>;
+
+export class BOQVersionRepository {
+  async findByProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.bOQVersion.findMany({
+        where: { organizationId, projectId },
+        include: versionInclude,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, projectId: string, id: string) {
+    try {
+      return await prisma.bOQVersion.findFirst({
+        where: { id, organizationId, projectId },
+        include: versionWithItemsInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findBaseline(organizationId: string, projectId: string) {
+    try {
+      return await prisma.bOQVersion.findFirst({
+        where: { organizationId, projectId, isBaseline: true },
+        include: versionWithItemsInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findByName(projectId: string, name: string) {
+    try {
+      return await prisma.bOQVersion.findFirst({
+        where: { projectId, name: { equals: name, mode: 'insensitive' } },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Save a version with its items. A new baseline takes over from the old one.
+   */
+  async create(
+    organizationId: string,
+    data: CreateBOQVersionData,
+    audit?: AuditHook<BOQVersionWithCreator>
+  ) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        if (data.isBaseline) {
+          await tx.bOQVersion.updateMany({
+            where: { organizationId, projectId: data.projectId, isBaseline: true },
+            data: { isBaseline: false },
+          });
+        }
+
+        const version = await tx.bOQVersion.create({
+          data: {
+            organizationId,
+            projectId: data.projectId,
+            name: data.name,
+            notes: data.notes ?? null,
+            isBaseline: data.isBaseline,
+            itemCount: data.items.length,
+            totalAmount: new Decimal(data.totalAmount),
+            createdById: data.createdById ?? null,
+            items: {
+              create: data.items.map((item, index) => ({
+                sortOrder: index + 1,
+                boqItemId: item.boqItemId,
+                sectionName: item.sectionName,
+                stageName: item.stageName,
+                code: item.code,
+                category: item.category,
+                description: item.description,
+                unit: item.unit,
+                quantity: new Decimal(item.quantity),
+                rate: new Decimal(item.rate),
+                amount: new Decimal(item.amount),
+              })),
+            },
+          },
+          include: versionInclude,
+        });
+        await audit?.(tx, version);
+        return version;
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async setBaseline(
+    organizationId: string,
+    projectId: string,
+    id: string,
+    audit?: AuditHook<BOQVersionWithCreator>
+  ) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        await tx.bOQVersion.updateMany({
+          where: { organizationId, projectId, isBaseline: true, id: { not: id } },
+          data: { isBaseline: false },
+        });
+        const version = await tx.bOQVersion.update({
+          where: { id, organizationId },
+          data: { isBaseline: true },
+          include: versionInclude,
+        });
+        await audit?.(tx, version);
+        return version;
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async delete(organizationId: string, id: string, audit?: AuditHook<BOQVersion>) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const version = await tx.bOQVersion.delete({ where: { id, organizationId } });
+        await audit?.(tx, version);
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Lookups
+  // ============================================
+
+  async findProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { id: true, name: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async hasBaseline(projectId: string) {
+    try {
+      return (await prisma.bOQVersion.count({ where: { projectId, isBaseline: true } })) > 0;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * The live BOQ, in section order, with section and stage names to copy
+   */
+  async findLiveItems(organizationId: string, projectId: string) {
+    try {
+      return await prisma.bOQItem.findMany({
+        where: { organizationId, projectId },
+        select: {
+          id: true,
+          code: true,
+          category: true,
+          description: true,
+          unit: true,
+          quantity: true,
+          rate: true,
+          section: { select: { name: true } },
+          stage: { select: { name: true } },
+        },
+        orderBy: [{ section: { sortOrder: 'asc' } }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const boqVersionRepository = new BOQVersionRepository();
@@ -6,9 +6,11 @@
  */
 
 import { Decimal } from '@prisma/client/runtime/library';
-import type { BOQCategory, Prisma } from '@prisma/client';
+import type { BOQCategory, BOQExpenseLink, BOQItem, BOQSection, Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { AuditHook } from './audit.repository';
 
 // ============================================
 // Types
@@ -18,6 +20,7 @@ export interface CreateBOQItemData {
   projectId: string;
   sectionId?: string;
   stageId?: string;
+  materialTypeItemId?: string;
   code?: string;
   category: BOQCategory;
   description: string;
@@ -32,6 +35,7 @@ export interface CreateBOQItemData {
 export interface UpdateBOQItemData {
   sectionId?: string | null;
   stageId?: string | null;
+  materialTypeItemId?: string | null;
   code?: string | null;
   category?: BOQCategory;
   description?: string;
@@ -43,6 +47,15 @@ export interface UpdateBOQItemData {
   flagReason?: string | null;
 }
 
+export interface ImportBOQItemData extends Omit<CreateBOQItemData, 'sectionId'> {
+  sectionName?: string;
+}
+
+export interface ImportedBOQ {
+  sections: BOQSection[];
+  items: BOQItem[];
+}
+
 export interface CreateBOQSectionData {
   projectId: string;
   name: string;
@@ -64,7 +77,10 @@ export interface BOQListOptions {
 const boqItemInclude = {
   section: { select: { id: true, name: true } },
   stage: { select: { id: true, name: true } },
+  materialType: { select: { id: true, name: true } },
+  rateAnalysis: { select: { id: true, unitRate: true } },
   expenseLinks: {
+    where: { expense: notDeleted },
     include: {
       expense: {
         select: {
@@ -79,6 +95,14 @@ const boqItemInclude = {
   },
 } as const;
 
+export type BOQItemWithRelations = Prisma.BOQItemGetPayload<{ include: typeof boqItemInclude }>;
+
+const sectionInclude = {
+  items: { include: boqItemInclude },
+} as const;
+
+export type BOQSectionWithItems = Prisma.BOQSectionGetPayload<{ include: typeof sectionInclude }>;
+
 // ============================================
 // BOQ Item Repository
 // ============================================
@@ -87,25 +111,34 @@ export class BOQItemRepository {
   /**
    * Create a new BOQ item
    */
-  async create(organizationId: string, data: CreateBOQItemData) {
+  async create(
+    organizationId: string,
+    data: CreateBOQItemData,
+    audit?: AuditHook<BOQItemWithRelations>
+  ) {
     try {
-      return await prisma.bOQItem.create({
-        data: {
-          organizationId,
-          projectId: data.projectId,
-          sectionId: data.sectionId,
-          stageId: data.stageId,
-          code: data.code,
-          category: data.category,
-          description: data.description,
-          unit: data.unit,
-          quantity: new Decimal(data.quantity),
-          rate: new Decimal(data.rate),
-          notes: data.notes,
-          isReviewFlagged: data.isReviewFlagged ?? false,
-          flagReason: data.flagReason,
-        },
-        include: boqItemInclude,
+      return await prisma.$transaction(async (tx) => {
+        const item = await tx.bOQItem.create({
+          data: {
+            organizationId,
+            projectId: data.projectId,
+            sectionId: data.sectionId,
+            stageId: data.stageId,
+            materialTypeItemId: data.materialTypeItemId,
+            code: data.code,
+            category: data.category,
+            description: data.description,
+            unit: data.unit,
+            quantity: new Decimal(data.quantity),
+            rate: new Decimal(data.rate),
+            notes: data.notes,
+            isReviewFlagged: data.isReviewFlagged ?? false,
+            flagReason: data.flagReason,
+          },
+          include: boqItemInclude,
+        });
+        await audit?.(tx, item);
+        return item;
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -113,28 +146,70 @@ export class BOQItemRepository {
   }
 
   /**
-   * Create multiple BOQ items (for import)
+   * Save imported items in one go, creating the sections they name that the
+   * project does not have yet
    */
-  async createMany(organizationId: string, items: CreateBOQItemData[]) {
+  async importItems(
+    organizationId: string,
+    projectId: string,
+    items: ImportBOQItemData[],
+    audit?: AuditHook<ImportedBOQ>
+  ) {
     try {
-      const data = items.map((item) => ({
-        organizationId,
-        projectId: item.projectId,
-        sectionId: item.sectionId,
-        stageId: item.stageId,
-        code: item.code,
-        category: item.category,
-        description: item.description,
-        unit: item.unit,
-        quantity: new Decimal(item.quantity),
-        rate: new Decimal(item.rate),
-        notes: item.notes,
-        isReviewFlagged: item.isReviewFlagged ?? false,
-        flagReason: item.flagReason,
-      }));
-
-      const result = await prisma.bOQItem.createMany({ data });
-      return result.count;
+      return await prisma.$transaction(async (tx) => {
+        const sectionIds = new Map<string, string>();
+        const sections: BOQSection[] = [];
+
+        for (const name of new Set(
+          items.flatMap((item) => (item.sectionName ? [item.sectionName] : []))
+        )) {
+          const existing = await tx.bOQSection.findFirst({
+            where: { organizationId, projectId, name },
+          });
+          if (existing) {
+            sectionIds.set(name, existing.id);
+            continue;
+          }
+
+          // New sections go after the existing ones
+          const maxSort = await tx.bOQSection.aggregate({
+            where: { organizationId, projectId },
+            _max: { sortOrder: true },
+          });
+          const section = await tx.bOQSection.create({
+            data: {
+              organizationId,
+              projectId,
+              name,
+              sortOrder: (maxSort._max.sortOrder ?? 0) + 1,
+            },
+          });
+          sectionIds.set(name, section.id);
+          sections.push(section);
+        }
+
+        const created = await tx.bOQItem.createManyAndReturn({
+          data: items.map((item) => ({
+            organizationId,
+            projectId,
+            sectionId: item.sectionName ? sectionIds.get(item.sectionName) : undefined,
+            stageId: item.stageId,
+            code: item.code,
+            category: item.category,
+            description: item.description,
+            unit: item.unit,
+            quantity: new Decimal(item.quantity),
+            rate: new Decimal(item.rate),
+            notes: item.notes,
+            isReviewFlagged: item.isReviewFlagged ?? false,
+            flagReason: item.flagReason,
+          })),
+        });
+
+        const imported = { sections, items: created };
+        await audit?.(tx, imported);
+        return imported;
+      });
     } catch (error) {
       throw handlePrismaError(error);
     }
@@ -274,24 +349,36 @@ export class BOQItemRepository {
   /**
    * Update a BOQ item
    */
-  async update(organizationId: string, id: string, data: UpdateBOQItemData) {
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdateBOQItemData,
+    audit?: AuditHook<BOQItemWithRelations>
+  ) {
     try {
-      return await prisma.bOQItem.update({
-        where: { id, organizationId },
-        data: {
-          ...(data.sectionId !== undefined && { sectionId: data.sectionId }),
-          ...(data.stageId !== undefined && { stageId: data.stageId }),
-          ...(data.code !== undefined && { code: data.code }),
-          ...(data.category && { category: data.category }),
-          ...(data.description && { description: data.description }),
-          ...(data.unit && { unit: data.unit }),
-          ...(data.quantity !== undefined && { quantity: new Decimal(data.quantity) }),
-          ...(data.rate !== undefined && { rate: new Decimal(data.rate) }),
-          ...(data.notes !== undefined && { notes: data.notes }),
-          ...(data.isReviewFlagged !== undefined && { isReviewFlagged: data.isReviewFlagged }),
-          ...(data.flagReason !== undefined && { flagReason: data.flagReason }),
-        },
-        include: boqItemInclude,
+      return await prisma.$transaction(async (tx) => {
+        const item = await tx.bOQItem.update({
+          where: { id, organizationId },
+          data: {
+            ...(data.sectionId !== undefined && { sectionId: data.sectionId }),
+            ...(data.stageId !== undefined && { stageId: data.stageId }),
+            ...(data.materialTypeItemId !== undefined && {
+              materialTypeItemId: data.materialTypeItemId,
+            }),
+            ...(data.code !== undefined && { code: data.code }),
+            ...(data.category && { category: data.category }),
+            ...(data.description && { description: data.description }),
+            ...(data.unit && { unit: data.unit }),
+            ...(data.quantity !== undefined && { quantity: new Decimal(data.quantity) }),
+            ...(data.rate !== undefined && { rate: new Decimal(data.rate) }),
+            ...(data.notes !== undefined && { notes: data.notes }),
+            ...(data.isReviewFlagged !== undefined && { isReviewFlagged: data.isReviewFlagged }),
+            ...(data.flagReason !== undefined && { flagReason: data.flagReason }),
+          },
+          include: boqItemInclude,
+        });
+        await audit?.(tx, item);
+        return item;
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -301,10 +388,13 @@ export class BOQItemRepository {
   /**
    * Delete a BOQ item
    */
-  async delete(organizationId: string, id: string) {
+  async delete(organizationId: string, id: string, audit?: AuditHook<BOQItem>) {
     try {
-      await prisma.bOQItem.delete({
-        where: { id, organizationId },
+      await prisma.$transaction(async (tx) => {
+        const item = await tx.bOQItem.delete({
+          where: { id, organizationId },
+        });
+        await audit?.(tx, item);
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -320,6 +410,7 @@ export class BOQItemRepository {
         where: { organizationId, projectId },
         include: {
           expenseLinks: {
+            where: { expense: notDeleted },
             include: {
               expense: {
                 select: { rate: true, quantity: true },
@@ -330,6 +421,7 @@ export class BOQItemRepository {
       });
 
       let totalQuoted = 0;
+      let originalQuoted = 0;
       let totalActual = 0;
       const categoryBreakdown: Record<
         BOQCategory,
@@ -346,6 +438,13 @@ export class BOQItemRepository {
         const quotedAmount = item.rate.toNumber() * item.quantity.toNumber();
         totalQuoted += quotedAmount;
 
+        // As quoted before change orders; items they added were not in it
+        if (!item.changeOrderId) {
+          originalQuoted +=
+            (item.originalRate ?? item.rate).toNumber() *
+            (item.originalQuantity ?? item.quantity).toNumber();
+        }
+
         // Calculate actual from linked expenses
         const actualAmount = item.expenseLinks.reduce((sum, link) => {
           return sum + link.expense.rate.toNumber() * link.expense.quantity.toNumber();
@@ -364,6 +463,7 @@ export class BOQItemRepository {
 
       return {
         totalQuoted,
+        originalQuoted,
         totalActual,
         variance,
         variancePercent,
@@ -379,7 +479,12 @@ export class BOQItemRepository {
   /**
    * Link an expense to a BOQ item
    */
-  async linkExpense(organizationId: string, boqItemId: string, expenseId: string) {
+  async linkExpense(
+    organizationId: string,
+    boqItemId: string,
+    expenseId: string,
+    audit?: AuditHook<BOQExpenseLink>
+  ) {
     try {
       // Verify BOQ item belongs to organization
       const boqItem = await prisma.bOQItem.findFirst({
@@ -391,14 +496,18 @@ export class BOQItemRepository {
 
       // Verify expense belongs to same organization and project
       const expense = await prisma.expense.findFirst({
-        where: { id: expenseId, organizationId, projectId: boqItem.projectId },
+        where: { id: expenseId, organizationId, projectId: boqItem.projectId, ...notDeleted },
       });
       if (!expense) {
         throw new Error('Expense not found or does not belong to same project');
       }
 
-      return await prisma.bOQExpenseLink.create({
-        data: { boqItemId, expenseId },
+      return await prisma.$transaction(async (tx) => {
+        const link = await tx.bOQExpenseLink.create({
+          data: { boqItemId, expenseId },
+        });
+        await audit?.(tx, link);
+        return link;
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -410,8 +519,14 @@ export class BOQItemRepository {
    * @param organizationId - The requesting organization's ID for tenancy validation
    * @param boqItemId - The BOQ item ID
    * @param expenseId - The expense ID to unlink
+   * @param audit - Records the removed link in the same transaction
    */
-  async unlinkExpense(organizationId: string, boqItemId: string, expenseId: string) {
+  async unlinkExpense(
+    organizationId: string,
+    boqItemId: string,
+    expenseId: string,
+    audit?: AuditHook<BOQExpenseLink>
+  ) {
     try {
       // Verify BOQ item belongs to the organization (tenancy check)
       const boqItem = await prisma.bOQItem.findUnique({
@@ -426,10 +541,13 @@ export class BOQItemRepository {
         throw new Error('Unauthorized: BOQ item does not belong to this organization');
       }
 
-      await prisma.bOQExpenseLink.delete({
-        where: {
-          boqItemId_expenseId: { boqItemId, expenseId },
-        },
+      await prisma.$transaction(async (tx) => {
+        const link = await tx.bOQExpenseLink.delete({
+          where: {
+            boqItemId_expenseId: { boqItemId, expenseId },
+          },
+        });
+        await audit?.(tx, link);
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -445,18 +563,24 @@ export class BOQSectionRepository {
   /**
    * Create a new BOQ section
    */
-  async create(organizationId: string, data: CreateBOQSectionData) {
+  async create(
+    organizationId: string,
+    data: CreateBOQSectionData,
+    audit?: AuditHook<BOQSectionWithItems>
+  ) {
     try {
-      return await prisma.bOQSection.create({
-        data: {
-          organizationId,
-          projectId: data.projectId,
-          name: data.name,
-          sortOrder: data.sortOrder ?? 0,
-        },
-        include: {
-          items: { include: boqItemInclude },
-        },
+      return await prisma.$transaction(async (tx) => {
+        const section = await tx.bOQSection.create({
+          data: {
+            organizationId,
+            projectId: data.projectId,
+            name: data.name,
+            sortOrder: data.sortOrder ?? 0,
+          },
+          include: sectionInclude,
+        });
+        await audit?.(tx, section);
+        return section;
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -464,16 +588,12 @@ export class BOQSectionRepository {
   }
 
   /**
-   * Find all sections for a project
+   * Find a section by ID
    */
-  async findByProject(organizationId: string, projectId: string) {
+  async findById(organizationId: string, id: string) {
     try {
-      return await prisma.bOQSection.findMany({
-        where: { organizationId, projectId },
-        include: {
-          items: { include: boqItemInclude },
-        },
-        orderBy: { sortOrder: 'asc' },
+      return await prisma.bOQSection.findFirst({
+        where: { id, organizationId },
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -481,16 +601,14 @@ export class BOQSectionRepository {
   }
 
   /**
-   * Update a section
+   * Find all sections for a project
    */
-  async update(organizationId: string, id: string, data: { name?: string; sortOrder?: number }) {
+  async findByProject(organizationId: string, projectId: string) {
     try {
-      return await prisma.bOQSection.update({
-        where: { id, organizationId },
-        data,
-        include: {
-          items: { include: boqItemInclude },
-        },
+      return await prisma.bOQSection.findMany({
+        where: { organizationId, projectId },
+        include: sectionInclude,
+        orderBy: { sortOrder: 'asc' },
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -498,12 +616,23 @@ export class BOQSectionRepository {
   }
 
   /**
-   * Delete a section (items will have sectionId set to null)
+   * Update a section
    */
-  async delete(organizationId: string, id: string) {
+  async update(
+    organizationId: string,
+    id: string,
+    data: { name?: string; sortOrder?: number },
+    audit?: AuditHook<BOQSectionWithItems>
+  ) {
     try {
-      await prisma.bOQSection.delete({
-        where: { id, organizationId },
+      return await prisma.$transaction(async (tx) => {
+        const section = await tx.bOQSection.update({
+          where: { id, organizationId },
+          data,
+          include: sectionInclude,
+        });
+        await audit?.(tx, section);
+        return section;
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -511,29 +640,15 @@ export class BOQSectionRepository {
   }
 
   /**
-   * Find or create a section by name
+   * Delete a section (items will have sectionId set to null)
    */
-  async findOrCreate(organizationId: string, projectId: string, name: string) {
+  async delete(organizationId: string, id: string, audit?: AuditHook<BOQSection>) {
     try {
-      const existing = await prisma.bOQSection.findFirst({
-        where: { organizationId, projectId, name },
-      });
-
-      if (existing) return existing;
-
-      // Get max sort order
-      const maxSort = await prisma.bOQSection.aggregate({
-        where: { organizationId, projectId },
-        _max: { sortOrder: true },
-      });
-
-      return await prisma.bOQSection.create({
-        data: {
-          organizationId,
-          projectId,
-          name,
-          sortOrder: (maxSort._max.sortOrder ?? 0) + 1,
-        },
+      await prisma.$transaction(async (tx) => {
+        const section = await tx.bOQSection.delete({
+          where: { id, organizationId },
+        });
+        await audit?.(tx, section);
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -0,0 +1,392 @@
+import { prisma } from '../lib/prisma';
+import { DatabaseError, handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { BOQCategory, ChangeOrderLineAction, ChangeOrderStatus, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface ChangeOrderLineData {
+  action: ChangeOrderLineAction;
+  boqItemId?: string | null;
+  sectionId?: string | null;
+  stageId?: string | null;
+  category: BOQCategory;
+  description: string;
+  unit: string;
+  previousQuantity: number;
+  previousRate: number;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface CreateChangeOrderData {
+  projectId: string;
+  title: string;
+  description?: string | null;
+  raisedDate: Date;
+  costImpact: number;
+  createdById?: string | null;
+  lines: ChangeOrderLineData[];
+}
+
+export interface UpdateChangeOrderData {
+  title?: string;
+  description?: string | null;
+  raisedDate?: Date;
+  costImpact?: number;
+  lines?: ChangeOrderLineData[];
+}
+
+export interface ClientDecisionData {
+  decidedAt: Date;
+  clientReference?: string | null;
+}
+
+const memberName = { select: { id: true, user: { select: { name: true } } } } as const;
+
+const changeOrderInclude = {
+  createdBy: memberName,
+  lines: {
+    orderBy: { sortOrder: 'asc' },
+    include: {
+      boqItem: { select: { id: true, code: true } },
+      section: { select: { id: true, name: true } },
+      stage: { select: { id: true, name: true } },
+    },
+  },
+} as const;
+
+export type ChangeOrderWithLines = Prisma.ChangeOrderGetPayload<{
+  include: typeof changeOrderInclude;
+}>;
+
+const decimal = (value: number) => new Decimal(value);
+
+function linesData(lines: ChangeOrderLineData[]) {
+  return lines.map((line, index) => ({
+    sortOrder: index + 1,
+    action: line.action,
+    boqItemId: line.boqItemId ?? null,
+    sectionId: line.sectionId ?? null,
+    stageId: line.stageId ?? null,
+    category: line.category,
+    description: line.description,
+    unit: line.unit,
+    previousQuantity: decimal(line.previousQuantity),
+    previousRate: decimal(line.previousRate),
+    quantity: decimal(line.quantity),
+    rate: decimal(line.rate),
+    amount: decimal(line.amount),
+  }));
+}
+
+function priceImpact(lines: ChangeOrderLineData[]) {
+  return decimal(Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100);
+}
+
+/**
+ * Change Order Repository - variations to a project's client contract, and
+ * applying the approved ones to its BOQ and contract value
+ */
+export class ChangeOrderRepository {
+  async findByProject(organizationId: string, projectId: string): Promise<ChangeOrderWithLines[]> {
+    try {
+      return await prisma.changeOrder.findMany({
+        where: { organizationId, projectId },
+        include: changeOrderInclude,
+        orderBy: { number: 'desc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, id: string): Promise<ChangeOrderWithLines | null> {
+    try {
+      return await prisma.changeOrder.findFirst({
+        where: { id, organizationId, project: notDeleted },
+        include: changeOrderInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Draft a change order with the project's next number
+   */
+  async create(organizationId: string, data: CreateChangeOrderData): Promise<ChangeOrderWithLines> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const last = await tx.changeOrder.aggregate({
+          where: { projectId: data.projectId },
+          _max: { number: true },
+        });
+
+        return tx.changeOrder.create({
+          data: {
+            organizationId,
+            projectId: data.projectId,
+            number: (last._max.number ?? 0) + 1,
+            title: data.title,
+            description: data.description ?? null,
+            raisedDate: data.raisedDate,
+            priceImpact: priceImpact(data.lines),
+            costImpact: decimal(data.costImpact),
+            createdById: data.createdById ?? null,
+            lines: { create: linesData(data.lines) },
+          },
+          include: changeOrderInclude,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Change a draft; given lines replace the existing ones
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdateChangeOrderData
+  ): Promise<ChangeOrderWithLines> {
+    try {
+      const { lines, costImpact, ...fields } = data;
+
+      return await prisma.$transaction(async (tx) => {
+        const result = await tx.changeOrder.updateMany({
+          where: { id, organizationId, status: 'DRAFT' },
+          data: {
+            ...fields,
+            ...(costImpact !== undefined && { costImpact: decimal(costImpact) }),
+            ...(lines && { priceImpact: priceImpact(lines) }),
+          },
+        });
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+
+        if (lines) {
+          await tx.changeOrderLine.deleteMany({ where: { changeOrderId: id } });
+          await tx.changeOrderLine.createMany({
+            data: linesData(lines).map((line) => ({ ...line, changeOrderId: id })),
+          });
+        }
+
+        return tx.changeOrder.findUniqueOrThrow({ where: { id }, include: changeOrderInclude });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Move a change order on from one of the given statuses; fails if it has
+   * moved since
+   */
+  async setStatus(
+    organizationId: string,
+    id: string,
+    from: ChangeOrderStatus[],
+    data: Prisma.ChangeOrderUncheckedUpdateManyInput & { status: ChangeOrderStatus }
+  ): Promise<ChangeOrderWithLines> {
+    try {
+      const result = await prisma.changeOrder.updateMany({
+        where: { id, organizationId, status: { in: from } },
+        data,
+      });
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      return await prisma.changeOrder.findUniqueOrThrow({
+        where: { id },
+        include: changeOrderInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Record the client's approval and apply the change order: added items join
+   * the BOQ, modified and removed ones take their new quantity and rate with
+   * what was first quoted kept, and the price goes onto the contract value.
+   * Fails if an item has changed since the change order was priced.
+   */
+  async approve(
+    organizationId: string,
+    order: ChangeOrderWithLines,
+    data: ClientDecisionData
+  ): Promise<ChangeOrderWithLines> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const result = await tx.changeOrder.updateMany({
+          where: { id: order.id, organizationId, status: 'SUBMITTED' },
+          data: {
+            status: 'APPROVED',
+            decidedAt: data.decidedAt,
+            clientReference: data.clientReference ?? null,
+          },
+        });
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+
+        for (const line of order.lines) {
+          if (line.action === 'ADD') {
+            const item = await tx.bOQItem.create({
+              data: {
+                organizationId,
+                projectId: order.projectId,
+                sectionId: line.sectionId,
+                stageId: line.stageId,
+                category: line.category,
+                description: line.description,
+                unit: line.unit,
+                quantity: line.quantity,
+                rate: line.rate,
+                changeOrderId: order.id,
+              },
+              select: { id: true },
+            });
+            await tx.changeOrderLine.update({
+              where: { id: line.id },
+              data: { boqItemId: item.id },
+            });
+            continue;
+          }
+
+          const item = line.boqItemId
+            ? await tx.bOQItem.findFirst({
+                where: { id: line.boqItemId, projectId: order.projectId },
+                select: { quantity: true, rate: true, originalQuantity: true, originalRate: true },
+              })
+            : null;
+          if (
+            !item ||
+            !item.quantity.equals(line.previousQuantity) ||
+            !item.rate.equals(line.previousRate)
+          ) {
+            throw new DatabaseError(
+              `"${line.description}" has changed in the BOQ since this change order was priced`,
+              'BOQ_ITEM_CHANGED',
+              409
+            );
+          }
+
+          await tx.bOQItem.update({
+            where: { id: line.boqItemId! },
+            data: {
+              quantity: line.quantity,
+              rate: line.rate,
+              originalQuantity: item.originalQuantity ?? item.quantity,
+              originalRate: item.originalRate ?? item.rate,
+            },
+          });
+        }
+
+        await tx.project.update({
+          where: { id: order.projectId },
+          data: { variationAmount: { increment: order.priceImpact } },
+        });
+
+        return tx.changeOrder.findUniqueOrThrow({
+          where: { id: order.id },
+          include: changeOrderInclude,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // BOQ
+  // ============================================
+
+  /**
+   * Items an approved change order has revised or added, with what was first
+   * quoted for the revised ones
+   */
+  async findRevisedItems(organizationId: string, projectId: string) {
+    try {
+      return await prisma.bOQItem.findMany({
+        where: {
+          organizationId,
+          projectId,
+          OR: [{ changeOrderId: { not: null } }, { originalQuantity: { not: null } }],
+        },
+        select: {
+          id: true,
+          code: true,
+          category: true,
+          description: true,
+          unit: true,
+          quantity: true,
+          rate: true,
+          originalQuantity: true,
+          originalRate: true,
+          section: { select: { id: true, name: true } },
+          changeOrder: { select: { id: true, number: true } },
+        },
+        orderBy: [{ section: { sortOrder: 'asc' } }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  async findProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { id: true, amount: true, variationAmount: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findBoqItems(projectId: string, ids: string[]) {
+    try {
+      return await prisma.bOQItem.findMany({
+        where: { projectId, id: { in: ids } },
+        select: {
+          id: true,
+          category: true,
+          description: true,
+          unit: true,
+          quantity: true,
+          rate: true,
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async countSections(projectId: string, ids: string[]): Promise<number> {
+    try {
+      return await prisma.bOQSection.count({ where: { projectId, id: { in: ids } } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async countStages(projectId: string, ids: string[]): Promise<number> {
+    try {
+      return await prisma.stage.count({ where: { projectId, id: { in: ids } } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const changeOrderRepository = new ChangeOrderRepository();
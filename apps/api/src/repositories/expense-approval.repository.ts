@@ -0,0 +1,277 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeletedInProject } from '../lib/soft-delete';
+import type {
+  ExpenseApprovalAction,
+  ExpenseApprovalRule,
+  ExpenseStatus,
+  Prisma,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface ApprovalRuleData {
+  projectId?: string | null;
+  minAmount: number;
+  level: number;
+  approverRoleId?: string | null;
+  approverMemberId?: string | null;
+}
+
+export interface ApprovalTransition {
+  status: ExpenseStatus;
+  approvalLevel: number;
+  rejectionReason: string | null;
+}
+
+export interface ApprovalEntryData {
+  memberId: string | null;
+  action: ExpenseApprovalAction;
+  level?: number;
+  reason?: string;
+}
+
+const ruleInclude = {
+  project: { select: { id: true, name: true } },
+  approverRole: { select: { id: true, name: true } },
+  approverMember: { select: { id: true, user: { select: { id: true, name: true } } } },
+} as const;
+
+const historyInclude = {
+  member: { select: { id: true, user: { select: { id: true, name: true } } } },
+} as const;
+
+// Fields the approver inbox needs to decide on an expense
+const inboxInclude = {
+  project: { select: { id: true, name: true } },
+  party: { select: { id: true, name: true, type: true } },
+  stage: { select: { id: true, name: true } },
+  expenseType: { select: { id: true, name: true } },
+} as const;
+
+export type ApprovalRuleWithRelations = Prisma.ExpenseApprovalRuleGetPayload<{
+  include: typeof ruleInclude;
+}>;
+
+export type PendingExpense = Prisma.ExpenseGetPayload<{ include: typeof inboxInclude }>;
+
+/**
+ * Expense Approval Repository - approval rules and the approval history of expenses
+ */
+export class ExpenseApprovalRepository {
+  // ============================================
+  // Rules
+  // ============================================
+
+  async findRules(
+    organizationId: string,
+    projectId?: string
+  ): Promise<ApprovalRuleWithRelations[]> {
+    try {
+      return await prisma.expenseApprovalRule.findMany({
+        where: { organizationId, ...(projectId && { projectId }) },
+        include: ruleInclude,
+        orderBy: [{ projectId: 'asc' }, { level: 'asc' }, { minAmount: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Rules that can apply to expenses in the given projects: their own rules and the
+   * organization-wide ones. Omit projectIds to load every rule of the organization.
+   */
+  async findApplicableRules(
+    organizationId: string,
+    projectIds?: string[]
+  ): Promise<ExpenseApprovalRule[]> {
+    try {
+      return await prisma.expenseApprovalRule.findMany({
+        where: {
+          organizationId,
+          ...(projectIds && { OR: [{ projectId: null }, { projectId: { in: projectIds } }] }),
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findRuleById(
+    organizationId: string,
+    id: string
+  ): Promise<ApprovalRuleWithRelations | null> {
+    try {
+      return await prisma.expenseApprovalRule.findFirst({
+        where: { id, organizationId },
+        include: ruleInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async createRule(
+    organizationId: string,
+    data: ApprovalRuleData
+  ): Promise<ApprovalRuleWithRelations> {
+    try {
+      return await prisma.expenseApprovalRule.create({
+        data: {
+          organizationId,
+          projectId: data.projectId ?? null,
+          minAmount: new Decimal(data.minAmount),
+          level: data.level,
+          approverRoleId: data.approverRoleId ?? null,
+          approverMemberId: data.approverMemberId ?? null,
+        },
+        include: ruleInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async updateRule(
+    organizationId: string,
+    id: string,
+    data: ApprovalRuleData
+  ): Promise<ApprovalRuleWithRelations> {
+    try {
+      const result = await prisma.expenseApprovalRule.updateMany({
+        where: { id, organizationId },
+        data: {
+          projectId: data.projectId ?? null,
+          minAmount: new Decimal(data.minAmount),
+          level: data.level,
+          approverRoleId: data.approverRoleId ?? null,
+          approverMemberId: data.approverMemberId ?? null,
+        },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      return await prisma.expenseApprovalRule.findUniqueOrThrow({
+        where: { id },
+        include: ruleInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async deleteRule(organizationId: string, id: string): Promise<void> {
+    try {
+      const result = await prisma.expenseApprovalRule.deleteMany({
+        where: { id, organizationId },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async isOrganizationMember(organizationId: string, memberId: string): Promise<boolean> {
+    try {
+      const count = await prisma.organizationMember.count({
+        where: { id: memberId, organizationId },
+      });
+      return count > 0;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Approval history
+  // ============================================
+
+  async findHistory(organizationId: string, expenseId: string) {
+    try {
+      return await prisma.expenseApproval.findMany({
+        where: { expenseId, expense: { organizationId } },
+        include: historyInclude,
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Move an expense to its next approval state and record the step, inside the
+   * caller's transaction. Only applies if the expense is still in the state the
+   * decision was based on, so two approvers acting at once cannot both advance it.
+   * Returns false if the expense had changed in the meantime.
+   */
+  async transition(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+    expenseId: string,
+    from: { status: ExpenseStatus; approvalLevel: number },
+    to: ApprovalTransition,
+    entry: ApprovalEntryData
+  ): Promise<boolean> {
+    try {
+      const result = await tx.expense.updateMany({
+        where: {
+          id: expenseId,
+          organizationId,
+          status: from.status,
+          approvalLevel: from.approvalLevel,
+          ...notDeletedInProject,
+        },
+        data: to,
+      });
+
+      if (result.count === 0) {
+        return false;
+      }
+
+      await tx.expenseApproval.create({
+        data: {
+          expenseId,
+          memberId: entry.memberId,
+          action: entry.action,
+          level: entry.level,
+          reason: entry.reason,
+        },
+      });
+
+      return true;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Expenses waiting for approval, oldest first.
+   * Pass projectIds to limit the list to a project-scoped member's projects.
+   */
+  async findPendingExpenses(
+    organizationId: string,
+    projectIds?: string[]
+  ): Promise<PendingExpense[]> {
+    try {
+      return await prisma.expense.findMany({
+        where: {
+          organizationId,
+          status: 'PENDING',
+          ...notDeletedInProject,
+          ...(projectIds && { projectId: { in: projectIds } }),
+        },
+        include: inboxInclude,
+        orderBy: [{ expenseDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const expenseApprovalRepository = new ExpenseApprovalRepository();
@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, notDeletedInProject, softDeleteData } from '../lib/soft-delete';
 import type { Expense, Prisma, ExpenseStatus } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 
@@ -15,9 +16,24 @@ export interface CreateExpenseData {
   description?: string;
   rate: number;
   quantity: number;
+  unit?: string;
+  gstRate?: number;
+  gstAmount?: number;
+  itcEligible?: boolean;
+  purchaseOrderLineId?: string;
+  // Wage bill the expense is posted from
+  wageBillId?: string;
+  // RA bill the expense is posted from, or work order whose retention it releases
+  raBillId?: string;
+  retentionWorkOrderId?: string;
   expenseDate: Date;
-  status?: ExpenseStatus;
   notes?: string;
+  // Approval step the expense is submitted to, and who submitted it
+  approvalLevel?: number;
+  submittedById?: string | null;
+  // APPROVED for an expense posted from a bill that was approved already, whose
+  // submitter is recorded as approving it
+  status?: ExpenseStatus;
 }
 
 export interface UpdateExpenseData {
@@ -30,9 +46,16 @@ export interface UpdateExpenseData {
   description?: string | null;
   rate?: number;
   quantity?: number;
+  unit?: string | null;
+  gstRate?: number;
+  gstAmount?: number;
+  itcEligible?: boolean;
+  purchaseOrderLineId?: string | null;
   expenseDate?: Date;
-  status?: ExpenseStatus;
   notes?: string | null;
+  // Set to resubmit a pending expense from this approval step
+  approvalLevel?: number;
+  submittedById?: string | null;
 }
 
 export type SortByField = 'expenseDate' | 'amount' | 'createdAt';
@@ -62,7 +85,26 @@ const expenseInclude = {
   materialType: { select: { id: true, name: true } },
   labourType: { select: { id: true, name: true } },
   subWorkType: { select: { id: true, name: true } },
-  payments: { select: { id: true, amount: true, paymentMode: true, paymentDate: true } },
+  purchaseOrderLine: {
+    select: {
+      id: true,
+      description: true,
+      purchaseOrder: { select: { id: true, orderNumber: true } },
+    },
+  },
+  payments: {
+    where: notDeleted,
+    select: { id: true, amount: true, paymentMode: true, paymentDate: true },
+  },
+  // What each payment to the party has paid of this expense
+  allocations: {
+    where: { payment: notDeleted },
+    select: {
+      id: true,
+      amount: true,
+      payment: { select: { id: true, paymentMode: true, paymentDate: true } },
+    },
+  },
 } as const;
 
 /**
@@ -73,9 +115,13 @@ export class ExpenseRepository {
   /**
    * Create a single expense (no payment logic - that's in service).
    */
-  async create(organizationId: string, data: CreateExpenseData): Promise<Expense> {
+  async create(
+    organizationId: string,
+    data: CreateExpenseData,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Expense> {
     try {
-      return await prisma.expense.create({
+      return await client.expense.create({
         data: {
           organizationId,
           projectId: data.projectId,
@@ -88,9 +134,25 @@ export class ExpenseRepository {
           description: data.description,
           rate: new Decimal(data.rate),
           quantity: new Decimal(data.quantity),
+          unit: data.unit,
+          gstRate: data.gstRate,
+          gstAmount: data.gstAmount,
+          itcEligible: data.itcEligible,
+          purchaseOrderLineId: data.purchaseOrderLineId,
+          wageBillId: data.wageBillId,
+          raBillId: data.raBillId,
+          retentionWorkOrderId: data.retentionWorkOrderId,
           expenseDate: data.expenseDate,
-          status: data.status,
           notes: data.notes,
+          approvalLevel: data.approvalLevel,
+          status: data.status,
+          approvals: {
+            create: {
+              memberId: data.submittedById ?? null,
+              action: data.status === 'APPROVED' ? 'APPROVED' : 'SUBMITTED',
+              level: data.approvalLevel,
+            },
+          },
         },
         include: expenseInclude,
       });
@@ -99,12 +161,17 @@ export class ExpenseRepository {
     }
   }
 
-  async findById(organizationId: string, id: string): Promise<Expense | null> {
+  async findById(
+    organizationId: string,
+    id: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Expense | null> {
     try {
-      return await prisma.expense.findFirst({
+      return await client.expense.findFirst({
         where: {
           id,
           organizationId,
+          ...notDeletedInProject,
         },
         include: expenseInclude,
       });
@@ -120,6 +187,7 @@ export class ExpenseRepository {
     try {
       const where: Prisma.ExpenseWhereInput = {
         organizationId,
+        ...notDeletedInProject,
         ...(options?.projectId && { projectId: options.projectId }),
         ...(options?.partyId && { partyId: options.partyId }),
         ...(options?.stageId && { stageId: options.stageId }),
@@ -168,15 +236,22 @@ export class ExpenseRepository {
     }
   }
 
-  async update(organizationId: string, id: string, data: UpdateExpenseData): Promise<Expense> {
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdateExpenseData,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Expense> {
+    const { submittedById, ...fields } = data;
+
     try {
       // Use updateMany for atomic org-scoped update, then fetch result
-      const result = await prisma.expense.updateMany({
-        where: { id, organizationId },
+      const result = await client.expense.updateMany({
+        where: { id, organizationId, ...notDeletedInProject },
         data: {
-          ...data,
-          rate: data.rate !== undefined ? new Decimal(data.rate) : undefined,
-          quantity: data.quantity !== undefined ? new Decimal(data.quantity) : undefined,
+          ...fields,
+          rate: fields.rate !== undefined ? new Decimal(fields.rate) : undefined,
+          quantity: fields.quantity !== undefined ? new Decimal(fields.quantity) : undefined,
         },
       });
 
@@ -184,8 +259,19 @@ export class ExpenseRepository {
         throw handlePrismaError({ code: 'P2025' });
       }
 
+      if (fields.approvalLevel !== undefined) {
+        await client.expenseApproval.create({
+          data: {
+            expenseId: id,
+            memberId: submittedById ?? null,
+            action: 'SUBMITTED',
+            level: fields.approvalLevel,
+          },
+        });
+      }
+
       // Fetch and return updated expense with relations
-      return await prisma.expense.findUniqueOrThrow({
+      return await client.expense.findUniqueOrThrow({
         where: { id },
         include: expenseInclude,
       });
@@ -194,11 +280,20 @@ export class ExpenseRepository {
     }
   }
 
-  async delete(organizationId: string, id: string): Promise<void> {
+  /**
+   * Move an expense to the Trash
+   */
+  async delete(
+    organizationId: string,
+    id: string,
+    deletedById: string | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
     try {
-      // Use deleteMany for atomic org-scoped delete
-      const result = await prisma.expense.deleteMany({
-        where: { id, organizationId },
+      // Use updateMany for atomic org-scoped soft delete
+      const result = await client.expense.updateMany({
+        where: { id, organizationId, ...notDeletedInProject },
+        data: softDeleteData(deletedById),
       });
 
       if (result.count === 0) {
@@ -218,6 +313,7 @@ export class ExpenseRepository {
       const expenses = await prisma.expense.findMany({
         where: {
           organizationId,
+          ...notDeletedInProject,
           ...(projectId && { projectId }),
         },
         select: {
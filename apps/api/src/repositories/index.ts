@@ -48,4 +48,4 @@ export type {
 } from './member-advance.repository';
 export type { CreateStageData, UpdateStageData, StageListOptions } from './stage.repository';
 export type { CreateRoleData, UpdateRoleData, RoleListOptions, RoleWithPermissions } from './role.repository';
-export type { CreateTeamMemberData, UpdateTeamMemberData, TeamMemberListOptions, TeamMemberWithRole } from './team.repository';
\ No newline at end of file
+export type { UpdateTeamMemberData, TeamMemberListOptions, TeamMemberWithRole } from './team.repository';
\ No newline at end of file
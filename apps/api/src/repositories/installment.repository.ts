@@ -0,0 +1,253 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, notDeletedInProject } from '../lib/soft-delete';
+import type { InstallmentAmountType, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface CreateInstallmentData {
+  projectId: string;
+  stageId?: string | null;
+  name: string;
+  sequence?: number;
+  amountType: InstallmentAmountType;
+  percentage?: number | null;
+  amount?: number | null;
+  dueDate?: Date | null;
+  notes?: string | null;
+}
+
+export type UpdateInstallmentData = Partial<Omit<CreateInstallmentData, 'projectId'>>;
+
+export interface AllocationEntry {
+  installmentId: string;
+  paymentId: string;
+  amount: number;
+}
+
+// Allocations of payments that are in the Trash no longer count towards an installment
+const installmentInclude = {
+  stage: { select: { id: true, name: true, status: true } },
+  allocations: {
+    where: { payment: notDeleted },
+    include: {
+      payment: {
+        select: { id: true, amount: true, paymentDate: true, referenceNumber: true },
+      },
+    },
+  },
+} as const;
+
+export type InstallmentWithAllocations = Prisma.PaymentInstallmentGetPayload<{
+  include: typeof installmentInclude;
+}>;
+
+const receiptInclude = {
+  installmentAllocations: { select: { installmentId: true, amount: true } },
+} as const;
+
+export type ReceiptWithAllocations = Prisma.PaymentGetPayload<{ include: typeof receiptInclude }>;
+
+/**
+ * Installment Repository - a project's client payment schedule and the allocation of
+ * incoming payments against it
+ */
+export class InstallmentRepository {
+  async findByProject(
+    organizationId: string,
+    projectId: string
+  ): Promise<InstallmentWithAllocations[]> {
+    try {
+      return await prisma.paymentInstallment.findMany({
+        where: { organizationId, projectId },
+        include: installmentInclude,
+        orderBy: [{ sequence: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, id: string): Promise<InstallmentWithAllocations | null> {
+    try {
+      return await prisma.paymentInstallment.findFirst({
+        where: { id, organizationId, project: notDeleted },
+        include: installmentInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async create(
+    organizationId: string,
+    data: CreateInstallmentData
+  ): Promise<InstallmentWithAllocations> {
+    try {
+      // New installments go to the end of the schedule unless placed explicitly
+      const sequence =
+        data.sequence ??
+        ((
+          await prisma.paymentInstallment.aggregate({
+            where: { organizationId, projectId: data.projectId },
+            _max: { sequence: true },
+          })
+        )._max.sequence ?? 0) + 1;
+
+      return await prisma.paymentInstallment.create({
+        data: {
+          organizationId,
+          projectId: data.projectId,
+          stageId: data.stageId ?? null,
+          name: data.name,
+          sequence,
+          amountType: data.amountType,
+          percentage: data.percentage != null ? new Decimal(data.percentage) : null,
+          amount: data.amount != null ? new Decimal(data.amount) : null,
+          dueDate: data.dueDate ?? null,
+          notes: data.notes ?? null,
+        },
+        include: installmentInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdateInstallmentData
+  ): Promise<InstallmentWithAllocations> {
+    try {
+      const result = await prisma.paymentInstallment.updateMany({
+        where: { id, organizationId },
+        data: {
+          stageId: data.stageId,
+          name: data.name,
+          sequence: data.sequence,
+          amountType: data.amountType,
+          percentage:
+            data.percentage !== undefined
+              ? data.percentage !== null
+                ? new Decimal(data.percentage)
+                : null
+              : undefined,
+          amount:
+            data.amount !== undefined
+              ? data.amount !== null
+                ? new Decimal(data.amount)
+                : null
+              : undefined,
+          dueDate: data.dueDate,
+          notes: data.notes,
+        },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      return await prisma.paymentInstallment.findUniqueOrThrow({
+        where: { id },
+        include: installmentInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async delete(organizationId: string, id: string): Promise<void> {
+    try {
+      const result = await prisma.paymentInstallment.deleteMany({
+        where: { id, organizationId },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Allocations
+  // ============================================
+
+  /**
+   * Incoming payments of a project, oldest first, with what they already cover
+   */
+  async findReceipts(organizationId: string, projectId: string): Promise<ReceiptWithAllocations[]> {
+    try {
+      return await prisma.payment.findMany({
+        where: { organizationId, projectId, type: 'IN', ...notDeleted },
+        include: receiptInclude,
+        orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findPayment(organizationId: string, paymentId: string) {
+    try {
+      return await prisma.payment.findFirst({
+        where: { id: paymentId, organizationId, ...notDeletedInProject },
+        select: { id: true, projectId: true, type: true, amount: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Replace everything a payment is allocated to
+   */
+  async replacePaymentAllocations(paymentId: string, entries: AllocationEntry[]): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.installmentAllocation.deleteMany({ where: { paymentId } }),
+        prisma.installmentAllocation.createMany({
+          data: entries.map((entry) => ({ ...entry, amount: new Decimal(entry.amount) })),
+        }),
+      ]);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async clearInstallmentAllocations(installmentId: string): Promise<void> {
+    try {
+      await prisma.installmentAllocation.deleteMany({ where: { installmentId } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Add to existing allocations, topping up a payment's share of an installment
+   * if it already has one
+   */
+  async addAllocations(entries: AllocationEntry[]): Promise<void> {
+    try {
+      await prisma.$transaction(
+        entries.map((entry) =>
+          prisma.installmentAllocation.upsert({
+            where: {
+              installmentId_paymentId: {
+                installmentId: entry.installmentId,
+                paymentId: entry.paymentId,
+              },
+            },
+            create: { ...entry, amount: new Decimal(entry.amount) },
+            update: { amount: { increment: new Decimal(entry.amount) } },
+          })
+        )
+      );
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const installmentRepository = new InstallmentRepository();
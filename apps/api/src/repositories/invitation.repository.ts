@@ -0,0 +1,285 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { Invitation, Prisma } from '@prisma/client';
+
+/**
+ * Invitation status as shown to users. EXPIRED is derived: a PENDING invitation
+ * past its expiresAt.
+ */
+export type InvitationDisplayStatus = Invitation['status'] | 'EXPIRED';
+
+export interface CreateInvitationData {
+  organizationId: string;
+  phone: string;
+  name: string;
+  roleId: string;
+  projectIds: string[];
+  partyId: string | null;
+  expiresAt: Date;
+  invitedById: string | null;
+}
+
+export interface InvitationListOptions {
+  skip?: number;
+  take?: number;
+  status?: InvitationDisplayStatus;
+}
+
+const invitationInclude = {
+  organization: { select: { id: true, name: true } },
+  role: { select: { id: true, name: true } },
+  party: { select: { id: true, name: true } },
+  invitedBy: { select: { id: true, user: { select: { id: true, name: true } } } },
+} as const;
+
+export type InvitationWithRelations = Prisma.InvitationGetPayload<{
+  include: typeof invitationInclude;
+}>;
+
+/**
+ * Where clause for a display status
+ */
+function statusWhere(status: InvitationDisplayStatus): Prisma.InvitationWhereInput {
+  switch (status) {
+    case 'PENDING':
+      return { status: 'PENDING', expiresAt: { gt: new Date() } };
+    case 'EXPIRED':
+      return { status: 'PENDING', expiresAt: { lte: new Date() } };
+    default:
+      return { status };
+  }
+}
+
+export class InvitationRepository {
+  /**
+   * List an organization's invitations, newest first
+   */
+  async findAll(
+    organizationId: string,
+    options?: InvitationListOptions
+  ): Promise<{ invitations: InvitationWithRelations[]; total: number }> {
+    try {
+      const where: Prisma.InvitationWhereInput = {
+        organizationId,
+        ...(options?.status && statusWhere(options.status)),
+      };
+
+      const [invitations, total] = await Promise.all([
+        prisma.invitation.findMany({
+          where,
+          skip: options?.skip,
+          take: options?.take,
+          include: invitationInclude,
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.invitation.count({ where }),
+      ]);
+
+      return { invitations, total };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, id: string): Promise<InvitationWithRelations | null> {
+    try {
+      return await prisma.invitation.findFirst({
+        where: { id, organizationId },
+        include: invitationInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Find an invitation addressed to a phone number, in any organization
+   */
+  async findForPhone(phone: string, id: string): Promise<InvitationWithRelations | null> {
+    try {
+      return await prisma.invitation.findFirst({
+        where: { id, phone },
+        include: invitationInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Open (pending, unexpired) invitations addressed to a phone number
+   */
+  async findOpenByPhone(phone: string): Promise<InvitationWithRelations[]> {
+    try {
+      return await prisma.invitation.findMany({
+        where: { phone, ...statusWhere('PENDING') },
+        include: invitationInclude,
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Find the open invitation for a phone number in an organization, if any
+   */
+  async findOpen(organizationId: string, phone: string): Promise<Invitation | null> {
+    try {
+      return await prisma.invitation.findFirst({
+        where: { organizationId, phone, ...statusWhere('PENDING') },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Check whether a phone number already belongs to a member of the organization
+   */
+  async isMember(organizationId: string, phone: string): Promise<boolean> {
+    try {
+      const count = await prisma.organizationMember.count({
+        where: { organizationId, user: { phone } },
+      });
+      return count > 0;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Keep only the IDs of live projects in the organization
+   */
+  async filterProjectIds(organizationId: string, projectIds: string[]): Promise<string[]> {
+    if (projectIds.length === 0) return [];
+
+    try {
+      const projects = await prisma.project.findMany({
+        where: { id: { in: projectIds }, organizationId, ...notDeleted },
+        select: { id: true },
+      });
+      return projects.map((p) => p.id);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async create(data: CreateInvitationData): Promise<InvitationWithRelations> {
+    try {
+      return await prisma.invitation.create({
+        data,
+        include: invitationInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Record another delivery of a pending invitation and push its expiry out
+   */
+  async markResent(
+    organizationId: string,
+    id: string,
+    expiresAt: Date
+  ): Promise<InvitationWithRelations> {
+    try {
+      const result = await prisma.invitation.updateMany({
+        where: { id, organizationId, status: 'PENDING' },
+        data: { expiresAt, lastSentAt: new Date(), sentCount: { increment: 1 } },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      return await prisma.invitation.findUniqueOrThrow({
+        where: { id },
+        include: invitationInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Record whether the last SMS went out; error is null when it did
+   */
+  async recordDelivery(id: string, error: string | null): Promise<InvitationWithRelations> {
+    try {
+      return await prisma.invitation.update({
+        where: { id },
+        data: { deliveryStatus: error ? 'FAILED' : 'SENT', deliveryError: error },
+        include: invitationInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Close a pending invitation as revoked or declined
+   */
+  async close(id: string, status: 'REVOKED' | 'DECLINED'): Promise<void> {
+    try {
+      const result = await prisma.invitation.updateMany({
+        where: { id, status: 'PENDING' },
+        data: { status, respondedAt: new Date() },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Accept an invitation: add the user to the organization with the invited role,
+   * project access and client party, and close the invitation. Runs in one transaction.
+   */
+  async accept(invitation: Invitation, userId: string): Promise<void> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const result = await tx.invitation.updateMany({
+          where: { id: invitation.id, status: 'PENDING' },
+          data: { status: 'ACCEPTED', respondedAt: new Date() },
+        });
+
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+
+        const member = await tx.organizationMember.create({
+          data: {
+            organizationId: invitation.organizationId,
+            userId,
+            roleId: invitation.roleId,
+            partyId: invitation.partyId,
+          },
+        });
+
+        const projects = await tx.project.findMany({
+          where: {
+            id: { in: invitation.projectIds },
+            organizationId: invitation.organizationId,
+            ...notDeleted,
+          },
+          select: { id: true },
+        });
+
+        await tx.projectAccess.createMany({
+          data: projects.map((project) => ({ memberId: member.id, projectId: project.id })),
+          skipDuplicates: true,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const invitationRepository = new InvitationRepository();
@@ -0,0 +1,541 @@
+import { inTransaction, prisma } from '../lib/prisma';
+import { DatabaseError, handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { AttendanceStatus, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface CreateWorkerData {
+  partyId: string;
+  labourTypeItemId?: string | null;
+  name: string;
+  phone?: string | null;
+  dailyRate: number;
+  shiftHours?: number;
+  overtimeMultiplier?: number;
+  nightMultiplier?: number;
+}
+
+export interface UpdateWorkerData {
+  labourTypeItemId?: string | null;
+  name?: string;
+  phone?: string | null;
+  dailyRate?: number;
+  shiftHours?: number;
+  overtimeMultiplier?: number;
+  nightMultiplier?: number;
+  isActive?: boolean;
+}
+
+export interface AttendanceEntryData {
+  projectId: string;
+  stageId: string | null;
+  workerId: string;
+  date: Date;
+  status: AttendanceStatus;
+  overtimeHours: number;
+  isNightShift: boolean;
+  markedById: string | null;
+  notes: string | null;
+}
+
+export interface AttendanceFilter {
+  from: Date;
+  to: Date;
+  stageId?: string;
+  partyId?: string;
+}
+
+export interface CreateWageBillLineData {
+  workerId: string;
+  manDays: number;
+  overtimeHours: number;
+  nightShifts: number;
+  dailyRate: number;
+  shiftHours: number;
+  overtimeMultiplier: number;
+  nightMultiplier: number;
+  amount: number;
+}
+
+export interface CreateWageBillData {
+  projectId: string;
+  partyId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  manDays: number;
+  overtimeHours: number;
+  totalAmount: number;
+  createdById: string | null;
+  lines: CreateWageBillLineData[];
+  // Attendance the bill pays for
+  attendanceIds: string[];
+}
+
+const workerInclude = {
+  party: { select: { id: true, name: true } },
+  labourType: { select: { id: true, name: true } },
+} as const;
+
+export type LabourWorkerWithDetails = Prisma.LabourWorkerGetPayload<{
+  include: typeof workerInclude;
+}>;
+
+const attendanceInclude = {
+  worker: { include: workerInclude },
+  stage: { select: { id: true, name: true } },
+  markedBy: { select: { id: true, user: { select: { name: true } } } },
+} as const;
+
+export type AttendanceEntryWithDetails = Prisma.AttendanceEntryGetPayload<{
+  include: typeof attendanceInclude;
+}>;
+
+const wageBillInclude = {
+  party: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, user: { select: { name: true } } } },
+  lines: {
+    include: { worker: { select: { id: true, name: true } } },
+    orderBy: { worker: { name: 'asc' } },
+  },
+  expenses: {
+    where: notDeleted,
+    select: {
+      id: true,
+      description: true,
+      rate: true,
+      quantity: true,
+      status: true,
+      approvalLevel: true,
+      rejectionReason: true,
+      stage: { select: { id: true, name: true } },
+      labourType: { select: { id: true, name: true } },
+    },
+  },
+} as const;
+
+export type WageBillWithDetails = Prisma.WageBillGetPayload<{ include: typeof wageBillInclude }>;
+
+function attendanceData(organizationId: string, data: AttendanceEntryData) {
+  return {
+    organizationId,
+    projectId: data.projectId,
+    stageId: data.stageId,
+    status: data.status,
+    overtimeHours: new Decimal(data.overtimeHours),
+    isNightShift: data.isNightShift,
+    markedById: data.markedById,
+    notes: data.notes,
+  };
+}
+
+/**
+ * Labour Repository - workers of labour parties with their rate cards, the daily
+ * muster roll of each project, and the wage bills paid from it
+ */
+export class LabourRepository {
+  // ============================================
+  // Workers
+  // ============================================
+
+  async findWorkers(
+    organizationId: string,
+    filter: { partyId?: string; includeInactive?: boolean } = {}
+  ): Promise<LabourWorkerWithDetails[]> {
+    try {
+      return await prisma.labourWorker.findMany({
+        where: {
+          organizationId,
+          party: notDeleted,
+          ...(filter.partyId && { partyId: filter.partyId }),
+          ...(!filter.includeInactive && { isActive: true }),
+        },
+        include: workerInclude,
+        orderBy: [{ party: { name: 'asc' } }, { name: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findWorkerById(
+    organizationId: string,
+    id: string
+  ): Promise<LabourWorkerWithDetails | null> {
+    try {
+      return await prisma.labourWorker.findFirst({
+        where: { id, organizationId },
+        include: workerInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findWorkersByIds(
+    organizationId: string,
+    ids: string[]
+  ): Promise<LabourWorkerWithDetails[]> {
+    try {
+      return await prisma.labourWorker.findMany({
+        where: { id: { in: ids }, organizationId, party: notDeleted },
+        include: workerInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async createWorker(
+    organizationId: string,
+    data: CreateWorkerData
+  ): Promise<LabourWorkerWithDetails> {
+    try {
+      return await prisma.labourWorker.create({
+        data: {
+          organizationId,
+          partyId: data.partyId,
+          labourTypeItemId: data.labourTypeItemId ?? null,
+          name: data.name,
+          phone: data.phone ?? null,
+          dailyRate: new Decimal(data.dailyRate),
+          ...(data.shiftHours !== undefined && { shiftHours: new Decimal(data.shiftHours) }),
+          ...(data.overtimeMultiplier !== undefined && {
+            overtimeMultiplier: new Decimal(data.overtimeMultiplier),
+          }),
+          ...(data.nightMultiplier !== undefined && {
+            nightMultiplier: new Decimal(data.nightMultiplier),
+          }),
+        },
+        include: workerInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async updateWorker(
+    organizationId: string,
+    id: string,
+    data: UpdateWorkerData
+  ): Promise<LabourWorkerWithDetails> {
+    try {
+      const result = await prisma.labourWorker.updateMany({
+        where: { id, organizationId },
+        data: {
+          ...(data.labourTypeItemId !== undefined && { labourTypeItemId: data.labourTypeItemId }),
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.phone !== undefined && { phone: data.phone }),
+          ...(data.dailyRate !== undefined && { dailyRate: new Decimal(data.dailyRate) }),
+          ...(data.shiftHours !== undefined && { shiftHours: new Decimal(data.shiftHours) }),
+          ...(data.overtimeMultiplier !== undefined && {
+            overtimeMultiplier: new Decimal(data.overtimeMultiplier),
+          }),
+          ...(data.nightMultiplier !== undefined && {
+            nightMultiplier: new Decimal(data.nightMultiplier),
+          }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+      });
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+      return await prisma.labourWorker.findUniqueOrThrow({ where: { id }, include: workerInclude });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Muster Roll
+  // ============================================
+
+  /**
+   * A project's attendance between two days, oldest first
+   */
+  async findAttendance(
+    organizationId: string,
+    projectId: string,
+    filter: AttendanceFilter
+  ): Promise<AttendanceEntryWithDetails[]> {
+    try {
+      return await prisma.attendanceEntry.findMany({
+        where: {
+          organizationId,
+          projectId,
+          date: { gte: filter.from, lte: filter.to },
+          ...(filter.stageId && { stageId: filter.stageId }),
+          ...(filter.partyId && { worker: { partyId: filter.partyId } }),
+        },
+        include: attendanceInclude,
+        orderBy: [{ date: 'asc' }, { worker: { name: 'asc' } }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * What the given workers are already marked as on a day, at any project
+   */
+  async findAttendanceOnDay(
+    organizationId: string,
+    workerIds: string[],
+    date: Date
+  ): Promise<AttendanceEntryWithDetails[]> {
+    try {
+      return await prisma.attendanceEntry.findMany({
+        where: { organizationId, workerId: { in: workerIds }, date },
+        include: attendanceInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Mark or correct a day's attendance of several workers together
+   */
+  async upsertAttendance(
+    organizationId: string,
+    entries: AttendanceEntryData[]
+  ): Promise<AttendanceEntryWithDetails[]> {
+    try {
+      return await prisma.$transaction(
+        entries.map((entry) =>
+          prisma.attendanceEntry.upsert({
+            where: { workerId_date: { workerId: entry.workerId, date: entry.date } },
+            create: {
+              ...attendanceData(organizationId, entry),
+              workerId: entry.workerId,
+              date: entry.date,
+            },
+            update: attendanceData(organizationId, entry),
+            include: attendanceInclude,
+          })
+        )
+      );
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Wage Bills
+  // ============================================
+
+  async findWageBills(organizationId: string, projectId: string): Promise<WageBillWithDetails[]> {
+    try {
+      return await prisma.wageBill.findMany({
+        where: { organizationId, projectId },
+        include: wageBillInclude,
+        orderBy: [{ periodStart: 'desc' }, { createdAt: 'desc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findWageBillById(organizationId: string, id: string): Promise<WageBillWithDetails | null> {
+    try {
+      return await prisma.wageBill.findFirst({
+        where: { id, organizationId },
+        include: wageBillInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * A labour party's attendance at a project between two days that is not yet
+   * paid on a wage bill
+   */
+  async findUnbilledAttendance(
+    organizationId: string,
+    projectId: string,
+    partyId: string,
+    from: Date,
+    to: Date
+  ): Promise<AttendanceEntryWithDetails[]> {
+    try {
+      return await prisma.attendanceEntry.findMany({
+        where: {
+          organizationId,
+          projectId,
+          wageBillId: null,
+          date: { gte: from, lte: to },
+          worker: { partyId },
+        },
+        include: attendanceInclude,
+        orderBy: { date: 'asc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Create a wage bill and mark the attendance it pays for. Fails if any of that
+   * attendance was paid on another bill in the meantime. Joins the caller's
+   * transaction when given one.
+   */
+  async createWageBill(
+    organizationId: string,
+    data: CreateWageBillData,
+    client?: Prisma.TransactionClient
+  ): Promise<WageBillWithDetails> {
+    const { lines, attendanceIds, ...bill } = data;
+    try {
+      return await inTransaction(client, async (tx) => {
+        const created = await tx.wageBill.create({
+          data: {
+            organizationId,
+            ...bill,
+            manDays: new Decimal(bill.manDays),
+            overtimeHours: new Decimal(bill.overtimeHours),
+            totalAmount: new Decimal(bill.totalAmount),
+            lines: {
+              create: lines.map((line) => ({
+                ...line,
+                manDays: new Decimal(line.manDays),
+                overtimeHours: new Decimal(line.overtimeHours),
+                dailyRate: new Decimal(line.dailyRate),
+                shiftHours: new Decimal(line.shiftHours),
+                overtimeMultiplier: new Decimal(line.overtimeMultiplier),
+                nightMultiplier: new Decimal(line.nightMultiplier),
+                amount: new Decimal(line.amount),
+              })),
+            },
+          },
+        });
+
+        const marked = await tx.attendanceEntry.updateMany({
+          where: { id: { in: attendanceIds }, wageBillId: null },
+          data: { wageBillId: created.id },
+        });
+        if (marked.count !== attendanceIds.length) {
+          throw new DatabaseError(
+            'Some of this attendance was paid on another wage bill; try again',
+            'ATTENDANCE_BILLED',
+            409
+          );
+        }
+
+        return tx.wageBill.findUniqueOrThrow({
+          where: { id: created.id },
+          include: wageBillInclude,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * The organization's Labour expense type, which wage bills are posted under
+   */
+  async findLabourExpenseType(organizationId: string) {
+    try {
+      return await prisma.categoryItem.findFirst({
+        where: { organizationId, name: 'Labour', categoryType: { key: 'expense_type' } },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Man-days
+  // ============================================
+
+  /**
+   * BOQ labour items of a project, which plan man-days when measured in days
+   */
+  async findPlannedLabour(organizationId: string, projectId: string) {
+    try {
+      return await prisma.bOQItem.findMany({
+        where: { organizationId, projectId, category: 'LABOUR' },
+        select: { stageId: true, unit: true, quantity: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Days worked at a project, with the stage they were worked on
+   */
+  async findWorkedDays(organizationId: string, projectId: string) {
+    try {
+      return await prisma.attendanceEntry.findMany({
+        where: { organizationId, projectId, status: { not: 'ABSENT' } },
+        select: { stageId: true, status: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  async findProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { id: true, name: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findStages(projectId: string) {
+    try {
+      return await prisma.stage.findMany({
+        where: { projectId },
+        select: { id: true, name: true },
+        orderBy: { startDate: 'asc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findStage(projectId: string, stageId: string) {
+    try {
+      return await prisma.stage.findFirst({
+        where: { id: stageId, projectId },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findLabourParty(organizationId: string, partyId: string) {
+    try {
+      return await prisma.party.findFirst({
+        where: { id: partyId, organizationId, type: 'LABOUR', ...notDeleted },
+        select: { id: true, name: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findLabourType(organizationId: string, id: string) {
+    try {
+      return await prisma.categoryItem.findFirst({
+        where: { id, organizationId, categoryType: { key: 'labour_type' } },
+        select: { id: true, name: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const labourRepository = new LabourRepository();
@@ -39,7 +39,12 @@ export interface MemberAdvanceSummary {
   memberName: string;
   memberRole: string;
   totalAdvanceGiven: number;
+  // Settled claims
   expensesLogged: number;
+  pendingClaims: number;
+  cashReturned: number;
+  reimbursed: number;
+  // Cash in hand
   balance: number;
 }
 
@@ -49,6 +54,75 @@ export interface MemberProjectBalance {
   balance: number;
 }
 
+export interface CashStatementEntry {
+  date: Date;
+  type: 'ADVANCE' | 'CLAIM' | 'RETURN' | 'REIMBURSEMENT';
+  // Advance, claim or settlement the movement comes from
+  referenceId: string;
+  description: string;
+  // Positive when cash reaches the member, negative when it leaves them
+  amount: number;
+  balance: number;
+}
+
+interface CashTotals {
+  advanced: number;
+  claimed: number;
+  pendingClaims: number;
+  returned: number;
+  reimbursed: number;
+}
+
+interface MemberCashRow extends CashTotals {
+  projectId: string;
+  memberId: string;
+}
+
+function emptyCashTotals(): CashTotals {
+  return { advanced: 0, claimed: 0, pendingClaims: 0, returned: 0, reimbursed: 0 };
+}
+
+function sumCashTotals(rows: CashTotals[]): CashTotals {
+  return rows.reduce(
+    (totals, row) => ({
+      advanced: totals.advanced + row.advanced,
+      claimed: totals.claimed + row.claimed,
+      pendingClaims: totals.pendingClaims + row.pendingClaims,
+      returned: totals.returned + row.returned,
+      reimbursed: totals.reimbursed + row.reimbursed,
+    }),
+    emptyCashTotals()
+  );
+}
+
+/**
+ * Cash a member still holds: advances less settled claims and cash handed back,
+ * plus what they were reimbursed for spending beyond their advance. Pending claims
+ * do not count until an accountant settles them.
+ */
+export function cashInHand(totals: CashTotals): number {
+  return totals.advanced - totals.claimed - totals.returned + totals.reimbursed;
+}
+
+function toSummary(
+  memberId: string,
+  memberName: string,
+  memberRole: string,
+  totals: CashTotals
+): MemberAdvanceSummary {
+  return {
+    memberId,
+    memberName,
+    memberRole,
+    totalAdvanceGiven: totals.advanced,
+    expensesLogged: totals.claimed,
+    pendingClaims: totals.pendingClaims,
+    cashReturned: totals.returned,
+    reimbursed: totals.reimbursed,
+    balance: cashInHand(totals),
+  };
+}
+
 // Include object for member advance queries
 const memberAdvanceInclude = {
   project: true,
@@ -203,82 +277,37 @@ export class MemberAdvanceRepository {
         return null;
       }
 
-      // Get total advances given to this member for this project
-      const advanceResult = await prisma.memberAdvance.aggregate({
-        where: {
-          organizationId,
-          projectId,
-          memberId,
-        },
-        _sum: { amount: true },
-      });
-
-      const totalAdvanceGiven = advanceResult._sum.amount?.toNumber() || 0;
+      const totals = sumCashTotals(await this.getCashRows({ organizationId, projectId, memberId }));
 
-      // For now, expenses logged is 0 since we're not auto-linking
-      // In the future, this could track expenses logged by this member
-      const expensesLogged = 0;
-
-      const balance = totalAdvanceGiven - expensesLogged;
-
-      return {
-        memberId: member.id,
-        memberName: member.user.name,
-        memberRole: member.role.name,
-        totalAdvanceGiven,
-        expensesLogged,
-        balance,
-      };
+      return toSummary(member.id, member.user.name, member.role.name, totals);
     } catch (error) {
       throw handlePrismaError(error);
     }
   }
 
-  // Get all members with advances in a project
+  // Get all members with advances or claims in a project
   async getProjectMemberAdvanceSummaries(
     organizationId: string,
     projectId: string
   ): Promise<MemberAdvanceSummary[]> {
     try {
-      // Get all unique members who have received advances for this project
-      const advances = await prisma.memberAdvance.findMany({
+      const rows = await this.getCashRows({ organizationId, projectId });
+
+      const members = await prisma.organizationMember.findMany({
         where: {
           organizationId,
-          projectId,
+          id: { in: rows.map((row) => row.memberId) },
         },
         include: {
-          member: {
-            include: {
-              user: true,
-              role: true,
-            },
-          },
+          user: true,
+          role: true,
         },
       });
 
-      // Group by member and calculate totals
-      const memberMap = new Map<string, MemberAdvanceSummary>();
-
-      for (const advance of advances) {
-        const existing = memberMap.get(advance.memberId);
-        const amount = advance.amount.toNumber();
-
-        if (existing) {
-          existing.totalAdvanceGiven += amount;
-          existing.balance = existing.totalAdvanceGiven - existing.expensesLogged;
-        } else {
-          memberMap.set(advance.memberId, {
-            memberId: advance.memberId,
-            memberName: advance.member.user.name,
-            memberRole: advance.member.role.name,
-            totalAdvanceGiven: amount,
-            expensesLogged: 0,
-            balance: amount,
-          });
-        }
-      }
-
-      return Array.from(memberMap.values());
+      return rows.flatMap((row) => {
+        const member = members.find((m) => m.id === row.memberId);
+        return member ? [toSummary(member.id, member.user.name, member.role.name, row)] : [];
+      });
     } catch (error) {
       throw handlePrismaError(error);
     }
@@ -323,41 +352,25 @@ export class MemberAdvanceRepository {
     memberId: string
   ): Promise<MemberProjectBalance[]> {
     try {
-      // Get all advances for this member grouped by project
-      const advances = await prisma.memberAdvance.findMany({
+      const rows = await this.getCashRows({ organizationId, memberId });
+
+      const projects = await prisma.project.findMany({
         where: {
           organizationId,
-          memberId,
+          id: { in: rows.map((row) => row.projectId) },
         },
-        include: {
-          project: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
+        select: {
+          id: true,
+          name: true,
         },
       });
 
-      // Group by project and calculate totals
-      const projectMap = new Map<string, MemberProjectBalance>();
-
-      for (const advance of advances) {
-        const existing = projectMap.get(advance.projectId);
-        const amount = advance.amount.toNumber();
-
-        if (existing) {
-          existing.balance += amount;
-        } else {
-          projectMap.set(advance.projectId, {
-            projectId: advance.projectId,
-            projectName: advance.project.name,
-            balance: amount,
-          });
-        }
-      }
-
-      return Array.from(projectMap.values());
+      return rows.flatMap((row) => {
+        const project = projects.find((p) => p.id === row.projectId);
+        return project
+          ? [{ projectId: project.id, projectName: project.name, balance: cashInHand(row) }]
+          : [];
+      });
     } catch (error) {
       throw handlePrismaError(error);
     }
@@ -366,15 +379,9 @@ export class MemberAdvanceRepository {
   // Get total balance for a member across all projects
   async getMemberTotalBalance(organizationId: string, memberId: string): Promise<number> {
     try {
-      const result = await prisma.memberAdvance.aggregate({
-        where: {
-          organizationId,
-          memberId,
-        },
-        _sum: { amount: true },
-      });
+      const rows = await this.getCashRows({ organizationId, memberId });
 
-      return result._sum.amount?.toNumber() || 0;
+      return cashInHand(sumCashTotals(rows));
     } catch (error) {
       throw handlePrismaError(error);
     }
@@ -386,15 +393,7 @@ export class MemberAdvanceRepository {
     memberIds: string[]
   ): Promise<Record<string, number>> {
     try {
-      // Use groupBy to get all balances in a single query
-      const results = await prisma.memberAdvance.groupBy({
-        by: ['memberId'],
-        where: {
-          organizationId,
-          memberId: { in: memberIds },
-        },
-        _sum: { amount: true },
-      });
+      const rows = await this.getCashRows({ organizationId, memberId: { in: memberIds } });
 
       // Build a map of memberId -> balance
       const balanceMap: Record<string, number> = {};
@@ -404,9 +403,9 @@ export class MemberAdvanceRepository {
         balanceMap[memberId] = 0;
       }
 
-      // Fill in actual balances from query results
-      for (const result of results) {
-        balanceMap[result.memberId] = result._sum.amount?.toNumber() || 0;
+      // Add each project's cash in hand to its member's balance
+      for (const row of rows) {
+        balanceMap[row.memberId] += cashInHand(row);
       }
 
       return balanceMap;
@@ -414,6 +413,137 @@ export class MemberAdvanceRepository {
       throw handlePrismaError(error);
     }
   }
+
+  /**
+   * Running cash-in-hand statement for a member in a project, oldest first.
+   * A settlement books the claim and any cash returned or reimbursed on its date.
+   */
+  async getCashStatement(
+    organizationId: string,
+    projectId: string,
+    memberId: string
+  ): Promise<CashStatementEntry[]> {
+    try {
+      const [advances, settlements] = await Promise.all([
+        prisma.memberAdvance.findMany({
+          where: { organizationId, projectId, memberId },
+          orderBy: [{ advanceDate: 'asc' }, { createdAt: 'asc' }],
+        }),
+        prisma.advanceSettlement.findMany({
+          where: { organizationId, projectId, memberId },
+          include: { claim: true },
+          orderBy: [{ settledAt: 'asc' }, { createdAt: 'asc' }],
+        }),
+      ]);
+
+      const movements: Array<Omit<CashStatementEntry, 'balance'>> = [
+        ...advances.map((advance) => ({
+          date: advance.advanceDate,
+          type: 'ADVANCE' as const,
+          referenceId: advance.id,
+          description: advance.purpose,
+          amount: advance.amount.toNumber(),
+        })),
+        ...settlements.flatMap((settlement) => {
+          const claim = {
+            date: settlement.settledAt,
+            type: 'CLAIM' as const,
+            referenceId: settlement.claimId,
+            description: settlement.claim.description,
+            amount: -settlement.claim.amount.toNumber(),
+          };
+          if (settlement.type === 'CARRIED_FORWARD') return [claim];
+
+          const cash = settlement.amount.toNumber();
+          return [
+            claim,
+            settlement.type === 'RETURNED'
+              ? {
+                  date: settlement.settledAt,
+                  type: 'RETURN' as const,
+                  referenceId: settlement.id,
+                  description: 'Unused cash returned',
+                  amount: -cash,
+                }
+              : {
+                  date: settlement.settledAt,
+                  type: 'REIMBURSEMENT' as const,
+                  referenceId: settlement.id,
+                  description: 'Excess spend reimbursed',
+                  amount: cash,
+                },
+          ];
+        }),
+      ];
+
+      // Stable sort keeps a settlement's claim ahead of its cash movement
+      movements.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      let balance = 0;
+      return movements.map((movement) => {
+        balance += movement.amount;
+        return { ...movement, balance };
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Advances, claims and settlement cash per project and member
+   */
+  private async getCashRows(where: {
+    organizationId: string;
+    projectId?: string;
+    memberId?: string | { in: string[] };
+  }): Promise<MemberCashRow[]> {
+    const [advances, claims, settlements] = await Promise.all([
+      prisma.memberAdvance.groupBy({
+        by: ['projectId', 'memberId'],
+        where,
+        _sum: { amount: true },
+      }),
+      prisma.advanceClaim.groupBy({
+        by: ['projectId', 'memberId', 'status'],
+        where: { ...where, status: { in: ['PENDING', 'SETTLED'] } },
+        _sum: { amount: true },
+      }),
+      prisma.advanceSettlement.groupBy({
+        by: ['projectId', 'memberId', 'type'],
+        where: { ...where, type: { in: ['RETURNED', 'REIMBURSED'] } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const rows = new Map<string, MemberCashRow>();
+    const rowFor = (projectId: string, memberId: string) => {
+      const key = `${projectId}:${memberId}`;
+      let row = rows.get(key);
+      if (!row) {
+        row = { projectId, memberId, ...emptyCashTotals() };
+        rows.set(key, row);
+      }
+      return row;
+    };
+
+    for (const group of advances) {
+      rowFor(group.projectId, group.memberId).advanced += group._sum.amount?.toNumber() || 0;
+    }
+    for (const group of claims) {
+      const row = rowFor(group.projectId, group.memberId);
+      const amount = group._sum.amount?.toNumber() || 0;
+      if (group.status === 'SETTLED') row.claimed += amount;
+      else row.pendingClaims += amount;
+    }
+    for (const group of settlements) {
+      const row = rowFor(group.projectId, group.memberId);
+      const amount = group._sum.amount?.toNumber() || 0;
+      if (group.type === 'RETURNED') row.returned += amount;
+      else row.reimbursed += amount;
+    }
+
+    return Array.from(rows.values());
+  }
 }
 
 export const memberAdvanceRepository = new MemberAdvanceRepository();
@@ -1,7 +1,13 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, notDeletedInProject } from '../lib/soft-delete';
 import { getDefaultCategoryTypes } from '../config/defaults/category-defaults';
 import type { Organization, OrganizationMember, Prisma } from '@prisma/client';
+import {
+  PERMISSION_CATALOG,
+  DEFAULT_ROLE_PERMISSIONS,
+  DEFAULT_ROLE_ACCESS,
+} from '../lib/permissions';
 import type { RoleName } from '../lib/permissions';
 
 export interface CreateOrganizationData {
@@ -76,7 +82,25 @@ async function ensureGlobalCategoryTypes(
 }
 
 /**
- * Creates default system roles for an organization.
+ * Ensures every permission in the catalog exists in the database.
+ * Returns a map of permission key -> permission ID.
+ */
+async function ensurePermissionCatalog(tx: Prisma.TransactionClient): Promise<Map<string, string>> {
+  await tx.permission.createMany({
+    data: PERMISSION_CATALOG.map((p) => ({ ...p })),
+    skipDuplicates: true,
+  });
+
+  const permissions = await tx.permission.findMany({
+    select: { id: true, key: true },
+  });
+
+  return new Map(permissions.map((p) => [p.key, p.id]));
+}
+
+/**
+ * Creates default system roles for an organization, granting each
+ * its DEFAULT_ROLE_PERMISSIONS.
  * Returns a map of role name -> role ID.
  */
 async function createDefaultRoles(
@@ -97,6 +121,7 @@ async function createDefaultRoles(
       name: role.name,
       description: role.description,
       isSystemRole: true,
+      ...DEFAULT_ROLE_ACCESS[role.name],
     })),
   });
 
@@ -105,6 +130,16 @@ async function createDefaultRoles(
     roleMap.set(role.name as RoleName, role.id);
   });
 
+  const permissionIdMap = await ensurePermissionCatalog(tx);
+  await tx.rolePermission.createMany({
+    data: roles.flatMap((role) =>
+      DEFAULT_ROLE_PERMISSIONS[role.name as RoleName].map((key) => ({
+        roleId: role.id,
+        permissionId: permissionIdMap.get(key)!,
+      }))
+    ),
+  });
+
   return roleMap;
 }
 
@@ -131,6 +166,7 @@ async function getOrCreateRoleId(
       name: roleName,
       description: `${roleName} role`,
       isSystemRole: true,
+      ...DEFAULT_ROLE_ACCESS[roleName],
     },
     update: {}, // No updates needed if role exists
   });
@@ -215,10 +251,10 @@ export class OrganizationRepository {
           ...(includeCounts && {
             _count: {
               select: {
-                projects: true,
-                parties: true,
-                expenses: true,
-                payments: true,
+                projects: { where: notDeleted },
+                parties: { where: notDeleted },
+                expenses: { where: notDeletedInProject },
+                payments: { where: notDeletedInProject },
               },
             },
           }),
@@ -248,7 +284,7 @@ export class OrganizationRepository {
             _count: {
               select: {
                 members: true,
-                projects: true,
+                projects: { where: notDeleted },
               },
             },
           },
@@ -373,7 +409,7 @@ export class OrganizationRepository {
             include: {
               _count: {
                 select: {
-                  projects: true,
+                  projects: { where: notDeleted },
                   members: true,
                 },
               },
@@ -0,0 +1,316 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import type { Attachment, PartyLedgerEntryType, PaymentMode, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface CreatePartyLedgerEntryData {
+  projectId: string;
+  partyId: string;
+  recordedById?: string;
+  type: PartyLedgerEntryType;
+  amount: number;
+  entryDate: Date;
+  paymentMode?: PaymentMode;
+  referenceNumber?: string;
+  narration: string;
+}
+
+export interface UpdatePartyLedgerEntryData {
+  type?: PartyLedgerEntryType;
+  amount?: number;
+  entryDate?: Date;
+  paymentMode?: PaymentMode | null;
+  referenceNumber?: string | null;
+  narration?: string;
+}
+
+export interface PartyLedgerListOptions {
+  skip?: number;
+  take?: number;
+  projectId?: string;
+  partyId?: string;
+  type?: PartyLedgerEntryType;
+}
+
+export interface CreateAttachmentData {
+  fileName: string;
+  fileUrl: string;
+  storagePath: string;
+  mimeType: string;
+}
+
+export interface LedgerTotals {
+  advances: number;
+  creditNotes: number;
+  refunds: number;
+  writeOffs: number;
+}
+
+/**
+ * Change to what is owed to the party. Advances and credit notes reduce it; refunds
+ * and write-offs of what the party owes bring it back up.
+ */
+export function ledgerBalanceAdjustment(totals: LedgerTotals): number {
+  return totals.refunds + totals.writeOffs - totals.advances - totals.creditNotes;
+}
+
+/**
+ * Change to project cost. A credit note reduces the cost of what was bought; a
+ * write-off is a loss on the project.
+ */
+export function ledgerCostAdjustment(totals: LedgerTotals): number {
+  return totals.writeOffs - totals.creditNotes;
+}
+
+// Hides entries whose project is in the Trash
+const visibleEntry = { project: { deletedAt: null } } as const;
+
+// Include object for ledger entry queries
+const ledgerEntryInclude = {
+  project: { select: { id: true, name: true } },
+  party: { select: { id: true, name: true, type: true } },
+  recordedBy: {
+    include: {
+      user: true,
+      role: true,
+    },
+  },
+} as const;
+
+export type PartyLedgerEntryWithAttachments = Prisma.PartyLedgerEntryGetPayload<{
+  include: typeof ledgerEntryInclude;
+}> & { attachments: Attachment[] };
+
+export class PartyLedgerRepository {
+  async create(
+    organizationId: string,
+    data: CreatePartyLedgerEntryData
+  ): Promise<PartyLedgerEntryWithAttachments> {
+    try {
+      const entry = await prisma.partyLedgerEntry.create({
+        data: {
+          organizationId,
+          projectId: data.projectId,
+          partyId: data.partyId,
+          recordedById: data.recordedById,
+          type: data.type,
+          amount: new Decimal(data.amount),
+          entryDate: data.entryDate,
+          paymentMode: data.paymentMode,
+          referenceNumber: data.referenceNumber,
+          narration: data.narration,
+        },
+        include: ledgerEntryInclude,
+      });
+
+      return { ...entry, attachments: [] };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(
+    organizationId: string,
+    id: string
+  ): Promise<PartyLedgerEntryWithAttachments | null> {
+    try {
+      const entry = await prisma.partyLedgerEntry.findFirst({
+        where: { id, organizationId, ...visibleEntry },
+        include: ledgerEntryInclude,
+      });
+      if (!entry) return null;
+
+      const [withAttachments] = await this.withAttachments([entry]);
+      return withAttachments;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findAll(
+    organizationId: string,
+    options?: PartyLedgerListOptions
+  ): Promise<{ entries: PartyLedgerEntryWithAttachments[]; total: number }> {
+    try {
+      const where: Prisma.PartyLedgerEntryWhereInput = {
+        organizationId,
+        ...visibleEntry,
+        ...(options?.projectId && { projectId: options.projectId }),
+        ...(options?.partyId && { partyId: options.partyId }),
+        ...(options?.type && { type: options.type }),
+      };
+
+      const [entries, total] = await Promise.all([
+        prisma.partyLedgerEntry.findMany({
+          where,
+          skip: options?.skip,
+          take: options?.take,
+          include: ledgerEntryInclude,
+          orderBy: [{ entryDate: 'desc' }, { createdAt: 'desc' }],
+        }),
+        prisma.partyLedgerEntry.count({ where }),
+      ]);
+
+      return { entries: await this.withAttachments(entries), total };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdatePartyLedgerEntryData
+  ): Promise<PartyLedgerEntryWithAttachments> {
+    try {
+      // Atomic org-scoped update
+      const result = await prisma.partyLedgerEntry.updateMany({
+        where: { id, organizationId, ...visibleEntry },
+        data: {
+          type: data.type,
+          amount: data.amount !== undefined ? new Decimal(data.amount) : undefined,
+          entryDate: data.entryDate,
+          paymentMode: data.paymentMode,
+          referenceNumber: data.referenceNumber,
+          narration: data.narration,
+        },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      const entry = await prisma.partyLedgerEntry.findUniqueOrThrow({
+        where: { id },
+        include: ledgerEntryInclude,
+      });
+      const [withAttachments] = await this.withAttachments([entry]);
+      return withAttachments;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Delete an entry along with its attachments. Returns the attachments so their
+   * files can be removed from storage.
+   */
+  async delete(organizationId: string, id: string): Promise<Attachment[]> {
+    try {
+      const attachments = (await this.findAttachmentLinks([id])).map((link) => link.attachment);
+
+      await prisma.$transaction([
+        prisma.attachment.deleteMany({
+          where: { id: { in: attachments.map((a) => a.id) }, organizationId },
+        }),
+        prisma.partyLedgerEntry.deleteMany({ where: { id, organizationId } }),
+      ]);
+
+      return attachments;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Attachments
+  // ============================================
+
+  async addAttachment(
+    organizationId: string,
+    entryId: string,
+    data: CreateAttachmentData
+  ): Promise<Attachment> {
+    try {
+      return await prisma.attachment.create({
+        data: {
+          organizationId,
+          ...data,
+          entities: { create: { entityType: 'PARTY_LEDGER_ENTRY', entityId: entryId } },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findAttachment(
+    organizationId: string,
+    entryId: string,
+    attachmentId: string
+  ): Promise<Attachment | null> {
+    try {
+      return await prisma.attachment.findFirst({
+        where: {
+          id: attachmentId,
+          organizationId,
+          entities: { some: { entityType: 'PARTY_LEDGER_ENTRY', entityId: entryId } },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async deleteAttachment(organizationId: string, attachmentId: string): Promise<void> {
+    try {
+      await prisma.attachment.deleteMany({ where: { id: attachmentId, organizationId } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Totals
+  // ============================================
+
+  /**
+   * Sum of entries by type, e.g. for a party, a project, or a party in a project
+   */
+  async getTotals(where: Prisma.PartyLedgerEntryWhereInput): Promise<LedgerTotals> {
+    try {
+      const groups = await prisma.partyLedgerEntry.groupBy({
+        by: ['type'],
+        where: { ...where, ...visibleEntry },
+        _sum: { amount: true },
+      });
+
+      const sumOf = (type: PartyLedgerEntryType) =>
+        groups.find((group) => group.type === type)?._sum.amount?.toNumber() || 0;
+
+      return {
+        advances: sumOf('ADVANCE'),
+        creditNotes: sumOf('CREDIT_NOTE'),
+        refunds: sumOf('REFUND'),
+        writeOffs: sumOf('WRITE_OFF'),
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  private async findAttachmentLinks(entryIds: string[]) {
+    return prisma.entityAttachment.findMany({
+      where: { entityType: 'PARTY_LEDGER_ENTRY', entityId: { in: entryIds } },
+      include: { attachment: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Attachments link to entries through the shared entity_attachments table
+  private async withAttachments<T extends { id: string }>(
+    entries: T[]
+  ): Promise<Array<T & { attachments: Attachment[] }>> {
+    if (entries.length === 0) return [];
+
+    const links = await this.findAttachmentLinks(entries.map((entry) => entry.id));
+    return entries.map((entry) => ({
+      ...entry,
+      attachments: links
+        .filter((link) => link.entityId === entry.id)
+        .map((link) => link.attachment),
+    }));
+  }
+}
+
+export const partyLedgerRepository = new PartyLedgerRepository();
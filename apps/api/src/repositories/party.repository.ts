@@ -1,12 +1,19 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
-import type { Party, PartyType, Prisma } from '@prisma/client';
+import { notDeleted, notDeletedInProject, softDeleteData } from '../lib/soft-delete';
+import type { Party, PartyLedgerEntryType, PartyType, Prisma } from '@prisma/client';
+import { ledgerBalanceAdjustment, partyLedgerRepository } from './party-ledger.repository';
+
+// Expenses that count towards what a party is owed; rejected bills are left out
+const billedExpense = { ...notDeletedInProject, status: { not: 'REJECTED' } } as const;
 
 export interface CreatePartyData {
   name: string;
   phone?: string;
   location: string;
   type: PartyType;
+  gstin?: string | null;
+  stateCode?: string | null;
 }
 
 export interface UpdatePartyData {
@@ -14,6 +21,24 @@ export interface UpdatePartyData {
   phone?: string;
   location?: string;
   type?: PartyType;
+  gstin?: string | null;
+  stateCode?: string | null;
+}
+
+/**
+ * One dated movement on a party's account. Debits reduce what is owed to the
+ * party (payments, advances, credit notes); credits add to it (bills, refunds,
+ * write-offs).
+ */
+export interface PartyStatementLine {
+  id: string;
+  date: Date;
+  kind: 'BILL' | 'PAYMENT' | PartyLedgerEntryType;
+  reference: string | null;
+  narration: string;
+  projectName: string;
+  debit: number;
+  credit: number;
 }
 
 export interface PartyListOptions {
@@ -34,6 +59,8 @@ export class PartyRepository {
           phone: data.phone,
           location: data.location,
           type: data.type,
+          gstin: data.gstin ?? null,
+          stateCode: data.stateCode ?? null,
         },
       });
     } catch (error) {
@@ -47,6 +74,7 @@ export class PartyRepository {
         where: {
           id,
           organizationId,
+          ...notDeleted,
         },
       });
     } catch (error) {
@@ -61,6 +89,7 @@ export class PartyRepository {
     try {
       const where: Prisma.PartyWhereInput = {
         organizationId,
+        ...notDeleted,
         ...(options?.search && {
           name: { contains: options.search, mode: 'insensitive' },
         }),
@@ -119,10 +148,10 @@ export class PartyRepository {
     }
   }
 
-  // Helper to calculate credit (expenses - payments) for a party
+  // Helper to calculate credit (expenses - payments, adjusted by ledger entries) for a party
   private async getPartyCredit(organizationId: string, partyId: string): Promise<number> {
     const expenses = await prisma.expense.findMany({
-      where: { organizationId, partyId },
+      where: { organizationId, partyId, ...billedExpense },
       select: { rate: true, quantity: true },
     });
     const totalExpenses = expenses.reduce(
@@ -131,19 +160,20 @@ export class PartyRepository {
     );
 
     const paymentsSum = await prisma.payment.aggregate({
-      where: { organizationId, partyId },
+      where: { organizationId, partyId, ...notDeletedInProject },
       _sum: { amount: true },
     });
     const totalPayments = paymentsSum._sum.amount?.toNumber() || 0;
+    const ledger = await partyLedgerRepository.getTotals({ organizationId, partyId });
 
-    return totalExpenses - totalPayments;
+    return totalExpenses - totalPayments + ledgerBalanceAdjustment(ledger);
   }
 
   async update(organizationId: string, id: string, data: UpdatePartyData): Promise<Party> {
     try {
       // Atomic org-scoped update
       const result = await prisma.party.updateMany({
-        where: { id, organizationId },
+        where: { id, organizationId, ...notDeleted },
         data,
       });
 
@@ -157,11 +187,15 @@ export class PartyRepository {
     }
   }
 
-  async delete(organizationId: string, id: string): Promise<void> {
+  /**
+   * Move a party to the Trash. Its expenses and payments stay on their projects.
+   */
+  async delete(organizationId: string, id: string, deletedById: string | null): Promise<void> {
     try {
-      // Atomic org-scoped delete
-      const result = await prisma.party.deleteMany({
-        where: { id, organizationId },
+      // Atomic org-scoped soft delete
+      const result = await prisma.party.updateMany({
+        where: { id, organizationId, ...notDeleted },
+        data: softDeleteData(deletedById),
       });
 
       if (result.count === 0) {
@@ -172,19 +206,23 @@ export class PartyRepository {
     }
   }
 
-  // Get party statistics (total expenses, payments, balance)
+  // Get party statistics (total expenses, payments, ledger entries, balance)
   async getPartyStats(
     organizationId: string,
     partyId: string
   ): Promise<{
     totalExpenses: number;
     totalPayments: number;
+    totalAdvances: number;
+    totalCreditNotes: number;
+    totalRefunds: number;
+    totalWriteOffs: number;
     balance: number;
   }> {
     try {
       // Calculate expenses total (rate * quantity)
       const expenses = await prisma.expense.findMany({
-        where: { organizationId, partyId },
+        where: { organizationId, partyId, ...billedExpense },
         select: { rate: true, quantity: true },
       });
       const totalExpenses = expenses.reduce(
@@ -193,15 +231,20 @@ export class PartyRepository {
       );
 
       const paymentsSum = await prisma.payment.aggregate({
-        where: { organizationId, partyId },
+        where: { organizationId, partyId, ...notDeletedInProject },
         _sum: { amount: true },
       });
       const totalPayments = paymentsSum._sum.amount?.toNumber() || 0;
-      const balance = totalExpenses - totalPayments;
+      const ledger = await partyLedgerRepository.getTotals({ organizationId, partyId });
+      const balance = totalExpenses - totalPayments + ledgerBalanceAdjustment(ledger);
 
       return {
         totalExpenses,
         totalPayments,
+        totalAdvances: ledger.advances,
+        totalCreditNotes: ledger.creditNotes,
+        totalRefunds: ledger.refunds,
+        totalWriteOffs: ledger.writeOffs,
         balance,
       };
     } catch (error) {
@@ -221,15 +264,15 @@ export class PartyRepository {
     try {
       // Get counts by type
       const [vendorCount, labourCount, subcontractorCount] = await Promise.all([
-        prisma.party.count({ where: { organizationId, type: 'VENDOR' } }),
-        prisma.party.count({ where: { organizationId, type: 'LABOUR' } }),
-        prisma.party.count({ where: { organizationId, type: 'SUBCONTRACTOR' } }),
+        prisma.party.count({ where: { organizationId, type: 'VENDOR', ...notDeleted } }),
+        prisma.party.count({ where: { organizationId, type: 'LABOUR', ...notDeleted } }),
+        prisma.party.count({ where: { organizationId, type: 'SUBCONTRACTOR', ...notDeleted } }),
       ]);
 
-      // Get balances by type (expenses - payments)
+      // Get balances by type (expenses - payments, adjusted by ledger entries)
       const getBalanceByType = async (type: PartyType): Promise<number> => {
         const parties = await prisma.party.findMany({
-          where: { organizationId, type },
+          where: { organizationId, type, ...notDeleted },
           select: { id: true },
         });
 
@@ -239,7 +282,7 @@ export class PartyRepository {
 
         // Calculate expenses total (rate * quantity)
         const expenses = await prisma.expense.findMany({
-          where: { organizationId, partyId: { in: partyIds } },
+          where: { organizationId, partyId: { in: partyIds }, ...billedExpense },
           select: { rate: true, quantity: true },
         });
         const totalExpenses = expenses.reduce(
@@ -248,11 +291,15 @@ export class PartyRepository {
         );
 
         const paymentsSum = await prisma.payment.aggregate({
-          where: { organizationId, partyId: { in: partyIds } },
+          where: { organizationId, partyId: { in: partyIds }, ...notDeletedInProject },
           _sum: { amount: true },
         });
         const totalPayments = paymentsSum._sum.amount?.toNumber() || 0;
-        return totalExpenses - totalPayments;
+        const ledger = await partyLedgerRepository.getTotals({
+          organizationId,
+          partyId: { in: partyIds },
+        });
+        return totalExpenses - totalPayments + ledgerBalanceAdjustment(ledger);
       };
 
       const [vendorsBalance, laboursBalance, subcontractorsBalance] = await Promise.all([
@@ -274,7 +321,8 @@ export class PartyRepository {
     }
   }
 
-  // Get projects associated with a party (via expenses) with credit calculations
+  // Get projects associated with a party (via expenses, payments or ledger entries)
+  // with credit calculations
   async getPartyProjects(
     organizationId: string,
     partyId: string,
@@ -285,6 +333,10 @@ export class PartyRepository {
       name: string;
       totalExpenses: number;
       totalPayments: number;
+      totalAdvances: number;
+      totalCreditNotes: number;
+      totalRefunds: number;
+      totalWriteOffs: number;
       credit: number;
     }>;
     totals: {
@@ -296,7 +348,7 @@ export class PartyRepository {
     try {
       // Get all expenses for this party grouped by project
       const expenses = await prisma.expense.findMany({
-        where: { organizationId, partyId },
+        where: { organizationId, partyId, ...billedExpense },
         select: {
           projectId: true,
           rate: true,
@@ -309,32 +361,75 @@ export class PartyRepository {
 
       // Get all payments for this party grouped by project
       const payments = await prisma.payment.findMany({
-        where: { organizationId, partyId },
+        where: { organizationId, partyId, ...notDeletedInProject },
         select: {
           projectId: true,
           amount: true,
         },
       });
 
+      // Get advances, credit notes, refunds and write-offs - an advance can come before any bill
+      const ledgerEntries = await prisma.partyLedgerEntry.findMany({
+        where: { organizationId, partyId, project: notDeleted },
+        select: {
+          projectId: true,
+          type: true,
+          amount: true,
+          project: {
+            select: { id: true, name: true },
+          },
+        },
+      });
+
       // Build project map with expenses
       const projectMap = new Map<
         string,
-        { id: string; name: string; totalExpenses: number; totalPayments: number }
+        {
+          id: string;
+          name: string;
+          totalExpenses: number;
+          totalPayments: number;
+          totalAdvances: number;
+          totalCreditNotes: number;
+          totalRefunds: number;
+          totalWriteOffs: number;
+        }
       >();
+      const projectEntry = (project: { id: string; name: string }) => {
+        let existing = projectMap.get(project.id);
+        if (!existing) {
+          existing = {
+            id: project.id,
+            name: project.name,
+            totalExpenses: 0,
+            totalPayments: 0,
+            totalAdvances: 0,
+            totalCreditNotes: 0,
+            totalRefunds: 0,
+            totalWriteOffs: 0,
+          };
+          projectMap.set(project.id, existing);
+        }
+        return existing;
+      };
 
       for (const expense of expenses) {
         const expenseAmount = expense.rate.toNumber() * expense.quantity.toNumber();
-        const existing = projectMap.get(expense.projectId);
-        if (existing) {
-          existing.totalExpenses += expenseAmount;
-        } else {
-          projectMap.set(expense.projectId, {
-            id: expense.project.id,
-            name: expense.project.name,
-            totalExpenses: expenseAmount,
-            totalPayments: 0,
-          });
-        }
+        projectEntry(expense.project).totalExpenses += expenseAmount;
+      }
+
+      // Add ledger entries to project map
+      const ledgerTotalKey: Record<
+        PartyLedgerEntryType,
+        'totalAdvances' | 'totalCreditNotes' | 'totalRefunds' | 'totalWriteOffs'
+      > = {
+        ADVANCE: 'totalAdvances',
+        CREDIT_NOTE: 'totalCreditNotes',
+        REFUND: 'totalRefunds',
+        WRITE_OFF: 'totalWriteOffs',
+      };
+      for (const entry of ledgerEntries) {
+        projectEntry(entry.project)[ledgerTotalKey[entry.type]] += entry.amount.toNumber();
       }
 
       // Add payments to project map
@@ -348,16 +443,24 @@ export class PartyRepository {
       // Convert to array and calculate credits
       const allProjects = Array.from(projectMap.values()).map((p) => ({
         ...p,
-        credit: p.totalExpenses - p.totalPayments,
+        credit:
+          p.totalExpenses -
+          p.totalPayments +
+          ledgerBalanceAdjustment({
+            advances: p.totalAdvances,
+            creditNotes: p.totalCreditNotes,
+            refunds: p.totalRefunds,
+            writeOffs: p.totalWriteOffs,
+          }),
       }));
 
       // Sort by credit (highest first)
       allProjects.sort((a, b) => b.credit - a.credit);
 
-      // Calculate totals
+      // Calculate totals - paid is net of advances given and refunds received
       const totals = allProjects.reduce(
         (acc, p) => ({
-          totalPaid: acc.totalPaid + p.totalPayments,
+          totalPaid: acc.totalPaid + p.totalPayments + p.totalAdvances - p.totalRefunds,
           totalCredit: acc.totalCredit + p.credit,
         }),
         { totalPaid: 0, totalCredit: 0 }
@@ -379,12 +482,13 @@ export class PartyRepository {
     }
   }
 
-  // Get transactions (payments or expenses) for a party, optionally filtered by project
+  // Get transactions (payments, expenses or ledger entries) for a party, optionally
+  // filtered by project
   async getPartyTransactions(
     organizationId: string,
     partyId: string,
     options: {
-      type: 'payments' | 'expenses';
+      type: 'payments' | 'expenses' | 'ledger';
       projectId?: string;
       skip?: number;
       take?: number;
@@ -397,14 +501,38 @@ export class PartyRepository {
       amount: number;
       projectId: string;
       projectName: string;
+      entryType?: PartyLedgerEntryType;
     }>;
     total: number;
   }> {
     try {
+      if (options.type === 'ledger') {
+        const { entries, total } = await partyLedgerRepository.findAll(organizationId, {
+          partyId,
+          projectId: options.projectId,
+          skip: options.skip,
+          take: options.take,
+        });
+
+        return {
+          transactions: entries.map((e) => ({
+            id: e.id,
+            date: e.entryDate,
+            title: e.narration,
+            amount: e.amount.toNumber(),
+            projectId: e.projectId,
+            projectName: e.project.name,
+            entryType: e.type,
+          })),
+          total,
+        };
+      }
+
       if (options.type === 'payments') {
         const where: Prisma.PaymentWhereInput = {
           organizationId,
           partyId,
+          ...notDeletedInProject,
           type: 'OUT', // Only outgoing payments to parties
           ...(options.projectId && { projectId: options.projectId }),
         };
@@ -439,6 +567,7 @@ export class PartyRepository {
         const where: Prisma.ExpenseWhereInput = {
           organizationId,
           partyId,
+          ...notDeletedInProject,
           ...(options.projectId && { projectId: options.projectId }),
         };
 
@@ -472,6 +601,120 @@ export class PartyRepository {
       throw handlePrismaError(error);
     }
   }
+
+  /**
+   * All bills, outgoing payments and ledger entries on a party's account, oldest
+   * first, optionally for one project. Filters match the party's stats.
+   */
+  async getStatementLines(
+    organizationId: string,
+    partyId: string,
+    options: { projectId?: string; to?: Date }
+  ): Promise<PartyStatementLine[]> {
+    try {
+      const projectFilter = options.projectId ? { projectId: options.projectId } : {};
+
+      const [expenses, payments, ledgerEntries] = await Promise.all([
+        prisma.expense.findMany({
+          where: {
+            organizationId,
+            partyId,
+            ...billedExpense,
+            ...projectFilter,
+            ...(options.to && { expenseDate: { lte: options.to } }),
+          },
+          include: {
+            project: { select: { name: true } },
+            expenseType: { select: { name: true } },
+            materialType: { select: { name: true } },
+            labourType: { select: { name: true } },
+            subWorkType: { select: { name: true } },
+          },
+        }),
+        prisma.payment.findMany({
+          where: {
+            organizationId,
+            partyId,
+            ...notDeletedInProject,
+            type: 'OUT',
+            ...projectFilter,
+            ...(options.to && { paymentDate: { lte: options.to } }),
+          },
+          include: {
+            project: { select: { name: true } },
+            expense: { select: { expenseType: { select: { name: true } } } },
+          },
+        }),
+        prisma.partyLedgerEntry.findMany({
+          where: {
+            organizationId,
+            partyId,
+            project: notDeleted,
+            ...projectFilter,
+            ...(options.to && { entryDate: { lte: options.to } }),
+          },
+          include: { project: { select: { name: true } } },
+        }),
+      ]);
+
+      const lines: PartyStatementLine[] = [
+        ...expenses.map((e) => {
+          const quantity = e.quantity.toNumber();
+          const rate = e.rate.toNumber();
+          const item = e.materialType ?? e.labourType ?? e.subWorkType;
+          return {
+            id: e.id,
+            date: e.expenseDate,
+            kind: 'BILL' as const,
+            reference: null,
+            narration: [
+              [e.expenseType.name, item?.name].filter(Boolean).join(' - '),
+              e.description,
+              `${quantity} x ${rate}`,
+            ]
+              .filter(Boolean)
+              .join(', '),
+            projectName: e.project.name,
+            debit: 0,
+            credit: rate * quantity,
+          };
+        }),
+        ...payments.map((p) => ({
+          id: p.id,
+          date: p.paymentDate,
+          kind: 'PAYMENT' as const,
+          reference: p.referenceNumber,
+          narration: [
+            p.expense ? `Payment against ${p.expense.expenseType.name}` : 'Payment',
+            p.notes,
+          ]
+            .filter(Boolean)
+            .join(', '),
+          projectName: p.project.name,
+          debit: p.amount.toNumber(),
+          credit: 0,
+        })),
+        ...ledgerEntries.map((entry) => {
+          const amount = entry.amount.toNumber();
+          const isDebit = entry.type === 'ADVANCE' || entry.type === 'CREDIT_NOTE';
+          return {
+            id: entry.id,
+            date: entry.entryDate,
+            kind: entry.type,
+            reference: entry.referenceNumber,
+            narration: entry.narration,
+            projectName: entry.project.name,
+            debit: isDebit ? amount : 0,
+            credit: isDebit ? 0 : amount,
+          };
+        }),
+      ];
+
+      return lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
 }
 
 export const partyRepository = new PartyRepository();
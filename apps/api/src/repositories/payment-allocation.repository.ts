@@ -0,0 +1,172 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, notDeletedInProject } from '../lib/soft-delete';
+import type { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface ExpenseAllocationEntry {
+  paymentId: string;
+  expenseId: string;
+  amount: number;
+}
+
+// Allocations of payments that are in the Trash no longer count towards an expense
+const billInclude = {
+  expenseType: { select: { name: true } },
+  allocations: {
+    where: { payment: notDeleted },
+    select: { paymentId: true, amount: true },
+  },
+} as const;
+
+export type PartyBill = Prisma.ExpenseGetPayload<{ include: typeof billInclude }>;
+
+const partyPaymentInclude = {
+  allocations: { select: { expenseId: true, amount: true } },
+} as const;
+
+export type PartyPaymentWithAllocations = Prisma.PaymentGetPayload<{
+  include: typeof partyPaymentInclude;
+}>;
+
+/**
+ * Payment Allocation Repository - how party payments are split across the party's expenses
+ */
+export class PaymentAllocationRepository {
+  /**
+   * A party's expenses in a project, oldest bill first, with what payments already
+   * cover. Rejected bills are not owed, so nothing is allocated to them. The bills
+   * stay locked until the transaction ends, so allocations for the same party
+   * take turns.
+   */
+  async findPartyBills(
+    organizationId: string,
+    projectId: string,
+    partyId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<PartyBill[]> {
+    try {
+      await client.$queryRaw`
+        SELECT "id" FROM "expenses"
+        WHERE "organizationId" = ${organizationId}
+          AND "projectId" = ${projectId}
+          AND "partyId" = ${partyId}
+        FOR UPDATE
+      `;
+
+      return await client.expense.findMany({
+        where: { organizationId, projectId, partyId, status: { not: 'REJECTED' }, ...notDeleted },
+        include: billInclude,
+        orderBy: [{ expenseDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Payments made to a party in a project, oldest first, with what they already cover.
+   * Payments allocated by hand are left as they are.
+   */
+  async findPartyPayments(
+    organizationId: string,
+    projectId: string,
+    partyId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<PartyPaymentWithAllocations[]> {
+    try {
+      return await client.payment.findMany({
+        where: {
+          organizationId,
+          projectId,
+          partyId,
+          type: 'OUT',
+          allocatedByHand: false,
+          ...notDeleted,
+        },
+        include: partyPaymentInclude,
+        orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findPayment(
+    organizationId: string,
+    paymentId: string,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    try {
+      return await client.payment.findFirst({
+        where: { id: paymentId, organizationId, ...notDeletedInProject },
+        select: {
+          id: true,
+          projectId: true,
+          partyId: true,
+          expenseId: true,
+          type: true,
+          amount: true,
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Replace everything a payment is allocated to, noting whether it was chosen by hand
+   */
+  async replacePaymentAllocations(
+    paymentId: string,
+    entries: ExpenseAllocationEntry[],
+    allocatedByHand: boolean,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    try {
+      await client.payment.update({ where: { id: paymentId }, data: { allocatedByHand } });
+      await client.paymentAllocation.deleteMany({ where: { paymentId } });
+      await client.paymentAllocation.createMany({
+        data: entries.map((entry) => ({ ...entry, amount: new Decimal(entry.amount) })),
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async clearExpenseAllocations(
+    expenseId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    try {
+      await client.paymentAllocation.deleteMany({ where: { expenseId } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Add to existing allocations, topping up a payment's share of an expense
+   * if it already has one
+   */
+  async addAllocations(
+    entries: ExpenseAllocationEntry[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    try {
+      for (const entry of entries) {
+        await client.paymentAllocation.upsert({
+          where: {
+            paymentId_expenseId: { paymentId: entry.paymentId, expenseId: entry.expenseId },
+          },
+          create: { ...entry, amount: new Decimal(entry.amount) },
+          update: { amount: { increment: new Decimal(entry.amount) } },
+        });
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const paymentAllocationRepository = new PaymentAllocationRepository();
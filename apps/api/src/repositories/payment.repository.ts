@@ -1,7 +1,9 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, notDeletedInProject, softDeleteData } from '../lib/soft-delete';
 import type { Payment, Prisma, PaymentType, PaymentMode, PartyType } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { ledgerBalanceAdjustment, partyLedgerRepository } from './party-ledger.repository';
 
 export interface CreatePaymentData {
   projectId: string;
@@ -14,6 +16,9 @@ export interface CreatePaymentData {
   paymentDate: Date;
   referenceNumber?: string;
   notes?: string;
+  tdsSection?: string | null;
+  tdsRate?: number | null;
+  tdsAmount?: number;
 }
 
 export interface UpdatePaymentData {
@@ -26,6 +31,9 @@ export interface UpdatePaymentData {
   paymentDate?: Date;
   referenceNumber?: string | null;
   notes?: string | null;
+  tdsSection?: string | null;
+  tdsRate?: number | null;
+  tdsAmount?: number;
 }
 
 export interface PaymentListOptions {
@@ -42,6 +50,14 @@ export interface PaymentListOptions {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface PartyBalance {
+  // Still owed on the party's expenses
+  outstanding: number;
+  // Paid to the party but not allocated to any expense, plus advances and credit
+  // notes, less refunds and write-offs - held on account
+  onAccount: number;
+}
+
 export interface ProjectPaymentSummary {
   projectBudget: number;
   totalReceived: number;
@@ -49,6 +65,12 @@ export interface ProjectPaymentSummary {
   receivedPercentage: number;
 }
 
+/**
+ * Runs inside the transaction that writes a payment, so its audit entry and what it
+ * is allocated to commit (or roll back) with it
+ */
+export type PaymentWriteHook = (tx: Prisma.TransactionClient, payment: Payment) => Promise<void>;
+
 // Include object for payment queries
 const paymentInclude = {
   project: true,
@@ -60,26 +82,48 @@ const paymentInclude = {
       role: true,
     },
   },
+  installmentAllocations: {
+    include: { installment: { select: { id: true, name: true } } },
+  },
+  invoiceAllocations: {
+    include: { invoice: { select: { id: true, invoiceNumber: true } } },
+  },
+  allocations: {
+    include: {
+      expense: { select: { id: true, description: true, expenseDate: true } },
+    },
+  },
 } as const;
 
 export class PaymentRepository {
-  async create(organizationId: string, data: CreatePaymentData): Promise<Payment> {
+  async create(
+    organizationId: string,
+    data: CreatePaymentData,
+    onWrite?: PaymentWriteHook
+  ): Promise<Payment> {
     try {
-      return await prisma.payment.create({
-        data: {
-          organizationId,
-          projectId: data.projectId,
-          partyId: data.partyId,
-          expenseId: data.expenseId,
-          recordedById: data.recordedById,
-          type: data.type,
-          paymentMode: data.paymentMode,
-          amount: new Decimal(data.amount),
-          paymentDate: data.paymentDate,
-          referenceNumber: data.referenceNumber,
-          notes: data.notes,
-        },
-        include: paymentInclude,
+      return await prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.create({
+          data: {
+            organizationId,
+            projectId: data.projectId,
+            partyId: data.partyId,
+            expenseId: data.expenseId,
+            recordedById: data.recordedById,
+            type: data.type,
+            paymentMode: data.paymentMode,
+            amount: new Decimal(data.amount),
+            paymentDate: data.paymentDate,
+            referenceNumber: data.referenceNumber,
+            notes: data.notes,
+            tdsSection: data.tdsSection,
+            tdsRate: data.tdsRate,
+            tdsAmount: data.tdsAmount,
+          },
+          include: paymentInclude,
+        });
+        await onWrite?.(tx, payment);
+        return payment;
       });
     } catch (error) {
       throw handlePrismaError(error);
@@ -92,6 +136,7 @@ export class PaymentRepository {
         where: {
           id,
           organizationId,
+          ...notDeletedInProject,
         },
         include: paymentInclude,
       });
@@ -107,6 +152,7 @@ export class PaymentRepository {
     try {
       const where: Prisma.PaymentWhereInput = {
         organizationId,
+        ...notDeletedInProject,
         ...(options?.projectId && { projectId: options.projectId }),
         ...(options?.partyId && { partyId: options.partyId }),
         ...(options?.expenseId && { expenseId: options.expenseId }),
@@ -142,47 +188,71 @@ export class PaymentRepository {
     }
   }
 
-  async update(organizationId: string, id: string, data: UpdatePaymentData): Promise<Payment> {
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdatePaymentData,
+    onWrite?: PaymentWriteHook
+  ): Promise<Payment> {
     try {
-      // Atomic org-scoped update
-      const result = await prisma.payment.updateMany({
-        where: { id, organizationId },
-        data: {
-          partyId: data.partyId,
-          expenseId: data.expenseId,
-          recordedById: data.recordedById,
-          type: data.type,
-          paymentMode: data.paymentMode,
-          amount: data.amount !== undefined ? new Decimal(data.amount) : undefined,
-          paymentDate: data.paymentDate,
-          referenceNumber: data.referenceNumber,
-          notes: data.notes,
-        },
-      });
+      return await prisma.$transaction(async (tx) => {
+        // Atomic org-scoped update
+        const result = await tx.payment.updateMany({
+          where: { id, organizationId, ...notDeletedInProject },
+          data: {
+            partyId: data.partyId,
+            expenseId: data.expenseId,
+            recordedById: data.recordedById,
+            type: data.type,
+            paymentMode: data.paymentMode,
+            amount: data.amount !== undefined ? new Decimal(data.amount) : undefined,
+            paymentDate: data.paymentDate,
+            referenceNumber: data.referenceNumber,
+            notes: data.notes,
+            tdsSection: data.tdsSection,
+            tdsRate: data.tdsRate,
+            tdsAmount: data.tdsAmount,
+          },
+        });
 
-      if (result.count === 0) {
-        throw handlePrismaError({ code: 'P2025' });
-      }
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
 
-      return await prisma.payment.findUniqueOrThrow({
-        where: { id },
-        include: paymentInclude,
+        const payment = await tx.payment.findUniqueOrThrow({
+          where: { id },
+          include: paymentInclude,
+        });
+        await onWrite?.(tx, payment);
+        return payment;
       });
     } catch (error) {
       throw handlePrismaError(error);
     }
   }
 
-  async delete(organizationId: string, id: string): Promise<void> {
+  /**
+   * Move a payment to the Trash
+   */
+  async delete(
+    organizationId: string,
+    id: string,
+    deletedById: string | null,
+    onDelete?: (tx: Prisma.TransactionClient) => Promise<void>
+  ): Promise<void> {
     try {
-      // Atomic org-scoped delete
-      const result = await prisma.payment.deleteMany({
-        where: { id, organizationId },
-      });
+      await prisma.$transaction(async (tx) => {
+        // Atomic org-scoped soft delete
+        const result = await tx.payment.updateMany({
+          where: { id, organizationId, ...notDeletedInProject },
+          data: softDeleteData(deletedById),
+        });
 
-      if (result.count === 0) {
-        throw handlePrismaError({ code: 'P2025' });
-      }
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+        await onDelete?.(tx);
+      });
     } catch (error) {
       throw handlePrismaError(error);
     }
@@ -197,6 +267,7 @@ export class PaymentRepository {
     try {
       const baseWhere = {
         organizationId,
+        ...notDeletedInProject,
         ...(projectId && { projectId }),
       };
 
@@ -252,11 +323,14 @@ export class PaymentRepository {
     try {
       // Get project budget
       const project = await prisma.project.findFirst({
-        where: { id: projectId, organizationId },
-        select: { amount: true },
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { amount: true, variationAmount: true },
       });
 
-      const projectBudget = project?.amount?.toNumber() || 0;
+      // Contract value, with approved change orders
+      const projectBudget = project
+        ? (project.amount?.toNumber() ?? 0) + project.variationAmount.toNumber()
+        : 0;
 
       // Get total received (type = IN)
       const receivedResult = await prisma.payment.aggregate({
@@ -264,6 +338,7 @@ export class PaymentRepository {
           organizationId,
           projectId,
           type: 'IN',
+          ...notDeleted,
         },
         _sum: { amount: true },
       });
@@ -309,45 +384,44 @@ export class PaymentRepository {
     });
   }
 
-  // Get outstanding amount for a party in a project
+  // Get outstanding amount and advance on account for a party in a project. Ledger
+  // entries are not set against individual bills, so they count towards what is on
+  // account; refunds and write-offs beyond that are outstanding.
   async getPartyOutstanding(
     organizationId: string,
     projectId: string,
     partyId: string
-  ): Promise<number> {
+  ): Promise<PartyBalance> {
     try {
-      // Calculate total expense amount (sum of rate * quantity)
-      const expenses = await prisma.expense.findMany({
-        where: {
-          organizationId,
-          projectId,
-          partyId,
-        },
-        select: {
-          rate: true,
-          quantity: true,
-        },
-      });
+      const expenses = await this.getPartyExpenseBalances(organizationId, projectId, partyId);
+      const outstanding = expenses.reduce((sum, exp) => sum + Math.max(0, exp.outstanding), 0);
 
-      const totalExpenses = expenses.reduce(
-        (sum, exp) => sum + exp.rate.toNumber() * exp.quantity.toNumber(),
-        0
-      );
-
-      // Get total payments to this party for this project
-      const paymentResult = await prisma.payment.aggregate({
-        where: {
-          organizationId,
-          projectId,
-          partyId,
-          type: 'OUT',
-        },
-        _sum: { amount: true },
-      });
+      // Get total payments to this party for this project, and how much of it is allocated
+      const paymentWhere = {
+        organizationId,
+        projectId,
+        partyId,
+        type: 'OUT' as const,
+        ...notDeleted,
+      };
+      const [paymentResult, allocatedResult, ledger] = await Promise.all([
+        prisma.payment.aggregate({ where: paymentWhere, _sum: { amount: true } }),
+        prisma.paymentAllocation.aggregate({
+          where: { payment: paymentWhere, expense: { status: { not: 'REJECTED' } } },
+          _sum: { amount: true },
+        }),
+        partyLedgerRepository.getTotals({ organizationId, projectId, partyId }),
+      ]);
 
       const totalPayments = paymentResult._sum.amount?.toNumber() || 0;
+      const totalAllocated = allocatedResult._sum.amount?.toNumber() || 0;
+      const onAccount =
+        Math.max(0, totalPayments - totalAllocated) - ledgerBalanceAdjustment(ledger);
 
-      return Math.max(0, totalExpenses - totalPayments);
+      return {
+        outstanding: Math.round((outstanding + Math.max(0, -onAccount)) * 100) / 100,
+        onAccount: Math.max(0, Math.round(onAccount * 100) / 100),
+      };
     } catch (error) {
       throw handlePrismaError(error);
     }
@@ -369,42 +443,53 @@ export class PaymentRepository {
     }>
   > {
     try {
-      const expenses = await prisma.expense.findMany({
-        where: {
-          organizationId,
-          projectId,
-          partyId,
-        },
-        include: {
-          payments: {
-            where: { type: 'OUT' },
-            select: { amount: true },
-          },
-          expenseType: true,
-        },
-        orderBy: { expenseDate: 'desc' },
-      });
-
-      return expenses
-        .map((expense) => {
-          const totalAmount = expense.rate.toNumber() * expense.quantity.toNumber();
-          const paidAmount = expense.payments.reduce((sum, p) => sum + p.amount.toNumber(), 0);
-          const outstanding = totalAmount - paidAmount;
-
-          return {
-            id: expense.id,
-            description: expense.description || expense.expenseType.name,
-            totalAmount,
-            paidAmount,
-            outstanding,
-            expenseDate: expense.expenseDate,
-          };
-        })
-        .filter((exp) => exp.outstanding > 0);
+      const expenses = await this.getPartyExpenseBalances(organizationId, projectId, partyId);
+      return expenses.filter((exp) => exp.outstanding > 0);
     } catch (error) {
       throw handlePrismaError(error);
     }
   }
+
+  // What is paid and still owed on each of a party's expenses, oldest first.
+  // Rejected bills are not owed.
+  private async getPartyExpenseBalances(
+    organizationId: string,
+    projectId: string,
+    partyId: string
+  ) {
+    const expenses = await prisma.expense.findMany({
+      where: {
+        organizationId,
+        projectId,
+        partyId,
+        status: { not: 'REJECTED' },
+        ...notDeleted,
+      },
+      include: {
+        allocations: {
+          where: { payment: { type: 'OUT', ...notDeleted } },
+          select: { amount: true },
+        },
+        expenseType: true,
+      },
+      orderBy: [{ expenseDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return expenses.map((expense) => {
+      const totalAmount = expense.rate.toNumber() * expense.quantity.toNumber();
+      const paidAmount = expense.allocations.reduce((sum, a) => sum + a.amount.toNumber(), 0);
+      const outstanding = Math.round((totalAmount - paidAmount) * 100) / 100;
+
+      return {
+        id: expense.id,
+        description: expense.description || expense.expenseType.name,
+        totalAmount,
+        paidAmount,
+        outstanding,
+        expenseDate: expense.expenseDate,
+      };
+    });
+  }
 }
 
 export const paymentRepository = new PaymentRepository();
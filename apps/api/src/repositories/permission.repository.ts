@@ -78,6 +78,35 @@ export class PermissionRepository {
       throw handlePrismaError(error);
     }
   }
+
+  /**
+   * Get multiple permissions by IDs
+   */
+  async findByIds(ids: string[]): Promise<Permission[]> {
+    try {
+      return await prisma.permission.findMany({
+        where: { id: { in: ids } },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Get the permission keys granted to a role
+   */
+  async findKeysByRoleId(roleId: string): Promise<string[]> {
+    try {
+      const rolePermissions = await prisma.rolePermission.findMany({
+        where: { roleId },
+        select: { permission: { select: { key: true } } },
+      });
+
+      return rolePermissions.map((rp) => rp.permission.key);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
 }
 
 export const permissionRepository = new PermissionRepository();
@@ -0,0 +1,383 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Portal Repository - read-only project data for a client.
+ *
+ * Everything here is what a client may see of their own projects. Queries use
+ * explicit `select` allow-lists so costs, budgets, expenses, margins and vendor
+ * details can never reach the portal by accident: a new column on Project, Stage,
+ * Payment or Document stays internal until it is added below.
+ */
+
+const portalProjectSelect = {
+  id: true,
+  name: true,
+  location: true,
+  startDate: true,
+  endDate: true,
+  status: true,
+  area: true,
+  projectPicture: true,
+  amount: true,
+  variationAmount: true,
+} as const satisfies Prisma.ProjectSelect;
+
+const portalStageSelect = {
+  id: true,
+  name: true,
+  description: true,
+  startDate: true,
+  endDate: true,
+  weight: true,
+  status: true,
+} as const satisfies Prisma.StageSelect;
+
+const portalDocumentSelect = {
+  id: true,
+  fileName: true,
+  fileType: true,
+  mimeType: true,
+  uploadedAt: true,
+} as const satisfies Prisma.DocumentSelect;
+
+const portalReceiptSelect = {
+  id: true,
+  amount: true,
+  paymentDate: true,
+  paymentMode: true,
+  referenceNumber: true,
+} as const satisfies Prisma.PaymentSelect;
+
+type PortalStageRow = Prisma.StageGetPayload<{ select: typeof portalStageSelect }>;
+
+export interface PortalStage {
+  id: string;
+  name: string;
+  description: string | null;
+  startDate: Date;
+  endDate: Date;
+  status: PortalStageRow['status'];
+  weight: number;
+  tasks: { total: number; completed: number };
+}
+
+export interface PortalPaymentSummary {
+  contractAmount: number;
+  received: number;
+  outstanding: number;
+}
+
+export interface PortalProject extends PortalPaymentSummary {
+  id: string;
+  name: string;
+  location: string;
+  startDate: Date;
+  endDate: Date | null;
+  status: string;
+  area: string | null;
+  projectPicture: string | null;
+  // Share of stage weight completed, 0-100
+  progress: number;
+}
+
+export interface PortalReceipt {
+  id: string;
+  amount: number;
+  paymentDate: Date;
+  paymentMode: string;
+  referenceNumber: string | null;
+}
+
+// One installment of the payment schedule agreed with the client
+export interface PortalInstallment {
+  id: string;
+  name: string;
+  // Stage whose completion makes it due, if any
+  stageName: string | null;
+  dueDate: Date | null;
+  amount: number;
+  received: number;
+  outstanding: number;
+  status: string;
+}
+
+export interface PortalPaymentSchedule {
+  installments: PortalInstallment[];
+  // Outstanding on installments that have fallen due, and on those past their due date
+  dueAmount: number;
+  overdueAmount: number;
+}
+
+export interface PortalDocument {
+  id: string;
+  fileName: string;
+  fileType: string;
+  mimeType: string;
+  uploadedAt: Date;
+  isPhoto: boolean;
+}
+
+// Payments from the client are recorded against the project as IN payments
+const clientReceiptWhere = (organizationId: string, projectId: string) =>
+  ({ organizationId, projectId, type: 'IN', ...notDeleted }) as const;
+
+/**
+ * Progress as the weight of completed stages over the total stage weight.
+ * The internal progress (expenses against budget) is deliberately not used:
+ * it would reveal spending.
+ */
+function stageProgress(stages: { weight: Prisma.Decimal; status: string }[]): number {
+  const total = stages.reduce((sum, stage) => sum + stage.weight.toNumber(), 0);
+  if (total <= 0) return 0;
+
+  const completed = stages
+    .filter((stage) => stage.status === 'COMPLETED')
+    .reduce((sum, stage) => sum + stage.weight.toNumber(), 0);
+
+  return Math.round((completed / total) * 100);
+}
+
+export class PortalRepository {
+  /**
+   * The client party a portal user represents
+   */
+  async findClient(organizationId: string, partyId: string) {
+    try {
+      return await prisma.party.findFirst({
+        where: { id: partyId, organizationId, ...notDeleted },
+        select: { id: true, name: true, organization: { select: { id: true, name: true } } },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Projects the client party is the client of, newest first
+   */
+  async findProjects(organizationId: string, projectIds: string[]): Promise<PortalProject[]> {
+    try {
+      const projects = await prisma.project.findMany({
+        where: { id: { in: projectIds }, organizationId, ...notDeleted },
+        select: {
+          ...portalProjectSelect,
+          stages: { select: { weight: true, status: true } },
+        },
+        orderBy: { startDate: 'desc' },
+      });
+
+      return await Promise.all(
+        projects.map(async ({ stages, amount, variationAmount, ...project }) => ({
+          ...project,
+          progress: stageProgress(stages),
+          ...(await this.getPaymentSummary(organizationId, project.id, {
+            amount,
+            variationAmount,
+          })),
+        }))
+      );
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * One project with its stages
+   */
+  async findProject(
+    organizationId: string,
+    projectId: string
+  ): Promise<(PortalProject & { stages: PortalStage[] }) | null> {
+    try {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: {
+          ...portalProjectSelect,
+          stages: {
+            select: {
+              ...portalStageSelect,
+              tasks: { select: { status: true } },
+            },
+            orderBy: { startDate: 'asc' },
+          },
+        },
+      });
+
+      if (!project) return null;
+
+      const { stages, amount, variationAmount, ...rest } = project;
+
+      return {
+        ...rest,
+        progress: stageProgress(stages),
+        ...(await this.getPaymentSummary(organizationId, project.id, { amount, variationAmount })),
+        stages: stages.map(({ tasks, weight, ...stage }) => ({
+          ...stage,
+          weight: weight.toNumber(),
+          tasks: {
+            total: tasks.length,
+            completed: tasks.filter((task) => task.status === 'COMPLETED').length,
+          },
+        })),
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Documents and photos the builder has shared with the client
+   */
+  async findSharedDocuments(
+    organizationId: string,
+    projectId: string,
+    options: { skip: number; take: number; photos?: boolean }
+  ): Promise<{ documents: PortalDocument[]; total: number }> {
+    try {
+      const where: Prisma.DocumentWhereInput = {
+        organizationId,
+        projectId,
+        sharedWithClient: true,
+        ...(options.photos !== undefined && {
+          mimeType: options.photos ? { startsWith: 'image/' } : { not: { startsWith: 'image/' } },
+        }),
+      };
+
+      const [documents, total] = await Promise.all([
+        prisma.document.findMany({
+          where,
+          select: portalDocumentSelect,
+          skip: options.skip,
+          take: options.take,
+          orderBy: { uploadedAt: 'desc' },
+        }),
+        prisma.document.count({ where }),
+      ]);
+
+      return {
+        documents: documents.map((doc) => ({ ...doc, isPhoto: doc.mimeType.startsWith('image/') })),
+        total,
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * A shared document in one of the given projects, with its storage path for signing
+   */
+  async findSharedDocument(organizationId: string, projectIds: string[], id: string) {
+    try {
+      return await prisma.document.findFirst({
+        where: {
+          id,
+          organizationId,
+          projectId: { in: projectIds },
+          sharedWithClient: true,
+          project: notDeleted,
+        },
+        select: { ...portalDocumentSelect, storagePath: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Contract amount, payments received and receipts for a project
+   */
+  async findPayments(
+    organizationId: string,
+    projectId: string
+  ): Promise<(PortalPaymentSummary & { receipts: PortalReceipt[] }) | null> {
+    try {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { id: true, amount: true, variationAmount: true },
+      });
+
+      if (!project) return null;
+
+      const [summary, receipts] = await Promise.all([
+        this.getPaymentSummary(organizationId, project.id, project),
+        prisma.payment.findMany({
+          where: clientReceiptWhere(organizationId, project.id),
+          select: portalReceiptSelect,
+          orderBy: { paymentDate: 'desc' },
+        }),
+      ]);
+
+      return {
+        ...summary,
+        receipts: receipts.map((receipt) => ({ ...receipt, amount: receipt.amount.toNumber() })),
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * One receipt in the given projects, with what is printed on it
+   */
+  async findReceipt(organizationId: string, projectIds: string[], id: string) {
+    try {
+      const payment = await prisma.payment.findFirst({
+        where: {
+          id,
+          organizationId,
+          projectId: { in: projectIds },
+          type: 'IN',
+          ...notDeleted,
+          project: notDeleted,
+        },
+        select: {
+          ...portalReceiptSelect,
+          project: {
+            select: { id: true, name: true, location: true, client: { select: { name: true } } },
+          },
+          organization: { select: { name: true } },
+        },
+      });
+
+      if (!payment) return null;
+
+      const { project, organization, ...receipt } = payment;
+
+      return {
+        ...receipt,
+        amount: receipt.amount.toNumber(),
+        organizationName: organization.name,
+        clientName: project.client?.name ?? null,
+        project: { id: project.id, name: project.name, location: project.location },
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private async getPaymentSummary(
+    organizationId: string,
+    projectId: string,
+    contract: { amount: Prisma.Decimal | null; variationAmount: Prisma.Decimal }
+  ): Promise<PortalPaymentSummary> {
+    const result = await prisma.payment.aggregate({
+      where: clientReceiptWhere(organizationId, projectId),
+      _sum: { amount: true },
+    });
+
+    // With the change orders the client has approved
+    const contractAmount = (contract.amount?.toNumber() ?? 0) + contract.variationAmount.toNumber();
+    const received = result._sum.amount?.toNumber() ?? 0;
+
+    return { contractAmount, received, outstanding: Math.max(0, contractAmount - received) };
+  }
+}
+
+export const portalRepository = new PortalRepository();
@@ -1,6 +1,8 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, softDeleteData } from '../lib/soft-delete';
 import type { Project, ProjectStatus, Prisma } from '@prisma/client';
+import { ledgerCostAdjustment, partyLedgerRepository } from './party-ledger.repository';
 
 export interface CreateProjectData {
   name: string;
@@ -51,8 +53,8 @@ const projectInclude = {
   },
   _count: {
     select: {
-      expenses: true,
-      payments: true,
+      expenses: { where: notDeleted },
+      payments: { where: notDeleted },
     },
   },
 } as const;
@@ -72,8 +74,8 @@ const projectListInclude = {
   },
   _count: {
     select: {
-      expenses: true,
-      payments: true,
+      expenses: { where: notDeleted },
+      payments: { where: notDeleted },
     },
   },
 } as const;
@@ -108,6 +110,7 @@ export class ProjectRepository {
         where: {
           id,
           organizationId,
+          ...notDeleted,
         },
         include: projectInclude,
       });
@@ -127,6 +130,7 @@ export class ProjectRepository {
     try {
       const where: Prisma.ProjectWhereInput = {
         organizationId,
+        ...notDeleted,
         ...(options?.search && {
           OR: [
             { name: { contains: options.search, mode: 'insensitive' } },
@@ -146,10 +150,10 @@ export class ProjectRepository {
             orderBy: { updatedAt: 'desc' },
           }),
           prisma.project.count({ where }),
-          prisma.project.count({ where: { organizationId } }),
-          prisma.project.count({ where: { organizationId, status: 'ACTIVE' } }),
-          prisma.project.count({ where: { organizationId, status: 'ON_HOLD' } }),
-          prisma.project.count({ where: { organizationId, status: 'COMPLETED' } }),
+          prisma.project.count({ where: { organizationId, ...notDeleted } }),
+          prisma.project.count({ where: { organizationId, ...notDeleted, status: 'ACTIVE' } }),
+          prisma.project.count({ where: { organizationId, ...notDeleted, status: 'ON_HOLD' } }),
+          prisma.project.count({ where: { organizationId, ...notDeleted, status: 'COMPLETED' } }),
         ]);
 
       return {
@@ -171,7 +175,7 @@ export class ProjectRepository {
     try {
       // Atomic org-scoped update
       const result = await prisma.project.updateMany({
-        where: { id, organizationId },
+        where: { id, organizationId, ...notDeleted },
         data,
       });
 
@@ -188,11 +192,16 @@ export class ProjectRepository {
     }
   }
 
-  async delete(organizationId: string, id: string): Promise<void> {
+  /**
+   * Move a project to the Trash. Its stages, expenses and payments are kept
+   * and come back if the project is restored.
+   */
+  async delete(organizationId: string, id: string, deletedById: string | null): Promise<void> {
     try {
-      // Atomic org-scoped delete
-      const result = await prisma.project.deleteMany({
-        where: { id, organizationId },
+      // Atomic org-scoped soft delete
+      const result = await prisma.project.updateMany({
+        where: { id, organizationId, ...notDeleted },
+        data: softDeleteData(deletedById),
       });
 
       if (result.count === 0) {
@@ -203,10 +212,12 @@ export class ProjectRepository {
     }
   }
 
-  // Helper to calculate total expenses (rate * quantity)
+  // Helper to calculate total expenses (rate * quantity), leaving out rejected ones.
+  // Advance claims are settled against the member's cash in hand and are left out,
+  // as they are of stage totals, which they have no stage for.
   private async calculateExpensesTotal(organizationId: string, projectId: string): Promise<number> {
     const expenses = await prisma.expense.findMany({
-      where: { organizationId, projectId },
+      where: { organizationId, projectId, status: { not: 'REJECTED' }, ...notDeleted },
       select: { rate: true, quantity: true },
     });
 
@@ -224,31 +235,41 @@ export class ProjectRepository {
     totalPayments: number;
     totalPaymentsIn: number;
     totalPaymentsOut: number;
+    totalAdvances: number;
+    totalCreditNotes: number;
+    totalRefunds: number;
+    totalWriteOffs: number;
     balance: number;
   }> {
     try {
-      const [totalExpenses, paymentsInSum, paymentsOutSum] = await Promise.all([
+      const [totalExpenses, paymentsInSum, paymentsOutSum, ledger] = await Promise.all([
         this.calculateExpensesTotal(organizationId, projectId),
         prisma.payment.aggregate({
-          where: { organizationId, projectId, type: 'IN' },
+          where: { organizationId, projectId, type: 'IN', ...notDeleted },
           _sum: { amount: true },
         }),
         prisma.payment.aggregate({
-          where: { organizationId, projectId, type: 'OUT' },
+          where: { organizationId, projectId, type: 'OUT', ...notDeleted },
           _sum: { amount: true },
         }),
+        partyLedgerRepository.getTotals({ organizationId, projectId }),
       ]);
 
       const totalPaymentsIn = paymentsInSum._sum?.amount?.toNumber() || 0;
       const totalPaymentsOut = paymentsOutSum._sum?.amount?.toNumber() || 0;
       const totalPayments = totalPaymentsIn + totalPaymentsOut;
-      const balance = totalPaymentsIn - totalExpenses;
+      // Credit notes bring costs down; write-offs are a loss on the project
+      const balance = totalPaymentsIn - totalExpenses - ledgerCostAdjustment(ledger);
 
       return {
         totalExpenses,
         totalPayments,
         totalPaymentsIn,
         totalPaymentsOut,
+        totalAdvances: ledger.advances,
+        totalCreditNotes: ledger.creditNotes,
+        totalRefunds: ledger.refunds,
+        totalWriteOffs: ledger.writeOffs,
         balance,
       };
     } catch (error) {
@@ -264,7 +285,7 @@ export class ProjectRepository {
     try {
       // Verify project exists in organization
       const project = await prisma.project.findFirst({
-        where: { id: projectId, organizationId },
+        where: { id: projectId, organizationId, ...notDeleted },
       });
 
       if (!project) {
@@ -302,7 +323,7 @@ export class ProjectRepository {
     try {
       // Verify project exists in organization
       const project = await prisma.project.findFirst({
-        where: { id: projectId, organizationId },
+        where: { id: projectId, organizationId, ...notDeleted },
       });
 
       if (!project) {
@@ -328,7 +349,7 @@ export class ProjectRepository {
   async getProjectMembers(organizationId: string, projectId: string) {
     try {
       const project = await prisma.project.findFirst({
-        where: { id: projectId, organizationId },
+        where: { id: projectId, organizationId, ...notDeleted },
       });
 
       if (!project) {
@@ -0,0 +1,374 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { Prisma, PurchaseOrderStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface PurchaseOrderLineData {
+  boqItemId?: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  deliveryDate?: Date | null;
+}
+
+export interface CreatePurchaseOrderData {
+  projectId: string;
+  vendorId: string;
+  createdById?: string | null;
+  orderDate: Date;
+  notes?: string | null;
+  lines: PurchaseOrderLineData[];
+}
+
+export interface UpdatePurchaseOrderData {
+  vendorId?: string;
+  orderDate?: Date;
+  notes?: string | null;
+  lines?: PurchaseOrderLineData[];
+}
+
+export interface CreateGoodsReceiptData {
+  receivedById?: string | null;
+  receivedDate: Date;
+  notes?: string | null;
+  lines: Array<{ purchaseOrderLineId: string; quantity: number }>;
+}
+
+// Bills in the Trash or rejected are not matched against an order
+const billWhere = { ...notDeleted, status: { not: 'REJECTED' } } as const;
+
+const lineInclude = {
+  boqItem: { select: { id: true, code: true, description: true, unit: true } },
+  receiptLines: { select: { quantity: true } },
+  bills: {
+    where: billWhere,
+    select: {
+      id: true,
+      description: true,
+      rate: true,
+      quantity: true,
+      expenseDate: true,
+      status: true,
+    },
+    orderBy: { expenseDate: 'asc' },
+  },
+} as const;
+
+const orderListInclude = {
+  vendor: { select: { id: true, name: true } },
+  lines: { orderBy: { sortOrder: 'asc' }, include: lineInclude },
+} as const;
+
+const orderInclude = {
+  vendor: { select: { id: true, name: true, phone: true, location: true, gstin: true } },
+  project: { select: { id: true, name: true, location: true } },
+  createdBy: { select: { id: true, user: { select: { name: true } } } },
+  approvedBy: { select: { id: true, user: { select: { name: true } } } },
+  lines: { orderBy: { sortOrder: 'asc' }, include: lineInclude },
+  receipts: {
+    orderBy: { receivedDate: 'desc' },
+    include: {
+      receivedBy: { select: { id: true, user: { select: { name: true } } } },
+      lines: { select: { purchaseOrderLineId: true, quantity: true } },
+    },
+  },
+} as const;
+
+export type PurchaseOrderListItem = Prisma.PurchaseOrderGetPayload<{
+  include: typeof orderListInclude;
+}>;
+
+export type PurchaseOrderWithDetails = Prisma.PurchaseOrderGetPayload<{
+  include: typeof orderInclude;
+}>;
+
+export type PurchaseOrderLineWithMatch = PurchaseOrderListItem['lines'][number];
+
+const decimal = (value: number) => new Decimal(value);
+
+function linesData(lines: PurchaseOrderLineData[]) {
+  return lines.map((line, index) => ({
+    sortOrder: index + 1,
+    boqItemId: line.boqItemId ?? null,
+    description: line.description,
+    unit: line.unit,
+    quantity: decimal(line.quantity),
+    rate: decimal(line.rate),
+    amount: decimal(Math.round(line.quantity * line.rate * 100) / 100),
+    deliveryDate: line.deliveryDate ?? null,
+  }));
+}
+
+function totalAmount(lines: ReturnType<typeof linesData>) {
+  return lines.reduce((sum, line) => sum.plus(line.amount), new Decimal(0));
+}
+
+/**
+ * Purchase Order Repository - orders placed with vendors, their goods received
+ * notes, and the vendor bills matched against their lines
+ */
+export class PurchaseOrderRepository {
+  async findByProject(
+    organizationId: string,
+    projectId: string,
+    status?: PurchaseOrderStatus
+  ): Promise<PurchaseOrderListItem[]> {
+    try {
+      return await prisma.purchaseOrder.findMany({
+        where: { organizationId, projectId, ...(status && { status }) },
+        include: orderListInclude,
+        orderBy: [{ orderDate: 'desc' }, { createdAt: 'desc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, id: string): Promise<PurchaseOrderWithDetails | null> {
+    try {
+      return await prisma.purchaseOrder.findFirst({
+        where: { id, organizationId, project: notDeleted },
+        include: orderInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Raise an order with the organization's next order number, taken in the same
+   * transaction so a failed order leaves no gap
+   */
+  async create(
+    organizationId: string,
+    data: CreatePurchaseOrderData
+  ): Promise<PurchaseOrderWithDetails> {
+    try {
+      const lines = linesData(data.lines);
+
+      return await prisma.$transaction(async (tx) => {
+        const organization = await tx.organization.update({
+          where: { id: organizationId },
+          data: { lastPurchaseOrderNumber: { increment: 1 } },
+          select: { lastPurchaseOrderNumber: true },
+        });
+
+        return tx.purchaseOrder.create({
+          data: {
+            organizationId,
+            projectId: data.projectId,
+            vendorId: data.vendorId,
+            createdById: data.createdById ?? null,
+            orderNumber: `PO-${String(organization.lastPurchaseOrderNumber).padStart(4, '0')}`,
+            orderDate: data.orderDate,
+            notes: data.notes ?? null,
+            totalAmount: totalAmount(lines),
+            lines: { create: lines },
+          },
+          include: orderInclude,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Edit an order that is not yet approved. It goes back for approval, and given
+   * lines replace the existing ones.
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdatePurchaseOrderData
+  ): Promise<PurchaseOrderWithDetails> {
+    try {
+      const { lines, ...fields } = data;
+      const newLines = lines && linesData(lines);
+
+      return await prisma.$transaction(async (tx) => {
+        const result = await tx.purchaseOrder.updateMany({
+          where: { id, organizationId, status: { in: ['PENDING', 'REJECTED'] } },
+          data: {
+            ...fields,
+            status: 'PENDING',
+            rejectionReason: null,
+            ...(newLines && { totalAmount: totalAmount(newLines) }),
+          },
+        });
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+
+        if (newLines) {
+          await tx.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: id } });
+          await tx.purchaseOrderLine.createMany({
+            data: newLines.map((line) => ({ ...line, purchaseOrderId: id })),
+          });
+        }
+
+        return tx.purchaseOrder.findUniqueOrThrow({ where: { id }, include: orderInclude });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Move an order on from one of the given statuses; fails if it has moved since
+   */
+  async setStatus(
+    organizationId: string,
+    id: string,
+    from: PurchaseOrderStatus[],
+    data: Prisma.PurchaseOrderUncheckedUpdateManyInput & { status: PurchaseOrderStatus }
+  ): Promise<PurchaseOrderWithDetails> {
+    try {
+      const result = await prisma.purchaseOrder.updateMany({
+        where: { id, organizationId, status: { in: from } },
+        data,
+      });
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      return await prisma.purchaseOrder.findUniqueOrThrow({ where: { id }, include: orderInclude });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Goods Received
+  // ============================================
+
+  async createReceipt(
+    organizationId: string,
+    purchaseOrderId: string,
+    data: CreateGoodsReceiptData
+  ): Promise<PurchaseOrderWithDetails> {
+    try {
+      await prisma.goodsReceipt.create({
+        data: {
+          organizationId,
+          purchaseOrderId,
+          receivedById: data.receivedById ?? null,
+          receivedDate: data.receivedDate,
+          notes: data.notes ?? null,
+          lines: {
+            create: data.lines.map((line) => ({
+              purchaseOrderLineId: line.purchaseOrderLineId,
+              quantity: decimal(line.quantity),
+            })),
+          },
+        },
+      });
+
+      return await prisma.purchaseOrder.findUniqueOrThrow({
+        where: { id: purchaseOrderId },
+        include: orderInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Bill Matching
+  // ============================================
+
+  /**
+   * An order line with its order, to check a bill can be matched against it
+   */
+  async findLine(organizationId: string, lineId: string) {
+    try {
+      return await prisma.purchaseOrderLine.findFirst({
+        where: { id: lineId, purchaseOrder: { organizationId } },
+        include: {
+          purchaseOrder: {
+            select: { id: true, projectId: true, vendorId: true, status: true, orderNumber: true },
+          },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Order lines the given bills are matched against, with everything received
+   * and billed on them
+   */
+  async findLinesForBills(
+    organizationId: string,
+    expenseIds: string[]
+  ): Promise<PurchaseOrderLineWithMatch[]> {
+    try {
+      return await prisma.purchaseOrderLine.findMany({
+        where: {
+          purchaseOrder: { organizationId },
+          bills: { some: { id: { in: expenseIds } } },
+        },
+        include: lineInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Lines of a vendor's approved orders on a project, that bills can be matched to
+   */
+  async findOpenLines(organizationId: string, projectId: string, vendorId: string) {
+    try {
+      return await prisma.purchaseOrderLine.findMany({
+        where: { purchaseOrder: { organizationId, projectId, vendorId, status: 'APPROVED' } },
+        include: {
+          ...lineInclude,
+          purchaseOrder: { select: { id: true, orderNumber: true, orderDate: true } },
+        },
+        orderBy: [{ purchaseOrder: { orderDate: 'asc' } }, { sortOrder: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  async findVendor(organizationId: string, vendorId: string) {
+    try {
+      return await prisma.party.findFirst({
+        where: { id: vendorId, organizationId, ...notDeleted },
+        select: { id: true, type: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async countProjectBoqItems(projectId: string, boqItemIds: string[]): Promise<number> {
+    try {
+      return await prisma.bOQItem.count({ where: { projectId, id: { in: boqItemIds } } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const purchaseOrderRepository = new PurchaseOrderRepository();
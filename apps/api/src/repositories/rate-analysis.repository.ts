@@ -0,0 +1,308 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { Prisma, RateComponentKind } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import type { AuditHook } from './audit.repository';
+
+export interface RateComponentData {
+  kind: RateComponentKind;
+  categoryItemId?: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+}
+
+export interface RateTemplateData {
+  name: string;
+  description?: string | null;
+  unit: string;
+  overheadPercent: number;
+  profitPercent: number;
+  components: RateComponentData[];
+}
+
+export interface RateAnalysisData {
+  templateId?: string | null;
+  overheadPercent: number;
+  profitPercent: number;
+  unitRate: number;
+  notes?: string | null;
+  components: RateComponentData[];
+  // Also quote the BOQ item at the analysed rate
+  applyRate: boolean;
+}
+
+const memberName = { select: { id: true, user: { select: { name: true } } } } as const;
+
+const componentInclude = {
+  categoryItem: { select: { id: true, name: true } },
+} as const;
+
+const templateInclude = {
+  createdBy: memberName,
+  components: { include: componentInclude, orderBy: { sortOrder: 'asc' } },
+} as const;
+
+const analysisInclude = {
+  template: { select: { id: true, name: true } },
+  components: { include: componentInclude, orderBy: { sortOrder: 'asc' } },
+} as const;
+
+const boqItemSelect = {
+  id: true,
+  projectId: true,
+  description: true,
+  unit: true,
+  rate: true,
+} as const;
+
+export type RatedBOQItem = Prisma.BOQItemGetPayload<{ select: typeof boqItemSelect }>;
+
+export type RateTemplateWithComponents = Prisma.RateAnalysisTemplateGetPayload<{
+  include: typeof templateInclude;
+}>;
+
+export type RateAnalysisWithComponents = Prisma.RateAnalysisGetPayload<{
+  include: typeof analysisInclude;
+}>;
+
+function componentsData(components: RateComponentData[]) {
+  return components.map((component, index) => ({
+    sortOrder: index + 1,
+    kind: component.kind,
+    categoryItemId: component.categoryItemId ?? null,
+    description: component.description,
+    unit: component.unit,
+    quantity: new Decimal(component.quantity),
+    rate: new Decimal(component.rate),
+  }));
+}
+
+export class RateAnalysisRepository {
+  // ============================================
+  // Templates
+  // ============================================
+
+  async findTemplates(organizationId: string) {
+    try {
+      return await prisma.rateAnalysisTemplate.findMany({
+        where: { organizationId },
+        include: templateInclude,
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findTemplateById(organizationId: string, id: string) {
+    try {
+      return await prisma.rateAnalysisTemplate.findFirst({
+        where: { id, organizationId },
+        include: templateInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async createTemplate(organizationId: string, data: RateTemplateData, createdById?: string) {
+    try {
+      const { components, ...fields } = data;
+      return await prisma.rateAnalysisTemplate.create({
+        data: {
+          ...fields,
+          organizationId,
+          overheadPercent: new Decimal(fields.overheadPercent),
+          profitPercent: new Decimal(fields.profitPercent),
+          createdById: createdById ?? null,
+          components: { create: componentsData(components) },
+        },
+        include: templateInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Replace a template's fields and components
+   */
+  async updateTemplate(organizationId: string, id: string, data: RateTemplateData) {
+    try {
+      const { components, ...fields } = data;
+      return await prisma.$transaction(async (tx) => {
+        await tx.rateTemplateComponent.deleteMany({ where: { templateId: id } });
+        return tx.rateAnalysisTemplate.update({
+          where: { id, organizationId },
+          data: {
+            ...fields,
+            overheadPercent: new Decimal(fields.overheadPercent),
+            profitPercent: new Decimal(fields.profitPercent),
+            components: { create: componentsData(components) },
+          },
+          include: templateInclude,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async deleteTemplate(organizationId: string, id: string) {
+    try {
+      await prisma.rateAnalysisTemplate.delete({ where: { id, organizationId } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // BOQ item analyses
+  // ============================================
+
+  async findByBOQItem(organizationId: string, boqItemId: string) {
+    try {
+      return await prisma.rateAnalysis.findFirst({
+        where: { boqItemId, organizationId },
+        include: analysisInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Save a BOQ item's analysis, replacing any earlier one. `auditRate` records
+   * the item's new rate when the analysis is applied to it.
+   */
+  async upsert(
+    organizationId: string,
+    boqItemId: string,
+    data: RateAnalysisData,
+    auditRate?: AuditHook<RatedBOQItem>
+  ) {
+    try {
+      const { components, applyRate, ...fields } = data;
+      const values = {
+        templateId: fields.templateId ?? null,
+        overheadPercent: new Decimal(fields.overheadPercent),
+        profitPercent: new Decimal(fields.profitPercent),
+        unitRate: new Decimal(fields.unitRate),
+        notes: fields.notes ?? null,
+      };
+
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.rateAnalysis.findUnique({
+          where: { boqItemId },
+          select: { id: true },
+        });
+        if (existing) {
+          await tx.rateAnalysisComponent.deleteMany({ where: { analysisId: existing.id } });
+        }
+
+        const analysis = await tx.rateAnalysis.upsert({
+          where: { boqItemId },
+          create: {
+            ...values,
+            organizationId,
+            boqItemId,
+            components: { create: componentsData(components) },
+          },
+          update: { ...values, components: { create: componentsData(components) } },
+          include: analysisInclude,
+        });
+
+        if (applyRate) {
+          const item = await tx.bOQItem.update({
+            where: { id: boqItemId },
+            data: { rate: values.unitRate },
+            select: boqItemSelect,
+          });
+          await auditRate?.(tx, item);
+        }
+        return analysis;
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async delete(organizationId: string, id: string) {
+    try {
+      await prisma.rateAnalysis.delete({ where: { id, organizationId } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Lookups
+  // ============================================
+
+  async findBOQItem(organizationId: string, projectId: string, id: string) {
+    try {
+      return await prisma.bOQItem.findFirst({
+        where: { id, organizationId, projectId },
+        select: boqItemSelect,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async countCategoryItems(organizationId: string, ids: string[]) {
+    try {
+      return await prisma.categoryItem.count({ where: { organizationId, id: { in: ids } } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findTemplateByName(organizationId: string, name: string) {
+    try {
+      return await prisma.rateAnalysisTemplate.findFirst({
+        where: { organizationId, name: { equals: name, mode: 'insensitive' } },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * A project's expenses of the given material, labour or sub-work types, to
+   * check component rates against. Rejected and deleted expenses are left out.
+   */
+  async findExpenseRates(organizationId: string, projectId: string, categoryItemIds: string[]) {
+    try {
+      return await prisma.expense.findMany({
+        where: {
+          organizationId,
+          projectId,
+          ...notDeleted,
+          status: { not: 'REJECTED' },
+          OR: [
+            { materialTypeItemId: { in: categoryItemIds } },
+            { labourTypeItemId: { in: categoryItemIds } },
+            { subWorkTypeItemId: { in: categoryItemIds } },
+          ],
+        },
+        select: {
+          rate: true,
+          quantity: true,
+          expenseDate: true,
+          materialTypeItemId: true,
+          labourTypeItemId: true,
+          subWorkTypeItemId: true,
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const rateAnalysisRepository = new RateAnalysisRepository();
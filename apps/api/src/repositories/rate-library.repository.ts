@@ -0,0 +1,221 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { Prisma } from '@prisma/client';
+
+// The category an expense is typed by, and the expense field holding it
+export const RATE_LIBRARY_TYPES = {
+  material_type: 'materialTypeItemId',
+  labour_type: 'labourTypeItemId',
+  sub_work_type: 'subWorkTypeItemId',
+} as const;
+
+export type RateLibraryType = keyof typeof RATE_LIBRARY_TYPES;
+
+export interface ExpenseRateFilters {
+  type?: RateLibraryType;
+  categoryItemId?: string;
+  // Unit trimmed and lower-cased; '' for expenses entered without one
+  unitKey?: string;
+  partyId?: string;
+  // Project location trimmed and lower-cased
+  locationKey?: string;
+  // Part of the category item's name
+  search?: string;
+  // Expense date window
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * What rates are grouped by within an entry (a type and unit): nothing, or the
+ * vendor, the project location or the month paid
+ */
+export type RateGrouping = 'entry' | 'party' | 'location' | 'month';
+
+export interface RateStatsRow {
+  type: RateLibraryType;
+  itemId: string;
+  itemName: string;
+  unitKey: string;
+  // As last written
+  unit: string | null;
+  // The party ID, location key or YYYY-MM month, and its name as last written
+  groupKey: string | null;
+  groupName: string | null;
+  count: number;
+  totalQuantity: Prisma.Decimal;
+  // Sum of rate x quantity
+  amount: Prisma.Decimal;
+  lastRate: Prisma.Decimal;
+  lastDate: Date;
+  minRate: Prisma.Decimal;
+  maxRate: Prisma.Decimal;
+  vendorCount: number;
+  locationCount: number;
+}
+
+export interface RecentRateRow {
+  id: string;
+  expenseDate: Date;
+  rate: Prisma.Decimal;
+  quantity: Prisma.Decimal;
+  partyId: string;
+  partyName: string;
+  projectId: string;
+  projectName: string;
+  projectLocation: string;
+}
+
+const GROUPINGS: Record<Exclude<RateGrouping, 'entry'>, { key: Prisma.Sql; name: Prisma.Sql }> = {
+  party: { key: Prisma.sql`t."partyId"`, name: Prisma.sql`MIN(pa."name")` },
+  location: {
+    key: Prisma.sql`t."locationKey"`,
+    name: Prisma.sql`(array_agg(t."location" ORDER BY t."expenseDate" DESC, t."createdAt" DESC))[1]`,
+  },
+  month: {
+    key: Prisma.sql`to_char(t."expenseDate", 'YYYY-MM')`,
+    name: Prisma.sql`to_char(t."expenseDate", 'YYYY-MM')`,
+  },
+};
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * One row per type an expense is booked under, with its unit and location keys.
+ * Rejected and deleted expenses, and those of deleted projects, are left out.
+ */
+function typedExpenses(organizationId: string, filters: ExpenseRateFilters): Prisma.Sql {
+  const types = filters.type
+    ? [filters.type]
+    : (Object.keys(RATE_LIBRARY_TYPES) as RateLibraryType[]);
+
+  const conditions = [
+    Prisma.sql`e."organizationId" = ${organizationId}`,
+    Prisma.sql`e."deletedAt" IS NULL`,
+    Prisma.sql`p."deletedAt" IS NULL`,
+    Prisma.sql`e."status" <> 'REJECTED'`,
+    ...(filters.unitKey !== undefined
+      ? [Prisma.sql`LOWER(TRIM(COALESCE(e."unit", ''))) = ${filters.unitKey}`]
+      : []),
+    ...(filters.partyId ? [Prisma.sql`e."partyId" = ${filters.partyId}`] : []),
+    ...(filters.locationKey !== undefined
+      ? [Prisma.sql`LOWER(TRIM(p."location")) = ${filters.locationKey}`]
+      : []),
+    ...(filters.from ? [Prisma.sql`e."expenseDate" >= ${filters.from}`] : []),
+    ...(filters.to ? [Prisma.sql`e."expenseDate" <= ${filters.to}`] : []),
+  ];
+
+  return Prisma.join(
+    types.map((type) => {
+      const field = Prisma.raw(`e."${RATE_LIBRARY_TYPES[type]}"`);
+      const item = filters.categoryItemId
+        ? Prisma.sql`${field} = ${filters.categoryItemId}`
+        : Prisma.sql`${field} IS NOT NULL`;
+
+      return Prisma.sql`
+        SELECT ${type}::text AS "type", ${field} AS "itemId", e."id", e."rate", e."quantity",
+          TRIM(e."unit") AS "unit", LOWER(TRIM(COALESCE(e."unit", ''))) AS "unitKey",
+          e."expenseDate", e."createdAt", e."partyId", e."projectId",
+          TRIM(p."location") AS "location", LOWER(TRIM(p."location")) AS "locationKey"
+        FROM "expenses" e
+        JOIN "projects" p ON p."id" = e."projectId"
+        WHERE ${Prisma.join([...conditions, item], ' AND ')}
+      `;
+    }),
+    ' UNION ALL '
+  );
+}
+
+export class RateLibraryRepository {
+  /**
+   * Rate figures for each type and unit the organization has paid for, or
+   * for each vendor, location or month within them
+   */
+  async findRateStats(
+    organizationId: string,
+    filters: ExpenseRateFilters = {},
+    grouping: RateGrouping = 'entry'
+  ): Promise<RateStatsRow[]> {
+    try {
+      const group = grouping === 'entry' ? null : GROUPINGS[grouping];
+      const search = filters.search?.trim();
+
+      return await prisma.$queryRaw<RateStatsRow[]>`
+        WITH typed AS (${typedExpenses(organizationId, filters)})
+        SELECT t."type", t."itemId", i."name" AS "itemName", t."unitKey",
+          NULLIF((array_agg(t."unit" ORDER BY t."expenseDate" DESC, t."createdAt" DESC))[1], '') AS "unit",
+          ${group?.key ?? Prisma.sql`NULL`} AS "groupKey",
+          ${group?.name ?? Prisma.sql`NULL`} AS "groupName",
+          COUNT(*)::int AS "count",
+          SUM(t."quantity") AS "totalQuantity",
+          SUM(t."rate" * t."quantity") AS "amount",
+          (array_agg(t."rate" ORDER BY t."expenseDate" DESC, t."createdAt" DESC))[1] AS "lastRate",
+          MAX(t."expenseDate") AS "lastDate",
+          MIN(t."rate") AS "minRate",
+          MAX(t."rate") AS "maxRate",
+          COUNT(DISTINCT t."partyId")::int AS "vendorCount",
+          COUNT(DISTINCT t."locationKey")::int AS "locationCount"
+        FROM typed t
+        JOIN "category_items" i ON i."id" = t."itemId"
+        JOIN "parties" pa ON pa."id" = t."partyId"
+        ${search ? Prisma.sql`WHERE i."name" ILIKE ${`%${escapeLike(search)}%`}` : Prisma.empty}
+        GROUP BY t."type", t."itemId", i."name", t."unitKey"${group ? Prisma.sql`, ${group.key}` : Prisma.empty}
+        ORDER BY "count" DESC, "lastDate" DESC
+      `;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * The latest expenses behind the rates, newest first
+   */
+  async findRecentRates(
+    organizationId: string,
+    filters: ExpenseRateFilters,
+    limit: number
+  ): Promise<RecentRateRow[]> {
+    try {
+      return await prisma.$queryRaw<RecentRateRow[]>`
+        WITH typed AS (${typedExpenses(organizationId, filters)})
+        SELECT t."id", t."expenseDate", t."rate", t."quantity",
+          t."partyId", pa."name" AS "partyName",
+          t."projectId", p."name" AS "projectName", p."location" AS "projectLocation"
+        FROM typed t
+        JOIN "parties" pa ON pa."id" = t."partyId"
+        JOIN "projects" p ON p."id" = t."projectId"
+        ORDER BY t."expenseDate" DESC, t."createdAt" DESC
+        LIMIT ${limit}
+      `;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findCategoryItem(organizationId: string, id: string) {
+    try {
+      return await prisma.categoryItem.findFirst({
+        where: { id, organizationId },
+        select: { id: true, name: true, categoryType: { select: { key: true } } },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findProjectLocation(organizationId: string, projectId: string) {
+    try {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, organizationId },
+        select: { location: true },
+      });
+      return project?.location ?? null;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const rateLibraryRepository = new RateLibraryRepository();
@@ -0,0 +1,425 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, notDeletedInProject } from '../lib/soft-delete';
+import type { Prisma } from '@prisma/client';
+import { ledgerBalanceAdjustment } from './party-ledger.repository';
+
+export interface ReportScope {
+  /** Limits the report to these projects, for roles scoped to their own projects */
+  projectIds?: string[];
+  projectId?: string;
+  partyId?: string;
+}
+
+export interface OpenBill {
+  id: string;
+  date: Date;
+  description: string;
+  party: { id: string; name: string };
+  project: { id: string; name: string };
+  amount: number;
+  settled: number;
+}
+
+export interface PayableCredit {
+  partyId: string;
+  projectId: string;
+  /** Payments not allocated to a bill, less advances and credit notes not yet used */
+  amount: number;
+}
+
+export interface ReceivableCredit {
+  clientId: string | null;
+  projectId: string;
+  /** Receipts not allocated to an installment */
+  amount: number;
+}
+
+export interface ReportPeriod {
+  from: Date;
+  /** Exclusive */
+  to: Date;
+}
+
+export interface TaxParty {
+  id: string;
+  name: string;
+  gstin: string | null;
+  stateCode: string | null;
+}
+
+export interface GstBill {
+  id: string;
+  date: Date;
+  description: string;
+  party: TaxParty;
+  project: { id: string; name: string };
+  amount: number;
+  gstRate: number;
+  gstAmount: number;
+  itcEligible: boolean;
+}
+
+export interface TdsPayment {
+  id: string;
+  date: Date;
+  party: TaxParty;
+  project: { id: string; name: string };
+  tdsSection: string;
+  tdsRate: number;
+  amount: number;
+  tdsAmount: number;
+}
+
+const taxPartySelect = { id: true, name: true, gstin: true, stateCode: true } as const;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function projectWhere(scope: ReportScope) {
+  if (scope.projectId) {
+    return scope.projectIds && !scope.projectIds.includes(scope.projectId)
+      ? { projectId: { in: [] } }
+      : { projectId: scope.projectId };
+  }
+  return scope.projectIds ? { projectId: { in: scope.projectIds } } : {};
+}
+
+// Installments keep their stage so the caller can tell whether they have fallen due
+const installmentInclude = {
+  stage: { select: { id: true, name: true, status: true, endDate: true } },
+  project: {
+    select: {
+      id: true,
+      name: true,
+      amount: true,
+      variationAmount: true,
+      client: { select: { id: true, name: true } },
+    },
+  },
+  allocations: {
+    where: { payment: notDeleted },
+    select: { amount: true },
+  },
+} as const;
+
+export type ReportInstallment = Prisma.PaymentInstallmentGetPayload<{
+  include: typeof installmentInclude;
+}>;
+
+/**
+ * Report Repository - organization-wide reads across projects for reports
+ */
+export class ReportRepository {
+  /**
+   * Bills from parties, oldest first, with what payments already cover. Rejected
+   * bills are not owed.
+   */
+  async findBills(organizationId: string, scope: ReportScope): Promise<OpenBill[]> {
+    try {
+      const expenses = await prisma.expense.findMany({
+        where: {
+          organizationId,
+          ...projectWhere(scope),
+          ...(scope.partyId && { partyId: scope.partyId }),
+          status: { not: 'REJECTED' },
+          ...notDeletedInProject,
+        },
+        include: {
+          party: { select: { id: true, name: true } },
+          project: { select: { id: true, name: true } },
+          expenseType: { select: { name: true } },
+          allocations: {
+            where: { payment: { type: 'OUT', ...notDeleted } },
+            select: { amount: true },
+          },
+        },
+        orderBy: [{ expenseDate: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return expenses.map((expense) => ({
+        id: expense.id,
+        date: expense.expenseDate,
+        description: expense.description || expense.expenseType.name,
+        party: expense.party,
+        project: expense.project,
+        amount: roundMoney(expense.rate.toNumber() * expense.quantity.toNumber()),
+        settled: roundMoney(
+          expense.allocations.reduce((sum, allocation) => sum + allocation.amount.toNumber(), 0)
+        ),
+      }));
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * What each party holds on account per project: payments not allocated to a bill,
+   * less advances and credit notes. Negative when refunds or write-offs exceed it.
+   */
+  async findPayableCredits(organizationId: string, scope: ReportScope): Promise<PayableCredit[]> {
+    try {
+      const where = { organizationId, ...projectWhere(scope) };
+
+      const [payments, ledgerGroups] = await Promise.all([
+        prisma.payment.findMany({
+          where: {
+            ...where,
+            type: 'OUT',
+            partyId: scope.partyId ?? { not: null },
+            ...notDeletedInProject,
+          },
+          select: {
+            partyId: true,
+            projectId: true,
+            amount: true,
+            // Anything still allocated to a rejected bill is on account again
+            allocations: {
+              where: { expense: { status: { not: 'REJECTED' } } },
+              select: { amount: true },
+            },
+          },
+        }),
+        prisma.partyLedgerEntry.groupBy({
+          by: ['partyId', 'projectId', 'type'],
+          where: {
+            ...where,
+            ...(scope.partyId && { partyId: scope.partyId }),
+            project: notDeleted,
+          },
+          _sum: { amount: true },
+        }),
+      ]);
+
+      const credits = new Map<string, PayableCredit & { unallocated: number }>();
+      const creditFor = (partyId: string, projectId: string) => {
+        const key = `${partyId}:${projectId}`;
+        let credit = credits.get(key);
+        if (!credit) {
+          credit = { partyId, projectId, amount: 0, unallocated: 0 };
+          credits.set(key, credit);
+        }
+        return credit;
+      };
+
+      for (const payment of payments) {
+        if (!payment.partyId) continue;
+        const allocated = payment.allocations.reduce((sum, a) => sum + a.amount.toNumber(), 0);
+        creditFor(payment.partyId, payment.projectId).unallocated +=
+          payment.amount.toNumber() - allocated;
+      }
+
+      const ledgerKeys = new Set(ledgerGroups.map((g) => `${g.partyId}:${g.projectId}`));
+      for (const key of ledgerKeys) {
+        const [partyId, projectId] = key.split(':');
+        const sumOf = (type: string) =>
+          ledgerGroups
+            .find((g) => g.partyId === partyId && g.projectId === projectId && g.type === type)
+            ?._sum.amount?.toNumber() || 0;
+        creditFor(partyId, projectId).amount = -ledgerBalanceAdjustment({
+          advances: sumOf('ADVANCE'),
+          creditNotes: sumOf('CREDIT_NOTE'),
+          refunds: sumOf('REFUND'),
+          writeOffs: sumOf('WRITE_OFF'),
+        });
+      }
+
+      return Array.from(credits.values())
+        .map(({ unallocated, ...credit }) => ({
+          ...credit,
+          amount: roundMoney(Math.max(0, unallocated) + credit.amount),
+        }))
+        .filter((credit) => credit.amount !== 0);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Client payment schedule installments, in schedule order, with what receipts cover
+   */
+  async findInstallments(organizationId: string, scope: ReportScope): Promise<ReportInstallment[]> {
+    try {
+      return await prisma.paymentInstallment.findMany({
+        where: {
+          organizationId,
+          ...projectWhere(scope),
+          project: {
+            ...notDeleted,
+            ...(scope.partyId && { clientId: scope.partyId }),
+          },
+        },
+        include: installmentInclude,
+        orderBy: [{ projectId: 'asc' }, { sequence: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Receipts per project that are not allocated to an installment yet
+   */
+  async findReceivableCredits(
+    organizationId: string,
+    scope: ReportScope
+  ): Promise<ReceivableCredit[]> {
+    try {
+      const receipts = await prisma.payment.findMany({
+        where: {
+          organizationId,
+          ...projectWhere(scope),
+          type: 'IN',
+          deletedAt: null,
+          project: {
+            ...notDeleted,
+            ...(scope.partyId && { clientId: scope.partyId }),
+          },
+        },
+        select: {
+          projectId: true,
+          amount: true,
+          project: { select: { clientId: true } },
+          installmentAllocations: { select: { amount: true } },
+        },
+      });
+
+      const credits = new Map<string, ReceivableCredit>();
+      for (const receipt of receipts) {
+        const allocated = receipt.installmentAllocations.reduce(
+          (sum, a) => sum + a.amount.toNumber(),
+          0
+        );
+        const credit = credits.get(receipt.projectId) ?? {
+          clientId: receipt.project.clientId,
+          projectId: receipt.projectId,
+          amount: 0,
+        };
+        credit.amount = roundMoney(credit.amount + receipt.amount.toNumber() - allocated);
+        credits.set(receipt.projectId, credit);
+      }
+
+      return Array.from(credits.values()).filter((credit) => credit.amount > 0);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Bills in a period that carry GST, oldest first. Rejected bills are not owed,
+   * so their tax is not claimed.
+   */
+  async findGstBills(
+    organizationId: string,
+    scope: ReportScope,
+    period: ReportPeriod
+  ): Promise<GstBill[]> {
+    try {
+      const expenses = await prisma.expense.findMany({
+        where: {
+          organizationId,
+          ...projectWhere(scope),
+          status: { not: 'REJECTED' },
+          gstAmount: { gt: 0 },
+          expenseDate: { gte: period.from, lt: period.to },
+          ...notDeletedInProject,
+        },
+        include: {
+          party: { select: taxPartySelect },
+          project: { select: { id: true, name: true } },
+          expenseType: { select: { name: true } },
+        },
+        orderBy: [{ expenseDate: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return expenses.map((expense) => ({
+        id: expense.id,
+        date: expense.expenseDate,
+        description: expense.description || expense.expenseType.name,
+        party: expense.party,
+        project: expense.project,
+        amount: roundMoney(expense.rate.toNumber() * expense.quantity.toNumber()),
+        gstRate: expense.gstRate.toNumber(),
+        gstAmount: expense.gstAmount.toNumber(),
+        itcEligible: expense.itcEligible,
+      }));
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Payments to parties in a period that had TDS deducted, oldest first
+   */
+  async findTdsPayments(
+    organizationId: string,
+    scope: ReportScope,
+    period: ReportPeriod
+  ): Promise<TdsPayment[]> {
+    try {
+      const payments = await prisma.payment.findMany({
+        where: {
+          organizationId,
+          ...projectWhere(scope),
+          type: 'OUT',
+          partyId: { not: null },
+          tdsSection: { not: null },
+          tdsAmount: { gt: 0 },
+          paymentDate: { gte: period.from, lt: period.to },
+          ...notDeletedInProject,
+        },
+        include: {
+          party: { select: taxPartySelect },
+          project: { select: { id: true, name: true } },
+        },
+        orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return payments.flatMap((payment) =>
+        payment.party && payment.tdsSection
+          ? [
+              {
+                id: payment.id,
+                date: payment.paymentDate,
+                party: payment.party,
+                project: payment.project,
+                tdsSection: payment.tdsSection,
+                tdsRate: payment.tdsRate?.toNumber() ?? 0,
+                amount: payment.amount.toNumber(),
+                tdsAmount: payment.tdsAmount.toNumber(),
+              },
+            ]
+          : []
+      );
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Names of the projects and parties a report groups by
+   */
+  async findNames(organizationId: string, projectIds: string[], partyIds: string[]) {
+    try {
+      const [projects, parties] = await Promise.all([
+        prisma.project.findMany({
+          where: { organizationId, id: { in: projectIds } },
+          select: { id: true, name: true },
+        }),
+        prisma.party.findMany({
+          where: { organizationId, id: { in: partyIds } },
+          select: { id: true, name: true },
+        }),
+      ]);
+      return {
+        projects: new Map(projects.map((project) => [project.id, project.name])),
+        parties: new Map(parties.map((party) => [party.id, party.name])),
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const reportRepository = new ReportRepository();
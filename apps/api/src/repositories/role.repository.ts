@@ -6,12 +6,14 @@ export interface CreateRoleData {
   organizationId: string;
   name: string;
   description?: string;
+  projectScoped?: boolean;
   permissionIds?: string[];
 }
 
 export interface UpdateRoleData {
   name?: string;
   description?: string;
+  projectScoped?: boolean;
   permissionIds?: string[];
 }
 
@@ -142,6 +144,7 @@ export class RoleRepository {
           organizationId: data.organizationId,
           name: data.name,
           description: data.description,
+          projectScoped: data.projectScoped,
           permissions: data.permissionIds?.length
             ? {
                 create: data.permissionIds.map((permissionId) => ({
@@ -188,6 +191,7 @@ export class RoleRepository {
             data: {
               name: data.name,
               description: data.description,
+              projectScoped: data.projectScoped,
               permissions: data.permissionIds?.length
                 ? {
                     create: data.permissionIds.map((permissionId) => ({
@@ -212,12 +216,13 @@ export class RoleRepository {
         });
       }
 
-      // Just update name/description
+      // Just update name/description/project access
       return await prisma.role.update({
         where: { id },
         data: {
           name: data.name,
           description: data.description,
+          projectScoped: data.projectScoped,
         },
         include: {
           permissions: {
@@ -0,0 +1,170 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import type { AuthSession } from '@prisma/client';
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface CreateSessionData extends SessionClientInfo {
+  userId: string;
+  organizationId?: string;
+  expiresAt: Date;
+}
+
+export type SessionRevokeReason = 'LOGOUT' | 'REVOKED' | 'LOGOUT_ALL' | 'REUSE_DETECTED';
+
+export class SessionRepository {
+  /**
+   * Create a session (one device login)
+   */
+  async create(data: CreateSessionData): Promise<AuthSession> {
+    try {
+      return await prisma.authSession.create({ data });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Get a session by ID
+   */
+  async findById(id: string): Promise<AuthSession | null> {
+    try {
+      return await prisma.authSession.findUnique({ where: { id } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * List a user's sessions that are neither revoked nor expired, most recent first
+   */
+  async findActiveByUser(userId: string): Promise<AuthSession[]> {
+    try {
+      return await prisma.authSession.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Check whether a session can still be used
+   */
+  async isActive(id: string): Promise<boolean> {
+    try {
+      const count = await prisma.authSession.count({
+        where: { id, revokedAt: null, expiresAt: { gt: new Date() } },
+      });
+      return count > 0;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Record activity on a session (token refresh). The session lives as long as
+   * the refresh token just issued in it, so an active device stays signed in.
+   */
+  async touch(
+    id: string,
+    data: SessionClientInfo & { organizationId?: string; expiresAt: Date }
+  ): Promise<AuthSession> {
+    try {
+      return await prisma.authSession.update({
+        where: { id },
+        data: {
+          lastUsedAt: new Date(),
+          expiresAt: data.expiresAt,
+          ...(data.userAgent && { userAgent: data.userAgent }),
+          ...(data.ipAddress && { ipAddress: data.ipAddress }),
+          ...(data.organizationId && { organizationId: data.organizationId }),
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Revoke one of a user's sessions and drop its refresh tokens.
+   * Returns false when the session does not exist or is already revoked.
+   */
+  async revoke(userId: string, id: string, reason: SessionRevokeReason): Promise<boolean> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const result = await tx.authSession.updateMany({
+          where: { id, userId, revokedAt: null },
+          data: { revokedAt: new Date(), revokedReason: reason },
+        });
+
+        if (result.count === 0) {
+          return false;
+        }
+
+        await tx.refreshToken.deleteMany({ where: { sessionId: id } });
+        return true;
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one (the caller's)
+   * Returns the number of sessions revoked.
+   */
+  async revokeAllForUser(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const sessionFilter = {
+          userId,
+          revokedAt: null,
+          ...(exceptSessionId && { id: { not: exceptSessionId } }),
+        };
+
+        const sessions = await tx.authSession.findMany({
+          where: sessionFilter,
+          select: { id: true },
+        });
+        const sessionIds = sessions.map((s) => s.id);
+
+        await tx.authSession.updateMany({
+          where: { id: { in: sessionIds } },
+          data: { revokedAt: new Date(), revokedReason: reason },
+        });
+        await tx.refreshToken.deleteMany({ where: { sessionId: { in: sessionIds } } });
+
+        return sessionIds.length;
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Delete sessions that expired or were revoked before the cutoff
+   */
+  async deleteStale(before: Date): Promise<number> {
+    try {
+      const result = await prisma.authSession.deleteMany({
+        where: {
+          OR: [{ expiresAt: { lt: before } }, { revokedAt: { lt: before } }],
+        },
+      });
+      return result.count;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const sessionRepository = new SessionRepository();
@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
 import type { Stage, Prisma, StageStatus } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 
@@ -56,7 +57,7 @@ const stageInclude = {
   _count: {
     select: {
       tasks: true,
-      expenses: true,
+      expenses: { where: notDeleted },
     },
   },
 } as const;
@@ -69,6 +70,7 @@ export class StageRepository {
         where: {
           id: data.projectId,
           organizationId,
+          ...notDeleted,
         },
       });
 
@@ -96,6 +98,7 @@ export class StageRepository {
             id: { in: data.partyIds },
             organizationId,
             type: 'SUBCONTRACTOR',
+            ...notDeleted,
           },
         });
         if (validParties !== data.partyIds.length) {
@@ -177,13 +180,14 @@ export class StageRepository {
             },
           },
           expenses: {
+            where: notDeleted,
             take: 10,
             orderBy: { createdAt: 'desc' },
           },
           _count: {
             select: {
               tasks: true,
-              expenses: true,
+              expenses: { where: notDeleted },
             },
           },
         },
@@ -199,6 +203,7 @@ export class StageRepository {
         where: {
           organizationId,
           projectId,
+          project: notDeleted,
         },
         include: stageInclude,
         orderBy: { startDate: 'asc' },
@@ -215,6 +220,7 @@ export class StageRepository {
     try {
       const where: Prisma.StageWhereInput = {
         organizationId,
+        project: notDeleted,
         ...(options?.projectId && { projectId: options.projectId }),
         ...(options?.status && { status: options.status }),
       };
@@ -267,6 +273,7 @@ export class StageRepository {
             id: { in: data.partyIds },
             organizationId,
             type: 'SUBCONTRACTOR',
+            ...notDeleted,
           },
         });
         if (validParties !== data.partyIds.length) {
@@ -347,10 +354,10 @@ export class StageRepository {
     }
   }
 
-  // Helper to calculate total expenses (rate * quantity) for a stage
+  // Helper to calculate total expenses (rate * quantity) for a stage, less rejected ones
   private async calculateExpensesTotal(organizationId: string, stageId: string): Promise<number> {
     const expenses = await prisma.expense.findMany({
-      where: { organizationId, stageId },
+      where: { organizationId, stageId, status: { not: 'REJECTED' }, ...notDeleted },
       select: { rate: true, quantity: true },
     });
 
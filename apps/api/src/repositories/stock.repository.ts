@@ -0,0 +1,374 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { Prisma, StockMovementType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface CreateStockMovementData {
+  projectId: string;
+  materialTypeItemId: string;
+  unit: string;
+  type: StockMovementType;
+  // Signed: positive adds to stock at the site, negative takes from it
+  quantity: number;
+  movementDate: Date;
+  expenseId?: string | null;
+  goodsReceiptLineId?: string | null;
+  stageId?: string | null;
+  taskId?: string | null;
+  transferId?: string | null;
+  transferProjectId?: string | null;
+  // Material issued to a subcontractor's work order, recovered at recoveryRate a unit
+  workOrderId?: string | null;
+  recoveryRate?: number | null;
+  createdById?: string | null;
+  notes?: string | null;
+}
+
+export interface StockMovementFilter {
+  materialTypeItemId?: string;
+  unit?: string;
+}
+
+const movementInclude = {
+  materialType: { select: { id: true, name: true } },
+  expense: { select: { id: true, description: true, expenseDate: true } },
+  goodsReceiptLine: {
+    select: {
+      id: true,
+      receipt: {
+        select: {
+          id: true,
+          receivedDate: true,
+          purchaseOrder: { select: { id: true, orderNumber: true } },
+        },
+      },
+    },
+  },
+  stage: { select: { id: true, name: true } },
+  task: { select: { id: true, name: true } },
+  transferProject: { select: { id: true, name: true } },
+  workOrder: { select: { id: true, orderNumber: true } },
+  createdBy: { select: { id: true, user: { select: { name: true } } } },
+} as const;
+
+export type StockMovementWithDetails = Prisma.StockMovementGetPayload<{
+  include: typeof movementInclude;
+}>;
+
+// What has already been taken into stock from a source
+const stockReceiptsSelect = {
+  where: { type: 'RECEIPT' },
+  select: { quantity: true },
+} as const;
+
+function movementData(organizationId: string, data: CreateStockMovementData) {
+  return {
+    organizationId,
+    projectId: data.projectId,
+    materialTypeItemId: data.materialTypeItemId,
+    unit: data.unit,
+    type: data.type,
+    quantity: new Decimal(data.quantity),
+    movementDate: data.movementDate,
+    expenseId: data.expenseId ?? null,
+    goodsReceiptLineId: data.goodsReceiptLineId ?? null,
+    stageId: data.stageId ?? null,
+    taskId: data.taskId ?? null,
+    transferId: data.transferId ?? null,
+    transferProjectId: data.transferProjectId ?? null,
+    workOrderId: data.workOrderId ?? null,
+    recoveryRate: data.recoveryRate != null ? new Decimal(data.recoveryRate) : null,
+    createdById: data.createdById ?? null,
+    notes: data.notes ?? null,
+  };
+}
+
+/**
+ * Stock Repository - the material stock ledger of each project site, and the
+ * bills and goods received notes material is taken into stock from
+ */
+export class StockRepository {
+  /**
+   * A project's movements, oldest first
+   */
+  async findByProject(
+    organizationId: string,
+    projectId: string,
+    filter: StockMovementFilter = {}
+  ): Promise<StockMovementWithDetails[]> {
+    try {
+      return await prisma.stockMovement.findMany({
+        where: {
+          organizationId,
+          projectId,
+          ...(filter.materialTypeItemId && { materialTypeItemId: filter.materialTypeItemId }),
+          ...(filter.unit && { unit: filter.unit }),
+        },
+        include: movementInclude,
+        orderBy: [{ movementDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Quantity of a material in stock at a project site
+   */
+  async getBalance(
+    organizationId: string,
+    projectId: string,
+    materialTypeItemId: string,
+    unit: string
+  ): Promise<number> {
+    try {
+      const result = await prisma.stockMovement.aggregate({
+        where: { organizationId, projectId, materialTypeItemId, unit },
+        _sum: { quantity: true },
+      });
+      return result._sum.quantity?.toNumber() ?? 0;
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async create(
+    organizationId: string,
+    data: CreateStockMovementData
+  ): Promise<StockMovementWithDetails> {
+    try {
+      return await prisma.stockMovement.create({
+        data: movementData(organizationId, data),
+        include: movementInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Record both sides of a transfer together
+   */
+  async createTransfer(
+    organizationId: string,
+    transferOut: CreateStockMovementData,
+    transferIn: CreateStockMovementData
+  ): Promise<[StockMovementWithDetails, StockMovementWithDetails]> {
+    try {
+      return await prisma.$transaction([
+        prisma.stockMovement.create({
+          data: movementData(organizationId, transferOut),
+          include: movementInclude,
+        }),
+        prisma.stockMovement.create({
+          data: movementData(organizationId, transferIn),
+          include: movementInclude,
+        }),
+      ]);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Receipt Sources
+  // ============================================
+
+  /**
+   * A project's material bills that are not matched to a purchase order; billed
+   * goods on an order come into stock through its goods received notes
+   */
+  async findMaterialBills(organizationId: string, projectId: string) {
+    try {
+      return await prisma.expense.findMany({
+        where: {
+          organizationId,
+          projectId,
+          ...notDeleted,
+          status: { not: 'REJECTED' },
+          materialTypeItemId: { not: null },
+          purchaseOrderLineId: null,
+        },
+        select: {
+          id: true,
+          description: true,
+          expenseDate: true,
+          quantity: true,
+          materialType: { select: { id: true, name: true } },
+          party: { select: { id: true, name: true } },
+          stockReceipts: stockReceiptsSelect,
+        },
+        orderBy: { expenseDate: 'asc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Lines of the goods received notes of a project's purchase orders
+   */
+  async findReceiptLines(organizationId: string, projectId: string) {
+    try {
+      return await prisma.goodsReceiptLine.findMany({
+        where: { receipt: { organizationId, purchaseOrder: { projectId } } },
+        select: {
+          id: true,
+          quantity: true,
+          purchaseOrderLine: {
+            select: {
+              description: true,
+              unit: true,
+              boqItem: { select: { materialTypeItemId: true } },
+            },
+          },
+          receipt: {
+            select: {
+              receivedDate: true,
+              purchaseOrder: {
+                select: { id: true, orderNumber: true, vendor: { select: { name: true } } },
+              },
+            },
+          },
+          stockReceipts: stockReceiptsSelect,
+        },
+        orderBy: { receipt: { receivedDate: 'asc' } },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findExpense(organizationId: string, id: string) {
+    try {
+      return await prisma.expense.findFirst({
+        where: { id, organizationId, ...notDeleted },
+        select: {
+          id: true,
+          projectId: true,
+          status: true,
+          quantity: true,
+          materialTypeItemId: true,
+          purchaseOrderLineId: true,
+          stockReceipts: stockReceiptsSelect,
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findReceiptLine(organizationId: string, id: string) {
+    try {
+      return await prisma.goodsReceiptLine.findFirst({
+        where: { id, receipt: { organizationId } },
+        select: {
+          id: true,
+          quantity: true,
+          receipt: { select: { purchaseOrder: { select: { projectId: true } } } },
+          stockReceipts: stockReceiptsSelect,
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Variance
+  // ============================================
+
+  /**
+   * BOQ material items planned against a material type, optionally of one stage
+   */
+  async findPlannedMaterials(organizationId: string, projectId: string, stageId?: string) {
+    try {
+      return await prisma.bOQItem.findMany({
+        where: {
+          organizationId,
+          projectId,
+          materialTypeItemId: { not: null },
+          ...(stageId && { stageId }),
+        },
+        select: {
+          materialTypeItemId: true,
+          unit: true,
+          quantity: true,
+          materialType: { select: { id: true, name: true } },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Material issued from a project's stock, optionally to one stage
+   */
+  async findIssues(organizationId: string, projectId: string, stageId?: string) {
+    try {
+      return await prisma.stockMovement.findMany({
+        where: { organizationId, projectId, type: 'ISSUE', ...(stageId && { stageId }) },
+        select: {
+          materialTypeItemId: true,
+          unit: true,
+          quantity: true,
+          materialType: { select: { id: true, name: true } },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  async findProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { id: true, name: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findMaterialType(organizationId: string, id: string) {
+    try {
+      return await prisma.categoryItem.findFirst({
+        where: { id, organizationId, categoryType: { key: 'material_type' } },
+        select: { id: true, name: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findStage(projectId: string, stageId: string) {
+    try {
+      return await prisma.stage.findFirst({
+        where: { id: stageId, projectId },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findTask(projectId: string, taskId: string) {
+    try {
+      return await prisma.task.findFirst({
+        where: { id: taskId, stage: { projectId } },
+        select: { id: true, stageId: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const stockRepository = new StockRepository();
@@ -0,0 +1,514 @@
+import { inTransaction, prisma } from '../lib/prisma';
+import { DatabaseError, handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import type { Prisma, RABillStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface WorkOrderLineData {
+  boqItemId: string;
+  quantity: number;
+  rate: number;
+}
+
+export interface CreateWorkOrderData {
+  projectId: string;
+  subcontractorId: string;
+  subWorkTypeItemId?: string | null;
+  createdById?: string | null;
+  orderDate: Date;
+  retentionPercent: number;
+  advanceRecoveryPercent: number;
+  notes?: string | null;
+  lines: WorkOrderLineData[];
+}
+
+export interface UpdateWorkOrderData {
+  subWorkTypeItemId?: string | null;
+  orderDate?: Date;
+  retentionPercent?: number;
+  advanceRecoveryPercent?: number;
+  notes?: string | null;
+  lines?: WorkOrderLineData[];
+}
+
+export interface RABillLineData {
+  workOrderLineId: string;
+  cumulativeQuantity: number;
+  previousQuantity: number;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface CreateRABillData {
+  workOrderId: string;
+  billDate: Date;
+  createdById?: string | null;
+  notes?: string | null;
+  grossAmount: number;
+  retentionAmount: number;
+  advanceRecovery: number;
+  materialDeduction: number;
+  netAmount: number;
+  lines: RABillLineData[];
+  // Material issues to the work order that this bill deducts
+  materialIssueIds: string[];
+}
+
+const memberName = { select: { id: true, user: { select: { name: true } } } } as const;
+
+const billSummarySelect = {
+  id: true,
+  billNumber: true,
+  billDate: true,
+  status: true,
+  grossAmount: true,
+  retentionAmount: true,
+  advanceRecovery: true,
+  materialDeduction: true,
+  netAmount: true,
+} as const;
+
+const workOrderInclude = {
+  subcontractor: { select: { id: true, name: true, phone: true } },
+  subWorkType: { select: { id: true, name: true } },
+  project: { select: { id: true, name: true, status: true } },
+  createdBy: memberName,
+  lines: {
+    orderBy: { sortOrder: 'asc' },
+    include: {
+      boqItem: {
+        select: { id: true, code: true, description: true, unit: true, stageId: true },
+      },
+      // Measured and paid for on approved bills
+      billLines: { where: { raBill: { status: 'APPROVED' } }, select: { quantity: true } },
+    },
+  },
+  bills: { orderBy: { billNumber: 'desc' }, select: billSummarySelect },
+  retentionReleases: {
+    where: notDeleted,
+    select: { id: true, rate: true, quantity: true, status: true, expenseDate: true },
+  },
+} as const;
+
+const raBillInclude = {
+  workOrder: {
+    select: {
+      id: true,
+      orderNumber: true,
+      projectId: true,
+      subcontractorId: true,
+      subWorkTypeItemId: true,
+      retentionPercent: true,
+      advanceRecoveryPercent: true,
+      subcontractor: { select: { id: true, name: true } },
+    },
+  },
+  createdBy: memberName,
+  approvedBy: memberName,
+  lines: {
+    orderBy: { workOrderLine: { sortOrder: 'asc' } },
+    include: {
+      workOrderLine: {
+        select: {
+          id: true,
+          quantity: true,
+          boqItem: { select: { id: true, code: true, description: true, unit: true } },
+        },
+      },
+    },
+  },
+  materialIssues: {
+    orderBy: { movementDate: 'asc' },
+    select: {
+      id: true,
+      unit: true,
+      quantity: true,
+      recoveryRate: true,
+      movementDate: true,
+      materialType: { select: { id: true, name: true } },
+    },
+  },
+  expenses: {
+    where: notDeleted,
+    select: {
+      id: true,
+      description: true,
+      rate: true,
+      quantity: true,
+      status: true,
+      approvalLevel: true,
+      rejectionReason: true,
+    },
+  },
+} as const;
+
+export type WorkOrderWithDetails = Prisma.WorkOrderGetPayload<{
+  include: typeof workOrderInclude;
+}>;
+
+export type RABillWithDetails = Prisma.RABillGetPayload<{ include: typeof raBillInclude }>;
+
+const decimal = (value: number) => new Decimal(value);
+
+function linesData(lines: WorkOrderLineData[]) {
+  return lines.map((line, index) => ({
+    sortOrder: index + 1,
+    boqItemId: line.boqItemId,
+    quantity: decimal(line.quantity),
+    rate: decimal(line.rate),
+    amount: decimal(Math.round(line.quantity * line.rate * 100) / 100),
+  }));
+}
+
+function totalAmount(lines: ReturnType<typeof linesData>) {
+  return lines.reduce((sum, line) => sum.plus(line.amount), new Decimal(0));
+}
+
+/**
+ * Subcontract Repository - work orders agreed with subcontractors, the RA bills
+ * raised against them, and what those bills deduct
+ */
+export class SubcontractRepository {
+  // ============================================
+  // Work Orders
+  // ============================================
+
+  async findByProject(organizationId: string, projectId: string): Promise<WorkOrderWithDetails[]> {
+    try {
+      return await prisma.workOrder.findMany({
+        where: { organizationId, projectId },
+        include: workOrderInclude,
+        orderBy: [{ orderDate: 'desc' }, { createdAt: 'desc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, id: string): Promise<WorkOrderWithDetails | null> {
+    try {
+      return await prisma.workOrder.findFirst({
+        where: { id, organizationId, project: notDeleted },
+        include: workOrderInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Agree a work order with the organization's next order number, taken in the
+   * same transaction so a failed order leaves no gap
+   */
+  async create(organizationId: string, data: CreateWorkOrderData): Promise<WorkOrderWithDetails> {
+    try {
+      const lines = linesData(data.lines);
+
+      return await prisma.$transaction(async (tx) => {
+        const organization = await tx.organization.update({
+          where: { id: organizationId },
+          data: { lastWorkOrderNumber: { increment: 1 } },
+          select: { lastWorkOrderNumber: true },
+        });
+
+        return tx.workOrder.create({
+          data: {
+            organizationId,
+            projectId: data.projectId,
+            subcontractorId: data.subcontractorId,
+            subWorkTypeItemId: data.subWorkTypeItemId ?? null,
+            createdById: data.createdById ?? null,
+            orderNumber: `WO-${String(organization.lastWorkOrderNumber).padStart(4, '0')}`,
+            orderDate: data.orderDate,
+            retentionPercent: decimal(data.retentionPercent),
+            advanceRecoveryPercent: decimal(data.advanceRecoveryPercent),
+            notes: data.notes ?? null,
+            totalAmount: totalAmount(lines),
+            lines: { create: lines },
+          },
+          include: workOrderInclude,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Change a work order nothing has been billed against; given lines replace
+   * the existing ones
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    data: UpdateWorkOrderData
+  ): Promise<WorkOrderWithDetails> {
+    try {
+      const { lines, retentionPercent, advanceRecoveryPercent, ...fields } = data;
+      const newLines = lines && linesData(lines);
+
+      return await prisma.$transaction(async (tx) => {
+        const result = await tx.workOrder.updateMany({
+          where: { id, organizationId, bills: { none: { status: { not: 'REJECTED' } } } },
+          data: {
+            ...fields,
+            ...(retentionPercent !== undefined && { retentionPercent: decimal(retentionPercent) }),
+            ...(advanceRecoveryPercent !== undefined && {
+              advanceRecoveryPercent: decimal(advanceRecoveryPercent),
+            }),
+            ...(newLines && { totalAmount: totalAmount(newLines) }),
+          },
+        });
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+
+        if (newLines) {
+          await tx.workOrderLine.deleteMany({ where: { workOrderId: id } });
+          await tx.workOrderLine.createMany({
+            data: newLines.map((line) => ({ ...line, workOrderId: id })),
+          });
+        }
+
+        return tx.workOrder.findUniqueOrThrow({ where: { id }, include: workOrderInclude });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Mark a work order's retention released; fails if it already was
+   */
+  async markRetentionReleased(organizationId: string, id: string): Promise<void> {
+    try {
+      const result = await prisma.workOrder.updateMany({
+        where: { id, organizationId, retentionReleasedAt: null },
+        data: { retentionReleasedAt: new Date() },
+      });
+      if (result.count === 0) {
+        throw new DatabaseError('Retention was already released', 'RETENTION_RELEASED', 400);
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // RA Bills
+  // ============================================
+
+  async findRABillById(organizationId: string, id: string): Promise<RABillWithDetails | null> {
+    try {
+      return await prisma.rABill.findFirst({
+        where: { id, organizationId, workOrder: { project: notDeleted } },
+        include: raBillInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Raise a bill with the work order's next bill number, and deduct the given
+   * material issues on it. Fails if any of them was deducted on another bill
+   * meanwhile.
+   */
+  async createRABill(organizationId: string, data: CreateRABillData): Promise<RABillWithDetails> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const last = await tx.rABill.aggregate({
+          where: { workOrderId: data.workOrderId },
+          _max: { billNumber: true },
+        });
+
+        const bill = await tx.rABill.create({
+          data: {
+            organizationId,
+            workOrderId: data.workOrderId,
+            billNumber: (last._max.billNumber ?? 0) + 1,
+            billDate: data.billDate,
+            createdById: data.createdById ?? null,
+            notes: data.notes ?? null,
+            grossAmount: decimal(data.grossAmount),
+            retentionAmount: decimal(data.retentionAmount),
+            advanceRecovery: decimal(data.advanceRecovery),
+            materialDeduction: decimal(data.materialDeduction),
+            netAmount: decimal(data.netAmount),
+            lines: {
+              create: data.lines.map((line) => ({
+                workOrderLineId: line.workOrderLineId,
+                cumulativeQuantity: decimal(line.cumulativeQuantity),
+                previousQuantity: decimal(line.previousQuantity),
+                quantity: decimal(line.quantity),
+                rate: decimal(line.rate),
+                amount: decimal(line.amount),
+              })),
+            },
+          },
+        });
+
+        if (data.materialIssueIds.length > 0) {
+          const deducted = await tx.stockMovement.updateMany({
+            where: { id: { in: data.materialIssueIds }, raBillId: null },
+            data: { raBillId: bill.id },
+          });
+          if (deducted.count !== data.materialIssueIds.length) {
+            throw new DatabaseError(
+              'Some of this material was deducted on another RA bill; try again',
+              'MATERIAL_DEDUCTED',
+              409
+            );
+          }
+        }
+
+        return tx.rABill.findUniqueOrThrow({ where: { id: bill.id }, include: raBillInclude });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Move a bill on from one of the given statuses; fails if it has moved since.
+   * A rejected bill gives back the material it deducted, for the next bill.
+   * Runs in the given transaction, if any.
+   */
+  async setRABillStatus(
+    organizationId: string,
+    id: string,
+    from: RABillStatus[],
+    data: Prisma.RABillUncheckedUpdateManyInput & { status: RABillStatus },
+    client?: Prisma.TransactionClient
+  ): Promise<RABillWithDetails> {
+    try {
+      return await inTransaction(client, async (tx) => {
+        const result = await tx.rABill.updateMany({
+          where: { id, organizationId, status: { in: from } },
+          data,
+        });
+        if (result.count === 0) {
+          throw handlePrismaError({ code: 'P2025' });
+        }
+
+        if (data.status === 'REJECTED') {
+          await tx.stockMovement.updateMany({ where: { raBillId: id }, data: { raBillId: null } });
+        }
+
+        return tx.rABill.findUniqueOrThrow({ where: { id }, include: raBillInclude });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Deductions
+  // ============================================
+
+  /**
+   * Material issued to a work order that no bill has deducted yet
+   */
+  async findUndeductedIssues(organizationId: string, workOrderId: string) {
+    try {
+      return await prisma.stockMovement.findMany({
+        where: { organizationId, workOrderId, type: 'ISSUE', raBillId: null },
+        select: { id: true, quantity: true, recoveryRate: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Advances paid to a subcontractor on a project, and how much of them bills
+   * that are approved or waiting for approval recover
+   */
+  async getAdvancePosition(organizationId: string, projectId: string, subcontractorId: string) {
+    try {
+      const [advances, recovered] = await Promise.all([
+        prisma.partyLedgerEntry.aggregate({
+          where: { organizationId, projectId, partyId: subcontractorId, type: 'ADVANCE' },
+          _sum: { amount: true },
+        }),
+        prisma.rABill.aggregate({
+          where: {
+            organizationId,
+            status: { not: 'REJECTED' },
+            workOrder: { projectId, subcontractorId },
+          },
+          _sum: { advanceRecovery: true },
+        }),
+      ]);
+
+      return {
+        advanced: advances._sum.amount?.toNumber() ?? 0,
+        recovered: recovered._sum.advanceRecovery?.toNumber() ?? 0,
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  async findProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: { id: true, status: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findSubcontractor(organizationId: string, partyId: string) {
+    try {
+      return await prisma.party.findFirst({
+        where: { id: partyId, organizationId, ...notDeleted },
+        select: { id: true, type: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findSubWorkType(organizationId: string, id: string) {
+    try {
+      return await prisma.categoryItem.findFirst({
+        where: { id, organizationId, categoryType: { key: 'sub_work_type' } },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async countProjectBoqItems(projectId: string, boqItemIds: string[]): Promise<number> {
+    try {
+      return await prisma.bOQItem.count({ where: { projectId, id: { in: boqItemIds } } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * The expense type RA bills and retention releases are posted under
+   */
+  async findSubWorkExpenseType(organizationId: string) {
+    try {
+      return await prisma.categoryItem.findFirst({
+        where: { organizationId, name: 'Sub Work', categoryType: { key: 'expense_type' } },
+        select: { id: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const subcontractRepository = new SubcontractRepository();
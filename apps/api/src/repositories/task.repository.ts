@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
 import type { Task, Prisma, TaskStatus } from '@prisma/client';
 
 export interface CreateTaskData {
@@ -89,6 +90,7 @@ export class TaskRepository {
             id: { in: data.partyIds },
             organizationId,
             type: { in: ['LABOUR', 'SUBCONTRACTOR'] },
+            ...notDeleted,
           },
         });
         if (validParties !== data.partyIds.length) {
@@ -210,6 +212,7 @@ export class TaskRepository {
             id: { in: data.partyIds },
             organizationId,
             type: { in: ['LABOUR', 'SUBCONTRACTOR'] },
+            ...notDeleted,
           },
         });
         if (validParties !== data.partyIds.length) {
@@ -0,0 +1,437 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted, notDeletedInProject } from '../lib/soft-delete';
+import type { Prisma, TaxInvoiceLineSource } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface TaxInvoiceAmounts {
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+}
+
+export interface CreateTaxInvoiceLineData extends TaxInvoiceAmounts {
+  source: TaxInvoiceLineSource;
+  boqItemId?: string | null;
+  stageId?: string | null;
+  description: string;
+  hsnSac: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  gstRate: number;
+}
+
+export interface CreateTaxInvoiceData extends TaxInvoiceAmounts {
+  projectId: string;
+  clientId: string;
+  createdById?: string | null;
+  financialYear: string;
+  invoiceDate: Date;
+  dueDate?: Date | null;
+  supplierGstin?: string | null;
+  supplierStateCode: string;
+  recipientGstin?: string | null;
+  placeOfSupply: string;
+  isInterState: boolean;
+  notes?: string | null;
+  lines: CreateTaxInvoiceLineData[];
+}
+
+export interface InvoiceAllocationEntry {
+  invoiceId: string;
+  paymentId: string;
+  amount: number;
+}
+
+export interface UpdateInvoiceSettingsData {
+  gstin?: string | null;
+  stateCode?: string | null;
+  billingAddress?: string | null;
+  invoicePrefix?: string;
+}
+
+// Allocations of receipts that are in the Trash no longer count towards an invoice
+const invoiceListInclude = {
+  client: { select: { id: true, name: true } },
+  allocations: {
+    where: { payment: notDeleted },
+    select: { paymentId: true, amount: true },
+  },
+} as const;
+
+const invoiceInclude = {
+  client: { select: { id: true, name: true, location: true, phone: true } },
+  project: { select: { id: true, name: true, location: true } },
+  createdBy: { select: { id: true, user: { select: { name: true } } } },
+  lines: { orderBy: { sortOrder: 'asc' } },
+  allocations: {
+    where: { payment: notDeleted },
+    include: {
+      payment: {
+        select: { id: true, amount: true, paymentDate: true, referenceNumber: true },
+      },
+    },
+  },
+} as const;
+
+export type TaxInvoiceListItem = Prisma.TaxInvoiceGetPayload<{
+  include: typeof invoiceListInclude;
+}>;
+
+export type TaxInvoiceWithDetails = Prisma.TaxInvoiceGetPayload<{
+  include: typeof invoiceInclude;
+}>;
+
+const receiptInclude = {
+  invoiceAllocations: { select: { invoiceId: true, amount: true } },
+} as const;
+
+export type InvoiceReceipt = Prisma.PaymentGetPayload<{ include: typeof receiptInclude }>;
+
+const decimal = (value: number) => new Decimal(value);
+
+function amountData(amounts: TaxInvoiceAmounts) {
+  return {
+    taxableAmount: decimal(amounts.taxableAmount),
+    cgstAmount: decimal(amounts.cgstAmount),
+    sgstAmount: decimal(amounts.sgstAmount),
+    igstAmount: decimal(amounts.igstAmount),
+    totalAmount: decimal(amounts.totalAmount),
+  };
+}
+
+/**
+ * Tax Invoice Repository - GST invoices raised to a project's client, their
+ * numbering series, and the allocation of client receipts against them
+ */
+export class TaxInvoiceRepository {
+  async findByProject(organizationId: string, projectId: string): Promise<TaxInvoiceListItem[]> {
+    try {
+      return await prisma.taxInvoice.findMany({
+        where: { organizationId, projectId },
+        include: invoiceListInclude,
+        orderBy: [{ invoiceDate: 'desc' }, { createdAt: 'desc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findById(organizationId: string, id: string): Promise<TaxInvoiceWithDetails | null> {
+    try {
+      return await prisma.taxInvoice.findFirst({
+        where: { id, organizationId, project: notDeleted },
+        include: invoiceInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Issue an invoice with the next number of the organization's series for its
+   * financial year. The number is taken in the same transaction, so a failed
+   * invoice leaves no gap.
+   */
+  async create(
+    organizationId: string,
+    invoicePrefix: string,
+    data: CreateTaxInvoiceData
+  ): Promise<TaxInvoiceWithDetails> {
+    try {
+      const { lines, ...invoice } = data;
+
+      return await prisma.$transaction(async (tx) => {
+        const series = await tx.taxInvoiceSeries.upsert({
+          where: {
+            organizationId_financialYear: { organizationId, financialYear: data.financialYear },
+          },
+          create: { organizationId, financialYear: data.financialYear, lastNumber: 1 },
+          update: { lastNumber: { increment: 1 } },
+        });
+
+        return tx.taxInvoice.create({
+          data: {
+            ...invoice,
+            ...amountData(invoice),
+            organizationId,
+            invoiceNumber: `${invoicePrefix}/${data.financialYear}/${String(series.lastNumber).padStart(4, '0')}`,
+            createdById: data.createdById ?? null,
+            dueDate: data.dueDate ?? null,
+            supplierGstin: data.supplierGstin ?? null,
+            recipientGstin: data.recipientGstin ?? null,
+            notes: data.notes ?? null,
+            lines: {
+              create: lines.map((line, index) => ({
+                ...line,
+                ...amountData(line),
+                sortOrder: index + 1,
+                boqItemId: line.boqItemId ?? null,
+                stageId: line.stageId ?? null,
+                quantity: decimal(line.quantity),
+                rate: decimal(line.rate),
+                gstRate: decimal(line.gstRate),
+              })),
+            },
+          },
+          include: invoiceInclude,
+        });
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Cancel an issued invoice. Its number stays used; what receipts covered on it
+   * is released.
+   */
+  async cancel(organizationId: string, id: string, reason: string): Promise<TaxInvoiceWithDetails> {
+    try {
+      const result = await prisma.taxInvoice.updateMany({
+        where: { id, organizationId, status: 'ISSUED' },
+        data: { status: 'CANCELLED', cancellationReason: reason, cancelledAt: new Date() },
+      });
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+
+      await prisma.invoiceAllocation.deleteMany({ where: { invoiceId: id } });
+
+      return await prisma.taxInvoice.findUniqueOrThrow({
+        where: { id },
+        include: invoiceInclude,
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Billable work
+  // ============================================
+
+  /**
+   * The project with its client's GST details
+   */
+  async findProject(organizationId: string, projectId: string) {
+    try {
+      return await prisma.project.findFirst({
+        where: { id: projectId, organizationId, ...notDeleted },
+        select: {
+          id: true,
+          name: true,
+          amount: true,
+          variationAmount: true,
+          client: {
+            select: {
+              id: true,
+              name: true,
+              location: true,
+              gstin: true,
+              stateCode: true,
+              deletedAt: true,
+            },
+          },
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * BOQ items of a project with the quantity already billed on issued invoices
+   */
+  async findBoqItems(organizationId: string, projectId: string) {
+    try {
+      const [items, billed] = await Promise.all([
+        prisma.bOQItem.findMany({
+          where: { organizationId, projectId },
+          select: {
+            id: true,
+            code: true,
+            description: true,
+            unit: true,
+            quantity: true,
+            rate: true,
+            section: { select: { name: true } },
+          },
+          orderBy: [{ section: { sortOrder: 'asc' } }, { createdAt: 'asc' }],
+        }),
+        prisma.taxInvoiceLine.groupBy({
+          by: ['boqItemId'],
+          where: {
+            boqItem: { projectId },
+            invoice: { organizationId, status: 'ISSUED' },
+          },
+          _sum: { quantity: true },
+        }),
+      ]);
+
+      const billedQuantity = new Map(
+        billed.map((group) => [group.boqItemId, group._sum.quantity?.toNumber() ?? 0])
+      );
+      return items.map((item) => ({ ...item, billedQuantity: billedQuantity.get(item.id) ?? 0 }));
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Stages of a project with their linked installments and whether an issued
+   * invoice already bills them
+   */
+  async findStages(organizationId: string, projectId: string) {
+    try {
+      return await prisma.stage.findMany({
+        where: { organizationId, projectId },
+        select: {
+          id: true,
+          name: true,
+          status: true,
+          endDate: true,
+          installments: { select: { amountType: true, percentage: true, amount: true } },
+          invoiceLines: {
+            where: { invoice: { status: 'ISSUED' } },
+            select: { invoice: { select: { id: true, invoiceNumber: true } } },
+          },
+        },
+        orderBy: { startDate: 'asc' },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Settings
+  // ============================================
+
+  async findSettings(organizationId: string) {
+    try {
+      return await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: {
+          name: true,
+          gstin: true,
+          stateCode: true,
+          billingAddress: true,
+          invoicePrefix: true,
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async updateSettings(organizationId: string, data: UpdateInvoiceSettingsData) {
+    try {
+      return await prisma.organization.update({
+        where: { id: organizationId },
+        data,
+        select: {
+          name: true,
+          gstin: true,
+          stateCode: true,
+          billingAddress: true,
+          invoicePrefix: true,
+        },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  // ============================================
+  // Allocations
+  // ============================================
+
+  /**
+   * Issued invoices of a project, oldest first, with what receipts already cover
+   */
+  async findOpenInvoices(organizationId: string, projectId: string) {
+    try {
+      return await prisma.taxInvoice.findMany({
+        where: { organizationId, projectId, status: 'ISSUED' },
+        include: invoiceListInclude,
+        orderBy: [{ invoiceDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Incoming payments of a project, oldest first, with the invoices they cover
+   */
+  async findReceipts(organizationId: string, projectId: string): Promise<InvoiceReceipt[]> {
+    try {
+      return await prisma.payment.findMany({
+        where: { organizationId, projectId, type: 'IN', ...notDeleted },
+        include: receiptInclude,
+        orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  async findPayment(organizationId: string, paymentId: string) {
+    try {
+      return await prisma.payment.findFirst({
+        where: { id: paymentId, organizationId, ...notDeletedInProject },
+        select: { id: true, projectId: true, type: true, amount: true },
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Replace every invoice a payment is allocated to
+   */
+  async replacePaymentAllocations(
+    paymentId: string,
+    entries: InvoiceAllocationEntry[]
+  ): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.invoiceAllocation.deleteMany({ where: { paymentId } }),
+        prisma.invoiceAllocation.createMany({
+          data: entries.map((entry) => ({ ...entry, amount: decimal(entry.amount) })),
+        }),
+      ]);
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Add to existing allocations, topping up a payment's share of an invoice if it
+   * already has one
+   */
+  async addAllocations(entries: InvoiceAllocationEntry[]): Promise<void> {
+    try {
+      await prisma.$transaction(
+        entries.map((entry) =>
+          prisma.invoiceAllocation.upsert({
+            where: {
+              invoiceId_paymentId: { invoiceId: entry.invoiceId, paymentId: entry.paymentId },
+            },
+            create: { ...entry, amount: decimal(entry.amount) },
+            update: { amount: { increment: decimal(entry.amount) } },
+          })
+        )
+      );
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const taxInvoiceRepository = new TaxInvoiceRepository();
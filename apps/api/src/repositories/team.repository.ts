@@ -2,21 +2,14 @@ import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
 import type { Prisma } from '@prisma/client';
 
-export interface CreateTeamMemberData {
-  organizationId: string;
-  name: string;
-  phone?: string;
-  email?: string;
-  location?: string;
-  roleId: string;
-}
-
 export interface UpdateTeamMemberData {
   name?: string;
   phone?: string;
   email?: string;
   location?: string;
   roleId?: string;
+  // Client party of a CLIENT-role member; null for every other role
+  partyId?: string | null;
 }
 
 export interface TeamMemberListOptions {
@@ -41,6 +34,7 @@ export interface TeamMemberWithRole {
       name: string;
       isSystemRole: boolean;
     };
+    party: { id: string; name: string } | null;
   };
 }
 
@@ -81,6 +75,7 @@ export class TeamRepository {
                 isSystemRole: true,
               },
             },
+            party: { select: { id: true, name: true } },
           },
           orderBy: { createdAt: 'desc' },
         }),
@@ -99,6 +94,7 @@ export class TeamRepository {
           id: m.id,
           roleId: m.roleId,
           role: m.role,
+          party: m.party,
         },
       }));
 
@@ -129,6 +125,7 @@ export class TeamRepository {
               isSystemRole: true,
             },
           },
+          party: { select: { id: true, name: true } },
         },
       });
 
@@ -145,87 +142,7 @@ export class TeamRepository {
           id: membership.id,
           roleId: membership.roleId,
           role: membership.role,
-        },
-      };
-    } catch (error) {
-      throw handlePrismaError(error);
-    }
-  }
-
-  /**
-   * Create a new team member
-   */
-  async create(data: CreateTeamMemberData): Promise<TeamMemberWithRole> {
-    try {
-      // Check if user already exists by phone or email
-      let user = null;
-      if (data.phone) {
-        user = await prisma.user.findUnique({ where: { phone: data.phone } });
-      }
-      if (!user && data.email) {
-        user = await prisma.user.findUnique({ where: { email: data.email } });
-      }
-
-      // Create user if doesn't exist
-      if (!user) {
-        user = await prisma.user.create({
-          data: {
-            name: data.name,
-            phone: data.phone,
-            email: data.email,
-            location: data.location,
-          },
-        });
-      }
-
-      // Check if user is already a member of this organization
-      const existingMembership = await prisma.organizationMember.findUnique({
-        where: {
-          organizationId_userId: {
-            organizationId: data.organizationId,
-            userId: user.id,
-          },
-        },
-      });
-
-      if (existingMembership) {
-        throw {
-          statusCode: 400,
-          message: 'User is already a member of this organization',
-          code: 'MEMBER_EXISTS',
-        };
-      }
-
-      // Create organization membership
-      const membership = await prisma.organizationMember.create({
-        data: {
-          organizationId: data.organizationId,
-          userId: user.id,
-          roleId: data.roleId,
-        },
-        include: {
-          user: true,
-          role: {
-            select: {
-              id: true,
-              name: true,
-              isSystemRole: true,
-            },
-          },
-        },
-      });
-
-      return {
-        id: membership.user.id,
-        name: membership.user.name,
-        phone: membership.user.phone,
-        email: membership.user.email,
-        location: membership.user.location,
-        createdAt: membership.user.createdAt,
-        membership: {
-          id: membership.id,
-          roleId: membership.roleId,
-          role: membership.role,
+          party: membership.party,
         },
       };
     } catch (error) {
@@ -253,8 +170,8 @@ export class TeamRepository {
         },
       });
 
-      // Update role if provided
-      if (data.roleId) {
+      // Update role and client party if provided
+      if (data.roleId || data.partyId !== undefined) {
         await prisma.organizationMember.update({
           where: {
             organizationId_userId: {
@@ -264,6 +181,7 @@ export class TeamRepository {
           },
           data: {
             roleId: data.roleId,
+            partyId: data.partyId,
           },
         });
       }
@@ -284,6 +202,7 @@ export class TeamRepository {
               isSystemRole: true,
             },
           },
+          party: { select: { id: true, name: true } },
         },
       });
 
@@ -302,6 +221,7 @@ export class TeamRepository {
           id: membership.id,
           roleId: membership.roleId,
           role: membership.role,
+          party: membership.party,
         },
       };
     } catch (error) {
@@ -0,0 +1,305 @@
+import { prisma } from '../lib/prisma';
+import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
+import { Prisma, type AuditEntityType } from '@prisma/client';
+
+/**
+ * Record types that go to the Trash instead of being deleted
+ */
+export type TrashEntityType = Extract<AuditEntityType, 'PROJECT' | 'PARTY' | 'EXPENSE' | 'PAYMENT'>;
+
+export interface TrashItem {
+  id: string;
+  entityType: TrashEntityType;
+  name: string;
+  projectName: string | null;
+  amount: number | null;
+  deletedAt: Date;
+  deletedBy: { id: string; user: { id: string; name: string } } | null;
+}
+
+// A soft-deleted row (the where clause guarantees deletedAt is set)
+export interface DeletedRecord {
+  id: string;
+  deletedAt: Date | null;
+}
+
+const inTrash = { deletedAt: { not: null } } as const;
+
+const deletedByInclude = {
+  deletedBy: { select: { id: true, user: { select: { id: true, name: true } } } },
+} as const;
+
+const TRASH_ENTITY_TYPES: TrashEntityType[] = ['PROJECT', 'PARTY', 'EXPENSE', 'PAYMENT'];
+
+// One soft-deleted row of a model: enough to order and page the Trash by
+interface TrashKey {
+  id: string;
+  entityType: TrashEntityType;
+  deletedAt: Date;
+}
+
+/**
+ * Keys of the model's rows in the Trash. Expenses and payments are only listed
+ * while their project is not in the Trash itself.
+ */
+function trashKeys(organizationId: string, entityType: TrashEntityType): Prisma.Sql {
+  switch (entityType) {
+    case 'PROJECT':
+      return Prisma.sql`
+        SELECT "id", 'PROJECT' AS "entityType", "deletedAt" FROM "projects"
+        WHERE "organizationId" = ${organizationId} AND "deletedAt" IS NOT NULL
+      `;
+    case 'PARTY':
+      return Prisma.sql`
+        SELECT "id", 'PARTY' AS "entityType", "deletedAt" FROM "parties"
+        WHERE "organizationId" = ${organizationId} AND "deletedAt" IS NOT NULL
+      `;
+    case 'EXPENSE':
+    case 'PAYMENT': {
+      const table = Prisma.raw(entityType === 'EXPENSE' ? '"expenses"' : '"payments"');
+      return Prisma.sql`
+        SELECT r."id", ${entityType}::text AS "entityType", r."deletedAt" FROM ${table} r
+        JOIN "projects" p ON p."id" = r."projectId"
+        WHERE r."organizationId" = ${organizationId} AND r."deletedAt" IS NOT NULL
+          AND p."deletedAt" IS NULL
+      `;
+    }
+  }
+}
+
+/**
+ * Trash Repository - soft-deleted projects, parties, expenses and payments.
+ * Expenses and payments of a project in the Trash are not listed on their own:
+ * they come back when the project is restored.
+ */
+export class TrashRepository {
+  /**
+   * One page of the Trash, most recently deleted first, and how many records it holds.
+   * The page is picked and counted in the database; only its rows are loaded.
+   */
+  async findAll(
+    organizationId: string,
+    options: { entityType?: TrashEntityType; skip: number; take: number }
+  ): Promise<{ items: TrashItem[]; total: number }> {
+    try {
+      const types = options.entityType ? [options.entityType] : TRASH_ENTITY_TYPES;
+
+      const [keys, counts] = await Promise.all([
+        prisma.$queryRaw<TrashKey[]>`
+          SELECT * FROM (${Prisma.join(
+            types.map((type) => trashKeys(organizationId, type)),
+            ' UNION ALL '
+          )}) t
+          ORDER BY t."deletedAt" DESC, t."id"
+          LIMIT ${options.take} OFFSET ${options.skip}
+        `,
+        Promise.all(types.map((type) => this.countInTrash(organizationId, type))),
+      ]);
+
+      const idsOf = (type: TrashEntityType) =>
+        keys.filter((key) => key.entityType === type).map((key) => key.id);
+      const items = new Map(
+        (await Promise.all(types.map((type) => this.findItems(organizationId, type, idsOf(type)))))
+          .flat()
+          .map((item) => [item.id, item])
+      );
+
+      return {
+        items: keys.flatMap((key) => items.get(key.id) ?? []),
+        total: counts.reduce((sum, count) => sum + count, 0),
+      };
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  private countInTrash(organizationId: string, entityType: TrashEntityType): Promise<number> {
+    const where = { organizationId, ...inTrash };
+
+    switch (entityType) {
+      case 'PROJECT':
+        return prisma.project.count({ where });
+      case 'PARTY':
+        return prisma.party.count({ where });
+      case 'EXPENSE':
+        return prisma.expense.count({ where: { ...where, project: notDeleted } });
+      case 'PAYMENT':
+        return prisma.payment.count({ where: { ...where, project: notDeleted } });
+    }
+  }
+
+  /**
+   * The given records of a model in the Trash, as listed
+   */
+  private async findItems(
+    organizationId: string,
+    entityType: TrashEntityType,
+    ids: string[]
+  ): Promise<TrashItem[]> {
+    if (ids.length === 0) return [];
+    const where = { id: { in: ids }, organizationId, ...inTrash };
+
+    switch (entityType) {
+      case 'PROJECT':
+        return (await prisma.project.findMany({ where, include: deletedByInclude })).map((p) => ({
+          id: p.id,
+          entityType,
+          name: p.name,
+          projectName: null,
+          amount: p.amount?.toNumber() ?? null,
+          deletedAt: p.deletedAt!,
+          deletedBy: p.deletedBy,
+        }));
+      case 'PARTY':
+        return (await prisma.party.findMany({ where, include: deletedByInclude })).map((p) => ({
+          id: p.id,
+          entityType,
+          name: p.name,
+          projectName: null,
+          amount: null,
+          deletedAt: p.deletedAt!,
+          deletedBy: p.deletedBy,
+        }));
+      case 'EXPENSE':
+        return (
+          await prisma.expense.findMany({
+            where,
+            include: {
+              ...deletedByInclude,
+              project: { select: { name: true } },
+              expenseType: { select: { name: true } },
+            },
+          })
+        ).map((e) => ({
+          id: e.id,
+          entityType,
+          name: e.description || e.expenseType.name,
+          projectName: e.project.name,
+          amount: e.rate.toNumber() * e.quantity.toNumber(),
+          deletedAt: e.deletedAt!,
+          deletedBy: e.deletedBy,
+        }));
+      case 'PAYMENT':
+        return (
+          await prisma.payment.findMany({
+            where,
+            include: {
+              ...deletedByInclude,
+              project: { select: { name: true } },
+              party: { select: { name: true } },
+            },
+          })
+        ).map((p) => ({
+          id: p.id,
+          entityType,
+          name:
+            p.referenceNumber || p.party?.name || (p.type === 'IN' ? 'Client payment' : 'Payment'),
+          projectName: p.project.name,
+          amount: p.amount.toNumber(),
+          deletedAt: p.deletedAt!,
+          deletedBy: p.deletedBy,
+        }));
+    }
+  }
+
+  /**
+   * Find a record in the Trash
+   */
+  async findById(
+    organizationId: string,
+    entityType: TrashEntityType,
+    id: string
+  ): Promise<DeletedRecord | null> {
+    try {
+      const where = { id, organizationId, ...inTrash };
+
+      switch (entityType) {
+        case 'PROJECT':
+          return await prisma.project.findFirst({ where });
+        case 'PARTY':
+          return await prisma.party.findFirst({ where });
+        case 'EXPENSE':
+          return await prisma.expense.findFirst({ where: { ...where, project: notDeleted } });
+        case 'PAYMENT':
+          return await prisma.payment.findFirst({ where: { ...where, project: notDeleted } });
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Take a record out of the Trash
+   */
+  async restore(organizationId: string, entityType: TrashEntityType, id: string): Promise<void> {
+    try {
+      const args = {
+        where: { id, organizationId, ...inTrash },
+        data: { deletedAt: null, deletedById: null },
+      };
+
+      const result = await (() => {
+        switch (entityType) {
+          case 'PROJECT':
+            return prisma.project.updateMany(args);
+          case 'PARTY':
+            return prisma.party.updateMany(args);
+          case 'EXPENSE':
+            return prisma.expense.updateMany(args);
+          case 'PAYMENT':
+            return prisma.payment.updateMany(args);
+        }
+      })();
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Permanently delete a record that is in the Trash.
+   * Purging a project removes its stages, expenses, payments and BOQ with it.
+   */
+  async purge(organizationId: string, entityType: TrashEntityType, id: string): Promise<void> {
+    try {
+      const where = { id, organizationId, ...inTrash };
+
+      const result = await (() => {
+        switch (entityType) {
+          case 'PROJECT':
+            return prisma.project.deleteMany({ where });
+          case 'PARTY':
+            return prisma.party.deleteMany({ where });
+          case 'EXPENSE':
+            return prisma.expense.deleteMany({ where });
+          case 'PAYMENT':
+            return prisma.payment.deleteMany({ where });
+        }
+      })();
+
+      if (result.count === 0) {
+        throw handlePrismaError({ code: 'P2025' });
+      }
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+
+  /**
+   * Count expenses still recorded against a party (deleted or not);
+   * a party cannot be purged while any remain.
+   */
+  async countPartyExpenses(organizationId: string, partyId: string): Promise<number> {
+    try {
+      return await prisma.expense.count({ where: { organizationId, partyId } });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
+  }
+}
+
+export const trashRepository = new TrashRepository();
@@ -1,5 +1,6 @@
 import { prisma } from '../lib/prisma';
 import { handlePrismaError } from '../lib/database-errors';
+import { notDeleted } from '../lib/soft-delete';
 import type { User, Prisma } from '@prisma/client';
 
 export interface CreateUserData {
@@ -147,7 +148,7 @@ export class UserRepository {
             include: {
               _count: {
                 select: {
-                  projects: true,
+                  projects: { where: notDeleted },
                   members: true,
                 },
               },
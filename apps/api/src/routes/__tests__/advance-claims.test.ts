@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Advance Claims API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let memberId: string;
+  let staffUserId: string;
+  let staffMemberId: string;
+
+  const findMemberId = async (userId: string) =>
+    (
+      await prisma.organizationMember.findFirstOrThrow({
+        where: { organizationId: ctx.organization.id, userId },
+      })
+    ).id;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    projectId = project.id;
+    memberId = await findMemberId(ctx.owner.id);
+
+    const staffRole = await testData.createRole(ctx.organization.id, 'Site Staff', [
+      'projects.view',
+      'advances.claim',
+    ]);
+    staffUserId = (await testData.createMemberWithRole(ctx.organization.id, staffRole.id)).id;
+    staffMemberId = await findMemberId(staffUserId);
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.advanceClaim.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.memberAdvance.deleteMany({ where: { organizationId: ctx.organization.id } });
+  });
+
+  const giveAdvance = (amount: number, member = memberId) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/member-advances',
+      headers: authHeaders(ctx.organization.id),
+      payload: {
+        projectId,
+        memberId: member,
+        amount,
+        purpose: 'Site expenses',
+        paymentMode: 'CASH',
+        advanceDate: new Date('2026-03-01').toISOString(),
+      },
+    });
+
+  const logClaim = async (amount: number, member = memberId) => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/advance-claims',
+      headers: authHeaders(ctx.organization.id),
+      payload: {
+        projectId,
+        memberId: member,
+        description: 'Cement bags',
+        amount,
+        expenseDate: new Date('2026-03-02').toISOString(),
+      },
+    });
+    expect(response.statusCode).toBe(201);
+    return response.json().data;
+  };
+
+  const settle = (claimId: string, payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: `/api/advance-claims/${claimId}/settle`,
+      headers: authHeaders(ctx.organization.id),
+      payload: { settledAt: new Date('2026-03-05').toISOString(), ...payload },
+    });
+
+  const getSummary = async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/member-advances/project/${projectId}/member/${memberId}/summary`,
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(response.statusCode).toBe(200);
+    return response.json().data;
+  };
+
+  describe('Settlement', () => {
+    it('should only count a claim against cash in hand once it is settled', async () => {
+      await giveAdvance(10000);
+      const claim = await logClaim(3000);
+
+      let summary = await getSummary();
+      expect(summary.pendingClaims).toBe(3000);
+      expect(summary.balance).toBe(10000);
+
+      const response = await settle(claim.id, { type: 'CARRIED_FORWARD' });
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.status).toBe('SETTLED');
+      expect(Number(response.json().data.settlement.balanceAfter)).toBe(7000);
+
+      summary = await getSummary();
+      expect(summary.expensesLogged).toBe(3000);
+      expect(summary.pendingClaims).toBe(0);
+      expect(summary.balance).toBe(7000);
+    });
+
+    it('should take back unused cash', async () => {
+      await giveAdvance(10000);
+      const claim = await logClaim(4000);
+
+      const response = await settle(claim.id, { type: 'RETURNED' });
+      expect(response.statusCode).toBe(200);
+      expect(Number(response.json().data.settlement.amount)).toBe(6000);
+
+      const summary = await getSummary();
+      expect(summary.cashReturned).toBe(6000);
+      expect(summary.balance).toBe(0);
+    });
+
+    it('should reimburse what the member spent beyond the advance', async () => {
+      await giveAdvance(2000);
+      const claim = await logClaim(2500);
+
+      const returned = await settle(claim.id, { type: 'RETURNED' });
+      expect(returned.statusCode).toBe(400);
+      expect(returned.json().error.code).toBe('INVALID_SETTLEMENT');
+
+      const response = await settle(claim.id, { type: 'REIMBURSED', paymentMode: 'ONLINE' });
+      expect(response.statusCode).toBe(200);
+      expect(Number(response.json().data.settlement.amount)).toBe(500);
+
+      const summary = await getSummary();
+      expect(summary.reimbursed).toBe(500);
+      expect(summary.balance).toBe(0);
+    });
+
+    it('should not change a settled claim', async () => {
+      await giveAdvance(1000);
+      const claim = await logClaim(500);
+      await settle(claim.id, { type: 'CARRIED_FORWARD' });
+
+      const updateResponse = await app.inject({
+        method: 'PUT',
+        url: `/api/advance-claims/${claim.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { amount: 800 },
+      });
+      expect(updateResponse.statusCode).toBe(400);
+      expect(updateResponse.json().error.code).toBe('CLAIM_NOT_PENDING');
+
+      const deleteResponse = await app.inject({
+        method: 'DELETE',
+        url: `/api/advance-claims/${claim.id}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      expect(deleteResponse.statusCode).toBe(400);
+    });
+
+    it('should keep rejected claims out of the balance', async () => {
+      await giveAdvance(1000);
+      const claim = await logClaim(400);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/advance-claims/${claim.id}/reject`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { reason: 'No bill attached' },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.rejectionReason).toBe('No bill attached');
+
+      const summary = await getSummary();
+      expect(summary.pendingClaims).toBe(0);
+      expect(summary.balance).toBe(1000);
+    });
+
+    it('should leave settled claims out of the project expenses', async () => {
+      const getTotalExpenses = async () => {
+        const response = await app.inject({
+          method: 'GET',
+          url: `/api/projects/${projectId}/stats`,
+          headers: authHeaders(ctx.organization.id),
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json().data.totalExpenses as number;
+      };
+
+      await giveAdvance(5000);
+      const before = await getTotalExpenses();
+      const claim = await logClaim(1200);
+      expect(await getTotalExpenses()).toBe(before);
+
+      await settle(claim.id, { type: 'CARRIED_FORWARD' });
+      expect(await getTotalExpenses()).toBe(before);
+    });
+  });
+
+  describe('GET /api/member-advances/project/:projectId/member/:memberId/statement', () => {
+    it('should return a running cash-in-hand balance', async () => {
+      await giveAdvance(5000);
+      const first = await logClaim(2000);
+      await settle(first.id, { type: 'CARRIED_FORWARD' });
+      const second = await logClaim(1000);
+      await settle(second.id, { type: 'RETURNED', amount: 1500 });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/member-advances/project/${projectId}/member/${memberId}/statement`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const entries = response.json().data;
+      expect(entries.map((entry: { type: string }) => entry.type)).toEqual([
+        'ADVANCE',
+        'CLAIM',
+        'CLAIM',
+        'RETURN',
+      ]);
+      expect(entries.map((entry: { balance: number }) => entry.balance)).toEqual([
+        5000, 3000, 2000, 500,
+      ]);
+
+      const settlements = await app.inject({
+        method: 'GET',
+        url: `/api/member-advances/project/${projectId}/member/${memberId}/settlements`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      expect(settlements.statusCode).toBe(200);
+      expect(settlements.json().data).toHaveLength(2);
+    });
+  });
+
+  describe('Claims by site staff', () => {
+    it('should let staff log and see only their own claims', async () => {
+      await logClaim(700);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/advance-claims',
+        headers: authHeaders(ctx.organization.id, staffUserId),
+        payload: {
+          projectId,
+          description: 'Diesel for pump',
+          amount: 300,
+          expenseDate: new Date().toISOString(),
+        },
+      });
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data.memberId).toBe(staffMemberId);
+
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: '/api/advance-claims',
+        headers: authHeaders(ctx.organization.id, staffUserId),
+      });
+      expect(listResponse.statusCode).toBe(200);
+      expect(listResponse.json().data.items).toHaveLength(1);
+    });
+
+    it('should not let staff log claims for others or settle them', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/advance-claims',
+        headers: authHeaders(ctx.organization.id, staffUserId),
+        payload: {
+          projectId,
+          memberId,
+          description: 'Diesel for pump',
+          amount: 300,
+          expenseDate: new Date().toISOString(),
+        },
+      });
+      expect(response.statusCode).toBe(403);
+
+      const claim = await logClaim(300, staffMemberId);
+      const settleResponse = await app.inject({
+        method: 'POST',
+        url: `/api/advance-claims/${claim.id}/settle`,
+        headers: authHeaders(ctx.organization.id, staffUserId),
+        payload: { type: 'CARRIED_FORWARD' },
+      });
+      expect(settleResponse.statusCode).toBe(403);
+    });
+  });
+});
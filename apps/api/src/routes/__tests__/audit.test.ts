@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import type { FastifyInstance } from 'fastify';
+import { prisma } from '../../lib/prisma';
+
+describe('Audit API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let partyId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    projectId = project.id;
+    const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+    partyId = party.id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  it('should record the history of an expense', async () => {
+    const headers = authHeaders(ctx.organization.id);
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers,
+      payload: {
+        projectId,
+        partyId,
+        expenseCategoryItemId: ctx.materialsCategory.id,
+        rate: 500,
+        quantity: 10,
+        expenseDate: new Date().toISOString(),
+      },
+    });
+    const expenseId = created.json().data.id;
+
+    await app.inject({
+      method: 'PUT',
+      url: `/api/expenses/${expenseId}`,
+      headers,
+      payload: { rate: 450 },
+    });
+    await app.inject({ method: 'DELETE', url: `/api/expenses/${expenseId}`, headers });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/audit?entityType=EXPENSE&entityId=${expenseId}`,
+      headers,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const entries = response.json().data.items;
+    expect(entries.map((e: { action: string }) => e.action)).toEqual([
+      'DELETE',
+      'UPDATE',
+      'CREATE',
+    ]);
+
+    const update = entries[1];
+    expect(update.before).toEqual({ rate: '500' });
+    expect(update.after).toEqual({ rate: '450' });
+    expect(update.actor.user.id).toBe(ctx.owner.id);
+  });
+
+  it('should record approval decisions and party payments', async () => {
+    const headers = authHeaders(ctx.organization.id);
+    const expense = await testData.createExpense(
+      ctx.organization.id,
+      projectId,
+      partyId,
+      ctx.materialsCategory.id,
+      { rate: 1000, quantity: 1 }
+    );
+
+    const approved = await app.inject({
+      method: 'POST',
+      url: `/api/expenses/${expense.id}/approve`,
+      headers,
+      payload: {},
+    });
+    expect(approved.statusCode).toBe(200);
+
+    const payment = await app.inject({
+      method: 'POST',
+      url: '/api/payments',
+      headers,
+      payload: {
+        projectId,
+        partyId,
+        type: 'OUT',
+        paymentMode: 'CASH',
+        amount: 400,
+        paymentDate: new Date().toISOString(),
+      },
+    });
+    const paymentId = payment.json().data.id;
+    await app.inject({ method: 'DELETE', url: `/api/payments/${paymentId}`, headers });
+
+    const decisions = await prisma.auditLog.findMany({
+      where: { entityType: 'EXPENSE', entityId: expense.id },
+    });
+    expect(decisions.map((entry) => entry.action)).toEqual(['UPDATE']);
+
+    const payments = await prisma.auditLog.findMany({
+      where: { entityType: 'PAYMENT', entityId: paymentId },
+      orderBy: { createdAt: 'asc' },
+    });
+    expect(payments.map((entry) => entry.action)).toEqual(['CREATE', 'DELETE']);
+  });
+
+  it('should record BOQ section changes', async () => {
+    const headers = authHeaders(ctx.organization.id);
+    const url = `/api/projects/${projectId}/boq-sections`;
+
+    const created = await app.inject({ method: 'POST', url, headers, payload: { name: 'Civil' } });
+    const sectionId = created.json().data.id;
+    await app.inject({
+      method: 'PUT',
+      url: `${url}/${sectionId}`,
+      headers,
+      payload: { name: 'Civil works' },
+    });
+    await app.inject({ method: 'DELETE', url: `${url}/${sectionId}`, headers });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/audit?entityType=BOQ_SECTION&entityId=${sectionId}`,
+      headers,
+    });
+
+    const entries = response.json().data.items;
+    expect(entries.map((e: { action: string }) => e.action)).toEqual([
+      'DELETE',
+      'UPDATE',
+      'CREATE',
+    ]);
+    expect(entries[1].before).toEqual({ name: 'Civil' });
+    expect(entries[1].after).toEqual({ name: 'Civil works' });
+  });
+
+  it('should record the sections and items an import creates', async () => {
+    const headers = authHeaders(ctx.organization.id);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/projects/${projectId}/boq/import/confirm`,
+      headers,
+      payload: {
+        items: [
+          { category: 'MATERIAL', description: 'Tiles', unit: 'sqm', quantity: 80, rate: 900 },
+          {
+            category: 'LABOUR',
+            description: 'Tiling',
+            unit: 'sqm',
+            quantity: 80,
+            rate: 150,
+            sectionName: 'Finishes',
+          },
+        ],
+      },
+    });
+    expect(response.statusCode).toBe(201);
+    expect(response.json().data.importedCount).toBe(2);
+
+    const items = await prisma.bOQItem.findMany({
+      where: { projectId, description: { in: ['Tiles', 'Tiling'] } },
+    });
+    const section = await prisma.bOQSection.findFirstOrThrow({
+      where: { projectId, name: 'Finishes' },
+    });
+    const entries = await prisma.auditLog.findMany({
+      where: { entityId: { in: [section.id, ...items.map((item) => item.id)] } },
+    });
+
+    expect(entries).toHaveLength(3);
+    expect(entries.every((entry) => entry.action === 'CREATE')).toBe(true);
+    expect(entries.find((entry) => entry.entityId === section.id)?.entityType).toBe('BOQ_SECTION');
+  });
+
+  it('should record expenses linked to and unlinked from a BOQ item', async () => {
+    const headers = authHeaders(ctx.organization.id);
+
+    const item = await app.inject({
+      method: 'POST',
+      url: `/api/projects/${projectId}/boq`,
+      headers,
+      payload: {
+        category: 'MATERIAL',
+        description: 'Cement',
+        unit: 'bag',
+        quantity: 50,
+        rate: 400,
+      },
+    });
+    const itemId = item.json().data.id;
+    const expense = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers,
+      payload: {
+        projectId,
+        partyId,
+        expenseCategoryItemId: ctx.materialsCategory.id,
+        rate: 400,
+        quantity: 50,
+        expenseDate: new Date().toISOString(),
+      },
+    });
+    const expenseId = expense.json().data.id;
+
+    const linked = await app.inject({
+      method: 'POST',
+      url: `/api/projects/${projectId}/boq/${itemId}/link-expense`,
+      headers,
+      payload: { expenseId },
+    });
+    expect(linked.statusCode).toBe(201);
+    const unlinked = await app.inject({
+      method: 'DELETE',
+      url: `/api/projects/${projectId}/boq/${itemId}/unlink-expense/${expenseId}`,
+      headers,
+    });
+    expect(unlinked.statusCode).toBe(204);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/audit?entityType=BOQ_EXPENSE_LINK&entityId=${linked.json().data.id}`,
+      headers,
+    });
+
+    const entries = response.json().data.items;
+    expect(entries.map((e: { action: string }) => e.action)).toEqual(['DELETE', 'CREATE']);
+    expect(entries[1].after).toMatchObject({ boqItemId: itemId, expenseId });
+  });
+
+  it('should not record an update that changes nothing', async () => {
+    const headers = authHeaders(ctx.organization.id);
+
+    await app.inject({
+      method: 'PUT',
+      url: `/api/parties/${partyId}`,
+      headers,
+      payload: {},
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/audit?entityType=PARTY&entityId=${partyId}`,
+      headers,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.items).toHaveLength(0);
+  });
+
+  it('should require audit.view', async () => {
+    const supervisor = await testData.createUser();
+    await testData.createOrganizationMember(ctx.organization.id, supervisor.id, 'SUPERVISOR');
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/audit',
+      headers: authHeaders(ctx.organization.id, supervisor.id),
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { jwtService } from '../../services/jwt.service';
+import { prisma } from '../../lib/prisma';
+import { MemoryRateLimitStore, setRateLimitStore } from '../../services/rate-limit';
+import { OTP_LIMITS } from '../../services/otp.service';
+import type { FastifyInstance } from 'fastify';
+
+describe('Organization context (JWT)', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let otherOrgId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const otherOrg = await testData.createOrganization('Other Org');
+    otherOrgId = otherOrg.id;
+    await testData.createOrganizationOwner(otherOrgId);
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await cleanup.organization(otherOrgId);
+    await app.close();
+  });
+
+  it('should reject requests without an access token', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/projects',
+      headers: { 'x-organization-id': ctx.organization.id },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should ignore client-sent user and role headers', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/projects',
+      headers: {
+        'x-organization-id': ctx.organization.id,
+        'x-user-id': ctx.owner.id,
+        'x-user-role': 'ADMIN',
+      },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should reject an organization the caller does not belong to', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/projects',
+      headers: {
+        ...authHeaders(ctx.organization.id),
+        'x-organization-id': otherOrgId,
+      },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error.code).toBe('NOT_ORGANIZATION_MEMBER');
+  });
+
+  describe('POST /api/auth/switch-organization', () => {
+    it('should reject switching to an organization the user is not a member of', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/auth/switch-organization',
+        headers: authHeaders(ctx.organization.id),
+        payload: { organizationId: otherOrgId },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should issue a token scoped to another organization the user belongs to', async () => {
+      await testData.createOrganizationMember(otherOrgId, ctx.owner.id, 'ACCOUNTANT');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/auth/switch-organization',
+        headers: authHeaders(ctx.organization.id),
+        payload: { organizationId: otherOrgId },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data.organization.id).toBe(otherOrgId);
+      expect(body.data.role).toBe('ACCOUNTANT');
+
+      const projects = await app.inject({
+        method: 'GET',
+        url: '/api/projects',
+        headers: { authorization: `Bearer ${body.data.accessToken}` },
+      });
+
+      expect(projects.statusCode).toBe(200);
+    });
+  });
+});
+
+describe('Sessions and refresh tokens', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+
+  const login = () =>
+    jwtService.generateTokens(ctx.owner.id, ctx.owner.phone ?? '', {
+      organizationId: ctx.organization.id,
+      client: { userAgent: 'vitest', ipAddress: '127.0.0.1' },
+    });
+
+  const refresh = (refreshToken: string) =>
+    app.inject({ method: 'POST', url: '/api/auth/refresh', payload: { refreshToken } });
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await prisma.authSession.deleteMany({ where: { userId: ctx.owner.id } });
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  it('should rotate the refresh token', async () => {
+    const tokens = await login();
+
+    const response = await refresh(tokens.refreshToken);
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.data.refreshToken).not.toBe(tokens.refreshToken);
+
+    const projects = await app.inject({
+      method: 'GET',
+      url: '/api/projects',
+      headers: { authorization: `Bearer ${body.data.accessToken}` },
+    });
+    expect(projects.statusCode).toBe(200);
+  });
+
+  it('should keep a session in use alive past its first week', async () => {
+    const tokens = await login();
+    // Signed in six days ago
+    const nearlyExpired = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    await prisma.authSession.update({
+      where: { id: tokens.sessionId },
+      data: { expiresAt: nearlyExpired },
+    });
+
+    const response = await refresh(tokens.refreshToken);
+
+    expect(response.statusCode).toBe(200);
+    const session = await prisma.authSession.findUniqueOrThrow({ where: { id: tokens.sessionId } });
+    const token = await prisma.refreshToken.findFirstOrThrow({
+      where: { sessionId: tokens.sessionId, usedAt: null },
+    });
+    expect(session.expiresAt.getTime()).toBeGreaterThan(nearlyExpired.getTime());
+    expect(session.expiresAt).toEqual(token.expiresAt);
+  });
+
+  it('should revoke the session when a rotated token is reused', async () => {
+    const tokens = await login();
+    const rotated = (await refresh(tokens.refreshToken)).json().data;
+
+    const reuse = await refresh(tokens.refreshToken);
+    expect(reuse.statusCode).toBe(401);
+    expect(reuse.json().error.code).toBe('REFRESH_TOKEN_REUSED');
+
+    // The legitimate holder's newer token is revoked along with the session
+    const next = await refresh(rotated.refreshToken);
+    expect(next.statusCode).toBe(401);
+
+    const me = await app.inject({
+      method: 'GET',
+      url: '/api/auth/me',
+      headers: { authorization: `Bearer ${rotated.accessToken}` },
+    });
+    expect(me.statusCode).toBe(401);
+  });
+
+  it('should list sessions and revoke one device', async () => {
+    const current = await login();
+    const other = await login();
+    const headers = { authorization: `Bearer ${current.accessToken}` };
+
+    const list = await app.inject({ method: 'GET', url: '/api/auth/sessions', headers });
+    expect(list.statusCode).toBe(200);
+    const sessions = list.json().data as Array<{
+      id: string;
+      isCurrent: boolean;
+      userAgent: string;
+    }>;
+    expect(sessions.find((s) => s.id === current.sessionId)?.isCurrent).toBe(true);
+    expect(sessions.find((s) => s.id === other.sessionId)?.userAgent).toBe('vitest');
+
+    const revoke = await app.inject({
+      method: 'DELETE',
+      url: `/api/auth/sessions/${other.sessionId}`,
+      headers,
+    });
+    expect(revoke.statusCode).toBe(200);
+    expect((await refresh(other.refreshToken)).statusCode).toBe(401);
+  });
+
+  it('should log out everywhere except the current device when asked', async () => {
+    const current = await login();
+    const other = await login();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/auth/sessions/revoke-all',
+      headers: { authorization: `Bearer ${current.accessToken}` },
+      payload: { keepCurrent: true },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect((await refresh(other.refreshToken)).statusCode).toBe(401);
+    expect((await refresh(current.refreshToken)).statusCode).toBe(200);
+  });
+});
+
+describe('OTP abuse protection', () => {
+  let app: FastifyInstance;
+  const store = new MemoryRateLimitStore();
+  const phone = `9${Date.now().toString().slice(-9)}`;
+  const normalizedPhone = `+91${phone}`;
+
+  const sendOtp = (remoteAddress = '10.0.0.1') =>
+    app.inject({
+      method: 'POST',
+      url: '/api/auth/send-otp',
+      payload: { phone },
+      remoteAddress,
+    });
+
+  const verifyOtp = (code: string) =>
+    app.inject({ method: 'POST', url: '/api/auth/verify-otp', payload: { phone, code } });
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    setRateLimitStore(store);
+  });
+
+  beforeEach(() => {
+    store.clear();
+  });
+
+  afterAll(async () => {
+    await prisma.otpVerification.deleteMany({ where: { phone: normalizedPhone } });
+    await app.close();
+  });
+
+  it('should return the resend cooldown and reject a resend inside it', async () => {
+    const first = await sendOtp();
+    expect(first.statusCode).toBe(200);
+    expect(first.json().data.resendCooldownSeconds).toBe(OTP_LIMITS.resendCooldownSeconds);
+
+    const second = await sendOtp();
+    expect(second.statusCode).toBe(429);
+    expect(second.json().error.code).toBe('OTP_COOLDOWN');
+    expect(second.json().error.details.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  it('should send only one OTP for concurrent requests', async () => {
+    const responses = await Promise.all([sendOtp(), sendOtp(), sendOtp()]);
+
+    const statuses = responses.map((response) => response.statusCode).sort();
+    expect(statuses).toEqual([200, 429, 429]);
+  });
+
+  it('should not charge the phone when the network is over its limit', async () => {
+    await store.set('otp:send:ip:10.0.3.1', {
+      count: OTP_LIMITS.ipSendLimit,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const response = await sendOtp('10.0.3.1');
+    expect(response.statusCode).toBe(429);
+    expect(response.json().error.code).toBe('OTP_RATE_LIMITED');
+    expect(await store.get(`otp:send:phone:${normalizedPhone}`)).toBeNull();
+
+    // The cooldown is released, so another network can send straight away
+    expect((await sendOtp('10.0.3.2')).statusCode).toBe(200);
+  });
+
+  it('should limit OTP requests per phone number', async () => {
+    for (let i = 0; i < OTP_LIMITS.phoneSendLimit; i++) {
+      await store.delete(`otp:cooldown:${normalizedPhone}`);
+      expect((await sendOtp(`10.0.1.${i}`)).statusCode).toBe(200);
+    }
+
+    await store.delete(`otp:cooldown:${normalizedPhone}`);
+    const response = await sendOtp('10.0.2.1');
+    expect(response.statusCode).toBe(429);
+    expect(response.json().error.code).toBe('OTP_RATE_LIMITED');
+  });
+
+  it('should not give concurrent guesses more than the allowed attempts', async () => {
+    expect((await sendOtp()).statusCode).toBe(200);
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () => verifyOtp('000000')));
+
+    const codes = responses.map((response) => response.json().error.code);
+    expect(codes.filter((code) => code === 'OTP_ATTEMPTS_EXHAUSTED').length).toBeGreaterThan(0);
+    const otp = await prisma.otpVerification.findFirst({
+      where: { phone: normalizedPhone, verified: false },
+      orderBy: { createdAt: 'desc' },
+    });
+    expect(otp?.attempts).toBe(3);
+  });
+
+  it('should lock the number after repeated failed OTPs', async () => {
+    let response = await sendOtp();
+
+    for (let otp = 0; otp < OTP_LIMITS.lockoutThreshold; otp++) {
+      await store.delete(`otp:cooldown:${normalizedPhone}`);
+      expect((await sendOtp()).statusCode).toBe(200);
+      for (let attempt = 0; attempt < 3; attempt++) {
+        response = await verifyOtp('000000');
+      }
+    }
+
+    expect(response.statusCode).toBe(429);
+    expect(response.json().error.code).toBe('OTP_LOCKED');
+
+    const send = await sendOtp();
+    expect(send.statusCode).toBe(429);
+    expect(send.json().error.code).toBe('OTP_LOCKED');
+  });
+});
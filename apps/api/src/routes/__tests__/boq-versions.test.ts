@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('BOQ Versions API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let civilId: string;
+  let excavationId: string;
+  let brickworkId: string;
+  let paintingId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    projectId = (await testData.createProject(ctx.organization.id, ctx.residentialType.id)).id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.bOQVersion.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.bOQItem.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.bOQSection.deleteMany({ where: { organizationId: ctx.organization.id } });
+
+    civilId = (
+      await prisma.bOQSection.create({
+        data: { organizationId: ctx.organization.id, projectId, name: 'Civil', sortOrder: 1 },
+      })
+    ).id;
+    const boqItem = (
+      description: string,
+      category: 'MATERIAL' | 'LABOUR',
+      quantity: number,
+      rate: number
+    ) =>
+      prisma.bOQItem.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          sectionId: civilId,
+          category,
+          description,
+          unit: 'sqm',
+          quantity,
+          rate,
+        },
+      });
+    excavationId = (await boqItem('Excavation', 'LABOUR', 100, 500)).id;
+    brickworkId = (await boqItem('Brickwork', 'MATERIAL', 200, 1000)).id;
+    paintingId = (await boqItem('Painting', 'LABOUR', 300, 100)).id;
+  });
+
+  const url = `/api/projects`;
+
+  const post = (path: string, payload?: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: `${url}/${projectId}/boq-versions${path}`,
+      headers: authHeaders(ctx.organization.id),
+      payload,
+    });
+
+  const get = (path: string) =>
+    app.inject({
+      method: 'GET',
+      url: `${url}/${projectId}/boq-versions${path}`,
+      headers: authHeaders(ctx.organization.id),
+    });
+
+  // Brickwork re-measured, painting dropped and plastering added
+  const reviseBOQ = async () => {
+    await prisma.bOQItem.update({ where: { id: brickworkId }, data: { quantity: 250 } });
+    await prisma.bOQItem.delete({ where: { id: paintingId } });
+    await prisma.bOQItem.create({
+      data: {
+        organizationId: ctx.organization.id,
+        projectId,
+        category: 'LABOUR',
+        description: 'Plastering',
+        unit: 'sqm',
+        quantity: 400,
+        rate: 50,
+      },
+    });
+  };
+
+  describe('POST /api/projects/:projectId/boq-versions', () => {
+    it('copies the live BOQ and makes the first version the baseline', async () => {
+      const response = await post('', { name: 'Tender' });
+
+      expect(response.statusCode).toBe(201);
+      const tender = response.json().data;
+      expect(tender.isBaseline).toBe(true);
+      expect(tender.itemCount).toBe(3);
+      expect(Number(tender.totalAmount)).toBe(280000);
+
+      const contract = (await post('', { name: 'Contract' })).json().data;
+      expect(contract.isBaseline).toBe(false);
+
+      const version = (await get(`/${tender.id}`)).json().data;
+      expect(version.items.map((item: { description: string }) => item.description)).toEqual([
+        'Excavation',
+        'Brickwork',
+        'Painting',
+      ]);
+      expect(version.items[0].sectionName).toBe('Civil');
+    });
+
+    it('keeps version names unique within the project', async () => {
+      await post('', { name: 'Tender' });
+      const response = await post('', { name: 'tender' });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().error.code).toBe('DUPLICATE_VERSION_NAME');
+    });
+
+    it('moves the baseline to a newly marked version', async () => {
+      await post('', { name: 'Tender' });
+      const contract = (await post('', { name: 'Contract' })).json().data;
+
+      const response = await post(`/${contract.id}/baseline`);
+      expect(response.json().data.isBaseline).toBe(true);
+
+      const versions = (await get('')).json().data;
+      const baselines = versions.filter((version: { isBaseline: boolean }) => version.isBaseline);
+      expect(baselines.map((version: { id: string }) => version.id)).toEqual([contract.id]);
+
+      const remove = await app.inject({
+        method: 'DELETE',
+        url: `${url}/${projectId}/boq-versions/${contract.id}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      expect(remove.statusCode).toBe(400);
+      expect(remove.json().error.code).toBe('BASELINE_VERSION');
+    });
+  });
+
+  describe('GET /api/projects/:projectId/boq-versions/compare', () => {
+    it('lists what changed between the baseline and the live BOQ', async () => {
+      await post('', { name: 'Tender' });
+      await reviseBOQ();
+
+      const response = await get('/compare');
+      expect(response.statusCode).toBe(200);
+      const diff = response.json().data;
+
+      expect(diff.from.name).toBe('Tender');
+      expect(diff.to).toBeNull();
+      expect(diff.totals).toMatchObject({
+        fromAmount: 280000,
+        toAmount: 320000,
+        amountDelta: 40000,
+        added: 1,
+        removed: 1,
+        changed: 1,
+      });
+
+      const brickwork = diff.items.find(
+        (item: { boqItemId: string }) => item.boqItemId === brickworkId
+      );
+      expect(brickwork).toMatchObject({ change: 'CHANGED', quantityDelta: 50, amountDelta: 50000 });
+      expect(
+        diff.items.some((item: { boqItemId: string }) => item.boqItemId === excavationId)
+      ).toBe(false);
+
+      const civil = diff.sections.find((section: { name: string }) => section.name === 'Civil');
+      expect(civil).toMatchObject({ fromAmount: 280000, toAmount: 300000, removed: 1 });
+      const labour = diff.categories.find(
+        (category: { name: string }) => category.name === 'LABOUR'
+      );
+      expect(labour).toMatchObject({ fromAmount: 80000, toAmount: 70000, amountDelta: -10000 });
+    });
+
+    it('compares two saved versions', async () => {
+      const tender = (await post('', { name: 'Tender' })).json().data;
+      await reviseBOQ();
+      const revised = (await post('', { name: 'Revised 1' })).json().data;
+      await prisma.bOQItem.update({ where: { id: excavationId }, data: { rate: 600 } });
+
+      const diff = (await get(`/compare?from=${tender.id}&to=${revised.id}`)).json().data;
+      expect(diff.to.name).toBe('Revised 1');
+      expect(diff.totals.amountDelta).toBe(40000);
+      expect(diff.totals.changed).toBe(1);
+    });
+
+    it('needs a baseline when no version is given', async () => {
+      const response = await get('/compare');
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('NO_BASELINE');
+    });
+  });
+
+  describe('GET /api/projects/:projectId/boq-versions/:versionId/export', () => {
+    it('downloads a version as an Excel file', async () => {
+      const tender = (await post('', { name: 'Tender' })).json().data;
+      await reviseBOQ();
+
+      const response = await get(`/${tender.id}/export`);
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('spreadsheetml');
+      expect(response.headers['content-disposition']).toContain('-BOQ-Tender.xlsx');
+    });
+  });
+
+  describe('POST /api/projects/:projectId/boq/import/confirm', () => {
+    it('saves the imported BOQ as a named version', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `${url}/${projectId}/boq/import/confirm`,
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          versionName: 'Tender',
+          items: [
+            {
+              category: 'MATERIAL',
+              description: 'Steel',
+              unit: 'kg',
+              quantity: 1000,
+              rate: 70,
+              sectionName: 'Civil',
+            },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data.importedCount).toBe(1);
+      const version = response.json().data.version;
+      expect(version.itemCount).toBe(4);
+      expect(Number(version.totalAmount)).toBe(350000);
+    });
+  });
+});
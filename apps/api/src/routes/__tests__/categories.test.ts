@@ -11,6 +11,7 @@ describe('Categories API', () => {
     app = await createTestApp();
     const org = await testData.createOrganization('Categories Test Org');
     organizationId = org.id;
+    await testData.createOrganizationOwner(organizationId);
   });
 
   afterAll(async () => {
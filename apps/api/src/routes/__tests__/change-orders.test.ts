@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Change Orders API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let brickworkId: string;
+  let paintingId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    projectId = (
+      await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+        amount: 1000000,
+      })
+    ).id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.paymentInstallment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.changeOrder.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.bOQItem.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.project.update({ where: { id: projectId }, data: { variationAmount: 0 } });
+
+    const boqItem = (description: string, unit: string, quantity: number, rate: number) =>
+      prisma.bOQItem.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          category: 'MATERIAL',
+          description,
+          unit,
+          quantity,
+          rate,
+        },
+      });
+    await boqItem('Excavation', 'cum', 100, 500);
+    brickworkId = (await boqItem('Brickwork', 'sqm', 200, 1000)).id;
+    paintingId = (await boqItem('Painting', 'sqm', 300, 100)).id;
+  });
+
+  const post = (url: string, payload?: Record<string, unknown>) =>
+    app.inject({ method: 'POST', url, headers: authHeaders(ctx.organization.id), payload });
+
+  const get = (url: string) =>
+    app.inject({ method: 'GET', url, headers: authHeaders(ctx.organization.id) });
+
+  // Waterproofing added (+40,000), brickwork re-measured from 200 to 250 sqm
+  // (+50,000) and painting left out (-30,000)
+  const draftChangeOrder = async () =>
+    (
+      await post('/api/change-orders', {
+        projectId,
+        title: 'Terrace waterproofing and revised walls',
+        raisedDate: '2026-06-15T00:00:00.000Z',
+        costImpact: 45000,
+        lines: [
+          {
+            action: 'ADD',
+            category: 'SUB_WORK',
+            description: 'Terrace waterproofing',
+            unit: 'sqm',
+            quantity: 50,
+            rate: 800,
+          },
+          { action: 'MODIFY', boqItemId: brickworkId, quantity: 250, rate: 1000 },
+          { action: 'REMOVE', boqItemId: paintingId },
+        ],
+      })
+    ).json().data;
+
+  const decision = { decidedAt: '2026-06-20T00:00:00.000Z', clientReference: 'Letter 14' };
+
+  const submitAndApprove = async (id: string) => {
+    await post(`/api/change-orders/${id}/submit`);
+    return post(`/api/change-orders/${id}/approve`, decision);
+  };
+
+  describe('POST /api/change-orders', () => {
+    it('prices each line against the BOQ and leaves the BOQ as it is', async () => {
+      const order = await draftChangeOrder();
+
+      expect(order.number).toBe(1);
+      expect(order.status).toBe('DRAFT');
+      expect(Number(order.priceImpact)).toBe(60000);
+      expect(Number(order.costImpact)).toBe(45000);
+      expect(order.lines.map((line: { amount: string }) => Number(line.amount))).toEqual([
+        40000, 50000, -30000,
+      ]);
+      expect(Number(order.lines[1].previousQuantity)).toBe(200);
+      expect(order.lines[2].description).toBe('Painting');
+      expect(Number(order.lines[2].quantity)).toBe(0);
+
+      const brickwork = await prisma.bOQItem.findUniqueOrThrow({ where: { id: brickworkId } });
+      expect(Number(brickwork.quantity)).toBe(200);
+      expect((await draftChangeOrder()).number).toBe(2);
+    });
+
+    it('rejects a modified item with the same quantity and rate', async () => {
+      const response = await post('/api/change-orders', {
+        projectId,
+        title: 'No change',
+        raisedDate: '2026-06-15T00:00:00.000Z',
+        lines: [{ action: 'MODIFY', boqItemId: brickworkId, quantity: 200, rate: 1000 }],
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('NO_CHANGE');
+    });
+
+    it('changes an item once per change order', async () => {
+      const response = await post('/api/change-orders', {
+        projectId,
+        title: 'Twice',
+        raisedDate: '2026-06-15T00:00:00.000Z',
+        lines: [
+          { action: 'MODIFY', boqItemId: brickworkId, quantity: 220, rate: 1000 },
+          { action: 'REMOVE', boqItemId: brickworkId },
+        ],
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('DUPLICATE_BOQ_ITEM');
+    });
+  });
+
+  describe('Client approval', () => {
+    it('edits only drafts and approves only what was sent to the client', async () => {
+      const order = await draftChangeOrder();
+
+      const early = await post(`/api/change-orders/${order.id}/approve`, decision);
+      expect(early.statusCode).toBe(400);
+      expect(early.json().error.code).toBe('CHANGE_ORDER_STATUS');
+
+      expect((await post(`/api/change-orders/${order.id}/submit`)).json().data.status).toBe(
+        'SUBMITTED'
+      );
+      const edit = await app.inject({
+        method: 'PUT',
+        url: `/api/change-orders/${order.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { title: 'Late edit' },
+      });
+      expect(edit.statusCode).toBe(400);
+    });
+
+    it('applies an approved change order to the BOQ and contract value', async () => {
+      const order = await draftChangeOrder();
+      const response = await submitAndApprove(order.id);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.status).toBe('APPROVED');
+      expect(response.json().data.clientReference).toBe('Letter 14');
+
+      const brickwork = await prisma.bOQItem.findUniqueOrThrow({ where: { id: brickworkId } });
+      expect(Number(brickwork.quantity)).toBe(250);
+      expect(Number(brickwork.originalQuantity)).toBe(200);
+      const painting = await prisma.bOQItem.findUniqueOrThrow({ where: { id: paintingId } });
+      expect(Number(painting.quantity)).toBe(0);
+      const added = await prisma.bOQItem.findFirstOrThrow({ where: { changeOrderId: order.id } });
+      expect(added.description).toBe('Terrace waterproofing');
+
+      const summary = (await get(`/api/change-orders/project/${projectId}`)).json().data;
+      expect(summary.summary.originalAmount).toBe(1000000);
+      expect(summary.summary.contractAmount).toBe(1060000);
+      expect(summary.summary.approvedCost).toBe(45000);
+      expect(summary.revisedItems).toHaveLength(3);
+
+      const stats = (await get(`/api/projects/${projectId}/boq/stats`)).json().data;
+      expect(stats.originalQuoted).toBe(280000);
+      expect(stats.totalQuoted).toBe(340000);
+    });
+
+    it('bills percentage installments on the revised contract value', async () => {
+      await post('/api/installments', {
+        projectId,
+        name: 'Booking',
+        amountType: 'PERCENTAGE',
+        percentage: 10,
+      });
+      await submitAndApprove((await draftChangeOrder()).id);
+
+      const schedule = (await get(`/api/installments/project/${projectId}`)).json().data;
+      expect(schedule.summary.contractAmount).toBe(1060000);
+      expect(schedule.summary.originalContractAmount).toBe(1000000);
+      expect(schedule.installments[0].amount).toBe(106000);
+    });
+
+    it('refuses approval once an item has changed since it was priced', async () => {
+      const order = await draftChangeOrder();
+      await prisma.bOQItem.update({ where: { id: brickworkId }, data: { quantity: 210 } });
+
+      const response = await submitAndApprove(order.id);
+      expect(response.statusCode).toBe(409);
+      expect(response.json().error.code).toBe('BOQ_ITEM_CHANGED');
+
+      const project = await prisma.project.findUniqueOrThrow({ where: { id: projectId } });
+      expect(Number(project.variationAmount)).toBe(0);
+      expect((await get(`/api/change-orders/${order.id}`)).json().data.status).toBe('SUBMITTED');
+    });
+
+    it('leaves the BOQ alone when the client rejects it', async () => {
+      const order = await draftChangeOrder();
+      await post(`/api/change-orders/${order.id}/submit`);
+
+      const response = await post(`/api/change-orders/${order.id}/reject`, {
+        ...decision,
+        reason: 'Client will waterproof separately',
+      });
+      expect(response.json().data.status).toBe('REJECTED');
+
+      const painting = await prisma.bOQItem.findUniqueOrThrow({ where: { id: paintingId } });
+      expect(Number(painting.quantity)).toBe(300);
+      expect(await prisma.bOQItem.count({ where: { changeOrderId: order.id } })).toBe(0);
+    });
+  });
+});
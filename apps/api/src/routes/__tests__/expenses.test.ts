@@ -308,8 +308,60 @@ describe('Expenses API', () => {
     });
   });
 
+  describe('GST', () => {
+    const createBill = (payload: Record<string, unknown>) =>
+      app.inject({
+        method: 'POST',
+        url: '/api/expenses',
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          projectId,
+          partyId,
+          expenseTypeItemId: ctx.materialsCategory.id,
+          rate: 590,
+          quantity: 20,
+          expenseDate: new Date().toISOString(),
+          ...payload,
+        },
+      });
+
+    it('should work out the GST included in the bill from the rate', async () => {
+      const response = await createBill({ gstRate: 18, itcEligible: true });
+
+      expect(response.statusCode).toBe(201);
+      const body = response.json();
+      expect(parseFloat(body.data.gstRate)).toBe(18);
+      expect(parseFloat(body.data.gstAmount)).toBe(1800);
+      expect(body.data.itcEligible).toBe(true);
+    });
+
+    it('should keep the GST printed on the bill and rework it when the total changes', async () => {
+      const created = await createBill({ gstRate: 18, gstAmount: 1799.5 });
+      expect(parseFloat(created.json().data.gstAmount)).toBe(1799.5);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/expenses/${created.json().data.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { quantity: 10 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(parseFloat(response.json().data.gstAmount)).toBe(900);
+    });
+
+    it('should reject an unknown GST rate or more GST than the bill', async () => {
+      const badRate = await createBill({ gstRate: 15 });
+      expect(badRate.statusCode).toBe(400);
+
+      const tooMuch = await createBill({ gstRate: 18, gstAmount: 20000 });
+      expect(tooMuch.statusCode).toBe(400);
+      expect(tooMuch.json().error.code).toBe('GST_EXCEEDS_AMOUNT');
+    });
+  });
+
   describe('DELETE /api/expenses/:id', () => {
-    it('should delete expense', async () => {
+    it('should move expense to the trash', async () => {
       const expense = await testData.createExpense(
         ctx.organization.id,
         projectId,
@@ -326,7 +378,7 @@ describe('Expenses API', () => {
       expect(response.statusCode).toBe(204);
 
       const deleted = await prisma.expense.findUnique({ where: { id: expense.id } });
-      expect(deleted).toBeNull();
+      expect(deleted?.deletedAt).not.toBeNull();
     });
   });
 
@@ -373,4 +425,218 @@ describe('Expenses API', () => {
       expect(labourSum?.total).toBe(20000);
     });
   });
+
+  describe('Approval workflow', () => {
+    let managerId: string;
+    let managerMemberId: string;
+    let directorId: string;
+    let directorMemberId: string;
+
+    beforeAll(async () => {
+      const manager = await testData.createUser();
+      managerId = manager.id;
+      managerMemberId = (
+        await testData.createOrganizationMember(ctx.organization.id, manager.id, 'MANAGER')
+      ).id;
+
+      const director = await testData.createUser();
+      directorId = director.id;
+      directorMemberId = (
+        await testData.createOrganizationMember(ctx.organization.id, director.id, 'MANAGER')
+      ).id;
+    });
+
+    beforeEach(async () => {
+      await prisma.expenseApprovalRule.deleteMany({
+        where: { organizationId: ctx.organization.id },
+      });
+    });
+
+    async function submitExpense(amount: number) {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/expenses',
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          projectId,
+          partyId,
+          expenseTypeItemId: ctx.materialsCategory.id,
+          rate: amount,
+          quantity: 1,
+          expenseDate: new Date().toISOString(),
+        },
+      });
+      expect(response.statusCode).toBe(201);
+      return response.json().data as { id: string; status: string };
+    }
+
+    function act(expenseId: string, action: string, userId?: string, payload: object = {}) {
+      return app.inject({
+        method: 'POST',
+        url: `/api/expenses/${expenseId}/${action}`,
+        headers: authHeaders(ctx.organization.id, userId),
+        payload,
+      });
+    }
+
+    it('should submit new expenses for approval', async () => {
+      const expense = await submitExpense(1000);
+      expect(expense.status).toBe('PENDING');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/expenses/${expense.id}/approvals`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.map((entry: { action: string }) => entry.action)).toEqual([
+        'SUBMITTED',
+      ]);
+    });
+
+    it('should ignore a status sent with a plain edit', async () => {
+      const expense = await submitExpense(1000);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/expenses/${expense.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { status: 'APPROVED', notes: 'Checked' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.status).toBe('PENDING');
+    });
+
+    it('should lock approved expenses until reopened', async () => {
+      const expense = await submitExpense(1000);
+
+      const approved = await act(expense.id, 'approve', managerId);
+      expect(approved.statusCode).toBe(200);
+      expect(approved.json().data.status).toBe('APPROVED');
+
+      const locked = await app.inject({
+        method: 'PUT',
+        url: `/api/expenses/${expense.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { rate: 1200 },
+      });
+      expect(locked.statusCode).toBe(409);
+      expect(locked.json().error.code).toBe('EXPENSE_LOCKED');
+
+      const deleteLocked = await app.inject({
+        method: 'DELETE',
+        url: `/api/expenses/${expense.id}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      expect(deleteLocked.statusCode).toBe(409);
+      expect(deleteLocked.json().error.code).toBe('EXPENSE_LOCKED');
+
+      const reopened = await act(expense.id, 'reopen', managerId, { reason: 'Wrong rate' });
+      expect(reopened.statusCode).toBe(200);
+      expect(reopened.json().data.status).toBe('PENDING');
+
+      const edited = await app.inject({
+        method: 'PUT',
+        url: `/api/expenses/${expense.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { rate: 1200 },
+      });
+      expect(edited.statusCode).toBe(200);
+    });
+
+    it('should reject with a reason and allow resubmitting', async () => {
+      const expense = await submitExpense(1000);
+
+      const missingReason = await act(expense.id, 'reject', managerId);
+      expect(missingReason.statusCode).toBe(400);
+
+      const rejected = await act(expense.id, 'reject', managerId, { reason: 'No bill attached' });
+      expect(rejected.statusCode).toBe(200);
+      expect(rejected.json().data.status).toBe('REJECTED');
+      expect(rejected.json().data.rejectionReason).toBe('No bill attached');
+
+      const resubmitted = await act(expense.id, 'submit');
+      expect(resubmitted.statusCode).toBe(200);
+      expect(resubmitted.json().data.status).toBe('PENDING');
+      expect(resubmitted.json().data.rejectionReason).toBeNull();
+    });
+
+    it('should require another level of approval above the threshold', async () => {
+      const managerRole = await prisma.role.findFirstOrThrow({
+        where: { organizationId: ctx.organization.id, name: 'MANAGER' },
+      });
+
+      for (const rule of [
+        { level: 1, minAmount: 0, approverRoleId: managerRole.id },
+        { level: 2, minAmount: 50000, approverMemberId: directorMemberId },
+      ]) {
+        const created = await app.inject({
+          method: 'POST',
+          url: '/api/approvals/rules',
+          headers: authHeaders(ctx.organization.id),
+          payload: rule,
+        });
+        expect(created.statusCode).toBe(201);
+      }
+
+      // Below the threshold one approval is enough
+      const small = await submitExpense(10000);
+      const smallApproved = await act(small.id, 'approve', managerId);
+      expect(smallApproved.json().data.status).toBe('APPROVED');
+
+      const large = await submitExpense(80000);
+
+      const firstStep = await act(large.id, 'approve', managerId);
+      expect(firstStep.statusCode).toBe(200);
+      expect(firstStep.json().data.status).toBe('PENDING');
+      expect(firstStep.json().data.approvalLevel).toBe(2);
+
+      // Only the named member approves the second level
+      const notApprover = await act(large.id, 'approve', managerId);
+      expect(notApprover.statusCode).toBe(403);
+
+      const inbox = await app.inject({
+        method: 'GET',
+        url: '/api/approvals/inbox',
+        headers: authHeaders(ctx.organization.id, directorId),
+      });
+      expect(inbox.statusCode).toBe(200);
+      expect(inbox.json().data.items.map((item: { id: string }) => item.id)).toEqual([large.id]);
+
+      const finalStep = await act(large.id, 'approve', directorId);
+      expect(finalStep.statusCode).toBe(200);
+      expect(finalStep.json().data.status).toBe('APPROVED');
+    });
+
+    it('should let a project replace the organization-wide rules', async () => {
+      await prisma.expenseApprovalRule.createMany({
+        data: [
+          { organizationId: ctx.organization.id, approverMemberId: directorMemberId },
+          { organizationId: ctx.organization.id, projectId, approverMemberId: managerMemberId },
+        ],
+      });
+
+      const expense = await submitExpense(1000);
+
+      const director = await act(expense.id, 'approve', directorId);
+      expect(director.statusCode).toBe(403);
+
+      const manager = await act(expense.id, 'approve', managerId);
+      expect(manager.statusCode).toBe(200);
+      expect(manager.json().data.status).toBe('APPROVED');
+    });
+
+    it('should require exactly one approver on a rule', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/approvals/rules',
+        headers: authHeaders(ctx.organization.id),
+        payload: { level: 1, minAmount: 0 },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
 });
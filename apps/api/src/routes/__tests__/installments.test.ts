@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Installments API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+
+  const DAY = 24 * 60 * 60 * 1000;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+      amount: 1000000,
+    });
+    projectId = project.id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.paymentInstallment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.payment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.stage.deleteMany({ where: { organizationId: ctx.organization.id } });
+  });
+
+  const createInstallment = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/installments',
+      headers: authHeaders(ctx.organization.id),
+      payload: { projectId, ...payload },
+    });
+
+  const recordReceipt = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/payments',
+      headers: authHeaders(ctx.organization.id),
+      payload: {
+        projectId,
+        type: 'IN',
+        paymentMode: 'ONLINE',
+        paymentDate: new Date().toISOString(),
+        ...payload,
+      },
+    });
+
+  const getSchedule = async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/installments/project/${projectId}`,
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(response.statusCode).toBe(200);
+    return response.json().data;
+  };
+
+  describe('POST /api/installments', () => {
+    it('should add installments in sequence and bill percentages of the contract', async () => {
+      await createInstallment({ name: 'Booking', amountType: 'PERCENTAGE', percentage: 10 });
+      const response = await createInstallment({
+        name: 'Handover',
+        amountType: 'FIXED',
+        amount: 50000,
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data.sequence).toBe(2);
+
+      const schedule = await getSchedule();
+      expect(schedule.installments.map((item: { amount: number }) => item.amount)).toEqual([
+        100000, 50000,
+      ]);
+      expect(schedule.summary.scheduledAmount).toBe(150000);
+    });
+
+    it('should reject percentages adding up to more than the contract', async () => {
+      await createInstallment({ name: 'Booking', amountType: 'PERCENTAGE', percentage: 60 });
+      const response = await createInstallment({
+        name: 'Plinth',
+        amountType: 'PERCENTAGE',
+        percentage: 50,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('SCHEDULE_EXCEEDS_CONTRACT');
+    });
+
+    it('should require the amount its type bills by', async () => {
+      const response = await createInstallment({ name: 'Booking', amountType: 'FIXED' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject a stage from another project', async () => {
+      const otherProject = await testData.createProject(
+        ctx.organization.id,
+        ctx.residentialType.id
+      );
+      const stage = await testData.createStage(ctx.organization.id, otherProject.id);
+
+      const response = await createInstallment({
+        name: 'Slab',
+        amountType: 'FIXED',
+        amount: 1000,
+        stageId: stage.id,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('Installment status', () => {
+    it('should report upcoming, due and overdue installments', async () => {
+      await createInstallment({
+        name: 'Overdue',
+        amountType: 'FIXED',
+        amount: 1000,
+        dueDate: new Date(Date.now() - 5 * DAY).toISOString(),
+      });
+      await createInstallment({
+        name: 'Upcoming',
+        amountType: 'FIXED',
+        amount: 2000,
+        dueDate: new Date(Date.now() + 5 * DAY).toISOString(),
+      });
+      await createInstallment({ name: 'Due now', amountType: 'FIXED', amount: 4000 });
+
+      const schedule = await getSchedule();
+      expect(schedule.installments.map((item: { status: string }) => item.status)).toEqual([
+        'OVERDUE',
+        'UPCOMING',
+        'DUE',
+      ]);
+      expect(schedule.summary.outstandingReceivable).toBe(5000);
+      expect(schedule.summary.overdueAmount).toBe(1000);
+    });
+
+    it('should fall due when its stage is completed', async () => {
+      const stage = await testData.createStage(ctx.organization.id, projectId);
+      await createInstallment({
+        name: 'On slab',
+        amountType: 'FIXED',
+        amount: 3000,
+        stageId: stage.id,
+      });
+
+      expect((await getSchedule()).installments[0].status).toBe('UPCOMING');
+
+      await prisma.stage.update({ where: { id: stage.id }, data: { status: 'COMPLETED' } });
+
+      expect((await getSchedule()).installments[0].status).toBe('DUE');
+    });
+  });
+
+  describe('Allocating receipts', () => {
+    it('should allocate receipts to the earliest open installments', async () => {
+      await createInstallment({ name: 'First', amountType: 'FIXED', amount: 1000 });
+      await createInstallment({ name: 'Second', amountType: 'FIXED', amount: 2000 });
+
+      await recordReceipt({ amount: 1500 });
+
+      const schedule = await getSchedule();
+      expect(schedule.installments.map((item: { status: string }) => item.status)).toEqual([
+        'RECEIVED',
+        'PARTIALLY_RECEIVED',
+      ]);
+      expect(schedule.installments[1].received).toBe(500);
+      expect(schedule.summary.outstandingReceivable).toBe(1500);
+    });
+
+    it('should allocate receipts recorded before the schedule', async () => {
+      await recordReceipt({ amount: 800 });
+      await createInstallment({ name: 'Booking', amountType: 'FIXED', amount: 500 });
+
+      const schedule = await getSchedule();
+      expect(schedule.installments[0].status).toBe('RECEIVED');
+      expect(schedule.summary.onAccountAmount).toBe(300);
+    });
+
+    it('should apply manual allocations before the rest', async () => {
+      await createInstallment({ name: 'First', amountType: 'FIXED', amount: 1000 });
+      const second = (
+        await createInstallment({ name: 'Second', amountType: 'FIXED', amount: 2000 })
+      ).json().data;
+
+      const response = await recordReceipt({
+        amount: 2500,
+        installmentAllocations: [{ installmentId: second.id, amount: 2000 }],
+      });
+      expect(response.statusCode).toBe(201);
+
+      const schedule = await getSchedule();
+      expect(schedule.installments[0].received).toBe(500);
+      expect(schedule.installments[1].status).toBe('RECEIVED');
+    });
+
+    it('should reject allocating more than an installment has outstanding', async () => {
+      const installment = (
+        await createInstallment({ name: 'Booking', amountType: 'FIXED', amount: 1000 })
+      ).json().data;
+
+      const response = await recordReceipt({
+        amount: 5000,
+        installmentAllocations: [{ installmentId: installment.id, amount: 1500 }],
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('ALLOCATION_EXCEEDS_INSTALLMENT');
+    });
+
+    it('should release what a deleted receipt covered', async () => {
+      await createInstallment({ name: 'Booking', amountType: 'FIXED', amount: 1000 });
+      const payment = (await recordReceipt({ amount: 1000 })).json().data;
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/payments/${payment.id}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      const schedule = await getSchedule();
+      expect(schedule.installments[0].received).toBe(0);
+      expect(schedule.installments[0].status).toBe('DUE');
+    });
+  });
+});
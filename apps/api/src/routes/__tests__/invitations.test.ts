@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { faker } from '@faker-js/faker';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { jwtService } from '../../services/jwt.service';
+import { getSmsService, setSmsService } from '../../services/sms';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Team invitations', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let supervisorRoleId: string;
+  let projectId: string;
+
+  // A person who has signed in with OTP but belongs to no organization yet
+  const createInvitee = async () => {
+    const digits = faker.string.numeric(10);
+    const user = await testData.createUser({ name: 'User', phone: `+91${digits}` });
+    const headers = {
+      authorization: `Bearer ${jwtService.signAccessToken({ userId: user.id, phone: user.phone! })}`,
+    };
+    return { user, digits, headers };
+  };
+
+  const invite = (digits: string, projectIds: string[] = []) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/team/invitations',
+      headers: authHeaders(ctx.organization.id),
+      payload: { name: 'Site Supervisor', phone: digits, roleId: supervisorRoleId, projectIds },
+    });
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    supervisorRoleId = await testData.getRoleId(ctx.organization.id, 'SUPERVISOR');
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    projectId = project.id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  it('should add the invitee only after they accept', async () => {
+    const invitee = await createInvitee();
+
+    const created = await invite(invitee.digits, [projectId]);
+    expect(created.statusCode).toBe(201);
+    expect(created.json().data.status).toBe('PENDING');
+    expect(created.json().data.phone).toBe(invitee.user.phone);
+
+    const membersBefore = await prisma.organizationMember.count({
+      where: { organizationId: ctx.organization.id, userId: invitee.user.id },
+    });
+    expect(membersBefore).toBe(0);
+
+    const mine = await app.inject({
+      method: 'GET',
+      url: '/api/auth/invitations',
+      headers: invitee.headers,
+    });
+    expect(mine.json().data).toHaveLength(1);
+
+    const accepted = await app.inject({
+      method: 'POST',
+      url: `/api/auth/invitations/${created.json().data.id}/accept`,
+      headers: invitee.headers,
+    });
+    expect(accepted.statusCode).toBe(200);
+    expect(accepted.json().data.organization.id).toBe(ctx.organization.id);
+    expect(accepted.json().data.role).toBe('SUPERVISOR');
+    expect(accepted.json().data.user.name).toBe('Site Supervisor');
+
+    const member = await prisma.organizationMember.findFirst({
+      where: { organizationId: ctx.organization.id, userId: invitee.user.id },
+      include: { projectAccess: true },
+    });
+    expect(member?.roleId).toBe(supervisorRoleId);
+    expect(member?.projectAccess.map((pa) => pa.projectId)).toEqual([projectId]);
+  });
+
+  it('should reject a second pending invitation for the same phone', async () => {
+    const invitee = await createInvitee();
+    await invite(invitee.digits);
+
+    const duplicate = await invite(invitee.digits);
+
+    expect(duplicate.statusCode).toBe(409);
+    expect(duplicate.json().error.code).toBe('INVITATION_EXISTS');
+  });
+
+  it('should not accept an expired invitation until it is resent', async () => {
+    const invitee = await createInvitee();
+    const created = await invite(invitee.digits);
+    const id = created.json().data.id;
+
+    await prisma.invitation.update({
+      where: { id },
+      data: { expiresAt: new Date(Date.now() - 60 * 1000) },
+    });
+
+    const expired = await app.inject({
+      method: 'POST',
+      url: `/api/auth/invitations/${id}/accept`,
+      headers: invitee.headers,
+    });
+    expect(expired.statusCode).toBe(410);
+    expect(expired.json().error.code).toBe('INVITATION_EXPIRED');
+
+    const resent = await app.inject({
+      method: 'POST',
+      url: `/api/team/invitations/${id}/resend`,
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(resent.statusCode).toBe(200);
+    expect(resent.json().data.status).toBe('PENDING');
+    expect(resent.json().data.sentCount).toBe(2);
+
+    const accepted = await app.inject({
+      method: 'POST',
+      url: `/api/auth/invitations/${id}/accept`,
+      headers: invitee.headers,
+    });
+    expect(accepted.statusCode).toBe(200);
+  });
+
+  it('should hide a revoked invitation from the invitee', async () => {
+    const invitee = await createInvitee();
+    const created = await invite(invitee.digits);
+
+    const revoked = await app.inject({
+      method: 'DELETE',
+      url: `/api/team/invitations/${created.json().data.id}`,
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(revoked.statusCode).toBe(204);
+
+    const mine = await app.inject({
+      method: 'GET',
+      url: '/api/auth/invitations',
+      headers: invitee.headers,
+    });
+    expect(mine.json().data).toHaveLength(0);
+
+    const accept = await app.inject({
+      method: 'POST',
+      url: `/api/auth/invitations/${created.json().data.id}/accept`,
+      headers: invitee.headers,
+    });
+    expect(accept.statusCode).toBe(409);
+  });
+
+  it('should link a client invitee to their client party', async () => {
+    const invitee = await createInvitee();
+    const clientRoleId = await testData.getRoleId(ctx.organization.id, 'CLIENT');
+    const party = await testData.createParty(ctx.organization.id, 'CLIENT');
+    const payload = { name: 'Home Owner', phone: invitee.digits, roleId: clientRoleId };
+
+    const missingParty = await app.inject({
+      method: 'POST',
+      url: '/api/team/invitations',
+      headers: authHeaders(ctx.organization.id),
+      payload,
+    });
+    expect(missingParty.statusCode).toBe(400);
+    expect(missingParty.json().error.code).toBe('CLIENT_PARTY_REQUIRED');
+
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/team/invitations',
+      headers: authHeaders(ctx.organization.id),
+      payload: { ...payload, partyId: party.id },
+    });
+    expect(created.statusCode).toBe(201);
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/auth/invitations/${created.json().data.id}/accept`,
+      headers: invitee.headers,
+    });
+
+    const member = await prisma.organizationMember.findFirst({
+      where: { organizationId: ctx.organization.id, userId: invitee.user.id },
+    });
+    expect(member?.partyId).toBe(party.id);
+  });
+
+  it('should not let another user accept the invitation', async () => {
+    const invitee = await createInvitee();
+    const stranger = await createInvitee();
+    const created = await invite(invitee.digits);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/auth/invitations/${created.json().data.id}/accept`,
+      headers: stranger.headers,
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should keep the invitation when the SMS fails and let it be resent', async () => {
+    const invitee = await createInvitee();
+    setSmsService({
+      sendOtp: async () => true,
+      sendInvitation: async () => {
+        throw new Error('SMS provider unavailable');
+      },
+    });
+
+    const created = await invite(invitee.digits);
+    setSmsService(getSmsService());
+
+    expect(created.statusCode).toBe(201);
+    expect(created.json().data.status).toBe('PENDING');
+    expect(created.json().data.deliveryStatus).toBe('FAILED');
+    expect(created.json().data.deliveryError).toBe('SMS provider unavailable');
+
+    const resent = await app.inject({
+      method: 'POST',
+      url: `/api/team/invitations/${created.json().data.id}/resend`,
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(resent.statusCode).toBe(200);
+    expect(resent.json().data.deliveryStatus).toBe('SENT');
+    expect(resent.json().data.deliveryError).toBeNull();
+  });
+
+  it('should not let a member invite someone with more access than their own', async () => {
+    const leadRole = await testData.createRole(ctx.organization.id, 'Team Lead', [
+      'team.view',
+      'team.manage',
+    ]);
+    const lead = await testData.createMemberWithRole(ctx.organization.id, leadRole.id);
+    const adminRoleId = await testData.getRoleId(ctx.organization.id, 'ADMIN');
+    const invitee = await createInvitee();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/team/invitations',
+      headers: authHeaders(ctx.organization.id, lead.id),
+      payload: { name: 'New Admin', phone: invitee.digits, roleId: adminRoleId, projectIds: [] },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error.code).toBe('ROLE_ABOVE_CALLER');
+    const invitations = await prisma.invitation.count({ where: { phone: invitee.user.phone! } });
+    expect(invitations).toBe(0);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Labour API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let otherProjectId: string;
+  let gangId: string;
+  let stageId: string;
+  let workerId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    projectId = (await testData.createProject(ctx.organization.id, ctx.residentialType.id)).id;
+    otherProjectId = (await testData.createProject(ctx.organization.id, ctx.residentialType.id)).id;
+    gangId = (await testData.createParty(ctx.organization.id, 'LABOUR', { name: 'Raju Gang' })).id;
+    stageId = (await testData.createStage(ctx.organization.id, projectId, { name: 'Foundation' }))
+      .id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.wageBill.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.attendanceEntry.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.labourWorker.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.bOQItem.deleteMany({ where: { organizationId: ctx.organization.id } });
+
+    workerId = (
+      await app.inject({
+        method: 'POST',
+        url: '/api/labour/workers',
+        headers: authHeaders(ctx.organization.id),
+        payload: { partyId: gangId, name: 'Suresh', dailyRate: 800 },
+      })
+    ).json().data.id;
+  });
+
+  const mark = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'PUT',
+      url: '/api/labour/attendance',
+      headers: authHeaders(ctx.organization.id),
+      payload: { projectId, ...payload },
+    });
+
+  // A week of Suresh's attendance: a day with 2 hours overtime and a half day on
+  // the foundation, and a night shift not on any stage
+  const markWeek = async () => {
+    await mark({
+      stageId,
+      date: '2026-05-11',
+      entries: [{ workerId, status: 'PRESENT', overtimeHours: 2 }],
+    });
+    await mark({ stageId, date: '2026-05-12', entries: [{ workerId, status: 'HALF_DAY' }] });
+    await mark({
+      date: '2026-05-13',
+      entries: [{ workerId, status: 'PRESENT', isNightShift: true }],
+    });
+  };
+
+  describe('Workers', () => {
+    it('adds a worker with the default rate card', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/labour/workers?partyId=${gangId}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [worker] = response.json().data;
+      expect(worker.name).toBe('Suresh');
+      expect(Number(worker.shiftHours)).toBe(8);
+      expect(Number(worker.overtimeMultiplier)).toBe(1.5);
+      expect(Number(worker.nightMultiplier)).toBe(2);
+    });
+
+    it('only adds workers to labour parties', async () => {
+      const vendor = await testData.createParty(ctx.organization.id, 'VENDOR');
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/labour/workers',
+        headers: authHeaders(ctx.organization.id),
+        payload: { partyId: vendor.id, name: 'Ramesh', dailyRate: 700 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('PARTY_NOT_LABOUR');
+    });
+  });
+
+  describe('Muster roll', () => {
+    it('works out the wage of each day', async () => {
+      await markWeek();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/labour/attendance/project/${projectId}?from=2026-05-11&to=2026-05-17`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const days = response.json().data;
+      expect(days.map((day: { wageAmount: number }) => day.wageAmount)).toEqual([1100, 400, 1600]);
+      expect(days.map((day: { manDays: number }) => day.manDays)).toEqual([1, 0.5, 1]);
+    });
+
+    it('corrects a day rather than marking it twice', async () => {
+      await mark({ date: '2026-05-11', entries: [{ workerId, status: 'PRESENT' }] });
+      const corrected = await mark({
+        date: '2026-05-11',
+        entries: [{ workerId, status: 'HALF_DAY' }],
+      });
+
+      expect(corrected.statusCode).toBe(200);
+      expect(await prisma.attendanceEntry.count({ where: { workerId } })).toBe(1);
+      expect(corrected.json().data[0].status).toBe('HALF_DAY');
+    });
+
+    it('does not mark a worker at two sites on one day', async () => {
+      await mark({ date: '2026-05-11', entries: [{ workerId, status: 'PRESENT' }] });
+      const response = await mark({
+        projectId: otherProjectId,
+        date: '2026-05-11',
+        entries: [{ workerId, status: 'PRESENT' }],
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().error.code).toBe('WORKER_AT_OTHER_PROJECT');
+    });
+  });
+
+  describe('Wage bills', () => {
+    it('pays a week of attendance as labour expenses by stage', async () => {
+      await markWeek();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/labour/wage-bills',
+        headers: authHeaders(ctx.organization.id),
+        payload: { projectId, partyId: gangId, weekStart: '2026-05-11' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const bill = response.json().data;
+      expect(Number(bill.totalAmount)).toBe(3100);
+      expect(Number(bill.manDays)).toBe(2.5);
+      expect(bill.lines).toHaveLength(1);
+      expect(bill.lines[0].nightShifts).toBe(1);
+
+      const expenses = await prisma.expense.findMany({
+        where: { wageBillId: bill.id },
+        orderBy: { rate: 'asc' },
+      });
+      expect(expenses.map((expense) => [expense.stageId, Number(expense.rate)])).toEqual([
+        [stageId, 1500],
+        [null, 1600],
+      ]);
+      expect(expenses.every((expense) => expense.expenseTypeItemId === ctx.labourCategory.id)).toBe(
+        true
+      );
+      expect(expenses.every((expense) => expense.status === 'APPROVED')).toBe(true);
+    });
+
+    it('locks paid days and pays them once', async () => {
+      await markWeek();
+      const payload = { projectId, partyId: gangId, weekStart: '2026-05-11' };
+      await app.inject({
+        method: 'POST',
+        url: '/api/labour/wage-bills',
+        headers: authHeaders(ctx.organization.id),
+        payload,
+      });
+
+      const again = await app.inject({
+        method: 'POST',
+        url: '/api/labour/wage-bills',
+        headers: authHeaders(ctx.organization.id),
+        payload,
+      });
+      expect(again.statusCode).toBe(400);
+      expect(again.json().error.code).toBe('NO_UNPAID_ATTENDANCE');
+
+      const edit = await mark({ date: '2026-05-12', entries: [{ workerId, status: 'PRESENT' }] });
+      expect(edit.statusCode).toBe(400);
+      expect(edit.json().error.code).toBe('ATTENDANCE_BILLED');
+    });
+  });
+
+  describe('Man-days', () => {
+    it('compares man-days worked on each stage with the BOQ', async () => {
+      await prisma.bOQItem.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          stageId,
+          category: 'LABOUR',
+          description: 'Masons for footings',
+          unit: 'man-days',
+          quantity: 2,
+          rate: 800,
+        },
+      });
+      await markWeek();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/labour/project/${projectId}/man-days`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual([
+        expect.objectContaining({
+          stageName: 'Foundation',
+          plannedManDays: 2,
+          actualManDays: 1.5,
+          varianceManDays: -0.5,
+          variancePercent: -25,
+        }),
+        expect.objectContaining({ stageId: null, plannedManDays: 0, actualManDays: 1 }),
+      ]);
+    });
+  });
+});
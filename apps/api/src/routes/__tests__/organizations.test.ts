@@ -1,399 +1,187 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
-import { buildApp } from '../../app';
 import type { FastifyInstance } from 'fastify';
+import { createTestApp, testData, cleanup, authHeaders } from '../../tests/helper';
+import { jwtService } from '../../services/jwt.service';
 import { prisma } from '../../lib/prisma';
+import { ALL_PERMISSION_KEYS } from '../../lib/permissions';
 
 describe('Organizations API', () => {
   let app: FastifyInstance;
   let testOrgId: string;
-  let testUserId: string;
-  let testCounter = 0;
-
-  const getUniquePhone = () => `+1${Date.now()}${++testCounter}`;
-
-  /**
-   * Helper to create or get a role ID for an organization
-   */
-  const getOrCreateRoleId = async (organizationId: string, roleName: string): Promise<string> => {
-    let role = await prisma.role.findUnique({
-      where: {
-        organizationId_name: { organizationId, name: roleName },
-      },
-    });
-
-    if (!role) {
-      role = await prisma.role.create({
-        data: {
-          organizationId,
-          name: roleName,
-          description: `${roleName} role`,
-          isSystemRole: true,
-        },
-      });
-    }
+  let otherOrgId: string;
 
-    return role.id;
-  };
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
 
-  // Helper to clean up test data
-  const cleanupTestData = async () => {
-    await prisma.organizationMember.deleteMany();
-    await prisma.role.deleteMany();
-    await prisma.user.deleteMany();
-    await prisma.organization.deleteMany();
-  };
+  beforeEach(async () => {
+    const org = await testData.createOrganization('Test Org');
+    await testData.createOrganizationOwner(org.id);
+    testOrgId = org.id;
 
-  beforeAll(async () => {
-    app = await buildApp({ logger: false });
-    await cleanupTestData();
+    const other = await testData.createOrganization('Other Org');
+    await testData.createOrganizationOwner(other.id);
+    otherOrgId = other.id;
   });
 
   afterAll(async () => {
-    await cleanupTestData();
+    await cleanup.all();
     await app.close();
   });
 
   // ============================================
-  // Organization CRUD
+  // Authentication
   // ============================================
 
-  describe('POST /api/organizations', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-    });
-
-    it('should create a new organization', async () => {
+  describe('without a token', () => {
+    it('should reject requests', async () => {
       const res = await app.inject({
-        method: 'POST',
-        url: '/api/organizations',
-        payload: { name: 'Test Organization' },
+        method: 'GET',
+        url: `/api/organizations/${testOrgId}`,
       });
 
-      expect(res.statusCode).toBe(201);
-      const body = res.json();
-      expect(body.success).toBe(true);
-      expect(body.data.name).toBe('Test Organization');
-      expect(body.data.id).toBeDefined();
-
-      testOrgId = body.data.id;
+      expect(res.statusCode).toBe(401);
     });
 
-    it('should reject empty name', async () => {
+    it('should not offer member management', async () => {
+      const user = await testData.createUser();
       const res = await app.inject({
         method: 'POST',
-        url: '/api/organizations',
-        payload: { name: '' },
+        url: `/api/organizations/${testOrgId}/members`,
+        payload: { userId: user.id, role: 'ADMIN' },
       });
 
-      expect(res.statusCode).toBe(400);
+      expect(res.statusCode).toBe(404);
     });
   });
 
-  describe('GET /api/organizations', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      // Create test organizations
-      await prisma.organization.createMany({
-        data: [{ name: 'Org Alpha' }, { name: 'Org Beta' }, { name: 'Org Gamma' }],
-      });
-    });
+  // ============================================
+  // Organization
+  // ============================================
 
-    it('should list organizations with pagination', async () => {
+  describe('GET /api/organizations/:id', () => {
+    it('should get the active organization', async () => {
       const res = await app.inject({
         method: 'GET',
-        url: '/api/organizations?page=1&limit=10',
+        url: `/api/organizations/${testOrgId}`,
+        headers: authHeaders(testOrgId),
       });
 
       expect(res.statusCode).toBe(200);
       const body = res.json();
       expect(body.success).toBe(true);
-      expect(body.data.items).toHaveLength(3);
-      expect(body.data.pagination.total).toBe(3);
+      expect(body.data.id).toBe(testOrgId);
+      expect(body.data.name).toBe('Test Org');
     });
 
-    it('should search organizations by name', async () => {
+    it('should reject another organization', async () => {
       const res = await app.inject({
         method: 'GET',
-        url: '/api/organizations?search=Alpha',
+        url: `/api/organizations/${otherOrgId}`,
+        headers: authHeaders(testOrgId),
       });
 
-      expect(res.statusCode).toBe(200);
-      const body = res.json();
-      expect(body.data.items).toHaveLength(1);
-      expect(body.data.items[0].name).toBe('Org Alpha');
+      expect(res.statusCode).toBe(403);
     });
-  });
 
-  describe('GET /api/organizations/:id', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      const org = await prisma.organization.create({
-        data: { name: 'Test Org' },
+    it('should reject a caller who is not a member', async () => {
+      const outsider = await testData.createUser();
+      const accessToken = jwtService.signAccessToken({
+        userId: outsider.id,
+        phone: outsider.phone ?? '',
+        organizationId: testOrgId,
       });
-      testOrgId = org.id;
-    });
 
-    it('should get organization by ID', async () => {
       const res = await app.inject({
         method: 'GET',
         url: `/api/organizations/${testOrgId}`,
+        headers: { authorization: `Bearer ${accessToken}`, 'x-organization-id': testOrgId },
       });
 
-      expect(res.statusCode).toBe(200);
-      const body = res.json();
-      expect(body.success).toBe(true);
-      expect(body.data.id).toBe(testOrgId);
-      expect(body.data.name).toBe('Test Org');
-    });
-
-    it('should return 404 for non-existent organization', async () => {
-      const res = await app.inject({
-        method: 'GET',
-        url: '/api/organizations/non-existent-id',
-      });
-
-      expect(res.statusCode).toBe(404);
+      expect(res.statusCode).toBe(403);
+      expect(res.json().error.code).toBe('NOT_ORGANIZATION_MEMBER');
     });
   });
 
   describe('PUT /api/organizations/:id', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      const org = await prisma.organization.create({
-        data: { name: 'Original Name' },
-      });
-      testOrgId = org.id;
-    });
-
-    it('should update organization', async () => {
+    it('should update the organization', async () => {
       const res = await app.inject({
         method: 'PUT',
         url: `/api/organizations/${testOrgId}`,
+        headers: authHeaders(testOrgId),
         payload: { name: 'Updated Name' },
       });
 
       expect(res.statusCode).toBe(200);
-      const body = res.json();
-      expect(body.data.name).toBe('Updated Name');
+      expect(res.json().data.name).toBe('Updated Name');
     });
 
-    it('should return 404 for non-existent organization', async () => {
+    it('should only let full-access roles update it', async () => {
+      const everyKey = await testData.createRole(testOrgId, 'Every Key', [...ALL_PERMISSION_KEYS]);
+      const manager = await testData.createMemberWithRole(testOrgId, everyKey.id);
+
       const res = await app.inject({
         method: 'PUT',
-        url: '/api/organizations/non-existent-id',
-        payload: { name: 'Updated' },
+        url: `/api/organizations/${testOrgId}`,
+        headers: authHeaders(testOrgId, manager.id),
+        payload: { name: 'Updated Name' },
       });
 
-      expect(res.statusCode).toBe(404);
+      expect(res.statusCode).toBe(403);
     });
-  });
 
-  describe('DELETE /api/organizations/:id', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      const org = await prisma.organization.create({
-        data: { name: 'To Delete' },
-      });
-      testOrgId = org.id;
-    });
-
-    it('should delete organization', async () => {
+    it('should reject another organization', async () => {
       const res = await app.inject({
-        method: 'DELETE',
-        url: `/api/organizations/${testOrgId}`,
+        method: 'PUT',
+        url: `/api/organizations/${otherOrgId}`,
+        headers: authHeaders(testOrgId),
+        payload: { name: 'Taken Over' },
       });
 
-      expect(res.statusCode).toBe(204);
-
-      // Verify deletion
-      const org = await prisma.organization.findUnique({
-        where: { id: testOrgId },
-      });
-      expect(org).toBeNull();
+      expect(res.statusCode).toBe(403);
+      const other = await prisma.organization.findUnique({ where: { id: otherOrgId } });
+      expect(other?.name).toBe('Other Org');
     });
+  });
 
-    it('should return 404 for non-existent organization', async () => {
+  describe('DELETE /api/organizations/:id', () => {
+    it('should reject another organization', async () => {
       const res = await app.inject({
         method: 'DELETE',
-        url: '/api/organizations/non-existent-id',
+        url: `/api/organizations/${otherOrgId}`,
+        headers: authHeaders(testOrgId),
       });
 
-      expect(res.statusCode).toBe(404);
+      expect(res.statusCode).toBe(403);
+      const other = await prisma.organization.findUnique({ where: { id: otherOrgId } });
+      expect(other).not.toBeNull();
     });
   });
 
   // ============================================
-  // Member Management
+  // Members
   // ============================================
 
-  describe('POST /api/organizations/:id/members', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      // Create test user for member tests
-      const user = await prisma.user.create({
-        data: { name: 'Test User', phone: getUniquePhone() },
-      });
-      testUserId = user.id;
-
-      const org = await prisma.organization.create({
-        data: { name: 'Test Org' },
-      });
-      testOrgId = org.id;
-    });
-
-    it('should add member to organization', async () => {
-      const res = await app.inject({
-        method: 'POST',
-        url: `/api/organizations/${testOrgId}/members`,
-        payload: { userId: testUserId, role: 'ADMIN' },
-      });
-
-      expect(res.statusCode).toBe(201);
-      const body = res.json();
-      expect(body.data.userId).toBe(testUserId);
-      // Role is now a relation, so we check role.name
-      expect(body.data.role?.name || body.data.role).toBe('ADMIN');
-    });
-
-    it('should reject duplicate membership', async () => {
-      // First add
-      await app.inject({
-        method: 'POST',
-        url: `/api/organizations/${testOrgId}/members`,
-        payload: { userId: testUserId, role: 'ADMIN' },
-      });
-
-      // Second add should fail
-      const res = await app.inject({
-        method: 'POST',
-        url: `/api/organizations/${testOrgId}/members`,
-        payload: { userId: testUserId, role: 'MANAGER' },
-      });
-
-      expect(res.statusCode).toBe(409);
-    });
-  });
-
   describe('GET /api/organizations/:id/members', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      // Create test user for member tests
-      const user = await prisma.user.create({
-        data: { name: 'Test User', phone: getUniquePhone() },
-      });
-      testUserId = user.id;
-
-      const org = await prisma.organization.create({
-        data: { name: 'Test Org' },
-      });
-      testOrgId = org.id;
-
-      // Create role and member
-      const roleId = await getOrCreateRoleId(testOrgId, 'ADMIN');
-      await prisma.organizationMember.create({
-        data: {
-          organizationId: testOrgId,
-          userId: testUserId,
-          roleId,
-        },
-      });
-    });
-
     it('should list organization members', async () => {
       const res = await app.inject({
         method: 'GET',
         url: `/api/organizations/${testOrgId}/members`,
+        headers: authHeaders(testOrgId),
       });
 
       expect(res.statusCode).toBe(200);
-      const body = res.json();
-      expect(body.data).toHaveLength(1);
-      expect(body.data[0].userId).toBe(testUserId);
-    });
-  });
-
-  describe('PUT /api/organizations/:id/members/:userId', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      // Create test user for member tests
-      const user = await prisma.user.create({
-        data: { name: 'Test User', phone: getUniquePhone() },
-      });
-      testUserId = user.id;
-
-      const org = await prisma.organization.create({
-        data: { name: 'Test Org' },
-      });
-      testOrgId = org.id;
-
-      // Create role and member
-      const roleId = await getOrCreateRoleId(testOrgId, 'ADMIN');
-      await prisma.organizationMember.create({
-        data: {
-          organizationId: testOrgId,
-          userId: testUserId,
-          roleId,
-        },
-      });
-    });
-
-    it('should update member role', async () => {
-      const res = await app.inject({
-        method: 'PUT',
-        url: `/api/organizations/${testOrgId}/members/${testUserId}`,
-        payload: { role: 'ACCOUNTANT' },
-      });
-
-      expect(res.statusCode).toBe(200);
-      const body = res.json();
-      // Role is now a relation, so we check role.name
-      expect(body.data.role?.name || body.data.role).toBe('ACCOUNTANT');
+      expect(res.json().data).toHaveLength(1);
     });
-  });
-
-  describe('DELETE /api/organizations/:id/members/:userId', () => {
-    beforeEach(async () => {
-      await cleanupTestData();
-      // Create test user for member tests
-      const user = await prisma.user.create({
-        data: { name: 'Test User', phone: getUniquePhone() },
-      });
-      testUserId = user.id;
 
-      const org = await prisma.organization.create({
-        data: { name: 'Test Org' },
-      });
-      testOrgId = org.id;
-
-      // Create role and member
-      const roleId = await getOrCreateRoleId(testOrgId, 'ADMIN');
-      await prisma.organizationMember.create({
-        data: {
-          organizationId: testOrgId,
-          userId: testUserId,
-          roleId,
-        },
-      });
-    });
-
-    it('should remove member from organization', async () => {
+    it('should not list members of another organization', async () => {
       const res = await app.inject({
-        method: 'DELETE',
-        url: `/api/organizations/${testOrgId}/members/${testUserId}`,
+        method: 'GET',
+        url: `/api/organizations/${otherOrgId}/members`,
+        headers: authHeaders(testOrgId),
       });
 
-      expect(res.statusCode).toBe(204);
-
-      // Verify removal
-      const member = await prisma.organizationMember.findUnique({
-        where: {
-          organizationId_userId: {
-            organizationId: testOrgId,
-            userId: testUserId,
-          },
-        },
-      });
-      expect(member).toBeNull();
+      expect(res.statusCode).toBe(403);
     });
   });
 });
@@ -25,6 +25,9 @@ describe('Parties API', () => {
   });
 
   beforeEach(async () => {
+    // Bills and ledger entries keep their party from being deleted
+    await prisma.partyLedgerEntry.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
     await prisma.party.deleteMany({ where: { organizationId: ctx.organization.id } });
   });
 
@@ -184,7 +187,7 @@ describe('Parties API', () => {
   });
 
   describe('DELETE /api/parties/:id', () => {
-    it('should delete party', async () => {
+    it('should move party to the trash', async () => {
       const party = await testData.createParty(ctx.organization.id, 'VENDOR');
 
       const response = await app.inject({
@@ -196,7 +199,7 @@ describe('Parties API', () => {
       expect(response.statusCode).toBe(204);
 
       const deleted = await prisma.party.findUnique({ where: { id: party.id } });
-      expect(deleted).toBeNull();
+      expect(deleted?.deletedAt).not.toBeNull();
     });
   });
 
@@ -234,5 +237,159 @@ describe('Parties API', () => {
       expect(body.data.totalPayments).toBe(30000);
       expect(body.data.balance).toBe(20000);
     });
+
+    it('should leave rejected bills out of party statistics', async () => {
+      const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+      const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+      await testData.createExpense(
+        ctx.organization.id,
+        project.id,
+        party.id,
+        ctx.materialsCategory.id,
+        { rate: 500, quantity: 10 }
+      );
+      const rejected = await testData.createExpense(
+        ctx.organization.id,
+        project.id,
+        party.id,
+        ctx.materialsCategory.id,
+        { rate: 800, quantity: 10 }
+      );
+      await prisma.expense.update({ where: { id: rejected.id }, data: { status: 'REJECTED' } });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/parties/${party.id}/stats`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.totalExpenses).toBe(5000);
+      expect(response.json().data.balance).toBe(5000);
+    });
+  });
+
+  describe('GET /api/parties/:id/statement', () => {
+    it('should carry earlier entries into the opening balance', async () => {
+      const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+      const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+
+      // Before the period: bill of 10000, payment of 4000
+      await testData.createExpense(
+        ctx.organization.id,
+        project.id,
+        party.id,
+        ctx.materialsCategory.id,
+        { rate: 1000, quantity: 10, expenseDate: new Date('2026-02-10') }
+      );
+      await testData.createPayment(ctx.organization.id, project.id, {
+        partyId: party.id,
+        amount: 4000,
+        paymentDate: new Date('2026-02-20'),
+      });
+
+      // In the period: bill of 5000, payment of 8000, credit note of 500
+      await testData.createExpense(
+        ctx.organization.id,
+        project.id,
+        party.id,
+        ctx.materialsCategory.id,
+        { rate: 500, quantity: 10, expenseDate: new Date('2026-03-05') }
+      );
+      await testData.createPayment(ctx.organization.id, project.id, {
+        partyId: party.id,
+        amount: 8000,
+        paymentDate: new Date('2026-03-15'),
+      });
+      await prisma.partyLedgerEntry.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId: project.id,
+          partyId: party.id,
+          type: 'CREDIT_NOTE',
+          amount: 500,
+          entryDate: new Date('2026-03-20'),
+          narration: 'Returned cement bags',
+        },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/parties/${party.id}/statement`,
+        headers: authHeaders(ctx.organization.id),
+        query: {
+          from: new Date('2026-03-01').toISOString(),
+          to: new Date('2026-03-31').toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const statement = response.json().data;
+      expect(statement.openingBalance).toBe(6000);
+      expect(statement.entries.map((entry: { kind: string }) => entry.kind)).toEqual([
+        'BILL',
+        'PAYMENT',
+        'CREDIT_NOTE',
+      ]);
+      expect(statement.entries.map((entry: { balance: number }) => entry.balance)).toEqual([
+        11000, 3000, 2500,
+      ]);
+      expect(statement.totalDebit).toBe(8500);
+      expect(statement.totalCredit).toBe(5000);
+      expect(statement.closingBalance).toBe(2500);
+    });
+
+    it('should export the statement as PDF and Excel', async () => {
+      const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+      const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+      await testData.createExpense(
+        ctx.organization.id,
+        project.id,
+        party.id,
+        ctx.materialsCategory.id,
+        { rate: 250, quantity: 4 }
+      );
+
+      const pdf = await app.inject({
+        method: 'GET',
+        url: `/api/parties/${party.id}/statement`,
+        headers: authHeaders(ctx.organization.id),
+        query: { format: 'pdf', projectId: project.id },
+      });
+      expect(pdf.statusCode).toBe(200);
+      expect(pdf.headers['content-type']).toBe('application/pdf');
+      expect(pdf.headers['content-disposition']).toMatch(
+        /attachment; filename="statement-.*\.pdf"/
+      );
+      expect(pdf.rawPayload.subarray(0, 5).toString()).toBe('%PDF-');
+
+      const xlsx = await app.inject({
+        method: 'GET',
+        url: `/api/parties/${party.id}/statement`,
+        headers: authHeaders(ctx.organization.id),
+        query: { format: 'xlsx' },
+      });
+      expect(xlsx.statusCode).toBe(200);
+      expect(xlsx.headers['content-disposition']).toMatch(/\.xlsx"$/);
+      // XLSX files are zip archives
+      expect(xlsx.rawPayload.subarray(0, 2).toString()).toBe('PK');
+    });
+
+    it('should reject a period that ends before it starts', async () => {
+      const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/parties/${party.id}/statement`,
+        headers: authHeaders(ctx.organization.id),
+        query: {
+          from: new Date('2026-03-31').toISOString(),
+          to: new Date('2026-03-01').toISOString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('INVALID_PERIOD');
+    });
   });
 });
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Party Ledger API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let partyId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    projectId = project.id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.partyLedgerEntry.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.payment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+    const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+    partyId = party.id;
+  });
+
+  const createEntry = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/party-ledger',
+      headers: authHeaders(ctx.organization.id),
+      payload: {
+        projectId,
+        partyId,
+        entryDate: new Date().toISOString(),
+        narration: 'Ledger entry',
+        ...payload,
+      },
+    });
+
+  const getPartyStats = async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/parties/${partyId}/stats`,
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(response.statusCode).toBe(200);
+    return response.json().data;
+  };
+
+  describe('POST /api/party-ledger', () => {
+    it('should record an advance paid before any bill', async () => {
+      const response = await createEntry({
+        type: 'ADVANCE',
+        amount: 25000,
+        paymentMode: 'ONLINE',
+        narration: 'Advance for steel order',
+      });
+
+      expect(response.statusCode).toBe(201);
+      const entry = response.json().data;
+      expect(entry.type).toBe('ADVANCE');
+      expect(entry.paymentMode).toBe('ONLINE');
+      expect(entry.narration).toBe('Advance for steel order');
+      expect(entry.attachments).toEqual([]);
+
+      const stats = await getPartyStats();
+      expect(stats.totalAdvances).toBe(25000);
+      expect(stats.balance).toBe(-25000);
+    });
+
+    it('should not keep a payment mode on credit notes and write-offs', async () => {
+      const response = await createEntry({
+        type: 'CREDIT_NOTE',
+        amount: 1000,
+        paymentMode: 'CASH',
+        narration: 'Returned 10 bags of cement',
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data.paymentMode).toBeNull();
+    });
+
+    it('should require a narration', async () => {
+      const response = await createEntry({ type: 'ADVANCE', amount: 1000, narration: ' ' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject entries for clients', async () => {
+      const client = await testData.createParty(ctx.organization.id, 'CLIENT');
+      const response = await createEntry({
+        partyId: client.id,
+        type: 'REFUND',
+        amount: 1000,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('INVALID_PARTY');
+    });
+  });
+
+  describe('Party balances', () => {
+    it('should set advances and credit notes against bills, and add refunds and write-offs', async () => {
+      await testData.createExpense(
+        ctx.organization.id,
+        projectId,
+        partyId,
+        ctx.materialsCategory.id,
+        {
+          rate: 500,
+          quantity: 100,
+        }
+      );
+      await testData.createPayment(ctx.organization.id, projectId, {
+        partyId,
+        type: 'OUT',
+        amount: 20000,
+      });
+      await createEntry({ type: 'ADVANCE', amount: 10000, paymentMode: 'CASH' });
+      await createEntry({ type: 'CREDIT_NOTE', amount: 5000 });
+      await createEntry({ type: 'REFUND', amount: 2000, paymentMode: 'ONLINE' });
+      await createEntry({ type: 'WRITE_OFF', amount: 500 });
+
+      // 50000 - 20000 - 10000 - 5000 + 2000 + 500
+      const stats = await getPartyStats();
+      expect(stats.balance).toBe(17500);
+
+      const projectsResponse = await app.inject({
+        method: 'GET',
+        url: `/api/parties/${partyId}/projects`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      expect(projectsResponse.statusCode).toBe(200);
+      const body = projectsResponse.json();
+      expect(body.data.items[0].credit).toBe(17500);
+      expect(body.data.totals.totalPaid).toBe(28000);
+    });
+
+    it('should hold advances on account for the project', async () => {
+      await testData.createExpense(
+        ctx.organization.id,
+        projectId,
+        partyId,
+        ctx.materialsCategory.id,
+        {
+          rate: 1000,
+          quantity: 10,
+        }
+      );
+      await createEntry({ type: 'ADVANCE', amount: 4000, paymentMode: 'CASH' });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/payments/project/${projectId}/party/${partyId}/outstanding`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual({ outstanding: 10000, onAccount: 4000 });
+    });
+
+    it('should list ledger entries with the party transactions', async () => {
+      await createEntry({ type: 'ADVANCE', amount: 3000, narration: 'Mobilisation advance' });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/parties/${partyId}/transactions?type=ledger`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [transaction] = response.json().data;
+      expect(transaction.title).toBe('Mobilisation advance');
+      expect(transaction.entryType).toBe('ADVANCE');
+      expect(transaction.amount).toBe(3000);
+    });
+  });
+
+  describe('Project P&L', () => {
+    it('should bring project cost down by credit notes and up by write-offs', async () => {
+      await testData.createExpense(
+        ctx.organization.id,
+        projectId,
+        partyId,
+        ctx.materialsCategory.id,
+        {
+          rate: 100,
+          quantity: 100,
+        }
+      );
+      await createEntry({ type: 'CREDIT_NOTE', amount: 1500 });
+      await createEntry({ type: 'WRITE_OFF', amount: 500 });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/projects/${projectId}/stats`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const stats = response.json().data;
+      expect(stats.totalCreditNotes).toBe(1500);
+      expect(stats.totalWriteOffs).toBe(500);
+      expect(stats.balance).toBe(-9000);
+    });
+  });
+
+  describe('PUT/DELETE /api/party-ledger/:id', () => {
+    it('should update and delete an entry with an audit trail', async () => {
+      const created = (await createEntry({ type: 'ADVANCE', amount: 1000 })).json().data;
+
+      const updateResponse = await app.inject({
+        method: 'PUT',
+        url: `/api/party-ledger/${created.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { amount: 1500, narration: 'Advance revised' },
+      });
+      expect(updateResponse.statusCode).toBe(200);
+      expect(Number(updateResponse.json().data.amount)).toBe(1500);
+
+      const deleteResponse = await app.inject({
+        method: 'DELETE',
+        url: `/api/party-ledger/${created.id}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      expect(deleteResponse.statusCode).toBe(204);
+
+      const logs = await prisma.auditLog.findMany({
+        where: { entityType: 'PARTY_LEDGER_ENTRY', entityId: created.id },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(logs.map((log) => log.action)).toEqual(['CREATE', 'UPDATE', 'DELETE']);
+    });
+  });
+});
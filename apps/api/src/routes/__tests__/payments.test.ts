@@ -376,7 +376,7 @@ describe('Payments API', () => {
   });
 
   describe('DELETE /api/payments/:id', () => {
-    it('should delete payment', async () => {
+    it('should move payment to the trash', async () => {
       const payment = await testData.createPayment(ctx.organization.id, projectId);
 
       const response = await app.inject({
@@ -388,7 +388,7 @@ describe('Payments API', () => {
       expect(response.statusCode).toBe(204);
 
       const deleted = await prisma.payment.findUnique({ where: { id: payment.id } });
-      expect(deleted).toBeNull();
+      expect(deleted?.deletedAt).not.toBeNull();
     });
   });
 
@@ -449,4 +449,231 @@ describe('Payments API', () => {
       expect(body.data.count).toBe(1);
     });
   });
+
+  describe('TDS', () => {
+    const createVendorPayment = (payload: Record<string, unknown>) =>
+      app.inject({
+        method: 'POST',
+        url: '/api/payments',
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          projectId,
+          partyId,
+          type: 'OUT',
+          paymentMode: 'ONLINE',
+          amount: 25000,
+          paymentDate: new Date().toISOString(),
+          ...payload,
+        },
+      });
+
+    it('should deduct TDS at the section rate', async () => {
+      const response = await createVendorPayment({ tdsSection: '194C' });
+
+      expect(response.statusCode).toBe(201);
+      const body = response.json();
+      expect(body.data.tdsSection).toBe('194C');
+      expect(parseFloat(body.data.tdsRate)).toBe(1);
+      expect(parseFloat(body.data.tdsAmount)).toBe(250);
+      expect(parseFloat(body.data.amount)).toBe(25000);
+    });
+
+    it('should work TDS out again when the amount changes', async () => {
+      const created = await createVendorPayment({ tdsSection: '194J', tdsRate: 2 });
+      const paymentId = created.json().data.id;
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/payments/${paymentId}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { amount: 30000 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(parseFloat(response.json().data.tdsRate)).toBe(2);
+      expect(parseFloat(response.json().data.tdsAmount)).toBe(600);
+    });
+
+    it('should stop deducting TDS when the section is cleared', async () => {
+      const created = await createVendorPayment({ tdsSection: '194C' });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/payments/${created.json().data.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { tdsSection: null },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.tdsSection).toBeNull();
+      expect(parseFloat(response.json().data.tdsAmount)).toBe(0);
+    });
+
+    it('should reject TDS on money received', async () => {
+      const response = await createVendorPayment({ type: 'IN', tdsSection: '194C' });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('TDS_NOT_ALLOWED');
+    });
+
+    it('should reject TDS more than the payment', async () => {
+      const response = await createVendorPayment({ tdsSection: '194C', tdsAmount: 30000 });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('TDS_EXCEEDS_AMOUNT');
+    });
+  });
+
+  describe('Payment allocations', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    const createBill = (amount: number, daysAgo: number) =>
+      testData.createExpense(ctx.organization.id, projectId, partyId, ctx.materialsCategory.id, {
+        rate: amount,
+        quantity: 1,
+        expenseDate: new Date(Date.now() - daysAgo * DAY),
+      });
+
+    const payParty = (payload: Record<string, unknown>) =>
+      app.inject({
+        method: 'POST',
+        url: '/api/payments',
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          projectId,
+          partyId,
+          type: 'OUT',
+          paymentMode: 'ONLINE',
+          paymentDate: new Date().toISOString(),
+          ...payload,
+        },
+      });
+
+    const getUnpaid = async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/payments/project/${projectId}/party/${partyId}/unpaid-expenses`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      return response.json().data as Array<{ id: string; outstanding: number }>;
+    };
+
+    const getBalance = async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/payments/project/${projectId}/party/${partyId}/outstanding`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      return response.json().data as { outstanding: number; onAccount: number };
+    };
+
+    it('should split a payment across bills, oldest first', async () => {
+      const oldest = await createBill(1000, 10);
+      const middle = await createBill(2000, 5);
+      const newest = await createBill(3000, 1);
+
+      const response = await payParty({ amount: 2500 });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data.allocations).toHaveLength(2);
+
+      const unpaid = await getUnpaid();
+      expect(unpaid.find((bill) => bill.id === oldest.id)).toBeUndefined();
+      expect(unpaid.find((bill) => bill.id === middle.id)?.outstanding).toBe(500);
+      expect(unpaid.find((bill) => bill.id === newest.id)?.outstanding).toBe(3000);
+      expect(await getBalance()).toEqual({ outstanding: 3500, onAccount: 0 });
+    });
+
+    it('should keep what manual allocations leave on account', async () => {
+      const oldest = await createBill(1000, 10);
+      const newest = await createBill(2000, 1);
+
+      await payParty({ amount: 2500, allocations: [{ expenseId: newest.id, amount: 2000 }] });
+
+      const unpaid = await getUnpaid();
+      expect(unpaid.find((bill) => bill.id === newest.id)).toBeUndefined();
+      expect(unpaid.find((bill) => bill.id === oldest.id)?.outstanding).toBe(1000);
+      expect(await getBalance()).toEqual({ outstanding: 1000, onAccount: 500 });
+
+      // A later bill does not sweep up the advance either
+      await app.inject({
+        method: 'POST',
+        url: '/api/expenses',
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          projectId,
+          partyId,
+          expenseCategoryItemId: ctx.materialsCategory.id,
+          rate: 300,
+          quantity: 1,
+          expenseDate: new Date().toISOString(),
+        },
+      });
+      expect(await getBalance()).toEqual({ outstanding: 1300, onAccount: 500 });
+    });
+
+    it('should hold what is left over as an advance on account', async () => {
+      await createBill(1000, 1);
+
+      await payParty({ amount: 1500 });
+
+      expect(await getBalance()).toEqual({ outstanding: 0, onAccount: 500 });
+    });
+
+    it('should reject allocating more than a bill has outstanding', async () => {
+      const bill = await createBill(1000, 1);
+
+      const response = await payParty({
+        amount: 5000,
+        allocations: [{ expenseId: bill.id, amount: 1500 }],
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('ALLOCATION_EXCEEDS_EXPENSE');
+      // The payment is not saved either
+      expect(await getBalance()).toEqual({ outstanding: 1000, onAccount: 0 });
+    });
+
+    it('should not allocate a bill twice to payments made at the same time', async () => {
+      await createBill(1000, 1);
+
+      const responses = await Promise.all([payParty({ amount: 1000 }), payParty({ amount: 1000 })]);
+
+      expect(responses.map((response) => response.statusCode)).toEqual([201, 201]);
+      expect(await getBalance()).toEqual({ outstanding: 0, onAccount: 1000 });
+    });
+
+    it('should reopen the bills a deleted payment covered', async () => {
+      const bill = await createBill(1000, 1);
+      const payment = (await payParty({ amount: 1000 })).json().data;
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/payments/${payment.id}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      const unpaid = await getUnpaid();
+      expect(unpaid.find((item) => item.id === bill.id)?.outstanding).toBe(1000);
+    });
+
+    it('should release what a rejected bill was paid to the other bills', async () => {
+      const rejected = await createBill(1000, 10);
+      const open = await createBill(1000, 1);
+      await payParty({ amount: 1000 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/expenses/${rejected.id}/reject`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { reason: 'Duplicate bill' },
+      });
+      expect(response.statusCode).toBe(200);
+
+      const unpaid = await getUnpaid();
+      expect(unpaid.find((item) => item.id === rejected.id)).toBeUndefined();
+      expect(unpaid.find((item) => item.id === open.id)).toBeUndefined();
+      expect(await getBalance()).toEqual({ outstanding: 0, onAccount: 0 });
+    });
+  });
 });
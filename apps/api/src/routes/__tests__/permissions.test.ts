@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Role permissions', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let partyId: string;
+  let viewerId: string;
+  let clerkId: string;
+
+  const expensePayload = () => ({
+    projectId,
+    partyId,
+    expenseCategoryItemId: ctx.materialsCategory.id,
+    rate: 100,
+    quantity: 2,
+    expenseDate: new Date().toISOString(),
+  });
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    projectId = project.id;
+    const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+    partyId = party.id;
+
+    const viewerRole = await testData.createRole(ctx.organization.id, 'Viewer', [
+      'projects.view',
+      'expenses.view',
+    ]);
+    viewerId = (await testData.createMemberWithRole(ctx.organization.id, viewerRole.id)).id;
+
+    const clerkRole = await testData.createRole(ctx.organization.id, 'Clerk', [
+      'projects.view',
+      'expenses.view',
+      'expenses.create',
+    ]);
+    clerkId = (await testData.createMemberWithRole(ctx.organization.id, clerkRole.id)).id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  it('should reject an action the role is not granted', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers: authHeaders(ctx.organization.id, viewerId),
+      payload: expensePayload(),
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error.code).toBe('FORBIDDEN');
+  });
+
+  it('should allow an action the role is granted', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers: authHeaders(ctx.organization.id, clerkId),
+      payload: expensePayload(),
+    });
+
+    expect(response.statusCode).toBe(201);
+  });
+
+  it('should submit new expenses for approval whatever status is sent', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers: authHeaders(ctx.organization.id, clerkId),
+      payload: { ...expensePayload(), status: 'APPROVED' },
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(response.json().data.status).toBe('PENDING');
+  });
+
+  it('should require expenses.approve to approve an expense', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers: authHeaders(ctx.organization.id, clerkId),
+      payload: expensePayload(),
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/expenses/${created.json().data.id}/approve`,
+      headers: authHeaders(ctx.organization.id, clerkId),
+      payload: {},
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should keep project access limits for supervisors', async () => {
+    const supervisor = await testData.createUser();
+    await testData.createOrganizationMember(ctx.organization.id, supervisor.id, 'SUPERVISOR');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers: authHeaders(ctx.organization.id, supervisor.id),
+      payload: expensePayload(),
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should keep project access limits for project-scoped custom roles', async () => {
+    const siteRole = await testData.createRole(
+      ctx.organization.id,
+      'Site Engineer',
+      ['projects.view', 'expenses.view', 'expenses.create'],
+      { projectScoped: true }
+    );
+    const engineer = await testData.createMemberWithRole(ctx.organization.id, siteRole.id);
+
+    const blocked = await app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers: authHeaders(ctx.organization.id, engineer.id),
+      payload: expensePayload(),
+    });
+    expect(blocked.statusCode).toBe(403);
+
+    const me = await app.inject({
+      method: 'GET',
+      url: '/api/permissions/me',
+      headers: authHeaders(ctx.organization.id, engineer.id),
+    });
+    expect(me.json().data.projectScoped).toBe(true);
+    expect(me.json().data.accessibleProjectIds).toEqual([]);
+  });
+
+  describe('Role management', () => {
+    let managerId: string;
+    let managerRoleId: string;
+
+    const permissionIds = async (keys: string[]) =>
+      (await prisma.permission.findMany({ where: { key: { in: keys } } })).map((p) => p.id);
+
+    beforeAll(async () => {
+      const managerRole = await testData.createRole(ctx.organization.id, 'Role Manager', [
+        'roles.view',
+        'roles.manage',
+        'expenses.view',
+      ]);
+      managerRoleId = managerRole.id;
+      managerId = (await testData.createMemberWithRole(ctx.organization.id, managerRole.id)).id;
+    });
+
+    it('should not let a member create a role with more access than their own', async () => {
+      const above = await app.inject({
+        method: 'POST',
+        url: '/api/roles',
+        headers: authHeaders(ctx.organization.id, managerId),
+        payload: {
+          name: 'Approver',
+          permissionIds: await permissionIds(['expenses.view', 'expenses.approve']),
+        },
+      });
+      expect(above.statusCode).toBe(403);
+      expect(above.json().error.code).toBe('ROLE_ABOVE_CALLER');
+
+      const within = await app.inject({
+        method: 'POST',
+        url: '/api/roles',
+        headers: authHeaders(ctx.organization.id, managerId),
+        payload: { name: 'Expense Viewer', permissionIds: await permissionIds(['expenses.view']) },
+      });
+      expect(within.statusCode).toBe(201);
+    });
+
+    it('should not let a member raise a role above their own', async () => {
+      const role = await testData.createRole(ctx.organization.id, 'Expense Reader', [
+        'expenses.view',
+      ]);
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/roles/${role.id}`,
+        headers: authHeaders(ctx.organization.id, managerId),
+        payload: { permissionIds: await permissionIds(['expenses.view', 'expenses.approve']) },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().error.code).toBe('ROLE_ABOVE_CALLER');
+    });
+
+    it('should not let a member change their own role', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/roles/${managerRoleId}`,
+        headers: authHeaders(ctx.organization.id, managerId),
+        payload: { description: 'Trimmed down' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().error.code).toBe('OWN_ROLE');
+    });
+  });
+
+  describe('GET /api/permissions/me', () => {
+    it('should return the keys granted to the caller', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/permissions/me',
+        headers: authHeaders(ctx.organization.id, viewerId),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.data.role).toBe('Viewer');
+      expect(body.data.permissions).toEqual(['expenses.view', 'projects.view']);
+      expect(body.data.fullAccess).toBe(false);
+      expect(body.data.projectScoped).toBe(false);
+    });
+
+    it('should return every key for admins', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/permissions/me',
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.permissions).toContain('roles.manage');
+      expect(response.json().data.fullAccess).toBe(true);
+    });
+  });
+});
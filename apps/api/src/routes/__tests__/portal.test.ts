@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Client portal', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let clientUserId: string;
+  let projectId: string;
+  let otherProjectId: string;
+
+  const asClient = (url: string) =>
+    app.inject({ method: 'GET', url, headers: authHeaders(ctx.organization.id, clientUserId) });
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+
+    const client = await testData.createParty(ctx.organization.id, 'CLIENT');
+    const otherClient = await testData.createParty(ctx.organization.id, 'CLIENT');
+    const vendor = await testData.createParty(ctx.organization.id, 'VENDOR');
+
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+      clientId: client.id,
+      amount: 1000000,
+    });
+    const otherProject = await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+      clientId: otherClient.id,
+    });
+    projectId = project.id;
+    otherProjectId = otherProject.id;
+
+    const foundation = await testData.createStage(ctx.organization.id, projectId, {
+      name: 'Foundation',
+      weight: 40,
+      budgetAmount: 300000,
+    });
+    await testData.createStage(ctx.organization.id, projectId, { name: 'Structure', weight: 60 });
+    await prisma.stage.update({ where: { id: foundation.id }, data: { status: 'COMPLETED' } });
+
+    await testData.createExpense(
+      ctx.organization.id,
+      projectId,
+      vendor.id,
+      ctx.materialsCategory.id,
+      { stageId: foundation.id, rate: 5000, quantity: 10 }
+    );
+    await testData.createPayment(ctx.organization.id, projectId, {
+      type: 'OUT',
+      partyId: vendor.id,
+      amount: 50000,
+    });
+    await testData.createPayment(ctx.organization.id, projectId, {
+      type: 'IN',
+      amount: 250000,
+      notes: 'Internal note',
+    });
+
+    await testData.createDocument(ctx.organization.id, projectId, {
+      fileName: 'site.jpg',
+      mimeType: 'image/jpeg',
+      sharedWithClient: true,
+    });
+    await testData.createDocument(ctx.organization.id, projectId, {
+      fileName: 'vendor-quote.pdf',
+    });
+
+    const clientUser = await testData.createClientMember(ctx.organization.id, client.id);
+    clientUserId = clientUser.id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  it('should list only the projects of the client party', async () => {
+    const response = await asClient('/api/portal/projects');
+
+    expect(response.statusCode).toBe(200);
+    const projects = response.json().data;
+    expect(projects.map((p: { id: string }) => p.id)).toEqual([projectId]);
+    expect(projects[0]).toMatchObject({
+      contractAmount: 1000000,
+      received: 250000,
+      outstanding: 750000,
+      progress: 40,
+    });
+  });
+
+  it('should show stage progress without budgets or expenses', async () => {
+    const response = await asClient(`/api/portal/projects/${projectId}`);
+
+    expect(response.statusCode).toBe(200);
+    const body = response.body;
+    expect(response.json().data.stages).toHaveLength(2);
+    expect(body).not.toContain('budgetAmount');
+    expect(body).not.toContain('300000');
+    expect(body).not.toContain('expenses');
+  });
+
+  it('should list shared documents only', async () => {
+    const response = await asClient(`/api/portal/projects/${projectId}/documents`);
+
+    expect(response.statusCode).toBe(200);
+    const items = response.json().data.items;
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ fileName: 'site.jpg', isPhoto: true });
+    expect(items[0].storagePath).toBeUndefined();
+  });
+
+  it('should list client receipts without vendor payments or notes', async () => {
+    const response = await asClient(`/api/portal/projects/${projectId}/payments`);
+
+    expect(response.statusCode).toBe(200);
+    const { receipts } = response.json().data;
+    expect(receipts).toHaveLength(1);
+    expect(receipts[0].amount).toBe(250000);
+    expect(response.body).not.toContain('Internal note');
+
+    const receipt = await asClient(`/api/portal/receipts/${receipts[0].id}`);
+    expect(receipt.statusCode).toBe(200);
+    expect(receipt.json().data.organizationName).toBe(ctx.organization.name);
+  });
+
+  it('should show the payment schedule and where each installment stands', async () => {
+    const [foundation] = await prisma.stage.findMany({
+      where: { projectId, name: 'Foundation' },
+    });
+    await prisma.paymentInstallment.create({
+      data: {
+        organizationId: ctx.organization.id,
+        projectId,
+        stageId: foundation.id,
+        name: 'On foundation',
+        sequence: 1,
+        amountType: 'PERCENTAGE',
+        percentage: 30,
+        notes: 'Chase the client early',
+      },
+    });
+
+    const response = await asClient(`/api/portal/projects/${projectId}/payments`);
+
+    expect(response.statusCode).toBe(200);
+    const { schedule } = response.json().data;
+    expect(schedule.installments).toHaveLength(1);
+    expect(schedule.installments[0]).toMatchObject({
+      name: 'On foundation',
+      stageName: 'Foundation',
+      amount: 300000,
+      status: 'DUE',
+    });
+    expect(schedule.dueAmount).toBe(300000);
+    expect(response.body).not.toContain('Chase the client early');
+  });
+
+  it("should not open another client's project", async () => {
+    const response = await asClient(`/api/portal/projects/${otherProjectId}`);
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should keep clients out of internal routes', async () => {
+    const response = await asClient(`/api/expenses?projectId=${projectId}`);
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json().error.code).toBe('CLIENT_PORTAL_ONLY');
+  });
+
+  it('should keep staff out of the portal', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/portal/projects',
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(response.statusCode).toBe(403);
+  });
+});
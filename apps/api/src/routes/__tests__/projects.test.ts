@@ -272,7 +272,7 @@ describe('Projects API', () => {
   });
 
   describe('DELETE /api/projects/:id', () => {
-    it('should delete project', async () => {
+    it('should move project to the trash', async () => {
       const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
         name: 'To Delete',
       });
@@ -285,11 +285,12 @@ describe('Projects API', () => {
 
       expect(response.statusCode).toBe(204);
 
-      // Verify deletion
+      // Verify soft deletion
       const deleted = await prisma.project.findUnique({
         where: { id: project.id },
       });
-      expect(deleted).toBeNull();
+      expect(deleted?.deletedAt).not.toBeNull();
+      expect(deleted?.deletedById).not.toBeNull();
     });
 
     it('should return 404 when deleting non-existent project', async () => {
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Purchase Orders API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let vendorId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    projectId = project.id;
+    vendorId = (
+      await testData.createParty(ctx.organization.id, 'VENDOR', { name: 'Shree Cements' })
+    ).id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.payment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.purchaseOrder.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.organization.update({
+      where: { id: ctx.organization.id },
+      data: { lastPurchaseOrderNumber: 0 },
+    });
+  });
+
+  const raiseOrder = (payload: Record<string, unknown> = {}) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/purchase-orders',
+      headers: authHeaders(ctx.organization.id),
+      payload: {
+        projectId,
+        vendorId,
+        orderDate: '2026-05-04T00:00:00.000Z',
+        lines: [{ description: 'OPC 53 cement', unit: 'bag', quantity: 10, rate: 400 }],
+        ...payload,
+      },
+    });
+
+  const post = (url: string, payload: Record<string, unknown> = {}) =>
+    app.inject({ method: 'POST', url, headers: authHeaders(ctx.organization.id), payload });
+
+  const approvedOrder = async () => {
+    const order = (await raiseOrder()).json().data;
+    await post(`/api/purchase-orders/${order.id}/approve`);
+    return order;
+  };
+
+  const billLine = (lineId: string, rate: number, quantity: number, partyId = vendorId) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/expenses',
+      headers: authHeaders(ctx.organization.id),
+      payload: {
+        projectId,
+        partyId,
+        expenseTypeItemId: ctx.materialsCategory.id,
+        rate,
+        quantity,
+        purchaseOrderLineId: lineId,
+        expenseDate: '2026-05-12T00:00:00.000Z',
+      },
+    });
+
+  describe('POST /api/purchase-orders', () => {
+    it('should raise a numbered order waiting for approval', async () => {
+      const response = await raiseOrder();
+
+      expect(response.statusCode).toBe(201);
+      const order = response.json().data;
+      expect(order).toMatchObject({
+        orderNumber: 'PO-0001',
+        status: 'PENDING',
+        deliveryStatus: 'NOT_RECEIVED',
+      });
+      expect(Number(order.totalAmount)).toBe(4000);
+
+      const next = await raiseOrder();
+      expect(next.json().data.orderNumber).toBe('PO-0002');
+    });
+
+    it('should only place orders with vendors', async () => {
+      const contractor = await testData.createParty(ctx.organization.id, 'LABOUR');
+      const response = await raiseOrder({ vendorId: contractor.id });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('VENDOR_REQUIRED');
+    });
+  });
+
+  describe('Approval', () => {
+    it('should receive goods only against approved orders, which are then locked', async () => {
+      const order = (await raiseOrder()).json().data;
+      const receipt = {
+        receivedDate: '2026-05-08T00:00:00.000Z',
+        lines: [{ purchaseOrderLineId: order.lines[0].id, quantity: 4 }],
+      };
+
+      const early = await post(`/api/purchase-orders/${order.id}/receipts`, receipt);
+      expect(early.statusCode).toBe(400);
+      expect(early.json().error.code).toBe('PURCHASE_ORDER_NOT_APPROVED');
+
+      const approved = await post(`/api/purchase-orders/${order.id}/approve`);
+      expect(approved.statusCode).toBe(200);
+      expect(approved.json().data.status).toBe('APPROVED');
+      expect(approved.json().data.approvedAt).toBeTruthy();
+
+      const received = await post(`/api/purchase-orders/${order.id}/receipts`, receipt);
+      expect(received.statusCode).toBe(201);
+      expect(received.json().data.deliveryStatus).toBe('PARTIALLY_RECEIVED');
+
+      const edit = await app.inject({
+        method: 'PUT',
+        url: `/api/purchase-orders/${order.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { notes: 'Deliver before monsoon' },
+      });
+      expect(edit.statusCode).toBe(400);
+      expect(edit.json().error.code).toBe('PURCHASE_ORDER_LOCKED');
+
+      const cancel = await post(`/api/purchase-orders/${order.id}/cancel`, {
+        reason: 'Not needed',
+      });
+      expect(cancel.statusCode).toBe(400);
+      expect(cancel.json().error.code).toBe('PURCHASE_ORDER_IN_USE');
+    });
+
+    it('should send a rejected order back for approval when edited', async () => {
+      const order = (await raiseOrder()).json().data;
+
+      const rejected = await post(`/api/purchase-orders/${order.id}/reject`, {
+        reason: 'Rate is above the last order',
+      });
+      expect(rejected.json().data).toMatchObject({
+        status: 'REJECTED',
+        rejectionReason: 'Rate is above the last order',
+      });
+
+      const edited = await app.inject({
+        method: 'PUT',
+        url: `/api/purchase-orders/${order.id}`,
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          lines: [{ description: 'OPC 53 cement', unit: 'bag', quantity: 10, rate: 380 }],
+        },
+      });
+      expect(edited.statusCode).toBe(200);
+      expect(edited.json().data).toMatchObject({ status: 'PENDING', rejectionReason: null });
+      expect(Number(edited.json().data.totalAmount)).toBe(3800);
+    });
+
+    it('should not let members without the permission approve', async () => {
+      const order = (await raiseOrder()).json().data;
+      const buyerRole = await testData.createRole(ctx.organization.id, 'Buyer', [
+        'projects.view',
+        'purchases.view',
+        'purchases.manage',
+      ]);
+      const buyer = await testData.createMemberWithRole(ctx.organization.id, buyerRole.id);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/purchase-orders/${order.id}/approve`,
+        headers: authHeaders(ctx.organization.id, buyer.id),
+      });
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('Three-way match', () => {
+    it('should flag bills at another rate or for more than was received', async () => {
+      const order = await approvedOrder();
+      const lineId = order.lines[0].id;
+      await post(`/api/purchase-orders/${order.id}/receipts`, {
+        receivedDate: '2026-05-08T00:00:00.000Z',
+        lines: [{ purchaseOrderLineId: lineId, quantity: 6 }],
+      });
+
+      const bill = await billLine(lineId, 420, 8);
+      expect(bill.statusCode).toBe(201);
+      expect(bill.json().data.purchaseOrderLine.purchaseOrder.orderNumber).toBe(order.orderNumber);
+
+      const matched = (
+        await app.inject({
+          method: 'GET',
+          url: `/api/purchase-orders/${order.id}`,
+          headers: authHeaders(ctx.organization.id),
+        })
+      ).json().data;
+      expect(matched.hasMismatch).toBe(true);
+      expect(matched.lines[0].match).toMatchObject({
+        orderedQuantity: 10,
+        receivedQuantity: 6,
+        billedQuantity: 8,
+        billedAmount: 3360,
+        issues: ['RATE_MISMATCH', 'QUANTITY_MISMATCH'],
+      });
+
+      // The flags follow the bill to the payment screen
+      const unpaid = await app.inject({
+        method: 'GET',
+        url: `/api/payments/project/${projectId}/party/${vendorId}/unpaid-expenses`,
+        headers: authHeaders(ctx.organization.id),
+      });
+      expect(unpaid.json().data[0].matchIssues).toEqual(['RATE_MISMATCH', 'QUANTITY_MISMATCH']);
+    });
+
+    it('should only match bills from the order vendor against approved orders', async () => {
+      const pending = (await raiseOrder()).json().data;
+      const early = await billLine(pending.lines[0].id, 400, 2);
+      expect(early.statusCode).toBe(400);
+      expect(early.json().error.code).toBe('PURCHASE_ORDER_NOT_APPROVED');
+
+      const order = await approvedOrder();
+      const otherVendor = await testData.createParty(ctx.organization.id, 'VENDOR');
+      const response = await billLine(order.lines[0].id, 400, 2, otherVendor.id);
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('PURCHASE_ORDER_MISMATCH');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Rate Analysis API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let vendorId: string;
+  let bricksId: string;
+  let masonId: string;
+  let brickworkId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    projectId = (await testData.createProject(ctx.organization.id, ctx.residentialType.id)).id;
+    vendorId = (await testData.createParty(ctx.organization.id, 'VENDOR', { name: 'Brick Kiln' }))
+      .id;
+
+    const materialType = await testData.findOrCreateCategoryType('material_type', 'Material Type');
+    let labourType = await prisma.categoryType.findUnique({ where: { key: 'labour_type' } });
+    if (!labourType) {
+      labourType = await testData.createCategoryType('labour_type', 'Labour Type');
+    }
+    bricksId = (await testData.createCategoryItem(ctx.organization.id, materialType.id, 'Bricks'))
+      .id;
+    masonId = (await testData.createCategoryItem(ctx.organization.id, labourType.id, 'Mason')).id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.rateAnalysisTemplate.deleteMany({
+      where: { organizationId: ctx.organization.id },
+    });
+    await prisma.bOQItem.deleteMany({ where: { organizationId: ctx.organization.id } });
+
+    brickworkId = (
+      await prisma.bOQItem.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          category: 'SUB_WORK',
+          description: 'Brickwork in CM 1:6',
+          unit: 'cum',
+          quantity: 100,
+          rate: 6000,
+        },
+      })
+    ).id;
+  });
+
+  // Per cum: 500 bricks at ₹8, half a mason-day at ₹900 and a tenth of an hour
+  // of mixer at ₹500 — ₹4,500 direct, ₹4,950 with 10% overhead, ₹5,445 with
+  // 10% profit
+  const components = () => [
+    {
+      kind: 'MATERIAL',
+      categoryItemId: bricksId,
+      description: 'Bricks',
+      unit: 'nos',
+      quantity: 500,
+      rate: 8,
+    },
+    {
+      kind: 'LABOUR',
+      categoryItemId: masonId,
+      description: 'Mason',
+      unit: 'day',
+      quantity: 0.5,
+      rate: 900,
+    },
+    { kind: 'EQUIPMENT', description: 'Mixer', unit: 'hr', quantity: 0.1, rate: 500 },
+  ];
+
+  const analysisUrl = () => `/api/projects/${projectId}/boq/${brickworkId}/rate-analysis`;
+
+  const put = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'PUT',
+      url: analysisUrl(),
+      headers: authHeaders(ctx.organization.id),
+      payload,
+    });
+
+  const postTemplate = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/rate-templates',
+      headers: authHeaders(ctx.organization.id),
+      payload,
+    });
+
+  const brickBill = (rate: number, quantity: number) =>
+    prisma.expense.create({
+      data: {
+        organizationId: ctx.organization.id,
+        projectId,
+        partyId: vendorId,
+        expenseTypeItemId: ctx.materialsCategory.id,
+        materialTypeItemId: bricksId,
+        rate,
+        quantity,
+        expenseDate: new Date('2026-06-10'),
+      },
+    });
+
+  describe('PUT /api/projects/:projectId/boq/:boqItemId/rate-analysis', () => {
+    it('builds the unit rate from components, overhead and profit', async () => {
+      const response = await put({
+        overheadPercent: 10,
+        profitPercent: 10,
+        components: components(),
+      });
+
+      expect(response.statusCode).toBe(201);
+      const analysis = response.json().data;
+      expect(analysis).toMatchObject({
+        materialCost: 4000,
+        labourCost: 450,
+        equipmentCost: 50,
+        directCost: 4500,
+        overheadAmount: 450,
+        profitAmount: 495,
+        unitRate: 5445,
+        quotedRate: 6000,
+        rateDifference: 555,
+      });
+      expect(analysis.components.map((c: { amount: number }) => c.amount)).toEqual([4000, 450, 50]);
+
+      // The BOQ item keeps its quoted rate
+      const item = await prisma.bOQItem.findUniqueOrThrow({ where: { id: brickworkId } });
+      expect(item.rate.toNumber()).toBe(6000);
+    });
+
+    it('quotes the BOQ item at the analysed rate when asked', async () => {
+      await put({ overheadPercent: 10, profitPercent: 10, components: components() });
+      const response = await put({
+        overheadPercent: 0,
+        profitPercent: 0,
+        components: components(),
+        applyRate: true,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.unitRate).toBe(4500);
+      expect(response.json().data.components).toHaveLength(3);
+
+      const item = await prisma.bOQItem.findUniqueOrThrow({ where: { id: brickworkId } });
+      expect(item.rate.toNumber()).toBe(4500);
+    });
+
+    it('compares component rates with what the project paid', async () => {
+      await brickBill(9, 1000);
+      await brickBill(10, 1000);
+      const rejected = await brickBill(20, 1000);
+      await prisma.expense.update({ where: { id: rejected.id }, data: { status: 'REJECTED' } });
+
+      await put({ components: components() });
+      const response = await app.inject({
+        method: 'GET',
+        url: analysisUrl(),
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      const [bricks, mason, mixer] = response.json().data.components;
+      expect(bricks).toMatchObject({
+        actualRate: 9.5,
+        expenseCount: 2,
+        rateVariance: 1.5,
+        rateVariancePercent: 18.75,
+      });
+      expect(mason).toMatchObject({ actualRate: null, expenseCount: 0, rateVariance: null });
+      expect(mixer.actualRate).toBeNull();
+    });
+
+    it('returns null for an item without an analysis', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: analysisUrl(),
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toBeNull();
+    });
+  });
+
+  describe('/api/rate-templates', () => {
+    it('keeps reusable breakdowns in the library', async () => {
+      const response = await postTemplate({
+        name: 'Brickwork CM 1:6',
+        unit: 'cum',
+        overheadPercent: 10,
+        profitPercent: 10,
+        components: components(),
+      });
+
+      expect(response.statusCode).toBe(201);
+      const template = response.json().data;
+      expect(template.unitRate).toBe(5445);
+      expect(template.components[0].categoryItem.name).toBe('Bricks');
+
+      const duplicate = await postTemplate({
+        name: 'brickwork cm 1:6',
+        unit: 'cum',
+        components: components(),
+      });
+      expect(duplicate.statusCode).toBe(409);
+      expect(duplicate.json().error.code).toBe('DUPLICATE_TEMPLATE_NAME');
+
+      const analysis = await put({
+        templateId: template.id,
+        overheadPercent: 10,
+        profitPercent: 10,
+        components: components(),
+      });
+      expect(analysis.json().data.template.name).toBe('Brickwork CM 1:6');
+    });
+
+    it('rejects category items from outside the organization', async () => {
+      const response = await postTemplate({
+        name: 'Plaster',
+        unit: 'sqm',
+        components: [{ ...components()[0], categoryItemId: 'missing-item' }],
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Rate Library API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let puneProjectId: string;
+  let mumbaiProjectId: string;
+  let acmeId: string;
+  let zenithId: string;
+  let cementId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    puneProjectId = (
+      await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+        location: 'Pune',
+      })
+    ).id;
+    mumbaiProjectId = (
+      await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+        location: 'Mumbai',
+      })
+    ).id;
+    acmeId = (await testData.createParty(ctx.organization.id, 'VENDOR', { name: 'Acme Cement' }))
+      .id;
+    zenithId = (await testData.createParty(ctx.organization.id, 'VENDOR', { name: 'Zenith' })).id;
+
+    const materialType = await testData.findOrCreateCategoryType('material_type', 'Material Type');
+    cementId = (await testData.createCategoryItem(ctx.organization.id, materialType.id, 'Cement'))
+      .id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+  });
+
+  const cementBill = (bill: {
+    projectId: string;
+    partyId: string;
+    rate: number;
+    quantity: number;
+    unit?: string;
+    date: string;
+  }) =>
+    prisma.expense.create({
+      data: {
+        organizationId: ctx.organization.id,
+        projectId: bill.projectId,
+        partyId: bill.partyId,
+        expenseTypeItemId: ctx.materialsCategory.id,
+        materialTypeItemId: cementId,
+        rate: bill.rate,
+        quantity: bill.quantity,
+        unit: bill.unit,
+        expenseDate: new Date(bill.date),
+      },
+    });
+
+  // Acme supplied Pune at ₹380 then ₹400 a bag, Zenith supplied Mumbai at ₹420
+  const seedBills = async () => {
+    await cementBill({
+      projectId: puneProjectId,
+      partyId: acmeId,
+      rate: 380,
+      quantity: 100,
+      unit: 'bag',
+      date: '2026-04-10',
+    });
+    await cementBill({
+      projectId: puneProjectId,
+      partyId: acmeId,
+      rate: 400,
+      quantity: 300,
+      unit: 'Bag',
+      date: '2026-05-12',
+    });
+    await cementBill({
+      projectId: mumbaiProjectId,
+      partyId: zenithId,
+      rate: 420,
+      quantity: 100,
+      unit: 'bag',
+      date: '2026-05-20',
+    });
+  };
+
+  const get = (url: string) =>
+    app.inject({ method: 'GET', url, headers: authHeaders(ctx.organization.id) });
+
+  describe('GET /api/rate-library', () => {
+    it('keeps an entry per type and unit with last, average, min and max', async () => {
+      await seedBills();
+      await cementBill({
+        projectId: puneProjectId,
+        partyId: acmeId,
+        rate: 19,
+        quantity: 50,
+        unit: 'kg',
+        date: '2026-05-01',
+      });
+      const rejected = await cementBill({
+        projectId: puneProjectId,
+        partyId: acmeId,
+        rate: 900,
+        quantity: 10,
+        unit: 'bag',
+        date: '2026-06-01',
+      });
+      await prisma.expense.update({ where: { id: rejected.id }, data: { status: 'REJECTED' } });
+
+      const response = await get('/api/rate-library?type=material_type');
+
+      expect(response.statusCode).toBe(200);
+      const [bags, kgs] = response.json().data;
+      expect(bags).toMatchObject({
+        type: 'material_type',
+        categoryItem: { id: cementId, name: 'Cement' },
+        count: 3,
+        totalQuantity: 500,
+        lastRate: 420,
+        // (380 x 100 + 400 x 300 + 420 x 100) / 500
+        averageRate: 400,
+        minRate: 380,
+        maxRate: 420,
+        vendorCount: 2,
+        locationCount: 2,
+      });
+      expect(kgs).toMatchObject({ unit: 'kg', count: 1, lastRate: 19 });
+    });
+
+    it('only counts expenses dated within the window given', async () => {
+      await seedBills();
+
+      const response = await get(
+        '/api/rate-library?from=2026-05-01T00:00:00.000Z&to=2026-05-31T00:00:00.000Z'
+      );
+
+      expect(response.statusCode).toBe(200);
+      const [bags] = response.json().data;
+      // Only the May bills: (400 x 300 + 420 x 100) / 400
+      expect(bags).toMatchObject({ count: 2, averageRate: 405, minRate: 400, lastRate: 420 });
+    });
+
+    it('leaves out the bills of projects in the Trash', async () => {
+      await seedBills();
+      const trashed = await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+        location: 'Nashik',
+      });
+      await cementBill({
+        projectId: trashed.id,
+        partyId: zenithId,
+        rate: 1000,
+        quantity: 10,
+        unit: 'bag',
+        date: '2026-05-25',
+      });
+      await prisma.project.update({ where: { id: trashed.id }, data: { deletedAt: new Date() } });
+
+      const response = await get('/api/rate-library?type=material_type');
+
+      const [bags] = response.json().data;
+      expect(bags).toMatchObject({ count: 3, maxRate: 420, locationCount: 2 });
+    });
+
+    it('finds types by part of their name', async () => {
+      await seedBills();
+
+      const found = await get('/api/rate-library?search=CEM');
+      expect(found.json().data).toHaveLength(1);
+
+      const missed = await get('/api/rate-library?search=ce%25t');
+      expect(missed.json().data).toHaveLength(0);
+    });
+  });
+
+  describe('GET /api/rate-library/:categoryItemId', () => {
+    it('breaks the rate down by vendor, location and month', async () => {
+      await seedBills();
+
+      const response = await get(`/api/rate-library/${cementId}?unit=bag`);
+
+      expect(response.statusCode).toBe(200);
+      const entry = response.json().data;
+      expect(entry.vendors).toEqual([
+        expect.objectContaining({ party: { id: acmeId, name: 'Acme Cement' }, averageRate: 395 }),
+        expect.objectContaining({ party: { id: zenithId, name: 'Zenith' }, averageRate: 420 }),
+      ]);
+      expect(entry.locations.map((l: { location: string }) => l.location)).toEqual([
+        'Pune',
+        'Mumbai',
+      ]);
+      expect(entry.trend).toEqual([
+        expect.objectContaining({ month: '2026-04', averageRate: 380 }),
+        expect.objectContaining({ month: '2026-05', averageRate: 405, minRate: 400, maxRate: 420 }),
+      ]);
+      expect(entry.recent[0].rate).toBe(420);
+    });
+  });
+
+  describe('GET /api/rate-library/suggest', () => {
+    it("suggests the organization's, the vendor's and the location's rates", async () => {
+      await seedBills();
+
+      const response = await get(
+        `/api/rate-library/suggest?categoryItemId=${cementId}&unit=BAG&partyId=${zenithId}&projectId=${puneProjectId}`
+      );
+
+      expect(response.statusCode).toBe(200);
+      const [suggestion] = response.json().data.suggestions;
+      expect(suggestion.overall).toMatchObject({ lastRate: 420, averageRate: 400 });
+      expect(suggestion.vendor).toMatchObject({ count: 1, lastRate: 420 });
+      expect(suggestion.location).toMatchObject({ location: 'Pune', count: 2, lastRate: 400 });
+    });
+
+    it('rejects category items that are not material, labour or sub-work types', async () => {
+      const response = await get(
+        `/api/rate-library/suggest?categoryItemId=${ctx.materialsCategory.id}`
+      );
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('INVALID_CATEGORY_TYPE');
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Reports API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let partyId: string;
+
+  const DAY = 24 * 60 * 60 * 1000;
+  const daysAgo = (days: number) => new Date(Date.now() - days * DAY);
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.paymentInstallment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.payment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.project.deleteMany({ where: { organizationId: ctx.organization.id } });
+
+    const party = await testData.createParty(ctx.organization.id, 'VENDOR', { name: 'Steel Co' });
+    partyId = party.id;
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+      name: 'Tower A',
+      amount: 1000000,
+    });
+    projectId = project.id;
+  });
+
+  const createBill = (amount: number, expenseDate: Date) =>
+    testData.createExpense(ctx.organization.id, projectId, partyId, ctx.materialsCategory.id, {
+      rate: amount,
+      quantity: 1,
+      expenseDate,
+    });
+
+  const getAging = async (query: string) => {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/reports/aging?${query}`,
+      headers: authHeaders(ctx.organization.id),
+    });
+    expect(response.statusCode).toBe(200);
+    return response.json().data;
+  };
+
+  describe('GET /api/reports/aging', () => {
+    it('should age outstanding bills by expense date and net unapplied payments', async () => {
+      const paidBill = await createBill(1000, daysAgo(10));
+      await createBill(2000, daysAgo(45));
+      await createBill(3000, daysAgo(75));
+      await createBill(4000, daysAgo(120));
+      const rejected = await createBill(9000, daysAgo(5));
+      await prisma.expense.update({ where: { id: rejected.id }, data: { status: 'REJECTED' } });
+
+      // 600 of a 1000 payment settles the newest bill in part; 400 stays on account
+      const payment = await testData.createPayment(ctx.organization.id, projectId, {
+        partyId,
+        amount: 1000,
+      });
+      await prisma.paymentAllocation.create({
+        data: { paymentId: payment.id, expenseId: paidBill.id, amount: 600 },
+      });
+
+      const report = await getAging('kind=payables&groupBy=party');
+
+      expect(report.rows).toHaveLength(1);
+      expect(report.rows[0]).toMatchObject({
+        id: partyId,
+        name: 'Steel Co',
+        days0to30: 400,
+        days31to60: 2000,
+        days61to90: 3000,
+        over90: 4000,
+        total: 9400,
+        documents: 4,
+        unappliedCredit: 400,
+        net: 9000,
+      });
+      expect(report.totals.net).toBe(9000);
+    });
+
+    it('should age due installments by due date per client and skip upcoming ones', async () => {
+      await prisma.project.update({ where: { id: projectId }, data: { clientId: partyId } });
+      const due = await prisma.paymentInstallment.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          name: 'Plinth',
+          sequence: 1,
+          amountType: 'PERCENTAGE',
+          percentage: 10,
+          dueDate: daysAgo(40),
+        },
+      });
+      await prisma.paymentInstallment.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          name: 'Roof',
+          sequence: 2,
+          amountType: 'FIXED',
+          amount: 50000,
+          dueDate: new Date(Date.now() + 10 * DAY),
+        },
+      });
+
+      const receipt = await testData.createPayment(ctx.organization.id, projectId, {
+        type: 'IN',
+        amount: 30000,
+      });
+      await prisma.installmentAllocation.create({
+        data: { installmentId: due.id, paymentId: receipt.id, amount: 25000 },
+      });
+
+      const report = await getAging('kind=receivables&groupBy=project');
+
+      expect(report.rows).toHaveLength(1);
+      expect(report.rows[0]).toMatchObject({
+        id: projectId,
+        name: 'Tower A',
+        days0to30: 0,
+        days31to60: 75000,
+        total: 75000,
+        unappliedCredit: 5000,
+        net: 70000,
+      });
+    });
+
+    it('should export the report as CSV', async () => {
+      await createBill(2500, daysAgo(100));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reports/aging?kind=payables&groupBy=project&format=csv',
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('payables-aging-by-project');
+      const lines = response.body.trim().split('\r\n');
+      expect(lines[0]).toBe(
+        'Project,0-30 days,31-60 days,61-90 days,90+ days,Total,Unapplied credit,Net'
+      );
+      expect(lines[1]).toBe('Tower A,0,0,0,2500,2500,0,2500');
+      expect(lines[2]).toBe('Total,0,0,0,2500,2500,0,2500');
+    });
+  });
+
+  describe('GET /api/reports/aging/items', () => {
+    it('should list the open bills behind a row, oldest first', async () => {
+      const settled = await createBill(800, daysAgo(20));
+      await createBill(1500, daysAgo(3));
+      await createBill(700, daysAgo(65));
+      const payment = await testData.createPayment(ctx.organization.id, projectId, {
+        partyId,
+        amount: 800,
+      });
+      await prisma.paymentAllocation.create({
+        data: { paymentId: payment.id, expenseId: settled.id, amount: 800 },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/reports/aging/items?kind=payables&partyId=${partyId}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { items, total } = response.json().data;
+      expect(items.map((item: { outstanding: number }) => item.outstanding)).toEqual([700, 1500]);
+      expect(items[0]).toMatchObject({ type: 'EXPENSE', ageDays: 65, bucket: 'days61to90' });
+      expect(total).toBe(2200);
+    });
+
+    it('should require a party or a project', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reports/aging/items?kind=payables',
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/reports/gst-input', () => {
+    it("should sum GST on the month's bills per party and split it by state", async () => {
+      await prisma.organization.update({
+        where: { id: ctx.organization.id },
+        data: { stateCode: '32' },
+      });
+      const local = await testData.createParty(ctx.organization.id, 'VENDOR', {
+        name: 'Cement Co',
+      });
+      await prisma.party.update({ where: { id: partyId }, data: { gstin: '29ABCDE1234F1Z5' } });
+
+      const steelBill = await createBill(11800, new Date(2026, 2, 10));
+      await prisma.expense.update({
+        where: { id: steelBill.id },
+        data: { gstRate: 18, gstAmount: 1800, itcEligible: true },
+      });
+      const cementBill = await testData.createExpense(
+        ctx.organization.id,
+        projectId,
+        local.id,
+        ctx.materialsCategory.id,
+        { rate: 1120, quantity: 1, expenseDate: new Date(2026, 2, 20) }
+      );
+      await prisma.expense.update({
+        where: { id: cementBill.id },
+        data: { gstRate: 12, gstAmount: 120.01 },
+      });
+      // Outside the month
+      const aprilBill = await createBill(1180, new Date(2026, 3, 1));
+      await prisma.expense.update({
+        where: { id: aprilBill.id },
+        data: { gstRate: 18, gstAmount: 180, itcEligible: true },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reports/gst-input?month=2026-03',
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const report = response.json().data;
+      expect(report.rows).toHaveLength(2);
+      expect(report.rows[0]).toMatchObject({
+        party: { id: partyId, gstin: '29ABCDE1234F1Z5' },
+        bills: 1,
+        taxableAmount: 10000,
+        igstAmount: 1800,
+        cgstAmount: 0,
+        eligibleCredit: 1800,
+      });
+      // Odd paise go to SGST
+      expect(report.rows[1]).toMatchObject({
+        party: { id: local.id },
+        cgstAmount: 60,
+        sgstAmount: 60.01,
+        igstAmount: 0,
+        ineligibleCredit: 120.01,
+      });
+      expect(report.totals).toMatchObject({ bills: 2, gstAmount: 1920.01, eligibleCredit: 1800 });
+    });
+
+    it('should reject a malformed month', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reports/gst-input?month=2026-13',
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/reports/tds', () => {
+    it('should sum TDS per party and section with the due date', async () => {
+      await prisma.party.update({ where: { id: partyId }, data: { gstin: '32ABCDE1234F1Z5' } });
+      await prisma.payment.createMany({
+        data: [
+          { amount: 50000, tdsAmount: 500, paymentDate: new Date(2026, 2, 5) },
+          { amount: 30000, tdsAmount: 300, paymentDate: new Date(2026, 2, 25) },
+          { amount: 20000, tdsAmount: 200, paymentDate: new Date(2026, 3, 2) },
+        ].map((payment) => ({
+          ...payment,
+          organizationId: ctx.organization.id,
+          projectId,
+          partyId,
+          type: 'OUT' as const,
+          paymentMode: 'ONLINE' as const,
+          tdsSection: '194C',
+          tdsRate: 1,
+        })),
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reports/tds?month=2026-03',
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const report = response.json().data;
+      expect(report.rows).toEqual([
+        expect.objectContaining({
+          party: { id: partyId, name: 'Steel Co', pan: 'ABCDE1234F' },
+          section: '194C',
+          payments: 2,
+          grossAmount: 80000,
+          tdsAmount: 800,
+          netAmount: 79200,
+        }),
+      ]);
+      // TDS for March is due by 30 April
+      expect(new Date(report.dueDate)).toEqual(new Date(2026, 3, 30));
+    });
+
+    it('should export the report as CSV', async () => {
+      await testData.createPayment(ctx.organization.id, projectId, {
+        partyId,
+        amount: 10000,
+        paymentDate: new Date(2026, 4, 15),
+      });
+      await prisma.payment.updateMany({
+        where: { organizationId: ctx.organization.id },
+        data: { tdsSection: '194J', tdsRate: 10, tdsAmount: 1000 },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reports/tds?month=2026-05&format=csv',
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-disposition']).toContain('tds-2026-05.csv');
+      const lines = response.body.trim().split('\r\n');
+      expect(lines[0]).toBe('Section,Nature of payment,Party,PAN,Payments,Gross paid,TDS,Net paid');
+      expect(lines[1]).toBe('194J,Professional or technical fees,Steel Co,,1,10000,1000,9000');
+    });
+  });
+});
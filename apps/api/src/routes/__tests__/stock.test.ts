@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Stock API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let otherProjectId: string;
+  let vendorId: string;
+  let cementId: string;
+  let stageId: string;
+  let taskId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    projectId = (await testData.createProject(ctx.organization.id, ctx.residentialType.id)).id;
+    otherProjectId = (await testData.createProject(ctx.organization.id, ctx.residentialType.id)).id;
+    vendorId = (
+      await testData.createParty(ctx.organization.id, 'VENDOR', { name: 'Shree Cements' })
+    ).id;
+
+    const materialType = await testData.findOrCreateCategoryType('material_type', 'Material Type');
+    cementId = (await testData.createCategoryItem(ctx.organization.id, materialType.id, 'Cement'))
+      .id;
+
+    stageId = (await testData.createStage(ctx.organization.id, projectId, { name: 'Foundation' }))
+      .id;
+    taskId = (
+      await prisma.task.create({
+        data: {
+          organizationId: ctx.organization.id,
+          stageId,
+          name: 'Footings',
+          daysAllocated: 5,
+        },
+      })
+    ).id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.stockMovement.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.purchaseOrder.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.bOQItem.deleteMany({ where: { organizationId: ctx.organization.id } });
+  });
+
+  const post = (url: string, payload: Record<string, unknown>) =>
+    app.inject({ method: 'POST', url, headers: authHeaders(ctx.organization.id), payload });
+
+  const get = (url: string) =>
+    app.inject({ method: 'GET', url, headers: authHeaders(ctx.organization.id) });
+
+  const cementBill = async (quantity: number) => {
+    const bill = await testData.createExpense(
+      ctx.organization.id,
+      projectId,
+      vendorId,
+      ctx.materialsCategory.id,
+      { rate: 400, quantity }
+    );
+    return prisma.expense.update({
+      where: { id: bill.id },
+      data: { materialTypeItemId: cementId },
+    });
+  };
+
+  const line = (payload: Record<string, unknown>) => ({
+    projectId,
+    materialTypeItemId: cementId,
+    unit: 'bag',
+    movementDate: '2026-05-12T00:00:00.000Z',
+    ...payload,
+  });
+
+  const stockOf = async (id = projectId) => {
+    const stock = (await get(`/api/stock/project/${id}`)).json().data;
+    return stock.find((row: { unit: string }) => row.unit === 'bag');
+  };
+
+  describe('Receipts', () => {
+    it('takes a material bill into stock up to its quantity', async () => {
+      const bill = await cementBill(50);
+
+      const receipt = await post('/api/stock/receipts', line({ expenseId: bill.id, quantity: 30 }));
+      expect(receipt.statusCode).toBe(201);
+      expect(receipt.json().data.type).toBe('RECEIPT');
+      expect(Number(receipt.json().data.quantity)).toBe(30);
+
+      const sources = (await get(`/api/stock/project/${projectId}/sources`)).json().data;
+      expect(sources.bills).toHaveLength(1);
+      expect(sources.bills[0].remainingQuantity).toBe(20);
+
+      const over = await post('/api/stock/receipts', line({ expenseId: bill.id, quantity: 25 }));
+      expect(over.statusCode).toBe(400);
+      expect(over.json().error.code).toBe('STOCK_SOURCE_EXCEEDED');
+
+      expect(await stockOf()).toMatchObject({ received: 30, balance: 30 });
+    });
+
+    it('takes goods received against a purchase order into stock', async () => {
+      const order = (
+        await post('/api/purchase-orders', {
+          projectId,
+          vendorId,
+          orderDate: '2026-05-04T00:00:00.000Z',
+          lines: [{ description: 'OPC 53 cement', unit: 'bag', quantity: 100, rate: 400 }],
+        })
+      ).json().data;
+      await post(`/api/purchase-orders/${order.id}/approve`, {});
+      await post(`/api/purchase-orders/${order.id}/receipts`, {
+        receivedDate: '2026-05-10T00:00:00.000Z',
+        lines: [{ purchaseOrderLineId: order.lines[0].id, quantity: 60 }],
+      });
+
+      const sources = (await get(`/api/stock/project/${projectId}/sources`)).json().data;
+      expect(sources.receiptLines).toHaveLength(1);
+      expect(sources.receiptLines[0].remainingQuantity).toBe(60);
+
+      const receipt = await post(
+        '/api/stock/receipts',
+        line({ goodsReceiptLineId: sources.receiptLines[0].id, quantity: 60 })
+      );
+      expect(receipt.statusCode).toBe(201);
+      expect(receipt.json().data.goodsReceiptLine.receipt.purchaseOrder.orderNumber).toBe(
+        order.orderNumber
+      );
+
+      // A bill matched to the order comes into stock through the goods received note
+      const bill = await cementBill(60);
+      await prisma.expense.update({
+        where: { id: bill.id },
+        data: { purchaseOrderLineId: order.lines[0].id },
+      });
+      const billed = await post('/api/stock/receipts', line({ expenseId: bill.id, quantity: 60 }));
+      expect(billed.statusCode).toBe(400);
+      expect(billed.json().error.code).toBe('STOCK_RECEIVED_BY_ORDER');
+    });
+
+    it('needs exactly one source', async () => {
+      const response = await post('/api/stock/receipts', line({ quantity: 10 }));
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('Issues, transfers and adjustments', () => {
+    beforeEach(async () => {
+      const bill = await cementBill(100);
+      await post('/api/stock/receipts', line({ expenseId: bill.id, quantity: 100 }));
+    });
+
+    it('issues material to a task of a stage', async () => {
+      const issue = await post('/api/stock/issues', line({ taskId, quantity: 40 }));
+      expect(issue.statusCode).toBe(201);
+      expect(issue.json().data).toMatchObject({ type: 'ISSUE', stageId, taskId });
+      expect(Number(issue.json().data.quantity)).toBe(-40);
+
+      const over = await post('/api/stock/issues', line({ stageId, quantity: 61 }));
+      expect(over.statusCode).toBe(400);
+      expect(over.json().error.code).toBe('INSUFFICIENT_STOCK');
+
+      expect(await stockOf()).toMatchObject({ issued: 40, balance: 60 });
+    });
+
+    it('moves material to another site', async () => {
+      const transfer = await post(
+        '/api/stock/transfers',
+        line({ toProjectId: otherProjectId, quantity: 25 })
+      );
+      expect(transfer.statusCode).toBe(201);
+      const { transferOut, transferIn } = transfer.json().data;
+      expect(transferOut.transferId).toBe(transferIn.transferId);
+
+      expect(await stockOf()).toMatchObject({ transferredOut: 25, balance: 75 });
+      expect(await stockOf(otherProjectId)).toMatchObject({ transferredIn: 25, balance: 25 });
+
+      const same = await post(
+        '/api/stock/transfers',
+        line({ toProjectId: projectId, quantity: 5 })
+      );
+      expect(same.json().error.code).toBe('STOCK_TRANSFER_SAME_PROJECT');
+    });
+
+    it('adjusts stock to a physical count', async () => {
+      const adjustment = await post(
+        '/api/stock/adjustments',
+        line({ countedQuantity: 97, notes: 'Three bags set hard in the rain' })
+      );
+      expect(adjustment.statusCode).toBe(201);
+      expect(Number(adjustment.json().data.quantity)).toBe(-3);
+
+      const ledger = (await get(`/api/stock/project/${projectId}/ledger`)).json().data;
+      expect(ledger.map((movement: { balance: number }) => movement.balance)).toEqual([100, 97]);
+
+      const unchanged = await post(
+        '/api/stock/adjustments',
+        line({ countedQuantity: 97, notes: 'Recount' })
+      );
+      expect(unchanged.json().error.code).toBe('STOCK_COUNT_MATCHES');
+    });
+
+    it('compares consumed quantity with the BOQ', async () => {
+      await prisma.bOQItem.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          stageId,
+          materialTypeItemId: cementId,
+          category: 'MATERIAL',
+          description: 'Cement for footings',
+          unit: 'bag',
+          quantity: 50,
+          rate: 400,
+        },
+      });
+      await post('/api/stock/issues', line({ stageId, quantity: 60 }));
+
+      const variance = (
+        await get(`/api/stock/project/${projectId}/variance?stageId=${stageId}`)
+      ).json().data;
+      expect(variance).toEqual([
+        expect.objectContaining({
+          materialName: 'Cement',
+          plannedQuantity: 50,
+          consumedQuantity: 60,
+          varianceQuantity: 10,
+          variancePercent: 20,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Subcontracts API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let subcontractorId: string;
+  let cementId: string;
+  let stageId: string;
+  let plasterId: string;
+  let skirtingId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    projectId = (await testData.createProject(ctx.organization.id, ctx.residentialType.id)).id;
+    subcontractorId = (
+      await testData.createParty(ctx.organization.id, 'SUBCONTRACTOR', { name: 'Sai Plasterers' })
+    ).id;
+    await testData.createCategoryItem(
+      ctx.organization.id,
+      ctx.labourCategory.categoryTypeId,
+      'Sub Work'
+    );
+
+    const materialType = await testData.findOrCreateCategoryType('material_type', 'Material Type');
+    cementId = (await testData.createCategoryItem(ctx.organization.id, materialType.id, 'Cement'))
+      .id;
+
+    stageId = (await testData.createStage(ctx.organization.id, projectId, { name: 'Finishes' })).id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.expense.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.stockMovement.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.workOrder.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.bOQItem.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.partyLedgerEntry.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.project.update({ where: { id: projectId }, data: { status: 'ACTIVE' } });
+
+    const boqItem = (description: string, unit: string, quantity: number) =>
+      prisma.bOQItem.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          stageId,
+          category: 'SUB_WORK',
+          description,
+          unit,
+          quantity,
+          rate: 300,
+        },
+      });
+    plasterId = (await boqItem('Internal plaster', 'sqm', 100)).id;
+    skirtingId = (await boqItem('Tile skirting', 'm', 50)).id;
+  });
+
+  const post = (url: string, payload?: Record<string, unknown>) =>
+    app.inject({ method: 'POST', url, headers: authHeaders(ctx.organization.id), payload });
+
+  const get = (url: string) =>
+    app.inject({ method: 'GET', url, headers: authHeaders(ctx.organization.id) });
+
+  // Plaster at 250 a sqm and skirting at 400 a metre, holding 5% retention and
+  // recovering advances at 10% of each bill
+  const createWorkOrder = async () =>
+    (
+      await post('/api/subcontracts/work-orders', {
+        projectId,
+        subcontractorId,
+        orderDate: '2026-06-01T00:00:00.000Z',
+        retentionPercent: 5,
+        advanceRecoveryPercent: 10,
+        lines: [
+          { boqItemId: plasterId, quantity: 100, rate: 250 },
+          { boqItemId: skirtingId, quantity: 50, rate: 400 },
+        ],
+      })
+    ).json().data;
+
+  const raiseBill = (
+    workOrder: { id: string; lines: { id: string }[] },
+    plaster: number,
+    skirting = 0
+  ) =>
+    post(`/api/subcontracts/work-orders/${workOrder.id}/ra-bills`, {
+      billDate: '2026-06-30T00:00:00.000Z',
+      lines: [
+        { workOrderLineId: workOrder.lines[0].id, cumulativeQuantity: plaster },
+        { workOrderLineId: workOrder.lines[1].id, cumulativeQuantity: skirting },
+      ],
+    });
+
+  // 10 bags of cement issued to the work order, recovered at 350 a bag
+  const issueCement = async (workOrderId: string) => {
+    await prisma.stockMovement.create({
+      data: {
+        organizationId: ctx.organization.id,
+        projectId,
+        materialTypeItemId: cementId,
+        unit: 'bag',
+        type: 'RECEIPT',
+        quantity: 50,
+        movementDate: new Date('2026-06-01'),
+      },
+    });
+    return post('/api/stock/issues', {
+      projectId,
+      materialTypeItemId: cementId,
+      unit: 'bag',
+      movementDate: '2026-06-10T00:00:00.000Z',
+      stageId,
+      quantity: 10,
+      workOrderId,
+      recoveryRate: 350,
+    });
+  };
+
+  const payAdvance = (amount: number) =>
+    prisma.partyLedgerEntry.create({
+      data: {
+        organizationId: ctx.organization.id,
+        projectId,
+        partyId: subcontractorId,
+        type: 'ADVANCE',
+        amount,
+        entryDate: new Date('2026-06-02'),
+        narration: 'Mobilisation advance',
+      },
+    });
+
+  describe('Work orders', () => {
+    it('numbers a work order and totals its lines', async () => {
+      const workOrder = await createWorkOrder();
+
+      expect(workOrder.orderNumber).toMatch(/^WO-\d{4}$/);
+      expect(Number(workOrder.totalAmount)).toBe(45000);
+      expect(workOrder.lines.map((line: { amount: string }) => Number(line.amount))).toEqual([
+        25000, 20000,
+      ]);
+    });
+
+    it('only gives work orders to subcontractors', async () => {
+      const vendor = await testData.createParty(ctx.organization.id, 'VENDOR');
+      const response = await post('/api/subcontracts/work-orders', {
+        projectId,
+        subcontractorId: vendor.id,
+        orderDate: '2026-06-01T00:00:00.000Z',
+        lines: [{ boqItemId: plasterId, quantity: 100, rate: 250 }],
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('SUBCONTRACTOR_REQUIRED');
+    });
+  });
+
+  describe('RA bills', () => {
+    it('deducts retention, advance and material from the measured work', async () => {
+      const workOrder = await createWorkOrder();
+      await payAdvance(1500);
+      expect((await issueCement(workOrder.id)).statusCode).toBe(201);
+
+      const response = await raiseBill(workOrder, 40);
+
+      expect(response.statusCode).toBe(201);
+      const bill = response.json().data;
+      expect(bill.billNumber).toBe(1);
+      expect(bill.lines).toHaveLength(1);
+      expect(Number(bill.grossAmount)).toBe(10000);
+      expect(Number(bill.retentionAmount)).toBe(500);
+      expect(Number(bill.advanceRecovery)).toBe(1000);
+      expect(Number(bill.materialDeduction)).toBe(3500);
+      expect(Number(bill.netAmount)).toBe(5000);
+    });
+
+    it('bills only what was measured since the last approved bill', async () => {
+      const workOrder = await createWorkOrder();
+      await payAdvance(1500);
+      const first = (await raiseBill(workOrder, 40)).json().data;
+      await post(`/api/subcontracts/ra-bills/${first.id}/approve`);
+
+      const response = await raiseBill(workOrder, 100, 20);
+
+      expect(response.statusCode).toBe(201);
+      const bill = response.json().data;
+      const [plaster, skirting] = bill.lines;
+      expect(Number(plaster.previousQuantity)).toBe(40);
+      expect(Number(plaster.quantity)).toBe(60);
+      expect(Number(skirting.quantity)).toBe(20);
+      expect(Number(bill.grossAmount)).toBe(23000);
+      // Only 500 of the advance is left to recover
+      expect(Number(bill.advanceRecovery)).toBe(500);
+      expect(Number(bill.netAmount)).toBe(21350);
+    });
+
+    it('does not measure below what was already billed', async () => {
+      const workOrder = await createWorkOrder();
+      const first = (await raiseBill(workOrder, 40)).json().data;
+      await post(`/api/subcontracts/ra-bills/${first.id}/approve`);
+
+      const response = await raiseBill(workOrder, 30);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('MEASUREMENT_BELOW_PREVIOUS');
+    });
+
+    it('posts an approved bill as a Sub Work expense of the subcontractor', async () => {
+      const workOrder = await createWorkOrder();
+      await payAdvance(1500);
+      await issueCement(workOrder.id);
+      const bill = (await raiseBill(workOrder, 40)).json().data;
+
+      const response = await post(`/api/subcontracts/ra-bills/${bill.id}/approve`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.status).toBe('APPROVED');
+      const expenses = await prisma.expense.findMany({ where: { raBillId: bill.id } });
+      expect(expenses).toHaveLength(1);
+      expect(expenses[0].partyId).toBe(subcontractorId);
+      expect(expenses[0].status).toBe('APPROVED');
+      // Net of 5000, and the 1000 of advance it recovers
+      expect(Number(expenses[0].rate) * Number(expenses[0].quantity)).toBe(6000);
+    });
+
+    it('locks the posted expense to its bill', async () => {
+      const workOrder = await createWorkOrder();
+      const bill = (await raiseBill(workOrder, 40)).json().data;
+      await post(`/api/subcontracts/ra-bills/${bill.id}/approve`);
+      const [expense] = await prisma.expense.findMany({ where: { raBillId: bill.id } });
+
+      const reopen = await post(`/api/expenses/${expense.id}/reopen`, {});
+      const remove = await app.inject({
+        method: 'DELETE',
+        url: `/api/expenses/${expense.id}`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(reopen.statusCode).toBe(409);
+      expect(reopen.json().error.code).toBe('EXPENSE_FROM_BILL');
+      expect(remove.statusCode).toBe(409);
+      expect(remove.json().error.code).toBe('EXPENSE_FROM_BILL');
+    });
+
+    it('gives back deducted material when a bill is rejected', async () => {
+      const workOrder = await createWorkOrder();
+      await issueCement(workOrder.id);
+      const bill = (await raiseBill(workOrder, 40)).json().data;
+
+      const response = await post(`/api/subcontracts/ra-bills/${bill.id}/reject`, {
+        reason: 'Plaster measured twice',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(await prisma.stockMovement.count({ where: { raBillId: bill.id } })).toBe(0);
+      const next = (await raiseBill(workOrder, 40)).json().data;
+      expect(Number(next.materialDeduction)).toBe(3500);
+    });
+  });
+
+  describe('Retention', () => {
+    it('releases retention once the project is completed', async () => {
+      const workOrder = await createWorkOrder();
+      const bill = (await raiseBill(workOrder, 40)).json().data;
+      await post(`/api/subcontracts/ra-bills/${bill.id}/approve`);
+      const url = `/api/subcontracts/work-orders/${workOrder.id}/release-retention`;
+
+      const early = await post(url);
+      expect(early.statusCode).toBe(400);
+      expect(early.json().error.code).toBe('RETENTION_NOT_DUE');
+
+      await prisma.project.update({ where: { id: projectId }, data: { status: 'COMPLETED' } });
+      const response = await post(url);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.retentionReleasedAt).not.toBeNull();
+      const [release] = await prisma.expense.findMany({
+        where: { retentionWorkOrderId: workOrder.id },
+      });
+      expect(Number(release.rate)).toBe(500);
+
+      const again = await post(url);
+      expect(again.json().error.code).toBe('RETENTION_RELEASED');
+      const closed = await raiseBill(workOrder, 60);
+      expect(closed.json().error.code).toBe('WORK_ORDER_CLOSED');
+    });
+  });
+
+  it('shows what approved bills paid and held on each work order', async () => {
+    const workOrder = await createWorkOrder();
+    const bill = (await raiseBill(workOrder, 40)).json().data;
+    await post(`/api/subcontracts/ra-bills/${bill.id}/approve`);
+
+    const [order] = (await get(`/api/subcontracts/work-orders/project/${projectId}`)).json().data;
+
+    expect(order.lines[0].measuredQuantity).toBe(40);
+    expect(order.billedAmount).toBe(10000);
+    expect(order.retentionHeld).toBe(500);
+    expect(order.netPaid).toBe(9500);
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import type { FastifyInstance } from 'fastify';
+
+describe('Tax Invoices API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let clientId: string;
+  let boqItemId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    await prisma.organization.update({
+      where: { id: ctx.organization.id },
+      data: { gstin: '29ABCDE1234F1Z5', stateCode: '29', invoicePrefix: 'WS' },
+    });
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.taxInvoice.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.taxInvoiceSeries.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.paymentInstallment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.payment.deleteMany({ where: { organizationId: ctx.organization.id } });
+    await prisma.project.deleteMany({ where: { organizationId: ctx.organization.id } });
+
+    const client = await prisma.party.create({
+      data: {
+        organizationId: ctx.organization.id,
+        name: 'Acme Homes',
+        location: 'Bengaluru',
+        type: 'CLIENT',
+        gstin: '29AAACA1234B1Z2',
+        stateCode: '29',
+      },
+    });
+    clientId = client.id;
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id, {
+      clientId,
+      amount: 1000000,
+    });
+    projectId = project.id;
+    const boqItem = await prisma.bOQItem.create({
+      data: {
+        organizationId: ctx.organization.id,
+        projectId,
+        category: 'MATERIAL',
+        description: 'PCC 1:4:8',
+        unit: 'cum',
+        quantity: 10,
+        rate: 5000,
+      },
+    });
+    boqItemId = boqItem.id;
+  });
+
+  const raiseInvoice = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: 'POST',
+      url: '/api/tax-invoices',
+      headers: authHeaders(ctx.organization.id),
+      payload: { projectId, invoiceDate: '2026-05-10T00:00:00.000Z', ...payload },
+    });
+
+  const boqLine = (quantity?: number) => ({
+    source: 'BOQ_ITEM',
+    boqItemId,
+    hsnSac: '9954',
+    gstRate: 18,
+    ...(quantity !== undefined && { quantity }),
+  });
+
+  describe('POST /api/tax-invoices', () => {
+    it('should bill BOQ quantities with CGST and SGST and number invoices per financial year', async () => {
+      const first = await raiseInvoice({ lines: [boqLine(4)] });
+
+      expect(first.statusCode).toBe(201);
+      const invoice = first.json().data;
+      expect(invoice).toMatchObject({
+        invoiceNumber: 'WS/2026-27/0001',
+        financialYear: '2026-27',
+        placeOfSupply: '29',
+        isInterState: false,
+        recipientGstin: '29AAACA1234B1Z2',
+      });
+      expect(Number(invoice.taxableAmount)).toBe(20000);
+      expect(Number(invoice.cgstAmount)).toBe(1800);
+      expect(Number(invoice.sgstAmount)).toBe(1800);
+      expect(Number(invoice.igstAmount)).toBe(0);
+      expect(Number(invoice.totalAmount)).toBe(23600);
+      expect(invoice.lines[0]).toMatchObject({ description: 'PCC 1:4:8', unit: 'cum' });
+
+      // The rest of the BOQ quantity is billed by default
+      const second = await raiseInvoice({ lines: [boqLine()] });
+      expect(second.json().data.invoiceNumber).toBe('WS/2026-27/0002');
+      expect(Number(second.json().data.lines[0].quantity)).toBe(6);
+
+      // A date before April falls in the previous financial year's series
+      const earlier = await raiseInvoice({
+        invoiceDate: '2026-03-20T00:00:00.000Z',
+        lines: [
+          {
+            source: 'MANUAL',
+            description: 'Mobilisation',
+            hsnSac: '9954',
+            gstRate: 18,
+            quantity: 1,
+            rate: 1000,
+          },
+        ],
+      });
+      expect(earlier.json().data.invoiceNumber).toBe('WS/2025-26/0001');
+
+      // Midnight on 1 April in India is still 31 March in UTC
+      const april = await raiseInvoice({
+        invoiceDate: '2027-03-31T18:30:00.000Z',
+        lines: [
+          {
+            source: 'MANUAL',
+            description: 'Mobilisation',
+            hsnSac: '9954',
+            gstRate: 18,
+            quantity: 1,
+            rate: 1000,
+          },
+        ],
+      });
+      expect(april.json().data.invoiceNumber).toBe('WS/2027-28/0001');
+    });
+
+    it('should charge IGST when the place of supply is in another state', async () => {
+      const response = await raiseInvoice({ placeOfSupply: '27', lines: [boqLine(2)] });
+
+      expect(response.statusCode).toBe(201);
+      const invoice = response.json().data;
+      expect(invoice.isInterState).toBe(true);
+      expect(Number(invoice.igstAmount)).toBe(1800);
+      expect(Number(invoice.cgstAmount)).toBe(0);
+    });
+
+    it('should not bill more than the BOQ quantity or a stage twice', async () => {
+      await raiseInvoice({ lines: [boqLine(8)] });
+      const over = await raiseInvoice({ lines: [boqLine(3)] });
+      expect(over.statusCode).toBe(400);
+      expect(over.json().error.code).toBe('EXCEEDS_BOQ_QUANTITY');
+
+      const stage = await testData.createStage(ctx.organization.id, projectId, { name: 'Plinth' });
+      await prisma.paymentInstallment.create({
+        data: {
+          organizationId: ctx.organization.id,
+          projectId,
+          stageId: stage.id,
+          name: 'Plinth milestone',
+          sequence: 1,
+          amountType: 'PERCENTAGE',
+          percentage: 10,
+        },
+      });
+      const stageLine = { source: 'STAGE', stageId: stage.id, hsnSac: '9954', gstRate: 12 };
+
+      const billed = await raiseInvoice({ lines: [stageLine] });
+      expect(billed.statusCode).toBe(201);
+      expect(Number(billed.json().data.taxableAmount)).toBe(100000);
+
+      const again = await raiseInvoice({ lines: [stageLine] });
+      expect(again.statusCode).toBe(400);
+      expect(again.json().error.code).toBe('STAGE_ALREADY_BILLED');
+    });
+  });
+
+  describe('Receipts against invoices', () => {
+    it('should allocate receipts oldest first and release them on cancellation', async () => {
+      const first = (await raiseInvoice({ lines: [boqLine(2)] })).json().data; // 11800
+      const second = (await raiseInvoice({ lines: [boqLine(2)] })).json().data; // 11800
+
+      const receipt = await app.inject({
+        method: 'POST',
+        url: '/api/payments',
+        headers: authHeaders(ctx.organization.id),
+        payload: {
+          projectId,
+          type: 'IN',
+          paymentMode: 'ONLINE',
+          amount: 15000,
+          paymentDate: new Date().toISOString(),
+        },
+      });
+      expect(receipt.statusCode).toBe(201);
+
+      const list = async () =>
+        (
+          await app.inject({
+            method: 'GET',
+            url: `/api/tax-invoices/project/${projectId}`,
+            headers: authHeaders(ctx.organization.id),
+          })
+        ).json().data;
+
+      let result = await list();
+      const byId = (id: string) =>
+        result.invoices.find((invoice: { id: string }) => invoice.id === id);
+      expect(byId(first.id)).toMatchObject({ received: 11800, paymentStatus: 'PAID' });
+      expect(byId(second.id)).toMatchObject({ received: 3200, outstanding: 8600 });
+
+      const cancelled = await app.inject({
+        method: 'POST',
+        url: `/api/tax-invoices/${first.id}/cancel`,
+        headers: authHeaders(ctx.organization.id),
+        payload: { reason: 'Raised in error' },
+      });
+      expect(cancelled.statusCode).toBe(200);
+      expect(cancelled.json().data.status).toBe('CANCELLED');
+
+      result = await list();
+      expect(byId(second.id)).toMatchObject({ received: 11800, paymentStatus: 'PAID' });
+      expect(result.summary).toMatchObject({ invoicedAmount: 11800, outstandingAmount: 0 });
+    });
+  });
+
+  describe('GET /api/tax-invoices/:id', () => {
+    it('should render the invoice as PDF', async () => {
+      const invoice = (await raiseInvoice({ lines: [boqLine(1)] })).json().data;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/tax-invoices/${invoice.id}?format=pdf`,
+        headers: authHeaders(ctx.organization.id),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toContain('invoice-WS-2026-27-0001.pdf');
+      expect(response.rawPayload.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  createTestApp,
+  testData,
+  cleanup,
+  authHeaders,
+  setupTestContext,
+} from '../../tests/helper';
+import { prisma } from '../../lib/prisma';
+import { ALL_PERMISSION_KEYS } from '../../lib/permissions';
+import type { FastifyInstance } from 'fastify';
+
+describe('Trash API', () => {
+  let app: FastifyInstance;
+  let ctx: Awaited<ReturnType<typeof setupTestContext>>;
+  let projectId: string;
+  let partyId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ctx = await setupTestContext();
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    projectId = project.id;
+    const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+    partyId = party.id;
+  });
+
+  afterAll(async () => {
+    await cleanup.organization(ctx.organization.id);
+    await app.close();
+  });
+
+  it('should hide a deleted expense until it is restored', async () => {
+    const headers = authHeaders(ctx.organization.id);
+    const expense = await testData.createExpense(
+      ctx.organization.id,
+      projectId,
+      partyId,
+      ctx.materialsCategory.id
+    );
+
+    await app.inject({ method: 'DELETE', url: `/api/expenses/${expense.id}`, headers });
+
+    const hidden = await app.inject({ method: 'GET', url: `/api/expenses/${expense.id}`, headers });
+    expect(hidden.statusCode).toBe(404);
+
+    const trash = await app.inject({
+      method: 'GET',
+      url: '/api/trash?entityType=EXPENSE',
+      headers,
+    });
+    expect(trash.statusCode).toBe(200);
+    expect(trash.json().data.items.map((item: { id: string }) => item.id)).toContain(expense.id);
+
+    const restored = await app.inject({
+      method: 'POST',
+      url: `/api/trash/EXPENSE/${expense.id}/restore`,
+      headers,
+    });
+    expect(restored.statusCode).toBe(204);
+
+    const visible = await app.inject({
+      method: 'GET',
+      url: `/api/expenses/${expense.id}`,
+      headers,
+    });
+    expect(visible.statusCode).toBe(200);
+  });
+
+  it('should hide the expenses of a deleted project with it', async () => {
+    const headers = authHeaders(ctx.organization.id);
+    const project = await testData.createProject(ctx.organization.id, ctx.residentialType.id);
+    await testData.createExpense(
+      ctx.organization.id,
+      project.id,
+      partyId,
+      ctx.materialsCategory.id
+    );
+
+    await app.inject({ method: 'DELETE', url: `/api/projects/${project.id}`, headers });
+
+    const expenses = await app.inject({
+      method: 'GET',
+      url: `/api/expenses?projectId=${project.id}`,
+      headers,
+    });
+    expect(expenses.json().data.items).toHaveLength(0);
+
+    // Only the project itself is listed; its expenses come back on restore
+    const trash = await app.inject({ method: 'GET', url: '/api/trash', headers });
+    const projectItems = trash
+      .json()
+      .data.items.filter(
+        (item: { projectName: string | null }) => item.projectName === project.name
+      );
+    expect(projectItems).toHaveLength(0);
+
+    await app.inject({
+      method: 'POST',
+      url: `/api/trash/PROJECT/${project.id}/restore`,
+      headers,
+    });
+
+    const restored = await app.inject({
+      method: 'GET',
+      url: `/api/expenses?projectId=${project.id}`,
+      headers,
+    });
+    expect(restored.json().data.items).toHaveLength(1);
+  });
+
+  it('should page the Trash across record types, newest first', async () => {
+    const headers = authHeaders(ctx.organization.id);
+    const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+    const expense = await testData.createExpense(
+      ctx.organization.id,
+      projectId,
+      partyId,
+      ctx.materialsCategory.id
+    );
+    // Deleted after anything else in the Trash
+    await prisma.party.update({
+      where: { id: party.id },
+      data: { deletedAt: new Date('2100-01-02') },
+    });
+    await prisma.expense.update({
+      where: { id: expense.id },
+      data: { deletedAt: new Date('2100-01-01') },
+    });
+
+    const page = (number: number) =>
+      app.inject({ method: 'GET', url: `/api/trash?page=${number}&limit=1`, headers });
+    const [first, second] = await Promise.all([page(1), page(2)]);
+
+    expect(first.json().data.items.map((item: { id: string }) => item.id)).toEqual([party.id]);
+    expect(second.json().data.items.map((item: { id: string }) => item.id)).toEqual([expense.id]);
+    expect(first.json().data.pagination.total).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should only purge after the retention window', async () => {
+    const headers = authHeaders(ctx.organization.id);
+    const payment = await testData.createPayment(ctx.organization.id, projectId);
+
+    await app.inject({ method: 'DELETE', url: `/api/payments/${payment.id}`, headers });
+
+    const early = await app.inject({
+      method: 'DELETE',
+      url: `/api/trash/PAYMENT/${payment.id}`,
+      headers,
+    });
+    expect(early.statusCode).toBe(409);
+    expect(early.json().error.code).toBe('RETENTION_PERIOD_ACTIVE');
+
+    // Deleted long enough ago
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { deletedAt: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000) },
+    });
+
+    const purged = await app.inject({
+      method: 'DELETE',
+      url: `/api/trash/PAYMENT/${payment.id}`,
+      headers,
+    });
+    expect(purged.statusCode).toBe(204);
+    expect(await prisma.payment.findUnique({ where: { id: payment.id } })).toBeNull();
+  });
+
+  it('should limit purging to full-access roles', async () => {
+    // Holding every permission key is not the same as full access
+    const everyKey = await testData.createRole(ctx.organization.id, 'Every Key', [
+      ...ALL_PERMISSION_KEYS,
+    ]);
+    const manager = await testData.createMemberWithRole(ctx.organization.id, everyKey.id);
+    const party = await testData.createParty(ctx.organization.id, 'VENDOR');
+
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/parties/${party.id}`,
+      headers: authHeaders(ctx.organization.id),
+    });
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/trash/PARTY/${party.id}`,
+      headers: authHeaders(ctx.organization.id, manager.id),
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+});
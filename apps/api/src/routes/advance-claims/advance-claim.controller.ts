@@ -0,0 +1,363 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { PaymentMode } from '@prisma/client';
+import {
+  advanceClaimRepository,
+  type AdvanceClaimWithAttachments,
+} from '../../repositories/advance-claim.repository';
+import { advanceClaimService } from '../../services/advance-claim.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { compressionService } from '../../services/compression.service';
+import { storageService } from '../../services/storage.service';
+import { getRequestPermissions } from '../../middleware/organization.middleware';
+import { hasPermission, PERMISSION_ERRORS, type PermissionKey } from '../../lib/permissions';
+import { createErrorHandler } from '../../lib/error-handler';
+import {
+  sendSuccess,
+  sendPaginated,
+  sendNotFound,
+  sendNoContent,
+  sendError,
+  buildPagination,
+} from '../../lib/response.utils';
+import type {
+  CreateAdvanceClaimInput,
+  UpdateAdvanceClaimInput,
+  SettleAdvanceClaimInput,
+  RejectAdvanceClaimInput,
+  AdvanceClaimQuery,
+  AdvanceClaimParams,
+  ClaimAttachmentParams,
+} from './advance-claim.schema';
+
+const handle = createErrorHandler('advance-claim');
+
+// Bills and receipts: images and PDFs
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+// Max file size: 10MB
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Members may always act on their own claims; other members' claims need the
+ * given permission (advances.view to read, advances.manage to change)
+ */
+async function canActOnMember(
+  request: FastifyRequest,
+  memberId: string,
+  key: PermissionKey
+): Promise<boolean> {
+  if (memberId === request.memberId) return true;
+  return hasPermission(await getRequestPermissions(request), key);
+}
+
+function sendForbidden(reply: FastifyReply) {
+  return sendError(reply, 403, PERMISSION_ERRORS.ACTION_NOT_ALLOWED, 'FORBIDDEN');
+}
+
+/**
+ * Load a claim the caller may act on, or send the matching error response
+ */
+async function loadClaim(
+  request: FastifyRequest<{ Params: AdvanceClaimParams }>,
+  reply: FastifyReply,
+  key: PermissionKey
+): Promise<AdvanceClaimWithAttachments | null> {
+  const claim = await advanceClaimService.findById(request.organizationId, request.params.id);
+
+  if (!claim) {
+    sendNotFound(reply, 'Claim');
+    return null;
+  }
+  if (!(await canActOnMember(request, claim.memberId, key))) {
+    sendForbidden(reply);
+    return null;
+  }
+
+  return claim;
+}
+
+// ============================================
+// List Claims
+// ============================================
+export const listClaims = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: AdvanceClaimQuery }>, reply: FastifyReply) => {
+    const { page, limit, projectId, memberId, status } = request.query;
+    const skip = (page - 1) * limit;
+
+    // Without advances.view, members only see their own claims
+    const canViewAll = hasPermission(await getRequestPermissions(request), 'advances.view');
+
+    const { claims, total } = await advanceClaimRepository.findAll(request.organizationId, {
+      skip,
+      take: limit,
+      projectId,
+      memberId: canViewAll ? memberId : request.memberId,
+      status,
+    });
+
+    return sendPaginated(reply, claims, buildPagination(page, limit, total));
+  }
+);
+
+// ============================================
+// Get Single Claim
+// ============================================
+export const getClaim = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: AdvanceClaimParams }>, reply: FastifyReply) => {
+    const claim = await loadClaim(request, reply, 'advances.view');
+    if (!claim) return reply;
+
+    return sendSuccess(reply, claim);
+  }
+);
+
+// ============================================
+// Create Claim
+// ============================================
+export const createClaim = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateAdvanceClaimInput }>, reply: FastifyReply) => {
+    const memberId = request.body.memberId ?? request.memberId;
+    if (!(await canActOnMember(request, memberId, 'advances.manage'))) {
+      return sendForbidden(reply);
+    }
+
+    const claim = await advanceClaimService.create(request.organizationId, {
+      ...request.body,
+      memberId,
+      expenseDate: new Date(request.body.expenseDate),
+    });
+    await auditService.recordCreate(auditContext(request), 'ADVANCE_CLAIM', claim);
+
+    return sendSuccess(reply, claim, 201);
+  }
+);
+
+// ============================================
+// Update Claim
+// ============================================
+export const updateClaim = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: AdvanceClaimParams; Body: UpdateAdvanceClaimInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await loadClaim(request, reply, 'advances.manage');
+    if (!existing) return reply;
+
+    const claim = await advanceClaimService.update(request.organizationId, existing, {
+      ...request.body,
+      expenseDate: request.body.expenseDate ? new Date(request.body.expenseDate) : undefined,
+    });
+    await auditService.recordUpdate(auditContext(request), 'ADVANCE_CLAIM', existing, claim);
+
+    return sendSuccess(reply, claim);
+  }
+);
+
+// ============================================
+// Delete Claim
+// ============================================
+export const deleteClaim = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: AdvanceClaimParams }>, reply: FastifyReply) => {
+    const existing = await loadClaim(request, reply, 'advances.manage');
+    if (!existing) return reply;
+
+    await advanceClaimService.delete(request.organizationId, existing);
+    await auditService.recordDelete(auditContext(request), 'ADVANCE_CLAIM', existing);
+
+    return sendNoContent(reply);
+  }
+);
+
+// ============================================
+// Settle Claim
+// ============================================
+export const settleClaim = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: AdvanceClaimParams; Body: SettleAdvanceClaimInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await advanceClaimService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Claim');
+    }
+
+    const claim = await advanceClaimService.settle(request.organizationId, existing, {
+      ...request.body,
+      settledById: request.memberId,
+      paymentMode: request.body.paymentMode as PaymentMode | undefined,
+      settledAt: request.body.settledAt ? new Date(request.body.settledAt) : undefined,
+    });
+    await auditService.recordUpdate(auditContext(request), 'ADVANCE_CLAIM', existing, claim);
+
+    return sendSuccess(reply, claim);
+  }
+);
+
+// ============================================
+// Reject Claim
+// ============================================
+export const rejectClaim = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: AdvanceClaimParams; Body: RejectAdvanceClaimInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await advanceClaimService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Claim');
+    }
+
+    const claim = await advanceClaimService.reject(
+      request.organizationId,
+      existing,
+      request.body.reason
+    );
+    await auditService.recordUpdate(auditContext(request), 'ADVANCE_CLAIM', existing, claim);
+
+    return sendSuccess(reply, claim);
+  }
+);
+
+// ============================================
+// Upload Bill
+// ============================================
+export const uploadAttachment = handle(
+  'create',
+  async (request: FastifyRequest<{ Params: AdvanceClaimParams }>, reply: FastifyReply) => {
+    const claim = await loadClaim(request, reply, 'advances.manage');
+    if (!claim) return reply;
+
+    const data = await request.file();
+
+    if (!data) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          message: 'No file uploaded',
+          code: 'NO_FILE',
+        },
+      });
+    }
+
+    // Read file into buffer
+    const chunks: Buffer[] = [];
+    for await (const chunk of data.file) {
+      chunks.push(chunk);
+    }
+    const fileBuffer = Buffer.concat(chunks);
+
+    if (fileBuffer.length > MAX_FILE_SIZE) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          message: `File size exceeds maximum allowed size of ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+          code: 'FILE_TOO_LARGE',
+        },
+      });
+    }
+
+    const compressionResult = await compressionService.compress(fileBuffer, data.filename);
+
+    if (!ALLOWED_MIME_TYPES.includes(compressionResult.mimeType)) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          message: `File type ${compressionResult.mimeType} is not allowed. Allowed types: images and PDFs.`,
+          code: 'INVALID_FILE_TYPE',
+        },
+      });
+    }
+
+    // Compression may convert images to WebP
+    const fileName =
+      compressionResult.mimeType === 'image/webp'
+        ? data.filename.replace(/\.[^.]+$/, '.webp')
+        : data.filename;
+
+    const uploadResult = await storageService.uploadFile(
+      compressionResult.buffer,
+      fileName,
+      compressionResult.mimeType,
+      `${request.organizationId}/${claim.projectId}/claims`
+    );
+
+    const attachment = await advanceClaimRepository.addAttachment(
+      request.organizationId,
+      claim.id,
+      {
+        fileName,
+        fileUrl: uploadResult.publicUrl,
+        storagePath: uploadResult.path,
+        mimeType: compressionResult.mimeType,
+      }
+    );
+
+    return sendSuccess(reply, attachment, 201);
+  }
+);
+
+// ============================================
+// Get Bill Download URL
+// ============================================
+export const getAttachmentDownloadUrl = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ClaimAttachmentParams }>, reply: FastifyReply) => {
+    const claim = await loadClaim(request, reply, 'advances.view');
+    if (!claim) return reply;
+
+    const attachment = await advanceClaimRepository.findAttachment(
+      request.organizationId,
+      claim.id,
+      request.params.attachmentId
+    );
+
+    if (!attachment) {
+      return sendNotFound(reply, 'Attachment');
+    }
+
+    // Generate signed URL valid for 1 hour
+    const signedUrl = await storageService.getSignedUrl(attachment.storagePath, 3600);
+
+    return sendSuccess(reply, {
+      downloadUrl: signedUrl,
+      expiresIn: 3600,
+      fileName: attachment.fileName,
+    });
+  }
+);
+
+// ============================================
+// Delete Bill
+// ============================================
+export const deleteAttachment = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: ClaimAttachmentParams }>, reply: FastifyReply) => {
+    const claim = await loadClaim(request, reply, 'advances.manage');
+    if (!claim) return reply;
+
+    const attachment = await advanceClaimRepository.findAttachment(
+      request.organizationId,
+      claim.id,
+      request.params.attachmentId
+    );
+
+    if (!attachment) {
+      return sendNotFound(reply, 'Attachment');
+    }
+
+    await storageService.deleteFile(attachment.storagePath);
+    await advanceClaimRepository.deleteAttachment(request.organizationId, attachment.id);
+
+    return sendNoContent(reply);
+  }
+);
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+// Enum values matching Prisma enums
+const claimStatusValues = ['PENDING', 'SETTLED', 'REJECTED'] as const;
+const settlementTypeValues = ['CARRIED_FORWARD', 'RETURNED', 'REIMBURSED'] as const;
+const paymentModeValues = ['CASH', 'CHEQUE', 'ONLINE'] as const;
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const createAdvanceClaimSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  // Defaults to the member logging the claim
+  memberId: z.string().min(1).optional(),
+  description: z.string().trim().min(1, 'Description is required'),
+  amount: z.number().positive('Amount must be positive'),
+  expenseDate: z.string().datetime(),
+  notes: z.string().optional(),
+});
+
+export const updateAdvanceClaimSchema = z.object({
+  description: z.string().trim().min(1).optional(),
+  amount: z.number().positive().optional(),
+  expenseDate: z.string().datetime().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const settleAdvanceClaimSchema = z.object({
+  type: z.enum(settlementTypeValues, { required_error: 'Settlement type is required' }),
+  amount: z.number().positive().optional(),
+  paymentMode: z.enum(paymentModeValues).optional(),
+  settledAt: z.string().datetime().optional(),
+  notes: z.string().optional(),
+});
+
+export const rejectAdvanceClaimSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required'),
+});
+
+export const advanceClaimQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10),
+  projectId: z.string().optional(),
+  memberId: z.string().optional(),
+  status: z.enum(claimStatusValues).optional(),
+});
+
+export const advanceClaimParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const claimAttachmentParamsSchema = z.object({
+  id: z.string().min(1),
+  attachmentId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreateAdvanceClaimInput = z.infer<typeof createAdvanceClaimSchema>;
+export type UpdateAdvanceClaimInput = z.infer<typeof updateAdvanceClaimSchema>;
+export type SettleAdvanceClaimInput = z.infer<typeof settleAdvanceClaimSchema>;
+export type RejectAdvanceClaimInput = z.infer<typeof rejectAdvanceClaimSchema>;
+export type AdvanceClaimQuery = z.infer<typeof advanceClaimQuerySchema>;
+export type AdvanceClaimParams = z.infer<typeof advanceClaimParamsSchema>;
+export type ClaimAttachmentParams = z.infer<typeof claimAttachmentParamsSchema>;
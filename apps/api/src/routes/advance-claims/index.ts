@@ -0,0 +1,98 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './advance-claim.controller';
+import {
+  createAdvanceClaimSchema,
+  updateAdvanceClaimSchema,
+  settleAdvanceClaimSchema,
+  rejectAdvanceClaimSchema,
+  advanceClaimQuerySchema,
+  advanceClaimParamsSchema,
+  claimAttachmentParamsSchema,
+} from './advance-claim.schema';
+
+export default async function advanceClaimRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Note: multipart plugin is registered globally in app.ts
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // Members with advances.claim work with their own claims; advances.view and
+  // advances.manage extend that to everyone's claims (checked in the controller)
+
+  // GET /api/advance-claims - List claims
+  app.get('/', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { querystring: advanceClaimQuerySchema },
+    handler: controller.listClaims,
+  });
+
+  // GET /api/advance-claims/:id - Get claim by ID
+  app.get('/:id', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { params: advanceClaimParamsSchema },
+    handler: controller.getClaim,
+  });
+
+  // POST /api/advance-claims - Log an expense paid from an advance
+  app.post('/', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { body: createAdvanceClaimSchema },
+    handler: controller.createClaim,
+  });
+
+  // PUT /api/advance-claims/:id - Update a pending claim
+  app.put('/:id', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { params: advanceClaimParamsSchema, body: updateAdvanceClaimSchema },
+    handler: controller.updateClaim,
+  });
+
+  // DELETE /api/advance-claims/:id - Delete a claim that is not settled
+  app.delete('/:id', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { params: advanceClaimParamsSchema },
+    handler: controller.deleteClaim,
+  });
+
+  // POST /api/advance-claims/:id/settle - Settle a claim against the member's cash in hand
+  app.post('/:id/settle', {
+    preHandler: [requireResourceAccess('advances.manage')],
+    schema: { params: advanceClaimParamsSchema, body: settleAdvanceClaimSchema },
+    handler: controller.settleClaim,
+  });
+
+  // POST /api/advance-claims/:id/reject - Reject a claim
+  app.post('/:id/reject', {
+    preHandler: [requireResourceAccess('advances.manage')],
+    schema: { params: advanceClaimParamsSchema, body: rejectAdvanceClaimSchema },
+    handler: controller.rejectClaim,
+  });
+
+  // POST /api/advance-claims/:id/attachments - Attach a bill to a claim
+  app.post('/:id/attachments', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { params: advanceClaimParamsSchema },
+    handler: controller.uploadAttachment,
+  });
+
+  // GET /api/advance-claims/:id/attachments/:attachmentId/download - Get signed download URL
+  app.get('/:id/attachments/:attachmentId/download', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { params: claimAttachmentParamsSchema },
+    handler: controller.getAttachmentDownloadUrl,
+  });
+
+  // DELETE /api/advance-claims/:id/attachments/:attachmentId - Remove a bill
+  app.delete('/:id/attachments/:attachmentId', {
+    preHandler: [requireResourceAccess('advances.claim')],
+    schema: { params: claimAttachmentParamsSchema },
+    handler: controller.deleteAttachment,
+  });
+}
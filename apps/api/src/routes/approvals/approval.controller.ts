@@ -0,0 +1,76 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { expenseApprovalService, approverContext } from '../../services/expense-approval.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import {
+  sendSuccess,
+  sendPaginated,
+  sendNoContent,
+  buildPagination,
+} from '../../lib/response.utils';
+import { getProjectFilter } from '../../middleware/organization.middleware';
+import type { InboxQuery, RuleQuery, ApprovalRuleInput, RuleParams } from './approval.schema';
+
+const handle = createErrorHandler('approval rule');
+
+// ============================================
+// Approver Inbox
+// ============================================
+export const getInbox = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: InboxQuery }>, reply: FastifyReply) => {
+    const { page, limit } = request.query;
+
+    const { expenses, total } = await expenseApprovalService.getInbox(approverContext(request), {
+      skip: (page - 1) * limit,
+      take: limit,
+      projectIds: getProjectFilter(request)?.projectId.in,
+    });
+
+    return sendPaginated(reply, expenses, buildPagination(page, limit, total));
+  }
+);
+
+// ============================================
+// Approval Rules
+// ============================================
+export const listRules = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: RuleQuery }>, reply: FastifyReply) => {
+    const rules = await expenseApprovalService.findRules(
+      request.organizationId,
+      request.query.projectId
+    );
+    return sendSuccess(reply, rules);
+  }
+);
+
+export const createRule = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: ApprovalRuleInput }>, reply: FastifyReply) => {
+    const rule = await expenseApprovalService.createRule(request.organizationId, request.body);
+    return sendSuccess(reply, rule, 201);
+  }
+);
+
+export const updateRule = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: RuleParams; Body: ApprovalRuleInput }>,
+    reply: FastifyReply
+  ) => {
+    const rule = await expenseApprovalService.updateRule(
+      request.organizationId,
+      request.params.id,
+      request.body
+    );
+    return sendSuccess(reply, rule);
+  }
+);
+
+export const deleteRule = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: RuleParams }>, reply: FastifyReply) => {
+    await expenseApprovalService.deleteRule(request.organizationId, request.params.id);
+    return sendNoContent(reply);
+  }
+);
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const inboxQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+export const ruleQuerySchema = z.object({
+  projectId: z.string().optional(),
+});
+
+// A rule names exactly one approver: a role or a single member
+export const approvalRuleSchema = z
+  .object({
+    projectId: z.string().min(1).nullable().optional(),
+    minAmount: z.number().nonnegative('Minimum amount must be zero or positive').default(0),
+    level: z.number().int().min(1).max(5).default(1),
+    approverRoleId: z.string().min(1).nullable().optional(),
+    approverMemberId: z.string().min(1).nullable().optional(),
+  })
+  .refine((data) => !!data.approverRoleId !== !!data.approverMemberId, {
+    message: 'Choose either an approver role or an approver member',
+    path: ['approverRoleId'],
+  });
+
+export const ruleParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type InboxQuery = z.infer<typeof inboxQuerySchema>;
+export type RuleQuery = z.infer<typeof ruleQuerySchema>;
+export type ApprovalRuleInput = z.infer<typeof approvalRuleSchema>;
+export type RuleParams = z.infer<typeof ruleParamsSchema>;
@@ -0,0 +1,54 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requirePermission,
+} from '../../middleware/organization.middleware';
+import * as controller from './approval.controller';
+import {
+  inboxQuerySchema,
+  ruleQuerySchema,
+  approvalRuleSchema,
+  ruleParamsSchema,
+} from './approval.schema';
+
+export default async function approvalRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/approvals/inbox - Pending expenses waiting on the caller
+  app.get('/inbox', {
+    preHandler: [requirePermission('expenses.approve')],
+    schema: { querystring: inboxQuerySchema },
+    handler: controller.getInbox,
+  });
+
+  // GET /api/approvals/rules - List approval rules
+  app.get('/rules', {
+    preHandler: [requirePermission('approvals.manage')],
+    schema: { querystring: ruleQuerySchema },
+    handler: controller.listRules,
+  });
+
+  // POST /api/approvals/rules - Create an approval rule
+  app.post('/rules', {
+    preHandler: [requirePermission('approvals.manage')],
+    schema: { body: approvalRuleSchema },
+    handler: controller.createRule,
+  });
+
+  // PUT /api/approvals/rules/:id - Replace an approval rule
+  app.put('/rules/:id', {
+    preHandler: [requirePermission('approvals.manage')],
+    schema: { params: ruleParamsSchema, body: approvalRuleSchema },
+    handler: controller.updateRule,
+  });
+
+  // DELETE /api/approvals/rules/:id - Delete an approval rule
+  app.delete('/rules/:id', {
+    preHandler: [requirePermission('approvals.manage')],
+    schema: { params: ruleParamsSchema },
+    handler: controller.deleteRule,
+  });
+}
@@ -0,0 +1,28 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { auditService } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendPaginated, buildPagination } from '../../lib/response.utils';
+import type { AuditQuery } from './audit.schema';
+
+const handle = createErrorHandler('audit log');
+
+// ============================================
+// List Audit Entries
+// ============================================
+export const listAuditLogs = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: AuditQuery }>, reply: FastifyReply) => {
+    const { page, limit, startDate, endDate, ...filters } = request.query;
+    const skip = (page - 1) * limit;
+
+    const { entries, total } = await auditService.findAll(request.organizationId, {
+      skip,
+      take: limit,
+      ...filters,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+
+    return sendPaginated(reply, entries, buildPagination(page, limit, total));
+  }
+);
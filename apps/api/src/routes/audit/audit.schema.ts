@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// Audited entity types (mirrors the AuditEntityType enum)
+const auditEntityTypeValues = [
+  'PROJECT',
+  'STAGE',
+  'TASK',
+  'EXPENSE',
+  'PAYMENT',
+  'MEMBER_ADVANCE',
+  'BOQ_ITEM',
+  'PARTY',
+  'ROLE',
+  'INSTALLMENT',
+  'PARTY_LEDGER_ENTRY',
+  'ADVANCE_CLAIM',
+  'TAX_INVOICE',
+  'PURCHASE_ORDER',
+  'STOCK_MOVEMENT',
+  'LABOUR_WORKER',
+  'ATTENDANCE',
+  'WAGE_BILL',
+  'WORK_ORDER',
+  'RA_BILL',
+  'CHANGE_ORDER',
+  'BOQ_VERSION',
+  'RATE_ANALYSIS',
+  'RATE_TEMPLATE',
+  'BOQ_SECTION',
+  'BOQ_EXPENSE_LINK',
+] as const;
+
+// Audit action values
+const auditActionValues = ['CREATE', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE'] as const;
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const auditQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  entityType: z.enum(auditEntityTypeValues).optional(),
+  entityId: z.string().optional(),
+  action: z.enum(auditActionValues).optional(),
+  actorMemberId: z.string().optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
@@ -0,0 +1,21 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requirePermission,
+} from '../../middleware/organization.middleware';
+import * as controller from './audit.controller';
+import { auditQuerySchema } from './audit.schema';
+
+export default async function auditRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/audit - List audit entries (filter by entity for a record's history)
+  app.get('/', {
+    preHandler: [requirePermission('audit.view')],
+    schema: { querystring: auditQuerySchema },
+    handler: controller.listAuditLogs,
+  });
+}
@@ -3,20 +3,33 @@ import { otpService } from '../../services/otp.service';
 import { jwtService } from '../../services/jwt.service';
 import { authRepository } from '../../repositories/auth.repository';
 import { organizationRepository } from '../../repositories/organization.repository';
+import { sessionRepository, type SessionClientInfo } from '../../repositories/session.repository';
+import { invitationService } from '../../services/invitation.service';
 import { createErrorHandler } from '../../lib/error-handler';
-import { sendSuccess, sendCreated } from '../../lib/response.utils';
-import type { SendOtpInput, VerifyOtpInput, OnboardingInput } from './auth.schema';
+import { normalizePhone } from '../../lib/phone';
+import { sendSuccess, sendCreated, sendNotFound } from '../../lib/response.utils';
+import type {
+  SendOtpInput,
+  VerifyOtpInput,
+  OnboardingInput,
+  SwitchOrganizationInput,
+  RefreshTokenInput,
+  LogoutInput,
+  SessionParams,
+  RevokeAllSessionsInput,
+  InvitationParams,
+} from './auth.schema';
 
 const withError = createErrorHandler('auth');
 
 /**
- * Normalize phone number to E.164 format
+ * Device details recorded on the session for the "My sessions" list
  */
-function normalizePhone(phone: string, countryCode: string): string {
-  // Remove all non-digit characters except leading +
-  const cleaned = phone.replace(/[^\d]/g, '');
-  const code = countryCode.startsWith('+') ? countryCode : `+${countryCode}`;
-  return `${code}${cleaned}`;
+function getClientInfo(request: FastifyRequest): SessionClientInfo {
+  return {
+    userAgent: request.headers['user-agent']?.slice(0, 500),
+    ipAddress: request.ip,
+  };
 }
 
 // ============================================
@@ -33,12 +46,14 @@ export const sendOtp = withError(
     const { phone, countryCode } = request.body;
     const normalizedPhone = normalizePhone(phone, countryCode);
 
-    const result = await otpService.sendOtp(normalizedPhone);
+    const result = await otpService.sendOtp(normalizedPhone, request.ip);
 
     return sendSuccess(reply, {
       message: 'OTP sent successfully',
       phone: normalizedPhone,
       expiresAt: result.expiresAt,
+      resendAvailableAt: result.resendAvailableAt,
+      resendCooldownSeconds: result.resendCooldownSeconds,
       // In dev mode, provide hint about bypass code
       ...(process.env.OTP_MODE === 'development' && {
         devHint: 'Use code 123456 for testing',
@@ -56,6 +71,7 @@ export const sendOtp = withError(
  * - organization: { id, name } | null (if user has no org membership)
  * - role: 'ADMIN' | 'MANAGER' | 'ACCOUNTANT' | null
  * - accessToken: JWT token for API requests
+ * - refreshToken: single-use token for POST /auth/refresh
  */
 export const verifyOtp = withError(
   'verify OTP',
@@ -69,15 +85,18 @@ export const verifyOtp = withError(
     // Find or create user (includes organization memberships)
     const { user, isNewUser } = await authRepository.findOrCreate(normalizedPhone);
 
-    // Generate JWT token
-    const tokens = await jwtService.generateTokens(user.id, user.phone || normalizedPhone);
-
     // Get first organization membership (if any)
     const primaryMembership = user.memberships[0] ?? null;
     const organization = primaryMembership?.organization ?? null;
     // Get role name from the role relation
     const role = primaryMembership?.role?.name ?? null;
 
+    // Start a new session with tokens scoped to the primary organization
+    const tokens = await jwtService.generateTokens(user.id, user.phone || normalizedPhone, {
+      organizationId: organization?.id,
+      client: getClientInfo(request),
+    });
+
     // Return user, organization, and token
     return sendCreated(reply, {
       message: isNewUser ? 'Account created successfully' : 'Login successful',
@@ -94,24 +113,117 @@ export const verifyOtp = withError(
         : null,
       role,
       accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
       expiresIn: tokens.expiresIn,
       isNewUser,
     });
   }
 );
 
+/**
+ * POST /auth/refresh
+ * Rotate a refresh token: the presented token is retired and a new pair issued.
+ * Reusing a retired token revokes the whole session (401 REFRESH_TOKEN_REUSED).
+ */
+export const refreshTokens = withError(
+  'refresh token',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    // Body is validated by the schema in the route definition
+    const { refreshToken } = request.body as RefreshTokenInput;
+    const tokens = await jwtService.refreshAccessToken(refreshToken, getClientInfo(request));
+
+    return sendSuccess(reply, {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    });
+  }
+);
+
 /**
  * POST /auth/logout
- * Clear any server-side session (placeholder for future use)
+ * End the current session, identified by the access token or the refresh token.
  */
-export const logout = withError('logout', async (_request: FastifyRequest, reply: FastifyReply) => {
-  // For simple token auth, logout is handled client-side by clearing the token
-  // This endpoint exists for future server-side session invalidation if needed
+export const logout = withError('logout', async (request: FastifyRequest, reply: FastifyReply) => {
+  const refreshToken = (request.body as LogoutInput)?.refreshToken;
+
+  if (refreshToken) {
+    await jwtService.revokeRefreshToken(refreshToken);
+  }
+
+  // Also end the access token's session; an expired token is not an error here
+  try {
+    const { userId, sessionId } = await request.jwtVerify<{ userId: string; sessionId?: string }>();
+    if (sessionId) {
+      await sessionRepository.revoke(userId, sessionId, 'LOGOUT');
+    }
+  } catch {
+    // No usable access token - the refresh token (if any) was enough
+  }
+
   return sendSuccess(reply, {
     message: 'Logged out successfully',
   });
 });
 
+/**
+ * GET /auth/sessions
+ * List the current user's signed-in devices
+ */
+export const listSessions = withError(
+  'list sessions',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const sessions = await sessionRepository.findActiveByUser(request.user.userId);
+
+    return sendSuccess(
+      reply,
+      sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        isCurrent: session.id === request.user.sessionId,
+      }))
+    );
+  }
+);
+
+/**
+ * DELETE /auth/sessions/:id
+ * Sign out one device
+ */
+export const revokeSession = withError(
+  'revoke session',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as SessionParams;
+    const revoked = await sessionRepository.revoke(request.user.userId, id, 'REVOKED');
+
+    if (!revoked) {
+      return sendNotFound(reply, 'Session');
+    }
+
+    return sendSuccess(reply, { message: 'Session revoked' });
+  }
+);
+
+/**
+ * POST /auth/sessions/revoke-all
+ * Sign out everywhere, optionally keeping the current device signed in
+ */
+export const revokeAllSessions = withError(
+  'revoke sessions',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const { keepCurrent } = request.body as RevokeAllSessionsInput;
+    const revokedCount = await jwtService.revokeAllUserTokens(
+      request.user.userId,
+      keepCurrent ? request.user.sessionId : undefined
+    );
+
+    return sendSuccess(reply, { revokedCount });
+  }
+);
+
 /**
  * GET /auth/me
  * Get current user info (protected route)
@@ -138,8 +250,11 @@ export const getCurrentUser = withError(
       });
     }
 
-    // Get primary organization membership
-    const primaryMembership = user.memberships[0] ?? null;
+    // Active organization from the token, falling back to the primary membership
+    const primaryMembership =
+      user.memberships.find((m) => m.organizationId === request.user.organizationId) ??
+      user.memberships[0] ??
+      null;
 
     return sendSuccess(reply, {
       id: user.id,
@@ -204,6 +319,13 @@ export const completeOnboarding = withError(
     const user = await authRepository.findById(userId);
     const primaryMembership = user?.memberships[0] ?? null;
 
+    // Re-issue tokens so the new organization becomes the active one
+    const tokens = await jwtService.generateTokens(userId, user?.phone || request.user.phone, {
+      organizationId: organization.id,
+      sessionId: request.user.sessionId,
+      client: getClientInfo(request),
+    });
+
     return sendCreated(reply, {
       message: 'Onboarding completed successfully',
       user: {
@@ -217,6 +339,149 @@ export const completeOnboarding = withError(
       },
       // Get role name from the role relation
       role: primaryMembership?.role?.name ?? null,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
     });
   }
 );
+
+/**
+ * GET /auth/organizations
+ * List organizations the current user belongs to (for the org switcher)
+ */
+export const listMyOrganizations = withError(
+  'list organizations',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = await authRepository.findById(request.user.userId);
+
+    if (!user) {
+      return reply.code(404).send({
+        success: false,
+        error: { message: 'User not found', code: 'NOT_FOUND' },
+      });
+    }
+
+    return sendSuccess(
+      reply,
+      user.memberships.map((membership) => ({
+        id: membership.organization.id,
+        name: membership.organization.name,
+        role: membership.role.name,
+        isActive: membership.organizationId === request.user.organizationId,
+      }))
+    );
+  }
+);
+
+/**
+ * POST /auth/switch-organization
+ * Make another organization the active one and re-issue tokens for it.
+ * Rejected when the user is not a member of the requested organization.
+ */
+export const switchOrganization = withError(
+  'switch organization',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    // Body is validated by the schema in the route definition
+    const { organizationId } = request.body as SwitchOrganizationInput;
+    const { userId, phone } = request.user;
+    const user = await authRepository.findById(userId);
+    const membership = user?.memberships.find((m) => m.organizationId === organizationId);
+
+    if (!user || !membership) {
+      return reply.code(403).send({
+        success: false,
+        error: {
+          message: 'You are not a member of this organization',
+          code: 'NOT_ORGANIZATION_MEMBER',
+        },
+      });
+    }
+
+    const tokens = await jwtService.generateTokens(userId, user.phone || phone, {
+      organizationId: membership.organizationId,
+      sessionId: request.user.sessionId,
+      client: getClientInfo(request),
+    });
+
+    return sendSuccess(reply, {
+      organization: {
+        id: membership.organization.id,
+        name: membership.organization.name,
+      },
+      role: membership.role.name,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    });
+  }
+);
+
+/**
+ * GET /auth/invitations
+ * Open invitations addressed to the current user's phone (shown during onboarding)
+ */
+export const listMyInvitations = withError(
+  'list invitations',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const invitations = await invitationService.findForUser(request.user.userId);
+
+    return sendSuccess(
+      reply,
+      invitations.map((invitation) => ({
+        id: invitation.id,
+        organization: invitation.organization,
+        role: invitation.role,
+        invitedBy: invitation.invitedBy?.user.name ?? null,
+        expiresAt: invitation.expiresAt,
+      }))
+    );
+  }
+);
+
+/**
+ * POST /auth/invitations/:id/accept
+ * Join the inviting organization and make it the active one
+ */
+export const acceptInvitation = withError(
+  'accept invitation',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as InvitationParams;
+    const { userId, phone } = request.user;
+    const invitation = await invitationService.accept(userId, id);
+    const user = await authRepository.findById(userId);
+
+    const tokens = await jwtService.generateTokens(userId, user?.phone || phone, {
+      organizationId: invitation.organizationId,
+      sessionId: request.user.sessionId,
+      client: getClientInfo(request),
+    });
+
+    return sendSuccess(reply, {
+      user: {
+        id: user?.id,
+        name: user?.name,
+        phone: user?.phone,
+      },
+      organization: invitation.organization,
+      role: invitation.role.name,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    });
+  }
+);
+
+/**
+ * POST /auth/invitations/:id/decline
+ * Turn an invitation down; the organization sees it as declined
+ */
+export const declineInvitation = withError(
+  'decline invitation',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as InvitationParams;
+    await invitationService.decline(request.user.userId, id);
+
+    return sendSuccess(reply, { message: 'Invitation declined' });
+  }
+);
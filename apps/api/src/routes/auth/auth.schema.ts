@@ -36,6 +36,31 @@ export const OnboardingSchema = z.object({
   organizationType: z.enum(['CONSTRUCTION', 'INTERIOR', 'CONTRACTOR', 'OTHER']).default('CONSTRUCTION'),
 });
 
+export const SwitchOrganizationSchema = z.object({
+  organizationId: z.string().min(1, 'Organization is required'),
+});
+
+export const LogoutSchema = z
+  .object({
+    refreshToken: z.string().min(1).optional(),
+  })
+  .optional();
+
+export const SessionParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const InvitationParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const RevokeAllSessionsSchema = z
+  .object({
+    // Keep the caller's own session signed in ("log out other devices")
+    keepCurrent: z.boolean().default(false),
+  })
+  .default({});
+
 // ============================================
 // Type Exports
 // ============================================
@@ -43,4 +68,9 @@ export const OnboardingSchema = z.object({
 export type SendOtpInput = z.infer<typeof SendOtpSchema>;
 export type VerifyOtpInput = z.infer<typeof VerifyOtpSchema>;
 export type RefreshTokenInput = z.infer<typeof RefreshTokenSchema>;
-export type OnboardingInput = z.infer<typeof OnboardingSchema>;
\ No newline at end of file
+export type OnboardingInput = z.infer<typeof OnboardingSchema>;
+export type SwitchOrganizationInput = z.infer<typeof SwitchOrganizationSchema>;
+export type LogoutInput = z.infer<typeof LogoutSchema>;
+export type SessionParams = z.infer<typeof SessionParamsSchema>;
+export type RevokeAllSessionsInput = z.infer<typeof RevokeAllSessionsSchema>;
+export type InvitationParams = z.infer<typeof InvitationParamsSchema>;
\ No newline at end of file
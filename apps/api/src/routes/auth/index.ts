@@ -1,6 +1,31 @@
 import type { FastifyInstance } from 'fastify';
-import { SendOtpSchema, VerifyOtpSchema, OnboardingSchema } from './auth.schema';
-import { sendOtp, verifyOtp, logout, getCurrentUser, completeOnboarding } from './auth.controller';
+import {
+  SendOtpSchema,
+  VerifyOtpSchema,
+  OnboardingSchema,
+  SwitchOrganizationSchema,
+  RefreshTokenSchema,
+  LogoutSchema,
+  SessionParamsSchema,
+  RevokeAllSessionsSchema,
+  InvitationParamsSchema,
+} from './auth.schema';
+import {
+  sendOtp,
+  verifyOtp,
+  logout,
+  getCurrentUser,
+  completeOnboarding,
+  listMyOrganizations,
+  switchOrganization,
+  refreshTokens,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+  listMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+} from './auth.controller';
 
 export default async function authRoutes(fastify: FastifyInstance) {
   // POST /auth/send-otp - Send OTP to phone
@@ -29,13 +54,28 @@ export default async function authRoutes(fastify: FastifyInstance) {
     verifyOtp
   );
 
-  // POST /auth/logout - Clear session
+  // POST /auth/refresh - Rotate refresh token
+  fastify.post(
+    '/refresh',
+    {
+      schema: {
+        body: RefreshTokenSchema,
+        tags: ['Auth'],
+        description:
+          'Exchange a refresh token for a new access/refresh token pair. Each refresh token works once; reusing one revokes its session.',
+      },
+    },
+    refreshTokens
+  );
+
+  // POST /auth/logout - End the current session
   fastify.post(
     '/logout',
     {
       schema: {
+        body: LogoutSchema,
         tags: ['Auth'],
-        description: 'Logout user (client should clear stored token).',
+        description: 'Logout user. Revokes the session of the access token and/or the given refresh token.',
       },
     },
     logout
@@ -69,4 +109,122 @@ export default async function authRoutes(fastify: FastifyInstance) {
     },
     completeOnboarding
   );
+
+  // GET /auth/organizations - Organizations the current user belongs to
+  fastify.get(
+    '/organizations',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Auth'],
+        description: 'List organizations the current user is a member of, with their role in each.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    listMyOrganizations
+  );
+
+  // POST /auth/switch-organization - Change the active organization
+  fastify.post(
+    '/switch-organization',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        body: SwitchOrganizationSchema,
+        tags: ['Auth'],
+        description: 'Switch the active organization. Re-issues the access token for that organization.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    switchOrganization
+  );
+
+  // GET /auth/invitations - Pending invitations for the current user's phone
+  fastify.get(
+    '/invitations',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Auth'],
+        description: 'List open team invitations addressed to the phone number of the current user.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    listMyInvitations
+  );
+
+  // POST /auth/invitations/:id/accept - Join the inviting organization
+  fastify.post(
+    '/invitations/:id/accept',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        params: InvitationParamsSchema,
+        tags: ['Auth'],
+        description:
+          'Accept an invitation. Adds the user to the organization with the invited role and project access, and re-issues the access token for it.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    acceptInvitation
+  );
+
+  // POST /auth/invitations/:id/decline - Turn an invitation down
+  fastify.post(
+    '/invitations/:id/decline',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        params: InvitationParamsSchema,
+        tags: ['Auth'],
+        description: 'Decline an invitation.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    declineInvitation
+  );
+
+  // GET /auth/sessions - Signed-in devices of the current user
+  fastify.get(
+    '/sessions',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Auth'],
+        description: 'List active sessions (devices) with user agent, IP and last use.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    listSessions
+  );
+
+  // POST /auth/sessions/revoke-all - Log out everywhere
+  fastify.post(
+    '/sessions/revoke-all',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        body: RevokeAllSessionsSchema,
+        tags: ['Auth'],
+        description: 'Revoke every session of the current user, optionally keeping the current one.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    revokeAllSessions
+  );
+
+  // DELETE /auth/sessions/:id - Log out one device
+  fastify.delete(
+    '/sessions/:id',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        params: SessionParamsSchema,
+        tags: ['Auth'],
+        description: 'Revoke one session of the current user.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    revokeSession
+  );
 }
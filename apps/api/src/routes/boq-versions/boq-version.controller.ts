@@ -0,0 +1,139 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { boqVersionService } from '../../services/boq-version.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess, sendNotFound, sendNoContent } from '../../lib/response.utils';
+import type {
+  CreateBOQVersionInput,
+  CompareBOQVersionsQuery,
+  ProjectParams,
+  VersionParams,
+} from './boq-version.schema';
+
+const handle = createErrorHandler('BOQ version');
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// ============================================
+// List / Get Versions
+// ============================================
+export const listBOQVersions = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const versions = await boqVersionService.findByProject(
+      request.organizationId,
+      request.params.projectId
+    );
+    return sendSuccess(reply, versions);
+  }
+);
+
+export const getBOQVersion = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: VersionParams }>, reply: FastifyReply) => {
+    const { projectId, versionId } = request.params;
+    const version = await boqVersionService.findById(request.organizationId, projectId, versionId);
+    if (!version) {
+      return sendNotFound(reply, 'BOQ version');
+    }
+    return sendSuccess(reply, version);
+  }
+);
+
+// ============================================
+// Compare / Export
+// ============================================
+export const compareBOQVersions = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: ProjectParams; Querystring: CompareBOQVersionsQuery }>,
+    reply: FastifyReply
+  ) => {
+    const comparison = await boqVersionService.compare(
+      request.organizationId,
+      request.params.projectId,
+      request.query.from,
+      request.query.to
+    );
+    return sendSuccess(reply, comparison);
+  }
+);
+
+export const exportBOQVersion = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: VersionParams }>, reply: FastifyReply) => {
+    const { projectId, versionId } = request.params;
+    const version = await boqVersionService.findById(request.organizationId, projectId, versionId);
+    if (!version) {
+      return sendNotFound(reply, 'BOQ version');
+    }
+
+    const { file, fileName } = await boqVersionService.export(request.organizationId, version);
+
+    return reply
+      .header('Content-Type', XLSX_CONTENT_TYPE)
+      .header('Content-Disposition', `attachment; filename="${fileName}"`)
+      .send(file);
+  }
+);
+
+// ============================================
+// Save / Baseline / Delete
+// ============================================
+export const createBOQVersion = handle(
+  'create',
+  async (
+    request: FastifyRequest<{ Params: ProjectParams; Body: CreateBOQVersionInput }>,
+    reply: FastifyReply
+  ) => {
+    const version = await boqVersionService.create(
+      request.organizationId,
+      {
+        ...request.body,
+        projectId: request.params.projectId,
+        createdById: request.memberId,
+      },
+      (tx, created) => auditService.recordCreate(auditContext(request), 'BOQ_VERSION', created, tx)
+    );
+
+    return sendSuccess(reply, version, 201);
+  }
+);
+
+export const setBOQBaseline = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: VersionParams }>, reply: FastifyReply) => {
+    const { projectId, versionId } = request.params;
+    const existing = await boqVersionService.findById(request.organizationId, projectId, versionId);
+    if (!existing) {
+      return sendNotFound(reply, 'BOQ version');
+    }
+
+    const version = await boqVersionService.setBaseline(
+      request.organizationId,
+      projectId,
+      versionId,
+      (tx, updated) =>
+        auditService.recordUpdate(auditContext(request), 'BOQ_VERSION', existing, updated, tx)
+    );
+
+    return sendSuccess(reply, version);
+  }
+);
+
+export const deleteBOQVersion = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: VersionParams }>, reply: FastifyReply) => {
+    const { projectId, versionId } = request.params;
+    const existing = await boqVersionService.findById(request.organizationId, projectId, versionId);
+    if (!existing) {
+      return sendNotFound(reply, 'BOQ version');
+    }
+
+    await boqVersionService.delete(request.organizationId, existing, (tx) =>
+      auditService.recordDelete(auditContext(request), 'BOQ_VERSION', existing, tx)
+    );
+
+    return sendNoContent(reply);
+  }
+);
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const createBOQVersionSchema = z.object({
+  // e.g. "Tender", "Contract", "Revised 1"
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  // Defaults to true for the project's first version
+  isBaseline: z.boolean().optional(),
+});
+
+export const compareBOQVersionsQuerySchema = z.object({
+  // Defaults to the baseline
+  from: z.string().min(1).optional(),
+  // A version, or "current" for the live BOQ (the default)
+  to: z.string().min(1).optional(),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+export const versionParamsSchema = z.object({
+  projectId: z.string().min(1),
+  versionId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreateBOQVersionInput = z.infer<typeof createBOQVersionSchema>;
+export type CompareBOQVersionsQuery = z.infer<typeof compareBOQVersionsQuerySchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
+export type VersionParams = z.infer<typeof versionParamsSchema>;
@@ -0,0 +1,69 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './boq-version.controller';
+import {
+  createBOQVersionSchema,
+  compareBOQVersionsQuerySchema,
+  projectParamsSchema,
+  versionParamsSchema,
+} from './boq-version.schema';
+
+export default async function boqVersionRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/projects/:projectId/boq-versions - A project's saved BOQ versions
+  app.get('/projects/:projectId/boq-versions', {
+    preHandler: [requireResourceAccess('boq.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.listBOQVersions,
+  });
+
+  // GET /api/projects/:projectId/boq-versions/compare - Items added, removed and changed between two BOQs
+  app.get('/projects/:projectId/boq-versions/compare', {
+    preHandler: [requireResourceAccess('boq.view')],
+    schema: { params: projectParamsSchema, querystring: compareBOQVersionsQuerySchema },
+    handler: controller.compareBOQVersions,
+  });
+
+  // GET /api/projects/:projectId/boq-versions/:versionId - A version with its items
+  app.get('/projects/:projectId/boq-versions/:versionId', {
+    preHandler: [requireResourceAccess('boq.view')],
+    schema: { params: versionParamsSchema },
+    handler: controller.getBOQVersion,
+  });
+
+  // GET /api/projects/:projectId/boq-versions/:versionId/export - A version as an Excel file
+  app.get('/projects/:projectId/boq-versions/:versionId/export', {
+    preHandler: [requireResourceAccess('boq.view')],
+    schema: { params: versionParamsSchema },
+    handler: controller.exportBOQVersion,
+  });
+
+  // POST /api/projects/:projectId/boq-versions - Save the live BOQ as a version
+  app.post('/projects/:projectId/boq-versions', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { params: projectParamsSchema, body: createBOQVersionSchema },
+    handler: controller.createBOQVersion,
+  });
+
+  // POST /api/projects/:projectId/boq-versions/:versionId/baseline - Compare revisions against this version
+  app.post('/projects/:projectId/boq-versions/:versionId/baseline', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { params: versionParamsSchema },
+    handler: controller.setBOQBaseline,
+  });
+
+  // DELETE /api/projects/:projectId/boq-versions/:versionId - Delete a version other than the baseline
+  app.delete('/projects/:projectId/boq-versions/:versionId', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { params: versionParamsSchema },
+    handler: controller.deleteBOQVersion,
+  });
+}
@@ -10,6 +10,8 @@ const require = createRequire(import.meta.url);
 const pdfParse = require('pdf-parse');
 import { boqItemRepository, boqSectionRepository } from '../../repositories/boq.repository';
 import { boqImportService } from '../../services/boq-import.service';
+import { boqVersionService } from '../../services/boq-version.service';
+import { auditService, auditContext } from '../../services/audit.service';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -188,10 +190,11 @@ export const createBOQItem = handle(
     request: FastifyRequest<{ Params: ProjectParams; Body: CreateBOQItemInput }>,
     reply: FastifyReply
   ) => {
-    const item = await boqItemRepository.create(request.organizationId, {
-      projectId: request.params.projectId,
-      ...request.body,
-    });
+    const item = await boqItemRepository.create(
+      request.organizationId,
+      { projectId: request.params.projectId, ...request.body },
+      (tx, created) => auditService.recordCreate(auditContext(request), 'BOQ_ITEM', created, tx)
+    );
 
     return sendSuccess(reply, item, 201);
   }
@@ -206,10 +209,17 @@ export const updateBOQItem = handle(
     request: FastifyRequest<{ Params: BOQItemParams; Body: UpdateBOQItemInput }>,
     reply: FastifyReply
   ) => {
+    const existing = await boqItemRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'BOQ Item');
+    }
+
     const item = await boqItemRepository.update(
       request.organizationId,
       request.params.id,
-      request.body
+      request.body,
+      (tx, updated) =>
+        auditService.recordUpdate(auditContext(request), 'BOQ_ITEM', existing, updated, tx)
     );
 
     return sendSuccess(reply, item);
@@ -222,7 +232,14 @@ export const updateBOQItem = handle(
 export const deleteBOQItem = handle(
   'delete',
   async (request: FastifyRequest<{ Params: BOQItemParams }>, reply: FastifyReply) => {
-    await boqItemRepository.delete(request.organizationId, request.params.id);
+    const existing = await boqItemRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'BOQ Item');
+    }
+
+    await boqItemRepository.delete(request.organizationId, request.params.id, (tx) =>
+      auditService.recordDelete(auditContext(request), 'BOQ_ITEM', existing, tx)
+    );
     return sendNoContent(reply);
   }
 );
@@ -255,10 +272,11 @@ export const createBOQSection = handle(
     request: FastifyRequest<{ Params: ProjectParams; Body: CreateBOQSectionInput }>,
     reply: FastifyReply
   ) => {
-    const section = await boqSectionRepository.create(request.organizationId, {
-      projectId: request.params.projectId,
-      ...request.body,
-    });
+    const section = await boqSectionRepository.create(
+      request.organizationId,
+      { projectId: request.params.projectId, ...request.body },
+      (tx, created) => auditService.recordCreate(auditContext(request), 'BOQ_SECTION', created, tx)
+    );
 
     return sendSuccess(reply, section, 201);
   }
@@ -273,10 +291,20 @@ export const updateBOQSection = handle(
     request: FastifyRequest<{ Params: BOQSectionParams; Body: UpdateBOQSectionInput }>,
     reply: FastifyReply
   ) => {
+    const existing = await boqSectionRepository.findById(
+      request.organizationId,
+      request.params.sectionId
+    );
+    if (!existing) {
+      return sendNotFound(reply, 'BOQ Section');
+    }
+
     const section = await boqSectionRepository.update(
       request.organizationId,
       request.params.sectionId,
-      request.body
+      request.body,
+      (tx, updated) =>
+        auditService.recordUpdate(auditContext(request), 'BOQ_SECTION', existing, updated, tx)
     );
 
     return sendSuccess(reply, section);
@@ -289,7 +317,11 @@ export const updateBOQSection = handle(
 export const deleteBOQSection = handle(
   'delete',
   async (request: FastifyRequest<{ Params: BOQSectionParams }>, reply: FastifyReply) => {
-    await boqSectionRepository.delete(request.organizationId, request.params.sectionId);
+    await boqSectionRepository.delete(
+      request.organizationId,
+      request.params.sectionId,
+      (tx, deleted) => auditService.recordDelete(auditContext(request), 'BOQ_SECTION', deleted, tx)
+    );
     return sendNoContent(reply);
   }
 );
@@ -389,25 +421,14 @@ export const confirmImport = handle(
     reply: FastifyReply
   ) => {
     const { projectId } = request.params;
-    const { items } = request.body;
-
-    // Create sections for items that have sectionName
-    const sectionMap = new Map<string, string>();
-    for (const item of items) {
-      if (item.sectionName && !sectionMap.has(item.sectionName)) {
-        const section = await boqSectionRepository.findOrCreate(
-          request.organizationId,
-          projectId,
-          item.sectionName
-        );
-        sectionMap.set(item.sectionName, section.id);
-      }
+    const { items, versionName } = request.body;
+    if (versionName) {
+      await boqVersionService.assertNameAvailable(projectId, versionName);
     }
 
-    // Map items with section IDs
     const itemsToCreate = items.map((item) => ({
       projectId,
-      sectionId: item.sectionName ? sectionMap.get(item.sectionName) : undefined,
+      sectionName: item.sectionName,
       stageId: item.stageId,
       code: item.code,
       category: item.category,
@@ -419,9 +440,27 @@ export const confirmImport = handle(
       flagReason: item.flagReason,
     }));
 
-    const count = await boqItemRepository.createMany(request.organizationId, itemsToCreate);
+    const imported = await boqItemRepository.importItems(
+      request.organizationId,
+      projectId,
+      itemsToCreate,
+      async (tx, { sections, items: created }) => {
+        await auditService.recordCreateMany(auditContext(request), 'BOQ_SECTION', sections, tx);
+        await auditService.recordCreateMany(auditContext(request), 'BOQ_ITEM', created, tx);
+      }
+    );
+
+    // Imported items can be edited later; keep the BOQ as imported
+    const version = versionName
+      ? await boqVersionService.create(
+          request.organizationId,
+          { projectId, name: versionName, createdById: request.memberId },
+          (tx, created) =>
+            auditService.recordCreate(auditContext(request), 'BOQ_VERSION', created, tx)
+        )
+      : null;
 
-    return sendSuccess(reply, { importedCount: count }, 201);
+    return sendSuccess(reply, { importedCount: imported.items.length, version }, 201);
   }
 );
 
@@ -441,7 +480,9 @@ export const linkExpense = handle(
     const link = await boqItemRepository.linkExpense(
       request.organizationId,
       request.params.id,
-      request.body.expenseId
+      request.body.expenseId,
+      (tx, created) =>
+        auditService.recordCreate(auditContext(request), 'BOQ_EXPENSE_LINK', created, tx)
     );
 
     return sendSuccess(reply, link, 201);
@@ -457,7 +498,9 @@ export const unlinkExpense = handle(
     await boqItemRepository.unlinkExpense(
       request.organizationId,
       request.params.id,
-      request.params.expenseId
+      request.params.expenseId,
+      (tx, deleted) =>
+        auditService.recordDelete(auditContext(request), 'BOQ_EXPENSE_LINK', deleted, tx)
     );
     return sendNoContent(reply);
   }
@@ -61,6 +61,7 @@ export type BOQSectionParams = z.infer<typeof BOQSectionParamsSchema>;
 export const CreateBOQItemSchema = z.object({
   sectionId: z.string().optional(),
   stageId: z.string().optional(),
+  materialTypeItemId: z.string().optional(),
   code: z.string().optional(),
   category: BOQCategoryEnum,
   description: z.string().min(1, 'Description is required'),
@@ -75,6 +76,7 @@ export type CreateBOQItemInput = z.infer<typeof CreateBOQItemSchema>;
 export const UpdateBOQItemSchema = z.object({
   sectionId: z.string().nullable().optional(),
   stageId: z.string().nullable().optional(),
+  materialTypeItemId: z.string().nullable().optional(),
   code: z.string().nullable().optional(),
   category: BOQCategoryEnum.optional(),
   description: z.string().min(1).optional(),
@@ -123,6 +125,8 @@ export type ParsedBOQItem = z.infer<typeof ParsedBOQItemSchema>;
 
 export const ConfirmImportSchema = z.object({
   items: z.array(ParsedBOQItemSchema).min(1, 'At least one item is required'),
+  // Save the BOQ once imported as a named version, e.g. "Tender"
+  versionName: z.string().trim().min(1).max(100).optional(),
 });
 
 export type ConfirmImportInput = z.infer<typeof ConfirmImportSchema>;
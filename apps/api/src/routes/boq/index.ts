@@ -5,6 +5,10 @@
  */
 
 import type { FastifyInstance } from 'fastify';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import {
   BOQListQuerySchema,
   ProjectParamsSchema,
@@ -38,6 +42,9 @@ import {
 } from './boq.controller';
 
 export default async function boqRoutes(fastify: FastifyInstance) {
+  // Apply organization middleware to all routes
+  fastify.addHook('preHandler', organizationMiddleware);
+
   // ============================================
   // BOQ Items
   // ============================================
@@ -46,6 +53,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/projects/:projectId/boq',
     {
+      preHandler: [requireResourceAccess('boq.view')],
       schema: {
         params: ProjectParamsSchema,
         querystring: BOQListQuerySchema,
@@ -58,6 +66,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/projects/:projectId/boq/by-category',
     {
+      preHandler: [requireResourceAccess('boq.view')],
       schema: {
         params: ProjectParamsSchema,
       },
@@ -69,6 +78,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/projects/:projectId/boq/by-stage',
     {
+      preHandler: [requireResourceAccess('boq.view')],
       schema: {
         params: ProjectParamsSchema,
       },
@@ -80,6 +90,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/projects/:projectId/boq/stats',
     {
+      preHandler: [requireResourceAccess('boq.view')],
       schema: {
         params: ProjectParamsSchema,
       },
@@ -91,6 +102,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/projects/:projectId/boq/:id',
     {
+      preHandler: [requireResourceAccess('boq.view')],
       schema: {
         params: BOQItemParamsSchema,
       },
@@ -102,6 +114,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.post(
     '/projects/:projectId/boq',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: ProjectParamsSchema,
         body: CreateBOQItemSchema,
@@ -114,6 +127,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.put(
     '/projects/:projectId/boq/:id',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: BOQItemParamsSchema,
         body: UpdateBOQItemSchema,
@@ -126,6 +140,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.delete(
     '/projects/:projectId/boq/:id',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: BOQItemParamsSchema,
       },
@@ -141,6 +156,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/projects/:projectId/boq-sections',
     {
+      preHandler: [requireResourceAccess('boq.view')],
       schema: {
         params: ProjectParamsSchema,
       },
@@ -152,6 +168,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.post(
     '/projects/:projectId/boq-sections',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: ProjectParamsSchema,
         body: CreateBOQSectionSchema,
@@ -164,6 +181,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.put(
     '/projects/:projectId/boq-sections/:sectionId',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: BOQSectionParamsSchema,
         body: UpdateBOQSectionSchema,
@@ -176,6 +194,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.delete(
     '/projects/:projectId/boq-sections/:sectionId',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: BOQSectionParamsSchema,
       },
@@ -191,6 +210,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.post(
     '/projects/:projectId/boq/import/parse',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: ProjectParamsSchema,
       },
@@ -202,6 +222,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.post(
     '/projects/:projectId/boq/import/confirm',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: ProjectParamsSchema,
         body: ConfirmImportSchema,
@@ -218,6 +239,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.post(
     '/projects/:projectId/boq/:id/link-expense',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: BOQItemParamsSchema,
         body: LinkExpenseSchema,
@@ -230,6 +252,7 @@ export default async function boqRoutes(fastify: FastifyInstance) {
   fastify.delete(
     '/projects/:projectId/boq/:id/unlink-expense/:expenseId',
     {
+      preHandler: [requireResourceAccess('boq.manage')],
       schema: {
         params: UnlinkExpenseParamsSchema,
       },
@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requirePermission,
+} from '../../middleware/organization.middleware';
 import {
   createCategoryTypeSchema,
   updateCategoryTypeSchema,
@@ -48,21 +51,30 @@ export default async function categoryRoutes(fastify: FastifyInstance) {
   // POST /api/categories/types
   app.post(
     '/types',
-    { schema: { body: createCategoryTypeSchema } },
+    {
+      preHandler: [requirePermission('categories.manage')],
+      schema: { body: createCategoryTypeSchema },
+    },
     typeController.createCategoryType
   );
 
   // PUT /api/categories/types/:id
   app.put(
     '/types/:id',
-    { schema: { params: categoryTypeParamsSchema, body: updateCategoryTypeSchema } },
+    {
+      preHandler: [requirePermission('categories.manage')],
+      schema: { params: categoryTypeParamsSchema, body: updateCategoryTypeSchema },
+    },
     typeController.updateCategoryType
   );
 
   // DELETE /api/categories/types/:id
   app.delete(
     '/types/:id',
-    { schema: { params: categoryTypeParamsSchema } },
+    {
+      preHandler: [requirePermission('categories.manage')],
+      schema: { params: categoryTypeParamsSchema },
+    },
     typeController.deleteCategoryType
   );
 
@@ -92,21 +104,30 @@ export default async function categoryRoutes(fastify: FastifyInstance) {
   // POST /api/categories/items
   app.post(
     '/items',
-    { schema: { body: createCategoryItemSchema } },
+    {
+      preHandler: [requirePermission('categories.manage')],
+      schema: { body: createCategoryItemSchema },
+    },
     itemController.createCategoryItem
   );
 
   // PUT /api/categories/items/:id
   app.put(
     '/items/:id',
-    { schema: { params: categoryItemParamsSchema, body: updateCategoryItemSchema } },
+    {
+      preHandler: [requirePermission('categories.manage')],
+      schema: { params: categoryItemParamsSchema, body: updateCategoryItemSchema },
+    },
     itemController.updateCategoryItem
   );
 
   // DELETE /api/categories/items/:id
   app.delete(
     '/items/:id',
-    { schema: { params: categoryItemParamsSchema } },
+    {
+      preHandler: [requirePermission('categories.manage')],
+      schema: { params: categoryItemParamsSchema },
+    },
     itemController.deleteCategoryItem
   );
 }
@@ -0,0 +1,146 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { changeOrderService } from '../../services/change-order.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess, sendNotFound } from '../../lib/response.utils';
+import type {
+  CreateChangeOrderInput,
+  UpdateChangeOrderInput,
+  ApproveChangeOrderInput,
+  RejectChangeOrderInput,
+  ChangeOrderParams,
+  ProjectParams,
+} from './change-order.schema';
+
+const handle = createErrorHandler('change order');
+
+// ============================================
+// Project Change Orders
+// ============================================
+export const getProjectChangeOrders = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const result = await changeOrderService.getProjectChangeOrders(
+      request.organizationId,
+      request.params.projectId
+    );
+    return sendSuccess(reply, result);
+  }
+);
+
+// ============================================
+// Get Change Order
+// ============================================
+export const getChangeOrder = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ChangeOrderParams }>, reply: FastifyReply) => {
+    const order = await changeOrderService.findById(request.organizationId, request.params.id);
+    if (!order) {
+      return sendNotFound(reply, 'Change order');
+    }
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Create / Edit Change Order
+// ============================================
+export const createChangeOrder = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateChangeOrderInput }>, reply: FastifyReply) => {
+    const { raisedDate, ...data } = request.body;
+
+    const order = await changeOrderService.create(request.organizationId, {
+      ...data,
+      createdById: request.memberId,
+      raisedDate: new Date(raisedDate),
+    });
+    await auditService.recordCreate(auditContext(request), 'CHANGE_ORDER', order);
+
+    return sendSuccess(reply, order, 201);
+  }
+);
+
+export const updateChangeOrder = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: ChangeOrderParams; Body: UpdateChangeOrderInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await changeOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Change order');
+    }
+
+    const { raisedDate, ...data } = request.body;
+    const order = await changeOrderService.update(request.organizationId, existing, {
+      ...data,
+      ...(raisedDate && { raisedDate: new Date(raisedDate) }),
+    });
+    await auditService.recordUpdate(auditContext(request), 'CHANGE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Client Approval
+// ============================================
+export const submitChangeOrder = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: ChangeOrderParams }>, reply: FastifyReply) => {
+    const existing = await changeOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Change order');
+    }
+
+    const order = await changeOrderService.submit(request.organizationId, existing);
+    await auditService.recordUpdate(auditContext(request), 'CHANGE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+export const approveChangeOrder = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: ChangeOrderParams; Body: ApproveChangeOrderInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await changeOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Change order');
+    }
+
+    const { decidedAt, ...data } = request.body;
+    const order = await changeOrderService.approve(request.organizationId, existing, {
+      ...data,
+      decidedAt: new Date(decidedAt),
+    });
+    await auditService.recordUpdate(auditContext(request), 'CHANGE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+export const rejectChangeOrder = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: ChangeOrderParams; Body: RejectChangeOrderInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await changeOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Change order');
+    }
+
+    const { decidedAt, ...data } = request.body;
+    const order = await changeOrderService.reject(request.organizationId, existing, {
+      ...data,
+      decidedAt: new Date(decidedAt),
+    });
+    await auditService.recordUpdate(auditContext(request), 'CHANGE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
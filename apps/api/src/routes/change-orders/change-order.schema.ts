@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+// ============================================
+// Enums
+// ============================================
+
+const boqCategoryEnum = z.enum(['MATERIAL', 'LABOUR', 'SUB_WORK', 'EQUIPMENT', 'OTHER']);
+
+// ============================================
+// Request Schemas
+// ============================================
+
+const changeOrderLineSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('ADD'),
+    sectionId: z.string().min(1).nullable().optional(),
+    stageId: z.string().min(1).nullable().optional(),
+    category: boqCategoryEnum,
+    description: z.string().trim().min(1, 'Description is required'),
+    unit: z.string().trim().min(1, 'Unit is required'),
+    quantity: z.number().positive('Quantity must be positive'),
+    rate: z.number().min(0, 'Rate cannot be negative'),
+  }),
+  z.object({
+    action: z.literal('MODIFY'),
+    boqItemId: z.string().min(1, 'BOQ item is required'),
+    quantity: z.number().min(0, 'Quantity cannot be negative'),
+    rate: z.number().min(0, 'Rate cannot be negative'),
+  }),
+  z.object({
+    action: z.literal('REMOVE'),
+    boqItemId: z.string().min(1, 'BOQ item is required'),
+  }),
+]);
+
+export const createChangeOrderSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().nullable().optional(),
+  raisedDate: z.string().datetime(),
+  // Estimated cost of carrying the change out
+  costImpact: z.number().default(0),
+  lines: z.array(changeOrderLineSchema).min(1, 'Add at least one line'),
+});
+
+export const updateChangeOrderSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+  description: z.string().nullable().optional(),
+  raisedDate: z.string().datetime().optional(),
+  costImpact: z.number().optional(),
+  lines: z.array(changeOrderLineSchema).min(1, 'Add at least one line').optional(),
+});
+
+export const approveChangeOrderSchema = z.object({
+  decidedAt: z.string().datetime(),
+  // Client's instruction or letter
+  clientReference: z.string().trim().max(200).nullable().optional(),
+});
+
+export const rejectChangeOrderSchema = approveChangeOrderSchema.extend({
+  reason: z.string().trim().min(1, 'A reason is required').max(1000),
+});
+
+export const changeOrderParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreateChangeOrderInput = z.infer<typeof createChangeOrderSchema>;
+export type UpdateChangeOrderInput = z.infer<typeof updateChangeOrderSchema>;
+export type ApproveChangeOrderInput = z.infer<typeof approveChangeOrderSchema>;
+export type RejectChangeOrderInput = z.infer<typeof rejectChangeOrderSchema>;
+export type ChangeOrderParams = z.infer<typeof changeOrderParamsSchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
@@ -0,0 +1,71 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './change-order.controller';
+import {
+  createChangeOrderSchema,
+  updateChangeOrderSchema,
+  approveChangeOrderSchema,
+  rejectChangeOrderSchema,
+  changeOrderParamsSchema,
+  projectParamsSchema,
+} from './change-order.schema';
+
+export default async function changeOrderRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/change-orders/project/:projectId - A project's change orders and revised contract value
+  app.get('/project/:projectId', {
+    preHandler: [requireResourceAccess('variations.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getProjectChangeOrders,
+  });
+
+  // GET /api/change-orders/:id - Change order with its lines
+  app.get('/:id', {
+    preHandler: [requireResourceAccess('variations.view')],
+    schema: { params: changeOrderParamsSchema },
+    handler: controller.getChangeOrder,
+  });
+
+  // POST /api/change-orders - Draft a change order
+  app.post('/', {
+    preHandler: [requireResourceAccess('variations.manage')],
+    schema: { body: createChangeOrderSchema },
+    handler: controller.createChangeOrder,
+  });
+
+  // PUT /api/change-orders/:id - Edit a draft
+  app.put('/:id', {
+    preHandler: [requireResourceAccess('variations.manage')],
+    schema: { params: changeOrderParamsSchema, body: updateChangeOrderSchema },
+    handler: controller.updateChangeOrder,
+  });
+
+  // POST /api/change-orders/:id/submit - Send a draft to the client
+  app.post('/:id/submit', {
+    preHandler: [requireResourceAccess('variations.manage')],
+    schema: { params: changeOrderParamsSchema },
+    handler: controller.submitChangeOrder,
+  });
+
+  // POST /api/change-orders/:id/approve - Record client approval and revise the BOQ
+  app.post('/:id/approve', {
+    preHandler: [requireResourceAccess('variations.approve')],
+    schema: { params: changeOrderParamsSchema, body: approveChangeOrderSchema },
+    handler: controller.approveChangeOrder,
+  });
+
+  // POST /api/change-orders/:id/reject - Record the client turning it down
+  app.post('/:id/reject', {
+    preHandler: [requireResourceAccess('variations.approve')],
+    schema: { params: changeOrderParamsSchema, body: rejectChangeOrderSchema },
+    handler: controller.rejectChangeOrder,
+  });
+}
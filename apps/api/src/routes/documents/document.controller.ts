@@ -2,6 +2,7 @@ import type { FastifyReply, FastifyRequest } from 'fastify';
 import type { MultipartFile } from '@fastify/multipart';
 import { prisma } from '../../lib/prisma';
 import { createErrorHandler } from '../../lib/error-handler';
+import { notDeleted } from '../../lib/soft-delete';
 import {
   sendSuccess,
   sendPaginated,
@@ -11,7 +12,7 @@ import {
 } from '../../lib/response.utils';
 import { compressionService } from '../../services/compression.service';
 import { storageService } from '../../services/storage.service';
-import type { DocumentQuery, DocumentParams } from './document.schema';
+import type { DocumentQuery, DocumentParams, ShareDocumentInput } from './document.schema';
 
 // Create a resource-specific error handler
 const handle = createErrorHandler('document');
@@ -47,6 +48,7 @@ export const listDocuments = handle(
 
     const where = {
       organizationId: request.organizationId,
+      project: notDeleted,
       ...(projectId && { projectId }),
     };
 
@@ -117,6 +119,7 @@ export const uploadDocument = handle(
       where: {
         id: projectId,
         organizationId: request.organizationId,
+        ...notDeleted,
       },
     });
 
@@ -254,6 +257,39 @@ export const getDownloadUrl = handle(
   }
 );
 
+// ============================================
+// Share Document With Client
+// ============================================
+export const shareDocument = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: DocumentParams; Body: ShareDocumentInput }>,
+    reply: FastifyReply
+  ) => {
+    const document = await prisma.document.findFirst({
+      where: {
+        id: request.params.id,
+        organizationId: request.organizationId,
+      },
+    });
+
+    if (!document) {
+      return sendNotFound(reply, 'Document');
+    }
+
+    // Shared documents and photos appear in the project's client portal
+    const updated = await prisma.document.update({
+      where: { id: document.id },
+      data: { sharedWithClient: request.body.sharedWithClient },
+    });
+
+    return sendSuccess(reply, {
+      ...updated,
+      uploadedAt: updated.uploadedAt.toISOString(),
+    });
+  }
+);
+
 // ============================================
 // Delete Document
 // ============================================
@@ -14,6 +14,10 @@ export const documentParamsSchema = z.object({
   id: z.string().min(1),
 });
 
+export const shareDocumentSchema = z.object({
+  sharedWithClient: z.boolean(),
+});
+
 // ============================================
 // Response Schemas
 // ============================================
@@ -27,6 +31,7 @@ export const documentResponseSchema = z.object({
   fileUrl: z.string(),
   storagePath: z.string(),
   mimeType: z.string(),
+  sharedWithClient: z.boolean(),
   originalSize: z.number(),
   compressedSize: z.number(),
   compressionRatio: z.number(),
@@ -61,4 +66,5 @@ export const documentUploadResponseSchema = z.object({
 
 export type DocumentQuery = z.infer<typeof documentQuerySchema>;
 export type DocumentParams = z.infer<typeof documentParamsSchema>;
+export type ShareDocumentInput = z.infer<typeof shareDocumentSchema>;
 export type DocumentResponse = z.infer<typeof documentResponseSchema>;
@@ -1,8 +1,11 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import * as controller from './document.controller';
-import { documentQuerySchema, documentParamsSchema } from './document.schema';
+import { documentQuerySchema, documentParamsSchema, shareDocumentSchema } from './document.schema';
 import { z } from 'zod';
 
 export default async function documentRoutes(fastify: FastifyInstance) {
@@ -15,24 +18,28 @@ export default async function documentRoutes(fastify: FastifyInstance) {
 
   // GET /api/documents - List all documents
   app.get('/', {
+    preHandler: [requireResourceAccess('documents.view')],
     schema: { querystring: documentQuerySchema },
     handler: controller.listDocuments,
   });
 
   // GET /api/documents/:id - Get document by ID
   app.get('/:id', {
+    preHandler: [requireResourceAccess('documents.view')],
     schema: { params: documentParamsSchema },
     handler: controller.getDocument,
   });
 
   // GET /api/documents/:id/download - Get signed download URL
   app.get('/:id/download', {
+    preHandler: [requireResourceAccess('documents.view')],
     schema: { params: documentParamsSchema },
     handler: controller.getDownloadUrl,
   });
 
   // POST /api/documents - Upload document
   app.post('/', {
+    preHandler: [requireResourceAccess('documents.manage')],
     schema: {
       querystring: z.object({
         projectId: z.string().min(1, 'Project ID is required'),
@@ -41,8 +48,16 @@ export default async function documentRoutes(fastify: FastifyInstance) {
     handler: controller.uploadDocument,
   });
 
+  // PATCH /api/documents/:id/share - Share with (or hide from) the project's client
+  app.patch('/:id/share', {
+    preHandler: [requireResourceAccess('documents.manage')],
+    schema: { params: documentParamsSchema, body: shareDocumentSchema },
+    handler: controller.shareDocument,
+  });
+
   // DELETE /api/documents/:id - Delete document
   app.delete('/:id', {
+    preHandler: [requireResourceAccess('documents.manage')],
     schema: { params: documentParamsSchema },
     handler: controller.deleteDocument,
   });
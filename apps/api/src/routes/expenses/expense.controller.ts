@@ -1,5 +1,7 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { expenseService } from '../../services/expense.service';
+import { expenseApprovalService, approverContext } from '../../services/expense-approval.service';
+import { auditService, auditContext } from '../../services/audit.service';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -13,8 +15,12 @@ import type {
   UpdateExpenseInput,
   ExpenseQuery,
   ExpenseParams,
+  ApproveExpenseInput,
+  RejectExpenseInput,
+  ReopenExpenseInput,
 } from './expense.schema';
-import type { PaymentMode, ExpenseStatus } from '@prisma/client';
+import type { Expense, PaymentMode, ExpenseStatus } from '@prisma/client';
+import type { AuditHook } from '../../repositories/audit.repository';
 
 // Create a resource-specific error handler
 const handle = createErrorHandler('expense');
@@ -82,16 +88,20 @@ export const getExpense = handle(
 export const createExpense = handle(
   'create',
   async (request: FastifyRequest<{ Body: CreateExpenseInput }>, reply: FastifyReply) => {
-    const { paidAmount, paymentMode, status, ...expenseData } = request.body;
+    const { paidAmount, paymentMode, ...expenseData } = request.body;
 
-    // Service handles the expense + payment transaction logic
-    const expense = await expenseService.create(request.organizationId, {
-      ...expenseData,
-      expenseDate: new Date(expenseData.expenseDate),
-      status: status as ExpenseStatus | undefined,
-      paidAmount,
-      paymentMode: paymentMode as PaymentMode | undefined,
-    });
+    // Service handles the expense + payment transaction logic and submits it for approval
+    const expense = await expenseService.create(
+      request.organizationId,
+      {
+        ...expenseData,
+        expenseDate: new Date(expenseData.expenseDate),
+        submittedById: request.memberId,
+        paidAmount,
+        paymentMode: paymentMode as PaymentMode | undefined,
+      },
+      (tx, created) => auditService.recordCreate(auditContext(request), 'EXPENSE', created, tx)
+    );
 
     return sendSuccess(reply, expense, 201);
   }
@@ -106,17 +116,132 @@ export const updateExpense = handle(
     request: FastifyRequest<{ Params: ExpenseParams; Body: UpdateExpenseInput }>,
     reply: FastifyReply
   ) => {
-    const { status, ...rest } = request.body;
     const updateData = {
-      ...rest,
-      status: status as ExpenseStatus | undefined,
-      expenseDate: rest.expenseDate ? new Date(rest.expenseDate) : undefined,
+      ...request.body,
+      expenseDate: request.body.expenseDate ? new Date(request.body.expenseDate) : undefined,
     };
 
+    const existing = await expenseService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Expense');
+    }
+
     const expense = await expenseService.update(
       request.organizationId,
-      request.params.id,
-      updateData
+      existing,
+      updateData,
+      request.memberId,
+      (tx, updated) =>
+        auditService.recordUpdate(auditContext(request), 'EXPENSE', existing, updated, tx)
+    );
+
+    return sendSuccess(reply, expense);
+  }
+);
+
+// ============================================
+// Approval Workflow
+// ============================================
+
+/**
+ * Audit an approval decision inside the transaction applying it
+ */
+function auditTransition(request: FastifyRequest, existing: Expense): AuditHook<Expense> {
+  return (tx, updated) =>
+    auditService.recordUpdate(auditContext(request), 'EXPENSE', existing, updated, tx);
+}
+
+export const getApprovalHistory = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ExpenseParams }>, reply: FastifyReply) => {
+    const expense = await expenseService.findById(request.organizationId, request.params.id);
+    if (!expense) {
+      return sendNotFound(reply, 'Expense');
+    }
+
+    const history = await expenseApprovalService.getHistory(request.organizationId, expense.id);
+    return sendSuccess(reply, history);
+  }
+);
+
+export const submitExpense = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: ExpenseParams }>, reply: FastifyReply) => {
+    const existing = await expenseService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Expense');
+    }
+
+    const expense = await expenseApprovalService.submit(
+      approverContext(request),
+      existing.id,
+      auditTransition(request, existing)
+    );
+
+    return sendSuccess(reply, expense);
+  }
+);
+
+export const approveExpense = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: ExpenseParams; Body: ApproveExpenseInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await expenseService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Expense');
+    }
+
+    const expense = await expenseApprovalService.approve(
+      approverContext(request),
+      existing.id,
+      request.body.comment,
+      auditTransition(request, existing)
+    );
+
+    return sendSuccess(reply, expense);
+  }
+);
+
+export const rejectExpense = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: ExpenseParams; Body: RejectExpenseInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await expenseService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Expense');
+    }
+
+    const expense = await expenseApprovalService.reject(
+      approverContext(request),
+      existing.id,
+      request.body.reason,
+      auditTransition(request, existing)
+    );
+
+    return sendSuccess(reply, expense);
+  }
+);
+
+export const reopenExpense = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: ExpenseParams; Body: ReopenExpenseInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await expenseService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Expense');
+    }
+
+    const expense = await expenseApprovalService.reopen(
+      approverContext(request),
+      existing.id,
+      request.body.reason,
+      auditTransition(request, existing)
     );
 
     return sendSuccess(reply, expense);
@@ -129,7 +254,14 @@ export const updateExpense = handle(
 export const deleteExpense = handle(
   'delete',
   async (request: FastifyRequest<{ Params: ExpenseParams }>, reply: FastifyReply) => {
-    await expenseService.delete(request.organizationId, request.params.id);
+    const existing = await expenseService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Expense');
+    }
+
+    await expenseService.delete(request.organizationId, existing, request.memberId, (tx) =>
+      auditService.recordDelete(auditContext(request), 'EXPENSE', existing, tx)
+    );
     return sendNoContent(reply);
   }
 );
@@ -1,10 +1,11 @@
 import { z } from 'zod';
+import { GST_RATES } from '../../lib/gst';
 
 // Payment mode enum values
 const paymentModeValues = ['CASH', 'CHEQUE', 'ONLINE'] as const;
 
 // Expense status enum values
-const expenseStatusValues = ['PENDING', 'APPROVED'] as const;
+const expenseStatusValues = ['PENDING', 'APPROVED', 'REJECTED'] as const;
 
 // Sort field values
 const sortByValues = ['expenseDate', 'amount', 'createdAt'] as const;
@@ -16,6 +17,18 @@ const sortOrderValues = ['asc', 'desc'] as const;
 // Request Schemas
 // ============================================
 
+const gstRateSchema = z
+  .number()
+  .refine((rate) => (GST_RATES as readonly number[]).includes(rate), 'Invalid GST rate');
+
+// GST on the bill. rate x quantity includes the tax; gstAmount is worked out from
+// the rate unless given as printed on the bill.
+const expenseTaxFields = {
+  gstRate: gstRateSchema.optional(),
+  gstAmount: z.number().nonnegative('GST amount must be zero or positive').optional(),
+  itcEligible: z.boolean().optional(),
+};
+
 export const createExpenseSchema = z.object({
   projectId: z.string().min(1, 'Project is required'),
   partyId: z.string().min(1, 'Party is required'),
@@ -27,8 +40,12 @@ export const createExpenseSchema = z.object({
   description: z.string().optional(),
   rate: z.number().positive('Rate must be positive'),
   quantity: z.number().positive('Quantity must be positive'),
+  // What the rate is per, e.g. bag or cum
+  unit: z.string().trim().min(1).max(20).optional(),
+  ...expenseTaxFields,
+  // Purchase order line the bill is matched against
+  purchaseOrderLineId: z.string().min(1).optional(),
   expenseDate: z.string().datetime(),
-  status: z.enum(expenseStatusValues).optional(),
   notes: z.string().optional(),
   // Optional payment fields - if provided, creates a linked payment
   paidAmount: z.number().nonnegative('Paid amount must be zero or positive').optional(),
@@ -45,8 +62,10 @@ export const updateExpenseSchema = z.object({
   description: z.string().nullable().optional(),
   rate: z.number().positive().optional(),
   quantity: z.number().positive().optional(),
+  unit: z.string().trim().min(1).max(20).nullable().optional(),
+  ...expenseTaxFields,
+  purchaseOrderLineId: z.string().min(1).nullable().optional(),
   expenseDate: z.string().datetime().optional(),
-  status: z.enum(expenseStatusValues).optional(),
   notes: z.string().nullable().optional(),
 });
 
@@ -73,6 +92,19 @@ export const summaryQuerySchema = z.object({
   projectId: z.string().optional(),
 });
 
+// Status changes go through the approval workflow rather than PUT
+export const approveExpenseSchema = z.object({
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export const rejectExpenseSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(1000),
+});
+
+export const reopenExpenseSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
 // ============================================
 // Type Exports
 // ============================================
@@ -82,3 +114,6 @@ export type UpdateExpenseInput = z.infer<typeof updateExpenseSchema>;
 export type ExpenseQuery = z.infer<typeof expenseQuerySchema>;
 export type ExpenseParams = z.infer<typeof expenseParamsSchema>;
 export type SummaryQuery = z.infer<typeof summaryQuerySchema>;
+export type ApproveExpenseInput = z.infer<typeof approveExpenseSchema>;
+export type RejectExpenseInput = z.infer<typeof rejectExpenseSchema>;
+export type ReopenExpenseInput = z.infer<typeof reopenExpenseSchema>;
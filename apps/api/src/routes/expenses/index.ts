@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import * as controller from './expense.controller';
 import {
   createExpenseSchema,
@@ -8,6 +11,9 @@ import {
   expenseQuerySchema,
   expenseParamsSchema,
   summaryQuerySchema,
+  approveExpenseSchema,
+  rejectExpenseSchema,
+  reopenExpenseSchema,
 } from './expense.schema';
 
 export default async function expenseRoutes(fastify: FastifyInstance) {
@@ -18,6 +24,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
 
   // GET /api/expenses - List all expenses
   app.get('/', {
+    preHandler: [requireResourceAccess('expenses.view')],
     schema: { querystring: expenseQuerySchema },
     handler: controller.listExpenses,
   });
@@ -25,24 +32,28 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
   // GET /api/expenses/summary/by-category - Get expenses summary by category
   // Note: Must be before /:id to avoid route conflict
   app.get('/summary/by-category', {
+    preHandler: [requireResourceAccess('expenses.view')],
     schema: { querystring: summaryQuerySchema },
     handler: controller.getExpensesByCategory,
   });
 
   // GET /api/expenses/:id - Get expense by ID
   app.get('/:id', {
+    preHandler: [requireResourceAccess('expenses.view')],
     schema: { params: expenseParamsSchema },
     handler: controller.getExpense,
   });
 
   // POST /api/expenses - Create expense
   app.post('/', {
+    preHandler: [requireResourceAccess('expenses.create')],
     schema: { body: createExpenseSchema },
     handler: controller.createExpense,
   });
 
   // PUT /api/expenses/:id - Update expense
   app.put('/:id', {
+    preHandler: [requireResourceAccess('expenses.edit')],
     schema: {
       params: expenseParamsSchema,
       body: updateExpenseSchema,
@@ -50,8 +61,44 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
     handler: controller.updateExpense,
   });
 
+  // GET /api/expenses/:id/approvals - Submission and approval history
+  app.get('/:id/approvals', {
+    preHandler: [requireResourceAccess('expenses.view')],
+    schema: { params: expenseParamsSchema },
+    handler: controller.getApprovalHistory,
+  });
+
+  // POST /api/expenses/:id/submit - Resubmit a rejected expense
+  app.post('/:id/submit', {
+    preHandler: [requireResourceAccess('expenses.edit')],
+    schema: { params: expenseParamsSchema },
+    handler: controller.submitExpense,
+  });
+
+  // POST /api/expenses/:id/approve - Approve the current approval step
+  app.post('/:id/approve', {
+    preHandler: [requireResourceAccess('expenses.approve')],
+    schema: { params: expenseParamsSchema, body: approveExpenseSchema },
+    handler: controller.approveExpense,
+  });
+
+  // POST /api/expenses/:id/reject - Reject with a reason
+  app.post('/:id/reject', {
+    preHandler: [requireResourceAccess('expenses.approve')],
+    schema: { params: expenseParamsSchema, body: rejectExpenseSchema },
+    handler: controller.rejectExpense,
+  });
+
+  // POST /api/expenses/:id/reopen - Unlock an approved expense for editing
+  app.post('/:id/reopen', {
+    preHandler: [requireResourceAccess('expenses.approve')],
+    schema: { params: expenseParamsSchema, body: reopenExpenseSchema },
+    handler: controller.reopenExpense,
+  });
+
   // DELETE /api/expenses/:id - Delete expense
   app.delete('/:id', {
+    preHandler: [requireResourceAccess('expenses.delete')],
     schema: { params: expenseParamsSchema },
     handler: controller.deleteExpense,
   });
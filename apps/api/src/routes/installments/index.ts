@@ -0,0 +1,51 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './installment.controller';
+import {
+  createInstallmentSchema,
+  updateInstallmentSchema,
+  installmentParamsSchema,
+  projectParamsSchema,
+} from './installment.schema';
+
+export default async function installmentRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/installments/project/:projectId - Get a project's payment schedule
+  app.get('/project/:projectId', {
+    preHandler: [requireResourceAccess('payments.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getProjectSchedule,
+  });
+
+  // POST /api/installments - Add an installment to a schedule
+  app.post('/', {
+    preHandler: [requireResourceAccess('payments.edit')],
+    schema: { body: createInstallmentSchema },
+    handler: controller.createInstallment,
+  });
+
+  // PUT /api/installments/:id - Update installment
+  app.put('/:id', {
+    preHandler: [requireResourceAccess('payments.edit')],
+    schema: {
+      params: installmentParamsSchema,
+      body: updateInstallmentSchema,
+    },
+    handler: controller.updateInstallment,
+  });
+
+  // DELETE /api/installments/:id - Delete installment
+  app.delete('/:id', {
+    preHandler: [requireResourceAccess('payments.edit')],
+    schema: { params: installmentParamsSchema },
+    handler: controller.deleteInstallment,
+  });
+}
@@ -0,0 +1,89 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { installmentService } from '../../services/installment.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess, sendNotFound, sendNoContent } from '../../lib/response.utils';
+import type {
+  CreateInstallmentInput,
+  UpdateInstallmentInput,
+  InstallmentParams,
+  ProjectParams,
+} from './installment.schema';
+
+const handle = createErrorHandler('installment');
+
+// ============================================
+// Get Project Payment Schedule
+// ============================================
+export const getProjectSchedule = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const schedule = await installmentService.getSchedule(
+      request.organizationId,
+      request.params.projectId
+    );
+
+    return sendSuccess(reply, schedule);
+  }
+);
+
+// ============================================
+// Create Installment
+// ============================================
+export const createInstallment = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateInstallmentInput }>, reply: FastifyReply) => {
+    const { dueDate, ...data } = request.body;
+
+    const installment = await installmentService.create(request.organizationId, {
+      ...data,
+      dueDate: dueDate ? new Date(dueDate) : null,
+    });
+    await auditService.recordCreate(auditContext(request), 'INSTALLMENT', installment);
+
+    return sendSuccess(reply, installment, 201);
+  }
+);
+
+// ============================================
+// Update Installment
+// ============================================
+export const updateInstallment = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: InstallmentParams; Body: UpdateInstallmentInput }>,
+    reply: FastifyReply
+  ) => {
+    const { dueDate, ...data } = request.body;
+
+    const existing = await installmentService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Installment');
+    }
+
+    const installment = await installmentService.update(request.organizationId, existing, {
+      ...data,
+      dueDate: dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : undefined,
+    });
+    await auditService.recordUpdate(auditContext(request), 'INSTALLMENT', existing, installment);
+
+    return sendSuccess(reply, installment);
+  }
+);
+
+// ============================================
+// Delete Installment
+// ============================================
+export const deleteInstallment = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: InstallmentParams }>, reply: FastifyReply) => {
+    const existing = await installmentService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Installment');
+    }
+
+    await installmentService.delete(request.organizationId, existing);
+    await auditService.recordDelete(auditContext(request), 'INSTALLMENT', existing);
+    return sendNoContent(reply);
+  }
+);
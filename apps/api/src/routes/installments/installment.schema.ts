@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+const amountTypeValues = ['PERCENTAGE', 'FIXED'] as const;
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const createInstallmentSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  stageId: z.string().nullable().optional(),
+  name: z.string().min(1, 'Name is required'),
+  sequence: z.number().int().min(1).optional(),
+  amountType: z.enum(amountTypeValues, { required_error: 'Amount type is required' }),
+  percentage: z.number().positive().max(100, 'Percentage cannot exceed 100').nullable().optional(),
+  amount: z.number().positive('Amount must be positive').nullable().optional(),
+  dueDate: z.string().datetime().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const updateInstallmentSchema = z.object({
+  stageId: z.string().nullable().optional(),
+  name: z.string().min(1).optional(),
+  sequence: z.number().int().min(1).optional(),
+  amountType: z.enum(amountTypeValues).optional(),
+  percentage: z.number().positive().max(100).nullable().optional(),
+  amount: z.number().positive().nullable().optional(),
+  dueDate: z.string().datetime().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const installmentParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreateInstallmentInput = z.infer<typeof createInstallmentSchema>;
+export type UpdateInstallmentInput = z.infer<typeof updateInstallmentSchema>;
+export type InstallmentParams = z.infer<typeof installmentParamsSchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
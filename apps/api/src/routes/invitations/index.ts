@@ -0,0 +1,49 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requirePermission,
+} from '../../middleware/organization.middleware';
+import {
+  createInvitationSchema,
+  invitationParamsSchema,
+  invitationQuerySchema,
+} from './invitation.schema';
+import * as controller from './invitation.controller';
+
+export default async function invitationRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/team/invitations - List invitations sent by the organization
+  app.get(
+    '/',
+    {
+      preHandler: [requirePermission('team.view')],
+      schema: { querystring: invitationQuerySchema },
+    },
+    controller.listInvitations
+  );
+
+  // POST /api/team/invitations - Invite someone by phone (sends an SMS)
+  app.post(
+    '/',
+    { preHandler: [requirePermission('team.manage')], schema: { body: createInvitationSchema } },
+    controller.createInvitation
+  );
+
+  // POST /api/team/invitations/:id/resend - Send the SMS again and restart the expiry
+  app.post(
+    '/:id/resend',
+    { preHandler: [requirePermission('team.manage')], schema: { params: invitationParamsSchema } },
+    controller.resendInvitation
+  );
+
+  // DELETE /api/team/invitations/:id - Revoke a pending invitation
+  app.delete(
+    '/:id',
+    { preHandler: [requirePermission('team.manage')], schema: { params: invitationParamsSchema } },
+    controller.revokeInvitation
+  );
+}
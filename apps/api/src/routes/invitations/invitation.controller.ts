@@ -0,0 +1,78 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { invitationService } from '../../services/invitation.service';
+import { getRequestGrantor } from '../../middleware/organization.middleware';
+import { createErrorHandler } from '../../lib/error-handler';
+import { normalizePhone } from '../../lib/phone';
+import {
+  sendSuccess,
+  sendPaginated,
+  sendNoContent,
+  buildPagination,
+} from '../../lib/response.utils';
+import type { CreateInvitationInput, InvitationParams, InvitationQuery } from './invitation.schema';
+
+const handle = createErrorHandler('invitation');
+
+// ============================================
+// List Invitations
+// ============================================
+export const listInvitations = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: InvitationQuery }>, reply: FastifyReply) => {
+    const { page, limit, status } = request.query;
+    const skip = (page - 1) * limit;
+
+    const { invitations, total } = await invitationService.findAll(request.organizationId, {
+      skip,
+      take: limit,
+      status,
+    });
+
+    return sendPaginated(reply, invitations, buildPagination(page, limit, total));
+  }
+);
+
+// ============================================
+// Create Invitation
+// ============================================
+export const createInvitation = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateInvitationInput }>, reply: FastifyReply) => {
+    const { name, phone, countryCode, roleId, projectIds, partyId } = request.body;
+
+    const invitation = await invitationService.invite({
+      organizationId: request.organizationId,
+      invitedById: request.memberId,
+      phone: normalizePhone(phone, countryCode),
+      name,
+      roleId,
+      projectIds,
+      partyId,
+      grantor: await getRequestGrantor(request),
+    });
+
+    return sendSuccess(reply, invitation, 201);
+  }
+);
+
+// ============================================
+// Resend Invitation
+// ============================================
+export const resendInvitation = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: InvitationParams }>, reply: FastifyReply) => {
+    const invitation = await invitationService.resend(request.organizationId, request.params.id);
+    return sendSuccess(reply, invitation);
+  }
+);
+
+// ============================================
+// Revoke Invitation
+// ============================================
+export const revokeInvitation = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: InvitationParams }>, reply: FastifyReply) => {
+    await invitationService.revoke(request.organizationId, request.params.id);
+    return sendNoContent(reply);
+  }
+);
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+export const invitationStatusEnum = z.enum([
+  'PENDING',
+  'EXPIRED',
+  'ACCEPTED',
+  'DECLINED',
+  'REVOKED',
+]);
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const createInvitationSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  phone: z
+    .string()
+    .min(1, 'Phone number is required')
+    .max(20)
+    .regex(/^\+?[0-9\s-]+$/, 'Invalid phone number format'),
+  countryCode: z.string().default('+91'),
+  roleId: z.string().min(1, 'Role is required'),
+  // Projects the member gets access to once they accept
+  projectIds: z.array(z.string().min(1)).max(200).default([]),
+  // Client party the person represents (required for the CLIENT role)
+  partyId: z.string().min(1).optional(),
+});
+
+export const invitationParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const invitationQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: invitationStatusEnum.optional(),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
+export type InvitationParams = z.infer<typeof invitationParamsSchema>;
+export type InvitationQuery = z.infer<typeof invitationQuerySchema>;
@@ -0,0 +1,88 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './labour.controller';
+import {
+  createWorkerSchema,
+  updateWorkerSchema,
+  markAttendanceSchema,
+  createWageBillSchema,
+  workerParamsSchema,
+  wageBillParamsSchema,
+  projectParamsSchema,
+  workersQuerySchema,
+  attendanceQuerySchema,
+} from './labour.schema';
+
+export default async function labourRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/labour/workers - Workers of labour parties with their rate cards
+  app.get('/workers', {
+    preHandler: [requireResourceAccess('labour.view')],
+    schema: { querystring: workersQuerySchema },
+    handler: controller.getWorkers,
+  });
+
+  // POST /api/labour/workers - Add a worker to a labour party
+  app.post('/workers', {
+    preHandler: [requireResourceAccess('labour.manage')],
+    schema: { body: createWorkerSchema },
+    handler: controller.createWorker,
+  });
+
+  // PATCH /api/labour/workers/:id - Change a worker or their rate card
+  app.patch('/workers/:id', {
+    preHandler: [requireResourceAccess('labour.manage')],
+    schema: { params: workerParamsSchema, body: updateWorkerSchema },
+    handler: controller.updateWorker,
+  });
+
+  // GET /api/labour/attendance/project/:projectId - Muster roll between two days
+  app.get('/attendance/project/:projectId', {
+    preHandler: [requireResourceAccess('labour.view')],
+    schema: { params: projectParamsSchema, querystring: attendanceQuerySchema },
+    handler: controller.getAttendance,
+  });
+
+  // PUT /api/labour/attendance - Mark a day's attendance at a project
+  app.put('/attendance', {
+    preHandler: [requireResourceAccess('labour.attendance')],
+    schema: { body: markAttendanceSchema },
+    handler: controller.markAttendance,
+  });
+
+  // GET /api/labour/wage-bills/project/:projectId - A project's wage bills
+  app.get('/wage-bills/project/:projectId', {
+    preHandler: [requireResourceAccess('labour.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getWageBills,
+  });
+
+  // GET /api/labour/wage-bills/:id - A wage bill with its workers and expenses
+  app.get('/wage-bills/:id', {
+    preHandler: [requireResourceAccess('labour.view')],
+    schema: { params: wageBillParamsSchema },
+    handler: controller.getWageBill,
+  });
+
+  // POST /api/labour/wage-bills - Pay a party's week of attendance as labour expenses
+  app.post('/wage-bills', {
+    preHandler: [requireResourceAccess('labour.manage')],
+    schema: { body: createWageBillSchema },
+    handler: controller.createWageBill,
+  });
+
+  // GET /api/labour/project/:projectId/man-days - Man-days by stage against the BOQ
+  app.get('/project/:projectId/man-days', {
+    preHandler: [requireResourceAccess('labour.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getManDays,
+  });
+}
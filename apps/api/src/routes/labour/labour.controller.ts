@@ -0,0 +1,145 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { labourService } from '../../services/labour.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess } from '../../lib/response.utils';
+import type {
+  CreateWorkerBody,
+  UpdateWorkerBody,
+  MarkAttendanceBody,
+  CreateWageBillBody,
+  WorkerParams,
+  WageBillParams,
+  ProjectParams,
+  WorkersQuery,
+  AttendanceQuery,
+} from './labour.schema';
+
+const handle = createErrorHandler('labour');
+
+// ============================================
+// Workers
+// ============================================
+export const getWorkers = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: WorkersQuery }>, reply: FastifyReply) => {
+    const workers = await labourService.getWorkers(request.organizationId, request.query);
+    return sendSuccess(reply, workers);
+  }
+);
+
+export const createWorker = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateWorkerBody }>, reply: FastifyReply) => {
+    const worker = await labourService.createWorker(request.organizationId, request.body);
+    await auditService.recordCreate(auditContext(request), 'LABOUR_WORKER', worker);
+
+    return sendSuccess(reply, worker, 201);
+  }
+);
+
+export const updateWorker = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: WorkerParams; Body: UpdateWorkerBody }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await labourService.getWorker(request.organizationId, request.params.id);
+    const worker = await labourService.updateWorker(
+      request.organizationId,
+      request.params.id,
+      request.body
+    );
+    await auditService.recordUpdate(auditContext(request), 'LABOUR_WORKER', existing, worker);
+
+    return sendSuccess(reply, worker);
+  }
+);
+
+// ============================================
+// Muster Roll
+// ============================================
+export const getAttendance = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: ProjectParams; Querystring: AttendanceQuery }>,
+    reply: FastifyReply
+  ) => {
+    const entries = await labourService.getAttendance(
+      request.organizationId,
+      request.params.projectId,
+      request.query
+    );
+    return sendSuccess(reply, entries);
+  }
+);
+
+export const markAttendance = handle(
+  'update',
+  async (request: FastifyRequest<{ Body: MarkAttendanceBody }>, reply: FastifyReply) => {
+    const marked = await labourService.markAttendance(request.organizationId, {
+      ...request.body,
+      markedById: request.memberId,
+    });
+
+    const ctx = auditContext(request);
+    for (const { before, entry } of marked) {
+      if (before) {
+        await auditService.recordUpdate(ctx, 'ATTENDANCE', before, entry);
+      } else {
+        await auditService.recordCreate(ctx, 'ATTENDANCE', entry);
+      }
+    }
+
+    return sendSuccess(
+      reply,
+      marked.map(({ entry }) => entry)
+    );
+  }
+);
+
+// ============================================
+// Wage Bills
+// ============================================
+export const getWageBills = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const bills = await labourService.getWageBills(
+      request.organizationId,
+      request.params.projectId
+    );
+    return sendSuccess(reply, bills);
+  }
+);
+
+export const getWageBill = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: WageBillParams }>, reply: FastifyReply) => {
+    const bill = await labourService.getWageBill(request.organizationId, request.params.id);
+    return sendSuccess(reply, bill);
+  }
+);
+
+export const createWageBill = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateWageBillBody }>, reply: FastifyReply) => {
+    const bill = await labourService.generateWageBill(
+      request.organizationId,
+      { ...request.body, createdById: request.memberId },
+      (tx, created) => auditService.recordCreate(auditContext(request), 'WAGE_BILL', created, tx)
+    );
+
+    return sendSuccess(reply, bill, 201);
+  }
+);
+
+// ============================================
+// Man-days
+// ============================================
+export const getManDays = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const rows = await labourService.getManDays(request.organizationId, request.params.projectId);
+    return sendSuccess(reply, rows);
+  }
+);
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+const attendanceStatusValues = ['PRESENT', 'HALF_DAY', 'ABSENT'] as const;
+
+const daySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+// ============================================
+// Request Schemas
+// ============================================
+
+const rateCardSchema = z.object({
+  dailyRate: z.number().positive('Daily rate must be positive'),
+  shiftHours: z.number().positive('Shift hours must be positive').max(24).optional(),
+  overtimeMultiplier: z.number().min(1, 'Overtime is paid at least the hourly rate').optional(),
+  nightMultiplier: z.number().min(1, 'A night shift is paid at least a day').optional(),
+});
+
+export const createWorkerSchema = rateCardSchema.extend({
+  partyId: z.string().min(1, 'Labour party is required'),
+  labourTypeItemId: z.string().min(1).nullable().optional(),
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  phone: z.string().trim().max(20).nullable().optional(),
+});
+
+export const updateWorkerSchema = rateCardSchema.partial().extend({
+  labourTypeItemId: z.string().min(1).nullable().optional(),
+  name: z.string().trim().min(1, 'Name is required').max(200).optional(),
+  phone: z.string().trim().max(20).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const markAttendanceSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  stageId: z.string().min(1).nullable().optional(),
+  date: daySchema,
+  entries: z
+    .array(
+      z
+        .object({
+          workerId: z.string().min(1),
+          status: z.enum(attendanceStatusValues),
+          overtimeHours: z.number().min(0).max(16).optional(),
+          isNightShift: z.boolean().optional(),
+          notes: z.string().nullable().optional(),
+        })
+        .refine((entry) => entry.status !== 'ABSENT' || !entry.overtimeHours, {
+          message: 'An absent worker cannot have overtime',
+          path: ['overtimeHours'],
+        })
+    )
+    .min(1, 'Mark at least one worker'),
+});
+
+export const createWageBillSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  partyId: z.string().min(1, 'Labour party is required'),
+  weekStart: daySchema,
+});
+
+export const workerParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const wageBillParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+export const workersQuerySchema = z.object({
+  partyId: z.string().min(1).optional(),
+  includeInactive: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+export const attendanceQuerySchema = z.object({
+  from: daySchema,
+  to: daySchema,
+  stageId: z.string().min(1).optional(),
+  partyId: z.string().min(1).optional(),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreateWorkerBody = z.infer<typeof createWorkerSchema>;
+export type UpdateWorkerBody = z.infer<typeof updateWorkerSchema>;
+export type MarkAttendanceBody = z.infer<typeof markAttendanceSchema>;
+export type CreateWageBillBody = z.infer<typeof createWageBillSchema>;
+export type WorkerParams = z.infer<typeof workerParamsSchema>;
+export type WageBillParams = z.infer<typeof wageBillParamsSchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
+export type WorkersQuery = z.infer<typeof workersQuerySchema>;
+export type AttendanceQuery = z.infer<typeof attendanceQuerySchema>;
@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import * as controller from './member-advance.controller';
 import {
   createMemberAdvanceSchema,
@@ -21,60 +24,84 @@ export default async function memberAdvanceRoutes(fastify: FastifyInstance) {
 
   // GET /api/member-advances - List all member advances
   app.get('/', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { querystring: memberAdvanceQuerySchema },
     handler: controller.listMemberAdvances,
   });
 
   // GET /api/member-advances/project/:projectId/summaries - Get all member summaries
   app.get('/project/:projectId/summaries', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { params: projectMemberAdvanceParamsSchema },
     handler: controller.getProjectMemberAdvanceSummaries,
   });
 
   // GET /api/member-advances/project/:projectId/members - Get project members for dropdown
   app.get('/project/:projectId/members', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { params: projectMemberAdvanceParamsSchema },
     handler: controller.getProjectMembers,
   });
 
   // GET /api/member-advances/project/:projectId/member/:memberId/summary - Get member summary
   app.get('/project/:projectId/member/:memberId/summary', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { params: memberSummaryParamsSchema },
     handler: controller.getMemberAdvanceSummary,
   });
 
+  // GET /api/member-advances/project/:projectId/member/:memberId/statement - Cash-in-hand statement
+  app.get('/project/:projectId/member/:memberId/statement', {
+    preHandler: [requireResourceAccess('advances.view')],
+    schema: { params: memberSummaryParamsSchema },
+    handler: controller.getMemberCashStatement,
+  });
+
+  // GET /api/member-advances/project/:projectId/member/:memberId/settlements - Settlement history
+  app.get('/project/:projectId/member/:memberId/settlements', {
+    preHandler: [requireResourceAccess('advances.view')],
+    schema: { params: memberSummaryParamsSchema },
+    handler: controller.getMemberSettlements,
+  });
+
   // GET /api/member-advances/member/:memberId/balances - Get member balances across all projects
   app.get('/member/:memberId/balances', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { params: memberBalancesParamsSchema },
     handler: controller.getMemberBalancesAcrossProjects,
   });
 
   // GET /api/member-advances/member/:memberId/total-balance - Get member total balance
   app.get('/member/:memberId/total-balance', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { params: memberBalancesParamsSchema },
     handler: controller.getMemberTotalBalance,
   });
 
   // POST /api/member-advances/batch-balances - Get member total balances in batch
   app.post('/batch-balances', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { body: batchMemberBalancesBodySchema },
     handler: controller.getMemberTotalBalancesBatch,
   });
 
   // GET /api/member-advances/:id - Get member advance by ID
   app.get('/:id', {
+    preHandler: [requireResourceAccess('advances.view')],
     schema: { params: memberAdvanceParamsSchema },
     handler: controller.getMemberAdvance,
   });
 
   // POST /api/member-advances - Create member advance
   app.post('/', {
+    preHandler: [requireResourceAccess('advances.manage')],
     schema: { body: createMemberAdvanceSchema },
     handler: controller.createMemberAdvance,
   });
 
   // PUT /api/member-advances/:id - Update member advance
   app.put('/:id', {
+    preHandler: [requireResourceAccess('advances.manage')],
     schema: {
       params: memberAdvanceParamsSchema,
       body: updateMemberAdvanceSchema,
@@ -84,6 +111,7 @@ export default async function memberAdvanceRoutes(fastify: FastifyInstance) {
 
   // DELETE /api/member-advances/:id - Delete member advance
   app.delete('/:id', {
+    preHandler: [requireResourceAccess('advances.manage')],
     schema: { params: memberAdvanceParamsSchema },
     handler: controller.deleteMemberAdvance,
   });
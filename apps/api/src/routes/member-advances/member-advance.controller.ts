@@ -1,5 +1,7 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { memberAdvanceRepository } from '../../repositories/member-advance.repository';
+import { advanceClaimService } from '../../services/advance-claim.service';
+import { auditService, auditContext } from '../../services/audit.service';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -79,6 +81,7 @@ export const createMemberAdvance = handle(
         ? new Date(request.body.expectedSettlementDate)
         : undefined,
     });
+    await auditService.recordCreate(auditContext(request), 'MEMBER_ADVANCE', advance);
 
     return sendSuccess(reply, advance, 201);
   }
@@ -104,11 +107,20 @@ export const updateMemberAdvance = handle(
           : undefined,
     };
 
+    const existing = await memberAdvanceRepository.findById(
+      request.organizationId,
+      request.params.id
+    );
+    if (!existing) {
+      return sendNotFound(reply, 'Member advance');
+    }
+
     const advance = await memberAdvanceRepository.update(
       request.organizationId,
       request.params.id,
       updateData
     );
+    await auditService.recordUpdate(auditContext(request), 'MEMBER_ADVANCE', existing, advance);
 
     return sendSuccess(reply, advance);
   }
@@ -120,7 +132,16 @@ export const updateMemberAdvance = handle(
 export const deleteMemberAdvance = handle(
   'delete',
   async (request: FastifyRequest<{ Params: MemberAdvanceParams }>, reply: FastifyReply) => {
+    const existing = await memberAdvanceRepository.findById(
+      request.organizationId,
+      request.params.id
+    );
+    if (!existing) {
+      return sendNotFound(reply, 'Member advance');
+    }
+
     await memberAdvanceRepository.delete(request.organizationId, request.params.id);
+    await auditService.recordDelete(auditContext(request), 'MEMBER_ADVANCE', existing);
     return sendNoContent(reply);
   }
 );
@@ -146,6 +167,40 @@ export const getMemberAdvanceSummary = handle(
   }
 );
 
+// ============================================
+// Get Member Cash Statement
+// ============================================
+export const getMemberCashStatement = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: MemberSummaryParams }>, reply: FastifyReply) => {
+    const { projectId, memberId } = request.params;
+    const entries = await memberAdvanceRepository.getCashStatement(
+      request.organizationId,
+      projectId,
+      memberId
+    );
+
+    return sendSuccess(reply, entries);
+  }
+);
+
+// ============================================
+// Get Member Settlement History
+// ============================================
+export const getMemberSettlements = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: MemberSummaryParams }>, reply: FastifyReply) => {
+    const { projectId, memberId } = request.params;
+    const settlements = await advanceClaimService.getSettlements(
+      request.organizationId,
+      projectId,
+      memberId
+    );
+
+    return sendSuccess(reply, settlements);
+  }
+);
+
 // ============================================
 // Get All Members' Advance Summaries for a project
 // ============================================
@@ -1,48 +1,40 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import {
-  CreateOrganizationSchema,
-  UpdateOrganizationSchema,
-  AddMemberSchema,
-  UpdateMemberRoleSchema,
-  OrganizationIdParams,
-  MemberParams,
-  OrganizationListQuery,
-} from './organization.schema';
+  organizationMiddleware,
+  requireActiveOrganization,
+  requireFullAccess,
+  requirePermission,
+} from '../../middleware/organization.middleware';
+import { UpdateOrganizationSchema, OrganizationIdParams } from './organization.schema';
 import {
-  listOrganizations,
   getOrganization,
-  createOrganization,
   updateOrganization,
   deleteOrganization,
   listMembers,
-  addMember,
-  updateMemberRole,
-  removeMember,
 } from './organization.controller';
 
+/**
+ * Organization-level routes, limited to the caller's active organization.
+ *
+ * Organizations are created through POST /api/auth/onboarding and listed per user
+ * through GET /api/auth/organizations. Members join through invitations
+ * (/api/team/invitations) and are managed through /api/team.
+ */
 export default async function organizationRoutes(fastify: FastifyInstance) {
   const app = fastify.withTypeProvider<ZodTypeProvider>();
 
+  app.addHook('preHandler', organizationMiddleware);
+
   // ============================================
-  // Organization CRUD
+  // Organization
   // ============================================
 
-  // GET /api/organizations - List all organizations
-  app.get(
-    '/',
-    {
-      schema: {
-        querystring: OrganizationListQuery,
-      },
-    },
-    listOrganizations
-  );
-
   // GET /api/organizations/:id - Get organization by ID
   app.get(
     '/:id',
     {
+      preHandler: [requireActiveOrganization()],
       schema: {
         params: OrganizationIdParams,
       },
@@ -50,21 +42,11 @@ export default async function organizationRoutes(fastify: FastifyInstance) {
     getOrganization
   );
 
-  // POST /api/organizations - Create organization
-  app.post(
-    '/',
-    {
-      schema: {
-        body: CreateOrganizationSchema,
-      },
-    },
-    createOrganization
-  );
-
   // PUT /api/organizations/:id - Update organization
   app.put(
     '/:id',
     {
+      preHandler: [requireActiveOrganization(), requireFullAccess()],
       schema: {
         params: OrganizationIdParams,
         body: UpdateOrganizationSchema,
@@ -77,6 +59,7 @@ export default async function organizationRoutes(fastify: FastifyInstance) {
   app.delete(
     '/:id',
     {
+      preHandler: [requireActiveOrganization(), requireFullAccess()],
       schema: {
         params: OrganizationIdParams,
       },
@@ -85,52 +68,18 @@ export default async function organizationRoutes(fastify: FastifyInstance) {
   );
 
   // ============================================
-  // Member Management
+  // Members
   // ============================================
 
   // GET /api/organizations/:id/members - List members
   app.get(
     '/:id/members',
     {
+      preHandler: [requireActiveOrganization(), requirePermission('team.view')],
       schema: {
         params: OrganizationIdParams,
       },
     },
     listMembers
   );
-
-  // POST /api/organizations/:id/members - Add member
-  app.post(
-    '/:id/members',
-    {
-      schema: {
-        params: OrganizationIdParams,
-        body: AddMemberSchema,
-      },
-    },
-    addMember
-  );
-
-  // PUT /api/organizations/:id/members/:userId - Update member role
-  app.put(
-    '/:id/members/:userId',
-    {
-      schema: {
-        params: MemberParams,
-        body: UpdateMemberRoleSchema,
-      },
-    },
-    updateMemberRole
-  );
-
-  // DELETE /api/organizations/:id/members/:userId - Remove member
-  app.delete(
-    '/:id/members/:userId',
-    {
-      schema: {
-        params: MemberParams,
-      },
-    },
-    removeMember
-  );
 }
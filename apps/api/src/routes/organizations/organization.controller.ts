@@ -1,49 +1,15 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { organizationService } from '../../services/organization.service';
 import { createErrorHandler } from '../../lib/error-handler';
-import {
-  sendSuccess,
-  sendCreated,
-  sendNotFound,
-  sendNoContent,
-  sendPaginated,
-  buildPagination,
-} from '../../lib/response.utils';
-import type {
-  CreateOrganizationInput,
-  UpdateOrganizationInput,
-  AddMemberInput,
-  UpdateMemberRoleInput,
-  OrganizationIdParamsType,
-  MemberParamsType,
-  OrganizationListQueryType,
-} from './organization.schema';
+import { sendSuccess, sendNotFound, sendNoContent } from '../../lib/response.utils';
+import type { UpdateOrganizationInput, OrganizationIdParamsType } from './organization.schema';
 
 const withError = createErrorHandler('organization');
 
 // ============================================
-// Organization CRUD
+// Organization
 // ============================================
 
-export const listOrganizations = withError(
-  'fetch',
-  async (
-    request: FastifyRequest<{ Querystring: OrganizationListQueryType }>,
-    reply: FastifyReply
-  ) => {
-    const { page, limit, search } = request.query;
-    const skip = (page - 1) * limit;
-
-    const { organizations, total } = await organizationService.findAll({
-      skip,
-      take: limit,
-      search,
-    });
-
-    return sendPaginated(reply, organizations, buildPagination(page, limit, total));
-  }
-);
-
 export const getOrganization = withError(
   'fetch',
   async (request: FastifyRequest<{ Params: OrganizationIdParamsType }>, reply: FastifyReply) => {
@@ -58,14 +24,6 @@ export const getOrganization = withError(
   }
 );
 
-export const createOrganization = withError(
-  'create',
-  async (request: FastifyRequest<{ Body: CreateOrganizationInput }>, reply: FastifyReply) => {
-    const organization = await organizationService.create(request.body);
-    return sendCreated(reply, organization);
-  }
-);
-
 export const updateOrganization = withError(
   'update',
   async (
@@ -102,42 +60,3 @@ export const listMembers = withError(
     return sendSuccess(reply, members);
   }
 );
-
-export const addMember = withError(
-  'add member to',
-  async (
-    request: FastifyRequest<{
-      Params: OrganizationIdParamsType;
-      Body: AddMemberInput;
-    }>,
-    reply: FastifyReply
-  ) => {
-    const { id } = request.params;
-    const member = await organizationService.addMember(id, request.body);
-    return sendCreated(reply, member);
-  }
-);
-
-export const updateMemberRole = withError(
-  'update member role in',
-  async (
-    request: FastifyRequest<{
-      Params: MemberParamsType;
-      Body: UpdateMemberRoleInput;
-    }>,
-    reply: FastifyReply
-  ) => {
-    const { id, userId } = request.params;
-    const member = await organizationService.updateMemberRole(id, userId, request.body);
-    return sendSuccess(reply, member);
-  }
-);
-
-export const removeMember = withError(
-  'remove member from',
-  async (request: FastifyRequest<{ Params: MemberParamsType }>, reply: FastifyReply) => {
-    const { id, userId } = request.params;
-    await organizationService.removeMember(id, userId);
-    return sendNoContent(reply);
-  }
-);
@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requirePermission,
+} from '../../middleware/organization.middleware';
 import * as controller from './party.controller';
 import {
   createPartySchema,
@@ -9,6 +12,7 @@ import {
   partyParamsSchema,
   partyProjectsQuerySchema,
   partyTransactionsQuerySchema,
+  partyStatementQuerySchema,
 } from './party.schema';
 
 export default async function partyRoutes(fastify: FastifyInstance) {
@@ -19,29 +23,34 @@ export default async function partyRoutes(fastify: FastifyInstance) {
 
   // GET /api/parties - List all parties
   app.get('/', {
+    preHandler: [requirePermission('parties.view')],
     schema: { querystring: partyQuerySchema },
     handler: controller.listParties,
   });
 
   // GET /api/parties/summary - Get summary stats for all parties
   app.get('/summary', {
+    preHandler: [requirePermission('parties.view')],
     handler: controller.getPartiesSummary,
   });
 
   // GET /api/parties/:id - Get party by ID
   app.get('/:id', {
+    preHandler: [requirePermission('parties.view')],
     schema: { params: partyParamsSchema },
     handler: controller.getParty,
   });
 
   // GET /api/parties/:id/stats - Get party statistics
   app.get('/:id/stats', {
+    preHandler: [requirePermission('parties.view')],
     schema: { params: partyParamsSchema },
     handler: controller.getPartyStats,
   });
 
   // GET /api/parties/:id/projects - Get party projects with credits
   app.get('/:id/projects', {
+    preHandler: [requirePermission('parties.view')],
     schema: {
       params: partyParamsSchema,
       querystring: partyProjectsQuerySchema,
@@ -51,6 +60,7 @@ export default async function partyRoutes(fastify: FastifyInstance) {
 
   // GET /api/parties/:id/transactions - Get party transactions (payments/expenses)
   app.get('/:id/transactions', {
+    preHandler: [requirePermission('parties.view')],
     schema: {
       params: partyParamsSchema,
       querystring: partyTransactionsQuerySchema,
@@ -58,14 +68,26 @@ export default async function partyRoutes(fastify: FastifyInstance) {
     handler: controller.getPartyTransactions,
   });
 
+  // GET /api/parties/:id/statement - Ledger statement for a period (JSON, PDF or XLSX)
+  app.get('/:id/statement', {
+    preHandler: [requirePermission('parties.view')],
+    schema: {
+      params: partyParamsSchema,
+      querystring: partyStatementQuerySchema,
+    },
+    handler: controller.getPartyStatement,
+  });
+
   // POST /api/parties - Create party
   app.post('/', {
+    preHandler: [requirePermission('parties.manage')],
     schema: { body: createPartySchema },
     handler: controller.createParty,
   });
 
   // PUT /api/parties/:id - Update party
   app.put('/:id', {
+    preHandler: [requirePermission('parties.manage')],
     schema: {
       params: partyParamsSchema,
       body: updatePartySchema,
@@ -75,6 +97,7 @@ export default async function partyRoutes(fastify: FastifyInstance) {
 
   // DELETE /api/parties/:id - Delete party
   app.delete('/:id', {
+    preHandler: [requirePermission('parties.manage')],
     schema: { params: partyParamsSchema },
     handler: controller.deleteParty,
   });
@@ -1,5 +1,10 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { partyRepository } from '../../repositories/party.repository';
+import { auditService, auditContext } from '../../services/audit.service';
+import {
+  partyStatementService,
+  statementFileName,
+} from '../../services/party-statement.service';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -15,10 +20,16 @@ import type {
   PartyParams,
   PartyProjectsQuery,
   PartyTransactionsQuery,
+  PartyStatementQuery,
 } from './party.schema';
 
 const handle = createErrorHandler('party');
 
+const STATEMENT_CONTENT_TYPES = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
 // ============================================
 // List Parties
 // ============================================
@@ -63,6 +74,7 @@ export const createParty = handle(
   'create',
   async (request: FastifyRequest<{ Body: CreatePartyInput }>, reply: FastifyReply) => {
     const party = await partyRepository.create(request.organizationId, request.body);
+    await auditService.recordCreate(auditContext(request), 'PARTY', party);
 
     return sendSuccess(reply, party, 201);
   }
@@ -77,11 +89,17 @@ export const updateParty = handle(
     request: FastifyRequest<{ Params: PartyParams; Body: UpdatePartyInput }>,
     reply: FastifyReply
   ) => {
+    const existing = await partyRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Party');
+    }
+
     const party = await partyRepository.update(
       request.organizationId,
       request.params.id,
       request.body
     );
+    await auditService.recordUpdate(auditContext(request), 'PARTY', existing, party);
 
     return sendSuccess(reply, party);
   }
@@ -93,7 +111,13 @@ export const updateParty = handle(
 export const deleteParty = handle(
   'delete',
   async (request: FastifyRequest<{ Params: PartyParams }>, reply: FastifyReply) => {
-    await partyRepository.delete(request.organizationId, request.params.id);
+    const existing = await partyRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Party');
+    }
+
+    await partyRepository.delete(request.organizationId, request.params.id, request.memberId);
+    await auditService.recordDelete(auditContext(request), 'PARTY', existing);
     return sendNoContent(reply);
   }
 );
@@ -185,3 +209,39 @@ export const getPartyTransactions = handle(
     return sendPaginated(reply, result.transactions, buildPagination(page, limit, result.total));
   }
 );
+
+// ============================================
+// Get Party Statement
+// ============================================
+export const getPartyStatement = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: PartyParams; Querystring: PartyStatementQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { from, to, projectId, format } = request.query;
+
+    const statement = await partyStatementService.build(request.organizationId, request.params.id, {
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      projectId,
+    });
+
+    if (format === 'json') {
+      return sendSuccess(reply, statement);
+    }
+
+    const file =
+      format === 'pdf'
+        ? await partyStatementService.toPdf(statement)
+        : await partyStatementService.toXlsx(statement);
+
+    return reply
+      .header('Content-Type', STATEMENT_CONTENT_TYPES[format])
+      .header(
+        'Content-Disposition',
+        `attachment; filename="${statementFileName(statement, format)}"`
+      )
+      .send(file);
+  }
+);
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { GSTIN_PATTERN, isStateCode } from '../../lib/gst';
 
 // ============================================
 // Request Schemas
@@ -10,6 +11,28 @@ export const partyTypeEnum = z.enum(['VENDOR', 'LABOUR', 'SUBCONTRACTOR', 'CLIEN
 // Party types that require a phone number
 const PHONE_REQUIRED_TYPES = ['VENDOR', 'LABOUR', 'SUBCONTRACTOR'] as const;
 
+// Clients registered for GST are billed with their GSTIN and state on tax invoices
+const gstinSchema = z
+  .string()
+  .transform((value) => value.trim().toUpperCase())
+  .refine((value) => GSTIN_PATTERN.test(value), 'Invalid GSTIN');
+
+const stateCodeSchema = z.string().refine(isStateCode, 'Invalid GST state code');
+
+// A GSTIN starts with the code of the state it is registered in
+const checkGstinState = (
+  data: { gstin?: string | null; stateCode?: string | null },
+  ctx: z.RefinementCtx
+) => {
+  if (data.gstin && data.stateCode && !data.gstin.startsWith(data.stateCode)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'GSTIN is registered in a different state',
+      path: ['stateCode'],
+    });
+  }
+};
+
 // Phone validation: at least 10 digits
 const isValidPhone = (phone: string): boolean => {
   const digitsOnly = phone.replace(/\D/g, '');
@@ -23,8 +46,12 @@ export const createPartySchema = z
     location: z.string().min(1, 'Location is required'),
     type: partyTypeEnum,
     profilePicture: z.string().optional(),
+    gstin: gstinSchema.nullable().optional(),
+    stateCode: stateCodeSchema.nullable().optional(),
   })
   .superRefine((data, ctx) => {
+    checkGstinState(data, ctx);
+
     const requiresPhone = PHONE_REQUIRED_TYPES.includes(
       data.type as (typeof PHONE_REQUIRED_TYPES)[number]
     );
@@ -60,8 +87,12 @@ export const updatePartySchema = z
     location: z.string().optional(),
     type: partyTypeEnum.optional(),
     profilePicture: z.string().optional(),
+    gstin: gstinSchema.nullable().optional(),
+    stateCode: stateCodeSchema.nullable().optional(),
   })
   .superRefine((data, ctx) => {
+    checkGstinState(data, ctx);
+
     // For updates, only validate phone format if phone is being updated
     if (data.phone !== undefined && data.phone !== null && data.phone !== '') {
       if (!isValidPhone(data.phone)) {
@@ -103,7 +134,14 @@ export const partyTransactionsQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(10),
   projectId: z.string().optional(),
-  type: z.enum(['payments', 'expenses']).default('payments'),
+  type: z.enum(['payments', 'expenses', 'ledger']).default('payments'),
+});
+
+export const partyStatementQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  projectId: z.string().optional(),
+  format: z.enum(['json', 'pdf', 'xlsx']).default('json'),
 });
 
 // ============================================
@@ -116,3 +154,4 @@ export type PartyQuery = z.infer<typeof partyQuerySchema>;
 export type PartyParams = z.infer<typeof partyParamsSchema>;
 export type PartyProjectsQuery = z.infer<typeof partyProjectsQuerySchema>;
 export type PartyTransactionsQuery = z.infer<typeof partyTransactionsQuerySchema>;
+export type PartyStatementQuery = z.infer<typeof partyStatementQuerySchema>;
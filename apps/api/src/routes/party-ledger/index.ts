@@ -0,0 +1,79 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './party-ledger.controller';
+import {
+  createPartyLedgerEntrySchema,
+  updatePartyLedgerEntrySchema,
+  partyLedgerQuerySchema,
+  partyLedgerParamsSchema,
+  ledgerAttachmentParamsSchema,
+} from './party-ledger.schema';
+
+export default async function partyLedgerRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Note: multipart plugin is registered globally in app.ts
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/party-ledger - List ledger entries
+  app.get('/', {
+    preHandler: [requireResourceAccess('payments.view')],
+    schema: { querystring: partyLedgerQuerySchema },
+    handler: controller.listEntries,
+  });
+
+  // GET /api/party-ledger/:id - Get ledger entry by ID
+  app.get('/:id', {
+    preHandler: [requireResourceAccess('payments.view')],
+    schema: { params: partyLedgerParamsSchema },
+    handler: controller.getEntry,
+  });
+
+  // POST /api/party-ledger - Record an advance, credit note, refund or write-off
+  app.post('/', {
+    preHandler: [requireResourceAccess('payments.create')],
+    schema: { body: createPartyLedgerEntrySchema },
+    handler: controller.createEntry,
+  });
+
+  // PUT /api/party-ledger/:id - Update ledger entry
+  app.put('/:id', {
+    preHandler: [requireResourceAccess('payments.edit')],
+    schema: { params: partyLedgerParamsSchema, body: updatePartyLedgerEntrySchema },
+    handler: controller.updateEntry,
+  });
+
+  // DELETE /api/party-ledger/:id - Delete ledger entry
+  app.delete('/:id', {
+    preHandler: [requireResourceAccess('payments.delete')],
+    schema: { params: partyLedgerParamsSchema },
+    handler: controller.deleteEntry,
+  });
+
+  // POST /api/party-ledger/:id/attachments - Attach a file to a ledger entry
+  app.post('/:id/attachments', {
+    preHandler: [requireResourceAccess('payments.edit')],
+    schema: { params: partyLedgerParamsSchema },
+    handler: controller.uploadAttachment,
+  });
+
+  // GET /api/party-ledger/:id/attachments/:attachmentId/download - Get signed download URL
+  app.get('/:id/attachments/:attachmentId/download', {
+    preHandler: [requireResourceAccess('payments.view')],
+    schema: { params: ledgerAttachmentParamsSchema },
+    handler: controller.getAttachmentDownloadUrl,
+  });
+
+  // DELETE /api/party-ledger/:id/attachments/:attachmentId - Remove an attachment
+  app.delete('/:id/attachments/:attachmentId', {
+    preHandler: [requireResourceAccess('payments.edit')],
+    schema: { params: ledgerAttachmentParamsSchema },
+    handler: controller.deleteAttachment,
+  });
+}
@@ -0,0 +1,256 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { PaymentMode, PartyLedgerEntryType } from '@prisma/client';
+import { partyLedgerRepository } from '../../repositories/party-ledger.repository';
+import { partyLedgerService } from '../../services/party-ledger.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { compressionService } from '../../services/compression.service';
+import { storageService } from '../../services/storage.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import {
+  sendSuccess,
+  sendPaginated,
+  sendNotFound,
+  sendNoContent,
+  buildPagination,
+} from '../../lib/response.utils';
+import type {
+  CreatePartyLedgerEntryInput,
+  UpdatePartyLedgerEntryInput,
+  PartyLedgerQuery,
+  PartyLedgerParams,
+  LedgerAttachmentParams,
+} from './party-ledger.schema';
+
+const handle = createErrorHandler('party-ledger');
+
+// Bills, credit notes and receipts: images and PDFs
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+// Max file size: 10MB
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// ============================================
+// List Ledger Entries
+// ============================================
+export const listEntries = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: PartyLedgerQuery }>, reply: FastifyReply) => {
+    const { page, limit, projectId, partyId, type } = request.query;
+    const skip = (page - 1) * limit;
+
+    const { entries, total } = await partyLedgerRepository.findAll(request.organizationId, {
+      skip,
+      take: limit,
+      projectId,
+      partyId,
+      type: type as PartyLedgerEntryType | undefined,
+    });
+
+    return sendPaginated(reply, entries, buildPagination(page, limit, total));
+  }
+);
+
+// ============================================
+// Get Single Ledger Entry
+// ============================================
+export const getEntry = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: PartyLedgerParams }>, reply: FastifyReply) => {
+    const entry = await partyLedgerService.findById(request.organizationId, request.params.id);
+
+    if (!entry) {
+      return sendNotFound(reply, 'Ledger entry');
+    }
+
+    return sendSuccess(reply, entry);
+  }
+);
+
+// ============================================
+// Create Ledger Entry
+// ============================================
+export const createEntry = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreatePartyLedgerEntryInput }>, reply: FastifyReply) => {
+    const entry = await partyLedgerService.create(request.organizationId, {
+      ...request.body,
+      recordedById: request.memberId,
+      type: request.body.type as PartyLedgerEntryType,
+      paymentMode: request.body.paymentMode as PaymentMode | undefined,
+      entryDate: new Date(request.body.entryDate),
+    });
+    await auditService.recordCreate(auditContext(request), 'PARTY_LEDGER_ENTRY', entry);
+
+    return sendSuccess(reply, entry, 201);
+  }
+);
+
+// ============================================
+// Update Ledger Entry
+// ============================================
+export const updateEntry = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: PartyLedgerParams; Body: UpdatePartyLedgerEntryInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await partyLedgerService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Ledger entry');
+    }
+
+    const entry = await partyLedgerService.update(request.organizationId, existing, {
+      ...request.body,
+      type: request.body.type as PartyLedgerEntryType | undefined,
+      paymentMode: request.body.paymentMode as PaymentMode | null | undefined,
+      entryDate: request.body.entryDate ? new Date(request.body.entryDate) : undefined,
+    });
+    await auditService.recordUpdate(auditContext(request), 'PARTY_LEDGER_ENTRY', existing, entry);
+
+    return sendSuccess(reply, entry);
+  }
+);
+
+// ============================================
+// Delete Ledger Entry
+// ============================================
+export const deleteEntry = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: PartyLedgerParams }>, reply: FastifyReply) => {
+    const existing = await partyLedgerService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Ledger entry');
+    }
+
+    await partyLedgerService.delete(request.organizationId, existing.id);
+    await auditService.recordDelete(auditContext(request), 'PARTY_LEDGER_ENTRY', existing);
+
+    return sendNoContent(reply);
+  }
+);
+
+// ============================================
+// Upload Attachment
+// ============================================
+export const uploadAttachment = handle(
+  'create',
+  async (request: FastifyRequest<{ Params: PartyLedgerParams }>, reply: FastifyReply) => {
+    const entry = await partyLedgerService.findById(request.organizationId, request.params.id);
+    if (!entry) {
+      return sendNotFound(reply, 'Ledger entry');
+    }
+
+    const data = await request.file();
+
+    if (!data) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          message: 'No file uploaded',
+          code: 'NO_FILE',
+        },
+      });
+    }
+
+    // Read file into buffer
+    const chunks: Buffer[] = [];
+    for await (const chunk of data.file) {
+      chunks.push(chunk);
+    }
+    const fileBuffer = Buffer.concat(chunks);
+
+    if (fileBuffer.length > MAX_FILE_SIZE) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          message: `File size exceeds maximum allowed size of ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+          code: 'FILE_TOO_LARGE',
+        },
+      });
+    }
+
+    const compressionResult = await compressionService.compress(fileBuffer, data.filename);
+
+    if (!ALLOWED_MIME_TYPES.includes(compressionResult.mimeType)) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          message: `File type ${compressionResult.mimeType} is not allowed. Allowed types: images and PDFs.`,
+          code: 'INVALID_FILE_TYPE',
+        },
+      });
+    }
+
+    // Compression may convert images to WebP
+    const fileName =
+      compressionResult.mimeType === 'image/webp'
+        ? data.filename.replace(/\.[^.]+$/, '.webp')
+        : data.filename;
+
+    const uploadResult = await storageService.uploadFile(
+      compressionResult.buffer,
+      fileName,
+      compressionResult.mimeType,
+      `${request.organizationId}/${entry.projectId}/ledger`
+    );
+
+    const attachment = await partyLedgerRepository.addAttachment(request.organizationId, entry.id, {
+      fileName,
+      fileUrl: uploadResult.publicUrl,
+      storagePath: uploadResult.path,
+      mimeType: compressionResult.mimeType,
+    });
+
+    return sendSuccess(reply, attachment, 201);
+  }
+);
+
+// ============================================
+// Get Attachment Download URL
+// ============================================
+export const getAttachmentDownloadUrl = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: LedgerAttachmentParams }>, reply: FastifyReply) => {
+    const attachment = await partyLedgerRepository.findAttachment(
+      request.organizationId,
+      request.params.id,
+      request.params.attachmentId
+    );
+
+    if (!attachment) {
+      return sendNotFound(reply, 'Attachment');
+    }
+
+    // Generate signed URL valid for 1 hour
+    const signedUrl = await storageService.getSignedUrl(attachment.storagePath, 3600);
+
+    return sendSuccess(reply, {
+      downloadUrl: signedUrl,
+      expiresIn: 3600,
+      fileName: attachment.fileName,
+    });
+  }
+);
+
+// ============================================
+// Delete Attachment
+// ============================================
+export const deleteAttachment = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: LedgerAttachmentParams }>, reply: FastifyReply) => {
+    const attachment = await partyLedgerRepository.findAttachment(
+      request.organizationId,
+      request.params.id,
+      request.params.attachmentId
+    );
+
+    if (!attachment) {
+      return sendNotFound(reply, 'Attachment');
+    }
+
+    await storageService.deleteFile(attachment.storagePath);
+    await partyLedgerRepository.deleteAttachment(request.organizationId, attachment.id);
+
+    return sendNoContent(reply);
+  }
+);
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+// Enum values matching Prisma enums
+const entryTypeValues = ['ADVANCE', 'CREDIT_NOTE', 'REFUND', 'WRITE_OFF'] as const;
+const paymentModeValues = ['CASH', 'CHEQUE', 'ONLINE'] as const;
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const createPartyLedgerEntrySchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  partyId: z.string().min(1, 'Party is required'),
+  type: z.enum(entryTypeValues, { required_error: 'Entry type is required' }),
+  amount: z.number().positive('Amount must be positive'),
+  entryDate: z.string().datetime(),
+  paymentMode: z.enum(paymentModeValues).optional(),
+  referenceNumber: z.string().optional(),
+  narration: z.string().trim().min(1, 'Narration is required'),
+});
+
+export const updatePartyLedgerEntrySchema = z.object({
+  type: z.enum(entryTypeValues).optional(),
+  amount: z.number().positive().optional(),
+  entryDate: z.string().datetime().optional(),
+  paymentMode: z.enum(paymentModeValues).nullable().optional(),
+  referenceNumber: z.string().nullable().optional(),
+  narration: z.string().trim().min(1).optional(),
+});
+
+export const partyLedgerQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(10),
+  projectId: z.string().optional(),
+  partyId: z.string().optional(),
+  type: z.enum(entryTypeValues).optional(),
+});
+
+export const partyLedgerParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const ledgerAttachmentParamsSchema = z.object({
+  id: z.string().min(1),
+  attachmentId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreatePartyLedgerEntryInput = z.infer<typeof createPartyLedgerEntrySchema>;
+export type UpdatePartyLedgerEntryInput = z.infer<typeof updatePartyLedgerEntrySchema>;
+export type PartyLedgerQuery = z.infer<typeof partyLedgerQuerySchema>;
+export type PartyLedgerParams = z.infer<typeof partyLedgerParamsSchema>;
+export type LedgerAttachmentParams = z.infer<typeof ledgerAttachmentParamsSchema>;
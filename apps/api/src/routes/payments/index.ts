@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import * as controller from './payment.controller';
 import {
   createPaymentSchema,
@@ -21,6 +24,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
 
   // GET /api/payments - List all payments
   app.get('/', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: { querystring: paymentQuerySchema },
     handler: controller.listPayments,
   });
@@ -28,18 +32,21 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
   // GET /api/payments/summary - Get payments summary
   // Note: Must be before /:id to avoid route conflict
   app.get('/summary', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: { querystring: summaryQuerySchema },
     handler: controller.getPaymentsSummary,
   });
 
   // GET /api/payments/project/:projectId/summary - Get project payment summary
   app.get('/project/:projectId/summary', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: { params: projectPaymentParamsSchema },
     handler: controller.getProjectPaymentSummary,
   });
 
   // GET /api/payments/project/:projectId/client - Get client payments
   app.get('/project/:projectId/client', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: {
       params: projectPaymentParamsSchema,
       querystring: projectPaymentQuerySchema,
@@ -49,6 +56,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
 
   // GET /api/payments/project/:projectId/party - Get party payments
   app.get('/project/:projectId/party', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: {
       params: projectPaymentParamsSchema,
       querystring: projectPaymentQuerySchema,
@@ -58,30 +66,35 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
 
   // GET /api/payments/project/:projectId/party/:partyId/outstanding - Get party outstanding
   app.get('/project/:projectId/party/:partyId/outstanding', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: { params: partyOutstandingParamsSchema },
     handler: controller.getPartyOutstanding,
   });
 
   // GET /api/payments/project/:projectId/party/:partyId/unpaid-expenses - Get unpaid expenses
   app.get('/project/:projectId/party/:partyId/unpaid-expenses', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: { params: partyOutstandingParamsSchema },
     handler: controller.getPartyUnpaidExpenses,
   });
 
   // GET /api/payments/:id - Get payment by ID
   app.get('/:id', {
+    preHandler: [requireResourceAccess('payments.view')],
     schema: { params: paymentParamsSchema },
     handler: controller.getPayment,
   });
 
   // POST /api/payments - Create payment
   app.post('/', {
+    preHandler: [requireResourceAccess('payments.create')],
     schema: { body: createPaymentSchema },
     handler: controller.createPayment,
   });
 
   // PUT /api/payments/:id - Update payment
   app.put('/:id', {
+    preHandler: [requireResourceAccess('payments.edit')],
     schema: {
       params: paymentParamsSchema,
       body: updatePaymentSchema,
@@ -91,6 +104,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
 
   // DELETE /api/payments/:id - Delete payment
   app.delete('/:id', {
+    preHandler: [requireResourceAccess('payments.delete')],
     schema: { params: paymentParamsSchema },
     handler: controller.deletePayment,
   });
@@ -1,6 +1,12 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { paymentRepository } from '../../repositories/payment.repository';
+import { auditService, auditContext } from '../../services/audit.service';
+import { installmentService } from '../../services/installment.service';
+import { taxInvoiceService } from '../../services/tax-invoice.service';
+import { paymentAllocationService } from '../../services/payment-allocation.service';
+import { purchaseOrderService } from '../../services/purchase-order.service';
 import { createErrorHandler } from '../../lib/error-handler';
+import { resolveTds } from '../../lib/tds';
 import {
   sendSuccess,
   sendPaginated,
@@ -28,7 +34,19 @@ const handle = createErrorHandler('payment');
 export const listPayments = handle(
   'fetch',
   async (request: FastifyRequest<{ Querystring: PaymentQuery }>, reply: FastifyReply) => {
-    const { page, limit, projectId, partyId, expenseId, type, partyType, startDate, endDate, sortBy, sortOrder } = request.query;
+    const {
+      page,
+      limit,
+      projectId,
+      partyId,
+      expenseId,
+      type,
+      partyType,
+      startDate,
+      endDate,
+      sortBy,
+      sortOrder,
+    } = request.query;
     const skip = (page - 1) * limit;
 
     const { payments, total } = await paymentRepository.findAll(request.organizationId, {
@@ -71,16 +89,81 @@ export const getPayment = handle(
 export const createPayment = handle(
   'create',
   async (request: FastifyRequest<{ Body: CreatePaymentInput }>, reply: FastifyReply) => {
-    const payment = await paymentRepository.create(request.organizationId, {
-      ...request.body,
-      type: request.body.type as PaymentType,
-      paymentMode: request.body.paymentMode as PaymentMode,
-      paymentDate: new Date(request.body.paymentDate),
-      // Use recordedById from body if provided, otherwise use the authenticated user's member ID
-      recordedById: request.body.recordedById || request.memberId,
-    });
+    const { installmentAllocations, invoiceAllocations, allocations, ...body } = request.body;
+
+    if (installmentAllocations && body.type === 'IN') {
+      await installmentService.validateAllocations(
+        request.organizationId,
+        body.projectId,
+        body.amount,
+        installmentAllocations
+      );
+    }
+    if (invoiceAllocations && body.type === 'IN') {
+      await taxInvoiceService.validateAllocations(
+        request.organizationId,
+        body.projectId,
+        body.amount,
+        invoiceAllocations
+      );
+    }
+
+    // TDS withheld from a payment to a party is worked out from its section and rate
+    const { tdsSection, tdsRate, tdsAmount, ...fields } = body;
+    const tds = resolveTds(body, { tdsSection, tdsRate, tdsAmount });
+
+    // A payment to a party is split across the party's expenses as it is saved
+    const payment = await paymentRepository.create(
+      request.organizationId,
+      {
+        ...fields,
+        ...tds,
+        type: body.type as PaymentType,
+        paymentMode: body.paymentMode as PaymentMode,
+        paymentDate: new Date(body.paymentDate),
+        // Use recordedById from body if provided, otherwise use the authenticated user's member ID
+        recordedById: body.recordedById || request.memberId,
+      },
+      async (tx, created) => {
+        await auditService.recordCreate(auditContext(request), 'PAYMENT', created, tx);
+        if (created.type !== 'OUT') return;
 
-    return sendSuccess(reply, payment, 201);
+        if (allocations) {
+          await paymentAllocationService.validateAllocations(
+            request.organizationId,
+            { projectId: created.projectId, partyId: created.partyId },
+            body.amount,
+            allocations,
+            created.id,
+            tx
+          );
+        }
+        await paymentAllocationService.allocatePayment(
+          request.organizationId,
+          created.id,
+          allocations,
+          tx
+        );
+      }
+    );
+
+    // Client receipts are set against the project's payment schedule and tax invoices
+    if (payment.type === 'IN') {
+      await installmentService.allocatePayment(
+        request.organizationId,
+        payment.id,
+        installmentAllocations
+      );
+      await taxInvoiceService.allocatePayment(
+        request.organizationId,
+        payment.id,
+        invoiceAllocations
+      );
+    }
+
+    // Return the payment with what it was allocated to
+    const allocated = await paymentRepository.findById(request.organizationId, payment.id);
+    return sendSuccess(reply, allocated, 201);
   }
 );
 
@@ -93,20 +176,123 @@ export const updatePayment = handle(
     request: FastifyRequest<{ Params: PaymentParams; Body: UpdatePaymentInput }>,
     reply: FastifyReply
   ) => {
+    const { installmentAllocations, invoiceAllocations, allocations, ...body } = request.body;
+    const { tdsSection, tdsRate, tdsAmount, ...fields } = body;
+
+    const existing = await paymentRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Payment');
+    }
+
+    const tds = resolveTds(
+      {
+        type: body.type ?? existing.type,
+        partyId: body.partyId !== undefined ? body.partyId : existing.partyId,
+        amount: body.amount ?? existing.amount.toNumber(),
+      },
+      { tdsSection, tdsRate, tdsAmount },
+      {
+        tdsSection: existing.tdsSection,
+        tdsRate: existing.tdsRate?.toNumber() ?? null,
+        tdsAmount: existing.tdsAmount.toNumber(),
+        amount: existing.amount.toNumber(),
+      }
+    );
     const updateData = {
-      ...request.body,
-      type: request.body.type as PaymentType | undefined,
-      paymentMode: request.body.paymentMode as PaymentMode | undefined,
-      paymentDate: request.body.paymentDate ? new Date(request.body.paymentDate) : undefined,
+      ...fields,
+      ...tds,
+      type: body.type as PaymentType | undefined,
+      paymentMode: body.paymentMode as PaymentMode | undefined,
+      paymentDate: body.paymentDate ? new Date(body.paymentDate) : undefined,
     };
 
+    if (installmentAllocations && (body.type ?? existing.type) === 'IN') {
+      await installmentService.validateAllocations(
+        request.organizationId,
+        existing.projectId,
+        body.amount ?? existing.amount.toNumber(),
+        installmentAllocations,
+        existing.id
+      );
+    }
+    if (invoiceAllocations && (body.type ?? existing.type) === 'IN') {
+      await taxInvoiceService.validateAllocations(
+        request.organizationId,
+        existing.projectId,
+        body.amount ?? existing.amount.toNumber(),
+        invoiceAllocations,
+        existing.id
+      );
+    }
+
+    // A changed party payment is split across the party's expenses again as it is
+    // saved, and what it covered for a previous party is freed for that party's
+    // other payments
     const payment = await paymentRepository.update(
       request.organizationId,
       request.params.id,
-      updateData
+      updateData,
+      async (tx, updated) => {
+        await auditService.recordUpdate(auditContext(request), 'PAYMENT', existing, updated, tx);
+
+        if (allocations && updated.type === 'OUT') {
+          await paymentAllocationService.validateAllocations(
+            request.organizationId,
+            { projectId: updated.projectId, partyId: updated.partyId },
+            updated.amount.toNumber(),
+            allocations,
+            updated.id,
+            tx
+          );
+        }
+
+        const partyChanged = updated.partyId !== existing.partyId;
+        const reallocateParty =
+          allocations !== undefined ||
+          partyChanged ||
+          updated.expenseId !== existing.expenseId ||
+          !updated.amount.equals(existing.amount) ||
+          updated.type !== existing.type;
+        if (!reallocateParty || (updated.type !== 'OUT' && existing.type !== 'OUT')) return;
+
+        await paymentAllocationService.allocatePayment(
+          request.organizationId,
+          updated.id,
+          allocations,
+          tx
+        );
+        const leftParty = partyChanged || updated.type !== 'OUT';
+        if (existing.type === 'OUT' && existing.partyId && leftParty) {
+          await paymentAllocationService.allocateParty(
+            request.organizationId,
+            existing.projectId,
+            existing.partyId,
+            tx
+          );
+        }
+      }
     );
 
-    return sendSuccess(reply, payment);
+    // A changed receipt is allocated against the payment schedule and invoices again
+    const changed = !payment.amount.equals(existing.amount) || payment.type !== existing.type;
+    const isReceipt = payment.type === 'IN' || existing.type === 'IN';
+    if (isReceipt && (changed || installmentAllocations !== undefined)) {
+      await installmentService.allocatePayment(
+        request.organizationId,
+        payment.id,
+        installmentAllocations
+      );
+    }
+    if (isReceipt && (changed || invoiceAllocations !== undefined)) {
+      await taxInvoiceService.allocatePayment(
+        request.organizationId,
+        payment.id,
+        invoiceAllocations
+      );
+    }
+
+    const allocated = await paymentRepository.findById(request.organizationId, payment.id);
+    return sendSuccess(reply, allocated);
   }
 );
 
@@ -116,7 +302,29 @@ export const updatePayment = handle(
 export const deletePayment = handle(
   'delete',
   async (request: FastifyRequest<{ Params: PaymentParams }>, reply: FastifyReply) => {
-    await paymentRepository.delete(request.organizationId, request.params.id);
+    const existing = await paymentRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Payment');
+    }
+
+    // What a party payment covered is freed as it is moved to the Trash
+    await paymentRepository.delete(
+      request.organizationId,
+      request.params.id,
+      request.memberId,
+      async (tx) => {
+        await auditService.recordDelete(auditContext(request), 'PAYMENT', existing, tx);
+        if (existing.type === 'OUT') {
+          await paymentAllocationService.releasePayment(request.organizationId, existing, tx);
+        }
+      }
+    );
+
+    if (existing.type === 'IN') {
+      await installmentService.releasePayment(request.organizationId, existing);
+      await taxInvoiceService.releasePayment(request.organizationId, existing);
+    }
+
     return sendNoContent(reply);
   }
 );
@@ -194,7 +402,8 @@ export const getPartyPayments = handle(
     reply: FastifyReply
   ) => {
     const { projectId } = request.params;
-    const { page, limit, partyId, partyType, startDate, endDate, sortBy, sortOrder } = request.query;
+    const { page, limit, partyId, partyType, startDate, endDate, sortBy, sortOrder } =
+      request.query;
     const skip = (page - 1) * limit;
 
     const { payments, total } = await paymentRepository.getPartyPayments(
@@ -223,13 +432,13 @@ export const getPartyOutstanding = handle(
   'fetch',
   async (request: FastifyRequest<{ Params: PartyOutstandingParams }>, reply: FastifyReply) => {
     const { projectId, partyId } = request.params;
-    const outstanding = await paymentRepository.getPartyOutstanding(
+    const balance = await paymentRepository.getPartyOutstanding(
       request.organizationId,
       projectId,
       partyId
     );
 
-    return sendSuccess(reply, { outstanding });
+    return sendSuccess(reply, balance);
   }
 );
 
@@ -246,6 +455,15 @@ export const getPartyUnpaidExpenses = handle(
       partyId
     );
 
-    return sendSuccess(reply, expenses);
+    // Bills matched to a purchase order carry what disagrees with the order
+    const issues = await purchaseOrderService.getBillIssues(
+      request.organizationId,
+      expenses.map((expense) => expense.id)
+    );
+
+    return sendSuccess(
+      reply,
+      expenses.map((expense) => ({ ...expense, matchIssues: issues.get(expense.id) ?? [] }))
+    );
   }
 );
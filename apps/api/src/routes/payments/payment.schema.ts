@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TDS_SECTION_CODES } from '../../lib/tds';
 
 // Enum values matching Prisma enums
 const paymentTypeValues = ['IN', 'OUT'] as const;
@@ -11,31 +12,88 @@ const sortOrderValues = ['asc', 'desc'] as const;
 // Request Schemas
 // ============================================
 
-export const createPaymentSchema = z.object({
-  projectId: z.string().min(1, 'Project is required'),
-  partyId: z.string().optional(),
-  expenseId: z.string().optional(),
-  recordedById: z.string().optional(),
-  type: z.enum(paymentTypeValues, { required_error: 'Payment type is required' }),
-  paymentMode: z.enum(paymentModeValues, { required_error: 'Payment mode is required' }),
-  amount: z.number().positive('Amount must be positive'),
-  paymentDate: z.string().datetime(),
-  referenceNumber: z.string().optional(),
-  notes: z.string().optional(),
+// Part of an incoming payment set against an installment of the project's payment schedule
+const installmentAllocationSchema = z.object({
+  installmentId: z.string().min(1),
+  amount: z.number().positive('Allocated amount must be positive'),
 });
 
-export const updatePaymentSchema = z.object({
-  partyId: z.string().nullable().optional(),
-  expenseId: z.string().nullable().optional(),
-  recordedById: z.string().nullable().optional(),
-  type: z.enum(paymentTypeValues).optional(),
-  paymentMode: z.enum(paymentModeValues).optional(),
-  amount: z.number().positive().optional(),
-  paymentDate: z.string().datetime().optional(),
-  referenceNumber: z.string().nullable().optional(),
-  notes: z.string().nullable().optional(),
+// Part of an incoming payment set against a tax invoice raised to the client
+const invoiceAllocationSchema = z.object({
+  invoiceId: z.string().min(1),
+  amount: z.number().positive('Allocated amount must be positive'),
+});
+
+// Part of a payment to a party set against one of the party's expenses
+const expenseAllocationSchema = z.object({
+  expenseId: z.string().min(1),
+  amount: z.number().positive('Allocated amount must be positive'),
 });
 
+// TDS withheld from a payment to a party. The rate defaults to the section's usual
+// rate and the amount is worked out from it unless given.
+const tdsFields = {
+  tdsRate: z.number().positive('TDS rate must be positive').max(100).optional(),
+  tdsAmount: z.number().nonnegative('TDS amount must be zero or positive').optional(),
+};
+
+// A TDS rate or amount needs a section. On update, an omitted section keeps the
+// payment's own.
+const requireTdsSection = (
+  data: { tdsSection?: string | null; tdsRate?: number; tdsAmount?: number },
+  ctx: z.RefinementCtx,
+  sectionKept = false
+) => {
+  const hasSection = sectionKept ? data.tdsSection !== null : !!data.tdsSection;
+  if (!hasSection && (data.tdsRate !== undefined || data.tdsAmount !== undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Choose the TDS section',
+      path: ['tdsSection'],
+    });
+  }
+};
+
+export const createPaymentSchema = z
+  .object({
+    projectId: z.string().min(1, 'Project is required'),
+    partyId: z.string().optional(),
+    expenseId: z.string().optional(),
+    recordedById: z.string().optional(),
+    type: z.enum(paymentTypeValues, { required_error: 'Payment type is required' }),
+    paymentMode: z.enum(paymentModeValues, { required_error: 'Payment mode is required' }),
+    amount: z.number().positive('Amount must be positive'),
+    paymentDate: z.string().datetime(),
+    referenceNumber: z.string().optional(),
+    notes: z.string().optional(),
+    tdsSection: z.enum(TDS_SECTION_CODES).optional(),
+    ...tdsFields,
+    installmentAllocations: z.array(installmentAllocationSchema).optional(),
+    invoiceAllocations: z.array(invoiceAllocationSchema).optional(),
+    allocations: z.array(expenseAllocationSchema).optional(),
+  })
+  .superRefine(requireTdsSection);
+
+export const updatePaymentSchema = z
+  .object({
+    partyId: z.string().nullable().optional(),
+    expenseId: z.string().nullable().optional(),
+    recordedById: z.string().nullable().optional(),
+    type: z.enum(paymentTypeValues).optional(),
+    paymentMode: z.enum(paymentModeValues).optional(),
+    amount: z.number().positive().optional(),
+    paymentDate: z.string().datetime().optional(),
+    referenceNumber: z.string().nullable().optional(),
+    notes: z.string().nullable().optional(),
+    // null stops deducting TDS from the payment
+    tdsSection: z.enum(TDS_SECTION_CODES).nullable().optional(),
+    ...tdsFields,
+    installmentAllocations: z.array(installmentAllocationSchema).optional(),
+    invoiceAllocations: z.array(invoiceAllocationSchema).optional(),
+    allocations: z.array(expenseAllocationSchema).optional(),
+  })
+  .superRefine((data, ctx) => requireTdsSection(data, ctx, true));
+
 export const paymentQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(10),
@@ -90,4 +148,4 @@ export type PaymentParams = z.infer<typeof paymentParamsSchema>;
 export type ProjectPaymentParams = z.infer<typeof projectPaymentParamsSchema>;
 export type PartyOutstandingParams = z.infer<typeof partyOutstandingParamsSchema>;
 export type SummaryQuery = z.infer<typeof summaryQuerySchema>;
-export type ProjectPaymentQuery = z.infer<typeof projectPaymentQuerySchema>;
\ No newline at end of file
+export type ProjectPaymentQuery = z.infer<typeof projectPaymentQuerySchema>;
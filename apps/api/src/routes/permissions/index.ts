@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requirePermission,
+} from '../../middleware/organization.middleware';
 import * as controller from './permission.controller';
 
 export default async function permissionRoutes(fastify: FastifyInstance) {
@@ -9,8 +12,15 @@ export default async function permissionRoutes(fastify: FastifyInstance) {
   app.addHook('preHandler', organizationMiddleware);
 
   // GET /api/permissions - List all permissions
-  app.get('/', controller.listPermissions);
+  app.get('/', { preHandler: [requirePermission('roles.view')] }, controller.listPermissions);
+
+  // GET /api/permissions/me - Permission keys resolved for the current member
+  app.get('/me', controller.getMyPermissions);
 
   // GET /api/permissions/grouped - List permissions grouped by category
-  app.get('/grouped', controller.listPermissionsGrouped);
+  app.get(
+    '/grouped',
+    { preHandler: [requirePermission('roles.view')] },
+    controller.listPermissionsGrouped
+  );
 }
@@ -2,6 +2,7 @@ import type { FastifyReply, FastifyRequest } from 'fastify';
 import { permissionRepository } from '../../repositories/permission.repository';
 import { createErrorHandler } from '../../lib/error-handler';
 import { sendSuccess } from '../../lib/response.utils';
+import { getRequestPermissions } from '../../middleware/organization.middleware';
 
 const handle = createErrorHandler('permission');
 
@@ -26,3 +27,21 @@ export const listPermissionsGrouped = handle(
     return sendSuccess(reply, grouped);
   }
 );
+
+// ============================================
+// Resolved Permissions for the Current Member
+// ============================================
+export const getMyPermissions = handle(
+  'fetch',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const permissions = await getRequestPermissions(request);
+
+    return sendSuccess(reply, {
+      role: request.userRole,
+      permissions: Array.from(permissions).sort(),
+      fullAccess: request.fullAccess,
+      projectScoped: request.projectScoped,
+      accessibleProjectIds: request.accessibleProjectIds ?? null,
+    });
+  }
+);
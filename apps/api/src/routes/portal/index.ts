@@ -0,0 +1,65 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  clientPortalMiddleware,
+  requireProjectAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './portal.controller';
+import {
+  portalProjectParamsSchema,
+  portalDocumentQuerySchema,
+  portalIdParamsSchema,
+} from './portal.schema';
+
+/**
+ * Client portal - read-only views of a client's own projects.
+ * Only CLIENT-role members linked to a client party can use these routes.
+ */
+export default async function portalRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  app.addHook('preHandler', clientPortalMiddleware);
+
+  // GET /api/portal/profile - The client and builder the user is signed in with
+  app.get('/profile', {
+    handler: controller.getProfile,
+  });
+
+  // GET /api/portal/projects - The client's projects with progress and payment summary
+  app.get('/projects', {
+    handler: controller.listProjects,
+  });
+
+  // GET /api/portal/projects/:projectId - Project with stage progress
+  app.get('/projects/:projectId', {
+    preHandler: [requireProjectAccess()],
+    schema: { params: portalProjectParamsSchema },
+    handler: controller.getProject,
+  });
+
+  // GET /api/portal/projects/:projectId/documents - Photos and documents shared with the client
+  app.get('/projects/:projectId/documents', {
+    preHandler: [requireProjectAccess()],
+    schema: { params: portalProjectParamsSchema, querystring: portalDocumentQuerySchema },
+    handler: controller.listDocuments,
+  });
+
+  // GET /api/portal/projects/:projectId/payments - Contract amount, received and receipts
+  app.get('/projects/:projectId/payments', {
+    preHandler: [requireProjectAccess()],
+    schema: { params: portalProjectParamsSchema },
+    handler: controller.getPayments,
+  });
+
+  // GET /api/portal/documents/:id/download - Signed download URL for a shared document
+  app.get('/documents/:id/download', {
+    schema: { params: portalIdParamsSchema },
+    handler: controller.getDocumentDownloadUrl,
+  });
+
+  // GET /api/portal/receipts/:id - One payment receipt
+  app.get('/receipts/:id', {
+    schema: { params: portalIdParamsSchema },
+    handler: controller.getReceipt,
+  });
+}
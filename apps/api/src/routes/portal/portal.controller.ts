@@ -0,0 +1,178 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { portalRepository, type PortalPaymentSchedule } from '../../repositories/portal.repository';
+import { installmentService } from '../../services/installment.service';
+import { storageService } from '../../services/storage.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import {
+  sendSuccess,
+  sendPaginated,
+  sendNotFound,
+  buildPagination,
+} from '../../lib/response.utils';
+import type { PortalProjectParams, PortalDocumentQuery, PortalIdParams } from './portal.schema';
+
+const handle = createErrorHandler('portal');
+
+// Signed download links expire after an hour
+const DOWNLOAD_URL_EXPIRY_SECONDS = 3600;
+
+// clientPortalMiddleware always sets these
+const clientProjectIds = (request: FastifyRequest) => request.accessibleProjectIds ?? [];
+
+/**
+ * The project's payment schedule as the client sees it: what each installment
+ * bills, what was received against it and its status, without internal notes
+ */
+async function clientSchedule(
+  organizationId: string,
+  projectId: string
+): Promise<PortalPaymentSchedule> {
+  const { installments, summary } = await installmentService.getSchedule(organizationId, projectId);
+
+  return {
+    installments: installments.map((installment) => ({
+      id: installment.id,
+      name: installment.name,
+      stageName: installment.stage?.name ?? null,
+      dueDate: installment.dueDate,
+      amount: installment.amount,
+      received: installment.received,
+      outstanding: installment.outstanding,
+      status: installment.status,
+    })),
+    dueAmount: summary.outstandingReceivable,
+    overdueAmount: summary.overdueAmount,
+  };
+}
+
+// ============================================
+// Profile
+// ============================================
+export const getProfile = handle('fetch', async (request: FastifyRequest, reply: FastifyReply) => {
+  const client = await portalRepository.findClient(request.organizationId, request.clientPartyId!);
+
+  if (!client) {
+    return sendNotFound(reply, 'Client');
+  }
+
+  const { organization, ...party } = client;
+  return sendSuccess(reply, { client: party, organization });
+});
+
+// ============================================
+// Projects
+// ============================================
+export const listProjects = handle(
+  'fetch',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const projects = await portalRepository.findProjects(
+      request.organizationId,
+      clientProjectIds(request)
+    );
+    return sendSuccess(reply, projects);
+  }
+);
+
+export const getProject = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: PortalProjectParams }>, reply: FastifyReply) => {
+    const project = await portalRepository.findProject(
+      request.organizationId,
+      request.params.projectId
+    );
+
+    if (!project) {
+      return sendNotFound(reply, 'Project');
+    }
+
+    return sendSuccess(reply, project);
+  }
+);
+
+// ============================================
+// Documents
+// ============================================
+export const listDocuments = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: PortalProjectParams; Querystring: PortalDocumentQuery }>,
+    reply: FastifyReply
+  ) => {
+    const { page, limit, kind } = request.query;
+
+    const { documents, total } = await portalRepository.findSharedDocuments(
+      request.organizationId,
+      request.params.projectId,
+      {
+        skip: (page - 1) * limit,
+        take: limit,
+        photos: kind === undefined ? undefined : kind === 'photos',
+      }
+    );
+
+    return sendPaginated(reply, documents, buildPagination(page, limit, total));
+  }
+);
+
+export const getDocumentDownloadUrl = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: PortalIdParams }>, reply: FastifyReply) => {
+    const document = await portalRepository.findSharedDocument(
+      request.organizationId,
+      clientProjectIds(request),
+      request.params.id
+    );
+
+    if (!document) {
+      return sendNotFound(reply, 'Document');
+    }
+
+    const downloadUrl = await storageService.getSignedUrl(
+      document.storagePath,
+      DOWNLOAD_URL_EXPIRY_SECONDS
+    );
+
+    return sendSuccess(reply, {
+      downloadUrl,
+      expiresIn: DOWNLOAD_URL_EXPIRY_SECONDS,
+      fileName: document.fileName,
+    });
+  }
+);
+
+// ============================================
+// Payments
+// ============================================
+export const getPayments = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: PortalProjectParams }>, reply: FastifyReply) => {
+    const payments = await portalRepository.findPayments(
+      request.organizationId,
+      request.params.projectId
+    );
+
+    if (!payments) {
+      return sendNotFound(reply, 'Project');
+    }
+
+    const schedule = await clientSchedule(request.organizationId, request.params.projectId);
+    return sendSuccess(reply, { ...payments, schedule });
+  }
+);
+
+export const getReceipt = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: PortalIdParams }>, reply: FastifyReply) => {
+    const receipt = await portalRepository.findReceipt(
+      request.organizationId,
+      clientProjectIds(request),
+      request.params.id
+    );
+
+    if (!receipt) {
+      return sendNotFound(reply, 'Receipt');
+    }
+
+    return sendSuccess(reply, receipt);
+  }
+);
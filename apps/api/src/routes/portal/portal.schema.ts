@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const portalProjectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+export const portalDocumentQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(24),
+  // 'photos' for images only, 'documents' for everything else
+  kind: z.enum(['photos', 'documents']).optional(),
+});
+
+export const portalIdParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type PortalProjectParams = z.infer<typeof portalProjectParamsSchema>;
+export type PortalDocumentQuery = z.infer<typeof portalDocumentQuerySchema>;
+export type PortalIdParams = z.infer<typeof portalIdParamsSchema>;
@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import * as controller from './project.controller';
 import {
   createProjectSchema,
@@ -19,30 +22,35 @@ export default async function projectRoutes(fastify: FastifyInstance) {
 
   // GET /api/projects - List all projects
   app.get('/', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { querystring: projectQuerySchema },
     handler: controller.listProjects,
   });
 
   // GET /api/projects/:id - Get project by ID
   app.get('/:id', {
+    preHandler: [requireResourceAccess('projects.view', 'id')],
     schema: { params: projectParamsSchema },
     handler: controller.getProject,
   });
 
   // GET /api/projects/:id/stats - Get project statistics
   app.get('/:id/stats', {
+    preHandler: [requireResourceAccess('projects.view', 'id')],
     schema: { params: projectParamsSchema },
     handler: controller.getProjectStats,
   });
 
   // POST /api/projects - Create project
   app.post('/', {
+    preHandler: [requireResourceAccess('projects.create')],
     schema: { body: createProjectSchema },
     handler: controller.createProject,
   });
 
   // PUT /api/projects/:id - Update project
   app.put('/:id', {
+    preHandler: [requireResourceAccess('projects.edit', 'id')],
     schema: {
       params: projectParamsSchema,
       body: updateProjectSchema,
@@ -52,6 +60,7 @@ export default async function projectRoutes(fastify: FastifyInstance) {
 
   // DELETE /api/projects/:id - Delete project
   app.delete('/:id', {
+    preHandler: [requireResourceAccess('projects.delete', 'id')],
     schema: { params: projectParamsSchema },
     handler: controller.deleteProject,
   });
@@ -62,12 +71,14 @@ export default async function projectRoutes(fastify: FastifyInstance) {
 
   // GET /api/projects/:id/members - Get project members
   app.get('/:id/members', {
+    preHandler: [requireResourceAccess('projects.view', 'id')],
     schema: { params: projectParamsSchema },
     handler: controller.getProjectMembers,
   });
 
   // POST /api/projects/:id/members - Add member to project
   app.post('/:id/members', {
+    preHandler: [requireResourceAccess('team.manage', 'id')],
     schema: {
       params: projectParamsSchema,
       body: addProjectMemberSchema,
@@ -77,6 +88,7 @@ export default async function projectRoutes(fastify: FastifyInstance) {
 
   // DELETE /api/projects/:id/members/:memberId - Remove member from project
   app.delete('/:id/members/:memberId', {
+    preHandler: [requireResourceAccess('team.manage', 'id')],
     schema: { params: projectMemberParamsSchema },
     handler: controller.removeProjectMember,
   });
@@ -1,5 +1,6 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { projectRepository } from '../../repositories/project.repository';
+import { auditService, auditContext } from '../../services/audit.service';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -82,6 +83,7 @@ export const createProject = handle(
       startDate: new Date(startDate),
       endDate: endDate ? new Date(endDate) : undefined,
     });
+    await auditService.recordCreate(auditContext(request), 'PROJECT', project);
 
     return sendSuccess(reply, project, 201);
   }
@@ -104,11 +106,17 @@ export const updateProject = handle(
       endDate: endDate ? new Date(endDate) : endDate === null ? null : undefined,
     };
 
+    const existing = await projectRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Project');
+    }
+
     const project = await projectRepository.update(
       request.organizationId,
       request.params.id,
       updateData
     );
+    await auditService.recordUpdate(auditContext(request), 'PROJECT', existing, project);
 
     return sendSuccess(reply, project);
   }
@@ -120,7 +128,13 @@ export const updateProject = handle(
 export const deleteProject = handle(
   'delete',
   async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
-    await projectRepository.delete(request.organizationId, request.params.id);
+    const existing = await projectRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Project');
+    }
+
+    await projectRepository.delete(request.organizationId, request.params.id, request.memberId);
+    await auditService.recordDelete(auditContext(request), 'PROJECT', existing);
     return sendNoContent(reply);
   }
 );
@@ -0,0 +1,87 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './purchase-order.controller';
+import {
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  reasonSchema,
+  createGoodsReceiptSchema,
+  purchaseOrderParamsSchema,
+  projectParamsSchema,
+  projectOrdersQuerySchema,
+  openLinesParamsSchema,
+} from './purchase-order.schema';
+
+export default async function purchaseOrderRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/purchase-orders/project/:projectId - A project's orders with delivery and billing
+  app.get('/project/:projectId', {
+    preHandler: [requireResourceAccess('purchases.view')],
+    schema: { params: projectParamsSchema, querystring: projectOrdersQuerySchema },
+    handler: controller.getProjectOrders,
+  });
+
+  // GET /api/purchase-orders/project/:projectId/vendor/:vendorId/lines - Lines a vendor bill can be matched to
+  app.get('/project/:projectId/vendor/:vendorId/lines', {
+    preHandler: [requireResourceAccess('purchases.view')],
+    schema: { params: openLinesParamsSchema },
+    handler: controller.getOpenLines,
+  });
+
+  // GET /api/purchase-orders/:id - Order with receipts and the three-way match of its lines
+  app.get('/:id', {
+    preHandler: [requireResourceAccess('purchases.view')],
+    schema: { params: purchaseOrderParamsSchema },
+    handler: controller.getOrder,
+  });
+
+  // POST /api/purchase-orders - Raise an order to a vendor
+  app.post('/', {
+    preHandler: [requireResourceAccess('purchases.manage')],
+    schema: { body: createPurchaseOrderSchema },
+    handler: controller.createOrder,
+  });
+
+  // PUT /api/purchase-orders/:id - Edit an order waiting for approval or rejected
+  app.put('/:id', {
+    preHandler: [requireResourceAccess('purchases.manage')],
+    schema: { params: purchaseOrderParamsSchema, body: updatePurchaseOrderSchema },
+    handler: controller.updateOrder,
+  });
+
+  // POST /api/purchase-orders/:id/approve - Approve an order
+  app.post('/:id/approve', {
+    preHandler: [requireResourceAccess('purchases.approve')],
+    schema: { params: purchaseOrderParamsSchema },
+    handler: controller.approveOrder,
+  });
+
+  // POST /api/purchase-orders/:id/reject - Send an order back with a reason
+  app.post('/:id/reject', {
+    preHandler: [requireResourceAccess('purchases.approve')],
+    schema: { params: purchaseOrderParamsSchema, body: reasonSchema },
+    handler: controller.rejectOrder,
+  });
+
+  // POST /api/purchase-orders/:id/cancel - Cancel an order nothing was received or billed against
+  app.post('/:id/cancel', {
+    preHandler: [requireResourceAccess('purchases.manage')],
+    schema: { params: purchaseOrderParamsSchema, body: reasonSchema },
+    handler: controller.cancelOrder,
+  });
+
+  // POST /api/purchase-orders/:id/receipts - Record goods received at site
+  app.post('/:id/receipts', {
+    preHandler: [requireResourceAccess('purchases.receive')],
+    schema: { params: purchaseOrderParamsSchema, body: createGoodsReceiptSchema },
+    handler: controller.receiveGoods,
+  });
+}
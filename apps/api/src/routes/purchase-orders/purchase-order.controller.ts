@@ -0,0 +1,206 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { purchaseOrderService } from '../../services/purchase-order.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess, sendNotFound } from '../../lib/response.utils';
+import type {
+  CreatePurchaseOrderInput,
+  UpdatePurchaseOrderInput,
+  ReasonInput,
+  CreateGoodsReceiptInput,
+  PurchaseOrderParams,
+  ProjectParams,
+  ProjectOrdersQuery,
+  OpenLinesParams,
+} from './purchase-order.schema';
+
+const handle = createErrorHandler('purchase order');
+
+type OrderLineInput = CreatePurchaseOrderInput['lines'][number];
+
+const toLineData = (line: OrderLineInput) => ({
+  ...line,
+  deliveryDate: line.deliveryDate ? new Date(line.deliveryDate) : null,
+});
+
+// ============================================
+// Project Orders
+// ============================================
+export const getProjectOrders = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: ProjectParams; Querystring: ProjectOrdersQuery }>,
+    reply: FastifyReply
+  ) => {
+    const orders = await purchaseOrderService.getProjectOrders(
+      request.organizationId,
+      request.params.projectId,
+      request.query.status
+    );
+    return sendSuccess(reply, orders);
+  }
+);
+
+export const getOpenLines = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: OpenLinesParams }>, reply: FastifyReply) => {
+    const lines = await purchaseOrderService.getOpenLines(
+      request.organizationId,
+      request.params.projectId,
+      request.params.vendorId
+    );
+    return sendSuccess(reply, lines);
+  }
+);
+
+// ============================================
+// Get Order
+// ============================================
+export const getOrder = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: PurchaseOrderParams }>, reply: FastifyReply) => {
+    const order = await purchaseOrderService.findById(request.organizationId, request.params.id);
+    if (!order) {
+      return sendNotFound(reply, 'Purchase order');
+    }
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Raise / Edit Order
+// ============================================
+export const createOrder = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreatePurchaseOrderInput }>, reply: FastifyReply) => {
+    const { orderDate, lines, ...data } = request.body;
+
+    const order = await purchaseOrderService.create(request.organizationId, {
+      ...data,
+      createdById: request.memberId,
+      orderDate: new Date(orderDate),
+      lines: lines.map(toLineData),
+    });
+    await auditService.recordCreate(auditContext(request), 'PURCHASE_ORDER', order);
+
+    return sendSuccess(reply, order, 201);
+  }
+);
+
+export const updateOrder = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: PurchaseOrderParams; Body: UpdatePurchaseOrderInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await purchaseOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Purchase order');
+    }
+
+    const { orderDate, lines, ...data } = request.body;
+    const order = await purchaseOrderService.update(request.organizationId, existing, {
+      ...data,
+      ...(orderDate && { orderDate: new Date(orderDate) }),
+      ...(lines && { lines: lines.map(toLineData) }),
+    });
+    await auditService.recordUpdate(auditContext(request), 'PURCHASE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Approval
+// ============================================
+export const approveOrder = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: PurchaseOrderParams }>, reply: FastifyReply) => {
+    const existing = await purchaseOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Purchase order');
+    }
+
+    const order = await purchaseOrderService.approve(
+      request.organizationId,
+      existing,
+      request.memberId
+    );
+    await auditService.recordUpdate(auditContext(request), 'PURCHASE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+export const rejectOrder = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: PurchaseOrderParams; Body: ReasonInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await purchaseOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Purchase order');
+    }
+
+    const order = await purchaseOrderService.reject(
+      request.organizationId,
+      existing,
+      request.body.reason
+    );
+    await auditService.recordUpdate(auditContext(request), 'PURCHASE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Cancel Order
+// ============================================
+export const cancelOrder = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: PurchaseOrderParams; Body: ReasonInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await purchaseOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Purchase order');
+    }
+
+    const order = await purchaseOrderService.cancel(
+      request.organizationId,
+      existing,
+      request.body.reason
+    );
+    await auditService.recordUpdate(auditContext(request), 'PURCHASE_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Goods Received
+// ============================================
+export const receiveGoods = handle(
+  'create',
+  async (
+    request: FastifyRequest<{ Params: PurchaseOrderParams; Body: CreateGoodsReceiptInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await purchaseOrderService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Purchase order');
+    }
+
+    const { receivedDate, ...data } = request.body;
+    const order = await purchaseOrderService.receive(request.organizationId, existing, {
+      ...data,
+      receivedById: request.memberId,
+      receivedDate: new Date(receivedDate),
+    });
+    await auditService.recordUpdate(auditContext(request), 'PURCHASE_ORDER', existing, order);
+
+    return sendSuccess(reply, order, 201);
+  }
+);
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+const purchaseOrderStatusValues = ['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED'] as const;
+
+// ============================================
+// Request Schemas
+// ============================================
+
+const orderLineSchema = z.object({
+  boqItemId: z.string().min(1).nullable().optional(),
+  description: z.string().trim().min(1, 'Description is required'),
+  unit: z.string().trim().min(1, 'Unit is required'),
+  quantity: z.number().positive('Quantity must be positive'),
+  rate: z.number().positive('Rate must be positive'),
+  deliveryDate: z.string().datetime().nullable().optional(),
+});
+
+export const createPurchaseOrderSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  vendorId: z.string().min(1, 'Vendor is required'),
+  orderDate: z.string().datetime(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(orderLineSchema).min(1, 'Add at least one line'),
+});
+
+export const updatePurchaseOrderSchema = z.object({
+  vendorId: z.string().min(1).optional(),
+  orderDate: z.string().datetime().optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(orderLineSchema).min(1, 'Add at least one line').optional(),
+});
+
+export const reasonSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(1000),
+});
+
+export const createGoodsReceiptSchema = z.object({
+  receivedDate: z.string().datetime(),
+  notes: z.string().nullable().optional(),
+  lines: z
+    .array(
+      z.object({
+        purchaseOrderLineId: z.string().min(1),
+        quantity: z.number().positive('Quantity must be positive'),
+      })
+    )
+    .min(1, 'Add at least one line'),
+});
+
+export const purchaseOrderParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+export const projectOrdersQuerySchema = z.object({
+  status: z.enum(purchaseOrderStatusValues).optional(),
+});
+
+export const openLinesParamsSchema = z.object({
+  projectId: z.string().min(1),
+  vendorId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderSchema>;
+export type ReasonInput = z.infer<typeof reasonSchema>;
+export type CreateGoodsReceiptInput = z.infer<typeof createGoodsReceiptSchema>;
+export type PurchaseOrderParams = z.infer<typeof purchaseOrderParamsSchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
+export type ProjectOrdersQuery = z.infer<typeof projectOrdersQuerySchema>;
+export type OpenLinesParams = z.infer<typeof openLinesParamsSchema>;
@@ -0,0 +1,75 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './rate-analysis.controller';
+import {
+  rateTemplateSchema,
+  saveRateAnalysisSchema,
+  templateParamsSchema,
+  boqItemParamsSchema,
+} from './rate-analysis.schema';
+
+export default async function rateAnalysisRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/rate-templates - The organization's rate analysis templates
+  app.get('/rate-templates', {
+    preHandler: [requireResourceAccess('boq.view')],
+    handler: controller.listRateTemplates,
+  });
+
+  // GET /api/rate-templates/:id - Template with its components
+  app.get('/rate-templates/:id', {
+    preHandler: [requireResourceAccess('boq.view')],
+    schema: { params: templateParamsSchema },
+    handler: controller.getRateTemplate,
+  });
+
+  // POST /api/rate-templates - Add a template to the library
+  app.post('/rate-templates', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { body: rateTemplateSchema },
+    handler: controller.createRateTemplate,
+  });
+
+  // PUT /api/rate-templates/:id - Replace a template
+  app.put('/rate-templates/:id', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { params: templateParamsSchema, body: rateTemplateSchema },
+    handler: controller.updateRateTemplate,
+  });
+
+  // DELETE /api/rate-templates/:id - Remove a template from the library
+  app.delete('/rate-templates/:id', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { params: templateParamsSchema },
+    handler: controller.deleteRateTemplate,
+  });
+
+  // GET /api/projects/:projectId/boq/:boqItemId/rate-analysis - Rate build-up against actuals
+  app.get('/projects/:projectId/boq/:boqItemId/rate-analysis', {
+    preHandler: [requireResourceAccess('boq.view')],
+    schema: { params: boqItemParamsSchema },
+    handler: controller.getRateAnalysis,
+  });
+
+  // PUT /api/projects/:projectId/boq/:boqItemId/rate-analysis - Save the rate build-up
+  app.put('/projects/:projectId/boq/:boqItemId/rate-analysis', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { params: boqItemParamsSchema, body: saveRateAnalysisSchema },
+    handler: controller.saveRateAnalysis,
+  });
+
+  // DELETE /api/projects/:projectId/boq/:boqItemId/rate-analysis - Remove the rate build-up
+  app.delete('/projects/:projectId/boq/:boqItemId/rate-analysis', {
+    preHandler: [requireResourceAccess('boq.manage')],
+    schema: { params: boqItemParamsSchema },
+    handler: controller.deleteRateAnalysis,
+  });
+}
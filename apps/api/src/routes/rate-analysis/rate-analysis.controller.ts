@@ -0,0 +1,169 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { rateAnalysisService } from '../../services/rate-analysis.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess, sendNotFound, sendNoContent } from '../../lib/response.utils';
+import type {
+  RateTemplateInput,
+  SaveRateAnalysisInput,
+  TemplateParams,
+  BOQItemParams,
+} from './rate-analysis.schema';
+
+const handleTemplate = createErrorHandler('rate analysis template');
+const handle = createErrorHandler('rate analysis');
+
+// ============================================
+// Templates
+// ============================================
+export const listRateTemplates = handleTemplate(
+  'fetch',
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    const templates = await rateAnalysisService.findTemplates(request.organizationId);
+    return sendSuccess(reply, templates);
+  }
+);
+
+export const getRateTemplate = handleTemplate(
+  'fetch',
+  async (request: FastifyRequest<{ Params: TemplateParams }>, reply: FastifyReply) => {
+    const template = await rateAnalysisService.findTemplateById(
+      request.organizationId,
+      request.params.id
+    );
+    if (!template) {
+      return sendNotFound(reply, 'Rate analysis template');
+    }
+    return sendSuccess(reply, template);
+  }
+);
+
+export const createRateTemplate = handleTemplate(
+  'create',
+  async (request: FastifyRequest<{ Body: RateTemplateInput }>, reply: FastifyReply) => {
+    const template = await rateAnalysisService.createTemplate(
+      request.organizationId,
+      request.body,
+      request.memberId
+    );
+    await auditService.recordCreate(auditContext(request), 'RATE_TEMPLATE', template);
+
+    return sendSuccess(reply, template, 201);
+  }
+);
+
+export const updateRateTemplate = handleTemplate(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: TemplateParams; Body: RateTemplateInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await rateAnalysisService.findTemplateById(
+      request.organizationId,
+      request.params.id
+    );
+    if (!existing) {
+      return sendNotFound(reply, 'Rate analysis template');
+    }
+
+    const template = await rateAnalysisService.updateTemplate(
+      request.organizationId,
+      existing,
+      request.body
+    );
+    await auditService.recordUpdate(auditContext(request), 'RATE_TEMPLATE', existing, template);
+
+    return sendSuccess(reply, template);
+  }
+);
+
+export const deleteRateTemplate = handleTemplate(
+  'delete',
+  async (request: FastifyRequest<{ Params: TemplateParams }>, reply: FastifyReply) => {
+    const existing = await rateAnalysisService.findTemplateById(
+      request.organizationId,
+      request.params.id
+    );
+    if (!existing) {
+      return sendNotFound(reply, 'Rate analysis template');
+    }
+
+    await rateAnalysisService.deleteTemplate(request.organizationId, existing.id);
+    await auditService.recordDelete(auditContext(request), 'RATE_TEMPLATE', existing);
+
+    return sendNoContent(reply);
+  }
+);
+
+// ============================================
+// BOQ Item Rate Analysis
+// ============================================
+export const getRateAnalysis = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: BOQItemParams }>, reply: FastifyReply) => {
+    const { projectId, boqItemId } = request.params;
+    const analysis = await rateAnalysisService.findByBOQItem(
+      request.organizationId,
+      projectId,
+      boqItemId
+    );
+    return sendSuccess(reply, analysis);
+  }
+);
+
+export const saveRateAnalysis = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: BOQItemParams; Body: SaveRateAnalysisInput }>,
+    reply: FastifyReply
+  ) => {
+    const { projectId, boqItemId } = request.params;
+    const item = await rateAnalysisService.findBOQItem(
+      request.organizationId,
+      projectId,
+      boqItemId
+    );
+    const existing = await rateAnalysisService.findByBOQItem(
+      request.organizationId,
+      projectId,
+      boqItemId
+    );
+
+    const ctx = auditContext(request);
+    const analysis = await rateAnalysisService.save(
+      request.organizationId,
+      projectId,
+      boqItemId,
+      request.body,
+      (tx, revised) => auditService.recordUpdate(ctx, 'BOQ_ITEM', item, revised, tx)
+    );
+
+    if (existing) {
+      await auditService.recordUpdate(ctx, 'RATE_ANALYSIS', existing, analysis);
+    } else {
+      await auditService.recordCreate(ctx, 'RATE_ANALYSIS', analysis);
+    }
+
+    return sendSuccess(reply, analysis, existing ? 200 : 201);
+  }
+);
+
+export const deleteRateAnalysis = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: BOQItemParams }>, reply: FastifyReply) => {
+    const { projectId, boqItemId } = request.params;
+    const existing = await rateAnalysisService.findByBOQItem(
+      request.organizationId,
+      projectId,
+      boqItemId
+    );
+    if (!existing) {
+      return sendNotFound(reply, 'Rate analysis');
+    }
+
+    await rateAnalysisService.delete(request.organizationId, existing.id);
+    await auditService.recordDelete(auditContext(request), 'RATE_ANALYSIS', existing);
+
+    return sendNoContent(reply);
+  }
+);
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+// ============================================
+// Enums
+// ============================================
+
+const rateComponentKindEnum = z.enum(['MATERIAL', 'LABOUR', 'EQUIPMENT', 'OTHER']);
+
+// ============================================
+// Request Schemas
+// ============================================
+
+const rateComponentSchema = z.object({
+  kind: rateComponentKindEnum,
+  // Material, labour or sub-work type to check the rate against expenses of
+  categoryItemId: z.string().min(1).nullable().optional(),
+  description: z.string().trim().min(1, 'Description is required').max(200),
+  unit: z.string().trim().min(1, 'Unit is required').max(20),
+  // Per unit of the BOQ item or template
+  quantity: z.number().positive('Quantity must be positive'),
+  rate: z.number().min(0, 'Rate cannot be negative'),
+});
+
+const percentSchema = z.number().min(0).max(100);
+
+export const rateTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(1000).nullable().optional(),
+  unit: z.string().trim().min(1, 'Unit is required').max(20),
+  overheadPercent: percentSchema.default(0),
+  profitPercent: percentSchema.default(0),
+  components: z.array(rateComponentSchema).min(1, 'Add at least one component'),
+});
+
+export const saveRateAnalysisSchema = z.object({
+  templateId: z.string().min(1).nullable().optional(),
+  overheadPercent: percentSchema.default(0),
+  profitPercent: percentSchema.default(0),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  components: z.array(rateComponentSchema).min(1, 'Add at least one component'),
+  // Quote the BOQ item at the analysed rate
+  applyRate: z.boolean().optional(),
+});
+
+export const templateParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const boqItemParamsSchema = z.object({
+  projectId: z.string().min(1),
+  boqItemId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type RateTemplateInput = z.infer<typeof rateTemplateSchema>;
+export type SaveRateAnalysisInput = z.infer<typeof saveRateAnalysisSchema>;
+export type TemplateParams = z.infer<typeof templateParamsSchema>;
+export type BOQItemParams = z.infer<typeof boqItemParamsSchema>;
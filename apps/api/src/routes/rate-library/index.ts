@@ -0,0 +1,41 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './rate-library.controller';
+import {
+  rateLibraryQuerySchema,
+  rateEntryQuerySchema,
+  rateSuggestionQuerySchema,
+  rateEntryParamsSchema,
+} from './rate-library.schema';
+
+export default async function rateLibraryRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/rate-library - Rates paid for each type and unit
+  app.get('/rate-library', {
+    preHandler: [requireResourceAccess('expenses.view')],
+    schema: { querystring: rateLibraryQuerySchema },
+    handler: controller.listRateLibrary,
+  });
+
+  // GET /api/rate-library/suggest - Rates to suggest while entering one
+  app.get('/rate-library/suggest', {
+    preHandler: [requireResourceAccess('expenses.view')],
+    schema: { querystring: rateSuggestionQuerySchema },
+    handler: controller.suggestRates,
+  });
+
+  // GET /api/rate-library/:categoryItemId - Rates by vendor and location, and the trend
+  app.get('/rate-library/:categoryItemId', {
+    preHandler: [requireResourceAccess('expenses.view')],
+    schema: { params: rateEntryParamsSchema, querystring: rateEntryQuerySchema },
+    handler: controller.getRateEntry,
+  });
+}
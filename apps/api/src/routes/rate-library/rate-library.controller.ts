@@ -0,0 +1,57 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { rateLibraryService } from '../../services/rate-library.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess } from '../../lib/response.utils';
+import type {
+  RateLibraryQuery,
+  RateEntryQuery,
+  RateSuggestionQuery,
+  RateEntryParams,
+} from './rate-library.schema';
+
+const handle = createErrorHandler('rate library');
+
+function rateWindow(query: { from?: string; to?: string }) {
+  return {
+    from: query.from ? new Date(query.from) : undefined,
+    to: query.to ? new Date(query.to) : undefined,
+  };
+}
+
+export const listRateLibrary = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: RateLibraryQuery }>, reply: FastifyReply) => {
+    const entries = await rateLibraryService.findEntries(request.organizationId, {
+      ...request.query,
+      ...rateWindow(request.query),
+    });
+    return sendSuccess(reply, entries);
+  }
+);
+
+export const getRateEntry = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: RateEntryParams; Querystring: RateEntryQuery }>,
+    reply: FastifyReply
+  ) => {
+    const entry = await rateLibraryService.findEntry(
+      request.organizationId,
+      request.params.categoryItemId,
+      request.query.unit,
+      rateWindow(request.query)
+    );
+    return sendSuccess(reply, entry);
+  }
+);
+
+export const suggestRates = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: RateSuggestionQuery }>, reply: FastifyReply) => {
+    const suggestions = await rateLibraryService.suggest(request.organizationId, {
+      ...request.query,
+      ...rateWindow(request.query),
+    });
+    return sendSuccess(reply, suggestions);
+  }
+);
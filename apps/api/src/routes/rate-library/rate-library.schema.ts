@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+// ============================================
+// Enums
+// ============================================
+
+const rateLibraryTypeEnum = z.enum(['material_type', 'labour_type', 'sub_work_type']);
+
+// ============================================
+// Query Schemas
+// ============================================
+
+// Expense dates to take rates from; all of them when left out
+const rateWindowSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+export const rateLibraryQuerySchema = rateWindowSchema.extend({
+  type: rateLibraryTypeEnum.optional(),
+  search: z.string().optional(),
+});
+
+export const rateEntryQuerySchema = rateWindowSchema.extend({
+  // Leave out for the entry of expenses without a unit
+  unit: z.string().optional(),
+});
+
+export const rateSuggestionQuerySchema = rateWindowSchema.extend({
+  categoryItemId: z.string().min(1, 'Category item is required'),
+  unit: z.string().optional(),
+  partyId: z.string().optional(),
+  projectId: z.string().optional(),
+});
+
+// ============================================
+// Params Schemas
+// ============================================
+
+export const rateEntryParamsSchema = z.object({
+  categoryItemId: z.string().min(1),
+});
+
+// ============================================
+// Types
+// ============================================
+
+export type RateLibraryQuery = z.infer<typeof rateLibraryQuerySchema>;
+export type RateEntryQuery = z.infer<typeof rateEntryQuerySchema>;
+export type RateSuggestionQuery = z.infer<typeof rateSuggestionQuerySchema>;
+export type RateEntryParams = z.infer<typeof rateEntryParamsSchema>;
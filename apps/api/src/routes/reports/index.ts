@@ -0,0 +1,42 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './report.controller';
+import { agingQuerySchema, agingItemsQuerySchema, taxReportQuerySchema } from './report.schema';
+
+export default async function reportRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/reports/aging - Payables or receivables aged into buckets per party or project
+  app.get('/aging', {
+    preHandler: [requireResourceAccess('reports.view')],
+    schema: { querystring: agingQuerySchema },
+    handler: controller.getAgingReport,
+  });
+
+  // GET /api/reports/aging/items - Open bills or installments behind a report row
+  app.get('/aging/items', {
+    preHandler: [requireResourceAccess('reports.view')],
+    schema: { querystring: agingItemsQuerySchema },
+    handler: controller.getAgingItems,
+  });
+
+  // GET /api/reports/gst-input - GST on the month's bills per party, with input credit
+  app.get('/gst-input', {
+    preHandler: [requireResourceAccess('reports.view')],
+    schema: { querystring: taxReportQuerySchema },
+    handler: controller.getGstInputReport,
+  });
+
+  // GET /api/reports/tds - TDS deducted from the month's payments per party and section
+  app.get('/tds', {
+    preHandler: [requireResourceAccess('reports.view')],
+    schema: { querystring: taxReportQuerySchema },
+    handler: controller.getTdsReport,
+  });
+}
@@ -0,0 +1,108 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { agingReportService } from '../../services/aging-report.service';
+import { currentMonth, taxReportService } from '../../services/tax-report.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess } from '../../lib/response.utils';
+import { getProjectFilter } from '../../middleware/organization.middleware';
+import type { AgingQuery, AgingItemsQuery, TaxReportQuery } from './report.schema';
+
+const handle = createErrorHandler('report');
+
+function sendCsv(reply: FastifyReply, fileName: string, csv: string) {
+  return reply
+    .header('Content-Type', 'text/csv; charset=utf-8')
+    .header('Content-Disposition', `attachment; filename="${fileName}"`)
+    .send(csv);
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// ============================================
+// Aging
+// ============================================
+export const getAgingReport = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: AgingQuery }>, reply: FastifyReply) => {
+    const { kind, groupBy, format } = request.query;
+
+    const report = await agingReportService.getReport(
+      request.organizationId,
+      kind,
+      groupBy,
+      getProjectFilter(request)?.projectId.in
+    );
+
+    if (format === 'csv') {
+      return sendCsv(
+        reply,
+        `${kind}-aging-by-${groupBy}-${today()}.csv`,
+        agingReportService.reportToCsv(report)
+      );
+    }
+    return sendSuccess(reply, report);
+  }
+);
+
+export const getAgingItems = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: AgingItemsQuery }>, reply: FastifyReply) => {
+    const { kind, partyId, projectId, format } = request.query;
+
+    const result = await agingReportService.getItems(
+      request.organizationId,
+      kind,
+      { partyId, projectId },
+      getProjectFilter(request)?.projectId.in
+    );
+
+    if (format === 'csv') {
+      return sendCsv(
+        reply,
+        `${kind}-aging-items-${today()}.csv`,
+        agingReportService.itemsToCsv(result)
+      );
+    }
+    return sendSuccess(reply, result);
+  }
+);
+
+// ============================================
+// Tax
+// ============================================
+export const getGstInputReport = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: TaxReportQuery }>, reply: FastifyReply) => {
+    const { month = currentMonth(), format } = request.query;
+
+    const report = await taxReportService.getGstInputReport(
+      request.organizationId,
+      month,
+      getProjectFilter(request)?.projectId.in
+    );
+
+    if (format === 'csv') {
+      return sendCsv(reply, `gst-input-${month}.csv`, taxReportService.gstInputToCsv(report));
+    }
+    return sendSuccess(reply, report);
+  }
+);
+
+export const getTdsReport = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: TaxReportQuery }>, reply: FastifyReply) => {
+    const { month = currentMonth(), format } = request.query;
+
+    const report = await taxReportService.getTdsReport(
+      request.organizationId,
+      month,
+      getProjectFilter(request)?.projectId.in
+    );
+
+    if (format === 'csv') {
+      return sendCsv(reply, `tds-${month}.csv`, taxReportService.tdsToCsv(report));
+    }
+    return sendSuccess(reply, report);
+  }
+);
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// ============================================
+// Request Schemas
+// ============================================
+
+const agingKindSchema = z.enum(['payables', 'receivables']);
+const reportFormatSchema = z.enum(['json', 'csv']).default('json');
+
+export const agingQuerySchema = z.object({
+  kind: agingKindSchema.default('payables'),
+  groupBy: z.enum(['party', 'project']).default('party'),
+  format: reportFormatSchema,
+});
+
+// A drill-down names the party (or client) and/or project of the report row
+export const agingItemsQuerySchema = z
+  .object({
+    kind: agingKindSchema.default('payables'),
+    partyId: z.string().min(1).optional(),
+    projectId: z.string().min(1).optional(),
+    format: reportFormatSchema,
+  })
+  .refine((data) => !!data.partyId || !!data.projectId, {
+    message: 'Choose a party or a project',
+    path: ['partyId'],
+  });
+
+// Monthly tax reports default to the current month
+export const taxReportQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format')
+    .optional(),
+  format: reportFormatSchema,
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type AgingQuery = z.infer<typeof agingQuerySchema>;
+export type AgingItemsQuery = z.infer<typeof agingItemsQuerySchema>;
+export type TaxReportQuery = z.infer<typeof taxReportQuerySchema>;
@@ -1,11 +1,30 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
-import { roleRepository } from '../../repositories/role.repository';
+import { roleRepository, type RoleWithPermissions } from '../../repositories/role.repository';
+import { permissionRepository } from '../../repositories/permission.repository';
+import { auditService, auditContext } from '../../services/audit.service';
+import { permissionService } from '../../services/permission.service';
+import { getRequestGrantor } from '../../middleware/organization.middleware';
 import { createErrorHandler } from '../../lib/error-handler';
 import { sendSuccess, sendNotFound, sendNoContent, sendPaginated, buildPagination, sendError } from '../../lib/response.utils';
 import type { CreateRoleInput, UpdateRoleInput, RoleParams, RoleQuery } from './role.schema';
 
 const handle = createErrorHandler('role');
 
+/**
+ * Role as recorded in the audit log: granted permissions are part of its state
+ */
+function auditedRole(role: RoleWithPermissions) {
+  return { ...role, permissions: role.permissions.map((rp) => rp.permission.key).sort() };
+}
+
+/**
+ * The permissions a role is about to be given, shaped like its stored grants
+ */
+async function grantedPermissions(permissionIds: string[]) {
+  const permissions = await permissionRepository.findByIds(permissionIds);
+  return permissions.map((permission) => ({ permission }));
+}
+
 // ============================================
 // List Roles
 // ============================================
@@ -27,6 +46,8 @@ export const listRoles = handle(
       name: role.name,
       description: role.description,
       isSystemRole: role.isSystemRole,
+      fullAccess: role.fullAccess,
+      projectScoped: role.projectScoped,
       memberCount: role._count?.members ?? 0,
       permissions: role.permissions.map((rp) => rp.permission),
       createdAt: role.createdAt,
@@ -60,6 +81,8 @@ export const getRole = handle(
       name: role.name,
       description: role.description,
       isSystemRole: role.isSystemRole,
+      fullAccess: role.fullAccess,
+      projectScoped: role.projectScoped,
       memberCount: role._count?.members ?? 0,
       permissions: role.permissions.map((rp) => rp.permission),
       createdAt: role.createdAt,
@@ -76,18 +99,32 @@ export const getRole = handle(
 export const createRole = handle(
   'create',
   async (request: FastifyRequest<{ Body: CreateRoleInput }>, reply: FastifyReply) => {
+    // roles.manage cannot be used to build a role reaching further than the caller's
+    permissionService.assertCanGrant(
+      {
+        fullAccess: false,
+        projectScoped: request.body.projectScoped ?? false,
+        permissions: await grantedPermissions(request.body.permissionIds ?? []),
+      },
+      await getRequestGrantor(request)
+    );
+
     const role = await roleRepository.create({
       organizationId: request.organizationId,
       name: request.body.name,
       description: request.body.description,
+      projectScoped: request.body.projectScoped,
       permissionIds: request.body.permissionIds,
     });
+    await auditService.recordCreate(auditContext(request), 'ROLE', auditedRole(role));
 
     const transformedRole = {
       id: role.id,
       name: role.name,
       description: role.description,
       isSystemRole: role.isSystemRole,
+      fullAccess: role.fullAccess,
+      projectScoped: role.projectScoped,
       memberCount: role._count?.members ?? 0,
       permissions: role.permissions.map((rp) => rp.permission),
       createdAt: role.createdAt,
@@ -118,22 +155,63 @@ export const updateRole = handle(
       return sendNotFound(reply, 'Role');
     }
 
+    if (existingRole.id === request.roleId) {
+      return sendError(reply, 403, 'You cannot change your own role', 'OWN_ROLE');
+    }
+
     // System roles can only have permissions updated, not name
     if (existingRole.isSystemRole && request.body.name && request.body.name !== existingRole.name) {
       return sendError(reply, 400, 'Cannot rename system role', 'SYSTEM_ROLE_RENAME');
     }
 
+    // System roles keep their reach: ADMIN sees everything, the portal's CLIENT stays scoped
+    if (
+      existingRole.isSystemRole &&
+      request.body.projectScoped !== undefined &&
+      request.body.projectScoped !== existingRole.projectScoped
+    ) {
+      return sendError(
+        reply,
+        400,
+        'Cannot change project access of a system role',
+        'SYSTEM_ROLE_ACCESS'
+      );
+    }
+
+    // Neither the role as it stands nor as it will be may reach further than the caller's
+    const grantor = await getRequestGrantor(request);
+    permissionService.assertCanGrant(existingRole, grantor);
+    permissionService.assertCanGrant(
+      {
+        fullAccess: existingRole.fullAccess,
+        projectScoped: request.body.projectScoped ?? existingRole.projectScoped,
+        permissions: request.body.permissionIds
+          ? await grantedPermissions(request.body.permissionIds)
+          : existingRole.permissions,
+      },
+      grantor
+    );
+
     const role = await roleRepository.update(request.params.id, {
       name: request.body.name,
       description: request.body.description ?? undefined,
+      projectScoped: request.body.projectScoped,
       permissionIds: request.body.permissionIds,
     });
+    await auditService.recordUpdate(
+      auditContext(request),
+      'ROLE',
+      auditedRole(existingRole),
+      auditedRole(role)
+    );
 
     const transformedRole = {
       id: role.id,
       name: role.name,
       description: role.description,
       isSystemRole: role.isSystemRole,
+      fullAccess: role.fullAccess,
+      projectScoped: role.projectScoped,
       memberCount: role._count?.members ?? 0,
       permissions: role.permissions.map((rp) => rp.permission),
       createdAt: role.createdAt,
@@ -162,6 +240,7 @@ export const deleteRole = handle(
     }
 
     await roleRepository.delete(request.params.id);
+    await auditService.recordDelete(auditContext(request), 'ROLE', auditedRole(existingRole));
     return sendNoContent(reply);
   }
 );
@@ -7,12 +7,15 @@ import { z } from 'zod';
 export const createRoleSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100),
   description: z.string().max(500).optional(),
+  // Members only reach the projects they are given access to
+  projectScoped: z.boolean().optional(),
   permissionIds: z.array(z.string()).optional(),
 });
 
 export const updateRoleSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().max(500).optional().nullable(),
+  projectScoped: z.boolean().optional(),
   permissionIds: z.array(z.string()).optional(),
 });
 
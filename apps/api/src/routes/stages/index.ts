@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import * as controller from './stage.controller';
 import {
   createStageSchema,
@@ -18,36 +21,42 @@ export default async function stageRoutes(fastify: FastifyInstance) {
 
   // GET /api/stages - List all stages
   app.get('/', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { querystring: stageQuerySchema },
     handler: controller.listStages,
   });
 
   // GET /api/stages/project/:projectId - Get stages by project
   app.get('/project/:projectId', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { params: projectParamsSchema },
     handler: controller.getStagesByProject,
   });
 
   // GET /api/stages/:id - Get stage by ID
   app.get('/:id', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { params: stageParamsSchema },
     handler: controller.getStage,
   });
 
   // GET /api/stages/:id/stats - Get stage statistics
   app.get('/:id/stats', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { params: stageParamsSchema },
     handler: controller.getStageStats,
   });
 
   // POST /api/stages - Create stage
   app.post('/', {
+    preHandler: [requireResourceAccess('projects.edit')],
     schema: { body: createStageSchema },
     handler: controller.createStage,
   });
 
   // PUT /api/stages/:id - Update stage
   app.put('/:id', {
+    preHandler: [requireResourceAccess('projects.edit')],
     schema: {
       params: stageParamsSchema,
       body: updateStageSchema,
@@ -57,6 +66,7 @@ export default async function stageRoutes(fastify: FastifyInstance) {
 
   // DELETE /api/stages/:id - Delete stage
   app.delete('/:id', {
+    preHandler: [requireResourceAccess('projects.edit')],
     schema: { params: stageParamsSchema },
     handler: controller.deleteStage,
   });
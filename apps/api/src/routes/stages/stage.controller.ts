@@ -1,5 +1,6 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { stageRepository } from '../../repositories/stage.repository';
+import { auditService, auditContext } from '../../services/audit.service';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -76,6 +77,7 @@ export const createStage = handle(
   'create',
   async (request: FastifyRequest<{ Body: CreateStageInput }>, reply: FastifyReply) => {
     const stage = await stageRepository.create(request.organizationId, request.body);
+    await auditService.recordCreate(auditContext(request), 'STAGE', stage);
 
     return sendSuccess(reply, stage, 201);
   }
@@ -90,11 +92,17 @@ export const updateStage = handle(
     request: FastifyRequest<{ Params: StageParams; Body: UpdateStageInput }>,
     reply: FastifyReply
   ) => {
+    const existing = await stageRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Stage');
+    }
+
     const stage = await stageRepository.update(
       request.organizationId,
       request.params.id,
       request.body
     );
+    await auditService.recordUpdate(auditContext(request), 'STAGE', existing, stage);
 
     return sendSuccess(reply, stage);
   }
@@ -106,7 +114,13 @@ export const updateStage = handle(
 export const deleteStage = handle(
   'delete',
   async (request: FastifyRequest<{ Params: StageParams }>, reply: FastifyReply) => {
+    const existing = await stageRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Stage');
+    }
+
     await stageRepository.delete(request.organizationId, request.params.id);
+    await auditService.recordDelete(auditContext(request), 'STAGE', existing);
     return sendNoContent(reply);
   }
 );
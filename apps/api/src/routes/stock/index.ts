@@ -0,0 +1,82 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './stock.controller';
+import {
+  stockReceiptSchema,
+  stockIssueSchema,
+  stockTransferSchema,
+  stockAdjustmentSchema,
+  projectParamsSchema,
+  ledgerQuerySchema,
+  varianceQuerySchema,
+} from './stock.schema';
+
+export default async function stockRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/stock/project/:projectId - Stock of each material at a project site
+  app.get('/project/:projectId', {
+    preHandler: [requireResourceAccess('stock.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getStock,
+  });
+
+  // GET /api/stock/project/:projectId/ledger - Movements with the running balance
+  app.get('/project/:projectId/ledger', {
+    preHandler: [requireResourceAccess('stock.view')],
+    schema: { params: projectParamsSchema, querystring: ledgerQuerySchema },
+    handler: controller.getLedger,
+  });
+
+  // GET /api/stock/project/:projectId/sources - Bills and goods received not yet in stock
+  app.get('/project/:projectId/sources', {
+    preHandler: [requireResourceAccess('stock.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getSources,
+  });
+
+  // GET /api/stock/project/:projectId/variance - Consumed quantity against the BOQ
+  app.get('/project/:projectId/variance', {
+    preHandler: [requireResourceAccess('stock.view')],
+    schema: { params: projectParamsSchema, querystring: varianceQuerySchema },
+    handler: controller.getVariance,
+  });
+
+  // POST /api/stock/receipts - Take material into stock from a bill or goods received note
+  app.post('/receipts', {
+    preHandler: [requireResourceAccess('stock.manage')],
+    schema: { body: stockReceiptSchema },
+    handler: controller.receiveStock,
+  });
+
+  // POST /api/stock/issues - Issue material to a stage or task
+  app.post('/issues', {
+    preHandler: [requireResourceAccess('stock.manage')],
+    schema: { body: stockIssueSchema },
+    handler: controller.issueStock,
+  });
+
+  // POST /api/stock/transfers - Move material to another project site
+  app.post('/transfers', {
+    preHandler: [
+      requireResourceAccess('stock.manage'),
+      requireResourceAccess('stock.manage', 'toProjectId'),
+    ],
+    schema: { body: stockTransferSchema },
+    handler: controller.transferStock,
+  });
+
+  // POST /api/stock/adjustments - Correct stock to a physical count
+  app.post('/adjustments', {
+    preHandler: [requireResourceAccess('stock.manage')],
+    schema: { body: stockAdjustmentSchema },
+    handler: controller.adjustStock,
+  });
+}
@@ -0,0 +1,125 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { stockService } from '../../services/stock.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess } from '../../lib/response.utils';
+import type {
+  StockReceiptBody,
+  StockIssueBody,
+  StockTransferBody,
+  StockAdjustmentBody,
+  ProjectParams,
+  LedgerQuery,
+  VarianceQuery,
+} from './stock.schema';
+
+const handle = createErrorHandler('stock');
+
+// ============================================
+// Project Stock
+// ============================================
+export const getStock = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const stock = await stockService.getStock(request.organizationId, request.params.projectId);
+    return sendSuccess(reply, stock);
+  }
+);
+
+export const getLedger = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: ProjectParams; Querystring: LedgerQuery }>,
+    reply: FastifyReply
+  ) => {
+    const movements = await stockService.getLedger(
+      request.organizationId,
+      request.params.projectId,
+      request.query
+    );
+    return sendSuccess(reply, movements);
+  }
+);
+
+export const getSources = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const sources = await stockService.getSources(request.organizationId, request.params.projectId);
+    return sendSuccess(reply, sources);
+  }
+);
+
+export const getVariance = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: ProjectParams; Querystring: VarianceQuery }>,
+    reply: FastifyReply
+  ) => {
+    const variance = await stockService.getVariance(
+      request.organizationId,
+      request.params.projectId,
+      request.query.stageId
+    );
+    return sendSuccess(reply, variance);
+  }
+);
+
+// ============================================
+// Movements
+// ============================================
+export const receiveStock = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: StockReceiptBody }>, reply: FastifyReply) => {
+    const movement = await stockService.receive(request.organizationId, {
+      ...request.body,
+      movementDate: new Date(request.body.movementDate),
+      createdById: request.memberId,
+    });
+    await auditService.recordCreate(auditContext(request), 'STOCK_MOVEMENT', movement);
+
+    return sendSuccess(reply, movement, 201);
+  }
+);
+
+export const issueStock = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: StockIssueBody }>, reply: FastifyReply) => {
+    const movement = await stockService.issue(request.organizationId, {
+      ...request.body,
+      movementDate: new Date(request.body.movementDate),
+      createdById: request.memberId,
+    });
+    await auditService.recordCreate(auditContext(request), 'STOCK_MOVEMENT', movement);
+
+    return sendSuccess(reply, movement, 201);
+  }
+);
+
+export const transferStock = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: StockTransferBody }>, reply: FastifyReply) => {
+    const [transferOut, transferIn] = await stockService.transfer(request.organizationId, {
+      ...request.body,
+      movementDate: new Date(request.body.movementDate),
+      createdById: request.memberId,
+    });
+    await auditService.recordCreate(auditContext(request), 'STOCK_MOVEMENT', transferOut);
+    await auditService.recordCreate(auditContext(request), 'STOCK_MOVEMENT', transferIn);
+
+    return sendSuccess(reply, { transferOut, transferIn }, 201);
+  }
+);
+
+export const adjustStock = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: StockAdjustmentBody }>, reply: FastifyReply) => {
+    const movement = await stockService.adjust(request.organizationId, {
+      ...request.body,
+      movementDate: new Date(request.body.movementDate),
+      createdById: request.memberId,
+    });
+    await auditService.recordCreate(auditContext(request), 'STOCK_MOVEMENT', movement);
+
+    return sendSuccess(reply, movement, 201);
+  }
+);
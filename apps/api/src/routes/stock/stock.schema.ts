@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+// ============================================
+// Request Schemas
+// ============================================
+
+const stockLineSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  materialTypeItemId: z.string().min(1, 'Material is required'),
+  unit: z.string().trim().min(1, 'Unit is required'),
+  movementDate: z.string().datetime(),
+  notes: z.string().nullable().optional(),
+});
+
+export const stockReceiptSchema = stockLineSchema
+  .extend({
+    quantity: z.number().positive('Quantity must be positive'),
+    expenseId: z.string().min(1).optional(),
+    goodsReceiptLineId: z.string().min(1).optional(),
+  })
+  .refine((data) => !data.expenseId !== !data.goodsReceiptLineId, {
+    message: 'Take material into stock from either a bill or a goods received note',
+    path: ['expenseId'],
+  });
+
+export const stockIssueSchema = stockLineSchema
+  .extend({
+    quantity: z.number().positive('Quantity must be positive'),
+    stageId: z.string().min(1).optional(),
+    taskId: z.string().min(1).optional(),
+    // Material supplied to a subcontractor, deducted from their RA bills
+    workOrderId: z.string().min(1).optional(),
+    recoveryRate: z.number().nonnegative('Recovery rate cannot be negative').optional(),
+  })
+  .refine((data) => data.stageId || data.taskId, {
+    message: 'Issue material to a stage or a task',
+    path: ['stageId'],
+  })
+  .refine((data) => !data.workOrderId === (data.recoveryRate === undefined), {
+    message: 'Material issued to a work order needs a recovery rate',
+    path: ['recoveryRate'],
+  });
+
+export const stockTransferSchema = stockLineSchema.extend({
+  toProjectId: z.string().min(1, 'Destination project is required'),
+  quantity: z.number().positive('Quantity must be positive'),
+});
+
+export const stockAdjustmentSchema = stockLineSchema.extend({
+  countedQuantity: z.number().nonnegative('Counted quantity cannot be negative'),
+  notes: z.string().trim().min(1, 'A reason is required'),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+export const ledgerQuerySchema = z.object({
+  materialTypeItemId: z.string().min(1).optional(),
+  unit: z.string().min(1).optional(),
+});
+
+export const varianceQuerySchema = z.object({
+  stageId: z.string().min(1).optional(),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type StockReceiptBody = z.infer<typeof stockReceiptSchema>;
+export type StockIssueBody = z.infer<typeof stockIssueSchema>;
+export type StockTransferBody = z.infer<typeof stockTransferSchema>;
+export type StockAdjustmentBody = z.infer<typeof stockAdjustmentSchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
+export type LedgerQuery = z.infer<typeof ledgerQuerySchema>;
+export type VarianceQuery = z.infer<typeof varianceQuerySchema>;
@@ -0,0 +1,94 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './subcontract.controller';
+import {
+  createWorkOrderSchema,
+  updateWorkOrderSchema,
+  createRABillSchema,
+  reasonSchema,
+  workOrderParamsSchema,
+  raBillParamsSchema,
+  projectParamsSchema,
+} from './subcontract.schema';
+
+export default async function subcontractRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // ============================================
+  // Work Orders
+  // ============================================
+
+  // GET /api/subcontracts/work-orders/project/:projectId - A project's work orders with progress
+  app.get('/work-orders/project/:projectId', {
+    preHandler: [requireResourceAccess('subcontracts.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getProjectWorkOrders,
+  });
+
+  // GET /api/subcontracts/work-orders/:id - Work order with its lines and RA bills
+  app.get('/work-orders/:id', {
+    preHandler: [requireResourceAccess('subcontracts.view')],
+    schema: { params: workOrderParamsSchema },
+    handler: controller.getWorkOrder,
+  });
+
+  // POST /api/subcontracts/work-orders - Agree a work order with a subcontractor
+  app.post('/work-orders', {
+    preHandler: [requireResourceAccess('subcontracts.manage')],
+    schema: { body: createWorkOrderSchema },
+    handler: controller.createWorkOrder,
+  });
+
+  // PUT /api/subcontracts/work-orders/:id - Edit a work order nothing is billed against
+  app.put('/work-orders/:id', {
+    preHandler: [requireResourceAccess('subcontracts.manage')],
+    schema: { params: workOrderParamsSchema, body: updateWorkOrderSchema },
+    handler: controller.updateWorkOrder,
+  });
+
+  // POST /api/subcontracts/work-orders/:id/release-retention - Pay retention once the project is completed
+  app.post('/work-orders/:id/release-retention', {
+    preHandler: [requireResourceAccess('subcontracts.approve')],
+    schema: { params: workOrderParamsSchema },
+    handler: controller.releaseRetention,
+  });
+
+  // ============================================
+  // RA Bills
+  // ============================================
+
+  // POST /api/subcontracts/work-orders/:id/ra-bills - Raise an RA bill from measured work
+  app.post('/work-orders/:id/ra-bills', {
+    preHandler: [requireResourceAccess('subcontracts.manage')],
+    schema: { params: workOrderParamsSchema, body: createRABillSchema },
+    handler: controller.createRABill,
+  });
+
+  // GET /api/subcontracts/ra-bills/:id - RA bill with its measurements and deductions
+  app.get('/ra-bills/:id', {
+    preHandler: [requireResourceAccess('subcontracts.view')],
+    schema: { params: raBillParamsSchema },
+    handler: controller.getRABill,
+  });
+
+  // POST /api/subcontracts/ra-bills/:id/approve - Approve an RA bill and post it as an expense
+  app.post('/ra-bills/:id/approve', {
+    preHandler: [requireResourceAccess('subcontracts.approve')],
+    schema: { params: raBillParamsSchema },
+    handler: controller.approveRABill,
+  });
+
+  // POST /api/subcontracts/ra-bills/:id/reject - Send an RA bill back with a reason
+  app.post('/ra-bills/:id/reject', {
+    preHandler: [requireResourceAccess('subcontracts.approve')],
+    schema: { params: raBillParamsSchema, body: reasonSchema },
+    handler: controller.rejectRABill,
+  });
+}
@@ -0,0 +1,186 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { subcontractService } from '../../services/subcontract.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess, sendNotFound } from '../../lib/response.utils';
+import type {
+  CreateWorkOrderInput,
+  UpdateWorkOrderInput,
+  CreateRABillInput,
+  ReasonInput,
+  WorkOrderParams,
+  RABillParams,
+  ProjectParams,
+} from './subcontract.schema';
+
+const handle = createErrorHandler('work order');
+
+// ============================================
+// Project Work Orders
+// ============================================
+export const getProjectWorkOrders = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const orders = await subcontractService.getProjectWorkOrders(
+      request.organizationId,
+      request.params.projectId
+    );
+    return sendSuccess(reply, orders);
+  }
+);
+
+// ============================================
+// Get Work Order
+// ============================================
+export const getWorkOrder = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: WorkOrderParams }>, reply: FastifyReply) => {
+    const order = await subcontractService.findById(request.organizationId, request.params.id);
+    if (!order) {
+      return sendNotFound(reply, 'Work order');
+    }
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Create / Edit Work Order
+// ============================================
+export const createWorkOrder = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateWorkOrderInput }>, reply: FastifyReply) => {
+    const { orderDate, ...data } = request.body;
+
+    const order = await subcontractService.create(request.organizationId, {
+      ...data,
+      createdById: request.memberId,
+      orderDate: new Date(orderDate),
+    });
+    await auditService.recordCreate(auditContext(request), 'WORK_ORDER', order);
+
+    return sendSuccess(reply, order, 201);
+  }
+);
+
+export const updateWorkOrder = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: WorkOrderParams; Body: UpdateWorkOrderInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await subcontractService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Work order');
+    }
+
+    const { orderDate, ...data } = request.body;
+    const order = await subcontractService.update(request.organizationId, existing, {
+      ...data,
+      ...(orderDate && { orderDate: new Date(orderDate) }),
+    });
+    await auditService.recordUpdate(auditContext(request), 'WORK_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// Retention Release
+// ============================================
+export const releaseRetention = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: WorkOrderParams }>, reply: FastifyReply) => {
+    const existing = await subcontractService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Work order');
+    }
+
+    const order = await subcontractService.releaseRetention(
+      request.organizationId,
+      existing,
+      request.memberId
+    );
+    await auditService.recordUpdate(auditContext(request), 'WORK_ORDER', existing, order);
+
+    return sendSuccess(reply, order);
+  }
+);
+
+// ============================================
+// RA Bills
+// ============================================
+export const getRABill = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: RABillParams }>, reply: FastifyReply) => {
+    const bill = await subcontractService.getRABill(request.organizationId, request.params.id);
+    if (!bill) {
+      return sendNotFound(reply, 'RA bill');
+    }
+    return sendSuccess(reply, bill);
+  }
+);
+
+export const createRABill = handle(
+  'create',
+  async (
+    request: FastifyRequest<{ Params: WorkOrderParams; Body: CreateRABillInput }>,
+    reply: FastifyReply
+  ) => {
+    const order = await subcontractService.findById(request.organizationId, request.params.id);
+    if (!order) {
+      return sendNotFound(reply, 'Work order');
+    }
+
+    const { billDate, ...data } = request.body;
+    const bill = await subcontractService.createRABill(request.organizationId, order, {
+      ...data,
+      createdById: request.memberId,
+      billDate: new Date(billDate),
+    });
+    await auditService.recordCreate(auditContext(request), 'RA_BILL', bill);
+
+    return sendSuccess(reply, bill, 201);
+  }
+);
+
+export const approveRABill = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: RABillParams }>, reply: FastifyReply) => {
+    const existing = await subcontractService.getRABill(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'RA bill');
+    }
+
+    const bill = await subcontractService.approveRABill(
+      request.organizationId,
+      existing,
+      request.memberId,
+      (tx, approved) =>
+        auditService.recordUpdate(auditContext(request), 'RA_BILL', existing, approved, tx)
+    );
+
+    return sendSuccess(reply, bill);
+  }
+);
+
+export const rejectRABill = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: RABillParams; Body: ReasonInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await subcontractService.getRABill(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'RA bill');
+    }
+
+    const bill = await subcontractService.rejectRABill(
+      request.organizationId,
+      existing,
+      request.body.reason
+    );
+    await auditService.recordUpdate(auditContext(request), 'RA_BILL', existing, bill);
+
+    return sendSuccess(reply, bill);
+  }
+);
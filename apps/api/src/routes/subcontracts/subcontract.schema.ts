@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+// ============================================
+// Request Schemas
+// ============================================
+
+const workOrderLineSchema = z.object({
+  boqItemId: z.string().min(1, 'BOQ item is required'),
+  quantity: z.number().positive('Quantity must be positive'),
+  rate: z.number().positive('Rate must be positive'),
+});
+
+const percentSchema = z.number().min(0).max(100);
+
+export const createWorkOrderSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  subcontractorId: z.string().min(1, 'Subcontractor is required'),
+  subWorkTypeItemId: z.string().min(1).nullable().optional(),
+  orderDate: z.string().datetime(),
+  retentionPercent: percentSchema.default(0),
+  advanceRecoveryPercent: percentSchema.default(0),
+  notes: z.string().nullable().optional(),
+  lines: z.array(workOrderLineSchema).min(1, 'Add at least one line'),
+});
+
+export const updateWorkOrderSchema = z.object({
+  subWorkTypeItemId: z.string().min(1).nullable().optional(),
+  orderDate: z.string().datetime().optional(),
+  retentionPercent: percentSchema.optional(),
+  advanceRecoveryPercent: percentSchema.optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(workOrderLineSchema).min(1, 'Add at least one line').optional(),
+});
+
+export const createRABillSchema = z.object({
+  billDate: z.string().datetime(),
+  notes: z.string().nullable().optional(),
+  lines: z
+    .array(
+      z.object({
+        workOrderLineId: z.string().min(1),
+        // Measured to date, including what earlier bills paid for
+        cumulativeQuantity: z.number().min(0, 'Quantity cannot be negative'),
+      })
+    )
+    .min(1, 'Add at least one line'),
+});
+
+export const reasonSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(1000),
+});
+
+export const workOrderParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const raBillParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type CreateWorkOrderInput = z.infer<typeof createWorkOrderSchema>;
+export type UpdateWorkOrderInput = z.infer<typeof updateWorkOrderSchema>;
+export type CreateRABillInput = z.infer<typeof createRABillSchema>;
+export type ReasonInput = z.infer<typeof reasonSchema>;
+export type WorkOrderParams = z.infer<typeof workOrderParamsSchema>;
+export type RABillParams = z.infer<typeof raBillParamsSchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
@@ -1,6 +1,9 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
+import {
+  organizationMiddleware,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
 import * as controller from './task.controller';
 import {
   createTaskSchema,
@@ -19,30 +22,35 @@ export default async function taskRoutes(fastify: FastifyInstance) {
 
   // GET /api/tasks - List all tasks
   app.get('/', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { querystring: taskQuerySchema },
     handler: controller.listTasks,
   });
 
   // GET /api/tasks/stage/:stageId - Get tasks by stage
   app.get('/stage/:stageId', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { params: stageParamsSchema },
     handler: controller.getTasksByStage,
   });
 
   // GET /api/tasks/:id - Get task by ID
   app.get('/:id', {
+    preHandler: [requireResourceAccess('projects.view')],
     schema: { params: taskParamsSchema },
     handler: controller.getTask,
   });
 
   // POST /api/tasks - Create task
   app.post('/', {
+    preHandler: [requireResourceAccess('projects.edit')],
     schema: { body: createTaskSchema },
     handler: controller.createTask,
   });
 
   // PUT /api/tasks/:id - Update task
   app.put('/:id', {
+    preHandler: [requireResourceAccess('projects.edit')],
     schema: {
       params: taskParamsSchema,
       body: updateTaskSchema,
@@ -52,6 +60,7 @@ export default async function taskRoutes(fastify: FastifyInstance) {
 
   // PUT /api/tasks/:id/status - Update task status
   app.put('/:id/status', {
+    preHandler: [requireResourceAccess('projects.edit')],
     schema: {
       params: taskParamsSchema,
       body: updateTaskStatusSchema,
@@ -61,6 +70,7 @@ export default async function taskRoutes(fastify: FastifyInstance) {
 
   // DELETE /api/tasks/:id - Delete task
   app.delete('/:id', {
+    preHandler: [requireResourceAccess('projects.edit')],
     schema: { params: taskParamsSchema },
     handler: controller.deleteTask,
   });
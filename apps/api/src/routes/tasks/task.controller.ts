@@ -1,5 +1,6 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { taskRepository } from '../../repositories/task.repository';
+import { auditService, auditContext } from '../../services/audit.service';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -77,6 +78,7 @@ export const createTask = handle(
   'create',
   async (request: FastifyRequest<{ Body: CreateTaskInput }>, reply: FastifyReply) => {
     const task = await taskRepository.create(request.organizationId, request.body);
+    await auditService.recordCreate(auditContext(request), 'TASK', task);
 
     return sendSuccess(reply, task, 201);
   }
@@ -91,11 +93,17 @@ export const updateTask = handle(
     request: FastifyRequest<{ Params: TaskParams; Body: UpdateTaskInput }>,
     reply: FastifyReply
   ) => {
+    const existing = await taskRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Task');
+    }
+
     const task = await taskRepository.update(
       request.organizationId,
       request.params.id,
       request.body
     );
+    await auditService.recordUpdate(auditContext(request), 'TASK', existing, task);
 
     return sendSuccess(reply, task);
   }
@@ -110,11 +118,17 @@ export const updateTaskStatus = handle(
     request: FastifyRequest<{ Params: TaskParams; Body: UpdateTaskStatusInput }>,
     reply: FastifyReply
   ) => {
+    const existing = await taskRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Task');
+    }
+
     const task = await taskRepository.updateStatus(
       request.organizationId,
       request.params.id,
       request.body.status
     );
+    await auditService.recordUpdate(auditContext(request), 'TASK', existing, task);
 
     return sendSuccess(reply, task);
   }
@@ -126,7 +140,13 @@ export const updateTaskStatus = handle(
 export const deleteTask = handle(
   'delete',
   async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+    const existing = await taskRepository.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Task');
+    }
+
     await taskRepository.delete(request.organizationId, request.params.id);
+    await auditService.recordDelete(auditContext(request), 'TASK', existing);
     return sendNoContent(reply);
   }
 );
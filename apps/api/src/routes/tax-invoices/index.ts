@@ -0,0 +1,71 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requirePermission,
+  requireResourceAccess,
+} from '../../middleware/organization.middleware';
+import * as controller from './tax-invoice.controller';
+import {
+  invoiceSettingsSchema,
+  createTaxInvoiceSchema,
+  cancelTaxInvoiceSchema,
+  taxInvoiceParamsSchema,
+  taxInvoiceQuerySchema,
+  projectParamsSchema,
+} from './tax-invoice.schema';
+
+export default async function taxInvoiceRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // Apply organization middleware to all routes
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/tax-invoices/settings - GST details printed on invoices
+  app.get('/settings', {
+    preHandler: [requirePermission('invoices.view')],
+    handler: controller.getSettings,
+  });
+
+  // PUT /api/tax-invoices/settings - Update GST details and the invoice number prefix
+  app.put('/settings', {
+    preHandler: [requirePermission('invoices.manage')],
+    schema: { body: invoiceSettingsSchema },
+    handler: controller.updateSettings,
+  });
+
+  // GET /api/tax-invoices/project/:projectId - A project's invoices with receipts
+  app.get('/project/:projectId', {
+    preHandler: [requireResourceAccess('invoices.view')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getProjectInvoices,
+  });
+
+  // GET /api/tax-invoices/project/:projectId/billable - BOQ items and stages left to bill
+  app.get('/project/:projectId/billable', {
+    preHandler: [requireResourceAccess('invoices.manage')],
+    schema: { params: projectParamsSchema },
+    handler: controller.getBillable,
+  });
+
+  // GET /api/tax-invoices/:id - Invoice as JSON or PDF
+  app.get('/:id', {
+    preHandler: [requireResourceAccess('invoices.view')],
+    schema: { params: taxInvoiceParamsSchema, querystring: taxInvoiceQuerySchema },
+    handler: controller.getInvoice,
+  });
+
+  // POST /api/tax-invoices - Raise an invoice to the project's client
+  app.post('/', {
+    preHandler: [requireResourceAccess('invoices.manage')],
+    schema: { body: createTaxInvoiceSchema },
+    handler: controller.createInvoice,
+  });
+
+  // POST /api/tax-invoices/:id/cancel - Cancel an invoice
+  app.post('/:id/cancel', {
+    preHandler: [requireResourceAccess('invoices.manage')],
+    schema: { params: taxInvoiceParamsSchema, body: cancelTaxInvoiceSchema },
+    handler: controller.cancelInvoice,
+  });
+}
@@ -0,0 +1,126 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { taxInvoiceService, invoiceFileName } from '../../services/tax-invoice.service';
+import { auditService, auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendSuccess, sendNotFound } from '../../lib/response.utils';
+import type {
+  InvoiceSettingsInput,
+  CreateTaxInvoiceInput,
+  CancelTaxInvoiceInput,
+  TaxInvoiceParams,
+  TaxInvoiceQuery,
+  ProjectParams,
+} from './tax-invoice.schema';
+
+const handle = createErrorHandler('tax invoice');
+
+// ============================================
+// GST Settings
+// ============================================
+export const getSettings = handle('fetch', async (request: FastifyRequest, reply: FastifyReply) => {
+  const settings = await taxInvoiceService.getSettings(request.organizationId);
+  return sendSuccess(reply, settings);
+});
+
+export const updateSettings = handle(
+  'update',
+  async (request: FastifyRequest<{ Body: InvoiceSettingsInput }>, reply: FastifyReply) => {
+    const settings = await taxInvoiceService.updateSettings(request.organizationId, request.body);
+    return sendSuccess(reply, settings);
+  }
+);
+
+// ============================================
+// Project Invoices
+// ============================================
+export const getProjectInvoices = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const result = await taxInvoiceService.getProjectInvoices(
+      request.organizationId,
+      request.params.projectId
+    );
+    return sendSuccess(reply, result);
+  }
+);
+
+export const getBillable = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+    const billable = await taxInvoiceService.getBillable(
+      request.organizationId,
+      request.params.projectId
+    );
+    return sendSuccess(reply, billable);
+  }
+);
+
+// ============================================
+// Get Invoice
+// ============================================
+export const getInvoice = handle(
+  'fetch',
+  async (
+    request: FastifyRequest<{ Params: TaxInvoiceParams; Querystring: TaxInvoiceQuery }>,
+    reply: FastifyReply
+  ) => {
+    const invoice = await taxInvoiceService.findById(request.organizationId, request.params.id);
+    if (!invoice) {
+      return sendNotFound(reply, 'Invoice');
+    }
+
+    if (request.query.format === 'json') {
+      return sendSuccess(reply, invoice);
+    }
+
+    const pdf = await taxInvoiceService.toPdf(request.organizationId, invoice);
+    return reply
+      .header('Content-Type', 'application/pdf')
+      .header('Content-Disposition', `attachment; filename="${invoiceFileName(invoice)}"`)
+      .send(pdf);
+  }
+);
+
+// ============================================
+// Raise Invoice
+// ============================================
+export const createInvoice = handle(
+  'create',
+  async (request: FastifyRequest<{ Body: CreateTaxInvoiceInput }>, reply: FastifyReply) => {
+    const { invoiceDate, dueDate, ...data } = request.body;
+
+    const invoice = await taxInvoiceService.create(request.organizationId, request.memberId, {
+      ...data,
+      invoiceDate: new Date(invoiceDate),
+      dueDate: dueDate ? new Date(dueDate) : null,
+    });
+    await auditService.recordCreate(auditContext(request), 'TAX_INVOICE', invoice);
+
+    return sendSuccess(reply, invoice, 201);
+  }
+);
+
+// ============================================
+// Cancel Invoice
+// ============================================
+export const cancelInvoice = handle(
+  'update',
+  async (
+    request: FastifyRequest<{ Params: TaxInvoiceParams; Body: CancelTaxInvoiceInput }>,
+    reply: FastifyReply
+  ) => {
+    const existing = await taxInvoiceService.findById(request.organizationId, request.params.id);
+    if (!existing) {
+      return sendNotFound(reply, 'Invoice');
+    }
+
+    const invoice = await taxInvoiceService.cancel(
+      request.organizationId,
+      existing,
+      request.body.reason
+    );
+    await auditService.recordUpdate(auditContext(request), 'TAX_INVOICE', existing, invoice);
+
+    return sendSuccess(reply, invoice);
+  }
+);
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { GST_RATES, GSTIN_PATTERN, HSN_SAC_PATTERN, isStateCode } from '../../lib/gst';
+
+const lineSourceValues = ['BOQ_ITEM', 'STAGE', 'MANUAL'] as const;
+
+const stateCodeSchema = z.string().refine(isStateCode, 'Invalid GST state code');
+
+const gstinSchema = z
+  .string()
+  .transform((value) => value.trim().toUpperCase())
+  .refine((value) => GSTIN_PATTERN.test(value), 'Invalid GSTIN');
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const invoiceSettingsSchema = z.object({
+  gstin: gstinSchema.nullable().optional(),
+  stateCode: stateCodeSchema.nullable().optional(),
+  billingAddress: z.string().nullable().optional(),
+  invoicePrefix: z
+    .string()
+    .regex(/^[A-Z0-9-]{1,6}$/, 'Prefix may use up to 6 capital letters, digits or dashes')
+    .optional(),
+});
+
+// BOQ and stage lines take their description, unit, quantity and rate from what
+// they bill unless given; hand-entered lines need all of them
+const invoiceLineSchema = z
+  .object({
+    source: z.enum(lineSourceValues),
+    boqItemId: z.string().min(1).optional(),
+    stageId: z.string().min(1).optional(),
+    description: z.string().optional(),
+    hsnSac: z.string().regex(HSN_SAC_PATTERN, 'HSN/SAC code must be 4 to 8 digits'),
+    unit: z.string().optional(),
+    quantity: z.number().positive('Quantity must be positive').optional(),
+    rate: z.number().positive('Rate must be positive').optional(),
+    gstRate: z
+      .number()
+      .refine((rate) => (GST_RATES as readonly number[]).includes(rate), 'Invalid GST rate'),
+  })
+  .superRefine((line, ctx) => {
+    if (line.source === 'BOQ_ITEM' && !line.boqItemId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'BOQ item is required',
+        path: ['boqItemId'],
+      });
+    }
+    if (line.source === 'STAGE' && !line.stageId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Stage is required',
+        path: ['stageId'],
+      });
+    }
+  });
+
+export const createTaxInvoiceSchema = z.object({
+  projectId: z.string().min(1, 'Project is required'),
+  invoiceDate: z.string().datetime(),
+  dueDate: z.string().datetime().nullable().optional(),
+  placeOfSupply: stateCodeSchema.optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(invoiceLineSchema).min(1, 'Add at least one line'),
+});
+
+export const cancelTaxInvoiceSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required'),
+});
+
+export const taxInvoiceParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export const taxInvoiceQuerySchema = z.object({
+  format: z.enum(['json', 'pdf']).default('json'),
+});
+
+export const projectParamsSchema = z.object({
+  projectId: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type InvoiceSettingsInput = z.infer<typeof invoiceSettingsSchema>;
+export type CreateTaxInvoiceInput = z.infer<typeof createTaxInvoiceSchema>;
+export type CancelTaxInvoiceInput = z.infer<typeof cancelTaxInvoiceSchema>;
+export type TaxInvoiceParams = z.infer<typeof taxInvoiceParamsSchema>;
+export type TaxInvoiceQuery = z.infer<typeof taxInvoiceQuerySchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
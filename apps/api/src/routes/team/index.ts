@@ -1,8 +1,10 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { organizationMiddleware } from '../../middleware/organization.middleware';
 import {
-  createTeamMemberSchema,
+  organizationMiddleware,
+  requirePermission,
+} from '../../middleware/organization.middleware';
+import {
   updateTeamMemberSchema,
   teamMemberParamsSchema,
   teamMemberQuerySchema,
@@ -15,21 +17,38 @@ export default async function teamRoutes(fastify: FastifyInstance) {
   app.addHook('preHandler', organizationMiddleware);
 
   // GET /api/team - List all team members for organization
-  app.get('/', { schema: { querystring: teamMemberQuerySchema } }, controller.listTeamMembers);
+  app.get(
+    '/',
+    {
+      preHandler: [requirePermission('team.view')],
+      schema: { querystring: teamMemberQuerySchema },
+    },
+    controller.listTeamMembers
+  );
 
   // GET /api/team/:id - Get a team member by ID
-  app.get('/:id', { schema: { params: teamMemberParamsSchema } }, controller.getTeamMember);
+  app.get(
+    '/:id',
+    { preHandler: [requirePermission('team.view')], schema: { params: teamMemberParamsSchema } },
+    controller.getTeamMember
+  );
 
-  // POST /api/team - Create a new team member
-  app.post('/', { schema: { body: createTeamMemberSchema } }, controller.createTeamMember);
+  // New members join through invitations: POST /api/team/invitations
 
   // PUT /api/team/:id - Update a team member
   app.put(
     '/:id',
-    { schema: { params: teamMemberParamsSchema, body: updateTeamMemberSchema } },
+    {
+      preHandler: [requirePermission('team.manage')],
+      schema: { params: teamMemberParamsSchema, body: updateTeamMemberSchema },
+    },
     controller.updateTeamMember
   );
 
   // DELETE /api/team/:id - Remove a team member from organization
-  app.delete('/:id', { schema: { params: teamMemberParamsSchema } }, controller.deleteTeamMember);
+  app.delete(
+    '/:id',
+    { preHandler: [requirePermission('team.manage')], schema: { params: teamMemberParamsSchema } },
+    controller.deleteTeamMember
+  );
 }
@@ -1,5 +1,9 @@
 import type { FastifyReply, FastifyRequest } from 'fastify';
 import { teamRepository } from '../../repositories/team.repository';
+import { roleRepository } from '../../repositories/role.repository';
+import { resolveClientPartyId } from '../../services/client-portal.service';
+import { permissionService } from '../../services/permission.service';
+import { getRequestGrantor } from '../../middleware/organization.middleware';
 import { createErrorHandler } from '../../lib/error-handler';
 import {
   sendSuccess,
@@ -8,12 +12,7 @@ import {
   sendPaginated,
   buildPagination,
 } from '../../lib/response.utils';
-import type {
-  CreateTeamMemberInput,
-  UpdateTeamMemberInput,
-  TeamMemberParams,
-  TeamMemberQuery,
-} from './team.schema';
+import type { UpdateTeamMemberInput, TeamMemberParams, TeamMemberQuery } from './team.schema';
 
 const handle = createErrorHandler('team member');
 
@@ -54,25 +53,6 @@ export const getTeamMember = handle(
   }
 );
 
-// ============================================
-// Create Team Member
-// ============================================
-export const createTeamMember = handle(
-  'create',
-  async (request: FastifyRequest<{ Body: CreateTeamMemberInput }>, reply: FastifyReply) => {
-    const member = await teamRepository.create({
-      organizationId: request.organizationId,
-      name: request.body.name,
-      phone: request.body.phone,
-      email: request.body.email,
-      location: request.body.location,
-      roleId: request.body.roleId,
-    });
-
-    return sendSuccess(reply, member, 201);
-  }
-);
-
 // ============================================
 // Update Team Member
 // ============================================
@@ -88,12 +68,40 @@ export const updateTeamMember = handle(
       return sendNotFound(reply, 'Team member');
     }
 
+    let roleName = existing.membership.role.name;
+    if (request.body.roleId && request.body.roleId !== existing.membership.roleId) {
+      const role = await roleRepository.findById(request.body.roleId);
+      if (!role || role.organizationId !== request.organizationId) {
+        return sendNotFound(reply, 'Role');
+      }
+
+      // Neither the role given nor the one taken away may reach further than the caller's
+      const grantor = await getRequestGrantor(request);
+      const current = await roleRepository.findById(existing.membership.roleId);
+      permissionService.assertCanGrant(role, grantor);
+      if (current) permissionService.assertCanGrant(current, grantor);
+      roleName = role.name;
+    }
+
+    // Clients stay linked to the party they represent; other roles are unlinked
+    const partyId =
+      request.body.roleId || request.body.partyId !== undefined
+        ? await resolveClientPartyId(
+            request.organizationId,
+            roleName,
+            request.body.partyId === undefined
+              ? existing.membership.party?.id
+              : request.body.partyId
+          )
+        : undefined;
+
     const member = await teamRepository.update(request.organizationId, request.params.id, {
       name: request.body.name,
       phone: request.body.phone ?? undefined,
       email: request.body.email ?? undefined,
       location: request.body.location ?? undefined,
       roleId: request.body.roleId,
+      partyId,
     });
 
     return sendSuccess(reply, member);
@@ -0,0 +1,36 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  organizationMiddleware,
+  requireFullAccess,
+  requirePermission,
+} from '../../middleware/organization.middleware';
+import * as controller from './trash.controller';
+import { trashQuerySchema, trashItemParamsSchema } from './trash.schema';
+
+export default async function trashRoutes(fastify: FastifyInstance) {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  app.addHook('preHandler', organizationMiddleware);
+
+  // GET /api/trash - List deleted projects, parties, expenses and payments
+  app.get('/', {
+    preHandler: [requirePermission('trash.manage')],
+    schema: { querystring: trashQuerySchema },
+    handler: controller.listTrash,
+  });
+
+  // POST /api/trash/:entityType/:id/restore - Restore a deleted record
+  app.post('/:entityType/:id/restore', {
+    preHandler: [requirePermission('trash.manage')],
+    schema: { params: trashItemParamsSchema },
+    handler: controller.restoreTrashItem,
+  });
+
+  // DELETE /api/trash/:entityType/:id - Permanently delete (full access only, after retention)
+  app.delete('/:entityType/:id', {
+    preHandler: [requireFullAccess()],
+    schema: { params: trashItemParamsSchema },
+    handler: controller.purgeTrashItem,
+  });
+}
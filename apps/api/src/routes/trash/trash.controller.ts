@@ -0,0 +1,51 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { trashService } from '../../services/trash.service';
+import { auditContext } from '../../services/audit.service';
+import { createErrorHandler } from '../../lib/error-handler';
+import { sendPaginated, sendNoContent, buildPagination } from '../../lib/response.utils';
+import type { TrashQuery, TrashItemParams } from './trash.schema';
+
+const handle = createErrorHandler('trash item');
+
+// ============================================
+// List Trash
+// ============================================
+export const listTrash = handle(
+  'fetch',
+  async (request: FastifyRequest<{ Querystring: TrashQuery }>, reply: FastifyReply) => {
+    const { page, limit, entityType } = request.query;
+    const skip = (page - 1) * limit;
+
+    const { items, total } = await trashService.findAll(request.organizationId, {
+      entityType,
+      skip,
+      take: limit,
+    });
+
+    return sendPaginated(reply, items, buildPagination(page, limit, total));
+  }
+);
+
+// ============================================
+// Restore Item
+// ============================================
+export const restoreTrashItem = handle(
+  'update',
+  async (request: FastifyRequest<{ Params: TrashItemParams }>, reply: FastifyReply) => {
+    const { entityType, id } = request.params;
+    await trashService.restore(auditContext(request), entityType, id);
+    return sendNoContent(reply);
+  }
+);
+
+// ============================================
+// Purge Item
+// ============================================
+export const purgeTrashItem = handle(
+  'delete',
+  async (request: FastifyRequest<{ Params: TrashItemParams }>, reply: FastifyReply) => {
+    const { entityType, id } = request.params;
+    await trashService.purge(auditContext(request), entityType, id);
+    return sendNoContent(reply);
+  }
+);
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Record types that can be in the Trash
+export const trashEntityTypeEnum = z.enum(['PROJECT', 'PARTY', 'EXPENSE', 'PAYMENT']);
+
+// ============================================
+// Request Schemas
+// ============================================
+
+export const trashQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  entityType: trashEntityTypeEnum.optional(),
+});
+
+export const trashItemParamsSchema = z.object({
+  entityType: trashEntityTypeEnum,
+  id: z.string().min(1),
+});
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type TrashQuery = z.infer<typeof trashQuerySchema>;
+export type TrashItemParams = z.infer<typeof trashItemParamsSchema>;
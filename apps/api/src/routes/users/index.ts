@@ -1,55 +1,29 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import {
-  CreateUserSchema,
-  UpdateUserSchema,
-  UserIdParams,
-  UserListQuery,
-  UserByPhoneQuery,
-} from './user.schema';
-import {
-  listUsers,
-  getUser,
-  getUserByPhone,
-  createUser,
-  updateUser,
-  deleteUser,
-  getUserOrganizations,
-} from './user.controller';
-
+import { organizationMiddleware, requireSelf } from '../../middleware/organization.middleware';
+import { UpdateUserSchema, UserIdParams } from './user.schema';
+import { getUser, updateUser, getUserOrganizations } from './user.controller';
+
+/**
+ * The caller's own user account.
+ *
+ * Users are created by OTP sign-in (/api/auth) and reach an organization through
+ * invitations; the organization's people are listed through /api/team.
+ */
 export default async function userRoutes(fastify: FastifyInstance) {
   const app = fastify.withTypeProvider<ZodTypeProvider>();
 
+  app.addHook('preHandler', organizationMiddleware);
+
   // ============================================
-  // User CRUD
+  // User
   // ============================================
 
-  // GET /api/users - List all users
-  app.get(
-    '/',
-    {
-      schema: {
-        querystring: UserListQuery,
-      },
-    },
-    listUsers
-  );
-
-  // GET /api/users/by-phone - Get user by phone number
-  app.get(
-    '/by-phone',
-    {
-      schema: {
-        querystring: UserByPhoneQuery,
-      },
-    },
-    getUserByPhone
-  );
-
   // GET /api/users/:id - Get user by ID
   app.get(
     '/:id',
     {
+      preHandler: [requireSelf()],
       schema: {
         params: UserIdParams,
       },
@@ -57,21 +31,11 @@ export default async function userRoutes(fastify: FastifyInstance) {
     getUser
   );
 
-  // POST /api/users - Create user
-  app.post(
-    '/',
-    {
-      schema: {
-        body: CreateUserSchema,
-      },
-    },
-    createUser
-  );
-
   // PUT /api/users/:id - Update user
   app.put(
     '/:id',
     {
+      preHandler: [requireSelf()],
       schema: {
         params: UserIdParams,
         body: UpdateUserSchema,
@@ -80,17 +44,6 @@ export default async function userRoutes(fastify: FastifyInstance) {
     updateUser
   );
 
-  // DELETE /api/users/:id - Delete user
-  app.delete(
-    '/:id',
-    {
-      schema: {
-        params: UserIdParams,
-      },
-    },
-    deleteUser
-  );
-
   // ============================================
   // User Organizations
   // ============================================
@@ -99,6 +52,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
   app.get(
     '/:id/organizations',
     {
+      preHandler: [requireSelf()],
       schema: {
         params: UserIdParams,
       },
@@ -0,0 +1,145 @@
+// Advance Claim Service - Expenses members pay from their advance, and their settlement
+
+import type { AdvanceSettlementType, PaymentMode } from '@prisma/client';
+import { DatabaseError } from '../lib/database-errors';
+import {
+  advanceClaimRepository,
+  type AdvanceClaimWithAttachments,
+  type CreateAdvanceClaimData,
+  type UpdateAdvanceClaimData,
+} from '../repositories/advance-claim.repository';
+import { memberAdvanceRepository } from '../repositories/member-advance.repository';
+import { projectRepository } from '../repositories/project.repository';
+import { storageService } from './storage.service';
+
+export interface SettleClaimData {
+  settledById: string;
+  type: AdvanceSettlementType;
+  // Cash returned or reimbursed; defaults to the whole remaining balance
+  amount?: number;
+  paymentMode?: PaymentMode;
+  settledAt?: Date;
+  notes?: string;
+}
+
+export class AdvanceClaimService {
+  async findById(organizationId: string, id: string) {
+    return advanceClaimRepository.findById(organizationId, id);
+  }
+
+  async create(organizationId: string, data: CreateAdvanceClaimData) {
+    const project = await projectRepository.findById(organizationId, data.projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+
+    if (!(await advanceClaimRepository.memberExists(organizationId, data.memberId))) {
+      throw new DatabaseError('Team member not found', 'NOT_FOUND', 404);
+    }
+
+    return advanceClaimRepository.create(organizationId, data);
+  }
+
+  async update(
+    organizationId: string,
+    existing: AdvanceClaimWithAttachments,
+    data: UpdateAdvanceClaimData
+  ) {
+    this.assertPending(existing);
+    return advanceClaimRepository.update(organizationId, existing.id, data);
+  }
+
+  /**
+   * Delete a claim that has not been settled, and remove its bills from storage
+   */
+  async delete(organizationId: string, existing: AdvanceClaimWithAttachments) {
+    if (existing.status === 'SETTLED') {
+      throw new DatabaseError('A settled claim cannot be deleted', 'CLAIM_ALREADY_SETTLED', 400);
+    }
+
+    const attachments = await advanceClaimRepository.delete(organizationId, existing.id);
+    await Promise.all(
+      attachments.map((attachment) => storageService.deleteFile(attachment.storagePath))
+    );
+  }
+
+  /**
+   * Accept a claim against the member's cash in hand. What is left over can stay
+   * with the member, be returned, or, when the member spent beyond their advance,
+   * be reimbursed to them.
+   */
+  async settle(organizationId: string, claim: AdvanceClaimWithAttachments, data: SettleClaimData) {
+    this.assertPending(claim);
+
+    const summary = await memberAdvanceRepository.getMemberAdvanceSummary(
+      organizationId,
+      claim.projectId,
+      claim.memberId
+    );
+    const remaining = (summary?.balance ?? 0) - claim.amount.toNumber();
+
+    let cash = 0;
+    if (data.type === 'RETURNED') {
+      if (remaining <= 0) {
+        throw new DatabaseError(
+          'The member has no unused cash to return',
+          'INVALID_SETTLEMENT',
+          400
+        );
+      }
+      cash = this.settlementAmount(data.amount, remaining);
+    } else if (data.type === 'REIMBURSED') {
+      if (remaining >= 0) {
+        throw new DatabaseError(
+          "The claim is covered by the member's advance; nothing to reimburse",
+          'INVALID_SETTLEMENT',
+          400
+        );
+      }
+      cash = this.settlementAmount(data.amount, -remaining);
+    }
+
+    return advanceClaimRepository.settle(organizationId, claim, {
+      settledById: data.settledById,
+      type: data.type,
+      amount: cash,
+      paymentMode: cash > 0 ? (data.paymentMode ?? 'CASH') : undefined,
+      balanceAfter: data.type === 'RETURNED' ? remaining - cash : remaining + cash,
+      settledAt: data.settledAt ?? new Date(),
+      notes: data.notes,
+    });
+  }
+
+  async reject(organizationId: string, claim: AdvanceClaimWithAttachments, reason: string) {
+    this.assertPending(claim);
+    return advanceClaimRepository.reject(organizationId, claim.id, reason);
+  }
+
+  async getSettlements(organizationId: string, projectId: string, memberId: string) {
+    return advanceClaimRepository.findSettlements(organizationId, projectId, memberId);
+  }
+
+  private assertPending(claim: AdvanceClaimWithAttachments) {
+    if (claim.status !== 'PENDING') {
+      throw new DatabaseError(
+        `Only pending claims can be changed; this claim is ${claim.status.toLowerCase()}`,
+        'CLAIM_NOT_PENDING',
+        400
+      );
+    }
+  }
+
+  private settlementAmount(requested: number | undefined, available: number): number {
+    if (requested === undefined) return available;
+    if (requested > available) {
+      throw new DatabaseError(
+        `Settlement amount cannot exceed ${available}`,
+        'INVALID_SETTLEMENT',
+        400
+      );
+    }
+    return requested;
+  }
+}
+
+export const advanceClaimService = new AdvanceClaimService();
@@ -0,0 +1,363 @@
+/**
+ * Aging Report Service
+ *
+ * Ages what is owed to parties (payables) and by clients (receivables) across
+ * projects into 0-30, 31-60, 61-90 and 90+ day buckets. Bills age from their
+ * expense date; client installments from their due date, or the end of their
+ * stage when linked to one. Rows group by party or by project and drill down to
+ * the underlying documents, and both export as CSV.
+ */
+
+import { toCsv } from '../lib/csv';
+import {
+  reportRepository,
+  type ReportInstallment,
+  type ReportScope,
+} from '../repositories/report.repository';
+import { contractAmount, installmentAmount, isDue } from './installment.service';
+
+// ============================================
+// Types
+// ============================================
+
+export type AgingKind = 'payables' | 'receivables';
+export type AgingGroupBy = 'party' | 'project';
+export type AgingBucket = 'days0to30' | 'days31to60' | 'days61to90' | 'over90';
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+export interface AgingRow extends AgingBuckets {
+  /** Party or project ID; null for projects without a client */
+  id: string | null;
+  name: string;
+  /** Open documents behind the row */
+  documents: number;
+  total: number;
+  /** Payments or receipts not yet applied to a document */
+  unappliedCredit: number;
+  /** Outstanding after unapplied credit */
+  net: number;
+}
+
+export interface AgingReport {
+  kind: AgingKind;
+  groupBy: AgingGroupBy;
+  asOf: Date;
+  rows: AgingRow[];
+  totals: Omit<AgingRow, 'id' | 'name'>;
+}
+
+export interface AgingItem {
+  id: string;
+  type: 'EXPENSE' | 'INSTALLMENT';
+  /** Expense date, or the date an installment fell due */
+  date: Date;
+  description: string;
+  party: { id: string; name: string } | null;
+  project: { id: string; name: string };
+  amount: number;
+  settled: number;
+  outstanding: number;
+  ageDays: number;
+  bucket: AgingBucket;
+}
+
+export interface AgingItemsResult {
+  kind: AgingKind;
+  asOf: Date;
+  items: AgingItem[];
+  total: number;
+}
+
+export interface AgingItemsFilter {
+  partyId?: string;
+  projectId?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  days0to30: '0-30 days',
+  days31to60: '31-60 days',
+  days61to90: '61-90 days',
+  over90: '90+ days',
+};
+
+const BUCKETS = Object.keys(BUCKET_LABELS) as AgingBucket[];
+
+// ============================================
+// Helpers
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function ageInDays(date: Date, asOf: Date): number {
+  return Math.max(
+    0,
+    Math.round((startOfDay(asOf).getTime() - startOfDay(date).getTime()) / DAY_MS)
+  );
+}
+
+function bucketFor(ageDays: number): AgingBucket {
+  if (ageDays <= 30) return 'days0to30';
+  if (ageDays <= 60) return 'days31to60';
+  if (ageDays <= 90) return 'days61to90';
+  return 'over90';
+}
+
+function emptyBuckets(): AgingBuckets {
+  return { days0to30: 0, days31to60: 0, days61to90: 0, over90: 0 };
+}
+
+/**
+ * When an installment fell due: its due date, else the end of its stage, else
+ * when it was added to the schedule
+ */
+function installmentDueDate(installment: ReportInstallment): Date {
+  return installment.dueDate ?? installment.stage?.endDate ?? installment.createdAt;
+}
+
+function scopeFor(projectIds: string[] | undefined, filter: AgingItemsFilter = {}): ReportScope {
+  return { projectIds, projectId: filter.projectId, partyId: filter.partyId };
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class AgingReportService {
+  /**
+   * Outstanding bills or installments aged into buckets, one row per party or project
+   *
+   * @param projectIds - limits the report to these projects, for project-scoped roles
+   */
+  async getReport(
+    organizationId: string,
+    kind: AgingKind,
+    groupBy: AgingGroupBy,
+    projectIds?: string[]
+  ): Promise<AgingReport> {
+    const asOf = new Date();
+    const scope = scopeFor(projectIds);
+
+    const [items, credits] = await Promise.all([
+      this.findItems(organizationId, kind, scope, asOf),
+      kind === 'payables'
+        ? reportRepository.findPayableCredits(organizationId, scope)
+        : reportRepository
+            .findReceivableCredits(organizationId, scope)
+            .then((receipts) =>
+              receipts.map((receipt) => ({ ...receipt, partyId: receipt.clientId }))
+            ),
+    ]);
+
+    const rows = new Map<string, AgingRow>();
+    const rowFor = (id: string | null, name: string) => {
+      const key = id ?? '';
+      let row = rows.get(key);
+      if (!row) {
+        row = { id, name, ...emptyBuckets(), documents: 0, total: 0, unappliedCredit: 0, net: 0 };
+        rows.set(key, row);
+      }
+      return row;
+    };
+
+    for (const item of items) {
+      const row =
+        groupBy === 'project'
+          ? rowFor(item.project.id, item.project.name)
+          : rowFor(item.party?.id ?? null, item.party?.name ?? 'No client');
+      row[item.bucket] += item.outstanding;
+      row.total += item.outstanding;
+      row.documents += 1;
+    }
+
+    // Credit-only parties and projects still get a row, so look up names we have not seen
+    const names = await reportRepository.findNames(
+      organizationId,
+      credits.map((credit) => credit.projectId),
+      credits.flatMap((credit) => (credit.partyId ? [credit.partyId] : []))
+    );
+    for (const credit of credits) {
+      const row =
+        groupBy === 'project'
+          ? rowFor(credit.projectId, names.projects.get(credit.projectId) ?? 'Unknown project')
+          : rowFor(
+              credit.partyId,
+              credit.partyId ? (names.parties.get(credit.partyId) ?? 'Unknown party') : 'No client'
+            );
+      row.unappliedCredit += credit.amount;
+    }
+
+    const totals = { ...emptyBuckets(), documents: 0, total: 0, unappliedCredit: 0, net: 0 };
+    const result = Array.from(rows.values())
+      .map((row) => {
+        for (const bucket of BUCKETS) row[bucket] = roundMoney(row[bucket]);
+        row.total = roundMoney(row.total);
+        row.unappliedCredit = roundMoney(row.unappliedCredit);
+        row.net = roundMoney(row.total - row.unappliedCredit);
+        return row;
+      })
+      .filter((row) => row.total !== 0 || row.unappliedCredit !== 0)
+      .sort((a, b) => b.net - a.net || a.name.localeCompare(b.name));
+
+    for (const row of result) {
+      for (const bucket of BUCKETS) totals[bucket] = roundMoney(totals[bucket] + row[bucket]);
+      totals.documents += row.documents;
+      totals.total = roundMoney(totals.total + row.total);
+      totals.unappliedCredit = roundMoney(totals.unappliedCredit + row.unappliedCredit);
+      totals.net = roundMoney(totals.net + row.net);
+    }
+
+    return { kind, groupBy, asOf, rows: result, totals };
+  }
+
+  /**
+   * Open bills or installments behind a report row, oldest first
+   */
+  async getItems(
+    organizationId: string,
+    kind: AgingKind,
+    filter: AgingItemsFilter,
+    projectIds?: string[]
+  ): Promise<AgingItemsResult> {
+    const asOf = new Date();
+    const items = await this.findItems(organizationId, kind, scopeFor(projectIds, filter), asOf);
+    const total = roundMoney(items.reduce((sum, item) => sum + item.outstanding, 0));
+
+    return { kind, asOf, items, total };
+  }
+
+  reportToCsv(report: AgingReport): string {
+    const groupLabel = report.groupBy === 'party' ? 'Party' : 'Project';
+    return toCsv([
+      [groupLabel, ...BUCKETS.map((b) => BUCKET_LABELS[b]), 'Total', 'Unapplied credit', 'Net'],
+      ...report.rows.map((row) => [
+        row.name,
+        ...BUCKETS.map((b) => row[b]),
+        row.total,
+        row.unappliedCredit,
+        row.net,
+      ]),
+      [
+        'Total',
+        ...BUCKETS.map((b) => report.totals[b]),
+        report.totals.total,
+        report.totals.unappliedCredit,
+        report.totals.net,
+      ],
+    ]);
+  }
+
+  itemsToCsv(result: AgingItemsResult): string {
+    const partyLabel = result.kind === 'payables' ? 'Party' : 'Client';
+    return toCsv([
+      [
+        'Date',
+        'Description',
+        partyLabel,
+        'Project',
+        'Amount',
+        'Settled',
+        'Outstanding',
+        'Age (days)',
+        'Bucket',
+      ],
+      ...result.items.map((item) => [
+        item.date.toISOString().slice(0, 10),
+        item.description,
+        item.party?.name ?? '',
+        item.project.name,
+        item.amount,
+        item.settled,
+        item.outstanding,
+        item.ageDays,
+        BUCKET_LABELS[item.bucket],
+      ]),
+    ]);
+  }
+
+  // Outstanding documents of either side, oldest first
+  private async findItems(
+    organizationId: string,
+    kind: AgingKind,
+    scope: ReportScope,
+    asOf: Date
+  ): Promise<AgingItem[]> {
+    const items =
+      kind === 'payables'
+        ? await this.findBillItems(organizationId, scope, asOf)
+        : await this.findInstallmentItems(organizationId, scope, asOf);
+
+    return items
+      .filter((item) => item.outstanding > 0)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private async findBillItems(
+    organizationId: string,
+    scope: ReportScope,
+    asOf: Date
+  ): Promise<AgingItem[]> {
+    const bills = await reportRepository.findBills(organizationId, scope);
+
+    return bills.map((bill) => {
+      const ageDays = ageInDays(bill.date, asOf);
+      return {
+        ...bill,
+        type: 'EXPENSE' as const,
+        outstanding: roundMoney(bill.amount - bill.settled),
+        ageDays,
+        bucket: bucketFor(ageDays),
+      };
+    });
+  }
+
+  // Only installments that have fallen due are receivable
+  private async findInstallmentItems(
+    organizationId: string,
+    scope: ReportScope,
+    asOf: Date
+  ): Promise<AgingItem[]> {
+    const installments = await reportRepository.findInstallments(organizationId, scope);
+
+    return installments
+      .filter((installment) => isDue(installment, asOf))
+      .map((installment) => {
+        const amount = installmentAmount(installment, contractAmount(installment.project));
+        const settled = roundMoney(
+          installment.allocations.reduce((sum, a) => sum + a.amount.toNumber(), 0)
+        );
+        const date = installmentDueDate(installment);
+        const ageDays = ageInDays(date, asOf);
+
+        return {
+          id: installment.id,
+          type: 'INSTALLMENT' as const,
+          date,
+          description: installment.name,
+          party: installment.project.client,
+          project: { id: installment.project.id, name: installment.project.name },
+          amount,
+          settled,
+          outstanding: roundMoney(amount - settled),
+          ageDays,
+          bucket: bucketFor(ageDays),
+        };
+      });
+  }
+}
+
+export const agingReportService = new AgingReportService();
@@ -0,0 +1,215 @@
+import type { FastifyRequest } from 'fastify';
+import type { AuditEntityType, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { auditRepository, type AuditLogListOptions } from '../repositories/audit.repository';
+
+/**
+ * Who is making the change and in which organization
+ */
+export interface AuditContext {
+  organizationId: string;
+  memberId: string | null;
+}
+
+type SnapshotValue = string | number | boolean | Array<string | number | boolean> | null;
+type Snapshot = Record<string, SnapshotValue>;
+
+interface AuditableRecord {
+  id: string;
+}
+
+// Bookkeeping columns that never explain a change (trash state is the action itself)
+const IGNORED_FIELDS = new Set([
+  'organizationId',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+  'deletedById',
+]);
+
+/**
+ * Build the audit context from an organization-scoped request
+ */
+export function auditContext(request: FastifyRequest): AuditContext {
+  return { organizationId: request.organizationId, memberId: request.memberId };
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Reduce a record to its own columns as JSON values.
+ * Included relations are dropped; dates and decimals become strings, and lists of
+ * plain values (e.g. a role's permission keys) are kept.
+ */
+function toSnapshot(record: object): Snapshot {
+  const snapshot: Snapshot = {};
+
+  for (const [field, value] of Object.entries(record)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    if (value === null || value === undefined) {
+      snapshot[field] = null;
+    } else if (value instanceof Date) {
+      snapshot[field] = value.toISOString();
+    } else if (Decimal.isDecimal(value)) {
+      snapshot[field] = value.toString();
+    } else if (isPrimitive(value)) {
+      snapshot[field] = value;
+    } else if (Array.isArray(value) && value.every(isPrimitive)) {
+      snapshot[field] = value;
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Keep only the fields whose values differ between two snapshots
+ */
+function diffSnapshots(before: Snapshot, after: Snapshot): { before: Snapshot; after: Snapshot } {
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changedBefore[field] = from;
+      changedAfter[field] = to;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Audit Service
+ *
+ * Appends one audit entry per mutation. Controllers call it after the change succeeds,
+ * passing the record as it was before (updates, deletes) and after (creates, updates).
+ * Passing `tx` writes the entry inside the transaction making the change.
+ */
+export class AuditService {
+  async recordCreate(
+    ctx: AuditContext,
+    entityType: AuditEntityType,
+    record: AuditableRecord,
+    tx?: Prisma.TransactionClient
+  ) {
+    await auditRepository.create(
+      ctx.organizationId,
+      {
+        actorMemberId: ctx.memberId,
+        entityType,
+        entityId: record.id,
+        action: 'CREATE',
+        after: toSnapshot(record),
+      },
+      tx
+    );
+  }
+
+  /**
+   * Record records created together, such as an import, with one entry each
+   */
+  async recordCreateMany(
+    ctx: AuditContext,
+    entityType: AuditEntityType,
+    records: AuditableRecord[],
+    tx?: Prisma.TransactionClient
+  ) {
+    if (records.length === 0) {
+      return;
+    }
+
+    await auditRepository.createMany(
+      ctx.organizationId,
+      records.map((record) => ({
+        actorMemberId: ctx.memberId,
+        entityType,
+        entityId: record.id,
+        action: 'CREATE' as const,
+        after: toSnapshot(record),
+      })),
+      tx
+    );
+  }
+
+  /**
+   * Record an update; nothing is written when no column actually changed
+   */
+  async recordUpdate(
+    ctx: AuditContext,
+    entityType: AuditEntityType,
+    before: AuditableRecord,
+    after: AuditableRecord,
+    tx?: Prisma.TransactionClient
+  ) {
+    const diff = diffSnapshots(toSnapshot(before), toSnapshot(after));
+
+    if (Object.keys(diff.after).length === 0) {
+      return;
+    }
+
+    await auditRepository.create(
+      ctx.organizationId,
+      {
+        actorMemberId: ctx.memberId,
+        entityType,
+        entityId: after.id,
+        action: 'UPDATE',
+        before: diff.before,
+        after: diff.after,
+      },
+      tx
+    );
+  }
+
+  async recordDelete(
+    ctx: AuditContext,
+    entityType: AuditEntityType,
+    record: AuditableRecord,
+    tx?: Prisma.TransactionClient
+  ) {
+    await auditRepository.create(
+      ctx.organizationId,
+      {
+        actorMemberId: ctx.memberId,
+        entityType,
+        entityId: record.id,
+        action: 'DELETE',
+        before: toSnapshot(record),
+      },
+      tx
+    );
+  }
+
+  async recordRestore(ctx: AuditContext, entityType: AuditEntityType, record: AuditableRecord) {
+    await auditRepository.create(ctx.organizationId, {
+      actorMemberId: ctx.memberId,
+      entityType,
+      entityId: record.id,
+      action: 'RESTORE',
+      after: toSnapshot(record),
+    });
+  }
+
+  async recordPurge(ctx: AuditContext, entityType: AuditEntityType, record: AuditableRecord) {
+    await auditRepository.create(ctx.organizationId, {
+      actorMemberId: ctx.memberId,
+      entityType,
+      entityId: record.id,
+      action: 'PURGE',
+      before: toSnapshot(record),
+    });
+  }
+
+  async findAll(organizationId: string, options?: AuditLogListOptions) {
+    return auditRepository.findAll(organizationId, options);
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,451 @@
+/**
+ * BOQ Version Service
+ *
+ * BOQ items are edited in place, by hand, by import and by approved change
+ * orders. A version is a named copy of the BOQ as it stood (tender, contract,
+ * revised-1...); one is the project's baseline. Two versions, or a version and
+ * the live BOQ, are compared item by item: items are matched on the live item
+ * they were copied from, so a renamed or re-sectioned item still lines up.
+ */
+
+import ExcelJS from 'exceljs';
+import type { BOQCategory, BOQVersion } from '@prisma/client';
+import { DatabaseError } from '../lib/database-errors';
+import type { AuditHook } from '../repositories/audit.repository';
+import {
+  boqVersionRepository,
+  type BOQVersionItemData,
+  type BOQVersionWithCreator,
+  type BOQVersionWithItems,
+} from '../repositories/boq-version.repository';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CreateBOQVersionInput {
+  projectId: string;
+  name: string;
+  notes?: string | null;
+  isBaseline?: boolean;
+  createdById?: string | null;
+}
+
+// The live BOQ, when comparing against it
+export const CURRENT_BOQ = 'current';
+
+type DiffChange = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+interface DiffGroup {
+  name: string;
+  fromAmount: number;
+  toAmount: number;
+  amountDelta: number;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const BRAND = 'Worksite';
+
+const CATEGORY_LABELS: Record<BOQCategory, string> = {
+  MATERIAL: 'Material',
+  LABOUR: 'Labour',
+  SUB_WORK: 'Sub Work',
+  EQUIPMENT: 'Equipment',
+  OTHER: 'Other',
+};
+
+const NO_SECTION = 'No section';
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function fileNamePart(value: string): string {
+  return value.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function versionItems(version: BOQVersionWithItems): BOQVersionItemData[] {
+  return version.items.map((item) => ({
+    boqItemId: item.boqItemId,
+    sectionName: item.sectionName,
+    stageName: item.stageName,
+    code: item.code,
+    category: item.category,
+    description: item.description,
+    unit: item.unit,
+    quantity: item.quantity.toNumber(),
+    rate: item.rate.toNumber(),
+    amount: item.amount.toNumber(),
+  }));
+}
+
+function summarize(version: { id: string; name: string; isBaseline: boolean; createdAt: Date }) {
+  return {
+    id: version.id,
+    name: version.name,
+    isBaseline: version.isBaseline,
+    createdAt: version.createdAt,
+  };
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class BOQVersionService {
+  async findByProject(organizationId: string, projectId: string) {
+    await this.getProject(organizationId, projectId);
+    return boqVersionRepository.findByProject(organizationId, projectId);
+  }
+
+  async findById(organizationId: string, projectId: string, id: string) {
+    return boqVersionRepository.findById(organizationId, projectId, id);
+  }
+
+  /**
+   * Save the live BOQ as a named version. The project's first version is its
+   * baseline unless another is marked.
+   */
+  async create(
+    organizationId: string,
+    input: CreateBOQVersionInput,
+    audit?: AuditHook<BOQVersionWithCreator>
+  ) {
+    await this.getProject(organizationId, input.projectId);
+    await this.assertNameAvailable(input.projectId, input.name);
+
+    const items = await this.liveItems(organizationId, input.projectId);
+    if (items.length === 0) {
+      throw new DatabaseError('The BOQ has no items to save', 'EMPTY_BOQ', 400);
+    }
+
+    const isBaseline =
+      input.isBaseline ?? !(await boqVersionRepository.hasBaseline(input.projectId));
+
+    return boqVersionRepository.create(
+      organizationId,
+      {
+        projectId: input.projectId,
+        name: input.name,
+        notes: input.notes,
+        isBaseline,
+        totalAmount: roundMoney(items.reduce((sum, item) => sum + item.amount, 0)),
+        createdById: input.createdById,
+        items,
+      },
+      audit
+    );
+  }
+
+  async assertNameAvailable(projectId: string, name: string) {
+    if (await boqVersionRepository.findByName(projectId, name)) {
+      throw new DatabaseError(
+        `A version named "${name}" already exists`,
+        'DUPLICATE_VERSION_NAME',
+        409
+      );
+    }
+  }
+
+  async setBaseline(
+    organizationId: string,
+    projectId: string,
+    id: string,
+    audit?: AuditHook<BOQVersionWithCreator>
+  ) {
+    return boqVersionRepository.setBaseline(organizationId, projectId, id, audit);
+  }
+
+  async delete(
+    organizationId: string,
+    version: { id: string; isBaseline: boolean },
+    audit?: AuditHook<BOQVersion>
+  ) {
+    if (version.isBaseline) {
+      throw new DatabaseError(
+        'Mark another version as the baseline before deleting this one',
+        'BASELINE_VERSION',
+        400
+      );
+    }
+    await boqVersionRepository.delete(organizationId, version.id, audit);
+  }
+
+  /**
+   * Compare two versions, or a version with the live BOQ. Without a `from`
+   * version the baseline is used.
+   */
+  async compare(organizationId: string, projectId: string, fromId?: string, toId?: string) {
+    await this.getProject(organizationId, projectId);
+
+    const from = fromId
+      ? await boqVersionRepository.findById(organizationId, projectId, fromId)
+      : await boqVersionRepository.findBaseline(organizationId, projectId);
+    if (!from) {
+      throw fromId
+        ? new DatabaseError('BOQ version not found', 'NOT_FOUND', 404)
+        : new DatabaseError(
+            'Mark a version as the baseline to compare against',
+            'NO_BASELINE',
+            400
+          );
+    }
+
+    let to: ReturnType<typeof summarize> | null = null;
+    let toItems: BOQVersionItemData[];
+    if (!toId || toId === CURRENT_BOQ) {
+      toItems = await this.liveItems(organizationId, projectId);
+    } else {
+      const version = await boqVersionRepository.findById(organizationId, projectId, toId);
+      if (!version) {
+        throw new DatabaseError('BOQ version not found', 'NOT_FOUND', 404);
+      }
+      to = summarize(version);
+      toItems = versionItems(version);
+    }
+
+    return {
+      from: summarize(from),
+      // Null for the live BOQ
+      to,
+      ...this.diff(versionItems(from), toItems),
+    };
+  }
+
+  /**
+   * A version as an Excel file named for the project and version
+   */
+  async export(organizationId: string, version: BOQVersionWithItems) {
+    const project = await this.getProject(organizationId, version.projectId);
+    return {
+      file: await this.toXlsx(version, project.name),
+      fileName: `${fileNamePart(project.name)}-BOQ-${fileNamePart(version.name)}.xlsx`,
+    };
+  }
+
+  /**
+   * A version as an Excel workbook, items grouped by section with subtotals
+   */
+  async toXlsx(version: BOQVersionWithItems, projectName: string): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = BRAND;
+    workbook.created = version.createdAt;
+
+    const sheet = workbook.addWorksheet('BOQ');
+    sheet.columns = [
+      { key: 'code', width: 14 },
+      { key: 'description', width: 52 },
+      { key: 'category', width: 12 },
+      { key: 'unit', width: 8 },
+      { key: 'quantity', width: 12 },
+      { key: 'rate', width: 14 },
+      { key: 'amount', width: 16 },
+    ];
+
+    sheet.addRow([projectName]).font = { bold: true, size: 14 };
+    sheet.addRow([`Bill of Quantities · ${version.name}`]).font = { color: { argb: 'FF666666' } };
+    if (version.notes) sheet.addRow([version.notes]);
+    sheet.addRow([]);
+
+    const header = sheet.addRow([
+      'Code',
+      'Description',
+      'Category',
+      'Unit',
+      'Qty',
+      'Rate',
+      'Amount',
+    ]);
+    header.font = { bold: true };
+    header.eachCell((cell) => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFEFEFEF' } };
+    });
+
+    const sections = new Map<string, BOQVersionWithItems['items']>();
+    for (const item of version.items) {
+      const name = item.sectionName ?? NO_SECTION;
+      sections.set(name, [...(sections.get(name) ?? []), item]);
+    }
+
+    for (const [name, items] of sections) {
+      sheet.addRow({ description: name }).font = { bold: true };
+      for (const item of items) {
+        sheet.addRow({
+          code: item.code ?? '',
+          description: item.description,
+          category: CATEGORY_LABELS[item.category],
+          unit: item.unit,
+          quantity: item.quantity.toNumber(),
+          rate: item.rate.toNumber(),
+          amount: item.amount.toNumber(),
+        });
+      }
+      sheet.addRow({
+        description: `Total ${name}`,
+        amount: roundMoney(items.reduce((sum, item) => sum + item.amount.toNumber(), 0)),
+      }).font = { italic: true };
+    }
+
+    sheet.addRow({ description: 'Grand total', amount: version.totalAmount.toNumber() }).font = {
+      bold: true,
+    };
+
+    sheet.getColumn('quantity').numFmt = '#,##0.####';
+    for (const key of ['rate', 'amount']) {
+      sheet.getColumn(key).numFmt = '#,##0.00';
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await boqVersionRepository.findProject(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  private async liveItems(organizationId: string, projectId: string) {
+    const items = await boqVersionRepository.findLiveItems(organizationId, projectId);
+    return items.map((item) => ({
+      boqItemId: item.id,
+      sectionName: item.section?.name ?? null,
+      stageName: item.stage?.name ?? null,
+      code: item.code,
+      category: item.category,
+      description: item.description,
+      unit: item.unit,
+      quantity: item.quantity.toNumber(),
+      rate: item.rate.toNumber(),
+      amount: roundMoney(item.quantity.toNumber() * item.rate.toNumber()),
+    }));
+  }
+
+  /**
+   * Items added, removed and changed between two BOQs, with totals for each
+   * section and category. An item counts toward the section and category it is
+   * in on each side.
+   */
+  private diff(fromItems: BOQVersionItemData[], toItems: BOQVersionItemData[]) {
+    const fromById = new Map(fromItems.map((item) => [item.boqItemId, item]));
+    const toById = new Map(toItems.map((item) => [item.boqItemId, item]));
+
+    const sections = new Map<string, DiffGroup>();
+    const categories = new Map<string, DiffGroup>();
+    const group = (groups: Map<string, DiffGroup>, name: string) => {
+      let entry = groups.get(name);
+      if (!entry) {
+        entry = {
+          name,
+          fromAmount: 0,
+          toAmount: 0,
+          amountDelta: 0,
+          added: 0,
+          removed: 0,
+          changed: 0,
+        };
+        groups.set(name, entry);
+      }
+      return entry;
+    };
+    const tally = (item: BOQVersionItemData, side: 'fromAmount' | 'toAmount') => {
+      group(sections, item.sectionName ?? NO_SECTION)[side] += item.amount;
+      group(categories, item.category)[side] += item.amount;
+    };
+    const count = (item: BOQVersionItemData, change: DiffChange) => {
+      const key = change === 'ADDED' ? 'added' : change === 'REMOVED' ? 'removed' : 'changed';
+      group(sections, item.sectionName ?? NO_SECTION)[key] += 1;
+      group(categories, item.category)[key] += 1;
+    };
+
+    fromItems.forEach((item) => tally(item, 'fromAmount'));
+    toItems.forEach((item) => tally(item, 'toAmount'));
+
+    const items: Array<{
+      change: DiffChange;
+      boqItemId: string;
+      from: BOQVersionItemData | null;
+      to: BOQVersionItemData | null;
+      quantityDelta: number;
+      amountDelta: number;
+    }> = [];
+
+    for (const to of toItems) {
+      const from = fromById.get(to.boqItemId) ?? null;
+      const isChanged =
+        !!from &&
+        (from.quantity !== to.quantity ||
+          from.rate !== to.rate ||
+          from.description !== to.description ||
+          from.unit !== to.unit ||
+          from.category !== to.category ||
+          from.sectionName !== to.sectionName);
+      if (from && !isChanged) continue;
+
+      const change: DiffChange = from ? 'CHANGED' : 'ADDED';
+      count(to, change);
+      items.push({
+        change,
+        boqItemId: to.boqItemId,
+        from,
+        to,
+        quantityDelta: roundQuantity(to.quantity - (from?.quantity ?? 0)),
+        amountDelta: roundMoney(to.amount - (from?.amount ?? 0)),
+      });
+    }
+    for (const from of fromItems) {
+      if (toById.has(from.boqItemId)) continue;
+      count(from, 'REMOVED');
+      items.push({
+        change: 'REMOVED',
+        boqItemId: from.boqItemId,
+        from,
+        to: null,
+        quantityDelta: roundQuantity(-from.quantity),
+        amountDelta: roundMoney(-from.amount),
+      });
+    }
+
+    const finish = (groups: Map<string, DiffGroup>) =>
+      [...groups.values()].map((entry) => ({
+        ...entry,
+        fromAmount: roundMoney(entry.fromAmount),
+        toAmount: roundMoney(entry.toAmount),
+        amountDelta: roundMoney(entry.toAmount - entry.fromAmount),
+      }));
+
+    const fromAmount = roundMoney(fromItems.reduce((sum, item) => sum + item.amount, 0));
+    const toAmount = roundMoney(toItems.reduce((sum, item) => sum + item.amount, 0));
+
+    return {
+      items,
+      sections: finish(sections),
+      categories: finish(categories),
+      totals: {
+        fromAmount,
+        toAmount,
+        amountDelta: roundMoney(toAmount - fromAmount),
+        added: items.filter((item) => item.change === 'ADDED').length,
+        removed: items.filter((item) => item.change === 'REMOVED').length,
+        changed: items.filter((item) => item.change === 'CHANGED').length,
+      },
+    };
+  }
+}
+
+export const boqVersionService = new BOQVersionService();
@@ -0,0 +1,291 @@
+/**
+ * Change Order Service
+ *
+ * A change order (variation) revises the client contract: it adds BOQ items,
+ * gives existing ones a new quantity or rate, or omits them. Each line is priced
+ * against the BOQ as it stands when the change order is drafted, and the sum is
+ * the change to the contract value. A draft is sent to the client; once they
+ * approve it, the BOQ and the contract value are revised, and with them the
+ * revenue on the P&L and what percentage installments bill. Revised items keep
+ * the quantity and rate first quoted, so the original BOQ stays comparable.
+ */
+
+import type { BOQCategory } from '@prisma/client';
+import { DatabaseError } from '../lib/database-errors';
+import {
+  changeOrderRepository,
+  type ChangeOrderLineData,
+  type ChangeOrderWithLines,
+  type ClientDecisionData,
+} from '../repositories/change-order.repository';
+import { installmentService } from './installment.service';
+
+// ============================================
+// Types
+// ============================================
+
+export type ChangeOrderLineInput =
+  | {
+      action: 'ADD';
+      sectionId?: string | null;
+      stageId?: string | null;
+      category: BOQCategory;
+      description: string;
+      unit: string;
+      quantity: number;
+      rate: number;
+    }
+  | { action: 'MODIFY'; boqItemId: string; quantity: number; rate: number }
+  | { action: 'REMOVE'; boqItemId: string };
+
+export interface ChangeOrderInput {
+  projectId: string;
+  title: string;
+  description?: string | null;
+  raisedDate: Date;
+  costImpact: number;
+  createdById?: string | null;
+  lines: ChangeOrderLineInput[];
+}
+
+export type UpdateChangeOrderInput = Partial<Omit<ChangeOrderInput, 'projectId' | 'createdById'>>;
+
+// ============================================
+// Helpers
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const amountOf = (quantity: number, rate: number) => roundMoney(quantity * rate);
+
+// ============================================
+// Service
+// ============================================
+
+export class ChangeOrderService {
+  /**
+   * A project's change orders, with the contract value they revise and the BOQ
+   * items approved ones changed
+   */
+  async getProjectChangeOrders(organizationId: string, projectId: string) {
+    const project = await this.getProject(organizationId, projectId);
+    const [changeOrders, revisedItems] = await Promise.all([
+      changeOrderRepository.findByProject(organizationId, projectId),
+      changeOrderRepository.findRevisedItems(organizationId, projectId),
+    ]);
+
+    const sum = (orders: ChangeOrderWithLines[], amount: (order: ChangeOrderWithLines) => number) =>
+      roundMoney(orders.reduce((total, order) => total + amount(order), 0));
+    const approved = changeOrders.filter((order) => order.status === 'APPROVED');
+    const submitted = changeOrders.filter((order) => order.status === 'SUBMITTED');
+    const originalAmount = project.amount?.toNumber() ?? 0;
+
+    return {
+      changeOrders,
+      revisedItems: revisedItems.map((item) => {
+        const originalQuantity = item.changeOrder
+          ? 0
+          : (item.originalQuantity ?? item.quantity).toNumber();
+        const originalRate = item.changeOrder ? 0 : (item.originalRate ?? item.rate).toNumber();
+        const originalAmountOfItem = amountOf(originalQuantity, originalRate);
+        const amount = amountOf(item.quantity.toNumber(), item.rate.toNumber());
+
+        return {
+          ...item,
+          originalQuantity,
+          originalRate,
+          originalAmount: originalAmountOfItem,
+          amount,
+          difference: roundMoney(amount - originalAmountOfItem),
+        };
+      }),
+      summary: {
+        originalAmount,
+        approvedAmount: project.variationAmount.toNumber(),
+        contractAmount: roundMoney(originalAmount + project.variationAmount.toNumber()),
+        // Waiting on the client
+        pendingAmount: sum(submitted, (order) => order.priceImpact.toNumber()),
+        approvedCost: sum(approved, (order) => order.costImpact.toNumber()),
+      },
+    };
+  }
+
+  async findById(organizationId: string, id: string) {
+    return changeOrderRepository.findById(organizationId, id);
+  }
+
+  /**
+   * Draft a change order, priced against the BOQ as it stands
+   */
+  async create(organizationId: string, input: ChangeOrderInput) {
+    await this.getProject(organizationId, input.projectId);
+    const lines = await this.priceLines(input.projectId, input.lines);
+
+    return changeOrderRepository.create(organizationId, { ...input, lines });
+  }
+
+  /**
+   * Change a draft. Given lines are priced again against the current BOQ.
+   */
+  async update(
+    organizationId: string,
+    existing: ChangeOrderWithLines,
+    input: UpdateChangeOrderInput
+  ) {
+    this.assertStatus(existing, 'DRAFT', 'Only a draft change order can be edited');
+    const { lines, ...fields } = input;
+
+    return changeOrderRepository.update(organizationId, existing.id, {
+      ...fields,
+      ...(lines && { lines: await this.priceLines(existing.projectId, lines) }),
+    });
+  }
+
+  /**
+   * Send a draft to the client for approval; it can no longer be edited
+   */
+  async submit(organizationId: string, existing: ChangeOrderWithLines) {
+    this.assertStatus(existing, 'DRAFT', 'Only a draft change order can be sent to the client');
+    return changeOrderRepository.setStatus(organizationId, existing.id, ['DRAFT'], {
+      status: 'SUBMITTED',
+      submittedAt: new Date(),
+    });
+  }
+
+  /**
+   * Record the client's approval: the BOQ and contract value are revised, and
+   * receipts held on account are set against what the schedule now bills
+   */
+  async approve(organizationId: string, existing: ChangeOrderWithLines, data: ClientDecisionData) {
+    this.assertStatus(existing, 'SUBMITTED', 'The change order is not waiting on the client');
+
+    const order = await changeOrderRepository.approve(organizationId, existing, data);
+    await installmentService.reviseContract(organizationId, order.projectId);
+
+    return order;
+  }
+
+  /**
+   * Record the client turning a change order down; the BOQ is left as it is
+   */
+  async reject(
+    organizationId: string,
+    existing: ChangeOrderWithLines,
+    data: ClientDecisionData & { reason: string }
+  ) {
+    this.assertStatus(existing, 'SUBMITTED', 'The change order is not waiting on the client');
+    return changeOrderRepository.setStatus(organizationId, existing.id, ['SUBMITTED'], {
+      status: 'REJECTED',
+      decidedAt: data.decidedAt,
+      clientReference: data.clientReference ?? null,
+      rejectionReason: data.reason,
+    });
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  private assertStatus(order: ChangeOrderWithLines, status: string, message: string) {
+    if (order.status !== status) {
+      throw new DatabaseError(message, 'CHANGE_ORDER_STATUS', 400);
+    }
+  }
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await changeOrderRepository.findProject(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  /**
+   * Price each line against the project's BOQ: an added item is worth its
+   * quantity at its rate, a modified or removed one the difference from what
+   * the BOQ has now
+   */
+  private async priceLines(
+    projectId: string,
+    lines: ChangeOrderLineInput[]
+  ): Promise<ChangeOrderLineData[]> {
+    const boqItemIds = lines.flatMap((line) => (line.action === 'ADD' ? [] : [line.boqItemId]));
+    if (new Set(boqItemIds).size !== boqItemIds.length) {
+      throw new DatabaseError(
+        'A BOQ item is changed once on a change order',
+        'DUPLICATE_BOQ_ITEM',
+        400
+      );
+    }
+
+    const items = await changeOrderRepository.findBoqItems(projectId, boqItemIds);
+    if (items.length !== boqItemIds.length) {
+      throw new DatabaseError('BOQ item not found in this project', 'NOT_FOUND', 404);
+    }
+    await this.checkPlacement(projectId, lines);
+
+    return lines.map((line) => {
+      if (line.action === 'ADD') {
+        return {
+          ...line,
+          previousQuantity: 0,
+          previousRate: 0,
+          amount: amountOf(line.quantity, line.rate),
+        };
+      }
+
+      const item = items.find((boqItem) => boqItem.id === line.boqItemId)!;
+      const previousQuantity = item.quantity.toNumber();
+      const previousRate = item.rate.toNumber();
+      const quantity = line.action === 'REMOVE' ? 0 : line.quantity;
+      const rate = line.action === 'REMOVE' ? previousRate : line.rate;
+
+      if (quantity === previousQuantity && rate === previousRate) {
+        throw new DatabaseError(
+          line.action === 'REMOVE'
+            ? `"${item.description}" has nothing left to remove`
+            : `"${item.description}" has the same quantity and rate`,
+          'NO_CHANGE',
+          400
+        );
+      }
+
+      return {
+        action: line.action,
+        boqItemId: item.id,
+        category: item.category,
+        description: item.description,
+        unit: item.unit,
+        previousQuantity,
+        previousRate,
+        quantity,
+        rate,
+        amount: roundMoney(amountOf(quantity, rate) - amountOf(previousQuantity, previousRate)),
+      };
+    });
+  }
+
+  /**
+   * Sections and stages given for added items belong to the project
+   */
+  private async checkPlacement(projectId: string, lines: ChangeOrderLineInput[]) {
+    const added = lines.flatMap((line) => (line.action === 'ADD' ? [line] : []));
+    const sectionIds = [...new Set(added.flatMap((line) => line.sectionId ?? []))];
+    const stageIds = [...new Set(added.flatMap((line) => line.stageId ?? []))];
+
+    const [sections, stages] = await Promise.all([
+      sectionIds.length ? changeOrderRepository.countSections(projectId, sectionIds) : 0,
+      stageIds.length ? changeOrderRepository.countStages(projectId, stageIds) : 0,
+    ]);
+    if (sections !== sectionIds.length) {
+      throw new DatabaseError('BOQ section not found in this project', 'NOT_FOUND', 404);
+    }
+    if (stages !== stageIds.length) {
+      throw new DatabaseError('Stage not found in this project', 'NOT_FOUND', 404);
+    }
+  }
+}
+
+export const changeOrderService = new ChangeOrderService();
@@ -0,0 +1,36 @@
+// Client Portal Service - Link CLIENT-role members to the client party they represent
+
+import { DatabaseError } from '../lib/database-errors';
+import { isClientRole } from '../lib/permissions';
+import { partyRepository } from '../repositories/party.repository';
+
+/**
+ * Work out the client party to store on a membership or invitation.
+ *
+ * CLIENT-role members see the client portal for the projects of their party, so
+ * they must be linked to a live CLIENT party. Other roles are never linked.
+ */
+export async function resolveClientPartyId(
+  organizationId: string,
+  roleName: string,
+  partyId: string | null | undefined
+): Promise<string | null> {
+  if (!isClientRole(roleName)) {
+    return null;
+  }
+
+  if (!partyId) {
+    throw new DatabaseError(
+      'Choose the client this person represents',
+      'CLIENT_PARTY_REQUIRED',
+      400
+    );
+  }
+
+  const party = await partyRepository.findById(organizationId, partyId);
+  if (!party || party.type !== 'CLIENT') {
+    throw new DatabaseError('Client not found', 'INVALID_PARTY', 400);
+  }
+
+  return party.id;
+}
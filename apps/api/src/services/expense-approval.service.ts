@@ -0,0 +1,413 @@
+// Expense Approval Service - Submit, approve, reject and reopen expenses under the organization's approval rules
+
+import type { FastifyRequest } from 'fastify';
+import type { Expense, ExpenseApprovalRule, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { DatabaseError } from '../lib/database-errors';
+import type { AuditHook } from '../repositories/audit.repository';
+import {
+  expenseApprovalRepository,
+  type ApprovalRuleData,
+  type ApprovalTransition,
+  type ApprovalEntryData,
+} from '../repositories/expense-approval.repository';
+import { expenseRepository } from '../repositories/expense.repository';
+import { projectRepository } from '../repositories/project.repository';
+import { roleRepository } from '../repositories/role.repository';
+import { paymentAllocationService } from './payment-allocation.service';
+
+/**
+ * The member acting on an expense
+ */
+export interface ApproverContext {
+  organizationId: string;
+  memberId: string;
+  roleId: string;
+  isAdmin: boolean;
+}
+
+/**
+ * One approval step: everyone named by a rule at this level may approve
+ */
+interface ApprovalStep {
+  level: number;
+  rules: ExpenseApprovalRule[];
+}
+
+/**
+ * Build the approver context from an organization-scoped request
+ */
+export function approverContext(request: FastifyRequest): ApproverContext {
+  return {
+    organizationId: request.organizationId,
+    memberId: request.memberId,
+    roleId: request.roleId,
+    isAdmin: request.fullAccess,
+  };
+}
+
+/**
+ * An expense posted from a wage or RA bill is the bill's, and does not change on its own
+ */
+export function assertNotFromBill(expense: Pick<Expense, 'raBillId' | 'wageBillId'>) {
+  if (expense.raBillId || expense.wageBillId) {
+    throw new DatabaseError(
+      `Expenses posted from ${expense.raBillId ? 'an RA' : 'a wage'} bill change only with the bill`,
+      'EXPENSE_FROM_BILL',
+      409
+    );
+  }
+}
+
+export function expenseAmount(expense: Pick<Expense, 'rate' | 'quantity'>): number {
+  return expense.rate.toNumber() * expense.quantity.toNumber();
+}
+
+/**
+ * Approval steps for an expense, lowest level first.
+ * A project with rules of its own ignores the organization-wide rules.
+ * No steps means a single approval by anyone allowed to approve expenses.
+ */
+function approvalSteps(
+  rules: ExpenseApprovalRule[],
+  projectId: string,
+  amount: number
+): ApprovalStep[] {
+  const projectRules = rules.filter((rule) => rule.projectId === projectId);
+  const candidates =
+    projectRules.length > 0 ? projectRules : rules.filter((rule) => rule.projectId === null);
+
+  const steps = new Map<number, ExpenseApprovalRule[]>();
+  for (const rule of candidates) {
+    if (rule.minAmount.toNumber() > amount) continue;
+    steps.set(rule.level, [...(steps.get(rule.level) ?? []), rule]);
+  }
+
+  return Array.from(steps.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([level, levelRules]) => ({ level, rules: levelRules }));
+}
+
+/**
+ * The step a pending expense is waiting on. Rules may have changed since it was
+ * submitted, so this is the first step at or above the recorded level.
+ */
+function currentStep(steps: ApprovalStep[], approvalLevel: number): ApprovalStep | undefined {
+  return steps.find((step) => step.level >= approvalLevel);
+}
+
+function canActAt(step: ApprovalStep | undefined, approver: ApproverContext): boolean {
+  if (!step || approver.isAdmin) return true;
+  return step.rules.some(
+    (rule) => rule.approverMemberId === approver.memberId || rule.approverRoleId === approver.roleId
+  );
+}
+
+export class ExpenseApprovalService {
+  /**
+   * Level a newly submitted expense starts at
+   */
+  async firstLevel(organizationId: string, projectId: string, amount: number): Promise<number> {
+    const rules = await expenseApprovalRepository.findApplicableRules(organizationId, [projectId]);
+    return approvalSteps(rules, projectId, amount)[0]?.level ?? 1;
+  }
+
+  async getHistory(organizationId: string, expenseId: string) {
+    return expenseApprovalRepository.findHistory(organizationId, expenseId);
+  }
+
+  /**
+   * Pending expenses the approver can act on at their current level
+   */
+  async getInbox(
+    approver: ApproverContext,
+    options: { skip: number; take: number; projectIds?: string[] }
+  ) {
+    const [expenses, rules] = await Promise.all([
+      expenseApprovalRepository.findPendingExpenses(approver.organizationId, options.projectIds),
+      expenseApprovalRepository.findApplicableRules(approver.organizationId, options.projectIds),
+    ]);
+
+    const awaiting = expenses.filter((expense) => {
+      const steps = approvalSteps(rules, expense.projectId, expenseAmount(expense));
+      return canActAt(currentStep(steps, expense.approvalLevel), approver);
+    });
+
+    return {
+      expenses: awaiting.slice(options.skip, options.skip + options.take),
+      total: awaiting.length,
+    };
+  }
+
+  /**
+   * Send a rejected expense back for approval, starting again at the first step
+   */
+  async submit(approver: ApproverContext, expenseId: string, audit?: AuditHook<Expense>) {
+    const expense = await this.getExpense(approver.organizationId, expenseId);
+    if (expense.status !== 'REJECTED') {
+      throw new DatabaseError('Only rejected expenses can be resubmitted', 'INVALID_STATUS', 409);
+    }
+
+    const level = await this.firstLevel(
+      approver.organizationId,
+      expense.projectId,
+      expenseAmount(expense)
+    );
+
+    return this.apply(
+      approver.organizationId,
+      expense,
+      { status: 'PENDING', approvalLevel: level, rejectionReason: null },
+      { memberId: approver.memberId, action: 'SUBMITTED', level },
+      audit
+    );
+  }
+
+  /**
+   * Approve the step the expense is waiting on. The expense is approved once its
+   * last step is; until then it moves on to the next level.
+   */
+  async approve(
+    approver: ApproverContext,
+    expenseId: string,
+    comment?: string,
+    audit?: AuditHook<Expense>
+  ) {
+    const expense = await this.getExpense(approver.organizationId, expenseId);
+    if (expense.status !== 'PENDING') {
+      throw new DatabaseError('Only pending expenses can be approved', 'INVALID_STATUS', 409);
+    }
+
+    const steps = await this.getSteps(approver.organizationId, expense);
+    const step = currentStep(steps, expense.approvalLevel);
+    await this.ensureCanAct(approver, expense, step);
+
+    const next = step ? steps.find((candidate) => candidate.level > step.level) : undefined;
+    const level = step?.level ?? expense.approvalLevel;
+
+    return this.apply(
+      approver.organizationId,
+      expense,
+      next
+        ? { status: 'PENDING', approvalLevel: next.level, rejectionReason: null }
+        : { status: 'APPROVED', approvalLevel: level, rejectionReason: null },
+      { memberId: approver.memberId, action: 'APPROVED', level, reason: comment },
+      audit
+    );
+  }
+
+  /**
+   * Reject a pending expense. The submitter can edit it and resubmit.
+   */
+  async reject(
+    approver: ApproverContext,
+    expenseId: string,
+    reason: string,
+    audit?: AuditHook<Expense>
+  ) {
+    const expense = await this.getExpense(approver.organizationId, expenseId);
+    if (expense.status !== 'PENDING') {
+      throw new DatabaseError('Only pending expenses can be rejected', 'INVALID_STATUS', 409);
+    }
+    assertNotFromBill(expense);
+
+    const steps = await this.getSteps(approver.organizationId, expense);
+    const step = currentStep(steps, expense.approvalLevel);
+    await this.ensureCanAct(approver, expense, step);
+
+    const level = step?.level ?? expense.approvalLevel;
+
+    return this.apply(
+      approver.organizationId,
+      expense,
+      { status: 'REJECTED', approvalLevel: level, rejectionReason: reason },
+      { memberId: approver.memberId, action: 'REJECTED', level, reason },
+      audit
+    );
+  }
+
+  /**
+   * Unlock an approved expense for editing. It needs approving again from the first step.
+   */
+  async reopen(
+    approver: ApproverContext,
+    expenseId: string,
+    reason?: string,
+    audit?: AuditHook<Expense>
+  ) {
+    const expense = await this.getExpense(approver.organizationId, expenseId);
+    if (expense.status !== 'APPROVED') {
+      throw new DatabaseError('Only approved expenses can be reopened', 'INVALID_STATUS', 409);
+    }
+    assertNotFromBill(expense);
+
+    const level = await this.firstLevel(
+      approver.organizationId,
+      expense.projectId,
+      expenseAmount(expense)
+    );
+
+    return this.apply(
+      approver.organizationId,
+      expense,
+      { status: 'PENDING', approvalLevel: level, rejectionReason: null },
+      { memberId: approver.memberId, action: 'REOPENED', reason },
+      audit
+    );
+  }
+
+  // ============================================
+  // Rules
+  // ============================================
+
+  async findRules(organizationId: string, projectId?: string) {
+    return expenseApprovalRepository.findRules(organizationId, projectId);
+  }
+
+  async createRule(organizationId: string, data: ApprovalRuleData) {
+    await this.validateRule(organizationId, data);
+    return expenseApprovalRepository.createRule(organizationId, data);
+  }
+
+  async updateRule(organizationId: string, id: string, data: ApprovalRuleData) {
+    await this.validateRule(organizationId, data);
+    return expenseApprovalRepository.updateRule(organizationId, id, data);
+  }
+
+  async deleteRule(organizationId: string, id: string) {
+    return expenseApprovalRepository.deleteRule(organizationId, id);
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private async getExpense(
+    organizationId: string,
+    expenseId: string,
+    client?: Prisma.TransactionClient
+  ): Promise<Expense> {
+    const expense = await expenseRepository.findById(organizationId, expenseId, client);
+    if (!expense) {
+      throw new DatabaseError('Expense not found', 'NOT_FOUND', 404);
+    }
+    return expense;
+  }
+
+  private async getSteps(organizationId: string, expense: Expense): Promise<ApprovalStep[]> {
+    const rules = await expenseApprovalRepository.findApplicableRules(organizationId, [
+      expense.projectId,
+    ]);
+    return approvalSteps(rules, expense.projectId, expenseAmount(expense));
+  }
+
+  /**
+   * The approver must be named for the current step, and with several steps
+   * nobody but an admin may approve more than one of them.
+   */
+  private async ensureCanAct(
+    approver: ApproverContext,
+    expense: Expense,
+    step: ApprovalStep | undefined
+  ) {
+    if (!canActAt(step, approver)) {
+      throw new DatabaseError(
+        'You are not an approver for this expense at its current level',
+        'NOT_APPROVER',
+        403
+      );
+    }
+
+    if (approver.isAdmin || !step) return;
+
+    const history = await expenseApprovalRepository.findHistory(
+      approver.organizationId,
+      expense.id
+    );
+    const cycleStart = history.reduce(
+      (start, entry, index) =>
+        entry.action === 'SUBMITTED' || entry.action === 'REOPENED' ? index : start,
+      -1
+    );
+    const approvedEarlierStep = history
+      .slice(cycleStart + 1)
+      .some((entry) => entry.action === 'APPROVED' && entry.memberId === approver.memberId);
+
+    if (approvedEarlierStep) {
+      throw new DatabaseError(
+        'You already approved this expense at an earlier level',
+        'ALREADY_APPROVED',
+        403
+      );
+    }
+  }
+
+  /**
+   * Apply a decision, its allocation changes and its audit entry in one transaction
+   */
+  private async apply(
+    organizationId: string,
+    expense: Expense,
+    to: ApprovalTransition,
+    entry: ApprovalEntryData,
+    audit?: AuditHook<Expense>
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const applied = await expenseApprovalRepository.transition(
+        tx,
+        organizationId,
+        expense.id,
+        { status: expense.status, approvalLevel: expense.approvalLevel },
+        to,
+        entry
+      );
+
+      if (!applied) {
+        throw new DatabaseError(
+          'This expense was changed by someone else. Reload it and try again.',
+          'EXPENSE_CHANGED',
+          409
+        );
+      }
+
+      // A rejected bill is not owed: what payments covered goes to the party's other
+      // bills, and comes back to it when it is resubmitted
+      if (to.status === 'REJECTED') {
+        await paymentAllocationService.releaseExpense(organizationId, expense, tx);
+      } else if (expense.status === 'REJECTED' && expense.partyId) {
+        await paymentAllocationService.allocateParty(
+          organizationId,
+          expense.projectId,
+          expense.partyId,
+          tx
+        );
+      }
+
+      const updated = await this.getExpense(organizationId, expense.id, tx);
+      await audit?.(tx, updated);
+      return updated;
+    });
+  }
+
+  private async validateRule(organizationId: string, data: ApprovalRuleData) {
+    if (data.projectId && !(await projectRepository.findById(organizationId, data.projectId))) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+
+    if (data.approverRoleId) {
+      const role = await roleRepository.findById(data.approverRoleId);
+      if (!role || role.organizationId !== organizationId) {
+        throw new DatabaseError('Role not found', 'NOT_FOUND', 404);
+      }
+    }
+
+    if (
+      data.approverMemberId &&
+      !(await expenseApprovalRepository.isOrganizationMember(organizationId, data.approverMemberId))
+    ) {
+      throw new DatabaseError('Member not found', 'NOT_FOUND', 404);
+    }
+  }
+}
+
+export const expenseApprovalService = new ExpenseApprovalService();
@@ -1,13 +1,18 @@
-import { prisma } from '../lib/prisma';
-import { handlePrismaError } from '../lib/database-errors';
+import { inTransaction, prisma } from '../lib/prisma';
+import { DatabaseError, handlePrismaError } from '../lib/database-errors';
+import { gstIncluded } from '../lib/gst';
 import {
   expenseRepository,
   type CreateExpenseData,
   type UpdateExpenseData,
   type ExpenseListOptions,
 } from '../repositories/expense.repository';
-import type { Expense, PaymentMode } from '@prisma/client';
+import type { AuditHook } from '../repositories/audit.repository';
+import type { Expense, PaymentMode, Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { assertNotFromBill, expenseApprovalService } from './expense-approval.service';
+import { paymentAllocationService } from './payment-allocation.service';
+import { purchaseOrderService } from './purchase-order.service';
 
 // Extended create data that includes optional payment info
 export interface CreateExpenseWithPaymentData extends CreateExpenseData {
@@ -15,96 +20,126 @@ export interface CreateExpenseWithPaymentData extends CreateExpenseData {
   paymentMode?: PaymentMode;
 }
 
-// Include object for expense queries (duplicated from repository for transaction use)
-const expenseInclude = {
-  project: { select: { id: true, name: true } },
-  party: { select: { id: true, name: true, type: true } },
-  stage: { select: { id: true, name: true } },
-  expenseType: { select: { id: true, name: true } },
-  materialType: { select: { id: true, name: true } },
-  labourType: { select: { id: true, name: true } },
-  subWorkType: { select: { id: true, name: true } },
-  payments: { select: { id: true, amount: true, paymentMode: true, paymentDate: true } },
-} as const;
+/**
+ * GST on a bill of the given amount, which includes the tax. The tax is worked
+ * out from the rate unless given as printed on the bill; only a bill with tax
+ * can carry input credit.
+ */
+function billTax(amount: number, gstRate: number, gstAmount?: number, itcEligible?: boolean) {
+  const tax = gstAmount ?? gstIncluded(amount, gstRate);
+  if (tax > amount) {
+    throw new DatabaseError('GST amount is more than the bill amount', 'GST_EXCEEDS_AMOUNT', 400);
+  }
+  return { gstRate, gstAmount: tax, itcEligible: tax > 0 && (itcEligible ?? false) };
+}
 
 /**
  * Expense Service
  *
  * Handles business logic for expense operations, including:
  * - Creating expenses with optional linked payments (transaction)
+ * - Working out the GST included in a bill
+ * - Matching a vendor bill to a line of an approved purchase order
+ * - Locking approved expenses against edits
+ * - Keeping the party's payments allocated across its expenses
  * - Delegating simple CRUD to repository
  */
 export class ExpenseService {
   /**
    * Create an expense, optionally with a linked payment.
-   * Uses a transaction when payment is included.
+   * The expense is submitted for approval at the first step its approval rules require,
+   * and any advance the party holds on account is set against it, in the same
+   * transaction as its audit entry. A bill posting its expense passes its own
+   * transaction.
    */
-  async create(organizationId: string, data: CreateExpenseWithPaymentData): Promise<Expense> {
-    const { paidAmount, paymentMode, ...expenseData } = data;
+  async create(
+    organizationId: string,
+    data: CreateExpenseWithPaymentData,
+    audit?: AuditHook<Expense>,
+    tx?: Prisma.TransactionClient
+  ): Promise<Expense> {
+    const { paidAmount, paymentMode, ...rest } = data;
+    const orderLine = rest.purchaseOrderLineId
+      ? await purchaseOrderService.checkBillLine(organizationId, rest.purchaseOrderLineId, rest)
+      : null;
 
-    // If payment data provided, use transaction
-    if (paidAmount !== undefined && paidAmount > 0 && paymentMode !== undefined) {
-      return this.createWithPayment(organizationId, expenseData, paidAmount, paymentMode);
-    }
+    const expenseData: CreateExpenseData = {
+      ...rest,
+      // A bill against an order line is per the line's unit unless it says otherwise
+      unit: rest.unit ?? orderLine?.unit,
+      ...billTax(rest.rate * rest.quantity, rest.gstRate ?? 0, rest.gstAmount, rest.itcEligible),
+      approvalLevel: await expenseApprovalService.firstLevel(
+        organizationId,
+        rest.projectId,
+        rest.rate * rest.quantity
+      ),
+    };
+
+    const withPayment = paidAmount !== undefined && paidAmount > 0 && paymentMode !== undefined;
+
+    try {
+      return await inTransaction(tx, async (client) => {
+        const created = withPayment
+          ? await this.createWithPayment(
+              client,
+              organizationId,
+              expenseData,
+              paidAmount,
+              paymentMode
+            )
+          : await expenseRepository.create(organizationId, expenseData, client);
 
-    // Otherwise, simple create via repository
-    return expenseRepository.create(organizationId, expenseData);
+        await paymentAllocationService.allocateParty(
+          organizationId,
+          created.projectId,
+          created.partyId,
+          client
+        );
+        const expense =
+          (await expenseRepository.findById(organizationId, created.id, client)) ?? created;
+        await audit?.(client, expense);
+        return expense;
+      });
+    } catch (error) {
+      throw handlePrismaError(error);
+    }
   }
 
   /**
-   * Create expense with linked payment in a single transaction.
+   * Create expense with linked payment, inside the caller's transaction.
    */
   private async createWithPayment(
+    tx: Prisma.TransactionClient,
     organizationId: string,
     expenseData: CreateExpenseData,
     paidAmount: number,
     paymentMode: PaymentMode
   ): Promise<Expense> {
-    try {
-      return await prisma.$transaction(async (tx) => {
-        // 1. Create expense
-        const expense = await tx.expense.create({
-          data: {
-            organizationId,
-            projectId: expenseData.projectId,
-            partyId: expenseData.partyId,
-            stageId: expenseData.stageId,
-            expenseTypeItemId: expenseData.expenseTypeItemId,
-            materialTypeItemId: expenseData.materialTypeItemId,
-            labourTypeItemId: expenseData.labourTypeItemId,
-            subWorkTypeItemId: expenseData.subWorkTypeItemId,
-            description: expenseData.description,
-            rate: new Decimal(expenseData.rate),
-            quantity: new Decimal(expenseData.quantity),
-            expenseDate: expenseData.expenseDate,
-            status: expenseData.status,
-            notes: expenseData.notes,
-          },
-        });
+    // 1. Create expense
+    const expense = await expenseRepository.create(organizationId, expenseData, tx);
 
-        // 2. Create linked payment
-        await tx.payment.create({
-          data: {
-            organizationId,
-            projectId: expenseData.projectId,
-            partyId: expenseData.partyId,
+    // 2. Create linked payment, paying this expense first
+    const expenseAmount = expenseData.rate * expenseData.quantity;
+    await tx.payment.create({
+      data: {
+        organizationId,
+        projectId: expenseData.projectId,
+        partyId: expenseData.partyId,
+        expenseId: expense.id,
+        type: 'OUT',
+        paymentMode,
+        amount: new Decimal(paidAmount),
+        paymentDate: expenseData.expenseDate,
+        allocations: {
+          create: {
             expenseId: expense.id,
-            type: 'OUT',
-            paymentMode,
-            amount: new Decimal(paidAmount),
-            paymentDate: expenseData.expenseDate,
+            amount: new Decimal(Math.min(paidAmount, expenseAmount).toFixed(2)),
           },
-        });
+        },
+      },
+    });
 
-        // 3. Return expense with all relations
-        return await tx.expense.findUniqueOrThrow({
-          where: { id: expense.id },
-          include: expenseInclude,
-        });
-      });
-    } catch (error) {
-      throw handlePrismaError(error);
-    }
+    return expense;
   }
 
   async findById(organizationId: string, id: string) {
@@ -115,17 +150,127 @@ export class ExpenseService {
     return expenseRepository.findAll(organizationId, options);
   }
 
-  async update(organizationId: string, id: string, data: UpdateExpenseData) {
-    return expenseRepository.update(organizationId, id, data);
+  /**
+   * Approved expenses are locked until reopened. Editing a pending expense
+   * resubmits it from the first approval step, since the amount may have changed.
+   * A changed amount or party releases what was paid against the expense, and the
+   * party's payments are allocated again, in the same transaction as the audit entry.
+   */
+  async update(
+    organizationId: string,
+    existing: Expense,
+    data: UpdateExpenseData,
+    editedById: string | null,
+    audit?: AuditHook<Expense>
+  ) {
+    this.assertNotLocked(existing, 'edit');
+
+    // A bill moved to another party must still match its order's vendor
+    const purchaseOrderLineId =
+      data.purchaseOrderLineId !== undefined
+        ? data.purchaseOrderLineId
+        : existing.purchaseOrderLineId;
+    if (purchaseOrderLineId && (data.purchaseOrderLineId || data.partyId)) {
+      await purchaseOrderService.checkBillLine(organizationId, purchaseOrderLineId, {
+        projectId: existing.projectId,
+        partyId: data.partyId ?? existing.partyId,
+      });
+    }
+
+    const rate = data.rate ?? existing.rate.toNumber();
+    const quantity = data.quantity ?? existing.quantity.toNumber();
+
+    let approvalLevel: number | undefined;
+    if (existing.status === 'PENDING') {
+      approvalLevel = await expenseApprovalService.firstLevel(
+        organizationId,
+        existing.projectId,
+        rate * quantity
+      );
+    }
+
+    // A changed amount or GST rate works the tax out again, unless it is given
+    const recompute = [data.rate, data.quantity, data.gstRate].some((value) => value !== undefined);
+    const tax =
+      recompute || data.gstAmount !== undefined || data.itcEligible !== undefined
+        ? billTax(
+            rate * quantity,
+            data.gstRate ?? existing.gstRate.toNumber(),
+            data.gstAmount ?? (recompute ? undefined : existing.gstAmount.toNumber()),
+            data.itcEligible ?? existing.itcEligible
+          )
+        : {};
+
+    return prisma.$transaction(async (tx) => {
+      let expense = await expenseRepository.update(
+        organizationId,
+        existing.id,
+        {
+          ...data,
+          ...tax,
+          approvalLevel,
+          submittedById: approvalLevel !== undefined ? editedById : undefined,
+        },
+        tx
+      );
+
+      const amountChanged =
+        !expense.rate.equals(existing.rate) || !expense.quantity.equals(existing.quantity);
+      if (amountChanged || expense.partyId !== existing.partyId) {
+        await paymentAllocationService.releaseExpense(organizationId, expense, tx);
+        if (expense.partyId !== existing.partyId) {
+          await paymentAllocationService.allocateParty(
+            organizationId,
+            existing.projectId,
+            existing.partyId,
+            tx
+          );
+        }
+        expense = (await expenseRepository.findById(organizationId, expense.id, tx)) ?? expense;
+      }
+
+      await audit?.(tx, expense);
+      return expense;
+    });
   }
 
-  async delete(organizationId: string, id: string) {
-    return expenseRepository.delete(organizationId, id);
+  /**
+   * Move an expense to the Trash. What was paid against it goes to the party's other
+   * open bills, or stays on account.
+   */
+  async delete(
+    organizationId: string,
+    existing: Expense,
+    deletedById: string | null,
+    audit?: AuditHook<Expense>
+  ) {
+    this.assertNotLocked(existing, 'delete');
+
+    await prisma.$transaction(async (tx) => {
+      await expenseRepository.delete(organizationId, existing.id, deletedById, tx);
+      await paymentAllocationService.releaseExpense(organizationId, existing, tx);
+      await audit?.(tx, existing);
+    });
   }
 
   async getExpensesByCategory(organizationId: string, projectId?: string) {
     return expenseRepository.getExpensesByCategory(organizationId, projectId);
   }
+
+  /**
+   * Approved expenses cannot be changed until they are reopened, and those posted
+   * from a bill cannot be changed on their own at all
+   */
+  private assertNotLocked(expense: Expense, action: 'edit' | 'delete') {
+    assertNotFromBill(expense);
+    if (expense.status === 'APPROVED') {
+      throw new DatabaseError(
+        `Approved expenses are locked. Reopen the expense to ${action} it.`,
+        'EXPENSE_LOCKED',
+        409
+      );
+    }
+  }
 }
 
 export const expenseService = new ExpenseService();
@@ -0,0 +1,398 @@
+// Installment Service - Client payment schedules: installment status and allocation of incoming payments
+
+import type { Prisma } from '@prisma/client';
+import { DatabaseError } from '../lib/database-errors';
+import {
+  installmentRepository,
+  type AllocationEntry,
+  type CreateInstallmentData,
+  type InstallmentWithAllocations,
+  type UpdateInstallmentData,
+} from '../repositories/installment.repository';
+import { projectRepository } from '../repositories/project.repository';
+import { stageRepository } from '../repositories/stage.repository';
+
+export type InstallmentStatus = 'UPCOMING' | 'DUE' | 'OVERDUE' | 'PARTIALLY_RECEIVED' | 'RECEIVED';
+
+export interface ManualAllocation {
+  installmentId: string;
+  amount: number;
+}
+
+// Terms that decide what an installment bills and when
+type InstallmentTerms = Pick<
+  CreateInstallmentData,
+  'stageId' | 'amountType' | 'percentage' | 'amount'
+>;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Contract value of a project: the agreed amount and its approved change orders
+ */
+export function contractAmount(project: {
+  amount: Prisma.Decimal | null;
+  variationAmount: Prisma.Decimal;
+}): number {
+  return roundMoney((project.amount?.toNumber() ?? 0) + project.variationAmount.toNumber());
+}
+
+/**
+ * Amount an installment bills: a fixed amount, or its share of the contract amount
+ */
+export function installmentAmount(
+  installment: Pick<InstallmentWithAllocations, 'amountType' | 'percentage' | 'amount'>,
+  contractAmount: number
+): number {
+  if (installment.amountType === 'FIXED') {
+    return installment.amount?.toNumber() ?? 0;
+  }
+  return roundMoney(((installment.percentage?.toNumber() ?? 0) * contractAmount) / 100);
+}
+
+function allocatedTo(installment: InstallmentWithAllocations): number {
+  return roundMoney(
+    installment.allocations.reduce((sum, allocation) => sum + allocation.amount.toNumber(), 0)
+  );
+}
+
+/**
+ * An installment linked to a stage falls due when the stage is completed; otherwise
+ * on its due date. One with neither is due straight away.
+ */
+export function isDue(
+  installment: Pick<InstallmentWithAllocations, 'stage' | 'dueDate'>,
+  now: Date
+): boolean {
+  if (installment.stage) {
+    return installment.stage.status === 'COMPLETED';
+  }
+  return !installment.dueDate || installment.dueDate <= now;
+}
+
+function installmentStatus(
+  installment: InstallmentWithAllocations,
+  amount: number,
+  received: number,
+  now: Date
+): InstallmentStatus {
+  if (amount > 0 && received >= amount) return 'RECEIVED';
+  if (received > 0) return 'PARTIALLY_RECEIVED';
+  if (!isDue(installment, now)) return 'UPCOMING';
+  return installment.dueDate && installment.dueDate < startOfDay(now) ? 'OVERDUE' : 'DUE';
+}
+
+export class InstallmentService {
+  /**
+   * The project's payment schedule with the status of every installment, and what
+   * the client owes against it
+   */
+  async getSchedule(organizationId: string, projectId: string) {
+    const project = await this.getProject(organizationId, projectId);
+    const contractValue = contractAmount(project);
+
+    const [installments, receipts] = await Promise.all([
+      installmentRepository.findByProject(organizationId, projectId),
+      installmentRepository.findReceipts(organizationId, projectId),
+    ]);
+
+    const now = new Date();
+    const today = startOfDay(now);
+
+    const items = installments.map((installment) => {
+      const amount = installmentAmount(installment, contractValue);
+      const received = allocatedTo(installment);
+      const outstanding = roundMoney(Math.max(0, amount - received));
+      const due = isDue(installment, now);
+
+      return {
+        ...installment,
+        amount,
+        received,
+        outstanding,
+        status: installmentStatus(installment, amount, received, now),
+        isDue: due,
+        isOverdue: due && outstanding > 0 && !!installment.dueDate && installment.dueDate < today,
+      };
+    });
+
+    const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0));
+    const receivedAmount = sum(receipts.map((receipt) => receipt.amount.toNumber()));
+    const allocatedAmount = sum(items.map((item) => item.received));
+
+    return {
+      installments: items,
+      summary: {
+        contractAmount: contractValue,
+        // As agreed, before change orders
+        originalContractAmount: project.amount?.toNumber() ?? 0,
+        scheduledAmount: sum(items.map((item) => item.amount)),
+        receivedAmount,
+        allocatedAmount,
+        // Received but not yet set against any installment
+        onAccountAmount: roundMoney(Math.max(0, receivedAmount - allocatedAmount)),
+        outstandingReceivable: sum(
+          items.filter((item) => item.isDue).map((item) => item.outstanding)
+        ),
+        overdueAmount: sum(items.filter((item) => item.isOverdue).map((item) => item.outstanding)),
+      },
+    };
+  }
+
+  async findById(organizationId: string, id: string) {
+    return installmentRepository.findById(organizationId, id);
+  }
+
+  async create(organizationId: string, data: CreateInstallmentData) {
+    await this.getProject(organizationId, data.projectId);
+    await this.validate(organizationId, data.projectId, data);
+
+    const installment = await installmentRepository.create(organizationId, data);
+    await this.allocateOpenReceipts(organizationId, data.projectId);
+
+    return installment;
+  }
+
+  /**
+   * Update an installment. What was allocated to it is released and allocated again,
+   * as its amount may have changed.
+   */
+  async update(
+    organizationId: string,
+    existing: InstallmentWithAllocations,
+    data: UpdateInstallmentData
+  ) {
+    await this.validate(
+      organizationId,
+      existing.projectId,
+      {
+        stageId: data.stageId !== undefined ? data.stageId : existing.stageId,
+        amountType: data.amountType ?? existing.amountType,
+        percentage:
+          data.percentage !== undefined
+            ? data.percentage
+            : (existing.percentage?.toNumber() ?? null),
+        amount: data.amount !== undefined ? data.amount : (existing.amount?.toNumber() ?? null),
+      },
+      existing.id
+    );
+
+    await installmentRepository.update(organizationId, existing.id, data);
+    await installmentRepository.clearInstallmentAllocations(existing.id);
+    await this.allocateOpenReceipts(organizationId, existing.projectId);
+
+    return this.getInstallment(organizationId, existing.id);
+  }
+
+  async delete(organizationId: string, existing: InstallmentWithAllocations) {
+    await installmentRepository.delete(organizationId, existing.id);
+    await this.allocateOpenReceipts(organizationId, existing.projectId);
+  }
+
+  // ============================================
+  // Payment allocation
+  // ============================================
+
+  /**
+   * Check allocations chosen by hand for a payment before it is saved
+   */
+  async validateAllocations(
+    organizationId: string,
+    projectId: string,
+    paymentAmount: number,
+    allocations: ManualAllocation[],
+    paymentId?: string
+  ) {
+    const total = roundMoney(allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+    if (total > paymentAmount) {
+      throw new DatabaseError(
+        'Allocations add up to more than the payment amount',
+        'ALLOCATION_EXCEEDS_PAYMENT',
+        400
+      );
+    }
+
+    const project = await this.getProject(organizationId, projectId);
+    const contractValue = contractAmount(project);
+    const installments = await installmentRepository.findByProject(organizationId, projectId);
+
+    for (const allocation of allocations) {
+      const installment = installments.find((item) => item.id === allocation.installmentId);
+      if (!installment) {
+        throw new DatabaseError('Installment not found in this project', 'NOT_FOUND', 404);
+      }
+
+      // What other payments already cover stays covered
+      const coveredElsewhere = installment.allocations
+        .filter((item) => item.paymentId !== paymentId)
+        .reduce((sum, item) => sum + item.amount.toNumber(), 0);
+      const open = roundMoney(installmentAmount(installment, contractValue) - coveredElsewhere);
+
+      if (allocation.amount > open) {
+        throw new DatabaseError(
+          `Only ${open} is outstanding on installment "${installment.name}"`,
+          'ALLOCATION_EXCEEDS_INSTALLMENT',
+          400
+        );
+      }
+    }
+  }
+
+  /**
+   * Allocate a payment against the schedule. Amounts chosen by hand are applied first;
+   * whatever is left goes to the earliest installments still open. Payments that are
+   * not incoming hold no allocations.
+   */
+  async allocatePayment(
+    organizationId: string,
+    paymentId: string,
+    allocations?: ManualAllocation[]
+  ) {
+    const payment = await installmentRepository.findPayment(organizationId, paymentId);
+    if (!payment) return;
+
+    const entries: AllocationEntry[] =
+      payment.type === 'IN'
+        ? (allocations ?? [])
+            .filter((allocation) => allocation.amount > 0)
+            .map((allocation) => ({ ...allocation, paymentId }))
+        : [];
+
+    await installmentRepository.replacePaymentAllocations(paymentId, entries);
+    await this.allocateOpenReceipts(organizationId, payment.projectId);
+  }
+
+  /**
+   * Free what a payment covered, for when it is moved to the Trash
+   */
+  async releasePayment(organizationId: string, payment: { id: string; projectId: string }) {
+    await installmentRepository.replacePaymentAllocations(payment.id, []);
+    await this.allocateOpenReceipts(organizationId, payment.projectId);
+  }
+
+  /**
+   * The contract value changed: installments that are a share of it bill more or
+   * less, so receipts held on account may now cover them
+   */
+  async reviseContract(organizationId: string, projectId: string) {
+    await this.allocateOpenReceipts(organizationId, projectId);
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Allocate what incoming payments have not yet covered to open installments,
+   * oldest payment first and in schedule order
+   */
+  private async allocateOpenReceipts(organizationId: string, projectId: string) {
+    const project = await projectRepository.findById(organizationId, projectId);
+    if (!project) return;
+
+    const contractValue = contractAmount(project);
+    const [installments, receipts] = await Promise.all([
+      installmentRepository.findByProject(organizationId, projectId),
+      installmentRepository.findReceipts(organizationId, projectId),
+    ]);
+
+    const open = installments.map((installment) => ({
+      id: installment.id,
+      remaining: roundMoney(
+        installmentAmount(installment, contractValue) - allocatedTo(installment)
+      ),
+    }));
+
+    const entries: AllocationEntry[] = [];
+    for (const receipt of receipts) {
+      let left = roundMoney(
+        receipt.amount.toNumber() -
+          receipt.installmentAllocations.reduce((sum, item) => sum + item.amount.toNumber(), 0)
+      );
+
+      for (const installment of open) {
+        if (left <= 0) break;
+        if (installment.remaining <= 0) continue;
+
+        const amount = Math.min(left, installment.remaining);
+        entries.push({ installmentId: installment.id, paymentId: receipt.id, amount });
+        installment.remaining = roundMoney(installment.remaining - amount);
+        left = roundMoney(left - amount);
+      }
+    }
+
+    if (entries.length > 0) {
+      await installmentRepository.addAllocations(entries);
+    }
+  }
+
+  private async getInstallment(organizationId: string, id: string) {
+    const installment = await installmentRepository.findById(organizationId, id);
+    if (!installment) {
+      throw new DatabaseError('Installment not found', 'NOT_FOUND', 404);
+    }
+    return installment;
+  }
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await projectRepository.findById(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  /**
+   * The stage must belong to the project, the installment needs the amount or
+   * percentage its type bills by, and percentages may not add up to more than
+   * the whole contract
+   */
+  private async validate(
+    organizationId: string,
+    projectId: string,
+    data: InstallmentTerms,
+    installmentId?: string
+  ) {
+    if (data.amountType === 'FIXED' ? !data.amount : !data.percentage) {
+      throw new DatabaseError(
+        data.amountType === 'FIXED'
+          ? 'A fixed installment needs an amount'
+          : 'A percentage installment needs a percentage',
+        'INVALID_INSTALLMENT',
+        400
+      );
+    }
+
+    if (data.stageId) {
+      const stage = await stageRepository.findById(organizationId, data.stageId);
+      if (!stage || stage.projectId !== projectId) {
+        throw new DatabaseError('Stage not found in this project', 'NOT_FOUND', 404);
+      }
+    }
+
+    if (data.amountType === 'PERCENTAGE') {
+      const installments = await installmentRepository.findByProject(organizationId, projectId);
+      const scheduled = installments
+        .filter((item) => item.id !== installmentId && item.amountType === 'PERCENTAGE')
+        .reduce((sum, item) => sum + (item.percentage?.toNumber() ?? 0), 0);
+
+      if (roundMoney(scheduled + Number(data.percentage ?? 0)) > 100) {
+        throw new DatabaseError(
+          'Installment percentages add up to more than 100% of the contract',
+          'SCHEDULE_EXCEEDS_CONTRACT',
+          400
+        );
+      }
+    }
+  }
+}
+
+export const installmentService = new InstallmentService();
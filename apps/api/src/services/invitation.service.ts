@@ -0,0 +1,251 @@
+// Invitation Service - Invite people to an organization by SMS and let them accept or decline
+
+import { DatabaseError } from '../lib/database-errors';
+import { env } from '../config/env';
+import {
+  invitationRepository,
+  type InvitationDisplayStatus,
+  type InvitationWithRelations,
+} from '../repositories/invitation.repository';
+import { authRepository, DEFAULT_USER_NAME } from '../repositories/auth.repository';
+import { roleRepository } from '../repositories/role.repository';
+import { permissionService, type RoleGrantor } from './permission.service';
+import { smsService } from './sms';
+import { resolveClientPartyId } from './client-portal.service';
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// Days an invitation can be accepted; resending starts the period again
+export const INVITATION_EXPIRY_DAYS = envInt('INVITATION_EXPIRY_DAYS', 7);
+
+export interface InviteMemberInput {
+  organizationId: string;
+  invitedById: string | null;
+  phone: string;
+  name: string;
+  roleId: string;
+  projectIds: string[];
+  partyId?: string;
+  // The inviting member; the role cannot reach further than theirs
+  grantor: RoleGrantor;
+}
+
+function expiryFromNow(): Date {
+  return new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function displayStatus(invitation: InvitationWithRelations): InvitationDisplayStatus {
+  return invitation.status === 'PENDING' && invitation.expiresAt <= new Date()
+    ? 'EXPIRED'
+    : invitation.status;
+}
+
+/**
+ * Shape returned to clients, with expiry folded into the status
+ */
+function present(invitation: InvitationWithRelations) {
+  return { ...invitation, status: displayStatus(invitation) };
+}
+
+export class InvitationService {
+  async findAll(
+    organizationId: string,
+    options: { skip: number; take: number; status?: InvitationDisplayStatus }
+  ) {
+    const { invitations, total } = await invitationRepository.findAll(organizationId, options);
+    return { invitations: invitations.map(present), total };
+  }
+
+  /**
+   * Create a pending invitation and text the invitee a sign-in link.
+   * The person joins only once they accept after signing in with that phone.
+   * If delivery fails the invitation stays pending, marked FAILED, and can be resent.
+   */
+  async invite(input: InviteMemberInput) {
+    const role = await roleRepository.findById(input.roleId);
+    if (!role || role.organizationId !== input.organizationId) {
+      throw new DatabaseError('Role not found', 'NOT_FOUND', 404);
+    }
+    permissionService.assertCanGrant(role, input.grantor);
+
+    const partyId = await resolveClientPartyId(input.organizationId, role.name, input.partyId);
+
+    if (await invitationRepository.isMember(input.organizationId, input.phone)) {
+      throw new DatabaseError(
+        'This phone number already belongs to a member of the organization',
+        'MEMBER_EXISTS',
+        409
+      );
+    }
+
+    if (await invitationRepository.findOpen(input.organizationId, input.phone)) {
+      throw new DatabaseError(
+        'An invitation is already pending for this phone number. Resend it instead.',
+        'INVITATION_EXISTS',
+        409
+      );
+    }
+
+    const invitation = await invitationRepository.create({
+      organizationId: input.organizationId,
+      phone: input.phone,
+      name: input.name,
+      roleId: input.roleId,
+      // Clients reach projects through their party, not project access
+      projectIds: partyId
+        ? []
+        : await invitationRepository.filterProjectIds(input.organizationId, input.projectIds),
+      partyId,
+      expiresAt: expiryFromNow(),
+      invitedById: input.invitedById,
+    });
+
+    return present(await this.send(invitation));
+  }
+
+  /**
+   * Text a pending (or expired) invitation again and restart its expiry
+   */
+  async resend(organizationId: string, id: string) {
+    const existing = await this.findPending(organizationId, id);
+    const invitation = await invitationRepository.markResent(
+      organizationId,
+      existing.id,
+      expiryFromNow()
+    );
+
+    return present(await this.send(invitation));
+  }
+
+  async revoke(organizationId: string, id: string): Promise<void> {
+    const invitation = await this.findPending(organizationId, id);
+    await invitationRepository.close(invitation.id, 'REVOKED');
+  }
+
+  // ============================================
+  // Invitee side (signed in, not yet a member)
+  // ============================================
+
+  /**
+   * Open invitations for the signed-in user's phone number
+   */
+  async findForUser(userId: string) {
+    const user = await authRepository.findById(userId);
+    if (!user?.phone) return [];
+
+    const invitations = await invitationRepository.findOpenByPhone(user.phone);
+    return invitations.map(present);
+  }
+
+  /**
+   * Join the inviting organization. Returns the invitation so the caller can
+   * issue tokens for the new organization.
+   */
+  async accept(userId: string, id: string) {
+    const { user, invitation } = await this.findOpenForUser(userId, id);
+
+    if (user.memberships.some((m) => m.organizationId === invitation.organizationId)) {
+      throw new DatabaseError(
+        'You are already a member of this organization',
+        'MEMBER_EXISTS',
+        409
+      );
+    }
+
+    await invitationRepository.accept(invitation, user.id);
+
+    // Accepting skips onboarding, so take the name the inviter entered
+    if (user.name === DEFAULT_USER_NAME) {
+      await authRepository.updateUser(user.id, { name: invitation.name });
+    }
+
+    return invitation;
+  }
+
+  async decline(userId: string, id: string): Promise<void> {
+    const { invitation } = await this.findOpenForUser(userId, id);
+    await invitationRepository.close(invitation.id, 'DECLINED');
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Text the invitation and record whether it went out. The invitation is already
+   * saved, so a failed SMS is reported on it rather than thrown.
+   */
+  private async send(invitation: InvitationWithRelations): Promise<InvitationWithRelations> {
+    let failure: string | null = null;
+    try {
+      const sent = await smsService().sendInvitation(invitation.phone, {
+        organizationName: invitation.organization.name,
+        inviterName: invitation.invitedBy?.user.name ?? null,
+        link: `${env.APP_URL}/auth`,
+        expiresAt: invitation.expiresAt,
+      });
+      if (!sent) failure = 'The SMS could not be sent';
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'The SMS could not be sent';
+    }
+
+    return invitationRepository.recordDelivery(invitation.id, failure);
+  }
+
+  /**
+   * Find an invitation that can still be resent or revoked (pending, possibly expired)
+   */
+  private async findPending(organizationId: string, id: string) {
+    const invitation = await invitationRepository.findById(organizationId, id);
+
+    if (!invitation) {
+      throw new DatabaseError('Invitation not found', 'NOT_FOUND', 404);
+    }
+
+    if (invitation.status !== 'PENDING') {
+      throw new DatabaseError(
+        `This invitation was already ${invitation.status.toLowerCase()}`,
+        'INVITATION_CLOSED',
+        409
+      );
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Find an open invitation addressed to the user's phone number
+   */
+  private async findOpenForUser(userId: string, id: string) {
+    const user = await authRepository.findById(userId);
+    const invitation = user?.phone ? await invitationRepository.findForPhone(user.phone, id) : null;
+
+    if (!user || !invitation) {
+      throw new DatabaseError('Invitation not found', 'NOT_FOUND', 404);
+    }
+
+    const status = displayStatus(invitation);
+    if (status === 'EXPIRED') {
+      throw new DatabaseError(
+        'This invitation has expired. Ask the organization to send a new one.',
+        'INVITATION_EXPIRED',
+        410
+      );
+    }
+
+    if (status !== 'PENDING') {
+      throw new DatabaseError(
+        `This invitation was already ${status.toLowerCase()}`,
+        'INVITATION_CLOSED',
+        409
+      );
+    }
+
+    return { user, invitation };
+  }
+}
+
+export const invitationService = new InvitationService();
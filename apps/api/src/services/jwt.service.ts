@@ -2,20 +2,44 @@
 
 import crypto from 'crypto';
 import { prisma } from '../lib/prisma';
+import { DatabaseError } from '../lib/database-errors';
+import { sessionRepository, type SessionClientInfo } from '../repositories/session.repository';
 
 const ACCESS_TOKEN_EXPIRY = '15m';
+const ACCESS_TOKEN_EXPIRY_SECONDS = 15 * 60;
 const REFRESH_TOKEN_EXPIRY_DAYS = 7;
 
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Refresh tokens are stored hashed so a database leak does not yield usable tokens
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 // JWT payload structure
 export interface JwtPayload {
   userId: string;
   phone: string;
+  // Active organization chosen at login or via /auth/switch-organization.
+  // Membership is re-checked on every request, this is only the default.
+  organizationId?: string;
+  // Session (device login) the token was issued for; revoked sessions are rejected
+  sessionId?: string;
 }
 
 export interface TokenPair {
   accessToken: string;
   refreshToken: string;
   expiresIn: number; // seconds
+  sessionId: string;
+}
+
+export interface GenerateTokensOptions {
+  organizationId?: string;
+  sessionId?: string;
+  client?: SessionClientInfo;
 }
 
 export class JwtService {
@@ -29,37 +53,75 @@ export class JwtService {
   }
 
   /**
-   * Generate access and refresh tokens for a user
+   * Sign a short-lived access token for the given payload
    */
-  async generateTokens(userId: string, phone: string): Promise<TokenPair> {
+  signAccessToken(payload: JwtPayload): string {
     if (!this.fastifyInstance) {
       throw new Error('JWT service not initialized. Call setFastify() first.');
     }
 
-    const payload: JwtPayload = { userId, phone };
-
-    // Generate access token (short-lived)
-    const accessToken = this.fastifyInstance.jwt.sign(payload, {
+    return this.fastifyInstance.jwt.sign(payload, {
       expiresIn: ACCESS_TOKEN_EXPIRY,
     });
+  }
 
-    // Generate refresh token (long-lived, stored in DB)
-    const refreshToken = crypto.randomBytes(64).toString('hex');
-    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+  /**
+   * Generate access and refresh tokens for a user.
+   *
+   * Without a sessionId a new session (device login) is started. With one, the
+   * tokens are issued inside that session and its outstanding refresh tokens are
+   * retired, e.g. after switching organization.
+   */
+  async generateTokens(
+    userId: string,
+    phone: string,
+    options: GenerateTokensOptions = {}
+  ): Promise<TokenPair> {
+    if (!this.fastifyInstance) {
+      throw new Error('JWT service not initialized. Call setFastify() first.');
+    }
+
+    const { organizationId, client } = options;
+    let sessionId = options.sessionId;
+    // The session expires with its newest refresh token
+    const expiresAt = refreshTokenExpiry();
+
+    if (sessionId && (await sessionRepository.isActive(sessionId))) {
+      await prisma.refreshToken.updateMany({
+        where: { sessionId, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      await sessionRepository.touch(sessionId, { ...client, organizationId, expiresAt });
+    } else {
+      const session = await sessionRepository.create({
+        userId,
+        organizationId,
+        expiresAt,
+        ...client,
+      });
+      sessionId = session.id;
+    }
 
-    // Store refresh token in database
+    const refreshToken = crypto.randomBytes(64).toString('hex');
     await prisma.refreshToken.create({
       data: {
         userId,
-        token: refreshToken,
+        sessionId,
+        tokenHash: hashToken(refreshToken),
         expiresAt,
       },
     });
 
     return {
-      accessToken,
+      accessToken: this.signAccessToken({
+        userId,
+        phone,
+        sessionId,
+        ...(organizationId && { organizationId }),
+      }),
       refreshToken,
-      expiresIn: 15 * 60, // 15 minutes in seconds
+      expiresIn: ACCESS_TOKEN_EXPIRY_SECONDS,
+      sessionId,
     };
   }
 
@@ -79,49 +141,85 @@ export class JwtService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Exchange a refresh token for a new token pair (rotation).
+   *
+   * Each refresh token works once. Presenting a token that was already rotated
+   * means it leaked (or two clients share it), so the whole session is revoked.
    */
-  async refreshAccessToken(refreshToken: string): Promise<TokenPair> {
-    // Find refresh token in database
+  async refreshAccessToken(
+    refreshToken: string,
+    client: SessionClientInfo = {}
+  ): Promise<TokenPair & { organizationId: string | null }> {
     const storedToken = await prisma.refreshToken.findUnique({
-      where: { token: refreshToken },
-      include: { user: true },
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { user: true, session: true },
     });
 
     if (!storedToken) {
-      throw new Error('Invalid refresh token');
+      throw new DatabaseError('Invalid refresh token', 'INVALID_REFRESH_TOKEN', 401);
+    }
+
+    const { session } = storedToken;
+
+    if (session.revokedAt) {
+      throw new DatabaseError(
+        'Session has been revoked. Please log in again.',
+        'SESSION_REVOKED',
+        401
+      );
+    }
+
+    // Mark the token used; a concurrent or later second use finds nothing to update
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: storedToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      await sessionRepository.revoke(storedToken.userId, session.id, 'REUSE_DETECTED');
+      throw new DatabaseError(
+        'Refresh token was already used. All tokens for this session have been revoked.',
+        'REFRESH_TOKEN_REUSED',
+        401
+      );
     }
 
-    // Check if expired
-    if (storedToken.expiresAt < new Date()) {
-      // Clean up expired token
-      await prisma.refreshToken.delete({ where: { id: storedToken.id } });
-      throw new Error('Refresh token expired. Please log in again.');
+    if (storedToken.expiresAt < new Date() || session.expiresAt < new Date()) {
+      throw new DatabaseError(
+        'Refresh token expired. Please log in again.',
+        'REFRESH_TOKEN_EXPIRED',
+        401
+      );
     }
 
-    // Delete old refresh token (rotation)
-    await prisma.refreshToken.delete({ where: { id: storedToken.id } });
+    const organizationId = session.organizationId ?? undefined;
+    const tokens = await this.generateTokens(storedToken.userId, storedToken.user.phone || '', {
+      organizationId,
+      sessionId: session.id,
+      client,
+    });
 
-    // Generate new token pair
-    return this.generateTokens(storedToken.userId, storedToken.user.phone || '');
+    return { ...tokens, organizationId: session.organizationId };
   }
 
   /**
-   * Revoke a specific refresh token (logout)
+   * End the session a refresh token belongs to (logout)
    */
   async revokeRefreshToken(refreshToken: string): Promise<void> {
-    await prisma.refreshToken.deleteMany({
-      where: { token: refreshToken },
+    const storedToken = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
     });
+
+    if (storedToken) {
+      await sessionRepository.revoke(storedToken.userId, storedToken.sessionId, 'LOGOUT');
+    }
   }
 
   /**
-   * Revoke all refresh tokens for a user (logout all devices)
+   * Revoke all sessions for a user (logout all devices)
    */
-  async revokeAllUserTokens(userId: string): Promise<void> {
-    await prisma.refreshToken.deleteMany({
-      where: { userId },
-    });
+  async revokeAllUserTokens(userId: string, exceptSessionId?: string): Promise<number> {
+    return sessionRepository.revokeAllForUser(userId, 'LOGOUT_ALL', exceptSessionId);
   }
 
   /**
@@ -131,6 +229,7 @@ export class JwtService {
     const result = await prisma.refreshToken.deleteMany({
       where: { expiresAt: { lt: new Date() } },
     });
+    await sessionRepository.deleteStale(new Date());
     return result.count;
   }
 }
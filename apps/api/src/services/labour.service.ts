@@ -0,0 +1,496 @@
+/**
+ * Labour Service
+ *
+ * Daily attendance of the workers of labour parties at each project, and the
+ * wages it earns. Each worker has a rate card: a daily rate for a shift, with
+ * overtime hours paid at a multiple of the hourly rate and night shifts at a
+ * multiple of the day's wage. A week's attendance of a party is paid on a wage
+ * bill, which is posted as labour expenses; paid days can no longer be changed.
+ * Days worked on each stage are compared with the man-days the BOQ plans.
+ */
+
+import { DatabaseError } from '../lib/database-errors';
+import { prisma } from '../lib/prisma';
+import type { AuditHook } from '../repositories/audit.repository';
+import {
+  labourRepository,
+  type AttendanceEntryWithDetails,
+  type CreateWageBillLineData,
+  type LabourWorkerWithDetails,
+  type WageBillWithDetails,
+} from '../repositories/labour.repository';
+import { expenseService } from './expense.service';
+import type { AttendanceStatus } from '@prisma/client';
+
+// ============================================
+// Types
+// ============================================
+
+export interface WorkerInput {
+  partyId: string;
+  labourTypeItemId?: string | null;
+  name: string;
+  phone?: string | null;
+  dailyRate: number;
+  shiftHours?: number;
+  overtimeMultiplier?: number;
+  nightMultiplier?: number;
+}
+
+export interface WorkerUpdateInput extends Partial<Omit<WorkerInput, 'partyId'>> {
+  isActive?: boolean;
+}
+
+export interface AttendanceDayInput {
+  projectId: string;
+  stageId?: string | null;
+  // Day worked, as YYYY-MM-DD
+  date: string;
+  markedById?: string | null;
+  entries: Array<{
+    workerId: string;
+    status: AttendanceStatus;
+    overtimeHours?: number;
+    isNightShift?: boolean;
+    notes?: string | null;
+  }>;
+}
+
+export interface WageBillInput {
+  projectId: string;
+  partyId: string;
+  // First day of the week paid, as YYYY-MM-DD
+  weekStart: string;
+  createdById?: string | null;
+}
+
+export interface ManDayRow {
+  stageId: string | null;
+  stageName: string;
+  plannedManDays: number;
+  actualManDays: number;
+  // Actual less planned; positive when more days were worked than planned
+  varianceManDays: number;
+  variancePercent: number | null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// Units a BOQ labour item can be measured in for its quantity to count as man-days
+const MAN_DAY_UNITS = new Set(['day', 'days', 'man-day', 'man-days', 'manday', 'mandays', 'md']);
+
+const DAY_FRACTION: Record<AttendanceStatus, number> = {
+  PRESENT: 1,
+  HALF_DAY: 0.5,
+  ABSENT: 0,
+};
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDay(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * The rates a worker is paid at
+ */
+function rateCard(worker: LabourWorkerWithDetails) {
+  return {
+    dailyRate: worker.dailyRate.toNumber(),
+    shiftHours: worker.shiftHours.toNumber(),
+    overtimeMultiplier: worker.overtimeMultiplier.toNumber(),
+    nightMultiplier: worker.nightMultiplier.toNumber(),
+  };
+}
+
+/**
+ * Wage earned by a day of attendance on the worker's current rate card
+ */
+function dayWage(
+  entry: { status: AttendanceStatus; overtimeHours: number; isNightShift: boolean },
+  rates: ReturnType<typeof rateCard>
+): number {
+  const shift =
+    rates.dailyRate * DAY_FRACTION[entry.status] * (entry.isNightShift ? rates.nightMultiplier : 1);
+  const overtime =
+    (entry.overtimeHours * rates.dailyRate * rates.overtimeMultiplier) / rates.shiftHours;
+  return roundAmount(shift + overtime);
+}
+
+function withWage(entry: AttendanceEntryWithDetails) {
+  return {
+    ...entry,
+    manDays: DAY_FRACTION[entry.status],
+    wageAmount: dayWage(
+      {
+        status: entry.status,
+        overtimeHours: entry.overtimeHours.toNumber(),
+        isNightShift: entry.isNightShift,
+      },
+      rateCard(entry.worker)
+    ),
+  };
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class LabourService {
+  // ============================================
+  // Workers
+  // ============================================
+
+  async getWorkers(
+    organizationId: string,
+    filter: { partyId?: string; includeInactive?: boolean }
+  ) {
+    return labourRepository.findWorkers(organizationId, filter);
+  }
+
+  async getWorker(organizationId: string, id: string) {
+    const worker = await labourRepository.findWorkerById(organizationId, id);
+    if (!worker) {
+      throw new DatabaseError('Worker not found', 'NOT_FOUND', 404);
+    }
+    return worker;
+  }
+
+  async createWorker(organizationId: string, data: WorkerInput) {
+    const party = await labourRepository.findLabourParty(organizationId, data.partyId);
+    if (!party) {
+      throw new DatabaseError('Workers belong to a labour party', 'PARTY_NOT_LABOUR', 400);
+    }
+    await this.checkLabourType(organizationId, data.labourTypeItemId);
+
+    return labourRepository.createWorker(organizationId, data);
+  }
+
+  /**
+   * Change a worker's details or rate card. Days already paid keep the rates
+   * they were paid at.
+   */
+  async updateWorker(organizationId: string, id: string, data: WorkerUpdateInput) {
+    await this.checkLabourType(organizationId, data.labourTypeItemId);
+    return labourRepository.updateWorker(organizationId, id, data);
+  }
+
+  // ============================================
+  // Muster Roll
+  // ============================================
+
+  /**
+   * A project's attendance between two days, with the wage each day earns
+   */
+  async getAttendance(
+    organizationId: string,
+    projectId: string,
+    filter: { from: string; to: string; stageId?: string; partyId?: string }
+  ) {
+    await this.getProject(organizationId, projectId);
+    const entries = await labourRepository.findAttendance(organizationId, projectId, {
+      ...filter,
+      from: toDay(filter.from),
+      to: toDay(filter.to),
+    });
+    return entries.map(withWage);
+  }
+
+  /**
+   * Mark a day's attendance of workers at a project, replacing what they were
+   * marked as that day. Returns each entry with what it was before, if anything.
+   */
+  async markAttendance(organizationId: string, data: AttendanceDayInput) {
+    await this.getProject(organizationId, data.projectId);
+    if (data.stageId && !(await labourRepository.findStage(data.projectId, data.stageId))) {
+      throw new DatabaseError('Stage not found in this project', 'NOT_FOUND', 404);
+    }
+
+    const workerIds = data.entries.map((entry) => entry.workerId);
+    if (new Set(workerIds).size !== workerIds.length) {
+      throw new DatabaseError('A worker is marked only once a day', 'DUPLICATE_WORKER', 400);
+    }
+    const workers = await labourRepository.findWorkersByIds(organizationId, workerIds);
+    if (workers.length !== workerIds.length) {
+      throw new DatabaseError('Worker not found', 'NOT_FOUND', 404);
+    }
+
+    const date = toDay(data.date);
+    const existing = await labourRepository.findAttendanceOnDay(organizationId, workerIds, date);
+    for (const entry of existing) {
+      if (entry.wageBillId) {
+        throw new DatabaseError(
+          `${entry.worker.name}'s attendance on this day is already paid`,
+          'ATTENDANCE_BILLED',
+          400
+        );
+      }
+      if (entry.projectId !== data.projectId) {
+        throw new DatabaseError(
+          `${entry.worker.name} is already marked at another project on this day`,
+          'WORKER_AT_OTHER_PROJECT',
+          409
+        );
+      }
+    }
+
+    const saved = await labourRepository.upsertAttendance(
+      organizationId,
+      data.entries.map((entry) => ({
+        projectId: data.projectId,
+        stageId: data.stageId ?? null,
+        workerId: entry.workerId,
+        date,
+        status: entry.status,
+        overtimeHours: entry.overtimeHours ?? 0,
+        isNightShift: entry.isNightShift ?? false,
+        markedById: data.markedById ?? null,
+        notes: entry.notes ?? null,
+      }))
+    );
+
+    const before = new Map(existing.map((entry) => [entry.workerId, entry]));
+    return saved.map((entry) => ({ before: before.get(entry.workerId) ?? null, entry }));
+  }
+
+  // ============================================
+  // Wage Bills
+  // ============================================
+
+  async getWageBills(organizationId: string, projectId: string) {
+    await this.getProject(organizationId, projectId);
+    return labourRepository.findWageBills(organizationId, projectId);
+  }
+
+  async getWageBill(organizationId: string, id: string) {
+    const bill = await labourRepository.findWageBillById(organizationId, id);
+    if (!bill) {
+      throw new DatabaseError('Wage bill not found', 'NOT_FOUND', 404);
+    }
+    return bill;
+  }
+
+  /**
+   * Pay a labour party's unpaid attendance at a project for the week from
+   * weekStart, at each worker's current rate card. The wages are posted as
+   * labour expenses of the party, one for each stage and labour type, in one
+   * transaction with the bill and its audit entry. Raising the bill approves the
+   * wages: the expenses are posted approved, and change only with the bill.
+   */
+  async generateWageBill(
+    organizationId: string,
+    data: WageBillInput,
+    audit?: AuditHook<WageBillWithDetails>
+  ) {
+    await this.getProject(organizationId, data.projectId);
+    const party = await labourRepository.findLabourParty(organizationId, data.partyId);
+    if (!party) {
+      throw new DatabaseError('Wage bills are for labour parties', 'PARTY_NOT_LABOUR', 400);
+    }
+    const expenseType = await labourRepository.findLabourExpenseType(organizationId);
+    if (!expenseType) {
+      throw new DatabaseError(
+        'The Labour expense type is missing from this organization',
+        'LABOUR_EXPENSE_TYPE_MISSING',
+        400
+      );
+    }
+
+    const periodStart = toDay(data.weekStart);
+    const periodEnd = addDays(periodStart, 6);
+    const attendance = (
+      await labourRepository.findUnbilledAttendance(
+        organizationId,
+        data.projectId,
+        data.partyId,
+        periodStart,
+        periodEnd
+      )
+    ).map(withWage);
+    if (!attendance.some((entry) => entry.wageAmount > 0)) {
+      throw new DatabaseError(
+        'No unpaid attendance of this party in the week',
+        'NO_UNPAID_ATTENDANCE',
+        400
+      );
+    }
+
+    // One line for each worker, at the rates they are paid at
+    const lines = new Map<string, CreateWageBillLineData>();
+    // One expense for each stage and labour type
+    const postings = new Map<
+      string,
+      { stageId?: string; labourTypeItemId?: string; manDays: number; amount: number }
+    >();
+    for (const entry of attendance) {
+      const line = lines.get(entry.workerId) ?? {
+        workerId: entry.workerId,
+        manDays: 0,
+        overtimeHours: 0,
+        nightShifts: 0,
+        ...rateCard(entry.worker),
+        amount: 0,
+      };
+      line.manDays += entry.manDays;
+      line.overtimeHours += entry.overtimeHours.toNumber();
+      line.nightShifts += entry.isNightShift && entry.status !== 'ABSENT' ? 1 : 0;
+      line.amount = roundAmount(line.amount + entry.wageAmount);
+      lines.set(entry.workerId, line);
+
+      const key = `${entry.stageId ?? ''}:${entry.worker.labourTypeItemId ?? ''}`;
+      const posting = postings.get(key) ?? {
+        stageId: entry.stageId ?? undefined,
+        labourTypeItemId: entry.worker.labourTypeItemId ?? undefined,
+        manDays: 0,
+        amount: 0,
+      };
+      posting.manDays += entry.manDays;
+      posting.amount = roundAmount(posting.amount + entry.wageAmount);
+      postings.set(key, posting);
+    }
+
+    const billLines = [...lines.values()];
+    const period = `${data.weekStart} to ${periodEnd.toISOString().slice(0, 10)}`;
+    const bill = await prisma.$transaction(async (tx) => {
+      const created = await labourRepository.createWageBill(
+        organizationId,
+        {
+          projectId: data.projectId,
+          partyId: data.partyId,
+          periodStart,
+          periodEnd,
+          manDays: billLines.reduce((sum, line) => sum + line.manDays, 0),
+          overtimeHours: billLines.reduce((sum, line) => sum + line.overtimeHours, 0),
+          totalAmount: roundAmount(billLines.reduce((sum, line) => sum + line.amount, 0)),
+          createdById: data.createdById ?? null,
+          lines: billLines,
+          attendanceIds: attendance.map((entry) => entry.id),
+        },
+        tx
+      );
+
+      for (const posting of postings.values()) {
+        if (posting.amount <= 0) continue;
+        await expenseService.create(
+          organizationId,
+          {
+            projectId: data.projectId,
+            partyId: data.partyId,
+            stageId: posting.stageId,
+            expenseTypeItemId: expenseType.id,
+            labourTypeItemId: posting.labourTypeItemId,
+            description: `Wages ${period} (${posting.manDays} man-days)`,
+            rate: posting.amount,
+            quantity: 1,
+            expenseDate: periodEnd,
+            wageBillId: created.id,
+            submittedById: data.createdById ?? null,
+            status: 'APPROVED',
+          },
+          undefined,
+          tx
+        );
+      }
+
+      await audit?.(tx, created);
+      return created;
+    });
+
+    return this.getWageBill(organizationId, bill.id);
+  }
+
+  // ============================================
+  // Man-days
+  // ============================================
+
+  /**
+   * Man-days worked on each stage of a project against the man-days its BOQ
+   * labour items plan. Only labour items measured in days count as planned.
+   */
+  async getManDays(organizationId: string, projectId: string): Promise<ManDayRow[]> {
+    await this.getProject(organizationId, projectId);
+    const [stages, planned, worked] = await Promise.all([
+      labourRepository.findStages(projectId),
+      labourRepository.findPlannedLabour(organizationId, projectId),
+      labourRepository.findWorkedDays(organizationId, projectId),
+    ]);
+
+    const rows = new Map<string | null, ManDayRow>(
+      stages.map((stage) => [
+        stage.id,
+        {
+          stageId: stage.id,
+          stageName: stage.name,
+          plannedManDays: 0,
+          actualManDays: 0,
+          varianceManDays: 0,
+          variancePercent: null,
+        },
+      ])
+    );
+    const rowFor = (stageId: string | null) => {
+      const row = rows.get(stageId) ?? {
+        stageId: null,
+        stageName: 'No stage',
+        plannedManDays: 0,
+        actualManDays: 0,
+        varianceManDays: 0,
+        variancePercent: null,
+      };
+      rows.set(stageId, row);
+      return row;
+    };
+
+    for (const item of planned) {
+      if (!MAN_DAY_UNITS.has(item.unit.trim().toLowerCase())) continue;
+      const row = rowFor(item.stageId);
+      row.plannedManDays = roundAmount(row.plannedManDays + item.quantity.toNumber());
+    }
+    for (const day of worked) {
+      const row = rowFor(day.stageId);
+      row.actualManDays += DAY_FRACTION[day.status];
+    }
+
+    return [...rows.values()].map((row) => {
+      const varianceManDays = roundAmount(row.actualManDays - row.plannedManDays);
+      return {
+        ...row,
+        varianceManDays,
+        variancePercent:
+          row.plannedManDays > 0
+            ? Math.round((varianceManDays / row.plannedManDays) * 10000) / 100
+            : null,
+      };
+    });
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await labourRepository.findProject(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  private async checkLabourType(organizationId: string, labourTypeItemId?: string | null) {
+    if (!labourTypeItemId) return;
+    const labourType = await labourRepository.findLabourType(organizationId, labourTypeItemId);
+    if (!labourType) {
+      throw new DatabaseError('Labour type not found', 'NOT_FOUND', 404);
+    }
+  }
+}
+
+export const labourService = new LabourService();
@@ -3,13 +3,65 @@
 import { randomInt } from 'crypto';
 import bcrypt from 'bcrypt';
 import { prisma } from '../lib/prisma';
+import { DatabaseError } from '../lib/database-errors';
 import { smsService } from './sms';
+import { rateLimitStore } from './rate-limit';
 
 const OTP_EXPIRY_MINUTES = 5;
 const MAX_ATTEMPTS = 3;
 const SALT_ROUNDS = 10;
 const DEV_BYPASS_CODE = '123456';
 
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Abuse protection limits, configurable through the environment
+ */
+export const OTP_LIMITS = {
+  // OTPs sent to one phone number per window
+  phoneSendLimit: envInt('OTP_PHONE_SEND_LIMIT', 5),
+  phoneSendWindowMinutes: envInt('OTP_PHONE_SEND_WINDOW_MINUTES', 60),
+  // OTPs requested from one IP address per window (any phone)
+  ipSendLimit: envInt('OTP_IP_SEND_LIMIT', 20),
+  ipSendWindowMinutes: envInt('OTP_IP_SEND_WINDOW_MINUTES', 60),
+  // Minimum wait between two OTPs to the same phone
+  resendCooldownSeconds: envInt('OTP_RESEND_COOLDOWN_SECONDS', 30),
+  // OTPs burned through MAX_ATTEMPTS failures before the phone is locked
+  lockoutThreshold: envInt('OTP_LOCKOUT_THRESHOLD', 3),
+  lockoutWindowMinutes: envInt('OTP_LOCKOUT_WINDOW_MINUTES', 60),
+  lockoutMinutes: envInt('OTP_LOCKOUT_MINUTES', 30),
+};
+
+const limitKeys = {
+  phoneSends: (phone: string) => `otp:send:phone:${phone}`,
+  ipSends: (ip: string) => `otp:send:ip:${ip}`,
+  cooldown: (phone: string) => `otp:cooldown:${phone}`,
+  failures: (phone: string) => `otp:failures:${phone}`,
+  lock: (phone: string) => `otp:lock:${phone}`,
+};
+
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+function rateLimitError(message: string, code: string, until: Date): DatabaseError {
+  return new DatabaseError(message, code, 429, {
+    retryAfterSeconds: secondsUntil(until),
+    retryAt: until.toISOString(),
+  });
+}
+
+export interface SendOtpResult {
+  success: boolean;
+  expiresAt: Date;
+  // When the client may request the next OTP for this phone
+  resendAvailableAt: Date;
+  resendCooldownSeconds: number;
+}
+
 export class OtpService {
   /**
    * Generate a cryptographically secure 6-digit OTP code.
@@ -22,13 +74,136 @@ export class OtpService {
     return randomInt(100000, 1000000).toString();
   }
 
+  /**
+   * Reject requests for a phone that is locked after repeated failures
+   */
+  private async assertNotLocked(phone: string): Promise<void> {
+    const lock = await rateLimitStore().get(limitKeys.lock(phone));
+
+    if (lock) {
+      throw rateLimitError(
+        'Too many failed attempts. This number is temporarily locked.',
+        'OTP_LOCKED',
+        lock.expiresAt
+      );
+    }
+  }
+
+  /**
+   * Claim the resend cooldown for a phone, returning when it ends.
+   * Claimed atomically so concurrent requests cannot both send.
+   */
+  private async claimCooldown(phone: string): Promise<Date> {
+    const resendAvailableAt = new Date(Date.now() + OTP_LIMITS.resendCooldownSeconds * 1000);
+    const cooldown = await rateLimitStore().setIfAbsent(limitKeys.cooldown(phone), {
+      count: 1,
+      expiresAt: resendAvailableAt,
+    });
+
+    if (cooldown) {
+      throw rateLimitError(
+        'Please wait before requesting another OTP.',
+        'OTP_COOLDOWN',
+        cooldown.expiresAt
+      );
+    }
+
+    return resendAvailableAt;
+  }
+
+  /**
+   * Apply per-IP then per-phone send limits, so a blocked network does not
+   * use up the phone's allowance
+   */
+  private async assertWithinSendLimits(phone: string, ipAddress?: string): Promise<void> {
+    const store = rateLimitStore();
+
+    if (ipAddress) {
+      const ipSends = await store.increment(
+        limitKeys.ipSends(ipAddress),
+        OTP_LIMITS.ipSendWindowMinutes * 60 * 1000
+      );
+      if (ipSends.count > OTP_LIMITS.ipSendLimit) {
+        throw rateLimitError(
+          'Too many OTP requests from this network. Please try again later.',
+          'OTP_RATE_LIMITED',
+          ipSends.expiresAt
+        );
+      }
+    }
+
+    const phoneSends = await store.increment(
+      limitKeys.phoneSends(phone),
+      OTP_LIMITS.phoneSendWindowMinutes * 60 * 1000
+    );
+    if (phoneSends.count > OTP_LIMITS.phoneSendLimit) {
+      throw rateLimitError(
+        'Too many OTP requests for this number. Please try again later.',
+        'OTP_RATE_LIMITED',
+        phoneSends.expiresAt
+      );
+    }
+  }
+
+  /**
+   * Count an OTP whose attempts were all used up; lock the phone when it keeps happening
+   */
+  private async recordExhaustedOtp(phone: string): Promise<void> {
+    const store = rateLimitStore();
+    const failures = await store.increment(
+      limitKeys.failures(phone),
+      OTP_LIMITS.lockoutWindowMinutes * 60 * 1000
+    );
+
+    if (failures.count < OTP_LIMITS.lockoutThreshold) {
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + OTP_LIMITS.lockoutMinutes * 60 * 1000);
+    await store.set(limitKeys.lock(phone), { count: failures.count, expiresAt: lockedUntil });
+    await store.delete(limitKeys.failures(phone));
+    await store.delete(limitKeys.cooldown(phone));
+
+    throw rateLimitError(
+      'Too many failed attempts. This number is temporarily locked.',
+      'OTP_LOCKED',
+      lockedUntil
+    );
+  }
+
   /**
    * Send OTP to phone number
+   * - Enforces lockout, resend cooldown and per-IP / per-phone limits
    * - Generates new OTP
    * - Hashes and stores in database
    * - Sends via SMS (or logs in dev mode)
    */
-  async sendOtp(phone: string): Promise<{ success: boolean; expiresAt: Date }> {
+  async sendOtp(phone: string, ipAddress?: string): Promise<SendOtpResult> {
+    await this.assertNotLocked(phone);
+    const resendAvailableAt = await this.claimCooldown(phone);
+
+    try {
+      const expiresAt = await this.issueOtp(phone, ipAddress);
+
+      return {
+        success: true,
+        expiresAt,
+        resendAvailableAt,
+        resendCooldownSeconds: OTP_LIMITS.resendCooldownSeconds,
+      };
+    } catch (error) {
+      // Nothing was sent, so the caller may try again straight away
+      await rateLimitStore().delete(limitKeys.cooldown(phone));
+      throw error;
+    }
+  }
+
+  /**
+   * Check the send limits, then store and send a new OTP. Returns its expiry.
+   */
+  private async issueOtp(phone: string, ipAddress?: string): Promise<Date> {
+    await this.assertWithinSendLimits(phone, ipAddress);
+
     // Clean up any existing unverified OTPs for this phone
     await prisma.otpVerification.deleteMany({
       where: {
@@ -54,7 +229,7 @@ export class OtpService {
     // Send OTP via SMS service (console in dev, real SMS in prod)
     await smsService().sendOtp(phone, code);
 
-    return { success: true, expiresAt };
+    return expiresAt;
   }
 
   /**
@@ -64,6 +239,8 @@ export class OtpService {
   async verifyOtp(phone: string, code: string): Promise<boolean> {
     const isDev = process.env.OTP_MODE === 'development';
 
+    await this.assertNotLocked(phone);
+
     // In dev mode, accept bypass code
     if (isDev && code === DEV_BYPASS_CODE) {
       // Mark any existing OTP as verified (for cleanup)
@@ -85,30 +262,56 @@ export class OtpService {
     });
 
     if (!otpRecord) {
-      throw new Error('OTP expired or not found. Please request a new one.');
-    }
-
-    // Check max attempts
-    if (otpRecord.attempts >= MAX_ATTEMPTS) {
-      throw new Error('Too many attempts. Please request a new OTP.');
+      throw new DatabaseError(
+        'OTP expired or not found. Please request a new one.',
+        'OTP_NOT_FOUND',
+        400
+      );
     }
 
-    // Increment attempt count
-    await prisma.otpVerification.update({
-      where: { id: otpRecord.id },
+    // Claim an attempt; concurrent guesses cannot share the last one
+    const claimed = await prisma.otpVerification.updateMany({
+      where: { id: otpRecord.id, attempts: { lt: MAX_ATTEMPTS } },
       data: { attempts: { increment: 1 } },
     });
 
+    if (claimed.count === 0) {
+      // Throws OTP_LOCKED when this phone keeps exhausting its OTPs
+      await this.recordExhaustedOtp(phone);
+      throw new DatabaseError(
+        'Too many attempts. Please request a new OTP.',
+        'OTP_ATTEMPTS_EXHAUSTED',
+        400,
+        { remainingAttempts: 0 }
+      );
+    }
+
     // Verify the code
     const isValid = await bcrypt.compare(code, otpRecord.code);
 
     if (!isValid) {
-      const remainingAttempts = MAX_ATTEMPTS - (otpRecord.attempts + 1);
+      const { attempts } = await prisma.otpVerification.findUniqueOrThrow({
+        where: { id: otpRecord.id },
+        select: { attempts: true },
+      });
+      const remainingAttempts = MAX_ATTEMPTS - attempts;
       if (remainingAttempts > 0) {
-        throw new Error(`Invalid OTP. ${remainingAttempts} attempts remaining.`);
-      } else {
-        throw new Error('Invalid OTP. Please request a new one.');
+        throw new DatabaseError(
+          `Invalid OTP. ${remainingAttempts} attempts remaining.`,
+          'INVALID_OTP',
+          400,
+          { remainingAttempts }
+        );
       }
+
+      // Throws OTP_LOCKED when this phone keeps exhausting its OTPs
+      await this.recordExhaustedOtp(phone);
+      throw new DatabaseError(
+        'Invalid OTP. Please request a new one.',
+        'OTP_ATTEMPTS_EXHAUSTED',
+        400,
+        { remainingAttempts: 0 }
+      );
     }
 
     // Mark as verified
@@ -116,6 +319,7 @@ export class OtpService {
       where: { id: otpRecord.id },
       data: { verified: true },
     });
+    await rateLimitStore().delete(limitKeys.failures(phone));
 
     return true;
   }
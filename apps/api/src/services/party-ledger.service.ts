@@ -0,0 +1,82 @@
+// Party Ledger Service - Advances, credit notes, refunds and write-offs on a party's account
+
+import type { PartyLedgerEntryType } from '@prisma/client';
+import { DatabaseError } from '../lib/database-errors';
+import {
+  partyLedgerRepository,
+  type CreatePartyLedgerEntryData,
+  type PartyLedgerEntryWithAttachments,
+  type UpdatePartyLedgerEntryData,
+} from '../repositories/party-ledger.repository';
+import { partyRepository } from '../repositories/party.repository';
+import { projectRepository } from '../repositories/project.repository';
+import { storageService } from './storage.service';
+
+/**
+ * Only advances and refunds move money; credit notes and write-offs are adjustments
+ */
+function movesMoney(type: PartyLedgerEntryType): boolean {
+  return type === 'ADVANCE' || type === 'REFUND';
+}
+
+export class PartyLedgerService {
+  async findById(organizationId: string, id: string) {
+    return partyLedgerRepository.findById(organizationId, id);
+  }
+
+  async create(organizationId: string, data: CreatePartyLedgerEntryData) {
+    const project = await projectRepository.findById(organizationId, data.projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    await this.validateParty(organizationId, data.partyId);
+
+    return partyLedgerRepository.create(organizationId, {
+      ...data,
+      paymentMode: movesMoney(data.type) ? data.paymentMode : undefined,
+    });
+  }
+
+  async update(
+    organizationId: string,
+    existing: PartyLedgerEntryWithAttachments,
+    data: UpdatePartyLedgerEntryData
+  ) {
+    const type = data.type ?? existing.type;
+
+    return partyLedgerRepository.update(organizationId, existing.id, {
+      ...data,
+      paymentMode: movesMoney(type) ? data.paymentMode : null,
+    });
+  }
+
+  /**
+   * Delete an entry and remove its attachments from storage
+   */
+  async delete(organizationId: string, id: string) {
+    const attachments = await partyLedgerRepository.delete(organizationId, id);
+    await Promise.all(
+      attachments.map((attachment) => storageService.deleteFile(attachment.storagePath))
+    );
+  }
+
+  /**
+   * Ledger entries are kept for vendors, labour and subcontractors. Clients pay
+   * through the payment schedule instead.
+   */
+  private async validateParty(organizationId: string, partyId: string) {
+    const party = await partyRepository.findById(organizationId, partyId);
+    if (!party) {
+      throw new DatabaseError('Party not found', 'NOT_FOUND', 404);
+    }
+    if (party.type === 'CLIENT') {
+      throw new DatabaseError(
+        'Ledger entries can only be recorded for vendors, labour and subcontractors',
+        'INVALID_PARTY',
+        400
+      );
+    }
+  }
+}
+
+export const partyLedgerService = new PartyLedgerService();
@@ -0,0 +1,488 @@
+/**
+ * Party Statement Service
+ *
+ * Builds a party's ledger statement for a period - opening balance, dated
+ * debits and credits with a running balance, closing balance - and renders it
+ * as a branded PDF or Excel workbook to share with the party.
+ */
+
+import ExcelJS from 'exceljs';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { PartyType } from '@prisma/client';
+import { DatabaseError } from '../lib/database-errors';
+import { fitText, pdfSafe } from '../lib/pdf';
+import { partyRepository, type PartyStatementLine } from '../repositories/party.repository';
+import { projectRepository } from '../repositories/project.repository';
+import { organizationRepository } from '../repositories/organization.repository';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PartyStatementEntry extends PartyStatementLine {
+  /** Owed to the party after this line; negative when the party owes us */
+  balance: number;
+}
+
+export interface PartyStatement {
+  organizationName: string;
+  party: {
+    id: string;
+    name: string;
+    type: PartyType;
+    phone: string | null;
+    location: string;
+  };
+  project: { id: string; name: string } | null;
+  /** Start of the period; the statement covers all history when not set */
+  from: Date | null;
+  to: Date;
+  openingBalance: number;
+  entries: PartyStatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  generatedAt: Date;
+}
+
+export interface PartyStatementOptions {
+  from?: Date;
+  to?: Date;
+  projectId?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const KIND_LABELS: Record<PartyStatementLine['kind'], string> = {
+  BILL: 'Bill',
+  PAYMENT: 'Payment',
+  ADVANCE: 'Advance',
+  CREDIT_NOTE: 'Credit Note',
+  REFUND: 'Refund',
+  WRITE_OFF: 'Write-off',
+};
+
+const PARTY_TYPE_LABELS: Record<PartyType, string> = {
+  VENDOR: 'Vendor',
+  LABOUR: 'Labour',
+  SUBCONTRACTOR: 'Sub Contractor',
+  CLIENT: 'Client',
+};
+
+const BRAND = 'Worksite';
+
+// ============================================
+// Helpers
+// ============================================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Balances read as Cr when owed to the party and Dr when the party owes us
+ */
+function formatBalance(balance: number): string {
+  if (round2(balance) === 0) return formatAmount(0);
+  return `${formatAmount(Math.abs(balance))} ${balance > 0 ? 'Cr' : 'Dr'}`;
+}
+
+function describeBalance(balance: number): string {
+  if (round2(balance) === 0) return 'Settled';
+  return balance > 0 ? 'Payable to party' : 'Receivable from party';
+}
+
+function particulars(line: PartyStatementLine): string {
+  const reference = line.reference ? ` (Ref ${line.reference})` : '';
+  return `${KIND_LABELS[line.kind]}${reference}: ${line.narration}`;
+}
+
+function periodLabel(statement: PartyStatement): string {
+  return statement.from
+    ? `${formatDate(statement.from)} to ${formatDate(statement.to)}`
+    : `Up to ${formatDate(statement.to)}`;
+}
+
+/**
+ * File name for a download, e.g. "statement-acme-traders-2026-03-31.pdf"
+ */
+export function statementFileName(statement: PartyStatement, extension: 'pdf' | 'xlsx'): string {
+  const slug = statement.party.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `statement-${slug || 'party'}-${statement.to.toISOString().slice(0, 10)}.${extension}`;
+}
+
+// ============================================
+// PDF Layout
+// ============================================
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 8;
+
+const PDF_COLUMNS = [
+  { header: 'Date', width: 58, align: 'left' },
+  { header: 'Particulars', width: 180, align: 'left' },
+  { header: 'Project', width: 72, align: 'left' },
+  { header: 'Debit', width: 64, align: 'right' },
+  { header: 'Credit', width: 64, align: 'right' },
+  { header: 'Balance', width: 77.28, align: 'right' },
+] as const;
+
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.85, 0.85, 0.85);
+
+class StatementPdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly bold: PDFFont
+  ) {}
+
+  newPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  text(
+    value: string,
+    options: { size?: number; bold?: boolean; x?: number; color?: ReturnType<typeof rgb> } = {}
+  ) {
+    const size = options.size ?? FONT_SIZE;
+    this.page.drawText(pdfSafe(value), {
+      x: options.x ?? MARGIN,
+      y: this.y,
+      size,
+      font: options.bold ? this.bold : this.font,
+      color: options.color,
+    });
+  }
+
+  moveDown(amount: number) {
+    this.y -= amount;
+  }
+
+  /** Line under the current row; text sits on a baseline 5pt above the row bottom */
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y - 5 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y - 5 },
+      thickness: 0.5,
+      color: RULE,
+    });
+  }
+
+  row(cells: string[], options: { bold?: boolean } = {}) {
+    // Leave room for the footer; repeat the header on each new page
+    if (this.y < MARGIN + ROW_HEIGHT * 2) {
+      this.newPage();
+      this.tableHeader();
+    }
+
+    const font = options.bold ? this.bold : this.font;
+    let x = MARGIN;
+    PDF_COLUMNS.forEach((column, index) => {
+      const value = fitText(cells[index] ?? '', font, FONT_SIZE, column.width - 6);
+      const offset =
+        column.align === 'right' ? column.width - 4 - font.widthOfTextAtSize(value, FONT_SIZE) : 2;
+      this.page.drawText(value, { x: x + offset, y: this.y, size: FONT_SIZE, font });
+      x += column.width;
+    });
+    this.rule();
+    this.moveDown(ROW_HEIGHT);
+  }
+
+  tableHeader() {
+    this.page.drawRectangle({
+      x: MARGIN,
+      y: this.y - 5,
+      width: PAGE_WIDTH - MARGIN * 2,
+      height: ROW_HEIGHT,
+      color: rgb(0.94, 0.94, 0.94),
+    });
+    this.row(
+      PDF_COLUMNS.map((column) => column.header),
+      { bold: true }
+    );
+  }
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class PartyStatementService {
+  async build(
+    organizationId: string,
+    partyId: string,
+    options: PartyStatementOptions
+  ): Promise<PartyStatement> {
+    const party = await partyRepository.findById(organizationId, partyId);
+    if (!party) {
+      throw new DatabaseError('Party not found', 'NOT_FOUND', 404);
+    }
+
+    let project: PartyStatement['project'] = null;
+    if (options.projectId) {
+      const found = await projectRepository.findById(organizationId, options.projectId);
+      if (!found) {
+        throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+      }
+      project = { id: found.id, name: found.name };
+    }
+
+    const to = options.to ?? new Date();
+    const from = options.from ?? null;
+    if (from && from > to) {
+      throw new DatabaseError('Start date must be before end date', 'INVALID_PERIOD', 400);
+    }
+
+    const organization = await organizationRepository.findById(organizationId);
+    const lines = await partyRepository.getStatementLines(organizationId, partyId, {
+      projectId: options.projectId,
+      to,
+    });
+
+    // Everything before the period rolls into the opening balance
+    let balance = 0;
+    const entries: PartyStatementEntry[] = [];
+    for (const line of lines) {
+      balance = round2(balance + line.credit - line.debit);
+      if (!from || line.date >= from) {
+        entries.push({ ...line, balance });
+      }
+    }
+
+    const totalDebit = round2(entries.reduce((sum, entry) => sum + entry.debit, 0));
+    const totalCredit = round2(entries.reduce((sum, entry) => sum + entry.credit, 0));
+
+    return {
+      organizationName: organization?.name ?? '',
+      party: {
+        id: party.id,
+        name: party.name,
+        type: party.type,
+        phone: party.phone,
+        location: party.location,
+      },
+      project,
+      from,
+      to,
+      openingBalance: round2(balance - totalCredit + totalDebit),
+      entries,
+      totalDebit,
+      totalCredit,
+      closingBalance: balance,
+      generatedAt: new Date(),
+    };
+  }
+
+  async toPdf(statement: PartyStatement): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+    doc.setTitle(`Statement - ${pdfSafe(statement.party.name)}`);
+    doc.setProducer(BRAND);
+
+    const writer = new StatementPdfWriter(doc, font, bold);
+    writer.newPage();
+
+    // Letterhead
+    writer.text(statement.organizationName, { size: 16, bold: true });
+    writer.moveDown(20);
+    writer.text('Party Ledger Statement', { size: 11, color: MUTED });
+    writer.moveDown(24);
+
+    // Party and period
+    const { party } = statement;
+    writer.text(party.name, { size: 11, bold: true });
+    writer.text(`Period: ${periodLabel(statement)}`, { x: 360 });
+    writer.moveDown(14);
+    writer.text(`${PARTY_TYPE_LABELS[party.type]} - ${party.location}`, { color: MUTED });
+    writer.text(`Project: ${statement.project?.name ?? 'All projects'}`, { x: 360 });
+    writer.moveDown(12);
+    if (party.phone) {
+      writer.text(`Phone: ${party.phone}`, { color: MUTED });
+    }
+    writer.moveDown(24);
+
+    // Ledger
+    writer.tableHeader();
+    writer.row(
+      [
+        statement.from ? formatDate(statement.from) : '',
+        'Opening balance',
+        '',
+        '',
+        '',
+        formatBalance(statement.openingBalance),
+      ],
+      { bold: true }
+    );
+    for (const entry of statement.entries) {
+      writer.row([
+        formatDate(entry.date),
+        particulars(entry),
+        entry.projectName,
+        entry.debit ? formatAmount(entry.debit) : '',
+        entry.credit ? formatAmount(entry.credit) : '',
+        formatBalance(entry.balance),
+      ]);
+    }
+    writer.row(
+      [
+        '',
+        'Total',
+        '',
+        formatAmount(statement.totalDebit),
+        formatAmount(statement.totalCredit),
+        '',
+      ],
+      { bold: true }
+    );
+    writer.row(
+      [
+        formatDate(statement.to),
+        `Closing balance (${describeBalance(statement.closingBalance)})`,
+        '',
+        '',
+        '',
+        formatBalance(statement.closingBalance),
+      ],
+      { bold: true }
+    );
+
+    // Footer on every page
+    const pages = doc.getPages();
+    pages.forEach((page, index) => {
+      page.drawText(pdfSafe(`Generated on ${formatDate(statement.generatedAt)} with ${BRAND}`), {
+        x: MARGIN,
+        y: MARGIN / 2,
+        size: 7,
+        font,
+        color: MUTED,
+      });
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pageLabel, 7),
+        y: MARGIN / 2,
+        size: 7,
+        font,
+        color: MUTED,
+      });
+    });
+
+    return Buffer.from(await doc.save());
+  }
+
+  async toXlsx(statement: PartyStatement): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = BRAND;
+    workbook.created = statement.generatedAt;
+
+    const sheet = workbook.addWorksheet('Statement');
+    sheet.columns = [
+      { key: 'date', width: 14 },
+      { key: 'type', width: 14 },
+      { key: 'reference', width: 14 },
+      { key: 'narration', width: 48 },
+      { key: 'project', width: 24 },
+      { key: 'debit', width: 14 },
+      { key: 'credit', width: 14 },
+      { key: 'balance', width: 16 },
+    ];
+
+    // Letterhead
+    sheet.addRow([statement.organizationName]).font = { bold: true, size: 14 };
+    sheet.addRow(['Party Ledger Statement']).font = { color: { argb: 'FF666666' } };
+    sheet.addRow([]);
+    sheet.addRow(['Party', statement.party.name]);
+    sheet.addRow(['Type', PARTY_TYPE_LABELS[statement.party.type]]);
+    if (statement.party.phone) sheet.addRow(['Phone', statement.party.phone]);
+    sheet.addRow(['Period', periodLabel(statement)]);
+    sheet.addRow(['Project', statement.project?.name ?? 'All projects']);
+    sheet.addRow([]);
+
+    const header = sheet.addRow([
+      'Date',
+      'Type',
+      'Reference',
+      'Narration',
+      'Project',
+      'Debit',
+      'Credit',
+      'Balance',
+    ]);
+    header.font = { bold: true };
+    header.eachCell((cell) => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFEFEFEF' } };
+    });
+
+    // Balances are signed: positive is owed to the party
+    const opening = sheet.addRow({
+      date: statement.from ?? undefined,
+      narration: 'Opening balance',
+      balance: statement.openingBalance,
+    });
+    opening.font = { bold: true };
+
+    for (const entry of statement.entries) {
+      sheet.addRow({
+        date: entry.date,
+        type: KIND_LABELS[entry.kind],
+        reference: entry.reference ?? '',
+        narration: entry.narration,
+        project: entry.projectName,
+        debit: entry.debit || undefined,
+        credit: entry.credit || undefined,
+        balance: entry.balance,
+      });
+    }
+
+    const totals = sheet.addRow({
+      narration: 'Total',
+      debit: statement.totalDebit,
+      credit: statement.totalCredit,
+    });
+    totals.font = { bold: true };
+
+    const closing = sheet.addRow({
+      date: statement.to,
+      narration: `Closing balance (${describeBalance(statement.closingBalance)})`,
+      balance: statement.closingBalance,
+    });
+    closing.font = { bold: true };
+
+    sheet.getColumn('date').numFmt = 'dd-mmm-yyyy';
+    for (const key of ['debit', 'credit', 'balance']) {
+      sheet.getColumn(key).numFmt = '#,##0.00';
+    }
+
+    sheet.addRow([]);
+    sheet.addRow([`Generated on ${formatDate(statement.generatedAt)} with ${BRAND}`]).font = {
+      italic: true,
+      color: { argb: 'FF999999' },
+    };
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+}
+
+export const partyStatementService = new PartyStatementService();
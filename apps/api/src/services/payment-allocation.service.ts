@@ -0,0 +1,244 @@
+// Payment Allocation Service - Splitting party payments across the party's expenses
+
+import type { Prisma } from '@prisma/client';
+import { inTransaction } from '../lib/prisma';
+import { DatabaseError } from '../lib/database-errors';
+import {
+  paymentAllocationRepository,
+  type ExpenseAllocationEntry,
+  type PartyBill,
+} from '../repositories/payment-allocation.repository';
+
+export interface ExpenseAllocation {
+  expenseId: string;
+  amount: number;
+}
+
+interface PartyRef {
+  projectId: string;
+  partyId: string | null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function billAmount(bill: PartyBill): number {
+  return roundMoney(bill.rate.toNumber() * bill.quantity.toNumber());
+}
+
+/**
+ * What payments cover of a bill, leaving out one payment when it is being reallocated
+ */
+function coveredOf(bill: PartyBill, exceptPaymentId?: string): number {
+  return roundMoney(
+    bill.allocations
+      .filter((allocation) => allocation.paymentId !== exceptPaymentId)
+      .reduce((sum, allocation) => sum + allocation.amount.toNumber(), 0)
+  );
+}
+
+/**
+ * Allocation passes run in the caller's transaction, or in one of their own, so the
+ * party's bills stay locked until the pass is saved
+ */
+export class PaymentAllocationService {
+  /**
+   * Check allocations chosen by hand for a party payment. Inside the transaction
+   * saving the payment, the party's bills stay locked until it is allocated.
+   */
+  async validateAllocations(
+    organizationId: string,
+    party: PartyRef,
+    paymentAmount: number,
+    allocations: ExpenseAllocation[],
+    paymentId?: string,
+    tx?: Prisma.TransactionClient
+  ) {
+    if (allocations.length === 0) return;
+
+    if (!party.partyId) {
+      throw new DatabaseError(
+        'Only payments to a party can be allocated to expenses',
+        'VALIDATION_ERROR',
+        400
+      );
+    }
+
+    const total = roundMoney(allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+    if (total > paymentAmount) {
+      throw new DatabaseError(
+        'Allocations add up to more than the payment amount',
+        'ALLOCATION_EXCEEDS_PAYMENT',
+        400
+      );
+    }
+
+    const bills = await paymentAllocationRepository.findPartyBills(
+      organizationId,
+      party.projectId,
+      party.partyId,
+      tx
+    );
+
+    for (const allocation of allocations) {
+      const bill = bills.find((item) => item.id === allocation.expenseId);
+      if (!bill) {
+        throw new DatabaseError('Expense not found for this party', 'NOT_FOUND', 404);
+      }
+
+      const open = roundMoney(billAmount(bill) - coveredOf(bill, paymentId));
+      if (allocation.amount > open) {
+        throw new DatabaseError(
+          `Only ${open} is outstanding on "${bill.description || bill.expenseType.name}"`,
+          'ALLOCATION_EXCEEDS_EXPENSE',
+          400
+        );
+      }
+    }
+  }
+
+  /**
+   * Allocate a party payment across the party's expenses. Amounts chosen by hand are
+   * kept as they are, and whatever they leave stays on account as an advance.
+   * Otherwise the expense the payment was recorded against is paid first, then the
+   * oldest bills still open, and anything beyond that stays on account.
+   */
+  async allocatePayment(
+    organizationId: string,
+    paymentId: string,
+    allocations?: ExpenseAllocation[],
+    tx?: Prisma.TransactionClient
+  ) {
+    return inTransaction(tx, async (client) => {
+      const payment = await paymentAllocationRepository.findPayment(
+        organizationId,
+        paymentId,
+        client
+      );
+      if (!payment) return;
+
+      if (payment.type !== 'OUT' || !payment.partyId) {
+        await paymentAllocationRepository.replacePaymentAllocations(paymentId, [], false, client);
+        return;
+      }
+
+      let entries: ExpenseAllocationEntry[] = (allocations ?? [])
+        .filter((allocation) => allocation.amount > 0)
+        .map((allocation) => ({ ...allocation, paymentId }));
+
+      if (!allocations && payment.expenseId) {
+        const bills = await paymentAllocationRepository.findPartyBills(
+          organizationId,
+          payment.projectId,
+          payment.partyId,
+          client
+        );
+        const bill = bills.find((item) => item.id === payment.expenseId);
+        const open = bill ? roundMoney(billAmount(bill) - coveredOf(bill, paymentId)) : 0;
+        const amount = Math.min(payment.amount.toNumber(), open);
+
+        entries = amount > 0 ? [{ paymentId, expenseId: payment.expenseId, amount }] : [];
+      }
+
+      await paymentAllocationRepository.replacePaymentAllocations(
+        paymentId,
+        entries,
+        allocations !== undefined,
+        client
+      );
+      if (!allocations) {
+        await this.allocateParty(organizationId, payment.projectId, payment.partyId, client);
+      }
+    });
+  }
+
+  /**
+   * Free what a payment covered, for when it is moved to the Trash or changes party
+   */
+  async releasePayment(
+    organizationId: string,
+    payment: { id: string } & PartyRef,
+    tx?: Prisma.TransactionClient
+  ) {
+    return inTransaction(tx, async (client) => {
+      await paymentAllocationRepository.replacePaymentAllocations(payment.id, [], false, client);
+      if (payment.partyId) {
+        await this.allocateParty(organizationId, payment.projectId, payment.partyId, client);
+      }
+    });
+  }
+
+  /**
+   * Free what was paid against an expense, for when it is moved to the Trash or its
+   * amount or party changes. The party's payments are allocated again.
+   */
+  async releaseExpense(
+    organizationId: string,
+    expense: { id: string } & PartyRef,
+    tx?: Prisma.TransactionClient
+  ) {
+    return inTransaction(tx, async (client) => {
+      await paymentAllocationRepository.clearExpenseAllocations(expense.id, client);
+      if (expense.partyId) {
+        await this.allocateParty(organizationId, expense.projectId, expense.partyId, client);
+      }
+    });
+  }
+
+  /**
+   * Allocate what a party's payments have not yet covered to its open bills,
+   * oldest payment first and oldest bill first. Payments allocated by hand are skipped.
+   */
+  async allocateParty(
+    organizationId: string,
+    projectId: string,
+    partyId: string,
+    tx?: Prisma.TransactionClient
+  ) {
+    return inTransaction(tx, async (client) => {
+      // Bills first: their lock holds off other allocations before payments are read
+      const bills = await paymentAllocationRepository.findPartyBills(
+        organizationId,
+        projectId,
+        partyId,
+        client
+      );
+      const payments = await paymentAllocationRepository.findPartyPayments(
+        organizationId,
+        projectId,
+        partyId,
+        client
+      );
+
+      const open = bills.map((bill) => ({
+        id: bill.id,
+        remaining: roundMoney(billAmount(bill) - coveredOf(bill)),
+      }));
+
+      const entries: ExpenseAllocationEntry[] = [];
+      for (const payment of payments) {
+        let left = roundMoney(
+          payment.amount.toNumber() -
+            payment.allocations.reduce((sum, item) => sum + item.amount.toNumber(), 0)
+        );
+
+        for (const bill of open) {
+          if (left <= 0) break;
+          if (bill.remaining <= 0) continue;
+
+          const amount = Math.min(left, bill.remaining);
+          entries.push({ paymentId: payment.id, expenseId: bill.id, amount });
+          bill.remaining = roundMoney(bill.remaining - amount);
+          left = roundMoney(left - amount);
+        }
+      }
+
+      if (entries.length > 0) {
+        await paymentAllocationRepository.addAllocations(entries, client);
+      }
+    });
+  }
+}
+
+export const paymentAllocationService = new PaymentAllocationService();
@@ -0,0 +1,55 @@
+import { permissionRepository } from '../repositories/permission.repository';
+import type { RoleWithPermissions } from '../repositories/role.repository';
+import { DatabaseError } from '../lib/database-errors';
+import { ALL_PERMISSION_KEYS, type RoleAccess } from '../lib/permissions';
+
+/**
+ * The caller handing out a role: their own role's reach and resolved keys
+ */
+export interface RoleGrantor extends RoleAccess {
+  permissions: ReadonlySet<string>;
+}
+
+/**
+ * A role's reach and granted permissions, as stored or as about to be saved
+ */
+export type GrantedRole = RoleAccess & Pick<RoleWithPermissions, 'permissions'>;
+
+/**
+ * Permission Service
+ *
+ * Resolves the effective permission keys for a member's role from RolePermission.
+ * A full-access role (the ADMIN system role) always holds every permission so an
+ * organization can never lock itself out of role management.
+ */
+export class PermissionService {
+  async getRolePermissions(roleId: string, fullAccess: boolean): Promise<Set<string>> {
+    if (fullAccess) {
+      return new Set(ALL_PERMISSION_KEYS);
+    }
+
+    const keys = await permissionRepository.findKeysByRoleId(roleId);
+    return new Set(keys);
+  }
+
+  /**
+   * Reject giving someone a role that reaches further than the caller's own,
+   * so team.manage cannot be used to hand out rights the caller does not have
+   */
+  assertCanGrant(role: GrantedRole, grantor: RoleGrantor): void {
+    const exceeds =
+      (role.fullAccess && !grantor.fullAccess) ||
+      (!role.projectScoped && grantor.projectScoped) ||
+      role.permissions.some((rp) => !grantor.permissions.has(rp.permission.key));
+
+    if (exceeds) {
+      throw new DatabaseError(
+        'You cannot give someone a role with more access than your own',
+        'ROLE_ABOVE_CALLER',
+        403
+      );
+    }
+  }
+}
+
+export const permissionService = new PermissionService();
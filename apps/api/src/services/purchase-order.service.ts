@@ -0,0 +1,370 @@
+/**
+ * Purchase Order Service
+ *
+ * Orders placed with a project's vendors. An order is approved before it is
+ * placed; goods received notes then record what was delivered at site, and
+ * vendor bills (expenses) are matched against its lines. The three-way match of
+ * ordered, received and billed flags bills whose rate differs from the agreed
+ * rate, and bills for more than was received, so they are checked before payment.
+ */
+
+import { DatabaseError } from '../lib/database-errors';
+import {
+  purchaseOrderRepository,
+  type CreateGoodsReceiptData,
+  type CreatePurchaseOrderData,
+  type PurchaseOrderLineData,
+  type PurchaseOrderLineWithMatch,
+  type PurchaseOrderListItem,
+  type PurchaseOrderWithDetails,
+  type UpdatePurchaseOrderData,
+} from '../repositories/purchase-order.repository';
+import type { PurchaseOrderStatus } from '@prisma/client';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * - RATE_MISMATCH: a bill's rate differs from the agreed rate
+ * - QUANTITY_MISMATCH: more is billed than was received
+ * - OVER_DELIVERED: more was received than ordered
+ */
+export type MatchIssue = 'RATE_MISMATCH' | 'QUANTITY_MISMATCH' | 'OVER_DELIVERED';
+
+export type DeliveryStatus = 'NOT_RECEIVED' | 'PARTIALLY_RECEIVED' | 'RECEIVED';
+
+export interface LineMatch {
+  orderedQuantity: number;
+  receivedQuantity: number;
+  billedQuantity: number;
+  billedAmount: number;
+  issues: MatchIssue[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+const sameRate = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+/**
+ * Ordered, received and billed quantities of an order line, and where they disagree
+ */
+export function matchLine(line: PurchaseOrderLineWithMatch): LineMatch {
+  const orderedQuantity = line.quantity.toNumber();
+  const receivedQuantity = roundQuantity(
+    line.receiptLines.reduce((sum, receipt) => sum + receipt.quantity.toNumber(), 0)
+  );
+  const billedQuantity = roundQuantity(
+    line.bills.reduce((sum, bill) => sum + bill.quantity.toNumber(), 0)
+  );
+  const billedAmount = roundMoney(
+    line.bills.reduce((sum, bill) => sum + bill.rate.toNumber() * bill.quantity.toNumber(), 0)
+  );
+
+  const issues: MatchIssue[] = [];
+  if (line.bills.some((bill) => !sameRate(bill.rate.toNumber(), line.rate.toNumber()))) {
+    issues.push('RATE_MISMATCH');
+  }
+  if (billedQuantity > receivedQuantity) issues.push('QUANTITY_MISMATCH');
+  if (receivedQuantity > orderedQuantity) issues.push('OVER_DELIVERED');
+
+  return { orderedQuantity, receivedQuantity, billedQuantity, billedAmount, issues };
+}
+
+/**
+ * Issues that concern one bill on a line: its own rate, and billing beyond what
+ * the line has received
+ */
+function billIssues(line: PurchaseOrderLineWithMatch, expenseId: string): MatchIssue[] {
+  const bill = line.bills.find((candidate) => candidate.id === expenseId);
+  if (!bill) return [];
+
+  const match = matchLine(line);
+  const issues: MatchIssue[] = [];
+  if (!sameRate(bill.rate.toNumber(), line.rate.toNumber())) issues.push('RATE_MISMATCH');
+  if (match.issues.includes('QUANTITY_MISMATCH')) issues.push('QUANTITY_MISMATCH');
+  return issues;
+}
+
+function deliveryStatus(matches: LineMatch[]): DeliveryStatus {
+  if (matches.every((match) => match.receivedQuantity === 0)) return 'NOT_RECEIVED';
+  return matches.every((match) => match.receivedQuantity >= match.orderedQuantity)
+    ? 'RECEIVED'
+    : 'PARTIALLY_RECEIVED';
+}
+
+/**
+ * An order with the three-way match of each line
+ */
+function withMatch<T extends PurchaseOrderListItem>(order: T) {
+  const lines = order.lines.map((line) => ({ ...line, match: matchLine(line) }));
+  const matches = lines.map((line) => line.match);
+
+  return {
+    ...order,
+    lines,
+    deliveryStatus: deliveryStatus(matches),
+    billedAmount: roundMoney(matches.reduce((sum, match) => sum + match.billedAmount, 0)),
+    hasMismatch: matches.some((match) => match.issues.length > 0),
+  };
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class PurchaseOrderService {
+  /**
+   * A project's orders, newest first, with delivery and billing against each
+   */
+  async getProjectOrders(organizationId: string, projectId: string, status?: PurchaseOrderStatus) {
+    await this.getProject(organizationId, projectId);
+    const orders = await purchaseOrderRepository.findByProject(organizationId, projectId, status);
+    return orders.map(withMatch);
+  }
+
+  async findById(organizationId: string, id: string) {
+    const order = await purchaseOrderRepository.findById(organizationId, id);
+    return order ? withMatch(order) : null;
+  }
+
+  /**
+   * Raise an order to a vendor; it waits for approval before goods are received
+   */
+  async create(organizationId: string, data: CreatePurchaseOrderData) {
+    await this.getProject(organizationId, data.projectId);
+    await this.checkVendor(organizationId, data.vendorId);
+    await this.checkBoqItems(data.projectId, data.lines);
+
+    return withMatch(await purchaseOrderRepository.create(organizationId, data));
+  }
+
+  /**
+   * Edit an order that is waiting for approval or was rejected; it goes back for
+   * approval. Approved orders are cancelled and raised again instead.
+   */
+  async update(
+    organizationId: string,
+    existing: PurchaseOrderWithDetails,
+    data: UpdatePurchaseOrderData
+  ) {
+    if (existing.status !== 'PENDING' && existing.status !== 'REJECTED') {
+      throw new DatabaseError(
+        'Only orders waiting for approval or rejected can be edited',
+        'PURCHASE_ORDER_LOCKED',
+        400
+      );
+    }
+    if (data.vendorId && data.vendorId !== existing.vendorId) {
+      await this.checkVendor(organizationId, data.vendorId);
+    }
+    if (data.lines) {
+      await this.checkBoqItems(existing.projectId, data.lines);
+    }
+
+    return withMatch(await purchaseOrderRepository.update(organizationId, existing.id, data));
+  }
+
+  async approve(
+    organizationId: string,
+    existing: PurchaseOrderWithDetails,
+    approvedById: string | null
+  ) {
+    this.assertPending(existing);
+    return withMatch(
+      await purchaseOrderRepository.setStatus(organizationId, existing.id, ['PENDING'], {
+        status: 'APPROVED',
+        approvedById,
+        approvedAt: new Date(),
+      })
+    );
+  }
+
+  async reject(organizationId: string, existing: PurchaseOrderWithDetails, reason: string) {
+    this.assertPending(existing);
+    return withMatch(
+      await purchaseOrderRepository.setStatus(organizationId, existing.id, ['PENDING'], {
+        status: 'REJECTED',
+        rejectionReason: reason,
+      })
+    );
+  }
+
+  /**
+   * Cancel an order nothing has been received or billed against
+   */
+  async cancel(organizationId: string, existing: PurchaseOrderWithDetails, reason: string) {
+    if (existing.status === 'CANCELLED') {
+      throw new DatabaseError('Order is already cancelled', 'PURCHASE_ORDER_CANCELLED', 400);
+    }
+    if (existing.receipts.length > 0 || existing.lines.some((line) => line.bills.length > 0)) {
+      throw new DatabaseError(
+        'Goods have been received or billed against this order',
+        'PURCHASE_ORDER_IN_USE',
+        400
+      );
+    }
+
+    return withMatch(
+      await purchaseOrderRepository.setStatus(
+        organizationId,
+        existing.id,
+        ['PENDING', 'APPROVED', 'REJECTED'],
+        { status: 'CANCELLED', cancellationReason: reason }
+      )
+    );
+  }
+
+  // ============================================
+  // Goods Received
+  // ============================================
+
+  /**
+   * Record what was delivered at site. More than ordered can be received; the
+   * line is flagged for it.
+   */
+  async receive(
+    organizationId: string,
+    existing: PurchaseOrderWithDetails,
+    data: CreateGoodsReceiptData
+  ) {
+    if (existing.status !== 'APPROVED') {
+      throw new DatabaseError(
+        'Goods can only be received against an approved order',
+        'PURCHASE_ORDER_NOT_APPROVED',
+        400
+      );
+    }
+
+    const lineIds = new Set(existing.lines.map((line) => line.id));
+    if (data.lines.some((line) => !lineIds.has(line.purchaseOrderLineId))) {
+      throw new DatabaseError('Line not found on this order', 'NOT_FOUND', 404);
+    }
+
+    return withMatch(
+      await purchaseOrderRepository.createReceipt(organizationId, existing.id, data)
+    );
+  }
+
+  // ============================================
+  // Bill Matching
+  // ============================================
+
+  /**
+   * Lines of a vendor's approved orders on a project that a bill can be matched to
+   */
+  async getOpenLines(organizationId: string, projectId: string, vendorId: string) {
+    const lines = await purchaseOrderRepository.findOpenLines(organizationId, projectId, vendorId);
+    return lines.map((line) => ({ ...line, match: matchLine(line) }));
+  }
+
+  /**
+   * Check a bill can be matched to an order line: an approved order of the same
+   * project, placed with the party that billed
+   */
+  async checkBillLine(
+    organizationId: string,
+    lineId: string,
+    bill: { projectId: string; partyId: string }
+  ) {
+    const line = await purchaseOrderRepository.findLine(organizationId, lineId);
+    if (!line) {
+      throw new DatabaseError('Purchase order line not found', 'NOT_FOUND', 404);
+    }
+    if (line.purchaseOrder.status !== 'APPROVED') {
+      throw new DatabaseError(
+        `Purchase order ${line.purchaseOrder.orderNumber} is not approved`,
+        'PURCHASE_ORDER_NOT_APPROVED',
+        400
+      );
+    }
+    if (
+      line.purchaseOrder.projectId !== bill.projectId ||
+      line.purchaseOrder.vendorId !== bill.partyId
+    ) {
+      throw new DatabaseError(
+        `Purchase order ${line.purchaseOrder.orderNumber} is for another vendor or project`,
+        'PURCHASE_ORDER_MISMATCH',
+        400
+      );
+    }
+    return line;
+  }
+
+  /**
+   * Match issues of each given bill that is matched to an order line
+   */
+  async getBillIssues(
+    organizationId: string,
+    expenseIds: string[]
+  ): Promise<Map<string, MatchIssue[]>> {
+    const issues = new Map<string, MatchIssue[]>();
+    if (expenseIds.length === 0) return issues;
+
+    const lines = await purchaseOrderRepository.findLinesForBills(organizationId, expenseIds);
+    for (const line of lines) {
+      for (const bill of line.bills) {
+        if (expenseIds.includes(bill.id)) {
+          issues.set(bill.id, billIssues(line, bill.id));
+        }
+      }
+    }
+    return issues;
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  private assertPending(order: PurchaseOrderWithDetails) {
+    if (order.status !== 'PENDING') {
+      throw new DatabaseError(
+        'Order is not waiting for approval',
+        'PURCHASE_ORDER_NOT_PENDING',
+        400
+      );
+    }
+  }
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await purchaseOrderRepository.findProject(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  private async checkVendor(organizationId: string, vendorId: string) {
+    const vendor = await purchaseOrderRepository.findVendor(organizationId, vendorId);
+    if (!vendor) {
+      throw new DatabaseError('Vendor not found', 'NOT_FOUND', 404);
+    }
+    if (vendor.type !== 'VENDOR') {
+      throw new DatabaseError('Purchase orders are placed with vendors', 'VENDOR_REQUIRED', 400);
+    }
+  }
+
+  private async checkBoqItems(projectId: string, lines: PurchaseOrderLineData[]) {
+    const boqItemIds = [
+      ...new Set(lines.flatMap((line) => (line.boqItemId ? [line.boqItemId] : []))),
+    ];
+    if (boqItemIds.length === 0) return;
+
+    const found = await purchaseOrderRepository.countProjectBoqItems(projectId, boqItemIds);
+    if (found !== boqItemIds.length) {
+      throw new DatabaseError('BOQ item not found in this project', 'NOT_FOUND', 404);
+    }
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
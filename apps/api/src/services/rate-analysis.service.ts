@@ -0,0 +1,312 @@
+/**
+ * Rate Analysis Service
+ *
+ * A rate analysis shows how a BOQ item's rate is built up: the material,
+ * labour, equipment and other components that go into one unit of the item,
+ * each a quantity at a rate, then overhead on their cost and profit on cost
+ * plus overhead. Templates in the organization's library hold the same
+ * breakdown for reuse across projects.
+ *
+ * Components tied to a material, labour or sub-work type are checked against
+ * what the project's expenses of that type actually paid: the average rate,
+ * weighted by quantity.
+ */
+
+import type { RateComponentKind } from '@prisma/client';
+import { DatabaseError } from '../lib/database-errors';
+import type { AuditHook } from '../repositories/audit.repository';
+import {
+  rateAnalysisRepository,
+  type RatedBOQItem,
+  type RateAnalysisWithComponents,
+  type RateComponentData,
+  type RateTemplateData,
+  type RateTemplateWithComponents,
+} from '../repositories/rate-analysis.repository';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SaveRateAnalysisInput {
+  templateId?: string | null;
+  overheadPercent: number;
+  profitPercent: number;
+  notes?: string | null;
+  components: RateComponentData[];
+  applyRate?: boolean;
+}
+
+interface PricedComponent {
+  kind: RateComponentKind;
+  quantity: { toNumber(): number };
+  rate: { toNumber(): number };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function componentAmount(component: { quantity: number; rate: number }): number {
+  return roundMoney(component.quantity * component.rate);
+}
+
+/**
+ * Cost per unit by kind, with overhead on the direct cost and profit on cost
+ * plus overhead
+ */
+export function priceRate(
+  components: Array<{ kind: RateComponentKind; quantity: number; rate: number }>,
+  overheadPercent: number,
+  profitPercent: number
+) {
+  const byKind: Record<RateComponentKind, number> = {
+    MATERIAL: 0,
+    LABOUR: 0,
+    EQUIPMENT: 0,
+    OTHER: 0,
+  };
+  for (const component of components) {
+    byKind[component.kind] += componentAmount(component);
+  }
+
+  const directCost = roundMoney(Object.values(byKind).reduce((sum, amount) => sum + amount, 0));
+  const overheadAmount = roundMoney((directCost * overheadPercent) / 100);
+  const profitAmount = roundMoney(((directCost + overheadAmount) * profitPercent) / 100);
+
+  return {
+    materialCost: roundMoney(byKind.MATERIAL),
+    labourCost: roundMoney(byKind.LABOUR),
+    equipmentCost: roundMoney(byKind.EQUIPMENT),
+    otherCost: roundMoney(byKind.OTHER),
+    directCost,
+    overheadAmount,
+    profitAmount,
+    unitRate: roundMoney(directCost + overheadAmount + profitAmount),
+  };
+}
+
+function summarize(
+  components: PricedComponent[],
+  overheadPercent: { toNumber(): number },
+  profitPercent: { toNumber(): number }
+) {
+  return priceRate(
+    components.map((component) => ({
+      kind: component.kind,
+      quantity: component.quantity.toNumber(),
+      rate: component.rate.toNumber(),
+    })),
+    overheadPercent.toNumber(),
+    profitPercent.toNumber()
+  );
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class RateAnalysisService {
+  // ============================================
+  // Templates
+  // ============================================
+
+  async findTemplates(organizationId: string) {
+    const templates = await rateAnalysisRepository.findTemplates(organizationId);
+    return templates.map((template) => this.withTemplateTotals(template));
+  }
+
+  async findTemplateById(organizationId: string, id: string) {
+    const template = await rateAnalysisRepository.findTemplateById(organizationId, id);
+    return template ? this.withTemplateTotals(template) : null;
+  }
+
+  async createTemplate(organizationId: string, data: RateTemplateData, createdById?: string) {
+    await this.assertTemplateNameAvailable(organizationId, data.name);
+    await this.checkCategoryItems(organizationId, data.components);
+
+    const template = await rateAnalysisRepository.createTemplate(organizationId, data, createdById);
+    return this.withTemplateTotals(template);
+  }
+
+  async updateTemplate(
+    organizationId: string,
+    existing: { id: string; name: string },
+    data: RateTemplateData
+  ) {
+    if (data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      await this.assertTemplateNameAvailable(organizationId, data.name);
+    }
+    await this.checkCategoryItems(organizationId, data.components);
+
+    const template = await rateAnalysisRepository.updateTemplate(organizationId, existing.id, data);
+    return this.withTemplateTotals(template);
+  }
+
+  async deleteTemplate(organizationId: string, id: string) {
+    await rateAnalysisRepository.deleteTemplate(organizationId, id);
+  }
+
+  // ============================================
+  // BOQ item analyses
+  // ============================================
+
+  /**
+   * A BOQ item's analysis with its cost breakdown and each component's rate
+   * against what the project's expenses paid; null if it has none yet
+   */
+  async findByBOQItem(organizationId: string, projectId: string, boqItemId: string) {
+    const item = await this.findBOQItem(organizationId, projectId, boqItemId);
+    const analysis = await rateAnalysisRepository.findByBOQItem(organizationId, boqItemId);
+    return analysis ? this.withActuals(organizationId, item, analysis) : null;
+  }
+
+  /**
+   * Save a BOQ item's analysis, optionally quoting the item at the analysed rate
+   */
+  async save(
+    organizationId: string,
+    projectId: string,
+    boqItemId: string,
+    input: SaveRateAnalysisInput,
+    auditRate?: AuditHook<RatedBOQItem>
+  ) {
+    const item = await this.findBOQItem(organizationId, projectId, boqItemId);
+    await this.checkCategoryItems(organizationId, input.components);
+    if (
+      input.templateId &&
+      !(await rateAnalysisRepository.findTemplateById(organizationId, input.templateId))
+    ) {
+      throw new DatabaseError('Rate analysis template not found', 'NOT_FOUND', 404);
+    }
+
+    const { unitRate } = priceRate(input.components, input.overheadPercent, input.profitPercent);
+    const analysis = await rateAnalysisRepository.upsert(
+      organizationId,
+      boqItemId,
+      { ...input, unitRate, applyRate: input.applyRate ?? false },
+      auditRate
+    );
+
+    return this.withActuals(
+      organizationId,
+      input.applyRate ? { ...item, rate: analysis.unitRate } : item,
+      analysis
+    );
+  }
+
+  async delete(organizationId: string, id: string) {
+    await rateAnalysisRepository.delete(organizationId, id);
+  }
+
+  async findBOQItem(organizationId: string, projectId: string, id: string) {
+    const item = await rateAnalysisRepository.findBOQItem(organizationId, projectId, id);
+    if (!item) {
+      throw new DatabaseError('BOQ item not found in this project', 'NOT_FOUND', 404);
+    }
+    return item;
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private async assertTemplateNameAvailable(organizationId: string, name: string) {
+    if (await rateAnalysisRepository.findTemplateByName(organizationId, name)) {
+      throw new DatabaseError(
+        `A template named "${name}" already exists`,
+        'DUPLICATE_TEMPLATE_NAME',
+        409
+      );
+    }
+  }
+
+  private async checkCategoryItems(organizationId: string, components: RateComponentData[]) {
+    const ids = [...new Set(components.flatMap((component) => component.categoryItemId ?? []))];
+    if (ids.length === 0) return;
+
+    if ((await rateAnalysisRepository.countCategoryItems(organizationId, ids)) !== ids.length) {
+      throw new DatabaseError('Category item not found', 'NOT_FOUND', 404);
+    }
+  }
+
+  private withTemplateTotals(template: RateTemplateWithComponents) {
+    return {
+      ...template,
+      ...summarize(template.components, template.overheadPercent, template.profitPercent),
+    };
+  }
+
+  /**
+   * The analysis with its totals, the BOQ item's quoted rate, and for each
+   * component the average rate the project's expenses paid for its type
+   */
+  private async withActuals(
+    organizationId: string,
+    item: { projectId: string; rate: { toNumber(): number } },
+    analysis: RateAnalysisWithComponents
+  ) {
+    const categoryItemIds = [
+      ...new Set(analysis.components.flatMap((component) => component.categoryItemId ?? [])),
+    ];
+    const expenses = categoryItemIds.length
+      ? await rateAnalysisRepository.findExpenseRates(
+          organizationId,
+          item.projectId,
+          categoryItemIds
+        )
+      : [];
+
+    const actuals = new Map<string, { amount: number; quantity: number; expenseCount: number }>();
+    for (const expense of expenses) {
+      const types = new Set(
+        [expense.materialTypeItemId, expense.labourTypeItemId, expense.subWorkTypeItemId].filter(
+          (id): id is string => !!id && categoryItemIds.includes(id)
+        )
+      );
+      for (const id of types) {
+        const entry = actuals.get(id) ?? { amount: 0, quantity: 0, expenseCount: 0 };
+        entry.amount += expense.rate.toNumber() * expense.quantity.toNumber();
+        entry.quantity += expense.quantity.toNumber();
+        entry.expenseCount += 1;
+        actuals.set(id, entry);
+      }
+    }
+
+    const totals = summarize(analysis.components, analysis.overheadPercent, analysis.profitPercent);
+    const quotedRate = item.rate.toNumber();
+
+    return {
+      ...analysis,
+      ...totals,
+      quotedRate,
+      // Quoted rate less the analysed rate
+      rateDifference: roundMoney(quotedRate - totals.unitRate),
+      components: analysis.components.map((component) => {
+        const rate = component.rate.toNumber();
+        const actual = component.categoryItemId ? actuals.get(component.categoryItemId) : undefined;
+        const actualRate =
+          actual && actual.quantity > 0 ? roundMoney(actual.amount / actual.quantity) : null;
+
+        return {
+          ...component,
+          amount: componentAmount({ quantity: component.quantity.toNumber(), rate }),
+          actualRate,
+          expenseCount: actual?.expenseCount ?? 0,
+          // Actual less analysed; positive when the site pays more
+          rateVariance: actualRate === null ? null : roundMoney(actualRate - rate),
+          rateVariancePercent:
+            actualRate === null || rate === 0
+              ? null
+              : Math.round(((actualRate - rate) / rate) * 10000) / 100,
+        };
+      }),
+    };
+  }
+}
+
+export const rateAnalysisService = new RateAnalysisService();
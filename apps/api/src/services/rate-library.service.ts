@@ -0,0 +1,254 @@
+/**
+ * Rate Library Service
+ *
+ * The organization's rate library is built from what its expenses actually
+ * paid. There is one entry for each material, labour or sub-work type and
+ * unit, with the last, average, lowest and highest rate, broken down by vendor
+ * and by site location, and the rate month by month.
+ *
+ * Averages are weighted by quantity. Units are matched ignoring case; an
+ * expense without a unit counts towards the entry with no unit, so its rate is
+ * never mixed with rates per bag or per cum. The database sums the figures up,
+ * optionally for expenses dated within a window.
+ */
+
+import { DatabaseError } from '../lib/database-errors';
+import {
+  rateLibraryRepository,
+  RATE_LIBRARY_TYPES,
+  type ExpenseRateFilters,
+  type RateLibraryType,
+  type RateStatsRow,
+} from '../repositories/rate-library.repository';
+
+// ============================================
+// Types
+// ============================================
+
+// Expense dates the rates are taken from
+export interface RateWindow {
+  from?: Date;
+  to?: Date;
+}
+
+export interface RateLibraryQuery extends RateWindow {
+  type?: RateLibraryType;
+  search?: string;
+}
+
+export interface RateSuggestionQuery extends RateWindow {
+  categoryItemId: string;
+  unit?: string;
+  // Vendor and project the rate is for, to suggest their own rates too
+  partyId?: string;
+  projectId?: string;
+}
+
+export interface RateStats {
+  count: number;
+  totalQuantity: number;
+  lastRate: number;
+  lastDate: Date;
+  averageRate: number;
+  minRate: number;
+  maxRate: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const RECENT_LIMIT = 20;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function unitKey(unit: string | null | undefined): string {
+  return unit?.trim().toLowerCase() ?? '';
+}
+
+/**
+ * Rate figures for a group of expenses as summed up by the database
+ */
+function rateStats(row: RateStatsRow): RateStats {
+  const totalQuantity = row.totalQuantity.toNumber();
+  const lastRate = row.lastRate.toNumber();
+
+  return {
+    count: row.count,
+    totalQuantity: Math.round(totalQuantity * 10000) / 10000,
+    lastRate,
+    lastDate: row.lastDate,
+    averageRate: totalQuantity > 0 ? roundMoney(row.amount.toNumber() / totalQuantity) : lastRate,
+    minRate: row.minRate.toNumber(),
+    maxRate: row.maxRate.toNumber(),
+  };
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class RateLibraryService {
+  /**
+   * Every type and unit the organization has paid for, with its rates
+   */
+  async findEntries(organizationId: string, query: RateLibraryQuery = {}) {
+    const rows = await rateLibraryRepository.findRateStats(organizationId, {
+      type: query.type,
+      search: query.search,
+      from: query.from,
+      to: query.to,
+    });
+
+    return rows
+      .map((row) => ({
+        type: row.type,
+        categoryItem: { id: row.itemId, name: row.itemName },
+        unit: row.unit,
+        ...rateStats(row),
+        vendorCount: row.vendorCount,
+        locationCount: row.locationCount,
+      }))
+      .sort(
+        (a, b) =>
+          a.categoryItem.name.localeCompare(b.categoryItem.name) ||
+          (a.unit ?? '').localeCompare(b.unit ?? '')
+      );
+  }
+
+  /**
+   * One entry's rates by vendor and location, month by month, and the latest
+   * expenses behind them; null if nothing has been paid for it
+   */
+  async findEntry(
+    organizationId: string,
+    categoryItemId: string,
+    unit?: string | null,
+    window: RateWindow = {}
+  ) {
+    const { type, item } = await this.findItem(organizationId, categoryItemId);
+    const filters: ExpenseRateFilters = {
+      type,
+      categoryItemId,
+      unitKey: unitKey(unit),
+      ...window,
+    };
+
+    const [[entry], vendors, locations, months, recent] = await Promise.all([
+      rateLibraryRepository.findRateStats(organizationId, filters),
+      rateLibraryRepository.findRateStats(organizationId, filters, 'party'),
+      rateLibraryRepository.findRateStats(organizationId, filters, 'location'),
+      rateLibraryRepository.findRateStats(organizationId, filters, 'month'),
+      rateLibraryRepository.findRecentRates(organizationId, filters, RECENT_LIMIT),
+    ]);
+    if (!entry) return null;
+
+    return {
+      type,
+      categoryItem: item,
+      unit: entry.unit,
+      ...rateStats(entry),
+      vendors: vendors.map((row) => ({
+        party: { id: row.groupKey!, name: row.groupName! },
+        ...rateStats(row),
+      })),
+      locations: locations.map((row) => ({ location: row.groupName!, ...rateStats(row) })),
+      // Oldest month first
+      trend: months
+        .map((row) => {
+          const stats = rateStats(row);
+          return {
+            month: row.groupKey!,
+            count: stats.count,
+            quantity: stats.totalQuantity,
+            averageRate: stats.averageRate,
+            minRate: stats.minRate,
+            maxRate: stats.maxRate,
+          };
+        })
+        .sort((a, b) => a.month.localeCompare(b.month)),
+      recent: recent.map((row) => ({
+        id: row.id,
+        expenseDate: row.expenseDate,
+        rate: row.rate.toNumber(),
+        quantity: row.quantity.toNumber(),
+        party: { id: row.partyId, name: row.partyName },
+        project: { id: row.projectId, name: row.projectName, location: row.projectLocation },
+      })),
+    };
+  }
+
+  /**
+   * Rates to suggest while entering a rate for a type: across the
+   * organization, from the vendor, and at the project's location, for each
+   * unit it has been bought in (or just the unit given), most used first
+   */
+  async suggest(organizationId: string, query: RateSuggestionQuery) {
+    const { type, item } = await this.findItem(organizationId, query.categoryItemId);
+    const location = query.projectId
+      ? await rateLibraryRepository.findProjectLocation(organizationId, query.projectId)
+      : null;
+
+    const filters: ExpenseRateFilters = {
+      type,
+      categoryItemId: item.id,
+      unitKey: query.unit?.trim() ? unitKey(query.unit) : undefined,
+      from: query.from,
+      to: query.to,
+    };
+    const [overall, fromVendor, atLocation] = await Promise.all([
+      rateLibraryRepository.findRateStats(organizationId, filters),
+      query.partyId
+        ? rateLibraryRepository.findRateStats(organizationId, {
+            ...filters,
+            partyId: query.partyId,
+          })
+        : [],
+      location
+        ? rateLibraryRepository.findRateStats(organizationId, {
+            ...filters,
+            locationKey: location.trim().toLowerCase(),
+          })
+        : [],
+    ]);
+
+    const suggestions = overall.map((row) => {
+      const vendor = fromVendor.find((candidate) => candidate.unitKey === row.unitKey);
+      const local = atLocation.find((candidate) => candidate.unitKey === row.unitKey);
+
+      return {
+        unit: row.unit,
+        overall: rateStats(row),
+        vendor: vendor ? rateStats(vendor) : null,
+        location: local ? { location: location!.trim(), ...rateStats(local) } : null,
+      };
+    });
+
+    return { type, categoryItem: item, suggestions };
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private async findItem(organizationId: string, categoryItemId: string) {
+    const item = await rateLibraryRepository.findCategoryItem(organizationId, categoryItemId);
+    if (!item) {
+      throw new DatabaseError('Category item not found', 'NOT_FOUND', 404);
+    }
+
+    const type = item.categoryType.key;
+    if (!(type in RATE_LIBRARY_TYPES)) {
+      throw new DatabaseError(
+        'Rates are kept for material, labour and sub-work types only',
+        'INVALID_CATEGORY_TYPE',
+        400
+      );
+    }
+    return { type: type as RateLibraryType, item: { id: item.id, name: item.name } };
+  }
+}
+
+export const rateLibraryService = new RateLibraryService();
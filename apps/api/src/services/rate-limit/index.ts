@@ -0,0 +1,39 @@
+// Rate Limit Store Factory
+
+import type { RateLimitStore } from './types';
+import { MemoryRateLimitStore } from './memory.store';
+import { PostgresRateLimitStore } from './postgres.store';
+
+export type { RateLimitStore, RateLimitEntry } from './types';
+export { MemoryRateLimitStore } from './memory.store';
+
+export function getRateLimitStore(): RateLimitStore {
+  const store = process.env.RATE_LIMIT_STORE || 'postgres';
+
+  switch (store) {
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      console.warn(`Unknown rate limit store: ${store}, falling back to postgres`);
+      return new PostgresRateLimitStore();
+  }
+}
+
+// Singleton instance
+let rateLimitStoreInstance: RateLimitStore | null = null;
+
+export function rateLimitStore(): RateLimitStore {
+  if (!rateLimitStoreInstance) {
+    rateLimitStoreInstance = getRateLimitStore();
+  }
+  return rateLimitStoreInstance;
+}
+
+/**
+ * Replace the store (tests inject a MemoryRateLimitStore they can inspect and clear)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStoreInstance = store;
+}
@@ -0,0 +1,52 @@
+// In-memory rate limit store - For tests and single-process development
+
+import type { RateLimitEntry, RateLimitStore } from './types';
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const current = await this.get(key);
+    const entry = current
+      ? { count: current.count + 1, expiresAt: current.expiresAt }
+      : { count: 1, expiresAt: new Date(Date.now() + windowMs) };
+
+    this.entries.set(key, entry);
+    return { ...entry };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) return null;
+
+    if (entry.expiresAt <= new Date()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return { ...entry };
+  }
+
+  async set(key: string, entry: RateLimitEntry): Promise<void> {
+    this.entries.set(key, { ...entry });
+  }
+
+  async setIfAbsent(key: string, entry: RateLimitEntry): Promise<RateLimitEntry | null> {
+    // No await between the check and the write, so concurrent callers cannot both store
+    const current = this.entries.get(key);
+    if (current && current.expiresAt > new Date()) return { ...current };
+
+    this.entries.set(key, { ...entry });
+    return null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /** Drop every entry (test isolation) */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,79 @@
+// Postgres rate limit store - Default, shared across API instances
+
+import { prisma } from '../../lib/prisma';
+import type { RateLimitEntry, RateLimitStore } from './types';
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + windowMs);
+
+    // Single statement so concurrent requests cannot both start a fresh window
+    const rows = await prisma.$queryRaw<RateLimitEntry[]>`
+      INSERT INTO "rate_limit_entries" ("key", "count", "expiresAt")
+      VALUES (${key}, 1, ${windowEnd})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE
+          WHEN "rate_limit_entries"."expiresAt" <= ${now} THEN 1
+          ELSE "rate_limit_entries"."count" + 1
+        END,
+        "expiresAt" = CASE
+          WHEN "rate_limit_entries"."expiresAt" <= ${now} THEN EXCLUDED."expiresAt"
+          ELSE "rate_limit_entries"."expiresAt"
+        END
+      RETURNING "count", "expiresAt"
+    `;
+
+    return rows[0];
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = await prisma.rateLimitEntry.findUnique({ where: { key } });
+
+    if (!entry || entry.expiresAt <= new Date()) {
+      return null;
+    }
+
+    return { count: entry.count, expiresAt: entry.expiresAt };
+  }
+
+  async set(key: string, entry: RateLimitEntry): Promise<void> {
+    await prisma.rateLimitEntry.upsert({
+      where: { key },
+      create: { key, ...entry },
+      update: entry,
+    });
+  }
+
+  async setIfAbsent(key: string, entry: RateLimitEntry): Promise<RateLimitEntry | null> {
+    // Only an expired row is replaced, so two concurrent requests cannot both claim the key
+    const rows = await prisma.$queryRaw<RateLimitEntry[]>`
+      INSERT INTO "rate_limit_entries" ("key", "count", "expiresAt")
+      VALUES (${key}, ${entry.count}, ${entry.expiresAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = EXCLUDED."count",
+        "expiresAt" = EXCLUDED."expiresAt"
+      WHERE "rate_limit_entries"."expiresAt" <= ${new Date()}
+      RETURNING "count", "expiresAt"
+    `;
+
+    if (rows.length > 0) {
+      return null;
+    }
+
+    // Held by a live entry; should it expire meanwhile, report the requested one
+    return (await this.get(key)) ?? { ...entry };
+  }
+
+  async delete(key: string): Promise<void> {
+    await prisma.rateLimitEntry.deleteMany({ where: { key } });
+  }
+
+  /** Remove expired entries (can be called periodically) */
+  async cleanupExpired(): Promise<number> {
+    const result = await prisma.rateLimitEntry.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,28 @@
+// Rate limit store interface for storage abstraction
+
+export interface RateLimitEntry {
+  count: number;
+  expiresAt: Date;
+}
+
+export interface RateLimitStore {
+  /**
+   * Increment the counter for a key. Starts a new window of `windowMs`
+   * (count 1) when the key is missing or its window has expired.
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+
+  /** Current entry, or null when missing or expired */
+  get(key: string): Promise<RateLimitEntry | null>;
+
+  /** Overwrite an entry (used for lockouts) */
+  set(key: string, entry: RateLimitEntry): Promise<void>;
+
+  /**
+   * Store the entry only when the key is missing or expired, as one atomic step
+   * (used for cooldowns). Returns null when stored, otherwise the live entry.
+   */
+  setIfAbsent(key: string, entry: RateLimitEntry): Promise<RateLimitEntry | null>;
+
+  delete(key: string): Promise<void>;
+}
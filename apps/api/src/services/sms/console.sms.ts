@@ -1,6 +1,6 @@
 // Console SMS Service - For development mode (no actual SMS sent)
 
-import type { SmsService } from './types';
+import type { SmsService, InvitationSms } from './types';
 
 export class ConsoleSmsService implements SmsService {
   async sendOtp(phone: string, code: string): Promise<boolean> {
@@ -14,4 +14,18 @@ export class ConsoleSmsService implements SmsService {
 
     return true;
   }
+
+  async sendInvitation(phone: string, invitation: InvitationSms): Promise<boolean> {
+    console.log('\n' + '='.repeat(50));
+    console.log('[DEV MODE] Team Invitation');
+    console.log('='.repeat(50));
+    console.log(`📱 Phone: ${phone}`);
+    console.log(`🏢 Organization: ${invitation.organizationName}`);
+    console.log(`👤 Invited by: ${invitation.inviterName ?? '-'}`);
+    console.log(`🔗 Link: ${invitation.link}`);
+    console.log(`⏰ Expires: ${invitation.expiresAt.toISOString()}`);
+    console.log('='.repeat(50) + '\n');
+
+    return true;
+  }
 }
@@ -38,3 +38,10 @@ export function smsService(): SmsService {
   }
   return smsServiceInstance;
 }
+
+/**
+ * Replace the service (tests inject one that fails or records what was sent)
+ */
+export function setSmsService(service: SmsService): void {
+  smsServiceInstance = service;
+}
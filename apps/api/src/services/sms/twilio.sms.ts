@@ -1,7 +1,7 @@
 // Twilio SMS Service - For production mode
 // Note: Install twilio package when ready: pnpm add twilio --filter @worksite/api
 
-import type { SmsService } from './types';
+import type { SmsService, InvitationSms } from './types';
 
 export class TwilioSmsService implements SmsService {
   async sendOtp(phone: string, code: string): Promise<boolean> {
@@ -16,4 +16,16 @@ export class TwilioSmsService implements SmsService {
     console.warn('[TWILIO] SMS integration not yet configured. Set up TWILIO_* env vars.');
     throw new Error('Twilio SMS not configured. Please set up environment variables.');
   }
+
+  async sendInvitation(phone: string, invitation: InvitationSms): Promise<boolean> {
+    // TODO: Implement Twilio integration when ready
+    // await client.messages.create({
+    //   body: `${invitation.inviterName ?? 'Your team'} invited you to join ${invitation.organizationName} on Worksite: ${invitation.link}`,
+    //   from: process.env.TWILIO_PHONE_NUMBER,
+    //   to: phone,
+    // });
+
+    console.warn('[TWILIO] SMS integration not yet configured. Set up TWILIO_* env vars.');
+    throw new Error('Twilio SMS not configured. Please set up environment variables.');
+  }
 }
@@ -2,6 +2,15 @@
 
 export interface SmsService {
   sendOtp(phone: string, code: string): Promise<boolean>;
+  sendInvitation(phone: string, invitation: InvitationSms): Promise<boolean>;
+}
+
+// What the invitation text says: who invited the recipient, where, and how to join
+export interface InvitationSms {
+  organizationName: string;
+  inviterName: string | null;
+  link: string;
+  expiresAt: Date;
 }
 
 export interface SmsConfig {
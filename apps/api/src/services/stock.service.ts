@@ -0,0 +1,441 @@
+/**
+ * Stock Service
+ *
+ * The material stock ledger of each project site, kept per material type and
+ * unit. Material is taken into stock from material bills or goods received notes,
+ * issued to the stage or task it is used on, transferred between sites, and
+ * adjusted to physical counts. Issued quantities are compared with what the BOQ
+ * plans for each material, to check that what is supplied is being used.
+ */
+
+import { randomUUID } from 'crypto';
+import { DatabaseError } from '../lib/database-errors';
+import { stockRepository, type StockMovementFilter } from '../repositories/stock.repository';
+import { subcontractService } from './subcontract.service';
+
+// ============================================
+// Types
+// ============================================
+
+interface StockLineInput {
+  projectId: string;
+  materialTypeItemId: string;
+  unit: string;
+  movementDate: Date;
+  createdById?: string | null;
+  notes?: string | null;
+}
+
+export interface StockReceiptInput extends StockLineInput {
+  quantity: number;
+  // Exactly one source: a material bill or a goods received note line
+  expenseId?: string;
+  goodsReceiptLineId?: string;
+}
+
+export interface StockIssueInput extends StockLineInput {
+  quantity: number;
+  stageId?: string;
+  taskId?: string;
+  // Supplied to a subcontractor's work order, at a rate recovered from their RA bills
+  workOrderId?: string;
+  recoveryRate?: number;
+}
+
+export interface StockTransferInput extends StockLineInput {
+  toProjectId: string;
+  quantity: number;
+}
+
+export interface StockAdjustmentInput extends StockLineInput {
+  countedQuantity: number;
+}
+
+export interface StockBalance {
+  materialTypeItemId: string;
+  materialName: string;
+  unit: string;
+  received: number;
+  issued: number;
+  transferredIn: number;
+  transferredOut: number;
+  adjusted: number;
+  balance: number;
+}
+
+export interface MaterialVariance {
+  materialTypeItemId: string;
+  materialName: string;
+  unit: string;
+  plannedQuantity: number;
+  consumedQuantity: number;
+  // Consumed less planned; positive when more was used than the BOQ plans
+  varianceQuantity: number;
+  variancePercent: number | null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+const stockKey = (materialTypeItemId: string, unit: string) => `${materialTypeItemId}:${unit}`;
+
+const byMaterial = <T extends { materialName: string; unit: string }>(a: T, b: T) =>
+  a.materialName.localeCompare(b.materialName) || a.unit.localeCompare(b.unit);
+
+function remaining(sourceQuantity: number, receipts: Array<{ quantity: { toNumber(): number } }>) {
+  return roundQuantity(
+    sourceQuantity - receipts.reduce((sum, receipt) => sum + receipt.quantity.toNumber(), 0)
+  );
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class StockService {
+  /**
+   * What each material came in and went out as, and what is left at the site
+   */
+  async getStock(organizationId: string, projectId: string): Promise<StockBalance[]> {
+    await this.getProject(organizationId, projectId);
+    const movements = await stockRepository.findByProject(organizationId, projectId);
+
+    const balances = new Map<string, StockBalance>();
+    for (const movement of movements) {
+      const key = stockKey(movement.materialTypeItemId, movement.unit);
+      const row = balances.get(key) ?? {
+        materialTypeItemId: movement.materialTypeItemId,
+        materialName: movement.materialType.name,
+        unit: movement.unit,
+        received: 0,
+        issued: 0,
+        transferredIn: 0,
+        transferredOut: 0,
+        adjusted: 0,
+        balance: 0,
+      };
+
+      const quantity = movement.quantity.toNumber();
+      if (movement.type === 'RECEIPT') row.received = roundQuantity(row.received + quantity);
+      if (movement.type === 'ISSUE') row.issued = roundQuantity(row.issued - quantity);
+      if (movement.type === 'TRANSFER_IN') {
+        row.transferredIn = roundQuantity(row.transferredIn + quantity);
+      }
+      if (movement.type === 'TRANSFER_OUT') {
+        row.transferredOut = roundQuantity(row.transferredOut - quantity);
+      }
+      if (movement.type === 'ADJUSTMENT') row.adjusted = roundQuantity(row.adjusted + quantity);
+      row.balance = roundQuantity(row.balance + quantity);
+      balances.set(key, row);
+    }
+
+    return [...balances.values()].sort(byMaterial);
+  }
+
+  /**
+   * Movements oldest first, each with the balance of its material after it
+   */
+  async getLedger(organizationId: string, projectId: string, filter: StockMovementFilter) {
+    await this.getProject(organizationId, projectId);
+    const movements = await stockRepository.findByProject(organizationId, projectId, filter);
+
+    const balances = new Map<string, number>();
+    return movements.map((movement) => {
+      const key = stockKey(movement.materialTypeItemId, movement.unit);
+      const balance = roundQuantity((balances.get(key) ?? 0) + movement.quantity.toNumber());
+      balances.set(key, balance);
+      return { ...movement, balance };
+    });
+  }
+
+  /**
+   * Material bills and goods received note lines not yet fully taken into stock
+   */
+  async getSources(organizationId: string, projectId: string) {
+    await this.getProject(organizationId, projectId);
+    const [bills, receiptLines] = await Promise.all([
+      stockRepository.findMaterialBills(organizationId, projectId),
+      stockRepository.findReceiptLines(organizationId, projectId),
+    ]);
+
+    return {
+      bills: bills
+        .map(({ stockReceipts, ...bill }) => ({
+          ...bill,
+          remainingQuantity: remaining(bill.quantity.toNumber(), stockReceipts),
+        }))
+        .filter((bill) => bill.remainingQuantity > 0),
+      receiptLines: receiptLines
+        .map(({ stockReceipts, ...line }) => ({
+          ...line,
+          remainingQuantity: remaining(line.quantity.toNumber(), stockReceipts),
+        }))
+        .filter((line) => line.remainingQuantity > 0),
+    };
+  }
+
+  /**
+   * Consumed quantity of each material against what the BOQ plans for it,
+   * optionally for one stage
+   */
+  async getVariance(
+    organizationId: string,
+    projectId: string,
+    stageId?: string
+  ): Promise<MaterialVariance[]> {
+    await this.getProject(organizationId, projectId);
+    const [planned, issues] = await Promise.all([
+      stockRepository.findPlannedMaterials(organizationId, projectId, stageId),
+      stockRepository.findIssues(organizationId, projectId, stageId),
+    ]);
+
+    const rows = new Map<string, MaterialVariance>();
+    const rowFor = (materialType: { id: string; name: string }, unit: string) => {
+      const key = stockKey(materialType.id, unit);
+      const row = rows.get(key) ?? {
+        materialTypeItemId: materialType.id,
+        materialName: materialType.name,
+        unit,
+        plannedQuantity: 0,
+        consumedQuantity: 0,
+        varianceQuantity: 0,
+        variancePercent: null,
+      };
+      rows.set(key, row);
+      return row;
+    };
+
+    for (const item of planned) {
+      if (!item.materialType) continue;
+      const row = rowFor(item.materialType, item.unit);
+      row.plannedQuantity = roundQuantity(row.plannedQuantity + item.quantity.toNumber());
+    }
+    for (const issue of issues) {
+      const row = rowFor(issue.materialType, issue.unit);
+      row.consumedQuantity = roundQuantity(row.consumedQuantity - issue.quantity.toNumber());
+    }
+
+    return [...rows.values()]
+      .map((row) => {
+        const varianceQuantity = roundQuantity(row.consumedQuantity - row.plannedQuantity);
+        return {
+          ...row,
+          varianceQuantity,
+          variancePercent:
+            row.plannedQuantity > 0
+              ? Math.round((varianceQuantity / row.plannedQuantity) * 10000) / 100
+              : null,
+        };
+      })
+      .sort(byMaterial);
+  }
+
+  // ============================================
+  // Movements
+  // ============================================
+
+  /**
+   * Take material into stock from a bill or a goods received note line, up to
+   * what the source has not already brought in
+   */
+  async receive(organizationId: string, data: StockReceiptInput) {
+    await this.getProject(organizationId, data.projectId);
+    await this.checkMaterialType(organizationId, data.materialTypeItemId);
+
+    let available: number;
+    if (data.expenseId) {
+      const bill = await stockRepository.findExpense(organizationId, data.expenseId);
+      if (!bill || bill.projectId !== data.projectId) {
+        throw new DatabaseError('Bill not found in this project', 'NOT_FOUND', 404);
+      }
+      if (bill.status === 'REJECTED') {
+        throw new DatabaseError(
+          'A rejected bill cannot be taken into stock',
+          'STOCK_SOURCE_REJECTED',
+          400
+        );
+      }
+      if (bill.purchaseOrderLineId) {
+        throw new DatabaseError(
+          'Bill is matched to a purchase order; take its goods received note into stock instead',
+          'STOCK_RECEIVED_BY_ORDER',
+          400
+        );
+      }
+      if (bill.materialTypeItemId && bill.materialTypeItemId !== data.materialTypeItemId) {
+        throw new DatabaseError('Bill is for another material', 'STOCK_SOURCE_MISMATCH', 400);
+      }
+      available = remaining(bill.quantity.toNumber(), bill.stockReceipts);
+    } else if (data.goodsReceiptLineId) {
+      const line = await stockRepository.findReceiptLine(organizationId, data.goodsReceiptLineId);
+      if (!line || line.receipt.purchaseOrder.projectId !== data.projectId) {
+        throw new DatabaseError('Goods received line not found in this project', 'NOT_FOUND', 404);
+      }
+      available = remaining(line.quantity.toNumber(), line.stockReceipts);
+    } else {
+      throw new DatabaseError(
+        'Material is taken into stock from a bill or a goods received note',
+        'STOCK_SOURCE_REQUIRED',
+        400
+      );
+    }
+
+    if (data.quantity > available) {
+      throw new DatabaseError(
+        `Only ${available} ${data.unit} of this source is left to take into stock`,
+        'STOCK_SOURCE_EXCEEDED',
+        400
+      );
+    }
+
+    return stockRepository.create(organizationId, {
+      ...data,
+      type: 'RECEIPT',
+      expenseId: data.expenseId ?? null,
+      goodsReceiptLineId: data.expenseId ? null : data.goodsReceiptLineId,
+    });
+  }
+
+  /**
+   * Issue material to the stage, or a task of it, where it is used. Material
+   * supplied to a subcontractor is issued to their work order as well.
+   */
+  async issue(organizationId: string, data: StockIssueInput) {
+    await this.getProject(organizationId, data.projectId);
+    await this.checkMaterialType(organizationId, data.materialTypeItemId);
+
+    let stageId = data.stageId;
+    if (data.taskId) {
+      const task = await stockRepository.findTask(data.projectId, data.taskId);
+      if (!task || (stageId && task.stageId !== stageId)) {
+        throw new DatabaseError('Task not found in this project', 'NOT_FOUND', 404);
+      }
+      stageId = task.stageId;
+    } else if (stageId && !(await stockRepository.findStage(data.projectId, stageId))) {
+      throw new DatabaseError('Stage not found in this project', 'NOT_FOUND', 404);
+    }
+    if (data.workOrderId) {
+      await subcontractService.checkMaterialIssue(organizationId, data.workOrderId, data.projectId);
+    }
+
+    await this.checkInStock(organizationId, data.projectId, data);
+
+    return stockRepository.create(organizationId, {
+      ...data,
+      type: 'ISSUE',
+      quantity: -data.quantity,
+      stageId,
+      taskId: data.taskId ?? null,
+    });
+  }
+
+  /**
+   * Move material from one site to another. Returns the movement out of this
+   * site and the one into the other.
+   */
+  async transfer(organizationId: string, data: StockTransferInput) {
+    if (data.toProjectId === data.projectId) {
+      throw new DatabaseError(
+        'Transfer to a different project',
+        'STOCK_TRANSFER_SAME_PROJECT',
+        400
+      );
+    }
+    await this.getProject(organizationId, data.projectId);
+    await this.getProject(organizationId, data.toProjectId);
+    await this.checkMaterialType(organizationId, data.materialTypeItemId);
+    await this.checkInStock(organizationId, data.projectId, data);
+
+    const { toProjectId, ...line } = data;
+    const transferId = randomUUID();
+    return stockRepository.createTransfer(
+      organizationId,
+      {
+        ...line,
+        type: 'TRANSFER_OUT',
+        quantity: -data.quantity,
+        transferId,
+        transferProjectId: toProjectId,
+      },
+      {
+        ...line,
+        projectId: toProjectId,
+        type: 'TRANSFER_IN',
+        transferId,
+        transferProjectId: data.projectId,
+      }
+    );
+  }
+
+  /**
+   * Bring stock in line with a physical count; the difference is recorded
+   */
+  async adjust(organizationId: string, data: StockAdjustmentInput) {
+    await this.getProject(organizationId, data.projectId);
+    await this.checkMaterialType(organizationId, data.materialTypeItemId);
+
+    const { countedQuantity, ...line } = data;
+    const balance = await stockRepository.getBalance(
+      organizationId,
+      data.projectId,
+      data.materialTypeItemId,
+      data.unit
+    );
+    const difference = roundQuantity(countedQuantity - balance);
+    if (difference === 0) {
+      throw new DatabaseError('Counted quantity matches stock', 'STOCK_COUNT_MATCHES', 400);
+    }
+
+    return stockRepository.create(organizationId, {
+      ...line,
+      type: 'ADJUSTMENT',
+      quantity: difference,
+    });
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await stockRepository.findProject(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  private async checkMaterialType(organizationId: string, materialTypeItemId: string) {
+    const materialType = await stockRepository.findMaterialType(organizationId, materialTypeItemId);
+    if (!materialType) {
+      throw new DatabaseError('Material type not found', 'NOT_FOUND', 404);
+    }
+  }
+
+  private async checkInStock(
+    organizationId: string,
+    projectId: string,
+    data: { materialTypeItemId: string; unit: string; quantity: number }
+  ) {
+    const balance = await stockRepository.getBalance(
+      organizationId,
+      projectId,
+      data.materialTypeItemId,
+      data.unit
+    );
+    if (data.quantity > balance) {
+      throw new DatabaseError(
+        `Only ${roundQuantity(balance)} ${data.unit} in stock`,
+        'INSUFFICIENT_STOCK',
+        400
+      );
+    }
+  }
+}
+
+export const stockService = new StockService();
@@ -0,0 +1,486 @@
+/**
+ * Subcontract Service
+ *
+ * Work orders agree a subcontractor's rate for each BOQ item of their work.
+ * Work done is billed as running-account (RA) bills: each bill measures the
+ * cumulative quantity done so far, and pays the part of it no approved bill has
+ * paid. From the gross of each bill:
+ * - Retention is held at the work order's percentage, until the project closes
+ * - Advances paid to the subcontractor are recovered at the agreed percentage
+ * - Material issued from the project's stock to the work order is deducted at
+ *   its recovery rate
+ * An approved bill is posted as a Sub Work expense of the subcontractor.
+ */
+
+import { DatabaseError } from '../lib/database-errors';
+import { prisma } from '../lib/prisma';
+import type { AuditHook } from '../repositories/audit.repository';
+import {
+  subcontractRepository,
+  type CreateWorkOrderData,
+  type RABillLineData,
+  type RABillWithDetails,
+  type UpdateWorkOrderData,
+  type WorkOrderLineData,
+  type WorkOrderWithDetails,
+} from '../repositories/subcontract.repository';
+import { expenseService } from './expense.service';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RABillInput {
+  billDate: Date;
+  notes?: string | null;
+  createdById?: string | null;
+  lines: { workOrderLineId: string; cumulativeQuantity: number }[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+type WorkOrderLine = WorkOrderWithDetails['lines'][number];
+type BillSummary = WorkOrderWithDetails['bills'][number];
+
+/**
+ * Quantity of a line measured and paid for on approved bills
+ */
+function measuredQuantity(line: WorkOrderLine): number {
+  return roundQuantity(line.billLines.reduce((sum, bill) => sum + bill.quantity.toNumber(), 0));
+}
+
+const sumBills = (bills: BillSummary[], amount: (bill: BillSummary) => number) =>
+  roundMoney(bills.reduce((sum, bill) => sum + amount(bill), 0));
+
+/**
+ * A work order with what has been measured on each line, and what its approved
+ * bills paid, held and recovered
+ */
+function withProgress(order: WorkOrderWithDetails) {
+  const approved = order.bills.filter((bill) => bill.status === 'APPROVED');
+
+  return {
+    ...order,
+    lines: order.lines.map((line) => ({ ...line, measuredQuantity: measuredQuantity(line) })),
+    billedAmount: sumBills(approved, (bill) => bill.grossAmount.toNumber()),
+    retentionHeld: sumBills(approved, (bill) => bill.retentionAmount.toNumber()),
+    advanceRecovered: sumBills(approved, (bill) => bill.advanceRecovery.toNumber()),
+    materialDeducted: sumBills(approved, (bill) => bill.materialDeduction.toNumber()),
+    netPaid: sumBills(approved, (bill) => bill.netAmount.toNumber()),
+  };
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class SubcontractService {
+  // ============================================
+  // Work Orders
+  // ============================================
+
+  async getProjectWorkOrders(organizationId: string, projectId: string) {
+    await this.getProject(organizationId, projectId);
+    const orders = await subcontractRepository.findByProject(organizationId, projectId);
+    return orders.map(withProgress);
+  }
+
+  async findById(organizationId: string, id: string) {
+    const order = await subcontractRepository.findById(organizationId, id);
+    return order ? withProgress(order) : null;
+  }
+
+  /**
+   * Agree a work order with a subcontractor, at a rate for each BOQ item
+   */
+  async create(organizationId: string, data: CreateWorkOrderData) {
+    await this.getProject(organizationId, data.projectId);
+    const subcontractor = await subcontractRepository.findSubcontractor(
+      organizationId,
+      data.subcontractorId
+    );
+    if (!subcontractor) {
+      throw new DatabaseError('Subcontractor not found', 'NOT_FOUND', 404);
+    }
+    if (subcontractor.type !== 'SUBCONTRACTOR') {
+      throw new DatabaseError(
+        'Work orders are given to subcontractors',
+        'SUBCONTRACTOR_REQUIRED',
+        400
+      );
+    }
+    await this.checkSubWorkType(organizationId, data.subWorkTypeItemId);
+    await this.checkBoqItems(data.projectId, data.lines);
+
+    return withProgress(await subcontractRepository.create(organizationId, data));
+  }
+
+  /**
+   * Change a work order's rates, quantities or terms. Once a bill has been
+   * raised against it, the order is what that bill was measured on and is kept.
+   */
+  async update(organizationId: string, existing: WorkOrderWithDetails, data: UpdateWorkOrderData) {
+    if (existing.bills.some((bill) => bill.status !== 'REJECTED')) {
+      throw new DatabaseError(
+        'RA bills have been raised against this work order',
+        'WORK_ORDER_BILLED',
+        400
+      );
+    }
+    await this.checkSubWorkType(organizationId, data.subWorkTypeItemId);
+    if (data.lines) {
+      await this.checkBoqItems(existing.projectId, data.lines);
+    }
+
+    return withProgress(await subcontractRepository.update(organizationId, existing.id, data));
+  }
+
+  /**
+   * Pay a work order's retention once its project is completed. The retention
+   * held on its approved bills is posted as a Sub Work expense of the
+   * subcontractor.
+   */
+  async releaseRetention(
+    organizationId: string,
+    existing: WorkOrderWithDetails,
+    releasedById: string | null
+  ) {
+    if (existing.project.status !== 'COMPLETED') {
+      throw new DatabaseError(
+        'Retention is released once the project is completed',
+        'RETENTION_NOT_DUE',
+        400
+      );
+    }
+    if (existing.retentionReleasedAt) {
+      throw new DatabaseError('Retention was already released', 'RETENTION_RELEASED', 400);
+    }
+    this.assertNoPendingBill(existing);
+
+    const { retentionHeld } = withProgress(existing);
+    if (retentionHeld <= 0) {
+      throw new DatabaseError('No retention is held on this work order', 'NO_RETENTION_HELD', 400);
+    }
+    const expenseType = await this.getSubWorkExpenseType(organizationId);
+
+    await subcontractRepository.markRetentionReleased(organizationId, existing.id);
+    await expenseService.create(organizationId, {
+      projectId: existing.projectId,
+      partyId: existing.subcontractorId,
+      expenseTypeItemId: expenseType.id,
+      subWorkTypeItemId: existing.subWorkTypeItemId ?? undefined,
+      description: `${existing.orderNumber} retention release`,
+      rate: retentionHeld,
+      quantity: 1,
+      expenseDate: new Date(),
+      retentionWorkOrderId: existing.id,
+      submittedById: releasedById,
+    });
+
+    return withProgress(await this.loadWorkOrder(organizationId, existing.id));
+  }
+
+  // ============================================
+  // RA Bills
+  // ============================================
+
+  async getRABill(organizationId: string, id: string) {
+    return subcontractRepository.findRABillById(organizationId, id);
+  }
+
+  /**
+   * Raise an RA bill from the cumulative quantity measured on each line. A
+   * work order has one bill waiting for approval at a time, so each bill is
+   * measured from the ones approved before it.
+   */
+  async createRABill(organizationId: string, existing: WorkOrderWithDetails, data: RABillInput) {
+    if (existing.retentionReleasedAt) {
+      throw new DatabaseError(
+        'Retention has been released; the work order is closed',
+        'WORK_ORDER_CLOSED',
+        400
+      );
+    }
+    this.assertNoPendingBill(existing);
+
+    const lineIds = data.lines.map((line) => line.workOrderLineId);
+    if (new Set(lineIds).size !== lineIds.length) {
+      throw new DatabaseError('A line is measured once on a bill', 'DUPLICATE_LINE', 400);
+    }
+
+    const lines: RABillLineData[] = [];
+    for (const measurement of data.lines) {
+      const line = existing.lines.find((candidate) => candidate.id === measurement.workOrderLineId);
+      if (!line) {
+        throw new DatabaseError('Line not found on this work order', 'NOT_FOUND', 404);
+      }
+
+      const previousQuantity = measuredQuantity(line);
+      const quantity = roundQuantity(measurement.cumulativeQuantity - previousQuantity);
+      if (quantity < 0) {
+        throw new DatabaseError(
+          `${line.boqItem.description} is measured below the ${previousQuantity} ${line.boqItem.unit} already billed`,
+          'MEASUREMENT_BELOW_PREVIOUS',
+          400
+        );
+      }
+      if (quantity === 0) continue;
+
+      const rate = line.rate.toNumber();
+      lines.push({
+        workOrderLineId: line.id,
+        cumulativeQuantity: measurement.cumulativeQuantity,
+        previousQuantity,
+        quantity,
+        rate,
+        amount: roundMoney(quantity * rate),
+      });
+    }
+    if (lines.length === 0) {
+      throw new DatabaseError(
+        'Nothing new is measured since the last bill',
+        'NOTHING_TO_BILL',
+        400
+      );
+    }
+
+    const grossAmount = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+    const retentionAmount = roundMoney((grossAmount * existing.retentionPercent.toNumber()) / 100);
+
+    // Recover advances at the agreed percentage, up to what is still outstanding
+    const advances = await subcontractRepository.getAdvancePosition(
+      organizationId,
+      existing.projectId,
+      existing.subcontractorId
+    );
+    const advanceRecovery = roundMoney(
+      Math.max(
+        0,
+        Math.min(
+          (grossAmount * existing.advanceRecoveryPercent.toNumber()) / 100,
+          advances.advanced - advances.recovered
+        )
+      )
+    );
+
+    // Issues are recorded with negative quantities
+    const issues = await subcontractRepository.findUndeductedIssues(organizationId, existing.id);
+    const materialDeduction = roundMoney(
+      issues.reduce(
+        (sum, issue) => sum - issue.quantity.toNumber() * (issue.recoveryRate?.toNumber() ?? 0),
+        0
+      )
+    );
+
+    const netAmount = roundMoney(
+      grossAmount - retentionAmount - advanceRecovery - materialDeduction
+    );
+    if (netAmount < 0) {
+      throw new DatabaseError(
+        'Deductions are more than the work billed',
+        'DEDUCTIONS_EXCEED_BILL',
+        400
+      );
+    }
+
+    return subcontractRepository.createRABill(organizationId, {
+      workOrderId: existing.id,
+      billDate: data.billDate,
+      createdById: data.createdById ?? null,
+      notes: data.notes ?? null,
+      grossAmount,
+      retentionAmount,
+      advanceRecovery,
+      materialDeduction,
+      netAmount,
+      lines,
+      materialIssueIds: issues.map((issue) => issue.id),
+    });
+  }
+
+  /**
+   * Approve a bill and post it as a Sub Work expense of the subcontractor, in one
+   * transaction with its audit entry. The advance it recovers already sits on the
+   * subcontractor's account, so the expense is for the net amount plus that
+   * recovery; retention and material are not owed to them and are left out. The
+   * bill is the approval: the expense is posted approved, and changes only with it.
+   */
+  async approveRABill(
+    organizationId: string,
+    existing: RABillWithDetails,
+    approvedById: string | null,
+    audit?: AuditHook<RABillWithDetails>
+  ) {
+    this.assertBillPending(existing);
+    const expenseType = await this.getSubWorkExpenseType(organizationId);
+
+    const bill = await prisma.$transaction(async (tx) => {
+      const approved = await subcontractRepository.setRABillStatus(
+        organizationId,
+        existing.id,
+        ['PENDING'],
+        {
+          status: 'APPROVED',
+          approvedById,
+          approvedAt: new Date(),
+        },
+        tx
+      );
+
+      const amount = roundMoney(
+        approved.netAmount.toNumber() + approved.advanceRecovery.toNumber()
+      );
+      if (amount > 0) {
+        await expenseService.create(
+          organizationId,
+          {
+            projectId: approved.workOrder.projectId,
+            partyId: approved.workOrder.subcontractorId,
+            expenseTypeItemId: expenseType.id,
+            subWorkTypeItemId: approved.workOrder.subWorkTypeItemId ?? undefined,
+            description: `${approved.workOrder.orderNumber} RA bill ${approved.billNumber}`,
+            rate: amount,
+            quantity: 1,
+            expenseDate: approved.billDate,
+            raBillId: approved.id,
+            submittedById: approvedById,
+            status: 'APPROVED',
+          },
+          undefined,
+          tx
+        );
+      }
+
+      await audit?.(tx, approved);
+      return approved;
+    });
+
+    return this.loadRABill(organizationId, bill.id);
+  }
+
+  /**
+   * Reject a bill; the material it deducted is deducted on the next one instead
+   */
+  async rejectRABill(organizationId: string, existing: RABillWithDetails, reason: string) {
+    this.assertBillPending(existing);
+    return subcontractRepository.setRABillStatus(organizationId, existing.id, ['PENDING'], {
+      status: 'REJECTED',
+      rejectionReason: reason,
+    });
+  }
+
+  // ============================================
+  // Material Issues
+  // ============================================
+
+  /**
+   * Check material can be issued to a work order: one of the same project that
+   * is still open
+   */
+  async checkMaterialIssue(organizationId: string, workOrderId: string, projectId: string) {
+    const order = await subcontractRepository.findById(organizationId, workOrderId);
+    if (!order || order.projectId !== projectId) {
+      throw new DatabaseError('Work order not found in this project', 'NOT_FOUND', 404);
+    }
+    if (order.retentionReleasedAt) {
+      throw new DatabaseError(
+        `Work order ${order.orderNumber} is closed`,
+        'WORK_ORDER_CLOSED',
+        400
+      );
+    }
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  private assertNoPendingBill(order: WorkOrderWithDetails) {
+    const pending = order.bills.find((bill) => bill.status === 'PENDING');
+    if (pending) {
+      throw new DatabaseError(
+        `RA bill ${pending.billNumber} is waiting for approval`,
+        'RA_BILL_PENDING',
+        400
+      );
+    }
+  }
+
+  private assertBillPending(bill: RABillWithDetails) {
+    if (bill.status !== 'PENDING') {
+      throw new DatabaseError('RA bill is not waiting for approval', 'RA_BILL_NOT_PENDING', 400);
+    }
+  }
+
+  private async loadWorkOrder(organizationId: string, id: string) {
+    const order = await subcontractRepository.findById(organizationId, id);
+    if (!order) {
+      throw new DatabaseError('Work order not found', 'NOT_FOUND', 404);
+    }
+    return order;
+  }
+
+  private async loadRABill(organizationId: string, id: string) {
+    const bill = await subcontractRepository.findRABillById(organizationId, id);
+    if (!bill) {
+      throw new DatabaseError('RA bill not found', 'NOT_FOUND', 404);
+    }
+    return bill;
+  }
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await subcontractRepository.findProject(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+
+  private async getSubWorkExpenseType(organizationId: string) {
+    const expenseType = await subcontractRepository.findSubWorkExpenseType(organizationId);
+    if (!expenseType) {
+      throw new DatabaseError(
+        'The Sub Work expense type is missing from this organization',
+        'SUB_WORK_EXPENSE_TYPE_MISSING',
+        400
+      );
+    }
+    return expenseType;
+  }
+
+  private async checkSubWorkType(organizationId: string, subWorkTypeItemId?: string | null) {
+    if (!subWorkTypeItemId) return;
+
+    const subWorkType = await subcontractRepository.findSubWorkType(
+      organizationId,
+      subWorkTypeItemId
+    );
+    if (!subWorkType) {
+      throw new DatabaseError('Sub work type not found', 'NOT_FOUND', 404);
+    }
+  }
+
+  private async checkBoqItems(projectId: string, lines: WorkOrderLineData[]) {
+    const boqItemIds = lines.map((line) => line.boqItemId);
+    if (new Set(boqItemIds).size !== boqItemIds.length) {
+      throw new DatabaseError('A BOQ item is on a work order once', 'DUPLICATE_BOQ_ITEM', 400);
+    }
+
+    const found = await subcontractRepository.countProjectBoqItems(projectId, boqItemIds);
+    if (found !== boqItemIds.length) {
+      throw new DatabaseError('BOQ item not found in this project', 'NOT_FOUND', 404);
+    }
+  }
+}
+
+export const subcontractService = new SubcontractService();
@@ -0,0 +1,825 @@
+/**
+ * Tax Invoice Service
+ *
+ * GST tax invoices raised to a project's client. Lines are billed from BOQ item
+ * quantities, from stage milestones on the payment schedule, or entered by hand;
+ * tax splits into CGST and SGST or IGST by place of supply. Invoices are numbered
+ * per organization and financial year, render as PDF, and client receipts are
+ * allocated against them oldest first.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { DatabaseError } from '../lib/database-errors';
+import { amountInWords, financialYearOf, gstinStateCode, splitGst, stateName } from '../lib/gst';
+import { fitText, pdfSafe } from '../lib/pdf';
+import {
+  taxInvoiceRepository,
+  type CreateTaxInvoiceLineData,
+  type InvoiceAllocationEntry,
+  type TaxInvoiceListItem,
+  type TaxInvoiceWithDetails,
+  type UpdateInvoiceSettingsData,
+} from '../repositories/tax-invoice.repository';
+import { contractAmount, installmentAmount } from './installment.service';
+
+// ============================================
+// Types
+// ============================================
+
+export type InvoicePaymentStatus = 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'CANCELLED';
+
+export interface TaxInvoiceLineInput {
+  source: 'BOQ_ITEM' | 'STAGE' | 'MANUAL';
+  boqItemId?: string;
+  stageId?: string;
+  description?: string;
+  hsnSac: string;
+  unit?: string;
+  quantity?: number;
+  rate?: number;
+  gstRate: number;
+}
+
+export interface CreateTaxInvoiceInput {
+  projectId: string;
+  invoiceDate: Date;
+  dueDate?: Date | null;
+  /** State code of the place of supply; defaults to the client's state */
+  placeOfSupply?: string;
+  notes?: string | null;
+  lines: TaxInvoiceLineInput[];
+}
+
+export interface ManualInvoiceAllocation {
+  invoiceId: string;
+  amount: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const BRAND = 'Worksite';
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function receivedOn(invoice: Pick<TaxInvoiceListItem, 'allocations'>): number {
+  return roundMoney(
+    invoice.allocations.reduce((sum, allocation) => sum + allocation.amount.toNumber(), 0)
+  );
+}
+
+function paymentStatus(
+  invoice: Pick<TaxInvoiceListItem, 'status' | 'totalAmount'>,
+  received: number
+): InvoicePaymentStatus {
+  if (invoice.status === 'CANCELLED') return 'CANCELLED';
+  if (received >= invoice.totalAmount.toNumber()) return 'PAID';
+  return received > 0 ? 'PARTIALLY_PAID' : 'UNPAID';
+}
+
+/**
+ * What an invoice has received and still has to receive. Cancelled invoices are
+ * owed nothing.
+ */
+function withReceipts<T extends TaxInvoiceListItem>(invoice: T) {
+  const received = receivedOn(invoice);
+  return {
+    ...invoice,
+    received,
+    outstanding:
+      invoice.status === 'CANCELLED'
+        ? 0
+        : roundMoney(Math.max(0, invoice.totalAmount.toNumber() - received)),
+    paymentStatus: paymentStatus(invoice, received),
+  };
+}
+
+/**
+ * File name for a download, e.g. "invoice-INV-2026-27-0001.pdf"
+ */
+export function invoiceFileName(invoice: Pick<TaxInvoiceWithDetails, 'invoiceNumber'>): string {
+  return `invoice-${invoice.invoiceNumber.replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class TaxInvoiceService {
+  async getSettings(organizationId: string) {
+    const settings = await taxInvoiceRepository.findSettings(organizationId);
+    if (!settings) {
+      throw new DatabaseError('Organization not found', 'NOT_FOUND', 404);
+    }
+    return settings;
+  }
+
+  /**
+   * Update the GST registration printed on invoices. A GSTIN carries its state,
+   * so the state code has to agree with it.
+   */
+  async updateSettings(organizationId: string, data: UpdateInvoiceSettingsData) {
+    const current = await this.getSettings(organizationId);
+    const gstin = data.gstin !== undefined ? data.gstin : current.gstin;
+    const stateCode = data.stateCode !== undefined ? data.stateCode : current.stateCode;
+
+    if (gstin && stateCode && gstinStateCode(gstin) !== stateCode) {
+      throw new DatabaseError(
+        'GSTIN is registered in a different state',
+        'GSTIN_STATE_MISMATCH',
+        400
+      );
+    }
+
+    return taxInvoiceRepository.updateSettings(organizationId, {
+      ...data,
+      // The state is read off the GSTIN when only the GSTIN is given
+      stateCode: stateCode ?? (gstin ? gstinStateCode(gstin) : null),
+    });
+  }
+
+  /**
+   * A project's invoices, newest first, with what the client has paid on each
+   */
+  async getProjectInvoices(organizationId: string, projectId: string) {
+    await this.getProject(organizationId, projectId);
+    const invoices = (await taxInvoiceRepository.findByProject(organizationId, projectId)).map(
+      withReceipts
+    );
+
+    const issued = invoices.filter((invoice) => invoice.status === 'ISSUED');
+    const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0));
+
+    return {
+      invoices,
+      summary: {
+        invoicedAmount: sum(issued.map((invoice) => invoice.totalAmount.toNumber())),
+        taxAmount: sum(
+          issued.map((invoice) =>
+            roundMoney(invoice.totalAmount.toNumber() - invoice.taxableAmount.toNumber())
+          )
+        ),
+        receivedAmount: sum(issued.map((invoice) => invoice.received)),
+        outstandingAmount: sum(issued.map((invoice) => invoice.outstanding)),
+      },
+    };
+  }
+
+  /**
+   * What is left to bill on a project: BOQ items with the quantity not yet
+   * invoiced, and stages with the milestone amount of their installments
+   */
+  async getBillable(organizationId: string, projectId: string) {
+    const project = await this.getProject(organizationId, projectId);
+    const contractValue = contractAmount(project);
+
+    const [boqItems, stages] = await Promise.all([
+      taxInvoiceRepository.findBoqItems(organizationId, projectId),
+      taxInvoiceRepository.findStages(organizationId, projectId),
+    ]);
+
+    return {
+      client: project.client,
+      boqItems: boqItems.map(({ section, ...item }) => ({
+        ...item,
+        section: section?.name ?? null,
+        remainingQuantity: roundQuantity(
+          Math.max(0, item.quantity.toNumber() - item.billedQuantity)
+        ),
+      })),
+      stages: stages.map(({ installments, invoiceLines, ...stage }) => ({
+        ...stage,
+        milestoneAmount: roundMoney(
+          installments.reduce(
+            (sum, installment) => sum + installmentAmount(installment, contractValue),
+            0
+          )
+        ),
+        billedOn: invoiceLines[0]?.invoice ?? null,
+      })),
+    };
+  }
+
+  async findById(organizationId: string, id: string) {
+    const invoice = await taxInvoiceRepository.findById(organizationId, id);
+    return invoice ? withReceipts(invoice) : null;
+  }
+
+  /**
+   * Raise an invoice to the project's client. Open receipts of the project are
+   * allocated to it straight away.
+   */
+  async create(organizationId: string, createdById: string | null, input: CreateTaxInvoiceInput) {
+    const project = await this.getProject(organizationId, input.projectId);
+    const client = project.client;
+    if (!client || client.deletedAt) {
+      throw new DatabaseError(
+        'Set a client on the project before raising an invoice',
+        'CLIENT_REQUIRED',
+        400
+      );
+    }
+
+    const settings = await this.getSettings(organizationId);
+    if (!settings.stateCode) {
+      throw new DatabaseError(
+        'Add your GST state before raising an invoice',
+        'GST_DETAILS_MISSING',
+        400
+      );
+    }
+
+    const placeOfSupply =
+      input.placeOfSupply ??
+      client.stateCode ??
+      (client.gstin ? gstinStateCode(client.gstin) : null);
+    if (!placeOfSupply) {
+      throw new DatabaseError(
+        "Choose a place of supply or add the client's GST state",
+        'PLACE_OF_SUPPLY_REQUIRED',
+        400
+      );
+    }
+    const isInterState = placeOfSupply !== settings.stateCode;
+
+    const lines = await this.buildLines(
+      organizationId,
+      input.projectId,
+      contractAmount(project),
+      input.lines,
+      isInterState
+    );
+    const total = (key: 'taxableAmount' | 'cgstAmount' | 'sgstAmount' | 'igstAmount') =>
+      roundMoney(lines.reduce((sum, line) => sum + line[key], 0));
+    const amounts = {
+      taxableAmount: total('taxableAmount'),
+      cgstAmount: total('cgstAmount'),
+      sgstAmount: total('sgstAmount'),
+      igstAmount: total('igstAmount'),
+    };
+
+    const invoice = await taxInvoiceRepository.create(organizationId, settings.invoicePrefix, {
+      projectId: input.projectId,
+      clientId: client.id,
+      createdById,
+      financialYear: financialYearOf(input.invoiceDate),
+      invoiceDate: input.invoiceDate,
+      dueDate: input.dueDate,
+      supplierGstin: settings.gstin,
+      supplierStateCode: settings.stateCode,
+      recipientGstin: client.gstin,
+      placeOfSupply,
+      isInterState,
+      notes: input.notes,
+      ...amounts,
+      totalAmount: roundMoney(
+        amounts.taxableAmount + amounts.cgstAmount + amounts.sgstAmount + amounts.igstAmount
+      ),
+      lines,
+    });
+
+    await this.allocateOpenReceipts(organizationId, input.projectId);
+    return this.getInvoice(organizationId, invoice.id);
+  }
+
+  /**
+   * Cancel an invoice. Its number is not reused; receipts it held go to the
+   * project's other open invoices.
+   */
+  async cancel(organizationId: string, existing: TaxInvoiceWithDetails, reason: string) {
+    if (existing.status === 'CANCELLED') {
+      throw new DatabaseError('Invoice is already cancelled', 'INVOICE_CANCELLED', 400);
+    }
+
+    await taxInvoiceRepository.cancel(organizationId, existing.id, reason);
+    await this.allocateOpenReceipts(organizationId, existing.projectId);
+
+    return this.getInvoice(organizationId, existing.id);
+  }
+
+  // ============================================
+  // Payment allocation
+  // ============================================
+
+  /**
+   * Check invoice allocations chosen by hand for a receipt before it is saved
+   */
+  async validateAllocations(
+    organizationId: string,
+    projectId: string,
+    paymentAmount: number,
+    allocations: ManualInvoiceAllocation[],
+    paymentId?: string
+  ) {
+    const total = roundMoney(allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+    if (total > paymentAmount) {
+      throw new DatabaseError(
+        'Allocations add up to more than the payment amount',
+        'ALLOCATION_EXCEEDS_PAYMENT',
+        400
+      );
+    }
+
+    const invoices = await taxInvoiceRepository.findOpenInvoices(organizationId, projectId);
+    for (const allocation of allocations) {
+      const invoice = invoices.find((item) => item.id === allocation.invoiceId);
+      if (!invoice) {
+        throw new DatabaseError('Invoice not found in this project', 'NOT_FOUND', 404);
+      }
+
+      // What other receipts already cover stays covered
+      const coveredElsewhere = invoice.allocations
+        .filter((item) => item.paymentId !== paymentId)
+        .reduce((sum, item) => sum + item.amount.toNumber(), 0);
+      const open = roundMoney(invoice.totalAmount.toNumber() - coveredElsewhere);
+
+      if (allocation.amount > open) {
+        throw new DatabaseError(
+          `Only ${open} is outstanding on invoice ${invoice.invoiceNumber}`,
+          'ALLOCATION_EXCEEDS_INVOICE',
+          400
+        );
+      }
+    }
+  }
+
+  /**
+   * Allocate a receipt against the project's invoices. Amounts chosen by hand are
+   * applied first; whatever is left goes to the oldest invoices still open.
+   * Payments that are not incoming hold no allocations.
+   */
+  async allocatePayment(
+    organizationId: string,
+    paymentId: string,
+    allocations?: ManualInvoiceAllocation[]
+  ) {
+    const payment = await taxInvoiceRepository.findPayment(organizationId, paymentId);
+    if (!payment) return;
+
+    const entries: InvoiceAllocationEntry[] =
+      payment.type === 'IN'
+        ? (allocations ?? [])
+            .filter((allocation) => allocation.amount > 0)
+            .map((allocation) => ({ ...allocation, paymentId }))
+        : [];
+
+    await taxInvoiceRepository.replacePaymentAllocations(paymentId, entries);
+    await this.allocateOpenReceipts(organizationId, payment.projectId);
+  }
+
+  /**
+   * Free what a receipt covered, for when it is moved to the Trash
+   */
+  async releasePayment(organizationId: string, payment: { id: string; projectId: string }) {
+    await taxInvoiceRepository.replacePaymentAllocations(payment.id, []);
+    await this.allocateOpenReceipts(organizationId, payment.projectId);
+  }
+
+  // ============================================
+  // PDF
+  // ============================================
+
+  async toPdf(organizationId: string, invoice: TaxInvoiceWithDetails): Promise<Buffer> {
+    const settings = await this.getSettings(organizationId);
+    return renderInvoicePdf(invoice, settings);
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  /**
+   * Allocate what receipts have not yet covered to open invoices, oldest receipt
+   * first and oldest invoice first
+   */
+  private async allocateOpenReceipts(organizationId: string, projectId: string) {
+    const [invoices, receipts] = await Promise.all([
+      taxInvoiceRepository.findOpenInvoices(organizationId, projectId),
+      taxInvoiceRepository.findReceipts(organizationId, projectId),
+    ]);
+
+    const open = invoices.map((invoice) => ({
+      id: invoice.id,
+      remaining: roundMoney(invoice.totalAmount.toNumber() - receivedOn(invoice)),
+    }));
+
+    const entries: InvoiceAllocationEntry[] = [];
+    for (const receipt of receipts) {
+      let left = roundMoney(
+        receipt.amount.toNumber() -
+          receipt.invoiceAllocations.reduce((sum, item) => sum + item.amount.toNumber(), 0)
+      );
+
+      for (const invoice of open) {
+        if (left <= 0) break;
+        if (invoice.remaining <= 0) continue;
+
+        const amount = Math.min(left, invoice.remaining);
+        entries.push({ invoiceId: invoice.id, paymentId: receipt.id, amount });
+        invoice.remaining = roundMoney(invoice.remaining - amount);
+        left = roundMoney(left - amount);
+      }
+    }
+
+    if (entries.length > 0) {
+      await taxInvoiceRepository.addAllocations(entries);
+    }
+  }
+
+  /**
+   * Price and tax each line. BOQ lines may not bill more than the BOQ quantity
+   * across invoices, and a stage is billed once.
+   */
+  private async buildLines(
+    organizationId: string,
+    projectId: string,
+    contractAmount: number,
+    inputs: TaxInvoiceLineInput[],
+    isInterState: boolean
+  ): Promise<CreateTaxInvoiceLineData[]> {
+    const [boqItems, stages] = await Promise.all([
+      inputs.some((line) => line.source === 'BOQ_ITEM')
+        ? taxInvoiceRepository.findBoqItems(organizationId, projectId)
+        : Promise.resolve([]),
+      inputs.some((line) => line.source === 'STAGE')
+        ? taxInvoiceRepository.findStages(organizationId, projectId)
+        : Promise.resolve([]),
+    ]);
+
+    // Quantity billed on this invoice so far, so repeated items add up
+    const billingNow = new Map<string, number>();
+    const stagesNow = new Set<string>();
+
+    return inputs.map((input) => {
+      let description = input.description;
+      let unit = input.unit;
+      let quantity = input.quantity;
+      let rate = input.rate;
+
+      if (input.source === 'BOQ_ITEM') {
+        const item = boqItems.find((boqItem) => boqItem.id === input.boqItemId);
+        if (!item) {
+          throw new DatabaseError('BOQ item not found in this project', 'NOT_FOUND', 404);
+        }
+
+        const alreadyBilled = item.billedQuantity + (billingNow.get(item.id) ?? 0);
+        const remaining = roundQuantity(item.quantity.toNumber() - alreadyBilled);
+        quantity = quantity ?? remaining;
+        if (quantity <= 0 || quantity > remaining) {
+          throw new DatabaseError(
+            `Only ${Math.max(0, remaining)} ${item.unit} of "${item.description}" is left to bill`,
+            'EXCEEDS_BOQ_QUANTITY',
+            400
+          );
+        }
+        billingNow.set(item.id, (billingNow.get(item.id) ?? 0) + quantity);
+
+        description = description || item.description;
+        unit = unit || item.unit;
+        rate = rate ?? item.rate.toNumber();
+      } else if (input.source === 'STAGE') {
+        const stage = stages.find((item) => item.id === input.stageId);
+        if (!stage) {
+          throw new DatabaseError('Stage not found in this project', 'NOT_FOUND', 404);
+        }
+        if (stage.invoiceLines.length > 0 || stagesNow.has(stage.id)) {
+          throw new DatabaseError(
+            `Stage "${stage.name}" is already billed`,
+            'STAGE_ALREADY_BILLED',
+            400
+          );
+        }
+        stagesNow.add(stage.id);
+
+        description = description || `Stage milestone: ${stage.name}`;
+        unit = unit || 'LS';
+        quantity = 1;
+        rate =
+          rate ??
+          roundMoney(
+            stage.installments.reduce(
+              (sum, installment) => sum + installmentAmount(installment, contractAmount),
+              0
+            )
+          );
+      }
+
+      if (!description || !quantity || !rate) {
+        throw new DatabaseError(
+          'Each line needs a description, quantity and rate',
+          'INVALID_LINE',
+          400
+        );
+      }
+
+      const taxableAmount = roundMoney(quantity * rate);
+      return {
+        source: input.source,
+        boqItemId: input.source === 'BOQ_ITEM' ? input.boqItemId : null,
+        stageId: input.source === 'STAGE' ? input.stageId : null,
+        description,
+        hsnSac: input.hsnSac,
+        unit: unit || 'Nos',
+        quantity,
+        rate,
+        gstRate: input.gstRate,
+        taxableAmount,
+        ...splitGst(taxableAmount, input.gstRate, isInterState),
+      };
+    });
+  }
+
+  private async getInvoice(organizationId: string, id: string) {
+    const invoice = await this.findById(organizationId, id);
+    if (!invoice) {
+      throw new DatabaseError('Invoice not found', 'NOT_FOUND', 404);
+    }
+    return invoice;
+  }
+
+  private async getProject(organizationId: string, projectId: string) {
+    const project = await taxInvoiceRepository.findProject(organizationId, projectId);
+    if (!project) {
+      throw new DatabaseError('Project not found', 'NOT_FOUND', 404);
+    }
+    return project;
+  }
+}
+
+export const taxInvoiceService = new TaxInvoiceService();
+
+// ============================================
+// PDF Layout
+// ============================================
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 8;
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.85, 0.85, 0.85);
+
+type Column = { header: string; width: number; align: 'left' | 'right' };
+
+// Intra-state invoices show CGST and SGST; inter-state ones IGST
+function lineColumns(isInterState: boolean): Column[] {
+  const tax: Column[] = isInterState
+    ? [{ header: 'IGST', width: 72, align: 'right' }]
+    : [
+        { header: 'CGST', width: 56, align: 'right' },
+        { header: 'SGST', width: 56, align: 'right' },
+      ];
+  const descriptionWidth = isInterState ? 191.28 : 151.28;
+  return [
+    { header: '#', width: 18, align: 'left' },
+    { header: 'Description', width: descriptionWidth, align: 'left' },
+    { header: 'HSN/SAC', width: 44, align: 'left' },
+    { header: 'Qty', width: 44, align: 'right' },
+    { header: 'Rate', width: 54, align: 'right' },
+    { header: 'Taxable', width: 62, align: 'right' },
+    { header: 'GST %', width: 30, align: 'right' },
+    ...tax,
+  ];
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('en-IN', { maximumFractionDigits: 4 });
+}
+
+class InvoicePdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly bold: PDFFont,
+    private readonly columns: Column[]
+  ) {}
+
+  newPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  text(
+    value: string,
+    options: { size?: number; bold?: boolean; x?: number; color?: ReturnType<typeof rgb> } = {}
+  ) {
+    const size = options.size ?? FONT_SIZE;
+    this.page.drawText(pdfSafe(value), {
+      x: options.x ?? MARGIN,
+      y: this.y,
+      size,
+      font: options.bold ? this.bold : this.font,
+      color: options.color,
+    });
+  }
+
+  /** Text ending at the right margin */
+  rightText(value: string, options: { size?: number; bold?: boolean } = {}) {
+    const size = options.size ?? FONT_SIZE;
+    const font = options.bold ? this.bold : this.font;
+    const safe = pdfSafe(value);
+    this.page.drawText(safe, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(safe, size),
+      y: this.y,
+      size,
+      font,
+    });
+  }
+
+  moveDown(amount: number) {
+    this.y -= amount;
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y - 5 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y - 5 },
+      thickness: 0.5,
+      color: RULE,
+    });
+  }
+
+  row(cells: string[], options: { bold?: boolean } = {}) {
+    // Leave room for the footer; repeat the header on each new page
+    if (this.y < MARGIN + ROW_HEIGHT * 2) {
+      this.newPage();
+      this.tableHeader();
+    }
+
+    const font = options.bold ? this.bold : this.font;
+    let x = MARGIN;
+    this.columns.forEach((column, index) => {
+      const value = fitText(cells[index] ?? '', font, FONT_SIZE, column.width - 6);
+      const offset =
+        column.align === 'right' ? column.width - 4 - font.widthOfTextAtSize(value, FONT_SIZE) : 2;
+      this.page.drawText(value, { x: x + offset, y: this.y, size: FONT_SIZE, font });
+      x += column.width;
+    });
+    this.rule();
+    this.moveDown(ROW_HEIGHT);
+  }
+
+  tableHeader() {
+    this.page.drawRectangle({
+      x: MARGIN,
+      y: this.y - 5,
+      width: PAGE_WIDTH - MARGIN * 2,
+      height: ROW_HEIGHT,
+      color: rgb(0.94, 0.94, 0.94),
+    });
+    this.row(
+      this.columns.map((column) => column.header),
+      { bold: true }
+    );
+  }
+
+  /** Label and amount on the right-hand side, under the line items */
+  total(label: string, amount: number, options: { bold?: boolean } = {}) {
+    if (this.y < MARGIN + ROW_HEIGHT * 2) {
+      this.newPage();
+    }
+    this.text(label, { x: 360, bold: options.bold });
+    this.rightText(formatAmount(amount), { bold: options.bold });
+    this.moveDown(14);
+  }
+}
+
+async function renderInvoicePdf(
+  invoice: TaxInvoiceWithDetails,
+  supplier: { name: string; billingAddress: string | null }
+): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  doc.setTitle(`Tax Invoice ${invoice.invoiceNumber}`);
+  doc.setProducer(BRAND);
+
+  const writer = new InvoicePdfWriter(doc, font, bold, lineColumns(invoice.isInterState));
+  writer.newPage();
+
+  // Supplier
+  writer.text(supplier.name, { size: 16, bold: true });
+  writer.rightText(invoice.status === 'CANCELLED' ? 'TAX INVOICE (CANCELLED)' : 'TAX INVOICE', {
+    size: 11,
+    bold: true,
+  });
+  writer.moveDown(16);
+  for (const line of (supplier.billingAddress ?? '').split('\n').filter(Boolean)) {
+    writer.text(line, { color: MUTED });
+    writer.moveDown(11);
+  }
+  if (invoice.supplierGstin) {
+    writer.text(`GSTIN: ${invoice.supplierGstin}`);
+    writer.moveDown(11);
+  }
+  writer.text(`State: ${stateName(invoice.supplierStateCode)} (${invoice.supplierStateCode})`, {
+    color: MUTED,
+  });
+  writer.moveDown(24);
+
+  // Invoice details and recipient
+  writer.text('Bill to', { color: MUTED });
+  writer.text(`Invoice No: ${invoice.invoiceNumber}`, { x: 360, bold: true });
+  writer.moveDown(14);
+  writer.text(invoice.client.name, { size: 11, bold: true });
+  writer.text(`Invoice Date: ${formatDate(invoice.invoiceDate)}`, { x: 360 });
+  writer.moveDown(12);
+  writer.text(invoice.client.location, { color: MUTED });
+  if (invoice.dueDate) {
+    writer.text(`Due Date: ${formatDate(invoice.dueDate)}`, { x: 360 });
+  }
+  writer.moveDown(12);
+  writer.text(`GSTIN: ${invoice.recipientGstin ?? 'Unregistered'}`);
+  writer.text(`Place of Supply: ${stateName(invoice.placeOfSupply)} (${invoice.placeOfSupply})`, {
+    x: 360,
+  });
+  writer.moveDown(12);
+  writer.text(`Project: ${invoice.project.name}`, { color: MUTED });
+  writer.moveDown(24);
+
+  // Line items
+  writer.tableHeader();
+  for (const line of invoice.lines) {
+    const tax = invoice.isInterState
+      ? [formatAmount(line.igstAmount.toNumber())]
+      : [formatAmount(line.cgstAmount.toNumber()), formatAmount(line.sgstAmount.toNumber())];
+    writer.row([
+      String(line.sortOrder),
+      line.description,
+      line.hsnSac,
+      `${formatQuantity(line.quantity.toNumber())} ${line.unit}`,
+      formatAmount(line.rate.toNumber()),
+      formatAmount(line.taxableAmount.toNumber()),
+      `${line.gstRate.toNumber()}%`,
+      ...tax,
+    ]);
+  }
+  writer.moveDown(6);
+
+  // Totals
+  writer.total('Taxable value', invoice.taxableAmount.toNumber());
+  if (invoice.isInterState) {
+    writer.total('IGST', invoice.igstAmount.toNumber());
+  } else {
+    writer.total('CGST', invoice.cgstAmount.toNumber());
+    writer.total('SGST', invoice.sgstAmount.toNumber());
+  }
+  writer.total('Invoice total', invoice.totalAmount.toNumber(), { bold: true });
+  writer.moveDown(6);
+  writer.text(amountInWords(invoice.totalAmount.toNumber()), { color: MUTED });
+  writer.moveDown(20);
+
+  if (invoice.notes) {
+    writer.text('Notes', { bold: true });
+    writer.moveDown(12);
+    for (const line of invoice.notes.split('\n')) {
+      writer.text(line, { color: MUTED });
+      writer.moveDown(11);
+    }
+  }
+  if (invoice.status === 'CANCELLED' && invoice.cancellationReason) {
+    writer.moveDown(6);
+    writer.text(`Cancelled: ${invoice.cancellationReason}`, { bold: true });
+  }
+
+  // Footer on every page
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    page.drawText(pdfSafe(`${invoice.invoiceNumber} - generated with ${BRAND}`), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 7,
+      font,
+      color: MUTED,
+    });
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    page.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pageLabel, 7),
+      y: MARGIN / 2,
+      size: 7,
+      font,
+      color: MUTED,
+    });
+  });
+
+  return Buffer.from(await doc.save());
+}
@@ -0,0 +1,298 @@
+/**
+ * Tax Report Service
+ *
+ * Monthly tax summaries for the accountant: GST input credit on bills from
+ * parties, split into CGST and SGST or IGST by the party's state, and TDS
+ * deducted from payments to parties per section, with the date it has to be
+ * paid to the government. Both export as CSV.
+ */
+
+import { toCsv } from '../lib/csv';
+import { gstinPan, gstinStateCode, splitTaxAmount } from '../lib/gst';
+import { TDS_SECTIONS, tdsDueDate } from '../lib/tds';
+import {
+  reportRepository,
+  type ReportPeriod,
+  type TaxParty,
+} from '../repositories/report.repository';
+import { taxInvoiceRepository } from '../repositories/tax-invoice.repository';
+
+// ============================================
+// Types
+// ============================================
+
+export interface GstInputAmounts {
+  bills: number;
+  /** Bill amounts, including GST */
+  billAmount: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  gstAmount: number;
+  /** GST that can be claimed as input tax credit */
+  eligibleCredit: number;
+  ineligibleCredit: number;
+}
+
+export interface GstInputRow extends GstInputAmounts {
+  party: { id: string; name: string; gstin: string | null };
+}
+
+export interface GstInputReport {
+  /** YYYY-MM */
+  month: string;
+  rows: GstInputRow[];
+  totals: GstInputAmounts;
+}
+
+export interface TdsAmounts {
+  payments: number;
+  /** Amounts paid against bills, before TDS */
+  grossAmount: number;
+  tdsAmount: number;
+  /** What the parties received */
+  netAmount: number;
+}
+
+export interface TdsRow extends TdsAmounts {
+  party: { id: string; name: string; pan: string | null };
+  section: string;
+  sectionName: string;
+}
+
+export interface TdsReport {
+  /** YYYY-MM */
+  month: string;
+  /** When the month's TDS has to be paid to the government */
+  dueDate: Date;
+  rows: TdsRow[];
+  totals: TdsAmounts;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseMonth(month: string): { year: number; month: number } {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return { year, month: monthNumber };
+}
+
+function monthPeriod(month: string): ReportPeriod {
+  const parsed = parseMonth(month);
+  return {
+    from: new Date(parsed.year, parsed.month - 1, 1),
+    to: new Date(parsed.year, parsed.month, 1),
+  };
+}
+
+/**
+ * The current month as YYYY-MM
+ */
+export function currentMonth(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function partyStateCode(party: TaxParty): string | null {
+  return party.stateCode ?? (party.gstin ? gstinStateCode(party.gstin) : null);
+}
+
+function emptyGstAmounts(): GstInputAmounts {
+  return {
+    bills: 0,
+    billAmount: 0,
+    taxableAmount: 0,
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 0,
+    gstAmount: 0,
+    eligibleCredit: 0,
+    ineligibleCredit: 0,
+  };
+}
+
+const GST_AMOUNT_KEYS = Object.keys(emptyGstAmounts()) as Array<keyof GstInputAmounts>;
+
+function emptyTdsAmounts(): TdsAmounts {
+  return { payments: 0, grossAmount: 0, tdsAmount: 0, netAmount: 0 };
+}
+
+const TDS_AMOUNT_KEYS = Object.keys(emptyTdsAmounts()) as Array<keyof TdsAmounts>;
+
+function addAmounts<T extends object>(target: T, source: T, keys: Array<keyof T>) {
+  for (const key of keys) {
+    (target[key] as number) = roundMoney((target[key] as number) + (source[key] as number));
+  }
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class TaxReportService {
+  /**
+   * GST on the month's bills per party. Tax from a party in another state is
+   * IGST; otherwise, or when the party's state is not known, CGST and SGST.
+   *
+   * @param projectIds - limits the report to these projects, for project-scoped roles
+   */
+  async getGstInputReport(
+    organizationId: string,
+    month: string,
+    projectIds?: string[]
+  ): Promise<GstInputReport> {
+    const [bills, settings] = await Promise.all([
+      reportRepository.findGstBills(organizationId, { projectIds }, monthPeriod(month)),
+      taxInvoiceRepository.findSettings(organizationId),
+    ]);
+    const ownState = settings?.stateCode ?? null;
+
+    const rows = new Map<string, GstInputRow>();
+    for (const bill of bills) {
+      let row = rows.get(bill.party.id);
+      if (!row) {
+        const { id, name, gstin } = bill.party;
+        row = { party: { id, name, gstin }, ...emptyGstAmounts() };
+        rows.set(id, row);
+      }
+
+      const billState = partyStateCode(bill.party);
+      const isInterState = !!ownState && !!billState && billState !== ownState;
+      addAmounts<GstInputAmounts>(
+        row,
+        {
+          bills: 1,
+          billAmount: bill.amount,
+          taxableAmount: roundMoney(bill.amount - bill.gstAmount),
+          ...splitTaxAmount(bill.gstAmount, isInterState),
+          gstAmount: bill.gstAmount,
+          eligibleCredit: bill.itcEligible ? bill.gstAmount : 0,
+          ineligibleCredit: bill.itcEligible ? 0 : bill.gstAmount,
+        },
+        GST_AMOUNT_KEYS
+      );
+    }
+
+    const result = Array.from(rows.values()).sort(
+      (a, b) => b.gstAmount - a.gstAmount || a.party.name.localeCompare(b.party.name)
+    );
+    const totals = emptyGstAmounts();
+    for (const row of result) addAmounts(totals, row, GST_AMOUNT_KEYS);
+
+    return { month, rows: result, totals };
+  }
+
+  /**
+   * TDS deducted in the month per party and section
+   *
+   * @param projectIds - limits the report to these projects, for project-scoped roles
+   */
+  async getTdsReport(
+    organizationId: string,
+    month: string,
+    projectIds?: string[]
+  ): Promise<TdsReport> {
+    const payments = await reportRepository.findTdsPayments(
+      organizationId,
+      { projectIds },
+      monthPeriod(month)
+    );
+
+    const rows = new Map<string, TdsRow>();
+    for (const payment of payments) {
+      const key = `${payment.party.id}:${payment.tdsSection}`;
+      let row = rows.get(key);
+      if (!row) {
+        const { id, name, gstin } = payment.party;
+        row = {
+          party: { id, name, pan: gstin ? gstinPan(gstin) : null },
+          section: payment.tdsSection,
+          sectionName: TDS_SECTIONS[payment.tdsSection]?.name ?? payment.tdsSection,
+          ...emptyTdsAmounts(),
+        };
+        rows.set(key, row);
+      }
+
+      addAmounts<TdsAmounts>(
+        row,
+        {
+          payments: 1,
+          grossAmount: payment.amount,
+          tdsAmount: payment.tdsAmount,
+          netAmount: roundMoney(payment.amount - payment.tdsAmount),
+        },
+        TDS_AMOUNT_KEYS
+      );
+    }
+
+    const result = Array.from(rows.values()).sort(
+      (a, b) => a.section.localeCompare(b.section) || a.party.name.localeCompare(b.party.name)
+    );
+    const totals = emptyTdsAmounts();
+    for (const row of result) addAmounts(totals, row, TDS_AMOUNT_KEYS);
+
+    const parsed = parseMonth(month);
+    return { month, dueDate: tdsDueDate(parsed.year, parsed.month), rows: result, totals };
+  }
+
+  gstInputToCsv(report: GstInputReport): string {
+    const amounts = (row: GstInputAmounts) => [
+      row.bills,
+      row.billAmount,
+      row.taxableAmount,
+      row.cgstAmount,
+      row.sgstAmount,
+      row.igstAmount,
+      row.gstAmount,
+      row.eligibleCredit,
+      row.ineligibleCredit,
+    ];
+
+    return toCsv([
+      [
+        'Party',
+        'GSTIN',
+        'Bills',
+        'Bill amount',
+        'Taxable value',
+        'CGST',
+        'SGST',
+        'IGST',
+        'Total GST',
+        'Eligible ITC',
+        'Ineligible ITC',
+      ],
+      ...report.rows.map((row) => [row.party.name, row.party.gstin ?? '', ...amounts(row)]),
+      ['Total', '', ...amounts(report.totals)],
+    ]);
+  }
+
+  tdsToCsv(report: TdsReport): string {
+    const amounts = (row: TdsAmounts) => [
+      row.payments,
+      row.grossAmount,
+      row.tdsAmount,
+      row.netAmount,
+    ];
+
+    return toCsv([
+      ['Section', 'Nature of payment', 'Party', 'PAN', 'Payments', 'Gross paid', 'TDS', 'Net paid'],
+      ...report.rows.map((row) => [
+        row.section,
+        row.sectionName,
+        row.party.name,
+        row.party.pan ?? '',
+        ...amounts(row),
+      ]),
+      ['Total', '', '', '', ...amounts(report.totals)],
+    ]);
+  }
+}
+
+export const taxReportService = new TaxReportService();
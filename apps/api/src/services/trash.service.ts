@@ -0,0 +1,109 @@
+import { DatabaseError } from '../lib/database-errors';
+import { purgeableAt, TRASH_RETENTION_DAYS } from '../lib/soft-delete';
+import {
+  trashRepository,
+  type DeletedRecord,
+  type TrashEntityType,
+} from '../repositories/trash.repository';
+import { auditService, type AuditContext } from './audit.service';
+import { installmentService } from './installment.service';
+import { taxInvoiceService } from './tax-invoice.service';
+import { paymentAllocationService } from './payment-allocation.service';
+import { expenseRepository } from '../repositories/expense.repository';
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+  PROJECT: 'Project',
+  PARTY: 'Party',
+  EXPENSE: 'Expense',
+  PAYMENT: 'Payment',
+};
+
+/**
+ * Trash Service
+ *
+ * Lists, restores and purges soft-deleted records. A record can be restored at any time
+ * while it is in the Trash, but only purged once TRASH_RETENTION_DAYS have passed.
+ */
+export class TrashService {
+  async findAll(
+    organizationId: string,
+    options: { entityType?: TrashEntityType; skip: number; take: number }
+  ) {
+    const { items, total } = await trashRepository.findAll(organizationId, options);
+
+    return {
+      items: items.map((item) => ({ ...item, purgeableAt: purgeableAt(item.deletedAt) })),
+      total,
+    };
+  }
+
+  async restore(ctx: AuditContext, entityType: TrashEntityType, id: string): Promise<void> {
+    const record = await this.findDeleted(ctx.organizationId, entityType, id);
+
+    await trashRepository.restore(ctx.organizationId, entityType, id);
+    await auditService.recordRestore(ctx, entityType, record);
+
+    // A restored receipt counts against the payment schedule and invoices again, and a
+    // restored party payment or expense is allocated among the party's payments and bills again
+    if (entityType === 'PAYMENT') {
+      await installmentService.allocatePayment(ctx.organizationId, id);
+      await taxInvoiceService.allocatePayment(ctx.organizationId, id);
+      await paymentAllocationService.allocatePayment(ctx.organizationId, id);
+    }
+    if (entityType === 'EXPENSE') {
+      const expense = await expenseRepository.findById(ctx.organizationId, id);
+      if (expense) {
+        await paymentAllocationService.allocateParty(
+          ctx.organizationId,
+          expense.projectId,
+          expense.partyId
+        );
+      }
+    }
+  }
+
+  async purge(ctx: AuditContext, entityType: TrashEntityType, id: string): Promise<void> {
+    const record = await this.findDeleted(ctx.organizationId, entityType, id);
+
+    const availableAt = purgeableAt(record.deletedAt!);
+    if (availableAt > new Date()) {
+      throw new DatabaseError(
+        `Deleted items are kept for ${TRASH_RETENTION_DAYS} days before they can be purged`,
+        'RETENTION_PERIOD_ACTIVE',
+        409,
+        { purgeableAt: availableAt.toISOString() }
+      );
+    }
+
+    // Expenses keep a hard reference to their party
+    if (entityType === 'PARTY') {
+      const expenseCount = await trashRepository.countPartyExpenses(ctx.organizationId, id);
+      if (expenseCount > 0) {
+        throw new DatabaseError(
+          'This party still has expenses recorded against it and cannot be purged',
+          'PARTY_HAS_EXPENSES',
+          409
+        );
+      }
+    }
+
+    await trashRepository.purge(ctx.organizationId, entityType, id);
+    await auditService.recordPurge(ctx, entityType, record);
+  }
+
+  private async findDeleted(
+    organizationId: string,
+    entityType: TrashEntityType,
+    id: string
+  ): Promise<DeletedRecord> {
+    const record = await trashRepository.findById(organizationId, entityType, id);
+
+    if (!record) {
+      throw new DatabaseError(`${ENTITY_LABELS[entityType]} not found in Trash`, 'NOT_FOUND', 404);
+    }
+
+    return record;
+  }
+}
+
+export const trashService = new TrashService();
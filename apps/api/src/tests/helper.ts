@@ -1,9 +1,15 @@
 import { buildApp } from '../app';
 import { prisma } from '../lib/prisma';
+import { jwtService } from '../services/jwt.service';
 import { faker } from '@faker-js/faker';
 import type { FastifyInstance } from 'fastify';
 import type { PartyType, PaymentType, PaymentMode } from '@prisma/client';
-import type { RoleName } from '../lib/permissions';
+import {
+  PERMISSION_CATALOG,
+  DEFAULT_ROLE_PERMISSIONS,
+  DEFAULT_ROLE_ACCESS,
+} from '../lib/permissions';
+import type { RoleName, PermissionKey, RoleAccess } from '../lib/permissions';
 
 /**
  * Creates a test app instance with logging disabled.
@@ -13,6 +19,9 @@ export async function createTestApp() {
   return buildApp({ logger: false });
 }
 
+// Default authenticated user per organization, registered by testData.createOrganizationOwner
+const organizationOwners = new Map<string, { userId: string; phone: string }>();
+
 /**
  * Test data generators
  */
@@ -28,26 +37,22 @@ export const testData = {
     });
 
     // Create default roles for the organization
+    const roleNames: RoleName[] = ['ADMIN', 'MANAGER', 'ACCOUNTANT', 'SUPERVISOR', 'CLIENT'];
     await prisma.role.createMany({
-      data: [
-        { organizationId: org.id, name: 'ADMIN', description: 'Administrator', isSystemRole: true },
-        { organizationId: org.id, name: 'MANAGER', description: 'Manager', isSystemRole: true },
-        {
-          organizationId: org.id,
-          name: 'ACCOUNTANT',
-          description: 'Accountant',
-          isSystemRole: true,
-        },
-        {
-          organizationId: org.id,
-          name: 'SUPERVISOR',
-          description: 'Supervisor',
-          isSystemRole: true,
-        },
-        { organizationId: org.id, name: 'CLIENT', description: 'Client', isSystemRole: true },
-      ],
+      data: roleNames.map((name) => ({
+        organizationId: org.id,
+        name,
+        description: name.charAt(0) + name.slice(1).toLowerCase(),
+        isSystemRole: true,
+        ...DEFAULT_ROLE_ACCESS[name],
+      })),
     });
 
+    const roles = await prisma.role.findMany({ where: { organizationId: org.id } });
+    for (const role of roles) {
+      await this.grantPermissions(role.id, DEFAULT_ROLE_PERMISSIONS[role.name as RoleName]);
+    }
+
     return org;
   },
 
@@ -85,13 +90,70 @@ export const testData = {
           name: roleName,
           description: `${roleName} role`,
           isSystemRole: true,
+          ...DEFAULT_ROLE_ACCESS[roleName],
         },
       });
+      await this.grantPermissions(role.id, DEFAULT_ROLE_PERMISSIONS[roleName]);
     }
 
     return role.id;
   },
 
+  /**
+   * Grant permission keys to a role, creating catalog rows as needed
+   */
+  async grantPermissions(roleId: string, keys: readonly PermissionKey[]) {
+    await prisma.permission.createMany({
+      data: PERMISSION_CATALOG.map((p) => ({ ...p })),
+      skipDuplicates: true,
+    });
+
+    const permissions = await prisma.permission.findMany({ where: { key: { in: [...keys] } } });
+    await prisma.rolePermission.createMany({
+      data: permissions.map((p) => ({ roleId, permissionId: p.id })),
+      skipDuplicates: true,
+    });
+  },
+
+  /**
+   * Create a custom (non-system) role with the given permission keys
+   */
+  async createRole(
+    organizationId: string,
+    name: string,
+    keys: PermissionKey[],
+    access?: Partial<RoleAccess>
+  ) {
+    const role = await prisma.role.create({
+      data: { organizationId, name, isSystemRole: false, ...access },
+    });
+    await this.grantPermissions(role.id, keys);
+    return role;
+  },
+
+  /**
+   * Create a user who is a member of the organization through a given role
+   */
+  async createMemberWithRole(organizationId: string, roleId: string) {
+    const user = await this.createUser();
+    await prisma.organizationMember.create({
+      data: { organizationId, userId: user.id, roleId },
+    });
+    return user;
+  },
+
+  /**
+   * Create a CLIENT-role member linked to a client party (a client portal user)
+   */
+  async createClientMember(organizationId: string, partyId: string) {
+    const user = await this.createUser();
+    const roleId = await this.getRoleId(organizationId, 'CLIENT');
+    await prisma.organizationMember.create({
+      data: { organizationId, userId: user.id, roleId, partyId },
+    });
+    return user;
+  },
+
   /**
    * Create organization member
    */
@@ -114,6 +176,16 @@ export const testData = {
     });
   },
 
+  /**
+   * Create the default user (an ADMIN member) that authHeaders() signs tokens for
+   */
+  async createOrganizationOwner(organizationId: string) {
+    const user = await this.createUser();
+    await this.createOrganizationMember(organizationId, user.id, 'ADMIN');
+    organizationOwners.set(organizationId, { userId: user.id, phone: user.phone ?? '' });
+    return user;
+  },
+
   /**
    * Create a test category type (global, not per-organization)
    */
@@ -126,6 +198,17 @@ export const testData = {
     });
   },
 
+  /**
+   * Find a category type by key, creating it on first use. Category types are
+   * global, so test files share them.
+   */
+  async findOrCreateCategoryType(key: string, label?: string) {
+    return (
+      (await prisma.categoryType.findUnique({ where: { key } })) ??
+      (await testData.createCategoryType(key, label))
+    );
+  },
+
   /**
    * Create a test category item
    */
@@ -307,6 +390,7 @@ export const testData = {
       fileUrl: string;
       storagePath: string;
       mimeType: string;
+      sharedWithClient: boolean;
     }>
   ) {
     return prisma.document.create({
@@ -318,6 +402,7 @@ export const testData = {
         fileUrl: data?.fileUrl || 'http://localhost:9000/documents/test-file.pdf',
         storagePath: data?.storagePath || 'test/test-file.pdf',
         mimeType: data?.mimeType || 'application/pdf',
+        sharedWithClient: data?.sharedWithClient ?? false,
       },
     });
   },
@@ -350,7 +435,7 @@ export const testData = {
    */
   async linkAttachment(
     attachmentId: string,
-    entityType: 'EXPENSE' | 'PAYMENT' | 'DOCUMENT',
+    entityType: 'EXPENSE' | 'PAYMENT' | 'DOCUMENT' | 'PARTY_LEDGER_ENTRY' | 'ADVANCE_CLAIM',
     entityId: string
   ) {
     return prisma.entityAttachment.create({
@@ -372,6 +457,8 @@ export const cleanup = {
    */
   async organization(organizationId: string) {
     // Delete in order of dependencies
+    await prisma.auditLog.deleteMany({ where: { organizationId } });
+    await prisma.invitation.deleteMany({ where: { organizationId } });
     await prisma.projectAccess.deleteMany({
       where: { member: { organizationId } },
     });
@@ -379,10 +466,12 @@ export const cleanup = {
       where: { attachment: { organizationId } },
     });
     await prisma.attachment.deleteMany({ where: { organizationId } });
+    await prisma.partyLedgerEntry.deleteMany({ where: { organizationId } });
     await prisma.payment.deleteMany({ where: { organizationId } });
     await prisma.expense.deleteMany({ where: { organizationId } });
     await prisma.document.deleteMany({ where: { organizationId } });
     await prisma.stage.deleteMany({ where: { organizationId } });
+    await prisma.expenseApprovalRule.deleteMany({ where: { organizationId } });
     await prisma.project.deleteMany({ where: { organizationId } });
     await prisma.party.deleteMany({ where: { organizationId } });
     await prisma.categoryItem.deleteMany({ where: { organizationId } });
@@ -396,13 +485,17 @@ export const cleanup = {
    * Delete all test data
    */
   async all() {
+    await prisma.auditLog.deleteMany();
+    await prisma.invitation.deleteMany();
     await prisma.projectAccess.deleteMany();
     await prisma.entityAttachment.deleteMany();
     await prisma.attachment.deleteMany();
+    await prisma.partyLedgerEntry.deleteMany();
     await prisma.payment.deleteMany();
     await prisma.expense.deleteMany();
     await prisma.document.deleteMany();
     await prisma.stage.deleteMany();
+    await prisma.expenseApprovalRule.deleteMany();
     await prisma.project.deleteMany();
     await prisma.party.deleteMany();
     await prisma.categoryItem.deleteMany();
@@ -410,6 +503,7 @@ export const cleanup = {
     await prisma.organizationMember.deleteMany();
     await prisma.role.deleteMany();
     await prisma.refreshToken.deleteMany();
+    await prisma.authSession.deleteMany();
     await prisma.user.deleteMany();
     await prisma.organization.deleteMany();
   },
@@ -417,16 +511,28 @@ export const cleanup = {
 
 /**
  * Test request headers helper
+ *
+ * Signs an access token for the given user (defaults to the organization owner).
+ * Role and membership are resolved server-side from the database.
+ * Requires createTestApp() to have been called so the JWT service is initialized.
  */
-export function authHeaders(
-  organizationId: string,
-  userId: string = 'test-user',
-  role: RoleName = 'ADMIN'
-) {
+export function authHeaders(organizationId: string, userId?: string) {
+  const owner = organizationOwners.get(organizationId);
+  const subject = userId ?? owner?.userId;
+
+  if (!subject) {
+    throw new Error(`No test user for organization ${organizationId}. Create an owner first.`);
+  }
+
+  const accessToken = jwtService.signAccessToken({
+    userId: subject,
+    phone: subject === owner?.userId ? owner.phone : '',
+    organizationId,
+  });
+
   return {
+    authorization: `Bearer ${accessToken}`,
     'x-organization-id': organizationId,
-    'x-user-id': userId,
-    'x-user-role': role,
   };
 }
 
@@ -435,16 +541,11 @@ export function authHeaders(
  */
 export async function setupTestContext() {
   const organization = await testData.createOrganization('Test Organization');
+  const owner = await testData.createOrganizationOwner(organization.id);
 
   // Create or find global category types
-  let projectType = await prisma.categoryType.findUnique({ where: { key: 'project_type' } });
-  if (!projectType) {
-    projectType = await testData.createCategoryType('project_type', 'Project Type');
-  }
-  let expenseType = await prisma.categoryType.findUnique({ where: { key: 'expense_type' } });
-  if (!expenseType) {
-    expenseType = await testData.createCategoryType('expense_type', 'Expense Type');
-  }
+  const projectType = await testData.findOrCreateCategoryType('project_type', 'Project Type');
+  const expenseType = await testData.findOrCreateCategoryType('expense_type', 'Expense Type');
 
   // Create base category items
   const residentialType = await testData.createCategoryItem(
@@ -470,6 +571,7 @@ export async function setupTestContext() {
 
   return {
     organization,
+    owner,
     projectType,
     expenseType,
     residentialType,
@@ -7,6 +7,10 @@ export default defineConfig({
     include: ['src/**/*.test.ts'],
     // Run tests sequentially to avoid database conflicts
     fileParallelism: false,
+    env: {
+      // Keep OTP rate-limit counters in memory so tests can reset them
+      RATE_LIMIT_STORE: 'memory',
+    },
     coverage: {
       reporter: ['text', 'html'],
       include: ['src/**/*.ts'],
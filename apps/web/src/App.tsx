@@ -1,7 +1,7 @@
 import { BrowserRouter, Routes, Route, Navigate, Outlet } from 'react-router-dom';
 
 import { useAuthStore } from './stores/auth.store';
-import { Layout, PageContent, Header } from '@/components/layout';
+import { Layout, PortalLayout, PageContent, Header } from '@/components/layout';
 import { TypographyH2, TypographyMuted } from '@/components/ui/typography';
 import PhoneInput from './pages/auth/PhoneInput';
 import VerifyOtp from './pages/auth/VerifyOtp';
@@ -14,6 +14,15 @@ import ProjectDetailPage from './pages/projects/ProjectDetailPage';
 import TeamDirectoryPage from './pages/team/TeamDirectoryPage';
 import RolesPage from './pages/settings/RolesPage';
 import RoleDetailPage from './pages/settings/RoleDetailPage';
+import SessionsPage from './pages/settings/SessionsPage';
+import TrashPage from './pages/settings/TrashPage';
+import ApprovalRulesPage from './pages/settings/ApprovalRulesPage';
+import RateTemplatesPage from './pages/settings/RateTemplatesPage';
+import RateLibraryPage from './pages/settings/RateLibraryPage';
+import ApprovalInboxPage from './pages/approvals/ApprovalInboxPage';
+import ReportsPage from './pages/reports/ReportsPage';
+import PortalProjectsPage from './pages/portal/PortalProjectsPage';
+import PortalProjectPage from './pages/portal/PortalProjectPage';
 
 // Auth Route wrapper - redirects to home if already logged in
 function AuthRoute({ children }: { children: React.ReactNode }) {
@@ -29,7 +38,7 @@ function AuthRoute({ children }: { children: React.ReactNode }) {
 // Protected Layout - wraps all authenticated routes with shared Layout
 // The Layout (including Sidebar) is mounted once and shared across all child routes
 function ProtectedLayout() {
-  const { isAuthenticated, organization } = useAuthStore();
+  const { isAuthenticated, organization, userRole } = useAuthStore();
 
   if (!isAuthenticated) {
     return <Navigate to="/auth" replace />;
@@ -40,6 +49,11 @@ function ProtectedLayout() {
     return <Navigate to="/auth/onboarding" replace />;
   }
 
+  // Clients only see the client portal
+  if (userRole === 'CLIENT') {
+    return <Navigate to="/portal" replace />;
+  }
+
   return (
     <Layout>
       <Outlet />
@@ -47,6 +61,29 @@ function ProtectedLayout() {
   );
 }
 
+// Portal Layout - read-only client portal for CLIENT-role users
+function PortalRoute() {
+  const { isAuthenticated, organization, userRole } = useAuthStore();
+
+  if (!isAuthenticated) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!organization) {
+    return <Navigate to="/auth/onboarding" replace />;
+  }
+
+  if (userRole !== 'CLIENT') {
+    return <Navigate to="/" replace />;
+  }
+
+  return (
+    <PortalLayout>
+      <Outlet />
+    </PortalLayout>
+  );
+}
+
 // Dashboard page content (no Layout wrapper needed)
 function DashboardPage() {
   const { user } = useAuthStore();
@@ -113,8 +150,21 @@ export default function App() {
           <Route path="parties" element={<PartiesPage />} />
           <Route path="parties/:id" element={<PartyDetailPage />} />
           <Route path="team" element={<TeamDirectoryPage />} />
+          <Route path="approvals" element={<ApprovalInboxPage />} />
+          <Route path="reports" element={<ReportsPage />} />
           <Route path="settings/roles" element={<RolesPage />} />
           <Route path="settings/roles/:id" element={<RoleDetailPage />} />
+          <Route path="settings/sessions" element={<SessionsPage />} />
+          <Route path="settings/trash" element={<TrashPage />} />
+          <Route path="settings/approvals" element={<ApprovalRulesPage />} />
+          <Route path="settings/rate-templates" element={<RateTemplatesPage />} />
+          <Route path="settings/rate-library" element={<RateLibraryPage />} />
+        </Route>
+
+        {/* Client Portal - CLIENT-role users only */}
+        <Route path="portal" element={<PortalRoute />}>
+          <Route index element={<PortalProjectsPage />} />
+          <Route path="projects/:id" element={<PortalProjectPage />} />
         </Route>
 
         {/* Catch all - redirect to home */}
@@ -0,0 +1,294 @@
+import { useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ApprovalRule, ApprovalRuleInput } from '@/lib/api/approvals';
+import type { Role } from '@/lib/api/roles';
+import type { TeamMember } from '@/lib/api/team';
+
+// ============================================
+// Schema
+// ============================================
+
+// Select value standing for "no project": the rule applies organization-wide
+const ALL_PROJECTS = 'all';
+
+const LEVELS = [1, 2, 3, 4, 5];
+
+const ruleFormSchema = z
+  .object({
+    projectId: z.string(),
+    minAmount: z.coerce.number().min(0, 'Minimum amount must be zero or positive'),
+    level: z.string(),
+    approverType: z.enum(['role', 'member']),
+    approverRoleId: z.string().optional(),
+    approverMemberId: z.string().optional(),
+  })
+  .refine(
+    (data) => (data.approverType === 'role' ? !!data.approverRoleId : !!data.approverMemberId),
+    { message: 'Choose who approves', path: ['approverRoleId'] }
+  );
+
+type RuleFormData = z.infer<typeof ruleFormSchema>;
+
+// ============================================
+// Props
+// ============================================
+
+interface ApprovalRuleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: ApprovalRule | null;
+  projects: Array<{ id: string; name: string }>;
+  roles: Role[];
+  members: TeamMember[];
+  onSubmit: (data: ApprovalRuleInput) => void;
+  isSubmitting: boolean;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ApprovalRuleFormDialog({
+  open,
+  onOpenChange,
+  rule,
+  projects,
+  roles,
+  members,
+  onSubmit,
+  isSubmitting,
+}: ApprovalRuleFormDialogProps) {
+  const isEditing = !!rule;
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<RuleFormData>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: {
+      projectId: ALL_PROJECTS,
+      minAmount: 0,
+      level: '1',
+      approverType: 'role',
+    },
+  });
+
+  const approverType = watch('approverType');
+
+  // Reset form when dialog opens/closes or rule changes
+  useEffect(() => {
+    if (open) {
+      reset({
+        projectId: rule?.projectId ?? ALL_PROJECTS,
+        minAmount: rule ? Number(rule.minAmount) : 0,
+        level: String(rule?.level ?? 1),
+        approverType: rule?.approverMemberId ? 'member' : 'role',
+        approverRoleId: rule?.approverRoleId ?? undefined,
+        approverMemberId: rule?.approverMemberId ?? undefined,
+      });
+    }
+  }, [open, rule, reset]);
+
+  const handleFormSubmit = (data: RuleFormData) => {
+    onSubmit({
+      projectId: data.projectId === ALL_PROJECTS ? null : data.projectId,
+      minAmount: data.minAmount,
+      level: Number(data.level),
+      approverRoleId: data.approverType === 'role' ? data.approverRoleId : null,
+      approverMemberId: data.approverType === 'member' ? data.approverMemberId : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Approval Rule' : 'Add Approval Rule'}</DialogTitle>
+          <DialogDescription>
+            Expenses of at least the minimum amount need this approval. Each level is approved in
+            turn, lowest first.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(handleFormSubmit)}>
+          <div className="grid gap-4 py-4">
+            {/* Project */}
+            <div className="grid gap-2">
+              <Label htmlFor="rule-project">Project</Label>
+              <Controller
+                name="projectId"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="rule-project">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              <p className="text-sm text-muted-foreground">
+                A project with its own rules ignores the rules for all projects.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {/* Minimum Amount */}
+              <div className="grid gap-2">
+                <Label htmlFor="rule-min-amount">Minimum amount (₹)</Label>
+                <Input
+                  id="rule-min-amount"
+                  type="number"
+                  min={0}
+                  step="any"
+                  {...register('minAmount')}
+                  aria-invalid={!!errors.minAmount}
+                />
+                {errors.minAmount && (
+                  <p className="text-sm text-destructive">{errors.minAmount.message}</p>
+                )}
+              </div>
+
+              {/* Level */}
+              <div className="grid gap-2">
+                <Label htmlFor="rule-level">Level</Label>
+                <Controller
+                  name="level"
+                  control={control}
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger id="rule-level">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LEVELS.map((level) => (
+                          <SelectItem key={level} value={String(level)}>
+                            Level {level}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            </div>
+
+            {/* Approver */}
+            <div className="grid gap-2">
+              <Label>
+                Approver <span className="text-destructive">*</span>
+              </Label>
+              <div className="grid grid-cols-[140px_1fr] gap-2">
+                <Controller
+                  name="approverType"
+                  control={control}
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="role">Anyone with role</SelectItem>
+                        <SelectItem value="member">Team member</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {approverType === 'role' ? (
+                  <Controller
+                    name="approverRoleId"
+                    control={control}
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger aria-invalid={!!errors.approverRoleId}>
+                          <SelectValue placeholder="Select a role" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map((role) => (
+                            <SelectItem key={role.id} value={role.id}>
+                              {role.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                ) : (
+                  <Controller
+                    name="approverMemberId"
+                    control={control}
+                    render={({ field }) => (
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <SelectTrigger aria-invalid={!!errors.approverRoleId}>
+                          <SelectValue placeholder="Select a member" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {members.map((member) => (
+                            <SelectItem key={member.membership.id} value={member.membership.id}>
+                              {member.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                )}
+              </div>
+              {errors.approverRoleId && (
+                <p className="text-sm text-destructive">{errors.approverRoleId.message}</p>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Approvers also need the Approve Expenses permission.
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSubmitting}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Rule'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
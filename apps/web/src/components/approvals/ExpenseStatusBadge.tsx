@@ -0,0 +1,38 @@
+/**
+ * Expense Status Badge
+ *
+ * Approval status of an expense. Pending expenses show the level they wait on
+ * and rejected ones carry the reason as a tooltip.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import type { Expense, ExpenseStatus } from '@/lib/api/expenses';
+
+const STATUS_LABELS: Record<ExpenseStatus, string> = {
+  PENDING: 'Pending',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+const STATUS_VARIANTS: Record<ExpenseStatus, 'default' | 'secondary' | 'destructive'> = {
+  PENDING: 'secondary',
+  APPROVED: 'default',
+  REJECTED: 'destructive',
+};
+
+interface ExpenseStatusBadgeProps {
+  expense: Pick<Expense, 'status' | 'approvalLevel' | 'rejectionReason'>;
+}
+
+export function ExpenseStatusBadge({ expense }: ExpenseStatusBadgeProps) {
+  const label =
+    expense.status === 'PENDING' && expense.approvalLevel > 1
+      ? `Pending · Level ${expense.approvalLevel}`
+      : STATUS_LABELS[expense.status];
+
+  return (
+    <Badge variant={STATUS_VARIANTS[expense.status]} title={expense.rejectionReason ?? undefined}>
+      {label}
+    </Badge>
+  );
+}
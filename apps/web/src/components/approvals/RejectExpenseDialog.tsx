@@ -0,0 +1,94 @@
+/**
+ * Reject Expense Dialog
+ *
+ * Asks the approver why an expense is rejected. The reason is shown to the
+ * submitter, who can correct the expense and resubmit it.
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useRejectExpense } from '@/lib/hooks/useExpenses';
+
+interface RejectExpenseDialogProps {
+  expenseId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RejectExpenseDialog({ expenseId, onOpenChange }: RejectExpenseDialogProps) {
+  const [reason, setReason] = useState('');
+  const rejectMutation = useRejectExpense();
+
+  useEffect(() => {
+    if (expenseId) setReason('');
+  }, [expenseId]);
+
+  const handleReject = async () => {
+    if (!expenseId || !reason.trim()) return;
+
+    try {
+      await rejectMutation.mutateAsync({ id: expenseId, reason: reason.trim() });
+      toast.success('Expense rejected');
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to reject expense');
+    }
+  };
+
+  return (
+    <Dialog open={!!expenseId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Reject Expense</DialogTitle>
+          <DialogDescription>
+            The submitter sees this reason and can correct the expense and resubmit it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="rejection-reason">
+            Reason <span className="text-destructive">*</span>
+          </Label>
+          <Textarea
+            id="rejection-reason"
+            placeholder="e.g. Bill is missing, quantity does not match the delivery"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={rejectMutation.isPending}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleReject}
+            disabled={!reason.trim() || rejectMutation.isPending}
+            className="cursor-pointer"
+          >
+            {rejectMutation.isPending ? 'Rejecting...' : 'Reject'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
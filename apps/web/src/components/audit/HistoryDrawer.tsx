@@ -0,0 +1,176 @@
+/**
+ * History Drawer
+ *
+ * Side sheet listing the audit trail of a single record:
+ * who changed it, when, and the before/after value of each changed field.
+ */
+
+import { format, formatDistanceToNow } from 'date-fns';
+import { ClockCounterClockwise } from '@phosphor-icons/react';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { useEntityHistory } from '@/lib/hooks/useAudit';
+import type { AuditAction, AuditEntityType, AuditLogEntry, AuditValue } from '@/lib/api/audit';
+
+// ============================================
+// Types
+// ============================================
+
+interface HistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  title?: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  RESTORE: 'Restored',
+  PURGE: 'Permanently deleted',
+};
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive'> = {
+  CREATE: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+  RESTORE: 'default',
+  PURGE: 'destructive',
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+function formatFieldName(field: string): string {
+  const spaced = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+function formatValue(value: AuditValue | undefined): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return format(new Date(value), 'dd MMM yyyy');
+  }
+  return String(value);
+}
+
+/**
+ * Fields to show for an entry: every changed field for updates,
+ * the full record (minus its id) for creates and deletes
+ */
+function getChangedFields(entry: AuditLogEntry): string[] {
+  const fields = new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]);
+  fields.delete('id');
+  return [...fields];
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function HistoryDrawer({
+  open,
+  onOpenChange,
+  entityType,
+  entityId,
+  title = 'History',
+}: HistoryDrawerProps) {
+  const { data, isLoading } = useEntityHistory(entityType, open ? entityId : null);
+  const entries = data?.items ?? [];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>Every change to this record, newest first.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, index) => (
+              <div key={index} className="rounded-lg border p-4 animate-pulse space-y-2">
+                <div className="h-4 w-32 bg-gray-200 rounded" />
+                <div className="h-3 w-48 bg-gray-200 rounded" />
+              </div>
+            ))
+          ) : entries.length === 0 ? (
+            <Empty className="py-12">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <ClockCounterClockwise className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No history yet</EmptyTitle>
+                <EmptyDescription>Changes made from now on will appear here.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="rounded-lg border p-4 space-y-3">
+                {/* Who and when */}
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {entry.actor?.user.name ?? 'Former member'}
+                    </p>
+                    <p
+                      className="text-xs text-muted-foreground"
+                      title={format(new Date(entry.createdAt), 'dd MMM yyyy, HH:mm')}
+                    >
+                      {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge variant={ACTION_VARIANTS[entry.action]}>
+                    {ACTION_LABELS[entry.action]}
+                  </Badge>
+                </div>
+
+                {/* What changed */}
+                <dl className="space-y-1 text-sm">
+                  {getChangedFields(entry).map((field) => (
+                    <div key={field} className="grid grid-cols-[8rem_1fr] gap-2">
+                      <dt className="text-muted-foreground truncate">{formatFieldName(field)}</dt>
+                      <dd className="break-words">
+                        {entry.action === 'UPDATE' ? (
+                          <>
+                            <span className="text-muted-foreground line-through">
+                              {formatValue(entry.before?.[field])}
+                            </span>{' '}
+                            → {formatValue(entry.after?.[field])}
+                          </>
+                        ) : (
+                          formatValue((entry.after ?? entry.before)?.[field])
+                        )}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
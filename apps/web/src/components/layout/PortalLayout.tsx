@@ -0,0 +1,67 @@
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { SignOut } from '@phosphor-icons/react';
+
+import { useLogout } from '@worksite/data';
+
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { usePortalProfile } from '@/lib/hooks/usePortal';
+import { useAuthStore } from '@/stores/auth.store';
+
+/* ========================================
+   TYPE DEFINITIONS
+   ======================================== */
+interface PortalLayoutProps {
+  /** Main content */
+  children: ReactNode;
+  /** Additional className for the layout container */
+  className?: string;
+}
+
+/* ========================================
+   PORTAL LAYOUT COMPONENT
+   Client portal shell: a top bar instead of the staff sidebar
+   ======================================== */
+export function PortalLayout({ children, className }: PortalLayoutProps) {
+  const { organization, user, logoutUser, refreshToken } = useAuthStore();
+  const logoutMutation = useLogout();
+  const { data: profile } = usePortalProfile();
+
+  const handleLogout = async () => {
+    try {
+      await logoutMutation.mutateAsync(refreshToken);
+    } catch {
+      // Ignore logout API errors - still clear local state
+    }
+    logoutUser();
+  };
+
+  return (
+    <div className={cn('flex flex-col h-screen bg-background overflow-hidden', className)}>
+      <header
+        className="h-[65px] flex items-center justify-between px-6 bg-white border-b border-neutral-200"
+        role="banner"
+      >
+        <Link to="/portal" className="min-w-0">
+          <p className="font-semibold truncate">{organization?.name}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            Client portal{profile ? ` · ${profile.client.name}` : ''}
+          </p>
+        </Link>
+
+        <div className="flex items-center gap-3">
+          <span className="hidden sm:inline text-sm text-muted-foreground">{user?.name}</span>
+          <Button variant="ghost" size="sm" onClick={handleLogout} className="cursor-pointer">
+            <SignOut className="mr-2 h-4 w-4" />
+            Sign out
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex-1 flex flex-col overflow-hidden">{children}</div>
+    </div>
+  );
+}
+
+export default PortalLayout;
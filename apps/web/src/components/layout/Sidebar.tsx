@@ -12,6 +12,7 @@ import { cn } from '@/lib/utils';
 import { TypographySmall, TypographyMuted, TypographyLarge } from '@/components/ui/typography';
 import { useSidebarStore } from '@/stores/sidebar';
 import { useAuthStore } from '@/stores/auth.store';
+import { useCan } from '@/lib/hooks/usePermissions';
 import {
   NavItemButton,
   NavSection,
@@ -37,6 +38,14 @@ export function Sidebar({ className }: SidebarProps) {
   } = useSidebarStore();
 
   const { user } = useAuthStore();
+  const can = useCan();
+
+  // Hide navigation the current role cannot use
+  const visibleNavItems = mainNavItems.filter((item) => !item.permission || can(item.permission));
+  const visibleSettingsSection = {
+    ...settingsSection,
+    items: settingsSection.items.filter((item) => !item.permission || can(item.permission)),
+  };
 
   // Close mobile menu on navigation
   const handleNavClick = () => {
@@ -101,7 +110,7 @@ export function Sidebar({ className }: SidebarProps) {
         {/* Navigation */}
         <nav className="flex-1 overflow-y-auto overflow-x-visible p-3">
           <ul className="space-y-1">
-            {mainNavItems.map((item) => (
+            {visibleNavItems.map((item) => (
               <li key={item.id}>
                 <NavItemButton
                   item={item}
@@ -112,13 +121,15 @@ export function Sidebar({ className }: SidebarProps) {
             ))}
           </ul>
 
-          <div className="mt-6">
-            <NavSection
-              section={settingsSection}
-              isCollapsed={effectiveCollapsed}
-              onItemClick={handleNavClick}
-            />
-          </div>
+          {visibleSettingsSection.items.length > 0 && (
+            <div className="mt-6">
+              <NavSection
+                section={visibleSettingsSection}
+                isCollapsed={effectiveCollapsed}
+                onItemClick={handleNavClick}
+              />
+            </div>
+          )}
         </nav>
 
         {/* Footer */}
@@ -2,3 +2,4 @@ export { Layout, PageContent } from './Layout';
 export { Sidebar } from './Sidebar';
 export { Header } from './Header';
 export { PageHeader } from './PageHeader';
+export { PortalLayout } from './PortalLayout';
@@ -1,9 +1,10 @@
 import { useEffect, useRef } from 'react';
-import { User, Gear, Bell, SignOut } from '@phosphor-icons/react';
+import { User, Gear, Bell, SignOut, Buildings, Check, DeviceMobile } from '@phosphor-icons/react';
 
 import { useLogout } from '@worksite/data';
 
 import { cn } from '@/lib/utils';
+import { useMyOrganizations, useSwitchOrganization } from '@/lib/hooks/useOrganizations';
 import { useAuthStore } from '@/stores/auth.store';
 
 interface ProfileMenuProps {
@@ -14,8 +15,10 @@ interface ProfileMenuProps {
 
 export function ProfileMenu({ isOpen, onClose, isCollapsed }: ProfileMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
-  const { logoutUser } = useAuthStore();
+  const { logoutUser, refreshToken } = useAuthStore();
   const logoutMutation = useLogout();
+  const { data: organizations = [] } = useMyOrganizations();
+  const switchOrganizationMutation = useSwitchOrganization();
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -35,7 +38,7 @@ export function ProfileMenu({ isOpen, onClose, isCollapsed }: ProfileMenuProps)
 
   const handleLogout = async () => {
     try {
-      await logoutMutation.mutateAsync();
+      await logoutMutation.mutateAsync(refreshToken);
     } catch {
       // Ignore logout API errors - still clear local state
     }
@@ -43,6 +46,11 @@ export function ProfileMenu({ isOpen, onClose, isCollapsed }: ProfileMenuProps)
     onClose();
   };
 
+  const handleSwitchOrganization = async (organizationId: string) => {
+    await switchOrganizationMutation.mutateAsync(organizationId);
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -75,6 +83,31 @@ export function ProfileMenu({ isOpen, onClose, isCollapsed }: ProfileMenuProps)
         <Bell className="mr-3 h-4 w-4 text-neutral-500" />
         <span>Notifications</span>
       </a>
+      <a
+        href="/settings/sessions"
+        className="flex items-center px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50"
+      >
+        <DeviceMobile className="mr-3 h-4 w-4 text-neutral-500" />
+        <span>My Sessions</span>
+      </a>
+      {organizations.length > 1 && (
+        <>
+          <div className="border-t border-neutral-200 my-1" />
+          <p className="px-4 pt-1 pb-1 text-xs font-medium text-neutral-400">Organizations</p>
+          {organizations.map((org) => (
+            <button
+              key={org.id}
+              onClick={() => handleSwitchOrganization(org.id)}
+              disabled={org.isActive || switchOrganizationMutation.isPending}
+              className="flex items-center w-full px-4 py-2 text-sm text-neutral-700 hover:bg-neutral-50"
+            >
+              <Buildings className="mr-3 h-4 w-4 text-neutral-500" />
+              <span className="flex-1 truncate text-left">{org.name}</span>
+              {org.isActive && <Check className="ml-2 h-4 w-4 text-neutral-500" />}
+            </button>
+          ))}
+        </>
+      )}
       <div className="border-t border-neutral-200 my-1" />
       <button
         onClick={handleLogout}
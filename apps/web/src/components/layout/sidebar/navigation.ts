@@ -5,6 +5,11 @@ import {
   GridFourIcon,
   ShieldIcon,
   HandshakeIcon,
+  TrashIcon,
+  SealCheckIcon,
+  ChartBarIcon,
+  CalculatorIcon,
+  BooksIcon,
 } from '@phosphor-icons/react';
 import type { Icon } from '@phosphor-icons/react';
 
@@ -14,6 +19,8 @@ export interface NavItem {
   icon: Icon;
   href: string;
   badge?: number;
+  /** Permission key required to see this item */
+  permission?: string;
 }
 
 export interface NavSection {
@@ -24,16 +31,82 @@ export interface NavSection {
 
 export const mainNavItems: NavItem[] = [
   { id: 'dashboard', label: 'Dashboard', icon: HouseIcon, href: '/' },
-  { id: 'projects', label: 'Projects', icon: FolderIcon, href: '/projects' },
-  { id: 'parties', label: 'Parties', icon: HandshakeIcon, href: '/parties' },
-  { id: 'team', label: 'Team Directory', icon: UsersIcon, href: '/team' },
+  {
+    id: 'projects',
+    label: 'Projects',
+    icon: FolderIcon,
+    href: '/projects',
+    permission: 'projects.view',
+  },
+  {
+    id: 'parties',
+    label: 'Parties',
+    icon: HandshakeIcon,
+    href: '/parties',
+    permission: 'parties.view',
+  },
+  { id: 'team', label: 'Team Directory', icon: UsersIcon, href: '/team', permission: 'team.view' },
+  {
+    id: 'approvals',
+    label: 'Approvals',
+    icon: SealCheckIcon,
+    href: '/approvals',
+    permission: 'expenses.approve',
+  },
+  {
+    id: 'reports',
+    label: 'Reports',
+    icon: ChartBarIcon,
+    href: '/reports',
+    permission: 'reports.view',
+  },
 ];
 
 export const settingsSection: NavSection = {
   id: 'settings',
   title: 'Settings',
   items: [
-    { id: 'categories', label: 'Categories', icon: GridFourIcon, href: '/categories' },
-    { id: 'roles', label: 'Roles & Permissions', icon: ShieldIcon, href: '/settings/roles' },
+    {
+      id: 'categories',
+      label: 'Categories',
+      icon: GridFourIcon,
+      href: '/categories',
+      permission: 'categories.manage',
+    },
+    {
+      id: 'roles',
+      label: 'Roles & Permissions',
+      icon: ShieldIcon,
+      href: '/settings/roles',
+      permission: 'roles.view',
+    },
+    {
+      id: 'approval-rules',
+      label: 'Approval Rules',
+      icon: SealCheckIcon,
+      href: '/settings/approvals',
+      permission: 'approvals.manage',
+    },
+    {
+      id: 'rate-templates',
+      label: 'Rate Templates',
+      icon: CalculatorIcon,
+      href: '/settings/rate-templates',
+      permission: 'boq.view',
+    },
+    {
+      id: 'rate-library',
+      label: 'Rate Library',
+      icon: BooksIcon,
+      href: '/settings/rate-library',
+      permission: 'expenses.view',
+    },
+    {
+      id: 'trash',
+      label: 'Trash',
+      icon: TrashIcon,
+      href: '/settings/trash',
+      permission: 'trash.manage',
+    },
   ],
 };
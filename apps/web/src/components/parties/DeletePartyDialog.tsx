@@ -46,8 +46,8 @@ export function DeletePartyDialog({
             Delete {party?.type ? getTypeLabel(party.type) : 'party'}?
           </AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete <strong>{party?.name}</strong>? This action cannot be
-            undone. All associated expenses and payments will be affected.
+            Are you sure you want to delete <strong>{party?.name}</strong>? The party will be moved
+            to the Trash, where it can be restored. Its expenses and payments are kept.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
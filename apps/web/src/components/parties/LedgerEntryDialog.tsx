@@ -0,0 +1,479 @@
+/**
+ * Ledger Entry Dialog
+ *
+ * Record or edit an advance, credit note, refund or write-off on a party's account
+ * in a project, with a narration and the bills, credit notes or receipts behind it.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+import { Paperclip, X, DownloadSimple } from '@phosphor-icons/react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useProjects } from '@/lib/hooks/useProjects';
+import {
+  usePartyLedgerEntry,
+  useCreatePartyLedgerEntry,
+  useUpdatePartyLedgerEntry,
+  useUploadLedgerAttachment,
+  useDeleteLedgerAttachment,
+} from '@/lib/hooks/usePartyLedger';
+import { getLedgerAttachmentDownload, type PartyLedgerEntryType } from '@/lib/api/party-ledger';
+
+// ============================================
+// Constants
+// ============================================
+
+export const LEDGER_ENTRY_TYPES: Record<
+  PartyLedgerEntryType,
+  { label: string; description: string; movesMoney: boolean }
+> = {
+  ADVANCE: {
+    label: 'Advance',
+    description: 'Paid to the party before a bill',
+    movesMoney: true,
+  },
+  CREDIT_NOTE: {
+    label: 'Credit note',
+    description: 'Issued by the party, e.g. for returned material',
+    movesMoney: false,
+  },
+  REFUND: {
+    label: 'Refund',
+    description: 'Received back from the party',
+    movesMoney: true,
+  },
+  WRITE_OFF: {
+    label: 'Write-off',
+    description: 'Owed by the party and will not be recovered',
+    movesMoney: false,
+  },
+};
+
+const ACCEPTED_FILES = 'image/jpeg,image/png,image/webp,application/pdf';
+
+// ============================================
+// Schema
+// ============================================
+
+const ledgerEntryFormSchema = z.object({
+  type: z.enum(['ADVANCE', 'CREDIT_NOTE', 'REFUND', 'WRITE_OFF']),
+  projectId: z.string().min(1, 'Project is required'),
+  amount: z.coerce.number().positive('Enter an amount greater than zero'),
+  entryDate: z.date({ required_error: 'Date is required' }),
+  paymentMode: z.enum(['CASH', 'CHEQUE', 'ONLINE']),
+  referenceNumber: z.string().optional(),
+  narration: z.string().trim().min(1, 'Narration is required'),
+});
+
+type LedgerEntryFormData = z.infer<typeof ledgerEntryFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface LedgerEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  partyId: string;
+  /** Project to record the entry against, e.g. the one selected on the party page */
+  defaultProjectId?: string | null;
+  /** Entry to edit; a new entry is recorded when not set */
+  entryId?: string | null;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function LedgerEntryDialog({
+  open,
+  onOpenChange,
+  partyId,
+  defaultProjectId,
+  entryId,
+}: LedgerEntryDialogProps) {
+  const isEditing = !!entryId;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+
+  const { data: projectsData } = useProjects({ limit: 100 });
+  const { data: entry } = usePartyLedgerEntry(entryId ?? '');
+  const createMutation = useCreatePartyLedgerEntry();
+  const updateMutation = useUpdatePartyLedgerEntry();
+  const uploadMutation = useUploadLedgerAttachment();
+  const deleteAttachmentMutation = useDeleteLedgerAttachment();
+
+  const projects = projectsData?.items ?? [];
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<LedgerEntryFormData>({
+    resolver: zodResolver(ledgerEntryFormSchema),
+    defaultValues: {
+      type: 'ADVANCE',
+      projectId: '',
+      amount: undefined,
+      entryDate: new Date(),
+      paymentMode: 'CASH',
+      referenceNumber: '',
+      narration: '',
+    },
+  });
+
+  const type = watch('type');
+
+  // Reset form when dialog opens or the entry being edited loads
+  useEffect(() => {
+    if (!open) return;
+    setPendingFiles([]);
+    reset({
+      type: entry?.type ?? 'ADVANCE',
+      projectId: entry?.projectId ?? defaultProjectId ?? '',
+      amount: entry ? Number(entry.amount) : undefined,
+      entryDate: entry ? new Date(entry.entryDate) : new Date(),
+      paymentMode: entry?.paymentMode ?? 'CASH',
+      referenceNumber: entry?.referenceNumber ?? '',
+      narration: entry?.narration ?? '',
+    });
+  }, [open, entry, defaultProjectId, reset]);
+
+  const uploadFiles = async (id: string, files: File[]) => {
+    for (const file of files) {
+      await uploadMutation.mutateAsync({ entryId: id, file });
+    }
+  };
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const selected = Array.from(files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    if (!entryId) {
+      setPendingFiles((current) => [...current, ...selected]);
+      return;
+    }
+
+    try {
+      await uploadFiles(entryId, selected);
+      toast.success(selected.length === 1 ? 'File attached' : 'Files attached');
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to attach file');
+    }
+  };
+
+  const handleRemoveAttachment = async (attachmentId: string) => {
+    if (!entryId) return;
+    try {
+      await deleteAttachmentMutation.mutateAsync({ entryId, attachmentId });
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to remove attachment');
+    }
+  };
+
+  const handleDownload = async (attachmentId: string) => {
+    if (!entryId) return;
+    try {
+      const { downloadUrl } = await getLedgerAttachmentDownload(entryId, attachmentId);
+      window.open(downloadUrl, '_blank', 'noopener');
+    } catch {
+      toast.error('Failed to download attachment');
+    }
+  };
+
+  const onSubmit = async (data: LedgerEntryFormData) => {
+    const movesMoney = LEDGER_ENTRY_TYPES[data.type].movesMoney;
+    const payload = {
+      type: data.type,
+      amount: data.amount,
+      entryDate: data.entryDate.toISOString(),
+      narration: data.narration,
+    };
+
+    try {
+      if (entryId) {
+        await updateMutation.mutateAsync({
+          id: entryId,
+          data: {
+            ...payload,
+            paymentMode: movesMoney ? data.paymentMode : null,
+            referenceNumber: data.referenceNumber || null,
+          },
+        });
+        toast.success('Entry updated');
+      } else {
+        const created = await createMutation.mutateAsync({
+          ...payload,
+          partyId,
+          projectId: data.projectId,
+          paymentMode: movesMoney ? data.paymentMode : undefined,
+          referenceNumber: data.referenceNumber || undefined,
+        });
+        try {
+          await uploadFiles(created.id, pendingFiles);
+        } catch {
+          toast.error('Entry recorded, but some files could not be attached');
+        }
+        toast.success(`${LEDGER_ENTRY_TYPES[data.type].label} recorded`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to save entry');
+    }
+  };
+
+  const attachments = entry?.attachments ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Ledger Entry' : 'New Ledger Entry'}</DialogTitle>
+          <DialogDescription>{LEDGER_ENTRY_TYPES[type].description}.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Type & Project */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Type *</Label>
+              <Controller
+                name="type"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(LEDGER_ENTRY_TYPES) as PartyLedgerEntryType[]).map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {LEDGER_ENTRY_TYPES[key].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Project *</Label>
+              <Controller
+                name="projectId"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange} disabled={isEditing}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.projectId && (
+                <p className="text-sm text-destructive">{errors.projectId.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Amount & Date */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="ledger-amount">Amount (₹) *</Label>
+              <Input
+                id="ledger-amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                {...register('amount')}
+              />
+              {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Date *</Label>
+              <Controller
+                name="entryDate"
+                control={control}
+                render={({ field }) => <DatePicker value={field.value} onChange={field.onChange} />}
+              />
+            </div>
+          </div>
+
+          {/* Payment Mode & Reference */}
+          <div className="grid grid-cols-2 gap-3">
+            {LEDGER_ENTRY_TYPES[type].movesMoney && (
+              <div className="space-y-2">
+                <Label>Payment mode</Label>
+                <Controller
+                  name="paymentMode"
+                  control={control}
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="CASH">Cash</SelectItem>
+                        <SelectItem value="CHEQUE">Cheque</SelectItem>
+                        <SelectItem value="ONLINE">Online</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="ledger-reference">Reference number</Label>
+              <Input
+                id="ledger-reference"
+                placeholder={type === 'CREDIT_NOTE' ? 'Credit note no.' : 'Cheque / UTR no.'}
+                {...register('referenceNumber')}
+              />
+            </div>
+          </div>
+
+          {/* Narration */}
+          <div className="space-y-2">
+            <Label htmlFor="ledger-narration">Narration *</Label>
+            <Textarea
+              id="ledger-narration"
+              rows={2}
+              placeholder="e.g. Returned 20 bags of cement, damaged in transit"
+              {...register('narration')}
+            />
+            {errors.narration && (
+              <p className="text-sm text-destructive">{errors.narration.message}</p>
+            )}
+          </div>
+
+          {/* Attachments */}
+          <div className="space-y-2">
+            <Label>Attachments</Label>
+            {(attachments.length > 0 || pendingFiles.length > 0) && (
+              <ul className="space-y-1">
+                {attachments.map((attachment) => (
+                  <li
+                    key={attachment.id}
+                    className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+                  >
+                    <span className="truncate">{attachment.fileName}</span>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 cursor-pointer"
+                        onClick={() => handleDownload(attachment.id)}
+                      >
+                        <DownloadSimple className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 cursor-pointer"
+                        disabled={deleteAttachmentMutation.isPending}
+                        onClick={() => handleRemoveAttachment(attachment.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+                {pendingFiles.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+                  >
+                    <span className="truncate">{file.name}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 cursor-pointer"
+                      onClick={() =>
+                        setPendingFiles((current) => current.filter((_, i) => i !== index))
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              multiple
+              className="hidden"
+              onChange={(e) => handleFilesSelected(e.target.files)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={uploadMutation.isPending}
+              onClick={() => fileInputRef.current?.click()}
+              className="cursor-pointer"
+            >
+              <Paperclip className="mr-2 h-4 w-4" />
+              {uploadMutation.isPending ? 'Uploading...' : 'Attach file'}
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Record Entry'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,321 @@
+/**
+ * Party Statement Dialog
+ *
+ * Generates a party's ledger statement for a period, optionally for one
+ * project. Shows the opening balance, dated debits and credits with a running
+ * balance and the closing balance, and downloads or shares it as PDF or Excel.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { format, startOfDay, endOfDay, startOfMonth } from 'date-fns';
+import { toast } from 'sonner';
+import { FilePdf, FileXls, ShareNetwork, CircleNotch } from '@phosphor-icons/react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { saveFile } from '@/lib/utils';
+import { usePartyStatement } from '@/lib/hooks/useParties';
+import {
+  downloadPartyStatement,
+  type PartyProject,
+  type PartyStatementFormat,
+  type PartyStatementLineKind,
+  type PartyStatementParams,
+} from '@/lib/api/parties';
+
+// ============================================
+// Types
+// ============================================
+
+interface PartyStatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  partyId: string;
+  projects: PartyProject[];
+  /** Project selected on the party page, if any */
+  defaultProjectId?: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const ALL_PROJECTS = 'all';
+
+const KIND_LABELS: Record<PartyStatementLineKind, string> = {
+  BILL: 'Bill',
+  PAYMENT: 'Payment',
+  ADVANCE: 'Advance',
+  CREDIT_NOTE: 'Credit Note',
+  REFUND: 'Refund',
+  WRITE_OFF: 'Write-off',
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+/**
+ * Cr when owed to the party, Dr when the party owes us
+ */
+function formatBalance(balance: number): string {
+  if (Math.round(balance) === 0) return formatCurrency(0);
+  return `${formatCurrency(Math.abs(balance))} ${balance > 0 ? 'Cr' : 'Dr'}`;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function PartyStatementDialog({
+  open,
+  onOpenChange,
+  partyId,
+  projects,
+  defaultProjectId,
+}: PartyStatementDialogProps) {
+  const [from, setFrom] = useState<Date | undefined>(() => startOfMonth(new Date()));
+  const [to, setTo] = useState<Date | undefined>(() => new Date());
+  const [projectId, setProjectId] = useState<string>(defaultProjectId || ALL_PROJECTS);
+  const [pendingAction, setPendingAction] = useState<PartyStatementFormat | 'share' | null>(null);
+
+  // Start from the project picked on the party page each time the dialog opens
+  useEffect(() => {
+    if (open) setProjectId(defaultProjectId || ALL_PROJECTS);
+  }, [open, defaultProjectId]);
+
+  const isPeriodValid = !from || !to || from <= to;
+
+  const params = useMemo<PartyStatementParams>(
+    () => ({
+      from: from ? startOfDay(from).toISOString() : undefined,
+      to: to ? endOfDay(to).toISOString() : undefined,
+      projectId: projectId === ALL_PROJECTS ? undefined : projectId,
+    }),
+    [from, to, projectId]
+  );
+
+  const {
+    data: statement,
+    isLoading,
+    isFetching,
+  } = usePartyStatement(open && isPeriodValid ? partyId : '', params);
+
+  const handleDownload = async (fileFormat: PartyStatementFormat) => {
+    setPendingAction(fileFormat);
+    try {
+      const { blob, fileName } = await downloadPartyStatement(partyId, fileFormat, params);
+      saveFile(blob, fileName);
+    } catch {
+      toast.error('Failed to download statement');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleShare = async () => {
+    setPendingAction('share');
+    try {
+      const { blob, fileName } = await downloadPartyStatement(partyId, 'pdf', params);
+      const file = new File([blob], fileName, { type: 'application/pdf' });
+
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: `Statement - ${statement?.party.name}` });
+      } else {
+        saveFile(blob, fileName);
+        toast.info('Sharing is not available on this device, so the PDF was downloaded');
+      }
+    } catch (error) {
+      // Closing the share sheet is not an error
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        toast.error('Failed to share statement');
+      }
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Party Statement</DialogTitle>
+          <DialogDescription>
+            Bills, payments and adjustments for the period with a running balance.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Filters */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <DatePicker value={from} onChange={setFrom} placeholder="Beginning" />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <DatePicker value={to} onChange={setTo} placeholder="Today" />
+          </div>
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger className="cursor-pointer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS} className="cursor-pointer">
+                  All projects
+                </SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id} className="cursor-pointer">
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!isPeriodValid ? (
+          <p className="text-sm text-destructive">The start date must be before the end date.</p>
+        ) : isLoading || !statement ? (
+          <div className="h-64 rounded-lg border bg-muted/40 animate-pulse" />
+        ) : (
+          <div className="relative space-y-3">
+            {isFetching && (
+              <div className="absolute inset-0 bg-background/60 z-10 flex items-center justify-center">
+                <CircleNotch className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            )}
+
+            {/* Totals */}
+            <div className="grid grid-cols-4 gap-3 text-sm">
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Opening</p>
+                <p className="font-semibold">{formatBalance(statement.openingBalance)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Debits</p>
+                <p className="font-semibold">{formatCurrency(statement.totalDebit)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Credits</p>
+                <p className="font-semibold">{formatCurrency(statement.totalCredit)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-muted-foreground">Closing</p>
+                <p className="font-semibold">{formatBalance(statement.closingBalance)}</p>
+              </div>
+            </div>
+
+            {/* Entries */}
+            <div className="max-h-72 overflow-y-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>DATE</TableHead>
+                    <TableHead>PARTICULARS</TableHead>
+                    <TableHead className="text-right">DEBIT</TableHead>
+                    <TableHead className="text-right">CREDIT</TableHead>
+                    <TableHead className="text-right">BALANCE</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                        No entries in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    statement.entries.map((entry) => (
+                      <TableRow key={`${entry.kind}-${entry.id}`}>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {format(new Date(entry.date), 'MMM d, yyyy')}
+                        </TableCell>
+                        <TableCell className="text-sm max-w-[280px]">
+                          <p className="truncate">
+                            <span className="font-medium">{KIND_LABELS[entry.kind]}</span>
+                            {entry.reference && ` (Ref ${entry.reference})`}: {entry.narration}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {entry.projectName}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {entry.debit ? formatCurrency(entry.debit) : ''}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {entry.credit ? formatCurrency(entry.credit) : ''}
+                        </TableCell>
+                        <TableCell className="text-right text-sm font-medium whitespace-nowrap">
+                          {formatBalance(entry.balance)}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleShare}
+            disabled={!isPeriodValid || !!pendingAction}
+            className="cursor-pointer"
+          >
+            <ShareNetwork className="mr-2 h-4 w-4" />
+            {pendingAction === 'share' ? 'Preparing...' : 'Share'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleDownload('xlsx')}
+            disabled={!isPeriodValid || !!pendingAction}
+            className="cursor-pointer"
+          >
+            <FileXls className="mr-2 h-4 w-4" />
+            {pendingAction === 'xlsx' ? 'Downloading...' : 'Excel'}
+          </Button>
+          <Button
+            onClick={() => handleDownload('pdf')}
+            disabled={!isPeriodValid || !!pendingAction}
+            className="cursor-pointer"
+          >
+            <FilePdf className="mr-2 h-4 w-4" />
+            {pendingAction === 'pdf' ? 'Downloading...' : 'PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@
  * Party Transactions Panel Component
  *
  * Right panel that displays transaction details for a party.
- * Includes summary cards, tabs for payments/expenses, and a paginated table.
+ * Includes summary cards, tabs for payments/expenses/ledger entries, and a paginated table.
  */
 
 import { Card } from '@/components/ui/card';
@@ -22,25 +22,47 @@ import {
   TabsTrigger,
 } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
 import { TablePagination } from '@/components/ui/table-pagination';
-import { MoreVertical } from 'lucide-react';
-import type { PartyTransaction, PartyType, PaginationMeta } from '@/lib/api/parties';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MoreVertical, Plus } from 'lucide-react';
+import { LEDGER_ENTRY_TYPES } from './LedgerEntryDialog';
+import type {
+  PartyTransaction,
+  PartyTransactionsTab,
+  PartyType,
+  PaginationMeta,
+} from '@/lib/api/parties';
 
 // ============================================
 // Types
 // ============================================
 
+export interface LedgerSummary {
+  advances: number;
+  creditNotes: number;
+  refunds: number;
+  writeOffs: number;
+}
+
 interface PartyTransactionsPanelProps {
   /** Party type (determines tab labels) */
   partyType: PartyType;
-  /** Total paid amount */
+  /** Total paid amount, including advances and less refunds */
   totalPaid: number;
-  /** Total expenses/purchases amount */
+  /** Total expenses/purchases amount, less credit notes and including write-offs */
   totalExpenses: number;
+  /** Advances, credit notes, refunds and write-offs included in the totals */
+  ledgerSummary?: LedgerSummary;
   /** Current tab */
-  activeTab: 'payments' | 'expenses';
+  activeTab: PartyTransactionsTab;
   /** Callback when tab changes */
-  onTabChange: (tab: 'payments' | 'expenses') => void;
+  onTabChange: (tab: PartyTransactionsTab) => void;
   /** List of transactions */
   transactions: PartyTransaction[];
   /** Pagination info */
@@ -49,6 +71,12 @@ interface PartyTransactionsPanelProps {
   onPageChange: (page: number) => void;
   /** Loading state */
   isLoading?: boolean;
+  /** Record an advance, credit note, refund or write-off */
+  onAddLedgerEntry?: () => void;
+  /** Edit a ledger entry */
+  onEditLedgerEntry?: (transaction: PartyTransaction) => void;
+  /** Delete a ledger entry */
+  onDeleteLedgerEntry?: (transaction: PartyTransaction) => void;
 }
 
 // ============================================
@@ -73,6 +101,24 @@ function formatDate(dateString: string): string {
   });
 }
 
+/**
+ * Advances, credit notes, refunds and write-offs that make up the totals, e.g.
+ * "Includes advances ₹10,000 · credit notes ₹2,000"
+ */
+function getLedgerNote(summary?: LedgerSummary): string | null {
+  if (!summary) return null;
+  const parts = [
+    { label: 'advances', amount: summary.advances },
+    { label: 'refunds', amount: summary.refunds },
+    { label: 'credit notes', amount: summary.creditNotes },
+    { label: 'write-offs', amount: summary.writeOffs },
+  ]
+    .filter((part) => part.amount > 0)
+    .map((part) => `${part.label} ${formatCurrency(part.amount)}`);
+
+  return parts.length > 0 ? `Includes ${parts.join(' · ')}` : null;
+}
+
 function getExpensesLabel(partyType: PartyType): string {
   switch (partyType) {
     case 'VENDOR':
@@ -93,14 +139,20 @@ export function PartyTransactionsPanel({
   partyType,
   totalPaid,
   totalExpenses,
+  ledgerSummary,
   activeTab,
   onTabChange,
   transactions,
   pagination,
   onPageChange,
   isLoading = false,
+  onAddLedgerEntry,
+  onEditLedgerEntry,
+  onDeleteLedgerEntry,
 }: PartyTransactionsPanelProps) {
   const expensesLabel = getExpensesLabel(partyType);
+  const ledgerNote = getLedgerNote(ledgerSummary);
+  const canManageLedger = !!onEditLedgerEntry || !!onDeleteLedgerEntry;
   const progressPercentage = totalExpenses > 0 ? Math.min((totalPaid / totalExpenses) * 100, 100) : 0;
 
   return (
@@ -125,15 +177,16 @@ export function PartyTransactionsPanel({
         <div className="flex-1">
           <Progress value={progressPercentage} className="h-2" />
         </div>
+        {ledgerNote && <TypographyMuted className="text-xs">{ledgerNote}</TypographyMuted>}
       </Card>
 
       {/* Table Container (matching PartiesTable style) */}
       <div className="rounded-lg border overflow-hidden flex flex-col">
         {/* Tabs Header (replacing search bar position) */}
-        <div className="bg-card p-3">
+        <div className="bg-card p-3 flex items-center justify-between">
           <Tabs
             value={activeTab}
-            onValueChange={(v) => onTabChange(v as 'payments' | 'expenses')}
+            onValueChange={(v) => onTabChange(v as PartyTransactionsTab)}
           >
             <TabsList className='bg-transparent'>
               <TabsTrigger value="payments" className="cursor-pointer">
@@ -142,8 +195,22 @@ export function PartyTransactionsPanel({
               <TabsTrigger value="expenses" className="cursor-pointer">
                 {expensesLabel}
               </TabsTrigger>
+              <TabsTrigger value="ledger" className="cursor-pointer">
+                Adjustments
+              </TabsTrigger>
             </TabsList>
           </Tabs>
+          {activeTab === 'ledger' && onAddLedgerEntry && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onAddLedgerEntry}
+              className="cursor-pointer"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New Entry
+            </Button>
+          )}
         </div>
 
         {/* Table */}
@@ -196,19 +263,54 @@ export function PartyTransactionsPanel({
                     {formatDate(transaction.date)}
                   </TableCell>
                   <TableCell>
-                    {transaction.title}
+                    <div className="flex items-center gap-2">
+                      {transaction.entryType && (
+                        <Badge variant="outline">
+                          {LEDGER_ENTRY_TYPES[transaction.entryType].label}
+                        </Badge>
+                      )}
+                      <span className="truncate">{transaction.title}</span>
+                    </div>
                   </TableCell>
                   <TableCell>
                     {formatCurrency(transaction.amount)}
                   </TableCell>
                   <TableCell className='text-center'>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 cursor-pointer"
-                    >
-                      <MoreVertical className="h-4 w-4" />
-                    </Button>
+                    {transaction.entryType && canManageLedger ? (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {onEditLedgerEntry && (
+                            <DropdownMenuItem
+                              onClick={() => onEditLedgerEntry(transaction)}
+                              className="cursor-pointer"
+                            >
+                              Edit
+                            </DropdownMenuItem>
+                          )}
+                          {onDeleteLedgerEntry && (
+                            <DropdownMenuItem
+                              onClick={() => onDeleteLedgerEntry(transaction)}
+                              className="cursor-pointer text-destructive focus:text-destructive"
+                            >
+                              Delete
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 cursor-pointer"
+                      >
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))
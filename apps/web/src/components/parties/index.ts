@@ -4,3 +4,5 @@ export { PartyFormDialog } from './PartyFormDialog';
 export { DeletePartyDialog } from './DeletePartyDialog';
 export { PartyProjectsList } from './PartyProjectsList';
 export { PartyTransactionsPanel } from './PartyTransactionsPanel';
+export { LedgerEntryDialog } from './LedgerEntryDialog';
+export { PartyStatementDialog } from './PartyStatementDialog';
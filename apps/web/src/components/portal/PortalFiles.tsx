@@ -0,0 +1,141 @@
+/**
+ * Portal Files
+ *
+ * Site photos or documents the builder has shared with the client.
+ * Files open through short-lived download links.
+ */
+
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { FileText, Image as ImageIcon, DownloadSimple } from '@phosphor-icons/react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { usePortalDocuments } from '@/lib/hooks/usePortal';
+import { getPortalDocumentDownload, type PortalDocument } from '@/lib/api/portal';
+
+const PAGINATION_LIMIT = 24;
+
+// ============================================
+// Types
+// ============================================
+
+interface PortalFilesProps {
+  projectId: string;
+  kind: 'photos' | 'documents';
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function PortalFiles({ projectId, kind }: PortalFilesProps) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = usePortalDocuments(projectId, {
+    kind,
+    page,
+    limit: PAGINATION_LIMIT,
+  });
+  const files = data?.items ?? [];
+
+  const handleOpen = useCallback(async (file: PortalDocument) => {
+    try {
+      const { downloadUrl } = await getPortalDocumentDownload(file.id);
+      window.open(downloadUrl, '_blank', 'noopener');
+    } catch {
+      toast.error('Failed to open file');
+    }
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {Array.from({ length: 4 }).map((_, index) => (
+          <div key={index} className="h-32 rounded-lg bg-muted animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (files.length === 0) {
+    const FileIcon = kind === 'photos' ? ImageIcon : FileText;
+    return (
+      <Empty className="py-16">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <FileIcon className="h-6 w-6" />
+          </EmptyMedia>
+          <EmptyTitle>{kind === 'photos' ? 'No photos yet' : 'No documents yet'}</EmptyTitle>
+          <EmptyDescription>Your builder has not shared any yet.</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {kind === 'photos' ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {files.map((file) => (
+            <button
+              key={file.id}
+              type="button"
+              onClick={() => handleOpen(file)}
+              className="flex flex-col items-center justify-center gap-2 h-32 rounded-lg border bg-card p-3 hover:border-primary/50 transition-colors cursor-pointer"
+            >
+              <ImageIcon className="h-8 w-8 text-muted-foreground" />
+              <span className="text-xs truncate w-full text-center">{file.fileName}</span>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(file.uploadedAt), 'dd MMM yyyy')}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="rounded-lg border bg-card divide-y">
+          {files.map((file) => (
+            <div key={file.id} className="flex items-center gap-4 p-4">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                <FileText className="h-5 w-5" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{file.fileName}</p>
+                <p className="text-sm text-muted-foreground">
+                  Shared {format(new Date(file.uploadedAt), 'dd MMM yyyy')}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleOpen(file)}
+                className="cursor-pointer"
+              >
+                <DownloadSimple className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {data && data.pagination.pages > 1 && (
+        <TablePagination
+          page={data.pagination.page}
+          pages={data.pagination.pages}
+          total={data.pagination.total}
+          limit={data.pagination.limit}
+          onPageChange={setPage}
+          itemLabel={kind}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+/**
+ * Portal Payments
+ *
+ * What the client has paid against the contract amount, the payment schedule
+ * with where each installment stands, and a receipt for every payment received.
+ * Receipts can be printed or saved as PDF.
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Printer, Receipt } from '@phosphor-icons/react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { usePortalPayments, usePortalReceipt } from '@/lib/hooks/usePortal';
+import type { PortalInstallment, PortalPaymentSchedule } from '@/lib/api/portal';
+import { formatCurrency, INSTALLMENT_STATUS_CONFIG, PAYMENT_MODE_LABELS } from './format';
+
+// ============================================
+// Types
+// ============================================
+
+interface PortalPaymentsProps {
+  projectId: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function PortalPayments({ projectId }: PortalPaymentsProps) {
+  const [receiptId, setReceiptId] = useState<string | null>(null);
+  const { data, isLoading } = usePortalPayments(projectId);
+
+  if (isLoading || !data) {
+    return <div className="h-40 rounded-lg border bg-card animate-pulse" />;
+  }
+
+  const paidPercentage =
+    data.contractAmount > 0 ? Math.min(100, (data.received / data.contractAmount) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="rounded-lg border bg-card p-5">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-muted-foreground">Contract amount</p>
+          <p className="text-2xl font-semibold">{formatCurrency(data.contractAmount)}</p>
+        </div>
+        <Progress value={paidPercentage} className="h-2 mb-4" />
+        <div className="flex gap-4">
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">Paid</p>
+            <p className="text-lg font-semibold text-green-600">{formatCurrency(data.received)}</p>
+          </div>
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">Balance</p>
+            <p className="text-lg font-semibold">{formatCurrency(data.outstanding)}</p>
+          </div>
+        </div>
+      </div>
+
+      {data.schedule.installments.length > 0 && <PaymentSchedule schedule={data.schedule} />}
+
+      {/* Receipts */}
+      {data.receipts.length === 0 ? (
+        <Empty className="py-12">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Receipt className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>No payments yet</EmptyTitle>
+            <EmptyDescription>Receipts for your payments will appear here.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="w-[120px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.receipts.map((receipt) => (
+                <TableRow key={receipt.id}>
+                  <TableCell>{format(new Date(receipt.paymentDate), 'dd MMM yyyy')}</TableCell>
+                  <TableCell>{PAYMENT_MODE_LABELS[receipt.paymentMode]}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {receipt.referenceNumber || '—'}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(receipt.amount)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setReceiptId(receipt.id)}
+                      className="cursor-pointer"
+                    >
+                      Receipt
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <ReceiptDialog receiptId={receiptId} onClose={() => setReceiptId(null)} />
+    </div>
+  );
+}
+
+// ============================================
+// Payment Schedule
+// ============================================
+
+/**
+ * When an installment falls due: on completing its stage, on its due date, or both
+ */
+function dueLabel(installment: PortalInstallment): string {
+  const parts: string[] = [];
+  if (installment.stageName) parts.push(`On completion of ${installment.stageName}`);
+  if (installment.dueDate) parts.push(format(new Date(installment.dueDate), 'dd MMM yyyy'));
+  return parts.length > 0 ? parts.join(' · ') : 'On signing';
+}
+
+function PaymentSchedule({ schedule }: { schedule: PortalPaymentSchedule }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Payment schedule</h3>
+        {schedule.dueAmount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Due now{' '}
+            <span className="font-semibold text-foreground">
+              {formatCurrency(schedule.dueAmount)}
+            </span>
+            {schedule.overdueAmount > 0 && (
+              <span className="text-destructive">
+                {' '}
+                ({formatCurrency(schedule.overdueAmount)} overdue)
+              </span>
+            )}
+          </p>
+        )}
+      </div>
+      <div className="rounded-lg border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Installment</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+              <TableHead className="text-right">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.installments.map((installment) => {
+              const status = INSTALLMENT_STATUS_CONFIG[installment.status];
+              return (
+                <TableRow key={installment.id}>
+                  <TableCell className="font-medium">{installment.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{dueLabel(installment)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(installment.amount)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(installment.received)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Receipt Dialog
+// ============================================
+
+function ReceiptDialog({ receiptId, onClose }: { receiptId: string | null; onClose: () => void }) {
+  const { data: receipt, isLoading } = usePortalReceipt(receiptId);
+
+  return (
+    <Dialog open={!!receiptId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Payment receipt</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !receipt ? (
+          <div className="h-48 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div>
+              <p className="font-semibold">{receipt.organizationName}</p>
+              <p className="text-muted-foreground">
+                Received from {receipt.clientName ?? 'client'}
+              </p>
+            </div>
+            <dl className="grid grid-cols-2 gap-y-2">
+              <dt className="text-muted-foreground">Receipt no.</dt>
+              <dd className="text-right">{receipt.referenceNumber || receipt.id.slice(-8)}</dd>
+              <dt className="text-muted-foreground">Date</dt>
+              <dd className="text-right">{format(new Date(receipt.paymentDate), 'dd MMM yyyy')}</dd>
+              <dt className="text-muted-foreground">Project</dt>
+              <dd className="text-right">{receipt.project.name}</dd>
+              <dt className="text-muted-foreground">Mode</dt>
+              <dd className="text-right">{PAYMENT_MODE_LABELS[receipt.paymentMode]}</dd>
+            </dl>
+            <div className="flex items-center justify-between border-t pt-4">
+              <span className="text-muted-foreground">Amount received</span>
+              <span className="text-xl font-semibold">{formatCurrency(receipt.amount)}</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => window.print()}
+            disabled={!receipt}
+            className="cursor-pointer"
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Portal Stages
+ *
+ * Stage-by-stage progress of a project, in schedule order.
+ */
+
+import { format } from 'date-fns';
+import { CheckCircle, Circle, CircleHalf, PauseCircle } from '@phosphor-icons/react';
+import type { Icon } from '@phosphor-icons/react';
+
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { PortalStage, PortalStageStatus } from '@/lib/api/portal';
+import { STAGE_STATUS_LABELS } from './format';
+
+// ============================================
+// Types
+// ============================================
+
+interface PortalStagesProps {
+  stages: PortalStage[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const STAGE_STATUS_ICONS: Record<PortalStageStatus, Icon> = {
+  SCHEDULED: Circle,
+  IN_PROGRESS: CircleHalf,
+  COMPLETED: CheckCircle,
+  ON_HOLD: PauseCircle,
+};
+
+// ============================================
+// Component
+// ============================================
+
+export function PortalStages({ stages }: PortalStagesProps) {
+  if (stages.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-40 text-muted-foreground">
+        The work schedule has not been shared yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-card divide-y">
+      {stages.map((stage) => {
+        const StatusIcon = STAGE_STATUS_ICONS[stage.status];
+
+        return (
+          <div key={stage.id} className="flex items-start gap-4 p-4">
+            <StatusIcon
+              weight={stage.status === 'COMPLETED' ? 'fill' : 'regular'}
+              className={cn(
+                'h-6 w-6 mt-0.5 shrink-0',
+                stage.status === 'COMPLETED' ? 'text-green-600' : 'text-muted-foreground'
+              )}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{stage.name}</span>
+                <Badge variant={stage.status === 'COMPLETED' ? 'default' : 'secondary'}>
+                  {STAGE_STATUS_LABELS[stage.status]}
+                </Badge>
+              </div>
+              {stage.description && (
+                <p className="text-sm text-muted-foreground mt-1">{stage.description}</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-1">
+                {format(new Date(stage.startDate), 'dd MMM yyyy')} –{' '}
+                {format(new Date(stage.endDate), 'dd MMM yyyy')}
+                {stage.tasks.total > 0 &&
+                  ` · ${stage.tasks.completed} of ${stage.tasks.total} tasks done`}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
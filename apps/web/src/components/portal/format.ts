@@ -0,0 +1,44 @@
+/**
+ * Client Portal formatting helpers
+ */
+
+import type {
+  PortalInstallmentStatus,
+  PortalProject,
+  PortalReceipt,
+  PortalStageStatus,
+} from '@/lib/api/portal';
+
+export function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+export const PROJECT_STATUS_LABELS: Record<PortalProject['status'], string> = {
+  ACTIVE: 'In progress',
+  ON_HOLD: 'On hold',
+  COMPLETED: 'Completed',
+};
+
+export const STAGE_STATUS_LABELS: Record<PortalStageStatus, string> = {
+  SCHEDULED: 'Scheduled',
+  IN_PROGRESS: 'In progress',
+  COMPLETED: 'Completed',
+  ON_HOLD: 'On hold',
+};
+
+export const PAYMENT_MODE_LABELS: Record<PortalReceipt['paymentMode'], string> = {
+  CASH: 'Cash',
+  CHEQUE: 'Cheque',
+  ONLINE: 'Online',
+};
+
+export const INSTALLMENT_STATUS_CONFIG: Record<
+  PortalInstallmentStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  UPCOMING: { label: 'Upcoming', variant: 'outline' },
+  DUE: { label: 'Due', variant: 'secondary' },
+  OVERDUE: { label: 'Overdue', variant: 'destructive' },
+  PARTIALLY_RECEIVED: { label: 'Partly paid', variant: 'secondary' },
+  RECEIVED: { label: 'Paid', variant: 'default' },
+};
@@ -47,8 +47,8 @@ export function DeleteProjectDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Project</AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete <strong>{project.name}</strong>? This action cannot be
-            undone. All associated expenses, payments, and documents will also be deleted.
+            Are you sure you want to delete <strong>{project.name}</strong>? The project and its
+            expenses and payments will be moved to the Trash, where they can be restored.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
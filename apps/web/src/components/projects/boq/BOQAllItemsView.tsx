@@ -5,7 +5,16 @@
  */
 
 import { useState, useCallback } from 'react';
-import { Plus, DotsThree, PencilSimple, Trash, MagnifyingGlass, CircleNotch } from '@phosphor-icons/react';
+import {
+  Plus,
+  DotsThree,
+  PencilSimple,
+  Trash,
+  MagnifyingGlass,
+  CircleNotch,
+  ClockCounterClockwise,
+  Calculator,
+} from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -41,8 +50,11 @@ import {
   EmptyContent,
 } from '@/components/ui/empty';
 import { TablePagination } from '@/components/ui/table-pagination';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
 import { useBOQItems, useDeleteBOQItem } from '@/lib/hooks/useBOQ';
+import { useCan } from '@/lib/hooks/usePermissions';
 import { BOQItemFormDialog } from './BOQItemFormDialog';
+import { RateAnalysisDialog } from './RateAnalysisDialog';
 import type { BOQItem, BOQCategory, BOQListParams } from '@/lib/api/boq';
 
 // ============================================
@@ -100,8 +112,11 @@ function formatVariance(variance: number): string {
 // ============================================
 
 export function BOQAllItemsView({ projectId, onAddItem }: BOQAllItemsViewProps) {
+  const can = useCan();
   // State
   const [page, setPage] = useState(1);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [analysisItem, setAnalysisItem] = useState<BOQItem | null>(null);
   const [search, setSearch] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<BOQCategory | undefined>(undefined);
   const [sortBy, setSortBy] = useState<BOQListParams['sortBy']>('createdAt');
@@ -313,7 +328,16 @@ export function BOQAllItemsView({ projectId, onAddItem }: BOQAllItemsViewProps)
                     </TableCell>
                     <TableCell className="text-muted-foreground">{item.unit}</TableCell>
                     <TableCell className="text-right">{item.quantity.toLocaleString()}</TableCell>
-                    <TableCell className="text-right">₹{item.rate.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex flex-col">
+                        <span>₹{item.rate.toLocaleString()}</span>
+                        {item.rateAnalysis && (
+                          <span className="text-xs text-muted-foreground">
+                            Analysed ₹{Number(item.rateAnalysis.unitRate).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-right font-medium">{formatCurrency(quotedTotal)}</TableCell>
                     <TableCell className="text-right">{formatCurrency(actualTotal)}</TableCell>
                     <TableCell className={`text-right ${variance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
@@ -334,6 +358,22 @@ export function BOQAllItemsView({ projectId, onAddItem }: BOQAllItemsViewProps)
                             <PencilSimple className="h-4 w-4 mr-2" />
                             Edit
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setAnalysisItem(item)}
+                            className="cursor-pointer"
+                          >
+                            <Calculator className="h-4 w-4 mr-2" />
+                            Rate Analysis
+                          </DropdownMenuItem>
+                          {can('audit.view') && (
+                            <DropdownMenuItem
+                              onClick={() => setHistoryItemId(item.id)}
+                              className="cursor-pointer"
+                            >
+                              <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                              History
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem
                             onClick={() => handleDelete(item)}
                             className="cursor-pointer text-destructive focus:text-destructive"
@@ -372,6 +412,23 @@ export function BOQAllItemsView({ projectId, onAddItem }: BOQAllItemsViewProps)
         projectId={projectId}
         item={editingItem}
       />
+
+      {/* Rate Analysis */}
+      <RateAnalysisDialog
+        open={!!analysisItem}
+        onOpenChange={(open) => !open && setAnalysisItem(null)}
+        projectId={projectId}
+        item={analysisItem}
+      />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyItemId}
+        onOpenChange={(open) => !open && setHistoryItemId(null)}
+        entityType="BOQ_ITEM"
+        entityId={historyItemId}
+        title="BOQ item history"
+      />
     </div>
   );
 }
@@ -0,0 +1,367 @@
+/**
+ * BOQ Comparison Dialog
+ *
+ * Two BOQ versions side by side, or a version against the live BOQ:
+ * - Totals and the number of items added, removed and changed
+ * - The change in value for each section and category
+ * - Every item that differs, with its quantity and amount then and now
+ */
+
+import { useEffect, useState } from 'react';
+import { GitDiff } from '@phosphor-icons/react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { useBOQVersions, useBOQComparison } from '@/lib/hooks/useBOQVersions';
+import {
+  CURRENT_BOQ,
+  type BOQComparisonGroup,
+  type BOQComparisonItemSide,
+  type BOQItemChange,
+} from '@/lib/api/boq-versions';
+import type { BOQCategory } from '@/lib/api/boq';
+import { cn } from '@/lib/utils';
+import {
+  CATEGORY_LABELS,
+  formatCurrency,
+  formatImpact,
+  formatQuantity,
+} from '../change-orders/format';
+
+// ============================================
+// Types
+// ============================================
+
+interface BOQComparisonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  // Version to start from; the baseline when not given
+  fromId?: string | null;
+}
+
+type Breakdown = 'items' | 'sections' | 'categories';
+
+// ============================================
+// Constants
+// ============================================
+
+const CHANGE_CONFIG: Record<
+  BOQItemChange,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  ADDED: { label: 'Added', variant: 'default' },
+  REMOVED: { label: 'Removed', variant: 'destructive' },
+  CHANGED: { label: 'Changed', variant: 'secondary' },
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+function describeSide(item: BOQComparisonItemSide | null): string {
+  if (!item) return '—';
+  return `${formatQuantity(Number(item.quantity))} ${item.unit} @ ${formatCurrency(Number(item.rate))}`;
+}
+
+function deltaClassName(amount: number): string {
+  if (amount > 0) return 'text-amber-600';
+  if (amount < 0) return 'text-green-600';
+  return 'text-muted-foreground';
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function BOQComparisonDialog({
+  open,
+  onOpenChange,
+  projectId,
+  fromId,
+}: BOQComparisonDialogProps) {
+  const [from, setFrom] = useState<string | undefined>();
+  const [to, setTo] = useState<string>(CURRENT_BOQ);
+  const [breakdown, setBreakdown] = useState<Breakdown>('items');
+
+  // Start from the chosen version against the live BOQ when opened
+  useEffect(() => {
+    if (!open) return;
+
+    setFrom(fromId ?? undefined);
+    setTo(CURRENT_BOQ);
+    setBreakdown('items');
+  }, [open, fromId]);
+
+  const { data: versions = [] } = useBOQVersions(open ? projectId : '');
+  const hasVersions = versions.length > 0;
+  const {
+    data: comparison,
+    isLoading,
+    error,
+  } = useBOQComparison(projectId, { from, to }, open && hasVersions);
+
+  const groups: BOQComparisonGroup[] =
+    breakdown === 'sections' ? (comparison?.sections ?? []) : (comparison?.categories ?? []);
+  const groupName = (name: string) =>
+    breakdown === 'categories' ? (CATEGORY_LABELS[name as BOQCategory] ?? name) : name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[960px]">
+        <DialogHeader>
+          <DialogTitle>Compare BOQ</DialogTitle>
+          <DialogDescription>
+            What changed between two versions, or since a version was saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!hasVersions ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center">
+            <GitDiff className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Save a version of the BOQ to compare later changes against it.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Versions */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select
+                  value={from ?? comparison?.from.id ?? ''}
+                  onValueChange={(value) => setFrom(value)}
+                >
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue placeholder="Baseline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id} className="cursor-pointer">
+                        {version.name}
+                        {version.isBaseline && ' (baseline)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select value={to} onValueChange={setTo}>
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CURRENT_BOQ} className="cursor-pointer">
+                      Current BOQ
+                    </SelectItem>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id} className="cursor-pointer">
+                        {version.name}
+                        {version.isBaseline && ' (baseline)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {error ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                Mark a version as the baseline, or choose one to compare from.
+              </p>
+            ) : isLoading || !comparison ? (
+              <div className="space-y-2">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+                ))}
+              </div>
+            ) : (
+              <>
+                {/* Totals */}
+                <div className="flex gap-4">
+                  <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                    <p className="text-xs text-muted-foreground mb-1">{comparison.from.name}</p>
+                    <p className="text-lg font-semibold">
+                      {formatCurrency(comparison.totals.fromAmount)}
+                    </p>
+                  </div>
+                  <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                    <p className="text-xs text-muted-foreground mb-1">
+                      {comparison.to?.name ?? 'Current BOQ'}
+                    </p>
+                    <p className="text-lg font-semibold">
+                      {formatCurrency(comparison.totals.toAmount)}
+                    </p>
+                  </div>
+                  <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                    <p className="text-xs text-muted-foreground mb-1">Difference</p>
+                    <p
+                      className={cn(
+                        'text-lg font-semibold',
+                        deltaClassName(comparison.totals.amountDelta)
+                      )}
+                    >
+                      {formatImpact(comparison.totals.amountDelta)}
+                    </p>
+                  </div>
+                  <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                    <p className="text-xs text-muted-foreground mb-1">Items</p>
+                    <p className="text-sm font-medium">
+                      {comparison.totals.added} added · {comparison.totals.removed} removed ·{' '}
+                      {comparison.totals.changed} changed
+                    </p>
+                  </div>
+                </div>
+
+                <Tabs value={breakdown} onValueChange={(v) => setBreakdown(v as Breakdown)}>
+                  <TabsList>
+                    <TabsTrigger value="items" className="cursor-pointer">
+                      Items
+                    </TabsTrigger>
+                    <TabsTrigger value="sections" className="cursor-pointer">
+                      By Section
+                    </TabsTrigger>
+                    <TabsTrigger value="categories" className="cursor-pointer">
+                      By Category
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                <div className="max-h-[420px] overflow-y-auto rounded-md border">
+                  {breakdown === 'items' ? (
+                    comparison.items.length === 0 ? (
+                      <p className="py-6 text-center text-sm text-muted-foreground">
+                        No differences between the two.
+                      </p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-24">CHANGE</TableHead>
+                            <TableHead>ITEM</TableHead>
+                            <TableHead className="text-right">WAS</TableHead>
+                            <TableHead className="text-right">NOW</TableHead>
+                            <TableHead className="text-right">QTY CHANGE</TableHead>
+                            <TableHead className="text-right">AMOUNT</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {comparison.items.map((item) => {
+                            const change = CHANGE_CONFIG[item.change];
+                            const current = item.to ?? item.from;
+
+                            return (
+                              <TableRow key={item.boqItemId}>
+                                <TableCell>
+                                  <Badge variant={change.variant}>{change.label}</Badge>
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                  <p className="font-medium">
+                                    {current?.code ? `${current.code} · ` : ''}
+                                    {current?.description}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {current?.sectionName ?? 'No section'}
+                                    {current && ` · ${CATEGORY_LABELS[current.category]}`}
+                                  </p>
+                                </TableCell>
+                                <TableCell className="text-right text-sm text-muted-foreground">
+                                  {describeSide(item.from)}
+                                </TableCell>
+                                <TableCell className="text-right text-sm">
+                                  {describeSide(item.to)}
+                                </TableCell>
+                                <TableCell className="text-right text-sm">
+                                  {item.quantityDelta === 0
+                                    ? '—'
+                                    : `${item.quantityDelta > 0 ? '+' : ''}${formatQuantity(item.quantityDelta)}`}
+                                </TableCell>
+                                <TableCell
+                                  className={cn(
+                                    'text-right text-sm font-medium',
+                                    deltaClassName(item.amountDelta)
+                                  )}
+                                >
+                                  {formatImpact(item.amountDelta)}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    )
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{breakdown === 'sections' ? 'SECTION' : 'CATEGORY'}</TableHead>
+                          <TableHead className="text-right">{comparison.from.name}</TableHead>
+                          <TableHead className="text-right">
+                            {comparison.to?.name ?? 'Current'}
+                          </TableHead>
+                          <TableHead className="text-right">DIFFERENCE</TableHead>
+                          <TableHead className="text-right">ITEMS</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {groups.map((group) => (
+                          <TableRow key={group.name}>
+                            <TableCell className="text-sm font-medium">
+                              {groupName(group.name)}
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                              {formatCurrency(group.fromAmount)}
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                              {formatCurrency(group.toAmount)}
+                            </TableCell>
+                            <TableCell
+                              className={cn(
+                                'text-right text-sm font-medium',
+                                deltaClassName(group.amountDelta)
+                              )}
+                            >
+                              {formatImpact(group.amountDelta)}
+                            </TableCell>
+                            <TableCell className="text-right text-xs text-muted-foreground">
+                              +{group.added} −{group.removed} ~{group.changed}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
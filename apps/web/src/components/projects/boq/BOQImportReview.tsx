@@ -18,6 +18,7 @@ import {
   Link as LinkIcon,
 } from '@phosphor-icons/react';
 import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -104,6 +105,7 @@ export function BOQImportReview({
     }))
   );
   const [search, setSearch] = useState('');
+  const [versionName, setVersionName] = useState('');
   const [showFilter, setShowFilter] = useState<'all' | 'flagged' | 'selected'>('all');
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(parseResult.sections)
@@ -205,13 +207,19 @@ export function BOQImportReview({
     try {
       const result = await confirmMutation.mutateAsync({
         items: selectedItems.map(({ id, isSelected, isEditing, ...item }) => item),
+        versionName: versionName.trim() || undefined,
       });
-      toast.success(`Imported ${result.importedCount} items`);
+      toast.success(
+        result.version
+          ? `Imported ${result.importedCount} items and saved version "${result.version.name}"`
+          : `Imported ${result.importedCount} items`
+      );
       onComplete();
-    } catch {
-      toast.error('Failed to import items');
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to import items');
     }
-  }, [items, confirmMutation, onComplete]);
+  }, [items, versionName, confirmMutation, onComplete]);
 
   return (
     <div className="flex flex-col h-full min-h-0">
@@ -468,6 +476,13 @@ export function BOQImportReview({
               <span className="font-medium">₹ Total: {formatCurrency(totalAmount)}</span>
             </div>
             <div className="flex items-center gap-2">
+              <Input
+                placeholder="Save as version, e.g. Tender"
+                value={versionName}
+                onChange={(e) => setVersionName(e.target.value)}
+                maxLength={100}
+                className="w-60"
+              />
               <Button variant="outline" onClick={onBack} className="cursor-pointer">
                 Cancel Import
               </Button>
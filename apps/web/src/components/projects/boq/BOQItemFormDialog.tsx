@@ -30,6 +30,9 @@ import {
 } from '@/components/ui/select';
 import { useCreateBOQItem, useUpdateBOQItem } from '@/lib/hooks/useBOQ';
 import { useStagesByProject } from '@/lib/hooks/useStages';
+import { useCategoryItems } from '@/lib/hooks/useCategories';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { RateSuggestions } from '@/components/rate-library/RateSuggestions';
 import type { BOQItem, BOQCategory } from '@/lib/api/boq';
 
 // ============================================
@@ -56,6 +59,8 @@ const formSchema = z.object({
   quantity: z.coerce.number().positive('Quantity must be positive'),
   rate: z.coerce.number().nonnegative('Rate must be non-negative'),
   stageId: z.string().optional(),
+  // Material the item plans for, compared with what is issued from site stock
+  materialTypeItemId: z.string().optional(),
   notes: z.string().optional(),
 });
 
@@ -90,6 +95,8 @@ export function BOQItemFormDialog({
 
   // Hooks
   const { data: stages = [] } = useStagesByProject(projectId);
+  const { data: materialTypes = [] } = useCategoryItems('material_type');
+  const can = useCan();
   const createMutation = useCreateBOQItem(projectId);
   const updateMutation = useUpdateBOQItem(projectId);
 
@@ -104,6 +111,7 @@ export function BOQItemFormDialog({
       quantity: 1,
       rate: 0,
       stageId: '',
+      materialTypeItemId: '',
       notes: '',
     },
   });
@@ -120,6 +128,7 @@ export function BOQItemFormDialog({
           quantity: item.quantity,
           rate: item.rate,
           stageId: item.stageId || '',
+          materialTypeItemId: item.materialTypeItemId || '',
           notes: item.notes || '',
         });
       } else {
@@ -131,6 +140,7 @@ export function BOQItemFormDialog({
           quantity: 1,
           rate: 0,
           stageId: '',
+          materialTypeItemId: '',
           notes: '',
         });
       }
@@ -146,12 +156,18 @@ export function BOQItemFormDialog({
         notes: values.notes || undefined,
         code: values.code || undefined,
       };
+      // Only material items plan for a material type
+      const materialTypeItemId =
+        (values.category === 'MATERIAL' && values.materialTypeItemId) || null;
 
       if (isEditing && item) {
-        await updateMutation.mutateAsync({ id: item.id, data });
+        await updateMutation.mutateAsync({ id: item.id, data: { ...data, materialTypeItemId } });
         toast.success('BOQ item updated');
       } else {
-        await createMutation.mutateAsync(data);
+        await createMutation.mutateAsync({
+          ...data,
+          materialTypeItemId: materialTypeItemId ?? undefined,
+        });
         toast.success('BOQ item added');
       }
 
@@ -285,6 +301,42 @@ export function BOQItemFormDialog({
             </span>
           </div>
 
+          {/* Material type */}
+          {form.watch('category') === 'MATERIAL' && (
+            <div className="space-y-2">
+              <Label htmlFor="materialTypeItemId">Material Type (Optional)</Label>
+              <Select
+                value={form.watch('materialTypeItemId') || 'none'}
+                onValueChange={(value) =>
+                  form.setValue('materialTypeItemId', value === 'none' ? '' : value)
+                }
+              >
+                <SelectTrigger className="cursor-pointer">
+                  <SelectValue placeholder="Select material type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none" className="cursor-pointer">No material type</SelectItem>
+                  {materialTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id} className="cursor-pointer">
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Planned quantity is compared with what is issued from site stock.
+              </p>
+              {can('expenses.view') && form.watch('materialTypeItemId') && (
+                <RateSuggestions
+                  categoryItemId={form.watch('materialTypeItemId')}
+                  unit={form.watch('unit')}
+                  projectId={projectId}
+                  onUseRate={(value) => form.setValue('rate', value, { shouldValidate: true })}
+                />
+              )}
+            </div>
+          )}
+
           {/* Stage */}
           <div className="space-y-2">
             <Label htmlFor="stageId">Link to Stage (Optional)</Label>
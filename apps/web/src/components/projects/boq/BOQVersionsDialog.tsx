@@ -0,0 +1,336 @@
+/**
+ * BOQ Versions Dialog
+ *
+ * Named copies of the BOQ (tender, contract, revised-1...):
+ * - Save the BOQ as it stands now as a version
+ * - Mark the version others are compared against as the baseline
+ * - Compare a version with the live BOQ, export it to Excel or delete it
+ */
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  DotsThree,
+  FloppyDisk,
+  GitDiff,
+  DownloadSimple,
+  Star,
+  Trash,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
+import {
+  useBOQVersions,
+  useCreateBOQVersion,
+  useSetBOQBaseline,
+  useDeleteBOQVersion,
+} from '@/lib/hooks/useBOQVersions';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { downloadBOQVersion, type BOQVersion } from '@/lib/api/boq-versions';
+import { saveFile } from '@/lib/utils';
+import { formatCurrency } from '../change-orders/format';
+
+// ============================================
+// Types
+// ============================================
+
+interface BOQVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  onCompare: (versionId: string) => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function errorMessage(error: unknown): string | undefined {
+  return isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function BOQVersionsDialog({
+  open,
+  onOpenChange,
+  projectId,
+  onCompare,
+}: BOQVersionsDialogProps) {
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [deleting, setDeleting] = useState<BOQVersion | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const can = useCan();
+  const canManage = can('boq.manage');
+
+  const { data: versions = [], isLoading } = useBOQVersions(open ? projectId : '');
+  const createMutation = useCreateBOQVersion(projectId);
+  const baselineMutation = useSetBOQBaseline(projectId);
+  const deleteMutation = useDeleteBOQVersion(projectId);
+
+  // Reset when opened
+  useEffect(() => {
+    if (!open) return;
+
+    setName('');
+    setNotes('');
+  }, [open]);
+
+  const handleSave = async () => {
+    try {
+      const version = await createMutation.mutateAsync({
+        name: name.trim(),
+        notes: notes.trim() || null,
+      });
+      toast.success(
+        version.isBaseline
+          ? `Saved "${version.name}" as the baseline`
+          : `Saved version "${version.name}"`
+      );
+      setName('');
+      setNotes('');
+    } catch (error) {
+      toast.error(errorMessage(error) || 'Failed to save version');
+    }
+  };
+
+  const handleSetBaseline = async (version: BOQVersion) => {
+    try {
+      await baselineMutation.mutateAsync(version.id);
+      toast.success(`"${version.name}" is now the baseline`);
+    } catch (error) {
+      toast.error(errorMessage(error) || 'Failed to set baseline');
+    }
+  };
+
+  const handleExport = async (version: BOQVersion) => {
+    setExportingId(version.id);
+    try {
+      const { blob, fileName } = await downloadBOQVersion(projectId, version.id);
+      saveFile(blob, fileName);
+    } catch {
+      toast.error('Failed to export version');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteMutation.mutateAsync(deleting.id);
+      toast.success(`Deleted version "${deleting.name}"`);
+      setDeleting(null);
+    } catch (error) {
+      toast.error(errorMessage(error) || 'Failed to delete version');
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>BOQ Versions</DialogTitle>
+            <DialogDescription>
+              Saved copies of the BOQ. Changes are measured against the baseline.
+            </DialogDescription>
+          </DialogHeader>
+
+          {/* Save the live BOQ */}
+          {canManage && (
+            <div className="space-y-3 rounded-md border bg-muted/30 p-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="versionName">Version Name *</Label>
+                  <Input
+                    id="versionName"
+                    placeholder="e.g. Tender, Contract, Revised 1"
+                    value={name}
+                    maxLength={100}
+                    onChange={(event) => setName(event.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="versionNotes">Notes</Label>
+                  <Input
+                    id="versionNotes"
+                    value={notes}
+                    onChange={(event) => setNotes(event.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={!name.trim() || createMutation.isPending}
+                  className="cursor-pointer"
+                >
+                  <FloppyDisk className="mr-2 h-4 w-4" />
+                  {createMutation.isPending ? 'Saving...' : 'Save Current BOQ'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Versions */}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No versions yet. Save the BOQ as quoted before it is revised.
+            </p>
+          ) : (
+            <div className="max-h-[360px] divide-y overflow-y-auto rounded-md border">
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate font-medium">{version.name}</p>
+                      {version.isBaseline && <Badge variant="default">Baseline</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {version.itemCount} items · saved{' '}
+                      {format(new Date(version.createdAt), 'MMM d, yyyy')}
+                      {version.createdBy && ` by ${version.createdBy.user.name}`}
+                    </p>
+                    {version.notes && (
+                      <p className="truncate text-xs text-muted-foreground">{version.notes}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <p className="font-medium">{formatCurrency(Number(version.totalAmount))}</p>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                          <DotsThree className="h-4 w-4" weight="bold" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => onCompare(version.id)}
+                          className="cursor-pointer"
+                        >
+                          <GitDiff className="h-4 w-4 mr-2" />
+                          Compare with Current
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleExport(version)}
+                          disabled={exportingId === version.id}
+                          className="cursor-pointer"
+                        >
+                          <DownloadSimple className="h-4 w-4 mr-2" />
+                          Export to Excel
+                        </DropdownMenuItem>
+                        {canManage && !version.isBaseline && (
+                          <DropdownMenuItem
+                            onClick={() => handleSetBaseline(version)}
+                            className="cursor-pointer"
+                          >
+                            <Star className="h-4 w-4 mr-2" />
+                            Make Baseline
+                          </DropdownMenuItem>
+                        )}
+                        {can('audit.view') && (
+                          <DropdownMenuItem
+                            onClick={() => setHistoryId(version.id)}
+                            className="cursor-pointer"
+                          >
+                            <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                            History
+                          </DropdownMenuItem>
+                        )}
+                        {canManage && !version.isBaseline && (
+                          <DropdownMenuItem
+                            onClick={() => setDeleting(version)}
+                            className="cursor-pointer text-destructive"
+                          >
+                            <Trash className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!deleting} onOpenChange={(isOpen) => !isOpen && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Version</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{deleting?.name}"? The live BOQ is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending} className="cursor-pointer">
+              Keep
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <HistoryDrawer
+        open={!!historyId}
+        onOpenChange={(isOpen) => !isOpen && setHistoryId(null)}
+        entityType="BOQ_VERSION"
+        entityId={historyId}
+        title="BOQ version history"
+      />
+    </>
+  );
+}
@@ -5,10 +5,11 @@
  * - Summary cards
  * - View toggle (All Items / By Category / By Stage)
  * - Add/Import actions
+ * - Saved versions and the comparison against them
  */
 
 import { useState, useCallback } from 'react';
-import { Plus, Upload } from '@phosphor-icons/react';
+import { Plus, Upload, Stack, GitDiff } from '@phosphor-icons/react';
 
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -20,6 +21,8 @@ import { BOQStageView } from './BOQStageView';
 import { BOQItemFormDialog } from './BOQItemFormDialog';
 import { BOQImportDialog } from './BOQImportDialog';
 import { BOQImportReview } from './BOQImportReview';
+import { BOQVersionsDialog } from './BOQVersionsDialog';
+import { BOQComparisonDialog } from './BOQComparisonDialog';
 import type { ParseResult } from '@/lib/api/boq';
 
 // ============================================
@@ -41,6 +44,9 @@ export function ProjectBOQTab({ projectId }: ProjectBOQTabProps) {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
+  const [isVersionsDialogOpen, setIsVersionsDialogOpen] = useState(false);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+  const [compareFromId, setCompareFromId] = useState<string | null>(null);
 
   // Data fetching
   const { data: stats, isLoading: isStatsLoading } = useBOQStats(projectId);
@@ -67,6 +73,12 @@ export function ProjectBOQTab({ projectId }: ProjectBOQTabProps) {
     setParseResult(null);
   }, []);
 
+  const handleCompare = useCallback((versionId: string | null) => {
+    setCompareFromId(versionId);
+    setIsVersionsDialogOpen(false);
+    setIsComparisonOpen(true);
+  }, []);
+
   // Show import review screen if we have parse results
   if (parseResult) {
     return (
@@ -90,6 +102,18 @@ export function ProjectBOQTab({ projectId }: ProjectBOQTabProps) {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsVersionsDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Stack className="mr-2 h-4 w-4" />
+            Versions
+          </Button>
+          <Button variant="outline" onClick={() => handleCompare(null)} className="cursor-pointer">
+            <GitDiff className="mr-2 h-4 w-4" />
+            Compare
+          </Button>
           <Button variant="outline" onClick={handleImport} className="cursor-pointer">
             <Upload className="mr-2 h-4 w-4" />
             Import BOQ
@@ -142,6 +166,20 @@ export function ProjectBOQTab({ projectId }: ProjectBOQTabProps) {
         projectId={projectId}
         onParseComplete={handleParseComplete}
       />
+
+      {/* Versions */}
+      <BOQVersionsDialog
+        open={isVersionsDialogOpen}
+        onOpenChange={setIsVersionsDialogOpen}
+        projectId={projectId}
+        onCompare={handleCompare}
+      />
+      <BOQComparisonDialog
+        open={isComparisonOpen}
+        onOpenChange={setIsComparisonOpen}
+        projectId={projectId}
+        fromId={compareFromId}
+      />
     </div>
   );
 }
@@ -0,0 +1,341 @@
+/**
+ * Rate Analysis Dialog
+ *
+ * How a BOQ item's rate is built up.
+ * Features:
+ * - Material, labour, equipment and other components per unit of the item
+ * - Start from a template in the organization's library
+ * - Overhead and profit on top, down to the analysed rate against the quoted one
+ * - Each typed component's rate against what the project actually paid
+ * - Optionally quote the item at the analysed rate
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  RateComponentsEditor,
+  type ActualRate,
+} from '@/components/rate-analysis/RateComponentsEditor';
+import { RateBreakdown } from '@/components/rate-analysis/RateBreakdown';
+import {
+  emptyRow,
+  priceRows,
+  toInputs,
+  toRows,
+  type ComponentRow,
+} from '@/components/rate-analysis/rate-components';
+import {
+  useRateAnalysis,
+  useRateTemplates,
+  useSaveRateAnalysis,
+  useDeleteRateAnalysis,
+} from '@/lib/hooks/useRateAnalysis';
+import { useCan } from '@/lib/hooks/usePermissions';
+import type { BOQItem } from '@/lib/api/boq';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatImpact } from '../change-orders/format';
+
+// ============================================
+// Types
+// ============================================
+
+interface RateAnalysisDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  item: BOQItem | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const NO_TEMPLATE = 'none';
+
+// ============================================
+// Component
+// ============================================
+
+export function RateAnalysisDialog({
+  open,
+  onOpenChange,
+  projectId,
+  item,
+}: RateAnalysisDialogProps) {
+  const can = useCan();
+  const canManage = can('boq.manage');
+
+  const { data: analysis, isLoading } = useRateAnalysis(
+    projectId,
+    open ? (item?.id ?? null) : null
+  );
+  const { data: templates = [] } = useRateTemplates();
+  const saveMutation = useSaveRateAnalysis(projectId, item?.id ?? '');
+  const deleteMutation = useDeleteRateAnalysis(projectId, item?.id ?? '');
+
+  const [rows, setRows] = useState<ComponentRow[]>([emptyRow()]);
+  const [templateId, setTemplateId] = useState(NO_TEMPLATE);
+  const [overheadPercent, setOverheadPercent] = useState('0');
+  const [profitPercent, setProfitPercent] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [applyRate, setApplyRate] = useState(false);
+
+  // Start from the saved analysis when the dialog opens
+  useEffect(() => {
+    if (!open || isLoading) return;
+
+    setRows(analysis ? toRows(analysis.components) : [emptyRow()]);
+    setTemplateId(analysis?.templateId ?? NO_TEMPLATE);
+    setOverheadPercent(String(analysis ? Number(analysis.overheadPercent) : 0));
+    setProfitPercent(String(analysis ? Number(analysis.profitPercent) : 0));
+    setNotes(analysis?.notes ?? '');
+    setApplyRate(false);
+  }, [open, isLoading, analysis]);
+
+  const totals = useMemo(
+    () => priceRows(rows, Number(overheadPercent) || 0, Number(profitPercent) || 0),
+    [rows, overheadPercent, profitPercent]
+  );
+
+  const actualRates = useMemo(() => {
+    const rates = new Map<string, ActualRate>();
+    for (const component of analysis?.components ?? []) {
+      if (component.categoryItemId) {
+        rates.set(component.categoryItemId, {
+          actualRate: component.actualRate,
+          expenseCount: component.expenseCount,
+        });
+      }
+    }
+    return rates;
+  }, [analysis]);
+
+  const quotedRate = Number(item?.rate ?? 0);
+  const rateDifference = Math.round((quotedRate - totals.unitRate) * 100) / 100;
+
+  // A template replaces the components and percentages
+  const loadTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((candidate) => candidate.id === id);
+    if (!template) return;
+
+    setRows(toRows(template.components));
+    setOverheadPercent(String(Number(template.overheadPercent)));
+    setProfitPercent(String(Number(template.profitPercent)));
+  };
+
+  const handleSave = async () => {
+    const components = toInputs(rows);
+    if (!components) {
+      toast.error('Each component needs a unit and a quantity');
+      return;
+    }
+    if (components.length === 0) {
+      toast.error('Add at least one component');
+      return;
+    }
+
+    try {
+      const saved = await saveMutation.mutateAsync({
+        templateId: templateId === NO_TEMPLATE ? null : templateId,
+        overheadPercent: Number(overheadPercent) || 0,
+        profitPercent: Number(profitPercent) || 0,
+        notes: notes.trim() || null,
+        components,
+        applyRate,
+      });
+      toast.success(
+        applyRate ? `Item quoted at ${formatCurrency(saved.unitRate)}` : 'Rate analysis saved'
+      );
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to save rate analysis');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMutation.mutateAsync();
+      toast.success('Rate analysis removed');
+      onOpenChange(false);
+    } catch {
+      toast.error('Failed to remove rate analysis');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rate Analysis</DialogTitle>
+          <DialogDescription>
+            {item ? `${item.description} · per ${item.unit}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {/* Template */}
+            {templates.length > 0 && canManage && (
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select value={templateId} onValueChange={loadTemplate}>
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TEMPLATE} className="cursor-pointer">
+                      None
+                    </SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id} className="cursor-pointer">
+                        {template.name} · {formatCurrency(template.unitRate)} per {template.unit}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <RateComponentsEditor rows={rows} onChange={setRows} actualRates={actualRates} />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="analysis-overhead">Overhead %</Label>
+                <Input
+                  id="analysis-overhead"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={overheadPercent}
+                  onChange={(event) => setOverheadPercent(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analysis-profit">Profit %</Label>
+                <Input
+                  id="analysis-profit"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={profitPercent}
+                  onChange={(event) => setProfitPercent(event.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <RateBreakdown
+                totals={totals}
+                overheadPercent={Number(overheadPercent) || 0}
+                profitPercent={Number(profitPercent) || 0}
+                unit={item?.unit}
+              />
+              <div className="space-y-3">
+                <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span>Quoted rate</span>
+                    <span className="font-semibold">{formatCurrency(quotedRate)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Over the analysed rate</span>
+                    <span
+                      className={cn(
+                        'font-medium',
+                        rateDifference < 0 ? 'text-red-600' : 'text-green-600'
+                      )}
+                    >
+                      {formatImpact(rateDifference)}
+                    </span>
+                  </div>
+                </div>
+                <Textarea
+                  rows={3}
+                  placeholder="Notes: source of rates, assumptions"
+                  value={notes}
+                  onChange={(event) => setNotes(event.target.value)}
+                />
+              </div>
+            </div>
+
+            {canManage && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="analysis-apply-rate"
+                  checked={applyRate}
+                  onCheckedChange={(checked) => setApplyRate(checked === true)}
+                />
+                <Label htmlFor="analysis-apply-rate" className="cursor-pointer font-normal">
+                  Quote the item at {formatCurrency(totals.unitRate)}
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {analysis && canManage && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              className="mr-auto cursor-pointer text-destructive hover:text-destructive"
+            >
+              Remove analysis
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            {canManage ? 'Cancel' : 'Close'}
+          </Button>
+          {canManage && (
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={isLoading || saveMutation.isPending}
+              className="cursor-pointer"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Analysis'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,3 +12,6 @@ export { BOQStageView } from './BOQStageView';
 export { BOQItemFormDialog } from './BOQItemFormDialog';
 export { BOQImportDialog } from './BOQImportDialog';
 export { BOQImportReview } from './BOQImportReview';
+export { BOQVersionsDialog } from './BOQVersionsDialog';
+export { BOQComparisonDialog } from './BOQComparisonDialog';
+export { RateAnalysisDialog } from './RateAnalysisDialog';
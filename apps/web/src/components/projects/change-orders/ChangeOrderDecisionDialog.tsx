@@ -0,0 +1,160 @@
+/**
+ * Change Order Decision Dialog
+ *
+ * Record the client's decision on a change order sent to them, with the date
+ * and their instruction or letter. An approval revises the BOQ, the contract
+ * value and the payment schedule; a rejection needs a reason.
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useApproveChangeOrder, useRejectChangeOrder } from '@/lib/hooks/useChangeOrders';
+import { changeOrderNumber, formatImpact } from './format';
+import type { ChangeOrder } from '@/lib/api/change-orders';
+
+// ============================================
+// Types
+// ============================================
+
+export type ClientDecision = 'approve' | 'reject';
+
+interface ChangeOrderDecisionDialogProps {
+  changeOrder: ChangeOrder | null;
+  decision: ClientDecision;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ChangeOrderDecisionDialog({
+  changeOrder,
+  decision,
+  onOpenChange,
+}: ChangeOrderDecisionDialogProps) {
+  const [decidedAt, setDecidedAt] = useState<Date | undefined>();
+  const [clientReference, setClientReference] = useState('');
+  const [reason, setReason] = useState('');
+
+  const approveMutation = useApproveChangeOrder();
+  const rejectMutation = useRejectChangeOrder();
+  const isPending = approveMutation.isPending || rejectMutation.isPending;
+  const isApproval = decision === 'approve';
+
+  // Reset when opened
+  useEffect(() => {
+    if (!changeOrder) return;
+
+    setDecidedAt(new Date());
+    setClientReference('');
+    setReason('');
+  }, [changeOrder]);
+
+  const handleSubmit = async () => {
+    if (!changeOrder || !decidedAt) return;
+
+    const data = {
+      decidedAt: decidedAt.toISOString(),
+      clientReference: clientReference.trim() || null,
+    };
+    const label = changeOrderNumber(changeOrder.number);
+
+    try {
+      if (isApproval) {
+        await approveMutation.mutateAsync({ id: changeOrder.id, data });
+        toast.success(`${label} approved; the BOQ and contract value are revised`);
+      } else {
+        await rejectMutation.mutateAsync({
+          id: changeOrder.id,
+          data: { ...data, reason: reason.trim() },
+        });
+        toast.success(`${label} rejected`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || `Failed to ${decision} change order`);
+    }
+  };
+
+  return (
+    <Dialog open={!!changeOrder} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{isApproval ? 'Client Approval' : 'Client Rejection'}</DialogTitle>
+          <DialogDescription>
+            {changeOrder
+              ? isApproval
+                ? `${changeOrderNumber(changeOrder.number)} changes the contract value by ${formatImpact(Number(changeOrder.priceImpact))}. Approving it revises the BOQ and the payment schedule.`
+                : `${changeOrderNumber(changeOrder.number)} is closed and the BOQ left as it is.`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Decided On *</Label>
+              <DatePicker value={decidedAt} onChange={setDecidedAt} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clientReference">Client Reference</Label>
+              <Input
+                id="clientReference"
+                placeholder="Letter or instruction"
+                value={clientReference}
+                onChange={(event) => setClientReference(event.target.value)}
+              />
+            </div>
+          </div>
+          {!isApproval && (
+            <div className="space-y-2">
+              <Label htmlFor="changeOrderReason">Reason *</Label>
+              <Textarea
+                id="changeOrderReason"
+                rows={2}
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant={isApproval ? 'primary' : 'destructive'}
+            disabled={isPending || !decidedAt || (!isApproval && !reason.trim())}
+            className="cursor-pointer"
+          >
+            {isPending ? 'Saving...' : isApproval ? 'Record Approval' : 'Record Rejection'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,515 @@
+/**
+ * Change Order Form Dialog
+ *
+ * Draft a change order, or edit one not yet sent to the client.
+ * Features:
+ * - Title, raised date and the estimated cost of carrying it out
+ * - Lines that add a BOQ item, revise the quantity or rate of one, or omit it
+ * - The change each line makes to the contract value
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Trash } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useBOQItems, useBOQSections } from '@/lib/hooks/useBOQ';
+import { useCreateChangeOrder, useUpdateChangeOrder } from '@/lib/hooks/useChangeOrders';
+import type { BOQCategory } from '@/lib/api/boq';
+import type {
+  ChangeOrder,
+  ChangeOrderLineAction,
+  ChangeOrderLineInput,
+} from '@/lib/api/change-orders';
+import {
+  ACTION_LABELS,
+  CATEGORY_LABELS,
+  changeOrderNumber,
+  formatCurrency,
+  formatImpact,
+} from './format';
+
+// ============================================
+// Schema
+// ============================================
+
+const changeOrderFormSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().optional(),
+  raisedDate: z.date({ required_error: 'Date is required' }),
+  costImpact: z.coerce.number({ invalid_type_error: 'Enter an amount' }),
+});
+
+type ChangeOrderFormData = z.infer<typeof changeOrderFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface ChangeOrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  // Draft to edit; a new change order is drafted when not given
+  changeOrder?: ChangeOrder | null;
+}
+
+interface LineRow {
+  action: ChangeOrderLineAction;
+  boqItemId: string;
+  sectionId: string;
+  category: BOQCategory;
+  description: string;
+  unit: string;
+  quantity: string;
+  rate: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const NO_SECTION = 'none';
+
+const EMPTY_LINE: LineRow = {
+  action: 'ADD',
+  boqItemId: '',
+  sectionId: NO_SECTION,
+  category: 'MATERIAL',
+  description: '',
+  unit: '',
+  quantity: '',
+  rate: '',
+};
+
+// ============================================
+// Component
+// ============================================
+
+export function ChangeOrderFormDialog({
+  open,
+  onOpenChange,
+  projectId,
+  changeOrder,
+}: ChangeOrderFormDialogProps) {
+  const isEditing = !!changeOrder;
+
+  const { data: boqData } = useBOQItems(projectId, { limit: 100 });
+  const boqItems = useMemo(() => boqData?.items ?? [], [boqData]);
+  const { data: sections = [] } = useBOQSections(projectId);
+
+  const createMutation = useCreateChangeOrder();
+  const updateMutation = useUpdateChangeOrder();
+
+  const [lines, setLines] = useState<LineRow[]>([EMPTY_LINE]);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ChangeOrderFormData>({
+    resolver: zodResolver(changeOrderFormSchema),
+    defaultValues: { title: '', description: '', raisedDate: new Date(), costImpact: 0 },
+  });
+
+  // Reset when the dialog opens, from the draft being edited if any
+  useEffect(() => {
+    if (!open) return;
+
+    reset({
+      title: changeOrder?.title ?? '',
+      description: changeOrder?.description ?? '',
+      raisedDate: changeOrder ? new Date(changeOrder.raisedDate) : new Date(),
+      costImpact: changeOrder ? Number(changeOrder.costImpact) : 0,
+    });
+    setLines(
+      changeOrder
+        ? changeOrder.lines.map((line) => ({
+            action: line.action,
+            boqItemId: line.boqItemId ?? '',
+            sectionId: line.section?.id ?? NO_SECTION,
+            category: line.category,
+            description: line.description,
+            unit: line.unit,
+            quantity: String(Number(line.quantity)),
+            rate: String(Number(line.rate)),
+          }))
+        : [EMPTY_LINE]
+    );
+  }, [open, changeOrder, reset]);
+
+  // The change each line makes: its new value less what the BOQ has now
+  const impacts = useMemo(
+    () =>
+      lines.map((line) => {
+        const item = boqItems.find((candidate) => candidate.id === line.boqItemId);
+        const previous = item ? Number(item.quantity) * Number(item.rate) : 0;
+        if (line.action === 'REMOVE') return -previous;
+        const amount = (Number(line.quantity) || 0) * (Number(line.rate) || 0);
+        return line.action === 'ADD' ? amount : amount - previous;
+      }),
+    [lines, boqItems]
+  );
+  const priceImpact = impacts.reduce((sum, impact) => sum + impact, 0);
+
+  const updateLine = (index: number, changes: Partial<LineRow>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // A revised item starts from its quantity and rate in the BOQ
+  const selectBoqItem = (index: number, boqItemId: string) => {
+    const item = boqItems.find((candidate) => candidate.id === boqItemId);
+    updateLine(index, {
+      boqItemId,
+      ...(item && { quantity: String(Number(item.quantity)), rate: String(Number(item.rate)) }),
+    });
+  };
+
+  const toLineInput = (line: LineRow): ChangeOrderLineInput => {
+    switch (line.action) {
+      case 'ADD':
+        return {
+          action: 'ADD',
+          sectionId: line.sectionId === NO_SECTION ? null : line.sectionId,
+          category: line.category,
+          description: line.description.trim(),
+          unit: line.unit.trim(),
+          quantity: Number(line.quantity),
+          rate: Number(line.rate),
+        };
+      case 'MODIFY':
+        return {
+          action: 'MODIFY',
+          boqItemId: line.boqItemId,
+          quantity: Number(line.quantity),
+          rate: Number(line.rate),
+        };
+      case 'REMOVE':
+        return { action: 'REMOVE', boqItemId: line.boqItemId };
+    }
+  };
+
+  const onSubmit = async (data: ChangeOrderFormData) => {
+    const isIncomplete = lines.some((line) =>
+      line.action === 'ADD'
+        ? !line.description.trim() || !line.unit.trim() || !(Number(line.quantity) > 0)
+        : !line.boqItemId
+    );
+    if (isIncomplete) {
+      toast.error('Complete each line, or remove it');
+      return;
+    }
+
+    const payload = {
+      title: data.title,
+      description: data.description || null,
+      raisedDate: data.raisedDate.toISOString(),
+      costImpact: data.costImpact,
+      lines: lines.map(toLineInput),
+    };
+
+    try {
+      if (changeOrder) {
+        await updateMutation.mutateAsync({ id: changeOrder.id, data: payload });
+        toast.success(`${changeOrderNumber(changeOrder.number)} updated`);
+      } else {
+        const created = await createMutation.mutateAsync({ projectId, ...payload });
+        toast.success(`${changeOrderNumber(created.number)} drafted`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || `Failed to ${isEditing ? 'update' : 'create'} change order`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? `Edit ${changeOrderNumber(changeOrder.number)}` : 'New Change Order'}
+          </DialogTitle>
+          <DialogDescription>
+            The BOQ and contract value are revised once the client approves it
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          {/* Change order details */}
+          <div className="space-y-2">
+            <Label htmlFor="changeOrderTitle">Title *</Label>
+            <Input
+              id="changeOrderTitle"
+              placeholder="Terrace waterproofing"
+              {...register('title')}
+            />
+            {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Raised On *</Label>
+              <Controller
+                name="raisedDate"
+                control={control}
+                render={({ field }) => <DatePicker value={field.value} onChange={field.onChange} />}
+              />
+              {errors.raisedDate && (
+                <p className="text-sm text-destructive">{errors.raisedDate.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="costImpact">Estimated Cost</Label>
+              <Input
+                id="costImpact"
+                type="number"
+                step="0.01"
+                placeholder="What the change costs to carry out"
+                {...register('costImpact')}
+              />
+              {errors.costImpact && (
+                <p className="text-sm text-destructive">{errors.costImpact.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Lines */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Lines</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setLines((current) => [...current, EMPTY_LINE])}
+                className="cursor-pointer"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add line
+              </Button>
+            </div>
+            {lines.map((line, index) => {
+              const item = boqItems.find((candidate) => candidate.id === line.boqItemId);
+              return (
+                <div key={index} className="space-y-2 rounded-lg border p-2">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={line.action}
+                      onValueChange={(value) =>
+                        updateLine(index, {
+                          ...EMPTY_LINE,
+                          action: value as ChangeOrderLineAction,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-28 cursor-pointer">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ACTION_LABELS) as ChangeOrderLineAction[]).map((action) => (
+                          <SelectItem key={action} value={action} className="cursor-pointer">
+                            {ACTION_LABELS[action]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {line.action === 'ADD' ? (
+                      <>
+                        <Input
+                          placeholder="Description"
+                          className="min-w-0 flex-1"
+                          value={line.description}
+                          onChange={(event) =>
+                            updateLine(index, { description: event.target.value })
+                          }
+                        />
+                        <Input
+                          placeholder="Unit"
+                          className="w-20"
+                          value={line.unit}
+                          onChange={(event) => updateLine(index, { unit: event.target.value })}
+                        />
+                      </>
+                    ) : (
+                      <Select
+                        value={line.boqItemId}
+                        onValueChange={(value) => selectBoqItem(index, value)}
+                      >
+                        <SelectTrigger className="min-w-0 flex-1 cursor-pointer">
+                          <SelectValue placeholder="BOQ item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {boqItems.map((boqItem) => (
+                            <SelectItem
+                              key={boqItem.id}
+                              value={boqItem.id}
+                              className="cursor-pointer"
+                            >
+                              {boqItem.code ? `${boqItem.code} · ` : ''}
+                              {boqItem.description}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    <span
+                      className={`w-28 text-right text-sm ${impacts[index] < 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+                    >
+                      {formatImpact(impacts[index])}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={lines.length === 1}
+                      onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                      className="h-8 w-8 shrink-0 cursor-pointer"
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {line.action !== 'REMOVE' && (
+                    <div className="flex items-center gap-2 pl-[7.5rem]">
+                      {line.action === 'ADD' && (
+                        <>
+                          <Select
+                            value={line.category}
+                            onValueChange={(value) =>
+                              updateLine(index, { category: value as BOQCategory })
+                            }
+                          >
+                            <SelectTrigger className="w-32 cursor-pointer">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(CATEGORY_LABELS) as BOQCategory[]).map((category) => (
+                                <SelectItem
+                                  key={category}
+                                  value={category}
+                                  className="cursor-pointer"
+                                >
+                                  {CATEGORY_LABELS[category]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={line.sectionId}
+                            onValueChange={(value) => updateLine(index, { sectionId: value })}
+                          >
+                            <SelectTrigger className="min-w-0 flex-1 cursor-pointer">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_SECTION} className="cursor-pointer">
+                                No section
+                              </SelectItem>
+                              {sections.map((section) => (
+                                <SelectItem
+                                  key={section.id}
+                                  value={section.id}
+                                  className="cursor-pointer"
+                                >
+                                  {section.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </>
+                      )}
+                      {line.action === 'MODIFY' && (
+                        <span className="min-w-0 flex-1 text-xs text-muted-foreground">
+                          {item
+                            ? `Now ${Number(item.quantity)} ${item.unit} at ${formatCurrency(Number(item.rate))}`
+                            : ''}
+                        </span>
+                      )}
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        placeholder={item ? `Qty (${item.unit})` : 'Qty'}
+                        className="w-28"
+                        value={line.quantity}
+                        onChange={(event) => updateLine(index, { quantity: event.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Rate"
+                        className="w-28"
+                        value={line.rate}
+                        onChange={(event) => updateLine(index, { rate: event.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="changeOrderDescription">Description</Label>
+            <Textarea
+              id="changeOrderDescription"
+              rows={2}
+              placeholder="Why the work changed, drawing or site instruction reference"
+              {...register('description')}
+            />
+          </div>
+
+          {/* Total */}
+          <div className="flex justify-between rounded-md border bg-muted/30 p-3 text-sm font-semibold">
+            <span>Change to contract value</span>
+            <span>{formatImpact(priceImpact)}</span>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Change Order' : 'Create Change Order'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
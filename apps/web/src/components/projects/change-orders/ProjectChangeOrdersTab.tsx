@@ -0,0 +1,403 @@
+/**
+ * Project Change Orders Tab
+ *
+ * Variations to a project's client contract:
+ * - The original contract value, approved variations and what is with the client
+ * - Each change order with the BOQ lines it adds, revises or omits
+ * - Send drafts to the client and record their approval or rejection
+ * - The BOQ items approved change orders revised, against what was first quoted
+ */
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  Plus,
+  DotsThree,
+  PencilSimple,
+  PaperPlaneTilt,
+  Check,
+  X,
+  Swap,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
+import { useChangeOrders, useSubmitChangeOrder } from '@/lib/hooks/useChangeOrders';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { ChangeOrderFormDialog } from './ChangeOrderFormDialog';
+import { ChangeOrderDecisionDialog, type ClientDecision } from './ChangeOrderDecisionDialog';
+import {
+  ACTION_LABELS,
+  STATUS_CONFIG,
+  changeOrderNumber,
+  formatCurrency,
+  formatImpact,
+  formatQuantity,
+} from './format';
+import type { ChangeOrder } from '@/lib/api/change-orders';
+
+// ============================================
+// Types
+// ============================================
+
+interface ProjectChangeOrdersTabProps {
+  projectId: string;
+}
+
+interface DecisionTarget {
+  changeOrder: ChangeOrder;
+  decision: ClientDecision;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ProjectChangeOrdersTab({ projectId }: ProjectChangeOrdersTabProps) {
+  const can = useCan();
+  const canManage = can('variations.manage');
+  const canApprove = can('variations.approve');
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<ChangeOrder | null>(null);
+  const [deciding, setDeciding] = useState<DecisionTarget | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const { data, isLoading } = useChangeOrders(projectId);
+  const changeOrders = data?.changeOrders ?? [];
+  const revisedItems = data?.revisedItems ?? [];
+  const summary = data?.summary;
+  const submitMutation = useSubmitChangeOrder();
+
+  const openForm = useCallback((changeOrder: ChangeOrder | null) => {
+    setEditingOrder(changeOrder);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (changeOrder: ChangeOrder) => {
+      try {
+        await submitMutation.mutateAsync(changeOrder.id);
+        toast.success(`${changeOrderNumber(changeOrder.number)} sent to the client`);
+      } catch (error) {
+        const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+        toast.error(message || 'Failed to submit change order');
+      }
+    },
+    [submitMutation]
+  );
+
+  const cards = summary
+    ? [
+        { label: 'Original contract', amount: summary.originalAmount },
+        { label: 'Approved variations', amount: summary.approvedAmount, signed: true },
+        { label: 'Revised contract', amount: summary.contractAmount },
+        { label: 'With client', amount: summary.pendingAmount, signed: true },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border bg-card">
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 pb-4">
+          <div>
+            <h3 className="font-medium">Change Orders</h3>
+            <p className="text-sm text-muted-foreground">
+              Variations to the contract; approved ones revise the BOQ and payment schedule
+            </p>
+          </div>
+          {canManage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openForm(null)}
+              className="cursor-pointer"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New Change Order
+            </Button>
+          )}
+        </div>
+
+        {/* Totals */}
+        {summary && (
+          <div className="flex gap-4 px-5 pb-4">
+            {cards.map((card) => (
+              <div key={card.label} className="flex-1 rounded-md border bg-muted/30 p-3">
+                <p className="text-xs text-muted-foreground mb-1">{card.label}</p>
+                <p className="text-lg font-semibold">
+                  {card.signed ? formatImpact(card.amount) : formatCurrency(card.amount)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Change orders */}
+        {isLoading ? (
+          <div className="space-y-2 px-5 pb-5">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : changeOrders.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 border-t px-5 py-8 text-center">
+            <Swap className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              No change orders yet. Draft one when the client asks for work outside the BOQ.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y border-t">
+            {changeOrders.map((changeOrder) => {
+              const status = STATUS_CONFIG[changeOrder.status];
+              const isWithClient = changeOrder.status === 'SUBMITTED';
+
+              return (
+                <div key={changeOrder.id} className="space-y-3 p-5">
+                  {/* Change order summary */}
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">
+                          {changeOrderNumber(changeOrder.number)} · {changeOrder.title}
+                        </p>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Raised {format(new Date(changeOrder.raisedDate), 'MMM d, yyyy')}
+                        {changeOrder.decidedAt &&
+                          ` · decided ${format(new Date(changeOrder.decidedAt), 'MMM d, yyyy')}`}
+                        {changeOrder.clientReference && ` · ${changeOrder.clientReference}`}
+                      </p>
+                      {changeOrder.rejectionReason && (
+                        <p className="text-xs text-muted-foreground">
+                          {changeOrder.rejectionReason}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-6 text-right text-sm">
+                      <div>
+                        <p className="text-xs text-muted-foreground">Price</p>
+                        <p className="font-medium">
+                          {formatImpact(Number(changeOrder.priceImpact))}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-muted-foreground">Cost</p>
+                        <p className="font-medium">
+                          {formatCurrency(Number(changeOrder.costImpact))}
+                        </p>
+                      </div>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                            <DotsThree className="h-4 w-4" weight="bold" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {canManage && changeOrder.status === 'DRAFT' && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => openForm(changeOrder)}
+                                className="cursor-pointer"
+                              >
+                                <PencilSimple className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => handleSubmit(changeOrder)}
+                                className="cursor-pointer"
+                              >
+                                <PaperPlaneTilt className="h-4 w-4 mr-2" />
+                                Send to Client
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {canApprove && isWithClient && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => setDeciding({ changeOrder, decision: 'approve' })}
+                                className="cursor-pointer"
+                              >
+                                <Check className="h-4 w-4 mr-2" />
+                                Client Approved
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setDeciding({ changeOrder, decision: 'reject' })}
+                                className="cursor-pointer"
+                              >
+                                <X className="h-4 w-4 mr-2" />
+                                Client Rejected
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {can('audit.view') && (
+                            <DropdownMenuItem
+                              onClick={() => setHistoryId(changeOrder.id)}
+                              className="cursor-pointer"
+                            >
+                              <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                              History
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </div>
+
+                  {/* Lines */}
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">CHANGE</TableHead>
+                        <TableHead>ITEM</TableHead>
+                        <TableHead className="text-right">WAS</TableHead>
+                        <TableHead className="text-right">NOW</TableHead>
+                        <TableHead className="text-right">AMOUNT</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changeOrder.lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell className="text-sm">{ACTION_LABELS[line.action]}</TableCell>
+                          <TableCell className="text-sm">
+                            <p className="font-medium">
+                              {line.boqItem?.code ? `${line.boqItem.code} · ` : ''}
+                              {line.description}
+                            </p>
+                            {line.section && (
+                              <p className="text-xs text-muted-foreground">{line.section.name}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right text-sm text-muted-foreground">
+                            {line.action === 'ADD'
+                              ? '—'
+                              : `${formatQuantity(Number(line.previousQuantity))} ${line.unit} @ ${formatCurrency(Number(line.previousRate))}`}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            {line.action === 'REMOVE'
+                              ? '—'
+                              : `${formatQuantity(Number(line.quantity))} ${line.unit} @ ${formatCurrency(Number(line.rate))}`}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right text-sm font-medium ${Number(line.amount) < 0 ? 'text-destructive' : ''}`}
+                          >
+                            {formatImpact(Number(line.amount))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Revised BOQ */}
+      {revisedItems.length > 0 && (
+        <div className="rounded-lg border bg-card">
+          <div className="p-5 pb-4">
+            <h3 className="font-medium">Revised BOQ</h3>
+            <p className="text-sm text-muted-foreground">
+              Items approved change orders changed, against the BOQ as first quoted
+            </p>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ITEM</TableHead>
+                <TableHead className="text-right">ORIGINAL</TableHead>
+                <TableHead className="text-right">REVISED</TableHead>
+                <TableHead className="text-right">DIFFERENCE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revisedItems.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="text-sm">
+                    <p className="font-medium">
+                      {item.code ? `${item.code} · ` : ''}
+                      {item.description}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.section?.name ?? 'No section'}
+                      {item.changeOrder &&
+                        ` · added by ${changeOrderNumber(item.changeOrder.number)}`}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    <p>{formatCurrency(item.originalAmount)}</p>
+                    {!item.changeOrder && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatQuantity(item.originalQuantity)} {item.unit} @{' '}
+                        {formatCurrency(item.originalRate)}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    <p>{formatCurrency(item.amount)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatQuantity(Number(item.quantity))} {item.unit} @{' '}
+                      {formatCurrency(Number(item.rate))}
+                    </p>
+                  </TableCell>
+                  <TableCell
+                    className={`text-right text-sm font-medium ${item.difference < 0 ? 'text-destructive' : ''}`}
+                  >
+                    {formatImpact(item.difference)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* New / Edit Change Order */}
+      <ChangeOrderFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        projectId={projectId}
+        changeOrder={editingOrder}
+      />
+
+      {/* Client Decision */}
+      <ChangeOrderDecisionDialog
+        changeOrder={deciding?.changeOrder ?? null}
+        decision={deciding?.decision ?? 'approve'}
+        onOpenChange={(open) => !open && setDeciding(null)}
+      />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyId}
+        onOpenChange={(open) => !open && setHistoryId(null)}
+        entityType="CHANGE_ORDER"
+        entityId={historyId}
+        title="Change order history"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Change order formatting helpers
+ */
+
+import type { BOQCategory } from '@/lib/api/boq';
+import type { ChangeOrderLineAction, ChangeOrderStatus } from '@/lib/api/change-orders';
+
+export function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+// Signed, for the change a variation makes
+export function formatImpact(amount: number): string {
+  return amount < 0 ? `− ${formatCurrency(-amount)}` : `+ ${formatCurrency(amount)}`;
+}
+
+export function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('en-IN', { maximumFractionDigits: 4 });
+}
+
+export function changeOrderNumber(number: number): string {
+  return `CO-${String(number).padStart(3, '0')}`;
+}
+
+export const STATUS_CONFIG: Record<
+  ChangeOrderStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  DRAFT: { label: 'Draft', variant: 'outline' },
+  SUBMITTED: { label: 'With client', variant: 'secondary' },
+  APPROVED: { label: 'Approved', variant: 'default' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+};
+
+export const ACTION_LABELS: Record<ChangeOrderLineAction, string> = {
+  ADD: 'Add',
+  MODIFY: 'Revise',
+  REMOVE: 'Omit',
+};
+
+export const CATEGORY_LABELS: Record<BOQCategory, string> = {
+  MATERIAL: 'Material',
+  LABOUR: 'Labour',
+  SUB_WORK: 'Sub Work',
+  EQUIPMENT: 'Equipment',
+  OTHER: 'Other',
+};
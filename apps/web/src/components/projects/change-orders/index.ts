@@ -0,0 +1,9 @@
+/**
+ * Change Order Components
+ *
+ * Re-exports for client change order (variation) components.
+ */
+
+export { ProjectChangeOrdersTab } from './ProjectChangeOrdersTab';
+export { ChangeOrderFormDialog } from './ChangeOrderFormDialog';
+export { ChangeOrderDecisionDialog } from './ChangeOrderDecisionDialog';
@@ -0,0 +1,293 @@
+/**
+ * Project Documents Tab
+ *
+ * Documents and site photos of a project.
+ * - Upload a file (images are compressed on the server)
+ * - Download with a short-lived link
+ * - Share with the client: shared files appear in the client portal
+ * - Delete
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { isAxiosError } from 'axios';
+import {
+  UploadSimple,
+  FileText,
+  Image as ImageIcon,
+  DownloadSimple,
+  Trash,
+  CircleNotch,
+} from '@phosphor-icons/react';
+
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { TablePagination } from '@/components/ui/table-pagination';
+import {
+  useDocuments,
+  useUploadDocument,
+  useShareDocument,
+  useDeleteDocument,
+} from '@/lib/hooks/useDocuments';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { getDocumentDownload, type ProjectDocument } from '@/lib/api/documents';
+
+const PAGINATION_LIMIT = 20;
+
+// ============================================
+// Types
+// ============================================
+
+interface ProjectDocumentsTabProps {
+  projectId: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ProjectDocumentsTab({ projectId }: ProjectDocumentsTabProps) {
+  const can = useCan();
+  const canManage = can('documents.manage');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [page, setPage] = useState(1);
+  const [deletingDocument, setDeletingDocument] = useState<ProjectDocument | null>(null);
+
+  // Queries
+  const { data, isLoading } = useDocuments({ projectId, page, limit: PAGINATION_LIMIT });
+  const documents = data?.items ?? [];
+
+  // Mutations
+  const uploadMutation = useUploadDocument();
+  const shareMutation = useShareDocument();
+  const deleteMutation = useDeleteDocument();
+
+  // Handlers
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        await uploadMutation.mutateAsync({ projectId, file });
+        toast.success(`${file.name} uploaded`);
+      } catch (error) {
+        const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+        toast.error(message || 'Failed to upload file');
+      }
+    },
+    [projectId, uploadMutation]
+  );
+
+  const handleShareChange = useCallback(
+    async (document: ProjectDocument, sharedWithClient: boolean) => {
+      try {
+        await shareMutation.mutateAsync({ id: document.id, sharedWithClient });
+        toast.success(
+          sharedWithClient ? 'Shared with the client' : 'No longer shared with the client'
+        );
+      } catch {
+        toast.error('Failed to update sharing');
+      }
+    },
+    [shareMutation]
+  );
+
+  const handleDownload = useCallback(async (document: ProjectDocument) => {
+    try {
+      const { downloadUrl } = await getDocumentDownload(document.id);
+      window.open(downloadUrl, '_blank', 'noopener');
+    } catch {
+      toast.error('Failed to download file');
+    }
+  }, []);
+
+  const handleConfirmDelete = useCallback(async () => {
+    if (!deletingDocument) return;
+
+    try {
+      await deleteMutation.mutateAsync(deletingDocument.id);
+      toast.success('File deleted');
+      setDeletingDocument(null);
+    } catch {
+      toast.error('Failed to delete file');
+    }
+  }, [deleteMutation, deletingDocument]);
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center gap-3">
+        <p className="text-sm text-muted-foreground">
+          Files shared with the client appear in their client portal.
+        </p>
+        <div className="flex-1" />
+        {canManage && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+              className="cursor-pointer"
+            >
+              {uploadMutation.isPending ? (
+                <CircleNotch className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UploadSimple className="mr-2 h-4 w-4" />
+              )}
+              Upload
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* Document List */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <div
+              key={index}
+              className="flex items-center gap-4 p-4 rounded-lg border bg-card animate-pulse"
+            >
+              <div className="h-10 w-10 rounded-lg bg-muted" />
+              <div className="flex-1 space-y-2">
+                <div className="h-4 w-40 bg-muted rounded" />
+                <div className="h-3 w-24 bg-muted rounded" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : documents.length === 0 ? (
+        <Empty className="py-16">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <FileText className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>No documents yet</EmptyTitle>
+            <EmptyDescription>Upload drawings, agreements and site photos.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border bg-card">
+          <div className="divide-y">
+            {documents.map((document) => {
+              const isPhoto = document.mimeType.startsWith('image/');
+              const FileIcon = isPhoto ? ImageIcon : FileText;
+
+              return (
+                <div key={document.id} className="flex items-center gap-4 p-4">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                    <FileIcon className="h-5 w-5" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{document.fileName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Uploaded {format(new Date(document.uploadedAt), 'dd MMM yyyy')}
+                    </p>
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Switch
+                      checked={document.sharedWithClient}
+                      onCheckedChange={(checked) => handleShareChange(document, checked)}
+                      disabled={!canManage || shareMutation.isPending}
+                    />
+                    Shared with client
+                  </label>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDownload(document)}
+                      className="cursor-pointer"
+                    >
+                      <DownloadSimple className="mr-2 h-4 w-4" />
+                      Download
+                    </Button>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeletingDocument(document)}
+                        className="cursor-pointer text-destructive hover:text-destructive"
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {data && data.pagination.pages > 1 && (
+            <TablePagination
+              page={data.pagination.page}
+              pages={data.pagination.pages}
+              total={data.pagination.total}
+              limit={data.pagination.limit}
+              onPageChange={setPage}
+              itemLabel="files"
+              className="border-t"
+            />
+          )}
+        </div>
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!deletingDocument}
+        onOpenChange={(open) => !open && setDeletingDocument(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete File</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{deletingDocument?.fileName}</strong>? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending} className="cursor-pointer">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Document Components
+ *
+ * Re-exports for project document components.
+ */
+
+export { ProjectDocumentsTab } from './ProjectDocumentsTab';
@@ -6,6 +6,8 @@
  * - Manual / Scan Invoice tabs
  * - Dynamic fields based on expense type (Material/Labour/Sub Work)
  * - Auto-calculated Total Amount and Balance
+ * - GST included in the bill, worked out from the rate unless entered as printed
+ * - Material bills matched to a line of the vendor's approved purchase orders
  * - Combined file upload for photos and documents
  */
 
@@ -36,11 +38,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { DatePicker } from '@/components/ui/custom/date-picker';
 import { cn } from '@/lib/utils';
+import { GST_RATES, gstIncluded } from '@/lib/gst';
 import { useCategoryItems } from '@/lib/hooks/useCategories';
 import { useParties } from '@/lib/hooks/useParties';
 import { useCreateExpense, useUpdateExpense } from '@/lib/hooks/useExpenses';
+import { useOpenOrderLines } from '@/lib/hooks/usePurchaseOrders';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { RateSuggestions } from '@/components/rate-library/RateSuggestions';
 import type { Expense, CreateExpenseInput, UpdateExpenseInput, PaymentMode } from '@/lib/api/expenses';
 
 // ============================================
@@ -52,7 +59,15 @@ const expenseFormSchema = z.object({
   expenseDate: z.date({ required_error: 'Date is required' }),
   rate: z.coerce.number().positive('Unit price must be positive'),
   quantity: z.coerce.number().positive('Quantity must be positive'),
+  // What the rate is per; blank takes the order line's unit
+  unit: z.string().optional(),
+  gstRate: z.string(),
+  // Blank works the GST out from the rate
+  gstAmount: z.string().regex(/^(\d+(\.\d{1,2})?)?$/, 'Enter a valid amount'),
+  itcEligible: z.boolean(),
   partyId: z.string().min(1, 'Please select a vendor/labour/subcontractor'),
+  // Blank when the bill is not against a purchase order
+  purchaseOrderLineId: z.string(),
   materialTypeItemId: z.string().optional(),
   labourTypeItemId: z.string().optional(),
   subWorkTypeItemId: z.string().optional(),
@@ -63,6 +78,17 @@ const expenseFormSchema = z.object({
 
 type ExpenseFormData = z.infer<typeof expenseFormSchema>;
 
+const NO_ORDER_LINE = 'none';
+
+function billTax(data: ExpenseFormData) {
+  const gstRate = Number(data.gstRate);
+  return {
+    gstRate,
+    gstAmount: gstRate > 0 && data.gstAmount ? Number(data.gstAmount) : undefined,
+    itcEligible: data.itcEligible,
+  };
+}
+
 // ============================================
 // Types
 // ============================================
@@ -145,6 +171,9 @@ export function AddExpenseModal({
   expense,
 }: AddExpenseModalProps) {
   const isEditing = !!expense;
+  // Approved expenses are locked until an approver reopens them
+  const isLocked = expense?.status === 'APPROVED';
+  const can = useCan();
   const [activeTab, setActiveTab] = useState('manual');
   const [selectedExpenseType, setSelectedExpenseType] = useState<ExpenseType>(null);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
@@ -192,7 +221,12 @@ export function AddExpenseModal({
       expenseDate: new Date(),
       rate: 0,
       quantity: 1,
+      unit: '',
+      gstRate: '0',
+      gstAmount: '',
+      itcEligible: false,
       partyId: '',
+      purchaseOrderLineId: '',
       materialTypeItemId: '',
       labourTypeItemId: '',
       subWorkTypeItemId: '',
@@ -207,9 +241,21 @@ export function AddExpenseModal({
   const watchQuantity = watch('quantity');
   const watchPaidAmount = watch('paidAmount');
   const watchExpenseType = watch('expenseTypeItemId');
+  const watchGstRate = Number(watch('gstRate'));
+  const watchPartyId = watch('partyId');
+  const watchOrderLineId = watch('purchaseOrderLineId');
+
+  // Lines of the vendor's approved orders that a material bill can be matched to
+  const { data: orderLines = [] } = useOpenOrderLines(
+    projectId,
+    watchPartyId,
+    open && selectedExpenseType === 'Material' && can('purchases.view')
+  );
+  const selectedOrderLine = orderLines.find((line) => line.id === watchOrderLineId);
 
   // Calculate totals
   const totalAmount = (watchRate || 0) * (watchQuantity || 0);
+  const computedGst = gstIncluded(totalAmount, watchGstRate);
   const balanceAmount = totalAmount - (watchPaidAmount || 0);
 
   // Update expense type when category changes
@@ -219,6 +265,7 @@ export function AddExpenseModal({
       setSelectedExpenseType(category.name as ExpenseType);
       // Reset party and sub-category when expense type changes
       setValue('partyId', '');
+      setValue('purchaseOrderLineId', '');
       setValue('materialTypeItemId', '');
       setValue('labourTypeItemId', '');
       setValue('subWorkTypeItemId', '');
@@ -239,7 +286,17 @@ export function AddExpenseModal({
           expenseDate: new Date(expense.expenseDate),
           rate: expense.rate,
           quantity: expense.quantity,
+          unit: expense.unit || '',
+          gstRate: String(Number(expense.gstRate)),
+          // Only GST entered by hand is shown; worked-out GST follows the total
+          gstAmount:
+            Number(expense.gstAmount) ===
+            gstIncluded(expense.rate * expense.quantity, Number(expense.gstRate))
+              ? ''
+              : String(expense.gstAmount),
+          itcEligible: expense.itcEligible,
           partyId: expense.partyId,
+          purchaseOrderLineId: expense.purchaseOrderLineId || '',
           materialTypeItemId: expense.materialTypeItemId || '',
           labourTypeItemId: expense.labourTypeItemId || '',
           subWorkTypeItemId: expense.subWorkTypeItemId || '',
@@ -255,7 +312,12 @@ export function AddExpenseModal({
           expenseDate: new Date(),
           rate: 0,
           quantity: 1,
+          unit: '',
+          gstRate: '0',
+          gstAmount: '',
+          itcEligible: false,
           partyId: '',
+          purchaseOrderLineId: '',
           materialTypeItemId: '',
           labourTypeItemId: '',
           subWorkTypeItemId: '',
@@ -277,8 +339,11 @@ export function AddExpenseModal({
           materialTypeItemId: data.materialTypeItemId || null,
           labourTypeItemId: data.labourTypeItemId || null,
           subWorkTypeItemId: data.subWorkTypeItemId || null,
+          purchaseOrderLineId: data.purchaseOrderLineId || null,
           rate: data.rate,
           quantity: data.quantity,
+          unit: data.unit?.trim() || null,
+          ...billTax(data),
           expenseDate: data.expenseDate.toISOString(),
           notes: data.notes || null,
         };
@@ -292,8 +357,11 @@ export function AddExpenseModal({
           materialTypeItemId: data.materialTypeItemId || undefined,
           labourTypeItemId: data.labourTypeItemId || undefined,
           subWorkTypeItemId: data.subWorkTypeItemId || undefined,
+          purchaseOrderLineId: data.purchaseOrderLineId || undefined,
           rate: data.rate,
           quantity: data.quantity,
+          unit: data.unit?.trim() || undefined,
+          ...billTax(data),
           expenseDate: data.expenseDate.toISOString(),
           notes: data.notes || undefined,
           paidAmount: data.paidAmount > 0 ? data.paidAmount : undefined,
@@ -389,6 +457,14 @@ export function AddExpenseModal({
       <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{isEditing ? 'Edit Project Expense' : 'Add Project Expense'}</DialogTitle>
+          {isLocked && (
+            <p className="text-sm text-muted-foreground">
+              This expense is approved and locked. Ask an approver to reopen it to make changes.
+            </p>
+          )}
+          {expense?.status === 'REJECTED' && expense.rejectionReason && (
+            <p className="text-sm text-destructive">Rejected: {expense.rejectionReason}</p>
+          )}
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
@@ -509,7 +585,10 @@ export function AddExpenseModal({
                         control={control}
                         render={({ field }) => (
                           <Select
-                            onValueChange={field.onChange}
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              setValue('purchaseOrderLineId', '');
+                            }}
                             value={field.value}
                           >
                             <SelectTrigger className="cursor-pointer">
@@ -542,8 +621,50 @@ export function AddExpenseModal({
                   </div>
                 )}
 
-                {/* Row 3: Rate/Quantity/Total */}
-                <div className="grid grid-cols-3 gap-4">
+                {/* Row 3: Purchase order line the bill is matched against */}
+                {orderLines.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Purchase Order</Label>
+                    <Controller
+                      name="purchaseOrderLineId"
+                      control={control}
+                      render={({ field }) => (
+                        <Select
+                          value={field.value || NO_ORDER_LINE}
+                          onValueChange={(value) => field.onChange(value === NO_ORDER_LINE ? '' : value)}
+                        >
+                          <SelectTrigger className="cursor-pointer">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_ORDER_LINE} className="cursor-pointer">
+                              Not against an order
+                            </SelectItem>
+                            {orderLines.map((line) => (
+                              <SelectItem key={line.id} value={line.id} className="cursor-pointer">
+                                {line.purchaseOrder.orderNumber} · {line.description}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                    {selectedOrderLine && (
+                      <p className="text-xs text-muted-foreground">
+                        Agreed ₹{Number(selectedOrderLine.rate).toLocaleString('en-IN')}/{selectedOrderLine.unit}
+                        {' · '}
+                        {selectedOrderLine.match.receivedQuantity} of {selectedOrderLine.match.orderedQuantity} received,{' '}
+                        {selectedOrderLine.match.billedQuantity} billed
+                        {Number(watchRate) > 0 && Number(watchRate) !== Number(selectedOrderLine.rate) && (
+                          <span className="text-amber-600"> · Unit price differs from the order</span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Row 4: Rate/Quantity/Unit/Total */}
+                <div className="grid grid-cols-4 gap-4">
                   {/* Daily Rate / Unit Price */}
                   <div className="space-y-2">
                     <Label>
@@ -576,6 +697,17 @@ export function AddExpenseModal({
                     )}
                   </div>
 
+                  {/* Unit */}
+                  <div className="space-y-2">
+                    <Label>Unit</Label>
+                    <Input
+                      placeholder={
+                        selectedExpenseType === 'Labour' ? 'day' : selectedOrderLine?.unit || 'e.g. bag'
+                      }
+                      {...register('unit')}
+                    />
+                  </div>
+
                   {/* Total Amount */}
                   <div className="space-y-2">
                     <Label>Total Amount</Label>
@@ -585,7 +717,76 @@ export function AddExpenseModal({
                   </div>
                 </div>
 
-                {/* Row 4: Paid Amount and Balance */}
+                {/* What the organization has paid for the type */}
+                {subCategoryOptions && can('expenses.view') && (
+                  <RateSuggestions
+                    categoryItemId={watch(subCategoryOptions.field)}
+                    unit={watch('unit') || selectedOrderLine?.unit}
+                    partyId={watchPartyId}
+                    projectId={projectId}
+                    onUseRate={(value) => setValue('rate', value, { shouldValidate: true })}
+                  />
+                )}
+
+                {/* Row 5: GST included in the total */}
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>GST Rate</Label>
+                    <Controller
+                      name="gstRate"
+                      control={control}
+                      render={({ field }) => (
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <SelectTrigger className="cursor-pointer">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)} className="cursor-pointer">
+                                {rate === 0 ? 'No GST' : `${rate}%`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>GST Amount</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder={computedGst.toLocaleString('en-IN')}
+                      disabled={watchGstRate === 0}
+                      {...register('gstAmount')}
+                      aria-invalid={!!errors.gstAmount}
+                    />
+                    {errors.gstAmount && (
+                      <p className="text-sm text-destructive">{errors.gstAmount.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Input Tax Credit</Label>
+                    <Controller
+                      name="itcEligible"
+                      control={control}
+                      render={({ field }) => (
+                        <label className="h-10 flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            disabled={watchGstRate === 0}
+                          />
+                          Can be claimed
+                        </label>
+                      )}
+                    />
+                  </div>
+                </div>
+
+                {/* Row 6: Paid Amount and Balance */}
                 <div className="grid grid-cols-2 gap-4">
                   {/* Paid Amount */}
                   <div className="space-y-2">
@@ -610,7 +811,7 @@ export function AddExpenseModal({
                   </div>
                 </div>
 
-                {/* Row 5: Payment Mode and Remarks */}
+                {/* Row 7: Payment Mode and Remarks */}
                 <div className="grid grid-cols-2 gap-4">
                   {/* Payment Mode */}
                   <div className="space-y-2">
@@ -638,7 +839,7 @@ export function AddExpenseModal({
                   </div>
                 </div>
 
-                {/* Row 6: Combined File Upload */}
+                {/* Row 8: Combined File Upload */}
                 <div className="space-y-3">
                   <Label>Upload Files</Label>
                   <label
@@ -728,7 +929,7 @@ export function AddExpenseModal({
                 </Button>
                 <Button
                   type="submit"
-                  disabled={createMutation.isPending || updateMutation.isPending}
+                  disabled={isLocked || createMutation.isPending || updateMutation.isPending}
                   className="cursor-pointer"
                 >
                   {createMutation.isPending || updateMutation.isPending
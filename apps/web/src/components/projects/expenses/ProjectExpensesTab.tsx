@@ -7,16 +7,30 @@
  * - Sort dropdown (backend sorting)
  * - Add expense button
  * - Expenses table with pagination and loading states
+ * - Approval actions: approve, reject, resubmit, and reopen approved (locked) expenses
  */
 
 import { useState, useCallback } from 'react';
 import { format } from 'date-fns';
 import type { DateRange } from 'react-day-picker';
-import { Plus, DotsThree, PencilSimple, Trash, Eye, CircleNotch, FunnelIcon } from '@phosphor-icons/react';
+import {
+  Plus,
+  DotsThree,
+  PencilSimple,
+  Trash,
+  Eye,
+  CircleNotch,
+  FunnelIcon,
+  ClockCounterClockwise,
+  CheckCircle,
+  XCircle,
+  ArrowClockwise,
+  LockOpen,
+} from '@phosphor-icons/react';
 import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
 
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import {
   Table,
   TableBody,
@@ -48,10 +62,20 @@ import {
 } from '@/components/ui/empty';
 import { TablePagination } from '@/components/ui/table-pagination';
 import { DateRangePicker } from '@/components/ui/custom/date-range-picker';
-import { useExpenses, useDeleteExpense } from '@/lib/hooks/useExpenses';
+import {
+  useExpenses,
+  useDeleteExpense,
+  useApproveExpense,
+  useSubmitExpense,
+  useReopenExpense,
+} from '@/lib/hooks/useExpenses';
 import { useCategoryItems } from '@/lib/hooks/useCategories';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
+import { ExpenseStatusBadge } from '@/components/approvals/ExpenseStatusBadge';
+import { RejectExpenseDialog } from '@/components/approvals/RejectExpenseDialog';
 import { AddExpenseModal } from './AddExpenseModal';
-import type { Expense, ExpenseStatus, ExpenseSortBy, ExpenseSortOrder } from '@/lib/api/expenses';
+import type { Expense, ExpenseSortBy, ExpenseSortOrder } from '@/lib/api/expenses';
 
 // ============================================
 // Types
@@ -75,12 +99,8 @@ function formatCurrency(amount: number): string {
   return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
 }
 
-function getStatusBadgeVariant(status: ExpenseStatus): 'default' | 'secondary' {
-  return status === 'APPROVED' ? 'default' : 'secondary';
-}
-
-function getStatusLabel(status: ExpenseStatus): string {
-  return status === 'APPROVED' ? 'Approved' : 'Pending';
+function getErrorMessage(error: unknown): string | undefined {
+  return isAxiosError(error) ? error.response?.data?.error?.message : undefined;
 }
 
 // ============================================
@@ -88,12 +108,15 @@ function getStatusLabel(status: ExpenseStatus): string {
 // ============================================
 
 export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
+  const can = useCan();
   // State
   const [page, setPage] = useState(1);
   const [sortBy, setSortBy] = useState<ExpenseSortBy>('expenseDate');
   const [sortOrder, setSortOrder] = useState<ExpenseSortOrder>('desc');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [selectedExpense, setSelectedExpense] = useState<Expense | null>(null);
+  const [historyExpenseId, setHistoryExpenseId] = useState<string | null>(null);
+  const [rejectExpenseId, setRejectExpenseId] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
   const [expenseTypeFilter, setExpenseTypeFilter] = useState<string | undefined>(undefined);
 
@@ -114,6 +137,9 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
 
   // Mutations
   const deleteMutation = useDeleteExpense();
+  const approveMutation = useApproveExpense();
+  const submitMutation = useSubmitExpense();
+  const reopenMutation = useReopenExpense();
 
   // Handlers
   const handleAddExpense = useCallback(() => {
@@ -129,12 +155,52 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
   const handleDeleteExpense = useCallback(async (expense: Expense) => {
     try {
       await deleteMutation.mutateAsync(expense.id);
-      toast.success('Expense deleted successfully');
-    } catch {
-      toast.error('Failed to delete expense');
+      toast.success('Expense moved to Trash');
+    } catch (error) {
+      toast.error(getErrorMessage(error) || 'Failed to delete expense');
     }
   }, [deleteMutation]);
 
+  const handleApproveExpense = useCallback(
+    async (expense: Expense) => {
+      try {
+        const updated = await approveMutation.mutateAsync({ id: expense.id });
+        toast.success(
+          updated.status === 'APPROVED'
+            ? 'Expense approved'
+            : `Approved. Waiting on level ${updated.approvalLevel} approval`
+        );
+      } catch (error) {
+        toast.error(getErrorMessage(error) || 'Failed to approve expense');
+      }
+    },
+    [approveMutation]
+  );
+
+  const handleResubmitExpense = useCallback(
+    async (expense: Expense) => {
+      try {
+        await submitMutation.mutateAsync(expense.id);
+        toast.success('Expense resubmitted for approval');
+      } catch (error) {
+        toast.error(getErrorMessage(error) || 'Failed to resubmit expense');
+      }
+    },
+    [submitMutation]
+  );
+
+  const handleReopenExpense = useCallback(
+    async (expense: Expense) => {
+      try {
+        await reopenMutation.mutateAsync({ id: expense.id });
+        toast.success('Expense reopened for editing');
+      } catch (error) {
+        toast.error(getErrorMessage(error) || 'Failed to reopen expense');
+      }
+    },
+    [reopenMutation]
+  );
+
   const handlePageChange = useCallback((newPage: number) => {
     setPage(newPage);
   }, []);
@@ -245,10 +311,12 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
         </div>
 
         {/* Add Expense Button */}
-        <Button onClick={handleAddExpense} className="cursor-pointer">
-          <Plus className="mr-2 h-4 w-4" />
-          Add expense
-        </Button>
+        {can('expenses.create') && (
+          <Button onClick={handleAddExpense} className="cursor-pointer">
+            <Plus className="mr-2 h-4 w-4" />
+            Add expense
+          </Button>
+        )}
       </div>
 
       {/* Expenses Table */}
@@ -281,12 +349,14 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
                 : 'Get started by adding your first expense'}
             </EmptyDescription>
           </EmptyHeader>
-          <EmptyContent>
-            <Button onClick={handleAddExpense} className="cursor-pointer">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Expense
-            </Button>
-          </EmptyContent>
+          {can('expenses.create') && (
+            <EmptyContent>
+              <Button onClick={handleAddExpense} className="cursor-pointer">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Expense
+              </Button>
+            </EmptyContent>
+          )}
         </Empty>
       ) : (
         <div className="relative rounded-lg border overflow-hidden bg-card">
@@ -311,7 +381,8 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
               {expenses.map((expense) => {
                 const totalAmount = expense.rate * expense.quantity;
                 const expenseTypeName = expense.expenseType?.name ?? 'Unknown';
-                const paidAmount = expense.payments?.reduce((sum, p) => sum + Number(p.amount), 0) ?? 0;
+                // Paid is what payments to the party have been allocated to this expense
+                const paidAmount = expense.allocations?.reduce((sum, a) => sum + Number(a.amount), 0) ?? 0;
                 return (
                   <TableRow key={expense.id}>
                     <TableCell className="text-sm">
@@ -327,9 +398,7 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
                       {formatCurrency(paidAmount)}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={getStatusBadgeVariant(expense.status)}>
-                        {getStatusLabel(expense.status)}
-                      </Badge>
+                      <ExpenseStatusBadge expense={expense} />
                     </TableCell>
                     <TableCell>
                       <DropdownMenu>
@@ -346,20 +415,70 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
                             <Eye className="h-4 w-4 mr-2" />
                             View
                           </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => handleEditExpense(expense)}
-                            className="cursor-pointer"
-                          >
-                            <PencilSimple className="h-4 w-4 mr-2" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => handleDeleteExpense(expense)}
-                            className="cursor-pointer text-destructive focus:text-destructive"
-                          >
-                            <Trash className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
+                          {/* Approved expenses are locked until reopened */}
+                          {expense.status !== 'APPROVED' && (
+                            <DropdownMenuItem
+                              onClick={() => handleEditExpense(expense)}
+                              className="cursor-pointer"
+                            >
+                              <PencilSimple className="h-4 w-4 mr-2" />
+                              Edit
+                            </DropdownMenuItem>
+                          )}
+                          {expense.status === 'PENDING' && can('expenses.approve') && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => handleApproveExpense(expense)}
+                                className="cursor-pointer"
+                              >
+                                <CheckCircle className="h-4 w-4 mr-2" />
+                                Approve
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setRejectExpenseId(expense.id)}
+                                className="cursor-pointer"
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Reject
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {expense.status === 'REJECTED' && can('expenses.edit') && (
+                            <DropdownMenuItem
+                              onClick={() => handleResubmitExpense(expense)}
+                              className="cursor-pointer"
+                            >
+                              <ArrowClockwise className="h-4 w-4 mr-2" />
+                              Resubmit
+                            </DropdownMenuItem>
+                          )}
+                          {expense.status === 'APPROVED' && can('expenses.approve') && (
+                            <DropdownMenuItem
+                              onClick={() => handleReopenExpense(expense)}
+                              className="cursor-pointer"
+                            >
+                              <LockOpen className="h-4 w-4 mr-2" />
+                              Reopen
+                            </DropdownMenuItem>
+                          )}
+                          {can('audit.view') && (
+                            <DropdownMenuItem
+                              onClick={() => setHistoryExpenseId(expense.id)}
+                              className="cursor-pointer"
+                            >
+                              <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                              History
+                            </DropdownMenuItem>
+                          )}
+                          {expense.status !== 'APPROVED' && (
+                            <DropdownMenuItem
+                              onClick={() => handleDeleteExpense(expense)}
+                              className="cursor-pointer text-destructive focus:text-destructive"
+                            >
+                              <Trash className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -391,6 +510,21 @@ export function ProjectExpensesTab({ projectId }: ProjectExpensesTabProps) {
         projectId={projectId}
         expense={selectedExpense}
       />
+
+      {/* Reject with reason */}
+      <RejectExpenseDialog
+        expenseId={rejectExpenseId}
+        onOpenChange={(open) => !open && setRejectExpenseId(null)}
+      />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyExpenseId}
+        onOpenChange={(open) => !open && setHistoryExpenseId(null)}
+        entityType="EXPENSE"
+        entityId={historyExpenseId}
+        title="Expense history"
+      />
     </div>
   );
 }
@@ -0,0 +1,149 @@
+/**
+ * Generate Wage Bill Dialog
+ *
+ * Pay a labour party's unpaid attendance for a week. The bill is posted as
+ * labour expenses against the party, one for each stage and labour type.
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+import { addDays, format, startOfWeek } from 'date-fns';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useParties } from '@/lib/hooks/useParties';
+import { useCreateWageBill } from '@/lib/hooks/useLabour';
+import { formatCurrency, toDay } from './format';
+import type { WageBill } from '@/lib/api/labour';
+
+// ============================================
+// Types
+// ============================================
+
+interface GenerateWageBillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  onGenerated?: (bill: WageBill) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function GenerateWageBillDialog({
+  open,
+  onOpenChange,
+  projectId,
+  onGenerated,
+}: GenerateWageBillDialogProps) {
+  const [partyId, setPartyId] = useState('');
+  const [weekStart, setWeekStart] = useState<Date | undefined>();
+
+  const { data: partiesData } = useParties({ type: 'LABOUR', limit: 100 });
+  const createMutation = useCreateWageBill();
+
+  const parties = partiesData?.items ?? [];
+
+  // Reset when opened, to last week
+  useEffect(() => {
+    if (!open) return;
+
+    setPartyId('');
+    setWeekStart(addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), -7));
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!weekStart) return;
+
+    try {
+      const bill = await createMutation.mutateAsync({
+        projectId,
+        partyId,
+        weekStart: toDay(weekStart),
+      });
+      toast.success(`Wage bill of ${formatCurrency(Number(bill.totalAmount))} posted`);
+      onOpenChange(false);
+      onGenerated?.(bill);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to generate wage bill');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Generate Wage Bill</DialogTitle>
+          <DialogDescription>
+            Pays the party's unpaid attendance for the week as labour expenses
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Labour Party *</Label>
+            <Select value={partyId} onValueChange={setPartyId}>
+              <SelectTrigger className="cursor-pointer">
+                <SelectValue placeholder="Select party" />
+              </SelectTrigger>
+              <SelectContent>
+                {parties.map((party) => (
+                  <SelectItem key={party.id} value={party.id} className="cursor-pointer">
+                    {party.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Week Starting *</Label>
+            <DatePicker value={weekStart} onChange={setWeekStart} />
+            {weekStart && (
+              <p className="text-xs text-muted-foreground">
+                {format(weekStart, 'd MMM')} to {format(addDays(weekStart, 6), 'd MMM yyyy')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={createMutation.isPending || !partyId || !weekStart}
+            className="cursor-pointer"
+          >
+            {createMutation.isPending ? 'Generating...' : 'Generate Wage Bill'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
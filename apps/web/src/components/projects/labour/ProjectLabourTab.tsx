@@ -0,0 +1,534 @@
+/**
+ * Project Labour Tab
+ *
+ * Labour at a project site:
+ * - Daily muster roll of each party's workers, with overtime and night shifts
+ * - Workers and their rate cards
+ * - Weekly wage bills, posted as labour expenses
+ * - Man-days worked on each stage against the BOQ
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { Plus, PencilSimple, UsersThree, Receipt, Lock } from '@phosphor-icons/react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import {
+  useAttendance,
+  useLabourWorkers,
+  useManDays,
+  useMarkAttendance,
+  useWageBills,
+} from '@/lib/hooks/useLabour';
+import { useParties } from '@/lib/hooks/useParties';
+import { useStagesByProject } from '@/lib/hooks/useStages';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { WorkerFormDialog } from './WorkerFormDialog';
+import { GenerateWageBillDialog } from './GenerateWageBillDialog';
+import { WageBillDialog } from './WageBillDialog';
+import {
+  ATTENDANCE_STATUS_LABELS,
+  formatCurrency,
+  formatManDays,
+  formatPeriod,
+  toDay,
+} from './format';
+import type { AttendanceStatus, LabourWorker, WageBill } from '@/lib/api/labour';
+
+// ============================================
+// Types
+// ============================================
+
+interface ProjectLabourTabProps {
+  projectId: string;
+}
+
+interface DayDraft {
+  status: AttendanceStatus;
+  overtimeHours: string;
+  isNightShift: boolean;
+}
+
+const ALL_PARTIES = 'all';
+const NO_STAGE = 'none';
+const NOT_MARKED = 'unmarked';
+
+// A worker marked for the first time is present on a day shift
+const NEW_DRAFT: DayDraft = { status: 'PRESENT', overtimeHours: '0', isNightShift: false };
+
+// ============================================
+// Component
+// ============================================
+
+export function ProjectLabourTab({ projectId }: ProjectLabourTabProps) {
+  const can = useCan();
+  const canMark = can('labour.attendance');
+  const canManage = can('labour.manage');
+
+  const [date, setDate] = useState<Date | undefined>(new Date());
+  const [partyId, setPartyId] = useState(ALL_PARTIES);
+  const [stageId, setStageId] = useState(NO_STAGE);
+  const [drafts, setDrafts] = useState<Partial<Record<string, DayDraft>>>({});
+  const [isWorkerFormOpen, setIsWorkerFormOpen] = useState(false);
+  const [editingWorker, setEditingWorker] = useState<LabourWorker | null>(null);
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+  const [viewingBill, setViewingBill] = useState<WageBill | null>(null);
+
+  const day = date ? toDay(date) : '';
+  const partyFilter = partyId === ALL_PARTIES ? undefined : partyId;
+
+  const { data: partiesData } = useParties({ type: 'LABOUR', limit: 100 });
+  const { data: stages = [] } = useStagesByProject(projectId);
+  const { data: workers = [], isLoading: isWorkersLoading } = useLabourWorkers({
+    partyId: partyFilter,
+  });
+  const { data: attendanceData } = useAttendance(day ? projectId : '', {
+    from: day,
+    to: day,
+    partyId: partyFilter,
+  });
+  const { data: wageBills = [], isLoading: isWageBillsLoading } = useWageBills(projectId);
+  const { data: manDays = [], isLoading: isManDaysLoading } = useManDays(projectId);
+  const markMutation = useMarkAttendance();
+
+  const parties = partiesData?.items ?? [];
+  const attendance = useMemo(() => attendanceData ?? [], [attendanceData]);
+  const marked = useMemo(
+    () => new Map(attendance.map((entry) => [entry.workerId, entry])),
+    [attendance]
+  );
+
+  // Start the day's drafts from what is already on the muster roll
+  useEffect(() => {
+    setDrafts(
+      Object.fromEntries(
+        attendance.map((entry) => [
+          entry.workerId,
+          {
+            status: entry.status,
+            overtimeHours: String(Number(entry.overtimeHours)),
+            isNightShift: entry.isNightShift,
+          },
+        ])
+      )
+    );
+    const stageIds = new Set(attendance.map((entry) => entry.stageId));
+    if (stageIds.size === 1) {
+      setStageId([...stageIds][0] ?? NO_STAGE);
+    }
+  }, [attendance]);
+
+  const setDraft = (workerId: string, changes: Partial<DayDraft>) => {
+    setDrafts((current) => ({
+      ...current,
+      [workerId]: { ...(current[workerId] ?? NEW_DRAFT), ...changes },
+    }));
+  };
+
+  const handleSave = async () => {
+    // Paid days are locked, so only the rest of the day is sent
+    const entries = Object.entries(drafts).flatMap(([workerId, draft]) =>
+      draft && !marked.get(workerId)?.wageBillId
+        ? [
+            {
+              workerId,
+              status: draft.status,
+              overtimeHours: draft.status === 'ABSENT' ? 0 : Number(draft.overtimeHours) || 0,
+              isNightShift: draft.status !== 'ABSENT' && draft.isNightShift,
+            },
+          ]
+        : []
+    );
+    if (!day || entries.length === 0) {
+      toast.error('Mark at least one worker');
+      return;
+    }
+
+    try {
+      await markMutation.mutateAsync({
+        projectId,
+        stageId: stageId === NO_STAGE ? null : stageId,
+        date: day,
+        entries,
+      });
+      toast.success(`Attendance of ${entries.length} workers saved`);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to save attendance');
+    }
+  };
+
+  const openWorkerForm = (worker: LabourWorker | null) => {
+    setEditingWorker(worker);
+    setIsWorkerFormOpen(true);
+  };
+
+  const dayTotal = attendance.reduce((sum, entry) => sum + entry.wageAmount, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Muster roll */}
+      <div className="rounded-lg border bg-card">
+        <div className="flex items-center justify-between p-5 pb-4">
+          <div>
+            <h3 className="font-medium">Muster Roll</h3>
+            <p className="text-sm text-muted-foreground">
+              Daily attendance of each party's workers at site
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openWorkerForm(null)}
+                className="cursor-pointer"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Worker
+              </Button>
+            )}
+            {canMark && (
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={markMutation.isPending || !day}
+                className="cursor-pointer"
+              >
+                {markMutation.isPending ? 'Saving...' : 'Save Attendance'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 px-5 pb-4">
+          <DatePicker value={date} onChange={setDate} />
+          <Select value={partyId} onValueChange={setPartyId}>
+            <SelectTrigger className="cursor-pointer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PARTIES} className="cursor-pointer">
+                All labour parties
+              </SelectItem>
+              {parties.map((party) => (
+                <SelectItem key={party.id} value={party.id} className="cursor-pointer">
+                  {party.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={stageId} onValueChange={setStageId}>
+            <SelectTrigger className="cursor-pointer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_STAGE} className="cursor-pointer">
+                No stage
+              </SelectItem>
+              {stages.map((stage) => (
+                <SelectItem key={stage.id} value={stage.id} className="cursor-pointer">
+                  {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isWorkersLoading ? (
+          <div className="space-y-2 px-5 pb-5">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : workers.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 border-t px-5 py-8 text-center">
+            <UsersThree className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              No workers yet. Add the workers of a labour party with their rate cards.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>WORKER</TableHead>
+                <TableHead className="w-40">STATUS</TableHead>
+                <TableHead className="w-28">OT HOURS</TableHead>
+                <TableHead className="w-20">NIGHT</TableHead>
+                <TableHead className="text-right">WAGE</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {workers.map((worker) => {
+                const entry = marked.get(worker.id);
+                const draft = drafts[worker.id];
+                const isLocked = !canMark || !!entry?.wageBillId;
+                return (
+                  <TableRow key={worker.id}>
+                    <TableCell>
+                      <p className="text-sm font-medium">{worker.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {worker.party.name}
+                        {worker.labourType ? ` · ${worker.labourType.name}` : ''} ·{' '}
+                        {formatCurrency(Number(worker.dailyRate))}/day
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={draft?.status ?? NOT_MARKED}
+                        onValueChange={(value) =>
+                          setDraft(worker.id, { status: value as AttendanceStatus })
+                        }
+                        disabled={isLocked}
+                      >
+                        <SelectTrigger className="h-8 cursor-pointer">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {!draft && (
+                            <SelectItem value={NOT_MARKED} className="cursor-pointer">
+                              Not marked
+                            </SelectItem>
+                          )}
+                          {Object.entries(ATTENDANCE_STATUS_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value} className="cursor-pointer">
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        className="h-8"
+                        value={draft?.overtimeHours ?? ''}
+                        onChange={(event) =>
+                          setDraft(worker.id, { overtimeHours: event.target.value })
+                        }
+                        disabled={isLocked || !draft || draft.status === 'ABSENT'}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={draft?.isNightShift ?? false}
+                        onCheckedChange={(checked) =>
+                          setDraft(worker.id, { isNightShift: checked === true })
+                        }
+                        disabled={isLocked || !draft || draft.status === 'ABSENT'}
+                        className="cursor-pointer"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {entry ? (
+                        <span className="inline-flex items-center gap-1">
+                          {entry.wageBillId && (
+                            <Lock className="h-3 w-3 text-muted-foreground" aria-label="Paid" />
+                          )}
+                          {formatCurrency(entry.wageAmount)}
+                        </span>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {canManage && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openWorkerForm(worker)}
+                          className="h-8 w-8 cursor-pointer"
+                        >
+                          <PencilSimple className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              <TableRow>
+                <TableCell colSpan={4} className="text-sm text-muted-foreground">
+                  {date ? format(date, 'MMM d, yyyy') : ''}
+                </TableCell>
+                <TableCell className="text-right text-sm font-medium">
+                  {formatCurrency(dayTotal)}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Wage bills */}
+      <div className="rounded-lg border bg-card">
+        <div className="flex items-center justify-between p-5 pb-4">
+          <div>
+            <h3 className="font-medium">Wage Bills</h3>
+            <p className="text-sm text-muted-foreground">
+              Weekly wages of each party, posted as labour expenses
+            </p>
+          </div>
+          {canManage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsGenerateOpen(true)}
+              className="cursor-pointer"
+            >
+              <Receipt className="mr-2 h-4 w-4" />
+              Generate Wage Bill
+            </Button>
+          )}
+        </div>
+
+        {isWageBillsLoading ? (
+          <div className="space-y-2 px-5 pb-5">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : wageBills.length === 0 ? (
+          <p className="border-t px-5 py-8 text-center text-sm text-muted-foreground">
+            No wage bills yet. Generate one from a week of attendance.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>WEEK</TableHead>
+                <TableHead>PARTY</TableHead>
+                <TableHead className="text-right">MAN-DAYS</TableHead>
+                <TableHead className="text-right">OT HOURS</TableHead>
+                <TableHead className="text-right">AMOUNT</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {wageBills.map((bill) => (
+                <TableRow key={bill.id}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      onClick={() => setViewingBill(bill)}
+                      className="text-sm font-medium hover:underline cursor-pointer"
+                    >
+                      {formatPeriod(bill.periodStart, bill.periodEnd)}
+                    </button>
+                  </TableCell>
+                  <TableCell className="text-sm">{bill.party.name}</TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatManDays(Number(bill.manDays))}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatManDays(Number(bill.overtimeHours))}
+                  </TableCell>
+                  <TableCell className="text-right text-sm font-medium">
+                    {formatCurrency(Number(bill.totalAmount))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Man-days against BOQ */}
+      <div className="rounded-lg border bg-card">
+        <div className="p-5 pb-4">
+          <h3 className="font-medium">Man-days vs BOQ</h3>
+          <p className="text-sm text-muted-foreground">
+            Days worked on each stage against the labour planned in the BOQ
+          </p>
+        </div>
+
+        {isManDaysLoading ? (
+          <div className="space-y-2 px-5 pb-5">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : manDays.length === 0 ? (
+          <p className="border-t px-5 py-8 text-center text-sm text-muted-foreground">
+            Nothing to compare yet. Plan BOQ labour items in man-days to compare them.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>STAGE</TableHead>
+                <TableHead className="text-right">PLANNED</TableHead>
+                <TableHead className="text-right">WORKED</TableHead>
+                <TableHead className="text-right">VARIANCE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {manDays.map((row) => (
+                <TableRow key={row.stageId ?? NO_STAGE}>
+                  <TableCell className="text-sm font-medium">{row.stageName}</TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatManDays(row.plannedManDays)}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatManDays(row.actualManDays)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right text-sm font-medium ${row.varianceManDays > 0 ? 'text-red-600' : 'text-green-600'}`}
+                  >
+                    {row.varianceManDays > 0 ? '+' : ''}
+                    {formatManDays(row.varianceManDays)}
+                    {row.variancePercent !== null && (
+                      <span className="ml-1 text-xs">({row.variancePercent.toFixed(1)}%)</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Add / Edit Worker */}
+      <WorkerFormDialog
+        open={isWorkerFormOpen}
+        onOpenChange={setIsWorkerFormOpen}
+        worker={editingWorker}
+        defaultPartyId={partyFilter}
+      />
+
+      {/* Generate Wage Bill */}
+      <GenerateWageBillDialog
+        open={isGenerateOpen}
+        onOpenChange={setIsGenerateOpen}
+        projectId={projectId}
+        onGenerated={setViewingBill}
+      />
+
+      {/* Wage Bill */}
+      <WageBillDialog bill={viewingBill} onOpenChange={(open) => !open && setViewingBill(null)} />
+    </div>
+  );
+}
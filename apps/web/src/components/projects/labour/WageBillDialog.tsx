@@ -0,0 +1,122 @@
+/**
+ * Wage Bill Dialog
+ *
+ * A wage bill's workers with the rate card each was paid on, and the labour
+ * expenses it was posted as.
+ */
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ExpenseStatusBadge } from '@/components/approvals/ExpenseStatusBadge';
+import { formatCurrency, formatManDays, formatPeriod } from './format';
+import type { WageBill } from '@/lib/api/labour';
+
+// ============================================
+// Types
+// ============================================
+
+interface WageBillDialogProps {
+  bill: WageBill | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function WageBillDialog({ bill, onOpenChange }: WageBillDialogProps) {
+  return (
+    <Dialog open={!!bill} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{bill ? `${bill.party.name} Wage Bill` : 'Wage Bill'}</DialogTitle>
+          <DialogDescription>
+            {bill
+              ? `${formatPeriod(bill.periodStart, bill.periodEnd)} · ${formatManDays(Number(bill.manDays))} man-days · ${formatCurrency(Number(bill.totalAmount))}`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {bill && (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>WORKER</TableHead>
+                  <TableHead className="text-right">DAYS</TableHead>
+                  <TableHead className="text-right">OT HOURS</TableHead>
+                  <TableHead className="text-right">NIGHTS</TableHead>
+                  <TableHead className="text-right">DAILY RATE</TableHead>
+                  <TableHead className="text-right">AMOUNT</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bill.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="text-sm font-medium">{line.worker.name}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatManDays(Number(line.manDays))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatManDays(Number(line.overtimeHours))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{line.nightShifts}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatCurrency(Number(line.dailyRate))}
+                      <p className="text-xs text-muted-foreground">
+                        OT ×{Number(line.overtimeMultiplier)} · night ×
+                        {Number(line.nightMultiplier)}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right text-sm font-medium">
+                      {formatCurrency(Number(line.amount))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Posted as</h4>
+              <div className="divide-y rounded-lg border">
+                {bill.expenses.map((expense) => (
+                  <div
+                    key={expense.id}
+                    className="flex items-center justify-between gap-4 px-4 py-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{expense.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {expense.stage?.name ?? 'No stage'}
+                        {expense.labourType ? ` · ${expense.labourType.name}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <ExpenseStatusBadge expense={expense} />
+                      <span className="text-sm font-medium">
+                        {formatCurrency(Number(expense.rate) * Number(expense.quantity))}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * Worker Form Dialog
+ *
+ * Add a worker to a labour party, or change one, with their rate card:
+ * - Daily rate for a full shift of the given hours
+ * - Overtime multiplier on the hourly rate, and the night shift multiplier
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useParties } from '@/lib/hooks/useParties';
+import { useCategoryItems } from '@/lib/hooks/useCategories';
+import { useCreateWorker, useUpdateWorker } from '@/lib/hooks/useLabour';
+import type { LabourWorker } from '@/lib/api/labour';
+
+// ============================================
+// Types
+// ============================================
+
+interface WorkerFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Worker to change; a new worker is added when not given
+  worker?: LabourWorker | null;
+  defaultPartyId?: string;
+}
+
+const NO_LABOUR_TYPE = 'none';
+
+// ============================================
+// Component
+// ============================================
+
+export function WorkerFormDialog({
+  open,
+  onOpenChange,
+  worker,
+  defaultPartyId,
+}: WorkerFormDialogProps) {
+  const isEditing = !!worker;
+
+  const [partyId, setPartyId] = useState('');
+  const [labourTypeItemId, setLabourTypeItemId] = useState(NO_LABOUR_TYPE);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [dailyRate, setDailyRate] = useState('');
+  const [shiftHours, setShiftHours] = useState('8');
+  const [overtimeMultiplier, setOvertimeMultiplier] = useState('1.5');
+  const [nightMultiplier, setNightMultiplier] = useState('2');
+  const [isActive, setIsActive] = useState(true);
+
+  const { data: partiesData } = useParties({ type: 'LABOUR', limit: 100 });
+  const { data: labourTypes = [] } = useCategoryItems('labour_type');
+  const createMutation = useCreateWorker();
+  const updateMutation = useUpdateWorker();
+
+  const parties = partiesData?.items ?? [];
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  // Reset when opened
+  useEffect(() => {
+    if (!open) return;
+
+    setPartyId(worker?.partyId ?? defaultPartyId ?? '');
+    setLabourTypeItemId(worker?.labourTypeItemId ?? NO_LABOUR_TYPE);
+    setName(worker?.name ?? '');
+    setPhone(worker?.phone ?? '');
+    setDailyRate(worker ? String(worker.dailyRate) : '');
+    setShiftHours(worker ? String(worker.shiftHours) : '8');
+    setOvertimeMultiplier(worker ? String(worker.overtimeMultiplier) : '1.5');
+    setNightMultiplier(worker ? String(worker.nightMultiplier) : '2');
+    setIsActive(worker?.isActive ?? true);
+  }, [open, worker, defaultPartyId]);
+
+  const handleSubmit = async () => {
+    const rateCard = {
+      dailyRate: Number(dailyRate),
+      shiftHours: Number(shiftHours),
+      overtimeMultiplier: Number(overtimeMultiplier),
+      nightMultiplier: Number(nightMultiplier),
+    };
+    if (
+      rateCard.dailyRate <= 0 ||
+      rateCard.shiftHours <= 0 ||
+      rateCard.overtimeMultiplier <= 0 ||
+      rateCard.nightMultiplier <= 0
+    ) {
+      toast.error('Enter a valid rate card');
+      return;
+    }
+
+    const details = {
+      labourTypeItemId: labourTypeItemId === NO_LABOUR_TYPE ? null : labourTypeItemId,
+      name: name.trim(),
+      phone: phone.trim() || null,
+      ...rateCard,
+    };
+
+    try {
+      if (worker) {
+        await updateMutation.mutateAsync({ id: worker.id, data: { ...details, isActive } });
+        toast.success(`${details.name} updated`);
+      } else {
+        await createMutation.mutateAsync({ partyId, ...details });
+        toast.success(`${details.name} added`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to save worker');
+    }
+  };
+
+  const isIncomplete = !partyId || !name.trim() || !dailyRate;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Worker' : 'Add Worker'}</DialogTitle>
+          <DialogDescription>
+            Wages are worked out from the rate card for each day on the muster roll
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Labour Party *</Label>
+              <Select value={partyId} onValueChange={setPartyId} disabled={isEditing}>
+                <SelectTrigger className="cursor-pointer">
+                  <SelectValue placeholder="Select party" />
+                </SelectTrigger>
+                <SelectContent>
+                  {parties.map((party) => (
+                    <SelectItem key={party.id} value={party.id} className="cursor-pointer">
+                      {party.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Labour Type</Label>
+              <Select value={labourTypeItemId} onValueChange={setLabourTypeItemId}>
+                <SelectTrigger className="cursor-pointer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LABOUR_TYPE} className="cursor-pointer">
+                    None
+                  </SelectItem>
+                  {labourTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id} className="cursor-pointer">
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="workerName">Name *</Label>
+              <Input
+                id="workerName"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="workerPhone">Phone</Label>
+              <Input
+                id="workerPhone"
+                value={phone}
+                onChange={(event) => setPhone(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="workerDailyRate">Daily Rate *</Label>
+              <Input
+                id="workerDailyRate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={dailyRate}
+                onChange={(event) => setDailyRate(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="workerShiftHours">Shift Hours</Label>
+              <Input
+                id="workerShiftHours"
+                type="number"
+                step="0.5"
+                min="0"
+                value={shiftHours}
+                onChange={(event) => setShiftHours(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="workerOvertime">Overtime Multiplier</Label>
+              <Input
+                id="workerOvertime"
+                type="number"
+                step="0.05"
+                min="0"
+                value={overtimeMultiplier}
+                onChange={(event) => setOvertimeMultiplier(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="workerNight">Night Shift Multiplier</Label>
+              <Input
+                id="workerNight"
+                type="number"
+                step="0.05"
+                min="0"
+                value={nightMultiplier}
+                onChange={(event) => setNightMultiplier(event.target.value)}
+              />
+            </div>
+          </div>
+
+          {isEditing && (
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="workerActive">Active</Label>
+                <p className="text-xs text-muted-foreground">
+                  Inactive workers are left off the muster roll
+                </p>
+              </div>
+              <Switch
+                id="workerActive"
+                checked={isActive}
+                onCheckedChange={setIsActive}
+                className="cursor-pointer"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isPending || isIncomplete}
+            className="cursor-pointer"
+          >
+            {isPending ? 'Saving...' : isEditing ? 'Save Worker' : 'Add Worker'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Labour formatting helpers
+ */
+
+import { format } from 'date-fns';
+import type { AttendanceStatus } from '@/lib/api/labour';
+
+export function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+export function formatManDays(manDays: number): string {
+  return manDays.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+}
+
+/**
+ * A calendar day as the API takes it, YYYY-MM-DD in local time
+ */
+export function toDay(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * A wage bill's week, e.g. "11 May – 17 May 2026"
+ */
+export function formatPeriod(periodStart: string, periodEnd: string): string {
+  // Days are stored as midnight UTC, so read them back without the local offset
+  const start = new Date(periodStart.slice(0, 10) + 'T00:00:00');
+  const end = new Date(periodEnd.slice(0, 10) + 'T00:00:00');
+  return `${format(start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`;
+}
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  PRESENT: 'Present',
+  HALF_DAY: 'Half day',
+  ABSENT: 'Absent',
+};
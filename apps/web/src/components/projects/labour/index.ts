@@ -0,0 +1,10 @@
+/**
+ * Labour Components
+ *
+ * Re-exports for labour attendance components.
+ */
+
+export { ProjectLabourTab } from './ProjectLabourTab';
+export { WorkerFormDialog } from './WorkerFormDialog';
+export { GenerateWageBillDialog } from './GenerateWageBillDialog';
+export { WageBillDialog } from './WageBillDialog';
@@ -4,6 +4,7 @@
  * Displays project overview with:
  * - Project Financials card (budget and expenses progress)
  * - Timeline card (days left, progress percentage)
+ * - Receivables card (outstanding on the client payment schedule)
  * - Project Stages section
  * - Project Details card
  * - Quick Links card
@@ -27,6 +28,8 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useStagesByProject } from '@/lib/hooks/useStages';
+import { usePaymentSchedule } from '@/lib/hooks/useInstallments';
+import { useCan } from '@/lib/hooks/usePermissions';
 import type { Project, ProjectStats } from '@/lib/api/projects';
 import type { Stage, StageStatus } from '@/lib/api/stages';
 
@@ -142,6 +145,68 @@ function ProjectFinancialsCard({
   );
 }
 
+function ReceivablesCard({ projectId }: { projectId: string }) {
+  const { data: schedule, isLoading } = usePaymentSchedule(projectId);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <div className="h-6 w-32 bg-neutral-100 rounded animate-pulse" />
+        </CardHeader>
+        <CardContent>
+          <div className="h-16 bg-neutral-100 rounded animate-pulse" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!schedule || schedule.installments.length === 0) return null;
+
+  const { summary } = schedule;
+  const nextInstallment = schedule.installments.find((installment) => installment.outstanding > 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-semibold">Receivables</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className={`text-2xl font-bold ${summary.outstandingReceivable > 0 ? 'text-amber-600' : ''}`}>
+            {formatCurrency(summary.outstandingReceivable)}
+          </p>
+          <p className="text-sm text-muted-foreground">Outstanding from client</p>
+        </div>
+
+        {summary.overdueAmount > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Overdue</span>
+            <span className="font-medium text-red-600">{formatCurrency(summary.overdueAmount)}</span>
+          </div>
+        )}
+
+        {nextInstallment && (
+          <div className="pt-2 border-t space-y-1">
+            <p className="text-xs text-muted-foreground">Next installment</p>
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium truncate">{nextInstallment.name}</span>
+              <span className="font-medium">{formatCurrency(nextInstallment.outstanding)}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {nextInstallment.dueDate
+                ? `Due ${format(new Date(nextInstallment.dueDate), 'MMM d, yyyy')}`
+                : nextInstallment.stage && !nextInstallment.isDue
+                  ? `On completion of ${nextInstallment.stage.name}`
+                  : 'Due now'}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function TimelineCard({ project }: { project: Project }) {
   const endDate = project.endDate ? new Date(project.endDate) : null;
   const today = new Date();
@@ -369,6 +434,8 @@ function QuickLinksCard() {
 // ============================================
 
 export function ProjectOverviewTab({ project, stats, isStatsLoading, onNavigateToStages }: ProjectOverviewTabProps) {
+  const can = useCan();
+
   const handleViewAllStages = () => {
     if (onNavigateToStages) {
       onNavigateToStages();
@@ -391,6 +458,9 @@ export function ProjectOverviewTab({ project, stats, isStatsLoading, onNavigateT
         {/* Timeline */}
         <TimelineCard project={project} />
 
+        {/* Receivables */}
+        {can('payments.view') && <ReceivablesCard projectId={project.id} />}
+
         {/* Project Details */}
         <ProjectDetailsCard project={project} />
 
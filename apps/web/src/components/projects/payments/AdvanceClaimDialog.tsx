@@ -0,0 +1,389 @@
+/**
+ * Advance Claim Dialog
+ *
+ * Log or edit an expense a team member paid from their cash advance, with the
+ * bills behind it. Members log their own claims; those who manage advances can
+ * log a claim for any project member.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+import { Paperclip, X, DownloadSimple } from '@phosphor-icons/react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useProjectMembers } from '@/lib/hooks/useMemberAdvances';
+import {
+  useAdvanceClaim,
+  useCreateAdvanceClaim,
+  useUpdateAdvanceClaim,
+  useUploadClaimAttachment,
+  useDeleteClaimAttachment,
+} from '@/lib/hooks/useAdvanceClaims';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { getClaimAttachmentDownload } from '@/lib/api/advance-claims';
+
+// ============================================
+// Constants
+// ============================================
+
+const ACCEPTED_FILES = 'image/jpeg,image/png,image/webp,application/pdf';
+
+// ============================================
+// Schema
+// ============================================
+
+const claimFormSchema = z.object({
+  memberId: z.string().optional(),
+  description: z.string().trim().min(1, 'Description is required'),
+  amount: z.coerce.number().positive('Enter an amount greater than zero'),
+  expenseDate: z.date({ required_error: 'Date is required' }),
+  notes: z.string().optional(),
+});
+
+type ClaimFormData = z.infer<typeof claimFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface AdvanceClaimDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  /** Member to log the claim for, e.g. the one selected in the payments tab */
+  preselectedMemberId?: string;
+  /** Claim to edit; a new claim is logged when not set */
+  claimId?: string | null;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function AdvanceClaimDialog({
+  open,
+  onOpenChange,
+  projectId,
+  preselectedMemberId,
+  claimId,
+}: AdvanceClaimDialogProps) {
+  const can = useCan();
+  const canManage = can('advances.manage');
+  const isEditing = !!claimId;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+
+  const { data: projectMembers = [] } = useProjectMembers(canManage ? projectId : '');
+  const { data: claim } = useAdvanceClaim(claimId ?? '');
+  const createMutation = useCreateAdvanceClaim();
+  const updateMutation = useUpdateAdvanceClaim();
+  const uploadMutation = useUploadClaimAttachment();
+  const deleteAttachmentMutation = useDeleteClaimAttachment();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ClaimFormData>({
+    resolver: zodResolver(claimFormSchema),
+    defaultValues: {
+      memberId: '',
+      description: '',
+      amount: undefined,
+      expenseDate: new Date(),
+      notes: '',
+    },
+  });
+
+  // Reset form when dialog opens or the claim being edited loads
+  useEffect(() => {
+    if (!open) return;
+    setPendingFiles([]);
+    reset({
+      memberId: claim?.memberId ?? preselectedMemberId ?? '',
+      description: claim?.description ?? '',
+      amount: claim ? Number(claim.amount) : undefined,
+      expenseDate: claim ? new Date(claim.expenseDate) : new Date(),
+      notes: claim?.notes ?? '',
+    });
+  }, [open, claim, preselectedMemberId, reset]);
+
+  const uploadFiles = async (id: string, files: File[]) => {
+    for (const file of files) {
+      await uploadMutation.mutateAsync({ claimId: id, file });
+    }
+  };
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const selected = Array.from(files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    if (!claimId) {
+      setPendingFiles((current) => [...current, ...selected]);
+      return;
+    }
+
+    try {
+      await uploadFiles(claimId, selected);
+      toast.success(selected.length === 1 ? 'Bill attached' : 'Bills attached');
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to attach bill');
+    }
+  };
+
+  const handleRemoveAttachment = async (attachmentId: string) => {
+    if (!claimId) return;
+    try {
+      await deleteAttachmentMutation.mutateAsync({ claimId, attachmentId });
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to remove bill');
+    }
+  };
+
+  const handleDownload = async (attachmentId: string) => {
+    if (!claimId) return;
+    try {
+      const { downloadUrl } = await getClaimAttachmentDownload(claimId, attachmentId);
+      window.open(downloadUrl, '_blank', 'noopener');
+    } catch {
+      toast.error('Failed to download bill');
+    }
+  };
+
+  const onSubmit = async (data: ClaimFormData) => {
+    const payload = {
+      description: data.description,
+      amount: data.amount,
+      expenseDate: data.expenseDate.toISOString(),
+    };
+
+    try {
+      if (claimId) {
+        await updateMutation.mutateAsync({
+          id: claimId,
+          data: { ...payload, notes: data.notes || null },
+        });
+        toast.success('Claim updated');
+      } else {
+        const created = await createMutation.mutateAsync({
+          ...payload,
+          projectId,
+          memberId: data.memberId || undefined,
+          notes: data.notes || undefined,
+        });
+        try {
+          await uploadFiles(created.id, pendingFiles);
+        } catch {
+          toast.error('Claim logged, but some bills could not be attached');
+        }
+        toast.success('Claim logged');
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to save claim');
+    }
+  };
+
+  const attachments = claim?.attachments ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Claim' : 'Log Expense from Advance'}</DialogTitle>
+          <DialogDescription>
+            The claim comes off the member&apos;s cash in hand once it is settled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Team Member */}
+          {canManage && (
+            <div className="space-y-2">
+              <Label>Team member</Label>
+              <Controller
+                name="memberId"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange} disabled={isEditing}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Myself" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projectMembers.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>
+                          {member.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          )}
+
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="claim-description">Description *</Label>
+            <Input
+              id="claim-description"
+              placeholder="e.g. 10 bags of cement from local dealer"
+              {...register('description')}
+            />
+            {errors.description && (
+              <p className="text-sm text-destructive">{errors.description.message}</p>
+            )}
+          </div>
+
+          {/* Amount & Date */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="claim-amount">Amount (₹) *</Label>
+              <Input
+                id="claim-amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                {...register('amount')}
+              />
+              {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Date *</Label>
+              <Controller
+                name="expenseDate"
+                control={control}
+                render={({ field }) => <DatePicker value={field.value} onChange={field.onChange} />}
+              />
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="claim-notes">Notes</Label>
+            <Textarea id="claim-notes" rows={2} {...register('notes')} />
+          </div>
+
+          {/* Bills */}
+          <div className="space-y-2">
+            <Label>Bills</Label>
+            {(attachments.length > 0 || pendingFiles.length > 0) && (
+              <ul className="space-y-1">
+                {attachments.map((attachment) => (
+                  <li
+                    key={attachment.id}
+                    className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+                  >
+                    <span className="truncate">{attachment.fileName}</span>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 cursor-pointer"
+                        onClick={() => handleDownload(attachment.id)}
+                      >
+                        <DownloadSimple className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 cursor-pointer"
+                        disabled={deleteAttachmentMutation.isPending}
+                        onClick={() => handleRemoveAttachment(attachment.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+                {pendingFiles.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+                  >
+                    <span className="truncate">{file.name}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 cursor-pointer"
+                      onClick={() =>
+                        setPendingFiles((current) => current.filter((_, i) => i !== index))
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILES}
+              multiple
+              className="hidden"
+              onChange={(e) => handleFilesSelected(e.target.files)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={uploadMutation.isPending}
+              onClick={() => fileInputRef.current?.click()}
+              className="cursor-pointer"
+            >
+              <Paperclip className="mr-2 h-4 w-4" />
+              {uploadMutation.isPending ? 'Uploading...' : 'Attach bill'}
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Log Claim'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,405 @@
+/**
+ * Advance Claims Section
+ *
+ * Expenses team members paid from their cash advance on a project:
+ * - Claims table with status and settle/reject actions
+ * - Cash statement with the running cash in hand of the selected member
+ * - Log Expense button for members logging their own bills
+ */
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  Plus,
+  DotsThree,
+  Trash,
+  CircleNotch,
+  PencilSimple,
+  CheckCircle,
+  XCircle,
+  Paperclip,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
+import { useAdvanceClaims, useDeleteAdvanceClaim } from '@/lib/hooks/useAdvanceClaims';
+import { useMemberCashStatement } from '@/lib/hooks/useMemberAdvances';
+import { useCan } from '@/lib/hooks/usePermissions';
+import type { AdvanceClaim, AdvanceClaimStatus } from '@/lib/api/advance-claims';
+import type { CashStatementEntryType } from '@/lib/api/member-advances';
+import { AdvanceClaimDialog } from './AdvanceClaimDialog';
+import { SettleClaimDialog } from './SettleClaimDialog';
+import { RejectClaimDialog } from './RejectClaimDialog';
+
+// ============================================
+// Types
+// ============================================
+
+interface AdvanceClaimsSectionProps {
+  projectId: string;
+  /** Selected team member; all members when not set */
+  memberId?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const PAGINATION_LIMIT = 10;
+
+const STATUS_BADGES: Record<
+  AdvanceClaimStatus,
+  { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }
+> = {
+  PENDING: { label: 'Pending', variant: 'outline' },
+  SETTLED: { label: 'Settled', variant: 'secondary' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+};
+
+const SETTLEMENT_LABELS = {
+  CARRIED_FORWARD: 'Balance kept',
+  RETURNED: 'Cash returned',
+  REIMBURSED: 'Reimbursed',
+} as const;
+
+const STATEMENT_TYPE_LABELS: Record<CashStatementEntryType, string> = {
+  ADVANCE: 'Advance',
+  CLAIM: 'Expense',
+  RETURN: 'Returned',
+  REIMBURSEMENT: 'Reimbursed',
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+// ============================================
+// Cash Statement
+// ============================================
+
+function MemberCashStatement({ projectId, memberId }: { projectId: string; memberId: string }) {
+  const { data: entries = [], isLoading } = useMemberCashStatement(projectId, memberId);
+
+  if (isLoading || entries.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Cash Statement</h3>
+      <div className="rounded-lg border overflow-hidden bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>DATE</TableHead>
+              <TableHead>TYPE</TableHead>
+              <TableHead>DESCRIPTION</TableHead>
+              <TableHead className="text-right">AMOUNT</TableHead>
+              <TableHead className="text-right">CASH IN HAND</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry, index) => (
+              <TableRow key={`${entry.type}-${entry.referenceId}-${index}`}>
+                <TableCell className="text-sm">
+                  {format(new Date(entry.date), 'MMM d, yyyy')}
+                </TableCell>
+                <TableCell className="text-sm">{STATEMENT_TYPE_LABELS[entry.type]}</TableCell>
+                <TableCell className="text-sm text-muted-foreground max-w-[240px] truncate">
+                  {entry.description}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-medium ${
+                    entry.amount < 0 ? 'text-red-600' : 'text-green-600'
+                  }`}
+                >
+                  {entry.amount < 0 ? '-' : '+'}
+                  {formatCurrency(Math.abs(entry.amount))}
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatCurrency(entry.balance)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function AdvanceClaimsSection({ projectId, memberId }: AdvanceClaimsSectionProps) {
+  const can = useCan();
+  const canManage = can('advances.manage');
+
+  // State
+  const [page, setPage] = useState(1);
+  const [isClaimDialogOpen, setIsClaimDialogOpen] = useState(false);
+  const [editingClaimId, setEditingClaimId] = useState<string | null>(null);
+  const [settlingClaim, setSettlingClaim] = useState<AdvanceClaim | null>(null);
+  const [rejectingClaimId, setRejectingClaimId] = useState<string | null>(null);
+  const [historyClaimId, setHistoryClaimId] = useState<string | null>(null);
+
+  const {
+    data: claimsData,
+    isLoading,
+    isFetching,
+  } = useAdvanceClaims({
+    projectId,
+    memberId,
+    page,
+    limit: PAGINATION_LIMIT,
+  });
+  const deleteMutation = useDeleteAdvanceClaim();
+
+  // Handlers
+  const handleLogClaim = useCallback(() => {
+    setEditingClaimId(null);
+    setIsClaimDialogOpen(true);
+  }, []);
+
+  const handleEditClaim = useCallback((claim: AdvanceClaim) => {
+    setEditingClaimId(claim.id);
+    setIsClaimDialogOpen(true);
+  }, []);
+
+  const handleDeleteClaim = useCallback(
+    async (claim: AdvanceClaim) => {
+      try {
+        await deleteMutation.mutateAsync(claim.id);
+        toast.success('Claim deleted');
+      } catch (error) {
+        const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+        toast.error(message || 'Failed to delete claim');
+      }
+    },
+    [deleteMutation]
+  );
+
+  // Derived state
+  const claims = claimsData?.items ?? [];
+  const pagination = claimsData?.pagination ?? {
+    page: 1,
+    limit: PAGINATION_LIMIT,
+    total: 0,
+    pages: 0,
+    hasMore: false,
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Expenses from Advance</h3>
+        {can('advances.claim') && (
+          <Button variant="outline" size="sm" onClick={handleLogClaim} className="cursor-pointer">
+            <Plus className="mr-2 h-4 w-4" />
+            Log Expense
+          </Button>
+        )}
+      </div>
+
+      {/* Claims Table */}
+      {isLoading ? (
+        <div className="h-24 rounded-lg border bg-muted/40 animate-pulse" />
+      ) : claims.length === 0 ? (
+        <p className="rounded-lg border py-8 text-center text-sm text-muted-foreground">
+          No expenses logged against advances yet
+        </p>
+      ) : (
+        <div className="relative rounded-lg border overflow-hidden bg-card">
+          {/* Loading overlay for refetch */}
+          {isFetching && !isLoading && (
+            <div className="absolute inset-0 bg-background/60 z-10 flex items-center justify-center">
+              <CircleNotch className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>DATE</TableHead>
+                <TableHead className="text-right">AMOUNT</TableHead>
+                <TableHead>MEMBER</TableHead>
+                <TableHead>DESCRIPTION</TableHead>
+                <TableHead>STATUS</TableHead>
+                <TableHead className="w-12">ACTIONS</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {claims.map((claim) => {
+                const isPending = claim.status === 'PENDING';
+                const badge = STATUS_BADGES[claim.status];
+
+                return (
+                  <TableRow key={claim.id}>
+                    <TableCell className="text-sm">
+                      {format(new Date(claim.expenseDate), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(Number(claim.amount))}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">
+                      {claim.member?.user?.name || '-'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[220px]">
+                      <div className="flex items-center gap-1.5">
+                        <span className="truncate">{claim.description}</span>
+                        {claim.attachments.length > 0 && (
+                          <Paperclip className="h-3.5 w-3.5 shrink-0" />
+                        )}
+                      </div>
+                      {claim.status === 'REJECTED' && claim.rejectionReason && (
+                        <p className="text-xs text-destructive truncate">{claim.rejectionReason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                      {claim.settlement && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {SETTLEMENT_LABELS[claim.settlement.type]}
+                          {Number(claim.settlement.amount) > 0 &&
+                            ` ${formatCurrency(Number(claim.settlement.amount))}`}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                            <DotsThree className="h-4 w-4" weight="bold" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => handleEditClaim(claim)}
+                            className="cursor-pointer"
+                          >
+                            <PencilSimple className="h-4 w-4 mr-2" />
+                            {isPending ? 'Edit' : 'View bills'}
+                          </DropdownMenuItem>
+                          {isPending && canManage && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => setSettlingClaim(claim)}
+                                className="cursor-pointer"
+                              >
+                                <CheckCircle className="h-4 w-4 mr-2" />
+                                Settle
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setRejectingClaimId(claim.id)}
+                                className="cursor-pointer"
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Reject
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {can('audit.view') && (
+                            <DropdownMenuItem
+                              onClick={() => setHistoryClaimId(claim.id)}
+                              className="cursor-pointer"
+                            >
+                              <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                              History
+                            </DropdownMenuItem>
+                          )}
+                          {claim.status !== 'SETTLED' && (
+                            <DropdownMenuItem
+                              onClick={() => handleDeleteClaim(claim)}
+                              disabled={deleteMutation.isPending}
+                              className="cursor-pointer text-destructive focus:text-destructive"
+                            >
+                              <Trash className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {/* Pagination */}
+          {pagination.total > 0 && (
+            <TablePagination
+              page={page}
+              pages={pagination.pages}
+              total={pagination.total}
+              limit={PAGINATION_LIMIT}
+              onPageChange={setPage}
+              itemLabel="claims"
+              className="border-t"
+            />
+          )}
+        </div>
+      )}
+
+      {/* Cash Statement */}
+      {memberId && can('advances.view') && (
+        <MemberCashStatement projectId={projectId} memberId={memberId} />
+      )}
+
+      {/* Log/Edit Claim Dialog */}
+      <AdvanceClaimDialog
+        open={isClaimDialogOpen}
+        onOpenChange={(open) => {
+          setIsClaimDialogOpen(open);
+          if (!open) setEditingClaimId(null);
+        }}
+        projectId={projectId}
+        preselectedMemberId={memberId}
+        claimId={editingClaimId}
+      />
+
+      {/* Settle Claim Dialog */}
+      <SettleClaimDialog
+        claim={settlingClaim}
+        onOpenChange={(open) => !open && setSettlingClaim(null)}
+      />
+
+      {/* Reject Claim Dialog */}
+      <RejectClaimDialog
+        claimId={rejectingClaimId}
+        onOpenChange={(open) => !open && setRejectingClaimId(null)}
+      />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyClaimId}
+        onOpenChange={(open) => !open && setHistoryClaimId(null)}
+        entityType="ADVANCE_CLAIM"
+        entityId={historyClaimId}
+        title="Claim history"
+      />
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
  *
  * Displays client payments (type = IN) for a project with:
  * - Summary cards (Budget, Received, Pending with progress)
+ * - Payment schedule of installments
+ * - GST tax invoices raised to the client
  * - Date range filter
  * - Sort dropdown
  * - Add payment button
@@ -12,7 +14,15 @@
 import { useState, useCallback } from 'react';
 import { format } from 'date-fns';
 import type { DateRange } from 'react-day-picker';
-import { Plus, DotsThree, Trash, CircleNotch, FunnelIcon, PencilSimple } from '@phosphor-icons/react';
+import {
+  Plus,
+  DotsThree,
+  Trash,
+  CircleNotch,
+  FunnelIcon,
+  PencilSimple,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -48,13 +58,17 @@ import {
   EmptyContent,
 } from '@/components/ui/empty';
 import { TablePagination } from '@/components/ui/table-pagination';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
 import { DateRangePicker } from '@/components/ui/custom/date-range-picker';
 import {
   useProjectPaymentSummary,
   useClientPayments,
   useDeletePayment,
 } from '@/lib/hooks/usePayments';
+import { useCan } from '@/lib/hooks/usePermissions';
 import { RecordClientPaymentModal } from './RecordClientPaymentModal';
+import { PaymentScheduleSection } from './PaymentScheduleSection';
+import { TaxInvoicesSection } from './TaxInvoicesSection';
 import { DeletePaymentDialog } from './DeletePaymentDialog';
 import type { Payment, PaymentSortBy, SortOrder } from '@/lib/api/payments';
 
@@ -111,8 +125,10 @@ function getPaymentModeLabel(mode: string): string {
 // ============================================
 
 export function ClientPaymentsTab({ projectId }: ClientPaymentsTabProps) {
+  const can = useCan();
   // State
   const [page, setPage] = useState(1);
+  const [historyPaymentId, setHistoryPaymentId] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<PaymentSortBy>('paymentDate');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
@@ -257,6 +273,12 @@ export function ClientPaymentsTab({ projectId }: ClientPaymentsTabProps) {
         )}
       </div>
 
+      {/* Payment Schedule */}
+      <PaymentScheduleSection projectId={projectId} />
+
+      {/* Tax Invoices */}
+      {can('invoices.view') && <TaxInvoicesSection projectId={projectId} />}
+
       {/* Toolbar */}
       <div className="flex items-center gap-3">
         {/* Date Range Filter */}
@@ -357,6 +379,7 @@ export function ClientPaymentsTab({ projectId }: ClientPaymentsTabProps) {
                 <TableHead>DESCRIPTION</TableHead>
                 <TableHead>PAYMENT MODE</TableHead>
                 <TableHead>REFERENCE</TableHead>
+                <TableHead>INSTALLMENT</TableHead>
                 <TableHead>RECORDED BY</TableHead>
                 <TableHead className="w-12">ACTIONS</TableHead>
               </TableRow>
@@ -379,6 +402,13 @@ export function ClientPaymentsTab({ projectId }: ClientPaymentsTabProps) {
                     </Badge>
                   </TableCell>
                   <TableCell className="text-sm">{payment.referenceNumber || '-'}</TableCell>
+                  <TableCell className="text-sm max-w-[180px] truncate">
+                    {payment.installmentAllocations?.length
+                      ? payment.installmentAllocations
+                          .map((allocation) => allocation.installment.name)
+                          .join(', ')
+                      : '-'}
+                  </TableCell>
                   <TableCell className="text-sm">
                     {payment.recordedBy?.user?.name || '-'}
                   </TableCell>
@@ -397,6 +427,15 @@ export function ClientPaymentsTab({ projectId }: ClientPaymentsTabProps) {
                           <PencilSimple className="h-4 w-4 mr-2" />
                           Edit
                         </DropdownMenuItem>
+                        {can('audit.view') && (
+                          <DropdownMenuItem
+                            onClick={() => setHistoryPaymentId(payment.id)}
+                            className="cursor-pointer"
+                          >
+                            <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                            History
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem
                           onClick={() => handleDeleteClick(payment)}
                           className="cursor-pointer text-destructive focus:text-destructive"
@@ -446,6 +485,15 @@ export function ClientPaymentsTab({ projectId }: ClientPaymentsTabProps) {
         onConfirm={handleDeleteConfirm}
         isDeleting={deleteMutation.isPending}
       />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyPaymentId}
+        onOpenChange={(open) => !open && setHistoryPaymentId(null)}
+        entityType="PAYMENT"
+        entityId={historyPaymentId}
+        title="Payment history"
+      />
     </div>
   );
 }
@@ -64,7 +64,7 @@ export function DeletePaymentDialog({
                 {' '}to <strong>{partyName}</strong>
               </>
             )}
-            ? This action cannot be undone.
+            ? It will be moved to the Trash, where it can be restored.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -0,0 +1,274 @@
+/**
+ * Installment Form Dialog
+ *
+ * Add or edit an installment of a project's client payment schedule.
+ * An installment bills a percentage of the contract or a fixed amount, and falls
+ * due on its due date or when its linked stage is completed.
+ */
+
+import { useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useStagesByProject } from '@/lib/hooks/useStages';
+import { useCreateInstallment, useUpdateInstallment } from '@/lib/hooks/useInstallments';
+import type { Installment } from '@/lib/api/installments';
+
+// ============================================
+// Schema
+// ============================================
+
+// Select value standing for "not linked to a stage"
+const NO_STAGE = 'none';
+
+const installmentFormSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required'),
+    amountType: z.enum(['PERCENTAGE', 'FIXED']),
+    value: z.coerce.number().positive('Enter an amount greater than zero'),
+    stageId: z.string(),
+    dueDate: z.date().optional(),
+    notes: z.string().optional(),
+  })
+  .refine((data) => data.amountType === 'FIXED' || data.value <= 100, {
+    message: 'Percentage cannot exceed 100',
+    path: ['value'],
+  });
+
+type InstallmentFormData = z.infer<typeof installmentFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface InstallmentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  installment?: Installment | null;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function InstallmentFormDialog({
+  open,
+  onOpenChange,
+  projectId,
+  installment,
+}: InstallmentFormDialogProps) {
+  const isEditing = !!installment;
+  const { data: stages = [] } = useStagesByProject(projectId);
+  const createMutation = useCreateInstallment();
+  const updateMutation = useUpdateInstallment();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<InstallmentFormData>({
+    resolver: zodResolver(installmentFormSchema),
+    defaultValues: {
+      name: '',
+      amountType: 'PERCENTAGE',
+      value: undefined,
+      stageId: NO_STAGE,
+      dueDate: undefined,
+      notes: '',
+    },
+  });
+
+  const amountType = watch('amountType');
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      reset({
+        name: installment?.name ?? '',
+        amountType: installment?.amountType ?? 'PERCENTAGE',
+        value: installment
+          ? Number(
+              installment.amountType === 'PERCENTAGE' ? installment.percentage : installment.amount
+            )
+          : undefined,
+        stageId: installment?.stageId ?? NO_STAGE,
+        dueDate: installment?.dueDate ? new Date(installment.dueDate) : undefined,
+        notes: installment?.notes ?? '',
+      });
+    }
+  }, [open, installment, reset]);
+
+  const onSubmit = async (data: InstallmentFormData) => {
+    const payload = {
+      name: data.name,
+      amountType: data.amountType,
+      percentage: data.amountType === 'PERCENTAGE' ? data.value : null,
+      amount: data.amountType === 'FIXED' ? data.value : null,
+      stageId: data.stageId === NO_STAGE ? null : data.stageId,
+      dueDate: data.dueDate ? data.dueDate.toISOString() : null,
+      notes: data.notes || null,
+    };
+
+    try {
+      if (installment) {
+        await updateMutation.mutateAsync({ id: installment.id, data: payload });
+        toast.success('Installment updated');
+      } else {
+        await createMutation.mutateAsync({ projectId, ...payload });
+        toast.success('Installment added');
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to save installment');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Installment' : 'Add Installment'}</DialogTitle>
+          <DialogDescription>
+            Link an installment to a stage to bill it when the stage is completed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="installment-name">Name *</Label>
+            <Input
+              id="installment-name"
+              placeholder="e.g. On completion of plinth"
+              {...register('name')}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+          </div>
+
+          {/* Amount */}
+          <div className="grid grid-cols-[160px_1fr] gap-2">
+            <div className="space-y-2">
+              <Label>Bill as</Label>
+              <Controller
+                name="amountType"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="PERCENTAGE">% of contract</SelectItem>
+                      <SelectItem value="FIXED">Fixed amount</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="installment-value">
+                {amountType === 'PERCENTAGE' ? 'Percentage *' : 'Amount (₹) *'}
+              </Label>
+              <Input
+                id="installment-value"
+                type="number"
+                step="0.01"
+                placeholder={amountType === 'PERCENTAGE' ? '10' : '0.00'}
+                {...register('value')}
+              />
+            </div>
+          </div>
+          {errors.value && <p className="text-sm text-destructive">{errors.value.message}</p>}
+
+          {/* Stage */}
+          <div className="space-y-2">
+            <Label>Stage</Label>
+            <Controller
+              name="stageId"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_STAGE}>Not linked to a stage</SelectItem>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.id} value={stage.id}>
+                        {stage.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+
+          {/* Due Date */}
+          <div className="space-y-2">
+            <Label>Due date</Label>
+            <Controller
+              name="dueDate"
+              control={control}
+              render={({ field }) => (
+                <DatePicker
+                  value={field.value}
+                  onChange={field.onChange}
+                  placeholder="No due date"
+                />
+              )}
+            />
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="installment-notes">Notes</Label>
+            <Textarea id="installment-notes" rows={2} {...register('notes')} />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Installment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * Invoice Settings Dialog
+ *
+ * The organization's GST registration printed on tax invoices: GSTIN, state,
+ * billing address and the prefix of the invoice number series.
+ */
+
+import { useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useInvoiceSettings, useUpdateInvoiceSettings } from '@/lib/hooks/useTaxInvoices';
+import { GST_STATES, GSTIN_PATTERN } from '@/lib/gst';
+
+// ============================================
+// Schema
+// ============================================
+
+const settingsFormSchema = z
+  .object({
+    gstin: z
+      .string()
+      .refine(
+        (value) => !value.trim() || GSTIN_PATTERN.test(value.trim().toUpperCase()),
+        'Enter a valid 15-character GSTIN'
+      ),
+    stateCode: z.string().min(1, 'State is required'),
+    billingAddress: z.string().optional(),
+    invoicePrefix: z
+      .string()
+      .refine(
+        (value) => /^[A-Z0-9-]{1,6}$/.test(value.trim().toUpperCase()),
+        'Up to 6 letters, digits or dashes'
+      ),
+  })
+  .refine((data) => !data.gstin.trim() || data.gstin.trim().startsWith(data.stateCode), {
+    message: 'The GSTIN is registered in a different state',
+    path: ['stateCode'],
+  });
+
+type SettingsFormData = z.infer<typeof settingsFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface InvoiceSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function InvoiceSettingsDialog({ open, onOpenChange }: InvoiceSettingsDialogProps) {
+  const { data: settings } = useInvoiceSettings(open);
+  const updateMutation = useUpdateInvoiceSettings();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: { gstin: '', stateCode: '', billingAddress: '', invoicePrefix: 'INV' },
+  });
+
+  useEffect(() => {
+    if (open && settings) {
+      reset({
+        gstin: settings.gstin ?? '',
+        stateCode: settings.stateCode ?? '',
+        billingAddress: settings.billingAddress ?? '',
+        invoicePrefix: settings.invoicePrefix,
+      });
+    }
+  }, [open, settings, reset]);
+
+  const onSubmit = async (data: SettingsFormData) => {
+    try {
+      await updateMutation.mutateAsync({
+        gstin: data.gstin.trim().toUpperCase() || null,
+        stateCode: data.stateCode,
+        billingAddress: data.billingAddress || null,
+        invoicePrefix: data.invoicePrefix.trim().toUpperCase(),
+      });
+      toast.success('GST details saved');
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to save GST details');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>GST Details</DialogTitle>
+          <DialogDescription>
+            Printed on every tax invoice. The state decides whether invoices charge CGST and SGST or
+            IGST.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gstin">GSTIN</Label>
+            <Input id="gstin" placeholder="29ABCDE1234F1Z5" {...register('gstin')} />
+            {errors.gstin && <p className="text-sm text-destructive">{errors.gstin.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>State *</Label>
+            <Controller
+              name="stateCode"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GST_STATES.map((state) => (
+                      <SelectItem key={state.code} value={state.code} className="cursor-pointer">
+                        {state.code} · {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            {errors.stateCode && (
+              <p className="text-sm text-destructive">{errors.stateCode.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="billingAddress">Billing Address</Label>
+            <Textarea id="billingAddress" rows={3} {...register('billingAddress')} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoicePrefix">Invoice Number Prefix *</Label>
+            <Input id="invoicePrefix" className="w-32" {...register('invoicePrefix')} />
+            <p className="text-xs text-muted-foreground">
+              Invoices are numbered like PREFIX/2026-27/0001, restarting each financial year.
+            </p>
+            {errors.invoicePrefix && (
+              <p className="text-sm text-destructive">{errors.invoicePrefix.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
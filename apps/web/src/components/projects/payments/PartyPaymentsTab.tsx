@@ -6,13 +6,21 @@
  * - Date range filter
  * - Sort dropdown
  * - Record payment button
- * - Payments table with pagination
+ * - Payments table with pagination, showing the bills each payment covers
  */
 
 import { useState, useCallback } from 'react';
 import { format } from 'date-fns';
 import type { DateRange } from 'react-day-picker';
-import { Plus, DotsThree, Trash, CircleNotch, FunnelIcon, PencilSimple } from '@phosphor-icons/react';
+import {
+  Plus,
+  DotsThree,
+  Trash,
+  CircleNotch,
+  FunnelIcon,
+  PencilSimple,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -47,8 +55,10 @@ import {
   EmptyContent,
 } from '@/components/ui/empty';
 import { TablePagination } from '@/components/ui/table-pagination';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
 import { DateRangePicker } from '@/components/ui/custom/date-range-picker';
 import { usePartyPayments, useDeletePayment } from '@/lib/hooks/usePayments';
+import { useCan } from '@/lib/hooks/usePermissions';
 import { RecordPartyPaymentModal } from './RecordPartyPaymentModal';
 import { DeletePaymentDialog } from './DeletePaymentDialog';
 import type { Payment, PaymentSortBy, SortOrder, PartyType } from '@/lib/api/payments';
@@ -122,13 +132,45 @@ function getPartyTypeLabel(type: string): string {
   }
 }
 
+// ============================================
+// Sub Components
+// ============================================
+
+/**
+ * The bills a payment covers, and what is left over on account
+ */
+function AllocationSummary({ payment }: { payment: Payment }) {
+  const allocations = payment.allocations ?? [];
+  const allocated = allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0);
+  const onAccount = Number(payment.amount) - allocated;
+
+  if (!payment.partyId) return <span>-</span>;
+
+  return (
+    <div className="space-y-0.5">
+      {allocations.length > 0 && (
+        <p className="max-w-[200px] truncate">
+          {allocations.length === 1
+            ? allocations[0].expense.description || '1 bill'
+            : `${allocations.length} bills`}
+        </p>
+      )}
+      {onAccount > 0 && (
+        <p className="text-xs text-amber-600">{formatCurrency(onAccount)} on account</p>
+      )}
+    </div>
+  );
+}
+
 // ============================================
 // Component
 // ============================================
 
 export function PartyPaymentsTab({ projectId }: PartyPaymentsTabProps) {
+  const can = useCan();
   // State
   const [page, setPage] = useState(1);
+  const [historyPaymentId, setHistoryPaymentId] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<PaymentSortBy>('paymentDate');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
@@ -345,6 +387,7 @@ export function PartyPaymentsTab({ projectId }: PartyPaymentsTabProps) {
                 <TableHead>PARTY</TableHead>
                 <TableHead>TYPE</TableHead>
                 <TableHead>PAYMENT MODE</TableHead>
+                <TableHead>ALLOCATED TO</TableHead>
                 <TableHead>RECORDED BY</TableHead>
                 <TableHead className="w-12">ACTIONS</TableHead>
               </TableRow>
@@ -369,6 +412,9 @@ export function PartyPaymentsTab({ projectId }: PartyPaymentsTabProps) {
                       {getPaymentModeLabel(payment.paymentMode)}
                     </Badge>
                   </TableCell>
+                  <TableCell className="text-sm">
+                    <AllocationSummary payment={payment} />
+                  </TableCell>
                   <TableCell className="text-sm">
                     {payment.recordedBy?.user?.name || '-'}
                   </TableCell>
@@ -387,6 +433,15 @@ export function PartyPaymentsTab({ projectId }: PartyPaymentsTabProps) {
                           <PencilSimple className="h-4 w-4 mr-2" />
                           Edit
                         </DropdownMenuItem>
+                        {can('audit.view') && (
+                          <DropdownMenuItem
+                            onClick={() => setHistoryPaymentId(payment.id)}
+                            className="cursor-pointer"
+                          >
+                            <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                            History
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem
                           onClick={() => handleDeleteClick(payment)}
                           className="cursor-pointer text-destructive focus:text-destructive"
@@ -436,6 +491,15 @@ export function PartyPaymentsTab({ projectId }: PartyPaymentsTabProps) {
         onConfirm={handleDeleteConfirm}
         isDeleting={deleteMutation.isPending}
       />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyPaymentId}
+        onOpenChange={(open) => !open && setHistoryPaymentId(null)}
+        entityType="PAYMENT"
+        entityId={historyPaymentId}
+        title="Payment history"
+      />
     </div>
   );
 }
@@ -0,0 +1,310 @@
+/**
+ * Payment Schedule Section
+ *
+ * A project's client payment schedule on the client payments tab:
+ * - Installments with what each bills, when it falls due and what has been received
+ * - Status of every installment (upcoming, due, overdue, partially received, received)
+ * - Outstanding receivable, overdue and on-account totals
+ */
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Plus, DotsThree, Trash, PencilSimple, CalendarBlank } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { usePaymentSchedule, useDeleteInstallment } from '@/lib/hooks/useInstallments';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { InstallmentFormDialog } from './InstallmentFormDialog';
+import type { Installment, InstallmentStatus } from '@/lib/api/installments';
+
+// ============================================
+// Types
+// ============================================
+
+interface PaymentScheduleSectionProps {
+  projectId: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const STATUS_CONFIG: Record<
+  InstallmentStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  UPCOMING: { label: 'Upcoming', variant: 'outline' },
+  DUE: { label: 'Due', variant: 'secondary' },
+  OVERDUE: { label: 'Overdue', variant: 'destructive' },
+  PARTIALLY_RECEIVED: { label: 'Partially received', variant: 'secondary' },
+  RECEIVED: { label: 'Received', variant: 'default' },
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+/**
+ * What makes an installment fall due: its stage, its due date, or both
+ */
+function getTriggerLabel(installment: Installment): string {
+  const parts: string[] = [];
+  if (installment.stage) parts.push(`On completion of ${installment.stage.name}`);
+  if (installment.dueDate) parts.push(format(new Date(installment.dueDate), 'MMM d, yyyy'));
+  return parts.length > 0 ? parts.join(' · ') : 'On signing';
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function PaymentScheduleSection({ projectId }: PaymentScheduleSectionProps) {
+  const can = useCan();
+  const canEdit = can('payments.edit');
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingInstallment, setEditingInstallment] = useState<Installment | null>(null);
+  const [installmentToDelete, setInstallmentToDelete] = useState<Installment | null>(null);
+
+  const { data: schedule, isLoading } = usePaymentSchedule(projectId);
+  const deleteMutation = useDeleteInstallment();
+
+  const handleAdd = useCallback(() => {
+    setEditingInstallment(null);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleEdit = useCallback((installment: Installment) => {
+    setEditingInstallment(installment);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!installmentToDelete) return;
+
+    try {
+      await deleteMutation.mutateAsync(installmentToDelete.id);
+      toast.success('Installment deleted');
+      setInstallmentToDelete(null);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to delete installment');
+    }
+  }, [installmentToDelete, deleteMutation]);
+
+  const installments = schedule?.installments ?? [];
+  const summary = schedule?.summary;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 pb-4">
+        <div>
+          <h3 className="font-medium">Payment Schedule</h3>
+          <p className="text-sm text-muted-foreground">
+            Installments the client pays as the project progresses
+          </p>
+          {summary && summary.contractAmount !== summary.originalContractAmount && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Contract value {formatCurrency(summary.contractAmount)}, revised from{' '}
+              {formatCurrency(summary.originalContractAmount)} by approved change orders
+            </p>
+          )}
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={handleAdd} className="cursor-pointer">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Installment
+          </Button>
+        )}
+      </div>
+
+      {/* Totals */}
+      {summary && installments.length > 0 && (
+        <div className="flex gap-4 px-5 pb-4">
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">Outstanding receivable</p>
+            <p
+              className={`text-lg font-semibold ${summary.outstandingReceivable > 0 ? 'text-amber-600' : ''}`}
+            >
+              {formatCurrency(summary.outstandingReceivable)}
+            </p>
+          </div>
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">Overdue</p>
+            <p
+              className={`text-lg font-semibold ${summary.overdueAmount > 0 ? 'text-destructive' : ''}`}
+            >
+              {formatCurrency(summary.overdueAmount)}
+            </p>
+          </div>
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">On account</p>
+            <p className="text-lg font-semibold">{formatCurrency(summary.onAccountAmount)}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Installments */}
+      {isLoading ? (
+        <div className="space-y-2 px-5 pb-5">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+          ))}
+        </div>
+      ) : installments.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 border-t px-5 py-8 text-center">
+          <CalendarBlank className="h-6 w-6 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            No payment schedule yet. Add installments to track what the client owes and when.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              <TableHead>INSTALLMENT</TableHead>
+              <TableHead>DUE</TableHead>
+              <TableHead className="text-right">AMOUNT</TableHead>
+              <TableHead className="text-right">RECEIVED</TableHead>
+              <TableHead>STATUS</TableHead>
+              {canEdit && <TableHead className="w-12" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {installments.map((installment) => (
+              <TableRow key={installment.id}>
+                <TableCell className="text-sm text-muted-foreground">
+                  {installment.sequence}
+                </TableCell>
+                <TableCell>
+                  <p className="text-sm font-medium">{installment.name}</p>
+                  {installment.notes && (
+                    <p className="text-xs text-muted-foreground max-w-[240px] truncate">
+                      {installment.notes}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{getTriggerLabel(installment)}</TableCell>
+                <TableCell className="text-right">
+                  <p className="text-sm font-medium">{formatCurrency(installment.amount)}</p>
+                  {installment.amountType === 'PERCENTAGE' && (
+                    <p className="text-xs text-muted-foreground">
+                      {Number(installment.percentage)}% of contract
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right text-sm text-green-600">
+                  {formatCurrency(installment.received)}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_CONFIG[installment.status].variant}>
+                    {STATUS_CONFIG[installment.status].label}
+                  </Badge>
+                </TableCell>
+                {canEdit && (
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                          <DotsThree className="h-4 w-4" weight="bold" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => handleEdit(installment)}
+                          className="cursor-pointer"
+                        >
+                          <PencilSimple className="h-4 w-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => setInstallmentToDelete(installment)}
+                          className="cursor-pointer text-destructive focus:text-destructive"
+                        >
+                          <Trash className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Add/Edit Installment */}
+      <InstallmentFormDialog
+        open={isFormOpen}
+        onOpenChange={(open) => {
+          setIsFormOpen(open);
+          if (!open) setEditingInstallment(null);
+        }}
+        projectId={projectId}
+        installment={editingInstallment}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!installmentToDelete}
+        onOpenChange={(open) => !open && setInstallmentToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Installment</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{installmentToDelete?.name}" from the payment schedule? Payments received
+              against it will be set against the remaining installments.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending} className="cursor-pointer">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteConfirm}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
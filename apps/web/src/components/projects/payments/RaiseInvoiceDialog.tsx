@@ -0,0 +1,506 @@
+/**
+ * Raise Invoice Dialog
+ *
+ * Raise a GST tax invoice to the project's client.
+ * Features:
+ * - Bill stage milestones of the payment schedule not yet invoiced
+ * - Bill BOQ item quantities, up to what is left of each item
+ * - Other charges entered by hand
+ * - Place of supply, SAC code and GST rate, with CGST/SGST or IGST worked out
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Trash } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import {
+  useBillableWork,
+  useCreateTaxInvoice,
+  useInvoiceSettings,
+} from '@/lib/hooks/useTaxInvoices';
+import { DEFAULT_SAC, GST_RATES, GST_STATES, gstStateName } from '@/lib/gst';
+import type { TaxInvoiceLineInput } from '@/lib/api/tax-invoices';
+
+// ============================================
+// Schema
+// ============================================
+
+const invoiceFormSchema = z.object({
+  invoiceDate: z.date({ required_error: 'Date is required' }),
+  dueDate: z.date().optional(),
+  placeOfSupply: z.string().min(1, 'Place of supply is required'),
+  hsnSac: z.string().regex(/^\d{4,8}$/, 'HSN/SAC code must be 4 to 8 digits'),
+  gstRate: z.string(),
+  notes: z.string().optional(),
+});
+
+type InvoiceFormData = z.infer<typeof invoiceFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface RaiseInvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+}
+
+interface ManualLine {
+  description: string;
+  quantity: string;
+  rate: string;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const EMPTY_MANUAL_LINE: ManualLine = { description: '', quantity: '1', rate: '' };
+
+// ============================================
+// Component
+// ============================================
+
+export function RaiseInvoiceDialog({ open, onOpenChange, projectId }: RaiseInvoiceDialogProps) {
+  const { data: billable } = useBillableWork(projectId, open);
+  const { data: settings } = useInvoiceSettings(open);
+  const createMutation = useCreateTaxInvoice();
+
+  // Stages ticked for billing, BOQ quantities to bill, and hand-entered lines
+  const [stageIds, setStageIds] = useState<string[]>([]);
+  const [boqQuantities, setBoqQuantities] = useState<Record<string, string>>({});
+  const [manualLines, setManualLines] = useState<ManualLine[]>([]);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<InvoiceFormData>({
+    resolver: zodResolver(invoiceFormSchema),
+    defaultValues: {
+      invoiceDate: new Date(),
+      dueDate: undefined,
+      placeOfSupply: '',
+      hsnSac: DEFAULT_SAC,
+      gstRate: '18',
+      notes: '',
+    },
+  });
+
+  // Reset when the dialog opens; the place of supply defaults to the client's state
+  useEffect(() => {
+    if (open) {
+      reset({
+        invoiceDate: new Date(),
+        dueDate: undefined,
+        placeOfSupply: billable?.client?.stateCode ?? '',
+        hsnSac: DEFAULT_SAC,
+        gstRate: '18',
+        notes: '',
+      });
+      setStageIds([]);
+      setBoqQuantities({});
+      setManualLines([]);
+    }
+  }, [open, billable?.client?.stateCode, reset]);
+
+  const stages = (billable?.stages ?? []).filter(
+    (stage) => !stage.billedOn && stage.milestoneAmount > 0
+  );
+  const boqItems = (billable?.boqItems ?? []).filter((item) => item.remainingQuantity > 0);
+
+  const placeOfSupply = watch('placeOfSupply');
+  const gstRate = Number(watch('gstRate'));
+  const isInterState = !!settings?.stateCode && placeOfSupply !== settings.stateCode;
+
+  const taxableAmount = useMemo(() => {
+    const stageTotal = stages
+      .filter((stage) => stageIds.includes(stage.id))
+      .reduce((sum, stage) => sum + stage.milestoneAmount, 0);
+    const boqTotal = boqItems.reduce(
+      (sum, item) => sum + (Number(boqQuantities[item.id]) || 0) * Number(item.rate),
+      0
+    );
+    const manualTotal = manualLines.reduce(
+      (sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.rate) || 0),
+      0
+    );
+    return roundMoney(stageTotal + boqTotal + manualTotal);
+  }, [stages, stageIds, boqItems, boqQuantities, manualLines]);
+  const taxAmount = roundMoney((taxableAmount * gstRate) / 100);
+
+  const toggleStage = (stageId: string, checked: boolean) => {
+    setStageIds((current) =>
+      checked ? [...current, stageId] : current.filter((id) => id !== stageId)
+    );
+  };
+
+  const updateManualLine = (index: number, changes: Partial<ManualLine>) => {
+    setManualLines((current) =>
+      current.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  const onSubmit = async (data: InvoiceFormData) => {
+    const common = { hsnSac: data.hsnSac, gstRate: Number(data.gstRate) };
+    const lines: TaxInvoiceLineInput[] = [
+      ...stageIds.map((stageId) => ({ source: 'STAGE' as const, stageId, ...common })),
+      ...boqItems
+        .filter((item) => Number(boqQuantities[item.id]) > 0)
+        .map((item) => ({
+          source: 'BOQ_ITEM' as const,
+          boqItemId: item.id,
+          quantity: Number(boqQuantities[item.id]),
+          ...common,
+        })),
+      ...manualLines
+        .filter((line) => line.description.trim() && Number(line.rate) > 0)
+        .map((line) => ({
+          source: 'MANUAL' as const,
+          description: line.description.trim(),
+          quantity: Number(line.quantity) || 1,
+          rate: Number(line.rate),
+          ...common,
+        })),
+    ];
+
+    if (lines.length === 0) {
+      toast.error('Choose at least one stage, BOQ item or charge to bill');
+      return;
+    }
+
+    try {
+      const invoice = await createMutation.mutateAsync({
+        projectId,
+        invoiceDate: data.invoiceDate.toISOString(),
+        dueDate: data.dueDate?.toISOString() ?? null,
+        placeOfSupply: data.placeOfSupply,
+        notes: data.notes || null,
+        lines,
+      });
+      toast.success(`Invoice ${invoice.invoiceNumber} raised`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to raise invoice');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Raise Tax Invoice</DialogTitle>
+          <DialogDescription>
+            {billable?.client
+              ? `To ${billable.client.name}${billable.client.gstin ? ` · GSTIN ${billable.client.gstin}` : ''}`
+              : 'Set a client on the project to raise invoices.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {settings && !settings.stateCode && (
+          <p className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+            Add your GST details before raising an invoice.
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          {/* Invoice details */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Invoice Date *</Label>
+              <Controller
+                name="invoiceDate"
+                control={control}
+                render={({ field }) => <DatePicker value={field.value} onChange={field.onChange} />}
+              />
+              {errors.invoiceDate && (
+                <p className="text-sm text-destructive">{errors.invoiceDate.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Due Date</Label>
+              <Controller
+                name="dueDate"
+                control={control}
+                render={({ field }) => (
+                  <DatePicker
+                    value={field.value}
+                    onChange={field.onChange}
+                    placeholder="No due date"
+                  />
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Place of Supply *</Label>
+              <Controller
+                name="placeOfSupply"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="cursor-pointer">
+                      <SelectValue placeholder="Select state" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_STATES.map((state) => (
+                        <SelectItem key={state.code} value={state.code} className="cursor-pointer">
+                          {state.code} · {state.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.placeOfSupply && (
+                <p className="text-sm text-destructive">{errors.placeOfSupply.message}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="hsnSac">SAC/HSN *</Label>
+                <Input id="hsnSac" {...register('hsnSac')} />
+              </div>
+              <div className="space-y-2">
+                <Label>GST Rate *</Label>
+                <Controller
+                  name="gstRate"
+                  control={control}
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="cursor-pointer">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {GST_RATES.map((rate) => (
+                          <SelectItem key={rate} value={String(rate)} className="cursor-pointer">
+                            {rate}%
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+              {errors.hsnSac && (
+                <p className="col-span-2 text-sm text-destructive">{errors.hsnSac.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Stage milestones */}
+          {stages.length > 0 && (
+            <div className="space-y-2">
+              <Label>Stage Milestones</Label>
+              <div className="rounded-lg border divide-y">
+                {stages.map((stage) => (
+                  <label
+                    key={stage.id}
+                    className="flex items-center gap-3 p-2 cursor-pointer"
+                    htmlFor={`stage-${stage.id}`}
+                  >
+                    <Checkbox
+                      id={`stage-${stage.id}`}
+                      checked={stageIds.includes(stage.id)}
+                      onCheckedChange={(checked) => toggleStage(stage.id, checked === true)}
+                    />
+                    <span className="flex-1 text-sm">{stage.name}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {formatCurrency(stage.milestoneAmount)}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* BOQ items */}
+          {boqItems.length > 0 && (
+            <div className="space-y-2">
+              <Label>BOQ Items</Label>
+              <div className="max-h-64 overflow-y-auto rounded-lg border divide-y">
+                {boqItems.map((item) => (
+                  <div key={item.id} className="flex items-center gap-3 p-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {item.code ? `${item.code} · ` : ''}
+                        {item.description}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {Number(item.remainingQuantity)} of {Number(item.quantity)} {item.unit} left
+                        · {formatCurrency(Number(item.rate))}/{item.unit}
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      max={item.remainingQuantity}
+                      placeholder="Qty"
+                      className="w-28"
+                      value={boqQuantities[item.id] ?? ''}
+                      onChange={(event) =>
+                        setBoqQuantities((current) => ({
+                          ...current,
+                          [item.id]: event.target.value,
+                        }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Other charges */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Other Charges</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setManualLines((current) => [...current, EMPTY_MANUAL_LINE])}
+                className="cursor-pointer"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add line
+              </Button>
+            </div>
+            {manualLines.map((line, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  placeholder="Description"
+                  value={line.description}
+                  onChange={(event) => updateManualLine(index, { description: event.target.value })}
+                />
+                <Input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  placeholder="Qty"
+                  className="w-20"
+                  value={line.quantity}
+                  onChange={(event) => updateManualLine(index, { quantity: event.target.value })}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Rate"
+                  className="w-28"
+                  value={line.rate}
+                  onChange={(event) => updateManualLine(index, { rate: event.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setManualLines((current) => current.filter((_, i) => i !== index))}
+                  className="h-8 w-8 shrink-0 cursor-pointer"
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="invoiceNotes">Notes</Label>
+            <Textarea
+              id="invoiceNotes"
+              rows={2}
+              placeholder="Bank details, terms"
+              {...register('notes')}
+            />
+          </div>
+
+          {/* Totals */}
+          <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Taxable value</span>
+              <span>{formatCurrency(taxableAmount)}</span>
+            </div>
+            {isInterState ? (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">IGST @ {gstRate}%</span>
+                <span>{formatCurrency(taxAmount)}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">CGST + SGST @ {gstRate / 2}% each</span>
+                <span>{formatCurrency(taxAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold">
+              <span>Invoice total</span>
+              <span>{formatCurrency(roundMoney(taxableAmount + taxAmount))}</span>
+            </div>
+            {placeOfSupply && (
+              <p className="text-xs text-muted-foreground pt-1">
+                Supply to {gstStateName(placeOfSupply)}
+                {isInterState ? ' from another state' : ' within your state'}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !billable?.client || !settings?.stateCode}
+              className="cursor-pointer"
+            >
+              {isSubmitting ? 'Raising...' : 'Raise Invoice'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@
  * Features:
  * - Amount, Date, Payment Method, Reference Number, Notes
  * - Payment mode toggle (Cash, Bank Transfer, Cheque)
+ * - Installment of the payment schedule the payment is received against
  */
 
 import { useEffect } from 'react';
@@ -13,6 +14,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Money, Bank, CreditCard } from '@phosphor-icons/react';
 import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
 
 import {
   Dialog,
@@ -24,22 +26,35 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { DatePicker } from '@/components/ui/custom/date-picker';
 import { cn } from '@/lib/utils';
 import { useCreatePayment, useUpdatePayment } from '@/lib/hooks/usePayments';
-import type { PaymentMode, Payment } from '@/lib/api/payments';
+import { usePaymentSchedule } from '@/lib/hooks/useInstallments';
+import type { PaymentMode, Payment, InstallmentAllocationInput } from '@/lib/api/payments';
+import type { Installment } from '@/lib/api/installments';
 
 // ============================================
 // Schema
 // ============================================
 
+// Select value leaving the payment to be allocated to the earliest open installments
+const AUTO_ALLOCATE = 'auto';
+
 const paymentFormSchema = z.object({
   amount: z.coerce.number().positive('Amount must be positive'),
   paymentDate: z.date({ required_error: 'Date is required' }),
   paymentMode: z.enum(['CASH', 'CHEQUE', 'ONLINE']),
   referenceNumber: z.string().optional(),
   notes: z.string().optional(),
+  installmentId: z.string(),
 });
 
 type PaymentFormData = z.infer<typeof paymentFormSchema>;
@@ -99,6 +114,25 @@ function PaymentModeToggle({ value, onChange }: PaymentModeToggleProps) {
   );
 }
 
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+/**
+ * What is still open on an installment for this payment, counting what the payment
+ * already covers of it as open
+ */
+function openAmount(installment: Installment, paymentId?: string): number {
+  const coveredByPayment = installment.allocations
+    .filter((allocation) => allocation.paymentId === paymentId)
+    .reduce((sum, allocation) => sum + Number(allocation.amount), 0);
+  return installment.outstanding + coveredByPayment;
+}
+
 // ============================================
 // Component
 // ============================================
@@ -112,6 +146,8 @@ export function RecordClientPaymentModal({
   const createMutation = useCreatePayment();
   const updateMutation = useUpdatePayment();
   const isEditing = !!payment;
+  const { data: schedule } = usePaymentSchedule(projectId);
+  const installments = schedule?.installments ?? [];
 
   const {
     register,
@@ -127,6 +163,7 @@ export function RecordClientPaymentModal({
       paymentMode: 'CASH',
       referenceNumber: '',
       notes: '',
+      installmentId: AUTO_ALLOCATE,
     },
   });
 
@@ -141,6 +178,7 @@ export function RecordClientPaymentModal({
           paymentMode: payment.paymentMode as PaymentMode,
           referenceNumber: payment.referenceNumber || '',
           notes: payment.notes || '',
+          installmentId: AUTO_ALLOCATE,
         });
       } else {
         // Create mode - reset to defaults
@@ -150,12 +188,25 @@ export function RecordClientPaymentModal({
           paymentMode: 'CASH',
           referenceNumber: '',
           notes: '',
+          installmentId: AUTO_ALLOCATE,
         });
       }
     }
   }, [open, reset, payment]);
 
   const onSubmit = async (data: PaymentFormData) => {
+    // A chosen installment takes as much of the payment as it has open; the rest is
+    // allocated automatically
+    const installment = installments.find((item) => item.id === data.installmentId);
+    const installmentAllocations: InstallmentAllocationInput[] | undefined = installment
+      ? [
+          {
+            installmentId: installment.id,
+            amount: Math.min(data.amount, openAmount(installment, payment?.id)),
+          },
+        ].filter((allocation) => allocation.amount > 0)
+      : undefined;
+
     try {
       if (isEditing && payment) {
         await updateMutation.mutateAsync({
@@ -166,6 +217,7 @@ export function RecordClientPaymentModal({
             paymentMode: data.paymentMode,
             referenceNumber: data.referenceNumber || undefined,
             notes: data.notes || undefined,
+            installmentAllocations,
           },
         });
         toast.success('Payment updated successfully');
@@ -178,12 +230,16 @@ export function RecordClientPaymentModal({
           paymentMode: data.paymentMode,
           referenceNumber: data.referenceNumber || undefined,
           notes: data.notes || undefined,
+          installmentAllocations,
         });
         toast.success('Payment recorded successfully');
       }
       onOpenChange(false);
-    } catch {
-      toast.error(isEditing ? 'Failed to update payment' : 'Failed to record payment');
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(
+        message || (isEditing ? 'Failed to update payment' : 'Failed to record payment')
+      );
     }
   };
 
@@ -247,6 +303,35 @@ export function RecordClientPaymentModal({
             />
           </div>
 
+          {/* Installment */}
+          {installments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Against installment</Label>
+              <Controller
+                name="installmentId"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_ALLOCATE}>Earliest open installments</SelectItem>
+                      {installments
+                        .filter((installment) => openAmount(installment, payment?.id) > 0)
+                        .map((installment) => (
+                          <SelectItem key={installment.id} value={installment.id}>
+                            {installment.name} ·{' '}
+                            {formatCurrency(openAmount(installment, payment?.id))} open
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          )}
+
           {/* Reference Number */}
           <div className="space-y-2">
             <Label htmlFor="referenceNumber">Reference Number</Label>
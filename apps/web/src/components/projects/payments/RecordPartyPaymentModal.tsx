@@ -3,18 +3,22 @@
  *
  * Modal dialog for recording party payments (type = OUT).
  * Features:
- * - Party selection with outstanding amount display
- * - Pay against expense selection (optional)
+ * - Party selection with outstanding amount and advance on account display
+ * - Allocation across the party's bills, oldest first or chosen by hand
  * - Amount, Date, Payment Method, Reference Number, Notes
+ * - TDS deducted under a section, with the net amount the party receives
+ * - Warning on bills that disagree with the purchase order they are matched to
  * - Payment mode toggle (Cash, Bank Transfer, Cheque)
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
+import { format } from 'date-fns';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Money, Bank, CreditCard } from '@phosphor-icons/react';
 import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
 
 import {
   Dialog,
@@ -36,6 +40,7 @@ import {
 } from '@/components/ui/select';
 import { DatePicker } from '@/components/ui/custom/date-picker';
 import { cn } from '@/lib/utils';
+import { TDS_SECTIONS, tdsSectionRate } from '@/lib/tds';
 import { useParties } from '@/lib/hooks/useParties';
 import {
   useCreatePayment,
@@ -43,7 +48,9 @@ import {
   usePartyOutstanding,
   usePartyUnpaidExpenses,
 } from '@/lib/hooks/usePayments';
-import type { PaymentMode, Payment } from '@/lib/api/payments';
+import type { PaymentMode, Payment, ExpenseAllocationInput } from '@/lib/api/payments';
+import type { MatchIssue } from '@/lib/api/purchase-orders';
+import { MATCH_ISSUE_LABELS } from '@/components/projects/purchases/format';
 
 // ============================================
 // Schema
@@ -51,8 +58,10 @@ import type { PaymentMode, Payment } from '@/lib/api/payments';
 
 const paymentFormSchema = z.object({
   partyId: z.string().min(1, 'Party is required'),
-  expenseId: z.string().optional(),
   amount: z.coerce.number().positive('Amount must be positive'),
+  // 'none' when no TDS is deducted; a blank rate uses the section's usual rate
+  tdsSection: z.string(),
+  tdsRate: z.string().regex(/^(\d+(\.\d{1,2})?)?$/, 'Enter a valid rate'),
   paymentDate: z.date({ required_error: 'Date is required' }),
   paymentMode: z.enum(['CASH', 'CHEQUE', 'ONLINE']),
   referenceNumber: z.string().optional(),
@@ -72,6 +81,18 @@ interface RecordPartyPaymentModalProps {
   payment?: Payment | null;
 }
 
+type AllocationMode = 'auto' | 'manual';
+
+// A bill the payment can be allocated to, with what is open on it for this payment
+interface AllocatableBill {
+  id: string;
+  description: string;
+  expenseDate: string;
+  open: number;
+  // What disagrees with the purchase order the bill is matched to
+  matchIssues: MatchIssue[];
+}
+
 interface PaymentModeOption {
   value: PaymentMode;
   label: string;
@@ -135,6 +156,8 @@ export function RecordPartyPaymentModal({
   payment,
 }: RecordPartyPaymentModalProps) {
   const [selectedPartyId, setSelectedPartyId] = useState<string>('');
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>('auto');
+  const [manualAmounts, setManualAmounts] = useState<Record<string, string>>({});
 
   const createMutation = useCreatePayment();
   const updateMutation = useUpdatePayment();
@@ -152,6 +175,41 @@ export function RecordPartyPaymentModal({
   // Fetch unpaid expenses for selected party
   const { data: unpaidExpenses = [] } = usePartyUnpaidExpenses(projectId, selectedPartyId);
 
+  // Bills this payment can cover. When editing, what the payment already covers is
+  // open to it again, including bills it has paid off.
+  const bills = useMemo<AllocatableBill[]>(() => {
+    const own = payment && payment.partyId === selectedPartyId ? (payment.allocations ?? []) : [];
+    const ownAmount = (expenseId: string) =>
+      own
+        .filter((allocation) => allocation.expenseId === expenseId)
+        .reduce((sum, allocation) => sum + Number(allocation.amount), 0);
+
+    const unpaid = unpaidExpenses.map((expense) => ({
+      id: expense.id,
+      description: expense.description || 'Expense',
+      expenseDate: expense.expenseDate,
+      open: expense.outstanding + ownAmount(expense.id),
+      matchIssues: expense.matchIssues,
+    }));
+    const paidOff = own
+      .filter(
+        (allocation) => !unpaidExpenses.some((expense) => expense.id === allocation.expenseId)
+      )
+      .map((allocation) => ({
+        id: allocation.expenseId,
+        description: allocation.expense.description || 'Expense',
+        expenseDate: allocation.expense.expenseDate,
+        open: Number(allocation.amount),
+        matchIssues: [],
+      }));
+
+    return [...unpaid, ...paidOff].sort(
+      (a, b) => new Date(a.expenseDate).getTime() - new Date(b.expenseDate).getTime()
+    );
+  }, [unpaidExpenses, payment, selectedPartyId]);
+
+  const mismatchedBills = bills.filter((bill) => bill.matchIssues.length > 0).length;
+
   const {
     register,
     handleSubmit,
@@ -163,8 +221,9 @@ export function RecordPartyPaymentModal({
     resolver: zodResolver(paymentFormSchema),
     defaultValues: {
       partyId: '',
-      expenseId: undefined,
       amount: undefined,
+      tdsSection: 'none',
+      tdsRate: '',
       paymentDate: new Date(),
       paymentMode: 'CASH',
       referenceNumber: '',
@@ -173,6 +232,19 @@ export function RecordPartyPaymentModal({
   });
 
   const watchedPartyId = watch('partyId');
+  const watchedAmount = Number(watch('amount')) || 0;
+  const watchedTdsSection = watch('tdsSection');
+  const watchedTdsRate = watch('tdsRate');
+
+  const hasTds = watchedTdsSection !== 'none';
+  const tdsRate = Number(watchedTdsRate) || tdsSectionRate(watchedTdsSection) || 0;
+  const tdsAmount = hasTds ? Math.round(watchedAmount * tdsRate) / 100 : 0;
+
+  const allocatedTotal = Object.values(manualAmounts).reduce(
+    (sum, value) => sum + (Number(value) || 0),
+    0
+  );
+  const unallocated = Math.max(0, watchedAmount - allocatedTotal);
 
   // Update selected party when form changes
   useEffect(() => {
@@ -186,43 +258,83 @@ export function RecordPartyPaymentModal({
         // Edit mode - populate form with existing data
         reset({
           partyId: payment.partyId || '',
-          expenseId: payment.expenseId || undefined,
           amount: Number(payment.amount),
+          tdsSection: payment.tdsSection ?? 'none',
+          tdsRate: payment.tdsRate != null ? String(Number(payment.tdsRate)) : '',
           paymentDate: new Date(payment.paymentDate),
           paymentMode: payment.paymentMode as PaymentMode,
           referenceNumber: payment.referenceNumber || '',
           notes: payment.notes || '',
         });
         setSelectedPartyId(payment.partyId || '');
+        setManualAmounts(
+          Object.fromEntries(
+            (payment.allocations ?? []).map((allocation) => [
+              allocation.expenseId,
+              String(Number(allocation.amount)),
+            ])
+          )
+        );
       } else {
         // Create mode - reset to defaults
         reset({
           partyId: '',
-          expenseId: undefined,
           amount: undefined,
+          tdsSection: 'none',
+          tdsRate: '',
           paymentDate: new Date(),
           paymentMode: 'CASH',
           referenceNumber: '',
           notes: '',
         });
         setSelectedPartyId('');
+        setManualAmounts({});
       }
+      setAllocationMode(payment?.allocatedByHand ? 'manual' : 'auto');
     }
   }, [open, reset, payment]);
 
+  const handleManualAmountChange = (expenseId: string, value: string) => {
+    setManualAmounts((current) => ({ ...current, [expenseId]: value }));
+  };
+
   const onSubmit = async (data: PaymentFormData) => {
+    // Bills chosen by hand are paid as chosen and whatever is left is held on account;
+    // otherwise the oldest bills are paid first
+    let allocations: ExpenseAllocationInput[] | undefined;
+    if (allocationMode === 'manual') {
+      allocations = bills
+        .map((bill) => ({ expenseId: bill.id, amount: Number(manualAmounts[bill.id]) || 0 }))
+        .filter((allocation) => allocation.amount > 0);
+
+      const overBill = bills.find((bill) => (Number(manualAmounts[bill.id]) || 0) > bill.open);
+      if (overBill) {
+        toast.error(`Only ${formatCurrency(overBill.open)} is open on ${overBill.description}`);
+        return;
+      }
+      if (allocatedTotal > data.amount) {
+        toast.error('Allocations add up to more than the payment amount');
+        return;
+      }
+    }
+
+    const hasTdsSection = data.tdsSection !== 'none';
+    const tdsRate = hasTdsSection && data.tdsRate ? Number(data.tdsRate) : undefined;
+
     try {
       if (isEditing && payment) {
         await updateMutation.mutateAsync({
           id: payment.id,
           data: {
             partyId: data.partyId,
-            expenseId: data.expenseId || undefined,
             amount: data.amount,
+            tdsSection: hasTdsSection ? data.tdsSection : null,
+            tdsRate,
             paymentDate: data.paymentDate.toISOString(),
             paymentMode: data.paymentMode,
             referenceNumber: data.referenceNumber || undefined,
             notes: data.notes || undefined,
+            allocations,
           },
         });
         toast.success('Payment updated successfully');
@@ -230,19 +342,22 @@ export function RecordPartyPaymentModal({
         await createMutation.mutateAsync({
           projectId,
           partyId: data.partyId,
-          expenseId: data.expenseId || undefined,
           type: 'OUT',
           amount: data.amount,
+          tdsSection: hasTdsSection ? data.tdsSection : undefined,
+          tdsRate,
           paymentDate: data.paymentDate.toISOString(),
           paymentMode: data.paymentMode,
           referenceNumber: data.referenceNumber || undefined,
           notes: data.notes || undefined,
+          allocations,
         });
         toast.success('Payment recorded successfully');
       }
       onOpenChange(false);
-    } catch {
-      toast.error(isEditing ? 'Failed to update payment' : 'Failed to record payment');
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || (isEditing ? 'Failed to update payment' : 'Failed to record payment'));
     }
   };
 
@@ -280,38 +395,89 @@ export function RecordPartyPaymentModal({
 
           {/* Outstanding Amount Display */}
           {selectedPartyId && outstandingData && (
-            <div className="rounded-lg bg-muted/50 p-3">
+            <div className="rounded-lg bg-muted/50 p-3 space-y-1">
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Outstanding Amount</span>
                 <span className="text-lg font-semibold text-orange-600">
                   {formatCurrency(outstandingData.outstanding)}
                 </span>
               </div>
+              {outstandingData.onAccount > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Advance on account</span>
+                  <span className="text-sm font-medium">
+                    {formatCurrency(outstandingData.onAccount)}
+                  </span>
+                </div>
+              )}
             </div>
           )}
 
-          {/* Pay Against Expense (Optional) */}
-          {selectedPartyId && unpaidExpenses.length > 0 && (
+          {/* Allocation across the party's bills */}
+          {selectedPartyId && bills.length > 0 && (
             <div className="space-y-2">
-              <Label>Pay Against (Optional)</Label>
-              <Controller
-                name="expenseId"
-                control={control}
-                render={({ field }) => (
-                  <Select value={field.value || ''} onValueChange={field.onChange}>
-                    <SelectTrigger className="cursor-pointer">
-                      <SelectValue placeholder="Select expense" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {unpaidExpenses.map((expense) => (
-                        <SelectItem key={expense.id} value={expense.id} className="cursor-pointer">
-                          {expense.description} - Outstanding: {formatCurrency(expense.outstanding)}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                )}
-              />
+              <Label>Allocate To</Label>
+              <Select
+                value={allocationMode}
+                onValueChange={(value) => setAllocationMode(value as AllocationMode)}
+              >
+                <SelectTrigger className="cursor-pointer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto" className="cursor-pointer">
+                    Oldest bills first
+                  </SelectItem>
+                  <SelectItem value="manual" className="cursor-pointer">
+                    Choose bills
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+
+              {allocationMode === 'manual' && (
+                <div className="rounded-lg border divide-y">
+                  {bills.map((bill) => (
+                    <div key={bill.id} className="flex items-center gap-3 p-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{bill.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(bill.expenseDate), 'MMM d, yyyy')} · Open:{' '}
+                          {formatCurrency(bill.open)}
+                        </p>
+                        {bill.matchIssues.length > 0 && (
+                          <p className="text-xs text-amber-600">
+                            {bill.matchIssues.map((issue) => MATCH_ISSUE_LABELS[issue]).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="0"
+                        className="w-28"
+                        value={manualAmounts[bill.id] ?? ''}
+                        onChange={(event) => handleManualAmountChange(bill.id, event.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {mismatchedBills > 0 && (
+                <p className="text-xs text-amber-600">
+                  {mismatchedBills === 1
+                    ? '1 bill disagrees with its purchase order.'
+                    : `${mismatchedBills} bills disagree with their purchase orders.`}{' '}
+                  Check before paying.
+                </p>
+              )}
+
+              {allocationMode === 'manual' && unallocated > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(unallocated)} not chosen here is held as an advance on account.
+                </p>
+              )}
             </div>
           )}
 
@@ -334,6 +500,65 @@ export function RecordPartyPaymentModal({
             {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
           </div>
 
+          {/* TDS deducted from the amount */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>TDS Section</Label>
+              <Controller
+                name="tdsSection"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="cursor-pointer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none" className="cursor-pointer">
+                        No TDS
+                      </SelectItem>
+                      {TDS_SECTIONS.map((section) => (
+                        <SelectItem
+                          key={section.code}
+                          value={section.code}
+                          className="cursor-pointer"
+                        >
+                          {section.code} - {section.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tdsRate">TDS Rate (%)</Label>
+              <Input
+                id="tdsRate"
+                type="number"
+                step="0.01"
+                placeholder={hasTds ? String(tdsSectionRate(watchedTdsSection) ?? '') : '-'}
+                disabled={!hasTds}
+                {...register('tdsRate')}
+              />
+              {errors.tdsRate && (
+                <p className="text-sm text-destructive">{errors.tdsRate.message}</p>
+              )}
+            </div>
+          </div>
+
+          {hasTds && watchedAmount > 0 && (
+            <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">TDS deducted</span>
+                <span className="font-medium">{formatCurrency(tdsAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid to party</span>
+                <span className="font-semibold">{formatCurrency(watchedAmount - tdsAmount)}</span>
+              </div>
+            </div>
+          )}
+
           {/* Date */}
           <div className="space-y-2">
             <Label>Date *</Label>
@@ -0,0 +1,94 @@
+/**
+ * Reject Claim Dialog
+ *
+ * Asks why an advance claim is rejected. The reason is shown to the member,
+ * and the claim never counts against their cash in hand.
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useRejectAdvanceClaim } from '@/lib/hooks/useAdvanceClaims';
+
+interface RejectClaimDialogProps {
+  claimId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RejectClaimDialog({ claimId, onOpenChange }: RejectClaimDialogProps) {
+  const [reason, setReason] = useState('');
+  const rejectMutation = useRejectAdvanceClaim();
+
+  useEffect(() => {
+    if (claimId) setReason('');
+  }, [claimId]);
+
+  const handleReject = async () => {
+    if (!claimId || !reason.trim()) return;
+
+    try {
+      await rejectMutation.mutateAsync({ id: claimId, reason: reason.trim() });
+      toast.success('Claim rejected');
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to reject claim');
+    }
+  };
+
+  return (
+    <Dialog open={!!claimId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Reject Claim</DialogTitle>
+          <DialogDescription>
+            The member sees this reason. A rejected claim is not deducted from their advance.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="claim-rejection-reason">
+            Reason <span className="text-destructive">*</span>
+          </Label>
+          <Textarea
+            id="claim-rejection-reason"
+            placeholder="e.g. Bill is missing, expense is not for this project"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={rejectMutation.isPending}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleReject}
+            disabled={!reason.trim() || rejectMutation.isPending}
+            className="cursor-pointer"
+          >
+            {rejectMutation.isPending ? 'Rejecting...' : 'Reject'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
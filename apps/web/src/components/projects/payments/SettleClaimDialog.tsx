@@ -0,0 +1,276 @@
+/**
+ * Settle Claim Dialog
+ *
+ * Settles an advance claim against the member's cash in hand. What is left
+ * after the claim can stay with the member for the next purchase, be returned,
+ * or — when they spent more than they were given — be reimbursed.
+ */
+
+import { useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useMemberAdvanceSummary } from '@/lib/hooks/useMemberAdvances';
+import { useSettleAdvanceClaim } from '@/lib/hooks/useAdvanceClaims';
+import type { AdvanceClaim, AdvanceSettlementType } from '@/lib/api/advance-claims';
+import type { PaymentMode } from '@/lib/api/member-advances';
+
+// ============================================
+// Constants
+// ============================================
+
+const SETTLEMENT_TYPE_LABELS: Record<AdvanceSettlementType, string> = {
+  CARRIED_FORWARD: 'Keep balance with member',
+  RETURNED: 'Member returns unused cash',
+  REIMBURSED: 'Reimburse the member',
+};
+
+const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  CASH: 'Cash',
+  ONLINE: 'Bank Transfer',
+  CHEQUE: 'Cheque',
+};
+
+// ============================================
+// Schema
+// ============================================
+
+const settleFormSchema = z.object({
+  type: z.enum(['CARRIED_FORWARD', 'RETURNED', 'REIMBURSED']),
+  amount: z.coerce.number().nonnegative().optional(),
+  paymentMode: z.enum(['CASH', 'ONLINE', 'CHEQUE']),
+  settledAt: z.date({ required_error: 'Date is required' }),
+  notes: z.string().optional(),
+});
+
+type SettleFormData = z.infer<typeof settleFormSchema>;
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+// ============================================
+// Component
+// ============================================
+
+interface SettleClaimDialogProps {
+  claim: AdvanceClaim | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SettleClaimDialog({ claim, onOpenChange }: SettleClaimDialogProps) {
+  const settleMutation = useSettleAdvanceClaim();
+  const { data: summary } = useMemberAdvanceSummary(claim?.projectId ?? '', claim?.memberId ?? '');
+
+  const cashInHand = summary?.balance ?? 0;
+  const claimAmount = Number(claim?.amount ?? 0);
+  const remaining = cashInHand - claimAmount;
+  const available = Math.abs(remaining);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { isSubmitting },
+  } = useForm<SettleFormData>({
+    resolver: zodResolver(settleFormSchema),
+    defaultValues: {
+      type: 'CARRIED_FORWARD',
+      paymentMode: 'CASH',
+      settledAt: new Date(),
+      notes: '',
+    },
+  });
+
+  const type = watch('type');
+
+  useEffect(() => {
+    if (!claim) return;
+    reset({
+      type: 'CARRIED_FORWARD',
+      amount: undefined,
+      paymentMode: 'CASH',
+      settledAt: new Date(),
+      notes: '',
+    });
+  }, [claim, reset]);
+
+  // Cash can only go back to whoever is owed it
+  const settlementTypes: AdvanceSettlementType[] = [
+    'CARRIED_FORWARD',
+    ...(remaining > 0 ? (['RETURNED'] as const) : []),
+    ...(remaining < 0 ? (['REIMBURSED'] as const) : []),
+  ];
+
+  const onSubmit = async (data: SettleFormData) => {
+    if (!claim) return;
+    const movesCash = data.type !== 'CARRIED_FORWARD';
+
+    try {
+      await settleMutation.mutateAsync({
+        id: claim.id,
+        data: {
+          type: data.type,
+          amount: movesCash ? data.amount : undefined,
+          paymentMode: movesCash ? data.paymentMode : undefined,
+          settledAt: data.settledAt.toISOString(),
+          notes: data.notes || undefined,
+        },
+      });
+      toast.success('Claim settled');
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to settle claim');
+    }
+  };
+
+  return (
+    <Dialog open={!!claim} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Settle Claim</DialogTitle>
+          <DialogDescription>{claim?.description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {/* Cash position */}
+          <div className="rounded-lg border bg-muted/40 p-3 space-y-1.5 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Cash in hand</span>
+              <span className="font-medium">{formatCurrency(cashInHand)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">This claim</span>
+              <span className="font-medium text-red-600">-{formatCurrency(claimAmount)}</span>
+            </div>
+            <div className="flex justify-between border-t pt-1.5">
+              <span className="font-medium">
+                {remaining < 0 ? 'Owed to member' : 'Left with member'}
+              </span>
+              <span className="font-semibold">{formatCurrency(available)}</span>
+            </div>
+          </div>
+
+          {/* Outcome */}
+          <div className="space-y-2">
+            <Label>Outcome</Label>
+            <Controller
+              name="type"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {settlementTypes.map((option) => (
+                      <SelectItem key={option} value={option} className="cursor-pointer">
+                        {SETTLEMENT_TYPE_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+
+          {type !== 'CARRIED_FORWARD' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="settle-amount">Amount (₹)</Label>
+                <Input
+                  id="settle-amount"
+                  type="number"
+                  step="0.01"
+                  placeholder={available.toFixed(2)}
+                  {...register('amount')}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Payment mode</Label>
+                <Controller
+                  name="paymentMode"
+                  control={control}
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="cursor-pointer">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map((mode) => (
+                          <SelectItem key={mode} value={mode} className="cursor-pointer">
+                            {PAYMENT_MODE_LABELS[mode]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Date */}
+          <div className="space-y-2">
+            <Label>Settlement date</Label>
+            <Controller
+              name="settledAt"
+              control={control}
+              render={({ field }) => <DatePicker value={field.value} onChange={field.onChange} />}
+            />
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="settle-notes">Notes</Label>
+            <Textarea id="settle-notes" rows={2} {...register('notes')} />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Settling...' : 'Settle Claim'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
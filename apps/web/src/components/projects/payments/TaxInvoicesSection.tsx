@@ -0,0 +1,328 @@
+/**
+ * Tax Invoices Section
+ *
+ * A project's GST tax invoices on the client payments tab:
+ * - Invoices raised to the client with their GST and what receipts cover
+ * - Invoiced, GST and outstanding totals
+ * - Raise, download and cancel invoices, and edit the organization's GST details
+ */
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Plus, DotsThree, DownloadSimple, Prohibit, Receipt, GearSix } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useProjectInvoices, useCancelTaxInvoice } from '@/lib/hooks/useTaxInvoices';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { downloadTaxInvoice } from '@/lib/api/tax-invoices';
+import { saveFile } from '@/lib/utils';
+import { RaiseInvoiceDialog } from './RaiseInvoiceDialog';
+import { InvoiceSettingsDialog } from './InvoiceSettingsDialog';
+import type { InvoicePaymentStatus, TaxInvoice } from '@/lib/api/tax-invoices';
+
+// ============================================
+// Types
+// ============================================
+
+interface TaxInvoicesSectionProps {
+  projectId: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const STATUS_CONFIG: Record<
+  InvoicePaymentStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  UNPAID: { label: 'Unpaid', variant: 'outline' },
+  PARTIALLY_PAID: { label: 'Partially paid', variant: 'secondary' },
+  PAID: { label: 'Paid', variant: 'default' },
+  CANCELLED: { label: 'Cancelled', variant: 'destructive' },
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+function getTaxAmount(invoice: TaxInvoice): number {
+  return Number(invoice.cgstAmount) + Number(invoice.sgstAmount) + Number(invoice.igstAmount);
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function TaxInvoicesSection({ projectId }: TaxInvoicesSectionProps) {
+  const can = useCan();
+  const canManage = can('invoices.manage');
+
+  const [isRaiseOpen, setIsRaiseOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [invoiceToCancel, setInvoiceToCancel] = useState<TaxInvoice | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const { data, isLoading } = useProjectInvoices(projectId);
+  const cancelMutation = useCancelTaxInvoice();
+
+  const handleDownload = useCallback(async (invoice: TaxInvoice) => {
+    try {
+      const { blob, fileName } = await downloadTaxInvoice(invoice.id);
+      saveFile(blob, fileName);
+    } catch {
+      toast.error('Failed to download invoice');
+    }
+  }, []);
+
+  const handleCancelConfirm = useCallback(async () => {
+    if (!invoiceToCancel || !cancelReason.trim()) return;
+
+    try {
+      await cancelMutation.mutateAsync({ id: invoiceToCancel.id, reason: cancelReason.trim() });
+      toast.success(`Invoice ${invoiceToCancel.invoiceNumber} cancelled`);
+      setInvoiceToCancel(null);
+      setCancelReason('');
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to cancel invoice');
+    }
+  }, [invoiceToCancel, cancelReason, cancelMutation]);
+
+  const invoices = data?.invoices ?? [];
+  const summary = data?.summary;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 pb-4">
+        <div>
+          <h3 className="font-medium">Tax Invoices</h3>
+          <p className="text-sm text-muted-foreground">
+            GST invoices raised to the client for work done
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsSettingsOpen(true)}
+              className="cursor-pointer"
+            >
+              <GearSix className="mr-2 h-4 w-4" />
+              GST Details
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsRaiseOpen(true)}
+              className="cursor-pointer"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Raise Invoice
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Totals */}
+      {summary && invoices.length > 0 && (
+        <div className="flex gap-4 px-5 pb-4">
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">Invoiced</p>
+            <p className="text-lg font-semibold">{formatCurrency(summary.invoicedAmount)}</p>
+          </div>
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">GST charged</p>
+            <p className="text-lg font-semibold">{formatCurrency(summary.taxAmount)}</p>
+          </div>
+          <div className="flex-1 rounded-md border bg-muted/30 p-3">
+            <p className="text-xs text-muted-foreground mb-1">Outstanding</p>
+            <p
+              className={`text-lg font-semibold ${summary.outstandingAmount > 0 ? 'text-amber-600' : ''}`}
+            >
+              {formatCurrency(summary.outstandingAmount)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Invoices */}
+      {isLoading ? (
+        <div className="space-y-2 px-5 pb-5">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+          ))}
+        </div>
+      ) : invoices.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 border-t px-5 py-8 text-center">
+          <Receipt className="h-6 w-6 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            No invoices yet. Raise one from BOQ quantities or completed stages.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>INVOICE</TableHead>
+              <TableHead>DATE</TableHead>
+              <TableHead className="text-right">TAXABLE</TableHead>
+              <TableHead className="text-right">GST</TableHead>
+              <TableHead className="text-right">TOTAL</TableHead>
+              <TableHead className="text-right">RECEIVED</TableHead>
+              <TableHead>STATUS</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoices.map((invoice) => (
+              <TableRow key={invoice.id}>
+                <TableCell>
+                  <p className="text-sm font-medium">{invoice.invoiceNumber}</p>
+                  {invoice.cancellationReason && (
+                    <p className="text-xs text-muted-foreground max-w-[220px] truncate">
+                      {invoice.cancellationReason}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {format(new Date(invoice.invoiceDate), 'MMM d, yyyy')}
+                </TableCell>
+                <TableCell className="text-right text-sm">
+                  {formatCurrency(Number(invoice.taxableAmount))}
+                </TableCell>
+                <TableCell className="text-right text-sm">
+                  <p>{formatCurrency(getTaxAmount(invoice))}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {invoice.isInterState ? 'IGST' : 'CGST + SGST'}
+                  </p>
+                </TableCell>
+                <TableCell className="text-right text-sm font-medium">
+                  {formatCurrency(Number(invoice.totalAmount))}
+                </TableCell>
+                <TableCell className="text-right text-sm text-green-600">
+                  {formatCurrency(invoice.received)}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_CONFIG[invoice.paymentStatus].variant}>
+                    {STATUS_CONFIG[invoice.paymentStatus].label}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                        <DotsThree className="h-4 w-4" weight="bold" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => handleDownload(invoice)}
+                        className="cursor-pointer"
+                      >
+                        <DownloadSimple className="h-4 w-4 mr-2" />
+                        Download PDF
+                      </DropdownMenuItem>
+                      {canManage && invoice.status === 'ISSUED' && (
+                        <DropdownMenuItem
+                          onClick={() => setInvoiceToCancel(invoice)}
+                          className="cursor-pointer text-destructive focus:text-destructive"
+                        >
+                          <Prohibit className="h-4 w-4 mr-2" />
+                          Cancel Invoice
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Raise Invoice */}
+      <RaiseInvoiceDialog open={isRaiseOpen} onOpenChange={setIsRaiseOpen} projectId={projectId} />
+
+      {/* GST Details */}
+      <InvoiceSettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+
+      {/* Cancel Confirmation */}
+      <AlertDialog
+        open={!!invoiceToCancel}
+        onOpenChange={(open) => {
+          if (!open) {
+            setInvoiceToCancel(null);
+            setCancelReason('');
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Invoice</AlertDialogTitle>
+            <AlertDialogDescription>
+              Cancel {invoiceToCancel?.invoiceNumber}? Its number is not reused, and receipts
+              against it will be set against the project's other invoices.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancelReason">Reason *</Label>
+            <Textarea
+              id="cancelReason"
+              rows={2}
+              value={cancelReason}
+              onChange={(event) => setCancelReason(event.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cancelMutation.isPending} className="cursor-pointer">
+              Keep
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancelConfirm}
+              disabled={cancelMutation.isPending || !cancelReason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {cancelMutation.isPending ? 'Cancelling...' : 'Cancel Invoice'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -3,14 +3,24 @@
  *
  * Displays team member advances for a project with:
  * - Member selector dropdown
- * - Right sidebar with selected member's summary (Advance Given, Expenses Logged, Balance)
+ * - Right sidebar with selected member's summary (Advance Given, Expenses Logged, Cash in Hand)
  * - Advances table with pagination
  * - Give Cash Advance button
+ * - Expenses members paid from their advance, and their settlement
  */
 
 import { useState, useCallback } from 'react';
 import { format } from 'date-fns';
-import { Plus, DotsThree, Trash, CircleNotch, FunnelIcon, User, PencilSimple } from '@phosphor-icons/react';
+import {
+  Plus,
+  DotsThree,
+  Trash,
+  CircleNotch,
+  FunnelIcon,
+  User,
+  PencilSimple,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -45,14 +55,17 @@ import {
   EmptyContent,
 } from '@/components/ui/empty';
 import { TablePagination } from '@/components/ui/table-pagination';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
 import {
   useMemberAdvances,
   useMemberAdvanceSummary,
   useProjectMembers,
   useDeleteMemberAdvance,
 } from '@/lib/hooks/useMemberAdvances';
+import { useCan } from '@/lib/hooks/usePermissions';
 import { GiveCashAdvanceModal } from './GiveCashAdvanceModal';
 import { DeleteAdvanceDialog } from './DeleteAdvanceDialog';
+import { AdvanceClaimsSection } from './AdvanceClaimsSection';
 import type { MemberAdvance, MemberAdvanceSortBy, SortOrder } from '@/lib/api/member-advances';
 
 // ============================================
@@ -116,8 +129,10 @@ export function TeamMemberPaymentsTab({
   initialMemberId,
   onMemberIdChange,
 }: TeamMemberPaymentsTabProps) {
+  const can = useCan();
   // State
   const [page, setPage] = useState(1);
+  const [historyAdvanceId, setHistoryAdvanceId] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<MemberAdvanceSortBy>('advanceDate');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
@@ -360,6 +375,15 @@ export function TeamMemberPaymentsTab({
                             <PencilSimple className="h-4 w-4 mr-2" />
                             Edit
                           </DropdownMenuItem>
+                          {can('audit.view') && (
+                            <DropdownMenuItem
+                              onClick={() => setHistoryAdvanceId(advance.id)}
+                              className="cursor-pointer"
+                            >
+                              <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                              History
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem
                             onClick={() => handleDeleteClick(advance)}
                             className="cursor-pointer text-destructive focus:text-destructive"
@@ -428,10 +452,40 @@ export function TeamMemberPaymentsTab({
                 )}
               </div>
 
+              {/* Pending Claims */}
+              {(memberSummary?.pendingClaims ?? 0) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Pending Claims</span>
+                  <span className="font-medium text-muted-foreground">
+                    {formatCurrency(memberSummary?.pendingClaims ?? 0)}
+                  </span>
+                </div>
+              )}
+
+              {/* Cash Returned */}
+              {(memberSummary?.cashReturned ?? 0) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Cash Returned</span>
+                  <span className="font-medium text-green-600">
+                    {formatCurrency(memberSummary?.cashReturned ?? 0)}
+                  </span>
+                </div>
+              )}
+
+              {/* Reimbursed */}
+              {(memberSummary?.reimbursed ?? 0) > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Reimbursed</span>
+                  <span className="font-medium text-red-600">
+                    {formatCurrency(memberSummary?.reimbursed ?? 0)}
+                  </span>
+                </div>
+              )}
+
               <div className="border-t pt-3">
-                {/* Balance */}
+                {/* Cash in Hand */}
                 <div className="flex justify-between">
-                  <span className="text-sm font-medium">Balance</span>
+                  <span className="text-sm font-medium">Cash in Hand</span>
                   {isSummaryLoading ? (
                     <div className="h-5 w-16 bg-muted animate-pulse rounded" />
                   ) : (
@@ -447,6 +501,9 @@ export function TeamMemberPaymentsTab({
       )}
           </div>
         )}
+
+        {/* Expenses from Advance */}
+        <AdvanceClaimsSection projectId={projectId} memberId={selectedMemberId || undefined} />
       </div>
 
       
@@ -471,6 +528,15 @@ export function TeamMemberPaymentsTab({
         onConfirm={handleDeleteConfirm}
         isDeleting={deleteMutation.isPending}
       />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyAdvanceId}
+        onOpenChange={(open) => !open && setHistoryAdvanceId(null)}
+        entityType="MEMBER_ADVANCE"
+        entityId={historyAdvanceId}
+        title="Advance history"
+      />
     </div>
   );
 }
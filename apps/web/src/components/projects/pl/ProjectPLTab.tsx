@@ -3,8 +3,8 @@
  *
  * Profit & Loss statement for the project showing:
  * - Summary cards (Revenue, Costs, Gross Profit, Margin)
- * - Cost breakdown by category
- * - Revenue breakdown (client payments)
+ * - Cost breakdown by category, with party credit notes and write-offs
+ * - Revenue breakdown (original BOQ, approved variations, client payments)
  * - Trend chart
  */
 
@@ -78,7 +78,12 @@ export function ProjectPLTab({ projectId }: ProjectPLTabProps) {
   // Derived calculations
   const plData = useMemo(() => {
     const totalRevenue = boqStats?.totalQuoted ?? 0;
-    const totalCosts = boqStats?.totalActual ?? 0;
+    // Approved change orders revise the BOQ; what they added over the original quote
+    const variationRevenue = totalRevenue - (boqStats?.originalQuoted ?? totalRevenue);
+    // Party credit notes bring costs down; write-offs are a loss on the project
+    const creditNotes = projectStats?.totalCreditNotes ?? 0;
+    const writeOffs = projectStats?.totalWriteOffs ?? 0;
+    const totalCosts = (boqStats?.totalActual ?? 0) - creditNotes + writeOffs;
     const grossProfit = totalRevenue - totalCosts;
     const grossMargin = totalRevenue > 0 ? (grossProfit / totalRevenue) * 100 : 0;
     const budgetUsage = boqStats?.budgetUsage ?? 0;
@@ -89,7 +94,10 @@ export function ProjectPLTab({ projectId }: ProjectPLTabProps) {
 
     return {
       totalRevenue,
+      variationRevenue,
       totalCosts,
+      creditNotes,
+      writeOffs,
       grossProfit,
       grossMargin,
       budgetUsage,
@@ -266,6 +274,28 @@ export function ProjectPLTab({ projectId }: ProjectPLTabProps) {
               );
             })}
 
+            {/* Party adjustments */}
+            {(plData.creditNotes > 0 || plData.writeOffs > 0) && (
+              <div className="space-y-1 border-t pt-3 text-sm">
+                {plData.creditNotes > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Credit notes from parties</span>
+                    <span className="font-medium amount text-green-600">
+                      -{formatCurrency(plData.creditNotes)}
+                    </span>
+                  </div>
+                )}
+                {plData.writeOffs > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Amounts written off</span>
+                    <span className="font-medium amount text-red-600">
+                      +{formatCurrency(plData.writeOffs)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+
             {(Object.values(plData.categoryBreakdown) as { quoted: number; actual: number; count: number }[]).every(d => d.count === 0) && (
               <div className="text-center py-8 text-muted-foreground">
                 No cost data available. Add BOQ items and link expenses to see breakdown.
@@ -288,6 +318,20 @@ export function ProjectPLTab({ projectId }: ProjectPLTabProps) {
                 <span className="text-muted-foreground">Quoted Revenue</span>
                 <span className="font-semibold amount">{formatCurrency(plData.totalRevenue)}</span>
               </div>
+              {plData.variationRevenue !== 0 && (
+                <>
+                  <div className="flex items-center justify-between py-2 border-b pl-4 text-sm">
+                    <span className="text-muted-foreground">Original BOQ</span>
+                    <span className="amount">
+                      {formatCurrency(plData.totalRevenue - plData.variationRevenue)}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between py-2 border-b pl-4 text-sm">
+                    <span className="text-muted-foreground">Approved Variations</span>
+                    <span className="amount">{formatCurrency(plData.variationRevenue)}</span>
+                  </div>
+                </>
+              )}
               <div className="flex items-center justify-between py-2 border-b">
                 <span className="text-muted-foreground">Client Payments Received</span>
                 <span className="font-semibold text-green-600 amount">
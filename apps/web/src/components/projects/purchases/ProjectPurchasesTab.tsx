@@ -0,0 +1,388 @@
+/**
+ * Project Purchases Tab
+ *
+ * A project's purchase orders to vendors:
+ * - Orders with their approval, delivery and billing status
+ * - Orders whose bills disagree with what was ordered or received are flagged
+ * - Raise, edit, approve, reject and cancel orders, and receive goods against them
+ */
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  Plus,
+  DotsThree,
+  Eye,
+  PencilSimple,
+  Check,
+  X,
+  Prohibit,
+  Truck,
+  ShoppingCart,
+  Warning,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
+import {
+  useProjectPurchaseOrders,
+  useApprovePurchaseOrder,
+  useRejectPurchaseOrder,
+  useCancelPurchaseOrder,
+} from '@/lib/hooks/usePurchaseOrders';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { PurchaseOrderFormDialog } from './PurchaseOrderFormDialog';
+import { PurchaseOrderDetailDialog } from './PurchaseOrderDetailDialog';
+import { ReceiveGoodsDialog } from './ReceiveGoodsDialog';
+import { DELIVERY_STATUS_LABELS, ORDER_STATUS_CONFIG, formatCurrency } from './format';
+import type { PurchaseOrder } from '@/lib/api/purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+interface ProjectPurchasesTabProps {
+  projectId: string;
+}
+
+// An order being rejected or cancelled, which both take a reason
+interface ReasonAction {
+  order: PurchaseOrder;
+  action: 'reject' | 'cancel';
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ProjectPurchasesTab({ projectId }: ProjectPurchasesTabProps) {
+  const can = useCan();
+  const canManage = can('purchases.manage');
+  const canApprove = can('purchases.approve');
+  const canReceive = can('purchases.receive');
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [viewingOrderId, setViewingOrderId] = useState<string | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null);
+  const [reasonAction, setReasonAction] = useState<ReasonAction | null>(null);
+  const [reason, setReason] = useState('');
+
+  const { data: orders = [], isLoading } = useProjectPurchaseOrders(projectId);
+  const approveMutation = useApprovePurchaseOrder();
+  const rejectMutation = useRejectPurchaseOrder();
+  const cancelMutation = useCancelPurchaseOrder();
+
+  const openForm = useCallback((order: PurchaseOrder | null) => {
+    setEditingOrder(order);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleApprove = useCallback(
+    async (order: PurchaseOrder) => {
+      try {
+        await approveMutation.mutateAsync(order.id);
+        toast.success(`${order.orderNumber} approved`);
+      } catch (error) {
+        const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+        toast.error(message || 'Failed to approve order');
+      }
+    },
+    [approveMutation]
+  );
+
+  const closeReasonDialog = useCallback(() => {
+    setReasonAction(null);
+    setReason('');
+  }, []);
+
+  const handleReasonConfirm = useCallback(async () => {
+    if (!reasonAction || !reason.trim()) return;
+
+    const { order, action } = reasonAction;
+    const mutation = action === 'reject' ? rejectMutation : cancelMutation;
+    try {
+      await mutation.mutateAsync({ id: order.id, reason: reason.trim() });
+      toast.success(`${order.orderNumber} ${action === 'reject' ? 'rejected' : 'cancelled'}`);
+      closeReasonDialog();
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || `Failed to ${action} order`);
+    }
+  }, [reasonAction, reason, rejectMutation, cancelMutation, closeReasonDialog]);
+
+  const isReasonPending = rejectMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 pb-4">
+        <div>
+          <h3 className="font-medium">Purchase Orders</h3>
+          <p className="text-sm text-muted-foreground">
+            Orders to vendors, matched against goods received and bills
+          </p>
+        </div>
+        {canManage && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openForm(null)}
+            className="cursor-pointer"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Raise Order
+          </Button>
+        )}
+      </div>
+
+      {/* Orders */}
+      {isLoading ? (
+        <div className="space-y-2 px-5 pb-5">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+          ))}
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 border-t px-5 py-8 text-center">
+          <ShoppingCart className="h-6 w-6 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            No purchase orders yet. Raise one to order materials from a vendor.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ORDER</TableHead>
+              <TableHead>VENDOR</TableHead>
+              <TableHead>DATE</TableHead>
+              <TableHead className="text-right">AMOUNT</TableHead>
+              <TableHead className="text-right">BILLED</TableHead>
+              <TableHead>DELIVERY</TableHead>
+              <TableHead>STATUS</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.map((order) => {
+              const isOpen = order.status === 'PENDING' || order.status === 'REJECTED';
+              return (
+                <TableRow key={order.id}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      onClick={() => setViewingOrderId(order.id)}
+                      className="text-sm font-medium hover:underline cursor-pointer"
+                    >
+                      {order.orderNumber}
+                    </button>
+                    {order.hasMismatch && (
+                      <p className="flex items-center gap-1 text-xs text-amber-600">
+                        <Warning className="h-3 w-3" />
+                        Bills do not match
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{order.vendor.name}</TableCell>
+                  <TableCell className="text-sm">
+                    {format(new Date(order.orderDate), 'MMM d, yyyy')}
+                  </TableCell>
+                  <TableCell className="text-right text-sm font-medium">
+                    {formatCurrency(Number(order.totalAmount))}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatCurrency(order.billedAmount)}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {order.status === 'APPROVED'
+                      ? DELIVERY_STATUS_LABELS[order.deliveryStatus]
+                      : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={ORDER_STATUS_CONFIG[order.status].variant}>
+                      {ORDER_STATUS_CONFIG[order.status].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                          <DotsThree className="h-4 w-4" weight="bold" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => setViewingOrderId(order.id)}
+                          className="cursor-pointer"
+                        >
+                          <Eye className="h-4 w-4 mr-2" />
+                          View Match
+                        </DropdownMenuItem>
+                        {canReceive && order.status === 'APPROVED' && (
+                          <DropdownMenuItem
+                            onClick={() => setReceivingOrder(order)}
+                            className="cursor-pointer"
+                          >
+                            <Truck className="h-4 w-4 mr-2" />
+                            Receive Goods
+                          </DropdownMenuItem>
+                        )}
+                        {canApprove && order.status === 'PENDING' && (
+                          <>
+                            <DropdownMenuItem
+                              onClick={() => handleApprove(order)}
+                              className="cursor-pointer"
+                            >
+                              <Check className="h-4 w-4 mr-2" />
+                              Approve
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => setReasonAction({ order, action: 'reject' })}
+                              className="cursor-pointer"
+                            >
+                              <X className="h-4 w-4 mr-2" />
+                              Reject
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                        {canManage && isOpen && (
+                          <DropdownMenuItem
+                            onClick={() => openForm(order)}
+                            className="cursor-pointer"
+                          >
+                            <PencilSimple className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                        )}
+                        {can('audit.view') && (
+                          <DropdownMenuItem
+                            onClick={() => setHistoryOrderId(order.id)}
+                            className="cursor-pointer"
+                          >
+                            <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                            History
+                          </DropdownMenuItem>
+                        )}
+                        {canManage && order.status !== 'CANCELLED' && (
+                          <DropdownMenuItem
+                            onClick={() => setReasonAction({ order, action: 'cancel' })}
+                            className="cursor-pointer text-destructive focus:text-destructive"
+                          >
+                            <Prohibit className="h-4 w-4 mr-2" />
+                            Cancel Order
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Raise / Edit Order */}
+      <PurchaseOrderFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        projectId={projectId}
+        order={editingOrder}
+      />
+
+      {/* Three-way Match */}
+      <PurchaseOrderDetailDialog
+        orderId={viewingOrderId}
+        onOpenChange={(open) => !open && setViewingOrderId(null)}
+      />
+
+      {/* Receive Goods */}
+      <ReceiveGoodsDialog
+        order={receivingOrder}
+        onOpenChange={(open) => !open && setReceivingOrder(null)}
+      />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!historyOrderId}
+        onOpenChange={(open) => !open && setHistoryOrderId(null)}
+        entityType="PURCHASE_ORDER"
+        entityId={historyOrderId}
+        title="Order history"
+      />
+
+      {/* Reject / Cancel Confirmation */}
+      <AlertDialog open={!!reasonAction} onOpenChange={(open) => !open && closeReasonDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {reasonAction?.action === 'reject' ? 'Reject Order' : 'Cancel Order'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {reasonAction?.action === 'reject'
+                ? `Send ${reasonAction.order.orderNumber} back? It can be edited and resubmitted.`
+                : `Cancel ${reasonAction?.order.orderNumber}? Orders with goods received or bills cannot be cancelled.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="orderReason">Reason *</Label>
+            <Textarea
+              id="orderReason"
+              rows={2}
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReasonPending} className="cursor-pointer">
+              Keep
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleReasonConfirm}
+              disabled={isReasonPending || !reason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {isReasonPending
+                ? 'Saving...'
+                : reasonAction?.action === 'reject'
+                  ? 'Reject Order'
+                  : 'Cancel Order'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * Purchase Order Detail Dialog
+ *
+ * An order's lines with the three-way match of ordered, received and billed
+ * quantities, what disagrees on each line, and the goods received notes
+ * recorded against it.
+ */
+
+import { format } from 'date-fns';
+import { Warning } from '@phosphor-icons/react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { usePurchaseOrder } from '@/lib/hooks/usePurchaseOrders';
+import { MATCH_ISSUE_LABELS, formatCurrency } from './format';
+
+// ============================================
+// Types
+// ============================================
+
+interface PurchaseOrderDetailDialogProps {
+  orderId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function PurchaseOrderDetailDialog({
+  orderId,
+  onOpenChange,
+}: PurchaseOrderDetailDialogProps) {
+  const { data: order, isLoading } = usePurchaseOrder(orderId);
+
+  const linesById = new Map(order?.lines.map((line) => [line.id, line]) ?? []);
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{order?.orderNumber ?? 'Purchase Order'}</DialogTitle>
+          <DialogDescription>
+            {order
+              ? `${order.vendor.name} · ${format(new Date(order.orderDate), 'MMM d, yyyy')}`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !order ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {/* Approval */}
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Raised by</p>
+                <p>{order.createdBy?.user.name ?? '—'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Approved by</p>
+                <p>
+                  {order.approvedBy?.user.name ?? '—'}
+                  {order.approvedAt && (
+                    <span className="text-muted-foreground">
+                      {' '}
+                      on {format(new Date(order.approvedAt), 'MMM d, yyyy')}
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Order total</p>
+                <p className="font-medium">{formatCurrency(Number(order.totalAmount))}</p>
+              </div>
+            </div>
+            {(order.rejectionReason || order.cancellationReason) && (
+              <p className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                {order.status === 'CANCELLED' ? 'Cancelled: ' : 'Rejected: '}
+                {order.cancellationReason ?? order.rejectionReason}
+              </p>
+            )}
+
+            {/* Three-way match */}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ITEM</TableHead>
+                  <TableHead className="text-right">RATE</TableHead>
+                  <TableHead className="text-right">ORDERED</TableHead>
+                  <TableHead className="text-right">RECEIVED</TableHead>
+                  <TableHead className="text-right">BILLED</TableHead>
+                  <TableHead>MATCH</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>
+                      <p className="text-sm font-medium">{line.description}</p>
+                      {line.boqItem && (
+                        <p className="text-xs text-muted-foreground">
+                          BOQ {line.boqItem.code ?? line.boqItem.description}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      <p>{formatCurrency(Number(line.rate))}</p>
+                      {line.bills
+                        .filter((bill) => Number(bill.rate) !== Number(line.rate))
+                        .map((bill) => (
+                          <p key={bill.id} className="text-xs text-amber-600">
+                            billed {formatCurrency(Number(bill.rate))}
+                          </p>
+                        ))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {line.match.orderedQuantity} {line.unit}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {line.match.receivedQuantity} {line.unit}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      <p>
+                        {line.match.billedQuantity} {line.unit}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(line.match.billedAmount)}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {line.match.issues.length === 0 ? (
+                        <Badge variant="outline">Matched</Badge>
+                      ) : (
+                        <div className="flex flex-col items-start gap-1">
+                          {line.match.issues.map((issue) => (
+                            <Badge key={issue} variant="destructive" className="gap-1">
+                              <Warning className="h-3 w-3" />
+                              {MATCH_ISSUE_LABELS[issue]}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {/* Goods received notes */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Goods Received</h4>
+              {order.receipts?.length ? (
+                <div className="rounded-lg border divide-y">
+                  {order.receipts.map((receipt) => (
+                    <div key={receipt.id} className="p-3 text-sm">
+                      <div className="flex justify-between">
+                        <span className="font-medium">
+                          {format(new Date(receipt.receivedDate), 'MMM d, yyyy')}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {receipt.receivedBy?.user.name}
+                        </span>
+                      </div>
+                      <p className="text-muted-foreground">
+                        {receipt.lines
+                          .map((receiptLine) => {
+                            const line = linesById.get(receiptLine.purchaseOrderLineId);
+                            return `${Number(receiptLine.quantity)} ${line?.unit ?? ''} ${line?.description ?? ''}`.trim();
+                          })
+                          .join(', ')}
+                      </p>
+                      {receipt.notes && (
+                        <p className="text-xs text-muted-foreground">{receipt.notes}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing received yet.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,381 @@
+/**
+ * Purchase Order Form Dialog
+ *
+ * Raise a purchase order to a vendor, or edit one waiting for approval or rejected.
+ * Features:
+ * - Vendor, order date and notes
+ * - Lines with the agreed rate, optionally against a BOQ material item
+ * - Order total worked out as lines are entered
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Trash } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useParties } from '@/lib/hooks/useParties';
+import { useBOQItems } from '@/lib/hooks/useBOQ';
+import { useCreatePurchaseOrder, useUpdatePurchaseOrder } from '@/lib/hooks/usePurchaseOrders';
+import type { PurchaseOrder, PurchaseOrderLineInput } from '@/lib/api/purchase-orders';
+import { formatCurrency } from './format';
+
+// ============================================
+// Schema
+// ============================================
+
+const orderFormSchema = z.object({
+  vendorId: z.string().min(1, 'Vendor is required'),
+  orderDate: z.date({ required_error: 'Date is required' }),
+  notes: z.string().optional(),
+});
+
+type OrderFormData = z.infer<typeof orderFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface PurchaseOrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  // Order to edit; a new order is raised when not given
+  order?: PurchaseOrder | null;
+}
+
+interface LineRow {
+  boqItemId: string;
+  description: string;
+  unit: string;
+  quantity: string;
+  rate: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const NO_BOQ_ITEM = 'none';
+
+const EMPTY_LINE: LineRow = {
+  boqItemId: NO_BOQ_ITEM,
+  description: '',
+  unit: '',
+  quantity: '',
+  rate: '',
+};
+
+// ============================================
+// Component
+// ============================================
+
+export function PurchaseOrderFormDialog({
+  open,
+  onOpenChange,
+  projectId,
+  order,
+}: PurchaseOrderFormDialogProps) {
+  const isEditing = !!order;
+
+  const { data: vendorsData } = useParties({ type: 'VENDOR', limit: 100 });
+  const vendors = vendorsData?.items ?? [];
+  const { data: boqData } = useBOQItems(projectId, { category: 'MATERIAL', limit: 100 });
+  const boqItems = boqData?.items ?? [];
+
+  const createMutation = useCreatePurchaseOrder();
+  const updateMutation = useUpdatePurchaseOrder();
+
+  const [lines, setLines] = useState<LineRow[]>([EMPTY_LINE]);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<OrderFormData>({
+    resolver: zodResolver(orderFormSchema),
+    defaultValues: { vendorId: '', orderDate: new Date(), notes: '' },
+  });
+
+  // Reset when the dialog opens, from the order being edited if any
+  useEffect(() => {
+    if (!open) return;
+
+    reset({
+      vendorId: order?.vendorId ?? '',
+      orderDate: order ? new Date(order.orderDate) : new Date(),
+      notes: order?.notes ?? '',
+    });
+    setLines(
+      order
+        ? order.lines.map((line) => ({
+            boqItemId: line.boqItemId ?? NO_BOQ_ITEM,
+            description: line.description,
+            unit: line.unit,
+            quantity: String(Number(line.quantity)),
+            rate: String(Number(line.rate)),
+          }))
+        : [EMPTY_LINE]
+    );
+  }, [open, order, reset]);
+
+  const totalAmount = useMemo(
+    () =>
+      lines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.rate) || 0), 0),
+    [lines]
+  );
+
+  const updateLine = (index: number, changes: Partial<LineRow>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // A BOQ item fills in what is ordered and its unit
+  const selectBoqItem = (index: number, boqItemId: string) => {
+    const item = boqItems.find((candidate) => candidate.id === boqItemId);
+    updateLine(index, {
+      boqItemId,
+      ...(item && { description: item.description, unit: item.unit }),
+    });
+  };
+
+  const onSubmit = async (data: OrderFormData) => {
+    const orderLines: PurchaseOrderLineInput[] = lines
+      .filter((line) => line.description.trim() && Number(line.quantity) > 0)
+      .map((line) => ({
+        boqItemId: line.boqItemId === NO_BOQ_ITEM ? null : line.boqItemId,
+        description: line.description.trim(),
+        unit: line.unit.trim(),
+        quantity: Number(line.quantity),
+        rate: Number(line.rate),
+      }));
+
+    if (orderLines.length === 0) {
+      toast.error('Add at least one line');
+      return;
+    }
+    if (orderLines.some((line) => !line.unit || !(line.rate > 0))) {
+      toast.error('Each line needs a unit and a rate');
+      return;
+    }
+
+    const payload = {
+      vendorId: data.vendorId,
+      orderDate: data.orderDate.toISOString(),
+      notes: data.notes || null,
+      lines: orderLines,
+    };
+
+    try {
+      if (order) {
+        await updateMutation.mutateAsync({ id: order.id, data: payload });
+        toast.success(`${order.orderNumber} sent for approval`);
+      } else {
+        const created = await createMutation.mutateAsync({ projectId, ...payload });
+        toast.success(`${created.orderNumber} raised for approval`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || `Failed to ${isEditing ? 'update' : 'raise'} purchase order`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? `Edit ${order.orderNumber}` : 'Raise Purchase Order'}
+          </DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Saving sends the order back for approval.'
+              : 'The order is placed once it is approved.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          {/* Order details */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Vendor *</Label>
+              <Controller
+                name="vendorId"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="cursor-pointer">
+                      <SelectValue placeholder="Select vendor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vendors.map((vendor) => (
+                        <SelectItem key={vendor.id} value={vendor.id} className="cursor-pointer">
+                          {vendor.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.vendorId && (
+                <p className="text-sm text-destructive">{errors.vendorId.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Order Date *</Label>
+              <Controller
+                name="orderDate"
+                control={control}
+                render={({ field }) => <DatePicker value={field.value} onChange={field.onChange} />}
+              />
+              {errors.orderDate && (
+                <p className="text-sm text-destructive">{errors.orderDate.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Lines */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Lines</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setLines((current) => [...current, EMPTY_LINE])}
+                className="cursor-pointer"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add line
+              </Button>
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="rounded-lg border p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={line.boqItemId}
+                    onValueChange={(value) => selectBoqItem(index, value)}
+                  >
+                    <SelectTrigger className="w-48 shrink-0 cursor-pointer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_BOQ_ITEM} className="cursor-pointer">
+                        Not in BOQ
+                      </SelectItem>
+                      {boqItems.map((item) => (
+                        <SelectItem key={item.id} value={item.id} className="cursor-pointer">
+                          {item.code ? `${item.code} · ` : ''}
+                          {item.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Description"
+                    value={line.description}
+                    onChange={(event) => updateLine(index, { description: event.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={lines.length === 1}
+                    onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                    className="h-8 w-8 shrink-0 cursor-pointer"
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="Unit"
+                    className="w-24"
+                    value={line.unit}
+                    onChange={(event) => updateLine(index, { unit: event.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    placeholder="Qty"
+                    className="w-28"
+                    value={line.quantity}
+                    onChange={(event) => updateLine(index, { quantity: event.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Agreed rate"
+                    className="w-32"
+                    value={line.rate}
+                    onChange={(event) => updateLine(index, { rate: event.target.value })}
+                  />
+                  <span className="ml-auto text-sm text-muted-foreground">
+                    {formatCurrency((Number(line.quantity) || 0) * (Number(line.rate) || 0))}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="orderNotes">Notes</Label>
+            <Textarea
+              id="orderNotes"
+              rows={2}
+              placeholder="Delivery terms, site contact"
+              {...register('notes')}
+            />
+          </div>
+
+          {/* Total */}
+          <div className="flex justify-between rounded-md border bg-muted/30 p-3 text-sm font-semibold">
+            <span>Order total</span>
+            <span>{formatCurrency(totalAmount)}</span>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save & Resubmit' : 'Raise Order'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
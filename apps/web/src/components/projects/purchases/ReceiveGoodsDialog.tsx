@@ -0,0 +1,162 @@
+/**
+ * Receive Goods Dialog
+ *
+ * Record a goods received note against an approved purchase order: the
+ * quantity of each line delivered at site. More than ordered can be received;
+ * the line is flagged as over-delivered.
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useReceiveGoods } from '@/lib/hooks/usePurchaseOrders';
+import type { PurchaseOrder } from '@/lib/api/purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+interface ReceiveGoodsDialogProps {
+  order: PurchaseOrder | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ReceiveGoodsDialog({ order, onOpenChange }: ReceiveGoodsDialogProps) {
+  const receiveMutation = useReceiveGoods();
+
+  const [receivedDate, setReceivedDate] = useState<Date | undefined>(new Date());
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+
+  // Reset when opened; each line defaults to what is still to come
+  useEffect(() => {
+    if (!order) return;
+
+    setReceivedDate(new Date());
+    setNotes('');
+    setQuantities(
+      Object.fromEntries(
+        order.lines.map((line) => {
+          const pending = line.match.orderedQuantity - line.match.receivedQuantity;
+          return [line.id, pending > 0 ? String(pending) : ''];
+        })
+      )
+    );
+  }, [order]);
+
+  const handleSubmit = async () => {
+    if (!order || !receivedDate) return;
+
+    const lines = order.lines
+      .filter((line) => Number(quantities[line.id]) > 0)
+      .map((line) => ({ purchaseOrderLineId: line.id, quantity: Number(quantities[line.id]) }));
+    if (lines.length === 0) {
+      toast.error('Enter the quantity received of at least one line');
+      return;
+    }
+
+    try {
+      await receiveMutation.mutateAsync({
+        id: order.id,
+        data: { receivedDate: receivedDate.toISOString(), notes: notes.trim() || null, lines },
+      });
+      toast.success(`Goods received against ${order.orderNumber}`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to record goods received');
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            {order ? `${order.orderNumber} from ${order.vendor.name}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Received On *</Label>
+            <DatePicker value={receivedDate} onChange={setReceivedDate} />
+          </div>
+
+          <div className="rounded-lg border divide-y">
+            {order?.lines.map((line) => (
+              <div key={line.id} className="flex items-center gap-3 p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{line.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {line.match.receivedQuantity} of {line.match.orderedQuantity} {line.unit}{' '}
+                    received
+                  </p>
+                </div>
+                <Input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  placeholder="Qty"
+                  className="w-28"
+                  value={quantities[line.id] ?? ''}
+                  onChange={(event) =>
+                    setQuantities((current) => ({ ...current, [line.id]: event.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receiptNotes">Notes</Label>
+            <Textarea
+              id="receiptNotes"
+              rows={2}
+              placeholder="Challan number, vehicle, condition"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={receiveMutation.isPending || !receivedDate}
+            className="cursor-pointer"
+          >
+            {receiveMutation.isPending ? 'Saving...' : 'Record Receipt'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Purchase order formatting helpers
+ */
+
+import type { DeliveryStatus, MatchIssue, PurchaseOrderStatus } from '@/lib/api/purchase-orders';
+
+export function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+export const MATCH_ISSUE_LABELS: Record<MatchIssue, string> = {
+  RATE_MISMATCH: 'Rate differs from order',
+  QUANTITY_MISMATCH: 'Billed more than received',
+  OVER_DELIVERED: 'Received more than ordered',
+};
+
+export const ORDER_STATUS_CONFIG: Record<
+  PurchaseOrderStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  PENDING: { label: 'Awaiting approval', variant: 'secondary' },
+  APPROVED: { label: 'Approved', variant: 'default' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+  CANCELLED: { label: 'Cancelled', variant: 'outline' },
+};
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  NOT_RECEIVED: 'Not received',
+  PARTIALLY_RECEIVED: 'Partly received',
+  RECEIVED: 'Received',
+};
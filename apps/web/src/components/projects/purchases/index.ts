@@ -0,0 +1,10 @@
+/**
+ * Purchase Components
+ *
+ * Re-exports for purchase order components.
+ */
+
+export { ProjectPurchasesTab } from './ProjectPurchasesTab';
+export { PurchaseOrderFormDialog } from './PurchaseOrderFormDialog';
+export { PurchaseOrderDetailDialog } from './PurchaseOrderDetailDialog';
+export { ReceiveGoodsDialog } from './ReceiveGoodsDialog';
@@ -0,0 +1,317 @@
+/**
+ * Project Stock Tab
+ *
+ * Material stock at a project site:
+ * - Stock of each material and unit, with what was received, issued and moved
+ * - Take material in from bills and goods received notes
+ * - Issue to stages and tasks, transfer to other sites and adjust to counts
+ * - Consumption against the BOQ quantities of each material, by stage
+ */
+
+import { useState } from 'react';
+import {
+  Plus,
+  DotsThree,
+  Package,
+  ListBullets,
+  ArrowSquareOut,
+  ArrowsLeftRight,
+  Scales,
+} from '@phosphor-icons/react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useProjectStock, useStockVariance } from '@/lib/hooks/useStock';
+import { useStagesByProject } from '@/lib/hooks/useStages';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { ReceiveStockDialog } from './ReceiveStockDialog';
+import { StockLedgerDialog } from './StockLedgerDialog';
+import { StockMovementDialog, type StockMovementAction } from './StockMovementDialog';
+import { formatQuantity } from './format';
+import type { StockBalance } from '@/lib/api/stock';
+
+// ============================================
+// Types
+// ============================================
+
+interface ProjectStockTabProps {
+  projectId: string;
+}
+
+const ALL_STAGES = 'all';
+
+// ============================================
+// Component
+// ============================================
+
+export function ProjectStockTab({ projectId }: ProjectStockTabProps) {
+  const can = useCan();
+  const canManage = can('stock.manage');
+
+  const [isReceiveOpen, setIsReceiveOpen] = useState(false);
+  const [ledgerStock, setLedgerStock] = useState<StockBalance | null>(null);
+  const [movingStock, setMovingStock] = useState<StockBalance | null>(null);
+  const [movementAction, setMovementAction] = useState<StockMovementAction>('issue');
+  const [varianceStageId, setVarianceStageId] = useState(ALL_STAGES);
+
+  const { data: stock = [], isLoading } = useProjectStock(projectId);
+  const { data: stages = [] } = useStagesByProject(projectId);
+  const { data: variance = [], isLoading: isVarianceLoading } = useStockVariance(
+    projectId,
+    varianceStageId === ALL_STAGES ? undefined : varianceStageId
+  );
+
+  const openMovement = (row: StockBalance, action: StockMovementAction) => {
+    setMovementAction(action);
+    setMovingStock(row);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border bg-card">
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 pb-4">
+          <div>
+            <h3 className="font-medium">Material Stock</h3>
+            <p className="text-sm text-muted-foreground">
+              Material at site, from bills and goods received to what was used
+            </p>
+          </div>
+          {canManage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsReceiveOpen(true)}
+              className="cursor-pointer"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Receive Material
+            </Button>
+          )}
+        </div>
+
+        {/* Stock */}
+        {isLoading ? (
+          <div className="space-y-2 px-5 pb-5">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : stock.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 border-t px-5 py-8 text-center">
+            <Package className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              No material in stock yet. Receive material from a bill or goods received note.
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>MATERIAL</TableHead>
+                <TableHead className="text-right">RECEIVED</TableHead>
+                <TableHead className="text-right">ISSUED</TableHead>
+                <TableHead className="text-right">TRANSFERRED</TableHead>
+                <TableHead className="text-right">ADJUSTED</TableHead>
+                <TableHead className="text-right">IN STOCK</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stock.map((row) => (
+                <TableRow key={`${row.materialTypeItemId}:${row.unit}`}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      onClick={() => setLedgerStock(row)}
+                      className="text-sm font-medium hover:underline cursor-pointer"
+                    >
+                      {row.materialName}
+                    </button>
+                    <p className="text-xs text-muted-foreground">{row.unit}</p>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatQuantity(row.received)}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{formatQuantity(row.issued)}</TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatQuantity(row.transferredIn - row.transferredOut)}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatQuantity(row.adjusted)}
+                  </TableCell>
+                  <TableCell className="text-right text-sm font-medium">
+                    {formatQuantity(row.balance)}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                          <DotsThree className="h-4 w-4" weight="bold" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => setLedgerStock(row)}
+                          className="cursor-pointer"
+                        >
+                          <ListBullets className="h-4 w-4 mr-2" />
+                          View Ledger
+                        </DropdownMenuItem>
+                        {canManage && (
+                          <>
+                            <DropdownMenuItem
+                              onClick={() => openMovement(row, 'issue')}
+                              disabled={row.balance <= 0}
+                              className="cursor-pointer"
+                            >
+                              <ArrowSquareOut className="h-4 w-4 mr-2" />
+                              Issue
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => openMovement(row, 'transfer')}
+                              disabled={row.balance <= 0}
+                              className="cursor-pointer"
+                            >
+                              <ArrowsLeftRight className="h-4 w-4 mr-2" />
+                              Transfer
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => openMovement(row, 'adjust')}
+                              className="cursor-pointer"
+                            >
+                              <Scales className="h-4 w-4 mr-2" />
+                              Adjust to Count
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Consumption against BOQ */}
+      <div className="rounded-lg border bg-card">
+        <div className="flex items-center justify-between p-5 pb-4">
+          <div>
+            <h3 className="font-medium">Consumption vs BOQ</h3>
+            <p className="text-sm text-muted-foreground">
+              Material issued against the quantities planned in the BOQ
+            </p>
+          </div>
+          <Select value={varianceStageId} onValueChange={setVarianceStageId}>
+            <SelectTrigger className="w-48 cursor-pointer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STAGES} className="cursor-pointer">
+                All stages
+              </SelectItem>
+              {stages.map((stage) => (
+                <SelectItem key={stage.id} value={stage.id} className="cursor-pointer">
+                  {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isVarianceLoading ? (
+          <div className="space-y-2 px-5 pb-5">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : variance.length === 0 ? (
+          <p className="border-t px-5 py-8 text-center text-sm text-muted-foreground">
+            Nothing to compare yet. Link BOQ material items to a material type to plan their
+            quantities.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>MATERIAL</TableHead>
+                <TableHead className="text-right">PLANNED</TableHead>
+                <TableHead className="text-right">CONSUMED</TableHead>
+                <TableHead className="text-right">VARIANCE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variance.map((row) => (
+                <TableRow key={`${row.materialTypeItemId}:${row.unit}`}>
+                  <TableCell>
+                    <p className="text-sm font-medium">{row.materialName}</p>
+                    <p className="text-xs text-muted-foreground">{row.unit}</p>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatQuantity(row.plannedQuantity)}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatQuantity(row.consumedQuantity)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right text-sm font-medium ${row.varianceQuantity > 0 ? 'text-red-600' : 'text-green-600'}`}
+                  >
+                    {row.varianceQuantity > 0 ? '+' : ''}
+                    {formatQuantity(row.varianceQuantity)}
+                    {row.variancePercent !== null && (
+                      <span className="ml-1 text-xs">({row.variancePercent.toFixed(1)}%)</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Receive Material */}
+      <ReceiveStockDialog
+        open={isReceiveOpen}
+        onOpenChange={setIsReceiveOpen}
+        projectId={projectId}
+      />
+
+      {/* Ledger */}
+      <StockLedgerDialog
+        projectId={projectId}
+        stock={ledgerStock}
+        onOpenChange={(open) => !open && setLedgerStock(null)}
+      />
+
+      {/* Issue / Transfer / Adjust */}
+      <StockMovementDialog
+        projectId={projectId}
+        stock={movingStock}
+        action={movementAction}
+        onOpenChange={(open) => !open && setMovingStock(null)}
+      />
+    </div>
+  );
+}
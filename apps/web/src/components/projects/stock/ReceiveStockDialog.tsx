@@ -0,0 +1,260 @@
+/**
+ * Receive Stock Dialog
+ *
+ * Take material into a site's stock from a material bill or a goods received
+ * note line. Each source can only be taken in up to its own quantity; bills
+ * matched to a purchase order come in through their goods received note.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useReceiveStock, useStockSources } from '@/lib/hooks/useStock';
+import { useCategoryItems } from '@/lib/hooks/useCategories';
+import { formatQuantity } from './format';
+
+// ============================================
+// Types
+// ============================================
+
+interface ReceiveStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+}
+
+// A bill or goods received note line, flattened for the source picker
+interface SourceOption {
+  key: string;
+  label: string;
+  expenseId?: string;
+  goodsReceiptLineId?: string;
+  materialTypeItemId: string | null;
+  unit: string;
+  remainingQuantity: number;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ReceiveStockDialog({ open, onOpenChange, projectId }: ReceiveStockDialogProps) {
+  const { data: sources } = useStockSources(projectId, open);
+  const { data: materialTypes = [] } = useCategoryItems('material_type');
+  const receiveMutation = useReceiveStock();
+
+  const [sourceKey, setSourceKey] = useState('');
+  const [materialTypeItemId, setMaterialTypeItemId] = useState('');
+  const [unit, setUnit] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [movementDate, setMovementDate] = useState<Date | undefined>(new Date());
+  const [notes, setNotes] = useState('');
+
+  const options = useMemo<SourceOption[]>(() => {
+    if (!sources) return [];
+
+    const receiptLines = sources.receiptLines.map((line) => ({
+      key: `grn:${line.id}`,
+      label: `${line.receipt.purchaseOrder.orderNumber} · ${line.purchaseOrderLine.description} (${format(new Date(line.receipt.receivedDate), 'MMM d')})`,
+      goodsReceiptLineId: line.id,
+      materialTypeItemId: line.purchaseOrderLine.boqItem?.materialTypeItemId ?? null,
+      unit: line.purchaseOrderLine.unit,
+      remainingQuantity: line.remainingQuantity,
+    }));
+    const bills = sources.bills.map((bill) => ({
+      key: `bill:${bill.id}`,
+      label: `${bill.party.name} · ${bill.description || bill.materialType?.name || 'Bill'} (${format(new Date(bill.expenseDate), 'MMM d')})`,
+      expenseId: bill.id,
+      materialTypeItemId: bill.materialType?.id ?? null,
+      unit: '',
+      remainingQuantity: bill.remainingQuantity,
+    }));
+    return [...receiptLines, ...bills];
+  }, [sources]);
+
+  const source = options.find((option) => option.key === sourceKey);
+
+  // Reset when opened
+  useEffect(() => {
+    if (!open) return;
+
+    setSourceKey('');
+    setMaterialTypeItemId('');
+    setUnit('');
+    setQuantity('');
+    setMovementDate(new Date());
+    setNotes('');
+  }, [open]);
+
+  // Picking a source fills in what it already says about the material
+  const handleSourceChange = (key: string) => {
+    setSourceKey(key);
+    const option = options.find((item) => item.key === key);
+    if (!option) return;
+
+    if (option.materialTypeItemId) setMaterialTypeItemId(option.materialTypeItemId);
+    if (option.unit) setUnit(option.unit);
+    setQuantity(String(option.remainingQuantity));
+  };
+
+  const handleSubmit = async () => {
+    if (!source || !movementDate) return;
+    if (!materialTypeItemId || !unit.trim() || !(Number(quantity) > 0)) {
+      toast.error('Choose the material and enter its unit and quantity');
+      return;
+    }
+
+    try {
+      await receiveMutation.mutateAsync({
+        projectId,
+        materialTypeItemId,
+        unit: unit.trim(),
+        quantity: Number(quantity),
+        movementDate: movementDate.toISOString(),
+        expenseId: source.expenseId,
+        goodsReceiptLineId: source.goodsReceiptLineId,
+        notes: notes.trim() || null,
+      });
+      toast.success('Material taken into stock');
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to take material into stock');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Material</DialogTitle>
+          <DialogDescription>
+            Take material from a bill or goods received note into this site&apos;s stock
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Source *</Label>
+            <Select value={sourceKey} onValueChange={handleSourceChange}>
+              <SelectTrigger className="cursor-pointer">
+                <SelectValue
+                  placeholder={
+                    options.length === 0 ? 'Nothing left to take into stock' : 'Select source'
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.key} value={option.key} className="cursor-pointer">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {source && (
+              <p className="text-xs text-muted-foreground">
+                {formatQuantity(source.remainingQuantity)} {source.unit} not yet in stock
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Material *</Label>
+              <Select value={materialTypeItemId} onValueChange={setMaterialTypeItemId}>
+                <SelectTrigger className="cursor-pointer">
+                  <SelectValue placeholder="Select material" />
+                </SelectTrigger>
+                <SelectContent>
+                  {materialTypes.map((item) => (
+                    <SelectItem key={item.id} value={item.id} className="cursor-pointer">
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stockUnit">Unit *</Label>
+              <Input
+                id="stockUnit"
+                placeholder="bag, kg, cum"
+                value={unit}
+                onChange={(event) => setUnit(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stockQuantity">Quantity *</Label>
+              <Input
+                id="stockQuantity"
+                type="number"
+                step="0.0001"
+                min="0"
+                value={quantity}
+                onChange={(event) => setQuantity(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Received On *</Label>
+              <DatePicker value={movementDate} onChange={setMovementDate} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stockNotes">Notes</Label>
+            <Textarea
+              id="stockNotes"
+              rows={2}
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={receiveMutation.isPending || !source || !movementDate}
+            className="cursor-pointer"
+          >
+            {receiveMutation.isPending ? 'Saving...' : 'Receive'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
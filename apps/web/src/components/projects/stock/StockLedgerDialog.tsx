@@ -0,0 +1,107 @@
+/**
+ * Stock Ledger Dialog
+ *
+ * Every movement of one material at a site, oldest first, with the stock
+ * left after each.
+ */
+
+import { format } from 'date-fns';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useStockLedger } from '@/lib/hooks/useStock';
+import { MOVEMENT_TYPE_LABELS, describeMovement, formatQuantity } from './format';
+import type { StockBalance } from '@/lib/api/stock';
+
+// ============================================
+// Types
+// ============================================
+
+interface StockLedgerDialogProps {
+  projectId: string;
+  stock: StockBalance | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function StockLedgerDialog({ projectId, stock, onOpenChange }: StockLedgerDialogProps) {
+  const { data: movements = [], isLoading } = useStockLedger(
+    projectId,
+    { materialTypeItemId: stock?.materialTypeItemId, unit: stock?.unit },
+    !!stock
+  );
+
+  return (
+    <Dialog open={!!stock} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{stock ? `${stock.materialName} Ledger` : 'Ledger'}</DialogTitle>
+          <DialogDescription>
+            {stock ? `${formatQuantity(stock.balance)} ${stock.unit} in stock` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>DATE</TableHead>
+                <TableHead>MOVEMENT</TableHead>
+                <TableHead>DETAIL</TableHead>
+                <TableHead className="text-right">QUANTITY</TableHead>
+                <TableHead className="text-right">BALANCE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((movement) => {
+                const quantity = Number(movement.quantity);
+                return (
+                  <TableRow key={movement.id}>
+                    <TableCell className="text-sm">
+                      {format(new Date(movement.movementDate), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-sm">{MOVEMENT_TYPE_LABELS[movement.type]}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[240px] truncate">
+                      {describeMovement(movement)}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right text-sm ${quantity < 0 ? 'text-red-600' : 'text-green-600'}`}
+                    >
+                      {quantity > 0 ? '+' : ''}
+                      {formatQuantity(quantity)}
+                    </TableCell>
+                    <TableCell className="text-right text-sm font-medium">
+                      {formatQuantity(movement.balance)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * Stock Movement Dialog
+ *
+ * Move one material out of, or correct, a site's stock:
+ * - Issue to a stage, or to a task of it, optionally supplied to a subcontractor's
+ *   work order at a rate recovered from their RA bills
+ * - Transfer to another project site
+ * - Adjust to a physical count, with the reason for the difference
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useIssueStock, useTransferStock, useAdjustStock } from '@/lib/hooks/useStock';
+import { useStagesByProject } from '@/lib/hooks/useStages';
+import { useTasksByStage } from '@/lib/hooks/useTasks';
+import { useProjects } from '@/lib/hooks/useProjects';
+import { useWorkOrders } from '@/lib/hooks/useSubcontracts';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { formatQuantity } from './format';
+import type { StockBalance } from '@/lib/api/stock';
+
+// ============================================
+// Types
+// ============================================
+
+export type StockMovementAction = 'issue' | 'transfer' | 'adjust';
+
+interface StockMovementDialogProps {
+  projectId: string;
+  stock: StockBalance | null;
+  action: StockMovementAction;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_TASK = 'none';
+const NO_WORK_ORDER = 'none';
+
+const ACTION_TITLES: Record<StockMovementAction, string> = {
+  issue: 'Issue Material',
+  transfer: 'Transfer Material',
+  adjust: 'Adjust to Count',
+};
+
+// ============================================
+// Component
+// ============================================
+
+export function StockMovementDialog({
+  projectId,
+  stock,
+  action,
+  onOpenChange,
+}: StockMovementDialogProps) {
+  const [quantity, setQuantity] = useState('');
+  const [stageId, setStageId] = useState('');
+  const [taskId, setTaskId] = useState(NO_TASK);
+  const [workOrderId, setWorkOrderId] = useState(NO_WORK_ORDER);
+  const [recoveryRate, setRecoveryRate] = useState('');
+  const [toProjectId, setToProjectId] = useState('');
+  const [movementDate, setMovementDate] = useState<Date | undefined>(new Date());
+  const [notes, setNotes] = useState('');
+
+  const { data: stages = [] } = useStagesByProject(action === 'issue' ? projectId : '');
+  const { data: tasks = [] } = useTasksByStage(stageId);
+  const { data: projectsData } = useProjects({ limit: 100 });
+  const can = useCan();
+  const { data: workOrders = [] } = useWorkOrders(
+    action === 'issue' && can('subcontracts.view') ? projectId : ''
+  );
+  const issueMutation = useIssueStock();
+  const transferMutation = useTransferStock();
+  const adjustMutation = useAdjustStock();
+
+  const otherProjects = (projectsData?.items ?? []).filter((project) => project.id !== projectId);
+  const openWorkOrders = workOrders.filter((workOrder) => !workOrder.retentionReleasedAt);
+  const isSupplied = workOrderId !== NO_WORK_ORDER;
+  const isPending =
+    issueMutation.isPending || transferMutation.isPending || adjustMutation.isPending;
+
+  // Reset when opened
+  useEffect(() => {
+    if (!stock) return;
+
+    setQuantity(action === 'adjust' ? String(stock.balance) : '');
+    setStageId('');
+    setTaskId(NO_TASK);
+    setWorkOrderId(NO_WORK_ORDER);
+    setRecoveryRate('');
+    setToProjectId('');
+    setMovementDate(new Date());
+    setNotes('');
+  }, [stock, action]);
+
+  const handleSubmit = async () => {
+    if (!stock || !movementDate) return;
+
+    const amount = Number(quantity);
+    if (quantity === '' || amount < 0 || (action !== 'adjust' && amount === 0)) {
+      toast.error('Enter a valid quantity');
+      return;
+    }
+
+    const line = {
+      projectId,
+      materialTypeItemId: stock.materialTypeItemId,
+      unit: stock.unit,
+      movementDate: movementDate.toISOString(),
+    };
+
+    try {
+      if (action === 'issue') {
+        await issueMutation.mutateAsync({
+          ...line,
+          quantity: amount,
+          stageId,
+          taskId: taskId === NO_TASK ? undefined : taskId,
+          ...(isSupplied && { workOrderId, recoveryRate: Number(recoveryRate) }),
+          notes: notes.trim() || null,
+        });
+        toast.success(`${stock.materialName} issued`);
+      } else if (action === 'transfer') {
+        await transferMutation.mutateAsync({
+          ...line,
+          quantity: amount,
+          toProjectId,
+          notes: notes.trim() || null,
+        });
+        toast.success(`${stock.materialName} transferred`);
+      } else {
+        await adjustMutation.mutateAsync({ ...line, countedQuantity: amount, notes: notes.trim() });
+        toast.success(`${stock.materialName} stock adjusted`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to record stock movement');
+    }
+  };
+
+  const isIncomplete =
+    !movementDate ||
+    (action === 'issue' && (!stageId || (isSupplied && recoveryRate === ''))) ||
+    (action === 'transfer' && !toProjectId) ||
+    (action === 'adjust' && !notes.trim());
+
+  return (
+    <Dialog open={!!stock} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ACTION_TITLES[action]}</DialogTitle>
+          <DialogDescription>
+            {stock
+              ? `${stock.materialName}: ${formatQuantity(stock.balance)} ${stock.unit} in stock`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {action === 'issue' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Stage *</Label>
+                <Select
+                  value={stageId}
+                  onValueChange={(value) => {
+                    setStageId(value);
+                    setTaskId(NO_TASK);
+                  }}
+                >
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue placeholder="Select stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.id} value={stage.id} className="cursor-pointer">
+                        {stage.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Task</Label>
+                <Select value={taskId} onValueChange={setTaskId} disabled={!stageId}>
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TASK} className="cursor-pointer">
+                      Whole stage
+                    </SelectItem>
+                    {tasks.map((task) => (
+                      <SelectItem key={task.id} value={task.id} className="cursor-pointer">
+                        {task.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {action === 'issue' && openWorkOrders.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Supplied To</Label>
+                <Select value={workOrderId} onValueChange={setWorkOrderId}>
+                  <SelectTrigger className="cursor-pointer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_WORK_ORDER} className="cursor-pointer">
+                      Own use
+                    </SelectItem>
+                    {openWorkOrders.map((workOrder) => (
+                      <SelectItem
+                        key={workOrder.id}
+                        value={workOrder.id}
+                        className="cursor-pointer"
+                      >
+                        {workOrder.orderNumber} · {workOrder.subcontractor.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isSupplied && (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryRate">Recovery Rate *</Label>
+                  <Input
+                    id="recoveryRate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder={stock ? `Per ${stock.unit}` : undefined}
+                    value={recoveryRate}
+                    onChange={(event) => setRecoveryRate(event.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {action === 'transfer' && (
+            <div className="space-y-2">
+              <Label>To Project *</Label>
+              <Select value={toProjectId} onValueChange={setToProjectId}>
+                <SelectTrigger className="cursor-pointer">
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id} className="cursor-pointer">
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="movementQuantity">
+                {action === 'adjust' ? 'Counted Quantity *' : 'Quantity *'}
+              </Label>
+              <Input
+                id="movementQuantity"
+                type="number"
+                step="0.0001"
+                min="0"
+                value={quantity}
+                onChange={(event) => setQuantity(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{action === 'adjust' ? 'Counted On *' : 'Date *'}</Label>
+              <DatePicker value={movementDate} onChange={setMovementDate} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="movementNotes">{action === 'adjust' ? 'Reason *' : 'Notes'}</Label>
+            <Textarea
+              id="movementNotes"
+              rows={2}
+              placeholder={action === 'adjust' ? 'Wastage, damage, theft, miscount' : undefined}
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isPending || isIncomplete}
+            className="cursor-pointer"
+          >
+            {isPending ? 'Saving...' : ACTION_TITLES[action]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
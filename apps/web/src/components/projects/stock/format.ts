@@ -0,0 +1,41 @@
+/**
+ * Stock formatting helpers
+ */
+
+import type { StockMovement, StockMovementType } from '@/lib/api/stock';
+
+export function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('en-IN', { maximumFractionDigits: 4 });
+}
+
+export const MOVEMENT_TYPE_LABELS: Record<StockMovementType, string> = {
+  RECEIPT: 'Received',
+  ISSUE: 'Issued',
+  TRANSFER_IN: 'Transferred in',
+  TRANSFER_OUT: 'Transferred out',
+  ADJUSTMENT: 'Adjusted',
+};
+
+/**
+ * Where a movement came from or went to
+ */
+export function describeMovement(movement: StockMovement): string {
+  if (movement.goodsReceiptLine) {
+    return `GRN against ${movement.goodsReceiptLine.receipt.purchaseOrder.orderNumber}`;
+  }
+  if (movement.expense) {
+    return movement.expense.description || 'Bill';
+  }
+  if (movement.stage) {
+    const usedOn = movement.task
+      ? `${movement.stage.name} · ${movement.task.name}`
+      : movement.stage.name;
+    return movement.workOrder ? `${usedOn} · ${movement.workOrder.orderNumber}` : usedOn;
+  }
+  if (movement.transferProject) {
+    return movement.type === 'TRANSFER_OUT'
+      ? `To ${movement.transferProject.name}`
+      : `From ${movement.transferProject.name}`;
+  }
+  return movement.notes || '—';
+}
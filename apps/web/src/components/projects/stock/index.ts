@@ -0,0 +1,10 @@
+/**
+ * Stock Components
+ *
+ * Re-exports for material stock components.
+ */
+
+export { ProjectStockTab } from './ProjectStockTab';
+export { ReceiveStockDialog } from './ReceiveStockDialog';
+export { StockMovementDialog } from './StockMovementDialog';
+export { StockLedgerDialog } from './StockLedgerDialog';
@@ -0,0 +1,505 @@
+/**
+ * Project Subcontracts Tab
+ *
+ * A project's work orders to subcontractors:
+ * - Each work order with its value, what approved RA bills paid, and retention held
+ * - RA bills raised against it, with their deductions and approval status
+ * - Raise, approve and reject RA bills, and release retention once the project
+ *   is completed
+ */
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  Plus,
+  DotsThree,
+  Eye,
+  PencilSimple,
+  Check,
+  X,
+  Ruler,
+  HandCoins,
+  Handshake,
+  ClockCounterClockwise,
+} from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
+import {
+  useWorkOrders,
+  useApproveRABill,
+  useRejectRABill,
+  useReleaseRetention,
+} from '@/lib/hooks/useSubcontracts';
+import { useCan } from '@/lib/hooks/usePermissions';
+import { WorkOrderFormDialog } from './WorkOrderFormDialog';
+import { RABillFormDialog } from './RABillFormDialog';
+import { RABillDialog } from './RABillDialog';
+import { BILL_STATUS_CONFIG, formatCurrency } from './format';
+import type { RABillSummary, WorkOrder } from '@/lib/api/subcontracts';
+
+// ============================================
+// Types
+// ============================================
+
+interface ProjectSubcontractsTabProps {
+  projectId: string;
+}
+
+interface BillRef {
+  workOrder: WorkOrder;
+  bill: RABillSummary;
+}
+
+interface HistoryTarget {
+  entityType: 'WORK_ORDER' | 'RA_BILL';
+  entityId: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function ProjectSubcontractsTab({ projectId }: ProjectSubcontractsTabProps) {
+  const can = useCan();
+  const canManage = can('subcontracts.manage');
+  const canApprove = can('subcontracts.approve');
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<WorkOrder | null>(null);
+  const [billingOrder, setBillingOrder] = useState<WorkOrder | null>(null);
+  const [viewingBillId, setViewingBillId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<BillRef | null>(null);
+  const [reason, setReason] = useState('');
+  const [releasingOrder, setReleasingOrder] = useState<WorkOrder | null>(null);
+  const [history, setHistory] = useState<HistoryTarget | null>(null);
+
+  const { data: workOrders = [], isLoading } = useWorkOrders(projectId);
+  const approveMutation = useApproveRABill();
+  const rejectMutation = useRejectRABill();
+  const releaseMutation = useReleaseRetention();
+
+  const openForm = useCallback((workOrder: WorkOrder | null) => {
+    setEditingOrder(workOrder);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleApprove = useCallback(
+    async ({ workOrder, bill }: BillRef) => {
+      try {
+        await approveMutation.mutateAsync(bill.id);
+        toast.success(`${workOrder.orderNumber} RA bill ${bill.billNumber} approved`);
+      } catch (error) {
+        const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+        toast.error(message || 'Failed to approve RA bill');
+      }
+    },
+    [approveMutation]
+  );
+
+  const closeRejectDialog = useCallback(() => {
+    setRejecting(null);
+    setReason('');
+  }, []);
+
+  const handleRejectConfirm = useCallback(async () => {
+    if (!rejecting || !reason.trim()) return;
+
+    try {
+      await rejectMutation.mutateAsync({ id: rejecting.bill.id, reason: reason.trim() });
+      toast.success(`RA bill ${rejecting.bill.billNumber} rejected`);
+      closeRejectDialog();
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to reject RA bill');
+    }
+  }, [rejecting, reason, rejectMutation, closeRejectDialog]);
+
+  const handleReleaseConfirm = useCallback(async () => {
+    if (!releasingOrder) return;
+
+    try {
+      await releaseMutation.mutateAsync(releasingOrder.id);
+      toast.success(`Retention of ${formatCurrency(releasingOrder.retentionHeld)} released`);
+      setReleasingOrder(null);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to release retention');
+    }
+  }, [releasingOrder, releaseMutation]);
+
+  return (
+    <div className="rounded-lg border bg-card">
+      {/* Header */}
+      <div className="flex items-center justify-between p-5 pb-4">
+        <div>
+          <h3 className="font-medium">Subcontracts</h3>
+          <p className="text-sm text-muted-foreground">
+            Work orders to subcontractors, billed as RA bills from measured work
+          </p>
+        </div>
+        {canManage && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openForm(null)}
+            className="cursor-pointer"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Work Order
+          </Button>
+        )}
+      </div>
+
+      {/* Work orders */}
+      {isLoading ? (
+        <div className="space-y-2 px-5 pb-5">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+          ))}
+        </div>
+      ) : workOrders.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 border-t px-5 py-8 text-center">
+          <Handshake className="h-6 w-6 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            No work orders yet. Agree one to bill a subcontractor's work by measurement.
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y border-t">
+          {workOrders.map((workOrder) => {
+            const hasPendingBill = workOrder.bills.some((bill) => bill.status === 'PENDING');
+            const isBilled = workOrder.bills.some((bill) => bill.status !== 'REJECTED');
+            const isClosed = !!workOrder.retentionReleasedAt;
+            const canRelease =
+              canApprove &&
+              !isClosed &&
+              !hasPendingBill &&
+              workOrder.retentionHeld > 0 &&
+              workOrder.project.status === 'COMPLETED';
+
+            return (
+              <div key={workOrder.id} className="space-y-3 p-5">
+                {/* Work order summary */}
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {workOrder.orderNumber} · {workOrder.subcontractor.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(workOrder.orderDate), 'MMM d, yyyy')}
+                      {workOrder.subWorkType ? ` · ${workOrder.subWorkType.name}` : ''} · retention{' '}
+                      {Number(workOrder.retentionPercent)}% · advance recovery{' '}
+                      {Number(workOrder.advanceRecoveryPercent)}%
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-6 text-right text-sm">
+                    <div>
+                      <p className="text-xs text-muted-foreground">Value</p>
+                      <p className="font-medium">{formatCurrency(Number(workOrder.totalAmount))}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Billed</p>
+                      <p className="font-medium">{formatCurrency(workOrder.billedAmount)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Retention</p>
+                      <p className="font-medium">
+                        {formatCurrency(workOrder.retentionHeld)}
+                        {isClosed && (
+                          <span className="block text-xs font-normal text-muted-foreground">
+                            Released
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer">
+                          <DotsThree className="h-4 w-4" weight="bold" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {canManage && !isClosed && !hasPendingBill && (
+                          <DropdownMenuItem
+                            onClick={() => setBillingOrder(workOrder)}
+                            className="cursor-pointer"
+                          >
+                            <Ruler className="h-4 w-4 mr-2" />
+                            Raise RA Bill
+                          </DropdownMenuItem>
+                        )}
+                        {canManage && !isBilled && (
+                          <DropdownMenuItem
+                            onClick={() => openForm(workOrder)}
+                            className="cursor-pointer"
+                          >
+                            <PencilSimple className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                        )}
+                        {canRelease && (
+                          <DropdownMenuItem
+                            onClick={() => setReleasingOrder(workOrder)}
+                            className="cursor-pointer"
+                          >
+                            <HandCoins className="h-4 w-4 mr-2" />
+                            Release Retention
+                          </DropdownMenuItem>
+                        )}
+                        {can('audit.view') && (
+                          <DropdownMenuItem
+                            onClick={() =>
+                              setHistory({ entityType: 'WORK_ORDER', entityId: workOrder.id })
+                            }
+                            className="cursor-pointer"
+                          >
+                            <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                            History
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+
+                {/* RA bills */}
+                {workOrder.bills.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No RA bills yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>BILL</TableHead>
+                        <TableHead>DATE</TableHead>
+                        <TableHead className="text-right">GROSS</TableHead>
+                        <TableHead className="text-right">RETENTION</TableHead>
+                        <TableHead className="text-right">ADVANCE</TableHead>
+                        <TableHead className="text-right">MATERIAL</TableHead>
+                        <TableHead className="text-right">NET</TableHead>
+                        <TableHead>STATUS</TableHead>
+                        <TableHead className="w-12" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {workOrder.bills.map((bill) => (
+                        <TableRow key={bill.id}>
+                          <TableCell>
+                            <button
+                              type="button"
+                              onClick={() => setViewingBillId(bill.id)}
+                              className="text-sm font-medium hover:underline cursor-pointer"
+                            >
+                              RA-{bill.billNumber}
+                            </button>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {format(new Date(bill.billDate), 'MMM d, yyyy')}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            {formatCurrency(Number(bill.grossAmount))}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            {formatCurrency(Number(bill.retentionAmount))}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            {formatCurrency(Number(bill.advanceRecovery))}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">
+                            {formatCurrency(Number(bill.materialDeduction))}
+                          </TableCell>
+                          <TableCell className="text-right text-sm font-medium">
+                            {formatCurrency(Number(bill.netAmount))}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={BILL_STATUS_CONFIG[bill.status].variant}>
+                              {BILL_STATUS_CONFIG[bill.status].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 cursor-pointer"
+                                >
+                                  <DotsThree className="h-4 w-4" weight="bold" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  onClick={() => setViewingBillId(bill.id)}
+                                  className="cursor-pointer"
+                                >
+                                  <Eye className="h-4 w-4 mr-2" />
+                                  View Bill
+                                </DropdownMenuItem>
+                                {canApprove && bill.status === 'PENDING' && (
+                                  <>
+                                    <DropdownMenuItem
+                                      onClick={() => handleApprove({ workOrder, bill })}
+                                      className="cursor-pointer"
+                                    >
+                                      <Check className="h-4 w-4 mr-2" />
+                                      Approve
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                      onClick={() => setRejecting({ workOrder, bill })}
+                                      className="cursor-pointer"
+                                    >
+                                      <X className="h-4 w-4 mr-2" />
+                                      Reject
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                                {can('audit.view') && (
+                                  <DropdownMenuItem
+                                    onClick={() =>
+                                      setHistory({ entityType: 'RA_BILL', entityId: bill.id })
+                                    }
+                                    className="cursor-pointer"
+                                  >
+                                    <ClockCounterClockwise className="h-4 w-4 mr-2" />
+                                    History
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* New / Edit Work Order */}
+      <WorkOrderFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        projectId={projectId}
+        workOrder={editingOrder}
+      />
+
+      {/* Raise RA Bill */}
+      <RABillFormDialog
+        workOrder={billingOrder}
+        onOpenChange={(open) => !open && setBillingOrder(null)}
+        onRaised={(bill) => setViewingBillId(bill.id)}
+      />
+
+      {/* RA Bill */}
+      <RABillDialog
+        billId={viewingBillId}
+        onOpenChange={(open) => !open && setViewingBillId(null)}
+      />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={!!history}
+        onOpenChange={(open) => !open && setHistory(null)}
+        entityType={history?.entityType ?? 'WORK_ORDER'}
+        entityId={history?.entityId ?? null}
+        title={history?.entityType === 'RA_BILL' ? 'RA bill history' : 'Work order history'}
+      />
+
+      {/* Reject Confirmation */}
+      <AlertDialog open={!!rejecting} onOpenChange={(open) => !open && closeRejectDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reject RA Bill</AlertDialogTitle>
+            <AlertDialogDescription>
+              {rejecting
+                ? `Send ${rejecting.workOrder.orderNumber} RA bill ${rejecting.bill.billNumber} back? The material it deducted is deducted on the next bill.`
+                : ''}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="raBillReason">Reason *</Label>
+            <Textarea
+              id="raBillReason"
+              rows={2}
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rejectMutation.isPending} className="cursor-pointer">
+              Keep
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRejectConfirm}
+              disabled={rejectMutation.isPending || !reason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {rejectMutation.isPending ? 'Saving...' : 'Reject Bill'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Release Retention Confirmation */}
+      <AlertDialog
+        open={!!releasingOrder}
+        onOpenChange={(open) => !open && setReleasingOrder(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Release Retention</AlertDialogTitle>
+            <AlertDialogDescription>
+              {releasingOrder
+                ? `Pay ${releasingOrder.subcontractor.name} the ${formatCurrency(releasingOrder.retentionHeld)} held on ${releasingOrder.orderNumber}? It is posted as a Sub Work expense and the work order is closed.`
+                : ''}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={releaseMutation.isPending} className="cursor-pointer">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleReleaseConfirm}
+              disabled={releaseMutation.isPending}
+              className="cursor-pointer"
+            >
+              {releaseMutation.isPending ? 'Releasing...' : 'Release Retention'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * RA Bill Dialog
+ *
+ * An RA bill's measurements on each line, what was deducted from it, and the
+ * Sub Work expense it was posted as once approved.
+ */
+
+import { format } from 'date-fns';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ExpenseStatusBadge } from '@/components/approvals/ExpenseStatusBadge';
+import { useRABill } from '@/lib/hooks/useSubcontracts';
+import { BILL_STATUS_CONFIG, formatCurrency, formatQuantity } from './format';
+
+// ============================================
+// Types
+// ============================================
+
+interface RABillDialogProps {
+  billId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function RABillDialog({ billId, onOpenChange }: RABillDialogProps) {
+  const { data: bill, isLoading } = useRABill(billId);
+
+  const deductions = bill
+    ? [
+        {
+          label: `Retention at ${Number(bill.workOrder.retentionPercent)}%`,
+          amount: Number(bill.retentionAmount),
+        },
+        { label: 'Advance recovery', amount: Number(bill.advanceRecovery) },
+        { label: 'Material supplied', amount: Number(bill.materialDeduction) },
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!billId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {bill ? `${bill.workOrder.orderNumber} · RA Bill ${bill.billNumber}` : 'RA Bill'}
+          </DialogTitle>
+          <DialogDescription>
+            {bill
+              ? `${bill.workOrder.subcontractor.name} · ${format(new Date(bill.billDate), 'MMM d, yyyy')}`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !bill ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-2">
+              <Badge variant={BILL_STATUS_CONFIG[bill.status].variant}>
+                {BILL_STATUS_CONFIG[bill.status].label}
+              </Badge>
+              {bill.rejectionReason && (
+                <span className="text-sm text-muted-foreground">{bill.rejectionReason}</span>
+              )}
+            </div>
+
+            {/* Measurements */}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>BOQ ITEM</TableHead>
+                  <TableHead className="text-right">TO DATE</TableHead>
+                  <TableHead className="text-right">PREVIOUS</TableHead>
+                  <TableHead className="text-right">THIS BILL</TableHead>
+                  <TableHead className="text-right">RATE</TableHead>
+                  <TableHead className="text-right">AMOUNT</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bill.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{line.workOrderLine.boqItem.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {line.workOrderLine.boqItem.unit}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatQuantity(Number(line.cumulativeQuantity))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatQuantity(Number(line.previousQuantity))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatQuantity(Number(line.quantity))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatCurrency(Number(line.rate))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm font-medium">
+                      {formatCurrency(Number(line.amount))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {/* Deductions */}
+            <div className="space-y-1 rounded-md border bg-muted/30 p-3 text-sm">
+              <div className="flex justify-between font-medium">
+                <span>Gross</span>
+                <span>{formatCurrency(Number(bill.grossAmount))}</span>
+              </div>
+              {deductions.map((deduction) => (
+                <div key={deduction.label} className="flex justify-between text-muted-foreground">
+                  <span>{deduction.label}</span>
+                  <span>− {formatCurrency(deduction.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t pt-1 font-semibold">
+                <span>Net payable</span>
+                <span>{formatCurrency(Number(bill.netAmount))}</span>
+              </div>
+            </div>
+
+            {/* Material supplied */}
+            {bill.materialIssues.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Material supplied</h4>
+                <div className="divide-y rounded-lg border">
+                  {bill.materialIssues.map((issue) => (
+                    <div
+                      key={issue.id}
+                      className="flex items-center justify-between gap-4 px-4 py-2 text-sm"
+                    >
+                      <span>
+                        {issue.materialType.name} · {formatQuantity(-Number(issue.quantity))}{' '}
+                        {issue.unit}
+                        <span className="text-xs text-muted-foreground">
+                          {' '}
+                          on {format(new Date(issue.movementDate), 'MMM d')}
+                        </span>
+                      </span>
+                      <span>
+                        {formatCurrency(-Number(issue.quantity) * Number(issue.recoveryRate ?? 0))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Posted expense */}
+            {bill.expenses.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Posted as</h4>
+                <div className="divide-y rounded-lg border">
+                  {bill.expenses.map((expense) => (
+                    <div
+                      key={expense.id}
+                      className="flex items-center justify-between gap-4 px-4 py-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{expense.description}</p>
+                        {Number(bill.advanceRecovery) > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Includes the {formatCurrency(Number(bill.advanceRecovery))} advance it
+                            recovers
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <ExpenseStatusBadge expense={expense} />
+                        <span className="text-sm font-medium">
+                          {formatCurrency(Number(expense.rate) * Number(expense.quantity))}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
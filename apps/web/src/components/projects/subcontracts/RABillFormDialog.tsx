@@ -0,0 +1,234 @@
+/**
+ * RA Bill Form Dialog
+ *
+ * Raise a running-account bill against a work order. The quantity measured to
+ * date is entered for each line; the bill pays what is measured beyond the
+ * approved bills before it. Retention, advance recovery and material supplied
+ * are deducted when the bill is raised.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useCreateRABill } from '@/lib/hooks/useSubcontracts';
+import { formatCurrency, formatQuantity } from './format';
+import type { RABill, WorkOrder } from '@/lib/api/subcontracts';
+
+// ============================================
+// Types
+// ============================================
+
+interface RABillFormDialogProps {
+  workOrder: WorkOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onRaised?: (bill: RABill) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function RABillFormDialog({ workOrder, onOpenChange, onRaised }: RABillFormDialogProps) {
+  const [billDate, setBillDate] = useState<Date | undefined>();
+  const [notes, setNotes] = useState('');
+  // Quantity measured to date, by work order line
+  const [measured, setMeasured] = useState<Record<string, string>>({});
+
+  const createMutation = useCreateRABill();
+
+  // Reset when opened, from what approved bills have measured
+  useEffect(() => {
+    if (!workOrder) return;
+
+    setBillDate(new Date());
+    setNotes('');
+    setMeasured(
+      Object.fromEntries(workOrder.lines.map((line) => [line.id, String(line.measuredQuantity)]))
+    );
+  }, [workOrder]);
+
+  const rows = useMemo(
+    () =>
+      (workOrder?.lines ?? []).map((line) => {
+        const cumulative = Number(measured[line.id]) || 0;
+        const quantity = Math.max(0, cumulative - line.measuredQuantity);
+        return { line, cumulative, quantity, amount: quantity * Number(line.rate) };
+      }),
+    [workOrder, measured]
+  );
+
+  const grossAmount = rows.reduce((sum, row) => sum + row.amount, 0);
+  const retention = workOrder ? (grossAmount * Number(workOrder.retentionPercent)) / 100 : 0;
+  const isBelowPrevious = rows.some((row) => row.cumulative < row.line.measuredQuantity);
+
+  const handleSubmit = async () => {
+    if (!workOrder || !billDate) return;
+    if (isBelowPrevious) {
+      toast.error('Measured quantity cannot be less than what was already billed');
+      return;
+    }
+
+    try {
+      const bill = await createMutation.mutateAsync({
+        workOrderId: workOrder.id,
+        data: {
+          billDate: billDate.toISOString(),
+          notes: notes.trim() || null,
+          lines: rows
+            .filter((row) => row.quantity > 0)
+            .map((row) => ({ workOrderLineId: row.line.id, cumulativeQuantity: row.cumulative })),
+        },
+      });
+      toast.success(
+        `RA bill ${bill.billNumber} of ${formatCurrency(Number(bill.netAmount))} raised for approval`
+      );
+      onOpenChange(false);
+      onRaised?.(bill);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to raise RA bill');
+    }
+  };
+
+  return (
+    <Dialog open={!!workOrder} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Raise RA Bill</DialogTitle>
+          <DialogDescription>
+            {workOrder
+              ? `${workOrder.orderNumber} · ${workOrder.subcontractor.name}. Enter the quantity measured to date on each line.`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {workOrder && (
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Bill Date *</Label>
+                <DatePicker value={billDate} onChange={setBillDate} />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>BOQ ITEM</TableHead>
+                  <TableHead className="text-right">ORDERED</TableHead>
+                  <TableHead className="text-right">PREVIOUS</TableHead>
+                  <TableHead className="w-32 text-right">MEASURED TO DATE</TableHead>
+                  <TableHead className="text-right">THIS BILL</TableHead>
+                  <TableHead className="text-right">AMOUNT</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ line, cumulative, quantity, amount }) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="text-sm">
+                      <p className="font-medium">{line.boqItem.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(Number(line.rate))} / {line.boqItem.unit}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatQuantity(Number(line.quantity))}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {formatQuantity(line.measuredQuantity)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        min={line.measuredQuantity}
+                        className="h-8 text-right"
+                        aria-invalid={cumulative < line.measuredQuantity}
+                        value={measured[line.id] ?? ''}
+                        onChange={(event) =>
+                          setMeasured((current) => ({
+                            ...current,
+                            [line.id]: event.target.value,
+                          }))
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{formatQuantity(quantity)}</TableCell>
+                    <TableCell className="text-right text-sm font-medium">
+                      {formatCurrency(amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-2">
+              <Label htmlFor="raBillNotes">Notes</Label>
+              <Textarea
+                id="raBillNotes"
+                rows={2}
+                placeholder="Measurement book reference"
+                value={notes}
+                onChange={(event) => setNotes(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1 rounded-md border bg-muted/30 p-3 text-sm">
+              <div className="flex justify-between font-semibold">
+                <span>Gross</span>
+                <span>{formatCurrency(grossAmount)}</span>
+              </div>
+              <div className="flex justify-between text-muted-foreground">
+                <span>Retention at {Number(workOrder.retentionPercent)}%</span>
+                <span>− {formatCurrency(retention)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Advances and material supplied are recovered when the bill is raised
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="cursor-pointer"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={createMutation.isPending || !billDate || grossAmount <= 0}
+            className="cursor-pointer"
+          >
+            {createMutation.isPending ? 'Raising...' : 'Raise RA Bill'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,434 @@
+/**
+ * Work Order Form Dialog
+ *
+ * Agree a work order with a subcontractor, or edit one nothing is billed against.
+ * Features:
+ * - Subcontractor, sub work type and order date
+ * - Retention held and the share of each bill that recovers advances
+ * - Lines at the agreed rate for each BOQ item of the work
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Trash } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DatePicker } from '@/components/ui/custom/date-picker';
+import { useParties } from '@/lib/hooks/useParties';
+import { useBOQItems } from '@/lib/hooks/useBOQ';
+import { useCategoryItems } from '@/lib/hooks/useCategories';
+import { useCreateWorkOrder, useUpdateWorkOrder } from '@/lib/hooks/useSubcontracts';
+import type { WorkOrder, WorkOrderLineInput } from '@/lib/api/subcontracts';
+import { formatCurrency } from './format';
+
+// ============================================
+// Schema
+// ============================================
+
+const percentField = z.coerce
+  .number({ invalid_type_error: 'Enter a percentage' })
+  .min(0, 'Cannot be negative')
+  .max(100, 'Cannot exceed 100%');
+
+const workOrderFormSchema = z.object({
+  subcontractorId: z.string().min(1, 'Subcontractor is required'),
+  subWorkTypeItemId: z.string(),
+  orderDate: z.date({ required_error: 'Date is required' }),
+  retentionPercent: percentField,
+  advanceRecoveryPercent: percentField,
+  notes: z.string().optional(),
+});
+
+type WorkOrderFormData = z.infer<typeof workOrderFormSchema>;
+
+// ============================================
+// Types
+// ============================================
+
+interface WorkOrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  // Work order to edit; a new one is agreed when not given
+  workOrder?: WorkOrder | null;
+}
+
+interface LineRow {
+  boqItemId: string;
+  quantity: string;
+  rate: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const NO_SUB_WORK_TYPE = 'none';
+
+const EMPTY_LINE: LineRow = { boqItemId: '', quantity: '', rate: '' };
+
+// ============================================
+// Component
+// ============================================
+
+export function WorkOrderFormDialog({
+  open,
+  onOpenChange,
+  projectId,
+  workOrder,
+}: WorkOrderFormDialogProps) {
+  const isEditing = !!workOrder;
+
+  const { data: subcontractorsData } = useParties({ type: 'SUBCONTRACTOR', limit: 100 });
+  const subcontractors = subcontractorsData?.items ?? [];
+  const { data: subWorkTypes = [] } = useCategoryItems('sub_work_type');
+  const { data: boqData } = useBOQItems(projectId, { limit: 100 });
+  const boqItems = boqData?.items ?? [];
+
+  const createMutation = useCreateWorkOrder();
+  const updateMutation = useUpdateWorkOrder();
+
+  const [lines, setLines] = useState<LineRow[]>([EMPTY_LINE]);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<WorkOrderFormData>({
+    resolver: zodResolver(workOrderFormSchema),
+    defaultValues: {
+      subcontractorId: '',
+      subWorkTypeItemId: NO_SUB_WORK_TYPE,
+      orderDate: new Date(),
+      retentionPercent: 5,
+      advanceRecoveryPercent: 0,
+      notes: '',
+    },
+  });
+
+  // Reset when the dialog opens, from the work order being edited if any
+  useEffect(() => {
+    if (!open) return;
+
+    reset({
+      subcontractorId: workOrder?.subcontractorId ?? '',
+      subWorkTypeItemId: workOrder?.subWorkTypeItemId ?? NO_SUB_WORK_TYPE,
+      orderDate: workOrder ? new Date(workOrder.orderDate) : new Date(),
+      retentionPercent: workOrder ? Number(workOrder.retentionPercent) : 5,
+      advanceRecoveryPercent: workOrder ? Number(workOrder.advanceRecoveryPercent) : 0,
+      notes: workOrder?.notes ?? '',
+    });
+    setLines(
+      workOrder
+        ? workOrder.lines.map((line) => ({
+            boqItemId: line.boqItemId,
+            quantity: String(Number(line.quantity)),
+            rate: String(Number(line.rate)),
+          }))
+        : [EMPTY_LINE]
+    );
+  }, [open, workOrder, reset]);
+
+  const totalAmount = useMemo(
+    () =>
+      lines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.rate) || 0), 0),
+    [lines]
+  );
+
+  const updateLine = (index: number, changes: Partial<LineRow>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // A BOQ item fills in its quantity, to be agreed at the subcontractor's rate
+  const selectBoqItem = (index: number, boqItemId: string) => {
+    const item = boqItems.find((candidate) => candidate.id === boqItemId);
+    updateLine(index, {
+      boqItemId,
+      ...(item && !lines[index].quantity && { quantity: String(Number(item.quantity)) }),
+    });
+  };
+
+  const onSubmit = async (data: WorkOrderFormData) => {
+    const orderLines: WorkOrderLineInput[] = lines
+      .filter((line) => line.boqItemId && Number(line.quantity) > 0)
+      .map((line) => ({
+        boqItemId: line.boqItemId,
+        quantity: Number(line.quantity),
+        rate: Number(line.rate),
+      }));
+
+    if (orderLines.length === 0) {
+      toast.error('Add at least one line');
+      return;
+    }
+    if (orderLines.some((line) => !(line.rate > 0))) {
+      toast.error('Each line needs a rate');
+      return;
+    }
+
+    const payload = {
+      subWorkTypeItemId:
+        data.subWorkTypeItemId === NO_SUB_WORK_TYPE ? null : data.subWorkTypeItemId,
+      orderDate: data.orderDate.toISOString(),
+      retentionPercent: data.retentionPercent,
+      advanceRecoveryPercent: data.advanceRecoveryPercent,
+      notes: data.notes || null,
+      lines: orderLines,
+    };
+
+    try {
+      if (workOrder) {
+        await updateMutation.mutateAsync({ id: workOrder.id, data: payload });
+        toast.success(`${workOrder.orderNumber} updated`);
+      } else {
+        const created = await createMutation.mutateAsync({
+          projectId,
+          subcontractorId: data.subcontractorId,
+          ...payload,
+        });
+        toast.success(`${created.orderNumber} agreed`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || `Failed to ${isEditing ? 'update' : 'create'} work order`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? `Edit ${workOrder.orderNumber}` : 'New Work Order'}
+          </DialogTitle>
+          <DialogDescription>
+            RA bills are measured against these lines at the agreed rates
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          {/* Work order details */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Subcontractor *</Label>
+              <Controller
+                name="subcontractorId"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange} disabled={isEditing}>
+                    <SelectTrigger className="cursor-pointer">
+                      <SelectValue placeholder="Select subcontractor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {subcontractors.map((party) => (
+                        <SelectItem key={party.id} value={party.id} className="cursor-pointer">
+                          {party.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.subcontractorId && (
+                <p className="text-sm text-destructive">{errors.subcontractorId.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Sub Work Type</Label>
+              <Controller
+                name="subWorkTypeItemId"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="cursor-pointer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SUB_WORK_TYPE} className="cursor-pointer">
+                        None
+                      </SelectItem>
+                      {subWorkTypes.map((type) => (
+                        <SelectItem key={type.id} value={type.id} className="cursor-pointer">
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Order Date *</Label>
+              <Controller
+                name="orderDate"
+                control={control}
+                render={({ field }) => <DatePicker value={field.value} onChange={field.onChange} />}
+              />
+              {errors.orderDate && (
+                <p className="text-sm text-destructive">{errors.orderDate.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="retentionPercent">Retention %</Label>
+              <Input
+                id="retentionPercent"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                {...register('retentionPercent')}
+              />
+              {errors.retentionPercent && (
+                <p className="text-sm text-destructive">{errors.retentionPercent.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="advanceRecoveryPercent">Advance Recovery %</Label>
+              <Input
+                id="advanceRecoveryPercent"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                {...register('advanceRecoveryPercent')}
+              />
+              {errors.advanceRecoveryPercent && (
+                <p className="text-sm text-destructive">{errors.advanceRecoveryPercent.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Lines */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Lines</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setLines((current) => [...current, EMPTY_LINE])}
+                className="cursor-pointer"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add line
+              </Button>
+            </div>
+            {lines.map((line, index) => {
+              const item = boqItems.find((candidate) => candidate.id === line.boqItemId);
+              return (
+                <div key={index} className="flex items-center gap-2 rounded-lg border p-2">
+                  <Select
+                    value={line.boqItemId}
+                    onValueChange={(value) => selectBoqItem(index, value)}
+                  >
+                    <SelectTrigger className="min-w-0 flex-1 cursor-pointer">
+                      <SelectValue placeholder="BOQ item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {boqItems.map((boqItem) => (
+                        <SelectItem key={boqItem.id} value={boqItem.id} className="cursor-pointer">
+                          {boqItem.code ? `${boqItem.code} · ` : ''}
+                          {boqItem.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    placeholder={item ? `Qty (${item.unit})` : 'Qty'}
+                    className="w-28"
+                    value={line.quantity}
+                    onChange={(event) => updateLine(index, { quantity: event.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Rate"
+                    className="w-28"
+                    value={line.rate}
+                    onChange={(event) => updateLine(index, { rate: event.target.value })}
+                  />
+                  <span className="w-24 text-right text-sm text-muted-foreground">
+                    {formatCurrency((Number(line.quantity) || 0) * (Number(line.rate) || 0))}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={lines.length === 1}
+                    onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                    className="h-8 w-8 shrink-0 cursor-pointer"
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="workOrderNotes">Notes</Label>
+            <Textarea
+              id="workOrderNotes"
+              rows={2}
+              placeholder="Scope, measurement terms"
+              {...register('notes')}
+            />
+          </div>
+
+          {/* Total */}
+          <div className="flex justify-between rounded-md border bg-muted/30 p-3 text-sm font-semibold">
+            <span>Work order value</span>
+            <span>{formatCurrency(totalAmount)}</span>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Work Order' : 'Create Work Order'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
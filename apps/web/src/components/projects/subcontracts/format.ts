@@ -0,0 +1,22 @@
+/**
+ * Subcontract formatting helpers
+ */
+
+import type { RABillStatus } from '@/lib/api/subcontracts';
+
+export function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+export function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('en-IN', { maximumFractionDigits: 4 });
+}
+
+export const BILL_STATUS_CONFIG: Record<
+  RABillStatus,
+  { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }
+> = {
+  PENDING: { label: 'Awaiting approval', variant: 'secondary' },
+  APPROVED: { label: 'Approved', variant: 'default' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+};
@@ -0,0 +1,10 @@
+/**
+ * Subcontract Components
+ *
+ * Re-exports for subcontractor work order and RA bill components.
+ */
+
+export { ProjectSubcontractsTab } from './ProjectSubcontractsTab';
+export { WorkOrderFormDialog } from './WorkOrderFormDialog';
+export { RABillFormDialog } from './RABillFormDialog';
+export { RABillDialog } from './RABillDialog';
@@ -0,0 +1,56 @@
+/**
+ * Rate Breakdown
+ *
+ * Cost per unit by kind, then overhead and profit, down to the unit rate
+ */
+
+import type { RateTotals } from '@/lib/api/rate-analysis';
+import { formatCurrency } from '../projects/change-orders/format';
+
+interface RateBreakdownProps {
+  totals: RateTotals;
+  overheadPercent: number;
+  profitPercent: number;
+  unit?: string;
+}
+
+export function RateBreakdown({
+  totals,
+  overheadPercent,
+  profitPercent,
+  unit,
+}: RateBreakdownProps) {
+  const lines = [
+    { label: 'Material', amount: totals.materialCost },
+    { label: 'Labour', amount: totals.labourCost },
+    { label: 'Equipment', amount: totals.equipmentCost },
+    { label: 'Other', amount: totals.otherCost },
+  ].filter((line) => line.amount > 0);
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-3 space-y-1 text-sm">
+      {lines.map((line) => (
+        <div key={line.label} className="flex justify-between text-muted-foreground">
+          <span>{line.label}</span>
+          <span>{formatCurrency(line.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <span>Direct cost</span>
+        <span>{formatCurrency(totals.directCost)}</span>
+      </div>
+      <div className="flex justify-between text-muted-foreground">
+        <span>Overhead ({overheadPercent}%)</span>
+        <span>{formatCurrency(totals.overheadAmount)}</span>
+      </div>
+      <div className="flex justify-between text-muted-foreground">
+        <span>Profit ({profitPercent}%)</span>
+        <span>{formatCurrency(totals.profitAmount)}</span>
+      </div>
+      <div className="flex justify-between border-t pt-1 font-semibold">
+        <span>Rate{unit ? ` per ${unit}` : ''}</span>
+        <span>{formatCurrency(totals.unitRate)}</span>
+      </div>
+    </div>
+  );
+}
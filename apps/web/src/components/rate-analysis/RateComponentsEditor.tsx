@@ -0,0 +1,223 @@
+/**
+ * Rate Components Editor
+ *
+ * The material, labour, equipment and other components that go into one unit
+ * of work, each a quantity at a rate. A component can name the material,
+ * labour or sub-work type it is priced against, so it can be checked against
+ * what was actually paid.
+ */
+
+import { Plus, Trash } from '@phosphor-icons/react';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCategoryItems } from '@/lib/hooks/useCategories';
+import type { RateComponentKind } from '@/lib/api/rate-analysis';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '../projects/change-orders/format';
+import {
+  KIND_LABELS,
+  KIND_TYPE_KEYS,
+  NO_CATEGORY_ITEM,
+  emptyRow,
+  rowAmount,
+  type ComponentRow,
+} from './rate-components';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ActualRate {
+  actualRate: number | null;
+  expenseCount: number;
+}
+
+interface RateComponentsEditorProps {
+  rows: ComponentRow[];
+  onChange: (rows: ComponentRow[]) => void;
+  // What the project paid, by category item, to compare each row's rate with
+  actualRates?: Map<string, ActualRate>;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function RateComponentsEditor({ rows, onChange, actualRates }: RateComponentsEditorProps) {
+  const { data: materialTypes = [] } = useCategoryItems('material_type');
+  const { data: labourTypes = [] } = useCategoryItems('labour_type');
+  const { data: subWorkTypes = [] } = useCategoryItems('sub_work_type');
+
+  const typeOptions: Record<string, typeof materialTypes> = {
+    material_type: materialTypes,
+    labour_type: labourTypes,
+    sub_work_type: subWorkTypes,
+  };
+
+  const updateRow = (index: number, changes: Partial<ComponentRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // Another kind prices against another category
+  const changeKind = (index: number, kind: RateComponentKind) => {
+    updateRow(index, { kind, categoryItemId: NO_CATEGORY_ITEM });
+  };
+
+  // A type names the component unless it already has a description
+  const selectType = (index: number, categoryItemId: string) => {
+    const row = rows[index];
+    const item = typeOptions[KIND_TYPE_KEYS[row.kind]].find(
+      (candidate) => candidate.id === categoryItemId
+    );
+    updateRow(index, {
+      categoryItemId,
+      ...(item && !row.description.trim() && { description: item.name }),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Components per unit</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...rows, emptyRow(rows[rows.length - 1]?.kind)])}
+          className="cursor-pointer"
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add component
+        </Button>
+      </div>
+
+      {rows.map((row, index) => {
+        const actual =
+          row.categoryItemId !== NO_CATEGORY_ITEM
+            ? actualRates?.get(row.categoryItemId)
+            : undefined;
+        const rate = Number(row.rate) || 0;
+        const variance =
+          actual?.actualRate != null && rate > 0
+            ? Math.round(((actual.actualRate - rate) / rate) * 10000) / 100
+            : null;
+
+        return (
+          <div key={index} className="rounded-lg border p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <Select
+                value={row.kind}
+                onValueChange={(value) => changeKind(index, value as RateComponentKind)}
+              >
+                <SelectTrigger className="w-32 shrink-0 cursor-pointer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind} className="cursor-pointer">
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={row.categoryItemId}
+                onValueChange={(value) => selectType(index, value)}
+              >
+                <SelectTrigger className="w-44 shrink-0 cursor-pointer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY_ITEM} className="cursor-pointer">
+                    No type
+                  </SelectItem>
+                  {typeOptions[KIND_TYPE_KEYS[row.kind]].map((item) => (
+                    <SelectItem key={item.id} value={item.id} className="cursor-pointer">
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Description"
+                value={row.description}
+                onChange={(event) => updateRow(index, { description: event.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={rows.length === 1}
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                className="h-8 w-8 shrink-0 cursor-pointer"
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Unit"
+                className="w-24"
+                value={row.unit}
+                onChange={(event) => updateRow(index, { unit: event.target.value })}
+              />
+              <Input
+                type="number"
+                step="0.0001"
+                min="0"
+                placeholder="Qty"
+                className="w-28"
+                value={row.quantity}
+                onChange={(event) => updateRow(index, { quantity: event.target.value })}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Rate"
+                className="w-32"
+                value={row.rate}
+                onChange={(event) => updateRow(index, { rate: event.target.value })}
+              />
+              {actual && (
+                <span className="text-xs text-muted-foreground">
+                  {actual.actualRate === null ? (
+                    'No expenses yet'
+                  ) : (
+                    <>
+                      Paid {formatCurrency(actual.actualRate)} over {actual.expenseCount}{' '}
+                      {actual.expenseCount === 1 ? 'expense' : 'expenses'}
+                      {variance !== null && (
+                        <span
+                          className={cn(
+                            'ml-1 font-medium',
+                            variance > 0 ? 'text-red-600' : 'text-green-600'
+                          )}
+                        >
+                          ({variance > 0 ? '+' : ''}
+                          {variance}%)
+                        </span>
+                      )}
+                    </>
+                  )}
+                </span>
+              )}
+              <span className="ml-auto text-sm text-muted-foreground">
+                {formatCurrency(rowAmount(row))}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
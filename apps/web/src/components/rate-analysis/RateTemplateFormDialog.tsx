@@ -0,0 +1,220 @@
+/**
+ * Rate Template Form Dialog
+ *
+ * Add or edit a template in the organization's rate analysis library: the
+ * components that make up one unit of a kind of work, with the overhead and
+ * profit usually added on top.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { RateTemplate, RateTemplateInput } from '@/lib/api/rate-analysis';
+import { RateComponentsEditor } from './RateComponentsEditor';
+import { RateBreakdown } from './RateBreakdown';
+import { emptyRow, priceRows, toInputs, toRows, type ComponentRow } from './rate-components';
+
+// ============================================
+// Schema
+// ============================================
+
+const templateFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().optional(),
+  unit: z.string().trim().min(1, 'Unit is required'),
+  overheadPercent: z.coerce.number().min(0).max(100, 'At most 100%'),
+  profitPercent: z.coerce.number().min(0).max(100, 'At most 100%'),
+});
+
+type TemplateFormData = z.infer<typeof templateFormSchema>;
+
+// ============================================
+// Props
+// ============================================
+
+interface RateTemplateFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template?: RateTemplate | null;
+  onSubmit: (data: RateTemplateInput) => void;
+  isSubmitting: boolean;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function RateTemplateFormDialog({
+  open,
+  onOpenChange,
+  template,
+  onSubmit,
+  isSubmitting,
+}: RateTemplateFormDialogProps) {
+  const isEditing = !!template;
+  const [rows, setRows] = useState<ComponentRow[]>([emptyRow()]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: { name: '', description: '', unit: '', overheadPercent: 0, profitPercent: 0 },
+  });
+
+  // Reset when the dialog opens, from the template being edited if any
+  useEffect(() => {
+    if (!open) return;
+
+    reset({
+      name: template?.name ?? '',
+      description: template?.description ?? '',
+      unit: template?.unit ?? '',
+      overheadPercent: template ? Number(template.overheadPercent) : 0,
+      profitPercent: template ? Number(template.profitPercent) : 0,
+    });
+    setRows(template ? toRows(template.components) : [emptyRow()]);
+  }, [open, template, reset]);
+
+  const overheadPercent = Number(watch('overheadPercent')) || 0;
+  const profitPercent = Number(watch('profitPercent')) || 0;
+  const totals = useMemo(
+    () => priceRows(rows, overheadPercent, profitPercent),
+    [rows, overheadPercent, profitPercent]
+  );
+
+  const handleFormSubmit = (data: TemplateFormData) => {
+    const components = toInputs(rows);
+    if (!components) {
+      toast.error('Each component needs a unit and a quantity');
+      return;
+    }
+    if (components.length === 0) {
+      toast.error('Add at least one component');
+      return;
+    }
+
+    onSubmit({
+      name: data.name,
+      description: data.description || null,
+      unit: data.unit,
+      overheadPercent: data.overheadPercent,
+      profitPercent: data.profitPercent,
+      components,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Rate Template' : 'Add Rate Template'}</DialogTitle>
+          <DialogDescription>
+            What goes into one unit of this work. Load it into any BOQ item's rate analysis.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-5">
+          <div className="grid grid-cols-[1fr_8rem] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name *</Label>
+              <Input
+                id="template-name"
+                placeholder="e.g., Brickwork in CM 1:6"
+                {...register('name')}
+              />
+              {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-unit">Per *</Label>
+              <Input id="template-unit" placeholder="cum" {...register('unit')} />
+              {errors.unit && <p className="text-sm text-destructive">{errors.unit.message}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              rows={2}
+              placeholder="Specification, mix, where it applies"
+              {...register('description')}
+            />
+          </div>
+
+          <RateComponentsEditor rows={rows} onChange={setRows} />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-overhead">Overhead %</Label>
+              <Input
+                id="template-overhead"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                {...register('overheadPercent')}
+              />
+              {errors.overheadPercent && (
+                <p className="text-sm text-destructive">{errors.overheadPercent.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-profit">Profit %</Label>
+              <Input
+                id="template-profit"
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                {...register('profitPercent')}
+              />
+              {errors.profitPercent && (
+                <p className="text-sm text-destructive">{errors.profitPercent.message}</p>
+              )}
+            </div>
+          </div>
+
+          <RateBreakdown
+            totals={totals}
+            overheadPercent={overheadPercent}
+            profitPercent={profitPercent}
+            unit={watch('unit')}
+          />
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="cursor-pointer"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Template'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
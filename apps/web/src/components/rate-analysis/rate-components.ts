@@ -0,0 +1,118 @@
+/**
+ * Rate analysis component rows and pricing
+ */
+
+import type {
+  RateComponent,
+  RateComponentInput,
+  RateComponentKind,
+  RateTotals,
+} from '@/lib/api/rate-analysis';
+
+// An editable component, with numbers kept as typed
+export interface ComponentRow {
+  kind: RateComponentKind;
+  categoryItemId: string;
+  description: string;
+  unit: string;
+  quantity: string;
+  rate: string;
+}
+
+export const NO_CATEGORY_ITEM = 'none';
+
+export const KIND_LABELS: Record<RateComponentKind, string> = {
+  MATERIAL: 'Material',
+  LABOUR: 'Labour',
+  EQUIPMENT: 'Equipment',
+  OTHER: 'Other',
+};
+
+// Category whose expenses a component of each kind is checked against.
+// Equipment hire is booked as sub work.
+export const KIND_TYPE_KEYS: Record<RateComponentKind, string> = {
+  MATERIAL: 'material_type',
+  LABOUR: 'labour_type',
+  EQUIPMENT: 'sub_work_type',
+  OTHER: 'sub_work_type',
+};
+
+export const emptyRow = (kind: RateComponentKind = 'MATERIAL'): ComponentRow => ({
+  kind,
+  categoryItemId: NO_CATEGORY_ITEM,
+  description: '',
+  unit: '',
+  quantity: '',
+  rate: '',
+});
+
+export function toRows(components: RateComponent[]): ComponentRow[] {
+  return components.map((component) => ({
+    kind: component.kind,
+    categoryItemId: component.categoryItemId ?? NO_CATEGORY_ITEM,
+    description: component.description,
+    unit: component.unit,
+    quantity: String(Number(component.quantity)),
+    rate: String(Number(component.rate)),
+  }));
+}
+
+/**
+ * Rows ready to save; blank rows are left out, and null when any other row is
+ * missing its unit or quantity
+ */
+export function toInputs(rows: ComponentRow[]): RateComponentInput[] | null {
+  const filled = rows.filter((row) => row.description.trim());
+  if (filled.some((row) => !row.unit.trim() || !(Number(row.quantity) > 0))) {
+    return null;
+  }
+
+  return filled.map((row) => ({
+    kind: row.kind,
+    categoryItemId: row.categoryItemId === NO_CATEGORY_ITEM ? null : row.categoryItemId,
+    description: row.description.trim(),
+    unit: row.unit.trim(),
+    quantity: Number(row.quantity),
+    rate: Number(row.rate) || 0,
+  }));
+}
+
+export function rowAmount(row: { quantity: string; rate: string }): number {
+  return Math.round((Number(row.quantity) || 0) * (Number(row.rate) || 0) * 100) / 100;
+}
+
+/**
+ * Cost per unit as the rows stand, worked out the same way as the server:
+ * overhead on the direct cost, profit on cost plus overhead
+ */
+export function priceRows(
+  rows: ComponentRow[],
+  overheadPercent: number,
+  profitPercent: number
+): RateTotals {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const byKind: Record<RateComponentKind, number> = {
+    MATERIAL: 0,
+    LABOUR: 0,
+    EQUIPMENT: 0,
+    OTHER: 0,
+  };
+  for (const row of rows) {
+    byKind[row.kind] += rowAmount(row);
+  }
+
+  const directCost = round(byKind.MATERIAL + byKind.LABOUR + byKind.EQUIPMENT + byKind.OTHER);
+  const overheadAmount = round((directCost * overheadPercent) / 100);
+  const profitAmount = round(((directCost + overheadAmount) * profitPercent) / 100);
+
+  return {
+    materialCost: round(byKind.MATERIAL),
+    labourCost: round(byKind.LABOUR),
+    equipmentCost: round(byKind.EQUIPMENT),
+    otherCost: round(byKind.OTHER),
+    directCost,
+    overheadAmount,
+    profitAmount,
+    unitRate: round(directCost + overheadAmount + profitAmount),
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Rate Entry Dialog
+ *
+ * One entry of the rate library:
+ * - Last, average, lowest and highest rate paid
+ * - The rate month by month
+ * - Rates by vendor and by site location, and the latest expenses
+ */
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useRateLibraryEntry } from '@/lib/hooks/useRateLibrary';
+import type { RateLibraryEntry, RateStats, RateWindowParams } from '@/lib/api/rate-library';
+import { formatCurrency, formatQuantity } from '../projects/change-orders/format';
+import { RateTrendChart } from './RateTrendChart';
+
+// ============================================
+// Types
+// ============================================
+
+interface RateEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: RateLibraryEntry | null;
+  // Expense dates the library is showing
+  period?: RateWindowParams;
+}
+
+type Breakdown = 'vendors' | 'locations' | 'recent';
+
+// ============================================
+// Helpers
+// ============================================
+
+function StatsCells({ stats }: { stats: RateStats }) {
+  return (
+    <>
+      <TableCell className="text-right text-sm">{formatCurrency(stats.lastRate)}</TableCell>
+      <TableCell className="text-right text-sm font-medium">
+        {formatCurrency(stats.averageRate)}
+      </TableCell>
+      <TableCell className="text-right text-sm text-muted-foreground">
+        {formatCurrency(stats.minRate)}–{formatCurrency(stats.maxRate)}
+      </TableCell>
+      <TableCell className="text-right text-sm text-muted-foreground">
+        {formatQuantity(stats.totalQuantity)}
+      </TableCell>
+    </>
+  );
+}
+
+const STATS_HEADS = (
+  <>
+    <TableHead className="text-right">LAST</TableHead>
+    <TableHead className="text-right">AVERAGE</TableHead>
+    <TableHead className="text-right">RANGE</TableHead>
+    <TableHead className="text-right">QTY</TableHead>
+  </>
+);
+
+// ============================================
+// Component
+// ============================================
+
+export function RateEntryDialog({ open, onOpenChange, entry, period }: RateEntryDialogProps) {
+  const [breakdown, setBreakdown] = useState<Breakdown>('vendors');
+
+  useEffect(() => {
+    if (open) setBreakdown('vendors');
+  }, [open]);
+
+  const { data: detail, isLoading } = useRateLibraryEntry(
+    open ? (entry?.categoryItem.id ?? null) : null,
+    entry?.unit ?? null,
+    period
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {entry?.categoryItem.name}
+            {entry?.unit ? ` per ${entry.unit}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            What the organization has paid, from approved and pending expenses.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !detail ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {/* Totals */}
+            <div className="flex gap-4">
+              <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                <p className="text-xs text-muted-foreground mb-1">
+                  Last · {format(new Date(detail.lastDate), 'MMM d, yyyy')}
+                </p>
+                <p className="text-lg font-semibold">{formatCurrency(detail.lastRate)}</p>
+              </div>
+              <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                <p className="text-xs text-muted-foreground mb-1">Average</p>
+                <p className="text-lg font-semibold">{formatCurrency(detail.averageRate)}</p>
+              </div>
+              <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                <p className="text-xs text-muted-foreground mb-1">Lowest</p>
+                <p className="text-lg font-semibold">{formatCurrency(detail.minRate)}</p>
+              </div>
+              <div className="flex-1 rounded-md border bg-muted/30 p-3">
+                <p className="text-xs text-muted-foreground mb-1">Highest</p>
+                <p className="text-lg font-semibold">{formatCurrency(detail.maxRate)}</p>
+              </div>
+            </div>
+
+            {/* Trend */}
+            <div className="rounded-md border p-3">
+              <p className="text-sm font-medium mb-2">Rate by month</p>
+              <RateTrendChart trend={detail.trend} />
+            </div>
+
+            <Tabs value={breakdown} onValueChange={(v) => setBreakdown(v as Breakdown)}>
+              <TabsList>
+                <TabsTrigger value="vendors" className="cursor-pointer">
+                  By Vendor
+                </TabsTrigger>
+                <TabsTrigger value="locations" className="cursor-pointer">
+                  By Location
+                </TabsTrigger>
+                <TabsTrigger value="recent" className="cursor-pointer">
+                  Latest Expenses
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <div className="max-h-[320px] overflow-y-auto rounded-md border">
+              <Table>
+                {breakdown === 'recent' ? (
+                  <>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>DATE</TableHead>
+                        <TableHead>VENDOR</TableHead>
+                        <TableHead>PROJECT</TableHead>
+                        <TableHead className="text-right">RATE</TableHead>
+                        <TableHead className="text-right">QTY</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.recent.map((expense) => (
+                        <TableRow key={expense.id}>
+                          <TableCell className="text-sm">
+                            {format(new Date(expense.expenseDate), 'MMM d, yyyy')}
+                          </TableCell>
+                          <TableCell className="text-sm">{expense.party.name}</TableCell>
+                          <TableCell className="text-sm">
+                            {expense.project.name}
+                            <span className="text-xs text-muted-foreground">
+                              {' '}
+                              · {expense.project.location}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right text-sm font-medium">
+                            {formatCurrency(expense.rate)}
+                          </TableCell>
+                          <TableCell className="text-right text-sm text-muted-foreground">
+                            {formatQuantity(expense.quantity)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </>
+                ) : (
+                  <>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{breakdown === 'vendors' ? 'VENDOR' : 'LOCATION'}</TableHead>
+                        <TableHead className="text-right">EXPENSES</TableHead>
+                        {STATS_HEADS}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {breakdown === 'vendors'
+                        ? detail.vendors.map((vendor) => (
+                            <TableRow key={vendor.party.id}>
+                              <TableCell className="text-sm font-medium">
+                                {vendor.party.name}
+                              </TableCell>
+                              <TableCell className="text-right text-sm">{vendor.count}</TableCell>
+                              <StatsCells stats={vendor} />
+                            </TableRow>
+                          ))
+                        : detail.locations.map((location) => (
+                            <TableRow key={location.location}>
+                              <TableCell className="text-sm font-medium">
+                                {location.location}
+                              </TableCell>
+                              <TableCell className="text-right text-sm">{location.count}</TableCell>
+                              <StatsCells stats={location} />
+                            </TableRow>
+                          ))}
+                    </TableBody>
+                  </>
+                )}
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Rate Suggestions
+ *
+ * What the organization has paid for a material, labour or sub-work type,
+ * shown under a rate field: the last and average rate, the range, and the
+ * vendor's and the site location's own rates. Any of them fills in the rate.
+ */
+
+import { format } from 'date-fns';
+
+import { Button } from '@/components/ui/button';
+import { useRateSuggestions } from '@/lib/hooks/useRateLibrary';
+import type { RateSuggestion } from '@/lib/api/rate-library';
+import { formatCurrency } from '../projects/change-orders/format';
+
+interface RateSuggestionsProps {
+  categoryItemId?: string;
+  // Rates in this unit are shown first
+  unit?: string;
+  partyId?: string;
+  projectId?: string;
+  onUseRate: (rate: number) => void;
+}
+
+function RateChip({
+  label,
+  rate,
+  onUseRate,
+}: {
+  label: string;
+  rate: number;
+  onUseRate: (rate: number) => void;
+}) {
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={() => onUseRate(rate)}
+      className="h-6 px-2 text-xs cursor-pointer"
+    >
+      {label} {formatCurrency(rate)}
+    </Button>
+  );
+}
+
+/**
+ * The suggestion in the unit being entered, or else the units it has been
+ * bought in most
+ */
+function pickSuggestions(suggestions: RateSuggestion[], unit?: string): RateSuggestion[] {
+  const wanted = unit?.trim().toLowerCase();
+  const match = wanted
+    ? suggestions.find((suggestion) => suggestion.unit?.toLowerCase() === wanted)
+    : undefined;
+  return match ? [match] : suggestions.slice(0, 2);
+}
+
+export function RateSuggestions({
+  categoryItemId,
+  unit,
+  partyId,
+  projectId,
+  onUseRate,
+}: RateSuggestionsProps) {
+  const { data } = useRateSuggestions({
+    categoryItemId: categoryItemId ?? '',
+    partyId: partyId || undefined,
+    projectId,
+  });
+
+  if (!data || data.suggestions.length === 0) return null;
+
+  const wanted = unit?.trim().toLowerCase();
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-2 space-y-2">
+      {pickSuggestions(data.suggestions, unit).map((suggestion) => {
+        const { overall, vendor, location } = suggestion;
+        const otherUnit = !!wanted && suggestion.unit?.toLowerCase() !== wanted;
+
+        return (
+          <div key={suggestion.unit ?? ''} className="space-y-1">
+            <p className="text-xs text-muted-foreground">
+              {data.categoryItem.name}
+              {suggestion.unit ? ` per ${suggestion.unit}` : ''}
+              {otherUnit && ' (another unit)'} · {overall.count}{' '}
+              {overall.count === 1 ? 'expense' : 'expenses'} · {formatCurrency(overall.minRate)}–
+              {formatCurrency(overall.maxRate)}
+            </p>
+            <div className="flex flex-wrap gap-1">
+              <RateChip
+                label={`Last (${format(new Date(overall.lastDate), 'MMM d')})`}
+                rate={overall.lastRate}
+                onUseRate={onUseRate}
+              />
+              <RateChip label="Average" rate={overall.averageRate} onUseRate={onUseRate} />
+              {vendor && (
+                <RateChip label="This vendor" rate={vendor.lastRate} onUseRate={onUseRate} />
+              )}
+              {location && (
+                <RateChip
+                  label={`In ${location.location}`}
+                  rate={location.averageRate}
+                  onUseRate={onUseRate}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
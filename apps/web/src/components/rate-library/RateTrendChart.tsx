@@ -0,0 +1,117 @@
+/**
+ * Rate Trend Chart
+ *
+ * The average rate paid month by month as a line, over a band from the lowest
+ * to the highest rate paid that month
+ */
+
+import { useMemo } from 'react';
+import { format, parse } from 'date-fns';
+
+import type { RateTrendPoint } from '@/lib/api/rate-library';
+import { formatCurrency } from '../projects/change-orders/format';
+
+interface RateTrendChartProps {
+  trend: RateTrendPoint[];
+  height?: number;
+}
+
+// Drawing area in viewBox units; the SVG scales to its container's width
+const WIDTH = 600;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 64 };
+
+function monthLabel(month: string): string {
+  return format(parse(month, 'yyyy-MM', new Date()), 'MMM yy');
+}
+
+export function RateTrendChart({ trend, height = 200 }: RateTrendChartProps) {
+  const chart = useMemo(() => {
+    const low = Math.min(...trend.map((point) => point.minRate));
+    const high = Math.max(...trend.map((point) => point.maxRate));
+    // Keep a flat trend off the edges
+    const spread = high - low || Math.max(high * 0.1, 1);
+    const top = high + spread * 0.1;
+    const bottom = Math.max(low - spread * 0.1, 0);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const x = (index: number) =>
+      PADDING.left +
+      (trend.length === 1 ? plotWidth / 2 : (index / (trend.length - 1)) * plotWidth);
+    const y = (rate: number) => PADDING.top + ((top - rate) / (top - bottom)) * plotHeight;
+
+    const points = trend.map((point, index) => ({
+      ...point,
+      x: x(index),
+      yAverage: y(point.averageRate),
+      yMin: y(point.minRate),
+      yMax: y(point.maxRate),
+    }));
+    const band = [
+      ...points.map((point) => `${point.x},${point.yMax}`),
+      ...[...points].reverse().map((point) => `${point.x},${point.yMin}`),
+    ].join(' ');
+    const line = points.map((point) => `${point.x},${point.yAverage}`).join(' ');
+    const ticks = [top, (top + bottom) / 2, bottom].map((rate) => ({ rate, y: y(rate) }));
+    // Label at most six months so they do not overlap
+    const labelEvery = Math.ceil(points.length / 6);
+
+    return { points, band, line, ticks, labelEvery };
+  }, [trend, height]);
+
+  if (trend.length === 0) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full"
+      role="img"
+      aria-label="Rate paid month by month"
+    >
+      {chart.ticks.map((tick) => (
+        <g key={tick.rate}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={tick.y}
+            y2={tick.y}
+            className="stroke-muted"
+            strokeDasharray="4 4"
+          />
+          <text
+            x={PADDING.left - 8}
+            y={tick.y}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {formatCurrency(Math.round(tick.rate))}
+          </text>
+        </g>
+      ))}
+
+      <polygon points={chart.band} className="fill-primary/10" />
+      <polyline points={chart.line} fill="none" className="stroke-primary" strokeWidth={2} />
+
+      {chart.points.map((point, index) => (
+        <g key={point.month}>
+          <circle cx={point.x} cy={point.yAverage} r={3.5} className="fill-primary">
+            <title>
+              {`${monthLabel(point.month)}: average ${formatCurrency(point.averageRate)}, ${formatCurrency(point.minRate)}–${formatCurrency(point.maxRate)} over ${point.count} ${point.count === 1 ? 'expense' : 'expenses'}`}
+            </title>
+          </circle>
+          {index % chart.labelEvery === 0 && (
+            <text
+              x={point.x}
+              y={height - 6}
+              textAnchor="middle"
+              className="fill-muted-foreground text-[11px]"
+            >
+              {monthLabel(point.month)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
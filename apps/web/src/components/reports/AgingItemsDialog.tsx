@@ -0,0 +1,174 @@
+/**
+ * Aging Items Dialog
+ *
+ * Drill-down from an aging report row: the open bills (payables) or client
+ * installments (receivables) behind it, oldest first, with their age.
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { FileCsv } from '@phosphor-icons/react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { useAgingItems } from '@/lib/hooks/useReports';
+import { downloadAgingItems, type AgingBucket, type AgingItemsParams } from '@/lib/api/reports';
+import { saveFile } from '@/lib/utils';
+
+// ============================================
+// Types
+// ============================================
+
+interface AgingItemsDialogProps {
+  /** Row to drill into; the dialog is closed when not set */
+  params: AgingItemsParams | null;
+  /** Party or project name shown in the title */
+  title: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  days0to30: '0-30 days',
+  days31to60: '31-60 days',
+  days61to90: '61-90 days',
+  over90: '90+ days',
+};
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function AgingItemsDialog({ params, title, onOpenChange }: AgingItemsDialogProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { data, isLoading } = useAgingItems(params);
+  const isPayables = params?.kind !== 'receivables';
+
+  const handleDownload = async () => {
+    if (!params) return;
+    setIsDownloading(true);
+    try {
+      const { blob, fileName } = await downloadAgingItems(params);
+      saveFile(blob, fileName);
+    } catch {
+      toast.error('Failed to download CSV');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!params} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {isPayables
+              ? 'Bills not yet paid in full, aged from the expense date.'
+              : 'Installments due and not yet received in full, aged from when they fell due.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="h-64 rounded-lg border bg-muted/40 animate-pulse" />
+        ) : (
+          <div className="max-h-96 overflow-y-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>DATE</TableHead>
+                  <TableHead>{isPayables ? 'BILL' : 'INSTALLMENT'}</TableHead>
+                  <TableHead className="text-right">AMOUNT</TableHead>
+                  <TableHead className="text-right">{isPayables ? 'PAID' : 'RECEIVED'}</TableHead>
+                  <TableHead className="text-right">OUTSTANDING</TableHead>
+                  <TableHead className="text-right">AGE</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                      Nothing outstanding
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(item.date), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-[240px]">
+                        <p className="truncate font-medium">{item.description}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {[item.party?.name, item.project.name].filter(Boolean).join(' · ')}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {formatCurrency(item.amount)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {formatCurrency(item.settled)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm font-medium">
+                        {formatCurrency(item.outstanding)}
+                      </TableCell>
+                      <TableCell className="text-right text-sm whitespace-nowrap">
+                        <p>{item.ageDays} days</p>
+                        <p className="text-xs text-muted-foreground">
+                          {BUCKET_LABELS[item.bucket]}
+                        </p>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <p className="text-sm">
+            Total outstanding:{' '}
+            <span className="font-semibold">{formatCurrency(data?.total ?? 0)}</span>
+          </p>
+          <Button
+            variant="outline"
+            onClick={handleDownload}
+            disabled={isDownloading || !data}
+            className="cursor-pointer"
+          >
+            <FileCsv className="mr-2 h-4 w-4" />
+            {isDownloading ? 'Downloading...' : 'Export CSV'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Tax Report
+ *
+ * Monthly tax summaries on the Reports page:
+ * - GST input: GST on bills from parties, split into CGST and SGST or IGST, with
+ *   the input credit that can be claimed
+ * - TDS: tax deducted from payments to parties per section, with the date it is
+ *   due to the government
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { FileCsv, Receipt } from '@phosphor-icons/react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { useGstInputReport, useTdsReport } from '@/lib/hooks/useReports';
+import {
+  downloadGstInputReport,
+  downloadTdsReport,
+  type GstInputAmounts,
+  type GstInputReport,
+  type TdsAmounts,
+  type TdsReport,
+} from '@/lib/api/reports';
+import { saveFile } from '@/lib/utils';
+
+// ============================================
+// Types
+// ============================================
+
+export type TaxReportKind = 'gst-input' | 'tds';
+
+interface TaxReportProps {
+  kind: TaxReportKind;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const GST_COLUMNS: Array<{ key: keyof GstInputAmounts; label: string }> = [
+  { key: 'taxableAmount', label: 'TAXABLE VALUE' },
+  { key: 'cgstAmount', label: 'CGST' },
+  { key: 'sgstAmount', label: 'SGST' },
+  { key: 'igstAmount', label: 'IGST' },
+  { key: 'gstAmount', label: 'TOTAL GST' },
+  { key: 'eligibleCredit', label: 'ELIGIBLE ITC' },
+];
+
+const TDS_COLUMNS: Array<{ key: keyof TdsAmounts; label: string }> = [
+  { key: 'grossAmount', label: 'GROSS PAID' },
+  { key: 'tdsAmount', label: 'TDS' },
+  { key: 'netAmount', label: 'NET PAID' },
+];
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+}
+
+function currentMonth(): string {
+  return format(new Date(), 'yyyy-MM');
+}
+
+// ============================================
+// Tables
+// ============================================
+
+function GstInputTable({ report }: { report: GstInputReport }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>PARTY</TableHead>
+          <TableHead>GSTIN</TableHead>
+          <TableHead className="text-right">BILLS</TableHead>
+          {GST_COLUMNS.map((column) => (
+            <TableHead key={column.key} className="text-right">
+              {column.label}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.rows.map((row) => (
+          <TableRow key={row.party.id}>
+            <TableCell className="font-medium">{row.party.name}</TableCell>
+            <TableCell className="text-muted-foreground">{row.party.gstin ?? '-'}</TableCell>
+            <TableCell className="text-right">{row.bills}</TableCell>
+            {GST_COLUMNS.map((column) => (
+              <TableCell key={column.key} className="text-right">
+                {row[column.key] ? formatCurrency(row[column.key]) : '-'}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell className="font-semibold" colSpan={2}>
+            Total
+          </TableCell>
+          <TableCell className="text-right font-semibold">{report.totals.bills}</TableCell>
+          {GST_COLUMNS.map((column) => (
+            <TableCell key={column.key} className="text-right font-semibold">
+              {formatCurrency(report.totals[column.key])}
+            </TableCell>
+          ))}
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
+
+function TdsTable({ report }: { report: TdsReport }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>SECTION</TableHead>
+          <TableHead>PARTY</TableHead>
+          <TableHead>PAN</TableHead>
+          <TableHead className="text-right">PAYMENTS</TableHead>
+          {TDS_COLUMNS.map((column) => (
+            <TableHead key={column.key} className="text-right">
+              {column.label}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.rows.map((row) => (
+          <TableRow key={`${row.party.id}-${row.section}`}>
+            <TableCell>
+              <span className="font-medium">{row.section}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{row.sectionName}</span>
+            </TableCell>
+            <TableCell className="font-medium">{row.party.name}</TableCell>
+            <TableCell className="text-muted-foreground">{row.party.pan ?? '-'}</TableCell>
+            <TableCell className="text-right">{row.payments}</TableCell>
+            {TDS_COLUMNS.map((column) => (
+              <TableCell key={column.key} className="text-right">
+                {formatCurrency(row[column.key])}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell className="font-semibold" colSpan={3}>
+            Total
+          </TableCell>
+          <TableCell className="text-right font-semibold">{report.totals.payments}</TableCell>
+          {TDS_COLUMNS.map((column) => (
+            <TableCell key={column.key} className="text-right font-semibold">
+              {formatCurrency(report.totals[column.key])}
+            </TableCell>
+          ))}
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function TaxReport({ kind }: TaxReportProps) {
+  const [month, setMonth] = useState(currentMonth);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const gstQuery = useGstInputReport(kind === 'gst-input' ? { month } : null);
+  const tdsQuery = useTdsReport(kind === 'tds' ? { month } : null);
+  const { data: report, isLoading } = kind === 'gst-input' ? gstQuery : tdsQuery;
+  const hasRows = (report?.rows.length ?? 0) > 0;
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const download = kind === 'gst-input' ? downloadGstInputReport : downloadTdsReport;
+      const { blob, fileName } = await download({ month });
+      saveFile(blob, fileName);
+    } catch {
+      toast.error('Failed to download CSV');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Input
+          type="month"
+          value={month}
+          max={currentMonth()}
+          onChange={(event) => event.target.value && setMonth(event.target.value)}
+          className="w-[180px]"
+        />
+        <Button
+          variant="outline"
+          onClick={handleDownload}
+          disabled={isDownloading || !hasRows}
+          className="cursor-pointer"
+        >
+          <FileCsv className="mr-2 h-4 w-4" />
+          {isDownloading ? 'Downloading...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 rounded-lg border bg-muted/40 animate-pulse" />
+      ) : !report || !hasRows ? (
+        <Empty className="py-16">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Receipt className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>{kind === 'gst-input' ? 'No GST bills' : 'No TDS deducted'}</EmptyTitle>
+            <EmptyDescription>
+              {kind === 'gst-input'
+                ? 'Bills dated this month with GST on them will appear here.'
+                : 'Payments to parties this month with TDS deducted will appear here.'}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <div className="rounded-lg border bg-card">
+          {kind === 'gst-input' ? (
+            <GstInputTable report={report as GstInputReport} />
+          ) : (
+            <TdsTable report={report as TdsReport} />
+          )}
+          <p className="border-t px-4 py-2 text-xs text-muted-foreground">
+            {kind === 'gst-input'
+              ? 'GST from parties in another state is IGST. Only eligible input tax credit can be claimed.'
+              : `TDS for this month is due by ${format(new Date((report as TdsReport).dueDate), 'MMM d, yyyy')}.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { AgingItemsDialog } from './AgingItemsDialog';
+export { TaxReport, type TaxReportKind } from './TaxReport';
@@ -20,8 +20,12 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import type { TeamMember, CreateTeamMemberInput, UpdateTeamMemberInput } from '@/lib/api/team';
+import { MultiSelect } from '@/components/ui/multi-select';
+import type { TeamMember, UpdateTeamMemberInput } from '@/lib/api/team';
+import type { CreateInvitationInput } from '@/lib/api/invitations';
 import type { Role } from '@/lib/api/roles';
+import type { Project } from '@/lib/api/projects';
+import type { Party } from '@/lib/api/parties';
 
 // ============================================
 // Schema
@@ -33,6 +37,8 @@ const memberFormSchema = z.object({
   email: z.string().email('Invalid email format').optional().or(z.literal('')),
   location: z.string().optional(),
   roleId: z.string().min(1, 'Role is required'),
+  projectIds: z.array(z.string()),
+  partyId: z.string(),
 });
 
 type MemberFormData = z.infer<typeof memberFormSchema>;
@@ -46,7 +52,11 @@ interface AddMemberDialogProps {
   onOpenChange: (open: boolean) => void;
   member?: TeamMember | null;
   roles: Role[];
-  onSubmit: (data: CreateTeamMemberInput | UpdateTeamMemberInput) => void;
+  // Projects offered as access presets when inviting
+  projects: Project[];
+  // Client parties a CLIENT-role member can represent in the client portal
+  clients: Party[];
+  onSubmit: (data: CreateInvitationInput | UpdateTeamMemberInput) => void;
   isSubmitting: boolean;
 }
 
@@ -59,6 +69,8 @@ export function AddMemberDialog({
   onOpenChange,
   member,
   roles,
+  projects,
+  clients,
   onSubmit,
   isSubmitting,
 }: AddMemberDialogProps) {
@@ -69,6 +81,8 @@ export function AddMemberDialog({
     handleSubmit,
     control,
     reset,
+    watch,
+    setError,
     formState: { errors },
   } = useForm<MemberFormData>({
     resolver: zodResolver(memberFormSchema),
@@ -78,9 +92,15 @@ export function AddMemberDialog({
       email: '',
       location: '',
       roleId: '',
+      projectIds: [],
+      partyId: '',
     },
   });
 
+  // Clients see the client portal for their party's projects instead of project access
+  const selectedRole = roles.find((role) => role.id === watch('roleId'));
+  const isClientRole = selectedRole?.name === 'CLIENT';
+
   // Reset form when dialog opens/closes or member changes
   useEffect(() => {
     if (open) {
@@ -91,6 +111,8 @@ export function AddMemberDialog({
           email: member.email || '',
           location: member.location || '',
           roleId: member.membership.roleId,
+          projectIds: [],
+          partyId: member.membership.party?.id || '',
         });
       } else {
         reset({
@@ -99,18 +121,37 @@ export function AddMemberDialog({
           email: '',
           location: '',
           roleId: roles[0]?.id || '',
+          projectIds: [],
+          partyId: '',
         });
       }
     }
   }, [open, member, roles, reset]);
 
   const handleFormSubmit = (data: MemberFormData) => {
+    if (isClientRole && !data.partyId) {
+      setError('partyId', { message: 'Choose the client this person represents' });
+      return;
+    }
+
+    if (!isEditing) {
+      onSubmit({
+        name: data.name,
+        phone: data.phone,
+        roleId: data.roleId,
+        projectIds: isClientRole ? [] : data.projectIds,
+        partyId: isClientRole ? data.partyId : undefined,
+      });
+      return;
+    }
+
     onSubmit({
       name: data.name,
       phone: data.phone || undefined,
       email: data.email || undefined,
       location: data.location || undefined,
       roleId: data.roleId,
+      partyId: isClientRole ? data.partyId : null,
     });
   };
 
@@ -118,11 +159,11 @@ export function AddMemberDialog({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>{isEditing ? 'Edit Team Member' : 'Add Team Member'}</DialogTitle>
+          <DialogTitle>{isEditing ? 'Edit Team Member' : 'Invite Team Member'}</DialogTitle>
           <DialogDescription>
             {isEditing
               ? 'Update the team member details below.'
-              : 'Fill in the details to add a new team member.'}
+              : "We'll text them a link. They join once they sign in and accept."}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit(handleFormSubmit)}>
@@ -180,30 +221,35 @@ export function AddMemberDialog({
               )}
             </div>
 
-            {/* Email Field */}
-            <div className="grid gap-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="Enter email address"
-                {...register('email')}
-                aria-invalid={!!errors.email}
-              />
-              {errors.email && (
-                <p className="text-sm text-destructive">{errors.email.message}</p>
-              )}
-            </div>
+            {/* Email and Location are only edited after the member has joined */}
+            {isEditing && (
+              <>
+                {/* Email Field */}
+                <div className="grid gap-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="Enter email address"
+                    {...register('email')}
+                    aria-invalid={!!errors.email}
+                  />
+                  {errors.email && (
+                    <p className="text-sm text-destructive">{errors.email.message}</p>
+                  )}
+                </div>
 
-            {/* Location Field */}
-            <div className="grid gap-2">
-              <Label htmlFor="location">Location</Label>
-              <Input
-                id="location"
-                placeholder="Enter location"
-                {...register('location')}
-              />
-            </div>
+                {/* Location Field */}
+                <div className="grid gap-2">
+                  <Label htmlFor="location">Location</Label>
+                  <Input
+                    id="location"
+                    placeholder="Enter location"
+                    {...register('location')}
+                  />
+                </div>
+              </>
+            )}
 
             {/* Role Field */}
             <div className="grid gap-2">
@@ -232,6 +278,67 @@ export function AddMemberDialog({
                 <p className="text-sm text-destructive">{errors.roleId.message}</p>
               )}
             </div>
+
+            {/* Client Field */}
+            {isClientRole && (
+              <div className="grid gap-2">
+                <Label htmlFor="client">
+                  Client <span className="text-destructive">*</span>
+                </Label>
+                <Controller
+                  name="partyId"
+                  control={control}
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger id="client" aria-invalid={!!errors.partyId}>
+                        <SelectValue placeholder="Select a client" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {clients.map((client) => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.partyId ? (
+                  <p className="text-sm text-destructive">{errors.partyId.message}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    They get read-only portal access to this client&apos;s projects.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Project Access Field */}
+            {!isEditing && !isClientRole && (
+              <div className="grid gap-2">
+                <Label>Project Access</Label>
+                <Controller
+                  name="projectIds"
+                  control={control}
+                  render={({ field }) => (
+                    <MultiSelect
+                      options={projects.map((project) => ({
+                        value: project.id,
+                        label: project.name,
+                      }))}
+                      selected={field.value}
+                      onChange={field.onChange}
+                      placeholder="Select projects..."
+                      searchPlaceholder="Search projects..."
+                      emptyMessage="No projects found."
+                    />
+                  )}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Roles limited to assigned projects only see these.
+                </p>
+              </div>
+            )}
           </div>
 
           <DialogFooter>
@@ -245,7 +352,7 @@ export function AddMemberDialog({
               Cancel
             </Button>
             <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
-              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Member'}
+              {isSubmitting ? 'Saving...' : isEditing ? 'Save Changes' : 'Send Invite'}
             </Button>
           </DialogFooter>
         </form>
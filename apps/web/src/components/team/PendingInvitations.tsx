@@ -0,0 +1,144 @@
+/**
+ * Pending Invitations
+ *
+ * Invitations that have not been answered yet, shown above the team table.
+ * Expired invitations stay listed so they can be resent.
+ * - Resend the SMS (restarts the expiry), flagged when the last one failed
+ * - Revoke the invitation
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { Phone, RotateCw, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { TypographySmall, TypographyMuted } from '@/components/ui/typography';
+import {
+  useInvitations,
+  useResendInvitation,
+  useRevokeInvitation,
+} from '@/lib/hooks/useInvitations';
+import type { Invitation } from '@/lib/api/invitations';
+
+// ============================================
+// Types
+// ============================================
+
+interface PendingInvitationsProps {
+  canManage: boolean;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function PendingInvitations({ canManage }: PendingInvitationsProps) {
+  const { data: pendingData } = useInvitations({ status: 'PENDING', limit: 50 });
+  const { data: expiredData } = useInvitations({ status: 'EXPIRED', limit: 50 });
+
+  const resendMutation = useResendInvitation();
+  const revokeMutation = useRevokeInvitation();
+
+  const handleResend = useCallback(
+    async (invitation: Invitation) => {
+      try {
+        const resent = await resendMutation.mutateAsync(invitation.id);
+        if (resent.deliveryStatus === 'FAILED') {
+          toast.error(`The SMS to ${invitation.name} could not be sent`);
+        } else {
+          toast.success(`Invitation resent to ${invitation.name}`);
+        }
+      } catch {
+        toast.error('Failed to resend invitation');
+      }
+    },
+    [resendMutation]
+  );
+
+  const handleRevoke = useCallback(
+    async (invitation: Invitation) => {
+      try {
+        await revokeMutation.mutateAsync(invitation.id);
+        toast.success('Invitation revoked');
+      } catch {
+        toast.error('Failed to revoke invitation');
+      }
+    },
+    [revokeMutation]
+  );
+
+  const invitations = [...(pendingData?.items ?? []), ...(expiredData?.items ?? [])];
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="px-4 py-3 border-b">
+        <TypographySmall className="font-medium">
+          Pending invitations ({invitations.length})
+        </TypographySmall>
+      </div>
+      <div className="divide-y">
+        {invitations.map((invitation) => {
+          const isExpired = invitation.status === 'EXPIRED';
+          const expiry = formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true });
+
+          return (
+            <div key={invitation.id} className="flex items-center gap-4 px-4 py-3">
+              {/* Invitee */}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{invitation.name}</span>
+                  <Badge variant="secondary">{invitation.role.name}</Badge>
+                  <Badge variant={isExpired ? 'destructive' : 'outline'}>
+                    {isExpired ? 'Expired' : 'Pending'}
+                  </Badge>
+                  {invitation.deliveryStatus === 'FAILED' && (
+                    <Badge variant="destructive" title={invitation.deliveryError ?? undefined}>
+                      SMS not sent
+                    </Badge>
+                  )}
+                </div>
+                <TypographyMuted className="flex items-center gap-1 truncate">
+                  <Phone className="h-3 w-3" />
+                  {invitation.phone}
+                  {' · '}
+                  {isExpired ? `Expired ${expiry}` : `Expires ${expiry}`}
+                  {invitation.invitedBy && ` · Invited by ${invitation.invitedBy.user.name}`}
+                </TypographyMuted>
+              </div>
+
+              {/* Actions */}
+              {canManage && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResend(invitation)}
+                    disabled={resendMutation.isPending}
+                    className="cursor-pointer"
+                  >
+                    <RotateCw className="mr-2 h-4 w-4" />
+                    Resend
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(invitation)}
+                    disabled={revokeMutation.isPending}
+                    className="cursor-pointer text-destructive hover:text-destructive"
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Revoke
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Advance Claims API Module
+ *
+ * Provides functions for expenses team members pay from their cash advance,
+ * the bills behind them, and their settlement.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { PaginationMeta, ApiSuccessResponse, ApiPaginatedResponse } from './types';
+import type { MemberAdvanceMember, MemberAdvanceProject, PaymentMode } from './member-advances';
+
+// ============================================
+// Types
+// ============================================
+
+export type AdvanceClaimStatus = 'PENDING' | 'SETTLED' | 'REJECTED';
+export type AdvanceSettlementType = 'CARRIED_FORWARD' | 'RETURNED' | 'REIMBURSED';
+
+export interface ClaimAttachment {
+  id: string;
+  fileName: string;
+  fileUrl: string;
+  mimeType: string;
+  createdAt: string;
+}
+
+export interface AdvanceSettlement {
+  id: string;
+  claimId: string;
+  type: AdvanceSettlementType;
+  /** Cash returned or reimbursed; 0 when the balance was carried forward */
+  amount: number;
+  paymentMode: PaymentMode | null;
+  /** Member's cash in hand after the settlement */
+  balanceAfter: number;
+  settledAt: string;
+  notes: string | null;
+  settledBy: { id: string; user: { id: string; name: string } } | null;
+}
+
+export interface AdvanceClaim {
+  id: string;
+  organizationId: string;
+  projectId: string;
+  memberId: string;
+  description: string;
+  amount: number;
+  expenseDate: string;
+  status: AdvanceClaimStatus;
+  rejectionReason: string | null;
+  notes: string | null;
+  createdAt: string;
+  // Relations
+  project: MemberAdvanceProject;
+  member: MemberAdvanceMember;
+  settlement: AdvanceSettlement | null;
+  attachments: ClaimAttachment[];
+}
+
+export interface CreateAdvanceClaimInput {
+  projectId: string;
+  /** Defaults to the member logging the claim */
+  memberId?: string;
+  description: string;
+  amount: number;
+  expenseDate: string;
+  notes?: string;
+}
+
+export interface UpdateAdvanceClaimInput {
+  description?: string;
+  amount?: number;
+  expenseDate?: string;
+  notes?: string | null;
+}
+
+export interface SettleAdvanceClaimInput {
+  type: AdvanceSettlementType;
+  /** Cash returned or reimbursed; defaults to the whole remaining balance */
+  amount?: number;
+  paymentMode?: PaymentMode;
+  settledAt?: string;
+  notes?: string;
+}
+
+export interface AdvanceClaimQueryParams {
+  page?: number;
+  limit?: number;
+  projectId?: string;
+  memberId?: string;
+  status?: AdvanceClaimStatus;
+}
+
+export interface AdvanceClaimsResponse {
+  items: AdvanceClaim[];
+  pagination: PaginationMeta;
+}
+
+export interface ClaimAttachmentDownload {
+  downloadUrl: string;
+  expiresIn: number;
+  fileName: string;
+}
+
+// ============================================
+// Advance Claims API
+// ============================================
+
+/**
+ * Fetch paginated list of claims. Members who cannot view advances only get their own.
+ */
+export async function getAdvanceClaims(
+  params?: AdvanceClaimQueryParams
+): Promise<AdvanceClaimsResponse> {
+  const response: AxiosResponse<ApiPaginatedResponse<AdvanceClaim>> = await api.get(
+    '/advance-claims',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch a single claim by ID
+ */
+export async function getAdvanceClaim(id: string): Promise<AdvanceClaim> {
+  const response: AxiosResponse<ApiSuccessResponse<AdvanceClaim>> = await api.get(
+    `/advance-claims/${id}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Log an expense paid from an advance
+ */
+export async function createAdvanceClaim(data: CreateAdvanceClaimInput): Promise<AdvanceClaim> {
+  const response: AxiosResponse<ApiSuccessResponse<AdvanceClaim>> = await api.post(
+    '/advance-claims',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Update a pending claim
+ */
+export async function updateAdvanceClaim(
+  id: string,
+  data: UpdateAdvanceClaimInput
+): Promise<AdvanceClaim> {
+  const response: AxiosResponse<ApiSuccessResponse<AdvanceClaim>> = await api.put(
+    `/advance-claims/${id}`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Delete a claim that is not settled
+ */
+export async function deleteAdvanceClaim(id: string): Promise<void> {
+  await api.delete(`/advance-claims/${id}`);
+}
+
+/**
+ * Settle a claim against the member's cash in hand
+ */
+export async function settleAdvanceClaim(
+  id: string,
+  data: SettleAdvanceClaimInput
+): Promise<AdvanceClaim> {
+  const response: AxiosResponse<ApiSuccessResponse<AdvanceClaim>> = await api.post(
+    `/advance-claims/${id}/settle`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Reject a claim with a reason shown to the member
+ */
+export async function rejectAdvanceClaim(id: string, reason: string): Promise<AdvanceClaim> {
+  const response: AxiosResponse<ApiSuccessResponse<AdvanceClaim>> = await api.post(
+    `/advance-claims/${id}/reject`,
+    { reason }
+  );
+  return response.data.data;
+}
+
+/**
+ * Attach a bill to a claim
+ */
+export async function uploadClaimAttachment(claimId: string, file: File): Promise<ClaimAttachment> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response: AxiosResponse<ApiSuccessResponse<ClaimAttachment>> = await api.post(
+    `/advance-claims/${claimId}/attachments`,
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }
+  );
+  return response.data.data;
+}
+
+/**
+ * Get a short-lived download link for a bill
+ */
+export async function getClaimAttachmentDownload(
+  claimId: string,
+  attachmentId: string
+): Promise<ClaimAttachmentDownload> {
+  const response: AxiosResponse<ApiSuccessResponse<ClaimAttachmentDownload>> = await api.get(
+    `/advance-claims/${claimId}/attachments/${attachmentId}/download`
+  );
+  return response.data.data;
+}
+
+/**
+ * Remove a bill from a claim
+ */
+export async function deleteClaimAttachment(claimId: string, attachmentId: string): Promise<void> {
+  await api.delete(`/advance-claims/${claimId}/attachments/${attachmentId}`);
+}
@@ -0,0 +1,125 @@
+/**
+ * Approvals API Module
+ *
+ * The approver inbox and the rules that decide who approves an expense.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { PaginationMeta, ApiSuccessResponse, ApiPaginatedResponse } from './types';
+import type { Expense } from './expenses';
+
+// ============================================
+// Types
+// ============================================
+
+export type InboxExpense = Pick<
+  Expense,
+  | 'id'
+  | 'projectId'
+  | 'description'
+  | 'rate'
+  | 'quantity'
+  | 'expenseDate'
+  | 'status'
+  | 'approvalLevel'
+  | 'notes'
+  | 'createdAt'
+  | 'project'
+  | 'party'
+  | 'stage'
+  | 'expenseType'
+>;
+
+export interface InboxQueryParams {
+  page?: number;
+  limit?: number;
+}
+
+export interface InboxResponse {
+  items: InboxExpense[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * Who approves expenses. Rules for a project replace the organization-wide rules
+ * (projectId null) for that project. Each distinct level is one approval step.
+ */
+export interface ApprovalRule {
+  id: string;
+  projectId: string | null;
+  minAmount: number;
+  level: number;
+  approverRoleId: string | null;
+  approverMemberId: string | null;
+  createdAt: string;
+  project: { id: string; name: string } | null;
+  approverRole: { id: string; name: string } | null;
+  approverMember: { id: string; user: { id: string; name: string } } | null;
+}
+
+export interface ApprovalRuleInput {
+  projectId?: string | null;
+  minAmount: number;
+  level: number;
+  approverRoleId?: string | null;
+  approverMemberId?: string | null;
+}
+
+// ============================================
+// Approvals API
+// ============================================
+
+/**
+ * Fetch pending expenses waiting on the current member
+ */
+export async function getApprovalInbox(params?: InboxQueryParams): Promise<InboxResponse> {
+  const response: AxiosResponse<ApiPaginatedResponse<InboxExpense>> = await api.get(
+    '/approvals/inbox',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch approval rules, optionally for one project
+ */
+export async function getApprovalRules(projectId?: string): Promise<ApprovalRule[]> {
+  const response: AxiosResponse<ApiSuccessResponse<ApprovalRule[]>> = await api.get(
+    '/approvals/rules',
+    { params: { projectId } }
+  );
+  return response.data.data;
+}
+
+/**
+ * Create an approval rule
+ */
+export async function createApprovalRule(data: ApprovalRuleInput): Promise<ApprovalRule> {
+  const response: AxiosResponse<ApiSuccessResponse<ApprovalRule>> = await api.post(
+    '/approvals/rules',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Replace an approval rule
+ */
+export async function updateApprovalRule(
+  id: string,
+  data: ApprovalRuleInput
+): Promise<ApprovalRule> {
+  const response: AxiosResponse<ApiSuccessResponse<ApprovalRule>> = await api.put(
+    `/approvals/rules/${id}`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Delete an approval rule
+ */
+export async function deleteApprovalRule(id: string): Promise<void> {
+  await api.delete(`/approvals/rules/${id}`);
+}
@@ -0,0 +1,88 @@
+/**
+ * Audit API Module
+ *
+ * Read access to the organization's append-only change history.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { PaginationMeta, ApiPaginatedResponse } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE';
+
+export type AuditEntityType =
+  | 'PROJECT'
+  | 'STAGE'
+  | 'TASK'
+  | 'EXPENSE'
+  | 'PAYMENT'
+  | 'MEMBER_ADVANCE'
+  | 'BOQ_ITEM'
+  | 'PARTY'
+  | 'ROLE'
+  | 'INSTALLMENT'
+  | 'PARTY_LEDGER_ENTRY'
+  | 'ADVANCE_CLAIM'
+  | 'TAX_INVOICE'
+  | 'PURCHASE_ORDER'
+  | 'STOCK_MOVEMENT'
+  | 'LABOUR_WORKER'
+  | 'ATTENDANCE'
+  | 'WAGE_BILL'
+  | 'WORK_ORDER'
+  | 'RA_BILL'
+  | 'CHANGE_ORDER'
+  | 'BOQ_VERSION'
+  | 'RATE_ANALYSIS'
+  | 'RATE_TEMPLATE'
+  | 'BOQ_SECTION'
+  | 'BOQ_EXPENSE_LINK';
+
+export type AuditValue = string | number | boolean | Array<string | number | boolean> | null;
+
+export interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  // CREATE/RESTORE: full record in `after`; DELETE/PURGE: full record in `before`;
+  // UPDATE: changed fields only
+  before: Record<string, AuditValue> | null;
+  after: Record<string, AuditValue> | null;
+  createdAt: string;
+  actor: { id: string; user: { id: string; name: string } } | null;
+}
+
+export interface AuditQueryParams {
+  page?: number;
+  limit?: number;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  actorMemberId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditLogsResponse {
+  items: AuditLogEntry[];
+  pagination: PaginationMeta;
+}
+
+// ============================================
+// Audit API
+// ============================================
+
+/**
+ * Fetch audit entries, newest first
+ */
+export async function getAuditLogs(params?: AuditQueryParams): Promise<AuditLogsResponse> {
+  const response: AxiosResponse<ApiPaginatedResponse<AuditLogEntry>> = await api.get('/audit', {
+    params,
+  });
+  return response.data.data;
+}
@@ -15,6 +15,32 @@ export interface OnboardingResponse {
   user: { id: string; name: string; phone: string };
   organization: { id: string; name: string };
   role: string | null;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface TokenRefreshResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Details sent with 429 responses from the OTP endpoints
+ * (OTP_COOLDOWN, OTP_RATE_LIMITED, OTP_LOCKED)
+ */
+export interface OtpLimitDetails {
+  retryAfterSeconds: number;
+  retryAt: string;
+}
+
+/**
+ * Read the retry time from an OTP rate-limit error, if it carries one
+ */
+export function getOtpRetryAt(error?: { details?: unknown }): string | null {
+  const details = error?.details as Partial<OtpLimitDetails> | undefined;
+  return details?.retryAt ?? null;
 }
 
 export const authApi = {
@@ -22,33 +48,39 @@ export const authApi = {
    * Send OTP to phone number
    */
   sendOtp: (phone: string, countryCode: string = '+91') =>
-    request<{ message: string; phone: string; expiresAt: string; devHint?: string }>(
-      'post',
-      '/auth/send-otp',
-      { phone, countryCode }
-    ),
+    request<{
+      message: string;
+      phone: string;
+      expiresAt: string;
+      resendAvailableAt: string;
+      resendCooldownSeconds: number;
+      devHint?: string;
+    }>('post', '/auth/send-otp', { phone, countryCode }),
 
   /**
-   * Verify OTP and receive access token.
-   * Refresh token is automatically set as httpOnly cookie by the server.
+   * Verify OTP and receive an access token and refresh token.
    */
   verifyOtp: (phone: string, code: string, countryCode: string = '+91') =>
     request<{
       message: string;
       user: { id: string; name: string; phone: string };
-      tokens: { accessToken: string; expiresIn: number };
+      accessToken: string;
+      refreshToken: string;
+      expiresIn: number;
       isNewUser: boolean;
     }>('post', '/auth/verify-otp', { phone, countryCode, code }),
 
   /**
-   * Refresh access token using httpOnly cookie.
+   * Rotate the refresh token. The old token stops working.
    */
-  refreshToken: () => request<{ accessToken: string; expiresIn: number }>('post', '/auth/refresh'),
+  refreshToken: (refreshToken: string) =>
+    request<TokenRefreshResponse>('post', '/auth/refresh', { refreshToken }),
 
   /**
-   * Logout and invalidate refresh token.
+   * Logout and end the session of the refresh token.
    */
-  logout: () => request<{ message: string }>('post', '/auth/logout'),
+  logout: (refreshToken?: string) =>
+    request<{ message: string }>('post', '/auth/logout', refreshToken ? { refreshToken } : {}),
 
   /**
    * Get current authenticated user info
@@ -0,0 +1,201 @@
+/**
+ * BOQ Versions API Client
+ *
+ * Named copies of a project's BOQ (tender, contract, revised-1...), one of them
+ * the baseline, and the comparison of two versions or a version with the live
+ * BOQ.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { SuccessResponse } from './types';
+import type { BOQCategory } from './boq';
+import type { MemberName } from './purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+export interface BOQVersionItem {
+  id: string;
+  sortOrder: number;
+  // The live item it was copied from, which may since have been deleted
+  boqItemId: string;
+  sectionName: string | null;
+  stageName: string | null;
+  code: string | null;
+  category: BOQCategory;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+}
+
+export interface BOQVersion {
+  id: string;
+  projectId: string;
+  name: string;
+  notes: string | null;
+  isBaseline: boolean;
+  itemCount: number;
+  totalAmount: number;
+  createdAt: string;
+  createdBy: MemberName | null;
+}
+
+export interface BOQVersionWithItems extends BOQVersion {
+  items: BOQVersionItem[];
+}
+
+export interface CreateBOQVersionInput {
+  name: string;
+  notes?: string | null;
+  isBaseline?: boolean;
+}
+
+// Compares against the live BOQ
+export const CURRENT_BOQ = 'current';
+
+export type BOQItemChange = 'ADDED' | 'REMOVED' | 'CHANGED';
+
+export type BOQComparisonItemSide = Omit<BOQVersionItem, 'id' | 'sortOrder'>;
+
+export interface BOQComparisonItem {
+  change: BOQItemChange;
+  boqItemId: string;
+  from: BOQComparisonItemSide | null;
+  to: BOQComparisonItemSide | null;
+  quantityDelta: number;
+  amountDelta: number;
+}
+
+export interface BOQComparisonGroup {
+  // Section name, or category for the category breakdown
+  name: string;
+  fromAmount: number;
+  toAmount: number;
+  amountDelta: number;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface BOQVersionSummary {
+  id: string;
+  name: string;
+  isBaseline: boolean;
+  createdAt: string;
+}
+
+export interface BOQComparison {
+  from: BOQVersionSummary;
+  // Null when compared with the live BOQ
+  to: BOQVersionSummary | null;
+  items: BOQComparisonItem[];
+  sections: BOQComparisonGroup[];
+  categories: BOQComparisonGroup[];
+  totals: Omit<BOQComparisonGroup, 'name'>;
+}
+
+export interface BOQComparisonParams {
+  // Defaults to the baseline
+  from?: string;
+  // A version id, or CURRENT_BOQ (the default)
+  to?: string;
+}
+
+export interface BOQVersionFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// ============================================
+// API Functions
+// ============================================
+
+/**
+ * List a project's BOQ versions, newest first
+ */
+export async function getBOQVersions(projectId: string): Promise<BOQVersion[]> {
+  const response = await api.get<SuccessResponse<BOQVersion[]>>(
+    `/projects/${projectId}/boq-versions`
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch a version with its items
+ */
+export async function getBOQVersion(
+  projectId: string,
+  versionId: string
+): Promise<BOQVersionWithItems> {
+  const response = await api.get<SuccessResponse<BOQVersionWithItems>>(
+    `/projects/${projectId}/boq-versions/${versionId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Save the live BOQ as a named version
+ */
+export async function createBOQVersion(
+  projectId: string,
+  data: CreateBOQVersionInput
+): Promise<BOQVersion> {
+  const response = await api.post<SuccessResponse<BOQVersion>>(
+    `/projects/${projectId}/boq-versions`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Make a version the project's baseline
+ */
+export async function setBOQBaseline(projectId: string, versionId: string): Promise<BOQVersion> {
+  const response = await api.post<SuccessResponse<BOQVersion>>(
+    `/projects/${projectId}/boq-versions/${versionId}/baseline`
+  );
+  return response.data.data;
+}
+
+/**
+ * Delete a version other than the baseline
+ */
+export async function deleteBOQVersion(projectId: string, versionId: string): Promise<void> {
+  await api.delete(`/projects/${projectId}/boq-versions/${versionId}`);
+}
+
+/**
+ * Compare two versions, or a version with the live BOQ
+ */
+export async function compareBOQVersions(
+  projectId: string,
+  params: BOQComparisonParams = {}
+): Promise<BOQComparison> {
+  const response = await api.get<SuccessResponse<BOQComparison>>(
+    `/projects/${projectId}/boq-versions/compare`,
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Download a version as an Excel file
+ */
+export async function downloadBOQVersion(
+  projectId: string,
+  versionId: string
+): Promise<BOQVersionFile> {
+  const response: AxiosResponse<Blob> = await api.get(
+    `/projects/${projectId}/boq-versions/${versionId}/export`,
+    { responseType: 'blob' }
+  );
+
+  const disposition = String(response.headers['content-disposition'] ?? '');
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'BOQ.xlsx';
+
+  return { blob: response.data, fileName };
+}
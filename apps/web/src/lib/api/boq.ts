@@ -6,6 +6,7 @@
 
 import { api } from './client';
 import type { ApiPaginatedResponse, PaginatedResult, SuccessResponse } from './types';
+import type { BOQVersion } from './boq-versions';
 
 // ============================================
 // Types
@@ -37,12 +38,18 @@ export interface BOQItem {
   projectId: string;
   sectionId?: string;
   stageId?: string;
+  materialTypeItemId?: string | null;
   code?: string;
   category: BOQCategory;
   description: string;
   unit: string;
   quantity: number;
   rate: number;
+  // As first quoted, once an approved change order has revised the item
+  originalQuantity?: number | null;
+  originalRate?: number | null;
+  // Set on items a change order added
+  changeOrderId?: string | null;
   notes?: string;
   isReviewFlagged: boolean;
   flagReason?: string;
@@ -50,11 +57,16 @@ export interface BOQItem {
   updatedAt: string;
   section?: { id: string; name: string };
   stage?: { id: string; name: string };
+  materialType?: { id: string; name: string } | null;
+  // The item's rate analysis, if one has been made
+  rateAnalysis?: { id: string; unitRate: number } | null;
   expenseLinks: BOQExpenseLink[];
 }
 
 export interface BOQStats {
   totalQuoted: number;
+  // The BOQ as quoted before approved change orders
+  originalQuoted: number;
   totalActual: number;
   variance: number;
   variancePercent: number;
@@ -130,6 +142,7 @@ export interface BOQListParams {
 export interface CreateBOQItemInput {
   sectionId?: string;
   stageId?: string;
+  materialTypeItemId?: string;
   code?: string;
   category: BOQCategory;
   description: string;
@@ -142,6 +155,7 @@ export interface CreateBOQItemInput {
 export interface UpdateBOQItemInput {
   sectionId?: string | null;
   stageId?: string | null;
+  materialTypeItemId?: string | null;
   code?: string | null;
   category?: BOQCategory;
   description?: string;
@@ -160,6 +174,13 @@ export interface CreateBOQSectionInput {
 
 export interface ConfirmImportInput {
   items: ParsedBOQItem[];
+  // Save the BOQ once imported as a named version, e.g. "Tender"
+  versionName?: string;
+}
+
+export interface ConfirmImportResult {
+  importedCount: number;
+  version: BOQVersion | null;
 }
 
 // ============================================
@@ -315,8 +336,8 @@ export async function parseBOQFile(projectId: string, file: File): Promise<Parse
 export async function confirmBOQImport(
   projectId: string,
   data: ConfirmImportInput
-): Promise<{ importedCount: number }> {
-  const response = await api.post<SuccessResponse<{ importedCount: number }>>(
+): Promise<ConfirmImportResult> {
+  const response = await api.post<SuccessResponse<ConfirmImportResult>>(
     `/projects/${projectId}/boq/import/confirm`,
     data
   );
@@ -0,0 +1,200 @@
+/**
+ * Change Orders API Module
+ *
+ * Variations to a project's client contract: BOQ items added, re-measured or
+ * omitted, sent to the client and, once they approve, applied to the BOQ and
+ * the contract value.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+import type { BOQCategory } from './boq';
+import type { MemberName } from './purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+export type ChangeOrderStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+export type ChangeOrderLineAction = 'ADD' | 'MODIFY' | 'REMOVE';
+
+export interface ChangeOrderLine {
+  id: string;
+  sortOrder: number;
+  action: ChangeOrderLineAction;
+  // For an added line, the item created once the change order is approved
+  boqItemId: string | null;
+  category: BOQCategory;
+  description: string;
+  unit: string;
+  previousQuantity: number;
+  previousRate: number;
+  quantity: number;
+  rate: number;
+  // Change in value: quantity × rate less what the BOQ had
+  amount: number;
+  boqItem: { id: string; code: string | null } | null;
+  section: { id: string; name: string } | null;
+  stage: { id: string; name: string } | null;
+}
+
+export interface ChangeOrder {
+  id: string;
+  projectId: string;
+  number: number;
+  title: string;
+  description: string | null;
+  raisedDate: string;
+  status: ChangeOrderStatus;
+  // Net change to the contract value
+  priceImpact: number;
+  // Estimated cost of carrying it out
+  costImpact: number;
+  clientReference: string | null;
+  submittedAt: string | null;
+  decidedAt: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  createdBy: MemberName | null;
+  lines: ChangeOrderLine[];
+}
+
+// A BOQ item approved change orders revised or added, against what was first quoted
+export interface RevisedBOQItem {
+  id: string;
+  code: string | null;
+  category: BOQCategory;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  originalQuantity: number;
+  originalRate: number;
+  originalAmount: number;
+  difference: number;
+  section: { id: string; name: string } | null;
+  changeOrder: { id: string; number: number } | null;
+}
+
+export interface ProjectChangeOrders {
+  changeOrders: ChangeOrder[];
+  revisedItems: RevisedBOQItem[];
+  summary: {
+    originalAmount: number;
+    approvedAmount: number;
+    contractAmount: number;
+    // Sent to the client, not yet decided
+    pendingAmount: number;
+    approvedCost: number;
+  };
+}
+
+export type ChangeOrderLineInput =
+  | {
+      action: 'ADD';
+      sectionId?: string | null;
+      stageId?: string | null;
+      category: BOQCategory;
+      description: string;
+      unit: string;
+      quantity: number;
+      rate: number;
+    }
+  | { action: 'MODIFY'; boqItemId: string; quantity: number; rate: number }
+  | { action: 'REMOVE'; boqItemId: string };
+
+export interface CreateChangeOrderInput {
+  projectId: string;
+  title: string;
+  description?: string | null;
+  raisedDate: string;
+  costImpact: number;
+  lines: ChangeOrderLineInput[];
+}
+
+export type UpdateChangeOrderInput = Partial<Omit<CreateChangeOrderInput, 'projectId'>>;
+
+export interface ClientDecisionInput {
+  decidedAt: string;
+  clientReference?: string | null;
+}
+
+// ============================================
+// Change Orders API
+// ============================================
+
+/**
+ * Fetch a project's change orders with the contract value they revise
+ */
+export async function getProjectChangeOrders(projectId: string): Promise<ProjectChangeOrders> {
+  const response: AxiosResponse<ApiSuccessResponse<ProjectChangeOrders>> = await api.get(
+    `/change-orders/project/${projectId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Draft a change order
+ */
+export async function createChangeOrder(data: CreateChangeOrderInput): Promise<ChangeOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<ChangeOrder>> = await api.post(
+    '/change-orders',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Edit a draft change order
+ */
+export async function updateChangeOrder(
+  id: string,
+  data: UpdateChangeOrderInput
+): Promise<ChangeOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<ChangeOrder>> = await api.put(
+    `/change-orders/${id}`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Send a draft to the client for approval
+ */
+export async function submitChangeOrder(id: string): Promise<ChangeOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<ChangeOrder>> = await api.post(
+    `/change-orders/${id}/submit`
+  );
+  return response.data.data;
+}
+
+/**
+ * Record the client's approval; the BOQ and contract value are revised
+ */
+export async function approveChangeOrder(
+  id: string,
+  data: ClientDecisionInput
+): Promise<ChangeOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<ChangeOrder>> = await api.post(
+    `/change-orders/${id}/approve`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Record the client turning a change order down
+ */
+export async function rejectChangeOrder(
+  id: string,
+  data: ClientDecisionInput & { reason: string }
+): Promise<ChangeOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<ChangeOrder>> = await api.post(
+    `/change-orders/${id}/reject`,
+    data
+  );
+  return response.data.data;
+}
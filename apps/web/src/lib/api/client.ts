@@ -2,9 +2,9 @@
  * Axios API Client
  *
  * SECURITY:
- * - All requests include credentials to send/receive httpOnly cookies
- * - Refresh tokens are handled via httpOnly cookies
  * - Access tokens are attached via Authorization header from auth store
+ * - Expired access tokens are renewed with the single-use refresh token
+ *   (see interceptors.ts)
  */
 
 import axios from 'axios';
@@ -0,0 +1,101 @@
+/**
+ * Documents API Module
+ *
+ * Project documents and photos: list, upload, download, share with the client, delete.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { PaginationMeta, ApiPaginatedResponse, SuccessResponse } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ProjectDocument {
+  id: string;
+  projectId: string;
+  fileName: string;
+  fileType: string;
+  fileUrl: string;
+  mimeType: string;
+  // Visible to the project's client in the client portal
+  sharedWithClient: boolean;
+  uploadedAt: string;
+}
+
+export interface DocumentQueryParams {
+  page?: number;
+  limit?: number;
+  projectId?: string;
+}
+
+export interface DocumentsResponse {
+  items: ProjectDocument[];
+  pagination: PaginationMeta;
+}
+
+export interface DocumentDownload {
+  downloadUrl: string;
+  expiresIn: number;
+  fileName: string;
+}
+
+// ============================================
+// Documents API
+// ============================================
+
+/**
+ * Fetch documents, newest first
+ */
+export async function getDocuments(params?: DocumentQueryParams): Promise<DocumentsResponse> {
+  const response: AxiosResponse<ApiPaginatedResponse<ProjectDocument>> = await api.get(
+    '/documents',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Upload a document or photo to a project
+ */
+export async function uploadDocument(projectId: string, file: File): Promise<ProjectDocument> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await api.post<SuccessResponse<ProjectDocument>>('/documents', formData, {
+    params: { projectId },
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response.data.data;
+}
+
+/**
+ * Get a short-lived download link
+ */
+export async function getDocumentDownload(id: string): Promise<DocumentDownload> {
+  const response = await api.get<SuccessResponse<DocumentDownload>>(`/documents/${id}/download`);
+  return response.data.data;
+}
+
+/**
+ * Share a document with the project's client, or stop sharing it
+ */
+export async function shareDocument(
+  id: string,
+  sharedWithClient: boolean
+): Promise<ProjectDocument> {
+  const response = await api.patch<SuccessResponse<ProjectDocument>>(`/documents/${id}/share`, {
+    sharedWithClient,
+  });
+  return response.data.data;
+}
+
+/**
+ * Delete a document
+ */
+export async function deleteDocument(id: string): Promise<void> {
+  await api.delete(`/documents/${id}`);
+}
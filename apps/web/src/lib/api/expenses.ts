@@ -12,7 +12,8 @@ import type { PaginationMeta, ApiSuccessResponse, ApiPaginatedResponse } from '.
 // Types
 // ============================================
 
-export type ExpenseStatus = 'PENDING' | 'APPROVED';
+export type ExpenseStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+export type ExpenseApprovalAction = 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'REOPENED';
 export type PaymentMode = 'CASH' | 'CHEQUE' | 'ONLINE';
 export type ExpenseSortBy = 'expenseDate' | 'amount' | 'createdAt';
 export type ExpenseSortOrder = 'asc' | 'desc';
@@ -45,6 +46,12 @@ export interface ExpensePayment {
   paymentDate: string;
 }
 
+export interface ExpenseAllocation {
+  id: string;
+  amount: number;
+  payment: { id: string; paymentMode: PaymentMode; paymentDate: string };
+}
+
 export interface Expense {
   id: string;
   organizationId: string;
@@ -58,8 +65,19 @@ export interface Expense {
   description: string | null;
   rate: number;
   quantity: number;
+  // What the rate is per (bag, cum, day)
+  unit: string | null;
+  // GST included in rate x quantity, and whether input tax credit can be claimed on it
+  gstRate: number;
+  gstAmount: number;
+  itcEligible: boolean;
+  // Purchase order line the bill is matched against
+  purchaseOrderLineId: string | null;
   expenseDate: string;
   status: ExpenseStatus;
+  // Approval level a pending expense is waiting on
+  approvalLevel: number;
+  rejectionReason: string | null;
   notes: string | null;
   createdAt: string;
   // Relations
@@ -70,7 +88,14 @@ export interface Expense {
   materialType: ExpenseTypeItem | null;
   labourType: ExpenseTypeItem | null;
   subWorkType: ExpenseTypeItem | null;
+  purchaseOrderLine: {
+    id: string;
+    description: string;
+    purchaseOrder: { id: string; orderNumber: string };
+  } | null;
   payments: ExpensePayment[];
+  // Shares of payments to the party set against this expense
+  allocations?: ExpenseAllocation[];
 }
 
 export interface ExpenseSummary {
@@ -90,8 +115,14 @@ export interface CreateExpenseInput {
   description?: string;
   rate: number;
   quantity: number;
+  // Taken from the purchase order line when not given
+  unit?: string;
+  gstRate?: number;
+  // Worked out from gstRate when not given
+  gstAmount?: number;
+  itcEligible?: boolean;
+  purchaseOrderLineId?: string;
   expenseDate: string;
-  status?: ExpenseStatus;
   notes?: string;
   paidAmount?: number;
   paymentMode?: PaymentMode;
@@ -107,11 +138,25 @@ export interface UpdateExpenseInput {
   description?: string | null;
   rate?: number;
   quantity?: number;
+  unit?: string | null;
+  gstRate?: number;
+  gstAmount?: number;
+  itcEligible?: boolean;
+  purchaseOrderLineId?: string | null;
   expenseDate?: string;
-  status?: ExpenseStatus;
   notes?: string | null;
 }
 
+export interface ExpenseApproval {
+  id: string;
+  expenseId: string;
+  action: ExpenseApprovalAction;
+  level: number | null;
+  reason: string | null;
+  createdAt: string;
+  member: { id: string; user: { id: string; name: string } } | null;
+}
+
 export interface ExpenseQueryParams {
   page?: number;
   limit?: number;
@@ -190,3 +235,60 @@ export async function getExpensesSummary(projectId?: string): Promise<ExpenseSum
   );
   return response.data.data;
 }
+
+// ============================================
+// Approval Workflow
+// ============================================
+
+/**
+ * Fetch the submission and approval history of an expense
+ */
+export async function getExpenseApprovals(id: string): Promise<ExpenseApproval[]> {
+  const response: AxiosResponse<ApiSuccessResponse<ExpenseApproval[]>> = await api.get(
+    `/expenses/${id}/approvals`
+  );
+  return response.data.data;
+}
+
+/**
+ * Resubmit a rejected expense for approval
+ */
+export async function submitExpense(id: string): Promise<Expense> {
+  const response: AxiosResponse<ApiSuccessResponse<Expense>> = await api.post(
+    `/expenses/${id}/submit`
+  );
+  return response.data.data;
+}
+
+/**
+ * Approve the approval level an expense is waiting on
+ */
+export async function approveExpense(id: string, comment?: string): Promise<Expense> {
+  const response: AxiosResponse<ApiSuccessResponse<Expense>> = await api.post(
+    `/expenses/${id}/approve`,
+    { comment }
+  );
+  return response.data.data;
+}
+
+/**
+ * Reject a pending expense with a reason
+ */
+export async function rejectExpense(id: string, reason: string): Promise<Expense> {
+  const response: AxiosResponse<ApiSuccessResponse<Expense>> = await api.post(
+    `/expenses/${id}/reject`,
+    { reason }
+  );
+  return response.data.data;
+}
+
+/**
+ * Unlock an approved expense for editing
+ */
+export async function reopenExpense(id: string, reason?: string): Promise<Expense> {
+  const response: AxiosResponse<ApiSuccessResponse<Expense>> = await api.post(
+    `/expenses/${id}/reopen`,
+    { reason }
+  );
+  return response.data.data;
+}
@@ -0,0 +1,132 @@
+/**
+ * Installments API Module
+ *
+ * A project's client payment schedule: installments billed as a share of the
+ * contract or a fixed amount, due on a date or when a stage is completed.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+import type { StageStatus } from './stages';
+
+// ============================================
+// Types
+// ============================================
+
+export type InstallmentAmountType = 'PERCENTAGE' | 'FIXED';
+
+export type InstallmentStatus = 'UPCOMING' | 'DUE' | 'OVERDUE' | 'PARTIALLY_RECEIVED' | 'RECEIVED';
+
+export interface InstallmentAllocation {
+  id: string;
+  paymentId: string;
+  amount: number;
+  payment: {
+    id: string;
+    amount: number;
+    paymentDate: string;
+    referenceNumber: string | null;
+  };
+}
+
+export interface Installment {
+  id: string;
+  projectId: string;
+  stageId: string | null;
+  name: string;
+  sequence: number;
+  amountType: InstallmentAmountType;
+  percentage: number | null;
+  // Billed amount: the fixed amount, or the percentage of the contract amount
+  amount: number;
+  dueDate: string | null;
+  notes: string | null;
+  createdAt: string;
+  stage: { id: string; name: string; status: StageStatus } | null;
+  allocations: InstallmentAllocation[];
+  received: number;
+  outstanding: number;
+  status: InstallmentStatus;
+  isDue: boolean;
+  isOverdue: boolean;
+}
+
+export interface PaymentScheduleSummary {
+  // Including approved change orders
+  contractAmount: number;
+  originalContractAmount: number;
+  scheduledAmount: number;
+  receivedAmount: number;
+  allocatedAmount: number;
+  // Received but not set against any installment
+  onAccountAmount: number;
+  // Still owed on installments that have fallen due
+  outstandingReceivable: number;
+  overdueAmount: number;
+}
+
+export interface PaymentSchedule {
+  installments: Installment[];
+  summary: PaymentScheduleSummary;
+}
+
+export interface CreateInstallmentInput {
+  projectId: string;
+  stageId?: string | null;
+  name: string;
+  sequence?: number;
+  amountType: InstallmentAmountType;
+  percentage?: number | null;
+  amount?: number | null;
+  dueDate?: string | null;
+  notes?: string | null;
+}
+
+export type UpdateInstallmentInput = Partial<Omit<CreateInstallmentInput, 'projectId'>>;
+
+// ============================================
+// Installments API
+// ============================================
+
+/**
+ * Fetch a project's payment schedule with the status of each installment
+ */
+export async function getPaymentSchedule(projectId: string): Promise<PaymentSchedule> {
+  const response: AxiosResponse<ApiSuccessResponse<PaymentSchedule>> = await api.get(
+    `/installments/project/${projectId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Add an installment to a project's payment schedule
+ */
+export async function createInstallment(data: CreateInstallmentInput): Promise<Installment> {
+  const response: AxiosResponse<ApiSuccessResponse<Installment>> = await api.post(
+    '/installments',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Update an installment
+ */
+export async function updateInstallment(
+  id: string,
+  data: UpdateInstallmentInput
+): Promise<Installment> {
+  const response: AxiosResponse<ApiSuccessResponse<Installment>> = await api.put(
+    `/installments/${id}`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Delete an installment
+ */
+export async function deleteInstallment(id: string): Promise<void> {
+  await api.delete(`/installments/${id}`);
+}
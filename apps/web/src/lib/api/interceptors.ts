@@ -1,13 +1,18 @@
 /**
  * Axios Interceptors
  *
- * Simple auth flow:
- * - Attaches access token and organization headers to all requests
- * - On 401 from our API, clears auth state and redirects to login
+ * Auth flow:
+ * - Attaches access token and active organization header to all requests
+ *   (user identity and role are derived server-side from the token)
+ * - On 401 from our API, rotates the refresh token once and retries the request
+ * - Only when the refresh fails (expired, revoked, reused) is the user logged out
  */
 
+import axios from 'axios';
 import type { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { useAuthStore } from '../../stores/auth.store';
+import type { ApiSuccessResponse } from './types';
+import type { TokenRefreshResponse } from './auth';
 
 // Our API base URL to distinguish from external APIs
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
@@ -18,7 +23,7 @@ const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api
 export function setupRequestInterceptor(api: AxiosInstance) {
   api.interceptors.request.use(
     (config: InternalAxiosRequestConfig) => {
-      const { accessToken, user, organization, userRole } = useAuthStore.getState();
+      const { accessToken, organization } = useAuthStore.getState();
 
       if (config.headers) {
         // Add Authorization header
@@ -26,16 +31,10 @@ export function setupRequestInterceptor(api: AxiosInstance) {
           config.headers.Authorization = `Bearer ${accessToken}`;
         }
 
-        // Add organization context headers
+        // Active organization - the server rejects it unless the user is a member
         if (organization) {
           config.headers['x-organization-id'] = organization.id;
         }
-        if (user) {
-          config.headers['x-user-id'] = user.id;
-        }
-        if (userRole) {
-          config.headers['x-user-role'] = userRole;
-        }
       }
 
       return config;
@@ -53,24 +52,79 @@ function isOurApi(url: string | undefined): boolean {
   return url.startsWith('/') || url.startsWith(API_BASE);
 }
 
+// Single in-flight refresh shared by every request that hit a 401 at the same time.
+// Refresh tokens are single-use: two parallel refreshes would look like token reuse
+// to the server and revoke the session.
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new pair.
+ * Uses a bare axios call so the refresh itself never goes through these interceptors.
+ * Resolves to the new access token, or null when the session cannot be refreshed.
+ */
+function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const { refreshToken, setTokens } = useAuthStore.getState();
+      if (!refreshToken) return null;
+
+      try {
+        const response = await axios.post<ApiSuccessResponse<TokenRefreshResponse>>(
+          `${API_BASE}/auth/refresh`,
+          { refreshToken },
+          { withCredentials: true }
+        );
+        const tokens = response.data.data;
+        setTokens({ accessToken: tokens.accessToken, refreshToken: tokens.refreshToken });
+        return tokens.accessToken;
+      } catch {
+        return null;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+}
+
+function redirectToLogin() {
+  useAuthStore.getState().logoutUser();
+  window.location.href = '/auth';
+}
+
 /**
- * Setup response interceptor to handle 401 errors
+ * Setup response interceptor to refresh the session on 401 errors
  */
 export function setupResponseInterceptor(api: AxiosInstance) {
   api.interceptors.response.use(
     (response) => response,
-    (error: AxiosError) => {
+    async (error: AxiosError) => {
       const requestUrl = error.config?.url;
+      const originalRequest = error.config as
+        | (InternalAxiosRequestConfig & { _retried?: boolean })
+        | undefined;
 
       // Only handle 401 from OUR API endpoints (not external APIs)
-      if (error.response?.status === 401 && isOurApi(requestUrl)) {
-        // Don't logout for auth endpoints (login flow)
-        const isAuthEndpoint = requestUrl?.includes('/auth/');
-        if (!isAuthEndpoint) {
-          useAuthStore.getState().logoutUser();
-          // Redirect to login page
-          window.location.href = '/auth';
+      if (error.response?.status === 401 && isOurApi(requestUrl) && originalRequest) {
+        // Don't refresh for auth endpoints (login flow)
+        const isAuthEndpoint =
+          requestUrl?.includes('/auth/') && !requestUrl.includes('/auth/sessions');
+        if (isAuthEndpoint) {
+          return Promise.reject(error);
         }
+
+        if (!originalRequest._retried) {
+          originalRequest._retried = true;
+          const accessToken = await refreshAccessToken();
+
+          if (accessToken) {
+            originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+            return api.request(originalRequest);
+          }
+        }
+
+        redirectToLogin();
       }
 
       return Promise.reject(error);
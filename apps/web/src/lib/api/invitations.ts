@@ -0,0 +1,150 @@
+/**
+ * Invitations API Module
+ *
+ * Team invitations sent by SMS. Admins invite, resend and revoke; the invitee
+ * accepts or declines after signing in with the invited phone number.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiPaginatedResponse, ApiSuccessResponse, PaginatedResult } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+// EXPIRED is a pending invitation past its expiry date
+export type InvitationStatus = 'PENDING' | 'EXPIRED' | 'ACCEPTED' | 'DECLINED' | 'REVOKED';
+
+export interface Invitation {
+  id: string;
+  organizationId: string;
+  phone: string;
+  name: string;
+  roleId: string;
+  projectIds: string[];
+  partyId: string | null;
+  status: InvitationStatus;
+  expiresAt: string;
+  sentCount: number;
+  lastSentAt: string;
+  // Whether the last SMS went out; a failed one can be resent
+  deliveryStatus: 'SENT' | 'FAILED';
+  deliveryError: string | null;
+  respondedAt: string | null;
+  createdAt: string;
+  role: { id: string; name: string };
+  party: { id: string; name: string } | null;
+  invitedBy: { id: string; user: { id: string; name: string } } | null;
+}
+
+export interface CreateInvitationInput {
+  name: string;
+  phone: string;
+  countryCode?: string;
+  roleId: string;
+  projectIds?: string[];
+  // Client the person represents (required for the CLIENT role)
+  partyId?: string;
+}
+
+export interface InvitationQueryParams {
+  page?: number;
+  limit?: number;
+  status?: InvitationStatus;
+}
+
+/**
+ * An invitation as seen by the invitee
+ */
+export interface MyInvitation {
+  id: string;
+  organization: { id: string; name: string };
+  role: { id: string; name: string };
+  invitedBy: string | null;
+  expiresAt: string;
+}
+
+export interface AcceptInvitationResult {
+  user: { id: string; name: string; phone: string };
+  organization: { id: string; name: string };
+  role: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+// ============================================
+// Organization side
+// ============================================
+
+/**
+ * Fetch invitations sent by the organization
+ */
+export async function getInvitations(
+  params?: InvitationQueryParams
+): Promise<PaginatedResult<Invitation>> {
+  const response: AxiosResponse<ApiPaginatedResponse<Invitation>> = await api.get(
+    '/team/invitations',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Invite someone by phone. They receive an SMS with a sign-in link.
+ */
+export async function createInvitation(data: CreateInvitationInput): Promise<Invitation> {
+  const response: AxiosResponse<ApiSuccessResponse<Invitation>> = await api.post(
+    '/team/invitations',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Send the invitation SMS again and restart its expiry
+ */
+export async function resendInvitation(id: string): Promise<Invitation> {
+  const response: AxiosResponse<ApiSuccessResponse<Invitation>> = await api.post(
+    `/team/invitations/${id}/resend`
+  );
+  return response.data.data;
+}
+
+/**
+ * Revoke a pending invitation
+ */
+export async function revokeInvitation(id: string): Promise<void> {
+  await api.delete(`/team/invitations/${id}`);
+}
+
+// ============================================
+// Invitee side
+// ============================================
+
+/**
+ * Fetch open invitations for the signed-in user's phone number
+ */
+export async function getMyInvitations(): Promise<MyInvitation[]> {
+  const response: AxiosResponse<ApiSuccessResponse<MyInvitation[]>> =
+    await api.get('/auth/invitations');
+  return response.data.data;
+}
+
+/**
+ * Accept an invitation. Returns a token scoped to the joined organization.
+ */
+export async function acceptInvitation(id: string): Promise<AcceptInvitationResult> {
+  const response: AxiosResponse<ApiSuccessResponse<AcceptInvitationResult>> = await api.post(
+    `/auth/invitations/${id}/accept`
+  );
+  return response.data.data;
+}
+
+/**
+ * Decline an invitation
+ */
+export async function declineInvitation(id: string): Promise<void> {
+  await api.post(`/auth/invitations/${id}/decline`);
+}
@@ -0,0 +1,263 @@
+/**
+ * Labour API Module
+ *
+ * Workers of labour parties with their rate cards, the daily muster roll of each
+ * project, weekly wage bills posted as labour expenses, and man-days worked on
+ * each stage against the BOQ.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+import type { ExpenseStatus } from './expenses';
+import type { MemberName } from './purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+export type AttendanceStatus = 'PRESENT' | 'HALF_DAY' | 'ABSENT';
+
+export interface LabourWorker {
+  id: string;
+  partyId: string;
+  labourTypeItemId: string | null;
+  name: string;
+  phone: string | null;
+  dailyRate: number;
+  // Overtime is paid at dailyRate / shiftHours an hour, times overtimeMultiplier
+  shiftHours: number;
+  overtimeMultiplier: number;
+  // A night shift pays the day's wage times nightMultiplier
+  nightMultiplier: number;
+  isActive: boolean;
+  party: { id: string; name: string };
+  labourType: { id: string; name: string } | null;
+}
+
+export interface AttendanceEntry {
+  id: string;
+  projectId: string;
+  stageId: string | null;
+  workerId: string;
+  date: string;
+  status: AttendanceStatus;
+  overtimeHours: number;
+  isNightShift: boolean;
+  wageBillId: string | null;
+  notes: string | null;
+  worker: LabourWorker;
+  stage: { id: string; name: string } | null;
+  markedBy: MemberName | null;
+}
+
+/**
+ * A day on the muster roll with what it earns on the worker's current rate card
+ */
+export interface AttendanceDay extends AttendanceEntry {
+  manDays: number;
+  wageAmount: number;
+}
+
+export interface WageBillLine {
+  id: string;
+  workerId: string;
+  manDays: number;
+  overtimeHours: number;
+  nightShifts: number;
+  dailyRate: number;
+  shiftHours: number;
+  overtimeMultiplier: number;
+  nightMultiplier: number;
+  amount: number;
+  worker: { id: string; name: string };
+}
+
+export interface WageBill {
+  id: string;
+  projectId: string;
+  partyId: string;
+  periodStart: string;
+  periodEnd: string;
+  manDays: number;
+  overtimeHours: number;
+  totalAmount: number;
+  createdAt: string;
+  party: { id: string; name: string };
+  createdBy: MemberName | null;
+  lines: WageBillLine[];
+  expenses: Array<{
+    id: string;
+    description: string | null;
+    rate: number;
+    quantity: number;
+    status: ExpenseStatus;
+    approvalLevel: number;
+    rejectionReason: string | null;
+    stage: { id: string; name: string } | null;
+    labourType: { id: string; name: string } | null;
+  }>;
+}
+
+export interface ManDayRow {
+  stageId: string | null;
+  stageName: string;
+  plannedManDays: number;
+  actualManDays: number;
+  // Actual less planned; positive when more days were worked than planned
+  varianceManDays: number;
+  variancePercent: number | null;
+}
+
+export interface WorkerInput {
+  partyId: string;
+  labourTypeItemId?: string | null;
+  name: string;
+  phone?: string | null;
+  dailyRate: number;
+  shiftHours?: number;
+  overtimeMultiplier?: number;
+  nightMultiplier?: number;
+}
+
+export interface UpdateWorkerInput extends Partial<Omit<WorkerInput, 'partyId'>> {
+  isActive?: boolean;
+}
+
+export interface MarkAttendanceInput {
+  projectId: string;
+  stageId?: string | null;
+  // YYYY-MM-DD
+  date: string;
+  entries: Array<{
+    workerId: string;
+    status: AttendanceStatus;
+    overtimeHours?: number;
+    isNightShift?: boolean;
+    notes?: string | null;
+  }>;
+}
+
+export interface WageBillInput {
+  projectId: string;
+  partyId: string;
+  // First day of the week, YYYY-MM-DD
+  weekStart: string;
+}
+
+export interface WorkerListParams {
+  partyId?: string;
+  includeInactive?: boolean;
+}
+
+export interface AttendanceParams {
+  from: string;
+  to: string;
+  stageId?: string;
+  partyId?: string;
+}
+
+// ============================================
+// Workers API
+// ============================================
+
+/**
+ * Fetch workers of labour parties
+ */
+export async function getWorkers(params: WorkerListParams = {}): Promise<LabourWorker[]> {
+  const response: AxiosResponse<ApiSuccessResponse<LabourWorker[]>> = await api.get(
+    '/labour/workers',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Add a worker to a labour party
+ */
+export async function createWorker(data: WorkerInput): Promise<LabourWorker> {
+  const response: AxiosResponse<ApiSuccessResponse<LabourWorker>> = await api.post(
+    '/labour/workers',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Change a worker or their rate card
+ */
+export async function updateWorker(id: string, data: UpdateWorkerInput): Promise<LabourWorker> {
+  const response: AxiosResponse<ApiSuccessResponse<LabourWorker>> = await api.patch(
+    `/labour/workers/${id}`,
+    data
+  );
+  return response.data.data;
+}
+
+// ============================================
+// Muster Roll API
+// ============================================
+
+/**
+ * Fetch a project's attendance between two days
+ */
+export async function getAttendance(
+  projectId: string,
+  params: AttendanceParams
+): Promise<AttendanceDay[]> {
+  const response: AxiosResponse<ApiSuccessResponse<AttendanceDay[]>> = await api.get(
+    `/labour/attendance/project/${projectId}`,
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Mark a day's attendance at a project
+ */
+export async function markAttendance(data: MarkAttendanceInput): Promise<AttendanceEntry[]> {
+  const response: AxiosResponse<ApiSuccessResponse<AttendanceEntry[]>> = await api.put(
+    '/labour/attendance',
+    data
+  );
+  return response.data.data;
+}
+
+// ============================================
+// Wage Bills API
+// ============================================
+
+/**
+ * Fetch a project's wage bills, latest week first
+ */
+export async function getWageBills(projectId: string): Promise<WageBill[]> {
+  const response: AxiosResponse<ApiSuccessResponse<WageBill[]>> = await api.get(
+    `/labour/wage-bills/project/${projectId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Pay a labour party's unpaid attendance for a week as labour expenses
+ */
+export async function createWageBill(data: WageBillInput): Promise<WageBill> {
+  const response: AxiosResponse<ApiSuccessResponse<WageBill>> = await api.post(
+    '/labour/wage-bills',
+    data
+  );
+  return response.data.data;
+}
+
+// ============================================
+// Man-days API
+// ============================================
+
+/**
+ * Fetch man-days worked on each stage against the BOQ
+ */
+export async function getManDays(projectId: string): Promise<ManDayRow[]> {
+  const response: AxiosResponse<ApiSuccessResponse<ManDayRow[]>> = await api.get(
+    `/labour/project/${projectId}/man-days`
+  );
+  return response.data.data;
+}
@@ -7,6 +7,7 @@
 import { api } from './client';
 import type { AxiosResponse } from 'axios';
 import type { PaginationMeta, ApiSuccessResponse, ApiPaginatedResponse } from './types';
+import type { AdvanceSettlement } from './advance-claims';
 
 // ============================================
 // Types
@@ -56,10 +57,38 @@ export interface MemberAdvanceSummary {
   memberName: string;
   memberRole: string;
   totalAdvanceGiven: number;
+  /** Settled claims */
   expensesLogged: number;
+  /** Claims waiting to be settled */
+  pendingClaims: number;
+  cashReturned: number;
+  reimbursed: number;
+  /** Cash in hand */
   balance: number;
 }
 
+export type CashStatementEntryType = 'ADVANCE' | 'CLAIM' | 'RETURN' | 'REIMBURSEMENT';
+
+export interface CashStatementEntry {
+  date: string;
+  type: CashStatementEntryType;
+  referenceId: string;
+  description: string;
+  /** Positive when cash reaches the member, negative when it leaves them */
+  amount: number;
+  /** Cash in hand after this movement */
+  balance: number;
+}
+
+export interface MemberSettlement extends AdvanceSettlement {
+  claim: {
+    id: string;
+    description: string;
+    amount: number;
+    expenseDate: string;
+  };
+}
+
 export interface ProjectMember {
   id: string;
   name: string;
@@ -180,6 +209,32 @@ export async function getMemberAdvanceSummary(
   return response.data.data;
 }
 
+/**
+ * Get a member's cash-in-hand statement for a project, oldest first
+ */
+export async function getMemberCashStatement(
+  projectId: string,
+  memberId: string
+): Promise<CashStatementEntry[]> {
+  const response: AxiosResponse<ApiSuccessResponse<CashStatementEntry[]>> = await api.get(
+    `/member-advances/project/${projectId}/member/${memberId}/statement`
+  );
+  return response.data.data;
+}
+
+/**
+ * Get a member's settlement history for a project, most recent first
+ */
+export async function getMemberSettlements(
+  projectId: string,
+  memberId: string
+): Promise<MemberSettlement[]> {
+  const response: AxiosResponse<ApiSuccessResponse<MemberSettlement[]>> = await api.get(
+    `/member-advances/project/${projectId}/member/${memberId}/settlements`
+  );
+  return response.data.data;
+}
+
 /**
  * Get all members' advance summaries for a project
  */
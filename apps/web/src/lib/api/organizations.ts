@@ -26,6 +26,21 @@ export interface OrganizationMember {
   };
 }
 
+export interface UserOrganization {
+  id: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+}
+
+export interface SwitchOrganizationResult {
+  organization: { id: string; name: string };
+  role: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
 // ============================================
 // Organizations API
 // ============================================
@@ -39,3 +54,25 @@ export async function getOrganizationMembers(organizationId: string): Promise<Or
   );
   return response.data.data;
 }
+
+/**
+ * Fetch organizations the current user belongs to
+ */
+export async function getMyOrganizations(): Promise<UserOrganization[]> {
+  const response: AxiosResponse<ApiSuccessResponse<UserOrganization[]>> =
+    await api.get('/auth/organizations');
+  return response.data.data;
+}
+
+/**
+ * Switch the active organization. Returns a token scoped to it.
+ */
+export async function switchOrganization(
+  organizationId: string
+): Promise<SwitchOrganizationResult> {
+  const response: AxiosResponse<ApiSuccessResponse<SwitchOrganizationResult>> = await api.post(
+    '/auth/switch-organization',
+    { organizationId }
+  );
+  return response.data.data;
+}
@@ -13,6 +13,7 @@ import type {
   PaginatedResult,
   ApiSuccessResponse,
 } from './types';
+import type { PartyLedgerEntryType } from './party-ledger';
 
 // ============================================
 // Types
@@ -27,6 +28,9 @@ export interface Party {
   phone: string | null;
   location: string;
   type: PartyType;
+  // GST registration of a client, printed on tax invoices
+  gstin?: string | null;
+  stateCode?: string | null;
   credit: number;
   createdAt: string;
   updatedAt?: string;
@@ -35,6 +39,10 @@ export interface Party {
 export interface PartyStats {
   totalExpenses: number;
   totalPayments: number;
+  totalAdvances: number;
+  totalCreditNotes: number;
+  totalRefunds: number;
+  totalWriteOffs: number;
   balance: number;
 }
 
@@ -52,12 +60,17 @@ export interface PartyProject {
   name: string;
   totalExpenses: number;
   totalPayments: number;
+  totalAdvances: number;
+  totalCreditNotes: number;
+  totalRefunds: number;
+  totalWriteOffs: number;
   credit: number;
 }
 
 export interface PartyProjectsResponse {
   items: PartyProject[];
   totals: {
+    // Payments and advances, less refunds
     totalPaid: number;
     totalCredit: number;
   };
@@ -71,13 +84,58 @@ export interface PartyTransaction {
   amount: number;
   projectId: string;
   projectName: string;
+  // Set on ledger entries
+  entryType?: PartyLedgerEntryType;
 }
 
+export type PartyTransactionsTab = 'payments' | 'expenses' | 'ledger';
+
 export interface PartyTransactionsParams {
   page?: number;
   limit?: number;
   projectId?: string;
-  type?: 'payments' | 'expenses';
+  type?: PartyTransactionsTab;
+}
+
+export type PartyStatementLineKind = 'BILL' | 'PAYMENT' | PartyLedgerEntryType;
+export type PartyStatementFormat = 'pdf' | 'xlsx';
+
+export interface PartyStatementEntry {
+  id: string;
+  date: string;
+  kind: PartyStatementLineKind;
+  reference: string | null;
+  narration: string;
+  projectName: string;
+  debit: number;
+  credit: number;
+  /** Owed to the party after this line; negative when the party owes us */
+  balance: number;
+}
+
+export interface PartyStatement {
+  organizationName: string;
+  party: Pick<Party, 'id' | 'name' | 'type' | 'phone' | 'location'>;
+  project: { id: string; name: string } | null;
+  from: string | null;
+  to: string;
+  openingBalance: number;
+  entries: PartyStatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  generatedAt: string;
+}
+
+export interface PartyStatementParams {
+  from?: string;
+  to?: string;
+  projectId?: string;
+}
+
+export interface PartyStatementFile {
+  blob: Blob;
+  fileName: string;
 }
 
 export interface CreatePartyInput {
@@ -85,6 +143,8 @@ export interface CreatePartyInput {
   phone?: string;
   location: string;
   type: PartyType;
+  gstin?: string | null;
+  stateCode?: string | null;
 }
 
 export interface UpdatePartyInput {
@@ -92,6 +152,8 @@ export interface UpdatePartyInput {
   phone?: string;
   location?: string;
   type?: PartyType;
+  gstin?: string | null;
+  stateCode?: string | null;
 }
 
 export interface PartyQueryParams {
@@ -194,7 +256,7 @@ export async function getPartyProjects(
 }
 
 /**
- * Get party transactions (payments or expenses)
+ * Get party transactions (payments, expenses or ledger entries)
  */
 export async function getPartyTransactions(
   partyId: string,
@@ -207,3 +269,37 @@ export async function getPartyTransactions(
 
   return response.data.data;
 }
+
+/**
+ * Get a party's ledger statement for a period
+ */
+export async function getPartyStatement(
+  partyId: string,
+  params?: PartyStatementParams
+): Promise<PartyStatement> {
+  const response: AxiosResponse<ApiSuccessResponse<PartyStatement>> = await api.get(
+    `/parties/${partyId}/statement`,
+    { params }
+  );
+
+  return response.data.data;
+}
+
+/**
+ * Download a party's ledger statement as a PDF or Excel file
+ */
+export async function downloadPartyStatement(
+  partyId: string,
+  format: PartyStatementFormat,
+  params?: PartyStatementParams
+): Promise<PartyStatementFile> {
+  const response: AxiosResponse<Blob> = await api.get(`/parties/${partyId}/statement`, {
+    params: { ...params, format },
+    responseType: 'blob',
+  });
+
+  const disposition = String(response.headers['content-disposition'] ?? '');
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `statement.${format}`;
+
+  return { blob: response.data, fileName };
+}
@@ -0,0 +1,171 @@
+/**
+ * Party Ledger API Module
+ *
+ * Entries on a vendor's, labourer's or subcontractor's account other than bills and
+ * payments: advances, credit notes, refunds and write-offs, each with a narration
+ * and attachments.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiPaginatedResponse, PaginatedResult, SuccessResponse } from './types';
+import type { PaymentMode } from './payments';
+
+// ============================================
+// Types
+// ============================================
+
+export type PartyLedgerEntryType = 'ADVANCE' | 'CREDIT_NOTE' | 'REFUND' | 'WRITE_OFF';
+
+export interface LedgerAttachment {
+  id: string;
+  fileName: string;
+  fileUrl: string;
+  mimeType: string;
+  uploadedAt: string;
+}
+
+export interface PartyLedgerEntry {
+  id: string;
+  projectId: string;
+  partyId: string;
+  type: PartyLedgerEntryType;
+  amount: number;
+  entryDate: string;
+  paymentMode: PaymentMode | null;
+  referenceNumber: string | null;
+  narration: string;
+  createdAt: string;
+  project: { id: string; name: string };
+  party: { id: string; name: string; type: string };
+  attachments: LedgerAttachment[];
+}
+
+export interface PartyLedgerQueryParams {
+  page?: number;
+  limit?: number;
+  projectId?: string;
+  partyId?: string;
+  type?: PartyLedgerEntryType;
+}
+
+export interface CreatePartyLedgerEntryInput {
+  projectId: string;
+  partyId: string;
+  type: PartyLedgerEntryType;
+  amount: number;
+  entryDate: string;
+  paymentMode?: PaymentMode;
+  referenceNumber?: string;
+  narration: string;
+}
+
+export interface UpdatePartyLedgerEntryInput {
+  type?: PartyLedgerEntryType;
+  amount?: number;
+  entryDate?: string;
+  paymentMode?: PaymentMode | null;
+  referenceNumber?: string | null;
+  narration?: string;
+}
+
+export interface LedgerAttachmentDownload {
+  downloadUrl: string;
+  expiresIn: number;
+  fileName: string;
+}
+
+// ============================================
+// API Functions
+// ============================================
+
+/**
+ * Get ledger entries, e.g. for a party or a project
+ */
+export async function getPartyLedgerEntries(
+  params?: PartyLedgerQueryParams
+): Promise<PaginatedResult<PartyLedgerEntry>> {
+  const response: AxiosResponse<ApiPaginatedResponse<PartyLedgerEntry>> = await api.get(
+    '/party-ledger',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Get a single ledger entry
+ */
+export async function getPartyLedgerEntry(id: string): Promise<PartyLedgerEntry> {
+  const response = await api.get<SuccessResponse<PartyLedgerEntry>>(`/party-ledger/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Record an advance, credit note, refund or write-off
+ */
+export async function createPartyLedgerEntry(
+  data: CreatePartyLedgerEntryInput
+): Promise<PartyLedgerEntry> {
+  const response = await api.post<SuccessResponse<PartyLedgerEntry>>('/party-ledger', data);
+  return response.data.data;
+}
+
+/**
+ * Update a ledger entry
+ */
+export async function updatePartyLedgerEntry(
+  id: string,
+  data: UpdatePartyLedgerEntryInput
+): Promise<PartyLedgerEntry> {
+  const response = await api.put<SuccessResponse<PartyLedgerEntry>>(`/party-ledger/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Delete a ledger entry along with its attachments
+ */
+export async function deletePartyLedgerEntry(id: string): Promise<void> {
+  await api.delete(`/party-ledger/${id}`);
+}
+
+/**
+ * Attach a bill, credit note or receipt to a ledger entry
+ */
+export async function uploadLedgerAttachment(
+  entryId: string,
+  file: File
+): Promise<LedgerAttachment> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await api.post<SuccessResponse<LedgerAttachment>>(
+    `/party-ledger/${entryId}/attachments`,
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    }
+  );
+  return response.data.data;
+}
+
+/**
+ * Get a short-lived download link for an attachment
+ */
+export async function getLedgerAttachmentDownload(
+  entryId: string,
+  attachmentId: string
+): Promise<LedgerAttachmentDownload> {
+  const response = await api.get<SuccessResponse<LedgerAttachmentDownload>>(
+    `/party-ledger/${entryId}/attachments/${attachmentId}/download`
+  );
+  return response.data.data;
+}
+
+/**
+ * Remove an attachment from a ledger entry
+ */
+export async function deleteLedgerAttachment(entryId: string, attachmentId: string): Promise<void> {
+  await api.delete(`/party-ledger/${entryId}/attachments/${attachmentId}`);
+}
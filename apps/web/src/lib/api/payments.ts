@@ -7,6 +7,7 @@
 import { api } from './client';
 import type { AxiosResponse } from 'axios';
 import type { PaginationMeta, ApiSuccessResponse, ApiPaginatedResponse } from './types';
+import type { MatchIssue } from './purchase-orders';
 
 // ============================================
 // Types
@@ -49,6 +50,42 @@ export interface PaymentRecordedBy {
   };
 }
 
+export interface PaymentInstallmentAllocation {
+  id: string;
+  installmentId: string;
+  amount: number;
+  installment: { id: string; name: string };
+}
+
+export interface InstallmentAllocationInput {
+  installmentId: string;
+  amount: number;
+}
+
+export interface PaymentInvoiceAllocation {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  invoice: { id: string; invoiceNumber: string };
+}
+
+export interface InvoiceAllocationInput {
+  invoiceId: string;
+  amount: number;
+}
+
+export interface PaymentExpenseAllocation {
+  id: string;
+  expenseId: string;
+  amount: number;
+  expense: { id: string; description: string | null; expenseDate: string };
+}
+
+export interface ExpenseAllocationInput {
+  expenseId: string;
+  amount: number;
+}
+
 export interface Payment {
   id: string;
   organizationId: string;
@@ -59,15 +96,27 @@ export interface Payment {
   type: PaymentType;
   paymentMode: PaymentMode;
   amount: number;
+  // Tax deducted at source; the party receives amount less tdsAmount
+  tdsSection: string | null;
+  tdsRate: number | null;
+  tdsAmount: number;
   paymentDate: string;
   referenceNumber: string | null;
   notes: string | null;
+  // Bills were chosen by hand; whatever is left stays on account
+  allocatedByHand: boolean;
   createdAt: string;
   // Relations
   project: PaymentProject;
   party: PaymentParty | null;
   expense: PaymentExpense | null;
   recordedBy: PaymentRecordedBy | null;
+  // Installments of the project's payment schedule this receipt covers
+  installmentAllocations?: PaymentInstallmentAllocation[];
+  // Tax invoices raised to the client this receipt covers
+  invoiceAllocations?: PaymentInvoiceAllocation[];
+  // Expenses of the party this payment covers; the rest is held on account
+  allocations?: PaymentExpenseAllocation[];
 }
 
 export interface ProjectPaymentSummary {
@@ -86,6 +135,8 @@ export interface PaymentsSummary {
 
 export interface PartyOutstanding {
   outstanding: number;
+  // Paid to the party but not allocated to any expense
+  onAccount: number;
 }
 
 export interface UnpaidExpense {
@@ -95,6 +146,8 @@ export interface UnpaidExpense {
   paidAmount: number;
   outstanding: number;
   expenseDate: string;
+  // Where a bill matched to a purchase order disagrees with it
+  matchIssues: MatchIssue[];
 }
 
 export interface CreatePaymentInput {
@@ -105,9 +158,16 @@ export interface CreatePaymentInput {
   type: PaymentType;
   paymentMode: PaymentMode;
   amount: number;
+  tdsSection?: string;
+  // Section's usual rate when not given
+  tdsRate?: number;
+  tdsAmount?: number;
   paymentDate: string;
   referenceNumber?: string;
   notes?: string;
+  installmentAllocations?: InstallmentAllocationInput[];
+  invoiceAllocations?: InvoiceAllocationInput[];
+  allocations?: ExpenseAllocationInput[];
 }
 
 export interface UpdatePaymentInput {
@@ -117,9 +177,16 @@ export interface UpdatePaymentInput {
   type?: PaymentType;
   paymentMode?: PaymentMode;
   amount?: number;
+  // null stops deducting TDS
+  tdsSection?: string | null;
+  tdsRate?: number;
+  tdsAmount?: number;
   paymentDate?: string;
   referenceNumber?: string | null;
   notes?: string | null;
+  installmentAllocations?: InstallmentAllocationInput[];
+  invoiceAllocations?: InvoiceAllocationInput[];
+  allocations?: ExpenseAllocationInput[];
 }
 
 export interface PaymentQueryParams {
@@ -24,6 +24,14 @@ export interface Permission {
 
 export type PermissionsByCategory = Record<string, Permission[]>;
 
+export interface MyPermissions {
+  role: string;
+  permissions: string[];
+  fullAccess: boolean;
+  projectScoped: boolean;
+  accessibleProjectIds: string[] | null;
+}
+
 // ============================================
 // Permissions API
 // ============================================
@@ -45,3 +53,13 @@ export async function getPermissionsGrouped(): Promise<PermissionsByCategory> {
   );
   return response.data.data;
 }
+
+/**
+ * Fetch the permission keys granted to the current member's role
+ */
+export async function getMyPermissions(): Promise<MyPermissions> {
+  const response: AxiosResponse<ApiSuccessResponse<MyPermissions>> = await api.get(
+    '/permissions/me'
+  );
+  return response.data.data;
+}
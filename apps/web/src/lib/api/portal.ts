@@ -0,0 +1,175 @@
+/**
+ * Client Portal API Module
+ *
+ * Read-only views of a client's own projects: stage progress, shared photos and
+ * documents, the payment schedule, payments received and receipts.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { PaginationMeta, ApiPaginatedResponse, SuccessResponse } from './types';
+import type { DocumentDownload } from './documents';
+
+// ============================================
+// Types
+// ============================================
+
+export type PortalStageStatus = 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'ON_HOLD';
+
+export type PortalInstallmentStatus =
+  | 'UPCOMING'
+  | 'DUE'
+  | 'OVERDUE'
+  | 'PARTIALLY_RECEIVED'
+  | 'RECEIVED';
+
+export interface PortalProfile {
+  client: { id: string; name: string };
+  organization: { id: string; name: string };
+}
+
+export interface PortalPaymentSummary {
+  contractAmount: number;
+  received: number;
+  outstanding: number;
+}
+
+export interface PortalProject extends PortalPaymentSummary {
+  id: string;
+  name: string;
+  location: string;
+  startDate: string;
+  endDate: string | null;
+  status: 'ACTIVE' | 'ON_HOLD' | 'COMPLETED';
+  area: string | null;
+  projectPicture: string | null;
+  // Share of stage weight completed, 0-100
+  progress: number;
+}
+
+export interface PortalStage {
+  id: string;
+  name: string;
+  description: string | null;
+  startDate: string;
+  endDate: string;
+  status: PortalStageStatus;
+  weight: number;
+  tasks: { total: number; completed: number };
+}
+
+export interface PortalProjectDetail extends PortalProject {
+  stages: PortalStage[];
+}
+
+export interface PortalDocument {
+  id: string;
+  fileName: string;
+  fileType: string;
+  mimeType: string;
+  uploadedAt: string;
+  isPhoto: boolean;
+}
+
+export interface PortalDocumentQueryParams {
+  page?: number;
+  limit?: number;
+  kind?: 'photos' | 'documents';
+}
+
+export interface PortalDocumentsResponse {
+  items: PortalDocument[];
+  pagination: PaginationMeta;
+}
+
+export interface PortalReceipt {
+  id: string;
+  amount: number;
+  paymentDate: string;
+  paymentMode: 'CASH' | 'CHEQUE' | 'ONLINE';
+  referenceNumber: string | null;
+}
+
+export interface PortalInstallment {
+  id: string;
+  name: string;
+  // Stage whose completion makes it due, if any
+  stageName: string | null;
+  dueDate: string | null;
+  amount: number;
+  received: number;
+  outstanding: number;
+  status: PortalInstallmentStatus;
+}
+
+export interface PortalPaymentSchedule {
+  installments: PortalInstallment[];
+  // Outstanding on installments that have fallen due, and on those past their due date
+  dueAmount: number;
+  overdueAmount: number;
+}
+
+export interface PortalPayments extends PortalPaymentSummary {
+  receipts: PortalReceipt[];
+  schedule: PortalPaymentSchedule;
+}
+
+export interface PortalReceiptDetail extends PortalReceipt {
+  organizationName: string;
+  clientName: string | null;
+  project: { id: string; name: string; location: string };
+}
+
+// ============================================
+// Portal API
+// ============================================
+
+export async function getPortalProfile(): Promise<PortalProfile> {
+  const response = await api.get<SuccessResponse<PortalProfile>>('/portal/profile');
+  return response.data.data;
+}
+
+export async function getPortalProjects(): Promise<PortalProject[]> {
+  const response = await api.get<SuccessResponse<PortalProject[]>>('/portal/projects');
+  return response.data.data;
+}
+
+export async function getPortalProject(projectId: string): Promise<PortalProjectDetail> {
+  const response = await api.get<SuccessResponse<PortalProjectDetail>>(
+    `/portal/projects/${projectId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Photos and documents the builder has shared
+ */
+export async function getPortalDocuments(
+  projectId: string,
+  params?: PortalDocumentQueryParams
+): Promise<PortalDocumentsResponse> {
+  const response: AxiosResponse<ApiPaginatedResponse<PortalDocument>> = await api.get(
+    `/portal/projects/${projectId}/documents`,
+    { params }
+  );
+  return response.data.data;
+}
+
+export async function getPortalDocumentDownload(id: string): Promise<DocumentDownload> {
+  const response = await api.get<SuccessResponse<DocumentDownload>>(
+    `/portal/documents/${id}/download`
+  );
+  return response.data.data;
+}
+
+export async function getPortalPayments(projectId: string): Promise<PortalPayments> {
+  const response = await api.get<SuccessResponse<PortalPayments>>(
+    `/portal/projects/${projectId}/payments`
+  );
+  return response.data.data;
+}
+
+export async function getPortalReceipt(id: string): Promise<PortalReceiptDetail> {
+  const response = await api.get<SuccessResponse<PortalReceiptDetail>>(`/portal/receipts/${id}`);
+  return response.data.data;
+}
@@ -68,6 +68,10 @@ export interface ProjectStats {
   totalPayments: number;
   totalPaymentsIn: number;
   totalPaymentsOut: number;
+  totalAdvances: number;
+  totalCreditNotes: number;
+  totalRefunds: number;
+  totalWriteOffs: number;
   balance: number;
 }
 
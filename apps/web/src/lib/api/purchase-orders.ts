@@ -0,0 +1,239 @@
+/**
+ * Purchase Orders API Module
+ *
+ * Orders placed with a project's vendors, approved before they are placed,
+ * goods received against them at site, and the three-way match of ordered,
+ * received and billed quantities on each line.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+import type { ExpenseStatus } from './expenses';
+
+// ============================================
+// Types
+// ============================================
+
+export type PurchaseOrderStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+export type DeliveryStatus = 'NOT_RECEIVED' | 'PARTIALLY_RECEIVED' | 'RECEIVED';
+
+/**
+ * - RATE_MISMATCH: a bill's rate differs from the agreed rate
+ * - QUANTITY_MISMATCH: more is billed than was received
+ * - OVER_DELIVERED: more was received than ordered
+ */
+export type MatchIssue = 'RATE_MISMATCH' | 'QUANTITY_MISMATCH' | 'OVER_DELIVERED';
+
+export interface LineMatch {
+  orderedQuantity: number;
+  receivedQuantity: number;
+  billedQuantity: number;
+  billedAmount: number;
+  issues: MatchIssue[];
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  sortOrder: number;
+  boqItemId: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  deliveryDate: string | null;
+  boqItem: { id: string; code: string | null; description: string; unit: string } | null;
+  // Vendor bills matched to the line
+  bills: Array<{
+    id: string;
+    description: string | null;
+    rate: number;
+    quantity: number;
+    expenseDate: string;
+    status: ExpenseStatus;
+  }>;
+  match: LineMatch;
+}
+
+export interface MemberName {
+  id: string;
+  user: { name: string };
+}
+
+export interface GoodsReceipt {
+  id: string;
+  receivedDate: string;
+  notes: string | null;
+  createdAt: string;
+  receivedBy: MemberName | null;
+  lines: Array<{ purchaseOrderLineId: string; quantity: number }>;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  projectId: string;
+  vendorId: string;
+  orderNumber: string;
+  orderDate: string;
+  status: PurchaseOrderStatus;
+  totalAmount: number;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  cancellationReason: string | null;
+  notes: string | null;
+  createdAt: string;
+  vendor: { id: string; name: string };
+  lines: PurchaseOrderLine[];
+  deliveryStatus: DeliveryStatus;
+  billedAmount: number;
+  hasMismatch: boolean;
+  // Included when fetching a single order
+  createdBy?: MemberName | null;
+  approvedBy?: MemberName | null;
+  receipts?: GoodsReceipt[];
+}
+
+/**
+ * A line of an approved order that a vendor bill can be matched to
+ */
+export interface OpenOrderLine extends PurchaseOrderLine {
+  purchaseOrder: { id: string; orderNumber: string; orderDate: string };
+}
+
+export interface PurchaseOrderLineInput {
+  boqItemId?: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  deliveryDate?: string | null;
+}
+
+export interface CreatePurchaseOrderInput {
+  projectId: string;
+  vendorId: string;
+  orderDate: string;
+  notes?: string | null;
+  lines: PurchaseOrderLineInput[];
+}
+
+export type UpdatePurchaseOrderInput = Partial<Omit<CreatePurchaseOrderInput, 'projectId'>>;
+
+export interface CreateGoodsReceiptInput {
+  receivedDate: string;
+  notes?: string | null;
+  lines: Array<{ purchaseOrderLineId: string; quantity: number }>;
+}
+
+// ============================================
+// Purchase Orders API
+// ============================================
+
+/**
+ * Fetch a project's orders with delivery and billing against each
+ */
+export async function getProjectPurchaseOrders(
+  projectId: string,
+  status?: PurchaseOrderStatus
+): Promise<PurchaseOrder[]> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder[]>> = await api.get(
+    `/purchase-orders/project/${projectId}`,
+    { params: { status } }
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch an order with its goods received notes
+ */
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder>> = await api.get(
+    `/purchase-orders/${id}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch the lines of a vendor's approved orders on a project that a bill can be matched to
+ */
+export async function getOpenOrderLines(
+  projectId: string,
+  vendorId: string
+): Promise<OpenOrderLine[]> {
+  const response: AxiosResponse<ApiSuccessResponse<OpenOrderLine[]>> = await api.get(
+    `/purchase-orders/project/${projectId}/vendor/${vendorId}/lines`
+  );
+  return response.data.data;
+}
+
+/**
+ * Raise an order to a vendor; it waits for approval
+ */
+export async function createPurchaseOrder(data: CreatePurchaseOrderInput): Promise<PurchaseOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder>> = await api.post(
+    '/purchase-orders',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Edit an order waiting for approval or rejected; it goes back for approval
+ */
+export async function updatePurchaseOrder(
+  id: string,
+  data: UpdatePurchaseOrderInput
+): Promise<PurchaseOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder>> = await api.put(
+    `/purchase-orders/${id}`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Approve an order so it can be placed
+ */
+export async function approvePurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder>> = await api.post(
+    `/purchase-orders/${id}/approve`
+  );
+  return response.data.data;
+}
+
+/**
+ * Send an order back with a reason
+ */
+export async function rejectPurchaseOrder(id: string, reason: string): Promise<PurchaseOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder>> = await api.post(
+    `/purchase-orders/${id}/reject`,
+    { reason }
+  );
+  return response.data.data;
+}
+
+/**
+ * Cancel an order nothing was received or billed against
+ */
+export async function cancelPurchaseOrder(id: string, reason: string): Promise<PurchaseOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder>> = await api.post(
+    `/purchase-orders/${id}/cancel`,
+    { reason }
+  );
+  return response.data.data;
+}
+
+/**
+ * Record goods received at site against an approved order
+ */
+export async function receiveGoods(
+  id: string,
+  data: CreateGoodsReceiptInput
+): Promise<PurchaseOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<PurchaseOrder>> = await api.post(
+    `/purchase-orders/${id}/receipts`,
+    data
+  );
+  return response.data.data;
+}
@@ -0,0 +1,194 @@
+/**
+ * Rate Analysis API Client
+ *
+ * The breakdown of a BOQ item's rate into the material, labour, equipment and
+ * other components that make up one unit, with overhead and profit on top, and
+ * the organization's library of reusable rate analysis templates.
+ */
+
+import { api } from './client';
+import type { SuccessResponse } from './types';
+import type { MemberName } from './purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+export type RateComponentKind = 'MATERIAL' | 'LABOUR' | 'EQUIPMENT' | 'OTHER';
+
+export interface RateComponent {
+  id: string;
+  sortOrder: number;
+  kind: RateComponentKind;
+  // Material, labour or sub-work type the component is priced against
+  categoryItemId: string | null;
+  categoryItem: { id: string; name: string } | null;
+  description: string;
+  unit: string;
+  // Per unit of the BOQ item
+  quantity: number;
+  rate: number;
+}
+
+export interface RateTotals {
+  materialCost: number;
+  labourCost: number;
+  equipmentCost: number;
+  otherCost: number;
+  directCost: number;
+  overheadAmount: number;
+  profitAmount: number;
+  unitRate: number;
+}
+
+export interface RateTemplate extends RateTotals {
+  id: string;
+  name: string;
+  description: string | null;
+  unit: string;
+  overheadPercent: number;
+  profitPercent: number;
+  components: RateComponent[];
+  createdBy: MemberName | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RateAnalysisComponent extends RateComponent {
+  amount: number;
+  // Average rate the project's expenses paid for the component's type, by quantity
+  actualRate: number | null;
+  expenseCount: number;
+  // Actual less analysed; positive when the site pays more
+  rateVariance: number | null;
+  rateVariancePercent: number | null;
+}
+
+export interface RateAnalysis extends RateTotals {
+  id: string;
+  boqItemId: string;
+  templateId: string | null;
+  template: { id: string; name: string } | null;
+  overheadPercent: number;
+  profitPercent: number;
+  notes: string | null;
+  components: RateAnalysisComponent[];
+  // The BOQ item's rate, and that rate less the analysed one
+  quotedRate: number;
+  rateDifference: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RateComponentInput {
+  kind: RateComponentKind;
+  categoryItemId?: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+}
+
+export interface RateTemplateInput {
+  name: string;
+  description?: string | null;
+  unit: string;
+  overheadPercent: number;
+  profitPercent: number;
+  components: RateComponentInput[];
+}
+
+export interface SaveRateAnalysisInput {
+  templateId?: string | null;
+  overheadPercent: number;
+  profitPercent: number;
+  notes?: string | null;
+  components: RateComponentInput[];
+  // Also quote the BOQ item at the analysed rate
+  applyRate?: boolean;
+}
+
+// ============================================
+// Template API Functions
+// ============================================
+
+/**
+ * List the organization's rate analysis templates
+ */
+export async function getRateTemplates(): Promise<RateTemplate[]> {
+  const response = await api.get<SuccessResponse<RateTemplate[]>>('/rate-templates');
+  return response.data.data;
+}
+
+/**
+ * Fetch a rate analysis template
+ */
+export async function getRateTemplate(id: string): Promise<RateTemplate> {
+  const response = await api.get<SuccessResponse<RateTemplate>>(`/rate-templates/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Add a template to the library
+ */
+export async function createRateTemplate(data: RateTemplateInput): Promise<RateTemplate> {
+  const response = await api.post<SuccessResponse<RateTemplate>>('/rate-templates', data);
+  return response.data.data;
+}
+
+/**
+ * Replace a template's details and components
+ */
+export async function updateRateTemplate(
+  id: string,
+  data: RateTemplateInput
+): Promise<RateTemplate> {
+  const response = await api.put<SuccessResponse<RateTemplate>>(`/rate-templates/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Remove a template; analyses built from it are kept
+ */
+export async function deleteRateTemplate(id: string): Promise<void> {
+  await api.delete(`/rate-templates/${id}`);
+}
+
+// ============================================
+// BOQ Item API Functions
+// ============================================
+
+/**
+ * Fetch a BOQ item's rate analysis; null if it has none
+ */
+export async function getRateAnalysis(
+  projectId: string,
+  boqItemId: string
+): Promise<RateAnalysis | null> {
+  const response = await api.get<SuccessResponse<RateAnalysis | null>>(
+    `/projects/${projectId}/boq/${boqItemId}/rate-analysis`
+  );
+  return response.data.data;
+}
+
+/**
+ * Save a BOQ item's rate analysis, replacing any earlier one
+ */
+export async function saveRateAnalysis(
+  projectId: string,
+  boqItemId: string,
+  data: SaveRateAnalysisInput
+): Promise<RateAnalysis> {
+  const response = await api.put<SuccessResponse<RateAnalysis>>(
+    `/projects/${projectId}/boq/${boqItemId}/rate-analysis`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Remove a BOQ item's rate analysis
+ */
+export async function deleteRateAnalysis(projectId: string, boqItemId: string): Promise<void> {
+  await api.delete(`/projects/${projectId}/boq/${boqItemId}/rate-analysis`);
+}
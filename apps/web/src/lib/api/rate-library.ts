@@ -0,0 +1,134 @@
+/**
+ * Rate Library API Client
+ *
+ * The rates the organization has actually paid, from its expenses: one entry
+ * per material, labour or sub-work type and unit, with its rates by vendor,
+ * by location and over time, and rates to suggest while entering new ones.
+ */
+
+import { api } from './client';
+import type { SuccessResponse } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type RateLibraryType = 'material_type' | 'labour_type' | 'sub_work_type';
+
+export interface RateStats {
+  count: number;
+  totalQuantity: number;
+  lastRate: number;
+  lastDate: string;
+  // Weighted by quantity
+  averageRate: number;
+  minRate: number;
+  maxRate: number;
+}
+
+export interface RateLibraryEntry extends RateStats {
+  type: RateLibraryType;
+  categoryItem: { id: string; name: string };
+  // Null for expenses entered without a unit
+  unit: string | null;
+  vendorCount: number;
+  locationCount: number;
+}
+
+export interface RateTrendPoint {
+  // YYYY-MM
+  month: string;
+  count: number;
+  quantity: number;
+  averageRate: number;
+  minRate: number;
+  maxRate: number;
+}
+
+export interface RateLibraryEntryDetail extends RateStats {
+  type: RateLibraryType;
+  categoryItem: { id: string; name: string };
+  unit: string | null;
+  vendors: Array<RateStats & { party: { id: string; name: string } }>;
+  locations: Array<RateStats & { location: string }>;
+  trend: RateTrendPoint[];
+  recent: Array<{
+    id: string;
+    expenseDate: string;
+    rate: number;
+    quantity: number;
+    party: { id: string; name: string };
+    project: { id: string; name: string; location: string };
+  }>;
+}
+
+export interface RateSuggestion {
+  unit: string | null;
+  overall: RateStats;
+  // Set when a vendor or project was given and it has paid for the type
+  vendor: RateStats | null;
+  location: (RateStats & { location: string }) | null;
+}
+
+export interface RateSuggestions {
+  type: RateLibraryType;
+  categoryItem: { id: string; name: string };
+  suggestions: RateSuggestion[];
+}
+
+// Expense dates (ISO) to take rates from; all of them when left out
+export interface RateWindowParams {
+  from?: string;
+  to?: string;
+}
+
+export interface RateLibraryParams extends RateWindowParams {
+  type?: RateLibraryType;
+  search?: string;
+}
+
+export interface RateSuggestionParams extends RateWindowParams {
+  categoryItemId: string;
+  unit?: string;
+  partyId?: string;
+  projectId?: string;
+}
+
+// ============================================
+// API Functions
+// ============================================
+
+/**
+ * List the library: every type and unit the organization has paid for
+ */
+export async function getRateLibrary(params: RateLibraryParams = {}): Promise<RateLibraryEntry[]> {
+  const response = await api.get<SuccessResponse<RateLibraryEntry[]>>('/rate-library', {
+    params,
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch an entry's rates by vendor and location and month by month
+ */
+export async function getRateLibraryEntry(
+  categoryItemId: string,
+  unit: string | null,
+  period: RateWindowParams = {}
+): Promise<RateLibraryEntryDetail | null> {
+  const response = await api.get<SuccessResponse<RateLibraryEntryDetail | null>>(
+    `/rate-library/${categoryItemId}`,
+    { params: unit ? { ...period, unit } : period }
+  );
+  return response.data.data;
+}
+
+/**
+ * Rates to suggest for a type, from a vendor and at a project's location
+ */
+export async function getRateSuggestions(params: RateSuggestionParams): Promise<RateSuggestions> {
+  const response = await api.get<SuccessResponse<RateSuggestions>>('/rate-library/suggest', {
+    params,
+  });
+  return response.data.data;
+}
@@ -0,0 +1,228 @@
+/**
+ * Reports API Module
+ *
+ * Provides functions for organization-wide reports across projects: payables and
+ * receivables aged into 0-30, 31-60, 61-90 and 90+ day buckets, and the monthly
+ * GST input credit and TDS reports.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type AgingKind = 'payables' | 'receivables';
+export type AgingGroupBy = 'party' | 'project';
+export type AgingBucket = 'days0to30' | 'days31to60' | 'days61to90' | 'over90';
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+export interface AgingRow extends AgingBuckets {
+  /** Party or project ID; null for projects without a client */
+  id: string | null;
+  name: string;
+  /** Open documents behind the row */
+  documents: number;
+  total: number;
+  /** Payments or receipts not yet applied to a document */
+  unappliedCredit: number;
+  /** Outstanding after unapplied credit */
+  net: number;
+}
+
+export interface AgingReport {
+  kind: AgingKind;
+  groupBy: AgingGroupBy;
+  asOf: string;
+  rows: AgingRow[];
+  totals: Omit<AgingRow, 'id' | 'name'>;
+}
+
+export interface AgingItem {
+  id: string;
+  type: 'EXPENSE' | 'INSTALLMENT';
+  /** Expense date, or the date an installment fell due */
+  date: string;
+  description: string;
+  party: { id: string; name: string } | null;
+  project: { id: string; name: string };
+  amount: number;
+  settled: number;
+  outstanding: number;
+  ageDays: number;
+  bucket: AgingBucket;
+}
+
+export interface AgingItemsResult {
+  kind: AgingKind;
+  asOf: string;
+  items: AgingItem[];
+  total: number;
+}
+
+export interface AgingReportParams {
+  kind: AgingKind;
+  groupBy: AgingGroupBy;
+}
+
+export interface AgingItemsParams {
+  kind: AgingKind;
+  partyId?: string;
+  projectId?: string;
+}
+
+export interface GstInputAmounts {
+  bills: number;
+  /** Bill amounts, including GST */
+  billAmount: number;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  gstAmount: number;
+  /** GST that can be claimed as input tax credit */
+  eligibleCredit: number;
+  ineligibleCredit: number;
+}
+
+export interface GstInputRow extends GstInputAmounts {
+  party: { id: string; name: string; gstin: string | null };
+}
+
+export interface GstInputReport {
+  /** YYYY-MM */
+  month: string;
+  rows: GstInputRow[];
+  totals: GstInputAmounts;
+}
+
+export interface TdsAmounts {
+  payments: number;
+  /** Amounts paid against bills, before TDS */
+  grossAmount: number;
+  tdsAmount: number;
+  /** What the parties received */
+  netAmount: number;
+}
+
+export interface TdsRow extends TdsAmounts {
+  party: { id: string; name: string; pan: string | null };
+  section: string;
+  sectionName: string;
+}
+
+export interface TdsReport {
+  /** YYYY-MM */
+  month: string;
+  /** When the month's TDS has to be paid to the government */
+  dueDate: string;
+  rows: TdsRow[];
+  totals: TdsAmounts;
+}
+
+export interface TaxReportParams {
+  /** YYYY-MM; the current month when not given */
+  month?: string;
+}
+
+export interface ReportFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function downloadCsv(url: string, params: object, fallbackName: string): Promise<ReportFile> {
+  const response: AxiosResponse<Blob> = await api.get(url, {
+    params: { ...params, format: 'csv' },
+    responseType: 'blob',
+  });
+
+  const disposition = String(response.headers['content-disposition'] ?? '');
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  return { blob: response.data, fileName };
+}
+
+// ============================================
+// Aging API
+// ============================================
+
+/**
+ * Fetch payables or receivables aged into buckets per party or project
+ */
+export async function getAgingReport(params: AgingReportParams): Promise<AgingReport> {
+  const response: AxiosResponse<ApiSuccessResponse<AgingReport>> = await api.get('/reports/aging', {
+    params,
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch the open bills or installments behind a report row
+ */
+export async function getAgingItems(params: AgingItemsParams): Promise<AgingItemsResult> {
+  const response: AxiosResponse<ApiSuccessResponse<AgingItemsResult>> = await api.get(
+    '/reports/aging/items',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Download the aging report as CSV
+ */
+export async function downloadAgingReport(params: AgingReportParams): Promise<ReportFile> {
+  return downloadCsv('/reports/aging', params, `${params.kind}-aging.csv`);
+}
+
+/**
+ * Download the documents behind a report row as CSV
+ */
+export async function downloadAgingItems(params: AgingItemsParams): Promise<ReportFile> {
+  return downloadCsv('/reports/aging/items', params, `${params.kind}-aging-items.csv`);
+}
+
+// ============================================
+// Tax API
+// ============================================
+
+/**
+ * Fetch GST on a month's bills per party, with the input credit that can be claimed
+ */
+export async function getGstInputReport(params: TaxReportParams): Promise<GstInputReport> {
+  const response: AxiosResponse<ApiSuccessResponse<GstInputReport>> = await api.get(
+    '/reports/gst-input',
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch TDS deducted from a month's payments per party and section
+ */
+export async function getTdsReport(params: TaxReportParams): Promise<TdsReport> {
+  const response: AxiosResponse<ApiSuccessResponse<TdsReport>> = await api.get('/reports/tds', {
+    params,
+  });
+  return response.data.data;
+}
+
+/**
+ * Download the GST input report as CSV
+ */
+export async function downloadGstInputReport(params: TaxReportParams): Promise<ReportFile> {
+  return downloadCsv('/reports/gst-input', params, `gst-input-${params.month ?? 'month'}.csv`);
+}
+
+/**
+ * Download the TDS report as CSV
+ */
+export async function downloadTdsReport(params: TaxReportParams): Promise<ReportFile> {
+  return downloadCsv('/reports/tds', params, `tds-${params.month ?? 'month'}.csv`);
+}
@@ -19,6 +19,10 @@ export interface Role {
   name: string;
   description: string | null;
   isSystemRole: boolean;
+  // Holds every permission (the ADMIN system role)
+  fullAccess: boolean;
+  // Members only reach the projects they are given access to
+  projectScoped: boolean;
   memberCount: number;
   permissions: Permission[];
   createdAt: string;
@@ -28,12 +32,14 @@ export interface Role {
 export interface CreateRoleInput {
   name: string;
   description?: string;
+  projectScoped?: boolean;
   permissionIds?: string[];
 }
 
 export interface UpdateRoleInput {
   name?: string;
   description?: string | null;
+  projectScoped?: boolean;
   permissionIds?: string[];
 }
 
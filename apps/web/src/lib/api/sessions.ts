@@ -0,0 +1,54 @@
+/**
+ * Sessions API Module
+ *
+ * Signed-in devices of the current user and remote logout.
+ * Sessions belong to the user, not to an organization.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AuthSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  isCurrent: boolean;
+}
+
+// ============================================
+// Sessions API
+// ============================================
+
+/**
+ * Fetch active sessions, most recently used first
+ */
+export async function getSessions(): Promise<AuthSession[]> {
+  const response: AxiosResponse<ApiSuccessResponse<AuthSession[]>> =
+    await api.get('/auth/sessions');
+  return response.data.data;
+}
+
+/**
+ * Sign out one device
+ */
+export async function revokeSession(id: string): Promise<void> {
+  await api.delete(`/auth/sessions/${id}`);
+}
+
+/**
+ * Sign out everywhere, optionally keeping this device signed in
+ */
+export async function revokeAllSessions(keepCurrent: boolean): Promise<{ revokedCount: number }> {
+  const response: AxiosResponse<ApiSuccessResponse<{ revokedCount: number }>> = await api.post(
+    '/auth/sessions/revoke-all',
+    { keepCurrent }
+  );
+  return response.data.data;
+}
@@ -0,0 +1,248 @@
+/**
+ * Stock API Module
+ *
+ * The material stock ledger of each project site, kept per material type and
+ * unit: material taken into stock from bills and goods received notes, issued to
+ * stages and tasks, transferred between sites and adjusted to physical counts.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+import type { MemberName } from './purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+export type StockMovementType = 'RECEIPT' | 'ISSUE' | 'TRANSFER_IN' | 'TRANSFER_OUT' | 'ADJUSTMENT';
+
+export interface StockBalance {
+  materialTypeItemId: string;
+  materialName: string;
+  unit: string;
+  received: number;
+  issued: number;
+  transferredIn: number;
+  transferredOut: number;
+  adjusted: number;
+  balance: number;
+}
+
+export interface StockMovement {
+  id: string;
+  projectId: string;
+  materialTypeItemId: string;
+  unit: string;
+  type: StockMovementType;
+  // Signed: positive adds to stock at the site, negative takes from it
+  quantity: number;
+  movementDate: string;
+  transferId: string | null;
+  notes: string | null;
+  createdAt: string;
+  materialType: { id: string; name: string };
+  expense: { id: string; description: string | null; expenseDate: string } | null;
+  goodsReceiptLine: {
+    id: string;
+    receipt: {
+      id: string;
+      receivedDate: string;
+      purchaseOrder: { id: string; orderNumber: string };
+    };
+  } | null;
+  stage: { id: string; name: string } | null;
+  task: { id: string; name: string } | null;
+  transferProject: { id: string; name: string } | null;
+  // Material supplied to a subcontractor, recovered from their RA bills at recoveryRate a unit
+  workOrderId: string | null;
+  recoveryRate: number | null;
+  workOrder: { id: string; orderNumber: string } | null;
+  createdBy: MemberName | null;
+}
+
+/**
+ * A ledger line, with the balance of its material after it
+ */
+export interface StockLedgerEntry extends StockMovement {
+  balance: number;
+}
+
+export interface StockBillSource {
+  id: string;
+  description: string | null;
+  expenseDate: string;
+  quantity: number;
+  remainingQuantity: number;
+  materialType: { id: string; name: string } | null;
+  party: { id: string; name: string };
+}
+
+export interface StockReceiptLineSource {
+  id: string;
+  quantity: number;
+  remainingQuantity: number;
+  purchaseOrderLine: {
+    description: string;
+    unit: string;
+    boqItem: { materialTypeItemId: string | null } | null;
+  };
+  receipt: {
+    receivedDate: string;
+    purchaseOrder: { id: string; orderNumber: string; vendor: { name: string } };
+  };
+}
+
+/**
+ * Bills and goods received note lines not yet fully taken into stock
+ */
+export interface StockSources {
+  bills: StockBillSource[];
+  receiptLines: StockReceiptLineSource[];
+}
+
+export interface MaterialVariance {
+  materialTypeItemId: string;
+  materialName: string;
+  unit: string;
+  plannedQuantity: number;
+  consumedQuantity: number;
+  // Consumed less planned; positive when more was used than the BOQ plans
+  varianceQuantity: number;
+  variancePercent: number | null;
+}
+
+interface StockLineInput {
+  projectId: string;
+  materialTypeItemId: string;
+  unit: string;
+  movementDate: string;
+  notes?: string | null;
+}
+
+export interface StockReceiptInput extends StockLineInput {
+  quantity: number;
+  expenseId?: string;
+  goodsReceiptLineId?: string;
+}
+
+export interface StockIssueInput extends StockLineInput {
+  quantity: number;
+  stageId?: string;
+  taskId?: string;
+  // Supplied to a subcontractor's work order, with the rate recovered from their RA bills
+  workOrderId?: string;
+  recoveryRate?: number;
+}
+
+export interface StockTransferInput extends StockLineInput {
+  toProjectId: string;
+  quantity: number;
+}
+
+export interface StockAdjustmentInput extends StockLineInput {
+  countedQuantity: number;
+  notes: string;
+}
+
+export interface StockLedgerParams {
+  materialTypeItemId?: string;
+  unit?: string;
+}
+
+// ============================================
+// Stock API
+// ============================================
+
+/**
+ * Fetch the stock of each material at a project site
+ */
+export async function getProjectStock(projectId: string): Promise<StockBalance[]> {
+  const response: AxiosResponse<ApiSuccessResponse<StockBalance[]>> = await api.get(
+    `/stock/project/${projectId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch a project's stock movements with the running balance
+ */
+export async function getStockLedger(
+  projectId: string,
+  params: StockLedgerParams = {}
+): Promise<StockLedgerEntry[]> {
+  const response: AxiosResponse<ApiSuccessResponse<StockLedgerEntry[]>> = await api.get(
+    `/stock/project/${projectId}/ledger`,
+    { params }
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch the bills and goods received not yet taken into stock
+ */
+export async function getStockSources(projectId: string): Promise<StockSources> {
+  const response: AxiosResponse<ApiSuccessResponse<StockSources>> = await api.get(
+    `/stock/project/${projectId}/sources`
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch consumed quantity of each material against the BOQ, optionally for one stage
+ */
+export async function getStockVariance(
+  projectId: string,
+  stageId?: string
+): Promise<MaterialVariance[]> {
+  const response: AxiosResponse<ApiSuccessResponse<MaterialVariance[]>> = await api.get(
+    `/stock/project/${projectId}/variance`,
+    { params: { stageId } }
+  );
+  return response.data.data;
+}
+
+/**
+ * Take material into stock from a bill or a goods received note line
+ */
+export async function receiveStock(data: StockReceiptInput): Promise<StockMovement> {
+  const response: AxiosResponse<ApiSuccessResponse<StockMovement>> = await api.post(
+    '/stock/receipts',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Issue material to a stage or task
+ */
+export async function issueStock(data: StockIssueInput): Promise<StockMovement> {
+  const response: AxiosResponse<ApiSuccessResponse<StockMovement>> = await api.post(
+    '/stock/issues',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Move material to another project site
+ */
+export async function transferStock(
+  data: StockTransferInput
+): Promise<{ transferOut: StockMovement; transferIn: StockMovement }> {
+  const response: AxiosResponse<
+    ApiSuccessResponse<{ transferOut: StockMovement; transferIn: StockMovement }>
+  > = await api.post('/stock/transfers', data);
+  return response.data.data;
+}
+
+/**
+ * Correct stock to a physical count
+ */
+export async function adjustStock(data: StockAdjustmentInput): Promise<StockMovement> {
+  const response: AxiosResponse<ApiSuccessResponse<StockMovement>> = await api.post(
+    '/stock/adjustments',
+    data
+  );
+  return response.data.data;
+}
@@ -0,0 +1,248 @@
+/**
+ * Subcontracts API Module
+ *
+ * Work orders agreed with subcontractors at a rate for each BOQ item, the
+ * running-account (RA) bills raised against them from measured work, and the
+ * retention held on those bills until the project closes.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+import type { ExpenseStatus } from './expenses';
+import type { MemberName } from './purchase-orders';
+
+// ============================================
+// Types
+// ============================================
+
+export type RABillStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface WorkOrderLine {
+  id: string;
+  sortOrder: number;
+  boqItemId: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  boqItem: {
+    id: string;
+    code: string | null;
+    description: string;
+    unit: string;
+    stageId: string | null;
+  };
+  // Measured and paid for on approved bills
+  measuredQuantity: number;
+}
+
+export interface RABillSummary {
+  id: string;
+  billNumber: number;
+  billDate: string;
+  status: RABillStatus;
+  grossAmount: number;
+  retentionAmount: number;
+  advanceRecovery: number;
+  materialDeduction: number;
+  netAmount: number;
+}
+
+export interface WorkOrder {
+  id: string;
+  projectId: string;
+  subcontractorId: string;
+  subWorkTypeItemId: string | null;
+  orderNumber: string;
+  orderDate: string;
+  retentionPercent: number;
+  advanceRecoveryPercent: number;
+  totalAmount: number;
+  notes: string | null;
+  retentionReleasedAt: string | null;
+  createdAt: string;
+  subcontractor: { id: string; name: string; phone: string | null };
+  subWorkType: { id: string; name: string } | null;
+  project: { id: string; name: string; status: string };
+  createdBy: MemberName | null;
+  lines: WorkOrderLine[];
+  bills: RABillSummary[];
+  // Totals of approved bills
+  billedAmount: number;
+  retentionHeld: number;
+  advanceRecovered: number;
+  materialDeducted: number;
+  netPaid: number;
+}
+
+export interface RABill extends RABillSummary {
+  workOrderId: string;
+  notes: string | null;
+  rejectionReason: string | null;
+  approvedAt: string | null;
+  createdAt: string;
+  workOrder: {
+    id: string;
+    orderNumber: string;
+    projectId: string;
+    subcontractorId: string;
+    retentionPercent: number;
+    advanceRecoveryPercent: number;
+    subcontractor: { id: string; name: string };
+  };
+  createdBy: MemberName | null;
+  approvedBy: MemberName | null;
+  lines: Array<{
+    id: string;
+    workOrderLineId: string;
+    cumulativeQuantity: number;
+    previousQuantity: number;
+    quantity: number;
+    rate: number;
+    amount: number;
+    workOrderLine: {
+      id: string;
+      quantity: number;
+      boqItem: { id: string; code: string | null; description: string; unit: string };
+    };
+  }>;
+  // Material issued to the work order that this bill deducts
+  materialIssues: Array<{
+    id: string;
+    unit: string;
+    quantity: number;
+    recoveryRate: number | null;
+    movementDate: string;
+    materialType: { id: string; name: string };
+  }>;
+  // The Sub Work expense an approved bill was posted as
+  expenses: Array<{
+    id: string;
+    description: string | null;
+    rate: number;
+    quantity: number;
+    status: ExpenseStatus;
+    approvalLevel: number;
+    rejectionReason: string | null;
+  }>;
+}
+
+export interface WorkOrderLineInput {
+  boqItemId: string;
+  quantity: number;
+  rate: number;
+}
+
+export interface CreateWorkOrderInput {
+  projectId: string;
+  subcontractorId: string;
+  subWorkTypeItemId?: string | null;
+  orderDate: string;
+  retentionPercent: number;
+  advanceRecoveryPercent: number;
+  notes?: string | null;
+  lines: WorkOrderLineInput[];
+}
+
+export type UpdateWorkOrderInput = Partial<
+  Omit<CreateWorkOrderInput, 'projectId' | 'subcontractorId'>
+>;
+
+export interface CreateRABillInput {
+  billDate: string;
+  notes?: string | null;
+  // Quantity measured to date on each line, including what earlier bills paid for
+  lines: Array<{ workOrderLineId: string; cumulativeQuantity: number }>;
+}
+
+// ============================================
+// Work Orders API
+// ============================================
+
+/**
+ * Fetch a project's work orders with what has been billed against each
+ */
+export async function getProjectWorkOrders(projectId: string): Promise<WorkOrder[]> {
+  const response: AxiosResponse<ApiSuccessResponse<WorkOrder[]>> = await api.get(
+    `/subcontracts/work-orders/project/${projectId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Agree a work order with a subcontractor
+ */
+export async function createWorkOrder(data: CreateWorkOrderInput): Promise<WorkOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<WorkOrder>> = await api.post(
+    '/subcontracts/work-orders',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Edit a work order nothing has been billed against
+ */
+export async function updateWorkOrder(id: string, data: UpdateWorkOrderInput): Promise<WorkOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<WorkOrder>> = await api.put(
+    `/subcontracts/work-orders/${id}`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Pay the retention held on a work order once its project is completed
+ */
+export async function releaseRetention(id: string): Promise<WorkOrder> {
+  const response: AxiosResponse<ApiSuccessResponse<WorkOrder>> = await api.post(
+    `/subcontracts/work-orders/${id}/release-retention`
+  );
+  return response.data.data;
+}
+
+// ============================================
+// RA Bills API
+// ============================================
+
+/**
+ * Fetch an RA bill with its measurements and deductions
+ */
+export async function getRABill(id: string): Promise<RABill> {
+  const response: AxiosResponse<ApiSuccessResponse<RABill>> = await api.get(
+    `/subcontracts/ra-bills/${id}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Raise an RA bill against a work order from measured work
+ */
+export async function createRABill(workOrderId: string, data: CreateRABillInput): Promise<RABill> {
+  const response: AxiosResponse<ApiSuccessResponse<RABill>> = await api.post(
+    `/subcontracts/work-orders/${workOrderId}/ra-bills`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Approve an RA bill; it is posted as a Sub Work expense of the subcontractor
+ */
+export async function approveRABill(id: string): Promise<RABill> {
+  const response: AxiosResponse<ApiSuccessResponse<RABill>> = await api.post(
+    `/subcontracts/ra-bills/${id}/approve`
+  );
+  return response.data.data;
+}
+
+/**
+ * Send an RA bill back with a reason
+ */
+export async function rejectRABill(id: string, reason: string): Promise<RABill> {
+  const response: AxiosResponse<ApiSuccessResponse<RABill>> = await api.post(
+    `/subcontracts/ra-bills/${id}/reject`,
+    { reason }
+  );
+  return response.data.data;
+}
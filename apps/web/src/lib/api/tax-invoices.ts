@@ -0,0 +1,239 @@
+/**
+ * Tax Invoices API Module
+ *
+ * GST tax invoices raised to a project's client, billed from BOQ quantities,
+ * stage milestones or hand-entered lines, and the organization's GST details
+ * printed on them.
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { ApiSuccessResponse } from './types';
+import type { StageStatus } from './stages';
+
+// ============================================
+// Types
+// ============================================
+
+export type TaxInvoiceStatus = 'ISSUED' | 'CANCELLED';
+export type TaxInvoiceLineSource = 'BOQ_ITEM' | 'STAGE' | 'MANUAL';
+export type InvoicePaymentStatus = 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'CANCELLED';
+
+export interface InvoiceSettings {
+  name: string;
+  gstin: string | null;
+  stateCode: string | null;
+  billingAddress: string | null;
+  invoicePrefix: string;
+}
+
+export type UpdateInvoiceSettingsInput = Partial<Omit<InvoiceSettings, 'name'>>;
+
+export interface TaxInvoiceLine {
+  id: string;
+  sortOrder: number;
+  source: TaxInvoiceLineSource;
+  boqItemId: string | null;
+  stageId: string | null;
+  description: string;
+  hsnSac: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  taxableAmount: number;
+  gstRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+}
+
+export interface TaxInvoice {
+  id: string;
+  projectId: string;
+  clientId: string;
+  invoiceNumber: string;
+  financialYear: string;
+  invoiceDate: string;
+  dueDate: string | null;
+  supplierGstin: string | null;
+  supplierStateCode: string;
+  recipientGstin: string | null;
+  placeOfSupply: string;
+  isInterState: boolean;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+  status: TaxInvoiceStatus;
+  cancellationReason: string | null;
+  cancelledAt: string | null;
+  notes: string | null;
+  createdAt: string;
+  client: { id: string; name: string };
+  allocations: Array<{ paymentId: string; amount: number }>;
+  // What receipts cover and what is still owed; cancelled invoices are owed nothing
+  received: number;
+  outstanding: number;
+  paymentStatus: InvoicePaymentStatus;
+  // Included when fetching a single invoice
+  lines?: TaxInvoiceLine[];
+}
+
+export interface ProjectInvoices {
+  invoices: TaxInvoice[];
+  summary: {
+    invoicedAmount: number;
+    taxAmount: number;
+    receivedAmount: number;
+    outstandingAmount: number;
+  };
+}
+
+export interface BillableBoqItem {
+  id: string;
+  code: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  rate: number;
+  section: string | null;
+  billedQuantity: number;
+  remainingQuantity: number;
+}
+
+export interface BillableStage {
+  id: string;
+  name: string;
+  status: StageStatus;
+  endDate: string;
+  // What the installments linked to the stage bill
+  milestoneAmount: number;
+  billedOn: { id: string; invoiceNumber: string } | null;
+}
+
+export interface BillableWork {
+  client: {
+    id: string;
+    name: string;
+    location: string;
+    gstin: string | null;
+    stateCode: string | null;
+  } | null;
+  boqItems: BillableBoqItem[];
+  stages: BillableStage[];
+}
+
+export interface TaxInvoiceLineInput {
+  source: TaxInvoiceLineSource;
+  boqItemId?: string;
+  stageId?: string;
+  description?: string;
+  hsnSac: string;
+  unit?: string;
+  quantity?: number;
+  rate?: number;
+  gstRate: number;
+}
+
+export interface CreateTaxInvoiceInput {
+  projectId: string;
+  invoiceDate: string;
+  dueDate?: string | null;
+  placeOfSupply?: string;
+  notes?: string | null;
+  lines: TaxInvoiceLineInput[];
+}
+
+export interface TaxInvoiceFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// ============================================
+// Settings API
+// ============================================
+
+/**
+ * Fetch the GST details printed on the organization's invoices
+ */
+export async function getInvoiceSettings(): Promise<InvoiceSettings> {
+  const response: AxiosResponse<ApiSuccessResponse<InvoiceSettings>> =
+    await api.get('/tax-invoices/settings');
+  return response.data.data;
+}
+
+/**
+ * Update the organization's GST details and invoice number prefix
+ */
+export async function updateInvoiceSettings(
+  data: UpdateInvoiceSettingsInput
+): Promise<InvoiceSettings> {
+  const response: AxiosResponse<ApiSuccessResponse<InvoiceSettings>> = await api.put(
+    '/tax-invoices/settings',
+    data
+  );
+  return response.data.data;
+}
+
+// ============================================
+// Tax Invoices API
+// ============================================
+
+/**
+ * Fetch a project's invoices with what the client has paid on each
+ */
+export async function getProjectInvoices(projectId: string): Promise<ProjectInvoices> {
+  const response: AxiosResponse<ApiSuccessResponse<ProjectInvoices>> = await api.get(
+    `/tax-invoices/project/${projectId}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch the BOQ items and stages of a project that are left to bill
+ */
+export async function getBillableWork(projectId: string): Promise<BillableWork> {
+  const response: AxiosResponse<ApiSuccessResponse<BillableWork>> = await api.get(
+    `/tax-invoices/project/${projectId}/billable`
+  );
+  return response.data.data;
+}
+
+/**
+ * Raise an invoice to the project's client
+ */
+export async function createTaxInvoice(data: CreateTaxInvoiceInput): Promise<TaxInvoice> {
+  const response: AxiosResponse<ApiSuccessResponse<TaxInvoice>> = await api.post(
+    '/tax-invoices',
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Cancel an invoice; its number is not reused
+ */
+export async function cancelTaxInvoice(id: string, reason: string): Promise<TaxInvoice> {
+  const response: AxiosResponse<ApiSuccessResponse<TaxInvoice>> = await api.post(
+    `/tax-invoices/${id}/cancel`,
+    { reason }
+  );
+  return response.data.data;
+}
+
+/**
+ * Download an invoice as PDF
+ */
+export async function downloadTaxInvoice(id: string): Promise<TaxInvoiceFile> {
+  const response: AxiosResponse<Blob> = await api.get(`/tax-invoices/${id}`, {
+    params: { format: 'pdf' },
+    responseType: 'blob',
+  });
+
+  const disposition = String(response.headers['content-disposition'] ?? '');
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'invoice.pdf';
+
+  return { blob: response.data, fileName };
+}
@@ -3,6 +3,7 @@
  *
  * Provides functions for interacting with the team endpoints.
  * Team members are users within an organization with assigned roles.
+ * New members join by accepting an invitation (see ./invitations).
  */
 
 import { api } from './client';
@@ -23,6 +24,8 @@ export interface TeamMemberMembership {
   id: string;
   roleId: string;
   role: TeamMemberRole;
+  // Client party a CLIENT-role member represents in the client portal
+  party: { id: string; name: string } | null;
 }
 
 export interface TeamMember {
@@ -35,20 +38,13 @@ export interface TeamMember {
   membership: TeamMemberMembership;
 }
 
-export interface CreateTeamMemberInput {
-  name: string;
-  phone?: string;
-  email?: string;
-  location?: string;
-  roleId: string;
-}
-
 export interface UpdateTeamMemberInput {
   name?: string;
   phone?: string | null;
   email?: string | null;
   location?: string | null;
   roleId?: string;
+  partyId?: string | null;
 }
 
 export interface TeamMemberQueryParams {
@@ -83,14 +79,6 @@ export async function getTeamMember(id: string): Promise<TeamMember> {
   return response.data.data;
 }
 
-/**
- * Create a new team member
- */
-export async function createTeamMember(data: CreateTeamMemberInput): Promise<TeamMember> {
-  const response: AxiosResponse<ApiSuccessResponse<TeamMember>> = await api.post('/team', data);
-  return response.data.data;
-}
-
 /**
  * Update an existing team member
  */
@@ -0,0 +1,66 @@
+/**
+ * Trash API Module
+ *
+ * Deleted projects, parties, expenses and payments: list, restore, and purge (admins).
+ */
+
+import { api } from './client';
+import type { AxiosResponse } from 'axios';
+import type { PaginationMeta, ApiPaginatedResponse } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type TrashEntityType = 'PROJECT' | 'PARTY' | 'EXPENSE' | 'PAYMENT';
+
+export interface TrashItem {
+  id: string;
+  entityType: TrashEntityType;
+  name: string;
+  projectName: string | null;
+  amount: number | null;
+  deletedAt: string;
+  deletedBy: { id: string; user: { id: string; name: string } } | null;
+  // Earliest date an admin can permanently delete the item
+  purgeableAt: string;
+}
+
+export interface TrashQueryParams {
+  page?: number;
+  limit?: number;
+  entityType?: TrashEntityType;
+}
+
+export interface TrashResponse {
+  items: TrashItem[];
+  pagination: PaginationMeta;
+}
+
+// ============================================
+// Trash API
+// ============================================
+
+/**
+ * Fetch deleted items, most recently deleted first
+ */
+export async function getTrash(params?: TrashQueryParams): Promise<TrashResponse> {
+  const response: AxiosResponse<ApiPaginatedResponse<TrashItem>> = await api.get('/trash', {
+    params,
+  });
+  return response.data.data;
+}
+
+/**
+ * Restore a deleted item
+ */
+export async function restoreTrashItem(entityType: TrashEntityType, id: string): Promise<void> {
+  await api.post(`/trash/${entityType}/${id}/restore`);
+}
+
+/**
+ * Permanently delete an item (admins only, after the retention window)
+ */
+export async function purgeTrashItem(entityType: TrashEntityType, id: string): Promise<void> {
+  await api.delete(`/trash/${entityType}/${id}`);
+}
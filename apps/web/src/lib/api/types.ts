@@ -41,13 +41,14 @@ export interface ApiErrorResponse {
   error: {
     message: string;
     code: string;
+    details?: unknown;
   };
 }
 
 export type ApiResponse<T> = {
   success: boolean;
   data?: T;
-  error?: { message: string; code: string };
+  error?: { message: string; code: string; details?: unknown };
 };
 
 // ============================================
@@ -0,0 +1,160 @@
+/**
+ * Advance Claims React Query Hooks
+ *
+ * Provides hooks for expenses members pay from their advance, and their settlement.
+ * Claims change a member's cash in hand, so mutations also refresh member advance data.
+ */
+
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  getAdvanceClaims,
+  getAdvanceClaim,
+  createAdvanceClaim,
+  updateAdvanceClaim,
+  deleteAdvanceClaim,
+  settleAdvanceClaim,
+  rejectAdvanceClaim,
+  uploadClaimAttachment,
+  deleteClaimAttachment,
+  type AdvanceClaim,
+  type AdvanceClaimsResponse,
+  type AdvanceClaimQueryParams,
+  type CreateAdvanceClaimInput,
+  type UpdateAdvanceClaimInput,
+  type SettleAdvanceClaimInput,
+} from '../api/advance-claims';
+import { memberAdvanceKeys } from './useMemberAdvances';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const advanceClaimKeys = {
+  all: ['advance-claims'] as const,
+  lists: () => [...advanceClaimKeys.all, 'list'] as const,
+  list: (params?: AdvanceClaimQueryParams) => [...advanceClaimKeys.lists(), params] as const,
+  details: () => [...advanceClaimKeys.all, 'detail'] as const,
+  detail: (id: string) => [...advanceClaimKeys.details(), id] as const,
+};
+
+function invalidateClaims(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: advanceClaimKeys.all });
+  queryClient.invalidateQueries({ queryKey: memberAdvanceKeys.all });
+}
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch paginated list of claims with optional filters
+ */
+export function useAdvanceClaims(params?: AdvanceClaimQueryParams) {
+  return useQuery<AdvanceClaimsResponse, Error>({
+    queryKey: advanceClaimKeys.list(params),
+    queryFn: () => getAdvanceClaims(params),
+  });
+}
+
+/**
+ * Hook to fetch a single claim by ID
+ */
+export function useAdvanceClaim(id: string) {
+  return useQuery<AdvanceClaim, Error>({
+    queryKey: advanceClaimKeys.detail(id),
+    queryFn: () => getAdvanceClaim(id),
+    enabled: !!id,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to log an expense paid from an advance
+ */
+export function useCreateAdvanceClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateAdvanceClaimInput) => createAdvanceClaim(data),
+    onSuccess: () => invalidateClaims(queryClient),
+  });
+}
+
+/**
+ * Hook to update a pending claim
+ */
+export function useUpdateAdvanceClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateAdvanceClaimInput }) =>
+      updateAdvanceClaim(id, data),
+    onSuccess: () => invalidateClaims(queryClient),
+  });
+}
+
+/**
+ * Hook to delete a claim that is not settled
+ */
+export function useDeleteAdvanceClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteAdvanceClaim(id),
+    onSuccess: () => invalidateClaims(queryClient),
+  });
+}
+
+/**
+ * Hook to settle a claim against the member's cash in hand
+ */
+export function useSettleAdvanceClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SettleAdvanceClaimInput }) =>
+      settleAdvanceClaim(id, data),
+    onSuccess: () => invalidateClaims(queryClient),
+  });
+}
+
+/**
+ * Hook to reject a claim
+ */
+export function useRejectAdvanceClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => rejectAdvanceClaim(id, reason),
+    onSuccess: () => invalidateClaims(queryClient),
+  });
+}
+
+/**
+ * Hook to attach a bill to a claim
+ */
+export function useUploadClaimAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ claimId, file }: { claimId: string; file: File }) =>
+      uploadClaimAttachment(claimId, file),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: advanceClaimKeys.all }),
+  });
+}
+
+/**
+ * Hook to remove a bill from a claim
+ */
+export function useDeleteClaimAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ claimId, attachmentId }: { claimId: string; attachmentId: string }) =>
+      deleteClaimAttachment(claimId, attachmentId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: advanceClaimKeys.all }),
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Approvals React Query Hooks
+ *
+ * Provides hooks for the approver inbox and expense approval rules.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getApprovalInbox,
+  getApprovalRules,
+  createApprovalRule,
+  updateApprovalRule,
+  deleteApprovalRule,
+  type InboxQueryParams,
+  type InboxResponse,
+  type ApprovalRule,
+  type ApprovalRuleInput,
+} from '../api/approvals';
+import { expenseKeys } from './useExpenses';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const approvalKeys = {
+  inbox: (params?: InboxQueryParams) => [...expenseKeys.inbox(), params] as const,
+  rules: () => ['approval-rules'] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch pending expenses waiting on the current member
+ */
+export function useApprovalInbox(params?: InboxQueryParams) {
+  return useQuery<InboxResponse, Error>({
+    queryKey: approvalKeys.inbox(params),
+    queryFn: () => getApprovalInbox(params),
+  });
+}
+
+/**
+ * Hook to fetch every approval rule of the organization
+ */
+export function useApprovalRules() {
+  return useQuery<ApprovalRule[], Error>({
+    queryKey: approvalKeys.rules(),
+    queryFn: () => getApprovalRules(),
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to create an approval rule
+ */
+export function useCreateApprovalRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ApprovalRuleInput) => createApprovalRule(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.rules() });
+    },
+  });
+}
+
+/**
+ * Hook to replace an approval rule
+ */
+export function useUpdateApprovalRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ApprovalRuleInput }) =>
+      updateApprovalRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.rules() });
+    },
+  });
+}
+
+/**
+ * Hook to delete an approval rule
+ */
+export function useDeleteApprovalRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteApprovalRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.rules() });
+    },
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Audit React Query Hooks
+ *
+ * Provides hooks for reading the audit trail using TanStack Query.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import {
+  getAuditLogs,
+  type AuditEntityType,
+  type AuditLogsResponse,
+  type AuditQueryParams,
+} from '../api/audit';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const auditKeys = {
+  all: ['audit'] as const,
+  lists: () => [...auditKeys.all, 'list'] as const,
+  list: (params?: AuditQueryParams) => [...auditKeys.lists(), params] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch audit entries with optional filters
+ */
+export function useAuditLogs(params?: AuditQueryParams, enabled = true) {
+  return useQuery<AuditLogsResponse, Error>({
+    queryKey: auditKeys.list(params),
+    queryFn: () => getAuditLogs(params),
+    enabled,
+  });
+}
+
+/**
+ * Hook to fetch the change history of one record
+ */
+export function useEntityHistory(entityType: AuditEntityType, entityId: string | null) {
+  return useAuditLogs({ entityType, entityId: entityId ?? undefined, limit: 100 }, !!entityId);
+}
@@ -43,6 +43,7 @@ export const boqKeys = {
   stats: (projectId: string) => [...boqKeys.all, 'stats', projectId] as const,
   detail: (projectId: string, id: string) => [...boqKeys.all, 'detail', projectId, id] as const,
   sections: (projectId: string) => [...boqKeys.all, 'sections', projectId] as const,
+  versions: () => [...boqKeys.all, 'versions'] as const,
 };
 
 // ============================================
@@ -204,7 +205,10 @@ export function useConfirmBOQImport(projectId: string) {
 
   return useMutation({
     mutationFn: (data: ConfirmImportInput) => confirmBOQImport(projectId, data),
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result.version) {
+        queryClient.invalidateQueries({ queryKey: boqKeys.versions() });
+      }
       queryClient.invalidateQueries({ queryKey: boqKeys.lists() });
       queryClient.invalidateQueries({ queryKey: boqKeys.byCategory(projectId) });
       queryClient.invalidateQueries({ queryKey: boqKeys.byStage(projectId) });
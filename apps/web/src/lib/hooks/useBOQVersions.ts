@@ -0,0 +1,120 @@
+/**
+ * BOQ Versions React Query Hooks
+ *
+ * Provides hooks for saving BOQ versions, choosing the baseline and comparing
+ * versions with each other or with the live BOQ.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getBOQVersions,
+  getBOQVersion,
+  createBOQVersion,
+  setBOQBaseline,
+  deleteBOQVersion,
+  compareBOQVersions,
+  type BOQVersion,
+  type BOQVersionWithItems,
+  type BOQComparison,
+  type BOQComparisonParams,
+  type CreateBOQVersionInput,
+} from '../api/boq-versions';
+import { boqKeys } from './useBOQ';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const boqVersionKeys = {
+  all: boqKeys.versions(),
+  list: (projectId: string) => [...boqVersionKeys.all, 'list', projectId] as const,
+  detail: (projectId: string, versionId: string) =>
+    [...boqVersionKeys.all, 'detail', projectId, versionId] as const,
+  compare: (projectId: string, params: BOQComparisonParams) =>
+    [...boqVersionKeys.all, 'compare', projectId, params] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch a project's BOQ versions
+ */
+export function useBOQVersions(projectId: string) {
+  return useQuery<BOQVersion[], Error>({
+    queryKey: boqVersionKeys.list(projectId),
+    queryFn: () => getBOQVersions(projectId),
+    enabled: !!projectId,
+  });
+}
+
+/**
+ * Hook to fetch a version with its items
+ */
+export function useBOQVersion(projectId: string, versionId: string | null) {
+  return useQuery<BOQVersionWithItems, Error>({
+    queryKey: boqVersionKeys.detail(projectId, versionId ?? ''),
+    queryFn: () => getBOQVersion(projectId, versionId!),
+    enabled: !!projectId && !!versionId,
+  });
+}
+
+/**
+ * Hook to compare two versions, or a version with the live BOQ
+ */
+export function useBOQComparison(projectId: string, params: BOQComparisonParams, enabled = true) {
+  return useQuery<BOQComparison, Error>({
+    queryKey: boqVersionKeys.compare(projectId, params),
+    queryFn: () => compareBOQVersions(projectId, params),
+    enabled: !!projectId && enabled,
+    // The live BOQ is edited without touching these keys
+    staleTime: 0,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to save the live BOQ as a version
+ */
+export function useCreateBOQVersion(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateBOQVersionInput) => createBOQVersion(projectId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: boqVersionKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to make a version the baseline
+ */
+export function useSetBOQBaseline(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (versionId: string) => setBOQBaseline(projectId, versionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: boqVersionKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to delete a version
+ */
+export function useDeleteBOQVersion(projectId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (versionId: string) => deleteBOQVersion(projectId, versionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: boqVersionKeys.all });
+    },
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Change Orders React Query Hooks
+ *
+ * Provides hooks for a project's change orders and recording the client's
+ * decision on them.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getProjectChangeOrders,
+  createChangeOrder,
+  updateChangeOrder,
+  submitChangeOrder,
+  approveChangeOrder,
+  rejectChangeOrder,
+  type ProjectChangeOrders,
+  type CreateChangeOrderInput,
+  type UpdateChangeOrderInput,
+  type ClientDecisionInput,
+} from '../api/change-orders';
+import { boqKeys } from './useBOQ';
+import { paymentKeys } from './usePayments';
+
+// ============================================
+// Query Keys
+// ============================================
+
+// Nested under the BOQ so that edits to revised items refresh the comparison
+export const changeOrderKeys = {
+  all: [...boqKeys.all, 'change-orders'] as const,
+  project: (projectId: string) => [...changeOrderKeys.all, 'project', projectId] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch a project's change orders and revised contract value
+ */
+export function useChangeOrders(projectId: string) {
+  return useQuery<ProjectChangeOrders, Error>({
+    queryKey: changeOrderKeys.project(projectId),
+    queryFn: () => getProjectChangeOrders(projectId),
+    enabled: !!projectId,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to draft a change order
+ */
+export function useCreateChangeOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateChangeOrderInput) => createChangeOrder(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: changeOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to edit a draft change order
+ */
+export function useUpdateChangeOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateChangeOrderInput }) =>
+      updateChangeOrder(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: changeOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to send a change order to the client
+ */
+export function useSubmitChangeOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => submitChangeOrder(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: changeOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to record client approval; the BOQ and payment schedule are revised
+ */
+export function useApproveChangeOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ClientDecisionInput }) =>
+      approveChangeOrder(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: boqKeys.all });
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to record the client rejecting a change order
+ */
+export function useRejectChangeOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ClientDecisionInput & { reason: string } }) =>
+      rejectChangeOrder(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: changeOrderKeys.all });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * useCountdown Hook
+ *
+ * Returns the whole seconds left until a target time, ticking once a second.
+ * Useful for server-driven waits such as the OTP resend cooldown.
+ */
+
+import { useState, useEffect } from 'react';
+
+function secondsUntil(target: string | null): number {
+  if (!target) return 0;
+  return Math.max(0, Math.ceil((new Date(target).getTime() - Date.now()) / 1000));
+}
+
+export function useCountdown(target: string | null): number {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(target));
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(target));
+    if (!target) return;
+
+    const timer = setInterval(() => {
+      const remaining = secondsUntil(target);
+      setSecondsLeft(remaining);
+      if (remaining === 0) clearInterval(timer);
+    }, 1000);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }, [target]);
+
+  return secondsLeft;
+}
+
+/**
+ * Format seconds as mm:ss
+ */
+export function formatCountdown(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
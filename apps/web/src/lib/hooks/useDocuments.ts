@@ -0,0 +1,87 @@
+/**
+ * Documents React Query Hooks
+ *
+ * Provides hooks for listing, uploading, sharing and deleting project documents.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getDocuments,
+  uploadDocument,
+  shareDocument,
+  deleteDocument,
+  type DocumentQueryParams,
+  type DocumentsResponse,
+} from '../api/documents';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const documentKeys = {
+  all: ['documents'] as const,
+  lists: () => [...documentKeys.all, 'list'] as const,
+  list: (params?: DocumentQueryParams) => [...documentKeys.lists(), params] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch documents, optionally for one project
+ */
+export function useDocuments(params?: DocumentQueryParams) {
+  return useQuery<DocumentsResponse, Error>({
+    queryKey: documentKeys.list(params),
+    queryFn: () => getDocuments(params),
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to upload a document to a project
+ */
+export function useUploadDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ projectId, file }: { projectId: string; file: File }) =>
+      uploadDocument(projectId, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: documentKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to share a document with the project's client, or stop sharing it
+ */
+export function useShareDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, sharedWithClient }: { id: string; sharedWithClient: boolean }) =>
+      shareDocument(id, sharedWithClient),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: documentKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to delete a document
+ */
+export function useDeleteDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteDocument,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: documentKeys.all });
+    },
+  });
+}
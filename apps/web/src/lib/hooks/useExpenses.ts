@@ -12,13 +12,20 @@ import {
   updateExpense,
   deleteExpense,
   getExpensesSummary,
+  getExpenseApprovals,
+  submitExpense,
+  approveExpense,
+  rejectExpense,
+  reopenExpense,
   type Expense,
   type ExpensesResponse,
   type ExpenseSummary,
+  type ExpenseApproval,
   type CreateExpenseInput,
   type UpdateExpenseInput,
   type ExpenseQueryParams,
 } from '../api/expenses';
+import { rateLibraryKeys } from './useRateLibrary';
 
 // ============================================
 // Query Keys
@@ -31,6 +38,8 @@ export const expenseKeys = {
   details: () => [...expenseKeys.all, 'detail'] as const,
   detail: (id: string) => [...expenseKeys.details(), id] as const,
   summary: (projectId?: string) => [...expenseKeys.all, 'summary', projectId] as const,
+  approvals: (id: string) => [...expenseKeys.detail(id), 'approvals'] as const,
+  inbox: () => [...expenseKeys.all, 'inbox'] as const,
 };
 
 // ============================================
@@ -68,6 +77,17 @@ export function useExpensesSummary(projectId?: string) {
   });
 }
 
+/**
+ * Hook to fetch the approval history of an expense
+ */
+export function useExpenseApprovals(id: string | null) {
+  return useQuery<ExpenseApproval[], Error>({
+    queryKey: expenseKeys.approvals(id ?? ''),
+    queryFn: () => getExpenseApprovals(id!),
+    enabled: !!id,
+  });
+}
+
 // ============================================
 // Mutation Hooks
 // ============================================
@@ -83,6 +103,7 @@ export function useCreateExpense() {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: expenseKeys.lists() });
       queryClient.invalidateQueries({ queryKey: expenseKeys.summary(variables.projectId) });
+      queryClient.invalidateQueries({ queryKey: rateLibraryKeys.all });
     },
   });
 }
@@ -99,6 +120,7 @@ export function useUpdateExpense() {
       queryClient.invalidateQueries({ queryKey: expenseKeys.lists() });
       queryClient.invalidateQueries({ queryKey: expenseKeys.detail(id) });
       queryClient.invalidateQueries({ queryKey: expenseKeys.summary() });
+      queryClient.invalidateQueries({ queryKey: rateLibraryKeys.all });
     },
   });
 }
@@ -117,3 +139,68 @@ export function useDeleteExpense() {
     },
   });
 }
+
+// ============================================
+// Approval Workflow Hooks
+// ============================================
+
+/**
+ * Refresh everything an approval decision changes: lists, the expense, and the inbox
+ */
+function useInvalidateApproval() {
+  const queryClient = useQueryClient();
+
+  return (expense: Expense) => {
+    queryClient.invalidateQueries({ queryKey: expenseKeys.lists() });
+    queryClient.invalidateQueries({ queryKey: expenseKeys.detail(expense.id) });
+    queryClient.invalidateQueries({ queryKey: expenseKeys.inbox() });
+  };
+}
+
+/**
+ * Hook to resubmit a rejected expense
+ */
+export function useSubmitExpense() {
+  const invalidate = useInvalidateApproval();
+
+  return useMutation({
+    mutationFn: (id: string) => submitExpense(id),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Hook to approve an expense at its current level
+ */
+export function useApproveExpense() {
+  const invalidate = useInvalidateApproval();
+
+  return useMutation({
+    mutationFn: ({ id, comment }: { id: string; comment?: string }) => approveExpense(id, comment),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Hook to reject an expense with a reason
+ */
+export function useRejectExpense() {
+  const invalidate = useInvalidateApproval();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => rejectExpense(id, reason),
+    onSuccess: invalidate,
+  });
+}
+
+/**
+ * Hook to reopen an approved expense for editing
+ */
+export function useReopenExpense() {
+  const invalidate = useInvalidateApproval();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) => reopenExpense(id, reason),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Installments React Query Hooks
+ *
+ * Provides hooks for a project's client payment schedule.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getPaymentSchedule,
+  createInstallment,
+  updateInstallment,
+  deleteInstallment,
+  type PaymentSchedule,
+  type CreateInstallmentInput,
+  type UpdateInstallmentInput,
+} from '../api/installments';
+import { paymentKeys } from './usePayments';
+
+// ============================================
+// Query Keys
+// ============================================
+
+// Nested under payments so that recording a payment refreshes the schedule it is allocated to
+export const installmentKeys = {
+  schedules: () => [...paymentKeys.all, 'schedule'] as const,
+  schedule: (projectId: string) => [...installmentKeys.schedules(), projectId] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch a project's payment schedule
+ */
+export function usePaymentSchedule(projectId: string) {
+  return useQuery<PaymentSchedule, Error>({
+    queryKey: installmentKeys.schedule(projectId),
+    queryFn: () => getPaymentSchedule(projectId),
+    enabled: !!projectId,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to add an installment
+ */
+export function useCreateInstallment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateInstallmentInput) => createInstallment(data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: installmentKeys.schedule(variables.projectId) });
+    },
+  });
+}
+
+/**
+ * Hook to update an installment
+ */
+export function useUpdateInstallment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateInstallmentInput }) =>
+      updateInstallment(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: installmentKeys.schedules() });
+    },
+  });
+}
+
+/**
+ * Hook to delete an installment
+ */
+export function useDeleteInstallment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteInstallment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: installmentKeys.schedules() });
+    },
+  });
+}
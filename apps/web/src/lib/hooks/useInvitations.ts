@@ -0,0 +1,142 @@
+/**
+ * Invitations React Query Hooks
+ *
+ * Sending, resending and revoking team invitations, and accepting or declining
+ * them as the invitee.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getInvitations,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+  type Invitation,
+  type MyInvitation,
+  type CreateInvitationInput,
+  type InvitationQueryParams,
+} from '../api/invitations';
+import type { PaginatedResult } from '../api/types';
+import { useAuthStore, type UserRole } from '@/stores/auth.store';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const invitationKeys = {
+  all: ['invitations'] as const,
+  lists: () => [...invitationKeys.all, 'list'] as const,
+  list: (params?: InvitationQueryParams) => [...invitationKeys.lists(), params] as const,
+  mine: () => [...invitationKeys.all, 'mine'] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch invitations sent by the organization
+ */
+export function useInvitations(params?: InvitationQueryParams, enabled = true) {
+  return useQuery<PaginatedResult<Invitation>, Error>({
+    queryKey: invitationKeys.list(params),
+    queryFn: () => getInvitations(params),
+    enabled,
+  });
+}
+
+/**
+ * Hook to fetch open invitations for the signed-in user
+ */
+export function useMyInvitations() {
+  return useQuery<MyInvitation[], Error>({
+    queryKey: invitationKeys.mine(),
+    queryFn: getMyInvitations,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to invite someone to the organization
+ */
+export function useCreateInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateInvitationInput) => createInvitation(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to resend an invitation SMS
+ */
+export function useResendInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => resendInvitation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to revoke a pending invitation
+ */
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => revokeInvitation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Hook to accept an invitation.
+ * Makes the joined organization active with the token issued for it.
+ */
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+  const { switchOrganization, updateUser } = useAuthStore();
+
+  return useMutation({
+    mutationFn: (id: string) => acceptInvitation(id),
+    onSuccess: (result) => {
+      updateUser({ name: result.user.name });
+      switchOrganization({
+        organization: result.organization,
+        role: result.role as UserRole,
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+      });
+      queryClient.clear();
+    },
+  });
+}
+
+/**
+ * Hook to decline an invitation
+ */
+export function useDeclineInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => declineInvitation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitationKeys.mine() });
+    },
+  });
+}
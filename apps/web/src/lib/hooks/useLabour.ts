@@ -0,0 +1,150 @@
+/**
+ * Labour React Query Hooks
+ *
+ * Provides hooks for workers and their rate cards, a project's muster roll,
+ * its wage bills and man-days against the BOQ.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getWorkers,
+  createWorker,
+  updateWorker,
+  getAttendance,
+  markAttendance,
+  getWageBills,
+  createWageBill,
+  getManDays,
+  type LabourWorker,
+  type AttendanceDay,
+  type WageBill,
+  type ManDayRow,
+  type WorkerInput,
+  type UpdateWorkerInput,
+  type MarkAttendanceInput,
+  type WageBillInput,
+  type WorkerListParams,
+  type AttendanceParams,
+} from '../api/labour';
+import { expenseKeys } from './useExpenses';
+
+// ============================================
+// Query Keys
+// ============================================
+
+// Nested under expenses so that changes to posted wage expenses refresh their bills
+export const labourKeys = {
+  all: [...expenseKeys.all, 'labour'] as const,
+  workers: (params: WorkerListParams) => [...labourKeys.all, 'workers', params] as const,
+  attendance: (projectId: string, params: AttendanceParams) =>
+    [...labourKeys.all, 'attendance', projectId, params] as const,
+  wageBills: (projectId: string) => [...labourKeys.all, 'wage-bills', projectId] as const,
+  manDays: (projectId: string) => [...labourKeys.all, 'man-days', projectId] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch workers of labour parties
+ */
+export function useLabourWorkers(params: WorkerListParams = {}) {
+  return useQuery<LabourWorker[], Error>({
+    queryKey: labourKeys.workers(params),
+    queryFn: () => getWorkers(params),
+  });
+}
+
+/**
+ * Hook to fetch a project's attendance between two days
+ */
+export function useAttendance(projectId: string, params: AttendanceParams) {
+  return useQuery<AttendanceDay[], Error>({
+    queryKey: labourKeys.attendance(projectId, params),
+    queryFn: () => getAttendance(projectId, params),
+    enabled: !!projectId,
+  });
+}
+
+/**
+ * Hook to fetch a project's wage bills
+ */
+export function useWageBills(projectId: string) {
+  return useQuery<WageBill[], Error>({
+    queryKey: labourKeys.wageBills(projectId),
+    queryFn: () => getWageBills(projectId),
+    enabled: !!projectId,
+  });
+}
+
+/**
+ * Hook to fetch man-days worked on each stage against the BOQ
+ */
+export function useManDays(projectId: string) {
+  return useQuery<ManDayRow[], Error>({
+    queryKey: labourKeys.manDays(projectId),
+    queryFn: () => getManDays(projectId),
+    enabled: !!projectId,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to add a worker to a labour party
+ */
+export function useCreateWorker() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: WorkerInput) => createWorker(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labourKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to change a worker or their rate card
+ */
+export function useUpdateWorker() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateWorkerInput }) => updateWorker(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labourKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to mark a day's attendance at a project
+ */
+export function useMarkAttendance() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: MarkAttendanceInput) => markAttendance(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: labourKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to pay a week of attendance; the bill posts labour expenses
+ */
+export function useCreateWageBill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: WageBillInput) => createWageBill(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+}
@@ -12,6 +12,8 @@ import {
   updateMemberAdvance,
   deleteMemberAdvance,
   getMemberAdvanceSummary,
+  getMemberCashStatement,
+  getMemberSettlements,
   getProjectMemberAdvanceSummaries,
   getProjectMembers,
   getMemberBalancesAcrossProjects,
@@ -20,6 +22,8 @@ import {
   type MemberAdvance,
   type MemberAdvancesResponse,
   type MemberAdvanceSummary,
+  type CashStatementEntry,
+  type MemberSettlement,
   type ProjectMember,
   type MemberProjectBalance,
   type CreateMemberAdvanceInput,
@@ -39,6 +43,10 @@ export const memberAdvanceKeys = {
   detail: (id: string) => [...memberAdvanceKeys.details(), id] as const,
   memberSummary: (projectId: string, memberId: string) =>
     [...memberAdvanceKeys.all, 'member-summary', projectId, memberId] as const,
+  memberStatement: (projectId: string, memberId: string) =>
+    [...memberAdvanceKeys.all, 'member-statement', projectId, memberId] as const,
+  memberSettlements: (projectId: string, memberId: string) =>
+    [...memberAdvanceKeys.all, 'member-settlements', projectId, memberId] as const,
   projectSummaries: (projectId: string) =>
     [...memberAdvanceKeys.all, 'project-summaries', projectId] as const,
   projectMembers: (projectId: string) =>
@@ -87,6 +95,28 @@ export function useMemberAdvanceSummary(projectId: string, memberId: string) {
   });
 }
 
+/**
+ * Hook to fetch a member's running cash-in-hand statement for a project
+ */
+export function useMemberCashStatement(projectId: string, memberId: string) {
+  return useQuery<CashStatementEntry[], Error>({
+    queryKey: memberAdvanceKeys.memberStatement(projectId, memberId),
+    queryFn: () => getMemberCashStatement(projectId, memberId),
+    enabled: !!projectId && !!memberId,
+  });
+}
+
+/**
+ * Hook to fetch a member's settlement history for a project
+ */
+export function useMemberSettlements(projectId: string, memberId: string) {
+  return useQuery<MemberSettlement[], Error>({
+    queryKey: memberAdvanceKeys.memberSettlements(projectId, memberId),
+    queryFn: () => getMemberSettlements(projectId, memberId),
+    enabled: !!projectId && !!memberId,
+  });
+}
+
 /**
  * Hook to fetch all members' advance summaries for a project
  */
@@ -2,9 +2,15 @@
  * Organizations React Query Hooks
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { getOrganizationMembers, type OrganizationMember } from '../api/organizations';
-import { useAuthStore } from '@/stores/auth.store';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getOrganizationMembers,
+  getMyOrganizations,
+  switchOrganization,
+  type OrganizationMember,
+  type UserOrganization,
+} from '../api/organizations';
+import { useAuthStore, type UserRole } from '@/stores/auth.store';
 
 // ============================================
 // Query Keys
@@ -13,6 +19,7 @@ import { useAuthStore } from '@/stores/auth.store';
 export const organizationKeys = {
   all: ['organizations'] as const,
   members: (orgId: string) => [...organizationKeys.all, 'members', orgId] as const,
+  mine: () => [...organizationKeys.all, 'mine'] as const,
 };
 
 // ============================================
@@ -32,3 +39,39 @@ export function useOrganizationMembers() {
     enabled: !!orgId,
   });
 }
+
+/**
+ * Hook to fetch organizations the current user belongs to
+ */
+export function useMyOrganizations() {
+  return useQuery<UserOrganization[], Error>({
+    queryKey: organizationKeys.mine(),
+    queryFn: getMyOrganizations,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to switch the active organization.
+ * Stores the re-issued token and drops all cached data from the previous organization.
+ */
+export function useSwitchOrganization() {
+  const queryClient = useQueryClient();
+  const { switchOrganization: setActiveOrganization } = useAuthStore();
+
+  return useMutation({
+    mutationFn: (organizationId: string) => switchOrganization(organizationId),
+    onSuccess: (result) => {
+      setActiveOrganization({
+        organization: result.organization,
+        role: result.role as UserRole,
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+      });
+      queryClient.clear();
+    },
+  });
+}
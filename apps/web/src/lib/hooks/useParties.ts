@@ -12,6 +12,7 @@ import {
   getPartiesSummary,
   getPartyProjects,
   getPartyTransactions,
+  getPartyStatement,
   createParty,
   updateParty,
   deleteParty,
@@ -21,6 +22,8 @@ import {
   type PartyProjectsResponse,
   type PartyTransaction,
   type PartyTransactionsParams,
+  type PartyStatement,
+  type PartyStatementParams,
   type CreatePartyInput,
   type UpdatePartyInput,
   type PartyQueryParams,
@@ -42,6 +45,8 @@ export const partyKeys = {
   projects: (id: string) => [...partyKeys.all, 'projects', id] as const,
   transactions: (id: string, params?: PartyTransactionsParams) =>
     [...partyKeys.all, 'transactions', id, params] as const,
+  statement: (id: string, params?: PartyStatementParams) =>
+    [...partyKeys.all, 'statement', id, params] as const,
 };
 
 // ============================================
@@ -112,6 +117,17 @@ export function usePartyTransactions(partyId: string, params?: PartyTransactions
   });
 }
 
+/**
+ * Hook to fetch a party's ledger statement for a period
+ */
+export function usePartyStatement(partyId: string, params?: PartyStatementParams) {
+  return useQuery<PartyStatement, Error>({
+    queryKey: partyKeys.statement(partyId, params),
+    queryFn: () => getPartyStatement(partyId, params),
+    enabled: !!partyId,
+  });
+}
+
 // ============================================
 // Mutation Hooks
 // ============================================
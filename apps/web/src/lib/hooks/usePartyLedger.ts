@@ -0,0 +1,142 @@
+/**
+ * Party Ledger React Query Hooks
+ *
+ * Provides hooks for advances, credit notes, refunds and write-offs on a party's account.
+ */
+
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  getPartyLedgerEntries,
+  getPartyLedgerEntry,
+  createPartyLedgerEntry,
+  updatePartyLedgerEntry,
+  deletePartyLedgerEntry,
+  uploadLedgerAttachment,
+  deleteLedgerAttachment,
+  type PartyLedgerEntry,
+  type PartyLedgerQueryParams,
+  type CreatePartyLedgerEntryInput,
+  type UpdatePartyLedgerEntryInput,
+} from '../api/party-ledger';
+import type { PaginatedResult } from '../api/types';
+import { partyKeys } from './useParties';
+import { paymentKeys } from './usePayments';
+import { projectKeys } from './useProjects';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const partyLedgerKeys = {
+  all: ['party-ledger'] as const,
+  lists: () => [...partyLedgerKeys.all, 'list'] as const,
+  list: (params?: PartyLedgerQueryParams) => [...partyLedgerKeys.lists(), params] as const,
+  detail: (id: string) => [...partyLedgerKeys.all, 'detail', id] as const,
+};
+
+/**
+ * Ledger entries change party balances and transactions, what is on account with the
+ * party in a project, and the project's stats
+ */
+function invalidateLedger(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: partyLedgerKeys.all });
+  queryClient.invalidateQueries({ queryKey: partyKeys.all });
+  queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+  queryClient.invalidateQueries({ queryKey: projectKeys.all });
+}
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch ledger entries, e.g. for a party or a project
+ */
+export function usePartyLedgerEntries(params?: PartyLedgerQueryParams) {
+  return useQuery<PaginatedResult<PartyLedgerEntry>, Error>({
+    queryKey: partyLedgerKeys.list(params),
+    queryFn: () => getPartyLedgerEntries(params),
+  });
+}
+
+/**
+ * Hook to fetch a single ledger entry with its attachments
+ */
+export function usePartyLedgerEntry(id: string) {
+  return useQuery<PartyLedgerEntry, Error>({
+    queryKey: partyLedgerKeys.detail(id),
+    queryFn: () => getPartyLedgerEntry(id),
+    enabled: !!id,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to record an advance, credit note, refund or write-off
+ */
+export function useCreatePartyLedgerEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreatePartyLedgerEntryInput) => createPartyLedgerEntry(data),
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+/**
+ * Hook to update a ledger entry
+ */
+export function useUpdatePartyLedgerEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdatePartyLedgerEntryInput }) =>
+      updatePartyLedgerEntry(id, data),
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+/**
+ * Hook to delete a ledger entry
+ */
+export function useDeletePartyLedgerEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deletePartyLedgerEntry(id),
+    onSuccess: () => invalidateLedger(queryClient),
+  });
+}
+
+/**
+ * Hook to attach a file to a ledger entry
+ */
+export function useUploadLedgerAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ entryId, file }: { entryId: string; file: File }) =>
+      uploadLedgerAttachment(entryId, file),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: partyLedgerKeys.detail(variables.entryId) });
+    },
+  });
+}
+
+/**
+ * Hook to remove an attachment from a ledger entry
+ */
+export function useDeleteLedgerAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ entryId, attachmentId }: { entryId: string; attachmentId: string }) =>
+      deleteLedgerAttachment(entryId, attachmentId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: partyLedgerKeys.detail(variables.entryId) });
+    },
+  });
+}
@@ -8,9 +8,12 @@ import { useQuery } from '@tanstack/react-query';
 import {
   getPermissions,
   getPermissionsGrouped,
+  getMyPermissions,
   type Permission,
   type PermissionsByCategory,
+  type MyPermissions,
 } from '../api/permissions';
+import { useAuthStore } from '@/stores/auth.store';
 
 // ============================================
 // Query Keys
@@ -20,6 +23,8 @@ export const permissionKeys = {
   all: ['permissions'] as const,
   list: () => [...permissionKeys.all, 'list'] as const,
   grouped: () => [...permissionKeys.all, 'grouped'] as const,
+  mine: (organizationId: string | undefined) =>
+    [...permissionKeys.all, 'mine', organizationId] as const,
 };
 
 // ============================================
@@ -47,3 +52,27 @@ export function usePermissionsGrouped() {
     staleTime: 1000 * 60 * 60, // Permissions rarely change, cache for 1 hour
   });
 }
+
+/**
+ * Hook to fetch the permission keys granted to the current member
+ */
+export function useMyPermissions() {
+  const organizationId = useAuthStore((state) => state.organization?.id);
+
+  return useQuery<MyPermissions, Error>({
+    queryKey: permissionKeys.mine(organizationId),
+    queryFn: getMyPermissions,
+    enabled: !!organizationId,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Hook returning a checker for permission keys.
+ * Returns false while permissions are loading, so gated UI stays hidden until known.
+ */
+export function useCan() {
+  const { data } = useMyPermissions();
+
+  return (key: string) => data?.permissions.includes(key) ?? false;
+}
@@ -0,0 +1,101 @@
+/**
+ * Client Portal React Query Hooks
+ *
+ * Read-only hooks for the client portal. Clients never mutate data here.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import {
+  getPortalProfile,
+  getPortalProjects,
+  getPortalProject,
+  getPortalDocuments,
+  getPortalPayments,
+  getPortalReceipt,
+  type PortalDocumentQueryParams,
+} from '../api/portal';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const portalKeys = {
+  all: ['portal'] as const,
+  profile: () => [...portalKeys.all, 'profile'] as const,
+  projects: () => [...portalKeys.all, 'projects'] as const,
+  project: (projectId: string) => [...portalKeys.projects(), projectId] as const,
+  documents: (projectId: string, params?: PortalDocumentQueryParams) =>
+    [...portalKeys.project(projectId), 'documents', params] as const,
+  payments: (projectId: string) => [...portalKeys.project(projectId), 'payments'] as const,
+  receipt: (id: string) => [...portalKeys.all, 'receipts', id] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch the client and builder the user is signed in with
+ */
+export function usePortalProfile() {
+  return useQuery({
+    queryKey: portalKeys.profile(),
+    queryFn: getPortalProfile,
+    retry: false,
+  });
+}
+
+/**
+ * Hook to fetch the client's projects
+ */
+export function usePortalProjects() {
+  return useQuery({
+    queryKey: portalKeys.projects(),
+    queryFn: getPortalProjects,
+    retry: false,
+  });
+}
+
+/**
+ * Hook to fetch one project with its stages
+ */
+export function usePortalProject(projectId: string) {
+  return useQuery({
+    queryKey: portalKeys.project(projectId),
+    queryFn: () => getPortalProject(projectId),
+    enabled: !!projectId,
+  });
+}
+
+/**
+ * Hook to fetch shared photos or documents of a project
+ */
+export function usePortalDocuments(projectId: string, params?: PortalDocumentQueryParams) {
+  return useQuery({
+    queryKey: portalKeys.documents(projectId, params),
+    queryFn: () => getPortalDocuments(projectId, params),
+    enabled: !!projectId,
+  });
+}
+
+/**
+ * Hook to fetch the payments received for a project
+ */
+export function usePortalPayments(projectId: string) {
+  return useQuery({
+    queryKey: portalKeys.payments(projectId),
+    queryFn: () => getPortalPayments(projectId),
+    enabled: !!projectId,
+  });
+}
+
+/**
+ * Hook to fetch one receipt
+ */
+export function usePortalReceipt(id: string | null) {
+  return useQuery({
+    queryKey: portalKeys.receipt(id ?? ''),
+    queryFn: () => getPortalReceipt(id!),
+    enabled: !!id,
+  });
+}
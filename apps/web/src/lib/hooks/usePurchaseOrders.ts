@@ -0,0 +1,165 @@
+/**
+ * Purchase Orders React Query Hooks
+ *
+ * Provides hooks for a project's purchase orders, their approval and the goods
+ * received against them.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getProjectPurchaseOrders,
+  getPurchaseOrder,
+  getOpenOrderLines,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  approvePurchaseOrder,
+  rejectPurchaseOrder,
+  cancelPurchaseOrder,
+  receiveGoods,
+  type PurchaseOrder,
+  type OpenOrderLine,
+  type CreatePurchaseOrderInput,
+  type UpdatePurchaseOrderInput,
+  type CreateGoodsReceiptInput,
+} from '../api/purchase-orders';
+import { expenseKeys } from './useExpenses';
+
+// ============================================
+// Query Keys
+// ============================================
+
+// Nested under expenses so that matching a bill refreshes the order it is matched to
+export const purchaseOrderKeys = {
+  all: [...expenseKeys.all, 'purchase-orders'] as const,
+  project: (projectId: string) => [...purchaseOrderKeys.all, 'project', projectId] as const,
+  detail: (id: string) => [...purchaseOrderKeys.all, 'detail', id] as const,
+  openLines: (projectId: string, vendorId: string) =>
+    [...purchaseOrderKeys.all, 'open-lines', projectId, vendorId] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch a project's purchase orders
+ */
+export function useProjectPurchaseOrders(projectId: string, enabled = true) {
+  return useQuery<PurchaseOrder[], Error>({
+    queryKey: purchaseOrderKeys.project(projectId),
+    queryFn: () => getProjectPurchaseOrders(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+/**
+ * Hook to fetch an order with its goods received notes
+ */
+export function usePurchaseOrder(id: string | null) {
+  return useQuery<PurchaseOrder, Error>({
+    queryKey: purchaseOrderKeys.detail(id ?? ''),
+    queryFn: () => getPurchaseOrder(id!),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to fetch the approved order lines a vendor's bill can be matched to
+ */
+export function useOpenOrderLines(projectId: string, vendorId: string, enabled = true) {
+  return useQuery<OpenOrderLine[], Error>({
+    queryKey: purchaseOrderKeys.openLines(projectId, vendorId),
+    queryFn: () => getOpenOrderLines(projectId, vendorId),
+    enabled: !!projectId && !!vendorId && enabled,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to raise an order
+ */
+export function useCreatePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreatePurchaseOrderInput) => createPurchaseOrder(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: purchaseOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to edit an order waiting for approval or rejected
+ */
+export function useUpdatePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdatePurchaseOrderInput }) =>
+      updatePurchaseOrder(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: purchaseOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to approve an order
+ */
+export function useApprovePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => approvePurchaseOrder(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: purchaseOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to reject an order
+ */
+export function useRejectPurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => rejectPurchaseOrder(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: purchaseOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to cancel an order
+ */
+export function useCancelPurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => cancelPurchaseOrder(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: purchaseOrderKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to record goods received against an order
+ */
+export function useReceiveGoods() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CreateGoodsReceiptInput }) =>
+      receiveGoods(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: purchaseOrderKeys.all });
+    },
+  });
+}
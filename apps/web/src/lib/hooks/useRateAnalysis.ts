@@ -0,0 +1,151 @@
+/**
+ * Rate Analysis React Query Hooks
+ *
+ * Provides hooks for BOQ item rate analyses and the organization's library of
+ * rate analysis templates.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getRateTemplates,
+  getRateTemplate,
+  createRateTemplate,
+  updateRateTemplate,
+  deleteRateTemplate,
+  getRateAnalysis,
+  saveRateAnalysis,
+  deleteRateAnalysis,
+  type RateTemplate,
+  type RateTemplateInput,
+  type RateAnalysis,
+  type SaveRateAnalysisInput,
+} from '../api/rate-analysis';
+import { boqKeys } from './useBOQ';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const rateTemplateKeys = {
+  all: ['rate-templates'] as const,
+  list: () => [...rateTemplateKeys.all, 'list'] as const,
+  detail: (id: string) => [...rateTemplateKeys.all, 'detail', id] as const,
+};
+
+export const rateAnalysisKeys = {
+  all: [...boqKeys.all, 'rate-analysis'] as const,
+  detail: (projectId: string, boqItemId: string) =>
+    [...rateAnalysisKeys.all, projectId, boqItemId] as const,
+};
+
+// ============================================
+// Template Hooks
+// ============================================
+
+/**
+ * Hook to fetch the template library
+ */
+export function useRateTemplates() {
+  return useQuery<RateTemplate[], Error>({
+    queryKey: rateTemplateKeys.list(),
+    queryFn: getRateTemplates,
+  });
+}
+
+/**
+ * Hook to fetch a template
+ */
+export function useRateTemplate(id: string | null) {
+  return useQuery<RateTemplate, Error>({
+    queryKey: rateTemplateKeys.detail(id ?? ''),
+    queryFn: () => getRateTemplate(id!),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to add a template to the library
+ */
+export function useCreateRateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: RateTemplateInput) => createRateTemplate(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rateTemplateKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to update a template
+ */
+export function useUpdateRateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RateTemplateInput }) =>
+      updateRateTemplate(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rateTemplateKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to delete a template
+ */
+export function useDeleteRateTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteRateTemplate(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rateTemplateKeys.all });
+    },
+  });
+}
+
+// ============================================
+// BOQ Item Hooks
+// ============================================
+
+/**
+ * Hook to fetch a BOQ item's rate analysis
+ */
+export function useRateAnalysis(projectId: string, boqItemId: string | null) {
+  return useQuery<RateAnalysis | null, Error>({
+    queryKey: rateAnalysisKeys.detail(projectId, boqItemId ?? ''),
+    queryFn: () => getRateAnalysis(projectId, boqItemId!),
+    enabled: !!projectId && !!boqItemId,
+  });
+}
+
+/**
+ * Hook to save a BOQ item's rate analysis. The BOQ lists show the analysed
+ * rate, and the item's own rate when it is quoted at it, so refresh them all.
+ */
+export function useSaveRateAnalysis(projectId: string, boqItemId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SaveRateAnalysisInput) => saveRateAnalysis(projectId, boqItemId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: boqKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to remove a BOQ item's rate analysis
+ */
+export function useDeleteRateAnalysis(projectId: string, boqItemId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => deleteRateAnalysis(projectId, boqItemId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: boqKeys.all });
+    },
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Rate Library React Query Hooks
+ *
+ * Provides hooks for the rates the organization has paid and the rates to
+ * suggest while entering BOQ items and expenses.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import {
+  getRateLibrary,
+  getRateLibraryEntry,
+  getRateSuggestions,
+  type RateLibraryEntry,
+  type RateLibraryEntryDetail,
+  type RateLibraryParams,
+  type RateSuggestionParams,
+  type RateSuggestions,
+  type RateWindowParams,
+} from '../api/rate-library';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const rateLibraryKeys = {
+  all: ['rate-library'] as const,
+  list: (params: RateLibraryParams) => [...rateLibraryKeys.all, 'list', params] as const,
+  entry: (categoryItemId: string, unit: string | null, period: RateWindowParams) =>
+    [...rateLibraryKeys.all, 'entry', categoryItemId, unit, period] as const,
+  suggest: (params: RateSuggestionParams) => [...rateLibraryKeys.all, 'suggest', params] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch the rate library
+ */
+export function useRateLibrary(params: RateLibraryParams = {}) {
+  return useQuery<RateLibraryEntry[], Error>({
+    queryKey: rateLibraryKeys.list(params),
+    queryFn: () => getRateLibrary(params),
+  });
+}
+
+/**
+ * Hook to fetch an entry's breakdown and trend
+ */
+export function useRateLibraryEntry(
+  categoryItemId: string | null,
+  unit: string | null,
+  period: RateWindowParams = {}
+) {
+  return useQuery<RateLibraryEntryDetail | null, Error>({
+    queryKey: rateLibraryKeys.entry(categoryItemId ?? '', unit, period),
+    queryFn: () => getRateLibraryEntry(categoryItemId!, unit, period),
+    enabled: !!categoryItemId,
+  });
+}
+
+/**
+ * Hook to fetch rates to suggest for a type; off until a type is chosen
+ */
+export function useRateSuggestions(params: RateSuggestionParams, enabled = true) {
+  return useQuery<RateSuggestions, Error>({
+    queryKey: rateLibraryKeys.suggest(params),
+    queryFn: () => getRateSuggestions(params),
+    enabled: !!params.categoryItemId && enabled,
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Reports React Query Hooks
+ *
+ * Provides hooks for organization-wide reports such as payable and receivable aging
+ * and the monthly tax reports.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import {
+  getAgingReport,
+  getAgingItems,
+  getGstInputReport,
+  getTdsReport,
+  type AgingReport,
+  type AgingReportParams,
+  type AgingItemsResult,
+  type AgingItemsParams,
+  type GstInputReport,
+  type TdsReport,
+  type TaxReportParams,
+} from '../api/reports';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const reportKeys = {
+  all: ['reports'] as const,
+  aging: (params: AgingReportParams) => [...reportKeys.all, 'aging', params] as const,
+  agingItems: (params: AgingItemsParams) => [...reportKeys.all, 'aging-items', params] as const,
+  gstInput: (params: TaxReportParams) => [...reportKeys.all, 'gst-input', params] as const,
+  tds: (params: TaxReportParams) => [...reportKeys.all, 'tds', params] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch payables or receivables aged into buckets
+ */
+export function useAgingReport(params: AgingReportParams) {
+  return useQuery<AgingReport, Error>({
+    queryKey: reportKeys.aging(params),
+    queryFn: () => getAgingReport(params),
+  });
+}
+
+/**
+ * Hook to fetch the documents behind an aging report row
+ */
+export function useAgingItems(params: AgingItemsParams | null) {
+  return useQuery<AgingItemsResult, Error>({
+    queryKey: reportKeys.agingItems(params ?? { kind: 'payables' }),
+    queryFn: () => getAgingItems(params!),
+    enabled: !!params && (!!params.partyId || !!params.projectId),
+  });
+}
+
+/**
+ * Hook to fetch a month's GST input credit per party
+ */
+export function useGstInputReport(params: TaxReportParams | null) {
+  return useQuery<GstInputReport, Error>({
+    queryKey: reportKeys.gstInput(params ?? {}),
+    queryFn: () => getGstInputReport(params!),
+    enabled: !!params,
+  });
+}
+
+/**
+ * Hook to fetch a month's TDS per party and section
+ */
+export function useTdsReport(params: TaxReportParams | null) {
+  return useQuery<TdsReport, Error>({
+    queryKey: reportKeys.tds(params ?? {}),
+    queryFn: () => getTdsReport(params!),
+    enabled: !!params,
+  });
+}
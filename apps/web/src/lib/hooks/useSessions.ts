@@ -0,0 +1,63 @@
+/**
+ * Sessions React Query Hooks
+ *
+ * Provides hooks for listing and revoking the current user's sessions.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getSessions, revokeSession, revokeAllSessions, type AuthSession } from '../api/sessions';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const sessionKeys = {
+  all: ['sessions'] as const,
+  list: () => [...sessionKeys.all, 'list'] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch the current user's active sessions
+ */
+export function useSessions() {
+  return useQuery<AuthSession[], Error>({
+    queryKey: sessionKeys.list(),
+    queryFn: getSessions,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to sign out one device
+ */
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => revokeSession(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to sign out everywhere (optionally keeping this device)
+ */
+export function useRevokeAllSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (keepCurrent: boolean) => revokeAllSessions(keepCurrent),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+    },
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Stock React Query Hooks
+ *
+ * Provides hooks for a project's material stock, its ledger and the movements
+ * that take material in and out.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getProjectStock,
+  getStockLedger,
+  getStockSources,
+  getStockVariance,
+  receiveStock,
+  issueStock,
+  transferStock,
+  adjustStock,
+  type StockBalance,
+  type StockLedgerEntry,
+  type StockLedgerParams,
+  type StockSources,
+  type MaterialVariance,
+  type StockReceiptInput,
+  type StockIssueInput,
+  type StockTransferInput,
+  type StockAdjustmentInput,
+} from '../api/stock';
+import { expenseKeys } from './useExpenses';
+
+// ============================================
+// Query Keys
+// ============================================
+
+// Nested under expenses so that new bills and goods received show up as sources
+export const stockKeys = {
+  all: [...expenseKeys.all, 'stock'] as const,
+  project: (projectId: string) => [...stockKeys.all, 'project', projectId] as const,
+  ledger: (projectId: string, params: StockLedgerParams) =>
+    [...stockKeys.all, 'ledger', projectId, params] as const,
+  sources: (projectId: string) => [...stockKeys.all, 'sources', projectId] as const,
+  variance: (projectId: string, stageId?: string) =>
+    [...stockKeys.all, 'variance', projectId, stageId ?? 'all'] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch the stock of each material at a project site
+ */
+export function useProjectStock(projectId: string, enabled = true) {
+  return useQuery<StockBalance[], Error>({
+    queryKey: stockKeys.project(projectId),
+    queryFn: () => getProjectStock(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+/**
+ * Hook to fetch a project's stock movements with the running balance
+ */
+export function useStockLedger(projectId: string, params: StockLedgerParams, enabled = true) {
+  return useQuery<StockLedgerEntry[], Error>({
+    queryKey: stockKeys.ledger(projectId, params),
+    queryFn: () => getStockLedger(projectId, params),
+    enabled: !!projectId && enabled,
+  });
+}
+
+/**
+ * Hook to fetch the bills and goods received not yet taken into stock
+ */
+export function useStockSources(projectId: string, enabled = true) {
+  return useQuery<StockSources, Error>({
+    queryKey: stockKeys.sources(projectId),
+    queryFn: () => getStockSources(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+/**
+ * Hook to fetch consumed quantity of each material against the BOQ
+ */
+export function useStockVariance(projectId: string, stageId?: string) {
+  return useQuery<MaterialVariance[], Error>({
+    queryKey: stockKeys.variance(projectId, stageId),
+    queryFn: () => getStockVariance(projectId, stageId),
+    enabled: !!projectId,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to take material into stock
+ */
+export function useReceiveStock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: StockReceiptInput) => receiveStock(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: stockKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to issue material to a stage or task
+ */
+export function useIssueStock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: StockIssueInput) => issueStock(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: stockKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to move material to another site
+ */
+export function useTransferStock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: StockTransferInput) => transferStock(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: stockKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to correct stock to a physical count
+ */
+export function useAdjustStock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: StockAdjustmentInput) => adjustStock(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: stockKeys.all });
+    },
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Subcontracts React Query Hooks
+ *
+ * Provides hooks for a project's work orders, the RA bills raised against
+ * them, and releasing retention at project close.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getProjectWorkOrders,
+  createWorkOrder,
+  updateWorkOrder,
+  releaseRetention,
+  getRABill,
+  createRABill,
+  approveRABill,
+  rejectRABill,
+  type WorkOrder,
+  type RABill,
+  type CreateWorkOrderInput,
+  type UpdateWorkOrderInput,
+  type CreateRABillInput,
+} from '../api/subcontracts';
+import { expenseKeys } from './useExpenses';
+
+// ============================================
+// Query Keys
+// ============================================
+
+// Nested under expenses so that changes to posted Sub Work expenses refresh their bills
+export const subcontractKeys = {
+  all: [...expenseKeys.all, 'subcontracts'] as const,
+  project: (projectId: string) => [...subcontractKeys.all, 'project', projectId] as const,
+  bill: (id: string) => [...subcontractKeys.all, 'ra-bill', id] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch a project's work orders
+ */
+export function useWorkOrders(projectId: string) {
+  return useQuery<WorkOrder[], Error>({
+    queryKey: subcontractKeys.project(projectId),
+    queryFn: () => getProjectWorkOrders(projectId),
+    enabled: !!projectId,
+  });
+}
+
+/**
+ * Hook to fetch an RA bill
+ */
+export function useRABill(id: string | null) {
+  return useQuery<RABill, Error>({
+    queryKey: subcontractKeys.bill(id ?? ''),
+    queryFn: () => getRABill(id!),
+    enabled: !!id,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to agree a work order with a subcontractor
+ */
+export function useCreateWorkOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateWorkOrderInput) => createWorkOrder(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: subcontractKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to edit a work order nothing is billed against
+ */
+export function useUpdateWorkOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateWorkOrderInput }) =>
+      updateWorkOrder(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: subcontractKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to raise an RA bill from measured work
+ */
+export function useCreateRABill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ workOrderId, data }: { workOrderId: string; data: CreateRABillInput }) =>
+      createRABill(workOrderId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: subcontractKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to approve an RA bill; it posts a Sub Work expense
+ */
+export function useApproveRABill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => approveRABill(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to reject an RA bill
+ */
+export function useRejectRABill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => rejectRABill(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: subcontractKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to release a work order's retention; it posts a Sub Work expense
+ */
+export function useReleaseRetention() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => releaseRetention(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+}
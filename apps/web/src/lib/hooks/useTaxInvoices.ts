@@ -0,0 +1,116 @@
+/**
+ * Tax Invoices React Query Hooks
+ *
+ * Provides hooks for a project's GST tax invoices and the organization's GST details.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getInvoiceSettings,
+  updateInvoiceSettings,
+  getProjectInvoices,
+  getBillableWork,
+  createTaxInvoice,
+  cancelTaxInvoice,
+  type InvoiceSettings,
+  type UpdateInvoiceSettingsInput,
+  type ProjectInvoices,
+  type BillableWork,
+  type CreateTaxInvoiceInput,
+} from '../api/tax-invoices';
+import { paymentKeys } from './usePayments';
+
+// ============================================
+// Query Keys
+// ============================================
+
+// Nested under payments so that recording a receipt refreshes the invoices it is allocated to
+export const taxInvoiceKeys = {
+  all: [...paymentKeys.all, 'tax-invoices'] as const,
+  project: (projectId: string) => [...taxInvoiceKeys.all, 'project', projectId] as const,
+  billable: (projectId: string) => [...taxInvoiceKeys.all, 'billable', projectId] as const,
+  settings: () => ['invoice-settings'] as const,
+};
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch a project's invoices
+ */
+export function useProjectInvoices(projectId: string, enabled = true) {
+  return useQuery<ProjectInvoices, Error>({
+    queryKey: taxInvoiceKeys.project(projectId),
+    queryFn: () => getProjectInvoices(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+/**
+ * Hook to fetch what is left to bill on a project
+ */
+export function useBillableWork(projectId: string, enabled = true) {
+  return useQuery<BillableWork, Error>({
+    queryKey: taxInvoiceKeys.billable(projectId),
+    queryFn: () => getBillableWork(projectId),
+    enabled: !!projectId && enabled,
+  });
+}
+
+/**
+ * Hook to fetch the organization's GST details
+ */
+export function useInvoiceSettings(enabled = true) {
+  return useQuery<InvoiceSettings, Error>({
+    queryKey: taxInvoiceKeys.settings(),
+    queryFn: getInvoiceSettings,
+    enabled,
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to update the organization's GST details
+ */
+export function useUpdateInvoiceSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpdateInvoiceSettingsInput) => updateInvoiceSettings(data),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(taxInvoiceKeys.settings(), settings);
+    },
+  });
+}
+
+/**
+ * Hook to raise an invoice
+ */
+export function useCreateTaxInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateTaxInvoiceInput) => createTaxInvoice(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxInvoiceKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to cancel an invoice
+ */
+export function useCancelTaxInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) => cancelTaxInvoice(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taxInvoiceKeys.all });
+    },
+  });
+}
@@ -8,11 +8,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   getTeamMembers,
   getTeamMember,
-  createTeamMember,
   updateTeamMember,
   deleteTeamMember,
   type TeamMember,
-  type CreateTeamMemberInput,
   type UpdateTeamMemberInput,
   type TeamMemberQueryParams,
   type PaginatedResult,
@@ -59,21 +57,6 @@ export function useTeamMember(id: string) {
 // Mutation Hooks
 // ============================================
 
-/**
- * Hook to create a new team member
- */
-export function useCreateTeamMember() {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: (data: CreateTeamMemberInput) => createTeamMember(data),
-    onSuccess: () => {
-      // Invalidate all team queries to refetch
-      queryClient.invalidateQueries({ queryKey: teamKeys.all });
-    },
-  });
-}
-
 /**
  * Hook to update an existing team member
  */
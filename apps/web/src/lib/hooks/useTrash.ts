@@ -0,0 +1,89 @@
+/**
+ * Trash React Query Hooks
+ *
+ * Provides hooks for listing, restoring and purging deleted items.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getTrash,
+  restoreTrashItem,
+  purgeTrashItem,
+  type TrashEntityType,
+  type TrashQueryParams,
+  type TrashResponse,
+} from '../api/trash';
+import { projectKeys } from './useProjects';
+import { partyKeys } from './useParties';
+import { expenseKeys } from './useExpenses';
+import { paymentKeys } from './usePayments';
+
+// ============================================
+// Query Keys
+// ============================================
+
+export const trashKeys = {
+  all: ['trash'] as const,
+  lists: () => [...trashKeys.all, 'list'] as const,
+  list: (params?: TrashQueryParams) => [...trashKeys.lists(), params] as const,
+};
+
+// Cached lists a restored item reappears in
+const entityKeys: Record<TrashEntityType, readonly string[]> = {
+  PROJECT: projectKeys.all,
+  PARTY: partyKeys.all,
+  EXPENSE: expenseKeys.all,
+  PAYMENT: paymentKeys.all,
+};
+
+interface TrashItemRef {
+  entityType: TrashEntityType;
+  id: string;
+}
+
+// ============================================
+// Query Hooks
+// ============================================
+
+/**
+ * Hook to fetch deleted items
+ */
+export function useTrash(params?: TrashQueryParams) {
+  return useQuery<TrashResponse, Error>({
+    queryKey: trashKeys.list(params),
+    queryFn: () => getTrash(params),
+  });
+}
+
+// ============================================
+// Mutation Hooks
+// ============================================
+
+/**
+ * Hook to restore a deleted item
+ */
+export function useRestoreTrashItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ entityType, id }: TrashItemRef) => restoreTrashItem(entityType, id),
+    onSuccess: (_, { entityType }) => {
+      queryClient.invalidateQueries({ queryKey: trashKeys.all });
+      queryClient.invalidateQueries({ queryKey: entityKeys[entityType] });
+    },
+  });
+}
+
+/**
+ * Hook to permanently delete an item (admins only)
+ */
+export function usePurgeTrashItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ entityType, id }: TrashItemRef) => purgeTrashItem(entityType, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trashKeys.all });
+    },
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * TDS sections a payment to a party can be deducted under, with their usual rates
+ */
+
+export const TDS_SECTIONS: Array<{ code: string; name: string; defaultRate: number }> = [
+  { code: '194C', name: 'Payments to contractors', defaultRate: 1 },
+  { code: '194H', name: 'Commission or brokerage', defaultRate: 2 },
+  { code: '194I', name: 'Rent', defaultRate: 10 },
+  { code: '194J', name: 'Professional or technical fees', defaultRate: 10 },
+  { code: '194Q', name: 'Purchase of goods', defaultRate: 0.1 },
+];
+
+export function tdsSectionRate(code: string): number | undefined {
+  return TDS_SECTIONS.find((section) => section.code === code)?.defaultRate;
+}
@@ -0,0 +1,194 @@
+/**
+ * Approval Inbox Page
+ *
+ * Pending expenses waiting on the current member, oldest first.
+ * Features:
+ * - Approve the level an expense is waiting on
+ * - Reject with a reason the submitter sees
+ * - Open the expense's project
+ */
+
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { isAxiosError } from 'axios';
+import { CheckCircle, XCircle, Tray } from '@phosphor-icons/react';
+
+import { PageContent, Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { ExpenseStatusBadge } from '@/components/approvals/ExpenseStatusBadge';
+import { RejectExpenseDialog } from '@/components/approvals/RejectExpenseDialog';
+import { useApprovalInbox } from '@/lib/hooks/useApprovals';
+import { useApproveExpense } from '@/lib/hooks/useExpenses';
+import type { InboxExpense } from '@/lib/api/approvals';
+
+const PAGINATION_LIMIT = 20;
+
+// ============================================
+// Helpers
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export default function ApprovalInboxPage() {
+  const navigate = useNavigate();
+  const [page, setPage] = useState(1);
+  const [rejectExpenseId, setRejectExpenseId] = useState<string | null>(null);
+
+  // Queries
+  const { data, isLoading } = useApprovalInbox({ page, limit: PAGINATION_LIMIT });
+  const expenses = data?.items ?? [];
+
+  // Mutations
+  const approveMutation = useApproveExpense();
+
+  const handleApprove = useCallback(
+    async (expense: InboxExpense) => {
+      try {
+        const updated = await approveMutation.mutateAsync({ id: expense.id });
+        toast.success(
+          updated.status === 'APPROVED'
+            ? 'Expense approved'
+            : `Approved. Sent on for level ${updated.approvalLevel} approval`
+        );
+      } catch (error) {
+        const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+        toast.error(message || 'Failed to approve expense');
+      }
+    },
+    [approveMutation]
+  );
+
+  return (
+    <>
+      <Header
+        title="Approvals"
+        subtitle="Expenses waiting for your approval."
+        showSearch={false}
+        primaryActionLabel=""
+      />
+
+      <PageContent>
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }).map((_, index) => (
+                <div
+                  key={index}
+                  className="flex items-center gap-4 p-4 rounded-lg border bg-card animate-pulse"
+                >
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 w-48 bg-gray-200 rounded" />
+                    <div className="h-3 w-32 bg-gray-200 rounded" />
+                  </div>
+                  <div className="h-8 w-40 bg-gray-200 rounded" />
+                </div>
+              ))}
+            </div>
+          ) : expenses.length === 0 ? (
+            <Empty className="py-16">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Tray className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>Nothing to approve</EmptyTitle>
+                <EmptyDescription>Expenses waiting on you will appear here.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="rounded-lg border bg-card">
+              <div className="divide-y">
+                {expenses.map((expense) => (
+                  <div key={expense.id} className="flex items-center gap-4 p-4">
+                    {/* Expense */}
+                    <button
+                      type="button"
+                      onClick={() => navigate(`/projects/${expense.projectId}?tab=expenses`)}
+                      className="flex-1 min-w-0 text-left cursor-pointer"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">
+                          {expense.expenseType?.name ?? 'Expense'} · {expense.party.name}
+                        </span>
+                        <ExpenseStatusBadge expense={{ ...expense, rejectionReason: null }} />
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {[
+                          expense.project.name,
+                          expense.stage?.name,
+                          format(new Date(expense.expenseDate), 'dd MMM yyyy'),
+                          expense.description,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </button>
+
+                    {/* Amount */}
+                    <span className="font-semibold">
+                      {formatCurrency(Number(expense.rate) * Number(expense.quantity))}
+                    </span>
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRejectExpenseId(expense.id)}
+                        className="cursor-pointer"
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleApprove(expense)}
+                        disabled={approveMutation.isPending}
+                        className="cursor-pointer"
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {data && data.pagination.pages > 1 && (
+                <TablePagination
+                  page={page}
+                  pages={data.pagination.pages}
+                  total={data.pagination.total}
+                  limit={PAGINATION_LIMIT}
+                  onPageChange={setPage}
+                  itemLabel="expenses"
+                  className="border-t"
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </PageContent>
+
+      <RejectExpenseDialog
+        expenseId={rejectExpenseId}
+        onOpenChange={(open) => !open && setRejectExpenseId(null)}
+      />
+    </>
+  );
+}
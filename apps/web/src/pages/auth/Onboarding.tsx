@@ -2,7 +2,8 @@
  * Onboarding Page
  *
  * Shown to new users who don't have an organization.
- * Collects user name and organization name to complete setup.
+ * Lists pending team invitations for their phone number to accept or decline,
+ * or collects user name and organization name to set up their own.
  */
 
 import { useForm } from 'react-hook-form';
@@ -10,7 +11,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
-import { Buildings, User, Briefcase } from '@phosphor-icons/react';
+import { formatDistanceToNow } from 'date-fns';
+import { Buildings, User, Briefcase, EnvelopeSimple } from '@phosphor-icons/react';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -25,6 +27,12 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuthStore } from '@/stores/auth.store';
 import { completeOnboarding } from '@/lib/api/auth';
+import {
+  useMyInvitations,
+  useAcceptInvitation,
+  useDeclineInvitation,
+} from '@/lib/hooks/useInvitations';
+import type { MyInvitation } from '@/lib/api/invitations';
 
 // ============================================
 // Schema
@@ -55,7 +63,7 @@ const ORGANIZATION_TYPES = [
 
 export default function Onboarding() {
   const navigate = useNavigate();
-  const { setOrganization, updateUser, user } = useAuthStore();
+  const { setOrganization, setTokens, updateUser, user } = useAuthStore();
 
   const {
     register,
@@ -74,6 +82,31 @@ export default function Onboarding() {
 
   const organizationType = watch('organizationType');
 
+  // Invitations to existing organizations
+  const { data: invitations = [] } = useMyInvitations();
+  const acceptMutation = useAcceptInvitation();
+  const declineMutation = useDeclineInvitation();
+  const isResponding = acceptMutation.isPending || declineMutation.isPending;
+
+  const handleAccept = async (invitation: MyInvitation) => {
+    try {
+      await acceptMutation.mutateAsync(invitation.id);
+      toast.success(`Welcome to ${invitation.organization.name}!`);
+      navigate('/projects');
+    } catch {
+      toast.error('Failed to accept invitation. It may have expired or been revoked.');
+    }
+  };
+
+  const handleDecline = async (invitation: MyInvitation) => {
+    try {
+      await declineMutation.mutateAsync(invitation.id);
+      toast.success('Invitation declined');
+    } catch {
+      toast.error('Failed to decline invitation');
+    }
+  };
+
   const onSubmit = async (data: OnboardingFormData) => {
     try {
       const result = await completeOnboarding(data);
@@ -82,6 +115,10 @@ export default function Onboarding() {
         // Update auth store with user name and organization
         updateUser({ name: result.data.user.name });
         setOrganization(result.data.organization);
+        setTokens({
+          accessToken: result.data.accessToken,
+          refreshToken: result.data.refreshToken,
+        });
         toast.success('Welcome to Worksite!');
         navigate('/projects');
       } else {
@@ -106,6 +143,52 @@ export default function Onboarding() {
         </CardHeader>
 
         <CardContent>
+          {/* Pending Invitations */}
+          {invitations.length > 0 && (
+            <div className="space-y-3 mb-6">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start gap-3">
+                    <EnvelopeSimple className="h-5 w-5 mt-0.5 text-primary" weight="duotone" />
+                    <div className="space-y-1">
+                      <p className="text-sm">
+                        {invitation.invitedBy ?? 'Someone'} invited you to join{' '}
+                        <span className="font-medium">{invitation.organization.name}</span> as{' '}
+                        <span className="font-medium">{invitation.role.name}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Expires{' '}
+                        {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleAccept(invitation)}
+                      disabled={isResponding}
+                      className="flex-1 cursor-pointer"
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDecline(invitation)}
+                      disabled={isResponding}
+                      className="flex-1 cursor-pointer"
+                    >
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <p className="text-center text-sm text-muted-foreground">
+                or set up your own organization
+              </p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             {/* User Name */}
             <div className="space-y-2">
@@ -9,6 +9,8 @@ import { useSendOtp } from '@worksite/data';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { AuthCard } from '@/components/auth/AuthCard';
+import { getOtpRetryAt } from '@/lib/api/auth';
+import { useCountdown, formatCountdown } from '@/lib/hooks/useCountdown';
 import { useAuthStore } from '@/stores/auth.store';
 
 // India country code - hardcoded for now, will expand later
@@ -16,8 +18,10 @@ const COUNTRY_CODE = '+91';
 
 export default function PhoneInput() {
   const navigate = useNavigate();
-  const { phoneNumber, setPhoneNumber, setStep } = useAuthStore();
+  const { phoneNumber, setPhoneNumber, setStep, otpRetryAt, setOtpRetryAt } = useAuthStore();
   const [error, setError] = useState<string | null>(null);
+  // Seconds until the server accepts another OTP request (cooldown or lockout)
+  const retryIn = useCountdown(otpRetryAt);
 
   const sendOtpMutation = useSendOtp();
 
@@ -49,10 +53,12 @@ export default function PhoneInput() {
       countryCode: COUNTRY_CODE,
     });
 
-    if (result.success) {
+    if (result.success && result.data) {
+      setOtpRetryAt(result.data.resendAvailableAt);
       setStep('otp');
       navigate('/auth/verify');
     } else {
+      setOtpRetryAt(getOtpRetryAt(result.error));
       setError(result.error?.message || 'Failed to send OTP');
     }
   };
@@ -66,8 +72,9 @@ export default function PhoneInput() {
 
   const handlePhoneChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setPhoneNumber(formatPhoneNumber(e.target.value));
-    // Clear error when user starts typing
+    // Clear error when user starts typing; limits are per number, the server re-checks them
     if (error) setError(null);
+    if (otpRetryAt) setOtpRetryAt(null);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -142,11 +149,16 @@ export default function PhoneInput() {
 
         {/* Error Message */}
         {error && <p className="text-red-600 text-sm mt-3 text-center">{error}</p>}
+        {retryIn > 0 && (
+          <p className="text-xs text-neutral-400 mt-1 text-center">
+            You can request a new code in {formatCountdown(retryIn)}
+          </p>
+        )}
 
         {/* Submit Button */}
         <Button
           type="submit"
-          disabled={sendOtpMutation.isPending}
+          disabled={sendOtpMutation.isPending || retryIn > 0}
           className="w-full mt-6"
           size="lg"
         >
@@ -9,18 +9,21 @@ import { useSendOtp, useVerifyOtp } from '@worksite/data';
 import { Button } from '@/components/ui/button';
 import { AuthCard } from '@/components/auth/AuthCard';
 import { OtpInput, OTP_LENGTH } from '@/components/auth/OtpInput';
+import { getOtpRetryAt } from '@/lib/api/auth';
+import { useCountdown, formatCountdown } from '@/lib/hooks/useCountdown';
 import { useAuthStore } from '@/stores/auth.store';
 
-const RESEND_COOLDOWN = 30;
 // India country code - hardcoded for now
 const COUNTRY_CODE = '+91';
 
 export default function VerifyOtp() {
   const navigate = useNavigate();
-  const { phoneNumber, loginSuccess, setStep } = useAuthStore();
+  const { phoneNumber, loginSuccess, setStep, otpRetryAt, setOtpRetryAt } = useAuthStore();
   const [otp, setOtp] = useState<string[]>(Array(OTP_LENGTH).fill(''));
   const [error, setError] = useState<string | null>(null);
-  const [resendTimer, setResendTimer] = useState(RESEND_COOLDOWN);
+  const [isLocked, setIsLocked] = useState(false);
+  // Resend cooldown (or lockout) comes from the server's send/verify responses
+  const resendTimer = useCountdown(otpRetryAt);
 
   const verifyOtpMutation = useVerifyOtp();
   const sendOtpMutation = useSendOtp();
@@ -32,13 +35,13 @@ export default function VerifyOtp() {
     }
   }, [phoneNumber, navigate]);
 
-  // Resend timer countdown
+  // Lockout ends when its countdown runs out
   useEffect(() => {
-    if (resendTimer > 0) {
-      const timer = setTimeout(() => setResendTimer(resendTimer - 1), 1000);
-      return () => clearTimeout(timer);
+    if (isLocked && resendTimer === 0) {
+      setIsLocked(false);
+      setError(null);
     }
-  }, [resendTimer]);
+  }, [isLocked, resendTimer]);
 
   const handleVerify = async () => {
     const code = otp.join('');
@@ -59,6 +62,7 @@ export default function VerifyOtp() {
         organization: result.data.organization,
         role: result.data.role,
         accessToken: result.data.accessToken,
+        refreshToken: result.data.refreshToken,
       });
       // Redirect based on organization status
       if (result.data.organization) {
@@ -69,6 +73,10 @@ export default function VerifyOtp() {
         navigate('/auth/onboarding');
       }
     } else {
+      if (result.error?.code === 'OTP_LOCKED') {
+        setIsLocked(true);
+        setOtpRetryAt(getOtpRetryAt(result.error));
+      }
       setError(result.error?.message || 'Invalid OTP');
       setOtp(Array(OTP_LENGTH).fill(''));
     }
@@ -79,10 +87,13 @@ export default function VerifyOtp() {
 
     const result = await sendOtpMutation.mutateAsync({ phone: phoneNumber, countryCode: COUNTRY_CODE });
 
-    if (result.success) {
-      setResendTimer(RESEND_COOLDOWN);
+    if (result.success && result.data) {
+      setOtpRetryAt(result.data.resendAvailableAt);
       setOtp(Array(OTP_LENGTH).fill(''));
+      setError(null);
     } else {
+      setIsLocked(result.error?.code === 'OTP_LOCKED');
+      setOtpRetryAt(getOtpRetryAt(result.error));
       setError(result.error?.message || 'Failed to resend OTP');
     }
   };
@@ -92,18 +103,12 @@ export default function VerifyOtp() {
     navigate('/auth');
   };
 
-  const formatTimer = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     handleVerify();
   };
 
-  const isLoading = verifyOtpMutation.isPending || sendOtpMutation.isPending;
+  const isLoading = verifyOtpMutation.isPending || sendOtpMutation.isPending || isLocked;
   const displayPhone = `${COUNTRY_CODE} ${phoneNumber}`;
 
   return (
@@ -155,7 +160,8 @@ export default function VerifyOtp() {
       </p>
       {resendTimer > 0 && (
         <p className="text-xs text-neutral-400 mt-1">
-          You can resend after {formatTimer(resendTimer)}
+          {isLocked ? 'Try again after' : 'You can resend after'}{' '}
+          {formatCountdown(resendTimer)}
         </p>
       )}
     </AuthCard>
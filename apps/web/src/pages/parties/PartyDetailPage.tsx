@@ -5,17 +5,46 @@
  * Features:
  * - Breadcrumb navigation
  * - 2-column layout: projects list (left) and transactions panel (right)
- * - Tabs for payments and expenses (purchase/wages)
+ * - Tabs for payments, expenses (purchase/wages) and ledger adjustments
+ *   (advances, credit notes, refunds, write-offs)
+ * - Ledger statement for a period, downloadable as PDF or Excel
  */
 
 import { useState, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { ClockCounterClockwise, FileText } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
 
 import { PageContent, Header } from '@/components/layout';
 import { Breadcrumb } from '@/components/ui/breadcrumb';
-import { PartyProjectsList, PartyTransactionsPanel } from '@/components/parties';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
+import {
+  LedgerEntryDialog,
+  PartyProjectsList,
+  PartyStatementDialog,
+  PartyTransactionsPanel,
+} from '@/components/parties';
 import { useParty, usePartyProjects, usePartyTransactions } from '@/lib/hooks/useParties';
-import type { PartyType } from '@/lib/api/parties';
+import { useDeletePartyLedgerEntry } from '@/lib/hooks/usePartyLedger';
+import { useCan } from '@/lib/hooks/usePermissions';
+import type {
+  PartyProject,
+  PartyTransaction,
+  PartyTransactionsTab,
+  PartyType,
+} from '@/lib/api/parties';
 
 // ============================================
 // Helpers
@@ -38,6 +67,28 @@ function getPartiesPath(type: PartyType): string {
   return `/parties?tab=${type}`;
 }
 
+/**
+ * Totals for the transactions panel: paid includes advances less refunds, and
+ * bills are net of credit notes and include write-offs
+ */
+function getPanelTotals(projects: PartyProject[]) {
+  const sum = (key: keyof Omit<PartyProject, 'id' | 'name'>) =>
+    projects.reduce((total, project) => total + project[key], 0);
+
+  const ledgerSummary = {
+    advances: sum('totalAdvances'),
+    creditNotes: sum('totalCreditNotes'),
+    refunds: sum('totalRefunds'),
+    writeOffs: sum('totalWriteOffs'),
+  };
+
+  return {
+    totalPaid: sum('totalPayments') + ledgerSummary.advances - ledgerSummary.refunds,
+    totalExpenses: sum('totalExpenses') - ledgerSummary.creditNotes + ledgerSummary.writeOffs,
+    ledgerSummary,
+  };
+}
+
 // ============================================
 // Component
 // ============================================
@@ -45,11 +96,17 @@ function getPartiesPath(type: PartyType): string {
 export default function PartyDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const can = useCan();
 
   // State
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'payments' | 'expenses'>('payments');
+  const [activeTab, setActiveTab] = useState<PartyTransactionsTab>('payments');
   const [transactionsPage, setTransactionsPage] = useState(1);
+  const [isLedgerDialogOpen, setIsLedgerDialogOpen] = useState(false);
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<PartyTransaction | null>(null);
 
   // Data fetching
   const { data: party, isLoading: isPartyLoading } = useParty(id || '');
@@ -70,7 +127,9 @@ export default function PartyDetailPage() {
     setTransactionsPage(1); // Reset to first page when project changes
   }, []);
 
-  const handleTabChange = useCallback((tab: 'payments' | 'expenses') => {
+  const deleteEntryMutation = useDeletePartyLedgerEntry();
+
+  const handleTabChange = useCallback((tab: PartyTransactionsTab) => {
     setActiveTab(tab);
     setTransactionsPage(1); // Reset to first page when tab changes
   }, []);
@@ -79,6 +138,29 @@ export default function PartyDetailPage() {
     setTransactionsPage(page);
   }, []);
 
+  const handleAddLedgerEntry = useCallback(() => {
+    setEditingEntryId(null);
+    setIsLedgerDialogOpen(true);
+  }, []);
+
+  const handleEditLedgerEntry = useCallback((transaction: PartyTransaction) => {
+    setEditingEntryId(transaction.id);
+    setIsLedgerDialogOpen(true);
+  }, []);
+
+  const handleDeleteEntryConfirm = useCallback(async () => {
+    if (!entryToDelete) return;
+
+    try {
+      await deleteEntryMutation.mutateAsync(entryToDelete.id);
+      toast.success('Entry deleted');
+      setEntryToDelete(null);
+    } catch (error) {
+      const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+      toast.error(message || 'Failed to delete entry');
+    }
+  }, [entryToDelete, deleteEntryMutation]);
+
   // Computed values
   const breadcrumbItems = useMemo(() => {
     if (!party) return [];
@@ -105,18 +187,12 @@ export default function PartyDetailPage() {
     if (selectedProjectId) {
       const project = projects.find((p) => p.id === selectedProjectId);
       if (project) {
-        return {
-          totalPaid: project.totalPayments,
-          totalExpenses: project.totalExpenses,
-        };
+        return getPanelTotals([project]);
       }
     }
     // If no project selected, sum all projects
-    return {
-      totalPaid: totals.totalPaid,
-      totalExpenses: projects.reduce((sum, p) => sum + p.totalExpenses, 0),
-    };
-  }, [selectedProjectId, projects, totals]);
+    return getPanelTotals(projects);
+  }, [selectedProjectId, projects]);
 
   // Loading state for the whole page
   if (isPartyLoading) {
@@ -154,7 +230,31 @@ export default function PartyDetailPage() {
 
   return (
     <>
-      <Header title={party.name} />
+      <Header
+        title={party.name}
+        actions={
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsStatementOpen(true)}
+              className="cursor-pointer"
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              Statement
+            </Button>
+            {can('audit.view') && (
+              <Button
+                variant="outline"
+                onClick={() => setIsHistoryOpen(true)}
+                className="cursor-pointer"
+              >
+                <ClockCounterClockwise className="mr-2 h-4 w-4" />
+                History
+              </Button>
+            )}
+          </div>
+        }
+      />
       <PageContent className="overflow-hidden min-h-0 pt-4">
         {/* Breadcrumb */}
         <Breadcrumb items={breadcrumbItems} className="mb-2" />
@@ -180,16 +280,75 @@ export default function PartyDetailPage() {
               partyType={party.type}
               totalPaid={selectedProjectTotals.totalPaid}
               totalExpenses={selectedProjectTotals.totalExpenses}
+              ledgerSummary={selectedProjectTotals.ledgerSummary}
               activeTab={activeTab}
               onTabChange={handleTabChange}
               transactions={transactions}
               pagination={pagination}
               onPageChange={handlePageChange}
               isLoading={isTransactionsLoading}
+              onAddLedgerEntry={can('payments.create') ? handleAddLedgerEntry : undefined}
+              onEditLedgerEntry={can('payments.edit') ? handleEditLedgerEntry : undefined}
+              onDeleteLedgerEntry={can('payments.delete') ? setEntryToDelete : undefined}
             />
           </div>
         </div>
       </PageContent>
+
+      {/* Add/Edit Ledger Entry */}
+      <LedgerEntryDialog
+        open={isLedgerDialogOpen}
+        onOpenChange={(open) => {
+          setIsLedgerDialogOpen(open);
+          if (!open) setEditingEntryId(null);
+        }}
+        partyId={party.id}
+        defaultProjectId={selectedProjectId}
+        entryId={editingEntryId}
+      />
+
+      {/* Delete Ledger Entry Confirmation */}
+      <AlertDialog open={!!entryToDelete} onOpenChange={(open) => !open && setEntryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Entry</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{entryToDelete?.title}" and its attachments? The party's balance will be
+              recalculated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteEntryMutation.isPending} className="cursor-pointer">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteEntryConfirm}
+              disabled={deleteEntryMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {deleteEntryMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Ledger Statement */}
+      <PartyStatementDialog
+        open={isStatementOpen}
+        onOpenChange={setIsStatementOpen}
+        partyId={party.id}
+        projects={projects}
+        defaultProjectId={selectedProjectId}
+      />
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        entityType="PARTY"
+        entityId={party.id}
+        title="Party history"
+      />
     </>
   );
 }
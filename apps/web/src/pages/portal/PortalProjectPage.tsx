@@ -0,0 +1,155 @@
+/**
+ * Portal Project Page
+ *
+ * One project as the client sees it:
+ * - Progress: overall progress and stage-by-stage status
+ * - Photos: site photos the builder has shared
+ * - Documents: drawings, agreements and other shared files
+ * - Payments: contract amount, payment schedule, payments made and receipts
+ */
+
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Stack,
+  Image as ImageIcon,
+  FileText,
+  Money,
+  MapPin,
+} from '@phosphor-icons/react';
+
+import { PageContent } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { TypographyH3 } from '@/components/ui/typography';
+import {
+  SecondaryTabs,
+  SecondaryTabsList,
+  SecondaryTabsTrigger,
+  SecondaryTabsContent,
+} from '@/components/ui/custom/secondary-tabs';
+import { PortalStages } from '@/components/portal/PortalStages';
+import { PortalFiles } from '@/components/portal/PortalFiles';
+import { PortalPayments } from '@/components/portal/PortalPayments';
+import { PROJECT_STATUS_LABELS } from '@/components/portal/format';
+import { usePortalProject } from '@/lib/hooks/usePortal';
+
+// ============================================
+// Component
+// ============================================
+
+export default function PortalProjectPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('tab') || 'progress';
+
+  const { data: project, isLoading, isError } = usePortalProject(id || '');
+
+  if (isLoading) {
+    return (
+      <PageContent>
+        <div className="max-w-5xl mx-auto space-y-4">
+          <div className="h-8 w-64 bg-neutral-100 rounded animate-pulse" />
+          <div className="h-24 w-full bg-neutral-100 rounded animate-pulse" />
+          <div className="h-64 w-full bg-neutral-100 rounded animate-pulse" />
+        </div>
+      </PageContent>
+    );
+  }
+
+  if (isError || !project) {
+    return (
+      <PageContent>
+        <div className="flex flex-col items-center justify-center h-64">
+          <p className="text-neutral-500 mb-4">Project not found</p>
+          <button
+            onClick={() => navigate('/portal')}
+            className="text-primary hover:underline cursor-pointer"
+          >
+            Go back to your projects
+          </button>
+        </div>
+      </PageContent>
+    );
+  }
+
+  return (
+    <PageContent>
+      <div className="max-w-5xl mx-auto space-y-6">
+        {/* Title */}
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/portal')}
+            className="-ml-2 mb-2 cursor-pointer"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All projects
+          </Button>
+          <div className="flex items-center gap-3">
+            <TypographyH3>{project.name}</TypographyH3>
+            <Badge variant="secondary">{PROJECT_STATUS_LABELS[project.status]}</Badge>
+          </div>
+          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+            <MapPin className="h-3.5 w-3.5" />
+            {project.location}
+            {' · '}
+            Started {format(new Date(project.startDate), 'dd MMM yyyy')}
+            {project.endDate &&
+              ` · Target completion ${format(new Date(project.endDate), 'dd MMM yyyy')}`}
+          </p>
+        </div>
+
+        {/* Overall Progress */}
+        <div className="rounded-lg border bg-card p-5">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-muted-foreground">Overall progress</p>
+            <p className="text-2xl font-semibold">{project.progress}%</p>
+          </div>
+          <Progress value={project.progress} className="h-2" />
+        </div>
+
+        {/* Tabs */}
+        <SecondaryTabs
+          value={activeTab}
+          onValueChange={(tab) => setSearchParams({ tab }, { replace: true })}
+        >
+          <SecondaryTabsList>
+            <SecondaryTabsTrigger value="progress" icon={Stack}>
+              Progress
+            </SecondaryTabsTrigger>
+            <SecondaryTabsTrigger value="photos" icon={ImageIcon}>
+              Photos
+            </SecondaryTabsTrigger>
+            <SecondaryTabsTrigger value="documents" icon={FileText}>
+              Documents
+            </SecondaryTabsTrigger>
+            <SecondaryTabsTrigger value="payments" icon={Money}>
+              Payments
+            </SecondaryTabsTrigger>
+          </SecondaryTabsList>
+
+          <SecondaryTabsContent value="progress" className="mt-6">
+            <PortalStages stages={project.stages} />
+          </SecondaryTabsContent>
+
+          <SecondaryTabsContent value="photos" className="mt-6">
+            <PortalFiles projectId={project.id} kind="photos" />
+          </SecondaryTabsContent>
+
+          <SecondaryTabsContent value="documents" className="mt-6">
+            <PortalFiles projectId={project.id} kind="documents" />
+          </SecondaryTabsContent>
+
+          <SecondaryTabsContent value="payments" className="mt-6">
+            <PortalPayments projectId={project.id} />
+          </SecondaryTabsContent>
+        </SecondaryTabs>
+      </div>
+    </PageContent>
+  );
+}
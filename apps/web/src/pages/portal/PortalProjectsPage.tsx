@@ -0,0 +1,126 @@
+/**
+ * Portal Projects Page
+ *
+ * Landing page of the client portal: the client's projects.
+ * Each card shows stage progress and how much has been paid against the contract.
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { isAxiosError } from 'axios';
+import { Buildings, MapPin } from '@phosphor-icons/react';
+
+import { PageContent } from '@/components/layout';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { TypographyH3 } from '@/components/ui/typography';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { usePortalProjects } from '@/lib/hooks/usePortal';
+import { formatCurrency, PROJECT_STATUS_LABELS } from '@/components/portal/format';
+
+// ============================================
+// Component
+// ============================================
+
+export default function PortalProjectsPage() {
+  const navigate = useNavigate();
+  const { data: projects = [], isLoading, error } = usePortalProjects();
+
+  const errorMessage = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+
+  return (
+    <PageContent>
+      <div className="max-w-5xl mx-auto space-y-6">
+        <TypographyH3>Your projects</TypographyH3>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {Array.from({ length: 2 }).map((_, index) => (
+              <div key={index} className="h-56 rounded-xl border bg-card animate-pulse" />
+            ))}
+          </div>
+        ) : error || projects.length === 0 ? (
+          <Empty className="py-16">
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Buildings className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>{error ? 'Portal unavailable' : 'No projects yet'}</EmptyTitle>
+              <EmptyDescription>
+                {errorMessage || 'Projects your builder starts for you will appear here.'}
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {projects.map((project) => (
+              <button
+                key={project.id}
+                type="button"
+                onClick={() => navigate(`/portal/projects/${project.id}`)}
+                className="text-left rounded-xl border bg-card overflow-hidden hover:border-primary/50 transition-colors cursor-pointer"
+              >
+                {project.projectPicture && (
+                  <img
+                    src={project.projectPicture}
+                    alt={project.name}
+                    className="h-36 w-full object-cover"
+                  />
+                )}
+                <div className="p-5 space-y-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold truncate">{project.name}</p>
+                      <p className="flex items-center gap-1 text-sm text-muted-foreground truncate">
+                        <MapPin className="h-3.5 w-3.5" />
+                        {project.location}
+                      </p>
+                    </div>
+                    <Badge variant="secondary">{PROJECT_STATUS_LABELS[project.status]}</Badge>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-1.5 text-xs text-muted-foreground">
+                      <span>Progress</span>
+                      <span>{project.progress}%</span>
+                    </div>
+                    <Progress value={project.progress} className="h-2" />
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-3 text-sm">
+                    <div>
+                      <p className="text-xs text-muted-foreground">Contract</p>
+                      <p className="font-medium">{formatCurrency(project.contractAmount)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Paid</p>
+                      <p className="font-medium text-green-600">
+                        {formatCurrency(project.received)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Balance</p>
+                      <p className="font-medium">{formatCurrency(project.outstanding)}</p>
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-muted-foreground">
+                    Started {format(new Date(project.startDate), 'dd MMM yyyy')}
+                    {project.endDate &&
+                      ` · Target completion ${format(new Date(project.endDate), 'dd MMM yyyy')}`}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </PageContent>
+  );
+}
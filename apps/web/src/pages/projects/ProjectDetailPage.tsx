@@ -5,13 +5,18 @@
  * - Overview: Project financials, timeline, stages, details, quick links
  * - Expenses: Expenses table with search, filters, and add expense modal
  * - Payments: Client/Party/Team payments with URL-based filter persistence
+ * - Purchases: Purchase orders to vendors, with goods received and bill matching
+ * - Stock: Material stock at site, its movements and consumption against the BOQ
+ * - Labour: Muster roll, weekly wage bills and man-days against the BOQ
+ * - Subcontracts: Work orders to subcontractors, their RA bills and retention
  * - Stages: Project stages and tasks
- * - Documents: (future)
+ * - Change Orders: Variations the client approves, revising the BOQ and contract value
+ * - Documents: Files and site photos, shared with the client portal
  * - Reports: (future)
  * - Analytics: (future)
  */
 
-import { useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   House,
@@ -22,9 +27,17 @@ import {
   ChartBar,
   Receipt,
   Scales,
+  ShoppingCart,
+  Package,
+  HardHat,
+  Handshake,
+  Swap,
+  ClockCounterClockwise,
 } from '@phosphor-icons/react';
 
 import { PageContent, Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
 import {
   SecondaryTabs,
   SecondaryTabsList,
@@ -32,12 +45,19 @@ import {
   SecondaryTabsContent,
 } from '@/components/ui/custom/secondary-tabs';
 import { useProject, useProjectStats } from '@/lib/hooks/useProjects';
+import { useCan } from '@/lib/hooks/usePermissions';
 import { ProjectOverviewTab } from '@/components/projects/overview/ProjectOverviewTab';
 import { ProjectExpensesTab } from '@/components/projects/expenses/ProjectExpensesTab';
 import { ProjectPaymentsTab } from '@/components/projects/payments';
+import { ProjectPurchasesTab } from '@/components/projects/purchases';
+import { ProjectStockTab } from '@/components/projects/stock';
+import { ProjectLabourTab } from '@/components/projects/labour';
+import { ProjectSubcontractsTab } from '@/components/projects/subcontracts';
 import { ProjectStagesTab } from '@/components/projects/stages';
 import { ProjectBOQTab } from '@/components/projects/boq';
+import { ProjectChangeOrdersTab } from '@/components/projects/change-orders';
 import { ProjectPLTab } from '@/components/projects/pl';
+import { ProjectDocumentsTab } from '@/components/projects/documents';
 
 // ============================================
 // Component
@@ -47,6 +67,8 @@ export default function ProjectDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
+  const can = useCan();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // URL-based state for persistence
   const activeTab = searchParams.get('tab') || 'overview';
@@ -142,7 +164,21 @@ export default function ProjectDetailPage() {
 
   return (
     <>
-      <Header title={project.name} />
+      <Header
+        title={project.name}
+        actions={
+          can('audit.view') && (
+            <Button
+              variant="outline"
+              onClick={() => setIsHistoryOpen(true)}
+              className="cursor-pointer"
+            >
+              <ClockCounterClockwise className="mr-2 h-4 w-4" />
+              History
+            </Button>
+          )
+        }
+      />
       <PageContent className="pt-2">
         {/* Breadcrumb */}
         {/* <Breadcrumb items={breadcrumbItems} className="mb-2" /> */}
@@ -159,12 +195,37 @@ export default function ProjectDetailPage() {
             <SecondaryTabsTrigger value="payments" icon={Money}>
               Payments
             </SecondaryTabsTrigger>
+            {can('purchases.view') && (
+              <SecondaryTabsTrigger value="purchases" icon={ShoppingCart}>
+                Purchases
+              </SecondaryTabsTrigger>
+            )}
+            {can('stock.view') && (
+              <SecondaryTabsTrigger value="stock" icon={Package}>
+                Stock
+              </SecondaryTabsTrigger>
+            )}
+            {can('labour.view') && (
+              <SecondaryTabsTrigger value="labour" icon={HardHat}>
+                Labour
+              </SecondaryTabsTrigger>
+            )}
+            {can('subcontracts.view') && (
+              <SecondaryTabsTrigger value="subcontracts" icon={Handshake}>
+                Subcontracts
+              </SecondaryTabsTrigger>
+            )}
             <SecondaryTabsTrigger value="stages" icon={Stack}>
               Stages
             </SecondaryTabsTrigger>
             <SecondaryTabsTrigger value="boq" icon={Receipt}>
               Budget & BOQ
             </SecondaryTabsTrigger>
+            {can('variations.view') && (
+              <SecondaryTabsTrigger value="change-orders" icon={Swap}>
+                Change Orders
+              </SecondaryTabsTrigger>
+            )}
             <SecondaryTabsTrigger value="pl" icon={Scales}>
               P&L
             </SecondaryTabsTrigger>
@@ -199,6 +260,30 @@ export default function ProjectDetailPage() {
             />
           </SecondaryTabsContent>
 
+          {can('purchases.view') && (
+            <SecondaryTabsContent value="purchases" className="mt-6">
+              <ProjectPurchasesTab projectId={project.id} />
+            </SecondaryTabsContent>
+          )}
+
+          {can('stock.view') && (
+            <SecondaryTabsContent value="stock" className="mt-6">
+              <ProjectStockTab projectId={project.id} />
+            </SecondaryTabsContent>
+          )}
+
+          {can('labour.view') && (
+            <SecondaryTabsContent value="labour" className="mt-6">
+              <ProjectLabourTab projectId={project.id} />
+            </SecondaryTabsContent>
+          )}
+
+          {can('subcontracts.view') && (
+            <SecondaryTabsContent value="subcontracts" className="mt-6">
+              <ProjectSubcontractsTab projectId={project.id} />
+            </SecondaryTabsContent>
+          )}
+
           <SecondaryTabsContent value="stages" className="mt-6">
             <ProjectStagesTab projectId={project.id} />
           </SecondaryTabsContent>
@@ -207,14 +292,18 @@ export default function ProjectDetailPage() {
             <ProjectBOQTab projectId={project.id} />
           </SecondaryTabsContent>
 
+          {can('variations.view') && (
+            <SecondaryTabsContent value="change-orders" className="mt-6">
+              <ProjectChangeOrdersTab projectId={project.id} />
+            </SecondaryTabsContent>
+          )}
+
           <SecondaryTabsContent value="pl" className="mt-6">
             <ProjectPLTab projectId={project.id} />
           </SecondaryTabsContent>
 
           <SecondaryTabsContent value="documents" className="mt-6">
-            <div className="flex items-center justify-center h-64 text-muted-foreground">
-              Documents tab coming soon
-            </div>
+            <ProjectDocumentsTab projectId={project.id} />
           </SecondaryTabsContent>
 
           <SecondaryTabsContent value="reports" className="mt-6">
@@ -224,6 +313,15 @@ export default function ProjectDetailPage() {
           </SecondaryTabsContent>
         </SecondaryTabs>
       </PageContent>
+
+      {/* Change History */}
+      <HistoryDrawer
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        entityType="PROJECT"
+        entityId={project.id}
+        title="Project history"
+      />
     </>
   );
 }
@@ -0,0 +1,303 @@
+/**
+ * Reports Page
+ *
+ * Payable and receivable aging and monthly tax reports across all projects.
+ * Features:
+ * - Outstanding bills (payables) or due client installments (receivables) in
+ *   0-30, 31-60, 61-90 and 90+ day buckets
+ * - Group by party or by project, net of unapplied payments and receipts
+ * - Drill down to the documents behind a row
+ * - GST input credit and TDS deducted for a month
+ * - Export to CSV
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  ArrowCircleUpRight,
+  ArrowCircleDownLeft,
+  FileCsv,
+  ChartBar,
+  Percent,
+  HandCoins,
+} from '@phosphor-icons/react';
+
+import { PageContent, Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  SecondaryTabs,
+  SecondaryTabsList,
+  SecondaryTabsTrigger,
+} from '@/components/ui/custom/secondary-tabs';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { AgingItemsDialog, TaxReport, type TaxReportKind } from '@/components/reports';
+import { useAgingReport } from '@/lib/hooks/useReports';
+import {
+  downloadAgingReport,
+  type AgingBucket,
+  type AgingGroupBy,
+  type AgingItemsParams,
+  type AgingKind,
+  type AgingRow,
+} from '@/lib/api/reports';
+import { saveFile } from '@/lib/utils';
+
+// ============================================
+// Constants
+// ============================================
+
+const BUCKET_COLUMNS: Array<{ key: AgingBucket; label: string }> = [
+  { key: 'days0to30', label: '0-30 DAYS' },
+  { key: 'days31to60', label: '31-60 DAYS' },
+  { key: 'days61to90', label: '61-90 DAYS' },
+  { key: 'over90', label: '90+ DAYS' },
+];
+
+type ReportTab = AgingKind | TaxReportKind;
+
+// ============================================
+// Helpers
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export default function ReportsPage() {
+  const [tab, setTab] = useState<ReportTab>('payables');
+  const [kind, setKind] = useState<AgingKind>('payables');
+  const [groupBy, setGroupBy] = useState<AgingGroupBy>('party');
+  const [drillDown, setDrillDown] = useState<{ params: AgingItemsParams; title: string } | null>(
+    null
+  );
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const isAging = tab === 'payables' || tab === 'receivables';
+
+  const { data: report, isLoading } = useAgingReport({ kind, groupBy });
+  const rows = report?.rows ?? [];
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const { blob, fileName } = await downloadAgingReport({ kind, groupBy });
+      saveFile(blob, fileName);
+    } catch {
+      toast.error('Failed to download CSV');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const changeTab = (value: string) => {
+    setTab(value as ReportTab);
+    if (value === 'payables' || value === 'receivables') setKind(value);
+  };
+
+  // Rows for projects without a client have nothing to drill into
+  const openRow = (row: AgingRow) => {
+    if (!row.id || row.documents === 0) return;
+    setDrillDown({
+      params: groupBy === 'party' ? { kind, partyId: row.id } : { kind, projectId: row.id },
+      title: row.name,
+    });
+  };
+
+  return (
+    <>
+      <Header
+        title="Reports"
+        subtitle="What you owe and what you are owed, and the tax on it."
+        showSearch={false}
+        actions={
+          isAging && (
+            <Button
+              variant="outline"
+              onClick={handleDownload}
+              disabled={isDownloading || rows.length === 0}
+              className="cursor-pointer"
+            >
+              <FileCsv className="mr-2 h-4 w-4" />
+              {isDownloading ? 'Downloading...' : 'Export CSV'}
+            </Button>
+          )
+        }
+      />
+
+      <PageContent className="pt-2">
+        <div className="space-y-4">
+          {/* Filters */}
+          <div className="flex items-center justify-between gap-4">
+            <SecondaryTabs value={tab} onValueChange={changeTab}>
+              <SecondaryTabsList>
+                <SecondaryTabsTrigger value="payables" icon={ArrowCircleUpRight}>
+                  Payables
+                </SecondaryTabsTrigger>
+                <SecondaryTabsTrigger value="receivables" icon={ArrowCircleDownLeft}>
+                  Receivables
+                </SecondaryTabsTrigger>
+                <SecondaryTabsTrigger value="gst-input" icon={Percent}>
+                  GST Input
+                </SecondaryTabsTrigger>
+                <SecondaryTabsTrigger value="tds" icon={HandCoins}>
+                  TDS
+                </SecondaryTabsTrigger>
+              </SecondaryTabsList>
+            </SecondaryTabs>
+
+            {isAging && (
+              <Select value={groupBy} onValueChange={(value) => setGroupBy(value as AgingGroupBy)}>
+                <SelectTrigger className="w-[180px] cursor-pointer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="party" className="cursor-pointer">
+                    {kind === 'payables' ? 'By party' : 'By client'}
+                  </SelectItem>
+                  <SelectItem value="project" className="cursor-pointer">
+                    By project
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {!isAging ? (
+            <TaxReport kind={tab as TaxReportKind} />
+          ) : isLoading ? (
+            <div className="h-64 rounded-lg border bg-muted/40 animate-pulse" />
+          ) : !report || rows.length === 0 ? (
+            <Empty className="py-16">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <ChartBar className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>Nothing outstanding</EmptyTitle>
+                <EmptyDescription>
+                  {kind === 'payables'
+                    ? 'Bills not yet paid in full will appear here.'
+                    : 'Client installments that are due and not yet received will appear here.'}
+                </EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="rounded-lg border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>
+                      {groupBy === 'project' ? 'PROJECT' : kind === 'payables' ? 'PARTY' : 'CLIENT'}
+                    </TableHead>
+                    {BUCKET_COLUMNS.map((column) => (
+                      <TableHead key={column.key} className="text-right">
+                        {column.label}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">TOTAL</TableHead>
+                    <TableHead className="text-right">
+                      {kind === 'payables' ? 'ADVANCE / ON ACCOUNT' : 'UNAPPLIED RECEIPTS'}
+                    </TableHead>
+                    <TableHead className="text-right">NET</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow
+                      key={row.id ?? 'none'}
+                      onClick={() => openRow(row)}
+                      className={row.id && row.documents > 0 ? 'cursor-pointer' : undefined}
+                    >
+                      <TableCell className="font-medium">
+                        {row.name}
+                        {row.documents > 0 && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {row.documents} open
+                          </span>
+                        )}
+                      </TableCell>
+                      {BUCKET_COLUMNS.map((column) => (
+                        <TableCell
+                          key={column.key}
+                          className={
+                            column.key === 'over90' && row.over90 > 0
+                              ? 'text-right text-destructive'
+                              : 'text-right'
+                          }
+                        >
+                          {row[column.key] ? formatCurrency(row[column.key]) : '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right">{formatCurrency(row.total)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {row.unappliedCredit ? formatCurrency(row.unappliedCredit) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatCurrency(row.net)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    {BUCKET_COLUMNS.map((column) => (
+                      <TableCell key={column.key} className="text-right font-semibold">
+                        {formatCurrency(report.totals[column.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(report.totals.total)}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(report.totals.unappliedCredit)}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(report.totals.net)}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+              <p className="border-t px-4 py-2 text-xs text-muted-foreground">
+                As of {format(new Date(report.asOf), 'MMM d, yyyy')}. Click a row to see the{' '}
+                {kind === 'payables' ? 'bills' : 'installments'} behind it.
+              </p>
+            </div>
+          )}
+        </div>
+      </PageContent>
+
+      <AgingItemsDialog
+        params={drillDown?.params ?? null}
+        title={drillDown?.title ?? ''}
+        onOpenChange={(open) => !open && setDrillDown(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * Approval Rules Page
+ *
+ * Configure who approves expenses.
+ * Features:
+ * - Organization-wide rules, and per-project rules that replace them
+ * - Minimum amount per rule, so larger expenses need more levels of approval
+ * - Add, edit and delete rules
+ */
+
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+import { PencilSimple, SealCheck, Trash } from '@phosphor-icons/react';
+
+import { PageContent, Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { ApprovalRuleFormDialog } from '@/components/approvals/ApprovalRuleFormDialog';
+import {
+  useApprovalRules,
+  useCreateApprovalRule,
+  useUpdateApprovalRule,
+  useDeleteApprovalRule,
+} from '@/lib/hooks/useApprovals';
+import { useRoles } from '@/lib/hooks/useRoles';
+import { useTeamMembers } from '@/lib/hooks/useTeam';
+import { useProjects } from '@/lib/hooks/useProjects';
+import type { ApprovalRule, ApprovalRuleInput } from '@/lib/api/approvals';
+
+// ============================================
+// Helpers
+// ============================================
+
+function formatCurrency(amount: number): string {
+  return `₹${Number(amount).toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+}
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return (isAxiosError(error) ? error.response?.data?.error?.message : undefined) ?? fallback;
+}
+
+function approverName(rule: ApprovalRule): string {
+  if (rule.approverMember) return rule.approverMember.user.name;
+  return rule.approverRole ? `Anyone with role ${rule.approverRole.name}` : '—';
+}
+
+/**
+ * Rules grouped by scope: organization-wide first, then one group per project
+ */
+function groupRules(rules: ApprovalRule[]) {
+  const groups = new Map<string, { title: string; rules: ApprovalRule[] }>();
+  for (const rule of rules) {
+    const key = rule.projectId ?? '';
+    const title = rule.project?.name ?? 'All projects';
+    groups.set(key, { title, rules: [...(groups.get(key)?.rules ?? []), rule] });
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => (a === '' ? -1 : b === '' ? 1 : 0))
+    .map(([key, group]) => ({ key, ...group }));
+}
+
+// ============================================
+// Component
+// ============================================
+
+export default function ApprovalRulesPage() {
+  // Dialog state
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<ApprovalRule | null>(null);
+
+  // Queries
+  const { data: rules = [], isLoading } = useApprovalRules();
+  const { data: rolesData } = useRoles({ limit: 50 });
+  const { data: membersData } = useTeamMembers({ limit: 100 });
+  const { data: projectsData } = useProjects({ limit: 100 });
+
+  // Mutations
+  const createMutation = useCreateApprovalRule();
+  const updateMutation = useUpdateApprovalRule();
+  const deleteMutation = useDeleteApprovalRule();
+
+  const groups = groupRules(rules);
+
+  // Handlers
+  const handleAddRule = useCallback(() => {
+    setSelectedRule(null);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleEditRule = useCallback((rule: ApprovalRule) => {
+    setSelectedRule(rule);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (data: ApprovalRuleInput) => {
+      try {
+        if (selectedRule) {
+          await updateMutation.mutateAsync({ id: selectedRule.id, data });
+          toast.success('Approval rule updated');
+        } else {
+          await createMutation.mutateAsync(data);
+          toast.success('Approval rule added');
+        }
+        setIsFormOpen(false);
+        setSelectedRule(null);
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Failed to save approval rule'));
+      }
+    },
+    [selectedRule, createMutation, updateMutation]
+  );
+
+  const handleDeleteRule = useCallback(
+    async (rule: ApprovalRule) => {
+      try {
+        await deleteMutation.mutateAsync(rule.id);
+        toast.success('Approval rule deleted');
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Failed to delete approval rule'));
+      }
+    },
+    [deleteMutation]
+  );
+
+  return (
+    <>
+      <Header
+        title="Approval Rules"
+        subtitle="Decide who approves expenses, by project and amount"
+        showSearch={false}
+        primaryActionLabel=""
+      />
+
+      <PageContent>
+        <div className="space-y-6">
+          {/* Toolbar */}
+          <div className="flex items-center gap-3">
+            <p className="flex-1 text-sm text-muted-foreground">
+              Without rules, anyone allowed to approve expenses can approve them in one step.
+            </p>
+            <Button onClick={handleAddRule} className="cursor-pointer">
+              Add rule
+            </Button>
+          </div>
+
+          {/* Rules */}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <div key={index} className="h-16 rounded-lg border bg-card animate-pulse" />
+              ))}
+            </div>
+          ) : groups.length === 0 ? (
+            <Empty className="py-16">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <SealCheck className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No approval rules</EmptyTitle>
+                <EmptyDescription>
+                  Add a rule to name approvers or require more approvals for large expenses.
+                </EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            groups.map((group) => (
+              <div key={group.key} className="space-y-2">
+                <h3 className="text-sm font-medium text-muted-foreground">{group.title}</h3>
+                {group.rules.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className="flex items-center gap-4 p-4 rounded-lg border bg-card"
+                  >
+                    <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted text-sm font-semibold text-muted-foreground">
+                      L{rule.level}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{approverName(rule)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {Number(rule.minAmount) > 0
+                          ? `Expenses of ${formatCurrency(rule.minAmount)} or more`
+                          : 'All expenses'}
+                      </p>
+                    </div>
+
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 cursor-pointer"
+                      onClick={() => handleEditRule(rule)}
+                    >
+                      <PencilSimple className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 cursor-pointer text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteRule(rule)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </PageContent>
+
+      <ApprovalRuleFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        rule={selectedRule}
+        projects={projectsData?.items ?? []}
+        roles={rolesData?.items ?? []}
+        members={membersData?.items ?? []}
+        onSubmit={handleSubmit}
+        isSubmitting={createMutation.isPending || updateMutation.isPending}
+      />
+    </>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * Rate Library Page
+ *
+ * The rates the organization has actually paid, kept up to date from expenses.
+ * Features:
+ * - One entry per material, labour or sub-work type and unit
+ * - Last, average, lowest and highest rate, and how many vendors and locations
+ * - Each entry's rate by vendor, by location and month by month
+ * - Rates from expenses dated within a chosen range
+ */
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Books, MagnifyingGlass } from '@phosphor-icons/react';
+
+import { PageContent, Header } from '@/components/layout';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DateRangePicker } from '@/components/ui/custom/date-range-picker';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { RateEntryDialog } from '@/components/rate-library/RateEntryDialog';
+import { useRateLibrary } from '@/lib/hooks/useRateLibrary';
+import type { RateLibraryEntry, RateLibraryType } from '@/lib/api/rate-library';
+import { formatCurrency } from '@/components/projects/change-orders/format';
+
+// ============================================
+// Constants
+// ============================================
+
+const ALL_TYPES = 'all';
+
+const TYPE_LABELS: Record<RateLibraryType, string> = {
+  material_type: 'Material',
+  labour_type: 'Labour',
+  sub_work_type: 'Sub Work',
+};
+
+// ============================================
+// Component
+// ============================================
+
+export default function RateLibraryPage() {
+  const [type, setType] = useState<RateLibraryType | typeof ALL_TYPES>(ALL_TYPES);
+  const [search, setSearch] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [selectedEntry, setSelectedEntry] = useState<RateLibraryEntry | null>(null);
+
+  const period = {
+    from: dateRange?.from?.toISOString(),
+    to: dateRange?.to?.toISOString(),
+  };
+  const { data: entries = [], isLoading } = useRateLibrary({
+    type: type === ALL_TYPES ? undefined : type,
+    search: search.trim() || undefined,
+    ...period,
+  });
+
+  return (
+    <>
+      <Header
+        title="Rate Library"
+        subtitle="What the organization has paid, from its expenses"
+        showSearch={false}
+        primaryActionLabel=""
+      />
+
+      <PageContent>
+        <div className="space-y-6">
+          {/* Toolbar */}
+          <div className="flex items-center gap-3">
+            <Tabs value={type} onValueChange={(v) => setType(v as typeof type)}>
+              <TabsList>
+                <TabsTrigger value={ALL_TYPES} className="cursor-pointer">
+                  All
+                </TabsTrigger>
+                {Object.entries(TYPE_LABELS).map(([key, label]) => (
+                  <TabsTrigger key={key} value={key} className="cursor-pointer">
+                    {label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <DateRangePicker
+              onUpdate={(values) => setDateRange(values.range)}
+              initialDateFrom={dateRange?.from}
+              initialDateTo={dateRange?.to}
+              align="start"
+              showCompare={false}
+              isClearable
+              onClear={() => setDateRange(undefined)}
+            />
+            <div className="relative ml-auto w-64">
+              <MagnifyingGlass className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search types"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+
+          {/* Entries */}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <div key={index} className="h-12 rounded-lg border bg-card animate-pulse" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <Empty className="py-16">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Books className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No rates yet</EmptyTitle>
+                <EmptyDescription>
+                  Rates appear here as expenses are entered with a material, labour or sub-work
+                  type.
+                </EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="rounded-lg border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>TYPE</TableHead>
+                    <TableHead className="w-20">UNIT</TableHead>
+                    <TableHead className="text-right">LAST</TableHead>
+                    <TableHead className="text-right">AVERAGE</TableHead>
+                    <TableHead className="text-right">RANGE</TableHead>
+                    <TableHead className="text-right">VENDORS</TableHead>
+                    <TableHead className="text-right">LOCATIONS</TableHead>
+                    <TableHead className="text-right">EXPENSES</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow
+                      key={`${entry.categoryItem.id}:${entry.unit ?? ''}`}
+                      onClick={() => setSelectedEntry(entry)}
+                      className="cursor-pointer"
+                    >
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {entry.categoryItem.name}
+                          <Badge variant="secondary">{TYPE_LABELS[entry.type]}</Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{entry.unit ?? '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex flex-col">
+                          <span>{formatCurrency(entry.lastRate)}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(entry.lastDate), 'MMM d, yyyy')}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(entry.averageRate)}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {formatCurrency(entry.minRate)}–{formatCurrency(entry.maxRate)}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.vendorCount}</TableCell>
+                      <TableCell className="text-right">{entry.locationCount}</TableCell>
+                      <TableCell className="text-right">{entry.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </PageContent>
+
+      <RateEntryDialog
+        open={!!selectedEntry}
+        onOpenChange={(open) => !open && setSelectedEntry(null)}
+        entry={selectedEntry}
+        period={period}
+      />
+    </>
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * Rate Templates Page
+ *
+ * The organization's library of rate analyses.
+ * Features:
+ * - Each template's material, labour and equipment cost per unit and its rate
+ * - Add, edit and delete templates
+ * - Templates are loaded into a BOQ item's rate analysis from the project BOQ
+ */
+
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
+import { Calculator, PencilSimple, Trash } from '@phosphor-icons/react';
+
+import { PageContent, Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { RateTemplateFormDialog } from '@/components/rate-analysis/RateTemplateFormDialog';
+import {
+  useRateTemplates,
+  useCreateRateTemplate,
+  useUpdateRateTemplate,
+  useDeleteRateTemplate,
+} from '@/lib/hooks/useRateAnalysis';
+import { useCan } from '@/lib/hooks/usePermissions';
+import type { RateTemplate, RateTemplateInput } from '@/lib/api/rate-analysis';
+import { formatCurrency } from '@/components/projects/change-orders/format';
+
+// ============================================
+// Helpers
+// ============================================
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return (isAxiosError(error) ? error.response?.data?.error?.message : undefined) ?? fallback;
+}
+
+function describeCosts(template: RateTemplate): string {
+  return [
+    ['Material', template.materialCost],
+    ['Labour', template.labourCost],
+    ['Equipment', template.equipmentCost],
+    ['Other', template.otherCost],
+  ]
+    .filter(([, amount]) => Number(amount) > 0)
+    .map(([label, amount]) => `${label} ${formatCurrency(Number(amount))}`)
+    .join(' · ');
+}
+
+// ============================================
+// Component
+// ============================================
+
+export default function RateTemplatesPage() {
+  const can = useCan();
+  const canManage = can('boq.manage');
+
+  // Dialog state
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState<RateTemplate | null>(null);
+
+  // Queries
+  const { data: templates = [], isLoading } = useRateTemplates();
+
+  // Mutations
+  const createMutation = useCreateRateTemplate();
+  const updateMutation = useUpdateRateTemplate();
+  const deleteMutation = useDeleteRateTemplate();
+
+  // Handlers
+  const handleAddTemplate = useCallback(() => {
+    setSelectedTemplate(null);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleEditTemplate = useCallback((template: RateTemplate) => {
+    setSelectedTemplate(template);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (data: RateTemplateInput) => {
+      try {
+        if (selectedTemplate) {
+          await updateMutation.mutateAsync({ id: selectedTemplate.id, data });
+          toast.success('Template updated');
+        } else {
+          await createMutation.mutateAsync(data);
+          toast.success('Template added');
+        }
+        setIsFormOpen(false);
+        setSelectedTemplate(null);
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Failed to save template'));
+      }
+    },
+    [selectedTemplate, createMutation, updateMutation]
+  );
+
+  const handleDeleteTemplate = useCallback(
+    async (template: RateTemplate) => {
+      try {
+        await deleteMutation.mutateAsync(template.id);
+        toast.success('Template deleted');
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Failed to delete template'));
+      }
+    },
+    [deleteMutation]
+  );
+
+  return (
+    <>
+      <Header
+        title="Rate Templates"
+        subtitle="Reusable rate analyses for BOQ items"
+        showSearch={false}
+        primaryActionLabel=""
+      />
+
+      <PageContent>
+        <div className="space-y-6">
+          {/* Toolbar */}
+          <div className="flex items-center gap-3">
+            <p className="flex-1 text-sm text-muted-foreground">
+              Break a unit of work into material, labour and equipment once, then reuse it when
+              pricing BOQ items on any project.
+            </p>
+            {canManage && (
+              <Button onClick={handleAddTemplate} className="cursor-pointer">
+                Add template
+              </Button>
+            )}
+          </div>
+
+          {/* Templates */}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <div key={index} className="h-16 rounded-lg border bg-card animate-pulse" />
+              ))}
+            </div>
+          ) : templates.length === 0 ? (
+            <Empty className="py-16">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Calculator className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No rate templates</EmptyTitle>
+                <EmptyDescription>
+                  Add a template for work you price often, such as brickwork or plastering.
+                </EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className="flex items-center gap-4 p-4 rounded-lg border bg-card"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{template.name}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {describeCosts(template) || 'No costs'}
+                      {Number(template.overheadPercent) > 0 &&
+                        ` · Overhead ${Number(template.overheadPercent)}%`}
+                      {Number(template.profitPercent) > 0 &&
+                        ` · Profit ${Number(template.profitPercent)}%`}
+                    </p>
+                  </div>
+
+                  <div className="text-right">
+                    <p className="font-semibold">{formatCurrency(template.unitRate)}</p>
+                    <p className="text-xs text-muted-foreground">per {template.unit}</p>
+                  </div>
+
+                  {canManage && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 cursor-pointer"
+                        onClick={() => handleEditTemplate(template)}
+                      >
+                        <PencilSimple className="h-4 w-4" />
+                        <span className="sr-only">Edit</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 cursor-pointer text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteTemplate(template)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PageContent>
+
+      <RateTemplateFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        template={selectedTemplate}
+        onSubmit={handleSubmit}
+        isSubmitting={createMutation.isPending || updateMutation.isPending}
+      />
+    </>
+  );
+}
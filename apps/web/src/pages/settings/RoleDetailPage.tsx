@@ -5,7 +5,7 @@
  * Features:
  * - View mode (read-only) by default when viewing existing role
  * - Edit mode when creating new role or clicking Edit button
- * - Role name and description form
+ * - Role name and description form, and whether it is limited to assigned projects
  * - Permissions editor with grouped checkboxes
  * - Select all functionality per category
  */
@@ -13,7 +13,7 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
-import { ArrowLeft, Shield, Pencil } from 'lucide-react';
+import { ArrowLeft, Shield, Pencil, History } from 'lucide-react';
 
 import { PageContent, Header } from '@/components/layout';
 import { Button } from '@/components/ui/button';
@@ -22,7 +22,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { TypographyMuted } from '@/components/ui/typography';
 import { useRole, useCreateRole, useUpdateRole } from '@/lib/hooks/useRoles';
-import { usePermissionsGrouped } from '@/lib/hooks/usePermissions';
+import { usePermissionsGrouped, useCan } from '@/lib/hooks/usePermissions';
+import { HistoryDrawer } from '@/components/audit/HistoryDrawer';
 import type { CreateRoleInput, UpdateRoleInput } from '@/lib/api/roles';
 
 // ============================================
@@ -33,13 +34,16 @@ export default function RoleDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const isNewRole = id === 'new';
+  const can = useCan();
 
   // Edit mode state - new roles start in edit mode, existing roles start in view mode
   const [isEditMode, setIsEditMode] = useState(isNewRole);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // Form state
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [projectScoped, setProjectScoped] = useState(false);
   const [selectedPermissionIds, setSelectedPermissionIds] = useState<Set<string>>(new Set());
   const [hasChanges, setHasChanges] = useState(false);
 
@@ -56,6 +60,7 @@ export default function RoleDetailPage() {
     if (role && !isNewRole) {
       setName(role.name);
       setDescription(role.description || '');
+      setProjectScoped(role.projectScoped);
       const permIds = new Set(role.permissions.map((p) => p.id));
       setSelectedPermissionIds(permIds);
       setHasChanges(false);
@@ -78,12 +83,13 @@ export default function RoleDetailPage() {
 
     const nameChanged = name !== role.name;
     const descChanged = description !== (role.description || '');
+    const scopeChanged = projectScoped !== role.projectScoped;
     const permissionsChanged =
       selectedPermissionIds.size !== originalPermissionIds.size ||
       [...selectedPermissionIds].some((permId) => !originalPermissionIds.has(permId));
 
-    setHasChanges(nameChanged || descChanged || permissionsChanged);
-  }, [name, description, selectedPermissionIds, originalPermissionIds, role, isNewRole]);
+    setHasChanges(nameChanged || descChanged || scopeChanged || permissionsChanged);
+  }, [name, description, projectScoped, selectedPermissionIds, originalPermissionIds, role, isNewRole]);
 
   // Handlers
   const handleBack = useCallback(() => {
@@ -98,6 +104,7 @@ export default function RoleDetailPage() {
       if (role) {
         setName(role.name);
         setDescription(role.description || '');
+        setProjectScoped(role.projectScoped);
         const permIds = new Set(role.permissions.map((p) => p.id));
         setSelectedPermissionIds(permIds);
       }
@@ -155,6 +162,7 @@ export default function RoleDetailPage() {
         const data: CreateRoleInput = {
           name: name.trim(),
           description: description.trim() || undefined,
+          projectScoped,
           permissionIds: [...selectedPermissionIds],
         };
         await createMutation.mutateAsync(data);
@@ -164,6 +172,7 @@ export default function RoleDetailPage() {
         const data: UpdateRoleInput = {
           name: name.trim(),
           description: description.trim() || undefined,
+          projectScoped,
           permissionIds: [...selectedPermissionIds],
         };
         await updateMutation.mutateAsync({ id, data });
@@ -179,6 +188,7 @@ export default function RoleDetailPage() {
     id,
     name,
     description,
+    projectScoped,
     selectedPermissionIds,
     createMutation,
     updateMutation,
@@ -292,14 +302,26 @@ export default function RoleDetailPage() {
                   </Button>
                 </>
               ) : (
-                <Button
-                  variant="outline"
-                  onClick={handleEdit}
-                  className="cursor-pointer"
-                >
-                  <Pencil className="mr-2 h-4 w-4" />
-                  Edit
-                </Button>
+                <>
+                  {can('audit.view') && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => setIsHistoryOpen(true)}
+                      className="cursor-pointer"
+                    >
+                      <History className="mr-2 h-4 w-4" />
+                      History
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={handleEdit}
+                    className="cursor-pointer"
+                  >
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Button>
+                </>
               )}
             </div>
           </div>
@@ -338,6 +360,25 @@ export default function RoleDetailPage() {
                 )}
               </div>
             </div>
+            <div className="flex items-start gap-3 mt-4">
+              <Checkbox
+                id="role-project-scoped"
+                checked={projectScoped}
+                onCheckedChange={(checked) => setProjectScoped(checked === true)}
+                disabled={!isEditMode || role?.isSystemRole}
+                className="mt-0.5 cursor-pointer"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="role-project-scoped" className="cursor-pointer">
+                  Only assigned projects
+                </Label>
+                <TypographyMuted className="text-sm">
+                  {role?.isSystemRole
+                    ? 'System roles keep their project access'
+                    : 'Members with this role only see the projects they are given access to'}
+                </TypographyMuted>
+              </div>
+            </div>
           </div>
 
           {/* Permissions Card */}
@@ -420,6 +461,17 @@ export default function RoleDetailPage() {
           </div>
         </div>
       </PageContent>
+
+      {/* Change History */}
+      {!isNewRole && (
+        <HistoryDrawer
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          entityType="ROLE"
+          entityId={id ?? null}
+          title="Role history"
+        />
+      )}
     </>
   );
 }
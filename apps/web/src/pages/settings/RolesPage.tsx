@@ -27,6 +27,7 @@ import {
 import { DeleteRoleDialog } from '@/components/roles/DeleteRoleDialog';
 import { useRoles, useDeleteRole } from '@/lib/hooks/useRoles';
 import { useDebounce } from '@/lib/hooks/useDebounce';
+import { useCan } from '@/lib/hooks/usePermissions';
 import type { Role } from '@/lib/api/roles';
 
 // ============================================
@@ -34,6 +35,7 @@ import type { Role } from '@/lib/api/roles';
 // ============================================
 
 export default function RolesPage() {
+  const can = useCan();
   const navigate = useNavigate();
 
   // Search state
@@ -117,9 +119,11 @@ export default function RolesPage() {
             <div className="flex-1" />
 
             {/* Create Role Button */}
-            <Button onClick={handleCreateRole} className="cursor-pointer">
-              Create role
-            </Button>
+            {can('roles.manage') && (
+              <Button onClick={handleCreateRole} className="cursor-pointer">
+                Create role
+              </Button>
+            )}
           </div>
 
           {/* Roles List */}
@@ -0,0 +1,220 @@
+/**
+ * My Sessions Page
+ *
+ * Lists the devices the current user is signed in on.
+ * Features:
+ * - Device (from user agent), IP address and last activity per session
+ * - Sign out a single device
+ * - Sign out other devices, or everywhere
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { DeviceMobile, Desktop, SignOut } from '@phosphor-icons/react';
+
+import { PageContent, Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { useSessions, useRevokeSession, useRevokeAllSessions } from '@/lib/hooks/useSessions';
+import { useAuthStore } from '@/stores/auth.store';
+import type { AuthSession } from '@/lib/api/sessions';
+
+// ============================================
+// Helpers
+// ============================================
+
+const MOBILE_PATTERN = /Android|iPhone|iPad|Mobile/i;
+
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['Chrome/', 'Chrome'],
+      ['Firefox/', 'Firefox'],
+      ['Safari/', 'Safari'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? 'Browser';
+
+  const os =
+    [
+      ['Android', 'Android'],
+      ['iPhone', 'iPhone'],
+      ['iPad', 'iPad'],
+      ['Windows', 'Windows'],
+      ['Mac OS', 'macOS'],
+      ['Linux', 'Linux'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? 'Unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export default function SessionsPage() {
+  const { logoutUser } = useAuthStore();
+
+  // Queries
+  const { data: sessions = [], isLoading } = useSessions();
+
+  // Mutations
+  const revokeMutation = useRevokeSession();
+  const revokeAllMutation = useRevokeAllSessions();
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  // Handlers
+  const handleRevoke = useCallback(
+    async (session: AuthSession) => {
+      try {
+        await revokeMutation.mutateAsync(session.id);
+        if (session.isCurrent) {
+          logoutUser();
+          return;
+        }
+        toast.success('Device signed out');
+      } catch {
+        toast.error('Failed to sign out device');
+      }
+    },
+    [revokeMutation, logoutUser]
+  );
+
+  const handleRevokeOthers = useCallback(async () => {
+    try {
+      const { revokedCount } = await revokeAllMutation.mutateAsync(true);
+      toast.success(`Signed out ${revokedCount} other device${revokedCount === 1 ? '' : 's'}`);
+    } catch {
+      toast.error('Failed to sign out other devices');
+    }
+  }, [revokeAllMutation]);
+
+  const handleRevokeEverywhere = useCallback(async () => {
+    try {
+      await revokeAllMutation.mutateAsync(false);
+      logoutUser();
+    } catch {
+      toast.error('Failed to sign out');
+    }
+  }, [revokeAllMutation, logoutUser]);
+
+  return (
+    <>
+      <Header
+        title="My Sessions"
+        subtitle="Devices where you are signed in. Sign out any you don't recognise."
+        showSearch={false}
+        primaryActionLabel=""
+      />
+
+      <PageContent>
+        <div className="space-y-4">
+          {/* Toolbar */}
+          <div className="flex items-center gap-3">
+            <div className="flex-1" />
+            <Button
+              variant="outline"
+              onClick={handleRevokeOthers}
+              disabled={!hasOtherSessions || revokeAllMutation.isPending}
+              className="cursor-pointer"
+            >
+              Sign out other devices
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRevokeEverywhere}
+              disabled={revokeAllMutation.isPending}
+              className="cursor-pointer"
+            >
+              <SignOut className="mr-2 h-4 w-4" />
+              Log out everywhere
+            </Button>
+          </div>
+
+          {/* Sessions List */}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <div
+                  key={index}
+                  className="flex items-center gap-4 p-4 rounded-lg border bg-card animate-pulse"
+                >
+                  <div className="h-10 w-10 rounded-lg bg-gray-200" />
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 w-40 bg-gray-200 rounded" />
+                    <div className="h-3 w-24 bg-gray-200 rounded" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : sessions.length === 0 ? (
+            <Empty className="py-16">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <DeviceMobile className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>No active sessions</EmptyTitle>
+                <EmptyDescription>Sessions appear here after you sign in.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => {
+                const DeviceIcon = MOBILE_PATTERN.test(session.userAgent ?? '')
+                  ? DeviceMobile
+                  : Desktop;
+
+                return (
+                  <div
+                    key={session.id}
+                    className="flex items-center gap-4 p-4 rounded-lg border bg-card"
+                  >
+                    {/* Icon */}
+                    <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                      <DeviceIcon className="h-5 w-5" />
+                    </div>
+
+                    {/* Device */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">
+                          {describeDevice(session.userAgent)}
+                        </span>
+                        {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {session.ipAddress ?? 'Unknown IP'} · Last active{' '}
+                        {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+
+                    {/* Revoke */}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                      disabled={revokeMutation.isPending}
+                      className="cursor-pointer text-destructive hover:text-destructive"
+                    >
+                      Sign out
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </PageContent>
+    </>
+  );
+}
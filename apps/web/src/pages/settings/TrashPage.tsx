@@ -0,0 +1,307 @@
+/**
+ * Trash Page
+ *
+ * Deleted projects, parties, expenses and payments of the organization.
+ * Features:
+ * - Filter by record type
+ * - Restore any item
+ * - Permanently delete (admins only, once the retention window has passed)
+ */
+
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  Trash,
+  Folder,
+  Handshake,
+  Receipt,
+  Money,
+  ArrowCounterClockwise,
+  SquaresFour,
+} from '@phosphor-icons/react';
+import type { Icon } from '@phosphor-icons/react';
+
+import { PageContent, Header } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  SecondaryTabs,
+  SecondaryTabsList,
+  SecondaryTabsTrigger,
+} from '@/components/ui/custom/secondary-tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Empty,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  EmptyDescription,
+} from '@/components/ui/empty';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { useTrash, useRestoreTrashItem, usePurgeTrashItem } from '@/lib/hooks/useTrash';
+import { useMyPermissions } from '@/lib/hooks/usePermissions';
+import type { TrashEntityType, TrashItem } from '@/lib/api/trash';
+
+const PAGINATION_LIMIT = 20;
+
+// ============================================
+// Types
+// ============================================
+
+type TabValue = 'ALL' | TrashEntityType;
+
+// ============================================
+// Helpers
+// ============================================
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+  PROJECT: 'Project',
+  PARTY: 'Party',
+  EXPENSE: 'Expense',
+  PAYMENT: 'Payment',
+};
+
+const ENTITY_ICONS: Record<TrashEntityType, Icon> = {
+  PROJECT: Folder,
+  PARTY: Handshake,
+  EXPENSE: Receipt,
+  PAYMENT: Money,
+};
+
+function formatCurrency(amount: number): string {
+  return `₹${amount.toLocaleString()}`;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export default function TrashPage() {
+  const { data: myPermissions } = useMyPermissions();
+  const hasFullAccess = myPermissions?.fullAccess ?? false;
+
+  // Filter and pagination state
+  const [activeTab, setActiveTab] = useState<TabValue>('ALL');
+  const [page, setPage] = useState(1);
+  const [purgingItem, setPurgingItem] = useState<TrashItem | null>(null);
+
+  // Queries
+  const { data, isLoading } = useTrash({
+    page,
+    limit: PAGINATION_LIMIT,
+    entityType: activeTab === 'ALL' ? undefined : activeTab,
+  });
+  const items = data?.items ?? [];
+
+  // Mutations
+  const restoreMutation = useRestoreTrashItem();
+  const purgeMutation = usePurgeTrashItem();
+
+  // Handlers
+  const handleTabChange = useCallback((value: string) => {
+    setActiveTab(value as TabValue);
+    setPage(1);
+  }, []);
+
+  const handleRestore = useCallback(
+    async (item: TrashItem) => {
+      try {
+        await restoreMutation.mutateAsync({ entityType: item.entityType, id: item.id });
+        toast.success(`${ENTITY_LABELS[item.entityType]} restored`);
+      } catch {
+        toast.error(`Failed to restore ${ENTITY_LABELS[item.entityType].toLowerCase()}`);
+      }
+    },
+    [restoreMutation]
+  );
+
+  const handleConfirmPurge = useCallback(async () => {
+    if (!purgingItem) return;
+
+    try {
+      await purgeMutation.mutateAsync({ entityType: purgingItem.entityType, id: purgingItem.id });
+      toast.success(`${ENTITY_LABELS[purgingItem.entityType]} permanently deleted`);
+      setPurgingItem(null);
+    } catch {
+      toast.error(`Failed to delete ${ENTITY_LABELS[purgingItem.entityType].toLowerCase()}`);
+    }
+  }, [purgeMutation, purgingItem]);
+
+  return (
+    <>
+      <Header
+        title="Trash"
+        subtitle="Deleted records can be restored. Admins can permanently delete them after the retention period."
+        showSearch={false}
+        primaryActionLabel=""
+      />
+
+      <PageContent>
+        <div className="space-y-4">
+          {/* Type Filter */}
+          <SecondaryTabs value={activeTab} onValueChange={handleTabChange}>
+            <SecondaryTabsList>
+              <SecondaryTabsTrigger value="ALL" icon={SquaresFour} className="cursor-pointer">
+                All
+              </SecondaryTabsTrigger>
+              {(Object.keys(ENTITY_LABELS) as TrashEntityType[]).map((type) => (
+                <SecondaryTabsTrigger
+                  key={type}
+                  value={type}
+                  icon={ENTITY_ICONS[type]}
+                  className="cursor-pointer"
+                >
+                  {type === 'PARTY' ? 'Parties' : `${ENTITY_LABELS[type]}s`}
+                </SecondaryTabsTrigger>
+              ))}
+            </SecondaryTabsList>
+          </SecondaryTabs>
+
+          {/* Trash List */}
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }).map((_, index) => (
+                <div
+                  key={index}
+                  className="flex items-center gap-4 p-4 rounded-lg border bg-card animate-pulse"
+                >
+                  <div className="h-10 w-10 rounded-lg bg-gray-200" />
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 w-40 bg-gray-200 rounded" />
+                    <div className="h-3 w-24 bg-gray-200 rounded" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : items.length === 0 ? (
+            <Empty className="py-16">
+              <EmptyHeader>
+                <EmptyMedia variant="icon">
+                  <Trash className="h-6 w-6" />
+                </EmptyMedia>
+                <EmptyTitle>Trash is empty</EmptyTitle>
+                <EmptyDescription>Deleted records will appear here.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <div className="rounded-lg border bg-card">
+              <div className="divide-y">
+                {items.map((item) => {
+                  const EntityIcon = ENTITY_ICONS[item.entityType];
+                  const canPurge = new Date(item.purgeableAt) <= new Date();
+
+                  return (
+                    <div
+                      key={`${item.entityType}-${item.id}`}
+                      className="flex items-center gap-4 p-4"
+                    >
+                      {/* Icon */}
+                      <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                        <EntityIcon className="h-5 w-5" />
+                      </div>
+
+                      {/* Record */}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{item.name}</span>
+                          <Badge variant="secondary">{ENTITY_LABELS[item.entityType]}</Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {[
+                            item.projectName,
+                            item.amount !== null ? formatCurrency(item.amount) : null,
+                            `Deleted by ${item.deletedBy?.user.name ?? 'former member'} ${formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}`,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                      </div>
+
+                      {/* Actions */}
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(item)}
+                          disabled={restoreMutation.isPending}
+                          className="cursor-pointer"
+                        >
+                          <ArrowCounterClockwise className="mr-2 h-4 w-4" />
+                          Restore
+                        </Button>
+                        {hasFullAccess && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPurgingItem(item)}
+                            disabled={!canPurge}
+                            title={
+                              canPurge
+                                ? undefined
+                                : `Can be deleted permanently from ${format(new Date(item.purgeableAt), 'dd MMM yyyy')}`
+                            }
+                            className="cursor-pointer text-destructive hover:text-destructive"
+                          >
+                            Delete forever
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {data && data.pagination.pages > 1 && (
+                <TablePagination
+                  page={data.pagination.page}
+                  pages={data.pagination.pages}
+                  total={data.pagination.total}
+                  limit={data.pagination.limit}
+                  onPageChange={setPage}
+                  itemLabel="items"
+                  className="border-t"
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </PageContent>
+
+      {/* Purge Confirmation */}
+      <AlertDialog open={!!purgingItem} onOpenChange={(open) => !open && setPurgingItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Forever</AlertDialogTitle>
+            <AlertDialogDescription>
+              Permanently delete <strong>{purgingItem?.name}</strong>? This action cannot be undone.
+              {purgingItem?.entityType === 'PROJECT' &&
+                ' Its stages, expenses, payments, documents and BOQ will be deleted with it.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={purgeMutation.isPending} className="cursor-pointer">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmPurge}
+              disabled={purgeMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90 cursor-pointer"
+            >
+              {purgeMutation.isPending ? 'Deleting...' : 'Delete Forever'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
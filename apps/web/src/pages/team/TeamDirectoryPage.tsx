@@ -3,14 +3,16 @@
  *
  * Main page for managing team members.
  * Features:
- * - Single toolbar with search, role filter, sort, and add button
+ * - Single toolbar with search, role filter, sort, and invite button
+ * - Pending invitations with resend/revoke
  * - Table with team member details
- * - Add/Edit/Delete member dialogs
+ * - Invite/Edit/Delete member dialogs
  */
 
 import { useState, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { toast } from 'sonner';
+import { isAxiosError } from 'axios';
 import { Search, Plus, Users } from 'lucide-react';
 
 import { PageContent, Header } from '@/components/layout';
@@ -34,15 +36,16 @@ import {
 import { TeamMembersTable } from '@/components/team/TeamMembersTable';
 import { AddMemberDialog } from '@/components/team/AddMemberDialog';
 import { DeleteMemberDialog } from '@/components/team/DeleteMemberDialog';
-import {
-  useTeamMembers,
-  useCreateTeamMember,
-  useUpdateTeamMember,
-  useDeleteTeamMember,
-} from '@/lib/hooks/useTeam';
+import { PendingInvitations } from '@/components/team/PendingInvitations';
+import { useTeamMembers, useUpdateTeamMember, useDeleteTeamMember } from '@/lib/hooks/useTeam';
+import { useCreateInvitation } from '@/lib/hooks/useInvitations';
 import { useRoles } from '@/lib/hooks/useRoles';
+import { useProjects } from '@/lib/hooks/useProjects';
+import { useParties } from '@/lib/hooks/useParties';
 import { useDebounce } from '@/lib/hooks/useDebounce';
-import type { TeamMember, CreateTeamMemberInput, UpdateTeamMemberInput } from '@/lib/api/team';
+import { useCan } from '@/lib/hooks/usePermissions';
+import type { TeamMember, UpdateTeamMemberInput } from '@/lib/api/team';
+import type { CreateInvitationInput } from '@/lib/api/invitations';
 
 // ============================================
 // Constants
@@ -55,6 +58,7 @@ const PAGINATION_LIMIT = 10;
 // ============================================
 
 export default function TeamDirectoryPage() {
+  const can = useCan();
   const [searchParams, setSearchParams] = useSearchParams();
 
   // URL state
@@ -80,9 +84,11 @@ export default function TeamDirectoryPage() {
   });
 
   const { data: rolesData, isLoading: isLoadingRoles } = useRoles({ limit: 50 });
+  const { data: projectsData } = useProjects({ limit: 100 });
+  const { data: clientsData } = useParties({ type: 'CLIENT', limit: 100 });
 
   // Mutations
-  const createMutation = useCreateTeamMember();
+  const inviteMutation = useCreateInvitation();
   const updateMutation = useUpdateTeamMember();
   const deleteMutation = useDeleteTeamMember();
 
@@ -141,22 +147,30 @@ export default function TeamDirectoryPage() {
   }, []);
 
   const handleSubmitMember = useCallback(
-    async (data: CreateTeamMemberInput | UpdateTeamMemberInput) => {
+    async (data: CreateInvitationInput | UpdateTeamMemberInput) => {
       try {
         if (selectedMember) {
           await updateMutation.mutateAsync({ id: selectedMember.id, data });
           toast.success('Team member updated successfully');
         } else {
-          await createMutation.mutateAsync(data as CreateTeamMemberInput);
-          toast.success('Team member added successfully');
+          const invitation = await inviteMutation.mutateAsync(data as CreateInvitationInput);
+          if (invitation.deliveryStatus === 'FAILED') {
+            toast.warning('Invitation saved, but the SMS could not be sent. Resend it below.');
+          } else {
+            toast.success('Invitation sent');
+          }
         }
         setIsAddDialogOpen(false);
         setSelectedMember(null);
-      } catch {
-        toast.error(selectedMember ? 'Failed to update team member' : 'Failed to add team member');
+      } catch (error) {
+        // Surface conflicts such as an existing member or a pending invitation
+        const message = isAxiosError(error) ? error.response?.data?.error?.message : undefined;
+        toast.error(
+          message || (selectedMember ? 'Failed to update team member' : 'Failed to send invitation')
+        );
       }
     },
-    [selectedMember, createMutation, updateMutation]
+    [selectedMember, inviteMutation, updateMutation]
   );
 
   const handleConfirmDelete = useCallback(async () => {
@@ -175,6 +189,8 @@ export default function TeamDirectoryPage() {
   // Derived state
   const members = membersData?.items || [];
   const roles = rolesData?.items || [];
+  const projects = projectsData?.items || [];
+  const clients = clientsData?.items || [];
   const pagination = membersData?.pagination || {
     page: 1,
     limit: PAGINATION_LIMIT,
@@ -259,12 +275,17 @@ export default function TeamDirectoryPage() {
             </div>
 
             {/* Add Member Button */}
-            <Button onClick={handleAddMember} className="cursor-pointer">
-              <Plus className="mr-2 h-4 w-4" />
-              Add member
-            </Button>
+            {can('team.manage') && (
+              <Button onClick={handleAddMember} className="cursor-pointer">
+                <Plus className="mr-2 h-4 w-4" />
+                Invite member
+              </Button>
+            )}
           </div>
 
+          {/* Pending Invitations */}
+          <PendingInvitations canManage={can('team.manage')} />
+
           {/* Table Content */}
           {isLoading ? (
             <div className="rounded-lg border overflow-hidden">
@@ -291,13 +312,13 @@ export default function TeamDirectoryPage() {
                 <EmptyDescription>
                   {debouncedSearch
                     ? `No members match "${debouncedSearch}"`
-                    : 'Get started by adding your first team member'}
+                    : 'Get started by inviting your first team member'}
                 </EmptyDescription>
               </EmptyHeader>
               <EmptyContent>
                 <Button onClick={handleAddMember} className="cursor-pointer">
                   <Plus className="mr-2 h-4 w-4" />
-                  Add member
+                  Invite member
                 </Button>
               </EmptyContent>
             </Empty>
@@ -356,14 +377,16 @@ export default function TeamDirectoryPage() {
         </div>
       </PageContent>
 
-      {/* Add/Edit Member Dialog */}
+      {/* Invite/Edit Member Dialog */}
       <AddMemberDialog
         open={isAddDialogOpen}
         onOpenChange={setIsAddDialogOpen}
         member={selectedMember}
         roles={roles}
+        projects={projects}
+        clients={clients}
         onSubmit={handleSubmitMember}
-        isSubmitting={createMutation.isPending || updateMutation.isPending}
+        isSubmitting={inviteMutation.isPending || updateMutation.isPending}
       />
 
       {/* Delete Confirmation Dialog */}
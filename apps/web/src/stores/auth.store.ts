@@ -1,10 +1,11 @@
 /**
  * Auth Store - Zustand store for authentication state
  *
- * Simple token-based auth:
- * - Single access token stored in localStorage
+ * Token-based auth:
+ * - Short-lived access token and single-use refresh token stored in localStorage
  * - Organization context stored alongside user
- * - On 401, user is redirected to login
+ * - On 401, the interceptor rotates the refresh token; login is only required
+ *   when the session itself is gone
  */
 
 import { create } from 'zustand';
@@ -21,7 +22,7 @@ export interface Organization {
   name: string;
 }
 
-export type UserRole = 'ADMIN' | 'MANAGER' | 'ACCOUNTANT';
+export type UserRole = 'ADMIN' | 'MANAGER' | 'ACCOUNTANT' | 'SUPERVISOR' | 'CLIENT';
 
 interface AuthState {
   // Persisted state
@@ -29,24 +30,36 @@ interface AuthState {
   organization: Organization | null;
   userRole: UserRole | null;
   accessToken: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
 
   // Auth flow state (not persisted)
   phoneNumber: string;
   countryCode: string;
   step: 'phone' | 'otp' | 'complete';
+  // When the server allows the next OTP (resend cooldown or lockout)
+  otpRetryAt: string | null;
 
   // Actions
   setPhoneNumber: (phone: string) => void;
   setCountryCode: (code: string) => void;
   setStep: (step: 'phone' | 'otp' | 'complete') => void;
+  setOtpRetryAt: (retryAt: string | null) => void;
   loginSuccess: (params: {
     user: User;
     organization: Organization | null;
     role: UserRole | null;
     accessToken: string;
+    refreshToken: string;
   }) => void;
   setOrganization: (organization: Organization) => void;
+  switchOrganization: (params: {
+    organization: Organization;
+    role: UserRole | null;
+    accessToken: string;
+    refreshToken: string;
+  }) => void;
+  setTokens: (tokens: { accessToken: string; refreshToken: string }) => void;
   updateUser: (userData: Partial<User>) => void;
   logoutUser: () => void;
 }
@@ -59,28 +72,33 @@ export const useAuthStore = create<AuthState>()(
       organization: null,
       userRole: null,
       accessToken: null,
+      refreshToken: null,
       isAuthenticated: false,
       phoneNumber: '',
       countryCode: '+91',
       step: 'phone',
+      otpRetryAt: null,
 
       // Auth flow actions
       setPhoneNumber: (phone) => set({ phoneNumber: phone }),
       setCountryCode: (code) => set({ countryCode: code }),
       setStep: (step) => set({ step }),
+      setOtpRetryAt: (retryAt) => set({ otpRetryAt: retryAt }),
 
       /**
        * Called after successful OTP verification.
-       * Stores user, organization, role, and token.
+       * Stores user, organization, role, and tokens.
        */
-      loginSuccess: ({ user, organization, role, accessToken }) =>
+      loginSuccess: ({ user, organization, role, accessToken, refreshToken }) =>
         set({
           user,
           organization,
           userRole: role,
           accessToken,
+          refreshToken,
           isAuthenticated: true,
           step: 'complete',
+          otpRetryAt: null,
         }),
 
       /**
@@ -91,6 +109,26 @@ export const useAuthStore = create<AuthState>()(
           organization,
         }),
 
+      /**
+       * Make another organization active using the token issued for it
+       */
+      switchOrganization: ({ organization, role, accessToken, refreshToken }) =>
+        set({
+          organization,
+          userRole: role,
+          accessToken,
+          refreshToken,
+        }),
+
+      /**
+       * Replace the token pair (after refresh rotation or onboarding)
+       */
+      setTokens: ({ accessToken, refreshToken }) =>
+        set({
+          accessToken,
+          refreshToken,
+        }),
+
       /**
        * Update user info (e.g., after onboarding)
        */
@@ -108,9 +146,11 @@ export const useAuthStore = create<AuthState>()(
           organization: null,
           userRole: null,
           accessToken: null,
+          refreshToken: null,
           isAuthenticated: false,
           phoneNumber: '',
           step: 'phone',
+          otpRetryAt: null,
         }),
     }),
     {
@@ -121,6 +161,7 @@ export const useAuthStore = create<AuthState>()(
         organization: state.organization,
         userRole: state.userRole,
         accessToken: state.accessToken,
+        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
       }),
     }
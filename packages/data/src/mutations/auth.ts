@@ -10,6 +10,9 @@ interface SendOtpResponse {
   message: string;
   phone: string;
   expiresAt: string;
+  // Earliest time another OTP can be requested for this phone
+  resendAvailableAt: string;
+  resendCooldownSeconds: number;
   devHint?: string;
 }
 
@@ -25,6 +28,7 @@ interface VerifyOtpResponse {
   organization: { id: string; name: string } | null;
   role: 'ADMIN' | 'MANAGER' | 'ACCOUNTANT' | null;
   accessToken: string;
+  refreshToken: string;
   expiresIn: number;
   isNewUser: boolean;
 }
@@ -32,7 +36,7 @@ interface VerifyOtpResponse {
 interface ApiResponse<T> {
   success: boolean;
   data?: T;
-  error?: { message: string; code: string };
+  error?: { message: string; code: string; details?: unknown };
 }
 
 // Generic request function type (injected from web app)
@@ -90,15 +94,17 @@ export function useVerifyOtp() {
 }
 
 /**
- * Logout user
+ * Logout user, ending the server-side session of the given refresh token
  */
 export function useLogout() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (): Promise<ApiResponse<{ message: string }>> => {
+    mutationFn: async (refreshToken?: string | null): Promise<ApiResponse<{ message: string }>> => {
       const request = getRequestFn();
-      return request<{ message: string }>('post', '/auth/logout');
+      return request<{ message: string }>('post', '/auth/logout', {
+        ...(refreshToken && { refreshToken }),
+      });
     },
     onSuccess: () => {
       // Clear all queries on logout